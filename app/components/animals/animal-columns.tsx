@@ -0,0 +1,139 @@
+import { useMemo } from 'react'
+import { Link } from '@tanstack/react-router'
+import { Edit2, Tag, Trash2 } from 'lucide-react'
+import type { ColumnDef } from '@tanstack/react-table'
+import type { AnimalWithDetails } from '~/features/animals/repository'
+import type { AnimalStatus } from '~/features/animals/types'
+import { calculateAgeInMonths } from '~/features/animals/service'
+import { Badge } from '~/components/ui/badge'
+import { Button } from '~/components/ui/button'
+
+interface UseAnimalColumnsProps {
+  t: (key: string, options?: any) => string
+  onEdit: (animal: AnimalWithDetails) => void
+  onDelete: (animal: AnimalWithDetails) => void
+}
+
+const STATUS_VARIANTS: Record<
+  AnimalStatus,
+  'default' | 'secondary' | 'destructive' | 'outline'
+> = {
+  active: 'default',
+  sold: 'secondary',
+  dead: 'destructive',
+  culled: 'outline',
+}
+
+export function formatAnimalAge(
+  t: (key: string, options?: any) => string,
+  months: number | null,
+): string {
+  if (months === null) return '—'
+  if (months < 24) {
+    return t('animals:ageMonths', {
+      count: months,
+      defaultValue: '{{count}} mo',
+    })
+  }
+  return t('animals:ageYears', {
+    count: Math.floor(months / 12),
+    defaultValue: '{{count}} yr',
+  })
+}
+
+export function useAnimalColumns({
+  t,
+  onEdit,
+  onDelete,
+}: UseAnimalColumnsProps): Array<ColumnDef<AnimalWithDetails>> {
+  return useMemo(
+    () => [
+      {
+        accessorKey: 'tagNumber',
+        header: t('animals:tag', { defaultValue: 'Tag' }),
+        cell: ({ row }) => (
+          <Link
+            to="/animals/$animalId"
+            params={{ animalId: row.original.id }}
+            className="flex items-center gap-2 hover:underline"
+          >
+            <Tag className="h-4 w-4 text-muted-foreground" />
+            <div className="flex flex-col">
+              <span className="font-medium">{row.original.tagNumber}</span>
+              {row.original.name && (
+                <span className="text-xs text-muted-foreground">
+                  {row.original.name}
+                </span>
+              )}
+            </div>
+          </Link>
+        ),
+      },
+      {
+        accessorKey: 'sex',
+        header: t('animals:sex', { defaultValue: 'Sex' }),
+        cell: ({ row }) => t(`animals:sexes.${row.original.sex}`),
+      },
+      {
+        accessorKey: 'dateOfBirth',
+        header: t('animals:age', { defaultValue: 'Age' }),
+        cell: ({ row }) =>
+          formatAnimalAge(t, calculateAgeInMonths(row.original.dateOfBirth)),
+      },
+      {
+        id: 'batch',
+        header: t('batches:batch', { defaultValue: 'Batch' }),
+        cell: ({ row }) => (
+          <div className="flex flex-col">
+            <span>
+              {row.original.batchName ?? row.original.batchSpecies ?? '—'}
+            </span>
+            {row.original.structureName && (
+              <span className="text-xs text-muted-foreground">
+                {row.original.structureName}
+              </span>
+            )}
+          </div>
+        ),
+      },
+      {
+        id: 'parents',
+        header: t('animals:parents', { defaultValue: 'Dam / Sire' }),
+        cell: ({ row }) =>
+          `${row.original.damTag ?? '—'} / ${row.original.sireTag ?? '—'}`,
+      },
+      {
+        accessorKey: 'status',
+        header: t('common:status', { defaultValue: 'Status' }),
+        cell: ({ row }) => (
+          <Badge variant={STATUS_VARIANTS[row.original.status]}>
+            {t(`animals:statuses.${row.original.status}`)}
+          </Badge>
+        ),
+      },
+      {
+        id: 'actions',
+        cell: ({ row }) => (
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => onEdit(row.original)}
+            >
+              <Edit2 className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="text-destructive"
+              onClick={() => onDelete(row.original)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ),
+      },
+    ],
+    [t, onEdit, onDelete],
+  )
+}
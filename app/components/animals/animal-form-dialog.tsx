@@ -0,0 +1,482 @@
+import { useTranslation } from 'react-i18next'
+import { useEffect, useState } from 'react'
+import type {
+  AnimalBatch,
+  AnimalLivestockType,
+  AnimalParentOption,
+  AnimalSex,
+  AnimalStatus,
+  AnimalStructure,
+  CreateAnimalInput,
+  UpdateAnimalInput,
+} from '~/features/animals/types'
+import {
+  ANIMAL_SEXES,
+  ANIMAL_STATUSES,
+  TAGGABLE_LIVESTOCK_TYPES,
+} from '~/features/animals/types'
+import { Button } from '~/components/ui/button'
+import { Input } from '~/components/ui/input'
+import { Label } from '~/components/ui/label'
+import { Textarea } from '~/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '~/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '~/components/ui/dialog'
+
+interface AnimalFormInitialData {
+  id: string
+  tagNumber: string
+  rfid: string | null
+  name: string | null
+  livestockType: AnimalLivestockType
+  sex: AnimalSex
+  dateOfBirth: Date | string | null
+  batchId: string | null
+  damId: string | null
+  sireId: string | null
+  status: AnimalStatus
+  structureId: string | null
+  notes: string | null
+}
+
+interface AnimalFormDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSubmit: (data: CreateAnimalInput & UpdateAnimalInput) => Promise<void>
+  batches: Array<AnimalBatch>
+  structures: Array<AnimalStructure>
+  parents: Array<AnimalParentOption>
+  isSubmitting: boolean
+  initialData?: AnimalFormInitialData
+}
+
+const NONE = 'none'
+
+const emptyForm = {
+  tagNumber: '',
+  rfid: '',
+  name: '',
+  livestockType: 'cattle' as AnimalLivestockType,
+  sex: 'female' as AnimalSex,
+  dateOfBirth: '',
+  batchId: NONE,
+  damId: NONE,
+  sireId: NONE,
+  status: 'active' as AnimalStatus,
+  structureId: NONE,
+  notes: '',
+}
+
+const toId = (value: string) => (value === NONE ? null : value)
+
+export function AnimalFormDialog({
+  open,
+  onOpenChange,
+  onSubmit,
+  batches,
+  structures,
+  parents,
+  isSubmitting,
+  initialData,
+}: AnimalFormDialogProps) {
+  const { t } = useTranslation(['animals', 'common', 'batches'])
+  const [formData, setFormData] = useState(emptyForm)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (initialData) {
+      setFormData({
+        tagNumber: initialData.tagNumber,
+        rfid: initialData.rfid ?? '',
+        name: initialData.name ?? '',
+        livestockType: initialData.livestockType,
+        sex: initialData.sex,
+        dateOfBirth: initialData.dateOfBirth
+          ? new Date(initialData.dateOfBirth).toISOString().split('T')[0]
+          : '',
+        batchId: initialData.batchId ?? NONE,
+        damId: initialData.damId ?? NONE,
+        sireId: initialData.sireId ?? NONE,
+        status: initialData.status,
+        structureId: initialData.structureId ?? NONE,
+        notes: initialData.notes ?? '',
+      })
+    } else {
+      setFormData(emptyForm)
+    }
+    setError('')
+  }, [initialData, open])
+
+  const batchOptions = batches.filter(
+    (b) => b.livestockType === formData.livestockType,
+  )
+  const parentOptions = (sex: AnimalSex) =>
+    parents.filter(
+      (p) =>
+        p.sex === sex &&
+        p.livestockType === formData.livestockType &&
+        p.id !== initialData?.id,
+    )
+  const selectedBatch = batches.find((b) => b.id === formData.batchId)
+  const selectedStructure = structures.find(
+    (s) => s.id === formData.structureId,
+  )
+  const labelParent = (id: string) => {
+    const parent = parents.find((p) => p.id === id)
+    if (!parent) return t('animals:unknown', { defaultValue: 'Unknown' })
+    return parent.name
+      ? `${parent.tagNumber} (${parent.name})`
+      : parent.tagNumber
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    try {
+      await onSubmit({
+        tagNumber: formData.tagNumber,
+        rfid: formData.rfid || null,
+        name: formData.name || null,
+        livestockType: formData.livestockType,
+        sex: formData.sex,
+        dateOfBirth: formData.dateOfBirth
+          ? new Date(formData.dateOfBirth)
+          : null,
+        batchId: toId(formData.batchId),
+        damId: toId(formData.damId),
+        sireId: toId(formData.sireId),
+        structureId: toId(formData.structureId),
+        notes: formData.notes || null,
+        ...(initialData && { status: formData.status }),
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  const setField =
+    (field: 'tagNumber' | 'rfid' | 'name' | 'dateOfBirth' | 'notes') =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>): void =>
+      setFormData((prev) => ({ ...prev, [field]: e.target.value }))
+
+  const setSelect =
+    (field: 'batchId' | 'damId' | 'sireId' | 'structureId') =>
+    (value: string | null) =>
+      setFormData((prev) => ({ ...prev, [field]: value || NONE }))
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            {initialData
+              ? t('animals:editTitle', { defaultValue: 'Edit Animal' })
+              : t('animals:addTitle', { defaultValue: 'Register Animal' })}
+          </DialogTitle>
+          {!initialData && (
+            <DialogDescription>
+              {t('animals:addDescription', {
+                defaultValue:
+                  'Tag an individual cow, goat or sheep and record its parentage',
+              })}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="tagNumber">
+                {t('animals:tagNumber', { defaultValue: 'Tag Number' })}
+              </Label>
+              <Input
+                id="tagNumber"
+                value={formData.tagNumber}
+                onChange={setField('tagNumber')}
+                maxLength={50}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rfid">
+                {t('animals:rfid', { defaultValue: 'RFID' })} (
+                {t('common:optional', { defaultValue: 'Optional' })})
+              </Label>
+              <Input
+                id="rfid"
+                value={formData.rfid}
+                onChange={setField('rfid')}
+                maxLength={32}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="name">
+              {t('animals:name', { defaultValue: 'Name' })} (
+              {t('common:optional', { defaultValue: 'Optional' })})
+            </Label>
+            <Input
+              id="name"
+              value={formData.name}
+              onChange={setField('name')}
+              maxLength={100}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            {!initialData && (
+              <div className="space-y-2">
+                <Label>
+                  {t('animals:livestockType', { defaultValue: 'Type' })}
+                </Label>
+                <Select
+                  value={formData.livestockType}
+                  onValueChange={(value: string | null) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      livestockType: (value || 'cattle') as AnimalLivestockType,
+                      batchId: NONE,
+                      damId: NONE,
+                      sireId: NONE,
+                    }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue>
+                      {t(`animals:types.${formData.livestockType}`)}
+                    </SelectValue>
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TAGGABLE_LIVESTOCK_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {t(`animals:types.${type}`)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>{t('animals:sex', { defaultValue: 'Sex' })}</Label>
+              <Select
+                value={formData.sex}
+                onValueChange={(value: string | null) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    sex: (value || 'female') as AnimalSex,
+                  }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue>
+                    {t(`animals:sexes.${formData.sex}`)}
+                  </SelectValue>
+                </SelectTrigger>
+                <SelectContent>
+                  {ANIMAL_SEXES.map((sex) => (
+                    <SelectItem key={sex} value={sex}>
+                      {t(`animals:sexes.${sex}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dateOfBirth">
+                {t('animals:dateOfBirth', { defaultValue: 'Date of Birth' })}
+              </Label>
+              <Input
+                id="dateOfBirth"
+                type="date"
+                value={formData.dateOfBirth}
+                onChange={setField('dateOfBirth')}
+              />
+            </div>
+            {initialData && (
+              <div className="space-y-2">
+                <Label>{t('common:status', { defaultValue: 'Status' })}</Label>
+                <Select
+                  value={formData.status}
+                  onValueChange={(value: string | null) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      status: (value || 'active') as AnimalStatus,
+                    }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue>
+                      {t(`animals:statuses.${formData.status}`)}
+                    </SelectValue>
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ANIMAL_STATUSES.map((status) => (
+                      <SelectItem key={status} value={status}>
+                        {t(`animals:statuses.${status}`)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>{t('batches:batch', { defaultValue: 'Batch' })}</Label>
+              <Select
+                value={formData.batchId}
+                onValueChange={setSelect('batchId')}
+              >
+                <SelectTrigger>
+                  <SelectValue>
+                    {selectedBatch
+                      ? `${selectedBatch.species} (${selectedBatch.currentQuantity})`
+                      : t('animals:none', { defaultValue: 'None' })}
+                  </SelectValue>
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>
+                    {t('animals:none', { defaultValue: 'None' })}
+                  </SelectItem>
+                  {batchOptions.map((batch) => (
+                    <SelectItem key={batch.id} value={batch.id}>
+                      {batch.species} ({batch.currentQuantity})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>
+                {t('animals:structure', { defaultValue: 'Pen / Pasture' })}
+              </Label>
+              <Select
+                value={formData.structureId}
+                onValueChange={setSelect('structureId')}
+              >
+                <SelectTrigger>
+                  <SelectValue>
+                    {selectedStructure
+                      ? selectedStructure.name
+                      : t('animals:none', { defaultValue: 'None' })}
+                  </SelectValue>
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>
+                    {t('animals:none', { defaultValue: 'None' })}
+                  </SelectItem>
+                  {structures.map((structure) => (
+                    <SelectItem key={structure.id} value={structure.id}>
+                      {structure.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>{t('animals:dam', { defaultValue: 'Dam' })}</Label>
+              <Select value={formData.damId} onValueChange={setSelect('damId')}>
+                <SelectTrigger>
+                  <SelectValue>
+                    {formData.damId === NONE
+                      ? t('animals:unknown', { defaultValue: 'Unknown' })
+                      : labelParent(formData.damId)}
+                  </SelectValue>
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>
+                    {t('animals:unknown', { defaultValue: 'Unknown' })}
+                  </SelectItem>
+                  {parentOptions('female').map((parent) => (
+                    <SelectItem key={parent.id} value={parent.id}>
+                      {labelParent(parent.id)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{t('animals:sire', { defaultValue: 'Sire' })}</Label>
+              <Select
+                value={formData.sireId}
+                onValueChange={setSelect('sireId')}
+              >
+                <SelectTrigger>
+                  <SelectValue>
+                    {formData.sireId === NONE
+                      ? t('animals:unknown', { defaultValue: 'Unknown' })
+                      : labelParent(formData.sireId)}
+                  </SelectValue>
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>
+                    {t('animals:unknown', { defaultValue: 'Unknown' })}
+                  </SelectItem>
+                  {parentOptions('male').map((parent) => (
+                    <SelectItem key={parent.id} value={parent.id}>
+                      {labelParent(parent.id)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="notes">
+              {t('common:notes', { defaultValue: 'Notes' })}
+            </Label>
+            <Textarea
+              id="notes"
+              value={formData.notes}
+              onChange={setField('notes')}
+            />
+          </div>
+
+          {error && (
+            <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+              {error}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSubmitting}
+            >
+              {t('common:cancel', { defaultValue: 'Cancel' })}
+            </Button>
+            <Button
+              type="submit"
+              disabled={isSubmitting || formData.tagNumber.trim() === ''}
+            >
+              {isSubmitting
+                ? t('common:saving', { defaultValue: 'Saving...' })
+                : initialData
+                  ? t('common:saveChanges', { defaultValue: 'Save Changes' })
+                  : t('animals:save', { defaultValue: 'Register Animal' })}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,352 @@
+import { useTranslation } from 'react-i18next'
+import { useEffect, useState } from 'react'
+import type { MortalityCause } from '~/features/mortality/service'
+import { Button } from '~/components/ui/button'
+import { Input } from '~/components/ui/input'
+import { Label } from '~/components/ui/label'
+import { Textarea } from '~/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '~/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '~/components/ui/dialog'
+
+export type AnimalRecordKind = 'weight' | 'vaccination' | 'treatment' | 'death'
+
+export type AnimalRecordInput =
+  | { kind: 'weight'; date: Date; weightKg: number; notes: string | null }
+  | {
+      kind: 'vaccination'
+      date: Date
+      name: string
+      dosage: string
+      nextDueDate: Date | null
+      notes: string | null
+    }
+  | {
+      kind: 'treatment'
+      date: Date
+      name: string
+      reason: string
+      dosage: string
+      withdrawalDays: number
+      notes: string | null
+    }
+  | { kind: 'death'; date: Date; cause: MortalityCause; notes: string | null }
+
+const MORTALITY_CAUSES: ReadonlyArray<{
+  value: MortalityCause
+  label: string
+}> = [
+  { value: 'disease', label: 'Disease' },
+  { value: 'predator', label: 'Predator Attack' },
+  { value: 'weather', label: 'Weather/Environment' },
+  { value: 'starvation', label: 'Starvation' },
+  { value: 'injury', label: 'Injury' },
+  { value: 'poisoning', label: 'Poisoning' },
+  { value: 'culling', label: 'Culling' },
+  { value: 'unknown', label: 'Unknown' },
+  { value: 'other', label: 'Other' },
+]
+
+interface AnimalRecordDialogProps {
+  kind: AnimalRecordKind | null
+  tagNumber: string
+  onOpenChange: (open: boolean) => void
+  onSubmit: (data: AnimalRecordInput) => Promise<void>
+  isSubmitting: boolean
+}
+
+const today = () => new Date().toISOString().split('T')[0]
+
+const emptyForm = {
+  date: today(),
+  weightKg: '',
+  name: '',
+  reason: '',
+  dosage: '',
+  nextDueDate: '',
+  withdrawalDays: '0',
+  cause: 'disease' as MortalityCause,
+  notes: '',
+}
+
+/**
+ * Records a weight, vaccination, treatment or death against one tagged animal
+ */
+export function AnimalRecordDialog({
+  kind,
+  tagNumber,
+  onOpenChange,
+  onSubmit,
+  isSubmitting,
+}: AnimalRecordDialogProps) {
+  const { t } = useTranslation(['animals', 'common'])
+  const [formData, setFormData] = useState(emptyForm)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    setFormData({ ...emptyForm, date: today() })
+    setError('')
+  }, [kind])
+
+  const toInput = (): AnimalRecordInput | null => {
+    const date = new Date(formData.date)
+    const notes = formData.notes || null
+    switch (kind) {
+      case 'weight':
+        return {
+          kind,
+          date,
+          weightKg: parseFloat(formData.weightKg),
+          notes,
+        }
+      case 'vaccination':
+        return {
+          kind,
+          date,
+          name: formData.name,
+          dosage: formData.dosage,
+          nextDueDate: formData.nextDueDate
+            ? new Date(formData.nextDueDate)
+            : null,
+          notes,
+        }
+      case 'treatment':
+        return {
+          kind,
+          date,
+          name: formData.name,
+          reason: formData.reason,
+          dosage: formData.dosage,
+          withdrawalDays: parseInt(formData.withdrawalDays || '0'),
+          notes,
+        }
+      case 'death':
+        return { kind, date, cause: formData.cause, notes }
+      default:
+        return null
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const input = toInput()
+    if (!input) return
+    setError('')
+    try {
+      await onSubmit(input)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  const setField =
+    (
+      field:
+        | 'date'
+        | 'weightKg'
+        | 'name'
+        | 'reason'
+        | 'dosage'
+        | 'nextDueDate'
+        | 'withdrawalDays'
+        | 'notes',
+    ) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>): void =>
+      setFormData((prev) => ({ ...prev, [field]: e.target.value }))
+
+  const selectedCause = MORTALITY_CAUSES.find((c) => c.value === formData.cause)
+
+  return (
+    <Dialog open={kind !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{kind && t(`animals:recordTitles.${kind}`)}</DialogTitle>
+          <DialogDescription>
+            {t('animals:recordDescription', {
+              tag: tagNumber,
+              defaultValue: 'Filed against {{tag}} and its batch',
+            })}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="recordDate">
+              {t('common:date', { defaultValue: 'Date' })}
+            </Label>
+            <Input
+              id="recordDate"
+              type="date"
+              value={formData.date}
+              onChange={setField('date')}
+              required
+            />
+          </div>
+
+          {kind === 'weight' && (
+            <div className="space-y-2">
+              <Label htmlFor="weightKg">
+                {t('animals:weightKg', { defaultValue: 'Weight (kg)' })}
+              </Label>
+              <Input
+                id="weightKg"
+                type="number"
+                min="0"
+                step="0.1"
+                value={formData.weightKg}
+                onChange={setField('weightKg')}
+                required
+              />
+            </div>
+          )}
+
+          {(kind === 'vaccination' || kind === 'treatment') && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="recordName">
+                  {kind === 'vaccination'
+                    ? t('animals:vaccine', { defaultValue: 'Vaccine' })
+                    : t('animals:medication', { defaultValue: 'Medication' })}
+                </Label>
+                <Input
+                  id="recordName"
+                  value={formData.name}
+                  onChange={setField('name')}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="dosage">
+                  {t('animals:dosage', { defaultValue: 'Dosage' })}
+                </Label>
+                <Input
+                  id="dosage"
+                  value={formData.dosage}
+                  onChange={setField('dosage')}
+                  required
+                />
+              </div>
+            </div>
+          )}
+
+          {kind === 'vaccination' && (
+            <div className="space-y-2">
+              <Label htmlFor="nextDueDate">
+                {t('animals:nextDueDate', { defaultValue: 'Next Due' })} (
+                {t('common:optional', { defaultValue: 'Optional' })})
+              </Label>
+              <Input
+                id="nextDueDate"
+                type="date"
+                value={formData.nextDueDate}
+                onChange={setField('nextDueDate')}
+              />
+            </div>
+          )}
+
+          {kind === 'treatment' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="reason">
+                  {t('animals:reason', { defaultValue: 'Reason' })}
+                </Label>
+                <Input
+                  id="reason"
+                  value={formData.reason}
+                  onChange={setField('reason')}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="withdrawalDays">
+                  {t('animals:withdrawalDays', {
+                    defaultValue: 'Withdrawal (days)',
+                  })}
+                </Label>
+                <Input
+                  id="withdrawalDays"
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={formData.withdrawalDays}
+                  onChange={setField('withdrawalDays')}
+                  required
+                />
+              </div>
+            </div>
+          )}
+
+          {kind === 'death' && (
+            <div className="space-y-2">
+              <Label>{t('animals:cause', { defaultValue: 'Cause' })}</Label>
+              <Select
+                value={formData.cause}
+                onValueChange={(value: string | null) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    cause: (value || 'unknown') as MortalityCause,
+                  }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue>{selectedCause?.label}</SelectValue>
+                </SelectTrigger>
+                <SelectContent>
+                  {MORTALITY_CAUSES.map((cause) => (
+                    <SelectItem key={cause.value} value={cause.value}>
+                      {cause.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="recordNotes">
+              {t('common:notes', { defaultValue: 'Notes' })}
+            </Label>
+            <Textarea
+              id="recordNotes"
+              value={formData.notes}
+              onChange={setField('notes')}
+            />
+          </div>
+
+          {error && (
+            <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+              {error}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSubmitting}
+            >
+              {t('common:cancel', { defaultValue: 'Cancel' })}
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting
+                ? t('common:saving', { defaultValue: 'Saving...' })
+                : t('common:save', { defaultValue: 'Save' })}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,86 @@
+import { Mars, ShoppingCart, Tag, Venus } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import type { AnimalSummary } from '~/features/animals/types'
+import { Card, CardContent, CardHeader, CardTitle } from '~/components/ui/card'
+
+interface AnimalSummaryCardsProps {
+  summary: AnimalSummary | null
+}
+
+export function AnimalSummaryCards({ summary }: AnimalSummaryCardsProps) {
+  const { t } = useTranslation(['animals'])
+
+  if (!summary) return null
+
+  return (
+    <div className="grid gap-3 sm:gap-4 grid-cols-1 md:grid-cols-4 mb-6 md:mb-8">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-0 p-2 sm:pb-1 sm:p-3">
+          <CardTitle className="text-[10px] sm:text-xs font-medium text-muted-foreground uppercase tracking-wider">
+            {t('animals:active', { defaultValue: 'Active' })}
+          </CardTitle>
+          <Tag className="h-3 w-3 sm:h-4 sm:w-4 text-muted-foreground" />
+        </CardHeader>
+        <CardContent className="p-2 pt-0 sm:p-3 sm:pt-0">
+          <div className="text-lg sm:text-2xl font-bold">
+            {summary.active.toLocaleString()}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {t('animals:registered', {
+              count: summary.total,
+              defaultValue: '{{count}} registered',
+            })}
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-0 p-2 sm:pb-1 sm:p-3">
+          <CardTitle className="text-[10px] sm:text-xs font-medium text-muted-foreground uppercase tracking-wider">
+            {t('animals:females', { defaultValue: 'Females' })}
+          </CardTitle>
+          <Venus className="h-3 w-3 sm:h-4 sm:w-4 text-pink-600" />
+        </CardHeader>
+        <CardContent className="p-2 pt-0 sm:p-3 sm:pt-0">
+          <div className="text-lg sm:text-2xl font-bold">
+            {summary.females.toLocaleString()}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-0 p-2 sm:pb-1 sm:p-3">
+          <CardTitle className="text-[10px] sm:text-xs font-medium text-muted-foreground uppercase tracking-wider">
+            {t('animals:males', { defaultValue: 'Males' })}
+          </CardTitle>
+          <Mars className="h-3 w-3 sm:h-4 sm:w-4 text-blue-600" />
+        </CardHeader>
+        <CardContent className="p-2 pt-0 sm:p-3 sm:pt-0">
+          <div className="text-lg sm:text-2xl font-bold">
+            {summary.males.toLocaleString()}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-0 p-2 sm:pb-1 sm:p-3">
+          <CardTitle className="text-[10px] sm:text-xs font-medium text-muted-foreground uppercase tracking-wider">
+            {t('animals:sold', { defaultValue: 'Sold' })}
+          </CardTitle>
+          <ShoppingCart className="h-3 w-3 sm:h-4 sm:w-4 text-muted-foreground" />
+        </CardHeader>
+        <CardContent className="p-2 pt-0 sm:p-3 sm:pt-0">
+          <div className="text-lg sm:text-2xl font-bold">
+            {summary.sold.toLocaleString()}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {t('animals:lostCount', {
+              count: summary.lost,
+              defaultValue: '{{count}} dead or culled',
+            })}
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
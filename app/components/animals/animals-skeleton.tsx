@@ -0,0 +1,67 @@
+import { Skeleton } from '~/components/ui/skeleton'
+import { Card, CardContent, CardHeader } from '~/components/ui/card'
+
+export function AnimalsSkeleton() {
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div className="space-y-2">
+          <Skeleton className="h-8 w-48" />
+          <Skeleton className="h-4 w-96" />
+        </div>
+        <Skeleton className="h-10 w-32" />
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        {Array.from({ length: 4 }).map((_, i) => (
+          <Card key={i}>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <Skeleton className="h-4 w-24" />
+              <Skeleton className="h-4 w-4" />
+            </CardHeader>
+            <CardContent>
+              <Skeleton className="h-7 w-16" />
+              <Skeleton className="h-3 w-20 mt-1" />
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Data Table */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div className="space-y-2">
+              <Skeleton className="h-6 w-32" />
+              <Skeleton className="h-4 w-48" />
+            </div>
+            <div className="flex gap-2">
+              <Skeleton className="h-10 w-32" />
+              <Skeleton className="h-10 w-48" />
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            {/* Table Header */}
+            <div className="flex items-center space-x-4">
+              {Array.from({ length: 6 }).map((_, i) => (
+                <Skeleton key={i} className="h-4 w-20" />
+              ))}
+            </div>
+            {/* Table Rows */}
+            {Array.from({ length: 5 }).map((__, i) => (
+              <div key={i} className="flex items-center space-x-4">
+                {Array.from({ length: 6 }).map((___, j) => (
+                  <Skeleton key={j} className="h-4 w-20" />
+                ))}
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,5 @@
+export * from './animal-summary-cards'
+export * from './animal-form-dialog'
+export * from './animal-columns'
+export * from './animal-delete-dialog'
+export * from './animal-record-dialog'
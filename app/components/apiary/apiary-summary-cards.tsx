@@ -0,0 +1,96 @@
+import { AlertTriangle, Droplets, Hexagon, Scale } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import type { ApiarySummary } from '~/features/apiary/types'
+import { Card, CardContent, CardHeader, CardTitle } from '~/components/ui/card'
+
+interface ApiarySummaryCardsProps {
+  summary: ApiarySummary | null
+}
+
+const formatKg = (value: number) =>
+  `${value.toLocaleString(undefined, { maximumFractionDigits: 2 })} kg`
+
+export function ApiarySummaryCards({ summary }: ApiarySummaryCardsProps) {
+  const { t } = useTranslation(['apiary'])
+
+  if (!summary) return null
+
+  return (
+    <div className="grid gap-3 sm:gap-4 grid-cols-1 md:grid-cols-4 mb-6 md:mb-8">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-0 p-2 sm:pb-1 sm:p-3">
+          <CardTitle className="text-[10px] sm:text-xs font-medium text-muted-foreground uppercase tracking-wider">
+            {t('apiary:colonies', { defaultValue: 'Colonies' })}
+          </CardTitle>
+          <Hexagon className="h-3 w-3 sm:h-4 sm:w-4 text-muted-foreground" />
+        </CardHeader>
+        <CardContent className="p-2 pt-0 sm:p-3 sm:pt-0">
+          <div className="text-lg sm:text-2xl font-bold">
+            {summary.colonyCount}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {t('apiary:inspectionCount', {
+              count: summary.inspectionCount,
+              defaultValue: '{{count}} inspections',
+            })}
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-0 p-2 sm:pb-1 sm:p-3">
+          <CardTitle className="text-[10px] sm:text-xs font-medium text-muted-foreground uppercase tracking-wider">
+            {t('apiary:honeyHarvested', { defaultValue: 'Honey Harvested' })}
+          </CardTitle>
+          <Droplets className="h-3 w-3 sm:h-4 sm:w-4 text-amber-500" />
+        </CardHeader>
+        <CardContent className="p-2 pt-0 sm:p-3 sm:pt-0">
+          <div className="text-lg sm:text-2xl font-bold text-amber-500">
+            {formatKg(summary.honeyKg)}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {t('apiary:waxAmount', {
+              amount: formatKg(summary.waxKg),
+              defaultValue: '{{amount}} wax',
+            })}
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-0 p-2 sm:pb-1 sm:p-3">
+          <CardTitle className="text-[10px] sm:text-xs font-medium text-muted-foreground uppercase tracking-wider">
+            {t('apiary:honeyPerColony', { defaultValue: 'Honey per Colony' })}
+          </CardTitle>
+          <Scale className="h-3 w-3 sm:h-4 sm:w-4 text-green-600" />
+        </CardHeader>
+        <CardContent className="p-2 pt-0 sm:p-3 sm:pt-0">
+          <div className="text-lg sm:text-2xl font-bold text-green-600">
+            {formatKg(summary.honeyPerColony)}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-0 p-2 sm:pb-1 sm:p-3">
+          <CardTitle className="text-[10px] sm:text-xs font-medium text-muted-foreground uppercase tracking-wider">
+            {t('apiary:needsAttention', { defaultValue: 'Needs Attention' })}
+          </CardTitle>
+          <AlertTriangle className="h-3 w-3 sm:h-4 sm:w-4 text-destructive" />
+        </CardHeader>
+        <CardContent className="p-2 pt-0 sm:p-3 sm:pt-0">
+          <div
+            className={`text-lg sm:text-2xl font-bold ${summary.hivesNeedingAttention > 0 ? 'text-destructive' : ''}`}
+          >
+            {summary.hivesNeedingAttention}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {t('apiary:needsAttentionHint', {
+              defaultValue: 'Based on each hive’s latest inspection',
+            })}
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
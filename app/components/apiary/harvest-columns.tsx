@@ -0,0 +1,91 @@
+import { useMemo } from 'react'
+import { Edit2, Hexagon, Trash2 } from 'lucide-react'
+import type { ColumnDef } from '@tanstack/react-table'
+import type { HiveHarvestWithDetails } from '~/features/apiary/repository'
+import { Badge } from '~/components/ui/badge'
+import { Button } from '~/components/ui/button'
+
+interface UseHarvestColumnsProps {
+  t: (key: string, options?: any) => string
+  formatDate: (date: Date | string) => string
+  onEdit: (harvest: HiveHarvestWithDetails) => void
+  onDelete: (harvest: HiveHarvestWithDetails) => void
+}
+
+const formatKg = (value: string | number) =>
+  `${Number(value).toLocaleString(undefined, { maximumFractionDigits: 2 })} kg`
+
+export function useHarvestColumns({
+  t,
+  formatDate,
+  onEdit,
+  onDelete,
+}: UseHarvestColumnsProps): Array<ColumnDef<HiveHarvestWithDetails>> {
+  return useMemo(
+    () => [
+      {
+        accessorKey: 'date',
+        header: t('common:date', { defaultValue: 'Date' }),
+        cell: ({ row }) => formatDate(row.original.date),
+      },
+      {
+        accessorKey: 'hiveName',
+        header: t('apiary:hive', { defaultValue: 'Hive' }),
+        cell: ({ row }) => (
+          <div className="flex items-center gap-2">
+            <Hexagon className="h-4 w-4 text-amber-500" />
+            <span className="font-medium">{row.original.hiveName}</span>
+          </div>
+        ),
+      },
+      {
+        id: 'product',
+        header: t('apiary:product', { defaultValue: 'Product' }),
+        cell: ({ row }) => (
+          <Badge variant="outline">
+            {t(`apiary:products.${row.original.product}`, {
+              defaultValue: row.original.product,
+            })}
+          </Badge>
+        ),
+      },
+      {
+        id: 'quantityKg',
+        header: t('apiary:quantity', { defaultValue: 'Quantity' }),
+        cell: ({ row }) => (
+          <span className="font-medium">
+            {formatKg(row.original.quantityKg)}
+          </span>
+        ),
+      },
+      {
+        id: 'framesHarvested',
+        header: t('apiary:framesHarvested', { defaultValue: 'Frames' }),
+        cell: ({ row }) => row.original.framesHarvested ?? '—',
+      },
+      {
+        id: 'actions',
+        cell: ({ row }) => (
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => onEdit(row.original)}
+            >
+              <Edit2 className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="text-destructive"
+              onClick={() => onDelete(row.original)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ),
+      },
+    ],
+    [t, formatDate, onEdit, onDelete],
+  )
+}
@@ -0,0 +1,285 @@
+import { useTranslation } from 'react-i18next'
+import { useEffect, useState } from 'react'
+import type {
+  ApiaryHive,
+  HiveHarvestProduct,
+  UpdateHiveHarvestInput,
+} from '~/features/apiary/types'
+import { HIVE_HARVEST_PRODUCTS } from '~/features/apiary/types'
+import { Button } from '~/components/ui/button'
+import { Input } from '~/components/ui/input'
+import { Label } from '~/components/ui/label'
+import { Textarea } from '~/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '~/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '~/components/ui/dialog'
+
+interface HarvestFormInitialData {
+  structureId: string
+  date: Date | string
+  product: HiveHarvestProduct
+  quantityKg: string
+  framesHarvested: number | null
+  notes: string | null
+}
+
+interface HarvestFormDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSubmit: (
+    data: UpdateHiveHarvestInput & { structureId: string },
+  ) => Promise<void>
+  hives: Array<ApiaryHive>
+  isSubmitting: boolean
+  initialData?: HarvestFormInitialData
+}
+
+const today = () => new Date().toISOString().split('T')[0]
+
+const emptyForm = {
+  structureId: '',
+  date: today(),
+  product: 'honey' as HiveHarvestProduct,
+  quantityKg: '',
+  framesHarvested: '',
+  notes: '',
+}
+
+export function HarvestFormDialog({
+  open,
+  onOpenChange,
+  onSubmit,
+  hives,
+  isSubmitting,
+  initialData,
+}: HarvestFormDialogProps) {
+  const { t } = useTranslation(['apiary', 'common'])
+  const [formData, setFormData] = useState(emptyForm)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (initialData) {
+      setFormData({
+        structureId: initialData.structureId,
+        date: new Date(initialData.date).toISOString().split('T')[0],
+        product: initialData.product,
+        quantityKg: String(Number(initialData.quantityKg)),
+        framesHarvested:
+          initialData.framesHarvested !== null
+            ? String(initialData.framesHarvested)
+            : '',
+        notes: initialData.notes ?? '',
+      })
+    } else {
+      setFormData({ ...emptyForm, date: today() })
+    }
+    setError('')
+  }, [initialData, open])
+
+  const selectedHive = hives.find((h) => h.id === formData.structureId)
+  const quantityKg = parseFloat(formData.quantityKg || '0')
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    try {
+      await onSubmit({
+        structureId: formData.structureId,
+        date: new Date(formData.date),
+        product: formData.product,
+        quantityKg,
+        framesHarvested: formData.framesHarvested
+          ? parseInt(formData.framesHarvested)
+          : null,
+        notes: formData.notes || null,
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  const setField =
+    (field: 'date' | 'quantityKg' | 'framesHarvested' | 'notes') =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>): void =>
+      setFormData((prev) => ({ ...prev, [field]: e.target.value }))
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>
+            {initialData
+              ? t('apiary:editHarvestTitle', { defaultValue: 'Edit Harvest' })
+              : t('apiary:addHarvestTitle', {
+                  defaultValue: 'Record Harvest',
+                })}
+          </DialogTitle>
+          {!initialData && (
+            <DialogDescription>
+              {t('apiary:addHarvestDescription', {
+                defaultValue: 'Enter the honey or wax taken from a hive',
+              })}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {!initialData && (
+            <div className="space-y-2">
+              <Label htmlFor="hive">
+                {t('apiary:hive', { defaultValue: 'Hive' })}
+              </Label>
+              <Select
+                value={formData.structureId}
+                onValueChange={(value: string | null) =>
+                  setFormData((prev) => ({ ...prev, structureId: value || '' }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue>
+                    {selectedHive
+                      ? selectedHive.name
+                      : t('apiary:selectHive', {
+                          defaultValue: 'Select hive',
+                        })}
+                  </SelectValue>
+                </SelectTrigger>
+                <SelectContent>
+                  {hives.map((hive) => (
+                    <SelectItem key={hive.id} value={hive.id}>
+                      {hive.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="date">
+                {t('common:date', { defaultValue: 'Date' })}
+              </Label>
+              <Input
+                id="date"
+                type="date"
+                value={formData.date}
+                onChange={setField('date')}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>{t('apiary:product', { defaultValue: 'Product' })}</Label>
+              <Select
+                value={formData.product}
+                onValueChange={(value: string | null) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    product: (value || 'honey') as HiveHarvestProduct,
+                  }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue>
+                    {t(`apiary:products.${formData.product}`)}
+                  </SelectValue>
+                </SelectTrigger>
+                <SelectContent>
+                  {HIVE_HARVEST_PRODUCTS.map((product) => (
+                    <SelectItem key={product} value={product}>
+                      {t(`apiary:products.${product}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="quantity">
+                {t('apiary:quantityKg', { defaultValue: 'Quantity (kg)' })}
+              </Label>
+              <Input
+                id="quantity"
+                type="number"
+                min="0"
+                step="0.01"
+                value={formData.quantityKg}
+                onChange={setField('quantityKg')}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="frames">
+                {t('apiary:framesHarvested', { defaultValue: 'Frames' })} (
+                {t('common:optional', { defaultValue: 'Optional' })})
+              </Label>
+              <Input
+                id="frames"
+                type="number"
+                min="0"
+                step="1"
+                value={formData.framesHarvested}
+                onChange={setField('framesHarvested')}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="notes">
+              {t('common:notes', { defaultValue: 'Notes' })}
+            </Label>
+            <Textarea
+              id="notes"
+              value={formData.notes}
+              onChange={setField('notes')}
+            />
+          </div>
+
+          {error && (
+            <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+              {error}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSubmitting}
+            >
+              {t('common:cancel', { defaultValue: 'Cancel' })}
+            </Button>
+            <Button
+              type="submit"
+              disabled={
+                isSubmitting ||
+                (!initialData && !formData.structureId) ||
+                quantityKg <= 0
+              }
+            >
+              {isSubmitting
+                ? t('common:saving', { defaultValue: 'Saving...' })
+                : initialData
+                  ? t('common:saveChanges', { defaultValue: 'Save Changes' })
+                  : t('apiary:saveHarvest', { defaultValue: 'Save Harvest' })}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,6 @@
+export * from './apiary-summary-cards'
+export * from './inspection-form-dialog'
+export * from './harvest-form-dialog'
+export * from './inspection-columns'
+export * from './harvest-columns'
+export * from './apiary-delete-dialog'
@@ -0,0 +1,115 @@
+import { useMemo } from 'react'
+import { Check, Edit2, Hexagon, Minus, Trash2 } from 'lucide-react'
+import type { ColumnDef } from '@tanstack/react-table'
+import type { HiveInspectionWithDetails } from '~/features/apiary/repository'
+import { getInspectionWarnings } from '~/features/apiary/service'
+import { Badge } from '~/components/ui/badge'
+import { Button } from '~/components/ui/button'
+
+interface UseInspectionColumnsProps {
+  t: (key: string, options?: any) => string
+  formatDate: (date: Date | string) => string
+  onEdit: (inspection: HiveInspectionWithDetails) => void
+  onDelete: (inspection: HiveInspectionWithDetails) => void
+}
+
+export function useInspectionColumns({
+  t,
+  formatDate,
+  onEdit,
+  onDelete,
+}: UseInspectionColumnsProps): Array<ColumnDef<HiveInspectionWithDetails>> {
+  return useMemo(
+    () => [
+      {
+        accessorKey: 'date',
+        header: t('common:date', { defaultValue: 'Date' }),
+        cell: ({ row }) => formatDate(row.original.date),
+      },
+      {
+        accessorKey: 'hiveName',
+        header: t('apiary:hive', { defaultValue: 'Hive' }),
+        cell: ({ row }) => (
+          <div className="flex items-center gap-2">
+            <Hexagon className="h-4 w-4 text-amber-500" />
+            <span className="font-medium">{row.original.hiveName}</span>
+          </div>
+        ),
+      },
+      {
+        id: 'queenSeen',
+        header: t('apiary:queenSeen', { defaultValue: 'Queen Seen' }),
+        cell: ({ row }) =>
+          row.original.queenSeen ? (
+            <Check className="h-4 w-4 text-green-600" />
+          ) : (
+            <Minus className="h-4 w-4 text-muted-foreground" />
+          ),
+      },
+      {
+        id: 'broodPattern',
+        header: t('apiary:broodPattern', { defaultValue: 'Brood' }),
+        cell: ({ row }) =>
+          t(`apiary:brood.${row.original.broodPattern}`, {
+            defaultValue: row.original.broodPattern,
+          }),
+      },
+      {
+        id: 'swarmCells',
+        header: t('apiary:swarmCells', { defaultValue: 'Swarm Cells' }),
+        cell: ({ row }) => row.original.swarmCells,
+      },
+      {
+        id: 'varroaCount',
+        header: t('apiary:varroaCount', { defaultValue: 'Varroa' }),
+        cell: ({ row }) => row.original.varroaCount ?? '—',
+      },
+      {
+        id: 'warnings',
+        header: t('apiary:status', { defaultValue: 'Status' }),
+        cell: ({ row }) => {
+          const warnings = getInspectionWarnings(row.original)
+          if (warnings.length === 0) {
+            return (
+              <Badge variant="outline">
+                {t('apiary:healthy', { defaultValue: 'Healthy' })}
+              </Badge>
+            )
+          }
+          return (
+            <div className="flex flex-wrap gap-1">
+              {warnings.map((warning) => (
+                <Badge key={warning} variant="destructive">
+                  {t(`apiary:warnings.${warning}`, { defaultValue: warning })}
+                </Badge>
+              ))}
+            </div>
+          )
+        },
+      },
+      {
+        id: 'actions',
+        cell: ({ row }) => (
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => onEdit(row.original)}
+            >
+              <Edit2 className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="text-destructive"
+              onClick={() => onDelete(row.original)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ),
+      },
+    ],
+    [t, formatDate, onEdit, onDelete],
+  )
+}
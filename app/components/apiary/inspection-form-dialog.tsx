@@ -0,0 +1,389 @@
+import { useTranslation } from 'react-i18next'
+import { useEffect, useState } from 'react'
+import { AlertTriangle } from 'lucide-react'
+import type {
+  ApiaryHive,
+  BroodPattern,
+  HiveTemperament,
+  UpdateHiveInspectionInput,
+} from '~/features/apiary/types'
+import { BROOD_PATTERNS, HIVE_TEMPERAMENTS } from '~/features/apiary/types'
+import { getInspectionWarnings } from '~/features/apiary/service'
+import { Button } from '~/components/ui/button'
+import { Input } from '~/components/ui/input'
+import { Label } from '~/components/ui/label'
+import { Switch } from '~/components/ui/switch'
+import { Textarea } from '~/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '~/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '~/components/ui/dialog'
+
+interface InspectionFormInitialData {
+  structureId: string
+  date: Date | string
+  queenSeen: boolean
+  broodPattern: BroodPattern
+  swarmCells: number
+  varroaCount: number | null
+  framesOfBees: number | null
+  temperament: HiveTemperament | null
+  notes: string | null
+}
+
+interface InspectionFormDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSubmit: (
+    data: UpdateHiveInspectionInput & { structureId: string },
+  ) => Promise<void>
+  hives: Array<ApiaryHive>
+  isSubmitting: boolean
+  initialData?: InspectionFormInitialData
+}
+
+const today = () => new Date().toISOString().split('T')[0]
+
+const emptyForm = {
+  structureId: '',
+  date: today(),
+  queenSeen: false,
+  broodPattern: 'solid' as BroodPattern,
+  swarmCells: '0',
+  varroaCount: '',
+  framesOfBees: '',
+  temperament: '' as HiveTemperament | '',
+  notes: '',
+}
+
+export function InspectionFormDialog({
+  open,
+  onOpenChange,
+  onSubmit,
+  hives,
+  isSubmitting,
+  initialData,
+}: InspectionFormDialogProps) {
+  const { t } = useTranslation(['apiary', 'common'])
+  const [formData, setFormData] = useState(emptyForm)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (initialData) {
+      setFormData({
+        structureId: initialData.structureId,
+        date: new Date(initialData.date).toISOString().split('T')[0],
+        queenSeen: initialData.queenSeen,
+        broodPattern: initialData.broodPattern,
+        swarmCells: String(initialData.swarmCells),
+        varroaCount:
+          initialData.varroaCount !== null
+            ? String(initialData.varroaCount)
+            : '',
+        framesOfBees:
+          initialData.framesOfBees !== null
+            ? String(initialData.framesOfBees)
+            : '',
+        temperament: initialData.temperament ?? '',
+        notes: initialData.notes ?? '',
+      })
+    } else {
+      setFormData({ ...emptyForm, date: today() })
+    }
+    setError('')
+  }, [initialData, open])
+
+  const selectedHive = hives.find((h) => h.id === formData.structureId)
+  const warnings = getInspectionWarnings({
+    queenSeen: formData.queenSeen,
+    broodPattern: formData.broodPattern,
+    swarmCells: parseInt(formData.swarmCells || '0'),
+    varroaCount: formData.varroaCount ? parseInt(formData.varroaCount) : null,
+  })
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    try {
+      await onSubmit({
+        structureId: formData.structureId,
+        date: new Date(formData.date),
+        queenSeen: formData.queenSeen,
+        broodPattern: formData.broodPattern,
+        swarmCells: parseInt(formData.swarmCells || '0'),
+        varroaCount: formData.varroaCount
+          ? parseInt(formData.varroaCount)
+          : null,
+        framesOfBees: formData.framesOfBees
+          ? parseInt(formData.framesOfBees)
+          : null,
+        temperament: formData.temperament || null,
+        notes: formData.notes || null,
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  const setField =
+    (field: 'date' | 'swarmCells' | 'varroaCount' | 'framesOfBees' | 'notes') =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>): void =>
+      setFormData((prev) => ({ ...prev, [field]: e.target.value }))
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>
+            {initialData
+              ? t('apiary:editInspectionTitle', {
+                  defaultValue: 'Edit Inspection',
+                })
+              : t('apiary:addInspectionTitle', {
+                  defaultValue: 'Record Inspection',
+                })}
+          </DialogTitle>
+          {!initialData && (
+            <DialogDescription>
+              {t('apiary:addInspectionDescription', {
+                defaultValue:
+                  'Log what you found when opening the hive: queen, brood, swarm cells and mites',
+              })}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {!initialData && (
+            <div className="space-y-2">
+              <Label htmlFor="hive">
+                {t('apiary:hive', { defaultValue: 'Hive' })}
+              </Label>
+              <Select
+                value={formData.structureId}
+                onValueChange={(value: string | null) =>
+                  setFormData((prev) => ({ ...prev, structureId: value || '' }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue>
+                    {selectedHive
+                      ? selectedHive.name
+                      : t('apiary:selectHive', {
+                          defaultValue: 'Select hive',
+                        })}
+                  </SelectValue>
+                </SelectTrigger>
+                <SelectContent>
+                  {hives.map((hive) => (
+                    <SelectItem key={hive.id} value={hive.id}>
+                      {hive.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="date">
+                {t('common:date', { defaultValue: 'Date' })}
+              </Label>
+              <Input
+                id="date"
+                type="date"
+                value={formData.date}
+                onChange={setField('date')}
+                required
+              />
+            </div>
+            <div className="flex items-center justify-between gap-2 pt-6">
+              <Label htmlFor="queenSeen">
+                {t('apiary:queenSeen', { defaultValue: 'Queen Seen' })}
+              </Label>
+              <Switch
+                id="queenSeen"
+                checked={formData.queenSeen}
+                onCheckedChange={(checked) =>
+                  setFormData((prev) => ({ ...prev, queenSeen: !!checked }))
+                }
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>
+                {t('apiary:broodPattern', { defaultValue: 'Brood Pattern' })}
+              </Label>
+              <Select
+                value={formData.broodPattern}
+                onValueChange={(value: string | null) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    broodPattern: (value || 'solid') as BroodPattern,
+                  }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue>
+                    {t(`apiary:brood.${formData.broodPattern}`)}
+                  </SelectValue>
+                </SelectTrigger>
+                <SelectContent>
+                  {BROOD_PATTERNS.map((pattern) => (
+                    <SelectItem key={pattern} value={pattern}>
+                      {t(`apiary:brood.${pattern}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="swarmCells">
+                {t('apiary:swarmCells', { defaultValue: 'Swarm Cells' })}
+              </Label>
+              <Input
+                id="swarmCells"
+                type="number"
+                min="0"
+                step="1"
+                value={formData.swarmCells}
+                onChange={setField('swarmCells')}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="varroa">
+                {t('apiary:varroaCount', { defaultValue: 'Varroa' })} (
+                {t('common:optional', { defaultValue: 'Optional' })})
+              </Label>
+              <Input
+                id="varroa"
+                type="number"
+                min="0"
+                step="1"
+                value={formData.varroaCount}
+                onChange={setField('varroaCount')}
+              />
+              <p className="text-xs text-muted-foreground">
+                {t('apiary:varroaHint', {
+                  defaultValue: 'Mites per ~300-bee wash or sugar roll',
+                })}
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="frames">
+                {t('apiary:framesOfBees', { defaultValue: 'Frames of Bees' })} (
+                {t('common:optional', { defaultValue: 'Optional' })})
+              </Label>
+              <Input
+                id="frames"
+                type="number"
+                min="0"
+                step="1"
+                value={formData.framesOfBees}
+                onChange={setField('framesOfBees')}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>
+              {t('apiary:temperament', { defaultValue: 'Temperament' })} (
+              {t('common:optional', { defaultValue: 'Optional' })})
+            </Label>
+            <Select
+              value={formData.temperament}
+              onValueChange={(value: string | null) =>
+                setFormData((prev) => ({
+                  ...prev,
+                  temperament: (value || '') as HiveTemperament,
+                }))
+              }
+            >
+              <SelectTrigger>
+                <SelectValue>
+                  {formData.temperament
+                    ? t(`apiary:temperaments.${formData.temperament}`)
+                    : t('apiary:selectTemperament', {
+                        defaultValue: 'Select temperament',
+                      })}
+                </SelectValue>
+              </SelectTrigger>
+              <SelectContent>
+                {HIVE_TEMPERAMENTS.map((temperament) => (
+                  <SelectItem key={temperament} value={temperament}>
+                    {t(`apiary:temperaments.${temperament}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {warnings.length > 0 && (
+            <div className="flex gap-2 text-sm text-warning bg-warning/10 p-3 rounded-md">
+              <AlertTriangle className="h-4 w-4 shrink-0" />
+              {warnings
+                .map((warning) => t(`apiary:warnings.${warning}`))
+                .join(', ')}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="notes">
+              {t('common:notes', { defaultValue: 'Notes' })}
+            </Label>
+            <Textarea
+              id="notes"
+              value={formData.notes}
+              onChange={setField('notes')}
+            />
+          </div>
+
+          {error && (
+            <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+              {error}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSubmitting}
+            >
+              {t('common:cancel', { defaultValue: 'Cancel' })}
+            </Button>
+            <Button
+              type="submit"
+              disabled={isSubmitting || (!initialData && !formData.structureId)}
+            >
+              {isSubmitting
+                ? t('common:saving', { defaultValue: 'Saving...' })
+                : initialData
+                  ? t('common:saveChanges', { defaultValue: 'Save Changes' })
+                  : t('apiary:saveInspection', {
+                      defaultValue: 'Save Inspection',
+                    })}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -6,6 +6,7 @@ import {
   Edit,
   Fish,
   MapPin,
+  ShieldAlert,
   Trash2,
   Warehouse,
 } from 'lucide-react'
@@ -29,11 +30,18 @@ export interface BatchHeaderData {
 
 interface BatchHeaderProps {
   batch: BatchHeaderData
+  /** Open treatment withdrawal window, if any */
+  withdrawal?: { clearsOn: Date; medications: Array<string> } | null
   onEdit: () => void
   onDelete: () => void
 }
 
-export function BatchHeader({ batch, onEdit, onDelete }: BatchHeaderProps) {
+export function BatchHeader({
+  batch,
+  withdrawal,
+  onEdit,
+  onDelete,
+}: BatchHeaderProps) {
   const { t } = useTranslation(['batches', 'common'])
   const { format: formatDate } = useFormatDate()
 
@@ -112,6 +120,19 @@ export function BatchHeader({ batch, onEdit, onDelete }: BatchHeaderProps) {
             >
               {batch.status}
             </Badge>
+            {withdrawal && (
+              <Badge
+                variant="destructive"
+                className="rounded-full text-[10px] font-semibold"
+                title={withdrawal.medications.join(', ')}
+              >
+                <ShieldAlert className="h-3 w-3 mr-1" />
+                {t('batches:withdrawalClearsOn', {
+                  date: formatDate(withdrawal.clearsOn),
+                  defaultValue: 'Withdrawal clears on {{date}}',
+                })}
+              </Badge>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,249 @@
+import { useQuery } from '@tanstack/react-query'
+import { useTranslation } from 'react-i18next'
+import { format } from 'date-fns'
+import { Thermometer } from 'lucide-react'
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts'
+import type { SensorType } from '~/features/sensors/types'
+import { getBatchEnvironmentReportFn } from '~/features/sensors/server'
+import { SENSOR_TYPE_CONFIG } from '~/features/sensors/constants'
+import { Badge } from '~/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '~/components/ui/card'
+import { Skeleton } from '~/components/ui/skeleton'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '~/components/ui/table'
+
+const STRESS_COLORS = ['#f59e0b', '#3b82f6', '#8b5cf6', '#14b8a6']
+
+interface EnvironmentReportProps {
+  batchId: string
+}
+
+export function EnvironmentReport({ batchId }: EnvironmentReportProps) {
+  const { t } = useTranslation(['batches', 'common'])
+  const { data: report, isLoading } = useQuery({
+    queryKey: ['batch', batchId, 'environment-report'],
+    queryFn: () => getBatchEnvironmentReportFn({ data: { batchId } }),
+  })
+
+  const title = t('batches:environment.title', {
+    defaultValue: 'Environment Report',
+  })
+
+  if (isLoading) {
+    return (
+      <Card className="bg-white/30 dark:bg-black/30 backdrop-blur-md border-white/20 dark:border-white/10 shadow-sm rounded-2xl overflow-hidden">
+        <CardHeader>
+          <CardTitle className="text-lg font-bold">{title}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Skeleton className="h-[400px] w-full rounded-xl bg-muted/20" />
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (!report || report.comfort.length === 0) {
+    return (
+      <Card className="bg-white/30 dark:bg-black/30 backdrop-blur-md border-white/20 dark:border-white/10 shadow-sm rounded-2xl overflow-hidden">
+        <CardHeader>
+          <CardTitle className="text-lg font-bold">{title}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col items-center justify-center py-12 text-center">
+            <div className="p-3 rounded-full bg-muted/10 mb-4 text-muted-foreground/30">
+              <Thermometer className="h-10 w-10" />
+            </div>
+            <p className="text-muted-foreground text-sm font-medium max-w-xs">
+              {report?.structureId
+                ? t('batches:environment.noSensorData')
+                : t('batches:environment.noStructure')}
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const sensorTypes = report.comfort.map((c) => c.sensorType)
+  const label = (type: SensorType) => SENSOR_TYPE_CONFIG[type].label
+  const chartData = report.days.map((day) => ({
+    date: day.date,
+    mortality: day.mortality,
+    ...day.stressHours,
+  }))
+
+  return (
+    <div className="space-y-4">
+      {report.impacts.length > 0 && (
+        <Card className="bg-white/30 dark:bg-black/30 backdrop-blur-md border-white/20 dark:border-white/10 shadow-sm rounded-2xl overflow-hidden">
+          <CardHeader>
+            <CardTitle className="text-lg font-bold">
+              {t('batches:environment.impactTitle')}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {report.impacts.map((impact) => (
+              <p key={impact.sensorType} className="text-sm">
+                {t('batches:environment.impactSummary', {
+                  sensor: label(impact.sensorType),
+                  stressDays: impact.stressDays,
+                  deaths: impact.excessMortality,
+                  weightKg: impact.weightLossKg,
+                  feedKg: impact.feedIntakeChangeKg,
+                  lagDays: impact.lagDays,
+                })}
+              </p>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              {t('batches:environment.impactDisclaimer')}
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="bg-white/30 dark:bg-black/30 backdrop-blur-md border-white/20 dark:border-white/10 shadow-sm rounded-2xl overflow-hidden">
+        <CardHeader>
+          <CardTitle className="text-lg font-bold">{title}</CardTitle>
+          <p className="text-[11px] text-muted-foreground font-medium uppercase tracking-wider">
+            {format(new Date(report.startDate), 'MMM d, yyyy')} –{' '}
+            {format(new Date(report.endDate), 'MMM d, yyyy')}
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('batches:environment.sensor')}</TableHead>
+                <TableHead>{t('batches:environment.comfortZone')}</TableHead>
+                <TableHead>{t('batches:environment.timeInZone')}</TableHead>
+                <TableHead>{t('batches:environment.hoursAbove')}</TableHead>
+                <TableHead>{t('batches:environment.hoursBelow')}</TableHead>
+                <TableHead>{t('batches:environment.stressDays')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.comfort.map((summary) => (
+                <TableRow key={summary.sensorType}>
+                  <TableCell className="font-medium">
+                    {label(summary.sensorType)}
+                  </TableCell>
+                  <TableCell>
+                    {summary.zone.min}–{summary.zone.max} {summary.unit}
+                  </TableCell>
+                  <TableCell>
+                    <Badge
+                      variant={
+                        summary.percentInZone >= 80
+                          ? 'secondary'
+                          : 'destructive'
+                      }
+                    >
+                      {summary.percentInZone}%
+                    </Badge>
+                  </TableCell>
+                  <TableCell>{summary.hoursAbove}</TableCell>
+                  <TableCell>{summary.hoursBelow}</TableCell>
+                  <TableCell>{summary.stressDays}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <ResponsiveContainer width="100%" height={320}>
+            <ComposedChart
+              data={chartData}
+              margin={{ top: 10, right: 10, left: -20, bottom: 20 }}
+            >
+              <CartesianGrid
+                strokeDasharray="3 3"
+                vertical={false}
+                stroke="hsl(var(--muted-foreground))"
+                opacity={0.1}
+              />
+              <XAxis
+                dataKey="date"
+                tickFormatter={(v) => format(new Date(v), 'MMM d')}
+                tick={{ fontSize: 10 }}
+              />
+              <YAxis yAxisId="stress" tick={{ fontSize: 10 }} />
+              <YAxis
+                yAxisId="mortality"
+                orientation="right"
+                tick={{ fontSize: 10 }}
+              />
+              <Tooltip />
+              <Legend />
+              {sensorTypes.map((type, i) => (
+                <Bar
+                  key={type}
+                  yAxisId="stress"
+                  dataKey={type}
+                  stackId="stress"
+                  name={t('batches:environment.stressHoursOf', {
+                    sensor: label(type),
+                  })}
+                  fill={STRESS_COLORS[i % STRESS_COLORS.length]}
+                  opacity={0.6}
+                />
+              ))}
+              <Line
+                yAxisId="mortality"
+                type="monotone"
+                dataKey="mortality"
+                name={t('batches:environment.mortality')}
+                stroke="hsl(var(--destructive))"
+                strokeWidth={2}
+                dot={false}
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+
+          {report.correlations.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('batches:environment.sensor')}</TableHead>
+                  <TableHead>{t('batches:environment.outcome')}</TableHead>
+                  <TableHead>{t('batches:environment.lag')}</TableHead>
+                  <TableHead>{t('batches:environment.correlation')}</TableHead>
+                  <TableHead>{t('batches:environment.days')}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.correlations.map((c) => (
+                  <TableRow key={`${c.sensorType}-${c.metric}`}>
+                    <TableCell>{label(c.sensorType)}</TableCell>
+                    <TableCell>
+                      {t(`batches:environment.metrics.${c.metric}`)}
+                    </TableCell>
+                    <TableCell>
+                      {t('batches:environment.lagDays', { count: c.lagDays })}
+                    </TableCell>
+                    <TableCell>{c.coefficient.toFixed(2)}</TableCell>
+                    <TableCell>{c.sampleDays}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
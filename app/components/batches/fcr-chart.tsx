@@ -0,0 +1,198 @@
+import { useQuery } from '@tanstack/react-query'
+import { useTranslation } from 'react-i18next'
+import { Wheat } from 'lucide-react'
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts'
+import { getBatchFcrFn } from '~/features/feed/server'
+import { Badge } from '~/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '~/components/ui/card'
+import { Skeleton } from '~/components/ui/skeleton'
+
+interface FcrChartProps {
+  batchId: string
+}
+
+interface ChartPoint {
+  ageDays: number
+  cumulativeFcr?: number | null
+  periodFcr?: number | null
+  gramsPerHead?: number
+}
+
+export function FcrChart({ batchId }: FcrChartProps) {
+  const { t } = useTranslation(['batches', 'common'])
+  const { data: tracking, isLoading } = useQuery({
+    queryKey: ['batch', batchId, 'fcr'],
+    queryFn: () => getBatchFcrFn({ data: { batchId } }),
+  })
+
+  const title = t('batches:feedConversion.title', {
+    defaultValue: 'Feed Conversion',
+  })
+
+  if (isLoading) {
+    return (
+      <Card className="bg-white/30 dark:bg-black/30 backdrop-blur-md border-white/20 dark:border-white/10 shadow-sm rounded-2xl overflow-hidden">
+        <CardHeader>
+          <CardTitle className="text-lg font-bold">{title}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Skeleton className="h-[360px] w-full rounded-xl bg-muted/20" />
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (
+    !tracking ||
+    (tracking.points.length < 2 && tracking.dailyIntake.length === 0)
+  ) {
+    return (
+      <Card className="bg-white/30 dark:bg-black/30 backdrop-blur-md border-white/20 dark:border-white/10 shadow-sm rounded-2xl overflow-hidden">
+        <CardHeader>
+          <CardTitle className="text-lg font-bold">{title}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col items-center justify-center py-12 text-center">
+            <div className="p-3 rounded-full bg-muted/10 mb-4 text-muted-foreground/30">
+              <Wheat className="h-10 w-10" />
+            </div>
+            <p className="text-muted-foreground text-sm font-medium max-w-xs">
+              {t('batches:feedConversion.empty')}
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  // Weight samples and feed days fall on different days; merge them by age
+  const byAge = new Map<number, ChartPoint>()
+  for (const point of tracking.points) {
+    byAge.set(point.ageDays, {
+      ageDays: point.ageDays,
+      cumulativeFcr: point.cumulativeFcr,
+      periodFcr: point.periodFcr,
+    })
+  }
+  for (const day of tracking.dailyIntake) {
+    const point = byAge.get(day.ageDays) ?? { ageDays: day.ageDays }
+    point.gramsPerHead = day.gramsPerHead
+    byAge.set(day.ageDays, point)
+  }
+  const chartData = [...byAge.values()].sort((a, b) => a.ageDays - b.ageDays)
+
+  const { cumulativeFcr, targetFcr } = tracking
+  const isOffTarget =
+    cumulativeFcr !== null && targetFcr !== null && cumulativeFcr > targetFcr
+
+  return (
+    <Card className="bg-white/30 dark:bg-black/30 backdrop-blur-md border-white/20 dark:border-white/10 shadow-sm rounded-2xl overflow-hidden">
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="text-lg font-bold">{title}</CardTitle>
+          <div className="flex flex-wrap gap-2">
+            <Badge variant={isOffTarget ? 'destructive' : 'secondary'}>
+              {t('batches:feedConversion.cumulative')}: {cumulativeFcr ?? '—'}
+            </Badge>
+            <Badge variant="outline">
+              {t('batches:feedConversion.period')}: {tracking.periodFcr ?? '—'}
+            </Badge>
+            <Badge variant="outline">
+              {t('batches:feedConversion.target')}: {targetFcr ?? '—'}
+            </Badge>
+          </div>
+        </div>
+        <p className="text-[11px] text-muted-foreground font-medium uppercase tracking-wider">
+          {t('batches:feedConversion.description')}
+        </p>
+      </CardHeader>
+      <CardContent>
+        <ResponsiveContainer width="100%" height={360}>
+          <ComposedChart
+            data={chartData}
+            margin={{ top: 10, right: 10, left: -20, bottom: 20 }}
+          >
+            <CartesianGrid
+              strokeDasharray="3 3"
+              vertical={false}
+              stroke="hsl(var(--muted-foreground))"
+              opacity={0.1}
+            />
+            <XAxis
+              dataKey="ageDays"
+              type="number"
+              domain={['dataMin', 'dataMax']}
+              tick={{ fontSize: 10 }}
+            />
+            <YAxis yAxisId="fcr" tick={{ fontSize: 10 }} />
+            <YAxis
+              yAxisId="intake"
+              orientation="right"
+              tick={{ fontSize: 10 }}
+            />
+            <Tooltip
+              labelFormatter={(day) =>
+                t('batches:feedConversion.day', {
+                  day,
+                  defaultValue: 'Day {{day}}',
+                })
+              }
+            />
+            <Legend />
+            <Bar
+              yAxisId="intake"
+              dataKey="gramsPerHead"
+              fill="#f59e0b"
+              opacity={0.4}
+              name={t('batches:feedConversion.intake')}
+            />
+            {targetFcr !== null && (
+              <ReferenceLine
+                yAxisId="fcr"
+                y={targetFcr}
+                stroke="hsl(var(--muted-foreground))"
+                strokeDasharray="5 5"
+                label={{
+                  value: t('batches:feedConversion.target'),
+                  fontSize: 10,
+                  position: 'insideTopRight',
+                }}
+              />
+            )}
+            <Line
+              yAxisId="fcr"
+              type="monotone"
+              dataKey="cumulativeFcr"
+              stroke="hsl(var(--primary))"
+              strokeWidth={3}
+              dot={{ r: 3 }}
+              connectNulls
+              name={t('batches:feedConversion.cumulative')}
+            />
+            <Line
+              yAxisId="fcr"
+              type="monotone"
+              dataKey="periodFcr"
+              stroke="#8b5cf6"
+              strokeWidth={2}
+              dot={{ r: 3 }}
+              connectNulls
+              name={t('batches:feedConversion.period')}
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,108 @@
+import { useMemo } from 'react'
+import { Baby, Edit2, Trash2 } from 'lucide-react'
+import type { ColumnDef } from '@tanstack/react-table'
+import type { BirthRecordWithDetails } from '~/features/breeding/repository'
+import { Button } from '~/components/ui/button'
+
+interface UseBirthColumnsProps {
+  t: (key: string, options?: any) => string
+  formatDate: (date: Date | string) => string
+  onEdit: (birth: BirthRecordWithDetails) => void
+  onDelete: (birth: BirthRecordWithDetails) => void
+}
+
+export function useBirthColumns({
+  t,
+  formatDate,
+  onEdit,
+  onDelete,
+}: UseBirthColumnsProps): Array<ColumnDef<BirthRecordWithDetails>> {
+  return useMemo(
+    () => [
+      {
+        accessorKey: 'birthDate',
+        header: t('breeding:birthDate', { defaultValue: 'Born' }),
+        cell: ({ row }) => formatDate(row.original.birthDate),
+      },
+      {
+        id: 'dams',
+        header: t('breeding:dams', { defaultValue: 'Dams' }),
+        cell: ({ row }) => (
+          <div className="flex flex-col">
+            <span className="font-medium">
+              {row.original.damTag ??
+                t('breeding:femaleCount', {
+                  count: row.original.damCount,
+                  defaultValue: '{{count}} females',
+                })}
+            </span>
+            <span className="text-xs text-muted-foreground">
+              {row.original.batchName ?? row.original.batchSpecies}
+            </span>
+          </div>
+        ),
+      },
+      {
+        accessorKey: 'liveBorn',
+        header: t('breeding:liveBorn', { defaultValue: 'Live Born' }),
+        cell: ({ row }) => (
+          <div className="flex items-center gap-2">
+            <Baby className="h-4 w-4 text-pink-600" />
+            <span className="font-medium">{row.original.liveBorn}</span>
+            {row.original.stillborn > 0 && (
+              <span className="text-xs text-muted-foreground">
+                {t('breeding:stillbornCount', {
+                  count: row.original.stillborn,
+                  defaultValue: '+{{count}} stillborn',
+                })}
+              </span>
+            )}
+          </div>
+        ),
+      },
+      {
+        id: 'offspringBatch',
+        header: t('breeding:offspringBatch', { defaultValue: 'Offspring In' }),
+        cell: ({ row }) => row.original.offspringBatchName ?? '—',
+      },
+      {
+        id: 'weaned',
+        header: t('breeding:weaned', { defaultValue: 'Weaned' }),
+        cell: ({ row }) =>
+          row.original.weanedCount !== null && row.original.weaningDate ? (
+            <div className="flex flex-col">
+              <span>{row.original.weanedCount}</span>
+              <span className="text-xs text-muted-foreground">
+                {formatDate(row.original.weaningDate)}
+              </span>
+            </div>
+          ) : (
+            '—'
+          ),
+      },
+      {
+        id: 'actions',
+        cell: ({ row }) => (
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => onEdit(row.original)}
+            >
+              <Edit2 className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="text-destructive"
+              onClick={() => onDelete(row.original)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ),
+      },
+    ],
+    [t, formatDate, onEdit, onDelete],
+  )
+}
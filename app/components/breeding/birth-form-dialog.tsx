@@ -0,0 +1,280 @@
+import { useTranslation } from 'react-i18next'
+import { useEffect, useState } from 'react'
+import type {
+  CreateBirthRecordInput,
+  OffspringDestination,
+} from '~/features/breeding/types'
+import type { BreedingEventWithDetails } from '~/features/breeding/repository'
+import { useFormatDate } from '~/features/settings'
+import { Button } from '~/components/ui/button'
+import { Input } from '~/components/ui/input'
+import { Label } from '~/components/ui/label'
+import { Textarea } from '~/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '~/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '~/components/ui/dialog'
+
+interface BirthFormDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSubmit: (data: CreateBirthRecordInput) => Promise<void>
+  event: BreedingEventWithDetails | null
+  isSubmitting: boolean
+}
+
+const DESTINATIONS: Array<OffspringDestination> = ['dam_batch', 'new_batch']
+
+const today = () => new Date().toISOString().split('T')[0]
+
+const emptyForm = {
+  birthDate: today(),
+  damCount: '1',
+  liveBorn: '',
+  stillborn: '0',
+  destination: 'dam_batch' as OffspringDestination,
+  batchName: '',
+  notes: '',
+}
+
+export function BirthFormDialog({
+  open,
+  onOpenChange,
+  onSubmit,
+  event,
+  isSubmitting,
+}: BirthFormDialogProps) {
+  const { t } = useTranslation(['breeding', 'common'])
+  const { format: formatDate } = useFormatDate()
+  const [formData, setFormData] = useState(emptyForm)
+  const [error, setError] = useState('')
+
+  const remainingFemales = event ? event.femaleCount - event.deliveredDams : 0
+
+  useEffect(() => {
+    setFormData({
+      ...emptyForm,
+      birthDate: today(),
+      damCount: String(Math.max(remainingFemales, 1)),
+    })
+    setError('')
+  }, [event, open, remainingFemales])
+
+  const liveBorn = parseInt(formData.liveBorn || '0')
+  const stillborn = parseInt(formData.stillborn || '0')
+  const damCount = parseInt(formData.damCount || '0')
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!event) return
+    setError('')
+    try {
+      await onSubmit({
+        breedingEventId: event.id,
+        birthDate: new Date(formData.birthDate),
+        damCount,
+        liveBorn,
+        stillborn,
+        destination: formData.destination,
+        batchName:
+          formData.destination === 'new_batch'
+            ? formData.batchName || null
+            : null,
+        notes: formData.notes || null,
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  const setField =
+    (
+      field:
+        | 'birthDate'
+        | 'damCount'
+        | 'liveBorn'
+        | 'stillborn'
+        | 'batchName'
+        | 'notes',
+    ) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>): void =>
+      setFormData((prev) => ({ ...prev, [field]: e.target.value }))
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>
+            {t('breeding:addBirthTitle', { defaultValue: 'Record Birth' })}
+          </DialogTitle>
+          {event && (
+            <DialogDescription>
+              {t('breeding:addBirthDescription', {
+                dams: event.damTag ?? event.batchName ?? event.batchSpecies,
+                date: formatDate(event.expectedDueDate),
+                defaultValue: '{{dams}}, due {{date}}',
+              })}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="birthDate">
+                {t('breeding:birthDate', { defaultValue: 'Birth Date' })}
+              </Label>
+              <Input
+                id="birthDate"
+                type="date"
+                value={formData.birthDate}
+                onChange={setField('birthDate')}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="damCount">
+                {t('breeding:damCount', { defaultValue: 'Females Delivered' })}
+              </Label>
+              <Input
+                id="damCount"
+                type="number"
+                min="1"
+                max={remainingFemales}
+                step="1"
+                value={formData.damCount}
+                onChange={setField('damCount')}
+                disabled={remainingFemales <= 1}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="liveBorn">
+                {t('breeding:liveBorn', { defaultValue: 'Live Born' })}
+              </Label>
+              <Input
+                id="liveBorn"
+                type="number"
+                min="0"
+                step="1"
+                value={formData.liveBorn}
+                onChange={setField('liveBorn')}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="stillborn">
+                {t('breeding:stillborn', { defaultValue: 'Stillborn' })}
+              </Label>
+              <Input
+                id="stillborn"
+                type="number"
+                min="0"
+                step="1"
+                value={formData.stillborn}
+                onChange={setField('stillborn')}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>
+              {t('breeding:destination', { defaultValue: 'Add Offspring To' })}
+            </Label>
+            <Select
+              value={formData.destination}
+              onValueChange={(value: string | null) =>
+                setFormData((prev) => ({
+                  ...prev,
+                  destination: (value || 'dam_batch') as OffspringDestination,
+                }))
+              }
+            >
+              <SelectTrigger>
+                <SelectValue>
+                  {t(`breeding:destinations.${formData.destination}`)}
+                </SelectValue>
+              </SelectTrigger>
+              <SelectContent>
+                {DESTINATIONS.map((destination) => (
+                  <SelectItem key={destination} value={destination}>
+                    {t(`breeding:destinations.${destination}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {formData.destination === 'new_batch' && (
+            <div className="space-y-2">
+              <Label htmlFor="batchName">
+                {t('breeding:newBatchName', { defaultValue: 'New Batch Name' })}{' '}
+                ({t('common:optional', { defaultValue: 'Optional' })})
+              </Label>
+              <Input
+                id="batchName"
+                maxLength={100}
+                value={formData.batchName}
+                onChange={setField('batchName')}
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="notes">
+              {t('common:notes', { defaultValue: 'Notes' })}
+            </Label>
+            <Textarea
+              id="notes"
+              value={formData.notes}
+              onChange={setField('notes')}
+            />
+          </div>
+
+          {error && (
+            <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+              {error}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSubmitting}
+            >
+              {t('common:cancel', { defaultValue: 'Cancel' })}
+            </Button>
+            <Button
+              type="submit"
+              disabled={
+                isSubmitting ||
+                !event ||
+                damCount <= 0 ||
+                liveBorn + stillborn <= 0
+              }
+            >
+              {isSubmitting
+                ? t('common:saving', { defaultValue: 'Saving...' })
+                : t('breeding:saveBirth', { defaultValue: 'Save Birth' })}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,470 @@
+import { useTranslation } from 'react-i18next'
+import { useEffect, useState } from 'react'
+import type {
+  BreedingAnimal,
+  BreedingBatch,
+  BreedingMethod,
+  BreedingStatus,
+  UpdateBreedingEventInput,
+} from '~/features/breeding/types'
+import {
+  BREEDING_METHODS,
+  MANUAL_BREEDING_STATUSES,
+} from '~/features/breeding/types'
+import {
+  calculateExpectedDueDate,
+  isBreedingLivestockType,
+} from '~/features/breeding/service'
+import { useFormatDate } from '~/features/settings'
+import { Button } from '~/components/ui/button'
+import { Input } from '~/components/ui/input'
+import { Label } from '~/components/ui/label'
+import { Textarea } from '~/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '~/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '~/components/ui/dialog'
+
+interface BreedingEventFormInitialData {
+  batchId: string
+  damId: string | null
+  sireId: string | null
+  sireDescription: string | null
+  method: BreedingMethod
+  femaleCount: number
+  matingDate: Date | string
+  status: BreedingStatus
+  diagnosisDate: Date | string | null
+  notes: string | null
+}
+
+interface BreedingEventFormDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSubmit: (
+    data: UpdateBreedingEventInput & { batchId?: string },
+  ) => Promise<void>
+  batches: Array<BreedingBatch>
+  animals: Array<BreedingAnimal>
+  isSubmitting: boolean
+  initialData?: BreedingEventFormInitialData
+}
+
+const NONE = 'none'
+
+const today = () => new Date().toISOString().split('T')[0]
+
+const toDateInput = (date: Date | string | null) =>
+  date ? new Date(date).toISOString().split('T')[0] : ''
+
+const emptyForm = {
+  batchId: '',
+  damId: NONE,
+  sireId: NONE,
+  sireDescription: '',
+  method: 'natural' as BreedingMethod,
+  femaleCount: '1',
+  matingDate: today(),
+  status: 'bred' as BreedingStatus,
+  diagnosisDate: '',
+  notes: '',
+}
+
+const toId = (value: string) => (value === NONE ? null : value)
+
+export function BreedingEventFormDialog({
+  open,
+  onOpenChange,
+  onSubmit,
+  batches,
+  animals,
+  isSubmitting,
+  initialData,
+}: BreedingEventFormDialogProps) {
+  const { t } = useTranslation(['breeding', 'common', 'batches'])
+  const { format: formatDate } = useFormatDate()
+  const [formData, setFormData] = useState(emptyForm)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (initialData) {
+      setFormData({
+        batchId: initialData.batchId,
+        damId: initialData.damId ?? NONE,
+        sireId: initialData.sireId ?? NONE,
+        sireDescription: initialData.sireDescription ?? '',
+        method: initialData.method,
+        femaleCount: String(initialData.femaleCount),
+        matingDate: toDateInput(initialData.matingDate),
+        status: initialData.status,
+        diagnosisDate: toDateInput(initialData.diagnosisDate),
+        notes: initialData.notes ?? '',
+      })
+    } else {
+      setFormData({ ...emptyForm, matingDate: today() })
+    }
+    setError('')
+  }, [initialData, open])
+
+  const selectedBatch = batches.find((b) => b.id === formData.batchId)
+  const livestockType = selectedBatch?.livestockType
+  const damOptions = animals.filter(
+    (a) => a.sex === 'female' && a.batchId === formData.batchId,
+  )
+  const sireOptions = animals.filter(
+    (a) => a.sex === 'male' && a.livestockType === livestockType,
+  )
+  const labelAnimal = (id: string) => {
+    const animal = animals.find((a) => a.id === id)
+    if (!animal) return t('breeding:unknown', { defaultValue: 'Unknown' })
+    return animal.name
+      ? `${animal.tagNumber} (${animal.name})`
+      : animal.tagNumber
+  }
+
+  const hasDam = formData.damId !== NONE
+  const femaleCount = hasDam ? 1 : parseInt(formData.femaleCount || '0')
+  const expectedDueDate =
+    livestockType &&
+    isBreedingLivestockType(livestockType) &&
+    formData.matingDate
+      ? calculateExpectedDueDate(livestockType, new Date(formData.matingDate))
+      : null
+  const isDelivered = initialData?.status === 'delivered'
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    try {
+      await onSubmit({
+        ...(!initialData && { batchId: formData.batchId }),
+        damId: toId(formData.damId),
+        sireId: toId(formData.sireId),
+        sireDescription: formData.sireDescription || null,
+        method: formData.method,
+        femaleCount,
+        matingDate: new Date(formData.matingDate),
+        notes: formData.notes || null,
+        ...(initialData && {
+          status: formData.status,
+          diagnosisDate: formData.diagnosisDate
+            ? new Date(formData.diagnosisDate)
+            : null,
+        }),
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  const setField =
+    (
+      field:
+        | 'femaleCount'
+        | 'matingDate'
+        | 'sireDescription'
+        | 'diagnosisDate'
+        | 'notes',
+    ) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>): void =>
+      setFormData((prev) => ({ ...prev, [field]: e.target.value }))
+
+  const setSelect = (field: 'damId' | 'sireId') => (value: string | null) =>
+    setFormData((prev) => ({ ...prev, [field]: value || NONE }))
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            {initialData
+              ? t('breeding:editEventTitle', {
+                  defaultValue: 'Edit Breeding Event',
+                })
+              : t('breeding:addEventTitle', { defaultValue: 'Record Mating' })}
+          </DialogTitle>
+          {!initialData && (
+            <DialogDescription>
+              {t('breeding:addEventDescription', {
+                defaultValue:
+                  'The expected due date is computed from the species gestation length',
+              })}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {!initialData && (
+            <div className="space-y-2">
+              <Label>{t('batches:batch', { defaultValue: 'Batch' })}</Label>
+              <Select
+                value={formData.batchId}
+                onValueChange={(value: string | null) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    batchId: value || '',
+                    damId: NONE,
+                    sireId: NONE,
+                  }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue>
+                    {selectedBatch
+                      ? `${selectedBatch.batchName ?? selectedBatch.species} (${selectedBatch.currentQuantity})`
+                      : t('breeding:selectBatch', {
+                          defaultValue: 'Select batch',
+                        })}
+                  </SelectValue>
+                </SelectTrigger>
+                <SelectContent>
+                  {batches.map((batch) => (
+                    <SelectItem key={batch.id} value={batch.id}>
+                      {batch.batchName ?? batch.species} (
+                      {batch.currentQuantity})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>{t('breeding:dam', { defaultValue: 'Dam' })}</Label>
+              <Select value={formData.damId} onValueChange={setSelect('damId')}>
+                <SelectTrigger>
+                  <SelectValue>
+                    {hasDam
+                      ? labelAnimal(formData.damId)
+                      : t('breeding:untaggedFemales', {
+                          defaultValue: 'Untagged females',
+                        })}
+                  </SelectValue>
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>
+                    {t('breeding:untaggedFemales', {
+                      defaultValue: 'Untagged females',
+                    })}
+                  </SelectItem>
+                  {damOptions.map((animal) => (
+                    <SelectItem key={animal.id} value={animal.id}>
+                      {labelAnimal(animal.id)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="femaleCount">
+                {t('breeding:femalesBred', { defaultValue: 'Females Bred' })}
+              </Label>
+              <Input
+                id="femaleCount"
+                type="number"
+                min="1"
+                step="1"
+                value={hasDam ? '1' : formData.femaleCount}
+                onChange={setField('femaleCount')}
+                disabled={hasDam}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>{t('breeding:sire', { defaultValue: 'Sire' })}</Label>
+              <Select
+                value={formData.sireId}
+                onValueChange={setSelect('sireId')}
+              >
+                <SelectTrigger>
+                  <SelectValue>
+                    {formData.sireId === NONE
+                      ? t('breeding:unregisteredSire', {
+                          defaultValue: 'Not registered',
+                        })
+                      : labelAnimal(formData.sireId)}
+                  </SelectValue>
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>
+                    {t('breeding:unregisteredSire', {
+                      defaultValue: 'Not registered',
+                    })}
+                  </SelectItem>
+                  {sireOptions.map((animal) => (
+                    <SelectItem key={animal.id} value={animal.id}>
+                      {labelAnimal(animal.id)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{t('breeding:method', { defaultValue: 'Method' })}</Label>
+              <Select
+                value={formData.method}
+                onValueChange={(value: string | null) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    method: (value || 'natural') as BreedingMethod,
+                  }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue>
+                    {t(`breeding:methods.${formData.method}`)}
+                  </SelectValue>
+                </SelectTrigger>
+                <SelectContent>
+                  {BREEDING_METHODS.map((method) => (
+                    <SelectItem key={method} value={method}>
+                      {t(`breeding:methods.${method}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {formData.sireId === NONE && (
+            <div className="space-y-2">
+              <Label htmlFor="sireDescription">
+                {t('breeding:sireDescription', {
+                  defaultValue: 'Sire or AI straw',
+                })}{' '}
+                ({t('common:optional', { defaultValue: 'Optional' })})
+              </Label>
+              <Input
+                id="sireDescription"
+                maxLength={100}
+                value={formData.sireDescription}
+                onChange={setField('sireDescription')}
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="matingDate">
+              {t('breeding:matingDate', { defaultValue: 'Mating Date' })}
+            </Label>
+            <Input
+              id="matingDate"
+              type="date"
+              value={formData.matingDate}
+              onChange={setField('matingDate')}
+              required
+            />
+            {expectedDueDate && (
+              <p className="text-xs text-muted-foreground">
+                {t('breeding:expectedDue', {
+                  date: formatDate(expectedDueDate),
+                  defaultValue: 'Expected due {{date}}',
+                })}
+              </p>
+            )}
+          </div>
+
+          {initialData && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>{t('common:status', { defaultValue: 'Status' })}</Label>
+                <Select
+                  value={formData.status}
+                  onValueChange={(value: string | null) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      status: (value || prev.status) as BreedingStatus,
+                    }))
+                  }
+                  disabled={isDelivered}
+                >
+                  <SelectTrigger>
+                    <SelectValue>
+                      {t(`breeding:statuses.${formData.status}`)}
+                    </SelectValue>
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MANUAL_BREEDING_STATUSES.map((status) => (
+                      <SelectItem key={status} value={status}>
+                        {t(`breeding:statuses.${status}`)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="diagnosisDate">
+                  {t('breeding:diagnosisDate', {
+                    defaultValue: 'Diagnosis Date',
+                  })}
+                </Label>
+                <Input
+                  id="diagnosisDate"
+                  type="date"
+                  value={formData.diagnosisDate}
+                  onChange={setField('diagnosisDate')}
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="notes">
+              {t('common:notes', { defaultValue: 'Notes' })}
+            </Label>
+            <Textarea
+              id="notes"
+              value={formData.notes}
+              onChange={setField('notes')}
+            />
+          </div>
+
+          {error && (
+            <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+              {error}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSubmitting}
+            >
+              {t('common:cancel', { defaultValue: 'Cancel' })}
+            </Button>
+            <Button
+              type="submit"
+              disabled={
+                isSubmitting ||
+                (!initialData && !formData.batchId) ||
+                femaleCount <= 0
+              }
+            >
+              {isSubmitting
+                ? t('common:saving', { defaultValue: 'Saving...' })
+                : initialData
+                  ? t('common:saveChanges', { defaultValue: 'Save Changes' })
+                  : t('breeding:saveMating', { defaultValue: 'Save Mating' })}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
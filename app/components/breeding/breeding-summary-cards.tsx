@@ -0,0 +1,113 @@
+import {
+  AlertTriangle,
+  Baby,
+  CalendarClock,
+  HeartHandshake,
+} from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import type { BreedingSummary } from '~/features/breeding/types'
+import { Card, CardContent, CardHeader, CardTitle } from '~/components/ui/card'
+
+interface BreedingSummaryCardsProps {
+  summary: BreedingSummary | null
+}
+
+const formatPercent = (value: number | null) =>
+  value === null ? '—' : `${value}%`
+
+export function BreedingSummaryCards({ summary }: BreedingSummaryCardsProps) {
+  const { t } = useTranslation(['breeding'])
+
+  if (!summary) return null
+
+  return (
+    <div className="grid gap-3 sm:gap-4 grid-cols-1 md:grid-cols-4 mb-6 md:mb-8">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-0 p-2 sm:pb-1 sm:p-3">
+          <CardTitle className="text-[10px] sm:text-xs font-medium text-muted-foreground uppercase tracking-wider">
+            {t('breeding:awaitingBirth', { defaultValue: 'Awaiting Birth' })}
+          </CardTitle>
+          <HeartHandshake className="h-3 w-3 sm:h-4 sm:w-4 text-muted-foreground" />
+        </CardHeader>
+        <CardContent className="p-2 pt-0 sm:p-3 sm:pt-0">
+          <div className="text-lg sm:text-2xl font-bold">
+            {summary.femalesAwaitingBirth}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {t('breeding:eventCount', {
+              count: summary.awaitingBirth,
+              defaultValue: '{{count}} matings',
+            })}
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-0 p-2 sm:pb-1 sm:p-3">
+          <CardTitle className="text-[10px] sm:text-xs font-medium text-muted-foreground uppercase tracking-wider">
+            {t('breeding:overdue', { defaultValue: 'Overdue' })}
+          </CardTitle>
+          <AlertTriangle className="h-3 w-3 sm:h-4 sm:w-4 text-destructive" />
+        </CardHeader>
+        <CardContent className="p-2 pt-0 sm:p-3 sm:pt-0">
+          <div
+            className={`text-lg sm:text-2xl font-bold ${summary.overdue > 0 ? 'text-destructive' : ''}`}
+          >
+            {summary.overdue}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {t('breeding:overdueHint', {
+              defaultValue: 'Past the expected due date',
+            })}
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-0 p-2 sm:pb-1 sm:p-3">
+          <CardTitle className="text-[10px] sm:text-xs font-medium text-muted-foreground uppercase tracking-wider">
+            {t('breeding:kiddingRate', { defaultValue: 'Kidding Rate' })}
+          </CardTitle>
+          <Baby className="h-3 w-3 sm:h-4 sm:w-4 text-pink-600" />
+        </CardHeader>
+        <CardContent className="p-2 pt-0 sm:p-3 sm:pt-0">
+          <div className="text-lg sm:text-2xl font-bold text-pink-600">
+            {formatPercent(summary.kiddingRate)}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {t('breeding:weaningPercent', {
+              value: formatPercent(summary.weaningPercent),
+              defaultValue: '{{value}} weaned',
+            })}
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-0 p-2 sm:pb-1 sm:p-3">
+          <CardTitle className="text-[10px] sm:text-xs font-medium text-muted-foreground uppercase tracking-wider">
+            {t('breeding:calvingInterval', {
+              defaultValue: 'Birth Interval',
+            })}
+          </CardTitle>
+          <CalendarClock className="h-3 w-3 sm:h-4 sm:w-4 text-blue-600" />
+        </CardHeader>
+        <CardContent className="p-2 pt-0 sm:p-3 sm:pt-0">
+          <div className="text-lg sm:text-2xl font-bold text-blue-600">
+            {summary.calvingIntervalDays === null
+              ? '—'
+              : t('breeding:days', {
+                  count: summary.calvingIntervalDays,
+                  defaultValue: '{{count}} days',
+                })}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {t('breeding:calvingIntervalHint', {
+              defaultValue: 'Average for tagged dams',
+            })}
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
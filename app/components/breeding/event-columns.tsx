@@ -0,0 +1,152 @@
+import { useMemo } from 'react'
+import { Baby, Edit2, Trash2 } from 'lucide-react'
+import type { ColumnDef } from '@tanstack/react-table'
+import type { BreedingEventWithDetails } from '~/features/breeding/repository'
+import type { BreedingStatus } from '~/features/breeding/types'
+import { getDaysOverdue, isAwaitingBirth } from '~/features/breeding/service'
+import { Badge } from '~/components/ui/badge'
+import { Button } from '~/components/ui/button'
+
+interface UseEventColumnsProps {
+  t: (key: string, options?: any) => string
+  formatDate: (date: Date | string) => string
+  onRecordBirth: (event: BreedingEventWithDetails) => void
+  onEdit: (event: BreedingEventWithDetails) => void
+  onDelete: (event: BreedingEventWithDetails) => void
+}
+
+const STATUS_VARIANTS: Record<
+  BreedingStatus,
+  'default' | 'secondary' | 'outline' | 'success' | 'destructive'
+> = {
+  bred: 'secondary',
+  pregnant: 'default',
+  open: 'outline',
+  delivered: 'success',
+  aborted: 'destructive',
+}
+
+export function useEventColumns({
+  t,
+  formatDate,
+  onRecordBirth,
+  onEdit,
+  onDelete,
+}: UseEventColumnsProps): Array<ColumnDef<BreedingEventWithDetails>> {
+  return useMemo(
+    () => [
+      {
+        accessorKey: 'matingDate',
+        header: t('breeding:matingDate', { defaultValue: 'Mated' }),
+        cell: ({ row }) => formatDate(row.original.matingDate),
+      },
+      {
+        id: 'dams',
+        header: t('breeding:dams', { defaultValue: 'Dams' }),
+        cell: ({ row }) => (
+          <div className="flex flex-col">
+            <span className="font-medium">
+              {row.original.damTag ??
+                t('breeding:femaleCount', {
+                  count: row.original.femaleCount,
+                  defaultValue: '{{count}} females',
+                })}
+            </span>
+            <span className="text-xs text-muted-foreground">
+              {row.original.batchName ?? row.original.batchSpecies}
+            </span>
+          </div>
+        ),
+      },
+      {
+        id: 'sire',
+        header: t('breeding:sire', { defaultValue: 'Sire' }),
+        cell: ({ row }) => (
+          <div className="flex flex-col">
+            <span>
+              {row.original.sireTag ?? row.original.sireDescription ?? '—'}
+            </span>
+            <span className="text-xs text-muted-foreground">
+              {t(`breeding:methods.${row.original.method}`)}
+            </span>
+          </div>
+        ),
+      },
+      {
+        accessorKey: 'expectedDueDate',
+        header: t('breeding:dueDate', { defaultValue: 'Due' }),
+        cell: ({ row }) => {
+          const overdue = isAwaitingBirth(row.original.status)
+            ? getDaysOverdue(row.original.expectedDueDate)
+            : 0
+          return (
+            <div className="flex flex-col">
+              <span>{formatDate(row.original.expectedDueDate)}</span>
+              {overdue > 0 && (
+                <span className="text-xs text-destructive">
+                  {t('breeding:daysOverdue', {
+                    count: overdue,
+                    defaultValue: '{{count}} days overdue',
+                  })}
+                </span>
+              )}
+            </div>
+          )
+        },
+      },
+      {
+        id: 'status',
+        header: t('common:status', { defaultValue: 'Status' }),
+        cell: ({ row }) => (
+          <div className="flex flex-col gap-1">
+            <Badge variant={STATUS_VARIANTS[row.original.status]}>
+              {t(`breeding:statuses.${row.original.status}`)}
+            </Badge>
+            {row.original.femaleCount > 1 && row.original.deliveredDams > 0 && (
+              <span className="text-xs text-muted-foreground">
+                {t('breeding:deliveredOf', {
+                  delivered: row.original.deliveredDams,
+                  total: row.original.femaleCount,
+                  defaultValue: '{{delivered}} of {{total}} delivered',
+                })}
+              </span>
+            )}
+          </div>
+        ),
+      },
+      {
+        id: 'actions',
+        cell: ({ row }) => (
+          <div className="flex justify-end gap-2">
+            {isAwaitingBirth(row.original.status) && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onRecordBirth(row.original)}
+              >
+                <Baby className="mr-2 h-4 w-4" />
+                {t('breeding:recordBirth', { defaultValue: 'Record Birth' })}
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => onEdit(row.original)}
+            >
+              <Edit2 className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="text-destructive"
+              onClick={() => onDelete(row.original)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ),
+      },
+    ],
+    [t, formatDate, onRecordBirth, onEdit, onDelete],
+  )
+}
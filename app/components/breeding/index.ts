@@ -0,0 +1,7 @@
+export * from './breeding-summary-cards'
+export * from './breeding-event-form-dialog'
+export * from './birth-form-dialog'
+export * from './weaning-form-dialog'
+export * from './event-columns'
+export * from './birth-columns'
+export * from './breeding-delete-dialog'
@@ -0,0 +1,164 @@
+import { useTranslation } from 'react-i18next'
+import { useEffect, useState } from 'react'
+import type { UpdateBirthRecordInput } from '~/features/breeding/types'
+import type { BirthRecordWithDetails } from '~/features/breeding/repository'
+import { Button } from '~/components/ui/button'
+import { Input } from '~/components/ui/input'
+import { Label } from '~/components/ui/label'
+import { Textarea } from '~/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '~/components/ui/dialog'
+
+interface WeaningFormDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSubmit: (data: UpdateBirthRecordInput) => Promise<void>
+  birth: BirthRecordWithDetails | null
+  isSubmitting: boolean
+}
+
+const emptyForm = {
+  weanedCount: '',
+  weaningDate: '',
+  notes: '',
+}
+
+export function WeaningFormDialog({
+  open,
+  onOpenChange,
+  onSubmit,
+  birth,
+  isSubmitting,
+}: WeaningFormDialogProps) {
+  const { t } = useTranslation(['breeding', 'common'])
+  const [formData, setFormData] = useState(emptyForm)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (birth) {
+      setFormData({
+        weanedCount:
+          birth.weanedCount !== null ? String(birth.weanedCount) : '',
+        weaningDate: birth.weaningDate
+          ? new Date(birth.weaningDate).toISOString().split('T')[0]
+          : '',
+        notes: birth.notes ?? '',
+      })
+    } else {
+      setFormData(emptyForm)
+    }
+    setError('')
+  }, [birth, open])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    try {
+      await onSubmit({
+        weanedCount: formData.weanedCount
+          ? parseInt(formData.weanedCount)
+          : null,
+        weaningDate: formData.weaningDate
+          ? new Date(formData.weaningDate)
+          : null,
+        notes: formData.notes || null,
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  const setField =
+    (field: 'weanedCount' | 'weaningDate' | 'notes') =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>): void =>
+      setFormData((prev) => ({ ...prev, [field]: e.target.value }))
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>
+            {t('breeding:editBirthTitle', { defaultValue: 'Record Weaning' })}
+          </DialogTitle>
+          {birth && (
+            <DialogDescription>
+              {t('breeding:editBirthDescription', {
+                count: birth.liveBorn,
+                defaultValue:
+                  '{{count}} born alive. Counts are fixed once recorded; delete the birth to correct them.',
+              })}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="weanedCount">
+                {t('breeding:weanedCount', { defaultValue: 'Weaned' })}
+              </Label>
+              <Input
+                id="weanedCount"
+                type="number"
+                min="0"
+                max={birth?.liveBorn}
+                step="1"
+                value={formData.weanedCount}
+                onChange={setField('weanedCount')}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="weaningDate">
+                {t('breeding:weaningDate', { defaultValue: 'Weaning Date' })}
+              </Label>
+              <Input
+                id="weaningDate"
+                type="date"
+                value={formData.weaningDate}
+                onChange={setField('weaningDate')}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="notes">
+              {t('common:notes', { defaultValue: 'Notes' })}
+            </Label>
+            <Textarea
+              id="notes"
+              value={formData.notes}
+              onChange={setField('notes')}
+            />
+          </div>
+
+          {error && (
+            <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+              {error}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSubmitting}
+            >
+              {t('common:cancel', { defaultValue: 'Cancel' })}
+            </Button>
+            <Button type="submit" disabled={isSubmitting || !birth}>
+              {isSubmitting
+                ? t('common:saving', { defaultValue: 'Saving...' })
+                : t('common:saveChanges', { defaultValue: 'Save Changes' })}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,6 +1,7 @@
 import { useTranslation } from 'react-i18next'
 import {
   AlertTriangle,
+  Baby,
   Droplets,
   Package,
   Syringe,
@@ -19,6 +20,7 @@ export interface BatchAlert {
     | 'inventory'
     | 'feed'
     | 'growth'
+    | 'breeding'
   type: 'critical' | 'warning' | 'info'
   species: string
   message: string
@@ -69,6 +71,9 @@ export function AlertsSection({ alerts }: AlertsSectionProps) {
               {alert.source === 'feed' && (
                 <Wheat className="h-4 w-4 text-yellow-600 shrink-0" />
               )}
+              {alert.source === 'breeding' && (
+                <Baby className="h-4 w-4 text-pink-600 shrink-0" />
+              )}
 
               <div className="flex flex-col min-w-0">
                 <span className="font-medium truncate">{alert.species}</span>
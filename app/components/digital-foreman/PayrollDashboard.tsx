@@ -5,12 +5,13 @@ import { toast } from 'sonner'
 import { Download, Wallet } from 'lucide-react'
 import {
   exportPayrollCsvFn,
+  generatePaymentReceiptPdfFn,
   getPayrollHistoryFn,
   getPayrollSummaryFn,
   recordPaymentFn,
 } from '~/features/digital-foreman/server-payroll'
 import { useFormatCurrency, useSettings } from '~/features/settings'
-import { downloadPDF, generatePaymentReceiptPDF } from '~/lib/export/pdf'
+import { downloadPDF } from '~/lib/export/pdf'
 import { cn } from '~/lib/utils'
 import { Card, CardContent, CardHeader, CardTitle } from '~/components/ui/card'
 import { Button } from '~/components/ui/button'
@@ -128,6 +129,24 @@ export function PayrollDashboard({ farmId }: PayrollDashboardProps) {
     })
   }
 
+  const downloadReceipt = useMutation({
+    mutationFn: generatePaymentReceiptPdfFn,
+    onSuccess: (result) => {
+      downloadPDF(result.content, result.filename)
+      toast.success(
+        t('digitalForeman:messages.receiptDownloaded', {
+          defaultValue: 'Receipt downloaded',
+        }),
+      )
+    },
+    onError: () =>
+      toast.error(
+        t('digitalForeman:messages.receiptFailed', {
+          defaultValue: 'Failed to generate receipt',
+        }),
+      ),
+  })
+
   const handleDownloadReceipt = (worker: {
     id: string
     userName: string | null
@@ -141,29 +160,22 @@ export function PayrollDashboard({ farmId }: PayrollDashboardProps) {
     const period = periods.find((p) => p.id === selectedPeriod)
     if (!period) return
 
-    const doc = generatePaymentReceiptPDF({
-      receiptNumber: `PAY-${worker.id.slice(0, 8).toUpperCase()}`,
-      paymentDate: new Date(),
-      farmName: summary.farmName || 'Farm',
-      workerName: worker.userName || 'Worker',
-      periodStart: new Date(period.startDate),
-      periodEnd: new Date(period.endDate),
-      totalHours: worker.totalHours,
-      wageRate: worker.wageRate,
-      wageRateType: worker.wageRateType,
-      grossWages: worker.grossWages,
-      amountPaid: worker.paid,
-      paymentMethod: 'cash',
+    downloadReceipt.mutate({
+      data: {
+        receiptNumber: `PAY-${worker.id.slice(0, 8).toUpperCase()}`,
+        paymentDate: new Date(),
+        farmName: summary.farmName || 'Farm',
+        workerName: worker.userName || 'Worker',
+        periodStart: new Date(period.startDate),
+        periodEnd: new Date(period.endDate),
+        totalHours: worker.totalHours,
+        wageRate: worker.wageRate,
+        wageRateType: worker.wageRateType,
+        grossWages: worker.grossWages,
+        amountPaid: worker.paid,
+        paymentMethod: 'cash',
+      },
     })
-    downloadPDF(
-      doc,
-      `receipt-${(worker.userName || 'worker').replace(/\s+/g, '-').toLowerCase()}-${period.startDate}`,
-    )
-    toast.success(
-      t('digitalForeman:messages.receiptDownloaded', {
-        defaultValue: 'Receipt downloaded',
-      }),
-    )
   }
 
   const totalWages =
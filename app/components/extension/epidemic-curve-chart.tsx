@@ -0,0 +1,129 @@
+import { useTranslation } from 'react-i18next'
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts'
+import type { EpidemicCurvePoint } from '~/features/extension/outbreak-service'
+import { Card, CardContent, CardHeader, CardTitle } from '~/components/ui/card'
+
+interface EpidemicCurveChartProps {
+  points: Array<EpidemicCurvePoint>
+  detectedAt: Date
+  hasNeighbours: boolean
+}
+
+/**
+ * Daily deaths in the alert's district, split into disease and other
+ * causes, against the district baseline and neighbouring districts
+ */
+export function EpidemicCurveChart({
+  points,
+  detectedAt,
+  hasNeighbours,
+}: EpidemicCurveChartProps) {
+  const { t } = useTranslation(['extension'])
+  const detectedDay = new Date(detectedAt).toISOString().slice(0, 10)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>
+          {t('extension:outbreakSignals.epidemicCurve', {
+            defaultValue: 'Epidemic Curve',
+          })}
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          {t('extension:outbreakSignals.epidemicCurveDescription', {
+            defaultValue:
+              'Daily deaths in the district by cause, against its baseline',
+          })}
+        </p>
+      </CardHeader>
+      <CardContent>
+        {points.every((p) => p.disease + p.otherCauses + p.neighbours === 0) ? (
+          <p className="text-sm text-muted-foreground">
+            {t('extension:outbreakSignals.noDeaths', {
+              defaultValue: 'No deaths recorded in this period',
+            })}
+          </p>
+        ) : (
+          <ResponsiveContainer width="100%" height={320}>
+            <ComposedChart
+              data={points}
+              margin={{ top: 10, right: 10, left: -20, bottom: 20 }}
+            >
+              <CartesianGrid
+                strokeDasharray="3 3"
+                vertical={false}
+                stroke="hsl(var(--muted-foreground))"
+                opacity={0.1}
+              />
+              <XAxis dataKey="date" tick={{ fontSize: 10 }} minTickGap={24} />
+              <YAxis tick={{ fontSize: 10 }} allowDecimals={false} />
+              <Tooltip />
+              <Legend />
+              <Bar
+                dataKey="disease"
+                stackId="district"
+                fill="#dc2626"
+                name={t('extension:outbreakSignals.diseaseDeaths', {
+                  defaultValue: 'Disease',
+                })}
+              />
+              <Bar
+                dataKey="otherCauses"
+                stackId="district"
+                fill="#f59e0b"
+                opacity={0.6}
+                name={t('extension:outbreakSignals.otherDeaths', {
+                  defaultValue: 'Other causes',
+                })}
+              />
+              {hasNeighbours && (
+                <Line
+                  type="monotone"
+                  dataKey="neighbours"
+                  stroke="#8b5cf6"
+                  strokeWidth={2}
+                  dot={false}
+                  name={t('extension:outbreakSignals.neighbourDeaths', {
+                    defaultValue: 'Neighbouring districts',
+                  })}
+                />
+              )}
+              <Line
+                type="stepAfter"
+                dataKey="expected"
+                stroke="hsl(var(--muted-foreground))"
+                strokeDasharray="5 5"
+                dot={false}
+                name={t('extension:outbreakSignals.baseline', {
+                  defaultValue: 'Baseline',
+                })}
+              />
+              <ReferenceLine
+                x={detectedDay}
+                stroke="hsl(var(--primary))"
+                label={{
+                  value: t('extension:outbreakSignals.detected', {
+                    defaultValue: 'Detected',
+                  }),
+                  fontSize: 10,
+                  position: 'insideTopRight',
+                }}
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,385 @@
+import { useQuery } from '@tanstack/react-query'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { ArrowRight, CalendarClock, PackageCheck, Truck, X } from 'lucide-react'
+import type { PurchaseOrderSuggestion } from '~/features/inventory/feed-forecast-service'
+import type { FeedPurchaseOrderRecord } from '~/features/inventory/feed-forecast-server'
+import { getFeedForecastFn } from '~/features/inventory/feed-forecast-server'
+import {
+  INVENTORY_QUERY_KEYS,
+  useFeedPurchaseOrderMutations,
+} from '~/features/inventory/mutations'
+import { FEED_TYPES } from '~/features/inventory'
+import { useFarm } from '~/features/farms/context'
+import {
+  useFormatCurrency,
+  useFormatDate,
+  useFormatWeight,
+} from '~/features/settings'
+import { Badge } from '~/components/ui/badge'
+import { Button } from '~/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '~/components/ui/card'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '~/components/ui/dialog'
+import { Input } from '~/components/ui/input'
+import { Label } from '~/components/ui/label'
+import { Skeleton } from '~/components/ui/skeleton'
+
+const feedTypeLabel = (feedType: string) =>
+  FEED_TYPES.find((type) => type.value === feedType)?.label ?? feedType
+
+export function FeedForecast() {
+  const { t } = useTranslation(['inventory', 'common'])
+  const { selectedFarmId } = useFarm()
+  const { format: formatWeight } = useFormatWeight()
+  const { format: formatCurrency } = useFormatCurrency()
+  const { format: formatDate } = useFormatDate()
+  const { createOrder, receiveOrder, cancelOrder, isPending } =
+    useFeedPurchaseOrderMutations()
+  const [receiving, setReceiving] = useState<FeedPurchaseOrderRecord | null>(
+    null,
+  )
+  const [amount, setAmount] = useState('')
+
+  const { data: forecast, isLoading } = useQuery({
+    queryKey: [...INVENTORY_QUERY_KEYS.feedForecast, selectedFarmId],
+    queryFn: () =>
+      getFeedForecastFn({ data: { farmId: selectedFarmId as string } }),
+    enabled: !!selectedFarmId,
+  })
+
+  const header = (
+    <CardHeader>
+      <CardTitle className="flex items-center gap-2">
+        <CalendarClock className="h-5 w-5" />
+        {t('forecast.title')}
+      </CardTitle>
+      <CardDescription>{t('forecast.description')}</CardDescription>
+    </CardHeader>
+  )
+
+  if (!selectedFarmId) {
+    return (
+      <Card>
+        {header}
+        <CardContent>
+          <p className="text-sm text-muted-foreground">
+            {t('forecast.selectFarm')}
+          </p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (isLoading || !forecast) {
+    return (
+      <Card>
+        {header}
+        <CardContent>
+          <Skeleton className="h-40 w-full" />
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const formatDays = (days: number | null) => {
+    if (days === null) {
+      return t('forecast.beyondHorizon', { days: forecast.horizonDays })
+    }
+    return days === 0 ? t('forecast.now') : t('forecast.days', { count: days })
+  }
+
+  const placeOrder = (suggestion: PurchaseOrderSuggestion) => {
+    createOrder.mutate({
+      farmId: selectedFarmId,
+      supplierId: suggestion.supplierId,
+      expectedDeliveryDate: suggestion.expectedDeliveryDate,
+      items: suggestion.items,
+    })
+  }
+
+  const openReceive = (order: FeedPurchaseOrderRecord) => {
+    setReceiving(order)
+    setAmount(order.estimatedCost ?? '')
+  }
+
+  const confirmReceive = () => {
+    if (!receiving) return
+    receiveOrder.mutate(
+      {
+        orderId: receiving.id,
+        amount: amount === '' ? undefined : parseFloat(amount),
+      },
+      { onSuccess: () => setReceiving(null) },
+    )
+  }
+
+  if (forecast.feedTypes.length === 0 && forecast.openOrders.length === 0) {
+    return (
+      <Card>
+        {header}
+        <CardContent>
+          <p className="text-sm text-muted-foreground">{t('forecast.empty')}</p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card>
+      {header}
+      <CardContent className="space-y-6">
+        {forecast.feedTypes.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-muted-foreground">
+                  <th className="py-2 pr-4">
+                    {t('forecast.columns.feedType')}
+                  </th>
+                  <th className="py-2 pr-4">{t('forecast.columns.onHand')}</th>
+                  <th className="py-2 pr-4">{t('forecast.columns.onOrder')}</th>
+                  <th className="py-2 pr-4">
+                    {t('forecast.columns.dailyUse')}
+                  </th>
+                  <th className="py-2 pr-4">
+                    {t('forecast.columns.daysLeft')}
+                  </th>
+                  <th className="py-2">{t('forecast.columns.reorderIn')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {forecast.feedTypes.map((row) => (
+                  <tr key={row.feedType} className="border-b last:border-0">
+                    <td className="py-2 pr-4 font-medium">
+                      {feedTypeLabel(row.feedType)}
+                    </td>
+                    <td className="py-2 pr-4">{formatWeight(row.onHandKg)}</td>
+                    <td className="py-2 pr-4">
+                      {row.onOrderKg > 0 ? formatWeight(row.onOrderKg) : '—'}
+                    </td>
+                    <td className="py-2 pr-4">
+                      {formatWeight(row.averageDailyKg)}
+                    </td>
+                    <td className="py-2 pr-4">
+                      <Badge
+                        variant={
+                          row.daysRemaining !== null && row.daysRemaining < 7
+                            ? 'destructive'
+                            : 'secondary'
+                        }
+                      >
+                        {formatDays(row.daysRemaining)}
+                      </Badge>
+                    </td>
+                    <td className="py-2">{formatDays(row.daysUntilReorder)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {forecast.transitions.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold">
+              {t('forecast.transitionsTitle')}
+            </h4>
+            <ul className="space-y-1 text-sm">
+              {forecast.transitions.map((transition) => (
+                <li
+                  key={`${transition.batchId}-${transition.toFeedType}`}
+                  className="flex items-center gap-2"
+                >
+                  <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                  {t('forecast.transition', {
+                    batch: transition.batchName,
+                    from: feedTypeLabel(transition.fromFeedType),
+                    to: feedTypeLabel(transition.toFeedType),
+                  })}
+                  <span className="text-muted-foreground">
+                    {transition.day === 0
+                      ? t('forecast.today')
+                      : t('forecast.inDays', { count: transition.day })}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">
+            {t('forecast.suggestionsTitle')}
+          </h4>
+          {forecast.suggestions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {t('forecast.noSuggestions')}
+            </p>
+          ) : (
+            forecast.suggestions.map((suggestion) => (
+              <div
+                key={suggestion.supplierId ?? 'none'}
+                className="rounded-lg border p-3 space-y-2"
+              >
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div>
+                    <p className="font-medium">
+                      {suggestion.supplierName ?? t('forecast.noSupplier')}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {suggestion.supplierId
+                        ? t('forecast.leadTime', {
+                            count: suggestion.leadTimeDays,
+                          })
+                        : t('forecast.noSupplierHint')}
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    onClick={() => placeOrder(suggestion)}
+                    disabled={isPending}
+                  >
+                    <Truck className="h-4 w-4 mr-1" />
+                    {t('forecast.placeOrder')}
+                  </Button>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {suggestion.items.map((item) => (
+                    <Badge key={item.feedType} variant="outline">
+                      {feedTypeLabel(item.feedType)}:{' '}
+                      {formatWeight(item.quantityKg)}
+                    </Badge>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {t('forecast.orderBy', {
+                    date: formatDate(suggestion.orderByDate),
+                  })}{' '}
+                  ·{' '}
+                  {t('forecast.delivery', {
+                    date: formatDate(suggestion.expectedDeliveryDate),
+                  })}
+                  {suggestion.estimatedCost !== null && (
+                    <>
+                      {' '}
+                      ·{' '}
+                      {t('forecast.estimatedCost', {
+                        amount: formatCurrency(suggestion.estimatedCost),
+                      })}
+                    </>
+                  )}
+                </p>
+              </div>
+            ))
+          )}
+        </div>
+
+        {forecast.openOrders.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold">
+              {t('forecast.openOrdersTitle')}
+            </h4>
+            {forecast.openOrders.map((order) => (
+              <div
+                key={order.id}
+                className="flex flex-wrap items-center justify-between gap-2 rounded-lg border p-3"
+              >
+                <div className="space-y-1">
+                  <p className="font-medium">
+                    {order.supplierName ?? t('forecast.noSupplier')}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {order.items
+                      .map(
+                        (item) =>
+                          `${feedTypeLabel(item.feedType)} ${formatWeight(item.quantityKg)}`,
+                      )
+                      .join(', ')}{' '}
+                    ·{' '}
+                    {t('forecast.expected', {
+                      date: formatDate(order.expectedDeliveryDate),
+                    })}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => openReceive(order)}
+                    disabled={isPending}
+                  >
+                    <PackageCheck className="h-4 w-4 mr-1" />
+                    {t('forecast.receive')}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => cancelOrder.mutate(order.id)}
+                    disabled={isPending}
+                    aria-label={t('forecast.cancel')}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {forecast.unforecastBatches.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {t('forecast.unforecast', {
+              batches: forecast.unforecastBatches
+                .map((batch) => batch.batchName)
+                .join(', '),
+            })}
+          </p>
+        )}
+      </CardContent>
+
+      <Dialog
+        open={receiving !== null}
+        onOpenChange={(open) => !open && setReceiving(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t('forecast.receiveTitle')}</DialogTitle>
+            <DialogDescription>{t('forecast.receiveDesc')}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="order-amount">{t('forecast.amountPaid')}</Label>
+            <Input
+              id="order-amount"
+              type="number"
+              min="0"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReceiving(null)}>
+              {t('common:cancel')}
+            </Button>
+            <Button onClick={confirmReceive} disabled={isPending}>
+              {t('forecast.confirmReceive')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
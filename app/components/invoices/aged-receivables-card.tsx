@@ -0,0 +1,132 @@
+import { useQuery } from '@tanstack/react-query'
+import { Clock } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { getAgedReceivablesFn } from '~/features/invoices/server'
+import { INVOICE_QUERY_KEYS } from '~/features/invoices/mutations'
+import { useFormatCurrency } from '~/features/settings'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '~/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '~/components/ui/table'
+
+const BUCKETS = [
+  'current',
+  'days1to30',
+  'days31to60',
+  'days61to90',
+  'over90',
+] as const
+
+interface AgedReceivablesCardProps {
+  farmId?: string | null
+}
+
+export function AgedReceivablesCard({ farmId }: AgedReceivablesCardProps) {
+  const { t } = useTranslation(['invoices', 'common'])
+  const { format: formatCurrency } = useFormatCurrency()
+
+  const { data: rows = [], isLoading } = useQuery({
+    queryKey: [...INVOICE_QUERY_KEYS.all, 'aged-receivables', farmId],
+    queryFn: () =>
+      getAgedReceivablesFn({ data: { farmId: farmId ?? undefined } }),
+  })
+
+  const totals = BUCKETS.reduce(
+    (acc, bucket) => ({
+      ...acc,
+      [bucket]: rows.reduce((sum, row) => sum + row[bucket], 0),
+    }),
+    {} as Record<(typeof BUCKETS)[number], number>,
+  )
+  const grandTotal = rows.reduce((sum, row) => sum + row.total, 0)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="h-5 w-5" />
+          {t('agedReceivables.title')}
+        </CardTitle>
+        <CardDescription>{t('agedReceivables.description')}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-muted-foreground text-center py-4">
+            {t('common:loading', { defaultValue: 'Loading...' })}
+          </p>
+        ) : rows.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">
+            {t('agedReceivables.empty')}
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('agedReceivables.customer')}</TableHead>
+                  {BUCKETS.map((bucket) => (
+                    <TableHead key={bucket} className="text-right">
+                      {t(`agedReceivables.${bucket}`)}
+                    </TableHead>
+                  ))}
+                  <TableHead className="text-right">
+                    {t('agedReceivables.total')}
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={row.customerId}>
+                    <TableCell className="font-medium">
+                      {row.customerName}
+                    </TableCell>
+                    {BUCKETS.map((bucket) => (
+                      <TableCell
+                        key={bucket}
+                        className={`text-right ${
+                          bucket === 'over90' && row.over90 > 0
+                            ? 'text-destructive font-medium'
+                            : ''
+                        }`}
+                      >
+                        {row[bucket] > 0 ? formatCurrency(row[bucket]) : '-'}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right font-bold">
+                      {formatCurrency(row.total)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell>{t('agedReceivables.total')}</TableCell>
+                  {BUCKETS.map((bucket) => (
+                    <TableCell key={bucket} className="text-right">
+                      {formatCurrency(totals[bucket])}
+                    </TableCell>
+                  ))}
+                  <TableCell className="text-right font-bold">
+                    {formatCurrency(grandTotal)}
+                  </TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
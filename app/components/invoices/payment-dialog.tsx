@@ -0,0 +1,225 @@
+import React, { useEffect, useState } from 'react'
+import { Wallet } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import type { PaymentMethod } from '~/features/invoices/types'
+import { PAYMENT_METHODS } from '~/features/invoices/types'
+import { useInvoiceMutations } from '~/features/invoices/mutations'
+import { useFormatCurrency } from '~/features/settings'
+import { Button } from '~/components/ui/button'
+import { Input } from '~/components/ui/input'
+import { Label } from '~/components/ui/label'
+import { Textarea } from '~/components/ui/textarea'
+import { ImageUpload } from '~/components/ui/image-upload'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '~/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '~/components/ui/dialog'
+
+const fieldClassName =
+  'h-11 bg-black/5 dark:bg-white/5 border-transparent focus:border-emerald-500/50 focus:ring-emerald-500/20 transition-all font-medium text-sm px-4 rounded-xl'
+
+const labelClassName =
+  'text-[10px] font-bold uppercase tracking-widest text-muted-foreground/60 pl-1'
+
+interface PaymentDialogProps {
+  invoiceId: string
+  invoiceNumber: string
+  balanceDue: number
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onRecorded?: () => void
+}
+
+export function PaymentDialog({
+  invoiceId,
+  invoiceNumber,
+  balanceDue,
+  open,
+  onOpenChange,
+  onRecorded,
+}: PaymentDialogProps) {
+  const { t } = useTranslation(['invoices', 'common'])
+  const { recordPayment } = useInvoiceMutations()
+  const { format: formatCurrency } = useFormatCurrency()
+  const [amount, setAmount] = useState('')
+  const [date, setDate] = useState('')
+  const [method, setMethod] = useState<PaymentMethod>('cash')
+  const [reference, setReference] = useState('')
+  const [notes, setNotes] = useState('')
+  const [attachmentUrl, setAttachmentUrl] = useState('')
+  const [error, setError] = useState('')
+
+  // Default to settling the full balance today
+  useEffect(() => {
+    if (open) {
+      setAmount(balanceDue > 0 ? balanceDue.toFixed(2) : '')
+      setDate(new Date().toISOString().split('T')[0])
+      setMethod('cash')
+      setReference('')
+      setNotes('')
+      setAttachmentUrl('')
+      setError('')
+    }
+  }, [open, balanceDue])
+
+  const parsedAmount = parseFloat(amount) || 0
+  const isValid = parsedAmount > 0 && parsedAmount <= balanceDue && !!date
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    recordPayment.mutate(
+      {
+        invoiceId,
+        amount: parsedAmount,
+        date: new Date(date),
+        method,
+        reference: reference || null,
+        attachmentUrl: attachmentUrl || null,
+        notes: notes || null,
+      },
+      {
+        onSuccess: () => {
+          onOpenChange(false)
+          onRecorded?.()
+        },
+        onError: (err) => setError(err.message),
+      },
+    )
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wallet className="h-5 w-5" />
+            {t('payments.record')}
+          </DialogTitle>
+          <DialogDescription>
+            {t('payments.recordDesc', { number: invoiceNumber })}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="p-3 bg-muted rounded-lg flex justify-between text-sm">
+            <span className="font-medium">{t('payments.balanceDue')}:</span>
+            <span className="font-bold">{formatCurrency(balanceDue)}</span>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label className={labelClassName}>{t('payments.amount')} *</Label>
+              <Input
+                type="number"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className={fieldClassName}
+                style={{ color: 'var(--text-landing-primary)' }}
+                min="0.01"
+                max={balanceDue}
+                step="0.01"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className={labelClassName}>{t('payments.date')} *</Label>
+              <Input
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                className={fieldClassName}
+                style={{ color: 'var(--text-landing-primary)' }}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className={labelClassName}>{t('payments.method')} *</Label>
+            <Select value={method} onValueChange={(v) => v && setMethod(v)}>
+              <SelectTrigger
+                className={fieldClassName}
+                style={{ color: 'var(--text-landing-primary)' }}
+              >
+                <SelectValue>{t(`payments.methods.${method}`)}</SelectValue>
+              </SelectTrigger>
+              <SelectContent>
+                {PAYMENT_METHODS.map((m) => (
+                  <SelectItem key={m} value={m}>
+                    {t(`payments.methods.${m}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label className={labelClassName}>{t('payments.reference')}</Label>
+            <Input
+              value={reference}
+              onChange={(e) => setReference(e.target.value)}
+              placeholder={t('payments.referencePlaceholder')}
+              className={fieldClassName}
+              style={{ color: 'var(--text-landing-primary)' }}
+              maxLength={100}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className={labelClassName}>{t('payments.notes')}</Label>
+            <Textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              maxLength={500}
+              rows={2}
+            />
+          </div>
+
+          <ImageUpload
+            label={t('payments.attachment')}
+            value={attachmentUrl || undefined}
+            onChange={setAttachmentUrl}
+            onRemove={() => setAttachmentUrl('')}
+          />
+
+          {error && (
+            <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+              {error}
+            </div>
+          )}
+
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={recordPayment.isPending}
+            >
+              {t('common:cancel', { defaultValue: 'Cancel' })}
+            </Button>
+            <Button
+              type="submit"
+              disabled={recordPayment.isPending || !isValid}
+            >
+              {recordPayment.isPending
+                ? t('common:saving', { defaultValue: 'Saving...' })
+                : t('payments.record')}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
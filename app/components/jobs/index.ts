@@ -0,0 +1,3 @@
+export * from './job-health-badge'
+export * from './job-status-table'
+export * from './job-run-history'
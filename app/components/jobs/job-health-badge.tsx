@@ -0,0 +1,21 @@
+import { useTranslation } from 'react-i18next'
+import type { JobHealth } from '~/features/jobs/types'
+import { Badge } from '~/components/ui/badge'
+import { cn } from '~/lib/utils'
+
+const HEALTH_STYLES: Record<JobHealth, string> = {
+  running: 'bg-blue-500/15 text-blue-600 dark:text-blue-400',
+  success: 'bg-emerald-500/15 text-emerald-600 dark:text-emerald-400',
+  failed: 'bg-red-500/15 text-red-600 dark:text-red-400',
+  never_run: 'bg-muted text-muted-foreground',
+}
+
+export function JobHealthBadge({ health }: { health: JobHealth }) {
+  const { t } = useTranslation(['jobs'])
+
+  return (
+    <Badge variant="outline" className={cn('border-0', HEALTH_STYLES[health])}>
+      {t(`jobs:health.${health}`)}
+    </Badge>
+  )
+}
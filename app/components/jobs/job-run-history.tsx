@@ -0,0 +1,77 @@
+import { useTranslation } from 'react-i18next'
+import { JobHealthBadge } from './job-health-badge'
+import type { JobRun } from '~/features/jobs/types'
+import {
+  formatJobDuration,
+  formatJobResult,
+  getJobHealth,
+} from '~/features/jobs/service'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '~/components/ui/table'
+
+interface JobRunHistoryProps {
+  runs: Array<JobRun>
+  formatDateTime: (date: Date) => string
+}
+
+export function JobRunHistory({ runs, formatDateTime }: JobRunHistoryProps) {
+  const { t } = useTranslation(['jobs'])
+  const now = new Date()
+
+  if (runs.length === 0) {
+    return (
+      <p className="py-6 text-center text-sm text-muted-foreground">
+        {t('jobs:noRuns')}
+      </p>
+    )
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{t('jobs:columns.startedAt')}</TableHead>
+          <TableHead>{t('jobs:columns.job')}</TableHead>
+          <TableHead>{t('jobs:columns.trigger')}</TableHead>
+          <TableHead>{t('jobs:columns.status')}</TableHead>
+          <TableHead>{t('jobs:columns.duration')}</TableHead>
+          <TableHead>{t('jobs:columns.result')}</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {runs.map((run) => (
+          <TableRow key={run.id}>
+            <TableCell className="whitespace-nowrap">
+              {formatDateTime(new Date(run.startedAt))}
+            </TableCell>
+            <TableCell className="font-medium">{run.jobName}</TableCell>
+            <TableCell>
+              {run.trigger === 'manual' && run.triggeredByName
+                ? t('jobs:triggers.manualBy', { name: run.triggeredByName })
+                : t(`jobs:triggers.${run.trigger}`)}
+            </TableCell>
+            <TableCell>
+              <JobHealthBadge health={getJobHealth(run, now)} />
+            </TableCell>
+            <TableCell className="whitespace-nowrap">
+              {run.durationMs != null ? formatJobDuration(run.durationMs) : '—'}
+            </TableCell>
+            <TableCell className="max-w-sm text-xs text-muted-foreground">
+              {run.error ? (
+                <span className="text-destructive">{run.error}</span>
+              ) : (
+                formatJobResult(run.result) || '—'
+              )}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
@@ -0,0 +1,94 @@
+import { Loader2, Play } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { JobHealthBadge } from './job-health-badge'
+import type { JobName, JobStatus } from '~/features/jobs/types'
+import { formatJobDuration, formatJobResult } from '~/features/jobs/service'
+import { Button } from '~/components/ui/button'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '~/components/ui/table'
+
+interface JobStatusTableProps {
+  jobs: Array<JobStatus>
+  runningJob: JobName | null
+  formatDateTime: (date: Date) => string
+  onRun: (jobName: JobName) => void
+}
+
+export function JobStatusTable({
+  jobs,
+  runningJob,
+  formatDateTime,
+  onRun,
+}: JobStatusTableProps) {
+  const { t } = useTranslation(['jobs'])
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{t('jobs:columns.job')}</TableHead>
+          <TableHead>{t('jobs:columns.schedule')}</TableHead>
+          <TableHead>{t('jobs:columns.lastRun')}</TableHead>
+          <TableHead>{t('jobs:columns.status')}</TableHead>
+          <TableHead>{t('jobs:columns.duration')}</TableHead>
+          <TableHead>{t('jobs:columns.result')}</TableHead>
+          <TableHead />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {jobs.map((job) => (
+          <TableRow key={job.name}>
+            <TableCell>
+              <div className="font-medium">{job.name}</div>
+              <div className="text-xs text-muted-foreground">
+                {job.description}
+              </div>
+            </TableCell>
+            <TableCell className="font-mono text-xs">{job.schedule}</TableCell>
+            <TableCell className="whitespace-nowrap">
+              {job.lastRun
+                ? formatDateTime(new Date(job.lastRun.startedAt))
+                : t('jobs:never')}
+            </TableCell>
+            <TableCell>
+              <JobHealthBadge health={job.health} />
+            </TableCell>
+            <TableCell className="whitespace-nowrap">
+              {job.lastRun?.durationMs != null
+                ? formatJobDuration(job.lastRun.durationMs)
+                : '—'}
+            </TableCell>
+            <TableCell className="max-w-xs text-xs text-muted-foreground">
+              {job.lastRun?.error ? (
+                <span className="text-destructive">{job.lastRun.error}</span>
+              ) : (
+                formatJobResult(job.lastRun?.result ?? null) || '—'
+              )}
+            </TableCell>
+            <TableCell className="text-right">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={runningJob !== null || job.health === 'running'}
+                onClick={() => onRun(job.name)}
+              >
+                {runningJob === job.name ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Play className="mr-2 h-4 w-4" />
+                )}
+                {runningJob === job.name ? t('jobs:running') : t('jobs:runNow')}
+              </Button>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
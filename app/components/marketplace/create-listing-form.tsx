@@ -2,7 +2,7 @@ import { useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import { ChevronLeft, ChevronRight, Upload } from 'lucide-react'
 import { BatchSelector } from './batch-selector'
-import { useFormatCurrency } from '~/features/settings'
+import { useFormatCurrency, useFormatDate } from '~/features/settings'
 import { Button } from '~/components/ui/button'
 import { Input } from '~/components/ui/input'
 import { Label } from '~/components/ui/label'
@@ -21,6 +21,7 @@ interface Batch {
   species: string
   currentQuantity: number
   livestockType: string
+  withdrawalClearsOn?: Date | null
 }
 
 interface CreateListingFormProps {
@@ -42,6 +43,8 @@ interface FormData {
   photos: Array<File>
   contactPreference: string
   expirationPeriod: string
+  batchId: string | null
+  withdrawalOverrideReason: string
 }
 
 const STEPS = [
@@ -66,6 +69,7 @@ export function CreateListingForm({
 }: CreateListingFormProps) {
   const { t } = useTranslation('marketplace')
   const { format } = useFormatCurrency()
+  const { format: formatDate } = useFormatDate()
   const [currentStep, setCurrentStep] = useState(1)
   const [formData, setFormData] = useState<FormData>({
     livestockType: '',
@@ -80,6 +84,8 @@ export function CreateListingForm({
     photos: [],
     contactPreference: 'phone',
     expirationPeriod: '7',
+    batchId: null,
+    withdrawalOverrideReason: '',
   })
 
   const updateFormData = (field: keyof FormData, value: any) => {
@@ -94,10 +100,20 @@ export function CreateListingForm({
         livestockType: batch.livestockType,
         species: batch.species,
         quantity: batch.currentQuantity.toString(),
+        batchId: batch.id,
+        withdrawalOverrideReason: '',
       }))
     }
   }
 
+  // Listing a batch still under treatment withdrawal needs a reason
+  const selectedBatch = batches.find((b) => b.id === formData.batchId)
+  const withdrawalClearsOn =
+    selectedBatch?.withdrawalClearsOn &&
+    new Date(selectedBatch.withdrawalClearsOn) > new Date()
+      ? new Date(selectedBatch.withdrawalClearsOn)
+      : null
+
   const handlePhotoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []).slice(0, 5)
     updateFormData('photos', files)
@@ -106,7 +122,11 @@ export function CreateListingForm({
   const canGoNext = () => {
     switch (currentStep) {
       case 1:
-        return formData.livestockType && formData.species
+        return (
+          formData.livestockType &&
+          formData.species &&
+          (!withdrawalClearsOn || formData.withdrawalOverrideReason.trim())
+        )
       case 2:
         return formData.quantity && formData.minPrice
       case 3:
@@ -120,7 +140,12 @@ export function CreateListingForm({
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
-    onSubmit(formData)
+    onSubmit({
+      ...formData,
+      withdrawalOverrideReason: withdrawalClearsOn
+        ? formData.withdrawalOverrideReason.trim()
+        : null,
+    })
   }
 
   const renderFuzzedPreview = (type: 'price' | 'location') => {
@@ -186,6 +211,28 @@ export function CreateListingForm({
               <BatchSelector batches={batches} onSelect={handleBatchSelect} />
             </div>
 
+            {withdrawalClearsOn && (
+              <div className="space-y-2 rounded-md border border-destructive/50 p-3">
+                <p className="text-sm text-destructive">
+                  {t('withdrawalWarning', {
+                    date: formatDate(withdrawalClearsOn),
+                    defaultValue:
+                      'This batch is in a treatment withdrawal period until {{date}}. Give a reason to list it anyway.',
+                  })}
+                </p>
+                <Input
+                  value={formData.withdrawalOverrideReason}
+                  onChange={(e) =>
+                    updateFormData('withdrawalOverrideReason', e.target.value)
+                  }
+                  placeholder={t('withdrawalReasonPlaceholder', {
+                    defaultValue: 'Reason for override',
+                  })}
+                  maxLength={500}
+                />
+              </div>
+            )}
+
             <div>
               <Label htmlFor="livestockType">Livestock Type *</Label>
               <Select
@@ -0,0 +1,4 @@
+export * from './milk-summary-cards'
+export * from './milk-form-dialog'
+export * from './milk-columns'
+export * from './milk-delete-dialog'
@@ -0,0 +1,120 @@
+import { useMemo } from 'react'
+import { Edit2, Milk, Trash2 } from 'lucide-react'
+import type { ColumnDef } from '@tanstack/react-table'
+import type { MilkRecordWithDetails } from '~/features/milk/repository'
+import { calculateDailyYield } from '~/features/milk/service'
+import { Badge } from '~/components/ui/badge'
+import { Button } from '~/components/ui/button'
+
+interface UseMilkColumnsProps {
+  t: (key: string, options?: any) => string
+  formatDate: (date: Date | string) => string
+  onEdit: (record: MilkRecordWithDetails) => void
+  onDelete: (record: MilkRecordWithDetails) => void
+}
+
+const formatLiters = (value: string | number) =>
+  `${Number(value).toLocaleString(undefined, { maximumFractionDigits: 2 })} L`
+
+export function useMilkColumns({
+  t,
+  formatDate,
+  onEdit,
+  onDelete,
+}: UseMilkColumnsProps): Array<ColumnDef<MilkRecordWithDetails>> {
+  return useMemo(
+    () => [
+      {
+        accessorKey: 'date',
+        header: t('common:date', { defaultValue: 'Date' }),
+        cell: ({ row }) => formatDate(row.original.date),
+      },
+      {
+        accessorKey: 'batchSpecies',
+        header: t('batches:batch', { defaultValue: 'Batch' }),
+        cell: ({ row }) => (
+          <div className="flex items-center gap-2">
+            <Milk className="h-4 w-4 text-sky-600" />
+            <span className="font-medium">{row.original.batchSpecies}</span>
+          </div>
+        ),
+      },
+      {
+        accessorKey: 'morningLiters',
+        header: t('milk:morning', { defaultValue: 'Morning' }),
+        cell: ({ row }) => formatLiters(row.original.morningLiters),
+      },
+      {
+        accessorKey: 'eveningLiters',
+        header: t('milk:evening', { defaultValue: 'Evening' }),
+        cell: ({ row }) => formatLiters(row.original.eveningLiters),
+      },
+      {
+        id: 'total',
+        header: t('milk:total', { defaultValue: 'Total' }),
+        cell: ({ row }) => (
+          <span className="font-medium">
+            {formatLiters(
+              calculateDailyYield(
+                row.original.morningLiters,
+                row.original.eveningLiters,
+              ),
+            )}
+          </span>
+        ),
+      },
+      {
+        accessorKey: 'rejectedLiters',
+        header: t('milk:rejected', { defaultValue: 'Rejected' }),
+        cell: ({ row }) =>
+          Number(row.original.rejectedLiters) > 0 ? (
+            <div className="flex items-center gap-2">
+              <span className="text-destructive">
+                {formatLiters(row.original.rejectedLiters)}
+              </span>
+              {row.original.rejectionReason && (
+                <Badge variant="outline">
+                  {t(`milk:reasons.${row.original.rejectionReason}`, {
+                    defaultValue: row.original.rejectionReason,
+                  })}
+                </Badge>
+              )}
+            </div>
+          ) : (
+            formatLiters(0)
+          ),
+      },
+      {
+        accessorKey: 'butterfatPercent',
+        header: t('milk:butterfat', { defaultValue: 'Butterfat' }),
+        cell: ({ row }) =>
+          row.original.butterfatPercent !== null
+            ? `${Number(row.original.butterfatPercent)}%`
+            : '—',
+      },
+      {
+        id: 'actions',
+        cell: ({ row }) => (
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => onEdit(row.original)}
+            >
+              <Edit2 className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="text-destructive"
+              onClick={() => onDelete(row.original)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ),
+      },
+    ],
+    [t, formatDate, onEdit, onDelete],
+  )
+}
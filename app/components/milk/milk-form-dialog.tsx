@@ -0,0 +1,390 @@
+import { useTranslation } from 'react-i18next'
+import { useEffect, useState } from 'react'
+import { ShieldAlert } from 'lucide-react'
+import type {
+  MilkBatch,
+  MilkRejectionReason,
+  UpdateMilkRecordInput,
+} from '~/features/milk/types'
+import { MILK_REJECTION_REASONS } from '~/features/milk/types'
+import { calculateDailyYield } from '~/features/milk/service'
+import { Button } from '~/components/ui/button'
+import { Input } from '~/components/ui/input'
+import { Label } from '~/components/ui/label'
+import { Textarea } from '~/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '~/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '~/components/ui/dialog'
+
+interface MilkFormInitialData {
+  batchId: string
+  date: Date | string
+  morningLiters: string
+  eveningLiters: string
+  rejectedLiters: string
+  rejectionReason: MilkRejectionReason | null
+  butterfatPercent: string | null
+  animalsMilked: number | null
+  notes: string | null
+}
+
+interface MilkFormDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSubmit: (data: UpdateMilkRecordInput & { batchId: string }) => Promise<void>
+  batches: Array<MilkBatch>
+  isSubmitting: boolean
+  initialData?: MilkFormInitialData
+}
+
+const today = () => new Date().toISOString().split('T')[0]
+
+const emptyForm = {
+  batchId: '',
+  date: today(),
+  morningLiters: '',
+  eveningLiters: '',
+  rejectedLiters: '0',
+  rejectionReason: '' as MilkRejectionReason | '',
+  butterfatPercent: '',
+  animalsMilked: '',
+  notes: '',
+}
+
+export function MilkFormDialog({
+  open,
+  onOpenChange,
+  onSubmit,
+  batches,
+  isSubmitting,
+  initialData,
+}: MilkFormDialogProps) {
+  const { t } = useTranslation(['milk', 'common', 'batches'])
+  const [formData, setFormData] = useState(emptyForm)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (initialData) {
+      setFormData({
+        batchId: initialData.batchId,
+        date: new Date(initialData.date).toISOString().split('T')[0],
+        morningLiters: String(Number(initialData.morningLiters)),
+        eveningLiters: String(Number(initialData.eveningLiters)),
+        rejectedLiters: String(Number(initialData.rejectedLiters)),
+        rejectionReason: initialData.rejectionReason ?? '',
+        butterfatPercent:
+          initialData.butterfatPercent !== null
+            ? String(Number(initialData.butterfatPercent))
+            : '',
+        animalsMilked:
+          initialData.animalsMilked !== null
+            ? String(initialData.animalsMilked)
+            : '',
+        notes: initialData.notes ?? '',
+      })
+    } else {
+      setFormData({ ...emptyForm, date: today() })
+    }
+    setError('')
+  }, [initialData, open])
+
+  const selectedBatch = batches.find((b) => b.id === formData.batchId)
+  const totalLiters = calculateDailyYield(
+    formData.morningLiters || 0,
+    formData.eveningLiters || 0,
+  )
+  // Milk from treated animals cannot be sold until the withdrawal ends
+  const underWithdrawal =
+    !initialData &&
+    !!selectedBatch?.withdrawalUntil &&
+    new Date(formData.date) <= new Date(selectedBatch.withdrawalUntil)
+  const rejectedLiters = underWithdrawal
+    ? totalLiters
+    : parseFloat(formData.rejectedLiters || '0')
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    try {
+      await onSubmit({
+        batchId: formData.batchId,
+        date: new Date(formData.date),
+        morningLiters: parseFloat(formData.morningLiters || '0'),
+        eveningLiters: parseFloat(formData.eveningLiters || '0'),
+        rejectedLiters,
+        rejectionReason: underWithdrawal
+          ? 'withdrawal'
+          : rejectedLiters > 0
+            ? formData.rejectionReason || null
+            : null,
+        butterfatPercent: formData.butterfatPercent
+          ? parseFloat(formData.butterfatPercent)
+          : null,
+        animalsMilked: formData.animalsMilked
+          ? parseInt(formData.animalsMilked)
+          : null,
+        notes: formData.notes || null,
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  const setField =
+    (field: keyof typeof emptyForm) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>): void =>
+      setFormData((prev) => ({ ...prev, [field]: e.target.value }))
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>
+            {initialData
+              ? t('milk:editRecordTitle', { defaultValue: 'Edit Milk Record' })
+              : t('milk:addRecordTitle', { defaultValue: 'Record Milking' })}
+          </DialogTitle>
+          {!initialData && (
+            <DialogDescription>
+              {t('milk:addRecordDescription', {
+                defaultValue: 'Enter the morning and evening yield for a batch',
+              })}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {!initialData && (
+            <div className="space-y-2">
+              <Label htmlFor="batch">
+                {t('batches:batch', { defaultValue: 'Batch' })}
+              </Label>
+              <Select
+                value={formData.batchId}
+                onValueChange={(value: string | null) =>
+                  setFormData((prev) => ({ ...prev, batchId: value || '' }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue>
+                    {selectedBatch
+                      ? selectedBatch.species
+                      : t('batches:selectBatch', {
+                          defaultValue: 'Select batch',
+                        })}
+                  </SelectValue>
+                </SelectTrigger>
+                <SelectContent>
+                  {batches.map((batch) => (
+                    <SelectItem key={batch.id} value={batch.id}>
+                      {batch.species} (
+                      {t('milk:headCount', {
+                        count: batch.currentQuantity,
+                        defaultValue: '{{count}} head',
+                      })}
+                      )
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="date">
+              {t('common:date', { defaultValue: 'Date' })}
+            </Label>
+            <Input
+              id="date"
+              type="date"
+              value={formData.date}
+              onChange={setField('date')}
+              required
+            />
+          </div>
+
+          {underWithdrawal && selectedBatch.withdrawalUntil && (
+            <div className="flex gap-2 text-sm text-warning bg-warning/10 p-3 rounded-md">
+              <ShieldAlert className="h-4 w-4 shrink-0" />
+              {t('milk:withdrawalWarning', {
+                date: new Date(
+                  selectedBatch.withdrawalUntil,
+                ).toLocaleDateString(),
+                defaultValue:
+                  'This batch is under treatment withdrawal until {{date}}. All milk will be recorded as rejected.',
+              })}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="morning">
+                {t('milk:morningLiters', { defaultValue: 'Morning (L)' })}
+              </Label>
+              <Input
+                id="morning"
+                type="number"
+                min="0"
+                step="0.01"
+                value={formData.morningLiters}
+                onChange={setField('morningLiters')}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="evening">
+                {t('milk:eveningLiters', { defaultValue: 'Evening (L)' })}
+              </Label>
+              <Input
+                id="evening"
+                type="number"
+                min="0"
+                step="0.01"
+                value={formData.eveningLiters}
+                onChange={setField('eveningLiters')}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="rejected">
+                {t('milk:rejectedLiters', { defaultValue: 'Rejected (L)' })}
+              </Label>
+              <Input
+                id="rejected"
+                type="number"
+                min="0"
+                step="0.01"
+                value={
+                  underWithdrawal
+                    ? String(totalLiters)
+                    : formData.rejectedLiters
+                }
+                onChange={setField('rejectedLiters')}
+                disabled={underWithdrawal}
+              />
+            </div>
+            {rejectedLiters > 0 && !underWithdrawal && (
+              <div className="space-y-2">
+                <Label>
+                  {t('milk:rejectionReason', { defaultValue: 'Reason' })}
+                </Label>
+                <Select
+                  value={formData.rejectionReason}
+                  onValueChange={(value: string | null) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      rejectionReason: (value || '') as MilkRejectionReason,
+                    }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue>
+                      {formData.rejectionReason
+                        ? t(`milk:reasons.${formData.rejectionReason}`)
+                        : t('milk:selectReason', {
+                            defaultValue: 'Select reason',
+                          })}
+                    </SelectValue>
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MILK_REJECTION_REASONS.map((reason) => (
+                      <SelectItem key={reason} value={reason}>
+                        {t(`milk:reasons.${reason}`)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="butterfat">
+                {t('milk:butterfatPercent', { defaultValue: 'Butterfat %' })} (
+                {t('common:optional', { defaultValue: 'Optional' })})
+              </Label>
+              <Input
+                id="butterfat"
+                type="number"
+                min="0"
+                max="15"
+                step="0.01"
+                value={formData.butterfatPercent}
+                onChange={setField('butterfatPercent')}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="animals">
+                {t('milk:animalsMilked', { defaultValue: 'Animals Milked' })} (
+                {t('common:optional', { defaultValue: 'Optional' })})
+              </Label>
+              <Input
+                id="animals"
+                type="number"
+                min="1"
+                step="1"
+                value={formData.animalsMilked}
+                onChange={setField('animalsMilked')}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="notes">
+              {t('common:notes', { defaultValue: 'Notes' })}
+            </Label>
+            <Textarea
+              id="notes"
+              value={formData.notes}
+              onChange={setField('notes')}
+            />
+          </div>
+
+          {error && (
+            <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+              {error}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSubmitting}
+            >
+              {t('common:cancel', { defaultValue: 'Cancel' })}
+            </Button>
+            <Button
+              type="submit"
+              disabled={
+                isSubmitting ||
+                (!initialData && !formData.batchId) ||
+                totalLiters <= 0
+              }
+            >
+              {isSubmitting
+                ? t('common:saving', { defaultValue: 'Saving...' })
+                : initialData
+                  ? t('common:saveChanges', { defaultValue: 'Save Changes' })
+                  : t('milk:saveRecord', { defaultValue: 'Save Record' })}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,85 @@
+import { AlertTriangle, Droplet, Milk, Package } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import type { MilkSummary } from '~/features/milk/types'
+import { Card, CardContent, CardHeader, CardTitle } from '~/components/ui/card'
+
+interface MilkSummaryCardsProps {
+  summary: MilkSummary | null
+}
+
+const formatLiters = (value: number) =>
+  `${value.toLocaleString(undefined, { maximumFractionDigits: 2 })} L`
+
+export function MilkSummaryCards({ summary }: MilkSummaryCardsProps) {
+  const { t } = useTranslation(['milk'])
+
+  if (!summary) return null
+
+  return (
+    <div className="grid gap-3 sm:gap-4 grid-cols-1 md:grid-cols-4 mb-6 md:mb-8">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-0 p-2 sm:pb-1 sm:p-3">
+          <CardTitle className="text-[10px] sm:text-xs font-medium text-muted-foreground uppercase tracking-wider">
+            {t('milk:totalProduced', { defaultValue: 'Total Produced' })}
+          </CardTitle>
+          <Milk className="h-3 w-3 sm:h-4 sm:w-4 text-muted-foreground" />
+        </CardHeader>
+        <CardContent className="p-2 pt-0 sm:p-3 sm:pt-0">
+          <div className="text-lg sm:text-2xl font-bold">
+            {formatLiters(summary.totalLiters)}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-0 p-2 sm:pb-1 sm:p-3">
+          <CardTitle className="text-[10px] sm:text-xs font-medium text-muted-foreground uppercase tracking-wider">
+            {t('milk:rejected', { defaultValue: 'Rejected' })}
+          </CardTitle>
+          <AlertTriangle className="h-3 w-3 sm:h-4 sm:w-4 text-destructive" />
+        </CardHeader>
+        <CardContent className="p-2 pt-0 sm:p-3 sm:pt-0">
+          <div className="text-lg sm:text-2xl font-bold text-destructive">
+            {formatLiters(summary.totalRejected)}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-0 p-2 sm:pb-1 sm:p-3">
+          <CardTitle className="text-[10px] sm:text-xs font-medium text-muted-foreground uppercase tracking-wider">
+            {t('milk:available', { defaultValue: 'Available to Sell' })}
+          </CardTitle>
+          <Package className="h-3 w-3 sm:h-4 sm:w-4 text-green-600" />
+        </CardHeader>
+        <CardContent className="p-2 pt-0 sm:p-3 sm:pt-0">
+          <div className="text-lg sm:text-2xl font-bold text-green-600">
+            {formatLiters(summary.available)}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {t('milk:soldAmount', {
+              amount: formatLiters(summary.totalSold),
+              defaultValue: '{{amount}} sold',
+            })}
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-0 p-2 sm:pb-1 sm:p-3">
+          <CardTitle className="text-[10px] sm:text-xs font-medium text-muted-foreground uppercase tracking-wider">
+            {t('milk:averageButterfat', { defaultValue: 'Avg Butterfat' })}
+          </CardTitle>
+          <Droplet className="h-3 w-3 sm:h-4 sm:w-4 text-muted-foreground" />
+        </CardHeader>
+        <CardContent className="p-2 pt-0 sm:p-3 sm:pt-0">
+          <div className="text-lg sm:text-2xl font-bold">
+            {summary.averageButterfat !== null
+              ? `${summary.averageButterfat}%`
+              : '—'}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
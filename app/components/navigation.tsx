@@ -1,6 +1,7 @@
 import { Link, useLocation, useRouter } from '@tanstack/react-router'
 import {
   Activity,
+  Baby,
   BarChart3,
   Bird,
   Building2,
@@ -10,16 +11,20 @@ import {
   Droplets,
   FileCheck,
   FileText,
+  Hexagon,
   Home,
   MapPin,
   Menu,
+  Milk,
   Package,
   Receipt,
   Scale,
+  Scissors,
   Settings,
   Shield,
   ShoppingCart,
   Syringe,
+  Tag,
   TrendingDown,
   Truck,
   UserCircle,
@@ -89,6 +94,16 @@ export const getNavigationSections = (t: any, userType?: string) => {
           href: '/batches',
           icon: Package,
         },
+        {
+          name: t('common:animals', { defaultValue: 'Animals' }),
+          href: '/animals',
+          icon: Tag,
+        },
+        {
+          name: t('common:breeding', { defaultValue: 'Breeding' }),
+          href: '/breeding',
+          icon: Baby,
+        },
         {
           name: t('common:feed', { defaultValue: 'Feed' }),
           href: '/feed',
@@ -119,6 +134,21 @@ export const getNavigationSections = (t: any, userType?: string) => {
           href: '/eggs',
           icon: Bird,
         },
+        {
+          name: t('common:milk', { defaultValue: 'Milk' }),
+          href: '/milk',
+          icon: Milk,
+        },
+        {
+          name: t('common:shearing', { defaultValue: 'Shearing' }),
+          href: '/shearing',
+          icon: Scissors,
+        },
+        {
+          name: t('common:apiary', { defaultValue: 'Apiary' }),
+          href: '/apiary',
+          icon: Hexagon,
+        },
         {
           name: t('common:inventory', { defaultValue: 'Inventory' }),
           href: '/inventory',
@@ -0,0 +1,160 @@
+import { useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { AlertTriangle, Droplets, Hexagon, Scale } from 'lucide-react'
+import type { ColumnDef } from '@tanstack/react-table'
+import type { ApiaryReport } from '~/features/reports/server'
+import { DataTable } from '~/components/ui/data-table'
+import { useFormatDate } from '~/features/settings'
+import { SummaryCard } from '~/components/ui/summary-card'
+import { Card, CardContent } from '~/components/ui/card'
+import { Badge } from '~/components/ui/badge'
+
+type ApiaryReportRow = ApiaryReport['records'][number]
+
+const formatKg = (value: number) =>
+  `${value.toLocaleString(undefined, { maximumFractionDigits: 2 })} kg`
+
+export function ApiaryReportView({ report }: { report: ApiaryReport }) {
+  const { t } = useTranslation(['reports', 'common'])
+  const { format: formatDate } = useFormatDate()
+  const [page, setPage] = useState(1)
+  const [pageSize, setPageSize] = useState(10)
+
+  const columns = useMemo<Array<ColumnDef<ApiaryReportRow>>>(
+    () => [
+      {
+        accessorKey: 'hiveName',
+        header: t('reports:apiary.columns.hive', { defaultValue: 'Hive' }),
+        cell: ({ row }) => (
+          <span className="font-medium">{row.original.hiveName}</span>
+        ),
+      },
+      {
+        accessorKey: 'honeyKg',
+        header: t('reports:apiary.columns.honey', { defaultValue: 'Honey' }),
+        cell: ({ row }) => (
+          <span className="font-bold">{formatKg(row.original.honeyKg)}</span>
+        ),
+      },
+      {
+        accessorKey: 'waxKg',
+        header: t('reports:apiary.columns.wax', { defaultValue: 'Wax' }),
+        cell: ({ row }) => formatKg(row.original.waxKg),
+      },
+      {
+        accessorKey: 'inspections',
+        header: t('reports:apiary.columns.inspections', {
+          defaultValue: 'Inspections',
+        }),
+      },
+      {
+        accessorKey: 'lastInspection',
+        header: t('reports:apiary.columns.lastInspection', {
+          defaultValue: 'Last Inspection',
+        }),
+        cell: ({ row }) =>
+          row.original.lastInspection
+            ? formatDate(row.original.lastInspection)
+            : '—',
+      },
+      {
+        accessorKey: 'latestVarroaCount',
+        header: t('reports:apiary.columns.varroa', { defaultValue: 'Varroa' }),
+        cell: ({ row }) => row.original.latestVarroaCount ?? '—',
+      },
+      {
+        accessorKey: 'needsAttention',
+        header: t('reports:apiary.columns.status', { defaultValue: 'Status' }),
+        cell: ({ row }) =>
+          row.original.needsAttention ? (
+            <Badge variant="destructive">
+              {t('reports:apiary.status.needsAttention', {
+                defaultValue: 'Check hive',
+              })}
+            </Badge>
+          ) : (
+            <Badge variant="outline">
+              {t('reports:apiary.status.ok', { defaultValue: 'OK' })}
+            </Badge>
+          ),
+      },
+    ],
+    [t, formatDate],
+  )
+
+  const data = useMemo(() => {
+    const start = (page - 1) * pageSize
+    return report.records.slice(start, start + pageSize)
+  }, [report.records, page, pageSize])
+
+  const total = report.records.length
+  const totalPages = Math.ceil(total / pageSize)
+
+  return (
+    <div className="space-y-8">
+      <div className="grid gap-4 sm:gap-6 grid-cols-2 lg:grid-cols-4">
+        <SummaryCard
+          title={t('reports:apiary.summary.colonies', {
+            defaultValue: 'Colonies',
+          })}
+          value={report.summary.colonyCount}
+          icon={Hexagon}
+          iconClassName="bg-amber-500/20 text-amber-500"
+          valueClassName="text-2xl font-bold text-amber-500"
+        />
+        <SummaryCard
+          title={t('reports:apiary.summary.totalHoney', {
+            defaultValue: 'Total Honey',
+          })}
+          value={formatKg(report.summary.totalHoneyKg)}
+          icon={Droplets}
+          iconClassName="bg-yellow-500/20 text-yellow-500"
+          valueClassName="text-2xl font-bold text-yellow-500"
+        />
+        <SummaryCard
+          title={t('reports:apiary.summary.honeyPerColony', {
+            defaultValue: 'Honey per Colony',
+          })}
+          value={formatKg(report.summary.honeyPerColony)}
+          icon={Scale}
+          iconClassName="bg-emerald-500/20 text-emerald-500"
+          valueClassName="text-2xl font-bold text-emerald-500"
+        />
+        <SummaryCard
+          title={t('reports:apiary.summary.needsAttention', {
+            defaultValue: 'Needs Attention',
+          })}
+          value={report.summary.hivesNeedingAttention}
+          icon={AlertTriangle}
+          iconClassName="bg-destructive/10 text-destructive"
+          valueClassName="text-2xl font-bold text-destructive"
+        />
+      </div>
+
+      <Card className="bg-white/40 dark:bg-black/40 backdrop-blur-md border-white/10 shadow-sm rounded-2xl overflow-hidden">
+        <CardContent className="p-0">
+          <DataTable
+            columns={columns}
+            data={data}
+            total={total}
+            page={page}
+            pageSize={pageSize}
+            totalPages={totalPages}
+            onPaginationChange={(p, s) => {
+              setPage(p)
+              setPageSize(s)
+            }}
+            onSortChange={() => {}}
+            isLoading={false}
+            emptyTitle={t('reports:apiary.empty.title', {
+              defaultValue: 'No apiary data',
+            })}
+            emptyDescription={t('reports:apiary.empty.description', {
+              defaultValue: 'Hive inspections and harvests will appear here.',
+            })}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,152 @@
+import { useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { AlertTriangle, Baby, CalendarClock, Percent } from 'lucide-react'
+import type { ColumnDef } from '@tanstack/react-table'
+import type { BreedingReport } from '~/features/reports/server'
+import { DataTable } from '~/components/ui/data-table'
+import { SummaryCard } from '~/components/ui/summary-card'
+import { Card, CardContent } from '~/components/ui/card'
+
+type BreedingReportRow = BreedingReport['records'][number]
+
+const formatPercent = (value: number | null) =>
+  value === null ? '—' : `${value}%`
+
+export function BreedingReportView({ report }: { report: BreedingReport }) {
+  const { t } = useTranslation(['reports', 'common'])
+  const [page, setPage] = useState(1)
+  const [pageSize, setPageSize] = useState(10)
+
+  const columns = useMemo<Array<ColumnDef<BreedingReportRow>>>(
+    () => [
+      {
+        accessorKey: 'batchName',
+        header: t('reports:breeding.columns.batch', { defaultValue: 'Batch' }),
+        cell: ({ row }) => (
+          <span className="font-medium">{row.original.batchName}</span>
+        ),
+      },
+      {
+        accessorKey: 'femalesBred',
+        header: t('reports:breeding.columns.bred', { defaultValue: 'Bred' }),
+      },
+      {
+        accessorKey: 'awaitingBirth',
+        header: t('reports:breeding.columns.awaiting', {
+          defaultValue: 'Awaiting',
+        }),
+      },
+      {
+        accessorKey: 'liveBorn',
+        header: t('reports:breeding.columns.liveBorn', {
+          defaultValue: 'Live Born',
+        }),
+        cell: ({ row }) => (
+          <span className="font-bold">{row.original.liveBorn}</span>
+        ),
+      },
+      {
+        accessorKey: 'stillborn',
+        header: t('reports:breeding.columns.stillborn', {
+          defaultValue: 'Stillborn',
+        }),
+      },
+      {
+        accessorKey: 'weaned',
+        header: t('reports:breeding.columns.weaned', {
+          defaultValue: 'Weaned',
+        }),
+      },
+      {
+        accessorKey: 'kiddingRate',
+        header: t('reports:breeding.columns.rate', { defaultValue: 'Rate' }),
+        cell: ({ row }) => formatPercent(row.original.kiddingRate),
+      },
+    ],
+    [t],
+  )
+
+  const data = useMemo(() => {
+    const start = (page - 1) * pageSize
+    return report.records.slice(start, start + pageSize)
+  }, [report.records, page, pageSize])
+
+  const total = report.records.length
+  const totalPages = Math.ceil(total / pageSize)
+
+  return (
+    <div className="space-y-8">
+      <div className="grid gap-4 sm:gap-6 grid-cols-2 lg:grid-cols-4">
+        <SummaryCard
+          title={t('reports:breeding.summary.kiddingRate', {
+            defaultValue: 'Kidding Rate',
+          })}
+          value={formatPercent(report.summary.kiddingRate)}
+          icon={Baby}
+          iconClassName="bg-pink-500/20 text-pink-500"
+          valueClassName="text-2xl font-bold text-pink-500"
+        />
+        <SummaryCard
+          title={t('reports:breeding.summary.weaningPercent', {
+            defaultValue: 'Weaning %',
+          })}
+          value={formatPercent(report.summary.weaningPercent)}
+          icon={Percent}
+          iconClassName="bg-emerald-500/20 text-emerald-500"
+          valueClassName="text-2xl font-bold text-emerald-500"
+        />
+        <SummaryCard
+          title={t('reports:breeding.summary.calvingInterval', {
+            defaultValue: 'Birth Interval',
+          })}
+          value={
+            report.summary.calvingIntervalDays === null
+              ? '—'
+              : t('reports:breeding.summary.days', {
+                  count: report.summary.calvingIntervalDays,
+                  defaultValue: '{{count}} days',
+                })
+          }
+          icon={CalendarClock}
+          iconClassName="bg-blue-500/20 text-blue-500"
+          valueClassName="text-2xl font-bold text-blue-500"
+        />
+        <SummaryCard
+          title={t('reports:breeding.summary.overdue', {
+            defaultValue: 'Overdue Births',
+          })}
+          value={report.summary.overdue}
+          icon={AlertTriangle}
+          iconClassName="bg-destructive/10 text-destructive"
+          valueClassName="text-2xl font-bold text-destructive"
+        />
+      </div>
+
+      <Card className="bg-white/40 dark:bg-black/40 backdrop-blur-md border-white/10 shadow-sm rounded-2xl overflow-hidden">
+        <CardContent className="p-0">
+          <DataTable
+            columns={columns}
+            data={data}
+            total={total}
+            page={page}
+            pageSize={pageSize}
+            totalPages={totalPages}
+            onPaginationChange={(p, s) => {
+              setPage(p)
+              setPageSize(s)
+            }}
+            onSortChange={() => {}}
+            isLoading={false}
+            emptyTitle={t('reports:breeding.empty.title', {
+              defaultValue: 'No breeding data',
+            })}
+            emptyDescription={t('reports:breeding.empty.description', {
+              defaultValue:
+                'Matings and births in this period will appear here.',
+            })}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -6,8 +6,16 @@ import type { FeedReport } from '~/features/reports/server'
 import { DataTable } from '~/components/ui/data-table'
 import { useFormatCurrency, useFormatWeight } from '~/features/settings'
 import { SummaryCard } from '~/components/ui/summary-card'
-import { Card, CardContent } from '~/components/ui/card'
+import { Card, CardContent, CardHeader, CardTitle } from '~/components/ui/card'
 import { Badge } from '~/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '~/components/ui/table'
 
 export function FeedReportView({ report }: { report: FeedReport }) {
   const { t } = useTranslation(['reports', 'common', 'health'])
@@ -153,6 +161,74 @@ export function FeedReportView({ report }: { report: FeedReport }) {
           />
         </CardContent>
       </Card>
+
+      {report.fcr.length > 0 && (
+        <Card className="bg-white/40 dark:bg-black/40 backdrop-blur-md border-white/10 shadow-sm rounded-2xl overflow-hidden">
+          <CardHeader>
+            <CardTitle className="text-lg font-bold">
+              {t('reports:feed.fcr.title', {
+                defaultValue: 'Feed Conversion by Batch',
+              })}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>
+                    {t('reports:feed.columns.species', {
+                      defaultValue: 'Batch',
+                    })}
+                  </TableHead>
+                  <TableHead>
+                    {t('reports:feed.fcr.cumulative', {
+                      defaultValue: 'Cumulative FCR',
+                    })}
+                  </TableHead>
+                  <TableHead>
+                    {t('reports:feed.fcr.period', {
+                      defaultValue: 'Period FCR',
+                    })}
+                  </TableHead>
+                  <TableHead>
+                    {t('reports:feed.fcr.target', {
+                      defaultValue: 'Target',
+                    })}
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.fcr.map((row) => (
+                  <TableRow key={row.batchId}>
+                    <TableCell className="capitalize font-medium">
+                      {t(`common:livestock.${row.species}`, {
+                        defaultValue: row.species,
+                      })}
+                    </TableCell>
+                    <TableCell
+                      className={
+                        row.cumulativeFcr !== null &&
+                        row.targetFcr !== null &&
+                        row.cumulativeFcr > row.targetFcr
+                          ? 'font-mono font-bold text-destructive'
+                          : 'font-mono'
+                      }
+                    >
+                      {row.cumulativeFcr ?? '—'}
+                    </TableCell>
+                    <TableCell className="font-mono">
+                      {row.periodFcr ?? '—'}
+                    </TableCell>
+                    <TableCell className="font-mono text-muted-foreground">
+                      {row.targetFcr ?? '—'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
     </div>
   )
 }
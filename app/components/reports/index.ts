@@ -3,4 +3,7 @@ export * from './inventory-report-view'
 export * from './sales-report-view'
 export * from './feed-report-view'
 export * from './egg-report-view'
+export * from './milk-report-view'
+export * from './apiary-report-view'
+export * from './breeding-report-view'
 export * from './report-filters'
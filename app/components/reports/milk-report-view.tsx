@@ -0,0 +1,158 @@
+import { useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Activity, CircleOff, Droplet, Milk } from 'lucide-react'
+import type { ColumnDef } from '@tanstack/react-table'
+import type { MilkReport } from '~/features/reports/server'
+import { DataTable } from '~/components/ui/data-table'
+import { useFormatDate } from '~/features/settings'
+import { SummaryCard } from '~/components/ui/summary-card'
+import { Card, CardContent } from '~/components/ui/card'
+
+type MilkReportRow = MilkReport['records'][number]
+
+const formatLiters = (value: number) =>
+  `${value.toLocaleString(undefined, { maximumFractionDigits: 2 })} L`
+
+export function MilkReportView({ report }: { report: MilkReport }) {
+  const { t } = useTranslation(['reports', 'common'])
+  const { format: formatDate } = useFormatDate()
+  const [page, setPage] = useState(1)
+  const [pageSize, setPageSize] = useState(10)
+
+  const columns = useMemo<Array<ColumnDef<MilkReportRow>>>(
+    () => [
+      {
+        accessorKey: 'date',
+        header: t('reports:milk.columns.date', { defaultValue: 'Date' }),
+        cell: ({ row }) => (
+          <span className="font-medium">{formatDate(row.original.date)}</span>
+        ),
+      },
+      {
+        accessorKey: 'morning',
+        header: t('reports:milk.columns.morning', { defaultValue: 'Morning' }),
+        cell: ({ row }) => formatLiters(row.original.morning),
+      },
+      {
+        accessorKey: 'evening',
+        header: t('reports:milk.columns.evening', { defaultValue: 'Evening' }),
+        cell: ({ row }) => formatLiters(row.original.evening),
+      },
+      {
+        accessorKey: 'total',
+        header: t('reports:milk.columns.total', { defaultValue: 'Total' }),
+        cell: ({ row }) => (
+          <span className="font-bold">{formatLiters(row.original.total)}</span>
+        ),
+      },
+      {
+        accessorKey: 'rejected',
+        header: t('reports:milk.columns.rejected', {
+          defaultValue: 'Rejected',
+        }),
+        cell: ({ row }) => (
+          <span
+            className={
+              row.original.rejected > 0
+                ? 'text-destructive font-medium'
+                : 'text-muted-foreground'
+            }
+          >
+            {formatLiters(row.original.rejected)}
+          </span>
+        ),
+      },
+      {
+        accessorKey: 'averageButterfat',
+        header: t('reports:milk.columns.butterfat', {
+          defaultValue: 'Butterfat',
+        }),
+        cell: ({ row }) =>
+          row.original.averageButterfat !== null
+            ? `${row.original.averageButterfat}%`
+            : '—',
+      },
+    ],
+    [t, formatDate],
+  )
+
+  const data = useMemo(() => {
+    const start = (page - 1) * pageSize
+    return report.records.slice(start, start + pageSize)
+  }, [report.records, page, pageSize])
+
+  const total = report.records.length
+  const totalPages = Math.ceil(total / pageSize)
+
+  return (
+    <div className="space-y-8">
+      <div className="grid gap-4 sm:gap-6 grid-cols-2 lg:grid-cols-4">
+        <SummaryCard
+          title={t('reports:milk.summary.totalLiters', {
+            defaultValue: 'Total Milk',
+          })}
+          value={formatLiters(report.summary.totalLiters)}
+          icon={Milk}
+          iconClassName="bg-sky-500/20 text-sky-500"
+          valueClassName="text-2xl font-bold text-sky-500"
+        />
+        <SummaryCard
+          title={t('reports:milk.summary.totalRejected', {
+            defaultValue: 'Rejected',
+          })}
+          value={formatLiters(report.summary.totalRejected)}
+          icon={CircleOff}
+          iconClassName="bg-destructive/10 text-destructive"
+          valueClassName="text-2xl font-bold text-destructive"
+        />
+        <SummaryCard
+          title={t('reports:milk.summary.averageDailyYield', {
+            defaultValue: 'Avg Daily Yield',
+          })}
+          value={formatLiters(report.summary.averageDailyYield)}
+          icon={Activity}
+          iconClassName="bg-emerald-500/20 text-emerald-500"
+          valueClassName="text-2xl font-bold text-emerald-500"
+        />
+        <SummaryCard
+          title={t('reports:milk.summary.averageButterfat', {
+            defaultValue: 'Avg Butterfat',
+          })}
+          value={
+            report.summary.averageButterfat !== null
+              ? `${report.summary.averageButterfat}%`
+              : '—'
+          }
+          icon={Droplet}
+          iconClassName="bg-amber-500/20 text-amber-500"
+          valueClassName="text-2xl font-bold text-amber-500"
+        />
+      </div>
+
+      <Card className="bg-white/40 dark:bg-black/40 backdrop-blur-md border-white/10 shadow-sm rounded-2xl overflow-hidden">
+        <CardContent className="p-0">
+          <DataTable
+            columns={columns}
+            data={data}
+            total={total}
+            page={page}
+            pageSize={pageSize}
+            totalPages={totalPages}
+            onPaginationChange={(p, s) => {
+              setPage(p)
+              setPageSize(s)
+            }}
+            onSortChange={() => {}}
+            isLoading={false}
+            emptyTitle={t('reports:milk.empty.title', {
+              defaultValue: 'No milk data',
+            })}
+            emptyDescription={t('reports:milk.empty.description', {
+              defaultValue: 'Milk records will appear here once registered.',
+            })}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
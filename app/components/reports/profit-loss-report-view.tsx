@@ -1,5 +1,11 @@
 import { useTranslation } from 'react-i18next'
-import { DollarSign, TrendingDown, TrendingUp, Wallet } from 'lucide-react'
+import {
+  DollarSign,
+  Scissors,
+  TrendingDown,
+  TrendingUp,
+  Wallet,
+} from 'lucide-react'
 import type { ProfitLossReport } from '~/features/reports/server'
 import { useFormatCurrency } from '~/features/settings'
 import { SummaryCard } from '~/components/ui/summary-card'
@@ -137,6 +143,67 @@ export function ProfitLossReportView({ report }: { report: ProfitLossReport }) {
           </CardContent>
         </Card>
       </div>
+
+      {report.wool && (
+        <Card className="bg-white/40 dark:bg-black/40 backdrop-blur-md border-white/10 shadow-sm rounded-2xl overflow-hidden">
+          <CardHeader className="bg-white/10 dark:bg-white/5 border-b border-white/10 pb-4">
+            <CardTitle className="text-base font-bold flex items-center gap-2">
+              <div className="p-1.5 rounded-lg bg-stone-500/10 text-stone-500">
+                <Scissors className="h-4 w-4" />
+              </div>
+              {t('profitLoss.wool', { defaultValue: 'Wool' })}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            <div className="divide-y divide-white/10">
+              {[
+                {
+                  label: t('profitLoss.fleeces', { defaultValue: 'Fleeces' }),
+                  value: report.wool.fleeceCount.toLocaleString(),
+                },
+                {
+                  label: t('profitLoss.greasyWeight', {
+                    defaultValue: 'Greasy Weight',
+                  }),
+                  value: `${report.wool.greasyWeightKg.toLocaleString()} kg`,
+                },
+                {
+                  label: t('profitLoss.cleanWeight', {
+                    defaultValue: 'Clean Weight',
+                  }),
+                  value: `${report.wool.cleanWeightKg.toLocaleString()} kg`,
+                },
+                {
+                  label: t('profitLoss.woolRevenue', {
+                    defaultValue: 'Wool Revenue',
+                  }),
+                  value: formatCurrency(report.wool.revenue),
+                },
+                {
+                  label: t('profitLoss.perFleece', {
+                    defaultValue: 'Revenue per Fleece',
+                  }),
+                  value: formatCurrency(report.wool.revenuePerFleece),
+                },
+                {
+                  label: t('profitLoss.perKg', {
+                    defaultValue: 'Revenue per kg',
+                  }),
+                  value: formatCurrency(report.wool.revenuePerKg),
+                },
+              ].map((row) => (
+                <div
+                  key={row.label}
+                  className="flex items-center justify-between p-4 hover:bg-white/5 transition-colors"
+                >
+                  <span className="font-medium text-sm">{row.label}</span>
+                  <span className="font-bold">{row.value}</span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </div>
   )
 }
@@ -1,6 +1,9 @@
 import { useEffect, useState } from 'react'
 import { useTranslation } from 'react-i18next'
-import { Bird, Bug, Fish } from 'lucide-react'
+import { AlertTriangle, Bird, Bug, Fish, Milk, Scissors } from 'lucide-react'
+import { requiresWithdrawalClearance } from '~/features/sales/service'
+import { useFormatDate } from '~/features/settings'
+import { Alert, AlertDescription, AlertTitle } from '~/components/ui/alert'
 import { Button } from '~/components/ui/button'
 import { Input } from '~/components/ui/input'
 import { Label } from '~/components/ui/label'
@@ -25,6 +28,7 @@ interface Batch {
   species: string
   livestockType: string
   currentQuantity: number
+  withdrawalClearsOn?: Date | null
 }
 
 interface Customer {
@@ -42,6 +46,12 @@ interface Sale {
   date: Date
 }
 
+/** Batches whose milk can be sold */
+const DAIRY_LIVESTOCK_TYPES = ['cattle', 'goats', 'sheep']
+
+/** Batches whose fleeces can be sold */
+const SHEARABLE_LIVESTOCK_TYPES = ['sheep', 'goats']
+
 interface SaleFormDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
@@ -66,7 +76,9 @@ export function SaleFormDialog({
   initialData,
 }: SaleFormDialogProps) {
   const { t } = useTranslation(['sales', 'common'])
+  const { format: formatDate } = useFormatDate()
   const [error, setError] = useState('')
+  const [withdrawalOverrideReason, setWithdrawalOverrideReason] = useState('')
   const [formData, setFormData] = useState({
     livestockType: 'poultry' as
       | 'poultry'
@@ -74,7 +86,9 @@ export function SaleFormDialog({
       | 'cattle'
       | 'goats'
       | 'sheep'
-      | 'bees',
+      | 'bees'
+      | 'milk'
+      | 'wool',
     batchId: '',
     customerId: '',
     quantity: '',
@@ -91,7 +105,9 @@ export function SaleFormDialog({
           | 'cattle'
           | 'goats'
           | 'sheep'
-          | 'bees',
+          | 'bees'
+          | 'milk'
+          | 'wool',
         batchId: initialData.batchId || '',
         customerId: initialData.customerId || '',
         quantity: initialData.quantity.toString(),
@@ -108,9 +124,20 @@ export function SaleFormDialog({
         date: new Date().toISOString().split('T')[0],
       })
     }
+    setWithdrawalOverrideReason('')
     setError('')
   }, [initialData, open])
 
+  // Sales dated before the selected batch's withdrawal clears need a reason
+  const selectedBatch = batches.find((b) => b.id === formData.batchId)
+  const withdrawalClearsOn =
+    !initialData &&
+    selectedBatch?.withdrawalClearsOn &&
+    requiresWithdrawalClearance(formData.livestockType) &&
+    new Date(formData.date) < new Date(selectedBatch.withdrawalClearsOn)
+      ? new Date(selectedBatch.withdrawalClearsOn)
+      : null
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setError('')
@@ -119,6 +146,11 @@ export function SaleFormDialog({
         ...formData,
         quantity: parseInt(formData.quantity),
         unitPrice: parseFloat(formData.unitPrice),
+        ...(formData.livestockType === 'milk' && { unitType: 'liter' }),
+        ...(formData.livestockType === 'wool' && { unitType: 'fleece' }),
+        ...(withdrawalClearsOn && {
+          withdrawalOverrideReason: withdrawalOverrideReason.trim(),
+        }),
       })
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to save sale')
@@ -194,6 +226,18 @@ export function SaleFormDialog({
                       {t('livestockTypes.bees')}
                     </span>
                   </SelectItem>
+                  <SelectItem value="milk">
+                    <span className="flex items-center gap-2">
+                      <Milk className="h-4 w-4" />
+                      {t('livestockTypes.milk')}
+                    </span>
+                  </SelectItem>
+                  <SelectItem value="wool">
+                    <span className="flex items-center gap-2">
+                      <Scissors className="h-4 w-4" />
+                      {t('livestockTypes.wool')}
+                    </span>
+                  </SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -222,10 +266,19 @@ export function SaleFormDialog({
                     {t('placeholders.selectBatch')}
                   </SelectItem>
                   {batches
-                    .filter((b) => b.livestockType === formData.livestockType)
+                    .filter((b) =>
+                      formData.livestockType === 'milk'
+                        ? DAIRY_LIVESTOCK_TYPES.includes(b.livestockType)
+                        : formData.livestockType === 'wool'
+                          ? SHEARABLE_LIVESTOCK_TYPES.includes(b.livestockType)
+                          : b.livestockType === formData.livestockType,
+                    )
                     .map((batch) => (
                       <SelectItem key={batch.id} value={batch.id}>
-                        {batch.species} ({batch.currentQuantity} available)
+                        {formData.livestockType === 'milk' ||
+                        formData.livestockType === 'wool'
+                          ? batch.species
+                          : `${batch.species} (${batch.currentQuantity} available)`}
                       </SelectItem>
                     ))}
                 </SelectContent>
@@ -265,7 +318,10 @@ export function SaleFormDialog({
 
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
-              <Label>{t('labels.quantity')}</Label>
+              <Label>
+                {t('labels.quantity')}
+                {formData.livestockType === 'milk' && ' (L)'}
+              </Label>
               <Input
                 type="number"
                 min="1"
@@ -320,6 +376,35 @@ export function SaleFormDialog({
             />
           </div>
 
+          {withdrawalClearsOn && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>
+                {t('withdrawal.title', {
+                  defaultValue: 'Treatment withdrawal period',
+                })}
+              </AlertTitle>
+              <AlertDescription className="space-y-2">
+                <p>
+                  {t('withdrawal.description', {
+                    date: formatDate(withdrawalClearsOn),
+                    defaultValue:
+                      'This batch cannot be sold for food until {{date}}. Give a reason to sell anyway; it will be recorded in the audit log.',
+                  })}
+                </p>
+                <Input
+                  value={withdrawalOverrideReason}
+                  onChange={(e) => setWithdrawalOverrideReason(e.target.value)}
+                  placeholder={t('withdrawal.reasonPlaceholder', {
+                    defaultValue: 'Reason for override',
+                  })}
+                  maxLength={500}
+                  required
+                />
+              </AlertDescription>
+            </Alert>
+          )}
+
           {formData.quantity && formData.unitPrice && (
             <div className="p-3 bg-muted rounded-lg">
               <div className="flex justify-between items-center">
@@ -351,7 +436,10 @@ export function SaleFormDialog({
             <Button
               type="submit"
               disabled={
-                isSubmitting || !formData.quantity || !formData.unitPrice
+                isSubmitting ||
+                !formData.quantity ||
+                !formData.unitPrice ||
+                (!!withdrawalClearsOn && !withdrawalOverrideReason.trim())
               }
             >
               {isSubmitting
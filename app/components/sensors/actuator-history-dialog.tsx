@@ -0,0 +1,85 @@
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import type { ActuatorStateChange } from '~/features/sensors/types'
+import { getActuatorHistoryFn } from '~/features/sensors/actuator-server'
+import { useFormatTime } from '~/features/settings'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '~/components/ui/dialog'
+
+interface ActuatorHistoryDialogProps {
+  actuatorId: string | null
+  onOpenChange: (open: boolean) => void
+}
+
+export function ActuatorHistoryDialog({
+  actuatorId,
+  onOpenChange,
+}: ActuatorHistoryDialogProps) {
+  const { t } = useTranslation(['sensors', 'common'])
+  const { formatWithDate } = useFormatTime()
+  const [changes, setChanges] = useState<Array<ActuatorStateChange> | null>(
+    null,
+  )
+
+  useEffect(() => {
+    if (!actuatorId) return
+    setChanges(null)
+    getActuatorHistoryFn({ data: { actuatorId } })
+      .then(setChanges)
+      .catch(() => setChanges([]))
+  }, [actuatorId])
+
+  const describe = (change: ActuatorStateChange) => {
+    const parts = [
+      change.fromState !== change.toState
+        ? t('sensors:actuators.history.state', {
+            from: change.fromState ?? '—',
+            to: change.toState,
+          })
+        : null,
+      change.toMode && change.fromMode !== change.toMode
+        ? t('sensors:actuators.history.mode', { mode: change.toMode })
+        : null,
+      change.reason,
+    ]
+    return parts.filter(Boolean).join(' · ')
+  }
+
+  return (
+    <Dialog open={!!actuatorId} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t('sensors:actuators.history.title')}</DialogTitle>
+        </DialogHeader>
+        {changes === null ? (
+          <p className="text-sm text-muted-foreground">
+            {t('common:loading', { defaultValue: 'Loading...' })}
+          </p>
+        ) : changes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {t('sensors:actuators.history.empty')}
+          </p>
+        ) : (
+          <ul className="max-h-96 divide-y overflow-y-auto text-sm">
+            {changes.map((change) => (
+              <li key={change.id} className="py-2">
+                <p className="font-medium">
+                  {t(`sensors:actuators.sources.${change.source}`)}
+                  {change.userName ? ` · ${change.userName}` : ''}
+                </p>
+                <p className="text-muted-foreground">{describe(change)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {formatWithDate(change.createdAt)}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,450 @@
+import { useState } from 'react'
+import { useRouter } from '@tanstack/react-router'
+import { useTranslation } from 'react-i18next'
+import { History, KeyRound, Plus, Power, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { ActuatorHistoryDialog } from './actuator-history-dialog'
+import { ActuatorRuleDialog } from './actuator-rule-dialog'
+import type {
+  Actuator,
+  ActuatorRule,
+  ActuatorState,
+  ActuatorType,
+  SensorType,
+} from '~/features/sensors/types'
+import {
+  createActuatorFn,
+  deleteActuatorFn,
+  deleteActuatorRuleFn,
+  overrideActuatorFn,
+  regenerateActuatorKeyFn,
+  resumeActuatorAutoFn,
+} from '~/features/sensors/actuator-server'
+import { ACTUATOR_TYPES } from '~/features/sensors/constants'
+import { useFormatTime } from '~/features/settings'
+import { Badge } from '~/components/ui/badge'
+import { Button } from '~/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '~/components/ui/dialog'
+import { Input } from '~/components/ui/input'
+import { Label } from '~/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '~/components/ui/select'
+
+/** Override lengths offered in the UI; 0 holds until resumed */
+const OVERRIDE_MINUTES = [60, 240, 720, 0] as const
+
+interface ActuatorPanelProps {
+  farmId: string
+  actuators: Array<Actuator>
+  structures: Array<{ id: string; name: string }>
+  sensors: Array<{ id: string; name: string; sensorType: SensorType }>
+}
+
+export function ActuatorPanel({
+  farmId,
+  actuators,
+  structures,
+  sensors,
+}: ActuatorPanelProps) {
+  const { t } = useTranslation(['sensors', 'common'])
+  const { formatWithDate } = useFormatTime()
+  const router = useRouter()
+  const [createOpen, setCreateOpen] = useState(false)
+  const [name, setName] = useState('')
+  const [actuatorType, setActuatorType] = useState<ActuatorType>('fan')
+  const [structureId, setStructureId] = useState('')
+  const [apiKey, setApiKey] = useState<string | null>(null)
+  const [overrideMinutes, setOverrideMinutes] = useState<number>(60)
+  const [ruleActuator, setRuleActuator] = useState<Actuator | null>(null)
+  const [historyId, setHistoryId] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const run = async (action: () => Promise<void>) => {
+    setIsSaving(true)
+    try {
+      await action()
+      await router.invalidate()
+    } catch (err) {
+      toast.error(
+        err instanceof Error ? err.message : t('common:messages.error'),
+      )
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault()
+    void run(async () => {
+      const result = await createActuatorFn({
+        data: { farmId, structureId, name, actuatorType },
+      })
+      setName('')
+      setApiKey(result.apiKey)
+    })
+  }
+
+  const handleOverride = (actuatorId: string, state: ActuatorState) =>
+    run(async () => {
+      await overrideActuatorFn({
+        data: {
+          actuatorId,
+          state,
+          durationMinutes: overrideMinutes || null,
+        },
+      })
+    })
+
+  const handleResume = (actuatorId: string) =>
+    run(async () => {
+      await resumeActuatorAutoFn({ data: { actuatorId } })
+    })
+
+  const handleRegenerate = (actuatorId: string) =>
+    run(async () => {
+      const result = await regenerateActuatorKeyFn({ data: { actuatorId } })
+      setApiKey(result.apiKey)
+      setCreateOpen(true)
+    })
+
+  const handleDelete = (actuatorId: string) =>
+    run(async () => {
+      await deleteActuatorFn({ data: { actuatorId } })
+      toast.success(t('sensors:messages.actuatorDeleted'))
+    })
+
+  const handleDeleteRule = (ruleId: string) =>
+    run(async () => {
+      await deleteActuatorRuleFn({ data: { ruleId } })
+    })
+
+  const closeDialog = (open: boolean) => {
+    setCreateOpen(open)
+    if (!open) setApiKey(null)
+  }
+
+  const describeRule = (rule: ActuatorRule) =>
+    t('sensors:actuators.ruleSummary', {
+      sensor: rule.sensorName,
+      condition: t(`sensors:actuators.conditions.${rule.condition}`),
+      threshold: rule.threshold,
+      duration: rule.durationMinutes,
+      action:
+        rule.action === 'on'
+          ? t('sensors:actuators.turnOn')
+          : t('sensors:actuators.turnOff'),
+    })
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold">
+            {t('sensors:actuators.title')}
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            {t('sensors:actuators.description')}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select
+            value={String(overrideMinutes)}
+            onValueChange={(v) => setOverrideMinutes(Number(v))}
+          >
+            <SelectTrigger
+              className="w-44"
+              aria-label={t('sensors:actuators.overrideFor')}
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {OVERRIDE_MINUTES.map((minutes) => (
+                <SelectItem key={minutes} value={String(minutes)}>
+                  {minutes
+                    ? t('sensors:actuators.overrideHours', {
+                        count: minutes / 60,
+                      })
+                    : t('sensors:actuators.overrideUntilResumed')}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={() => setCreateOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            {t('sensors:actuators.add')}
+          </Button>
+        </div>
+      </div>
+
+      {actuators.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {t('sensors:actuators.empty')}
+        </p>
+      ) : (
+        <ul className="divide-y rounded-lg border">
+          {actuators.map((actuator) => (
+            <li key={actuator.id} className="space-y-2 p-3">
+              <div className="flex flex-wrap items-center gap-3">
+                <Power
+                  className={
+                    actuator.state === 'on'
+                      ? 'h-4 w-4 text-emerald-500'
+                      : 'h-4 w-4 text-muted-foreground'
+                  }
+                />
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium truncate">{actuator.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {t(`sensors:actuators.types.${actuator.actuatorType}`)}
+                    {actuator.structureName
+                      ? ` · ${actuator.structureName}`
+                      : ''}
+                    {' · '}
+                    {actuator.lastSeenAt
+                      ? t('sensors:gateways.lastSeen', {
+                          time: formatWithDate(actuator.lastSeenAt),
+                        })
+                      : t('sensors:gateways.neverSeen')}
+                  </p>
+                </div>
+                <Badge
+                  variant={actuator.state === 'on' ? 'default' : 'secondary'}
+                >
+                  {actuator.state === 'on'
+                    ? t('sensors:actuators.on')
+                    : t('sensors:actuators.off')}
+                </Badge>
+                {actuator.reportedState !== actuator.state && (
+                  <Badge variant="outline">
+                    {t('sensors:actuators.awaitingDevice')}
+                  </Badge>
+                )}
+                <Badge variant="outline">
+                  {actuator.mode === 'manual'
+                    ? actuator.overrideUntil
+                      ? t('sensors:actuators.manualUntil', {
+                          time: formatWithDate(actuator.overrideUntil),
+                        })
+                      : t('sensors:actuators.manual')
+                    : t('sensors:actuators.auto')}
+                </Badge>
+                {!actuator.isActive && (
+                  <Badge variant="secondary">
+                    {t('sensors:gateways.inactive')}
+                  </Badge>
+                )}
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={isSaving}
+                  onClick={() => handleOverride(actuator.id, 'on')}
+                >
+                  {t('sensors:actuators.turnOn')}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={isSaving}
+                  onClick={() => handleOverride(actuator.id, 'off')}
+                >
+                  {t('sensors:actuators.turnOff')}
+                </Button>
+                {actuator.mode === 'manual' && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={isSaving}
+                    onClick={() => handleResume(actuator.id)}
+                  >
+                    {t('sensors:actuators.resumeAuto')}
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setRuleActuator(actuator)}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  {t('sensors:actuators.addRule')}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setHistoryId(actuator.id)}
+                >
+                  <History className="h-4 w-4 mr-2" />
+                  {t('sensors:actuators.history.title')}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={isSaving}
+                  onClick={() => handleRegenerate(actuator.id)}
+                >
+                  <KeyRound className="h-4 w-4 mr-2" />
+                  {t('sensors:gateways.regenerateKey')}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={isSaving}
+                  onClick={() => handleDelete(actuator.id)}
+                  aria-label={t('common:delete', { defaultValue: 'Delete' })}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              {actuator.rules.length > 0 && (
+                <ul className="space-y-1 text-sm">
+                  {actuator.rules.map((rule) => (
+                    <li
+                      key={rule.id}
+                      className="flex items-center justify-between gap-2 rounded-md bg-muted/50 px-2 py-1"
+                    >
+                      <span>{describeRule(rule)}</span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={isSaving}
+                        onClick={() => handleDeleteRule(rule.id)}
+                        aria-label={t('common:delete', {
+                          defaultValue: 'Delete',
+                        })}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Dialog open={createOpen} onOpenChange={closeDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {apiKey
+                ? t('sensors:actuators.keyTitle')
+                : t('sensors:actuators.add')}
+            </DialogTitle>
+          </DialogHeader>
+          {apiKey ? (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {t('sensors:gateways.keyDescription')}
+              </p>
+              <div className="flex gap-2">
+                <Input value={apiKey} readOnly className="font-mono text-xs" />
+                <Button
+                  variant="outline"
+                  onClick={() => navigator.clipboard.writeText(apiKey)}
+                >
+                  {t('common:copy', { defaultValue: 'Copy' })}
+                </Button>
+              </div>
+              <DialogFooter>
+                <Button onClick={() => closeDialog(false)}>
+                  {t('common:done', { defaultValue: 'Done' })}
+                </Button>
+              </DialogFooter>
+            </div>
+          ) : (
+            <form onSubmit={handleCreate} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="actuatorName">
+                  {t('sensors:actuators.name')}
+                </Label>
+                <Input
+                  id="actuatorName"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder={t('sensors:placeholders.actuatorName')}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>{t('sensors:actuators.type')}</Label>
+                <Select
+                  value={actuatorType}
+                  onValueChange={(v) => setActuatorType(v || 'fan')}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ACTUATOR_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {t(`sensors:actuators.types.${type}`)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>{t('sensors:actuators.structure')}</Label>
+                <Select
+                  value={structureId}
+                  onValueChange={(v) => setStructureId(v || '')}
+                >
+                  <SelectTrigger>
+                    <SelectValue
+                      placeholder={t('sensors:placeholders.selectStructure')}
+                    />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {structures.map((s) => (
+                      <SelectItem key={s.id} value={s.id}>
+                        {s.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <DialogFooter>
+                <Button
+                  type="submit"
+                  disabled={isSaving || !name.trim() || !structureId}
+                >
+                  {t('common:create', { defaultValue: 'Create' })}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {ruleActuator && (
+        <ActuatorRuleDialog
+          open={!!ruleActuator}
+          onOpenChange={(open) => !open && setRuleActuator(null)}
+          actuatorId={ruleActuator.id}
+          sensors={sensors}
+          onCreated={() => void router.invalidate()}
+        />
+      )}
+
+      <ActuatorHistoryDialog
+        actuatorId={historyId}
+        onOpenChange={(open) => !open && setHistoryId(null)}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,194 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import type {
+  ActuatorRuleCondition,
+  ActuatorState,
+  SensorType,
+} from '~/features/sensors/types'
+import { createActuatorRuleFn } from '~/features/sensors/actuator-server'
+import {
+  ACTUATOR_RULE_CONDITIONS,
+  ACTUATOR_TREND_MIN_MINUTES,
+} from '~/features/sensors/constants'
+import { Button } from '~/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '~/components/ui/dialog'
+import { Input } from '~/components/ui/input'
+import { Label } from '~/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '~/components/ui/select'
+
+interface ActuatorRuleDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  actuatorId: string
+  sensors: Array<{ id: string; name: string; sensorType: SensorType }>
+  onCreated: () => void
+}
+
+export function ActuatorRuleDialog({
+  open,
+  onOpenChange,
+  actuatorId,
+  sensors,
+  onCreated,
+}: ActuatorRuleDialogProps) {
+  const { t } = useTranslation(['sensors', 'common'])
+  const [sensorId, setSensorId] = useState('')
+  const [condition, setCondition] = useState<ActuatorRuleCondition>('above')
+  const [threshold, setThreshold] = useState('')
+  const [durationMinutes, setDurationMinutes] = useState('10')
+  const [action, setAction] = useState<ActuatorState>('on')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const isTrend = condition === 'rising' || condition === 'falling'
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+    try {
+      await createActuatorRuleFn({
+        data: {
+          actuatorId,
+          sensorId,
+          condition,
+          threshold: Number(threshold),
+          durationMinutes: Number(durationMinutes),
+          action,
+        },
+      })
+      toast.success(t('sensors:messages.ruleCreated'))
+      setThreshold('')
+      onCreated()
+      onOpenChange(false)
+    } catch (err) {
+      toast.error(
+        err instanceof Error ? err.message : t('common:messages.error'),
+      )
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t('sensors:actuators.addRule')}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>{t('sensors:actuators.sensor')}</Label>
+            <Select
+              value={sensorId}
+              onValueChange={(v) => setSensorId(v || '')}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder={t('sensors:derived.selectInput')} />
+              </SelectTrigger>
+              <SelectContent>
+                {sensors.map((s) => (
+                  <SelectItem key={s.id} value={s.id}>
+                    {s.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>{t('sensors:actuators.condition')}</Label>
+              <Select
+                value={condition}
+                onValueChange={(v) => setCondition(v || 'above')}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ACTUATOR_RULE_CONDITIONS.map((c) => (
+                    <SelectItem key={c} value={c}>
+                      {t(`sensors:actuators.conditions.${c}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ruleThreshold">
+                {isTrend
+                  ? t('sensors:actuators.ratePerHour')
+                  : t('sensors:actuators.threshold')}
+              </Label>
+              <Input
+                id="ruleThreshold"
+                type="number"
+                step="any"
+                min={isTrend ? 0 : undefined}
+                value={threshold}
+                onChange={(e) => setThreshold(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="ruleDuration">
+                {t('sensors:actuators.duration')}
+              </Label>
+              <Input
+                id="ruleDuration"
+                type="number"
+                min={isTrend ? ACTUATOR_TREND_MIN_MINUTES : 0}
+                value={durationMinutes}
+                onChange={(e) => setDurationMinutes(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>{t('sensors:actuators.action')}</Label>
+              <Select
+                value={action}
+                onValueChange={(v) => setAction(v || 'on')}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="on">
+                    {t('sensors:actuators.turnOn')}
+                  </SelectItem>
+                  <SelectItem value="off">
+                    {t('sensors:actuators.turnOff')}
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="submit"
+              disabled={isSaving || !sensorId || threshold === ''}
+            >
+              {t('common:create', { defaultValue: 'Create' })}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
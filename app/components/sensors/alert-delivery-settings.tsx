@@ -0,0 +1,100 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import { updateAlertDeliveryFn } from '~/features/sensors/server'
+import { Button } from '~/components/ui/button'
+import { Input } from '~/components/ui/input'
+import { Label } from '~/components/ui/label'
+import { Switch } from '~/components/ui/switch'
+
+interface AlertDeliverySettingsProps {
+  sensorId: string
+  defaultValues: {
+    cooldownMinutes: number
+    smsEnabled: boolean
+    emailEnabled: boolean
+  }
+}
+
+export function AlertDeliverySettings({
+  sensorId,
+  defaultValues,
+}: AlertDeliverySettingsProps) {
+  const { t } = useTranslation(['sensors', 'common'])
+  const [formData, setFormData] = useState(defaultValues)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      await updateAlertDeliveryFn({ data: { sensorId, ...formData } })
+      toast.success(t('sensors:messages.alertDeliveryUpdated'))
+    } catch (err) {
+      toast.error(
+        err instanceof Error ? err.message : t('common:messages.error'),
+      )
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Label htmlFor="alertEmail">{t('sensors:alertDelivery.email')}</Label>
+          <p className="text-sm text-muted-foreground">
+            {t('sensors:alertDelivery.emailDescription')}
+          </p>
+        </div>
+        <Switch
+          id="alertEmail"
+          checked={formData.emailEnabled}
+          onCheckedChange={(checked) =>
+            setFormData((prev) => ({ ...prev, emailEnabled: !!checked }))
+          }
+        />
+      </div>
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Label htmlFor="alertSms">{t('sensors:alertDelivery.sms')}</Label>
+          <p className="text-sm text-muted-foreground">
+            {t('sensors:alertDelivery.smsDescription')}
+          </p>
+        </div>
+        <Switch
+          id="alertSms"
+          checked={formData.smsEnabled}
+          onCheckedChange={(checked) =>
+            setFormData((prev) => ({ ...prev, smsEnabled: !!checked }))
+          }
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="alertCooldown">
+          {t('sensors:alertDelivery.cooldown')}
+        </Label>
+        <Input
+          id="alertCooldown"
+          type="number"
+          min={5}
+          max={1440}
+          className="w-32"
+          value={formData.cooldownMinutes}
+          onChange={(e) =>
+            setFormData((prev) => ({
+              ...prev,
+              cooldownMinutes: Number(e.target.value),
+            }))
+          }
+        />
+        <p className="text-sm text-muted-foreground">
+          {t('sensors:alertDelivery.cooldownDescription')}
+        </p>
+      </div>
+      <Button onClick={handleSave} disabled={isSaving}>
+        {isSaving ? t('common:saving') : t('common:save')}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,205 @@
+import { useState } from 'react'
+import { useRouter } from '@tanstack/react-router'
+import { useTranslation } from 'react-i18next'
+import { KeyRound, Plus, Router, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import type { SensorGateway } from '~/features/sensors/types'
+import {
+  createGatewayFn,
+  deleteGatewayFn,
+  regenerateGatewayKeyFn,
+} from '~/features/sensors/gateway-server'
+import { useFormatTime } from '~/features/settings'
+import { Badge } from '~/components/ui/badge'
+import { Button } from '~/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '~/components/ui/dialog'
+import { Input } from '~/components/ui/input'
+import { Label } from '~/components/ui/label'
+
+interface GatewayPanelProps {
+  farmId: string
+  gateways: Array<SensorGateway>
+}
+
+export function GatewayPanel({ farmId, gateways }: GatewayPanelProps) {
+  const { t } = useTranslation(['sensors', 'common'])
+  const { formatWithDate } = useFormatTime()
+  const router = useRouter()
+  const [createOpen, setCreateOpen] = useState(false)
+  const [name, setName] = useState('')
+  const [apiKey, setApiKey] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const run = async (action: () => Promise<void>) => {
+    setIsSaving(true)
+    try {
+      await action()
+      await router.invalidate()
+    } catch (err) {
+      toast.error(
+        err instanceof Error ? err.message : t('common:messages.error'),
+      )
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault()
+    void run(async () => {
+      const result = await createGatewayFn({ data: { farmId, name } })
+      setName('')
+      setApiKey(result.apiKey)
+    })
+  }
+
+  const handleRegenerate = (gatewayId: string) =>
+    run(async () => {
+      const result = await regenerateGatewayKeyFn({ data: { gatewayId } })
+      setApiKey(result.apiKey)
+      setCreateOpen(true)
+    })
+
+  const handleDelete = (gatewayId: string) =>
+    run(async () => {
+      await deleteGatewayFn({ data: { gatewayId } })
+      toast.success(t('sensors:messages.gatewayDeleted'))
+    })
+
+  const closeDialog = (open: boolean) => {
+    setCreateOpen(open)
+    if (!open) setApiKey(null)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold">
+            {t('sensors:gateways.title')}
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            {t('sensors:gateways.description')}
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => setCreateOpen(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          {t('sensors:gateways.add')}
+        </Button>
+      </div>
+
+      {gateways.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {t('sensors:gateways.empty')}
+        </p>
+      ) : (
+        <ul className="divide-y rounded-lg border">
+          {gateways.map((gateway) => (
+            <li
+              key={gateway.id}
+              className="flex flex-wrap items-center gap-3 p-3"
+            >
+              <Router className="h-4 w-4 text-muted-foreground" />
+              <div className="flex-1 min-w-0">
+                <p className="font-medium truncate">{gateway.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {t('sensors:gateways.sensorCount', {
+                    count: gateway.sensorCount,
+                  })}
+                  {' · '}
+                  {gateway.lastSeenAt
+                    ? t('sensors:gateways.lastSeen', {
+                        time: formatWithDate(gateway.lastSeenAt),
+                      })
+                    : t('sensors:gateways.neverSeen')}
+                </p>
+              </div>
+              {!gateway.isActive && (
+                <Badge variant="secondary">
+                  {t('sensors:gateways.inactive')}
+                </Badge>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={isSaving}
+                onClick={() => handleRegenerate(gateway.id)}
+              >
+                <KeyRound className="h-4 w-4 mr-2" />
+                {t('sensors:gateways.regenerateKey')}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={isSaving}
+                onClick={() => handleDelete(gateway.id)}
+                aria-label={t('common:delete', { defaultValue: 'Delete' })}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Dialog open={createOpen} onOpenChange={closeDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {apiKey
+                ? t('sensors:gateways.keyTitle')
+                : t('sensors:gateways.add')}
+            </DialogTitle>
+          </DialogHeader>
+          {apiKey ? (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {t('sensors:gateways.keyDescription')}
+              </p>
+              <div className="flex gap-2">
+                <Input value={apiKey} readOnly className="font-mono text-xs" />
+                <Button
+                  variant="outline"
+                  onClick={() => navigator.clipboard.writeText(apiKey)}
+                >
+                  {t('common:copy', { defaultValue: 'Copy' })}
+                </Button>
+              </div>
+              <DialogFooter>
+                <Button onClick={() => closeDialog(false)}>
+                  {t('common:done', { defaultValue: 'Done' })}
+                </Button>
+              </DialogFooter>
+            </div>
+          ) : (
+            <form onSubmit={handleCreate} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="gatewayName">
+                  {t('sensors:gateways.name')}
+                </Label>
+                <Input
+                  id="gatewayName"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder={t('sensors:placeholders.gatewayName')}
+                  required
+                />
+              </div>
+              <DialogFooter>
+                <Button type="submit" disabled={isSaving || !name.trim()}>
+                  {t('common:create', { defaultValue: 'Create' })}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
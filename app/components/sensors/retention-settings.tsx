@@ -0,0 +1,118 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Archive } from 'lucide-react'
+import { toast } from 'sonner'
+import type { SensorRetentionPolicy } from '~/features/sensors/types'
+import { updateRetentionPolicyFn } from '~/features/sensors/server'
+import { Button } from '~/components/ui/button'
+import { Input } from '~/components/ui/input'
+import { Label } from '~/components/ui/label'
+import { Switch } from '~/components/ui/switch'
+
+interface RetentionSettingsProps {
+  farmId: string
+  policy: SensorRetentionPolicy
+}
+
+export function RetentionSettings({ farmId, policy }: RetentionSettingsProps) {
+  const { t } = useTranslation(['sensors', 'common'])
+  const [formData, setFormData] = useState(policy)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      await updateRetentionPolicyFn({ data: { farmId, ...formData } })
+      toast.success(t('sensors:messages.retentionUpdated'))
+    } catch (err) {
+      toast.error(
+        err instanceof Error ? err.message : t('common:messages.error'),
+      )
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const setDays =
+    (field: 'rawRetentionDays' | 'hourlyRetentionDays') =>
+    (e: React.ChangeEvent<HTMLInputElement>) =>
+      setFormData((prev) => ({ ...prev, [field]: Number(e.target.value) }))
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Archive className="h-5 w-5 text-muted-foreground" />
+        <div>
+          <h2 className="text-lg font-semibold">
+            {t('sensors:retention.title')}
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            {t('sensors:retention.description')}
+          </p>
+        </div>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div className="space-y-2">
+          <Label htmlFor="rawRetention">{t('sensors:retention.raw')}</Label>
+          <Input
+            id="rawRetention"
+            type="number"
+            min={2}
+            value={formData.rawRetentionDays}
+            onChange={setDays('rawRetentionDays')}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="hourlyRetention">
+            {t('sensors:retention.hourly')}
+          </Label>
+          <Input
+            id="hourlyRetention"
+            type="number"
+            min={formData.rawRetentionDays}
+            value={formData.hourlyRetentionDays}
+            onChange={setDays('hourlyRetentionDays')}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="dailyRetention">{t('sensors:retention.daily')}</Label>
+          <Input
+            id="dailyRetention"
+            type="number"
+            min={formData.hourlyRetentionDays}
+            placeholder={t('sensors:retention.forever')}
+            value={formData.dailyRetentionDays ?? ''}
+            onChange={(e) =>
+              setFormData((prev) => ({
+                ...prev,
+                dailyRetentionDays:
+                  e.target.value === '' ? null : Number(e.target.value),
+              }))
+            }
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Label htmlFor="archiveRaw">{t('sensors:retention.archive')}</Label>
+          <p className="text-sm text-muted-foreground">
+            {t('sensors:retention.archiveDescription')}
+          </p>
+        </div>
+        <Switch
+          id="archiveRaw"
+          checked={formData.archiveRawReadings}
+          onCheckedChange={(checked) =>
+            setFormData((prev) => ({ ...prev, archiveRawReadings: !!checked }))
+          }
+        />
+      </div>
+
+      <Button onClick={handleSave} disabled={isSaving}>
+        {isSaving ? t('common:saving') : t('common:save')}
+      </Button>
+    </div>
+  )
+}
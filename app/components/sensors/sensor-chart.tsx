@@ -2,12 +2,14 @@ import { useEffect, useState } from 'react'
 import { format, subHours } from 'date-fns'
 import { useTranslation } from 'react-i18next'
 import {
+  Area,
   Bar,
   ComposedChart,
   Legend,
   Line,
   ReferenceLine,
   ResponsiveContainer,
+  Scatter,
   Tooltip,
   XAxis,
   YAxis,
@@ -44,7 +46,13 @@ export function SensorChart({
   const { t } = useTranslation(['sensors'])
   const [timeRange, setTimeRange] = useState<TimeRange>('24h')
   const [data, setData] = useState<
-    Array<{ timestamp: string; value: number; mortality?: number }>
+    Array<{
+      timestamp: string
+      value: number
+      range?: [number, number]
+      anomaly?: number
+      mortality?: number
+    }>
   >([])
   const [loading, setLoading] = useState(false)
 
@@ -83,6 +91,11 @@ export function SensorChart({
             return {
               timestamp: new Date(r.recordedAt).toISOString(),
               value: r.value,
+              range:
+                r.minValue !== null && r.maxValue !== null
+                  ? [r.minValue, r.maxValue]
+                  : undefined,
+              anomaly: r.isAnomaly ? r.value : undefined,
               mortality: mortalityByDate.get(dateKey),
             }
           }),
@@ -100,6 +113,8 @@ export function SensorChart({
   const config = SENSOR_TYPE_CONFIG[sensorType]
   const thresholds = config.defaultThresholds
   const hasMortalityData = data.some((d) => d.mortality !== undefined)
+  const hasAnomalies = data.some((d) => d.anomaly !== undefined)
+  const hasRange = data.some((d) => d.range !== undefined)
 
   if (loading) {
     return (
@@ -144,7 +159,9 @@ export function SensorChart({
           <ComposedChart data={data}>
             <XAxis
               dataKey="timestamp"
-              tickFormatter={(v) => format(new Date(v), 'HH:mm')}
+              tickFormatter={(v) =>
+                format(new Date(v), timeRange === '24h' ? 'HH:mm' : 'MMM d')
+              }
             />
             <YAxis
               yAxisId="sensor"
@@ -169,12 +186,35 @@ export function SensorChart({
               labelFormatter={(v) =>
                 format(new Date(v as string), 'MMM dd, HH:mm')
               }
-              formatter={(v, name) => {
+              formatter={(v, name, item) => {
                 if (name === 'mortality') return [`${v} deaths`, 'Mortality']
+                if (item.dataKey === 'range' && Array.isArray(v)) {
+                  return [
+                    `${v[0]} – ${v[1]} ${config.unit}`,
+                    t('sensors:range', { defaultValue: 'Range' }),
+                  ]
+                }
+                if (item.dataKey === 'anomaly') {
+                  return [
+                    `${v} ${config.unit}`,
+                    t('sensors:anomaly', { defaultValue: 'Anomaly' }),
+                  ]
+                }
                 return [`${v} ${config.unit}`, 'Value']
               }}
             />
-            {hasMortalityData && <Legend />}
+            {(hasMortalityData || hasAnomalies) && <Legend />}
+            {hasRange && (
+              <Area
+                yAxisId="sensor"
+                type="monotone"
+                dataKey="range"
+                name={t('sensors:range', { defaultValue: 'Range' })}
+                stroke="none"
+                fill="hsl(var(--primary))"
+                fillOpacity={0.15}
+              />
+            )}
             <Line
               yAxisId="sensor"
               type="monotone"
@@ -184,6 +224,14 @@ export function SensorChart({
               strokeWidth={2}
               dot={false}
             />
+            {hasAnomalies && (
+              <Scatter
+                yAxisId="sensor"
+                dataKey="anomaly"
+                name={t('sensors:anomaly', { defaultValue: 'Anomaly' })}
+                fill="hsl(var(--destructive))"
+              />
+            )}
             {hasMortalityData && (
               <Bar
                 yAxisId="mortality"
@@ -1,6 +1,6 @@
 import { useState } from 'react'
 import { useTranslation } from 'react-i18next'
-import type { SensorType } from '~/lib/db/types'
+import type { SensorDerivation, SensorType } from '~/lib/db/types'
 import {
   Dialog,
   DialogContent,
@@ -18,20 +18,36 @@ import {
   SelectTrigger,
   SelectValue,
 } from '~/components/ui/select'
-import { POLLING_INTERVALS, SENSOR_TYPES } from '~/features/sensors/constants'
+import {
+  POLLING_INTERVALS,
+  SENSOR_TYPES,
+  SENSOR_TYPE_CONFIG,
+} from '~/features/sensors/constants'
+import {
+  DERIVED_SENSOR_FORMULAS,
+  isDerivedSensorType,
+} from '~/features/sensors/derived-sensor-service'
 
 interface SensorFormDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   structures: Array<{ id: string; name: string }>
+  /** Existing sensors, offered as inputs of derived sensors */
+  sensors?: Array<{
+    id: string
+    name: string
+    sensorType: SensorType
+    structureId: string | null
+  }>
   onSubmit: (data: {
     name: string
     sensorType: SensorType
     structureId?: string
     pollingIntervalMinutes: number
+    derivedFrom?: SensorDerivation
   }) =>
-    | Promise<{ sensorId: string; apiKey?: string }>
-    | { sensorId: string; apiKey?: string }
+    | Promise<{ sensorId: string; apiKey?: string | null }>
+    | { sensorId: string; apiKey?: string | null }
     | void
   mode: 'create' | 'edit'
   defaultValues?: {
@@ -46,6 +62,7 @@ export function SensorFormDialog({
   open,
   onOpenChange,
   structures,
+  sensors = [],
   onSubmit,
   mode,
   defaultValues,
@@ -61,9 +78,15 @@ export function SensorFormDialog({
   const [pollingInterval, setPollingInterval] = useState(
     defaultValues?.pollingIntervalMinutes ?? 15,
   )
+  const [derivedFrom, setDerivedFrom] = useState<SensorDerivation>({})
   const [loading, setLoading] = useState(false)
   const [apiKey, setApiKey] = useState<string | null>(null)
 
+  const isDerived = isDerivedSensorType(sensorType)
+  const derivedInputs = isDerived
+    ? DERIVED_SENSOR_FORMULAS[sensorType].inputs
+    : []
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setLoading(true)
@@ -73,6 +96,7 @@ export function SensorFormDialog({
         sensorType,
         structureId: structureId || undefined,
         pollingIntervalMinutes: pollingInterval,
+        derivedFrom: isDerived ? derivedFrom : undefined,
       })
       if (result && 'apiKey' in result && result.apiKey) {
         setApiKey(result.apiKey)
@@ -201,6 +225,60 @@ export function SensorFormDialog({
             </Select>
           </div>
 
+          {mode === 'create' && derivedInputs.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-xs text-muted-foreground pl-1">
+                {t('sensors:derived.description', {
+                  defaultValue:
+                    'Computed from other sensors in the same structure.',
+                })}
+              </p>
+              {derivedInputs.map((inputType) => (
+                <div key={inputType} className="space-y-2">
+                  <Label className="text-[10px] font-bold uppercase tracking-widest text-muted-foreground/60 pl-1">
+                    {t('sensors:derived.input', {
+                      defaultValue: '{{type}} sensor',
+                      type: SENSOR_TYPE_CONFIG[inputType].label,
+                    })}
+                  </Label>
+                  <Select
+                    value={derivedFrom[inputType] ?? ''}
+                    onValueChange={(v) =>
+                      setDerivedFrom((prev) => ({
+                        ...prev,
+                        [inputType]: v || undefined,
+                      }))
+                    }
+                  >
+                    <SelectTrigger
+                      className="h-11 bg-black/5 dark:bg-white/5 border-transparent focus:border-emerald-500/50 focus:ring-emerald-500/20 transition-all font-medium text-sm px-4 rounded-xl"
+                      style={{ color: 'var(--text-landing-primary)' }}
+                    >
+                      <SelectValue
+                        placeholder={t('sensors:derived.selectInput', {
+                          defaultValue: 'Select sensor',
+                        })}
+                      />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {sensors
+                        .filter(
+                          (s) =>
+                            s.sensorType === inputType &&
+                            s.structureId === structureId,
+                        )
+                        .map((s) => (
+                          <SelectItem key={s.id} value={s.id}>
+                            {s.name}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label className="text-[10px] font-bold uppercase tracking-widest text-muted-foreground/60 pl-1">
               Polling Interval
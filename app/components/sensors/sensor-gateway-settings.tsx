@@ -0,0 +1,106 @@
+import { useState } from 'react'
+import { useRouter } from '@tanstack/react-router'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import type { SensorGateway } from '~/features/sensors/types'
+import { assignSensorGatewayFn } from '~/features/sensors/gateway-server'
+import { Button } from '~/components/ui/button'
+import { Input } from '~/components/ui/input'
+import { Label } from '~/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '~/components/ui/select'
+
+const NO_GATEWAY = 'none'
+
+interface SensorGatewaySettingsProps {
+  sensorId: string
+  gateways: Array<SensorGateway>
+  defaultValues: {
+    gatewayId: string | null
+    channel: string | null
+  }
+}
+
+export function SensorGatewaySettings({
+  sensorId,
+  gateways,
+  defaultValues,
+}: SensorGatewaySettingsProps) {
+  const { t } = useTranslation(['sensors', 'common'])
+  const router = useRouter()
+  const [gatewayId, setGatewayId] = useState(
+    defaultValues.gatewayId ?? NO_GATEWAY,
+  )
+  const [channel, setChannel] = useState(defaultValues.channel ?? '')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      const detached = gatewayId === NO_GATEWAY
+      await assignSensorGatewayFn({
+        data: {
+          sensorId,
+          gatewayId: detached ? null : gatewayId,
+          channel: detached ? null : channel.trim() || null,
+        },
+      })
+      toast.success(t('sensors:messages.gatewayAssigned'))
+      await router.invalidate()
+    } catch (err) {
+      toast.error(
+        err instanceof Error ? err.message : t('common:messages.error'),
+      )
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>{t('sensors:gateways.gateway')}</Label>
+        <Select
+          value={gatewayId}
+          onValueChange={(value) => setGatewayId(value ?? NO_GATEWAY)}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_GATEWAY}>
+              {t('sensors:gateways.none')}
+            </SelectItem>
+            {gateways.map((gateway) => (
+              <SelectItem key={gateway.id} value={gateway.id}>
+                {gateway.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="gatewayChannel">{t('sensors:gateways.channel')}</Label>
+        <Input
+          id="gatewayChannel"
+          value={channel}
+          onChange={(e) => setChannel(e.target.value)}
+          placeholder={t('sensors:placeholders.channel')}
+          disabled={gatewayId === NO_GATEWAY}
+          className="font-mono"
+        />
+        <p className="text-sm text-muted-foreground">
+          {t('sensors:gateways.channelDescription')}
+        </p>
+      </div>
+      <Button onClick={handleSave} disabled={isSaving}>
+        {t('common:save', { defaultValue: 'Save' })}
+      </Button>
+    </div>
+  )
+}
@@ -145,6 +145,42 @@ export function NotificationsTab({
               {t('notifications.mortalityQtyDesc')}
             </p>
           </div>
+
+          <div className="space-y-2.5">
+            <Label htmlFor="fcrTolerance" className="text-sm font-semibold">
+              {t('notifications.fcrTolerance')}
+            </Label>
+            <div className="relative">
+              <Input
+                id="fcrTolerance"
+                type="number"
+                min="1"
+                max="100"
+                className="pr-8 bg-white/50 dark:bg-black/20 border-white/20 dark:border-white/10"
+                value={settings.fcrAlertTolerancePercent || ''}
+                onChange={(e) => {
+                  const val = e.target.value
+                  onSettingsChange({
+                    fcrAlertTolerancePercent: val === '' ? 0 : parseInt(val),
+                  })
+                }}
+                onBlur={(e) => {
+                  const val = parseInt(e.target.value)
+                  if (isNaN(val) || val < 1) {
+                    onSettingsChange({
+                      fcrAlertTolerancePercent: 20,
+                    })
+                  }
+                }}
+              />
+              <span className="absolute right-3 top-2.5 text-xs text-muted-foreground font-bold">
+                %
+              </span>
+            </div>
+            <p className="text-[11px] leading-tight text-muted-foreground">
+              {t('notifications.fcrToleranceDesc')}
+            </p>
+          </div>
         </CardContent>
       </Card>
 
@@ -481,6 +517,7 @@ export function NotificationsTab({
               lowStockThresholdPercent: settings.lowStockThresholdPercent,
               mortalityAlertPercent: settings.mortalityAlertPercent,
               mortalityAlertQuantity: settings.mortalityAlertQuantity,
+              fcrAlertTolerancePercent: settings.fcrAlertTolerancePercent,
               notifications: settings.notifications,
             })
           }
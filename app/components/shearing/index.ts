@@ -0,0 +1,4 @@
+export * from './shearing-summary-cards'
+export * from './shearing-form-dialog'
+export * from './shearing-columns'
+export * from './shearing-delete-dialog'
@@ -0,0 +1,134 @@
+import { useMemo } from 'react'
+import { Edit2, Scissors, Trash2 } from 'lucide-react'
+import type { ColumnDef } from '@tanstack/react-table'
+import type { ShearingRecordWithDetails } from '~/features/shearing/repository'
+import {
+  calculateAverageFleeceWeight,
+  calculateCleanWeight,
+  getMicronClass,
+} from '~/features/shearing/service'
+import { Badge } from '~/components/ui/badge'
+import { Button } from '~/components/ui/button'
+
+interface UseShearingColumnsProps {
+  t: (key: string, options?: any) => string
+  formatDate: (date: Date | string) => string
+  onEdit: (record: ShearingRecordWithDetails) => void
+  onDelete: (record: ShearingRecordWithDetails) => void
+}
+
+const formatKg = (value: string | number) =>
+  `${Number(value).toLocaleString(undefined, { maximumFractionDigits: 2 })} kg`
+
+export function useShearingColumns({
+  t,
+  formatDate,
+  onEdit,
+  onDelete,
+}: UseShearingColumnsProps): Array<ColumnDef<ShearingRecordWithDetails>> {
+  return useMemo(
+    () => [
+      {
+        accessorKey: 'date',
+        header: t('common:date', { defaultValue: 'Date' }),
+        cell: ({ row }) => formatDate(row.original.date),
+      },
+      {
+        accessorKey: 'batchSpecies',
+        header: t('batches:batch', { defaultValue: 'Batch' }),
+        cell: ({ row }) => (
+          <div className="flex items-center gap-2">
+            <Scissors className="h-4 w-4 text-stone-500" />
+            <div className="flex flex-col">
+              <span className="font-medium">{row.original.batchSpecies}</span>
+              {row.original.shedName && (
+                <span className="text-xs text-muted-foreground">
+                  {row.original.shedName}
+                </span>
+              )}
+            </div>
+          </div>
+        ),
+      },
+      {
+        accessorKey: 'fleeceCount',
+        header: t('shearing:fleeces', { defaultValue: 'Fleeces' }),
+      },
+      {
+        accessorKey: 'greasyWeightKg',
+        header: t('shearing:greasyWeight', { defaultValue: 'Greasy Weight' }),
+        cell: ({ row }) => (
+          <div className="flex flex-col">
+            <span className="font-medium">
+              {formatKg(row.original.greasyWeightKg)}
+            </span>
+            <span className="text-xs text-muted-foreground">
+              {t('shearing:perFleece', {
+                amount: formatKg(
+                  calculateAverageFleeceWeight(
+                    Number(row.original.greasyWeightKg),
+                    row.original.fleeceCount,
+                  ),
+                ),
+                defaultValue: '{{amount}} / fleece',
+              })}
+            </span>
+          </div>
+        ),
+      },
+      {
+        id: 'cleanWeight',
+        header: t('shearing:cleanWeight', { defaultValue: 'Clean Weight' }),
+        cell: ({ row }) => {
+          const clean = calculateCleanWeight(
+            row.original.greasyWeightKg,
+            row.original.yieldPercent,
+          )
+          return clean !== null
+            ? `${formatKg(clean)} (${Number(row.original.yieldPercent)}%)`
+            : '—'
+        },
+      },
+      {
+        accessorKey: 'micronGrade',
+        header: t('shearing:micron', { defaultValue: 'Micron' }),
+        cell: ({ row }) =>
+          row.original.micronGrade !== null ? (
+            <div className="flex items-center gap-2">
+              <span>{Number(row.original.micronGrade)} µm</span>
+              <Badge variant="outline">
+                {t(
+                  `shearing:classes.${getMicronClass(Number(row.original.micronGrade))}`,
+                )}
+              </Badge>
+            </div>
+          ) : (
+            '—'
+          ),
+      },
+      {
+        id: 'actions',
+        cell: ({ row }) => (
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => onEdit(row.original)}
+            >
+              <Edit2 className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="text-destructive"
+              onClick={() => onDelete(row.original)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ),
+      },
+    ],
+    [t, formatDate, onEdit, onDelete],
+  )
+}
@@ -0,0 +1,374 @@
+import { useTranslation } from 'react-i18next'
+import { useEffect, useState } from 'react'
+import type {
+  ShearingBatch,
+  ShearingShed,
+  UpdateShearingRecordInput,
+} from '~/features/shearing/types'
+import {
+  calculateAverageFleeceWeight,
+  calculateCleanWeight,
+} from '~/features/shearing/service'
+import { Button } from '~/components/ui/button'
+import { Input } from '~/components/ui/input'
+import { Label } from '~/components/ui/label'
+import { Textarea } from '~/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '~/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '~/components/ui/dialog'
+
+interface ShearingFormInitialData {
+  batchId: string
+  structureId: string | null
+  date: Date | string
+  fleeceCount: number
+  greasyWeightKg: string
+  micronGrade: string | null
+  yieldPercent: string | null
+  notes: string | null
+}
+
+interface ShearingFormDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSubmit: (
+    data: UpdateShearingRecordInput & { batchId: string },
+  ) => Promise<void>
+  batches: Array<ShearingBatch>
+  sheds: Array<ShearingShed>
+  isSubmitting: boolean
+  initialData?: ShearingFormInitialData
+}
+
+const NO_SHED = 'none'
+
+const today = () => new Date().toISOString().split('T')[0]
+
+const emptyForm = {
+  batchId: '',
+  structureId: NO_SHED,
+  date: today(),
+  fleeceCount: '',
+  greasyWeightKg: '',
+  micronGrade: '',
+  yieldPercent: '',
+  notes: '',
+}
+
+export function ShearingFormDialog({
+  open,
+  onOpenChange,
+  onSubmit,
+  batches,
+  sheds,
+  isSubmitting,
+  initialData,
+}: ShearingFormDialogProps) {
+  const { t } = useTranslation(['shearing', 'common'])
+  const [formData, setFormData] = useState(emptyForm)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (initialData) {
+      setFormData({
+        batchId: initialData.batchId,
+        structureId: initialData.structureId ?? NO_SHED,
+        date: new Date(initialData.date).toISOString().split('T')[0],
+        fleeceCount: String(initialData.fleeceCount),
+        greasyWeightKg: String(Number(initialData.greasyWeightKg)),
+        micronGrade:
+          initialData.micronGrade !== null
+            ? String(Number(initialData.micronGrade))
+            : '',
+        yieldPercent:
+          initialData.yieldPercent !== null
+            ? String(Number(initialData.yieldPercent))
+            : '',
+        notes: initialData.notes ?? '',
+      })
+    } else {
+      setFormData({ ...emptyForm, date: today() })
+    }
+    setError('')
+  }, [initialData, open])
+
+  const selectedBatch = batches.find((b) => b.id === formData.batchId)
+  const selectedShed = sheds.find((s) => s.id === formData.structureId)
+  const fleeceCount = parseInt(formData.fleeceCount || '0')
+  const greasyWeightKg = parseFloat(formData.greasyWeightKg || '0')
+  const cleanWeightKg = formData.yieldPercent
+    ? calculateCleanWeight(greasyWeightKg, parseFloat(formData.yieldPercent))
+    : null
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    try {
+      await onSubmit({
+        batchId: formData.batchId,
+        structureId:
+          formData.structureId === NO_SHED ? null : formData.structureId,
+        date: new Date(formData.date),
+        fleeceCount,
+        greasyWeightKg,
+        micronGrade: formData.micronGrade
+          ? parseFloat(formData.micronGrade)
+          : null,
+        yieldPercent: formData.yieldPercent
+          ? parseFloat(formData.yieldPercent)
+          : null,
+        notes: formData.notes || null,
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  const setField =
+    (
+      field:
+        | 'date'
+        | 'fleeceCount'
+        | 'greasyWeightKg'
+        | 'micronGrade'
+        | 'yieldPercent'
+        | 'notes',
+    ) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>): void =>
+      setFormData((prev) => ({ ...prev, [field]: e.target.value }))
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>
+            {initialData
+              ? t('shearing:editTitle', { defaultValue: 'Edit Shearing' })
+              : t('shearing:addTitle', { defaultValue: 'Record Shearing' })}
+          </DialogTitle>
+          {!initialData && (
+            <DialogDescription>
+              {t('shearing:addDescription', {
+                defaultValue: 'Enter the clip taken from a sheep or goat batch',
+              })}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {!initialData && (
+            <div className="space-y-2">
+              <Label htmlFor="batch">
+                {t('batches:batch', { defaultValue: 'Batch' })}
+              </Label>
+              <Select
+                value={formData.batchId}
+                onValueChange={(value: string | null) =>
+                  setFormData((prev) => ({ ...prev, batchId: value || '' }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue>
+                    {selectedBatch
+                      ? `${selectedBatch.species} (${selectedBatch.currentQuantity})`
+                      : t('shearing:selectBatch', {
+                          defaultValue: 'Select batch',
+                        })}
+                  </SelectValue>
+                </SelectTrigger>
+                <SelectContent>
+                  {batches.map((batch) => (
+                    <SelectItem key={batch.id} value={batch.id}>
+                      {batch.species} ({batch.currentQuantity})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="date">
+                {t('common:date', { defaultValue: 'Date' })}
+              </Label>
+              <Input
+                id="date"
+                type="date"
+                value={formData.date}
+                onChange={setField('date')}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>
+                {t('shearing:shed', { defaultValue: 'Shearing Shed' })}
+              </Label>
+              <Select
+                value={formData.structureId}
+                onValueChange={(value: string | null) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    structureId: value || NO_SHED,
+                  }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue>
+                    {selectedShed
+                      ? selectedShed.name
+                      : t('shearing:noShed', { defaultValue: 'None' })}
+                  </SelectValue>
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_SHED}>
+                    {t('shearing:noShed', { defaultValue: 'None' })}
+                  </SelectItem>
+                  {sheds.map((shed) => (
+                    <SelectItem key={shed.id} value={shed.id}>
+                      {shed.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="fleeceCount">
+                {t('shearing:fleeces', { defaultValue: 'Fleeces' })}
+              </Label>
+              <Input
+                id="fleeceCount"
+                type="number"
+                min="1"
+                step="1"
+                value={formData.fleeceCount}
+                onChange={setField('fleeceCount')}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="greasyWeight">
+                {t('shearing:greasyWeightKg', {
+                  defaultValue: 'Greasy Weight (kg)',
+                })}
+              </Label>
+              <Input
+                id="greasyWeight"
+                type="number"
+                min="0"
+                step="0.01"
+                value={formData.greasyWeightKg}
+                onChange={setField('greasyWeightKg')}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="micron">
+                {t('shearing:micron', { defaultValue: 'Micron' })} (
+                {t('common:optional', { defaultValue: 'Optional' })})
+              </Label>
+              <Input
+                id="micron"
+                type="number"
+                min="10"
+                max="50"
+                step="0.1"
+                value={formData.micronGrade}
+                onChange={setField('micronGrade')}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="yield">
+                {t('shearing:yieldPercent', { defaultValue: 'Yield (%)' })} (
+                {t('common:optional', { defaultValue: 'Optional' })})
+              </Label>
+              <Input
+                id="yield"
+                type="number"
+                min="0"
+                max="100"
+                step="0.1"
+                value={formData.yieldPercent}
+                onChange={setField('yieldPercent')}
+              />
+            </div>
+          </div>
+
+          {fleeceCount > 0 && greasyWeightKg > 0 && (
+            <p className="text-sm text-muted-foreground">
+              {t('shearing:clipPreview', {
+                perFleece: calculateAverageFleeceWeight(
+                  greasyWeightKg,
+                  fleeceCount,
+                ),
+                clean: cleanWeightKg ?? '—',
+                defaultValue:
+                  '{{perFleece}} kg per fleece, {{clean}} kg clean wool',
+              })}
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="notes">
+              {t('common:notes', { defaultValue: 'Notes' })}
+            </Label>
+            <Textarea
+              id="notes"
+              value={formData.notes}
+              onChange={setField('notes')}
+            />
+          </div>
+
+          {error && (
+            <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+              {error}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSubmitting}
+            >
+              {t('common:cancel', { defaultValue: 'Cancel' })}
+            </Button>
+            <Button
+              type="submit"
+              disabled={
+                isSubmitting ||
+                (!initialData && !formData.batchId) ||
+                fleeceCount <= 0 ||
+                greasyWeightKg <= 0
+              }
+            >
+              {isSubmitting
+                ? t('common:saving', { defaultValue: 'Saving...' })
+                : initialData
+                  ? t('common:saveChanges', { defaultValue: 'Save Changes' })
+                  : t('shearing:save', { defaultValue: 'Save Shearing' })}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
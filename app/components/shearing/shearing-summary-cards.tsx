@@ -0,0 +1,97 @@
+import { Layers, Ruler, Scale, Scissors } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import type { ShearingSummary } from '~/features/shearing/types'
+import { getMicronClass } from '~/features/shearing/service'
+import { Card, CardContent, CardHeader, CardTitle } from '~/components/ui/card'
+
+interface ShearingSummaryCardsProps {
+  summary: ShearingSummary | null
+}
+
+const formatKg = (value: number) =>
+  `${value.toLocaleString(undefined, { maximumFractionDigits: 2 })} kg`
+
+export function ShearingSummaryCards({ summary }: ShearingSummaryCardsProps) {
+  const { t } = useTranslation(['shearing'])
+
+  if (!summary) return null
+
+  return (
+    <div className="grid gap-3 sm:gap-4 grid-cols-1 md:grid-cols-4 mb-6 md:mb-8">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-0 p-2 sm:pb-1 sm:p-3">
+          <CardTitle className="text-[10px] sm:text-xs font-medium text-muted-foreground uppercase tracking-wider">
+            {t('shearing:fleeces', { defaultValue: 'Fleeces' })}
+          </CardTitle>
+          <Scissors className="h-3 w-3 sm:h-4 sm:w-4 text-muted-foreground" />
+        </CardHeader>
+        <CardContent className="p-2 pt-0 sm:p-3 sm:pt-0">
+          <div className="text-lg sm:text-2xl font-bold">
+            {summary.fleeceCount.toLocaleString()}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {t('shearing:shearings', {
+              count: summary.recordCount,
+              defaultValue: '{{count}} shearings',
+            })}
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-0 p-2 sm:pb-1 sm:p-3">
+          <CardTitle className="text-[10px] sm:text-xs font-medium text-muted-foreground uppercase tracking-wider">
+            {t('shearing:greasyWeight', { defaultValue: 'Greasy Weight' })}
+          </CardTitle>
+          <Layers className="h-3 w-3 sm:h-4 sm:w-4 text-muted-foreground" />
+        </CardHeader>
+        <CardContent className="p-2 pt-0 sm:p-3 sm:pt-0">
+          <div className="text-lg sm:text-2xl font-bold">
+            {formatKg(summary.greasyWeightKg)}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {t('shearing:cleanAmount', {
+              amount: formatKg(summary.cleanWeightKg),
+              defaultValue: '{{amount}} clean',
+            })}
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-0 p-2 sm:pb-1 sm:p-3">
+          <CardTitle className="text-[10px] sm:text-xs font-medium text-muted-foreground uppercase tracking-wider">
+            {t('shearing:averageFleece', { defaultValue: 'Avg Fleece' })}
+          </CardTitle>
+          <Scale className="h-3 w-3 sm:h-4 sm:w-4 text-green-600" />
+        </CardHeader>
+        <CardContent className="p-2 pt-0 sm:p-3 sm:pt-0">
+          <div className="text-lg sm:text-2xl font-bold text-green-600">
+            {formatKg(summary.averageFleeceWeightKg)}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-0 p-2 sm:pb-1 sm:p-3">
+          <CardTitle className="text-[10px] sm:text-xs font-medium text-muted-foreground uppercase tracking-wider">
+            {t('shearing:averageMicron', { defaultValue: 'Avg Micron' })}
+          </CardTitle>
+          <Ruler className="h-3 w-3 sm:h-4 sm:w-4 text-muted-foreground" />
+        </CardHeader>
+        <CardContent className="p-2 pt-0 sm:p-3 sm:pt-0">
+          <div className="text-lg sm:text-2xl font-bold">
+            {summary.averageMicron !== null
+              ? `${summary.averageMicron} µm`
+              : '—'}
+          </div>
+          {summary.averageMicron !== null && (
+            <p className="text-xs text-muted-foreground">
+              {t(`shearing:classes.${getMicronClass(summary.averageMicron)}`)}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -69,6 +69,7 @@ export function SupplierDialog({
     email: '',
     location: '',
     products: '',
+    leadTimeDays: '',
     supplierType: '' as
       | ''
       | 'hatchery'
@@ -91,6 +92,9 @@ export function SupplierDialog({
           email: formData.email || null,
           location: formData.location || null,
           supplierType: formData.supplierType || null,
+          leadTimeDays: formData.leadTimeDays
+            ? Number(formData.leadTimeDays)
+            : null,
         },
       },
       {
@@ -102,6 +106,7 @@ export function SupplierDialog({
             email: '',
             location: '',
             products: '',
+            leadTimeDays: '',
             supplierType: '',
           })
           onSuccess()
@@ -267,6 +272,36 @@ export function SupplierDialog({
             />
           </div>
 
+          <div className="space-y-2">
+            <Label
+              htmlFor="leadTimeDays"
+              className="text-[10px] font-bold uppercase tracking-widest text-muted-foreground/60 pl-1"
+            >
+              {t('suppliers:form.leadTime', {
+                defaultValue: 'Delivery Lead Time (days)',
+              })}
+            </Label>
+            <Input
+              id="leadTimeDays"
+              type="number"
+              min="0"
+              max="90"
+              step="1"
+              value={formData.leadTimeDays}
+              onChange={(e) =>
+                setFormData((prev) => ({
+                  ...prev,
+                  leadTimeDays: e.target.value,
+                }))
+              }
+              placeholder={t('suppliers:form.leadTimePlaceholder', {
+                defaultValue: 'e.g. 3',
+              })}
+              className="h-11 bg-black/5 dark:bg-white/5 border-transparent focus:border-emerald-500/50 focus:ring-emerald-500/20 transition-all font-medium text-sm px-4 rounded-xl"
+              style={{ color: 'var(--text-landing-primary)' }}
+            />
+          </div>
+
           <DialogFooter>
             <Button
               type="button"
@@ -0,0 +1,671 @@
+/**
+ * Database operations for the individual animal registry.
+ * All functions are pure data access - no business logic.
+ */
+
+import { sql } from 'kysely'
+import { TAGGABLE_LIVESTOCK_TYPES } from './types'
+import type { Kysely } from 'kysely'
+import type { AnimalLivestockType, AnimalSex, AnimalStatus } from './types'
+import type { Database } from '~/lib/db/types'
+import type { BasePaginatedQuery, PaginatedResult } from '~/lib/types'
+
+/**
+ * Structure types that hold individually managed ruminants
+ */
+const ANIMAL_STRUCTURE_TYPES = [
+  'barn',
+  'pen',
+  'pasture',
+  'feedlot',
+  'kraal',
+  'milking_parlor',
+] as const
+
+/**
+ * Data for inserting a new animal
+ */
+export interface AnimalInsert {
+  farmId: string
+  batchId: string | null
+  livestockType: AnimalLivestockType
+  tagNumber: string
+  rfid: string | null
+  name: string | null
+  sex: AnimalSex
+  dateOfBirth: Date | null
+  damId: string | null
+  sireId: string | null
+  structureId: string | null
+  notes: string | null
+}
+
+/**
+ * Data for updating an animal
+ */
+export type AnimalUpdate = Partial<
+  Omit<AnimalInsert, 'farmId' | 'livestockType'> & { status: AnimalStatus }
+>
+
+/**
+ * Animal with batch, structure, parent and farm information
+ */
+export interface AnimalWithDetails {
+  id: string
+  farmId: string
+  batchId: string | null
+  livestockType: AnimalLivestockType
+  tagNumber: string
+  rfid: string | null
+  name: string | null
+  sex: AnimalSex
+  dateOfBirth: Date | null
+  damId: string | null
+  sireId: string | null
+  status: AnimalStatus
+  structureId: string | null
+  notes: string | null
+  createdAt: Date
+  batchSpecies: string | null
+  batchName: string | null
+  structureName: string | null
+  damTag: string | null
+  sireTag: string | null
+  farmName: string
+}
+
+/**
+ * Filters for animal queries
+ */
+export interface AnimalFilters extends BasePaginatedQuery {
+  batchId?: string
+  status?: AnimalStatus
+}
+
+/**
+ * Fields needed to attach a record to an animal
+ */
+export interface AnimalForRecord {
+  id: string
+  farmId: string
+  batchId: string | null
+  livestockType: AnimalLivestockType
+  sex: AnimalSex
+  dateOfBirth: Date | null
+  status: AnimalStatus
+}
+
+const ANIMAL_COLUMNS = [
+  'animals.id',
+  'animals.farmId',
+  'animals.batchId',
+  'animals.livestockType',
+  'animals.tagNumber',
+  'animals.rfid',
+  'animals.name',
+  'animals.sex',
+  'animals.dateOfBirth',
+  'animals.damId',
+  'animals.sireId',
+  'animals.status',
+  'animals.structureId',
+  'animals.notes',
+  'animals.createdAt',
+  'batches.species as batchSpecies',
+  'batches.batchName',
+  'structures.name as structureName',
+  'dam.tagNumber as damTag',
+  'sire.tagNumber as sireTag',
+  'farms.name as farmName',
+] as const
+
+function selectAnimalsWithDetails(db: Kysely<Database>) {
+  return db
+    .selectFrom('animals')
+    .innerJoin('farms', 'farms.id', 'animals.farmId')
+    .leftJoin('batches', 'batches.id', 'animals.batchId')
+    .leftJoin('structures', 'structures.id', 'animals.structureId')
+    .leftJoin('animals as dam', 'dam.id', 'animals.damId')
+    .leftJoin('animals as sire', 'sire.id', 'animals.sireId')
+    .where('animals.deletedAt', 'is', null)
+}
+
+/**
+ * Insert a new animal
+ *
+ * @param db - Kysely database instance
+ * @param data - Animal data to insert
+ * @returns The ID of the created animal
+ */
+export async function insertAnimal(
+  db: Kysely<Database>,
+  data: AnimalInsert,
+): Promise<string> {
+  const result = await db
+    .insertInto('animals')
+    .values(data)
+    .returning('id')
+    .executeTakeFirstOrThrow()
+  return result.id
+}
+
+/**
+ * Get a single animal by ID
+ *
+ * @param db - Kysely database instance
+ * @param animalId - ID of the animal to retrieve
+ * @returns The animal with related details, or null if not found
+ */
+export async function getAnimalById(
+  db: Kysely<Database>,
+  animalId: string,
+): Promise<AnimalWithDetails | null> {
+  const animal = await selectAnimalsWithDetails(db)
+    .select(ANIMAL_COLUMNS)
+    .where('animals.id', '=', animalId)
+    .executeTakeFirst()
+
+  return animal ?? null
+}
+
+/**
+ * Update an animal
+ *
+ * @param db - Kysely database instance
+ * @param animalId - ID of the animal to update
+ * @param data - Fields to update
+ */
+export async function updateAnimal(
+  db: Kysely<Database>,
+  animalId: string,
+  data: AnimalUpdate,
+): Promise<void> {
+  await db
+    .updateTable('animals')
+    .set({ ...data, updatedAt: new Date() })
+    .where('id', '=', animalId)
+    .execute()
+}
+
+/**
+ * Soft delete an animal. Records already attached to it keep their link.
+ *
+ * @param db - Kysely database instance
+ * @param animalId - ID of the animal to delete
+ */
+export async function deleteAnimal(
+  db: Kysely<Database>,
+  animalId: string,
+): Promise<void> {
+  await db
+    .updateTable('animals')
+    .set({ deletedAt: new Date() })
+    .where('id', '=', animalId)
+    .execute()
+}
+
+/**
+ * Get paginated animals for a set of farms
+ *
+ * @param db - Kysely database instance
+ * @param farmIds - Array of farm IDs the user has access to
+ * @param filters - Pagination and filter options
+ * @returns Paginated result set
+ */
+export async function getAnimalsPaginated(
+  db: Kysely<Database>,
+  farmIds: Array<string>,
+  filters: AnimalFilters = {},
+): Promise<PaginatedResult<AnimalWithDetails>> {
+  const page = filters.page || 1
+  const pageSize = filters.pageSize || 10
+  const offset = (page - 1) * pageSize
+
+  if (farmIds.length === 0) {
+    return { data: [], total: 0, page, pageSize, totalPages: 0 }
+  }
+
+  let baseQuery = selectAnimalsWithDetails(db).where(
+    'animals.farmId',
+    'in',
+    farmIds,
+  )
+
+  if (filters.search) {
+    const searchLower = `%${filters.search.toLowerCase()}%`
+    baseQuery = baseQuery.where((eb) =>
+      eb.or([
+        eb('animals.tagNumber', 'ilike', searchLower),
+        eb('animals.rfid', 'ilike', searchLower),
+        eb('animals.name', 'ilike', searchLower),
+        eb('batches.species', 'ilike', searchLower),
+      ]),
+    )
+  }
+
+  if (filters.batchId) {
+    baseQuery = baseQuery.where('animals.batchId', '=', filters.batchId)
+  }
+
+  if (filters.status) {
+    baseQuery = baseQuery.where('animals.status', '=', filters.status)
+  }
+
+  const countResult = await baseQuery
+    .select((eb) => [eb.fn.count<number>('animals.id').as('count')])
+    .executeTakeFirst()
+
+  const total = Number(countResult?.count || 0)
+  const totalPages = Math.ceil(total / pageSize)
+
+  let dataQuery = baseQuery
+    .select(ANIMAL_COLUMNS)
+    .limit(pageSize)
+    .offset(offset)
+
+  // Apply sorting with validated column references to prevent SQL injection
+  const allowedCols: Record<string, string> = {
+    tagNumber: 'animals.tagNumber',
+    name: 'animals.name',
+    dateOfBirth: 'animals.dateOfBirth',
+    status: 'animals.status',
+    createdAt: 'animals.createdAt',
+  }
+  const sortCol = filters.sortBy ? allowedCols[filters.sortBy] : undefined
+  if (sortCol) {
+    dataQuery = dataQuery.orderBy(
+      sql.raw(`"${sortCol.replace('.', '"."')}"`),
+      filters.sortOrder || 'asc',
+    )
+  } else {
+    dataQuery = dataQuery.orderBy('animals.tagNumber', 'asc')
+  }
+
+  const data = await dataQuery.execute()
+
+  return { data, total, page, pageSize, totalPages }
+}
+
+/**
+ * Get the sex and status of every animal on a set of farms
+ *
+ * @param db - Kysely database instance
+ * @param farmIds - Array of farm IDs
+ * @returns Sex and status per animal
+ */
+export async function getAnimalSummaryRows(
+  db: Kysely<Database>,
+  farmIds: Array<string>,
+): Promise<Array<{ sex: AnimalSex; status: AnimalStatus }>> {
+  if (farmIds.length === 0) return []
+
+  return await db
+    .selectFrom('animals')
+    .select(['sex', 'status'])
+    .where('farmId', 'in', farmIds)
+    .where('deletedAt', 'is', null)
+    .execute()
+}
+
+/**
+ * Find a live animal on a farm using a tag or RFID number
+ *
+ * @param db - Kysely database instance
+ * @param farmId - Farm ID
+ * @param tagNumber - Normalized tag number
+ * @param rfid - RFID, if any
+ * @param excludeId - Animal to ignore (the one being updated)
+ * @returns ID of the clashing animal, or null
+ */
+export async function findAnimalByTag(
+  db: Kysely<Database>,
+  farmId: string,
+  tagNumber: string,
+  rfid: string | null,
+  excludeId?: string,
+): Promise<string | null> {
+  let query = db
+    .selectFrom('animals')
+    .select('id')
+    .where('farmId', '=', farmId)
+    .where('deletedAt', 'is', null)
+    .where((eb) =>
+      rfid
+        ? eb.or([eb('tagNumber', '=', tagNumber), eb('rfid', '=', rfid)])
+        : eb('tagNumber', '=', tagNumber),
+    )
+
+  if (excludeId) {
+    query = query.where('id', '!=', excludeId)
+  }
+
+  const result = await query.executeTakeFirst()
+  return result?.id ?? null
+}
+
+/**
+ * Get an animal with the fields needed to attach a record or check parentage
+ *
+ * @param db - Kysely database instance
+ * @param animalId - Animal ID
+ * @returns The animal if found and not deleted, null otherwise
+ */
+export async function getAnimalForRecord(
+  db: Kysely<Database>,
+  animalId: string,
+): Promise<AnimalForRecord | null> {
+  const animal = await db
+    .selectFrom('animals')
+    .select([
+      'id',
+      'farmId',
+      'batchId',
+      'livestockType',
+      'sex',
+      'dateOfBirth',
+      'status',
+    ])
+    .where('id', '=', animalId)
+    .where('deletedAt', 'is', null)
+    .executeTakeFirst()
+
+  return animal ?? null
+}
+
+/**
+ * Count active animals tagged into a batch
+ *
+ * @param db - Kysely database instance
+ * @param batchId - Batch ID
+ * @param excludeId - Animal to leave out of the count
+ * @returns Number of active tagged animals
+ */
+export async function countActiveAnimalsInBatch(
+  db: Kysely<Database>,
+  batchId: string,
+  excludeId?: string,
+): Promise<number> {
+  let query = db
+    .selectFrom('animals')
+    .select((eb) => eb.fn.count<number>('id').as('count'))
+    .where('batchId', '=', batchId)
+    .where('status', '=', 'active')
+    .where('deletedAt', 'is', null)
+
+  if (excludeId) {
+    query = query.where('id', '!=', excludeId)
+  }
+
+  const result = await query.executeTakeFirst()
+  return Number(result?.count || 0)
+}
+
+/**
+ * Get a batch for an animal, verifying it belongs to the farm
+ *
+ * @param db - Kysely database instance
+ * @param batchId - Batch ID to check
+ * @param farmId - Farm ID for verification
+ * @returns Batch data if found, null otherwise
+ */
+export async function getBatchForAnimal(
+  db: Kysely<Database>,
+  batchId: string,
+  farmId: string,
+): Promise<{
+  id: string
+  livestockType: string
+  currentQuantity: number
+} | null> {
+  const batch = await db
+    .selectFrom('batches')
+    .select(['id', 'livestockType', 'currentQuantity'])
+    .where('id', '=', batchId)
+    .where('farmId', '=', farmId)
+    .where('deletedAt', 'is', null)
+    .executeTakeFirst()
+
+  return batch ?? null
+}
+
+/**
+ * Get a structure for an animal, verifying it belongs to the farm
+ *
+ * @param db - Kysely database instance
+ * @param structureId - Structure ID to check
+ * @param farmId - Farm ID for verification
+ * @returns Structure if found, null otherwise
+ */
+export async function getStructureForAnimal(
+  db: Kysely<Database>,
+  structureId: string,
+  farmId: string,
+): Promise<{ id: string } | null> {
+  const structure = await db
+    .selectFrom('structures')
+    .select('id')
+    .where('id', '=', structureId)
+    .where('farmId', '=', farmId)
+    .where('deletedAt', 'is', null)
+    .executeTakeFirst()
+
+  return structure ?? null
+}
+
+/**
+ * Get active cattle, goat and sheep batches for a farm
+ *
+ * @param db - Kysely database instance
+ * @param farmId - Farm ID
+ * @returns Batches animals can be tagged into
+ */
+export async function getTaggableBatches(
+  db: Kysely<Database>,
+  farmId: string,
+): Promise<
+  Array<{
+    id: string
+    species: string
+    livestockType: string
+    currentQuantity: number
+  }>
+> {
+  return await db
+    .selectFrom('batches')
+    .select(['id', 'species', 'livestockType', 'currentQuantity'])
+    .where('farmId', '=', farmId)
+    .where('livestockType', 'in', TAGGABLE_LIVESTOCK_TYPES)
+    .where('status', '=', 'active')
+    .where('deletedAt', 'is', null)
+    .execute()
+}
+
+/**
+ * Get barns, pens and pastures for a farm
+ *
+ * @param db - Kysely database instance
+ * @param farmId - Farm ID
+ * @returns Structures an animal can be kept in
+ */
+export async function getAnimalStructures(
+  db: Kysely<Database>,
+  farmId: string,
+): Promise<Array<{ id: string; name: string }>> {
+  return await db
+    .selectFrom('structures')
+    .select(['id', 'name'])
+    .where('farmId', '=', farmId)
+    .where('type', 'in', ANIMAL_STRUCTURE_TYPES)
+    .where('deletedAt', 'is', null)
+    .orderBy('name', 'asc')
+    .execute()
+}
+
+/**
+ * Get animals that can be recorded as a dam or sire
+ *
+ * @param db - Kysely database instance
+ * @param farmId - Farm ID
+ * @returns Registered animals, by tag
+ */
+export async function getParentOptions(
+  db: Kysely<Database>,
+  farmId: string,
+): Promise<
+  Array<{
+    id: string
+    tagNumber: string
+    name: string | null
+    livestockType: AnimalLivestockType
+    sex: AnimalSex
+    dateOfBirth: Date | null
+  }>
+> {
+  return await db
+    .selectFrom('animals')
+    .select(['id', 'tagNumber', 'name', 'livestockType', 'sex', 'dateOfBirth'])
+    .where('farmId', '=', farmId)
+    .where('deletedAt', 'is', null)
+    .orderBy('tagNumber', 'asc')
+    .execute()
+}
+
+/**
+ * Get the registered offspring of an animal
+ *
+ * @param db - Kysely database instance
+ * @param animalId - Parent animal ID
+ * @returns Offspring, youngest first
+ */
+export async function getOffspring(
+  db: Kysely<Database>,
+  animalId: string,
+): Promise<
+  Array<{
+    id: string
+    tagNumber: string
+    name: string | null
+    sex: AnimalSex
+    dateOfBirth: Date | null
+    status: AnimalStatus
+  }>
+> {
+  return await db
+    .selectFrom('animals')
+    .select(['id', 'tagNumber', 'name', 'sex', 'dateOfBirth', 'status'])
+    .where((eb) =>
+      eb.or([eb('damId', '=', animalId), eb('sireId', '=', animalId)]),
+    )
+    .where('deletedAt', 'is', null)
+    .orderBy('dateOfBirth', 'desc')
+    .execute()
+}
+
+/**
+ * Get weights recorded for a single animal
+ *
+ * @param db - Kysely database instance
+ * @param animalId - Animal ID
+ * @returns Weights, newest first
+ */
+export async function getAnimalWeights(
+  db: Kysely<Database>,
+  animalId: string,
+): Promise<
+  Array<{
+    id: string
+    date: Date
+    averageWeightKg: string
+    notes: string | null
+  }>
+> {
+  return await db
+    .selectFrom('weight_samples')
+    .select(['id', 'date', 'averageWeightKg', 'notes'])
+    .where('animalId', '=', animalId)
+    .orderBy('date', 'desc')
+    .execute()
+}
+
+/**
+ * Get vaccinations and treatments given to a single animal
+ *
+ * @param db - Kysely database instance
+ * @param animalId - Animal ID
+ * @returns Health records, newest first
+ */
+export async function getAnimalHealthRecords(
+  db: Kysely<Database>,
+  animalId: string,
+): Promise<
+  Array<{
+    id: string
+    type: 'vaccination' | 'treatment'
+    name: string
+    date: Date
+    dosage: string
+    withdrawalDays: number | null
+    notes: string | null
+  }>
+> {
+  const [vaccinations, treatments] = await Promise.all([
+    db
+      .selectFrom('vaccinations')
+      .select([
+        'id',
+        'vaccineName as name',
+        'dateAdministered as date',
+        'dosage',
+        'notes',
+      ])
+      .where('animalId', '=', animalId)
+      .execute(),
+    db
+      .selectFrom('treatments')
+      .select([
+        'id',
+        'medicationName as name',
+        'date',
+        'dosage',
+        'withdrawalDays',
+        'notes',
+      ])
+      .where('animalId', '=', animalId)
+      .execute(),
+  ])
+
+  return [
+    ...vaccinations.map((v) => ({
+      ...v,
+      type: 'vaccination' as const,
+      withdrawalDays: null,
+    })),
+    ...treatments.map((t) => ({ ...t, type: 'treatment' as const })),
+  ].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+}
+
+/**
+ * Get the mortality record filed against a single animal, if any
+ *
+ * @param db - Kysely database instance
+ * @param animalId - Animal ID
+ * @returns The mortality record, or null
+ */
+export async function getAnimalMortality(
+  db: Kysely<Database>,
+  animalId: string,
+): Promise<{
+  id: string
+  date: Date
+  cause: string
+  notes: string | null
+} | null> {
+  const record = await db
+    .selectFrom('mortality_records')
+    .select(['id', 'date', 'cause', 'notes'])
+    .where('animalId', '=', animalId)
+    .orderBy('date', 'desc')
+    .executeTakeFirst()
+
+  return record ?? null
+}
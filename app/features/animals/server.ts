@@ -0,0 +1,677 @@
+import { createServerFn } from '@tanstack/react-start'
+import { z } from 'zod'
+import {
+  buildAnimalSummary,
+  hasTagCapacity,
+  normalizeTagNumber,
+  validateAnimalAttachment,
+  validateAnimalData,
+  validateParent,
+  validateUpdateData,
+} from './service'
+import {
+  countActiveAnimalsInBatch,
+  deleteAnimal as deleteAnimalFromDb,
+  findAnimalByTag,
+  getAnimalById,
+  getAnimalForRecord,
+  getAnimalHealthRecords,
+  getAnimalMortality,
+  getAnimalStructures,
+  getAnimalSummaryRows,
+  getAnimalWeights,
+  getAnimalsPaginated as getAnimalsPaginatedFromDb,
+  getBatchForAnimal,
+  getOffspring,
+  getParentOptions,
+  getStructureForAnimal,
+  getTaggableBatches,
+  insertAnimal,
+  updateAnimal as updateAnimalInDb,
+} from './repository'
+import {
+  ANIMAL_SEXES,
+  ANIMAL_STATUSES,
+  TAGGABLE_LIVESTOCK_TYPES,
+} from './types'
+import type { Kysely } from 'kysely'
+import type { AnimalForRecord, AnimalUpdate } from './repository'
+import type {
+  AnimalBatch,
+  AnimalParentOption,
+  AnimalQuery,
+  AnimalStructure,
+  AnimalSummary,
+  CreateAnimalInput,
+  UpdateAnimalInput,
+} from './types'
+import type { Database } from '~/lib/db/types'
+import type { PaginatedResult } from '~/lib/types'
+import { AppError } from '~/lib/errors'
+
+export type { PaginatedResult, CreateAnimalInput, UpdateAnimalInput }
+
+const EMPTY_SUMMARY: AnimalSummary = {
+  total: 0,
+  active: 0,
+  males: 0,
+  females: 0,
+  sold: 0,
+  lost: 0,
+}
+
+const animalSchema = z.object({
+  tagNumber: z.string().min(1).max(50),
+  rfid: z.string().max(32).nullish(),
+  name: z.string().max(100).nullish(),
+  sex: z.enum(ANIMAL_SEXES),
+  dateOfBirth: z.coerce.date().nullish(),
+  batchId: z.string().uuid().nullish(),
+  damId: z.string().uuid().nullish(),
+  sireId: z.string().uuid().nullish(),
+  structureId: z.string().uuid().nullish(),
+  notes: z.string().max(500).nullish(),
+})
+
+/**
+ * Ensure a recorded dam or sire is on the farm and can be that parent
+ */
+async function assertParent(
+  db: Kysely<Database>,
+  role: 'dam' | 'sire',
+  parentId: string,
+  farmId: string,
+  offspring: { livestockType: string; dateOfBirth?: Date | null },
+): Promise<void> {
+  const parent = await getAnimalForRecord(db, parentId)
+  if (!parent || parent.farmId !== farmId) {
+    throw new AppError('ANIMAL_NOT_FOUND', {
+      metadata: { animalId: parentId, farmId },
+    })
+  }
+
+  const error = validateParent(role, parent, offspring)
+  if (error) {
+    throw new AppError('VALIDATION_ERROR', { message: error })
+  }
+}
+
+/**
+ * Ensure a batch is on the farm, holds the same livestock and has an untagged
+ * head left for the animal
+ */
+async function assertBatchForAnimal(
+  db: Kysely<Database>,
+  batchId: string,
+  farmId: string,
+  livestockType: string,
+  excludeAnimalId?: string,
+): Promise<void> {
+  const batch = await getBatchForAnimal(db, batchId, farmId)
+  if (!batch) {
+    throw new AppError('BATCH_NOT_FOUND', { metadata: { batchId, farmId } })
+  }
+
+  if (batch.livestockType !== livestockType) {
+    throw new AppError('VALIDATION_ERROR', {
+      message: 'Animal and batch must be the same livestock type',
+    })
+  }
+
+  const tagged = await countActiveAnimalsInBatch(db, batchId, excludeAnimalId)
+  if (!hasTagCapacity(tagged, batch.currentQuantity)) {
+    throw new AppError('VALIDATION_ERROR', {
+      message: `Every one of the ${batch.currentQuantity} head in the batch is already tagged`,
+    })
+  }
+}
+
+/**
+ * Ensure no other live animal on the farm carries the tag or RFID
+ */
+async function assertUniqueTag(
+  db: Kysely<Database>,
+  farmId: string,
+  tagNumber: string,
+  rfid: string | null,
+  excludeAnimalId?: string,
+): Promise<void> {
+  const clash = await findAnimalByTag(
+    db,
+    farmId,
+    tagNumber,
+    rfid,
+    excludeAnimalId,
+  )
+  if (clash) {
+    throw new AppError('DUPLICATE_ANIMAL_TAG', {
+      metadata: { tagNumber, rfid, farmId },
+    })
+  }
+}
+
+/**
+ * Checks that a weight, health or mortality record can point at an animal.
+ * Used by the weight, vaccination and mortality features.
+ *
+ * @param db - Kysely database instance
+ * @param animalId - Animal the record is for
+ * @param batchId - Batch the record is filed under
+ * @returns The animal
+ * @throws {AppError} If the animal is missing, inactive or in another batch
+ */
+export async function assertAnimalInBatch(
+  db: Kysely<Database>,
+  animalId: string,
+  batchId: string,
+): Promise<AnimalForRecord> {
+  const animal = await getAnimalForRecord(db, animalId)
+  if (!animal) {
+    throw new AppError('ANIMAL_NOT_FOUND', { metadata: { animalId } })
+  }
+
+  const error = validateAnimalAttachment(animal, batchId)
+  if (error) {
+    throw new AppError('VALIDATION_ERROR', { message: error })
+  }
+
+  return animal
+}
+
+/**
+ * Registers a tagged animal.
+ * Tags are normalized and must be unique among the farm's live animals.
+ *
+ * @param userId - ID of the user performing the action
+ * @param farmId - ID of the farm the animal is on
+ * @param input - Tag, sex, birth date, parents and placement
+ * @returns Promise resolving to the new animal ID
+ * @throws {AppError} If the tag is taken or a batch, structure or parent is invalid
+ */
+export async function createAnimal(
+  userId: string,
+  farmId: string,
+  input: CreateAnimalInput,
+): Promise<string> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { verifyFarmAccess } = await import('~/features/auth/utils')
+
+  try {
+    await verifyFarmAccess(userId, farmId)
+
+    const validationError = validateAnimalData(input)
+    if (validationError) {
+      throw new AppError('VALIDATION_ERROR', {
+        metadata: { error: validationError },
+      })
+    }
+
+    const tagNumber = normalizeTagNumber(input.tagNumber)
+    const rfid = input.rfid?.trim() || null
+    await assertUniqueTag(db, farmId, tagNumber, rfid)
+
+    if (input.batchId) {
+      await assertBatchForAnimal(db, input.batchId, farmId, input.livestockType)
+    }
+
+    if (input.structureId) {
+      const structure = await getStructureForAnimal(
+        db,
+        input.structureId,
+        farmId,
+      )
+      if (!structure) {
+        throw new AppError('STRUCTURE_NOT_FOUND', {
+          metadata: { structureId: input.structureId, farmId },
+        })
+      }
+    }
+
+    if (input.damId) {
+      await assertParent(db, 'dam', input.damId, farmId, input)
+    }
+    if (input.sireId) {
+      await assertParent(db, 'sire', input.sireId, farmId, input)
+    }
+
+    return await insertAnimal(db, {
+      farmId,
+      batchId: input.batchId ?? null,
+      livestockType: input.livestockType,
+      tagNumber,
+      rfid,
+      name: input.name?.trim() || null,
+      sex: input.sex,
+      dateOfBirth: input.dateOfBirth ?? null,
+      damId: input.damId ?? null,
+      sireId: input.sireId ?? null,
+      structureId: input.structureId ?? null,
+      notes: input.notes || null,
+    })
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to register animal',
+      cause: error,
+    })
+  }
+}
+
+export const createAnimalFn = createServerFn({ method: 'POST' })
+  .inputValidator(
+    z.object({
+      farmId: z.string().uuid(),
+      animal: animalSchema.extend({
+        livestockType: z.enum(TAGGABLE_LIVESTOCK_TYPES),
+      }),
+    }),
+  )
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+    return createAnimal(session.user.id, data.farmId, data.animal)
+  })
+
+/**
+ * Updates an animal's identity, placement, parents or status
+ *
+ * @param userId - ID of the user performing the update
+ * @param animalId - ID of the animal to update
+ * @param data - Partial update parameters
+ * @returns Promise resolving to true on success
+ */
+export async function updateAnimal(
+  userId: string,
+  animalId: string,
+  data: UpdateAnimalInput,
+): Promise<boolean> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { getUserFarms } = await import('~/features/auth/utils')
+
+  try {
+    const validationError = validateUpdateData(data)
+    if (validationError) {
+      throw new AppError('VALIDATION_ERROR', {
+        metadata: { error: validationError },
+      })
+    }
+
+    const userFarms = await getUserFarms(userId)
+    const animal = await getAnimalById(db, animalId)
+
+    if (!animal) {
+      throw new AppError('ANIMAL_NOT_FOUND', {
+        metadata: { resource: 'Animal', id: animalId },
+      })
+    }
+
+    if (!userFarms.includes(animal.farmId)) {
+      throw new AppError('ACCESS_DENIED', {
+        metadata: { farmId: animal.farmId },
+      })
+    }
+
+    if (data.damId === animalId || data.sireId === animalId) {
+      throw new AppError('VALIDATION_ERROR', {
+        message: 'An animal cannot be its own parent',
+      })
+    }
+
+    const update: AnimalUpdate = {}
+
+    if (data.tagNumber !== undefined || data.rfid !== undefined) {
+      const tagNumber =
+        data.tagNumber !== undefined
+          ? normalizeTagNumber(data.tagNumber)
+          : animal.tagNumber
+      const rfid =
+        data.rfid !== undefined ? data.rfid?.trim() || null : animal.rfid
+      await assertUniqueTag(db, animal.farmId, tagNumber, rfid, animalId)
+      update.tagNumber = tagNumber
+      update.rfid = rfid
+    }
+
+    if (data.batchId && data.batchId !== animal.batchId) {
+      await assertBatchForAnimal(
+        db,
+        data.batchId,
+        animal.farmId,
+        animal.livestockType,
+        animalId,
+      )
+    }
+
+    if (data.structureId) {
+      const structure = await getStructureForAnimal(
+        db,
+        data.structureId,
+        animal.farmId,
+      )
+      if (!structure) {
+        throw new AppError('STRUCTURE_NOT_FOUND', {
+          metadata: { structureId: data.structureId, farmId: animal.farmId },
+        })
+      }
+    }
+
+    const offspring = {
+      livestockType: animal.livestockType,
+      dateOfBirth:
+        data.dateOfBirth !== undefined
+          ? data.dateOfBirth
+          : animal.dateOfBirth
+            ? new Date(animal.dateOfBirth)
+            : null,
+    }
+    if (data.damId) {
+      await assertParent(db, 'dam', data.damId, animal.farmId, offspring)
+    }
+    if (data.sireId) {
+      await assertParent(db, 'sire', data.sireId, animal.farmId, offspring)
+    }
+
+    if (data.name !== undefined) update.name = data.name?.trim() || null
+    if (data.sex !== undefined) update.sex = data.sex
+    if (data.dateOfBirth !== undefined) update.dateOfBirth = data.dateOfBirth
+    if (data.batchId !== undefined) update.batchId = data.batchId ?? null
+    if (data.damId !== undefined) update.damId = data.damId ?? null
+    if (data.sireId !== undefined) update.sireId = data.sireId ?? null
+    if (data.status !== undefined) update.status = data.status
+    if (data.structureId !== undefined)
+      update.structureId = data.structureId ?? null
+    if (data.notes !== undefined) update.notes = data.notes || null
+
+    await updateAnimalInDb(db, animalId, update)
+
+    return true
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to update animal',
+      cause: error,
+    })
+  }
+}
+
+export const updateAnimalFn = createServerFn({ method: 'POST' })
+  .inputValidator(
+    z.object({
+      animalId: z.string().uuid(),
+      data: animalSchema.partial().extend({
+        status: z.enum(ANIMAL_STATUSES).optional(),
+      }),
+    }),
+  )
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+    return updateAnimal(session.user.id, data.animalId, data.data)
+  })
+
+/**
+ * Remove an animal from the registry. Weights and health records filed
+ * against it stay on its batch.
+ *
+ * @param userId - ID of the user performing the action
+ * @param animalId - ID of the animal to delete
+ */
+export async function deleteAnimal(
+  userId: string,
+  animalId: string,
+): Promise<void> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { getUserFarms } = await import('~/features/auth/utils')
+
+  try {
+    const userFarms = await getUserFarms(userId)
+    const animal = await getAnimalById(db, animalId)
+
+    if (!animal) {
+      throw new AppError('ANIMAL_NOT_FOUND', {
+        metadata: { resource: 'Animal', id: animalId },
+      })
+    }
+
+    if (!userFarms.includes(animal.farmId)) {
+      throw new AppError('ACCESS_DENIED', {
+        metadata: { farmId: animal.farmId },
+      })
+    }
+
+    await deleteAnimalFromDb(db, animalId)
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to delete animal',
+      cause: error,
+    })
+  }
+}
+
+export const deleteAnimalFn = createServerFn({ method: 'POST' })
+  .inputValidator(z.object({ animalId: z.string().uuid() }))
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+    return deleteAnimal(session.user.id, data.animalId)
+  })
+
+/**
+ * Retrieves a filtered and sorted page of animals.
+ *
+ * @param userId - ID of the requesting user
+ * @param query - Sorting, search and pagination params
+ * @returns Paginated animals with batch, structure and parent tags
+ */
+export async function getAnimalsPaginated(
+  userId: string,
+  query: AnimalQuery = {},
+) {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { checkFarmAccess, getUserFarms } =
+    await import('~/features/auth/utils')
+
+  try {
+    let targetFarmIds: Array<string> = []
+    if (query.farmId) {
+      const hasAccess = await checkFarmAccess(userId, query.farmId)
+      if (!hasAccess)
+        throw new AppError('ACCESS_DENIED', {
+          metadata: { farmId: query.farmId },
+        })
+      targetFarmIds = [query.farmId]
+    } else {
+      targetFarmIds = await getUserFarms(userId)
+    }
+
+    return await getAnimalsPaginatedFromDb(db, targetFarmIds, query)
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to fetch paginated animals',
+      cause: error,
+    })
+  }
+}
+
+/**
+ * Counts animals by status, and active animals by sex.
+ *
+ * @param userId - ID of the requesting user
+ * @param farmId - Optional farm filter
+ * @returns Registry summary
+ */
+export async function getAnimalSummary(
+  userId: string,
+  farmId?: string,
+): Promise<AnimalSummary> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { checkFarmAccess, getUserFarms } =
+    await import('~/features/auth/utils')
+
+  try {
+    let targetFarmIds: Array<string> = []
+
+    if (farmId) {
+      const hasAccess = await checkFarmAccess(userId, farmId)
+      if (!hasAccess)
+        throw new AppError('ACCESS_DENIED', { metadata: { farmId } })
+      targetFarmIds = [farmId]
+    } else {
+      targetFarmIds = await getUserFarms(userId)
+      if (targetFarmIds.length === 0) return EMPTY_SUMMARY
+    }
+
+    const rows = await getAnimalSummaryRows(db, targetFarmIds)
+
+    return buildAnimalSummary(rows)
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to fetch animal summary',
+      cause: error,
+    })
+  }
+}
+
+/**
+ * Batches, structures and possible parents for the animal form
+ *
+ * @param userId - ID of the requesting user
+ * @param farmId - Farm to list options for
+ * @returns Taggable batches, structures and registered animals
+ */
+export async function getAnimalOptions(
+  userId: string,
+  farmId: string,
+): Promise<{
+  batches: Array<AnimalBatch>
+  structures: Array<AnimalStructure>
+  parents: Array<AnimalParentOption>
+}> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { verifyFarmAccess } = await import('~/features/auth/utils')
+
+  try {
+    await verifyFarmAccess(userId, farmId)
+
+    const [batches, structures, parents] = await Promise.all([
+      getTaggableBatches(db, farmId),
+      getAnimalStructures(db, farmId),
+      getParentOptions(db, farmId),
+    ])
+
+    return { batches, structures, parents }
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to fetch animal options',
+      cause: error,
+    })
+  }
+}
+
+/**
+ * Server function to get all animal data for a farm (paginated animals, summary and form options)
+ */
+export const getAnimalsDataForFarmFn = createServerFn({ method: 'GET' })
+  .inputValidator(
+    z.object({
+      farmId: z.string().uuid().nullish(),
+      page: z.number().int().positive().optional(),
+      pageSize: z.number().int().positive().max(100).optional(),
+      sortBy: z.string().optional(),
+      sortOrder: z.enum(['asc', 'desc']).optional(),
+      search: z.string().optional(),
+      status: z.enum(ANIMAL_STATUSES).optional(),
+    }),
+  )
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+
+    const session = await requireAuth()
+    const farmId = data.farmId || undefined
+
+    const [paginatedAnimals, summary, options] = await Promise.all([
+      getAnimalsPaginated(session.user.id, {
+        farmId,
+        page: data.page,
+        pageSize: data.pageSize,
+        sortBy: data.sortBy,
+        sortOrder: data.sortOrder,
+        search: data.search,
+        status: data.status,
+      }),
+      getAnimalSummary(session.user.id, farmId),
+      farmId
+        ? getAnimalOptions(session.user.id, farmId)
+        : Promise.resolve({ batches: [], structures: [], parents: [] }),
+    ])
+
+    return {
+      paginatedAnimals,
+      summary,
+      batches: options.batches,
+      structures: options.structures,
+      parents: options.parents,
+    }
+  })
+
+/**
+ * An animal with its offspring and the weights, health records and
+ * mortality filed against it
+ *
+ * @param userId - ID of the requesting user
+ * @param animalId - Animal to load
+ * @returns Animal profile and history
+ */
+export async function getAnimalDetail(userId: string, animalId: string) {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { checkFarmAccess } = await import('~/features/auth/utils')
+
+  try {
+    const animal = await getAnimalById(db, animalId)
+    if (!animal) {
+      throw new AppError('ANIMAL_NOT_FOUND', {
+        metadata: { resource: 'Animal', id: animalId },
+      })
+    }
+
+    const hasAccess = await checkFarmAccess(userId, animal.farmId)
+    if (!hasAccess) {
+      throw new AppError('ACCESS_DENIED', {
+        metadata: { farmId: animal.farmId },
+      })
+    }
+
+    const [offspring, weights, healthRecords, mortality] = await Promise.all([
+      getOffspring(db, animalId),
+      getAnimalWeights(db, animalId),
+      getAnimalHealthRecords(db, animalId),
+      getAnimalMortality(db, animalId),
+    ])
+
+    return { animal, offspring, weights, healthRecords, mortality }
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to fetch animal',
+      cause: error,
+    })
+  }
+}
+
+export const getAnimalDetailFn = createServerFn({ method: 'GET' })
+  .inputValidator(z.object({ animalId: z.string().uuid() }))
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+    return getAnimalDetail(session.user.id, data.animalId)
+  })
@@ -0,0 +1,315 @@
+/**
+ * Pure business logic for the individual animal registry.
+ * All functions are side-effect-free and easily unit testable.
+ */
+
+import { ANIMAL_SEXES, TAGGABLE_LIVESTOCK_TYPES } from './types'
+import type {
+  AnimalSex,
+  AnimalStatus,
+  AnimalSummary,
+  CreateAnimalInput,
+  UpdateAnimalInput,
+} from './types'
+
+/** Longest tag the column holds */
+const MAX_TAG_LENGTH = 50
+
+/** Longest electronic ID the column holds */
+const MAX_RFID_LENGTH = 32
+
+/**
+ * Normalize a tag number so "ng 0042" and "NG-0042 " are not told apart by
+ * case or stray whitespace
+ *
+ * @param tagNumber - Tag as typed
+ * @returns Trimmed, upper-cased tag with single spaces
+ *
+ * @example
+ * ```ts
+ * normalizeTagNumber('  ng 0042 ') // Returns: 'NG 0042'
+ * ```
+ */
+export function normalizeTagNumber(tagNumber: string): string {
+  return tagNumber.trim().replace(/\s+/g, ' ').toUpperCase()
+}
+
+/**
+ * Validate animal data before registration
+ * Returns validation error message or null if valid
+ *
+ * @param data - Animal data to validate
+ * @param asOf - Reference date for birth date checks
+ * @returns Validation error message, or null if data is valid
+ *
+ * @example
+ * ```ts
+ * validateAnimalData({
+ *   tagNumber: 'NG-0042',
+ *   livestockType: 'cattle',
+ *   sex: 'female',
+ *   dateOfBirth: new Date('2023-04-01'),
+ * })
+ * // Returns: null (valid)
+ * ```
+ */
+export function validateAnimalData(
+  data: CreateAnimalInput,
+  asOf: Date = new Date(),
+): string | null {
+  if (!data.tagNumber || data.tagNumber.trim() === '') {
+    return 'Tag number is required'
+  }
+
+  if (
+    !(TAGGABLE_LIVESTOCK_TYPES as ReadonlyArray<string>).includes(
+      data.livestockType,
+    )
+  ) {
+    return 'Only cattle, goats and sheep can be registered individually'
+  }
+
+  return validateAnimalFields(data, asOf)
+}
+
+/**
+ * Validate update data for an animal
+ * Returns validation error message or null if valid
+ *
+ * @param data - Update data to validate
+ * @param asOf - Reference date for birth date checks
+ * @returns Validation error message, or null if valid
+ */
+export function validateUpdateData(
+  data: UpdateAnimalInput,
+  asOf: Date = new Date(),
+): string | null {
+  if (data.tagNumber !== undefined && data.tagNumber.trim() === '') {
+    return 'Tag number is required'
+  }
+
+  return validateAnimalFields(data, asOf)
+}
+
+function validateAnimalFields(
+  data: UpdateAnimalInput,
+  asOf: Date,
+): string | null {
+  if (
+    data.tagNumber !== undefined &&
+    data.tagNumber.trim().length > MAX_TAG_LENGTH
+  ) {
+    return `Tag number must be at most ${MAX_TAG_LENGTH} characters`
+  }
+
+  if (
+    data.rfid !== undefined &&
+    data.rfid !== null &&
+    data.rfid !== '' &&
+    !new RegExp(`^[0-9A-Za-z]{1,${MAX_RFID_LENGTH}}$`).test(data.rfid)
+  ) {
+    return `RFID must be up to ${MAX_RFID_LENGTH} letters or digits`
+  }
+
+  if (
+    data.sex !== undefined &&
+    !(ANIMAL_SEXES as ReadonlyArray<string>).includes(data.sex)
+  ) {
+    return 'Sex must be male or female'
+  }
+
+  if (data.dateOfBirth !== undefined && data.dateOfBirth !== null) {
+    if (isNaN(data.dateOfBirth.getTime())) {
+      return 'Date of birth must be a valid date'
+    }
+    if (data.dateOfBirth.getTime() > asOf.getTime()) {
+      return 'Date of birth cannot be in the future'
+    }
+  }
+
+  if (data.damId && data.damId === data.sireId) {
+    return 'Dam and sire must be different animals'
+  }
+
+  return null
+}
+
+/**
+ * Check that a recorded parent can be the dam or sire of an animal
+ *
+ * @param role - Which parent is being checked
+ * @param parent - The parent animal
+ * @param offspring - Livestock type and birth date of the offspring
+ * @returns Validation error message, or null if the parentage is plausible
+ *
+ * @example
+ * ```ts
+ * validateParent(
+ *   'dam',
+ *   { sex: 'male', livestockType: 'goats', dateOfBirth: null },
+ *   { livestockType: 'goats', dateOfBirth: null },
+ * )
+ * // Returns: 'Dam must be female'
+ * ```
+ */
+export function validateParent(
+  role: 'dam' | 'sire',
+  parent: {
+    sex: AnimalSex
+    livestockType: string
+    dateOfBirth: Date | null
+  },
+  offspring: { livestockType: string; dateOfBirth?: Date | null },
+): string | null {
+  const label = role === 'dam' ? 'Dam' : 'Sire'
+  const expectedSex: AnimalSex = role === 'dam' ? 'female' : 'male'
+
+  if (parent.sex !== expectedSex) {
+    return `${label} must be ${expectedSex}`
+  }
+
+  if (parent.livestockType !== offspring.livestockType) {
+    return `${label} must be the same livestock type`
+  }
+
+  if (
+    parent.dateOfBirth &&
+    offspring.dateOfBirth &&
+    new Date(parent.dateOfBirth).getTime() >= offspring.dateOfBirth.getTime()
+  ) {
+    return `${label} must be born before its offspring`
+  }
+
+  return null
+}
+
+/**
+ * Check that a weight, treatment, vaccination or mortality record can be
+ * attached to an animal
+ *
+ * @param animal - The animal's batch and status
+ * @param batchId - Batch the record is filed under
+ * @returns Validation error message, or null if the record can be attached
+ *
+ * @example
+ * ```ts
+ * validateAnimalAttachment({ batchId: 'b1', status: 'active' }, 'b2')
+ * // Returns: 'Animal is not in this batch'
+ * ```
+ */
+export function validateAnimalAttachment(
+  animal: { batchId: string | null; status: AnimalStatus },
+  batchId: string,
+): string | null {
+  if (animal.status !== 'active') {
+    return 'Animal is no longer active'
+  }
+
+  if (animal.batchId !== batchId) {
+    return 'Animal is not in this batch'
+  }
+
+  return null
+}
+
+/**
+ * Status an animal takes when a mortality record is filed against it
+ *
+ * @param cause - Mortality cause
+ * @returns 'culled' for culling, otherwise 'dead'
+ */
+export function getStatusForMortality(cause: string): AnimalStatus {
+  return cause === 'culling' ? 'culled' : 'dead'
+}
+
+/**
+ * Whether a batch can take another tagged animal without the registry
+ * outgrowing its head count
+ *
+ * @param activeTagged - Active animals already tagged into the batch
+ * @param currentQuantity - Batch head count
+ * @returns True if another animal fits
+ *
+ * @example
+ * ```ts
+ * hasTagCapacity(10, 10) // Returns: false
+ * ```
+ */
+export function hasTagCapacity(
+  activeTagged: number,
+  currentQuantity: number,
+): boolean {
+  return activeTagged < currentQuantity
+}
+
+/**
+ * Age in whole months
+ *
+ * @param dateOfBirth - Birth date, if known
+ * @param asOf - Reference date
+ * @returns Completed months of age, or null when the birth date is unknown
+ *
+ * @example
+ * ```ts
+ * calculateAgeInMonths(new Date('2024-01-15'), new Date('2025-03-14'))
+ * // Returns: 13
+ * ```
+ */
+export function calculateAgeInMonths(
+  dateOfBirth: Date | string | null,
+  asOf: Date = new Date(),
+): number | null {
+  if (!dateOfBirth) return null
+  const born = new Date(dateOfBirth)
+
+  let months =
+    (asOf.getFullYear() - born.getFullYear()) * 12 +
+    (asOf.getMonth() - born.getMonth())
+  if (asOf.getDate() < born.getDate()) months -= 1
+
+  return Math.max(0, months)
+}
+
+/**
+ * Build head counts for the registry. Sex counts only include active
+ * animals.
+ *
+ * @param animals - Registered animals
+ * @returns Totals by status and sex
+ *
+ * @example
+ * ```ts
+ * buildAnimalSummary([
+ *   { sex: 'female', status: 'active' },
+ *   { sex: 'male', status: 'active' },
+ *   { sex: 'female', status: 'sold' },
+ * ])
+ * // Returns: { total: 3, active: 2, males: 1, females: 1, sold: 1, lost: 0 }
+ * ```
+ */
+export function buildAnimalSummary(
+  animals: Array<{ sex: AnimalSex; status: AnimalStatus }>,
+): AnimalSummary {
+  const summary: AnimalSummary = {
+    total: animals.length,
+    active: 0,
+    males: 0,
+    females: 0,
+    sold: 0,
+    lost: 0,
+  }
+
+  for (const animal of animals) {
+    if (animal.status === 'active') {
+      summary.active += 1
+      if (animal.sex === 'male') summary.males += 1
+      else summary.females += 1
+    } else if (animal.status === 'sold') {
+      summary.sold += 1
+    } else {
+      summary.lost += 1
+    }
+  }
+
+  return summary
+}
@@ -0,0 +1,124 @@
+/**
+ * Types for the individual animal registry
+ */
+
+import type { BasePaginatedQuery } from '~/lib/types'
+
+/**
+ * Livestock types kept as individually tagged animals
+ */
+export const TAGGABLE_LIVESTOCK_TYPES = ['cattle', 'goats', 'sheep'] as const
+
+export type AnimalLivestockType = (typeof TAGGABLE_LIVESTOCK_TYPES)[number]
+
+export const ANIMAL_SEXES = ['male', 'female'] as const
+
+export type AnimalSex = (typeof ANIMAL_SEXES)[number]
+
+export const ANIMAL_STATUSES = ['active', 'sold', 'dead', 'culled'] as const
+
+export type AnimalStatus = (typeof ANIMAL_STATUSES)[number]
+
+/**
+ * Search parameters for animals route
+ */
+export interface AnimalSearchParams {
+  page?: number
+  pageSize?: number
+  sortBy?: string
+  sortOrder?: 'asc' | 'desc'
+  search?: string
+  status?: AnimalStatus | 'all'
+}
+
+/**
+ * Batch an animal can be tagged into
+ */
+export interface AnimalBatch {
+  id: string
+  species: string
+  livestockType: string
+  currentQuantity: number
+}
+
+/**
+ * Pen, barn or pasture an animal can be kept in
+ */
+export interface AnimalStructure {
+  id: string
+  name: string
+}
+
+/**
+ * Possible dam or sire for a new animal
+ */
+export interface AnimalParentOption {
+  id: string
+  tagNumber: string
+  name: string | null
+  livestockType: AnimalLivestockType
+  sex: AnimalSex
+  dateOfBirth: Date | null
+}
+
+/**
+ * Head counts across the registry
+ */
+export interface AnimalSummary {
+  total: number
+  active: number
+  males: number
+  females: number
+  sold: number
+  /** Dead and culled */
+  lost: number
+}
+
+/**
+ * Filter parameters for paginated animal queries
+ */
+export interface AnimalQuery extends BasePaginatedQuery {
+  /** Optional filter by batch */
+  batchId?: string
+  /** Optional filter by status */
+  status?: AnimalStatus
+}
+
+/**
+ * Input for registering an animal
+ */
+export interface CreateAnimalInput {
+  /** Ear tag number */
+  tagNumber: string
+  /** Electronic ID */
+  rfid?: string | null
+  name?: string | null
+  livestockType: AnimalLivestockType
+  sex: AnimalSex
+  dateOfBirth?: Date | null
+  /** Batch the animal is counted in, if any */
+  batchId?: string | null
+  /** Mother */
+  damId?: string | null
+  /** Father */
+  sireId?: string | null
+  structureId?: string | null
+  notes?: string | null
+}
+
+/**
+ * Data structure for updating an animal
+ */
+export interface UpdateAnimalInput {
+  tagNumber?: string
+  rfid?: string | null
+  name?: string | null
+  sex?: AnimalSex
+  dateOfBirth?: Date | null
+  batchId?: string | null
+  damId?: string | null
+  sireId?: string | null
+  status?: AnimalStatus
+  structureId?: string | null
+  notes?: string | null
+}
@@ -0,0 +1,203 @@
+import { useState } from 'react'
+import { useNavigate, useRouter } from '@tanstack/react-router'
+import { toast } from 'sonner'
+import { useTranslation } from 'react-i18next'
+import { createAnimalFn, deleteAnimalFn, updateAnimalFn } from './server'
+import type {
+  AnimalSearchParams,
+  CreateAnimalInput,
+  UpdateAnimalInput,
+} from './types'
+import type { AnimalWithDetails } from './repository'
+import type { AnimalRecordInput } from '~/components/animals/animal-record-dialog'
+import { recordMortalityFn } from '~/features/mortality/server'
+import {
+  createTreatmentFn,
+  createVaccinationFn,
+} from '~/features/vaccinations/server'
+import { createWeightSampleFn } from '~/features/weight/server'
+
+interface UseAnimalsPageProps {
+  selectedFarmId: string | null
+  routePath: string
+}
+
+export function useAnimalsPage({
+  selectedFarmId,
+  routePath,
+}: UseAnimalsPageProps) {
+  const { t } = useTranslation(['animals', 'common'])
+  const navigate = useNavigate({ from: routePath as any })
+  const router = useRouter()
+
+  const [selectedAnimal, setSelectedAnimal] =
+    useState<AnimalWithDetails | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const updateSearch = (updates: Partial<AnimalSearchParams>) => {
+    navigate({
+      // @ts-ignore - Type limitation
+      search: (prev: AnimalSearchParams) => ({
+        ...prev,
+        ...updates,
+      }),
+    })
+  }
+
+  const handleAddSubmit = async (data: CreateAnimalInput) => {
+    if (!selectedFarmId) return
+    setIsSubmitting(true)
+    try {
+      await createAnimalFn({
+        data: { farmId: selectedFarmId, animal: data },
+      })
+      toast.success(
+        t('animals:registeredToast', { defaultValue: 'Animal registered' }),
+      )
+      await router.invalidate()
+      return true // Signal success to close dialog
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to register animal',
+      )
+      return false // Signal failure to keep dialog open
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleEditSubmit = async (data: UpdateAnimalInput) => {
+    if (!selectedAnimal) return
+    setIsSubmitting(true)
+    try {
+      await updateAnimalFn({
+        data: { animalId: selectedAnimal.id, data },
+      })
+      toast.success(t('common:updated', { defaultValue: 'Animal updated' }))
+      await router.invalidate()
+      return true // Signal success to close dialog
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to update animal',
+      )
+      return false // Signal failure to keep dialog open
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleDeleteConfirm = async () => {
+    if (!selectedAnimal) return
+    setIsSubmitting(true)
+    try {
+      await deleteAnimalFn({ data: { animalId: selectedAnimal.id } })
+      toast.success(t('common:deleted', { defaultValue: 'Animal deleted' }))
+      await router.invalidate()
+      return true // Signal success to close dialog
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to delete animal',
+      )
+      return false // Signal failure to keep dialog open
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  /**
+   * Files a weight, vaccination, treatment or death against one animal,
+   * under the animal's batch
+   */
+  const handleRecordSubmit = async (
+    animal: { id: string; farmId: string; batchId: string | null },
+    input: AnimalRecordInput,
+  ) => {
+    if (!animal.batchId) return false
+    const base = { batchId: animal.batchId, animalId: animal.id }
+    setIsSubmitting(true)
+    try {
+      switch (input.kind) {
+        case 'weight':
+          await createWeightSampleFn({
+            data: {
+              farmId: animal.farmId,
+              data: {
+                ...base,
+                date: input.date,
+                sampleSize: 1,
+                averageWeightKg: input.weightKg,
+                notes: input.notes,
+              },
+            },
+          })
+          break
+        case 'vaccination':
+          await createVaccinationFn({
+            data: {
+              farmId: animal.farmId,
+              data: {
+                ...base,
+                vaccineName: input.name,
+                dateAdministered: input.date,
+                dosage: input.dosage,
+                nextDueDate: input.nextDueDate,
+                notes: input.notes,
+              },
+            },
+          })
+          break
+        case 'treatment':
+          await createTreatmentFn({
+            data: {
+              farmId: animal.farmId,
+              data: {
+                ...base,
+                medicationName: input.name,
+                reason: input.reason,
+                date: input.date,
+                dosage: input.dosage,
+                withdrawalDays: input.withdrawalDays,
+                notes: input.notes,
+              },
+            },
+          })
+          break
+        case 'death':
+          await recordMortalityFn({
+            data: {
+              farmId: animal.farmId,
+              data: {
+                ...base,
+                quantity: 1,
+                date: input.date,
+                cause: input.cause,
+                notes: input.notes,
+              },
+            },
+          })
+          break
+      }
+      toast.success(t('animals:recordSaved', { defaultValue: 'Record saved' }))
+      await router.invalidate()
+      return true
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to save record',
+      )
+      return false
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return {
+    selectedAnimal,
+    setSelectedAnimal,
+    isSubmitting,
+    updateSearch,
+    handleAddSubmit,
+    handleEditSubmit,
+    handleDeleteConfirm,
+    handleRecordSubmit,
+  }
+}
@@ -0,0 +1,35 @@
+import { ANIMAL_STATUSES } from './types'
+import type { AnimalSearchParams, AnimalStatus } from './types'
+
+export function validateAnimalSearch(
+  search: Record<string, unknown>,
+): AnimalSearchParams {
+  const validSortBy = [
+    'tagNumber',
+    'name',
+    'dateOfBirth',
+    'status',
+    'createdAt',
+  ] as const
+
+  return {
+    page: Number(search.page) || 1,
+    pageSize: Number(search.pageSize) || 10,
+    sortBy:
+      typeof search.sortBy === 'string' &&
+      (validSortBy as ReadonlyArray<string>).includes(search.sortBy)
+        ? search.sortBy
+        : 'tagNumber',
+    sortOrder:
+      typeof search.sortOrder === 'string' &&
+      (search.sortOrder === 'asc' || search.sortOrder === 'desc')
+        ? search.sortOrder
+        : 'asc',
+    search: typeof search.search === 'string' ? search.search : '',
+    status:
+      typeof search.status === 'string' &&
+      (ANIMAL_STATUSES as ReadonlyArray<string>).includes(search.status)
+        ? (search.status as AnimalStatus)
+        : 'all',
+  }
+}
@@ -0,0 +1,538 @@
+/**
+ * Database operations for apiary management.
+ * All functions are pure data access - no business logic.
+ */
+
+import { sql } from 'kysely'
+import type { Kysely } from 'kysely'
+import type { BroodPattern, HiveHarvestProduct, HiveTemperament } from './types'
+import type { Database } from '~/lib/db/types'
+import type { BasePaginatedQuery, PaginatedResult } from '~/lib/types'
+
+/**
+ * Data for inserting a new hive inspection
+ */
+export interface HiveInspectionInsert {
+  structureId: string
+  date: Date
+  queenSeen: boolean
+  broodPattern: BroodPattern
+  swarmCells: number
+  varroaCount: number | null
+  framesOfBees: number | null
+  temperament: HiveTemperament | null
+  notes: string | null
+}
+
+/**
+ * Data for updating a hive inspection
+ */
+export type HiveInspectionUpdate = Partial<HiveInspectionInsert>
+
+/**
+ * Data for inserting a new hive harvest
+ */
+export interface HiveHarvestInsert {
+  structureId: string
+  date: Date
+  product: HiveHarvestProduct
+  quantityKg: string
+  framesHarvested: number | null
+  notes: string | null
+}
+
+/**
+ * Data for updating a hive harvest
+ */
+export type HiveHarvestUpdate = Partial<HiveHarvestInsert>
+
+/**
+ * Hive inspection with hive and farm information
+ */
+export interface HiveInspectionWithDetails {
+  id: string
+  structureId: string
+  date: Date
+  queenSeen: boolean
+  broodPattern: BroodPattern
+  swarmCells: number
+  varroaCount: number | null
+  framesOfBees: number | null
+  temperament: HiveTemperament | null
+  notes: string | null
+  createdAt: Date
+  hiveName: string
+  farmId: string
+  farmName: string
+}
+
+/**
+ * Hive harvest with hive and farm information
+ */
+export interface HiveHarvestWithDetails {
+  id: string
+  structureId: string
+  date: Date
+  product: HiveHarvestProduct
+  quantityKg: string
+  framesHarvested: number | null
+  notes: string | null
+  createdAt: Date
+  hiveName: string
+  farmId: string
+  farmName: string
+}
+
+/**
+ * Filters for apiary record queries
+ */
+export interface ApiaryRecordFilters extends BasePaginatedQuery {
+  structureId?: string
+}
+
+const INSPECTION_COLUMNS = [
+  'hive_inspections.id',
+  'hive_inspections.structureId',
+  'hive_inspections.date',
+  'hive_inspections.queenSeen',
+  'hive_inspections.broodPattern',
+  'hive_inspections.swarmCells',
+  'hive_inspections.varroaCount',
+  'hive_inspections.framesOfBees',
+  'hive_inspections.temperament',
+  'hive_inspections.notes',
+  'hive_inspections.createdAt',
+  'structures.name as hiveName',
+  'structures.farmId',
+  'farms.name as farmName',
+] as const
+
+const HARVEST_COLUMNS = [
+  'hive_harvests.id',
+  'hive_harvests.structureId',
+  'hive_harvests.date',
+  'hive_harvests.product',
+  'hive_harvests.quantityKg',
+  'hive_harvests.framesHarvested',
+  'hive_harvests.notes',
+  'hive_harvests.createdAt',
+  'structures.name as hiveName',
+  'structures.farmId',
+  'farms.name as farmName',
+] as const
+
+/**
+ * Resolve a validated sort column to prevent SQL injection
+ */
+function getSortColumn(
+  table: 'hive_inspections' | 'hive_harvests',
+  sortBy?: string,
+): string {
+  const allowedCols: Record<string, string> = {
+    date: `${table}.date`,
+    createdAt: `${table}.createdAt`,
+    hiveName: 'structures.name',
+  }
+  const sortCol = (sortBy && allowedCols[sortBy]) || `${table}.date`
+  return `"${sortCol.replace('.', '"."')}"`
+}
+
+/**
+ * Insert a new hive inspection
+ *
+ * @param db - Kysely database instance
+ * @param data - Inspection data to insert
+ * @returns The ID of the created inspection
+ */
+export async function insertHiveInspection(
+  db: Kysely<Database>,
+  data: HiveInspectionInsert,
+): Promise<string> {
+  const result = await db
+    .insertInto('hive_inspections')
+    .values(data)
+    .returning('id')
+    .executeTakeFirstOrThrow()
+  return result.id
+}
+
+/**
+ * Get a single hive inspection by ID
+ *
+ * @param db - Kysely database instance
+ * @param inspectionId - ID of the inspection to retrieve
+ * @returns The inspection with hive and farm details, or null if not found
+ */
+export async function getHiveInspectionById(
+  db: Kysely<Database>,
+  inspectionId: string,
+): Promise<HiveInspectionWithDetails | null> {
+  const inspection = await db
+    .selectFrom('hive_inspections')
+    .innerJoin('structures', 'structures.id', 'hive_inspections.structureId')
+    .innerJoin('farms', 'farms.id', 'structures.farmId')
+    .select(INSPECTION_COLUMNS)
+    .where('hive_inspections.id', '=', inspectionId)
+    .executeTakeFirst()
+
+  return inspection ?? null
+}
+
+/**
+ * Update a hive inspection
+ *
+ * @param db - Kysely database instance
+ * @param inspectionId - ID of the inspection to update
+ * @param data - Fields to update
+ */
+export async function updateHiveInspection(
+  db: Kysely<Database>,
+  inspectionId: string,
+  data: HiveInspectionUpdate,
+): Promise<void> {
+  await db
+    .updateTable('hive_inspections')
+    .set(data)
+    .where('id', '=', inspectionId)
+    .execute()
+}
+
+/**
+ * Delete a hive inspection
+ *
+ * @param db - Kysely database instance
+ * @param inspectionId - ID of the inspection to delete
+ */
+export async function deleteHiveInspection(
+  db: Kysely<Database>,
+  inspectionId: string,
+): Promise<void> {
+  await db
+    .deleteFrom('hive_inspections')
+    .where('id', '=', inspectionId)
+    .execute()
+}
+
+/**
+ * Get paginated hive inspections for a set of farms
+ *
+ * @param db - Kysely database instance
+ * @param farmIds - Array of farm IDs the user has access to
+ * @param filters - Pagination and filter options
+ * @returns Paginated result set
+ */
+export async function getHiveInspectionsPaginated(
+  db: Kysely<Database>,
+  farmIds: Array<string>,
+  filters: ApiaryRecordFilters = {},
+): Promise<PaginatedResult<HiveInspectionWithDetails>> {
+  const page = filters.page || 1
+  const pageSize = filters.pageSize || 10
+  const offset = (page - 1) * pageSize
+
+  if (farmIds.length === 0) {
+    return { data: [], total: 0, page, pageSize, totalPages: 0 }
+  }
+
+  let baseQuery = db
+    .selectFrom('hive_inspections')
+    .innerJoin('structures', 'structures.id', 'hive_inspections.structureId')
+    .innerJoin('farms', 'farms.id', 'structures.farmId')
+    .where('structures.farmId', 'in', farmIds)
+
+  if (filters.search) {
+    baseQuery = baseQuery.where(
+      'structures.name',
+      'ilike',
+      `%${filters.search.toLowerCase()}%`,
+    )
+  }
+
+  if (filters.structureId) {
+    baseQuery = baseQuery.where(
+      'hive_inspections.structureId',
+      '=',
+      filters.structureId,
+    )
+  }
+
+  const countResult = await baseQuery
+    .select((eb) => [eb.fn.count<number>('hive_inspections.id').as('count')])
+    .executeTakeFirst()
+
+  const total = Number(countResult?.count || 0)
+  const totalPages = Math.ceil(total / pageSize)
+
+  const data = await baseQuery
+    .select(INSPECTION_COLUMNS)
+    .orderBy(
+      sql.raw(getSortColumn('hive_inspections', filters.sortBy)),
+      filters.sortOrder || 'desc',
+    )
+    .limit(pageSize)
+    .offset(offset)
+    .execute()
+
+  return { data, total, page, pageSize, totalPages }
+}
+
+/**
+ * Insert a new hive harvest
+ *
+ * @param db - Kysely database instance
+ * @param data - Harvest data to insert
+ * @returns The ID of the created harvest
+ */
+export async function insertHiveHarvest(
+  db: Kysely<Database>,
+  data: HiveHarvestInsert,
+): Promise<string> {
+  const result = await db
+    .insertInto('hive_harvests')
+    .values(data)
+    .returning('id')
+    .executeTakeFirstOrThrow()
+  return result.id
+}
+
+/**
+ * Get a single hive harvest by ID
+ *
+ * @param db - Kysely database instance
+ * @param harvestId - ID of the harvest to retrieve
+ * @returns The harvest with hive and farm details, or null if not found
+ */
+export async function getHiveHarvestById(
+  db: Kysely<Database>,
+  harvestId: string,
+): Promise<HiveHarvestWithDetails | null> {
+  const harvest = await db
+    .selectFrom('hive_harvests')
+    .innerJoin('structures', 'structures.id', 'hive_harvests.structureId')
+    .innerJoin('farms', 'farms.id', 'structures.farmId')
+    .select(HARVEST_COLUMNS)
+    .where('hive_harvests.id', '=', harvestId)
+    .executeTakeFirst()
+
+  return harvest ?? null
+}
+
+/**
+ * Update a hive harvest
+ *
+ * @param db - Kysely database instance
+ * @param harvestId - ID of the harvest to update
+ * @param data - Fields to update
+ */
+export async function updateHiveHarvest(
+  db: Kysely<Database>,
+  harvestId: string,
+  data: HiveHarvestUpdate,
+): Promise<void> {
+  await db
+    .updateTable('hive_harvests')
+    .set(data)
+    .where('id', '=', harvestId)
+    .execute()
+}
+
+/**
+ * Delete a hive harvest
+ *
+ * @param db - Kysely database instance
+ * @param harvestId - ID of the harvest to delete
+ */
+export async function deleteHiveHarvest(
+  db: Kysely<Database>,
+  harvestId: string,
+): Promise<void> {
+  await db.deleteFrom('hive_harvests').where('id', '=', harvestId).execute()
+}
+
+/**
+ * Get paginated hive harvests for a set of farms
+ *
+ * @param db - Kysely database instance
+ * @param farmIds - Array of farm IDs the user has access to
+ * @param filters - Pagination and filter options
+ * @returns Paginated result set
+ */
+export async function getHiveHarvestsPaginated(
+  db: Kysely<Database>,
+  farmIds: Array<string>,
+  filters: ApiaryRecordFilters = {},
+): Promise<PaginatedResult<HiveHarvestWithDetails>> {
+  const page = filters.page || 1
+  const pageSize = filters.pageSize || 10
+  const offset = (page - 1) * pageSize
+
+  if (farmIds.length === 0) {
+    return { data: [], total: 0, page, pageSize, totalPages: 0 }
+  }
+
+  let baseQuery = db
+    .selectFrom('hive_harvests')
+    .innerJoin('structures', 'structures.id', 'hive_harvests.structureId')
+    .innerJoin('farms', 'farms.id', 'structures.farmId')
+    .where('structures.farmId', 'in', farmIds)
+
+  if (filters.search) {
+    baseQuery = baseQuery.where(
+      'structures.name',
+      'ilike',
+      `%${filters.search.toLowerCase()}%`,
+    )
+  }
+
+  if (filters.structureId) {
+    baseQuery = baseQuery.where(
+      'hive_harvests.structureId',
+      '=',
+      filters.structureId,
+    )
+  }
+
+  const countResult = await baseQuery
+    .select((eb) => [eb.fn.count<number>('hive_harvests.id').as('count')])
+    .executeTakeFirst()
+
+  const total = Number(countResult?.count || 0)
+  const totalPages = Math.ceil(total / pageSize)
+
+  const data = await baseQuery
+    .select(HARVEST_COLUMNS)
+    .orderBy(
+      sql.raw(getSortColumn('hive_harvests', filters.sortBy)),
+      filters.sortOrder || 'desc',
+    )
+    .limit(pageSize)
+    .offset(offset)
+    .execute()
+
+  return { data, total, page, pageSize, totalPages }
+}
+
+/**
+ * Get a hive structure, verifying it belongs to the farm
+ *
+ * @param db - Kysely database instance
+ * @param structureId - Structure ID to check
+ * @param farmId - Farm ID for verification
+ * @returns Structure data if found, null otherwise
+ */
+export async function getHiveStructure(
+  db: Kysely<Database>,
+  structureId: string,
+  farmId: string,
+): Promise<{ id: string; farmId: string; type: string } | null> {
+  const structure = await db
+    .selectFrom('structures')
+    .select(['id', 'farmId', 'type'])
+    .where('id', '=', structureId)
+    .where('farmId', '=', farmId)
+    .where('deletedAt', 'is', null)
+    .executeTakeFirst()
+
+  return structure ?? null
+}
+
+/**
+ * Get the hive structures of a set of farms
+ *
+ * @param db - Kysely database instance
+ * @param farmIds - Farm IDs to include
+ * @returns Hives ordered by name
+ */
+export async function getHives(
+  db: Kysely<Database>,
+  farmIds: Array<string>,
+): Promise<Array<{ id: string; name: string; status: string }>> {
+  if (farmIds.length === 0) return []
+
+  return await db
+    .selectFrom('structures')
+    .select(['id', 'name', 'status'])
+    .where('farmId', 'in', farmIds)
+    .where('type', '=', 'hive')
+    .where('deletedAt', 'is', null)
+    .orderBy('name', 'asc')
+    .execute()
+}
+
+/**
+ * Get harvested weight per product for a set of farms
+ *
+ * @param db - Kysely database instance
+ * @param farmIds - Farm IDs to include
+ * @returns One row per harvested product
+ */
+export async function getHarvestTotalsByProduct(
+  db: Kysely<Database>,
+  farmIds: Array<string>,
+): Promise<Array<{ product: HiveHarvestProduct; quantityKg: string }>> {
+  if (farmIds.length === 0) return []
+
+  return await db
+    .selectFrom('hive_harvests')
+    .innerJoin('structures', 'structures.id', 'hive_harvests.structureId')
+    .select((eb) => [
+      'hive_harvests.product',
+      eb.fn.sum<string>('hive_harvests.quantityKg').as('quantityKg'),
+    ])
+    .where('structures.farmId', 'in', farmIds)
+    .groupBy('hive_harvests.product')
+    .execute()
+}
+
+/**
+ * Get the most recent inspection of every hive, plus the total count
+ *
+ * @param db - Kysely database instance
+ * @param farmIds - Farm IDs to include
+ * @returns Latest inspection per hive and the number of inspections
+ */
+export async function getLatestInspections(
+  db: Kysely<Database>,
+  farmIds: Array<string>,
+): Promise<{
+  latest: Array<{
+    structureId: string
+    date: Date
+    queenSeen: boolean
+    broodPattern: BroodPattern
+    swarmCells: number
+    varroaCount: number | null
+  }>
+  count: number
+}> {
+  if (farmIds.length === 0) return { latest: [], count: 0 }
+
+  const [latest, countResult] = await Promise.all([
+    db
+      .selectFrom('hive_inspections')
+      .innerJoin('structures', 'structures.id', 'hive_inspections.structureId')
+      .distinctOn('hive_inspections.structureId')
+      .select([
+        'hive_inspections.structureId',
+        'hive_inspections.date',
+        'hive_inspections.queenSeen',
+        'hive_inspections.broodPattern',
+        'hive_inspections.swarmCells',
+        'hive_inspections.varroaCount',
+      ])
+      .where('structures.farmId', 'in', farmIds)
+      .where('structures.deletedAt', 'is', null)
+      .orderBy('hive_inspections.structureId')
+      .orderBy('hive_inspections.date', 'desc')
+      .orderBy('hive_inspections.createdAt', 'desc')
+      .execute(),
+    db
+      .selectFrom('hive_inspections')
+      .innerJoin('structures', 'structures.id', 'hive_inspections.structureId')
+      .select((eb) => eb.fn.count<number>('hive_inspections.id').as('count'))
+      .where('structures.farmId', 'in', farmIds)
+      .executeTakeFirst(),
+  ])
+
+  return { latest, count: Number(countResult?.count || 0) }
+}
@@ -0,0 +1,668 @@
+import { createServerFn } from '@tanstack/react-start'
+import { z } from 'zod'
+import {
+  buildApiarySummary,
+  validateHarvestData,
+  validateHarvestUpdate,
+  validateInspectionData,
+  validateInspectionUpdate,
+} from './service'
+import {
+  deleteHiveHarvest as deleteHiveHarvestFromDb,
+  deleteHiveInspection as deleteHiveInspectionFromDb,
+  getHarvestTotalsByProduct,
+  getHiveHarvestById,
+  getHiveHarvestsPaginated as getHiveHarvestsPaginatedFromDb,
+  getHiveInspectionById,
+  getHiveInspectionsPaginated as getHiveInspectionsPaginatedFromDb,
+  getHiveStructure,
+  getHives,
+  getLatestInspections,
+  insertHiveHarvest,
+  insertHiveInspection,
+  updateHiveHarvest as updateHiveHarvestInDb,
+  updateHiveInspection as updateHiveInspectionInDb,
+} from './repository'
+import {
+  BROOD_PATTERNS,
+  HIVE_HARVEST_PRODUCTS,
+  HIVE_TEMPERAMENTS,
+} from './types'
+import type { HiveHarvestUpdate, HiveInspectionUpdate } from './repository'
+import type {
+  ApiaryHive,
+  ApiaryQuery,
+  ApiarySummary,
+  CreateHiveHarvestInput,
+  CreateHiveInspectionInput,
+  UpdateHiveHarvestInput,
+  UpdateHiveInspectionInput,
+} from './types'
+import type { Kysely } from 'kysely'
+import type { Database } from '~/lib/db/types'
+import type { PaginatedResult } from '~/lib/types'
+import { AppError } from '~/lib/errors'
+
+export type {
+  PaginatedResult,
+  CreateHiveHarvestInput,
+  CreateHiveInspectionInput,
+  UpdateHiveHarvestInput,
+  UpdateHiveInspectionInput,
+}
+
+const EMPTY_SUMMARY: ApiarySummary = {
+  colonyCount: 0,
+  inspectionCount: 0,
+  honeyKg: 0,
+  waxKg: 0,
+  honeyPerColony: 0,
+  hivesNeedingAttention: 0,
+}
+
+const inspectionSchema = z.object({
+  queenSeen: z.boolean(),
+  broodPattern: z.enum(BROOD_PATTERNS),
+  swarmCells: z.number().int().nonnegative(),
+  varroaCount: z.number().int().nonnegative().nullish(),
+  framesOfBees: z.number().int().nonnegative().nullish(),
+  temperament: z.enum(HIVE_TEMPERAMENTS).nullish(),
+  notes: z.string().max(500).nullish(),
+})
+
+const harvestSchema = z.object({
+  product: z.enum(HIVE_HARVEST_PRODUCTS),
+  quantityKg: z.number().positive(),
+  framesHarvested: z.number().int().nonnegative().nullish(),
+  notes: z.string().max(500).nullish(),
+})
+
+/**
+ * Resolve the farms a user may read apiary data for
+ */
+async function resolveFarmIds(
+  userId: string,
+  farmId?: string,
+): Promise<Array<string>> {
+  const { checkFarmAccess, getUserFarms } =
+    await import('~/features/auth/utils')
+
+  if (farmId) {
+    const hasAccess = await checkFarmAccess(userId, farmId)
+    if (!hasAccess) {
+      throw new AppError('ACCESS_DENIED', { metadata: { farmId } })
+    }
+    return [farmId]
+  }
+
+  return getUserFarms(userId)
+}
+
+/**
+ * Ensure the structure exists on the farm and is a hive
+ */
+async function assertHive(
+  db: Kysely<Database>,
+  structureId: string,
+  farmId: string,
+): Promise<void> {
+  const structure = await getHiveStructure(db, structureId, farmId)
+
+  if (!structure) {
+    throw new AppError('STRUCTURE_NOT_FOUND', {
+      metadata: { structureId, farmId },
+    })
+  }
+
+  if (structure.type !== 'hive') {
+    throw new AppError('VALIDATION_ERROR', {
+      message: 'Inspections and harvests can only be recorded for hives',
+    })
+  }
+}
+
+/**
+ * Records an inspection of a hive.
+ *
+ * @param userId - ID of the user performing the action
+ * @param farmId - ID of the farm owning the hive
+ * @param input - Queen, brood, swarm cell and varroa observations
+ * @returns Promise resolving to the new inspection ID
+ * @throws {AppError} If the structure is not found or is not a hive
+ */
+export async function createHiveInspection(
+  userId: string,
+  farmId: string,
+  input: CreateHiveInspectionInput,
+): Promise<string> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { verifyFarmAccess } = await import('~/features/auth/utils')
+
+  try {
+    await verifyFarmAccess(userId, farmId)
+
+    const validationError = validateInspectionData(input)
+    if (validationError) {
+      throw new AppError('VALIDATION_ERROR', {
+        metadata: { error: validationError },
+      })
+    }
+
+    await assertHive(db, input.structureId, farmId)
+
+    return await insertHiveInspection(db, {
+      structureId: input.structureId,
+      date: input.date,
+      queenSeen: input.queenSeen,
+      broodPattern: input.broodPattern,
+      swarmCells: input.swarmCells,
+      varroaCount: input.varroaCount ?? null,
+      framesOfBees: input.framesOfBees ?? null,
+      temperament: input.temperament ?? null,
+      notes: input.notes || null,
+    })
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to create hive inspection',
+      cause: error,
+    })
+  }
+}
+
+export const createHiveInspectionFn = createServerFn({ method: 'POST' })
+  .inputValidator(
+    z.object({
+      farmId: z.string().uuid(),
+      inspection: inspectionSchema.extend({
+        structureId: z.string().uuid(),
+        date: z.coerce.date(),
+      }),
+    }),
+  )
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+    return createHiveInspection(session.user.id, data.farmId, data.inspection)
+  })
+
+/**
+ * Updates an existing hive inspection.
+ *
+ * @param userId - ID of the user performing the update
+ * @param inspectionId - ID of the inspection to update
+ * @param data - Partial update parameters
+ * @returns Promise resolving to true on success
+ */
+export async function updateHiveInspection(
+  userId: string,
+  inspectionId: string,
+  data: UpdateHiveInspectionInput,
+): Promise<boolean> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { getUserFarms } = await import('~/features/auth/utils')
+
+  try {
+    const validationError = validateInspectionUpdate(data)
+    if (validationError) {
+      throw new AppError('VALIDATION_ERROR', {
+        metadata: { error: validationError },
+      })
+    }
+
+    const userFarms = await getUserFarms(userId)
+    const inspection = await getHiveInspectionById(db, inspectionId)
+
+    if (!inspection) {
+      throw new AppError('HIVE_INSPECTION_NOT_FOUND', {
+        metadata: { resource: 'HiveInspection', id: inspectionId },
+      })
+    }
+
+    if (!userFarms.includes(inspection.farmId)) {
+      throw new AppError('ACCESS_DENIED', {
+        metadata: { farmId: inspection.farmId },
+      })
+    }
+
+    const update: HiveInspectionUpdate = {}
+    if (data.date !== undefined) update.date = data.date
+    if (data.queenSeen !== undefined) update.queenSeen = data.queenSeen
+    if (data.broodPattern !== undefined) update.broodPattern = data.broodPattern
+    if (data.swarmCells !== undefined) update.swarmCells = data.swarmCells
+    if (data.varroaCount !== undefined) update.varroaCount = data.varroaCount
+    if (data.framesOfBees !== undefined) update.framesOfBees = data.framesOfBees
+    if (data.temperament !== undefined) update.temperament = data.temperament
+    if (data.notes !== undefined) update.notes = data.notes || null
+
+    await updateHiveInspectionInDb(db, inspectionId, update)
+
+    return true
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to update hive inspection',
+      cause: error,
+    })
+  }
+}
+
+export const updateHiveInspectionFn = createServerFn({ method: 'POST' })
+  .inputValidator(
+    z.object({
+      inspectionId: z.string().uuid(),
+      data: inspectionSchema.partial().extend({
+        date: z.coerce.date().optional(),
+      }),
+    }),
+  )
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+    return updateHiveInspection(session.user.id, data.inspectionId, data.data)
+  })
+
+/**
+ * Delete a hive inspection
+ *
+ * @param userId - ID of the user performing the action
+ * @param inspectionId - ID of the inspection to delete
+ */
+export async function deleteHiveInspection(
+  userId: string,
+  inspectionId: string,
+): Promise<void> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { getUserFarms } = await import('~/features/auth/utils')
+
+  try {
+    const userFarms = await getUserFarms(userId)
+    const inspection = await getHiveInspectionById(db, inspectionId)
+
+    if (!inspection) {
+      throw new AppError('HIVE_INSPECTION_NOT_FOUND', {
+        metadata: { resource: 'HiveInspection', id: inspectionId },
+      })
+    }
+
+    if (!userFarms.includes(inspection.farmId)) {
+      throw new AppError('ACCESS_DENIED', {
+        metadata: { farmId: inspection.farmId },
+      })
+    }
+
+    await deleteHiveInspectionFromDb(db, inspectionId)
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to delete hive inspection',
+      cause: error,
+    })
+  }
+}
+
+export const deleteHiveInspectionFn = createServerFn({ method: 'POST' })
+  .inputValidator(z.object({ inspectionId: z.string().uuid() }))
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+    return deleteHiveInspection(session.user.id, data.inspectionId)
+  })
+
+/**
+ * Records a honey or wax harvest from a hive.
+ *
+ * @param userId - ID of the user performing the action
+ * @param farmId - ID of the farm owning the hive
+ * @param input - Product and weight harvested
+ * @returns Promise resolving to the new harvest ID
+ * @throws {AppError} If the structure is not found or is not a hive
+ */
+export async function createHiveHarvest(
+  userId: string,
+  farmId: string,
+  input: CreateHiveHarvestInput,
+): Promise<string> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { verifyFarmAccess } = await import('~/features/auth/utils')
+
+  try {
+    await verifyFarmAccess(userId, farmId)
+
+    const validationError = validateHarvestData(input)
+    if (validationError) {
+      throw new AppError('VALIDATION_ERROR', {
+        metadata: { error: validationError },
+      })
+    }
+
+    await assertHive(db, input.structureId, farmId)
+
+    return await insertHiveHarvest(db, {
+      structureId: input.structureId,
+      date: input.date,
+      product: input.product,
+      quantityKg: input.quantityKg.toFixed(2),
+      framesHarvested: input.framesHarvested ?? null,
+      notes: input.notes || null,
+    })
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to create hive harvest',
+      cause: error,
+    })
+  }
+}
+
+export const createHiveHarvestFn = createServerFn({ method: 'POST' })
+  .inputValidator(
+    z.object({
+      farmId: z.string().uuid(),
+      harvest: harvestSchema.extend({
+        structureId: z.string().uuid(),
+        date: z.coerce.date(),
+      }),
+    }),
+  )
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+    return createHiveHarvest(session.user.id, data.farmId, data.harvest)
+  })
+
+/**
+ * Updates an existing hive harvest.
+ *
+ * @param userId - ID of the user performing the update
+ * @param harvestId - ID of the harvest to update
+ * @param data - Partial update parameters
+ * @returns Promise resolving to true on success
+ */
+export async function updateHiveHarvest(
+  userId: string,
+  harvestId: string,
+  data: UpdateHiveHarvestInput,
+): Promise<boolean> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { getUserFarms } = await import('~/features/auth/utils')
+
+  try {
+    const validationError = validateHarvestUpdate(data)
+    if (validationError) {
+      throw new AppError('VALIDATION_ERROR', {
+        metadata: { error: validationError },
+      })
+    }
+
+    const userFarms = await getUserFarms(userId)
+    const harvest = await getHiveHarvestById(db, harvestId)
+
+    if (!harvest) {
+      throw new AppError('HIVE_HARVEST_NOT_FOUND', {
+        metadata: { resource: 'HiveHarvest', id: harvestId },
+      })
+    }
+
+    if (!userFarms.includes(harvest.farmId)) {
+      throw new AppError('ACCESS_DENIED', {
+        metadata: { farmId: harvest.farmId },
+      })
+    }
+
+    const update: HiveHarvestUpdate = {}
+    if (data.date !== undefined) update.date = data.date
+    if (data.product !== undefined) update.product = data.product
+    if (data.quantityKg !== undefined)
+      update.quantityKg = data.quantityKg.toFixed(2)
+    if (data.framesHarvested !== undefined)
+      update.framesHarvested = data.framesHarvested
+    if (data.notes !== undefined) update.notes = data.notes || null
+
+    await updateHiveHarvestInDb(db, harvestId, update)
+
+    return true
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to update hive harvest',
+      cause: error,
+    })
+  }
+}
+
+export const updateHiveHarvestFn = createServerFn({ method: 'POST' })
+  .inputValidator(
+    z.object({
+      harvestId: z.string().uuid(),
+      data: harvestSchema.partial().extend({
+        date: z.coerce.date().optional(),
+      }),
+    }),
+  )
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+    return updateHiveHarvest(session.user.id, data.harvestId, data.data)
+  })
+
+/**
+ * Delete a hive harvest
+ *
+ * @param userId - ID of the user performing the action
+ * @param harvestId - ID of the harvest to delete
+ */
+export async function deleteHiveHarvest(
+  userId: string,
+  harvestId: string,
+): Promise<void> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { getUserFarms } = await import('~/features/auth/utils')
+
+  try {
+    const userFarms = await getUserFarms(userId)
+    const harvest = await getHiveHarvestById(db, harvestId)
+
+    if (!harvest) {
+      throw new AppError('HIVE_HARVEST_NOT_FOUND', {
+        metadata: { resource: 'HiveHarvest', id: harvestId },
+      })
+    }
+
+    if (!userFarms.includes(harvest.farmId)) {
+      throw new AppError('ACCESS_DENIED', {
+        metadata: { farmId: harvest.farmId },
+      })
+    }
+
+    await deleteHiveHarvestFromDb(db, harvestId)
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to delete hive harvest',
+      cause: error,
+    })
+  }
+}
+
+export const deleteHiveHarvestFn = createServerFn({ method: 'POST' })
+  .inputValidator(z.object({ harvestId: z.string().uuid() }))
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+    return deleteHiveHarvest(session.user.id, data.harvestId)
+  })
+
+/**
+ * Retrieves a filtered and sorted page of hive inspections.
+ *
+ * @param userId - ID of the requesting user
+ * @param query - Sorting, search and pagination params
+ * @returns Paginated inspections with hive and farm details
+ */
+export async function getHiveInspectionsPaginated(
+  userId: string,
+  query: ApiaryQuery = {},
+) {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+
+  try {
+    const farmIds = await resolveFarmIds(userId, query.farmId)
+    return await getHiveInspectionsPaginatedFromDb(db, farmIds, query)
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to fetch paginated hive inspections',
+      cause: error,
+    })
+  }
+}
+
+/**
+ * Retrieves a filtered and sorted page of hive harvests.
+ *
+ * @param userId - ID of the requesting user
+ * @param query - Sorting, search and pagination params
+ * @returns Paginated harvests with hive and farm details
+ */
+export async function getHiveHarvestsPaginated(
+  userId: string,
+  query: ApiaryQuery = {},
+) {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+
+  try {
+    const farmIds = await resolveFarmIds(userId, query.farmId)
+    return await getHiveHarvestsPaginatedFromDb(db, farmIds, query)
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to fetch paginated hive harvests',
+      cause: error,
+    })
+  }
+}
+
+/**
+ * Aggregates colonies, honey and wax harvested, yield per colony and the
+ * hives whose latest inspection needs follow-up.
+ *
+ * @param userId - ID of the requesting user
+ * @param farmId - Optional farm filter
+ * @returns Apiary summary metrics
+ */
+export async function getApiarySummary(
+  userId: string,
+  farmId?: string,
+): Promise<ApiarySummary> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+
+  try {
+    const farmIds = await resolveFarmIds(userId, farmId)
+    if (farmIds.length === 0) return EMPTY_SUMMARY
+
+    const [hives, harvests, inspections] = await Promise.all([
+      getHives(db, farmIds),
+      getHarvestTotalsByProduct(db, farmIds),
+      getLatestInspections(db, farmIds),
+    ])
+
+    return buildApiarySummary(
+      hives.filter((hive) => hive.status === 'active').length,
+      harvests,
+      inspections.latest,
+      inspections.count,
+    )
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to fetch apiary summary',
+      cause: error,
+    })
+  }
+}
+
+/**
+ * Hive structures of a farm, for the inspection and harvest forms.
+ *
+ * @param userId - ID of the requesting user
+ * @param farmId - Farm to list hives for
+ * @returns Hives ordered by name
+ */
+export async function getHivesForApiary(
+  userId: string,
+  farmId: string,
+): Promise<Array<ApiaryHive>> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { verifyFarmAccess } = await import('~/features/auth/utils')
+
+  try {
+    await verifyFarmAccess(userId, farmId)
+    return await getHives(db, [farmId])
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to fetch hives',
+      cause: error,
+    })
+  }
+}
+
+/**
+ * Server function to get all apiary data for a farm (the selected record
+ * list, summary, and hives)
+ */
+export const getApiaryDataForFarmFn = createServerFn({ method: 'GET' })
+  .inputValidator(
+    z.object({
+      farmId: z.string().uuid().nullish(),
+      view: z.enum(['inspections', 'harvests']).optional(),
+      page: z.number().int().positive().optional(),
+      pageSize: z.number().int().positive().max(100).optional(),
+      sortBy: z.string().optional(),
+      sortOrder: z.enum(['asc', 'desc']).optional(),
+      search: z.string().optional(),
+    }),
+  )
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+
+    const session = await requireAuth()
+    const farmId = data.farmId || undefined
+    const query: ApiaryQuery = {
+      farmId,
+      page: data.page,
+      pageSize: data.pageSize,
+      sortBy: data.sortBy,
+      sortOrder: data.sortOrder,
+      search: data.search,
+    }
+
+    const [inspections, harvests, summary, hives] = await Promise.all([
+      data.view === 'harvests'
+        ? Promise.resolve(null)
+        : getHiveInspectionsPaginated(session.user.id, query),
+      data.view === 'harvests'
+        ? getHiveHarvestsPaginated(session.user.id, query)
+        : Promise.resolve(null),
+      getApiarySummary(session.user.id, farmId),
+      farmId ? getHivesForApiary(session.user.id, farmId) : Promise.resolve([]),
+    ])
+
+    return {
+      inspections,
+      harvests,
+      summary,
+      hives,
+    }
+  })
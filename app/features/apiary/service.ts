@@ -0,0 +1,346 @@
+/**
+ * Pure business logic for apiary operations.
+ * All functions are side-effect-free and easily unit testable.
+ */
+
+import {
+  BROOD_PATTERNS,
+  HIVE_HARVEST_PRODUCTS,
+  HIVE_TEMPERAMENTS,
+} from './types'
+import type {
+  ApiarySummary,
+  BroodPattern,
+  CreateHiveHarvestInput,
+  CreateHiveInspectionInput,
+  HiveHarvestProduct,
+  HiveWarning,
+  UpdateHiveHarvestInput,
+  UpdateHiveInspectionInput,
+} from './types'
+
+/**
+ * Mites per ~300-bee sample (3% infestation) above which a colony
+ * should be treated
+ */
+export const VARROA_TREATMENT_THRESHOLD = 9
+
+/**
+ * Honey and wax totals (kg)
+ */
+export interface HarvestTotals {
+  honeyKg: number
+  waxKg: number
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function isNonNegativeInteger(value: number): boolean {
+  return Number.isInteger(value) && value >= 0
+}
+
+/**
+ * Validate hive inspection data before creation
+ * Returns validation error message or null if valid
+ *
+ * @param data - Inspection data to validate
+ * @returns Validation error message, or null if data is valid
+ *
+ * @example
+ * ```ts
+ * validateInspectionData({
+ *   structureId: 'hive-1',
+ *   date: new Date(),
+ *   queenSeen: true,
+ *   broodPattern: 'solid',
+ *   swarmCells: 0,
+ *   varroaCount: 2,
+ * })
+ * // Returns: null (valid)
+ * ```
+ */
+export function validateInspectionData(
+  data: CreateHiveInspectionInput,
+): string | null {
+  if (!data.structureId || data.structureId.trim() === '') {
+    return 'Hive is required'
+  }
+
+  if (!(data.date instanceof Date) || isNaN(data.date.getTime())) {
+    return 'Valid inspection date is required'
+  }
+
+  return validateInspectionFields(data)
+}
+
+/**
+ * Validate update data for a hive inspection
+ * Returns validation error message or null if valid
+ *
+ * @param data - Update data to validate
+ * @returns Validation error message, or null if valid
+ */
+export function validateInspectionUpdate(
+  data: UpdateHiveInspectionInput,
+): string | null {
+  if (data.date !== undefined) {
+    if (!(data.date instanceof Date) || isNaN(data.date.getTime())) {
+      return 'Date must be a valid date'
+    }
+  }
+
+  return validateInspectionFields(data)
+}
+
+function validateInspectionFields(
+  data: UpdateHiveInspectionInput,
+): string | null {
+  if (
+    data.broodPattern !== undefined &&
+    !(BROOD_PATTERNS as ReadonlyArray<string>).includes(data.broodPattern)
+  ) {
+    return 'Invalid brood pattern'
+  }
+
+  if (data.swarmCells !== undefined && !isNonNegativeInteger(data.swarmCells)) {
+    return 'Swarm cells must be a whole number of 0 or more'
+  }
+
+  if (
+    data.varroaCount !== undefined &&
+    data.varroaCount !== null &&
+    !isNonNegativeInteger(data.varroaCount)
+  ) {
+    return 'Varroa count must be a whole number of 0 or more'
+  }
+
+  if (
+    data.framesOfBees !== undefined &&
+    data.framesOfBees !== null &&
+    !isNonNegativeInteger(data.framesOfBees)
+  ) {
+    return 'Frames of bees must be a whole number of 0 or more'
+  }
+
+  if (
+    data.temperament &&
+    !(HIVE_TEMPERAMENTS as ReadonlyArray<string>).includes(data.temperament)
+  ) {
+    return 'Invalid temperament'
+  }
+
+  return null
+}
+
+/**
+ * Validate harvest data before creation
+ * Returns validation error message or null if valid
+ *
+ * @param data - Harvest data to validate
+ * @returns Validation error message, or null if data is valid
+ *
+ * @example
+ * ```ts
+ * validateHarvestData({
+ *   structureId: 'hive-1',
+ *   date: new Date(),
+ *   product: 'honey',
+ *   quantityKg: 12.5,
+ * })
+ * // Returns: null (valid)
+ * ```
+ */
+export function validateHarvestData(
+  data: CreateHiveHarvestInput,
+): string | null {
+  if (!data.structureId || data.structureId.trim() === '') {
+    return 'Hive is required'
+  }
+
+  if (!(data.date instanceof Date) || isNaN(data.date.getTime())) {
+    return 'Valid harvest date is required'
+  }
+
+  return validateHarvestFields(data)
+}
+
+/**
+ * Validate update data for a hive harvest
+ * Returns validation error message or null if valid
+ *
+ * @param data - Update data to validate
+ * @returns Validation error message, or null if valid
+ */
+export function validateHarvestUpdate(
+  data: UpdateHiveHarvestInput,
+): string | null {
+  if (data.date !== undefined) {
+    if (!(data.date instanceof Date) || isNaN(data.date.getTime())) {
+      return 'Date must be a valid date'
+    }
+  }
+
+  return validateHarvestFields(data)
+}
+
+function validateHarvestFields(data: UpdateHiveHarvestInput): string | null {
+  if (
+    data.product !== undefined &&
+    !(HIVE_HARVEST_PRODUCTS as ReadonlyArray<string>).includes(data.product)
+  ) {
+    return 'Invalid harvest product'
+  }
+
+  if (data.quantityKg !== undefined && !(data.quantityKg > 0)) {
+    return 'Harvest quantity must be greater than 0'
+  }
+
+  if (
+    data.framesHarvested !== undefined &&
+    data.framesHarvested !== null &&
+    !isNonNegativeInteger(data.framesHarvested)
+  ) {
+    return 'Frames harvested must be a whole number of 0 or more'
+  }
+
+  return null
+}
+
+/**
+ * Warnings raised by an inspection that need a beekeeper's follow-up
+ *
+ * @param inspection - Observations from a single inspection
+ * @returns Warnings, empty when the colony looks healthy
+ *
+ * @example
+ * ```ts
+ * getInspectionWarnings({
+ *   queenSeen: false,
+ *   broodPattern: 'none',
+ *   swarmCells: 3,
+ *   varroaCount: 12,
+ * })
+ * // Returns: ['swarm_cells', 'queenless', 'high_varroa']
+ * ```
+ */
+export function getInspectionWarnings(inspection: {
+  queenSeen: boolean
+  broodPattern: BroodPattern
+  swarmCells: number
+  varroaCount: number | null
+}): Array<HiveWarning> {
+  const warnings: Array<HiveWarning> = []
+
+  if (inspection.swarmCells > 0) {
+    warnings.push('swarm_cells')
+  }
+
+  // No queen and no brood means the colony has lost its queen; a spotty
+  // pattern with a queen present usually points to a failing queen or disease
+  if (!inspection.queenSeen && inspection.broodPattern === 'none') {
+    warnings.push('queenless')
+  } else if (inspection.broodPattern === 'spotty') {
+    warnings.push('poor_brood')
+  }
+
+  if (
+    inspection.varroaCount !== null &&
+    inspection.varroaCount >= VARROA_TREATMENT_THRESHOLD
+  ) {
+    warnings.push('high_varroa')
+  }
+
+  return warnings
+}
+
+/**
+ * Total honey and wax harvested
+ *
+ * @param harvests - Harvests with product and weight (DECIMAL as string)
+ * @returns Honey and wax totals in kg
+ *
+ * @example
+ * ```ts
+ * calculateHarvestTotals([
+ *   { product: 'honey', quantityKg: '12.50' },
+ *   { product: 'wax', quantityKg: '1.20' },
+ * ])
+ * // Returns: { honeyKg: 12.5, waxKg: 1.2 }
+ * ```
+ */
+export function calculateHarvestTotals(
+  harvests: Array<{
+    product: HiveHarvestProduct
+    quantityKg: number | string
+  }>,
+): HarvestTotals {
+  let honeyKg = 0
+  let waxKg = 0
+
+  for (const harvest of harvests) {
+    if (harvest.product === 'honey') {
+      honeyKg += Number(harvest.quantityKg)
+    } else {
+      waxKg += Number(harvest.quantityKg)
+    }
+  }
+
+  return { honeyKg: round2(honeyKg), waxKg: round2(waxKg) }
+}
+
+/**
+ * Average kilograms harvested per colony
+ *
+ * @param quantityKg - Kilograms harvested
+ * @param colonyCount - Number of colonies (hives) the harvest came from
+ * @returns Kilograms per colony, or 0 if there are no colonies
+ *
+ * @example
+ * ```ts
+ * calculateYieldPerColony(50, 4) // Returns: 12.5
+ * ```
+ */
+export function calculateYieldPerColony(
+  quantityKg: number,
+  colonyCount: number,
+): number {
+  if (colonyCount <= 0 || quantityKg < 0) {
+    return 0
+  }
+
+  return round2(quantityKg / colonyCount)
+}
+
+/**
+ * Build the apiary summary
+ *
+ * @param colonyCount - Active hive structures
+ * @param harvests - Harvest rows for the same hives
+ * @param latestInspections - Most recent inspection of each hive
+ * @param inspectionCount - Total inspections recorded
+ * @returns Summary with harvest totals, yield per colony and hives to check
+ */
+export function buildApiarySummary(
+  colonyCount: number,
+  harvests: Array<{
+    product: HiveHarvestProduct
+    quantityKg: number | string
+  }>,
+  latestInspections: Array<Parameters<typeof getInspectionWarnings>[0]>,
+  inspectionCount: number,
+): ApiarySummary {
+  const totals = calculateHarvestTotals(harvests)
+
+  return {
+    colonyCount,
+    inspectionCount,
+    honeyKg: totals.honeyKg,
+    waxKg: totals.waxKg,
+    honeyPerColony: calculateYieldPerColony(totals.honeyKg, colonyCount),
+    hivesNeedingAttention: latestInspections.filter(
+      (inspection) => getInspectionWarnings(inspection).length > 0,
+    ).length,
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Types for apiary (hive inspection and harvest) management
+ */
+
+import type { HiveHarvestTable, HiveInspectionTable } from '~/lib/db/types'
+import type { BasePaginatedQuery } from '~/lib/types'
+
+/**
+ * Brood pattern observed on the frames
+ */
+export type BroodPattern = HiveInspectionTable['broodPattern']
+
+/**
+ * Colony temperament observed during an inspection
+ */
+export type HiveTemperament = NonNullable<HiveInspectionTable['temperament']>
+
+/**
+ * Product taken from a hive
+ */
+export type HiveHarvestProduct = HiveHarvestTable['product']
+
+/**
+ * All brood patterns, from healthiest to worst
+ */
+export const BROOD_PATTERNS = [
+  'solid',
+  'spotty',
+  'none',
+] as const satisfies ReadonlyArray<BroodPattern>
+
+/**
+ * All colony temperaments, in display order
+ */
+export const HIVE_TEMPERAMENTS = [
+  'calm',
+  'nervous',
+  'aggressive',
+] as const satisfies ReadonlyArray<HiveTemperament>
+
+/**
+ * All harvestable hive products
+ */
+export const HIVE_HARVEST_PRODUCTS = [
+  'honey',
+  'wax',
+] as const satisfies ReadonlyArray<HiveHarvestProduct>
+
+/**
+ * Reasons an inspection flags a colony for follow-up
+ */
+export type HiveWarning =
+  'swarm_cells' | 'queenless' | 'poor_brood' | 'high_varroa'
+
+/**
+ * Which record list the apiary page shows
+ */
+export type ApiaryView = 'inspections' | 'harvests'
+
+/**
+ * Search parameters for apiary route
+ */
+export interface ApiarySearchParams {
+  view?: ApiaryView
+  page?: number
+  pageSize?: number
+  sortBy?: string
+  sortOrder?: 'asc' | 'desc'
+  search?: string
+}
+
+/**
+ * Hive structure available for inspections and harvests
+ */
+export interface ApiaryHive {
+  id: string
+  name: string
+  status: string
+}
+
+/**
+ * Apiary summary metrics
+ */
+export interface ApiarySummary {
+  /** Active hive structures (one colony each) */
+  colonyCount: number
+  inspectionCount: number
+  honeyKg: number
+  waxKg: number
+  /** Honey harvested divided by active colonies */
+  honeyPerColony: number
+  /** Hives whose latest inspection raised a warning */
+  hivesNeedingAttention: number
+}
+
+/**
+ * Filter parameters for paginated apiary queries
+ */
+export interface ApiaryQuery extends BasePaginatedQuery {
+  /** Optional filter by specific hive structure */
+  structureId?: string
+}
+
+/**
+ * Input for recording a hive inspection
+ */
+export interface CreateHiveInspectionInput {
+  /** ID of the hive structure */
+  structureId: string
+  /** Inspection date */
+  date: Date
+  queenSeen: boolean
+  broodPattern: BroodPattern
+  /** Queen cells counted (swarm preparation) */
+  swarmCells: number
+  /** Mites per ~300-bee alcohol wash or sugar roll */
+  varroaCount?: number | null
+  /** Frames covered with bees */
+  framesOfBees?: number | null
+  temperament?: HiveTemperament | null
+  notes?: string | null
+}
+
+/**
+ * Data structure for updating a hive inspection
+ */
+export interface UpdateHiveInspectionInput {
+  date?: Date
+  queenSeen?: boolean
+  broodPattern?: BroodPattern
+  swarmCells?: number
+  varroaCount?: number | null
+  framesOfBees?: number | null
+  temperament?: HiveTemperament | null
+  notes?: string | null
+}
+
+/**
+ * Input for recording a honey or wax harvest
+ */
+export interface CreateHiveHarvestInput {
+  /** ID of the hive structure */
+  structureId: string
+  /** Harvest date */
+  date: Date
+  product: HiveHarvestProduct
+  /** Weight harvested in kilograms */
+  quantityKg: number
+  framesHarvested?: number | null
+  notes?: string | null
+}
+
+/**
+ * Data structure for updating a hive harvest
+ */
+export interface UpdateHiveHarvestInput {
+  date?: Date
+  product?: HiveHarvestProduct
+  quantityKg?: number
+  framesHarvested?: number | null
+  notes?: string | null
+}
@@ -0,0 +1,160 @@
+import { useState } from 'react'
+import { useNavigate, useRouter } from '@tanstack/react-router'
+import { toast } from 'sonner'
+import { useTranslation } from 'react-i18next'
+import {
+  createHiveHarvestFn,
+  createHiveInspectionFn,
+  deleteHiveHarvestFn,
+  deleteHiveInspectionFn,
+  updateHiveHarvestFn,
+  updateHiveInspectionFn,
+} from './server'
+import type {
+  ApiarySearchParams,
+  CreateHiveHarvestInput,
+  CreateHiveInspectionInput,
+  UpdateHiveHarvestInput,
+  UpdateHiveInspectionInput,
+} from './types'
+import type {
+  HiveHarvestWithDetails,
+  HiveInspectionWithDetails,
+} from './repository'
+
+interface UseApiaryPageProps {
+  selectedFarmId: string | null
+  routePath: string
+}
+
+export function useApiaryPage({
+  selectedFarmId,
+  routePath,
+}: UseApiaryPageProps) {
+  const { t } = useTranslation(['apiary', 'common'])
+  const navigate = useNavigate({ from: routePath as any })
+  const router = useRouter()
+
+  const [selectedInspection, setSelectedInspection] =
+    useState<HiveInspectionWithDetails | null>(null)
+  const [selectedHarvest, setSelectedHarvest] =
+    useState<HiveHarvestWithDetails | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const updateSearch = (updates: Partial<ApiarySearchParams>) => {
+    navigate({
+      // @ts-ignore - Type limitation
+      search: (prev: ApiarySearchParams) => ({
+        ...prev,
+        ...updates,
+      }),
+    })
+  }
+
+  // Shared submit wrapper: toast, refresh loader data, report success so the
+  // calling dialog knows whether to close
+  const run = async (
+    action: () => Promise<unknown>,
+    successMessage: string,
+    failureMessage: string,
+  ) => {
+    setIsSubmitting(true)
+    try {
+      await action()
+      toast.success(successMessage)
+      await router.invalidate()
+      return true
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : failureMessage)
+      return false
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleAddInspection = async (data: CreateHiveInspectionInput) => {
+    if (!selectedFarmId) return false
+    return run(
+      () =>
+        createHiveInspectionFn({
+          data: { farmId: selectedFarmId, inspection: data },
+        }),
+      t('apiary:inspectionRecorded', {
+        defaultValue: 'Inspection recorded',
+      }),
+      'Failed to record inspection',
+    )
+  }
+
+  const handleEditInspection = async (data: UpdateHiveInspectionInput) => {
+    if (!selectedInspection) return false
+    return run(
+      () =>
+        updateHiveInspectionFn({
+          data: { inspectionId: selectedInspection.id, data },
+        }),
+      t('common:updated', { defaultValue: 'Inspection updated' }),
+      'Failed to update inspection',
+    )
+  }
+
+  const handleDeleteInspection = async () => {
+    if (!selectedInspection) return false
+    return run(
+      () =>
+        deleteHiveInspectionFn({
+          data: { inspectionId: selectedInspection.id },
+        }),
+      t('common:deleted', { defaultValue: 'Inspection deleted' }),
+      'Failed to delete inspection',
+    )
+  }
+
+  const handleAddHarvest = async (data: CreateHiveHarvestInput) => {
+    if (!selectedFarmId) return false
+    return run(
+      () =>
+        createHiveHarvestFn({
+          data: { farmId: selectedFarmId, harvest: data },
+        }),
+      t('apiary:harvestRecorded', { defaultValue: 'Harvest recorded' }),
+      'Failed to record harvest',
+    )
+  }
+
+  const handleEditHarvest = async (data: UpdateHiveHarvestInput) => {
+    if (!selectedHarvest) return false
+    return run(
+      () =>
+        updateHiveHarvestFn({
+          data: { harvestId: selectedHarvest.id, data },
+        }),
+      t('common:updated', { defaultValue: 'Harvest updated' }),
+      'Failed to update harvest',
+    )
+  }
+
+  const handleDeleteHarvest = async () => {
+    if (!selectedHarvest) return false
+    return run(
+      () => deleteHiveHarvestFn({ data: { harvestId: selectedHarvest.id } }),
+      t('common:deleted', { defaultValue: 'Harvest deleted' }),
+      'Failed to delete harvest',
+    )
+  }
+
+  return {
+    selectedInspection,
+    setSelectedInspection,
+    selectedHarvest,
+    setSelectedHarvest,
+    isSubmitting,
+    updateSearch,
+    handleAddInspection,
+    handleEditInspection,
+    handleDeleteInspection,
+    handleAddHarvest,
+    handleEditHarvest,
+    handleDeleteHarvest,
+  }
+}
@@ -0,0 +1,24 @@
+import type { ApiarySearchParams } from './types'
+
+export function validateApiarySearch(
+  search: Record<string, unknown>,
+): ApiarySearchParams {
+  const validSortBy = ['date', 'hiveName', 'createdAt'] as const
+
+  return {
+    view: search.view === 'harvests' ? 'harvests' : 'inspections',
+    page: Number(search.page) || 1,
+    pageSize: Number(search.pageSize) || 10,
+    sortBy:
+      typeof search.sortBy === 'string' &&
+      (validSortBy as ReadonlyArray<string>).includes(search.sortBy)
+        ? search.sortBy
+        : 'date',
+    sortOrder:
+      typeof search.sortOrder === 'string' &&
+      (search.sortOrder === 'asc' || search.sortOrder === 'desc')
+        ? search.sortOrder
+        : 'desc',
+    search: typeof search.search === 'string' ? search.search : '',
+  }
+}
@@ -6,10 +6,42 @@ import {
   getInventorySummary as getInventorySummaryFromDb,
   getWeightSamples,
 } from '../repository'
+import type { Kysely } from 'kysely'
+import type { Database } from '~/lib/db/types'
 import { calculateFCR } from '~/lib/utils/calculations'
+import { attributeWoolRevenue } from '~/lib/finance/calculations'
 import { AppError } from '~/lib/errors'
 import { toNumber } from '~/features/settings/currency'
 
+/**
+ * Share of pooled farm wool sales earned by a sheep or goat batch
+ */
+async function getAttributedWoolRevenue(
+  db: Kysely<Database>,
+  batch: { id: string; farmId: string; livestockType: string },
+): Promise<number> {
+  if (batch.livestockType !== 'sheep' && batch.livestockType !== 'goats') {
+    return 0
+  }
+
+  const { getShearingClips, getUnassignedWoolRevenue } =
+    await import('~/features/shearing/repository')
+  const [clips, unassignedRevenue] = await Promise.all([
+    getShearingClips(db, [batch.farmId]),
+    getUnassignedWoolRevenue(db, batch.farmId),
+  ])
+
+  let batchClipKg = 0
+  let totalClipKg = 0
+  for (const clip of clips) {
+    const kg = Number(clip.greasyWeightKg)
+    totalClipKg += kg
+    if (clip.batchId === batch.id) batchClipKg += kg
+  }
+
+  return attributeWoolRevenue(unassignedRevenue, batchClipKg, totalClipKg)
+}
+
 /**
  * Retrieve comprehensive statistics for a specific batch, including mortality, feed, and sales
  *
@@ -28,6 +60,7 @@ export async function getBatchStatsWrapper(userId: string, batchId: string) {
   const { getDb } = await import('~/lib/db')
   const db = await getDb()
   const { getBatchById } = await import('./crud')
+  const { getBatchWithdrawals } = await import('~/features/vaccinations/server')
 
   try {
     const batch = await getBatchById(userId, batchId)
@@ -38,6 +71,8 @@ export async function getBatchStatsWrapper(userId: string, batchId: string) {
     // Database operations (from repository layer)
     const stats = await getBatchStats(db, batchId)
     const weightSamples = await getWeightSamples(db, batchId)
+    const attributedWoolRevenue = await getAttributedWoolRevenue(db, batch)
+    const withdrawals = await getBatchWithdrawals([batchId])
 
     // Business logic calculations (from service layer)
     const totalMortality = Number(stats.mortality.totalMortality || 0)
@@ -83,6 +118,7 @@ export async function getBatchStatsWrapper(userId: string, batchId: string) {
         totalSales: stats.sales.totalSales,
         totalQuantity: stats.sales.totalSold,
         totalRevenue: toNumber(String(stats.sales.totalRevenue || '0')),
+        attributedWoolRevenue,
       },
       expenses: {
         total: toNumber(String(stats.expenses.totalExpenses || '0')),
@@ -91,6 +127,7 @@ export async function getBatchStatsWrapper(userId: string, batchId: string) {
         weightSamples.length > 0
           ? toNumber(String(weightSamples[0].averageWeightKg))
           : null,
+      withdrawal: withdrawals.get(batchId) ?? null,
     }
   } catch (error) {
     if (error instanceof AppError) throw error
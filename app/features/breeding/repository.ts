@@ -0,0 +1,694 @@
+/**
+ * Database operations for breeding and birth records.
+ * All functions are pure data access - no business logic.
+ */
+
+import { sql } from 'kysely'
+import { BREEDING_LIVESTOCK_TYPES } from './types'
+import type { Kysely } from 'kysely'
+import type {
+  BreedingLivestockType,
+  BreedingMethod,
+  BreedingStatus,
+} from './types'
+import type { Database } from '~/lib/db/types'
+import type { BasePaginatedQuery, PaginatedResult } from '~/lib/types'
+
+/**
+ * Data for inserting a new breeding event
+ */
+export interface BreedingEventInsert {
+  farmId: string
+  batchId: string
+  damId: string | null
+  sireId: string | null
+  sireDescription: string | null
+  livestockType: BreedingLivestockType
+  method: BreedingMethod
+  femaleCount: number
+  matingDate: Date
+  expectedDueDate: Date
+  notes: string | null
+}
+
+/**
+ * Data for updating a breeding event
+ */
+export type BreedingEventUpdate = Partial<
+  Omit<BreedingEventInsert, 'farmId' | 'batchId' | 'livestockType'> & {
+    status: BreedingStatus
+    diagnosisDate: Date | null
+  }
+>
+
+/**
+ * Data for inserting a new birth record
+ */
+export interface BirthRecordInsert {
+  breedingEventId: string
+  offspringBatchId: string | null
+  createdBatch: boolean
+  birthDate: Date
+  damCount: number
+  liveBorn: number
+  stillborn: number
+  notes: string | null
+}
+
+/**
+ * Data for updating a birth record
+ */
+export interface BirthRecordUpdate {
+  weanedCount?: number | null
+  weaningDate?: Date | null
+  notes?: string | null
+}
+
+/**
+ * Breeding event with batch, parent and farm information
+ */
+export interface BreedingEventWithDetails {
+  id: string
+  farmId: string
+  batchId: string
+  damId: string | null
+  sireId: string | null
+  sireDescription: string | null
+  livestockType: BreedingLivestockType
+  method: BreedingMethod
+  femaleCount: number
+  matingDate: Date
+  expectedDueDate: Date
+  status: BreedingStatus
+  diagnosisDate: Date | null
+  notes: string | null
+  createdAt: Date
+  batchName: string | null
+  batchSpecies: string
+  damTag: string | null
+  sireTag: string | null
+  farmName: string
+  /** Females that have given birth so far */
+  deliveredDams: number
+}
+
+/**
+ * Birth record with its breeding event and offspring batch
+ */
+export interface BirthRecordWithDetails {
+  id: string
+  breedingEventId: string
+  offspringBatchId: string | null
+  createdBatch: boolean
+  birthDate: Date
+  damCount: number
+  liveBorn: number
+  stillborn: number
+  weanedCount: number | null
+  weaningDate: Date | null
+  notes: string | null
+  createdAt: Date
+  farmId: string
+  livestockType: BreedingLivestockType
+  damTag: string | null
+  batchName: string | null
+  batchSpecies: string
+  offspringBatchName: string | null
+  farmName: string
+}
+
+/**
+ * Filters for breeding record queries
+ */
+export interface BreedingRecordFilters extends BasePaginatedQuery {
+  batchId?: string
+  status?: BreedingStatus
+}
+
+const EVENT_COLUMNS = [
+  'breeding_events.id',
+  'breeding_events.farmId',
+  'breeding_events.batchId',
+  'breeding_events.damId',
+  'breeding_events.sireId',
+  'breeding_events.sireDescription',
+  'breeding_events.livestockType',
+  'breeding_events.method',
+  'breeding_events.femaleCount',
+  'breeding_events.matingDate',
+  'breeding_events.expectedDueDate',
+  'breeding_events.status',
+  'breeding_events.diagnosisDate',
+  'breeding_events.notes',
+  'breeding_events.createdAt',
+  'batches.batchName',
+  'batches.species as batchSpecies',
+  'dam.tagNumber as damTag',
+  'sire.tagNumber as sireTag',
+  'farms.name as farmName',
+] as const
+
+const BIRTH_COLUMNS = [
+  'birth_records.id',
+  'birth_records.breedingEventId',
+  'birth_records.offspringBatchId',
+  'birth_records.createdBatch',
+  'birth_records.birthDate',
+  'birth_records.damCount',
+  'birth_records.liveBorn',
+  'birth_records.stillborn',
+  'birth_records.weanedCount',
+  'birth_records.weaningDate',
+  'birth_records.notes',
+  'birth_records.createdAt',
+  'breeding_events.farmId',
+  'breeding_events.livestockType',
+  'dam.tagNumber as damTag',
+  'batches.batchName',
+  'batches.species as batchSpecies',
+  'offspring.batchName as offspringBatchName',
+  'farms.name as farmName',
+] as const
+
+function selectEventsWithDetails(db: Kysely<Database>) {
+  return db
+    .selectFrom('breeding_events')
+    .innerJoin('batches', 'batches.id', 'breeding_events.batchId')
+    .innerJoin('farms', 'farms.id', 'breeding_events.farmId')
+    .leftJoin('animals as dam', 'dam.id', 'breeding_events.damId')
+    .leftJoin('animals as sire', 'sire.id', 'breeding_events.sireId')
+}
+
+function selectBirthsWithDetails(db: Kysely<Database>) {
+  return db
+    .selectFrom('birth_records')
+    .innerJoin(
+      'breeding_events',
+      'breeding_events.id',
+      'birth_records.breedingEventId',
+    )
+    .innerJoin('batches', 'batches.id', 'breeding_events.batchId')
+    .innerJoin('farms', 'farms.id', 'breeding_events.farmId')
+    .leftJoin('animals as dam', 'dam.id', 'breeding_events.damId')
+    .leftJoin(
+      'batches as offspring',
+      'offspring.id',
+      'birth_records.offspringBatchId',
+    )
+}
+
+/**
+ * Females of an event that have given birth, as a correlated subquery
+ */
+const deliveredDams = sql<number>`(
+  select coalesce(sum("damCount"), 0)::int from birth_records
+  where birth_records."breedingEventId" = breeding_events.id
+)`
+
+/**
+ * Resolve a validated sort column to prevent SQL injection
+ */
+function getSortColumn(
+  table: 'breeding_events' | 'birth_records',
+  sortBy?: string,
+): string {
+  const allowedCols: Record<string, string> =
+    table === 'breeding_events'
+      ? {
+          matingDate: 'breeding_events.matingDate',
+          expectedDueDate: 'breeding_events.expectedDueDate',
+          createdAt: 'breeding_events.createdAt',
+        }
+      : {
+          birthDate: 'birth_records.birthDate',
+          liveBorn: 'birth_records.liveBorn',
+          createdAt: 'birth_records.createdAt',
+        }
+  const fallback =
+    table === 'breeding_events'
+      ? 'breeding_events.expectedDueDate'
+      : 'birth_records.birthDate'
+  const sortCol = (sortBy && allowedCols[sortBy]) || fallback
+  return `"${sortCol.replace('.', '"."')}"`
+}
+
+/**
+ * Insert a new breeding event
+ *
+ * @param db - Kysely database instance
+ * @param data - Breeding event data to insert
+ * @returns The ID of the created event
+ */
+export async function insertBreedingEvent(
+  db: Kysely<Database>,
+  data: BreedingEventInsert,
+): Promise<string> {
+  const result = await db
+    .insertInto('breeding_events')
+    .values(data)
+    .returning('id')
+    .executeTakeFirstOrThrow()
+  return result.id
+}
+
+/**
+ * Get a single breeding event by ID
+ *
+ * @param db - Kysely database instance
+ * @param eventId - ID of the event to retrieve
+ * @returns The event with batch, parent and farm details, or null if not found
+ */
+export async function getBreedingEventById(
+  db: Kysely<Database>,
+  eventId: string,
+): Promise<BreedingEventWithDetails | null> {
+  const event = await selectEventsWithDetails(db)
+    .select(EVENT_COLUMNS)
+    .select(deliveredDams.as('deliveredDams'))
+    .where('breeding_events.id', '=', eventId)
+    .executeTakeFirst()
+
+  return event ?? null
+}
+
+/**
+ * Update a breeding event
+ *
+ * @param db - Kysely database instance
+ * @param eventId - ID of the event to update
+ * @param data - Fields to update
+ */
+export async function updateBreedingEvent(
+  db: Kysely<Database>,
+  eventId: string,
+  data: BreedingEventUpdate,
+): Promise<void> {
+  await db
+    .updateTable('breeding_events')
+    .set(data)
+    .where('id', '=', eventId)
+    .execute()
+}
+
+/**
+ * Delete a breeding event (its birth records cascade)
+ *
+ * @param db - Kysely database instance
+ * @param eventId - ID of the event to delete
+ */
+export async function deleteBreedingEvent(
+  db: Kysely<Database>,
+  eventId: string,
+): Promise<void> {
+  await db.deleteFrom('breeding_events').where('id', '=', eventId).execute()
+}
+
+/**
+ * Count the birth records of a breeding event
+ *
+ * @param db - Kysely database instance
+ * @param eventId - Breeding event ID
+ * @returns Number of births recorded
+ */
+export async function countBirthsForEvent(
+  db: Kysely<Database>,
+  eventId: string,
+): Promise<number> {
+  const result = await db
+    .selectFrom('birth_records')
+    .select((eb) => eb.fn.count<number>('id').as('count'))
+    .where('breedingEventId', '=', eventId)
+    .executeTakeFirst()
+
+  return Number(result?.count || 0)
+}
+
+/**
+ * Get paginated breeding events for a set of farms
+ *
+ * @param db - Kysely database instance
+ * @param farmIds - Array of farm IDs the user has access to
+ * @param filters - Pagination and filter options
+ * @returns Paginated result set
+ */
+export async function getBreedingEventsPaginated(
+  db: Kysely<Database>,
+  farmIds: Array<string>,
+  filters: BreedingRecordFilters = {},
+): Promise<PaginatedResult<BreedingEventWithDetails>> {
+  const page = filters.page || 1
+  const pageSize = filters.pageSize || 10
+  const offset = (page - 1) * pageSize
+
+  if (farmIds.length === 0) {
+    return { data: [], total: 0, page, pageSize, totalPages: 0 }
+  }
+
+  let baseQuery = selectEventsWithDetails(db).where(
+    'breeding_events.farmId',
+    'in',
+    farmIds,
+  )
+
+  if (filters.search) {
+    const term = `%${filters.search.toLowerCase()}%`
+    baseQuery = baseQuery.where((eb) =>
+      eb.or([
+        eb('batches.batchName', 'ilike', term),
+        eb('batches.species', 'ilike', term),
+        eb('dam.tagNumber', 'ilike', term),
+        eb('sire.tagNumber', 'ilike', term),
+        eb('breeding_events.sireDescription', 'ilike', term),
+      ]),
+    )
+  }
+
+  if (filters.batchId) {
+    baseQuery = baseQuery.where('breeding_events.batchId', '=', filters.batchId)
+  }
+
+  if (filters.status) {
+    baseQuery = baseQuery.where('breeding_events.status', '=', filters.status)
+  }
+
+  const countResult = await baseQuery
+    .select((eb) => [eb.fn.count<number>('breeding_events.id').as('count')])
+    .executeTakeFirst()
+
+  const total = Number(countResult?.count || 0)
+  const totalPages = Math.ceil(total / pageSize)
+
+  const data = await baseQuery
+    .select(EVENT_COLUMNS)
+    .select(deliveredDams.as('deliveredDams'))
+    .orderBy(
+      sql.raw(getSortColumn('breeding_events', filters.sortBy)),
+      filters.sortOrder || 'desc',
+    )
+    .limit(pageSize)
+    .offset(offset)
+    .execute()
+
+  return { data, total, page, pageSize, totalPages }
+}
+
+/**
+ * Insert a new birth record
+ *
+ * @param db - Kysely database instance or transaction
+ * @param data - Birth data to insert
+ * @returns The ID of the created birth record
+ */
+export async function insertBirthRecord(
+  db: Kysely<Database>,
+  data: BirthRecordInsert,
+): Promise<string> {
+  const result = await db
+    .insertInto('birth_records')
+    .values(data)
+    .returning('id')
+    .executeTakeFirstOrThrow()
+  return result.id
+}
+
+/**
+ * Get a single birth record by ID
+ *
+ * @param db - Kysely database instance
+ * @param birthId - ID of the birth record to retrieve
+ * @returns The birth with event and batch details, or null if not found
+ */
+export async function getBirthRecordById(
+  db: Kysely<Database>,
+  birthId: string,
+): Promise<BirthRecordWithDetails | null> {
+  const birth = await selectBirthsWithDetails(db)
+    .select(BIRTH_COLUMNS)
+    .where('birth_records.id', '=', birthId)
+    .executeTakeFirst()
+
+  return birth ?? null
+}
+
+/**
+ * Update a birth record
+ *
+ * @param db - Kysely database instance
+ * @param birthId - ID of the birth record to update
+ * @param data - Fields to update
+ */
+export async function updateBirthRecord(
+  db: Kysely<Database>,
+  birthId: string,
+  data: BirthRecordUpdate,
+): Promise<void> {
+  await db
+    .updateTable('birth_records')
+    .set(data)
+    .where('id', '=', birthId)
+    .execute()
+}
+
+/**
+ * Delete a birth record
+ *
+ * @param db - Kysely database instance or transaction
+ * @param birthId - ID of the birth record to delete
+ */
+export async function deleteBirthRecord(
+  db: Kysely<Database>,
+  birthId: string,
+): Promise<void> {
+  await db.deleteFrom('birth_records').where('id', '=', birthId).execute()
+}
+
+/**
+ * Get paginated birth records for a set of farms
+ *
+ * @param db - Kysely database instance
+ * @param farmIds - Array of farm IDs the user has access to
+ * @param filters - Pagination and filter options
+ * @returns Paginated result set
+ */
+export async function getBirthRecordsPaginated(
+  db: Kysely<Database>,
+  farmIds: Array<string>,
+  filters: BreedingRecordFilters = {},
+): Promise<PaginatedResult<BirthRecordWithDetails>> {
+  const page = filters.page || 1
+  const pageSize = filters.pageSize || 10
+  const offset = (page - 1) * pageSize
+
+  if (farmIds.length === 0) {
+    return { data: [], total: 0, page, pageSize, totalPages: 0 }
+  }
+
+  let baseQuery = selectBirthsWithDetails(db).where(
+    'breeding_events.farmId',
+    'in',
+    farmIds,
+  )
+
+  if (filters.search) {
+    const term = `%${filters.search.toLowerCase()}%`
+    baseQuery = baseQuery.where((eb) =>
+      eb.or([
+        eb('batches.batchName', 'ilike', term),
+        eb('batches.species', 'ilike', term),
+        eb('dam.tagNumber', 'ilike', term),
+        eb('offspring.batchName', 'ilike', term),
+      ]),
+    )
+  }
+
+  if (filters.batchId) {
+    baseQuery = baseQuery.where('breeding_events.batchId', '=', filters.batchId)
+  }
+
+  const countResult = await baseQuery
+    .select((eb) => [eb.fn.count<number>('birth_records.id').as('count')])
+    .executeTakeFirst()
+
+  const total = Number(countResult?.count || 0)
+  const totalPages = Math.ceil(total / pageSize)
+
+  const data = await baseQuery
+    .select(BIRTH_COLUMNS)
+    .orderBy(
+      sql.raw(getSortColumn('birth_records', filters.sortBy)),
+      filters.sortOrder || 'desc',
+    )
+    .limit(pageSize)
+    .offset(offset)
+    .execute()
+
+  return { data, total, page, pageSize, totalPages }
+}
+
+/**
+ * Get a batch females can be bred in, verifying it belongs to the farm
+ *
+ * @param db - Kysely database instance
+ * @param batchId - Batch ID to check
+ * @param farmId - Farm ID for verification
+ * @returns Batch data if found, null otherwise
+ */
+export async function getBreedingBatch(
+  db: Kysely<Database>,
+  batchId: string,
+  farmId: string,
+): Promise<{
+  id: string
+  farmId: string
+  batchName: string | null
+  livestockType: string
+  species: string
+  breedId: string | null
+  structureId: string | null
+  currentQuantity: number
+} | null> {
+  const batch = await db
+    .selectFrom('batches')
+    .select([
+      'id',
+      'farmId',
+      'batchName',
+      'livestockType',
+      'species',
+      'breedId',
+      'structureId',
+      'currentQuantity',
+    ])
+    .where('id', '=', batchId)
+    .where('farmId', '=', farmId)
+    .where('deletedAt', 'is', null)
+    .executeTakeFirst()
+
+  return batch ?? null
+}
+
+/**
+ * Get active cattle, goat and sheep batches for a farm
+ *
+ * @param db - Kysely database instance
+ * @param farmId - Farm ID
+ * @returns Batches breeding events can be recorded against
+ */
+export async function getBreedingBatches(
+  db: Kysely<Database>,
+  farmId: string,
+): Promise<
+  Array<{
+    id: string
+    batchName: string | null
+    species: string
+    livestockType: string
+    currentQuantity: number
+  }>
+> {
+  return await db
+    .selectFrom('batches')
+    .select(['id', 'batchName', 'species', 'livestockType', 'currentQuantity'])
+    .where('farmId', '=', farmId)
+    .where('livestockType', 'in', BREEDING_LIVESTOCK_TYPES)
+    .where('status', '=', 'active')
+    .where('deletedAt', 'is', null)
+    .orderBy('acquisitionDate', 'desc')
+    .execute()
+}
+
+/**
+ * Get active tagged animals that can be recorded as dam or sire
+ *
+ * @param db - Kysely database instance
+ * @param farmId - Farm ID
+ * @returns Animals, by tag
+ */
+export async function getBreedingAnimals(
+  db: Kysely<Database>,
+  farmId: string,
+): Promise<
+  Array<{
+    id: string
+    tagNumber: string
+    name: string | null
+    sex: 'male' | 'female'
+    livestockType: string
+    batchId: string | null
+  }>
+> {
+  return await db
+    .selectFrom('animals')
+    .select(['id', 'tagNumber', 'name', 'sex', 'livestockType', 'batchId'])
+    .where('farmId', '=', farmId)
+    .where('status', '=', 'active')
+    .where('deletedAt', 'is', null)
+    .orderBy('tagNumber', 'asc')
+    .execute()
+}
+
+/**
+ * Get breeding events with the fields used for summary metrics
+ *
+ * @param db - Kysely database instance
+ * @param farmIds - Farm IDs to include
+ * @returns Events with status, female count and due date
+ */
+export async function getBreedingEventsForSummary(
+  db: Kysely<Database>,
+  farmIds: Array<string>,
+): Promise<
+  Array<{
+    id: string
+    femaleCount: number
+    status: BreedingStatus
+    expectedDueDate: Date
+  }>
+> {
+  if (farmIds.length === 0) return []
+
+  return await db
+    .selectFrom('breeding_events')
+    .select(['id', 'femaleCount', 'status', 'expectedDueDate'])
+    .where('farmId', 'in', farmIds)
+    .execute()
+}
+
+/**
+ * Get birth records with the fields used for reproductive KPIs
+ *
+ * @param db - Kysely database instance
+ * @param farmIds - Farm IDs to include
+ * @returns Births with their event, tagged dam and offspring counts
+ */
+export async function getBirthsForSummary(
+  db: Kysely<Database>,
+  farmIds: Array<string>,
+): Promise<
+  Array<{
+    breedingEventId: string
+    damId: string | null
+    birthDate: Date
+    liveBorn: number
+    weanedCount: number | null
+  }>
+> {
+  if (farmIds.length === 0) return []
+
+  return await db
+    .selectFrom('birth_records')
+    .innerJoin(
+      'breeding_events',
+      'breeding_events.id',
+      'birth_records.breedingEventId',
+    )
+    .select([
+      'birth_records.breedingEventId',
+      'breeding_events.damId',
+      'birth_records.birthDate',
+      'birth_records.liveBorn',
+      'birth_records.weanedCount',
+    ])
+    .where('breeding_events.farmId', 'in', farmIds)
+    .execute()
+}
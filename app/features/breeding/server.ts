@@ -0,0 +1,894 @@
+import { createServerFn } from '@tanstack/react-start'
+import { z } from 'zod'
+import {
+  OFFSPRING_SOURCE_SIZE,
+  buildBreedingSummary,
+  calculateExpectedDueDate,
+  getStatusAfterBirths,
+  isBreedingLivestockType,
+  validateBirthData,
+  validateBreedingAnimal,
+  validateBreedingEventData,
+  validateBreedingEventUpdate,
+  validateWeaningUpdate,
+} from './service'
+import {
+  countBirthsForEvent,
+  deleteBirthRecord as deleteBirthRecordFromDb,
+  deleteBreedingEvent as deleteBreedingEventFromDb,
+  getBirthRecordById,
+  getBirthRecordsPaginated as getBirthRecordsPaginatedFromDb,
+  getBirthsForSummary,
+  getBreedingAnimals,
+  getBreedingBatch,
+  getBreedingBatches,
+  getBreedingEventById,
+  getBreedingEventsForSummary,
+  getBreedingEventsPaginated as getBreedingEventsPaginatedFromDb,
+  insertBirthRecord,
+  insertBreedingEvent,
+  updateBirthRecord as updateBirthRecordInDb,
+  updateBreedingEvent as updateBreedingEventInDb,
+} from './repository'
+import { BREEDING_METHODS, BREEDING_STATUSES } from './types'
+import type { BirthRecordUpdate, BreedingEventUpdate } from './repository'
+import type {
+  BreedingAnimal,
+  BreedingBatch,
+  BreedingQuery,
+  BreedingSummary,
+  CreateBirthRecordInput,
+  CreateBreedingEventInput,
+  UpdateBirthRecordInput,
+  UpdateBreedingEventInput,
+} from './types'
+import type { Kysely } from 'kysely'
+import type { Database } from '~/lib/db/types'
+import type { PaginatedResult } from '~/lib/types'
+import { AppError } from '~/lib/errors'
+
+export type {
+  PaginatedResult,
+  CreateBirthRecordInput,
+  CreateBreedingEventInput,
+  UpdateBirthRecordInput,
+  UpdateBreedingEventInput,
+}
+
+const EMPTY_SUMMARY: BreedingSummary = {
+  awaitingBirth: 0,
+  femalesAwaitingBirth: 0,
+  overdue: 0,
+  liveBorn: 0,
+  kiddingRate: null,
+  weaningPercent: null,
+  calvingIntervalDays: null,
+}
+
+const breedingEventSchema = z.object({
+  damId: z.string().uuid().nullish(),
+  sireId: z.string().uuid().nullish(),
+  sireDescription: z.string().max(100).nullish(),
+  method: z.enum(BREEDING_METHODS),
+  femaleCount: z.number().int().positive(),
+  notes: z.string().max(500).nullish(),
+})
+
+/**
+ * Resolve the farms a user may read breeding data for
+ */
+async function resolveFarmIds(
+  userId: string,
+  farmId?: string,
+): Promise<Array<string>> {
+  const { checkFarmAccess, getUserFarms } =
+    await import('~/features/auth/utils')
+
+  if (farmId) {
+    const hasAccess = await checkFarmAccess(userId, farmId)
+    if (!hasAccess) {
+      throw new AppError('ACCESS_DENIED', { metadata: { farmId } })
+    }
+    return [farmId]
+  }
+
+  return getUserFarms(userId)
+}
+
+/**
+ * Ensure a tagged dam or sire exists on the farm and fits the event
+ */
+async function assertBreedingAnimal(
+  db: Kysely<Database>,
+  role: 'dam' | 'sire',
+  animalId: string,
+  event: { farmId: string; livestockType: string; batchId: string },
+): Promise<void> {
+  const animal = await db
+    .selectFrom('animals')
+    .select(['farmId', 'sex', 'livestockType', 'status', 'batchId'])
+    .where('id', '=', animalId)
+    .where('deletedAt', 'is', null)
+    .executeTakeFirst()
+
+  if (!animal || animal.farmId !== event.farmId) {
+    throw new AppError('ANIMAL_NOT_FOUND', {
+      metadata: { animalId, farmId: event.farmId },
+    })
+  }
+
+  const error = validateBreedingAnimal(role, animal, event)
+  if (error) {
+    throw new AppError('VALIDATION_ERROR', { message: error })
+  }
+}
+
+/**
+ * Load a breeding event the user can write to
+ */
+async function getEventForUser(
+  db: Kysely<Database>,
+  userId: string,
+  eventId: string,
+) {
+  const { getUserFarms } = await import('~/features/auth/utils')
+
+  const userFarms = await getUserFarms(userId)
+  const event = await getBreedingEventById(db, eventId)
+
+  if (!event) {
+    throw new AppError('BREEDING_EVENT_NOT_FOUND', {
+      metadata: { resource: 'BreedingEvent', id: eventId },
+    })
+  }
+
+  if (!userFarms.includes(event.farmId)) {
+    throw new AppError('ACCESS_DENIED', {
+      metadata: { farmId: event.farmId },
+    })
+  }
+
+  return event
+}
+
+/**
+ * Load a birth record the user can write to
+ */
+async function getBirthForUser(
+  db: Kysely<Database>,
+  userId: string,
+  birthId: string,
+) {
+  const { getUserFarms } = await import('~/features/auth/utils')
+
+  const userFarms = await getUserFarms(userId)
+  const birth = await getBirthRecordById(db, birthId)
+
+  if (!birth) {
+    throw new AppError('BIRTH_RECORD_NOT_FOUND', {
+      metadata: { resource: 'BirthRecord', id: birthId },
+    })
+  }
+
+  if (!userFarms.includes(birth.farmId)) {
+    throw new AppError('ACCESS_DENIED', {
+      metadata: { farmId: birth.farmId },
+    })
+  }
+
+  return birth
+}
+
+/**
+ * Records a mating for a tagged dam or a group of females in a batch.
+ * The expected due date is computed from the species gestation length.
+ *
+ * @param userId - ID of the user performing the action
+ * @param farmId - ID of the farm owning the batch
+ * @param input - Batch, parents, method, female count and mating date
+ * @returns Promise resolving to the new breeding event ID
+ * @throws {AppError} If the batch, dam or sire is invalid
+ */
+export async function createBreedingEvent(
+  userId: string,
+  farmId: string,
+  input: CreateBreedingEventInput,
+): Promise<string> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { verifyFarmAccess } = await import('~/features/auth/utils')
+
+  try {
+    await verifyFarmAccess(userId, farmId)
+
+    const validationError = validateBreedingEventData(input)
+    if (validationError) {
+      throw new AppError('VALIDATION_ERROR', {
+        metadata: { error: validationError },
+      })
+    }
+
+    const batch = await getBreedingBatch(db, input.batchId, farmId)
+    if (!batch) {
+      throw new AppError('BATCH_NOT_FOUND', {
+        metadata: { batchId: input.batchId, farmId },
+      })
+    }
+
+    if (!isBreedingLivestockType(batch.livestockType)) {
+      throw new AppError('VALIDATION_ERROR', {
+        message: 'Breeding can only be recorded for cattle, goats and sheep',
+      })
+    }
+
+    if (input.femaleCount > batch.currentQuantity) {
+      throw new AppError('VALIDATION_ERROR', {
+        message: 'Female count cannot exceed the batch quantity',
+      })
+    }
+
+    const event = {
+      farmId,
+      livestockType: batch.livestockType,
+      batchId: batch.id,
+    }
+    if (input.damId) await assertBreedingAnimal(db, 'dam', input.damId, event)
+    if (input.sireId) {
+      await assertBreedingAnimal(db, 'sire', input.sireId, event)
+    }
+
+    return await insertBreedingEvent(db, {
+      farmId,
+      batchId: batch.id,
+      damId: input.damId ?? null,
+      sireId: input.sireId ?? null,
+      sireDescription: input.sireDescription || null,
+      livestockType: batch.livestockType,
+      method: input.method,
+      femaleCount: input.femaleCount,
+      matingDate: input.matingDate,
+      expectedDueDate: calculateExpectedDueDate(
+        batch.livestockType,
+        input.matingDate,
+      ),
+      notes: input.notes || null,
+    })
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to create breeding event',
+      cause: error,
+    })
+  }
+}
+
+export const createBreedingEventFn = createServerFn({ method: 'POST' })
+  .inputValidator(
+    z.object({
+      farmId: z.string().uuid(),
+      event: breedingEventSchema.extend({
+        batchId: z.string().uuid(),
+        matingDate: z.coerce.date(),
+      }),
+    }),
+  )
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+    return createBreedingEvent(session.user.id, data.farmId, data.event)
+  })
+
+/**
+ * Updates a breeding event: parents, mating date (the due date follows),
+ * pregnancy diagnosis or an open/aborted outcome.
+ *
+ * @param userId - ID of the user performing the update
+ * @param eventId - ID of the event to update
+ * @param data - Partial update parameters
+ * @returns Promise resolving to true on success
+ */
+export async function updateBreedingEvent(
+  userId: string,
+  eventId: string,
+  data: UpdateBreedingEventInput,
+): Promise<boolean> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+
+  try {
+    const event = await getEventForUser(db, userId, eventId)
+
+    // Edit forms send the status back unchanged, including 'delivered'
+    const status = data.status === event.status ? undefined : data.status
+    const damId = data.damId !== undefined ? data.damId : event.damId
+    const validationError = validateBreedingEventUpdate({
+      ...data,
+      status,
+      damId,
+      femaleCount: data.femaleCount ?? event.femaleCount,
+      matingDate: data.matingDate ?? event.matingDate,
+      diagnosisDate:
+        data.diagnosisDate !== undefined
+          ? data.diagnosisDate
+          : event.diagnosisDate,
+    })
+    if (validationError) {
+      throw new AppError('VALIDATION_ERROR', {
+        metadata: { error: validationError },
+      })
+    }
+
+    if (event.deliveredDams > 0) {
+      if (status !== undefined) {
+        throw new AppError('VALIDATION_ERROR', {
+          message: 'Delete the recorded births before changing the status',
+        })
+      }
+      if (
+        data.femaleCount !== undefined &&
+        data.femaleCount < event.deliveredDams
+      ) {
+        throw new AppError('VALIDATION_ERROR', {
+          message: 'Female count cannot be below the dams that gave birth',
+        })
+      }
+    }
+
+    const context = {
+      farmId: event.farmId,
+      livestockType: event.livestockType,
+      batchId: event.batchId,
+    }
+    if (data.damId && data.damId !== event.damId) {
+      await assertBreedingAnimal(db, 'dam', data.damId, context)
+    }
+    if (data.sireId && data.sireId !== event.sireId) {
+      await assertBreedingAnimal(db, 'sire', data.sireId, context)
+    }
+
+    const update: BreedingEventUpdate = {}
+    if (data.damId !== undefined) update.damId = data.damId
+    if (data.sireId !== undefined) update.sireId = data.sireId
+    if (data.sireDescription !== undefined)
+      update.sireDescription = data.sireDescription || null
+    if (data.method !== undefined) update.method = data.method
+    if (data.matingDate !== undefined) {
+      update.matingDate = data.matingDate
+      update.expectedDueDate = calculateExpectedDueDate(
+        event.livestockType,
+        data.matingDate,
+      )
+    }
+    if (data.diagnosisDate !== undefined)
+      update.diagnosisDate = data.diagnosisDate
+    if (data.notes !== undefined) update.notes = data.notes || null
+
+    if (data.femaleCount !== undefined) {
+      update.femaleCount = data.femaleCount
+      // A partly delivered group becomes delivered when its count shrinks
+      if (event.deliveredDams > 0) {
+        update.status = getStatusAfterBirths(
+          event.status,
+          data.femaleCount,
+          event.deliveredDams,
+        )
+      }
+    }
+    if (status !== undefined) update.status = status
+
+    await updateBreedingEventInDb(db, eventId, update)
+
+    return true
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to update breeding event',
+      cause: error,
+    })
+  }
+}
+
+export const updateBreedingEventFn = createServerFn({ method: 'POST' })
+  .inputValidator(
+    z.object({
+      eventId: z.string().uuid(),
+      data: breedingEventSchema.partial().extend({
+        matingDate: z.coerce.date().optional(),
+        status: z.enum(BREEDING_STATUSES).optional(),
+        diagnosisDate: z.coerce.date().nullish(),
+      }),
+    }),
+  )
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+    return updateBreedingEvent(session.user.id, data.eventId, data.data)
+  })
+
+/**
+ * Delete a breeding event. Events with births must have their births
+ * deleted first so offspring are taken back out of their batches.
+ *
+ * @param userId - ID of the user performing the action
+ * @param eventId - ID of the event to delete
+ */
+export async function deleteBreedingEvent(
+  userId: string,
+  eventId: string,
+): Promise<void> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+
+  try {
+    await getEventForUser(db, userId, eventId)
+
+    const births = await countBirthsForEvent(db, eventId)
+    if (births > 0) {
+      throw new AppError('VALIDATION_ERROR', {
+        message: 'Delete the births recorded for this event first',
+      })
+    }
+
+    await deleteBreedingEventFromDb(db, eventId)
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to delete breeding event',
+      cause: error,
+    })
+  }
+}
+
+export const deleteBreedingEventFn = createServerFn({ method: 'POST' })
+  .inputValidator(z.object({ eventId: z.string().uuid() }))
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+    return deleteBreedingEvent(session.user.id, data.eventId)
+  })
+
+/**
+ * Records a kidding, lambing or calving. In one transaction the live-born
+ * are added to the dams' batch (initial and current quantity) or to a new
+ * batch started on the birth date, and the event is marked delivered once
+ * every bred female has given birth.
+ *
+ * @param userId - ID of the user performing the action
+ * @param input - Event, birth date, dams and offspring counts, destination
+ * @returns Promise resolving to the new birth record ID
+ * @throws {AppError} If the event is not awaiting birth or counts are invalid
+ */
+export async function createBirthRecord(
+  userId: string,
+  input: CreateBirthRecordInput,
+): Promise<string> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+
+  try {
+    const event = await getEventForUser(db, userId, input.breedingEventId)
+
+    const validationError = validateBirthData(input, {
+      matingDate: event.matingDate,
+      status: event.status,
+      remainingFemales: event.femaleCount - event.deliveredDams,
+    })
+    if (validationError) {
+      throw new AppError('VALIDATION_ERROR', {
+        metadata: { error: validationError },
+      })
+    }
+
+    const damBatch = await getBreedingBatch(db, event.batchId, event.farmId)
+    if (!damBatch) {
+      throw new AppError('BATCH_NOT_FOUND', {
+        metadata: { batchId: event.batchId },
+      })
+    }
+
+    const { sql } = await import('kysely')
+
+    return await db.transaction().execute(async (trx) => {
+      let offspringBatchId: string | null = null
+      let createdBatch = false
+
+      if (input.liveBorn > 0 && input.destination === 'new_batch') {
+        const { insertBatch } = await import('~/features/batches/repository')
+        offspringBatchId = await insertBatch(trx, {
+          farmId: event.farmId,
+          livestockType: event.livestockType,
+          species: damBatch.species,
+          breedId: damBatch.breedId,
+          batchName: input.batchName || null,
+          sourceSize: OFFSPRING_SOURCE_SIZE[event.livestockType],
+          structureId: damBatch.structureId,
+          initialQuantity: input.liveBorn,
+          currentQuantity: input.liveBorn,
+          acquisitionDate: input.birthDate,
+          costPerUnit: '0.00',
+          totalCost: '0.00',
+          status: 'active',
+          notes: null,
+        })
+        createdBatch = true
+      } else if (input.liveBorn > 0) {
+        offspringBatchId = damBatch.id
+        // Born into the batch, so they count toward its starting size too
+        await trx
+          .updateTable('batches')
+          .set({
+            initialQuantity: sql`"initialQuantity" + ${input.liveBorn}`,
+            currentQuantity: sql`"currentQuantity" + ${input.liveBorn}`,
+            status: 'active',
+            updatedAt: new Date(),
+          })
+          .where('id', '=', damBatch.id)
+          .execute()
+      }
+
+      const birthId = await insertBirthRecord(trx, {
+        breedingEventId: event.id,
+        offspringBatchId,
+        createdBatch,
+        birthDate: input.birthDate,
+        damCount: input.damCount,
+        liveBorn: input.liveBorn,
+        stillborn: input.stillborn,
+        notes: input.notes || null,
+      })
+
+      await updateBreedingEventInDb(trx, event.id, {
+        status: getStatusAfterBirths(
+          event.status,
+          event.femaleCount,
+          event.deliveredDams + input.damCount,
+        ),
+      })
+
+      return birthId
+    })
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to record birth',
+      cause: error,
+    })
+  }
+}
+
+export const createBirthRecordFn = createServerFn({ method: 'POST' })
+  .inputValidator(
+    z.object({
+      birth: z.object({
+        breedingEventId: z.string().uuid(),
+        birthDate: z.coerce.date(),
+        damCount: z.number().int().positive(),
+        liveBorn: z.number().int().nonnegative(),
+        stillborn: z.number().int().nonnegative(),
+        destination: z.enum(['dam_batch', 'new_batch']),
+        batchName: z.string().max(100).nullish(),
+        notes: z.string().max(500).nullish(),
+      }),
+    }),
+  )
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+    return createBirthRecord(session.user.id, data.birth)
+  })
+
+/**
+ * Records weaning of a litter or edits the notes of a birth.
+ *
+ * @param userId - ID of the user performing the update
+ * @param birthId - ID of the birth record to update
+ * @param data - Weaned count and date, or notes
+ * @returns Promise resolving to true on success
+ */
+export async function updateBirthRecord(
+  userId: string,
+  birthId: string,
+  data: UpdateBirthRecordInput,
+): Promise<boolean> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+
+  try {
+    const birth = await getBirthForUser(db, userId, birthId)
+
+    const validationError = validateWeaningUpdate(data, birth)
+    if (validationError) {
+      throw new AppError('VALIDATION_ERROR', {
+        metadata: { error: validationError },
+      })
+    }
+
+    const update: BirthRecordUpdate = {}
+    if (data.weanedCount !== undefined) update.weanedCount = data.weanedCount
+    if (data.weaningDate !== undefined) update.weaningDate = data.weaningDate
+    if (data.notes !== undefined) update.notes = data.notes || null
+
+    await updateBirthRecordInDb(db, birthId, update)
+
+    return true
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to update birth record',
+      cause: error,
+    })
+  }
+}
+
+export const updateBirthRecordFn = createServerFn({ method: 'POST' })
+  .inputValidator(
+    z.object({
+      birthId: z.string().uuid(),
+      data: z.object({
+        weanedCount: z.number().int().nonnegative().nullish(),
+        weaningDate: z.coerce.date().nullish(),
+        notes: z.string().max(500).nullish(),
+      }),
+    }),
+  )
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+    return updateBirthRecord(session.user.id, data.birthId, data.data)
+  })
+
+/**
+ * Delete a birth record, taking the live-born back out of their batch.
+ * A batch created for the birth is removed with it. Refused when offspring
+ * have since left the batch (sold or died) so counts cannot go negative.
+ *
+ * @param userId - ID of the user performing the action
+ * @param birthId - ID of the birth record to delete
+ */
+export async function deleteBirthRecord(
+  userId: string,
+  birthId: string,
+): Promise<void> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+
+  try {
+    const birth = await getBirthForUser(db, userId, birthId)
+    const event = await getEventForUser(db, userId, birth.breedingEventId)
+
+    const offspringBatch = birth.offspringBatchId
+      ? await getBreedingBatch(db, birth.offspringBatchId, birth.farmId)
+      : null
+
+    if (offspringBatch && offspringBatch.currentQuantity < birth.liveBorn) {
+      throw new AppError('INSUFFICIENT_STOCK', {
+        message:
+          'Some of these offspring have left the batch; correct those records first',
+        metadata: {
+          current: offspringBatch.currentQuantity,
+          requested: birth.liveBorn,
+        },
+      })
+    }
+
+    const { sql } = await import('kysely')
+
+    await db.transaction().execute(async (trx) => {
+      if (offspringBatch && birth.createdBatch) {
+        await trx
+          .updateTable('batches')
+          .set({ deletedAt: new Date() })
+          .where('id', '=', offspringBatch.id)
+          .execute()
+      } else if (offspringBatch) {
+        await trx
+          .updateTable('batches')
+          .set({
+            initialQuantity: sql`"initialQuantity" - ${birth.liveBorn}`,
+            currentQuantity: sql`"currentQuantity" - ${birth.liveBorn}`,
+            status: sql`CASE WHEN "currentQuantity" - ${birth.liveBorn} <= 0 THEN 'depleted' ELSE status END`,
+            updatedAt: new Date(),
+          })
+          .where('id', '=', offspringBatch.id)
+          .execute()
+      }
+
+      await deleteBirthRecordFromDb(trx, birthId)
+
+      await updateBreedingEventInDb(trx, event.id, {
+        status: getStatusAfterBirths(
+          event.status,
+          event.femaleCount,
+          event.deliveredDams - birth.damCount,
+        ),
+      })
+    })
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to delete birth record',
+      cause: error,
+    })
+  }
+}
+
+export const deleteBirthRecordFn = createServerFn({ method: 'POST' })
+  .inputValidator(z.object({ birthId: z.string().uuid() }))
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+    return deleteBirthRecord(session.user.id, data.birthId)
+  })
+
+/**
+ * Retrieves a filtered and sorted page of breeding events.
+ *
+ * @param userId - ID of the requesting user
+ * @param query - Sorting, search, status and pagination params
+ * @returns Paginated events with batch, parent and farm details
+ */
+export async function getBreedingEventsPaginated(
+  userId: string,
+  query: BreedingQuery = {},
+) {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+
+  try {
+    const farmIds = await resolveFarmIds(userId, query.farmId)
+    return await getBreedingEventsPaginatedFromDb(db, farmIds, query)
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to fetch paginated breeding events',
+      cause: error,
+    })
+  }
+}
+
+/**
+ * Retrieves a filtered and sorted page of birth records.
+ *
+ * @param userId - ID of the requesting user
+ * @param query - Sorting, search and pagination params
+ * @returns Paginated births with event and batch details
+ */
+export async function getBirthRecordsPaginated(
+  userId: string,
+  query: BreedingQuery = {},
+) {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+
+  try {
+    const farmIds = await resolveFarmIds(userId, query.farmId)
+    return await getBirthRecordsPaginatedFromDb(db, farmIds, query)
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to fetch paginated birth records',
+      cause: error,
+    })
+  }
+}
+
+/**
+ * Aggregates pending and overdue pregnancies with kidding rate, weaning
+ * percentage and calving interval.
+ *
+ * @param userId - ID of the requesting user
+ * @param farmId - Optional farm filter
+ * @returns Breeding summary metrics
+ */
+export async function getBreedingSummary(
+  userId: string,
+  farmId?: string,
+): Promise<BreedingSummary> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+
+  try {
+    const farmIds = await resolveFarmIds(userId, farmId)
+    if (farmIds.length === 0) return EMPTY_SUMMARY
+
+    const [events, births] = await Promise.all([
+      getBreedingEventsForSummary(db, farmIds),
+      getBirthsForSummary(db, farmIds),
+    ])
+
+    return buildBreedingSummary(events, births)
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to fetch breeding summary',
+      cause: error,
+    })
+  }
+}
+
+/**
+ * Batches and tagged animals of a farm, for the breeding forms.
+ *
+ * @param userId - ID of the requesting user
+ * @param farmId - Farm to list options for
+ * @returns Cattle, goat and sheep batches and active tagged animals
+ */
+export async function getBreedingOptions(
+  userId: string,
+  farmId: string,
+): Promise<{ batches: Array<BreedingBatch>; animals: Array<BreedingAnimal> }> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { verifyFarmAccess } = await import('~/features/auth/utils')
+
+  try {
+    await verifyFarmAccess(userId, farmId)
+
+    const [batches, animals] = await Promise.all([
+      getBreedingBatches(db, farmId),
+      getBreedingAnimals(db, farmId),
+    ])
+
+    return { batches, animals }
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to fetch breeding options',
+      cause: error,
+    })
+  }
+}
+
+/**
+ * Server function to get all breeding data for a farm (the selected record
+ * list, summary, and form options)
+ */
+export const getBreedingDataForFarmFn = createServerFn({ method: 'GET' })
+  .inputValidator(
+    z.object({
+      farmId: z.string().uuid().nullish(),
+      view: z.enum(['events', 'births']).optional(),
+      status: z.enum(BREEDING_STATUSES).optional(),
+      page: z.number().int().positive().optional(),
+      pageSize: z.number().int().positive().max(100).optional(),
+      sortBy: z.string().optional(),
+      sortOrder: z.enum(['asc', 'desc']).optional(),
+      search: z.string().optional(),
+    }),
+  )
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+
+    const session = await requireAuth()
+    const farmId = data.farmId || undefined
+    const query: BreedingQuery = {
+      farmId,
+      status: data.status,
+      page: data.page,
+      pageSize: data.pageSize,
+      sortBy: data.sortBy,
+      sortOrder: data.sortOrder,
+      search: data.search,
+    }
+
+    const [events, births, summary, options] = await Promise.all([
+      data.view === 'births'
+        ? Promise.resolve(null)
+        : getBreedingEventsPaginated(session.user.id, query),
+      data.view === 'births'
+        ? getBirthRecordsPaginated(session.user.id, query)
+        : Promise.resolve(null),
+      getBreedingSummary(session.user.id, farmId),
+      farmId
+        ? getBreedingOptions(session.user.id, farmId)
+        : Promise.resolve({ batches: [], animals: [] }),
+    ])
+
+    return {
+      events,
+      births,
+      summary,
+      batches: options.batches,
+      animals: options.animals,
+    }
+  })
@@ -0,0 +1,604 @@
+/**
+ * Pure business logic for breeding and birth operations.
+ * All functions are side-effect-free and easily unit testable.
+ */
+
+import { BREEDING_LIVESTOCK_TYPES, MANUAL_BREEDING_STATUSES } from './types'
+import type {
+  BreedingLivestockType,
+  BreedingStatus,
+  BreedingSummary,
+  CreateBirthRecordInput,
+  CreateBreedingEventInput,
+  ReproductiveKpis,
+  UpdateBirthRecordInput,
+  UpdateBreedingEventInput,
+} from './types'
+
+/**
+ * Average gestation length in days by livestock type
+ */
+export const GESTATION_DAYS: Record<BreedingLivestockType, number> = {
+  cattle: 283,
+  goats: 150,
+  sheep: 147,
+}
+
+/**
+ * Batch source size used for offspring batches created from a birth
+ */
+export const OFFSPRING_SOURCE_SIZE: Record<BreedingLivestockType, string> = {
+  cattle: 'calf',
+  goats: 'kid',
+  sheep: 'lamb',
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+const MAX_SIRE_DESCRIPTION_LENGTH = 100
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10
+}
+
+function isValidDate(value: unknown): value is Date {
+  return value instanceof Date && !isNaN(value.getTime())
+}
+
+function isPositiveInteger(value: number): boolean {
+  return Number.isInteger(value) && value > 0
+}
+
+function isNonNegativeInteger(value: number): boolean {
+  return Number.isInteger(value) && value >= 0
+}
+
+/**
+ * Check whether a livestock type has a tracked gestation
+ *
+ * @param livestockType - Batch livestock type
+ * @returns True for cattle, goats and sheep
+ */
+export function isBreedingLivestockType(
+  livestockType: string,
+): livestockType is BreedingLivestockType {
+  return (BREEDING_LIVESTOCK_TYPES as ReadonlyArray<string>).includes(
+    livestockType,
+  )
+}
+
+/**
+ * Expected birth date from the mating date and species gestation length
+ *
+ * @param livestockType - Cattle, goats or sheep
+ * @param matingDate - Date of mating or insemination
+ * @returns Expected due date
+ *
+ * @example
+ * ```ts
+ * calculateExpectedDueDate('goats', new Date('2025-01-01'))
+ * // Returns: 2025-05-31 (150 days later)
+ * ```
+ */
+export function calculateExpectedDueDate(
+  livestockType: BreedingLivestockType,
+  matingDate: Date,
+): Date {
+  return new Date(
+    matingDate.getTime() + GESTATION_DAYS[livestockType] * MS_PER_DAY,
+  )
+}
+
+/**
+ * Whether an event is still waiting for a birth
+ *
+ * @param status - Breeding event status
+ * @returns True for bred and pregnant events
+ */
+export function isAwaitingBirth(status: BreedingStatus): boolean {
+  return status === 'bred' || status === 'pregnant'
+}
+
+/**
+ * Whole days a birth is past its due date
+ *
+ * @param expectedDueDate - Expected due date
+ * @param asOf - Reference date (defaults to now)
+ * @returns Days overdue, negative while the due date is ahead
+ *
+ * @example
+ * ```ts
+ * getDaysOverdue(new Date('2025-06-01'), new Date('2025-06-04')) // Returns: 3
+ * ```
+ */
+export function getDaysOverdue(
+  expectedDueDate: Date,
+  asOf: Date = new Date(),
+): number {
+  return Math.floor(
+    (asOf.getTime() - new Date(expectedDueDate).getTime()) / MS_PER_DAY,
+  )
+}
+
+/**
+ * Validate breeding event data before creation
+ * Returns validation error message or null if valid
+ *
+ * @param data - Breeding event data to validate
+ * @param asOf - Reference date for the future check (defaults to now)
+ * @returns Validation error message, or null if data is valid
+ *
+ * @example
+ * ```ts
+ * validateBreedingEventData({
+ *   batchId: 'batch-1',
+ *   method: 'natural',
+ *   femaleCount: 12,
+ *   matingDate: new Date(),
+ * })
+ * // Returns: null (valid)
+ * ```
+ */
+export function validateBreedingEventData(
+  data: CreateBreedingEventInput,
+  asOf: Date = new Date(),
+): string | null {
+  if (!data.batchId || data.batchId.trim() === '') {
+    return 'Batch ID is required'
+  }
+
+  if (!isValidDate(data.matingDate)) {
+    return 'Valid mating date is required'
+  }
+
+  return validateEventFields(data, asOf)
+}
+
+/**
+ * Validate update data for a breeding event
+ * Returns validation error message or null if valid
+ *
+ * @param data - Update data to validate
+ * @param asOf - Reference date for the future check (defaults to now)
+ * @returns Validation error message, or null if valid
+ */
+export function validateBreedingEventUpdate(
+  data: UpdateBreedingEventInput,
+  asOf: Date = new Date(),
+): string | null {
+  if (data.matingDate !== undefined && !isValidDate(data.matingDate)) {
+    return 'Mating date must be a valid date'
+  }
+
+  if (
+    data.status !== undefined &&
+    !(MANUAL_BREEDING_STATUSES as ReadonlyArray<string>).includes(data.status)
+  ) {
+    return 'Events are marked delivered by recording their births'
+  }
+
+  if (
+    data.diagnosisDate !== undefined &&
+    data.diagnosisDate !== null &&
+    !isValidDate(data.diagnosisDate)
+  ) {
+    return 'Diagnosis date must be a valid date'
+  }
+
+  return validateEventFields(data, asOf)
+}
+
+function validateEventFields(
+  data: UpdateBreedingEventInput,
+  asOf: Date,
+): string | null {
+  if (data.matingDate !== undefined && data.matingDate > asOf) {
+    return 'Mating date cannot be in the future'
+  }
+
+  if (data.femaleCount !== undefined && !isPositiveInteger(data.femaleCount)) {
+    return 'Female count must be a whole number greater than 0'
+  }
+
+  if (data.damId && data.femaleCount !== undefined && data.femaleCount !== 1) {
+    return 'An event for a tagged dam covers exactly one female'
+  }
+
+  if (data.damId && data.sireId && data.damId === data.sireId) {
+    return 'Dam and sire must be different animals'
+  }
+
+  if (
+    data.sireDescription &&
+    data.sireDescription.length > MAX_SIRE_DESCRIPTION_LENGTH
+  ) {
+    return `Sire description must be at most ${MAX_SIRE_DESCRIPTION_LENGTH} characters`
+  }
+
+  if (
+    data.diagnosisDate &&
+    data.matingDate &&
+    data.diagnosisDate < data.matingDate
+  ) {
+    return 'Diagnosis date cannot be before the mating date'
+  }
+
+  return null
+}
+
+/**
+ * Check that a tagged animal can be the dam or sire of a breeding event
+ * Returns validation error message or null if valid
+ *
+ * @param role - Whether the animal is the dam or the sire
+ * @param animal - Sex, type, status and batch of the animal
+ * @param event - Livestock type and batch of the bred females
+ * @returns Validation error message, or null if valid
+ *
+ * @example
+ * ```ts
+ * validateBreedingAnimal(
+ *   'sire',
+ *   { sex: 'male', livestockType: 'goats', status: 'active', batchId: null },
+ *   { livestockType: 'goats', batchId: 'batch-1' },
+ * )
+ * // Returns: null (valid)
+ * ```
+ */
+export function validateBreedingAnimal(
+  role: 'dam' | 'sire',
+  animal: {
+    sex: string
+    livestockType: string
+    status: string
+    batchId: string | null
+  },
+  event: { livestockType: string; batchId: string },
+): string | null {
+  const label = role === 'dam' ? 'Dam' : 'Sire'
+
+  if (role === 'dam' && animal.sex !== 'female') {
+    return 'Dam must be female'
+  }
+
+  if (role === 'sire' && animal.sex !== 'male') {
+    return 'Sire must be male'
+  }
+
+  if (animal.livestockType !== event.livestockType) {
+    return `${label} must be the same livestock type`
+  }
+
+  if (animal.status !== 'active') {
+    return `${label} is no longer active`
+  }
+
+  // Sires may run with any group; the dam is one of the bred females
+  if (role === 'dam' && animal.batchId !== event.batchId) {
+    return 'Dam is not in this batch'
+  }
+
+  return null
+}
+
+/**
+ * Validate a birth against its breeding event
+ * Returns validation error message or null if valid
+ *
+ * @param data - Birth data to validate
+ * @param event - Mating date, status and females not yet delivered
+ * @returns Validation error message, or null if data is valid
+ *
+ * @example
+ * ```ts
+ * validateBirthData(
+ *   { breedingEventId: 'e1', birthDate: new Date('2025-06-01'), damCount: 1,
+ *     liveBorn: 2, stillborn: 0, destination: 'dam_batch' },
+ *   { matingDate: new Date('2025-01-01'), status: 'pregnant', remainingFemales: 1 },
+ * )
+ * // Returns: null (valid)
+ * ```
+ */
+export function validateBirthData(
+  data: CreateBirthRecordInput,
+  event: {
+    matingDate: Date
+    status: BreedingStatus
+    remainingFemales: number
+  },
+): string | null {
+  if (!isValidDate(data.birthDate)) {
+    return 'Valid birth date is required'
+  }
+
+  if (!isAwaitingBirth(event.status)) {
+    return 'Births can only be recorded for bred or pregnant females'
+  }
+
+  if (data.birthDate <= new Date(event.matingDate)) {
+    return 'Birth date must be after the mating date'
+  }
+
+  if (!isPositiveInteger(data.damCount)) {
+    return 'Number of dams must be a whole number greater than 0'
+  }
+
+  if (data.damCount > event.remainingFemales) {
+    return `Only ${event.remainingFemales} bred female(s) have not given birth yet`
+  }
+
+  if (!isNonNegativeInteger(data.liveBorn)) {
+    return 'Live-born must be a whole number of 0 or more'
+  }
+
+  if (!isNonNegativeInteger(data.stillborn)) {
+    return 'Stillborn must be a whole number of 0 or more'
+  }
+
+  if (data.liveBorn + data.stillborn === 0) {
+    return 'A birth must have at least one live-born or stillborn offspring'
+  }
+
+  return null
+}
+
+/**
+ * Validate weaning and note changes to a birth record
+ * Returns validation error message or null if valid
+ *
+ * @param data - Update data to validate
+ * @param birth - Live-born count and birth date of the record
+ * @returns Validation error message, or null if valid
+ *
+ * @example
+ * ```ts
+ * validateWeaningUpdate(
+ *   { weanedCount: 2, weaningDate: new Date('2025-09-01') },
+ *   { liveBorn: 2, birthDate: new Date('2025-06-01') },
+ * )
+ * // Returns: null (valid)
+ * ```
+ */
+export function validateWeaningUpdate(
+  data: UpdateBirthRecordInput,
+  birth: { liveBorn: number; birthDate: Date },
+): string | null {
+  if (data.weanedCount === undefined && data.weaningDate === undefined) {
+    return null
+  }
+
+  const hasCount = data.weanedCount !== null && data.weanedCount !== undefined
+  const hasDate = data.weaningDate !== null && data.weaningDate !== undefined
+  if (hasCount !== hasDate) {
+    return 'Weaned count and weaning date must be recorded together'
+  }
+  if (!hasCount) return null
+
+  if (!isNonNegativeInteger(data.weanedCount as number)) {
+    return 'Weaned count must be a whole number of 0 or more'
+  }
+
+  if ((data.weanedCount as number) > birth.liveBorn) {
+    return 'Weaned count cannot exceed the number born alive'
+  }
+
+  if (!isValidDate(data.weaningDate)) {
+    return 'Weaning date must be a valid date'
+  }
+
+  if (data.weaningDate <= new Date(birth.birthDate)) {
+    return 'Weaning date must be after the birth date'
+  }
+
+  return null
+}
+
+/**
+ * Event status once its births are known
+ *
+ * @param currentStatus - Status before the change
+ * @param femaleCount - Females bred in the event
+ * @param deliveredDams - Females that have given birth so far
+ * @returns 'delivered' once every female has given birth, otherwise
+ * 'pregnant' while some births are recorded, else the current status
+ *
+ * @example
+ * ```ts
+ * getStatusAfterBirths('bred', 10, 10) // Returns: 'delivered'
+ * getStatusAfterBirths('bred', 10, 4) // Returns: 'pregnant'
+ * getStatusAfterBirths('delivered', 1, 0) // Returns: 'pregnant'
+ * ```
+ */
+export function getStatusAfterBirths(
+  currentStatus: BreedingStatus,
+  femaleCount: number,
+  deliveredDams: number,
+): BreedingStatus {
+  if (deliveredDams >= femaleCount) return 'delivered'
+  if (deliveredDams > 0 || currentStatus === 'delivered') return 'pregnant'
+  return currentStatus
+}
+
+/**
+ * Live offspring per female exposed, over events that have concluded
+ * (delivered, open or aborted) so pending pregnancies do not drag it down
+ *
+ * @param events - Events with their female count and status
+ * @param births - Births with their event and live-born count
+ * @returns Kidding/lambing/calving rate as a percentage, or null with no
+ * concluded events
+ *
+ * @example
+ * ```ts
+ * calculateKiddingRate(
+ *   [{ id: 'e1', femaleCount: 10, status: 'delivered' }],
+ *   [{ breedingEventId: 'e1', liveBorn: 17 }],
+ * )
+ * // Returns: 170
+ * ```
+ */
+export function calculateKiddingRate(
+  events: Array<{ id: string; femaleCount: number; status: BreedingStatus }>,
+  births: Array<{ breedingEventId: string; liveBorn: number }>,
+): number | null {
+  const concluded = new Set<string>()
+  let females = 0
+  for (const event of events) {
+    if (isAwaitingBirth(event.status)) continue
+    concluded.add(event.id)
+    females += event.femaleCount
+  }
+  if (females === 0) return null
+
+  const liveBorn = births
+    .filter((birth) => concluded.has(birth.breedingEventId))
+    .reduce((sum, birth) => sum + birth.liveBorn, 0)
+
+  return round1((liveBorn / females) * 100)
+}
+
+/**
+ * Weaned offspring as a percentage of live-born, over litters whose weaning
+ * has been recorded
+ *
+ * @param births - Births with live-born and weaned counts
+ * @returns Weaning percentage, or null when nothing is weaned yet
+ *
+ * @example
+ * ```ts
+ * calculateWeaningPercent([
+ *   { liveBorn: 2, weanedCount: 2 },
+ *   { liveBorn: 2, weanedCount: 1 },
+ *   { liveBorn: 3, weanedCount: null },
+ * ])
+ * // Returns: 75
+ * ```
+ */
+export function calculateWeaningPercent(
+  births: Array<{ liveBorn: number; weanedCount: number | null }>,
+): number | null {
+  let liveBorn = 0
+  let weaned = 0
+  for (const birth of births) {
+    if (birth.weanedCount === null) continue
+    liveBorn += birth.liveBorn
+    weaned += birth.weanedCount
+  }
+  if (liveBorn === 0) return null
+  return round1((weaned / liveBorn) * 100)
+}
+
+/**
+ * Average interval between consecutive births of the same tagged dam
+ *
+ * @param births - Births with the tagged dam (null for group events)
+ * @returns Average interval in days, or null when no dam has two births
+ *
+ * @example
+ * ```ts
+ * calculateCalvingInterval([
+ *   { damId: 'd1', birthDate: new Date('2024-01-01') },
+ *   { damId: 'd1', birthDate: new Date('2025-01-01') },
+ * ])
+ * // Returns: 366
+ * ```
+ */
+export function calculateCalvingInterval(
+  births: Array<{ damId: string | null; birthDate: Date }>,
+): number | null {
+  const byDam = new Map<string, Array<number>>()
+  for (const birth of births) {
+    if (!birth.damId) continue
+    const dates = byDam.get(birth.damId) ?? []
+    dates.push(new Date(birth.birthDate).getTime())
+    byDam.set(birth.damId, dates)
+  }
+
+  const intervals: Array<number> = []
+  for (const dates of byDam.values()) {
+    dates.sort((a, b) => a - b)
+    for (let i = 1; i < dates.length; i++) {
+      intervals.push((dates[i] - dates[i - 1]) / MS_PER_DAY)
+    }
+  }
+  if (intervals.length === 0) return null
+
+  return Math.round(
+    intervals.reduce((sum, days) => sum + days, 0) / intervals.length,
+  )
+}
+
+/**
+ * Kidding rate, weaning percentage and calving interval together
+ *
+ * @param events - Events with their female count and status
+ * @param births - Births with event, dam, date and offspring counts
+ * @returns Reproductive KPIs
+ */
+export function calculateReproductiveKpis(
+  events: Array<{ id: string; femaleCount: number; status: BreedingStatus }>,
+  births: Array<{
+    breedingEventId: string
+    damId: string | null
+    birthDate: Date
+    liveBorn: number
+    weanedCount: number | null
+  }>,
+): ReproductiveKpis {
+  return {
+    kiddingRate: calculateKiddingRate(events, births),
+    weaningPercent: calculateWeaningPercent(births),
+    calvingIntervalDays: calculateCalvingInterval(births),
+  }
+}
+
+/**
+ * Build breeding summary metrics
+ *
+ * @param events - All breeding events with status and due date
+ * @param births - All births with event, dam, date and offspring counts
+ * @param asOf - Reference date for overdue events (defaults to now)
+ * @returns Summary metrics
+ *
+ * @example
+ * ```ts
+ * buildBreedingSummary(
+ *   [{ id: 'e1', femaleCount: 3, status: 'pregnant',
+ *      expectedDueDate: new Date('2025-05-01') }],
+ *   [],
+ *   new Date('2025-06-01'),
+ * )
+ * // Returns: { awaitingBirth: 1, femalesAwaitingBirth: 3, overdue: 1, ... }
+ * ```
+ */
+export function buildBreedingSummary(
+  events: Array<{
+    id: string
+    femaleCount: number
+    status: BreedingStatus
+    expectedDueDate: Date
+  }>,
+  births: Array<{
+    breedingEventId: string
+    damId: string | null
+    birthDate: Date
+    liveBorn: number
+    weanedCount: number | null
+  }>,
+  asOf: Date = new Date(),
+): BreedingSummary {
+  const awaiting = events.filter((event) => isAwaitingBirth(event.status))
+
+  return {
+    awaitingBirth: awaiting.length,
+    femalesAwaitingBirth: awaiting.reduce(
+      (sum, event) => sum + event.femaleCount,
+      0,
+    ),
+    overdue: awaiting.filter(
+      (event) => getDaysOverdue(event.expectedDueDate, asOf) > 0,
+    ).length,
+    liveBorn: births.reduce((sum, birth) => sum + birth.liveBorn, 0),
+    ...calculateReproductiveKpis(events, births),
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * Types for breeding, pregnancy and birth (kidding, lambing, calving) tracking
+ */
+
+import type { BreedingEventTable } from '~/lib/db/types'
+import type { BasePaginatedQuery } from '~/lib/types'
+
+/**
+ * Livestock types with tracked gestations
+ */
+export type BreedingLivestockType = BreedingEventTable['livestockType']
+
+/**
+ * How the females were bred
+ */
+export type BreedingMethod = 'natural' | 'ai'
+
+/**
+ * Pregnancy state of a breeding event
+ */
+export type BreedingStatus =
+  'bred' | 'pregnant' | 'open' | 'delivered' | 'aborted'
+
+/**
+ * All livestock types with tracked gestations
+ */
+export const BREEDING_LIVESTOCK_TYPES = [
+  'cattle',
+  'goats',
+  'sheep',
+] as const satisfies ReadonlyArray<BreedingLivestockType>
+
+/**
+ * All breeding methods
+ */
+export const BREEDING_METHODS = [
+  'natural',
+  'ai',
+] as const satisfies ReadonlyArray<BreedingMethod>
+
+/**
+ * All breeding statuses, in lifecycle order
+ */
+export const BREEDING_STATUSES = [
+  'bred',
+  'pregnant',
+  'open',
+  'delivered',
+  'aborted',
+] as const satisfies ReadonlyArray<BreedingStatus>
+
+/**
+ * Statuses a user may set directly; 'delivered' follows from birth records
+ */
+export const MANUAL_BREEDING_STATUSES = [
+  'bred',
+  'pregnant',
+  'open',
+  'aborted',
+] as const satisfies ReadonlyArray<BreedingStatus>
+
+/**
+ * Where live-born offspring are counted
+ */
+export type OffspringDestination = 'dam_batch' | 'new_batch'
+
+/**
+ * Which record list the breeding page shows
+ */
+export type BreedingView = 'events' | 'births'
+
+/**
+ * Search parameters for breeding route
+ */
+export interface BreedingSearchParams {
+  view?: BreedingView
+  status?: BreedingStatus | 'all'
+  page?: number
+  pageSize?: number
+  sortBy?: string
+  sortOrder?: 'asc' | 'desc'
+  search?: string
+}
+
+/**
+ * Batch that breeding events can be recorded against
+ */
+export interface BreedingBatch {
+  id: string
+  batchName: string | null
+  species: string
+  livestockType: string
+  currentQuantity: number
+}
+
+/**
+ * Tagged animal selectable as dam or sire
+ */
+export interface BreedingAnimal {
+  id: string
+  tagNumber: string
+  name: string | null
+  sex: 'male' | 'female'
+  livestockType: string
+  batchId: string | null
+}
+
+/**
+ * Reproductive performance indicators
+ */
+export interface ReproductiveKpis {
+  /** Live offspring per female exposed, as a percentage of concluded events */
+  kiddingRate: number | null
+  /** Weaned offspring as a percentage of live-born, for weaned litters */
+  weaningPercent: number | null
+  /** Average days between consecutive births of the same tagged dam */
+  calvingIntervalDays: number | null
+}
+
+/**
+ * Breeding summary metrics
+ */
+export interface BreedingSummary extends ReproductiveKpis {
+  /** Events still awaiting birth (bred or pregnant) */
+  awaitingBirth: number
+  /** Females in events awaiting birth */
+  femalesAwaitingBirth: number
+  /** Awaiting events past their expected due date */
+  overdue: number
+  liveBorn: number
+}
+
+/**
+ * Filter parameters for paginated breeding queries
+ */
+export interface BreedingQuery extends BasePaginatedQuery {
+  /** Optional filter by batch of the dams */
+  batchId?: string
+  /** Optional filter by event status */
+  status?: BreedingStatus
+}
+
+/**
+ * Input for recording a mating
+ */
+export interface CreateBreedingEventInput {
+  /** Batch the bred females are in */
+  batchId: string
+  /** Tagged dam, for single-animal events */
+  damId?: string | null
+  /** Tagged sire */
+  sireId?: string | null
+  /** Unregistered sire or AI straw reference */
+  sireDescription?: string | null
+  method: BreedingMethod
+  /** Number of females bred (1 when a dam is given) */
+  femaleCount: number
+  matingDate: Date
+  notes?: string | null
+}
+
+/**
+ * Data structure for updating a breeding event
+ */
+export interface UpdateBreedingEventInput {
+  damId?: string | null
+  sireId?: string | null
+  sireDescription?: string | null
+  method?: BreedingMethod
+  femaleCount?: number
+  matingDate?: Date
+  status?: BreedingStatus
+  diagnosisDate?: Date | null
+  notes?: string | null
+}
+
+/**
+ * Input for recording a birth from a breeding event
+ */
+export interface CreateBirthRecordInput {
+  breedingEventId: string
+  birthDate: Date
+  /** Females that gave birth */
+  damCount: number
+  liveBorn: number
+  stillborn: number
+  /** Add the live-born to the dams' batch or start a new batch */
+  destination: OffspringDestination
+  /** Name for the new batch, when destination is 'new_batch' */
+  batchName?: string | null
+  notes?: string | null
+}
+
+/**
+ * Data structure for updating a birth record. Counts are fixed once the
+ * offspring are in a batch; delete and re-record to correct them.
+ */
+export interface UpdateBirthRecordInput {
+  weanedCount?: number | null
+  weaningDate?: Date | null
+  notes?: string | null
+}
@@ -0,0 +1,151 @@
+import { useState } from 'react'
+import { useNavigate, useRouter } from '@tanstack/react-router'
+import { toast } from 'sonner'
+import { useTranslation } from 'react-i18next'
+import {
+  createBirthRecordFn,
+  createBreedingEventFn,
+  deleteBirthRecordFn,
+  deleteBreedingEventFn,
+  updateBirthRecordFn,
+  updateBreedingEventFn,
+} from './server'
+import type {
+  BreedingSearchParams,
+  CreateBirthRecordInput,
+  CreateBreedingEventInput,
+  UpdateBirthRecordInput,
+  UpdateBreedingEventInput,
+} from './types'
+import type {
+  BirthRecordWithDetails,
+  BreedingEventWithDetails,
+} from './repository'
+
+interface UseBreedingPageProps {
+  selectedFarmId: string | null
+  routePath: string
+}
+
+export function useBreedingPage({
+  selectedFarmId,
+  routePath,
+}: UseBreedingPageProps) {
+  const { t } = useTranslation(['breeding', 'common'])
+  const navigate = useNavigate({ from: routePath as any })
+  const router = useRouter()
+
+  const [selectedEvent, setSelectedEvent] =
+    useState<BreedingEventWithDetails | null>(null)
+  const [selectedBirth, setSelectedBirth] =
+    useState<BirthRecordWithDetails | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const updateSearch = (updates: Partial<BreedingSearchParams>) => {
+    navigate({
+      // @ts-ignore - Type limitation
+      search: (prev: BreedingSearchParams) => ({
+        ...prev,
+        ...updates,
+      }),
+    })
+  }
+
+  // Shared submit wrapper: toast, refresh loader data, report success so the
+  // calling dialog knows whether to close
+  const run = async (
+    action: () => Promise<unknown>,
+    successMessage: string,
+    failureMessage: string,
+  ) => {
+    setIsSubmitting(true)
+    try {
+      await action()
+      toast.success(successMessage)
+      await router.invalidate()
+      return true
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : failureMessage)
+      return false
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleAddEvent = async (data: CreateBreedingEventInput) => {
+    if (!selectedFarmId) return false
+    return run(
+      () =>
+        createBreedingEventFn({
+          data: { farmId: selectedFarmId, event: data },
+        }),
+      t('breeding:matingRecorded', { defaultValue: 'Mating recorded' }),
+      'Failed to record mating',
+    )
+  }
+
+  const handleEditEvent = async (data: UpdateBreedingEventInput) => {
+    if (!selectedEvent) return false
+    return run(
+      () =>
+        updateBreedingEventFn({
+          data: { eventId: selectedEvent.id, data },
+        }),
+      t('common:updated', { defaultValue: 'Breeding event updated' }),
+      'Failed to update breeding event',
+    )
+  }
+
+  const handleDeleteEvent = async () => {
+    if (!selectedEvent) return false
+    return run(
+      () => deleteBreedingEventFn({ data: { eventId: selectedEvent.id } }),
+      t('common:deleted', { defaultValue: 'Breeding event deleted' }),
+      'Failed to delete breeding event',
+    )
+  }
+
+  const handleAddBirth = async (data: CreateBirthRecordInput) => {
+    return run(
+      () => createBirthRecordFn({ data: { birth: data } }),
+      t('breeding:birthRecorded', { defaultValue: 'Birth recorded' }),
+      'Failed to record birth',
+    )
+  }
+
+  const handleEditBirth = async (data: UpdateBirthRecordInput) => {
+    if (!selectedBirth) return false
+    return run(
+      () =>
+        updateBirthRecordFn({
+          data: { birthId: selectedBirth.id, data },
+        }),
+      t('common:updated', { defaultValue: 'Birth updated' }),
+      'Failed to update birth',
+    )
+  }
+
+  const handleDeleteBirth = async () => {
+    if (!selectedBirth) return false
+    return run(
+      () => deleteBirthRecordFn({ data: { birthId: selectedBirth.id } }),
+      t('common:deleted', { defaultValue: 'Birth deleted' }),
+      'Failed to delete birth',
+    )
+  }
+
+  return {
+    selectedEvent,
+    setSelectedEvent,
+    selectedBirth,
+    setSelectedBirth,
+    isSubmitting,
+    updateSearch,
+    handleAddEvent,
+    handleEditEvent,
+    handleDeleteEvent,
+    handleAddBirth,
+    handleEditBirth,
+    handleDeleteBirth,
+  }
+}
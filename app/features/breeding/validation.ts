@@ -0,0 +1,34 @@
+import { BREEDING_STATUSES } from './types'
+import type { BreedingSearchParams, BreedingStatus } from './types'
+
+export function validateBreedingSearch(
+  search: Record<string, unknown>,
+): BreedingSearchParams {
+  const view = search.view === 'births' ? 'births' : 'events'
+  const validSortBy =
+    view === 'births'
+      ? (['birthDate', 'liveBorn', 'createdAt'] as const)
+      : (['matingDate', 'expectedDueDate', 'createdAt'] as const)
+
+  return {
+    view,
+    status:
+      typeof search.status === 'string' &&
+      (BREEDING_STATUSES as ReadonlyArray<string>).includes(search.status)
+        ? (search.status as BreedingStatus)
+        : 'all',
+    page: Number(search.page) || 1,
+    pageSize: Number(search.pageSize) || 10,
+    sortBy:
+      typeof search.sortBy === 'string' &&
+      (validSortBy as ReadonlyArray<string>).includes(search.sortBy)
+        ? search.sortBy
+        : validSortBy[0],
+    sortOrder:
+      typeof search.sortOrder === 'string' &&
+      (search.sortOrder === 'asc' || search.sortOrder === 'desc')
+        ? search.sortOrder
+        : 'desc',
+    search: typeof search.search === 'string' ? search.search : '',
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Database operations for the signing key registry.
+ * All functions are pure data access - no business logic.
+ */
+
+import type { Kysely } from 'kysely'
+import type { SigningKeyRecord } from './key-registry-service'
+import type { Database } from '~/lib/db/types'
+
+const KEY_COLUMNS = [
+  'keyId',
+  'algorithm',
+  'publicKey',
+  'status',
+  'validFrom',
+  'validUntil',
+  'revokedAt',
+  'revocationReason',
+] as const
+
+/**
+ * Get every registry key, newest first
+ *
+ * @param db - Kysely database instance
+ * @returns Signing keys
+ */
+export async function getSigningKeys(
+  db: Kysely<Database>,
+): Promise<Array<SigningKeyRecord>> {
+  return await db
+    .selectFrom('signing_keys')
+    .select(KEY_COLUMNS)
+    .orderBy('validFrom', 'desc')
+    .execute()
+}
+
+/**
+ * Get a registry key by its key ID
+ *
+ * @param db - Kysely database instance
+ * @param keyId - Public key ID
+ * @returns Signing key or null
+ */
+export async function getSigningKeyByKeyId(
+  db: Kysely<Database>,
+  keyId: string,
+): Promise<SigningKeyRecord | null> {
+  const key = await db
+    .selectFrom('signing_keys')
+    .select(KEY_COLUMNS)
+    .where('keyId', '=', keyId)
+    .executeTakeFirst()
+  return key ?? null
+}
+
+/**
+ * Register a key as the active signing key and retire the keys it replaces
+ *
+ * @param db - Kysely database instance
+ * @param data - Key ID and public key
+ * @param validFrom - When the key starts signing
+ */
+export async function rotateSigningKey(
+  db: Kysely<Database>,
+  data: { keyId: string; publicKey: string },
+  validFrom: Date,
+): Promise<void> {
+  await db.transaction().execute(async (trx) => {
+    await trx
+      .updateTable('signing_keys')
+      .set({ status: 'retired', validUntil: validFrom, updatedAt: validFrom })
+      .where('status', '=', 'active')
+      .where('keyId', '!=', data.keyId)
+      .execute()
+
+    await trx
+      .insertInto('signing_keys')
+      .values({
+        keyId: data.keyId,
+        publicKey: data.publicKey,
+        status: 'active',
+        validFrom,
+      })
+      .onConflict((oc) => oc.column('keyId').doNothing())
+      .execute()
+  })
+}
+
+/**
+ * Revoke a compromised key, unless it was already revoked
+ *
+ * @param db - Kysely database instance
+ * @param keyId - Public key ID
+ * @param reason - Why the key was revoked
+ * @param revokedAt - Revocation time
+ * @returns Whether the key was still unrevoked
+ */
+export async function revokeSigningKey(
+  db: Kysely<Database>,
+  keyId: string,
+  reason: string,
+  revokedAt: Date,
+): Promise<boolean> {
+  const result = await db
+    .updateTable('signing_keys')
+    .set({
+      status: 'revoked',
+      revokedAt,
+      revocationReason: reason,
+      updatedAt: revokedAt,
+    })
+    .where('keyId', '=', keyId)
+    .where('status', '!=', 'revoked')
+    .executeTakeFirst()
+  return Number(result.numUpdatedRows) > 0
+}
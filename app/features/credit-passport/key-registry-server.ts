@@ -0,0 +1,477 @@
+import { createServerFn } from '@tanstack/react-start'
+import { z } from 'zod'
+import type { Kysely } from 'kysely'
+import type {
+  KeyCheckFailure,
+  PublishedSigningKey,
+  ReportVerification,
+  VerificationBundle,
+} from './key-registry-service'
+import type { CreditReportInsert } from './repository'
+import type { PayloadSignature } from './signature-service'
+import type { ReportMetrics } from './types'
+import type { Database, SigningKeyStatus } from '~/lib/db/types'
+import { AppError } from '~/lib/errors'
+
+export type { PublishedSigningKey, VerificationBundle }
+
+/** Path of the published signing key registry */
+export const KEY_REGISTRY_PATH = '/api/credit-passport/v1/keys'
+
+/**
+ * The key a server signs with
+ */
+export interface ActiveSigningKey {
+  keyId: string
+  privateKey: Uint8Array
+  publicKey: string
+}
+
+/**
+ * What the public verification page shows for a report
+ */
+export interface CreditReportVerification {
+  id: string
+  reportType: string
+  createdAt: Date
+  expiresAt: Date
+  expired: boolean
+  isValid: boolean
+  verificationCount: number
+  keyId: string
+  keyStatus: SigningKeyStatus | null
+  keyFailure: KeyCheckFailure | null
+  checks: ReportVerification['checks']
+  publicMetrics: {
+    creditScore: number | null
+    creditGrade: string | null
+    productionCapacity: number | null
+    sustainabilityScore: number | null
+  }
+}
+
+const reportIdSchema = z.object({
+  reportId: z.string().uuid(),
+})
+
+const revokeKeySchema = z.object({
+  keyId: z.string().min(1).max(32),
+  reason: z.string().trim().min(1).max(500),
+})
+
+/**
+ * Key that signs passports, from `CREDIT_PASSPORT_SIGNING_KEY`. A key not yet
+ * in the registry is registered and retires the previous one, so rotating is
+ * a matter of replacing the secret.
+ *
+ * @param db - Kysely database instance
+ * @param now - Current time
+ * @returns Private key and its registry ID
+ * @throws {AppError} SIGNING_KEY_UNAVAILABLE if the key is missing or malformed
+ * @throws {AppError} SIGNING_KEY_REVOKED if the key was revoked or rotated out
+ */
+export async function getActiveSigningKey(
+  db: Kysely<Database>,
+  now = new Date(),
+): Promise<ActiveSigningKey> {
+  const hex = process.env.CREDIT_PASSPORT_SIGNING_KEY?.trim()
+  if (!hex || !/^[0-9a-fA-F]{64}$/.test(hex)) {
+    throw new AppError('SIGNING_KEY_UNAVAILABLE')
+  }
+
+  const { getPublicKeyAsync } = await import('@noble/ed25519')
+  const { deriveKeyId } = await import('./key-registry-service')
+  const { getSigningKeyByKeyId, rotateSigningKey } =
+    await import('./key-registry-repository')
+
+  const privateKey = new Uint8Array(
+    hex.match(/.{2}/g)!.map((byte) => parseInt(byte, 16)),
+  )
+  const publicKey = Array.from(await getPublicKeyAsync(privateKey))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('')
+  const keyId = await deriveKeyId(publicKey)
+
+  const existing = await getSigningKeyByKeyId(db, keyId)
+  if (!existing) {
+    await rotateSigningKey(db, { keyId, publicKey }, now)
+  } else if (existing.status !== 'active') {
+    throw new AppError('SIGNING_KEY_REVOKED', {
+      metadata: { keyId, status: existing.status },
+    })
+  }
+
+  return { keyId, privateKey, publicKey }
+}
+
+/**
+ * Store a credit report signed with the active key. The row is signed as it
+ * reads back, so dates and metrics verify exactly as the database returns
+ * them.
+ *
+ * @param db - Kysely database instance
+ * @param report - Report to store, without its signature
+ * @param now - Issue time
+ * @returns Report ID
+ * @throws {AppError} SIGNING_KEY_UNAVAILABLE if no signing key is configured
+ * @throws {AppError} SIGNING_KEY_REVOKED if the key was revoked or rotated out
+ */
+export async function issueSignedReport(
+  db: Kysely<Database>,
+  report: Omit<
+    CreditReportInsert,
+    'reportHash' | 'signature' | 'publicKey' | 'keyId' | 'createdAt'
+  >,
+  now = new Date(),
+): Promise<string> {
+  // Registers a new key in its own transaction, so it runs first
+  const key = await getActiveSigningKey(db, now)
+
+  const { buildSignedReportContent } = await import('./key-registry-service')
+  const { signPayload } = await import('./signature-service')
+  const {
+    getCreditReportById,
+    insertCreditReport,
+    updateCreditReportSignature,
+  } = await import('./repository')
+
+  return db.transaction().execute(async (trx) => {
+    const reportId = await insertCreditReport(trx, {
+      ...report,
+      reportHash: '',
+      signature: '',
+      publicKey: key.publicKey,
+      keyId: key.keyId,
+      createdAt: now,
+    })
+    const stored = await getCreditReportById(trx, reportId)
+    const signature = await signPayload(
+      buildSignedReportContent(stored!),
+      key.privateKey,
+      key.keyId,
+    )
+    await updateCreditReportSignature(trx, reportId, {
+      reportHash: signature.hash,
+      signature: signature.signature,
+    })
+    return reportId
+  })
+}
+
+/**
+ * Published registry of every key that has signed passports
+ *
+ * @returns Keys, newest first
+ */
+export async function getPublishedKeyRegistry(): Promise<
+  Array<PublishedSigningKey>
+> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+
+  const { toPublishedKey } = await import('./key-registry-service')
+  const { getSigningKeys } = await import('./key-registry-repository')
+
+  try {
+    const keys = await getSigningKeys(db)
+    return keys.map(toPublishedKey)
+  } catch (error) {
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to load signing keys',
+      cause: error,
+    })
+  }
+}
+
+/**
+ * Load a report with its detached signature and registry key
+ */
+async function loadSignedReport(db: Kysely<Database>, reportId: string) {
+  const { buildSignedReportContent, deriveKeyId, toPublishedKey } =
+    await import('./key-registry-service')
+  const { getSigningKeyByKeyId } = await import('./key-registry-repository')
+  const { getCreditReportById } = await import('./repository')
+
+  const report = await getCreditReportById(db, reportId)
+  if (!report || report.deletedAt) {
+    throw new AppError('REPORT_NOT_FOUND', { metadata: { reportId } })
+  }
+
+  // Reports signed before the registry carry no key ID; it is derivable
+  const keyId = report.keyId ?? (await deriveKeyId(report.publicKey))
+  const key = await getSigningKeyByKeyId(db, keyId)
+  const signature: PayloadSignature = {
+    algorithm: 'Ed25519',
+    keyId,
+    hash: report.reportHash,
+    signature: report.signature,
+    publicKey: report.publicKey,
+  }
+
+  return {
+    report,
+    content: buildSignedReportContent(report),
+    signature,
+    key: key ? toPublishedKey(key) : null,
+  }
+}
+
+/**
+ * Check a stored report's signature against the key registry
+ *
+ * @param db - Kysely database instance
+ * @param reportId - Report ID
+ * @returns The report, its signature and each check
+ * @throws {AppError} REPORT_NOT_FOUND if the report does not exist
+ */
+export async function checkReportSignature(
+  db: Kysely<Database>,
+  reportId: string,
+) {
+  const { verifySignedReport } = await import('./key-registry-service')
+
+  const { report, content, signature, key } = await loadSignedReport(
+    db,
+    reportId,
+  )
+  const verification = await verifySignedReport(content, signature, key)
+  return { report, signature, verification }
+}
+
+/**
+ * Verify a report's signature and signing key, and log the check
+ *
+ * @param reportId - Report ID
+ * @param accessor - Requester IP and user agent
+ * @returns Verification result and public metrics
+ * @throws {AppError} REPORT_NOT_FOUND if the report does not exist
+ */
+export async function verifyCreditReport(
+  reportId: string,
+  accessor: { ip: string | null; userAgent: string | null },
+): Promise<CreditReportVerification> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+
+  const { getAccessLogsForReport, logReportAccess } =
+    await import('./repository')
+
+  try {
+    const { report, signature, verification } = await checkReportSignature(
+      db,
+      reportId,
+    )
+    const isValid = verification.valid && report.status !== 'revoked'
+
+    await logReportAccess(db, {
+      reportId,
+      accessType: 'verify',
+      accessorIp: accessor.ip,
+      accessorUserAgent: accessor.userAgent,
+      verificationResult: {
+        isValid,
+        keyId: signature.keyId,
+        keyFailure: verification.keyFailure,
+        checks: verification.checks,
+      },
+    })
+    const logs = await getAccessLogsForReport(db, reportId)
+
+    const metrics = report.metricsSnapshot as Partial<ReportMetrics>
+    return {
+      id: report.id,
+      reportType: report.reportType,
+      createdAt: report.createdAt,
+      expiresAt: report.expiresAt,
+      expired: verification.expired || report.status === 'expired',
+      isValid,
+      verificationCount: logs.filter((log) => log.accessType === 'verify')
+        .length,
+      keyId: signature.keyId,
+      keyStatus: verification.keyStatus,
+      keyFailure: verification.keyFailure,
+      checks: verification.checks,
+      publicMetrics: {
+        creditScore: metrics.creditScore?.score ?? null,
+        creditGrade: metrics.creditScore?.grade ?? null,
+        productionCapacity: metrics.trackRecord?.productionVolume ?? null,
+        sustainabilityScore: null,
+      },
+    }
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to verify credit report',
+      cause: error,
+    })
+  }
+}
+
+/**
+ * Build the offline verification bundle for a report. The bundle carries the
+ * full metrics, so only the report's owner can download it to pass on.
+ *
+ * @param userId - ID of the user downloading
+ * @param reportId - Report ID
+ * @param accessor - Requester IP and user agent
+ * @returns Report JSON, signature and the full key chain
+ * @throws {AppError} REPORT_NOT_FOUND if the report does not exist
+ * @throws {AppError} ACCESS_DENIED if the user does not own the report
+ */
+export async function getVerificationBundle(
+  userId: string,
+  reportId: string,
+  accessor: { ip: string | null; userAgent: string | null },
+): Promise<VerificationBundle> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+
+  const { buildVerificationBundle, toPublishedKey } =
+    await import('./key-registry-service')
+  const { getSigningKeys } = await import('./key-registry-repository')
+  const { logReportAccess } = await import('./repository')
+
+  try {
+    const { report, content, signature } = await loadSignedReport(db, reportId)
+    if (report.userId !== userId) {
+      throw new AppError('ACCESS_DENIED', { metadata: { reportId } })
+    }
+    const keys = await getSigningKeys(db)
+
+    await logReportAccess(db, {
+      reportId,
+      accessType: 'download',
+      accessorIp: accessor.ip,
+      accessorUserAgent: accessor.userAgent,
+      verificationResult: null,
+    })
+
+    return buildVerificationBundle(
+      reportId,
+      content,
+      signature,
+      keys.map(toPublishedKey),
+      new Date(),
+    )
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to build verification bundle',
+      cause: error,
+    })
+  }
+}
+
+/**
+ * Revoke a compromised signing key. Every report it signed stops verifying.
+ *
+ * @param keyId - Public key ID
+ * @param reason - Why the key was revoked
+ * @throws {AppError} SIGNING_KEY_NOT_FOUND if the key is not in the registry
+ * @throws {AppError} SIGNING_KEY_ALREADY_REVOKED if it was revoked before
+ */
+export async function revokeRegistryKey(
+  keyId: string,
+  reason: string,
+): Promise<void> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+
+  const { getSigningKeyByKeyId, revokeSigningKey } =
+    await import('./key-registry-repository')
+
+  const key = await getSigningKeyByKeyId(db, keyId)
+  if (!key) throw new AppError('SIGNING_KEY_NOT_FOUND', { metadata: { keyId } })
+
+  try {
+    const revoked = await revokeSigningKey(db, keyId, reason, new Date())
+    if (!revoked) {
+      throw new AppError('SIGNING_KEY_ALREADY_REVOKED', { metadata: { keyId } })
+    }
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to revoke signing key',
+      cause: error,
+    })
+  }
+}
+
+const accessorFromRequest = async () => {
+  const { getRequestHeaders } = await import('@tanstack/react-start/server')
+  const headers = getRequestHeaders()
+  return {
+    ip: headers.get('cf-connecting-ip') ?? headers.get('x-forwarded-for'),
+    userAgent: headers.get('user-agent'),
+  }
+}
+
+/**
+ * Server function for an owner to download a report's offline verification
+ * bundle
+ */
+export const getVerificationBundleFn = createServerFn({ method: 'GET' })
+  .inputValidator(reportIdSchema)
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+    return getVerificationBundle(
+      session.user.id,
+      data.reportId,
+      await accessorFromRequest(),
+    )
+  })
+
+/**
+ * Server function to list registry keys for the admin page
+ */
+export const getSigningKeysFn = createServerFn({ method: 'GET' }).handler(
+  async () => {
+    const { requireAdmin } = await import('~/features/auth/server-middleware')
+    await requireAdmin()
+    return { keys: await getPublishedKeyRegistry() }
+  },
+)
+
+/**
+ * Server function to revoke a compromised signing key
+ */
+export const revokeSigningKeyFn = createServerFn({ method: 'POST' })
+  .inputValidator(revokeKeySchema)
+  .handler(async ({ data }) => {
+    const { requireAdmin } = await import('~/features/auth/server-middleware')
+    await requireAdmin()
+    await revokeRegistryKey(data.keyId, data.reason)
+    return { success: true }
+  })
+
+/**
+ * HTTP handler publishing the key registry, so banks can pin key IDs and
+ * check rotation and revocation
+ *
+ * @param request - Incoming request
+ * @returns Registry JSON
+ */
+export async function handleKeyRegistryRequest(
+  request: Request,
+): Promise<Response> {
+  if (request.method !== 'GET') {
+    return Response.json(
+      { error: 'METHOD_NOT_ALLOWED' },
+      { status: 405, headers: { Allow: 'GET' } },
+    )
+  }
+
+  try {
+    const keys = await getPublishedKeyRegistry()
+    return Response.json(
+      { keys },
+      { headers: { 'Cache-Control': 'public, max-age=300' } },
+    )
+  } catch (err) {
+    const { error: logError } = await import('~/lib/logger')
+    logError('Key registry request failed', err)
+    const error = err instanceof AppError ? err : new AppError('INTERNAL_ERROR')
+    return Response.json(error.toJSON(), { status: error.httpStatus })
+  }
+}
@@ -0,0 +1,345 @@
+/**
+ * Key registry and offline verification for credit passport signatures.
+ *
+ * Every signature names the registry key that made it. Keys are rotated by
+ * retiring the old key (its validity window closes but what it signed stays
+ * valid) and revoked when compromised (nothing it signed is trusted). The
+ * same checks run on the server and against an offline verification bundle,
+ * so a bank gets the same answer either way.
+ */
+
+import { canonicalJson, hashContent, verifyReport } from './signature-service'
+import type { SigningKeyStatus } from '~/lib/db/types'
+import type { PayloadSignature } from './signature-service'
+
+/** Identifies a verification bundle file */
+export const BUNDLE_FORMAT = 'livestockai-credit-passport-bundle'
+
+/** Current verification bundle version */
+export const BUNDLE_VERSION = 1
+
+/** Prefix of registry key IDs */
+export const KEY_ID_PREFIX = 'cpk_'
+
+/**
+ * A signing key as published in the registry
+ */
+export interface PublishedSigningKey {
+  keyId: string
+  algorithm: 'Ed25519'
+  publicKey: string
+  status: SigningKeyStatus
+  validFrom: string
+  validUntil: string | null
+  revokedAt: string | null
+  revocationReason: string | null
+}
+
+/**
+ * Signing key as stored, with dates
+ */
+export interface SigningKeyRecord {
+  keyId: string
+  algorithm: 'Ed25519'
+  publicKey: string
+  status: SigningKeyStatus
+  validFrom: Date
+  validUntil: Date | null
+  revokedAt: Date | null
+  revocationReason: string | null
+}
+
+/**
+ * Why a key does not vouch for a signature
+ */
+export type KeyCheckFailure =
+  | 'unknown_key'
+  | 'key_mismatch'
+  | 'key_revoked'
+  | 'not_yet_valid'
+  | 'signed_after_rotation'
+
+/**
+ * Report fields covered by the signature
+ */
+export interface SignedReportContent {
+  reportType: string
+  farmIds: Array<string>
+  batchIds: Array<string>
+  startDate: string
+  endDate: string
+  issuedAt: string
+  expiresAt: string
+  metrics: Record<string, any>
+}
+
+/**
+ * Self-contained file a bank can verify without calling the server
+ */
+export interface VerificationBundle {
+  format: string
+  version: number
+  reportId: string
+  report: SignedReportContent
+  signature: PayloadSignature
+  /** Every registry key, so rotation and revocation can be checked offline */
+  keyChain: Array<PublishedSigningKey>
+  exportedAt: string
+}
+
+/**
+ * Checks a verification runs, in order
+ */
+export type VerificationCheckName =
+  | 'format'
+  | 'content_hash'
+  | 'signature'
+  | 'key_fingerprint'
+  | 'key_registry'
+  | 'trusted_key'
+
+/**
+ * Outcome of verifying a signed report
+ */
+export interface ReportVerification {
+  /** True when every check passed */
+  valid: boolean
+  /** Whether the report is past its expiry date, which does not affect `valid` */
+  expired: boolean
+  checks: Array<{ name: VerificationCheckName; passed: boolean }>
+  /** Registry status of the signing key, null when the key is unknown */
+  keyStatus: SigningKeyStatus | null
+  /** Why the key does not vouch for the signature */
+  keyFailure: KeyCheckFailure | null
+}
+
+/**
+ * Derive a registry key ID from a public key. Pinning a key ID therefore
+ * pins the key itself.
+ *
+ * @param publicKey - Hex-encoded Ed25519 public key
+ * @returns Key ID, e.g. `cpk_3f2a9c0d1e4b5a6f`
+ *
+ * @example
+ * ```typescript
+ * const keyId = await deriveKeyId(publicKey)
+ * ```
+ */
+export async function deriveKeyId(publicKey: string): Promise<string> {
+  const hash = await hashContent(publicKey.toLowerCase())
+  return `${KEY_ID_PREFIX}${hash.slice(0, 16)}`
+}
+
+/**
+ * Convert a stored key to its published form
+ *
+ * @param key - Stored signing key
+ * @returns Key with ISO date strings
+ */
+export function toPublishedKey(key: SigningKeyRecord): PublishedSigningKey {
+  return {
+    keyId: key.keyId,
+    algorithm: key.algorithm,
+    publicKey: key.publicKey,
+    status: key.status,
+    validFrom: key.validFrom.toISOString(),
+    validUntil: key.validUntil?.toISOString() ?? null,
+    revokedAt: key.revokedAt?.toISOString() ?? null,
+    revocationReason: key.revocationReason,
+  }
+}
+
+/**
+ * Check whether a registry key vouches for a signature made at a given time.
+ * Revocation wins over the validity window: a compromised key may have
+ * signed anything, at any claimed time.
+ *
+ * @param key - Registry entry for the signature's key ID, or null
+ * @param publicKey - Public key the signature carries
+ * @param signedAt - When the report was issued
+ * @returns Null when the key vouches for the signature, otherwise why not
+ *
+ * @example
+ * ```typescript
+ * checkSigningKey(key, report.publicKey, report.createdAt)
+ * // null, or e.g. 'key_revoked'
+ * ```
+ */
+export function checkSigningKey(
+  key: PublishedSigningKey | null,
+  publicKey: string,
+  signedAt: Date,
+): KeyCheckFailure | null {
+  if (!key) return 'unknown_key'
+  if (key.publicKey.toLowerCase() !== publicKey.toLowerCase()) {
+    return 'key_mismatch'
+  }
+  if (key.status === 'revoked') return 'key_revoked'
+  if (signedAt < new Date(key.validFrom)) return 'not_yet_valid'
+  if (key.validUntil && signedAt > new Date(key.validUntil)) {
+    return 'signed_after_rotation'
+  }
+  return null
+}
+
+/**
+ * Collect the report fields a credit passport signature covers
+ *
+ * @param report - Stored report
+ * @returns Content to hash and sign
+ */
+export function buildSignedReportContent(report: {
+  reportType: string
+  farmIds: Array<string>
+  batchIds: Array<string>
+  startDate: Date
+  endDate: Date
+  createdAt: Date
+  expiresAt: Date
+  metricsSnapshot: Record<string, any>
+}): SignedReportContent {
+  return {
+    reportType: report.reportType,
+    farmIds: report.farmIds,
+    batchIds: report.batchIds,
+    startDate: report.startDate.toISOString(),
+    endDate: report.endDate.toISOString(),
+    issuedAt: report.createdAt.toISOString(),
+    expiresAt: report.expiresAt.toISOString(),
+    metrics: report.metricsSnapshot,
+  }
+}
+
+/**
+ * Verify a signed report against a registry key
+ *
+ * @param content - Signed report fields
+ * @param signature - Detached signature
+ * @param key - Registry entry for `signature.keyId`, or null
+ * @param options - Key IDs the verifier pins, and the time to check expiry at
+ * @returns Each check and the overall result
+ *
+ * @example
+ * ```typescript
+ * const result = await verifySignedReport(content, signature, key)
+ * if (!result.valid) console.log(result.checks.filter((c) => !c.passed))
+ * ```
+ */
+export async function verifySignedReport(
+  content: SignedReportContent,
+  signature: PayloadSignature,
+  key: PublishedSigningKey | null,
+  options: { trustedKeyIds?: Array<string>; now?: Date } = {},
+): Promise<ReportVerification> {
+  const checks: ReportVerification['checks'] = [
+    {
+      name: 'content_hash',
+      passed: (await hashContent(canonicalJson(content))) === signature.hash,
+    },
+    {
+      name: 'signature',
+      passed: await verifyReport(
+        signature.hash,
+        signature.signature,
+        signature.publicKey,
+      ),
+    },
+    {
+      name: 'key_fingerprint',
+      passed: (await deriveKeyId(signature.publicKey)) === signature.keyId,
+    },
+  ]
+
+  const keyFailure = checkSigningKey(
+    key,
+    signature.publicKey,
+    new Date(content.issuedAt),
+  )
+  checks.push({ name: 'key_registry', passed: keyFailure === null })
+
+  if (options.trustedKeyIds) {
+    checks.push({
+      name: 'trusted_key',
+      passed: options.trustedKeyIds.includes(signature.keyId),
+    })
+  }
+
+  return {
+    valid: checks.every((check) => check.passed),
+    expired: (options.now ?? new Date()) > new Date(content.expiresAt),
+    checks,
+    keyStatus: key?.status ?? null,
+    keyFailure,
+  }
+}
+
+/**
+ * Assemble the offline verification bundle for a report
+ *
+ * @param reportId - Report ID
+ * @param content - Signed report fields
+ * @param signature - Detached signature
+ * @param keys - Every registry key
+ * @param exportedAt - Export time
+ * @returns Bundle to serialize as JSON
+ */
+export function buildVerificationBundle(
+  reportId: string,
+  content: SignedReportContent,
+  signature: PayloadSignature,
+  keys: Array<PublishedSigningKey>,
+  exportedAt: Date,
+): VerificationBundle {
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    reportId,
+    report: content,
+    signature,
+    keyChain: keys,
+    exportedAt: exportedAt.toISOString(),
+  }
+}
+
+/**
+ * Verify a bundle offline. The bundle's key chain says whether the key was
+ * rotated or revoked as of export; pass the key IDs you trust (taken once
+ * from the published registry) so a forged chain cannot vouch for itself.
+ *
+ * @param bundle - Parsed bundle JSON
+ * @param options - Pinned key IDs, and the time to check expiry at
+ * @returns Each check and the overall result
+ *
+ * @example
+ * ```typescript
+ * const result = await verifyVerificationBundle(JSON.parse(file), {
+ *   trustedKeyIds: ['cpk_3f2a9c0d1e4b5a6f'],
+ * })
+ * ```
+ */
+export async function verifyVerificationBundle(
+  bundle: VerificationBundle,
+  options: { trustedKeyIds?: Array<string>; now?: Date } = {},
+): Promise<ReportVerification> {
+  const formatOk =
+    bundle.format === BUNDLE_FORMAT && bundle.version === BUNDLE_VERSION
+
+  const key =
+    bundle.keyChain.find((k) => k.keyId === bundle.signature.keyId) ?? null
+  const result = await verifySignedReport(
+    bundle.report,
+    bundle.signature,
+    key,
+    options,
+  )
+  const checks = [
+    { name: 'format' as const, passed: formatOk },
+    ...result.checks,
+  ]
+
+  return {
+    ...result,
+    valid: formatOk && result.valid,
+    checks,
+  }
+}
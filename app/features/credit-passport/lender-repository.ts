@@ -0,0 +1,371 @@
+/**
+ * Database operations for lender consents and API access.
+ * All functions are pure data access - no business logic.
+ */
+
+import { sql } from 'kysely'
+import type { Kysely } from 'kysely'
+import type { LenderMetricsData } from './lender-service'
+import type { Database, LenderScope } from '~/lib/db/types'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Lender consent, without its token hash
+ */
+export interface LenderConsentRecord {
+  id: string
+  userId: string
+  farmIds: Array<string>
+  scopes: Array<LenderScope>
+  lenderName: string
+  lenderEmail: string | null
+  purpose: string | null
+  periodMonths: number
+  tokenHint: string
+  expiresAt: Date
+  revokedAt: Date | null
+  lastAccessedAt: Date | null
+  createdAt: Date
+}
+
+/**
+ * Data for inserting a lender consent
+ */
+export interface LenderConsentInsert {
+  userId: string
+  farmIds: Array<string>
+  scopes: Array<LenderScope>
+  lenderName: string
+  lenderEmail: string | null
+  purpose: string | null
+  periodMonths: number
+  tokenHash: string
+  tokenHint: string
+  expiresAt: Date
+}
+
+/**
+ * Lender API pull, with the lender it was made for
+ */
+export interface LenderAccessLog {
+  id: string
+  consentId: string
+  lenderName: string
+  scopes: Array<LenderScope> | null
+  accessorIp: string | null
+  accessorUserAgent: string | null
+  accessedAt: Date
+}
+
+const consentColumns = [
+  'id',
+  'userId',
+  'farmIds',
+  'scopes',
+  'lenderName',
+  'lenderEmail',
+  'purpose',
+  'periodMonths',
+  'tokenHint',
+  'expiresAt',
+  'revokedAt',
+  'lastAccessedAt',
+  'createdAt',
+] as const
+
+// ============================================================================
+// Consents
+// ============================================================================
+
+/**
+ * Insert a lender consent
+ *
+ * @param db - Kysely database instance
+ * @param data - Consent data
+ * @returns ID of the new consent
+ */
+export async function insertLenderConsent(
+  db: Kysely<Database>,
+  data: LenderConsentInsert,
+): Promise<string> {
+  const result = await db
+    .insertInto('lender_consents')
+    .values({
+      ...data,
+      farmIds: sql<Array<string>>`${JSON.stringify(data.farmIds)}::jsonb`,
+      scopes: sql<Array<LenderScope>>`${JSON.stringify(data.scopes)}::jsonb`,
+    })
+    .returning('id')
+    .executeTakeFirstOrThrow()
+  return result.id
+}
+
+/**
+ * Get a farmer's lender consents
+ *
+ * @param db - Kysely database instance
+ * @param userId - Farmer user ID
+ * @returns Consents, newest first
+ */
+export async function getLenderConsentsByUser(
+  db: Kysely<Database>,
+  userId: string,
+): Promise<Array<LenderConsentRecord>> {
+  return await db
+    .selectFrom('lender_consents')
+    .select(consentColumns)
+    .where('userId', '=', userId)
+    .orderBy('createdAt', 'desc')
+    .execute()
+}
+
+/**
+ * Get a lender consent by ID
+ *
+ * @param db - Kysely database instance
+ * @param id - Consent ID
+ * @returns Consent, or null if not found
+ */
+export async function getLenderConsentById(
+  db: Kysely<Database>,
+  id: string,
+): Promise<LenderConsentRecord | null> {
+  const consent = await db
+    .selectFrom('lender_consents')
+    .select(consentColumns)
+    .where('id', '=', id)
+    .executeTakeFirst()
+  return consent ?? null
+}
+
+/**
+ * Get the lender consent an access token belongs to
+ *
+ * @param db - Kysely database instance
+ * @param tokenHash - SHA-256 hash of the token
+ * @returns Consent, or null if no consent has this token
+ */
+export async function getLenderConsentByTokenHash(
+  db: Kysely<Database>,
+  tokenHash: string,
+): Promise<LenderConsentRecord | null> {
+  const consent = await db
+    .selectFrom('lender_consents')
+    .select(consentColumns)
+    .where('tokenHash', '=', tokenHash)
+    .executeTakeFirst()
+  return consent ?? null
+}
+
+/**
+ * Revoke a consent, unless it was already revoked
+ *
+ * @param db - Kysely database instance
+ * @param id - Consent ID
+ * @param revokedAt - Revocation time
+ * @returns Whether the consent was still unrevoked
+ */
+export async function revokeLenderConsent(
+  db: Kysely<Database>,
+  id: string,
+  revokedAt: Date,
+): Promise<boolean> {
+  const result = await db
+    .updateTable('lender_consents')
+    .set({ revokedAt, updatedAt: revokedAt })
+    .where('id', '=', id)
+    .where('revokedAt', 'is', null)
+    .executeTakeFirst()
+  return Number(result.numUpdatedRows) > 0
+}
+
+// ============================================================================
+// Access logs
+// ============================================================================
+
+/**
+ * Log a lender API pull and stamp the consent's last access
+ *
+ * @param db - Kysely database instance
+ * @param data - Consent, returned scopes and requester details
+ */
+export async function logLenderAccess(
+  db: Kysely<Database>,
+  data: {
+    consentId: string
+    scopes: Array<LenderScope>
+    accessorIp: string | null
+    accessorUserAgent: string | null
+    accessedAt: Date
+  },
+): Promise<void> {
+  await db
+    .insertInto('report_access_logs')
+    .values({
+      reportId: null,
+      consentId: data.consentId,
+      accessType: 'api',
+      scopes: sql<Array<LenderScope>>`${JSON.stringify(data.scopes)}::jsonb`,
+      accessorIp: data.accessorIp,
+      accessorUserAgent: data.accessorUserAgent,
+      verificationResult: null,
+      accessedAt: data.accessedAt,
+    })
+    .execute()
+
+  await db
+    .updateTable('lender_consents')
+    .set({ lastAccessedAt: data.accessedAt })
+    .where('id', '=', data.consentId)
+    .execute()
+}
+
+/**
+ * Get lender API pulls across a farmer's consents
+ *
+ * @param db - Kysely database instance
+ * @param userId - Farmer user ID
+ * @param limit - Maximum entries
+ * @returns Pulls, newest first
+ */
+export async function getLenderAccessLogsByUser(
+  db: Kysely<Database>,
+  userId: string,
+  limit = 100,
+): Promise<Array<LenderAccessLog>> {
+  return await db
+    .selectFrom('report_access_logs')
+    .innerJoin(
+      'lender_consents',
+      'lender_consents.id',
+      'report_access_logs.consentId',
+    )
+    .select([
+      'report_access_logs.id',
+      'lender_consents.id as consentId',
+      'lender_consents.lenderName',
+      'report_access_logs.scopes',
+      'report_access_logs.accessorIp',
+      'report_access_logs.accessorUserAgent',
+      'report_access_logs.accessedAt',
+    ])
+    .where('lender_consents.userId', '=', userId)
+    .orderBy('report_access_logs.accessedAt', 'desc')
+    .limit(limit)
+    .execute()
+}
+
+// ============================================================================
+// Metrics data
+// ============================================================================
+
+/**
+ * Get the records lender metrics are computed from
+ *
+ * @param db - Kysely database instance
+ * @param farmIds - Consented farm IDs
+ * @param startDate - Start of the reporting window
+ * @param endDate - End of the reporting window
+ * @returns Sales and expenses in the window, and the farms' batches, hives
+ *   and structures
+ */
+export async function getLenderMetricsData(
+  db: Kysely<Database>,
+  farmIds: Array<string>,
+  startDate: Date,
+  endDate: Date,
+): Promise<LenderMetricsData> {
+  const sales = await db
+    .selectFrom('sales')
+    .select(['totalAmount', 'livestockType', 'date', 'customerId'])
+    .where('farmId', 'in', farmIds)
+    .where('date', '>=', startDate)
+    .where('date', '<=', endDate)
+    .where('deletedAt', 'is', null)
+    .execute()
+
+  const expenses = await db
+    .selectFrom('expenses')
+    .select(['amount', 'category', 'date'])
+    .where('farmId', 'in', farmIds)
+    .where('date', '>=', startDate)
+    .where('date', '<=', endDate)
+    .where('deletedAt', 'is', null)
+    .execute()
+
+  const batches = await db
+    .selectFrom('batches')
+    .select([
+      'id',
+      'livestockType',
+      'initialQuantity',
+      'currentQuantity',
+      'target_weight_g',
+      'targetPricePerUnit',
+      'status',
+      'acquisitionDate',
+    ])
+    .where('farmId', 'in', farmIds)
+    .where('deletedAt', 'is', null)
+    .execute()
+  const batchIds = batches.map((b) => b.id)
+
+  const feedRecords =
+    batchIds.length > 0
+      ? await db
+          .selectFrom('feed_records')
+          .select(['batchId', 'quantityKg'])
+          .where('batchId', 'in', batchIds)
+          .execute()
+      : []
+
+  const weightSamples =
+    batchIds.length > 0
+      ? await db
+          .selectFrom('weight_samples')
+          .select(['batchId', 'averageWeightKg', 'sampleSize'])
+          .where('batchId', 'in', batchIds)
+          .execute()
+      : []
+
+  const structures = await db
+    .selectFrom('structures')
+    .select(['id', 'type', 'status'])
+    .where('farmId', 'in', farmIds)
+    .where('deletedAt', 'is', null)
+    .execute()
+  const hives = structures.filter((s) => s.type === 'hive')
+
+  const hiveHarvests =
+    hives.length > 0
+      ? await db
+          .selectFrom('hive_harvests')
+          .select(['structureId', 'product', 'quantityKg'])
+          .where(
+            'structureId',
+            'in',
+            hives.map((h) => h.id),
+          )
+          .execute()
+      : []
+
+  return {
+    sales,
+    expenses,
+    batches,
+    feedRecords,
+    weightSamples: weightSamples.map((w) => ({
+      batchId: w.batchId,
+      averageWeightG: Number(w.averageWeightKg) * 1000,
+      sampleSize: w.sampleSize,
+    })),
+    hives: hives.map((h) => ({ id: h.id, status: h.status })),
+    hiveHarvests,
+    structures: structures
+      .filter((s) => s.status === 'active')
+      .map((s) => ({ id: s.id })),
+  }
+}
@@ -0,0 +1,358 @@
+import { createServerFn } from '@tanstack/react-start'
+import { z } from 'zod'
+import type { LenderMetricsPayload } from './lender-service'
+import type { LenderAccessLog, LenderConsentRecord } from './lender-repository'
+import type { PayloadSignature } from './signature-service'
+import { AppError } from '~/lib/errors'
+
+export type { LenderAccessLog, LenderConsentRecord }
+
+/** Path of the lender metrics endpoint */
+export const LENDER_METRICS_PATH = '/api/credit-passport/v1/metrics'
+
+/** Path listing the scoring profiles a lender can select */
+export const SCORING_PROFILES_PATH = '/api/credit-passport/v1/scoring-profiles'
+
+const scopeSchema = z.enum([
+  'financial',
+  'operational',
+  'track_record',
+  'credit_score',
+])
+
+const createConsentSchema = z.object({
+  farmIds: z.array(z.string().uuid()).min(1),
+  scopes: z.array(scopeSchema).min(1),
+  lenderName: z.string().trim().min(1).max(200),
+  lenderEmail: z.string().email().nullable().optional(),
+  purpose: z.string().trim().max(500).nullable().optional(),
+  durationDays: z.number().int(),
+  periodMonths: z.number().int().min(1).max(36).optional(),
+})
+
+/**
+ * Signed metrics returned to a lender
+ */
+export interface SignedLenderMetrics {
+  payload: LenderMetricsPayload
+  signature: PayloadSignature
+}
+
+/**
+ * A farmer's consents with every lender pull made under them
+ */
+export interface LenderConsentDashboard {
+  consents: Array<
+    LenderConsentRecord & { status: 'active' | 'expired' | 'revoked' }
+  >
+  accessLogs: Array<LenderAccessLog>
+}
+
+/**
+ * Grant a lender time-boxed access to passport metrics. The token is
+ * returned once and only its hash is kept.
+ *
+ * @param userId - Farmer granting consent
+ * @param input - Farms, scopes, lender and duration
+ * @returns Consent ID and the token to hand to the lender
+ * @throws {AppError} ACCESS_DENIED if the farmer cannot access every farm
+ */
+export async function createLenderConsent(
+  userId: string,
+  input: z.infer<typeof createConsentSchema>,
+): Promise<{ consentId: string; token: string; expiresAt: Date }> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+
+  const { checkMultipleFarmAccess } = await import('~/features/auth/utils')
+  const { hashApiKey } = await import('~/features/sensors/service')
+  const {
+    DEFAULT_CONSENT_PERIOD_MONTHS,
+    generateConsentToken,
+    getTokenHint,
+    validateConsentInput,
+  } = await import('./lender-service')
+  const { insertLenderConsent } = await import('./lender-repository')
+
+  const validationError = validateConsentInput(input)
+  if (validationError) {
+    throw new AppError('VALIDATION_ERROR', { message: validationError })
+  }
+
+  const farmIds = [...new Set(input.farmIds)]
+  const access = await checkMultipleFarmAccess(userId, farmIds)
+  if (farmIds.some((id) => !access[id])) {
+    throw new AppError('ACCESS_DENIED', { metadata: { farmIds } })
+  }
+
+  try {
+    const token = generateConsentToken()
+    const expiresAt = new Date(Date.now() + input.durationDays * 86_400_000)
+    const consentId = await insertLenderConsent(db, {
+      userId,
+      farmIds,
+      scopes: [...new Set(input.scopes)],
+      lenderName: input.lenderName,
+      lenderEmail: input.lenderEmail ?? null,
+      purpose: input.purpose || null,
+      periodMonths: input.periodMonths ?? DEFAULT_CONSENT_PERIOD_MONTHS,
+      tokenHash: await hashApiKey(token),
+      tokenHint: getTokenHint(token),
+      expiresAt,
+    })
+    return { consentId, token, expiresAt }
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to create lender consent',
+      cause: error,
+    })
+  }
+}
+
+export const createLenderConsentFn = createServerFn({ method: 'POST' })
+  .inputValidator(createConsentSchema)
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+    return createLenderConsent(session.user.id, data)
+  })
+
+/**
+ * Revoke a consent so its token stops working immediately
+ *
+ * @param userId - Farmer who granted the consent
+ * @param consentId - Consent ID
+ * @throws {AppError} LENDER_CONSENT_NOT_FOUND if the farmer has no such consent
+ */
+export async function revokeLenderConsentForUser(
+  userId: string,
+  consentId: string,
+): Promise<{ success: true }> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+
+  const { getLenderConsentById, revokeLenderConsent } =
+    await import('./lender-repository')
+
+  const consent = await getLenderConsentById(db, consentId)
+  if (!consent || consent.userId !== userId) {
+    throw new AppError('LENDER_CONSENT_NOT_FOUND', {
+      metadata: { resource: 'LenderConsent', id: consentId },
+    })
+  }
+  await revokeLenderConsent(db, consentId, new Date())
+  return { success: true }
+}
+
+export const revokeLenderConsentFn = createServerFn({ method: 'POST' })
+  .inputValidator(z.object({ consentId: z.string().uuid() }))
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+    return revokeLenderConsentForUser(session.user.id, data.consentId)
+  })
+
+export const getLenderConsentDashboardFn = createServerFn({ method: 'GET' })
+  .inputValidator(z.object({}).optional())
+  .handler(async (): Promise<LenderConsentDashboard> => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+
+    const { getDb } = await import('~/lib/db')
+    const db = await getDb()
+
+    const { getConsentStatus } = await import('./lender-service')
+    const { getLenderAccessLogsByUser, getLenderConsentsByUser } =
+      await import('./lender-repository')
+
+    const now = new Date()
+    const [consents, accessLogs] = await Promise.all([
+      getLenderConsentsByUser(db, session.user.id),
+      getLenderAccessLogsByUser(db, session.user.id),
+    ])
+    return {
+      consents: consents.map((consent) => ({
+        ...consent,
+        status: getConsentStatus(consent, now),
+      })),
+      accessLogs,
+    }
+  })
+
+/**
+ * Compute and sign the metrics a lender's token grants, and log the pull.
+ *
+ * @param token - Lender access token
+ * @param query - Comma-separated scopes (null for all granted) and scoring
+ *   profile (null to match the farms' species and currency)
+ * @param accessor - Requester IP and user agent, for the access log
+ * @param now - Current time
+ * @returns Payload with a detached Ed25519 signature over its canonical JSON
+ * @throws {AppError} INVALID_CONSENT_TOKEN if no consent has this token
+ * @throws {AppError} CONSENT_REVOKED / CONSENT_EXPIRED if it can no longer be
+ *   used, including when the farmer has lost access to every consented farm
+ * @throws {AppError} CONSENT_SCOPE_DENIED if a requested scope was not granted
+ * @throws {AppError} SCORING_PROFILE_NOT_FOUND if the profile does not exist
+ */
+export async function getSignedLenderMetrics(
+  token: string,
+  query: { scopes: string | null; profile: string | null },
+  accessor: { ip: string | null; userAgent: string | null },
+  now: Date = new Date(),
+): Promise<SignedLenderMetrics> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+
+  const { checkMultipleFarmAccess } = await import('~/features/auth/utils')
+  const { hashApiKey } = await import('~/features/sensors/service')
+  const { getUserSettings } = await import('~/features/settings/repository')
+  const { DEFAULT_SETTINGS } =
+    await import('~/features/settings/currency-presets')
+  const {
+    buildLenderMetrics,
+    getConsentPeriod,
+    getConsentStatus,
+    resolveRequestedScopes,
+    selectScoringProfile,
+  } = await import('./lender-service')
+  const { getLenderConsentByTokenHash, getLenderMetricsData, logLenderAccess } =
+    await import('./lender-repository')
+  const { signPayload } = await import('./signature-service')
+  const { getActiveSigningKey } = await import('./key-registry-server')
+
+  const consent = await getLenderConsentByTokenHash(db, await hashApiKey(token))
+  if (!consent) throw new AppError('INVALID_CONSENT_TOKEN')
+
+  const status = getConsentStatus(consent, now)
+  if (status === 'revoked') throw new AppError('CONSENT_REVOKED')
+  if (status === 'expired') throw new AppError('CONSENT_EXPIRED')
+
+  // Only farms the farmer can still access; losing them all revokes the consent
+  const access = await checkMultipleFarmAccess(consent.userId, consent.farmIds)
+  const farmIds = consent.farmIds.filter((id) => access[id])
+  if (farmIds.length === 0) throw new AppError('CONSENT_REVOKED')
+
+  const { scopes, denied } = resolveRequestedScopes(
+    query.scopes,
+    consent.scopes,
+  )
+  if (denied.length > 0 || scopes.length === 0) {
+    throw new AppError('CONSENT_SCOPE_DENIED', {
+      metadata: { denied, granted: consent.scopes },
+    })
+  }
+
+  try {
+    const signingKey = await getActiveSigningKey(db, now)
+    const { startDate, endDate } = getConsentPeriod(consent.periodMonths, now)
+    const data = await getLenderMetricsData(db, farmIds, startDate, endDate)
+    const settings = await getUserSettings(db, consent.userId)
+    const profile = selectScoringProfile(
+      data,
+      settings?.currencyCode ?? DEFAULT_SETTINGS.currencyCode,
+      query.profile,
+    )
+    if (!profile) {
+      throw new AppError('SCORING_PROFILE_NOT_FOUND', {
+        metadata: { profile: query.profile },
+      })
+    }
+
+    const payload: LenderMetricsPayload = {
+      consentId: consent.id,
+      farmIds,
+      scopes,
+      period: {
+        startDate: startDate.toISOString(),
+        endDate: endDate.toISOString(),
+      },
+      generatedAt: now.toISOString(),
+      expiresAt: consent.expiresAt.toISOString(),
+      metrics: buildLenderMetrics(data, scopes, startDate, endDate, profile),
+    }
+    const signature = await signPayload(
+      payload,
+      signingKey.privateKey,
+      signingKey.keyId,
+    )
+
+    await logLenderAccess(db, {
+      consentId: consent.id,
+      scopes,
+      accessorIp: accessor.ip,
+      accessorUserAgent: accessor.userAgent,
+      accessedAt: now,
+    })
+
+    return { payload, signature }
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to build lender metrics',
+      cause: error,
+    })
+  }
+}
+
+function errorResponse(err: unknown): Response {
+  const error = err instanceof AppError ? err : new AppError('INTERNAL_ERROR')
+  const headers: Record<string, string> = { 'Cache-Control': 'no-store' }
+  if (error.reason === 'INVALID_CONSENT_TOKEN') {
+    headers['WWW-Authenticate'] = 'Bearer'
+  }
+  return Response.json(error.toJSON(), { status: error.httpStatus, headers })
+}
+
+/**
+ * HTTP handler for the lender endpoints. The scoring profile list is public.
+ * For metrics the lender sends its token as `Authorization: Bearer <token>`,
+ * may narrow the response with `?scopes=financial,credit_score` and may pick
+ * the credit score's profile with `?profile=poultry-ngn`.
+ *
+ * @param request - Incoming request
+ * @returns Signed metrics JSON, or an error
+ */
+export async function handleLenderApiRequest(
+  request: Request,
+): Promise<Response> {
+  if (request.method !== 'GET') {
+    return Response.json(
+      { error: 'METHOD_NOT_ALLOWED' },
+      { status: 405, headers: { Allow: 'GET' } },
+    )
+  }
+
+  const url = new URL(request.url)
+  if (url.pathname === SCORING_PROFILES_PATH) {
+    const { listScoringProfiles } = await import('./scoring-service')
+    return Response.json({ profiles: listScoringProfiles() })
+  }
+
+  const { parseBearerToken } = await import('./lender-service')
+  const token = parseBearerToken(request.headers.get('authorization'))
+  if (!token) return errorResponse(new AppError('INVALID_CONSENT_TOKEN'))
+
+  try {
+    const result = await getSignedLenderMetrics(
+      token,
+      {
+        scopes: url.searchParams.get('scopes'),
+        profile: url.searchParams.get('profile'),
+      },
+      {
+        ip:
+          request.headers.get('cf-connecting-ip') ??
+          request.headers.get('x-forwarded-for'),
+        userAgent: request.headers.get('user-agent'),
+      },
+    )
+    return Response.json(result, { headers: { 'Cache-Control': 'no-store' } })
+  } catch (err) {
+    if (!(err instanceof AppError) || err.httpStatus >= 500) {
+      const { error: logError } = await import('~/lib/logger')
+      logError('Lender API request failed', err)
+    }
+    return errorResponse(err)
+  }
+}
@@ -0,0 +1,396 @@
+/**
+ * Business logic for lender API access to credit passport metrics.
+ * All functions are pure - no side effects or database access.
+ */
+
+import { subMonths } from 'date-fns'
+import {
+  calculateAssetSummary,
+  calculateCreditScore,
+  calculateFinancialMetrics,
+  calculateOperationalMetrics,
+  calculateTrackRecord,
+} from './metrics-service'
+import { getScoringProfile, resolveScoringProfile } from './scoring-service'
+import type {
+  AssetBatchRecord,
+  CreditScore,
+  ExpenseRecord,
+  FinancialMetrics,
+  HiveHarvestRecord,
+  HiveRecord,
+  OperationalBatchRecord,
+  OperationalMetrics,
+  TrackRecord,
+  WeightRecord,
+} from './metrics-service'
+import type { ScoringProfile } from './scoring-service'
+import type { ReportMetrics } from './types'
+import type { LenderScope } from '~/lib/db/types'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Metric groups a lender can be granted, in response order */
+export const LENDER_SCOPES: ReadonlyArray<LenderScope> = [
+  'financial',
+  'operational',
+  'track_record',
+  'credit_score',
+]
+
+/** Consent durations a farmer can choose, in days */
+export const CONSENT_DURATIONS_DAYS = [30, 90, 180, 365] as const
+
+/** Default months of history metrics are computed over */
+export const DEFAULT_CONSENT_PERIOD_MONTHS = 12
+
+/** Prefix that marks a lender access token */
+export const CONSENT_TOKEN_PREFIX = 'lcp_'
+
+/** Characters of the token kept to tell tokens apart */
+const TOKEN_HINT_LENGTH = 4
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ConsentStatus = 'active' | 'expired' | 'revoked'
+
+export interface CreateConsentInput {
+  farmIds: Array<string>
+  scopes: Array<LenderScope>
+  lenderName: string
+  lenderEmail?: string | null
+  purpose?: string | null
+  durationDays: number
+  periodMonths?: number
+}
+
+/**
+ * Farm records metrics are computed from, already limited to the consented
+ * farms
+ */
+export interface LenderMetricsData {
+  sales: Array<{
+    totalAmount: string
+    livestockType: string
+    date: Date
+    customerId: string | null
+  }>
+  expenses: Array<ExpenseRecord>
+  batches: Array<
+    OperationalBatchRecord & AssetBatchRecord & { acquisitionDate: Date }
+  >
+  feedRecords: Array<{ batchId: string; quantityKg: string }>
+  weightSamples: Array<WeightRecord>
+  hives: Array<HiveRecord>
+  hiveHarvests: Array<HiveHarvestRecord>
+  structures: Array<{ id: string }>
+}
+
+export interface LenderMetrics {
+  financial?: FinancialMetrics
+  operational?: OperationalMetrics
+  trackRecord?: TrackRecord
+  creditScore?: CreditScore
+}
+
+/**
+ * Metrics returned to a lender, before signing
+ */
+export interface LenderMetricsPayload {
+  consentId: string
+  farmIds: Array<string>
+  scopes: Array<LenderScope>
+  period: { startDate: string; endDate: string }
+  generatedAt: string
+  expiresAt: string
+  metrics: LenderMetrics
+}
+
+// ============================================================================
+// Consents
+// ============================================================================
+
+/**
+ * Generate a lender access token. Only its hash is stored, so it is shown to
+ * the farmer once, to pass on to the lender.
+ *
+ * @returns Token such as `lcp_3f9a...`
+ */
+export function generateConsentToken(): string {
+  const bytes = new Uint8Array(32)
+  crypto.getRandomValues(bytes)
+  return (
+    CONSENT_TOKEN_PREFIX +
+    Array.from(bytes)
+      .map((b) => b.toString(16).padStart(2, '0'))
+      .join('')
+  )
+}
+
+/**
+ * Last characters of a token, shown on the consent dashboard
+ *
+ * @param token - Lender access token
+ * @returns Token hint
+ */
+export function getTokenHint(token: string): string {
+  return token.slice(-TOKEN_HINT_LENGTH)
+}
+
+/**
+ * Read the lender token from an `Authorization: Bearer <token>` header
+ *
+ * @param header - Authorization header value
+ * @returns Token, or null if the header does not carry one
+ */
+export function parseBearerToken(header: string | null): string | null {
+  if (!header) return null
+  const match = /^Bearer\s+(\S+)$/i.exec(header.trim())
+  if (!match || !match[1].startsWith(CONSENT_TOKEN_PREFIX)) return null
+  return match[1]
+}
+
+/**
+ * Whether a consent can still be used
+ *
+ * @param consent - Consent expiry and revocation
+ * @param now - Current time
+ * @returns Revoked, expired or active
+ */
+export function getConsentStatus(
+  consent: { expiresAt: Date; revokedAt: Date | null },
+  now: Date = new Date(),
+): ConsentStatus {
+  if (consent.revokedAt) return 'revoked'
+  if (consent.expiresAt <= now) return 'expired'
+  return 'active'
+}
+
+/**
+ * Validate a farmer's consent grant
+ *
+ * @param input - Consent details
+ * @returns Validation error message, or null if valid
+ */
+export function validateConsentInput(input: CreateConsentInput): string | null {
+  if (input.farmIds.length === 0) return 'Select at least one farm'
+  if (input.scopes.length === 0) return 'Select at least one data scope'
+  if (input.scopes.some((scope) => !LENDER_SCOPES.includes(scope))) {
+    return 'Unknown data scope'
+  }
+  if (input.lenderName.trim().length === 0) return 'Lender name is required'
+  if (!CONSENT_DURATIONS_DAYS.some((days) => days === input.durationDays)) {
+    return `Consent can last ${CONSENT_DURATIONS_DAYS.join(', ')} days`
+  }
+  const period = input.periodMonths ?? DEFAULT_CONSENT_PERIOD_MONTHS
+  if (!Number.isInteger(period) || period < 1 || period > 36) {
+    return 'Metrics period must be between 1 and 36 months'
+  }
+  return null
+}
+
+/**
+ * Scopes to return for a pull: the ones the lender asked for, or everything
+ * the consent grants when it asked for nothing in particular
+ *
+ * @param requested - Comma-separated scopes from the request, if any
+ * @param granted - Scopes the consent grants
+ * @returns Scopes in response order, or the ones that were not granted
+ *
+ * @example
+ * ```ts
+ * resolveRequestedScopes('financial', ['financial', 'credit_score'])
+ * // { scopes: ['financial'], denied: [] }
+ * resolveRequestedScopes('operational', ['financial'])
+ * // { scopes: [], denied: ['operational'] }
+ * ```
+ */
+export function resolveRequestedScopes(
+  requested: string | null,
+  granted: Array<LenderScope>,
+): { scopes: Array<LenderScope>; denied: Array<string> } {
+  const asked: Array<string> = requested
+    ? [
+        ...new Set(
+          requested
+            .split(',')
+            .map((s) => s.trim())
+            .filter(Boolean),
+        ),
+      ]
+    : granted
+  return {
+    scopes: LENDER_SCOPES.filter(
+      (scope) => asked.includes(scope) && granted.includes(scope),
+    ),
+    denied: asked.filter((scope) => !granted.some((g) => g === scope)),
+  }
+}
+
+// ============================================================================
+// Metrics
+// ============================================================================
+
+/**
+ * Reporting window of a consent, ending now
+ *
+ * @param periodMonths - Months of history
+ * @param now - Current time
+ * @returns Window start and end
+ */
+export function getConsentPeriod(periodMonths: number, now: Date = new Date()) {
+  return { startDate: subMonths(now, periodMonths), endDate: now }
+}
+
+/**
+ * Scoring profile for a farmer's metrics: the one asked for, or the one that
+ * fits the farms' main species and the farmer's currency
+ *
+ * @param data - Records of the consented farms
+ * @param currency - Farmer's currency
+ * @param requestedId - Profile a lender selected, if any
+ * @returns Profile, or null if the requested profile does not exist
+ */
+export function selectScoringProfile(
+  data: LenderMetricsData,
+  currency: string,
+  requestedId: string | null,
+): ScoringProfile | null {
+  if (requestedId) return getScoringProfile(requestedId)
+  return resolveScoringProfile(
+    [
+      ...data.batches.map((batch) => batch.livestockType),
+      ...data.hives.map(() => 'bees'),
+    ],
+    currency,
+  )
+}
+
+function calculateGroups(
+  data: LenderMetricsData,
+  startDate: Date,
+  endDate: Date,
+) {
+  const financial = calculateFinancialMetrics({
+    sales: data.sales.map((sale) => ({
+      ...sale,
+      customerId: sale.customerId ?? '',
+    })),
+    expenses: data.expenses,
+    startDate,
+    endDate,
+  })
+  const operational = calculateOperationalMetrics({
+    batches: data.batches,
+    feedRecords: data.feedRecords,
+    weightSamples: data.weightSamples,
+    hives: data.hives,
+    hiveHarvests: data.hiveHarvests,
+  })
+  const trackRecord = calculateTrackRecord({
+    batches: data.batches,
+    // Walk-in sales have no customer to count
+    sales: data.sales.flatMap((sale) =>
+      sale.customerId ? [{ ...sale, customerId: sale.customerId }] : [],
+    ),
+    reportDate: endDate,
+  })
+  return { financial, operational, trackRecord }
+}
+
+function scoreGroups(
+  data: LenderMetricsData,
+  groups: ReturnType<typeof calculateGroups>,
+  profile: ScoringProfile,
+): CreditScore {
+  return calculateCreditScore(
+    {
+      ...groups,
+      // Market prices are kept per species, so stock is valued at the
+      // farmer's target prices
+      assets: calculateAssetSummary({
+        batches: data.batches,
+        structures: data.structures,
+      }),
+    },
+    profile,
+  )
+}
+
+/**
+ * Score the consented farms, with the explanation of every factor
+ *
+ * @param data - Records of the consented farms
+ * @param startDate - Start of the reporting window
+ * @param endDate - End of the reporting window
+ * @param profile - Scoring profile
+ * @returns Credit score
+ */
+export function buildCreditScore(
+  data: LenderMetricsData,
+  startDate: Date,
+  endDate: Date,
+  profile: ScoringProfile,
+): CreditScore {
+  return scoreGroups(data, calculateGroups(data, startDate, endDate), profile)
+}
+
+/**
+ * Compute every metric group for the farmer's own passport report
+ *
+ * @param data - Records of the reported farms
+ * @param startDate - Start of the reporting window
+ * @param endDate - End of the reporting window
+ * @param profile - Scoring profile
+ * @returns Metrics to sign and print
+ */
+export function buildReportMetrics(
+  data: LenderMetricsData,
+  startDate: Date,
+  endDate: Date,
+  profile: ScoringProfile,
+): ReportMetrics {
+  const groups = calculateGroups(data, startDate, endDate)
+  return {
+    ...groups,
+    assets: calculateAssetSummary({
+      batches: data.batches,
+      structures: data.structures,
+    }),
+    creditScore: scoreGroups(data, groups, profile),
+  }
+}
+
+/**
+ * Compute the metric groups a lender may see. The credit score needs every
+ * group, so they are all computed, but only the scoped ones are returned.
+ *
+ * @param data - Records of the consented farms
+ * @param scopes - Scopes to return
+ * @param startDate - Start of the reporting window
+ * @param endDate - End of the reporting window
+ * @param profile - Profile the credit score is computed with
+ * @returns Scoped metrics
+ */
+export function buildLenderMetrics(
+  data: LenderMetricsData,
+  scopes: Array<LenderScope>,
+  startDate: Date,
+  endDate: Date,
+  profile: ScoringProfile,
+): LenderMetrics {
+  const groups = calculateGroups(data, startDate, endDate)
+
+  const metrics: LenderMetrics = {}
+  if (scopes.includes('financial')) metrics.financial = groups.financial
+  if (scopes.includes('operational')) metrics.operational = groups.operational
+  if (scopes.includes('track_record')) metrics.trackRecord = groups.trackRecord
+  if (scopes.includes('credit_score')) {
+    metrics.creditScore = scoreGroups(data, groups, profile)
+  }
+  return metrics
+}
@@ -4,6 +4,17 @@
  */
 
 import { differenceInMonths } from 'date-fns'
+import {
+  DEFAULT_SCORING_PROFILE_ID,
+  getScoringProfile,
+  scoreCredit,
+} from './scoring-service'
+import type {
+  CreditGrade,
+  CreditScoreInput,
+  ScoreExplanation,
+  ScoringProfile,
+} from './scoring-service'
 import { toNumber } from '~/features/settings/currency'
 import { calculateFCR } from '~/lib/utils/calculations'
 
@@ -53,6 +64,23 @@ export interface WeightRecord {
   sampleSize: number
 }
 
+/**
+ * Hive structure record for apiary yield
+ */
+export interface HiveRecord {
+  id: string
+  status: string
+}
+
+/**
+ * Hive harvest record structure from database
+ */
+export interface HiveHarvestRecord {
+  structureId: string
+  product: 'honey' | 'wax'
+  quantityKg: string
+}
+
 /**
  * Batch record for asset summary
  */
@@ -118,6 +146,9 @@ export interface OperationalMetricsInput {
   batches: Array<OperationalBatchRecord>
   feedRecords: Array<FeedRecord>
   weightSamples: Array<WeightRecord>
+  /** Hive structures, for farms running the bees module */
+  hives?: Array<HiveRecord>
+  hiveHarvests?: Array<HiveHarvestRecord>
 }
 
 /**
@@ -128,6 +159,10 @@ export interface OperationalMetrics {
   avgMortalityRate: number
   growthPerformanceIndex: number
   batchCount: number
+  /** Active hives (one colony each) */
+  colonyCount: number
+  /** Honey harvested per active colony (kg), or null without colonies */
+  honeyYieldPerColony: number | null
 }
 
 /**
@@ -304,8 +339,8 @@ function calculateExpensesByCategory(
 /**
  * Calculate operational metrics for credit passport
  *
- * @param input - Batches, feed records, and weight samples
- * @returns Operational metrics including FCR, mortality rate, and growth performance
+ * @param input - Batches, feed records, weight samples, and optional hives with their harvests
+ * @returns Operational metrics including FCR, mortality rate, growth performance, and honey yield per colony
  *
  * @example
  * ```ts
@@ -314,13 +349,15 @@ function calculateExpensesByCategory(
  *   feedRecords: [{ batchId: "1", quantityKg: "150.00" }],
  *   weightSamples: [{ batchId: "1", averageWeightG: 1800, sampleSize: 10 }]
  * })
- * // Returns: { avgFCR: 1.58, avgMortalityRate: 5.0, growthPerformanceIndex: 90.0, batchCount: 1 }
+ * // Returns: { avgFCR: 1.58, avgMortalityRate: 5.0, growthPerformanceIndex: 90.0, batchCount: 1,
+ * //            colonyCount: 0, honeyYieldPerColony: null }
  * ```
  */
 export function calculateOperationalMetrics(
   input: OperationalMetricsInput,
 ): OperationalMetrics {
   const { batches, feedRecords, weightSamples } = input
+  const apiary = calculateApiaryYield(input.hives, input.hiveHarvests)
 
   const batchCount = batches.length
   if (batchCount === 0) {
@@ -329,6 +366,7 @@ export function calculateOperationalMetrics(
       avgMortalityRate: 0,
       growthPerformanceIndex: 0,
       batchCount: 0,
+      ...apiary,
     }
   }
 
@@ -386,6 +424,37 @@ export function calculateOperationalMetrics(
     avgMortalityRate,
     growthPerformanceIndex,
     batchCount,
+    ...apiary,
+  }
+}
+
+/**
+ * Honey yield per active colony for operational metrics
+ *
+ * @param hives - Hive structures; only active hives hold a colony
+ * @param harvests - Harvests from those hives
+ * @returns Colony count and honey kg per colony (null without colonies)
+ */
+function calculateApiaryYield(
+  hives: Array<HiveRecord> = [],
+  harvests: Array<HiveHarvestRecord> = [],
+): Pick<OperationalMetrics, 'colonyCount' | 'honeyYieldPerColony'> {
+  const colonyCount = hives.filter((hive) => hive.status === 'active').length
+  if (colonyCount === 0) {
+    return { colonyCount: 0, honeyYieldPerColony: null }
+  }
+
+  const hiveIds = new Set(hives.map((hive) => hive.id))
+  const honeyKg = harvests
+    .filter(
+      (harvest) =>
+        harvest.product === 'honey' && hiveIds.has(harvest.structureId),
+    )
+    .reduce((sum, harvest) => sum + toNumber(harvest.quantityKg), 0)
+
+  return {
+    colonyCount,
+    honeyYieldPerColony: Math.round((honeyKg / colonyCount) * 100) / 100,
   }
 }
 
@@ -496,8 +565,10 @@ export interface TrackRecord {
  */
 export interface CreditScore {
   score: number
-  grade: string
+  grade: CreditGrade
+  /** Score per group: profitMargin, trackRecord, efficiency, assets */
   breakdown: Record<string, number>
+  explanation: ScoreExplanation
 }
 
 /**
@@ -564,82 +635,26 @@ export function calculateAssetSummary(input: {
  * Calculate credit score based on financial, operational, asset, and track record metrics
  *
  * @param input - Financial, operational, assets, and track record metrics
- * @returns Credit score with grade and breakdown
+ * @param profile - Scoring profile; defaults to the general USD profile
+ * @returns Credit score with grade, breakdown, and per-factor explanation
  *
  * @example
  * ```ts
- * const creditScore = calculateCreditScore({
- *   financial: { profitMargin: 25, totalRevenue: 100000, ... },
- *   operational: { avgFCR: 1.8, avgMortalityRate: 3.5, ... },
- *   assets: { totalInventoryValue: 50000, structureCount: 5, ... },
- *   trackRecord: { successRate: 85, monthsOperating: 24, ... }
- * })
- * // Returns: { score: 82, grade: "B", breakdown: { profitMargin: 75, trackRecord: 85, efficiency: 80, assets: 85 } }
+ * const creditScore = calculateCreditScore(
+ *   {
+ *     financial: { profitMargin: 25, totalRevenue: 100000, ... },
+ *     operational: { avgFCR: 1.8, avgMortalityRate: 3.5, ... },
+ *     assets: { totalInventoryValue: 50000, structureCount: 5, ... },
+ *     trackRecord: { successRate: 85, monthsOperating: 24, ... },
+ *   },
+ *   getScoringProfile('poultry-ngn')!,
+ * )
+ * // Returns: { score: 59, grade: "F", breakdown: { ... }, explanation: { factors: [...], improvements: [...] } }
  * ```
  */
-export function calculateCreditScore(input: {
-  financial: FinancialMetrics
-  operational: OperationalMetrics
-  assets: AssetSummary
-  trackRecord: TrackRecord
-}): CreditScore {
-  const { financial, operational, assets, trackRecord } = input
-
-  // Normalize profit margin (0-50% -> 0-100 scale)
-  const profitMarginScore = isFinite(financial.profitMargin)
-    ? Math.min(100, Math.max(0, (financial.profitMargin / 50) * 100))
-    : 0
-
-  // Normalize track record based on success rate and operating months
-  const trackRecordScore = Math.min(
-    100,
-    trackRecord.successRate * 0.7 +
-      (Math.min(trackRecord.monthsOperating, 36) / 36) * 30,
-  )
-
-  // Normalize efficiency (FCR + mortality rate)
-  const fcrScore = operational.avgFCR
-    ? Math.min(100, Math.max(0, ((3 - operational.avgFCR) / 2) * 100))
-    : 0
-  const mortalityScore = Math.min(
-    100,
-    Math.max(0, ((20 - operational.avgMortalityRate) / 20) * 100),
-  )
-  const efficiencyScore = (fcrScore + mortalityScore) / 2
-
-  // Normalize assets (inventory value + structure count)
-  const inventoryScore = Math.min(
-    100,
-    (assets.totalInventoryValue / 100000) * 100,
-  )
-  const structureScore = Math.min(100, (assets.structureCount / 10) * 100)
-  const assetsScore = (inventoryScore + structureScore) / 2
-
-  // Apply weights: profit margin 30%, track record 25%, efficiency 25%, assets 20%
-  const weightedScore =
-    profitMarginScore * 0.3 +
-    trackRecordScore * 0.25 +
-    efficiencyScore * 0.25 +
-    assetsScore * 0.2
-
-  const score = Math.round(weightedScore)
-
-  // Assign grade
-  let grade: string
-  if (score >= 90) grade = 'A'
-  else if (score >= 80) grade = 'B'
-  else if (score >= 70) grade = 'C'
-  else if (score >= 60) grade = 'D'
-  else grade = 'F'
-
-  return {
-    score,
-    grade,
-    breakdown: {
-      profitMargin: Math.round(profitMarginScore),
-      trackRecord: Math.round(trackRecordScore),
-      efficiency: Math.round(efficiencyScore),
-      assets: Math.round(assetsScore),
-    },
-  }
+export function calculateCreditScore(
+  input: CreditScoreInput,
+  profile: ScoringProfile = getScoringProfile(DEFAULT_SCORING_PROFILE_ID)!,
+): CreditScore {
+  return scoreCredit(input, profile)
 }
@@ -2,6 +2,8 @@ import { useMutation, useQueryClient } from '@tanstack/react-query'
 import { toast } from 'sonner'
 import { useTranslation } from 'react-i18next'
 import { deleteReportFn, downloadReportFn } from './server'
+import { getVerificationBundleFn } from './key-registry-server'
+import { downloadPDF } from '~/lib/export/pdf'
 
 export const CREDIT_PASSPORT_QUERY_KEYS = {
   all: ['credit-passport'] as const,
@@ -38,33 +40,50 @@ export function useCreditPassportMutations() {
 
   const downloadReport = useMutation({
     mutationFn: async (data: { reportId: string }) => {
-      const result = (await downloadReportFn({ data })) as {
-        content: string
-        contentType: string
-      }
-      // Convert base64 content to blob and trigger download
-      const binaryString = atob(result.content)
-      const bytes = new Uint8Array(binaryString.length)
-      for (let i = 0; i < binaryString.length; i++) {
-        bytes[i] = binaryString.charCodeAt(i)
-      }
-      const blob = new Blob([bytes], { type: result.contentType })
+      const result = await downloadReportFn({ data })
+      downloadPDF(result.content, result.filename)
+      return result
+    },
+    onError: (err) => {
+      toast.error(
+        err instanceof Error
+          ? err.message
+          : t('credit-passport:downloadFailed', {
+              defaultValue: 'Failed to download report',
+            }),
+      )
+    },
+  })
+
+  const downloadBundle = useMutation({
+    mutationFn: async (data: { reportId: string }) => {
+      const bundle = await getVerificationBundleFn({ data })
+      const blob = new Blob([JSON.stringify(bundle, null, 2)], {
+        type: 'application/json',
+      })
       const url = URL.createObjectURL(blob)
       const a = document.createElement('a')
       a.href = url
-      a.download = `credit-passport-${data.reportId}.pdf`
+      a.download = `credit-passport-${data.reportId}-bundle.json`
       document.body.appendChild(a)
       a.click()
       document.body.removeChild(a)
       URL.revokeObjectURL(url)
-      return result
+      return bundle
+    },
+    onSuccess: () => {
+      toast.success(
+        t('credit-passport:verification.bundleDownloaded', {
+          defaultValue: 'Verification bundle downloaded',
+        }),
+      )
     },
     onError: (err) => {
       toast.error(
         err instanceof Error
           ? err.message
-          : t('credit-passport:downloadFailed', {
-              defaultValue: 'Failed to download report',
+          : t('credit-passport:verification.bundleFailed', {
+              defaultValue: 'Failed to download verification bundle',
             }),
       )
     },
@@ -73,6 +92,10 @@ export function useCreditPassportMutations() {
   return {
     deleteReport,
     downloadReport,
-    isPending: deleteReport.isPending || downloadReport.isPending,
+    downloadBundle,
+    isPending:
+      deleteReport.isPending ||
+      downloadReport.isPending ||
+      downloadBundle.isPending,
   }
 }
@@ -1,12 +1,15 @@
 import React from 'react'
 import {
   Document,
+  Font,
   Image,
   Page,
   StyleSheet,
   Text,
   View,
 } from '@react-pdf/renderer'
+import { PDF_FONT_FILES, createPdfLocalizer, pdfFontFamily } from './pdf-i18n'
+import type { PdfLabel, PdfLocalizer } from './pdf-i18n'
 import type {
   AssetMetrics,
   CreditScoreMetrics,
@@ -14,13 +17,16 @@ import type {
   OperationalMetrics,
   ReportBranding,
   ReportLanguage,
+  ReportLayout,
   ReportMetrics,
   ReportType,
   TrackRecordMetrics,
 } from './types'
+import type { CreditReport } from './repository'
+import type { PdfDocumentTemplate } from '~/lib/export/pdf-documents'
 
 const styles = StyleSheet.create({
-  page: { padding: 30, fontSize: 10, fontFamily: 'Helvetica' },
+  page: { padding: 30, fontSize: 10 },
   header: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -34,6 +40,7 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     marginBottom: 4,
   },
+  english: { fontSize: 7, color: '#6b7280', fontFamily: 'Helvetica' },
   footer: {
     position: 'absolute',
     bottom: 30,
@@ -45,164 +52,431 @@ const styles = StyleSheet.create({
   qrCode: { width: 50, height: 50 },
 })
 
-interface CreditPassportPDFProps {
+let registeredFontUrl: string | null = null
+
+/**
+ * Register the Noto fonts non-Latin reports need. Repeat calls with the same
+ * URL do nothing; a new URL replaces the earlier registrations.
+ *
+ * @param baseUrl - URL or directory serving the files in `PDF_FONT_FILES`
+ */
+export function registerPdfFonts(baseUrl: string): void {
+  if (registeredFontUrl === baseUrl) return
+  if (registeredFontUrl !== null) {
+    // Sources of a family are tried in order, so drop the old ones
+    const registered = Font.getRegisteredFonts()
+    for (const family of Object.keys(PDF_FONT_FILES)) delete registered[family]
+  }
+  registeredFontUrl = baseUrl
+  for (const [family, file] of Object.entries(PDF_FONT_FILES)) {
+    Font.register({ family, src: `${baseUrl.replace(/\/$/, '')}/${file}` })
+  }
+}
+
+export interface CreditPassportPDFProps {
   reportType: ReportType
   metrics: ReportMetrics
   branding: ReportBranding
   qrCodeDataUrl: string
   language: ReportLanguage
+  layout?: ReportLayout
+  /** Overrides the language's `pdfFontFamily`, e.g. Helvetica when fonts fail */
+  fontFamily?: string
+  startDate: Date
+  endDate: Date
+  generatedAt: Date
 }
 
-const ReportHeader: React.FC<{
-  branding: ReportBranding
-  title: string
-  dates: string
-}> = ({ branding, title, dates }) => (
-  <View style={styles.header}>
-    <View>
-      <Text style={styles.title}>{title}</Text>
-      <Text>{dates}</Text>
-    </View>
-    {branding === 'livestockai' && <Text>LivestockAI</Text>}
+type SectionProps<T> = { metrics: T; l10n: PdfLocalizer; currency: string }
+
+const Label: React.FC<{ label: PdfLabel; suffix?: string }> = ({
+  label,
+  suffix = '',
+}) => (
+  <View>
+    <Text>
+      {label.text}
+      {suffix}
+    </Text>
+    {label.english !== null && (
+      <Text style={styles.english}>{label.english}</Text>
+    )}
   </View>
 )
 
-const VerificationFooter: React.FC<{ qrCodeDataUrl: string }> = ({
-  qrCodeDataUrl,
+const SectionTitle: React.FC<{ l10n: PdfLocalizer; name: string }> = ({
+  l10n,
+  name,
+}) => {
+  const label = l10n.label(`sections.${name}`)
+  return (
+    <View style={{ marginBottom: 8 }}>
+      <Text style={[styles.sectionTitle, { marginBottom: 0 }]}>
+        {label.text}
+      </Text>
+      {label.english !== null && (
+        <Text style={styles.english}>{label.english}</Text>
+      )}
+    </View>
+  )
+}
+
+const Row: React.FC<{ l10n: PdfLocalizer; field: string; value: string }> = ({
+  l10n,
+  field,
+  value,
 }) => (
+  <View style={styles.row}>
+    <Label label={l10n.label(`fields.${field}`)} suffix=":" />
+    <Text>{value}</Text>
+  </View>
+)
+
+const ReportHeader: React.FC<{
+  branding: ReportBranding
+  l10n: PdfLocalizer
+  startDate: Date
+  endDate: Date
+  generatedAt: Date
+}> = ({ branding, l10n, startDate, endDate, generatedAt }) => {
+  const title = l10n.label('title')
+  return (
+    <View style={styles.header}>
+      <View>
+        <Text style={styles.title}>{title.text}</Text>
+        {title.english !== null && (
+          <Text style={styles.english}>{title.english}</Text>
+        )}
+        <Text>
+          {l10n.t('reportPeriod')}:{' '}
+          {l10n.t('periodRange', {
+            start: l10n.formatDate(startDate),
+            end: l10n.formatDate(endDate),
+          })}
+        </Text>
+        <Text>
+          {l10n.t('generatedOn', { date: l10n.formatDate(generatedAt) })}
+        </Text>
+      </View>
+      {branding === 'livestockai' && <Text>LivestockAI</Text>}
+    </View>
+  )
+}
+
+const VerificationFooter: React.FC<{
+  qrCodeDataUrl: string
+  l10n: PdfLocalizer
+}> = ({ qrCodeDataUrl, l10n }) => (
   <View style={styles.footer}>
-    <Text>Digitally signed and verified</Text>
+    <Label label={l10n.label('signedFooter')} />
     <Image src={qrCodeDataUrl} style={styles.qrCode} />
   </View>
 )
 
-const FinancialSection: React.FC<{ metrics: FinancialMetrics }> = ({
+const FinancialSection: React.FC<SectionProps<FinancialMetrics>> = ({
   metrics,
+  l10n,
+  currency,
 }) => (
   <View style={styles.section}>
-    <Text style={styles.sectionTitle}>Financial Performance</Text>
-    <View style={styles.row}>
-      <Text>Total Revenue:</Text>
-      <Text>{metrics.totalRevenue}</Text>
-    </View>
-    <View style={styles.row}>
-      <Text>Net Profit:</Text>
-      <Text>{metrics.profit}</Text>
-    </View>
-    <View style={styles.row}>
-      <Text>Profit Margin:</Text>
-      <Text>{metrics.profitMargin}%</Text>
-    </View>
+    <SectionTitle l10n={l10n} name="financial" />
+    <Row
+      l10n={l10n}
+      field="totalRevenue"
+      value={l10n.formatCurrency(metrics.totalRevenue, currency)}
+    />
+    <Row
+      l10n={l10n}
+      field="netProfit"
+      value={l10n.formatCurrency(metrics.profit, currency)}
+    />
+    <Row
+      l10n={l10n}
+      field="profitMargin"
+      value={l10n.formatPercent(metrics.profitMargin)}
+    />
   </View>
 )
 
-const OperationalSection: React.FC<{ metrics: OperationalMetrics }> = ({
+const OperationalSection: React.FC<SectionProps<OperationalMetrics>> = ({
   metrics,
+  l10n,
 }) => (
   <View style={styles.section}>
-    <Text style={styles.sectionTitle}>Operational Metrics</Text>
-    <View style={styles.row}>
-      <Text>Active Batches:</Text>
-      <Text>{metrics.batchCount}</Text>
-    </View>
-    <View style={styles.row}>
-      <Text>Avg FCR:</Text>
-      <Text>{metrics.avgFCR ?? 'N/A'}</Text>
-    </View>
-    <View style={styles.row}>
-      <Text>Mortality Rate:</Text>
-      <Text>{metrics.avgMortalityRate}%</Text>
-    </View>
+    <SectionTitle l10n={l10n} name="operational" />
+    <Row
+      l10n={l10n}
+      field="activeBatches"
+      value={l10n.formatNumber(metrics.batchCount)}
+    />
+    <Row
+      l10n={l10n}
+      field="avgFcr"
+      value={
+        metrics.avgFCR === null
+          ? l10n.t('notAvailable')
+          : l10n.formatNumber(metrics.avgFCR)
+      }
+    />
+    <Row
+      l10n={l10n}
+      field="mortalityRate"
+      value={l10n.formatPercent(metrics.avgMortalityRate)}
+    />
+    {metrics.honeyYieldPerColony !== null && (
+      <Row
+        l10n={l10n}
+        field="honeyYield"
+        value={`${l10n.t('units.kg', {
+          value: l10n.formatNumber(metrics.honeyYieldPerColony),
+        })} (${l10n.t('units.colonies', {
+          count: l10n.formatNumber(metrics.colonyCount),
+        })})`}
+      />
+    )}
   </View>
 )
 
-const AssetSection: React.FC<{ metrics: AssetMetrics }> = ({ metrics }) => (
+const AssetSection: React.FC<SectionProps<AssetMetrics>> = ({
+  metrics,
+  l10n,
+  currency,
+}) => (
   <View style={styles.section}>
-    <Text style={styles.sectionTitle}>Assets</Text>
-    <View style={styles.row}>
-      <Text>Total Inventory Value:</Text>
-      <Text>{metrics.totalInventoryValue}</Text>
-    </View>
-    <View style={styles.row}>
-      <Text>Total Livestock:</Text>
-      <Text>{metrics.totalLivestock}</Text>
-    </View>
+    <SectionTitle l10n={l10n} name="assets" />
+    <Row
+      l10n={l10n}
+      field="totalInventoryValue"
+      value={l10n.formatCurrency(metrics.totalInventoryValue, currency)}
+    />
+    <Row
+      l10n={l10n}
+      field="totalLivestock"
+      value={l10n.formatNumber(metrics.totalLivestock)}
+    />
   </View>
 )
 
-const TrackRecordSection: React.FC<{ metrics: TrackRecordMetrics }> = ({
+const TrackRecordSection: React.FC<SectionProps<TrackRecordMetrics>> = ({
   metrics,
+  l10n,
 }) => (
   <View style={styles.section}>
-    <Text style={styles.sectionTitle}>Track Record</Text>
-    <View style={styles.row}>
-      <Text>Completed Batches:</Text>
-      <Text>{metrics.batchesCompleted}</Text>
-    </View>
-    <View style={styles.row}>
-      <Text>Success Rate:</Text>
-      <Text>{metrics.successRate}%</Text>
-    </View>
+    <SectionTitle l10n={l10n} name="trackRecord" />
+    <Row
+      l10n={l10n}
+      field="completedBatches"
+      value={l10n.formatNumber(metrics.batchesCompleted)}
+    />
+    <Row
+      l10n={l10n}
+      field="successRate"
+      value={l10n.formatPercent(metrics.successRate)}
+    />
   </View>
 )
 
-const CreditScoreSection: React.FC<{ metrics: CreditScoreMetrics }> = ({
+const CreditScoreSection: React.FC<SectionProps<CreditScoreMetrics>> = ({
   metrics,
+  l10n,
 }) => (
   <View style={styles.section}>
-    <Text style={styles.sectionTitle}>Credit Score</Text>
+    <SectionTitle l10n={l10n} name="creditScore" />
     <View style={styles.row}>
-      <Text>Score:</Text>
+      <Label label={l10n.label('fields.score')} suffix=":" />
       <Text style={{ fontSize: 16, fontWeight: 'bold' }}>
-        {metrics.score}/100
+        {l10n.formatNumber(metrics.score)}/100
       </Text>
     </View>
-    <View style={styles.row}>
-      <Text>Rating:</Text>
-      <Text>{metrics.grade}</Text>
-    </View>
+    <Row l10n={l10n} field="rating" value={metrics.grade} />
+    <Row
+      l10n={l10n}
+      field="scoringProfile"
+      value={metrics.explanation.profileName}
+    />
   </View>
 )
 
-const ProductionVolumeSection: React.FC<{ metrics: TrackRecordMetrics }> = ({
+const ScoreExplanationSection: React.FC<SectionProps<CreditScoreMetrics>> = ({
+  metrics,
+  l10n,
+  currency,
+}) => {
+  const { explanation } = metrics
+
+  return (
+    <View style={styles.section}>
+      <SectionTitle l10n={l10n} name="explanation" />
+      {explanation.factors.map((factor) => (
+        <View key={factor.key} style={styles.row}>
+          <Label
+            label={l10n.label(`factors.${factor.key}`)}
+            suffix={` (${l10n.formatFactorValue(factor, currency)})`}
+          />
+          <Text>
+            {l10n.t('contribution', {
+              score: l10n.formatNumber(factor.normalizedScore),
+              weight: l10n.formatPercent(factor.weight * 100),
+              points: l10n.formatNumber(factor.contribution),
+            })}
+          </Text>
+        </View>
+      ))}
+      {explanation.improvements.length > 0 && (
+        <>
+          <View style={{ marginTop: 8 }}>
+            <SectionTitle l10n={l10n} name="improvements" />
+          </View>
+          {explanation.improvements.map((improvement) => (
+            <View key={improvement.factor} style={styles.row}>
+              <Text>{l10n.describeImprovement(improvement, currency)}</Text>
+              <Text>
+                +
+                {l10n.t('units.points', {
+                  value: l10n.formatNumber(improvement.potentialGain),
+                })}
+              </Text>
+            </View>
+          ))}
+        </>
+      )}
+    </View>
+  )
+}
+
+const ProductionVolumeSection: React.FC<SectionProps<TrackRecordMetrics>> = ({
   metrics,
+  l10n,
 }) => (
   <View style={styles.section}>
-    <Text style={styles.sectionTitle}>Production Volume</Text>
-    <View style={styles.row}>
-      <Text>Production Volume:</Text>
-      <Text>{metrics.productionVolume}</Text>
-    </View>
+    <SectionTitle l10n={l10n} name="productionVolume" />
+    <Row
+      l10n={l10n}
+      field="productionVolume"
+      value={l10n.formatNumber(metrics.productionVolume)}
+    />
   </View>
 )
 
-export const CreditPassportPDF: React.FC<CreditPassportPDFProps> = ({
+/**
+ * Credit passport PDF in any UI language. Non-Latin languages need
+ * `registerPdfFonts` first.
+ */
+export const CreditPassportPDF: PdfDocumentTemplate<CreditPassportPDFProps> = ({
   reportType,
   metrics,
   branding,
   qrCodeDataUrl,
-}) => (
-  <Document>
-    <Page size="A4" style={styles.page}>
-      <ReportHeader
-        branding={branding}
-        title="Credit Passport Report"
-        dates="Report Period"
-      />
+  language,
+  layout = 'single',
+  fontFamily = pdfFontFamily(language),
+  startDate,
+  endDate,
+  generatedAt,
+}) => {
+  const l10n = createPdfLocalizer(language, layout)
+  const currency = metrics.creditScore.explanation.currency
+  const section = { l10n, currency }
 
-      <CreditScoreSection metrics={metrics.creditScore} />
-      <FinancialSection metrics={metrics.financial} />
-      <OperationalSection metrics={metrics.operational} />
+  return (
+    <Document language={language}>
+      <Page size="A4" style={[styles.page, { fontFamily }]}>
+        <ReportHeader
+          branding={branding}
+          l10n={l10n}
+          startDate={startDate}
+          endDate={endDate}
+          generatedAt={generatedAt}
+        />
 
-      {reportType !== 'credit_assessment' && (
-        <>
-          <AssetSection metrics={metrics.assets} />
-          <TrackRecordSection metrics={metrics.trackRecord} />
-          <ProductionVolumeSection metrics={metrics.trackRecord} />
-        </>
-      )}
+        <CreditScoreSection metrics={metrics.creditScore} {...section} />
+        <ScoreExplanationSection metrics={metrics.creditScore} {...section} />
+        <FinancialSection metrics={metrics.financial} {...section} />
+        <OperationalSection metrics={metrics.operational} {...section} />
 
-      <VerificationFooter qrCodeDataUrl={qrCodeDataUrl} />
-    </Page>
-  </Document>
-)
+        {reportType !== 'credit_assessment' && (
+          <>
+            <AssetSection metrics={metrics.assets} {...section} />
+            <TrackRecordSection metrics={metrics.trackRecord} {...section} />
+            <ProductionVolumeSection
+              metrics={metrics.trackRecord}
+              {...section}
+            />
+          </>
+        )}
+
+        <VerificationFooter qrCodeDataUrl={qrCodeDataUrl} l10n={l10n} />
+      </Page>
+    </Document>
+  )
+}
+
+/**
+ * Render a stored report to PDF bytes, with a QR code linking to its
+ * verification page. Non-Latin fonts load from `fontUrl`, by default the
+ * `/fonts` the app serves; if they cannot be loaded the report falls back to
+ * Helvetica rather than failing.
+ *
+ * @param report - Stored credit report
+ * @param options - Language, layout, the site URL the QR code points to and
+ * where fonts are served from
+ * @returns PDF bytes
+ */
+export async function renderCreditPassportPDF(
+  report: Pick<
+    CreditReport,
+    | 'id'
+    | 'reportType'
+    | 'metricsSnapshot'
+    | 'whiteLabel'
+    | 'startDate'
+    | 'endDate'
+    | 'createdAt'
+  >,
+  options: {
+    language: ReportLanguage
+    layout: ReportLayout
+    baseUrl: string
+    fontUrl?: string
+  },
+): Promise<Uint8Array> {
+  const { renderPdf } = await import('~/lib/export/pdf')
+  const { generateVerificationQR } = await import('./qr-service')
+
+  const fontFamily = pdfFontFamily(options.language)
+  if (fontFamily !== 'Helvetica') {
+    registerPdfFonts(
+      options.fontUrl || `${options.baseUrl.replace(/\/$/, '')}/fonts`,
+    )
+  }
+
+  const qrCodeDataUrl = await generateVerificationQR(report.id, options.baseUrl)
+  const render = (family: string) =>
+    renderPdf(
+      CreditPassportPDF({
+        reportType: report.reportType as ReportType,
+        metrics: report.metricsSnapshot as ReportMetrics,
+        branding: report.whiteLabel ? 'white-label' : 'livestockai',
+        qrCodeDataUrl,
+        language: options.language,
+        layout: options.layout,
+        fontFamily: family,
+        startDate: report.startDate,
+        endDate: report.endDate,
+        generatedAt: report.createdAt,
+      }),
+    )
+
+  try {
+    return await render(fontFamily)
+  } catch (err) {
+    if (fontFamily === 'Helvetica') throw err
+    const { warn } = await import('~/lib/logger')
+    warn('Credit passport font failed to load, rendering in Helvetica', {
+      fontFamily,
+      language: options.language,
+      error: err instanceof Error ? err.message : String(err),
+    })
+    return render('Helvetica')
+  }
+}
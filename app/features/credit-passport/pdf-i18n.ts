@@ -0,0 +1,269 @@
+/**
+ * Translation and formatting for credit passport PDFs.
+ *
+ * The PDF is rendered outside React's i18n context, so it gets its own
+ * i18next instance over the `creditPassport.pdf` strings of the main
+ * catalogue. Numbers, currency and dates go through Intl in the report
+ * language; a bilingual layout adds the English label under each one.
+ */
+
+import { createInstance } from 'i18next'
+import type { TFunction } from 'i18next'
+import type { ScoreFactor, ScoreImprovement } from './scoring-service'
+import type { ReportLanguage, ReportLayout } from './types'
+import { creditPassport as am } from '~/lib/i18n/locales/am/creditPassport'
+import { creditPassport as bn } from '~/lib/i18n/locales/bn/creditPassport'
+import { creditPassport as en } from '~/lib/i18n/locales/en/creditPassport'
+import { creditPassport as es } from '~/lib/i18n/locales/es/creditPassport'
+import { creditPassport as fr } from '~/lib/i18n/locales/fr/creditPassport'
+import { creditPassport as ha } from '~/lib/i18n/locales/ha/creditPassport'
+import { creditPassport as hi } from '~/lib/i18n/locales/hi/creditPassport'
+import { creditPassport as id } from '~/lib/i18n/locales/id/creditPassport'
+import { creditPassport as ig } from '~/lib/i18n/locales/ig/creditPassport'
+import { creditPassport as pt } from '~/lib/i18n/locales/pt/creditPassport'
+import { creditPassport as sw } from '~/lib/i18n/locales/sw/creditPassport'
+import { creditPassport as th } from '~/lib/i18n/locales/th/creditPassport'
+import { creditPassport as tr } from '~/lib/i18n/locales/tr/creditPassport'
+import { creditPassport as vi } from '~/lib/i18n/locales/vi/creditPassport'
+import { creditPassport as yo } from '~/lib/i18n/locales/yo/creditPassport'
+
+const CATALOGUE: Record<ReportLanguage, { pdf: Record<string, unknown> }> = {
+  en,
+  fr,
+  es,
+  pt,
+  hi,
+  id,
+  bn,
+  th,
+  vi,
+  am,
+  ha,
+  yo,
+  ig,
+  sw,
+  tr,
+}
+
+/** Languages a credit passport PDF can be rendered in */
+export const REPORT_LANGUAGES = Object.keys(CATALOGUE) as Array<ReportLanguage>
+
+/**
+ * Font families the PDF needs per language. The built-in Helvetica only
+ * covers Western European Latin; other scripts and Latin letters outside
+ * WinAnsi (Turkish, Vietnamese, Yoruba, Igbo and Hausa diacritics) need a
+ * registered Noto font, shipped in `public/fonts`.
+ */
+export const PDF_FONT_FILES: Record<string, string> = {
+  'Noto Sans': 'NotoSans-Regular.ttf',
+  'Noto Sans Devanagari': 'NotoSansDevanagari-Regular.ttf',
+  'Noto Sans Bengali': 'NotoSansBengali-Regular.ttf',
+  'Noto Sans Thai': 'NotoSansThai-Regular.ttf',
+  'Noto Sans Ethiopic': 'NotoSansEthiopic-Regular.ttf',
+}
+
+const FONT_BY_LANGUAGE: Partial<Record<ReportLanguage, string>> = {
+  tr: 'Noto Sans',
+  vi: 'Noto Sans',
+  ha: 'Noto Sans',
+  yo: 'Noto Sans',
+  ig: 'Noto Sans',
+  hi: 'Noto Sans Devanagari',
+  bn: 'Noto Sans Bengali',
+  th: 'Noto Sans Thai',
+  am: 'Noto Sans Ethiopic',
+}
+
+/**
+ * Font family that can render a report language
+ *
+ * @param language - Report language
+ * @returns `Helvetica`, or a family from `PDF_FONT_FILES` that must be registered
+ */
+export function pdfFontFamily(language: ReportLanguage): string {
+  return FONT_BY_LANGUAGE[language] ?? 'Helvetica'
+}
+
+/**
+ * A label in the report language, with its English form in bilingual layout
+ */
+export interface PdfLabel {
+  text: string
+  /** English label, or null when not bilingual */
+  english: string | null
+}
+
+/**
+ * Translator and formatters for one report
+ */
+export interface PdfLocalizer {
+  language: ReportLanguage
+  /** Whether labels carry an English line; never for English reports */
+  bilingual: boolean
+  /** Translate a key under `creditPassport.pdf` */
+  t: TFunction
+  /** Translate a key, adding English in bilingual layout */
+  label: (key: string) => PdfLabel
+  formatNumber: (value: number, maximumFractionDigits?: number) => string
+  /** Format a value already in percent, e.g. 25 for 25% */
+  formatPercent: (value: number) => string
+  formatCurrency: (value: number, currency: string) => string
+  formatDate: (date: Date) => string
+  /** A score factor's raw value with its unit, e.g. `24 months` */
+  formatFactorValue: (
+    factor: Pick<ScoreFactor, 'key' | 'rawValue' | 'unit'>,
+    currency: string,
+  ) => string
+  /** Advice sentence for an improvement */
+  describeImprovement: (
+    improvement: ScoreImprovement,
+    currency: string,
+  ) => string
+}
+
+function createTranslator(language: ReportLanguage): TFunction {
+  const instance = createInstance()
+  void instance.init({
+    resources: Object.fromEntries(
+      Object.entries(CATALOGUE).map(([lng, ns]) => [lng, { pdf: ns.pdf }]),
+    ),
+    lng: language,
+    fallbackLng: 'en',
+    ns: ['pdf'],
+    defaultNS: 'pdf',
+    initAsync: false,
+    interpolation: { escapeValue: false },
+  })
+  return instance.getFixedT(language, 'pdf')
+}
+
+/**
+ * Create the translator and formatters for a report
+ *
+ * @param language - Report language
+ * @param layout - `bilingual` to print English under each label
+ * @returns Localizer
+ *
+ * @example
+ * ```typescript
+ * const l10n = createPdfLocalizer('pt', 'bilingual')
+ * l10n.label('fields.netProfit') // { text: 'Lucro líquido', english: 'Net Profit' }
+ * l10n.formatCurrency(12345.6, 'BRL') // 'R$ 12.345,60'
+ * ```
+ */
+export function createPdfLocalizer(
+  language: ReportLanguage,
+  layout: ReportLayout = 'single',
+): PdfLocalizer {
+  const t = createTranslator(language)
+  const english = language === 'en' ? t : createTranslator('en')
+  const bilingual = layout === 'bilingual' && language !== 'en'
+
+  const formatNumber = (value: number, maximumFractionDigits = 2) =>
+    new Intl.NumberFormat(language, { maximumFractionDigits }).format(value)
+  const formatPercent = (value: number) =>
+    new Intl.NumberFormat(language, {
+      style: 'percent',
+      maximumFractionDigits: 2,
+    }).format(value / 100)
+  const formatCurrency = (value: number, currency: string) =>
+    new Intl.NumberFormat(language, { style: 'currency', currency }).format(
+      value,
+    )
+
+  const formatFactorValue: PdfLocalizer['formatFactorValue'] = (
+    factor,
+    currency,
+  ) => {
+    if (factor.rawValue === null) return t('noData')
+    if (factor.key === 'inventoryValue') {
+      return formatCurrency(factor.rawValue, currency)
+    }
+    switch (factor.unit) {
+      case '%':
+        return formatPercent(factor.rawValue)
+      case 'months':
+        return t('units.months', { value: formatNumber(factor.rawValue) })
+      case 'kg':
+        return t('units.kg', { value: formatNumber(factor.rawValue) })
+      default:
+        return formatNumber(factor.rawValue)
+    }
+  }
+
+  const describeImprovement: PdfLocalizer['describeImprovement'] = (
+    improvement,
+    currency,
+  ) => {
+    const current = improvement.currentValue
+    const target = improvement.targetValue
+    const kg = (value: number) => t('units.kg', { value: formatNumber(value) })
+
+    switch (improvement.factor) {
+      case 'profitMargin':
+        return current === null
+          ? t('improvements.profitMarginNoData')
+          : t('improvements.profitMargin', {
+              current: formatPercent(current),
+              target: formatPercent(target),
+            })
+      case 'successRate':
+        return t('improvements.successRate', {
+          current: formatPercent(current ?? 0),
+        })
+      case 'monthsOperating':
+        return t('improvements.monthsOperating', {
+          remaining: formatNumber(target - (current ?? 0)),
+        })
+      case 'fcr':
+        return current === null
+          ? t('improvements.fcrNoData')
+          : t('improvements.fcr', {
+              current: formatNumber(current),
+              target: formatNumber(target),
+            })
+      case 'mortalityRate':
+        return t('improvements.mortalityRate', {
+          current: formatPercent(current ?? 0),
+          target: formatPercent(target),
+        })
+      case 'honeyYield':
+        return current === null
+          ? t('improvements.honeyYieldNoData')
+          : t('improvements.honeyYield', {
+              current: kg(current),
+              target: kg(target),
+            })
+      case 'inventoryValue':
+        return t('improvements.inventoryValue', {
+          current: formatCurrency(current ?? 0, currency),
+          target: formatCurrency(target, currency),
+        })
+      case 'structureCount':
+        return t('improvements.structureCount', {
+          current: formatNumber(current ?? 0),
+          target: formatNumber(target),
+        })
+    }
+  }
+
+  return {
+    language,
+    bilingual,
+    t,
+    label: (key) => ({
+      text: t(key),
+      english: bilingual ? english(key) : null,
+    }),
+    formatNumber,
+    formatPercent,
+    formatCurrency,
+    formatDate: (date) =>
+      new Intl.DateTimeFormat(language, {
+        dateStyle: 'long',
+        timeZone: 'UTC',
+      }).format(date),
+    formatFactorValue,
+    describeImprovement,
+  }
+}
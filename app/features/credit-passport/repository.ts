@@ -3,6 +3,7 @@
  * All functions are pure data access - no business logic.
  */
 
+import { sql } from 'kysely'
 import type { Kysely } from 'kysely'
 import type { Database } from '~/lib/db/types'
 
@@ -21,11 +22,14 @@ export interface CreditReportInsert {
   reportHash: string
   signature: string
   publicKey: string
+  keyId: string | null
   pdfUrl: string | null
   metricsSnapshot: Record<string, any>
   status: 'active' | 'expired' | 'revoked'
   customNotes: string | null
   whiteLabel: boolean
+  /** Issue time, which the signature covers; defaults to now */
+  createdAt?: Date
 }
 
 /**
@@ -68,6 +72,7 @@ export interface CreditReport {
   reportHash: string
   signature: string
   publicKey: string
+  keyId: string | null
   pdfUrl: string | null
   metricsSnapshot: Record<string, any>
   status: string
@@ -102,7 +107,7 @@ export interface ReportRequest {
  */
 export interface AccessLog {
   id: string
-  reportId: string
+  reportId: string | null
   accessType: string
   accessorIp: string | null
   accessorUserAgent: string | null
@@ -121,7 +126,11 @@ export async function insertCreditReport(
 ): Promise<string> {
   const result = await db
     .insertInto('credit_reports')
-    .values(report)
+    .values({
+      ...report,
+      farmIds: sql<Array<string>>`${JSON.stringify(report.farmIds)}::jsonb`,
+      batchIds: sql<Array<string>>`${JSON.stringify(report.batchIds)}::jsonb`,
+    })
     .returning('id')
     .executeTakeFirstOrThrow()
   return result.id
@@ -150,6 +159,7 @@ export async function getCreditReportById(
       'credit_reports.reportHash',
       'credit_reports.signature',
       'credit_reports.publicKey',
+      'credit_reports.keyId',
       'credit_reports.pdfUrl',
       'credit_reports.metricsSnapshot',
       'credit_reports.status',
@@ -187,6 +197,7 @@ export async function getCreditReportsByUser(
       'credit_reports.reportHash',
       'credit_reports.signature',
       'credit_reports.publicKey',
+      'credit_reports.keyId',
       'credit_reports.pdfUrl',
       'credit_reports.metricsSnapshot',
       'credit_reports.status',
@@ -216,6 +227,96 @@ export async function updateCreditReportStatus(
     .execute()
 }
 
+/**
+ * Store the signature of a report
+ */
+export async function updateCreditReportSignature(
+  db: Kysely<Database>,
+  id: string,
+  data: { reportHash: string; signature: string },
+): Promise<void> {
+  await db
+    .updateTable('credit_reports')
+    .set({ ...data, updatedAt: new Date() })
+    .where('id', '=', id)
+    .execute()
+}
+
+/**
+ * Soft-delete a credit report, so it no longer verifies
+ */
+export async function deleteCreditReport(
+  db: Kysely<Database>,
+  id: string,
+): Promise<void> {
+  await db
+    .updateTable('credit_reports')
+    .set({ deletedAt: new Date(), updatedAt: new Date() })
+    .where('id', '=', id)
+    .execute()
+}
+
+/**
+ * Get a page of a user's reports, newest first, with how often each was
+ * verified
+ */
+export async function getCreditReportsPage(
+  db: Kysely<Database>,
+  userId: string,
+  filters: { farmIds?: Array<string>; page: number; pageSize: number },
+): Promise<{
+  reports: Array<
+    Pick<
+      CreditReport,
+      'id' | 'farmIds' | 'reportType' | 'status' | 'createdAt' | 'expiresAt'
+    > & { verificationCount: number }
+  >
+  total: number
+}> {
+  let baseQuery = db
+    .selectFrom('credit_reports')
+    .where('credit_reports.userId', '=', userId)
+    .where('credit_reports.deletedAt', 'is', null)
+
+  if (filters.farmIds && filters.farmIds.length > 0) {
+    baseQuery = baseQuery.where(
+      sql<boolean>`credit_reports."farmIds" ?| ${filters.farmIds}::text[]`,
+    )
+  }
+
+  const countResult = await baseQuery
+    .select(sql<number>`count(credit_reports.id)`.as('count'))
+    .executeTakeFirst()
+
+  const reports = await baseQuery
+    .select((eb) => [
+      'credit_reports.id',
+      'credit_reports.farmIds',
+      'credit_reports.reportType',
+      'credit_reports.status',
+      'credit_reports.createdAt',
+      'credit_reports.expiresAt',
+      eb
+        .selectFrom('report_access_logs')
+        .select(sql<number>`count(*)::int`.as('count'))
+        .whereRef('report_access_logs.reportId', '=', 'credit_reports.id')
+        .where('report_access_logs.accessType', '=', 'verify')
+        .as('verificationCount'),
+    ])
+    .orderBy('credit_reports.createdAt', 'desc')
+    .limit(filters.pageSize)
+    .offset((filters.page - 1) * filters.pageSize)
+    .execute()
+
+  return {
+    reports: reports.map((report) => ({
+      ...report,
+      verificationCount: Number(report.verificationCount ?? 0),
+    })),
+    total: Number(countResult?.count ?? 0),
+  }
+}
+
 // Report Request Operations
 
 /**
@@ -401,6 +502,15 @@ export async function getOperationalData(
     averageWeightG: number
     sampleDate: Date
   }>
+  hives: Array<{
+    id: string
+    status: string
+  }>
+  hiveHarvests: Array<{
+    structureId: string
+    product: 'honey' | 'wax'
+    quantityKg: string
+  }>
 }> {
   const batches = await db
     .selectFrom('batches')
@@ -428,8 +538,31 @@ export async function getOperationalData(
     .where('batchId', 'in', batchIds)
     .execute()
 
+  const hives = await db
+    .selectFrom('structures')
+    .select(['id', 'status'])
+    .where('farmId', 'in', farmIds)
+    .where('type', '=', 'hive')
+    .where('deletedAt', 'is', null)
+    .execute()
+
+  const hiveHarvests =
+    hives.length > 0
+      ? await db
+          .selectFrom('hive_harvests')
+          .select(['structureId', 'product', 'quantityKg'])
+          .where(
+            'structureId',
+            'in',
+            hives.map((h) => h.id),
+          )
+          .execute()
+      : []
+
   return {
     batches,
+    hives,
+    hiveHarvests,
     feedRecords: feedRecords.map((f) => ({
       batchId: f.batchId,
       quantityKg: f.quantityKg,
@@ -0,0 +1,588 @@
+/**
+ * Credit scoring profiles and score explanations for the credit passport.
+ * All functions are pure - no side effects or database access.
+ */
+
+import type {
+  AssetSummary,
+  CreditScore,
+  FinancialMetrics,
+  OperationalMetrics,
+  TrackRecord,
+} from './metrics-service'
+import type { LivestockType } from '~/features/modules/types'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CreditGrade = 'A' | 'B' | 'C' | 'D' | 'F'
+
+export type ScoreFactorKey =
+  | 'profitMargin'
+  | 'successRate'
+  | 'monthsOperating'
+  | 'fcr'
+  | 'mortalityRate'
+  | 'honeyYield'
+  | 'inventoryValue'
+  | 'structureCount'
+
+/** Breakdown group a factor rolls up into */
+export type ScoreGroup =
+  'profitMargin' | 'trackRecord' | 'efficiency' | 'assets'
+
+export type ScoringSpecies = LivestockType | 'general'
+
+/**
+ * Raw values at which a factor scores 0 and 100. `worst` is above `best` for
+ * factors where lower is better, such as FCR.
+ */
+export interface FactorRange {
+  worst: number
+  best: number
+}
+
+/**
+ * Weights, normalisation ranges and grade cutoffs for one species and
+ * currency
+ */
+export interface ScoringProfile {
+  id: string
+  name: string
+  species: ScoringSpecies
+  currency: string
+  /** Share of the score each factor carries; weights sum to 1 */
+  weights: Record<ScoreFactorKey, number>
+  ranges: Record<ScoreFactorKey, FactorRange>
+  /** Lowest score for each grade, best grade first */
+  gradeCutoffs: Array<{ grade: CreditGrade; minScore: number }>
+}
+
+export interface CreditScoreInput {
+  financial: FinancialMetrics
+  operational: OperationalMetrics
+  assets: AssetSummary
+  trackRecord: TrackRecord
+}
+
+/**
+ * How one factor moved the score
+ */
+export interface ScoreFactor {
+  key: ScoreFactorKey
+  group: ScoreGroup
+  label: string
+  unit: string
+  /** Measured value, or null when the farm has no data for it */
+  rawValue: number | null
+  /** Where the raw value sits in the profile's range, 0-100 */
+  normalizedScore: number
+  weight: number
+  /** Points of the final score this factor earned */
+  contribution: number
+}
+
+/**
+ * A factor the farmer could improve, and what it is worth
+ */
+export interface ScoreImprovement {
+  factor: ScoreFactorKey
+  currentValue: number | null
+  /** Raw value that earns the factor full marks */
+  targetValue: number
+  unit: string
+  /** Points the score would gain with the factor at its target */
+  potentialGain: number
+}
+
+export interface ScoreExplanation {
+  profileId: string
+  profileName: string
+  /** Currency inventory values are in */
+  currency: string
+  factors: Array<ScoreFactor>
+  /** Biggest gains first */
+  improvements: Array<ScoreImprovement>
+  nextGrade: { grade: CreditGrade; pointsNeeded: number } | null
+}
+
+// ============================================================================
+// Profiles
+// ============================================================================
+
+const FACTORS: Record<
+  ScoreFactorKey,
+  {
+    group: ScoreGroup
+    label: string
+    unit: string
+    read: (input: CreditScoreInput) => number | null
+  }
+> = {
+  profitMargin: {
+    group: 'profitMargin',
+    label: 'Profit margin',
+    unit: '%',
+    read: ({ financial }) =>
+      isFinite(financial.profitMargin) ? financial.profitMargin : null,
+  },
+  successRate: {
+    group: 'trackRecord',
+    label: 'Batches sold at target',
+    unit: '%',
+    read: ({ trackRecord }) => trackRecord.successRate,
+  },
+  monthsOperating: {
+    group: 'trackRecord',
+    label: 'Months operating',
+    unit: 'months',
+    read: ({ trackRecord }) => trackRecord.monthsOperating,
+  },
+  fcr: {
+    group: 'efficiency',
+    label: 'Feed conversion ratio',
+    unit: '',
+    // An FCR of 0 means no feed or weights were recorded
+    read: ({ operational }) => operational.avgFCR || null,
+  },
+  mortalityRate: {
+    group: 'efficiency',
+    label: 'Mortality rate',
+    unit: '%',
+    read: ({ operational }) => operational.avgMortalityRate,
+  },
+  honeyYield: {
+    group: 'efficiency',
+    label: 'Honey per colony',
+    unit: 'kg',
+    read: ({ operational }) => operational.honeyYieldPerColony,
+  },
+  inventoryValue: {
+    group: 'assets',
+    label: 'Livestock inventory value',
+    unit: '',
+    read: ({ assets }) => assets.totalInventoryValue,
+  },
+  structureCount: {
+    group: 'assets',
+    label: 'Structures',
+    unit: '',
+    read: ({ assets }) => assets.structureCount,
+  },
+}
+
+const FACTOR_KEYS = Object.keys(FACTORS) as Array<ScoreFactorKey>
+
+const LIVESTOCK_WEIGHTS: Record<ScoreFactorKey, number> = {
+  profitMargin: 0.3,
+  successRate: 0.175,
+  monthsOperating: 0.075,
+  fcr: 0.125,
+  mortalityRate: 0.125,
+  honeyYield: 0,
+  inventoryValue: 0.1,
+  structureCount: 0.1,
+}
+
+// Hives have no feed or batch mortality; honey yield carries efficiency
+const APIARY_WEIGHTS: Record<ScoreFactorKey, number> = {
+  ...LIVESTOCK_WEIGHTS,
+  fcr: 0,
+  mortalityRate: 0,
+  honeyYield: 0.25,
+}
+
+const SPECIES_TEMPLATES: Record<
+  ScoringSpecies,
+  {
+    name: string
+    weights: Record<ScoreFactorKey, number>
+    fcr: FactorRange
+    mortalityRate: FactorRange
+    /** Multiple of the currency's inventory target a full score needs */
+    inventoryScale: number
+  }
+> = {
+  general: {
+    name: 'General livestock',
+    weights: LIVESTOCK_WEIGHTS,
+    fcr: { worst: 3, best: 1 },
+    mortalityRate: { worst: 20, best: 0 },
+    inventoryScale: 1,
+  },
+  poultry: {
+    name: 'Poultry',
+    weights: LIVESTOCK_WEIGHTS,
+    fcr: { worst: 2.6, best: 1.5 },
+    mortalityRate: { worst: 15, best: 0 },
+    inventoryScale: 1,
+  },
+  fish: {
+    name: 'Aquaculture',
+    weights: LIVESTOCK_WEIGHTS,
+    fcr: { worst: 2, best: 1 },
+    mortalityRate: { worst: 30, best: 0 },
+    inventoryScale: 1,
+  },
+  cattle: {
+    name: 'Cattle',
+    weights: LIVESTOCK_WEIGHTS,
+    fcr: { worst: 10, best: 5 },
+    mortalityRate: { worst: 8, best: 0 },
+    inventoryScale: 4,
+  },
+  goats: {
+    name: 'Goats',
+    weights: LIVESTOCK_WEIGHTS,
+    fcr: { worst: 9, best: 4 },
+    mortalityRate: { worst: 15, best: 0 },
+    inventoryScale: 1,
+  },
+  sheep: {
+    name: 'Sheep',
+    weights: LIVESTOCK_WEIGHTS,
+    fcr: { worst: 9, best: 4 },
+    mortalityRate: { worst: 15, best: 0 },
+    inventoryScale: 1,
+  },
+  bees: {
+    name: 'Apiary',
+    weights: APIARY_WEIGHTS,
+    fcr: { worst: 3, best: 1 },
+    mortalityRate: { worst: 20, best: 0 },
+    inventoryScale: 0.5,
+  },
+}
+
+/**
+ * Livestock value that earns a full inventory score, per currency. Each is
+ * roughly US$2,500, a well-stocked smallholding.
+ */
+const INVENTORY_TARGETS: Record<string, number> = {
+  USD: 2_500,
+  CAD: 3_400,
+  MXN: 45_000,
+  BRL: 13_500,
+  EUR: 2_300,
+  GBP: 2_000,
+  CHF: 2_200,
+  SEK: 26_000,
+  NOK: 27_000,
+  DKK: 17_000,
+  PLN: 10_000,
+  TRY: 85_000,
+  NGN: 3_800_000,
+  KES: 320_000,
+  ZAR: 45_000,
+  INR: 210_000,
+  CNY: 18_000,
+  JPY: 370_000,
+  AED: 9_200,
+  AUD: 3_800,
+}
+
+/** Species a profile can be built for */
+export const SCORING_SPECIES = Object.keys(
+  SPECIES_TEMPLATES,
+) as Array<ScoringSpecies>
+
+/** Currencies a profile can be built for */
+export const SCORING_CURRENCIES = Object.keys(INVENTORY_TARGETS)
+
+export const DEFAULT_GRADE_CUTOFFS: ScoringProfile['gradeCutoffs'] = [
+  { grade: 'A', minScore: 90 },
+  { grade: 'B', minScore: 80 },
+  { grade: 'C', minScore: 70 },
+  { grade: 'D', minScore: 60 },
+]
+
+export const DEFAULT_SCORING_PROFILE_ID = 'general-usd'
+
+/**
+ * Build the scoring profile for a species and currency
+ *
+ * @param species - Species, or 'general' for mixed farms
+ * @param currency - ISO currency code
+ * @returns Profile, or null for an unsupported species or currency
+ *
+ * @example
+ * ```ts
+ * buildScoringProfile('poultry', 'NGN')?.id // 'poultry-ngn'
+ * ```
+ */
+export function buildScoringProfile(
+  species: string,
+  currency: string,
+): ScoringProfile | null {
+  const code = currency.toUpperCase()
+  if (!SCORING_SPECIES.some((s) => s === species)) return null
+  if (!(code in INVENTORY_TARGETS)) return null
+
+  const template = SPECIES_TEMPLATES[species as ScoringSpecies]
+  return {
+    id: `${species}-${code.toLowerCase()}`,
+    name: `${template.name} (${code})`,
+    species: species as ScoringSpecies,
+    currency: code,
+    weights: { ...template.weights },
+    ranges: {
+      profitMargin: { worst: 0, best: 50 },
+      successRate: { worst: 0, best: 100 },
+      monthsOperating: { worst: 0, best: 36 },
+      fcr: template.fcr,
+      mortalityRate: template.mortalityRate,
+      honeyYield: { worst: 0, best: 25 },
+      inventoryValue: {
+        worst: 0,
+        best: INVENTORY_TARGETS[code] * template.inventoryScale,
+      },
+      structureCount: { worst: 0, best: 10 },
+    },
+    gradeCutoffs: DEFAULT_GRADE_CUTOFFS,
+  }
+}
+
+/**
+ * Every built-in scoring profile
+ *
+ * @returns Profiles for each species and currency
+ */
+export function listScoringProfiles(): Array<ScoringProfile> {
+  return SCORING_SPECIES.flatMap((species) =>
+    SCORING_CURRENCIES.map((currency) =>
+      buildScoringProfile(species, currency)!,
+    ),
+  )
+}
+
+/**
+ * Look up a scoring profile by ID, such as `fish-kes`
+ *
+ * @param id - Profile ID
+ * @returns Profile, or null if there is no such profile
+ */
+export function getScoringProfile(id: string): ScoringProfile | null {
+  const separator = id.lastIndexOf('-')
+  if (separator <= 0) return null
+  return buildScoringProfile(id.slice(0, separator), id.slice(separator + 1))
+}
+
+/**
+ * Profile for a farm's main species and its owner's currency. Farms where no
+ * species makes up most of the stock use the general profile.
+ *
+ * @param livestockTypes - Livestock type of each batch or hive
+ * @param currency - Farmer's currency; unsupported currencies fall back to USD
+ * @returns Matching profile
+ */
+export function resolveScoringProfile(
+  livestockTypes: Array<string>,
+  currency: string,
+): ScoringProfile {
+  const counts = new Map<string, number>()
+  for (const type of livestockTypes) {
+    counts.set(type, (counts.get(type) ?? 0) + 1)
+  }
+  const main = [...counts.entries()].find(
+    ([, count]) => count * 2 > livestockTypes.length,
+  )
+  const species = main ? main[0] : 'general'
+
+  return (
+    buildScoringProfile(species, currency) ??
+    buildScoringProfile('general', currency) ??
+    getScoringProfile(DEFAULT_SCORING_PROFILE_ID)!
+  )
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * Place a raw value in a factor's range
+ *
+ * @param value - Raw value, or null without data
+ * @param range - Values scoring 0 and 100
+ * @returns Score from 0 to 100; 0 without data
+ */
+export function normalizeFactor(
+  value: number | null,
+  range: FactorRange,
+): number {
+  if (value === null || !isFinite(value)) return 0
+  if (range.best === range.worst) return value === range.best ? 100 : 0
+  const position = (value - range.worst) / (range.best - range.worst)
+  return Math.min(100, Math.max(0, position * 100))
+}
+
+/**
+ * Grade for a score
+ *
+ * @param score - Score from 0 to 100
+ * @param cutoffs - Lowest score per grade, best first
+ * @returns Grade; F below every cutoff
+ */
+export function gradeScore(
+  score: number,
+  cutoffs: ScoringProfile['gradeCutoffs'],
+): CreditGrade {
+  return cutoffs.find((cutoff) => score >= cutoff.minScore)?.grade ?? 'F'
+}
+
+const round = (value: number, places: number) =>
+  Math.round(value * 10 ** places) / 10 ** places
+
+/**
+ * Score a farm against a profile, explaining every factor
+ *
+ * @param input - Financial, operational, asset and track record metrics
+ * @param profile - Scoring profile
+ * @returns Score, grade, group breakdown and explanation
+ *
+ * @example
+ * ```ts
+ * const result = scoreCredit(metrics, getScoringProfile('poultry-ngn')!)
+ * result.explanation.factors[0]
+ * // { key: 'profitMargin', rawValue: 25, normalizedScore: 50, weight: 0.3, contribution: 15, ... }
+ * ```
+ */
+export function scoreCredit(
+  input: CreditScoreInput,
+  profile: ScoringProfile,
+): CreditScore {
+  const scored = FACTOR_KEYS.filter((key) => profile.weights[key] > 0).map(
+    (key) => {
+      const rawValue = FACTORS[key].read(input)
+      const normalizedScore = normalizeFactor(rawValue, profile.ranges[key])
+      return {
+        key,
+        rawValue,
+        normalizedScore,
+        weight: profile.weights[key],
+        contribution: normalizedScore * profile.weights[key],
+      }
+    },
+  )
+
+  const score = Math.round(
+    scored.reduce((sum, factor) => sum + factor.contribution, 0),
+  )
+  const grade = gradeScore(score, profile.gradeCutoffs)
+
+  const groupScore = (group: ScoreGroup) => {
+    const members = scored.filter((f) => FACTORS[f.key].group === group)
+    const weight = members.reduce((sum, f) => sum + f.weight, 0)
+    if (weight === 0) return 0
+    return Math.round(
+      members.reduce((sum, f) => sum + f.contribution, 0) / weight,
+    )
+  }
+
+  const improvements = scored
+    .map((factor) => ({
+      factor: factor.key,
+      currentValue: factor.rawValue,
+      targetValue: profile.ranges[factor.key].best,
+      unit: FACTORS[factor.key].unit,
+      potentialGain: round((100 - factor.normalizedScore) * factor.weight, 1),
+    }))
+    .filter((improvement) => improvement.potentialGain >= 0.5)
+    .sort((a, b) => b.potentialGain - a.potentialGain)
+
+  const next = profile.gradeCutoffs
+    .filter((cutoff) => cutoff.minScore > score)
+    .sort((a, b) => a.minScore - b.minScore)[0] as
+    ScoringProfile['gradeCutoffs'][number] | undefined
+
+  return {
+    score,
+    grade,
+    breakdown: {
+      profitMargin: groupScore('profitMargin'),
+      trackRecord: groupScore('trackRecord'),
+      efficiency: groupScore('efficiency'),
+      assets: groupScore('assets'),
+    },
+    explanation: {
+      profileId: profile.id,
+      profileName: profile.name,
+      currency: profile.currency,
+      factors: scored.map((factor) => ({
+        ...factor,
+        group: FACTORS[factor.key].group,
+        label: FACTORS[factor.key].label,
+        unit: FACTORS[factor.key].unit,
+        normalizedScore: Math.round(factor.normalizedScore),
+        contribution: round(factor.contribution, 1),
+      })),
+      improvements,
+      nextGrade: next
+        ? { grade: next.grade, pointsNeeded: next.minScore - score }
+        : null,
+    },
+  }
+}
+
+/**
+ * A factor's raw value with its unit, for reports
+ *
+ * @param factor - Scored factor
+ * @returns Value such as `25%`, `24 months` or `No data`
+ */
+export function formatFactorValue(
+  factor: Pick<ScoreFactor, 'rawValue' | 'unit'>,
+): string {
+  if (factor.rawValue === null) return 'No data'
+  const value = String(round(factor.rawValue, 2))
+  if (factor.unit === '' || factor.unit === '%') return value + factor.unit
+  return `${value} ${factor.unit}`
+}
+
+/**
+ * Plain-language advice for an improvement, for the farmer
+ *
+ * @param improvement - Factor and target
+ * @param currency - Currency of inventory values
+ * @returns Advice sentence
+ *
+ * @example
+ * ```ts
+ * describeImprovement({ factor: 'mortalityRate', currentValue: 8, targetValue: 0, ... }, 'NGN')
+ * // 'Cut mortality from 8% towards 0%'
+ * ```
+ */
+export function describeImprovement(
+  improvement: ScoreImprovement,
+  currency: string,
+): string {
+  const current = improvement.currentValue
+  const target = improvement.targetValue
+  const fmt = (value: number) => String(round(value, 2))
+
+  switch (improvement.factor) {
+    case 'profitMargin':
+      return current === null
+        ? 'Record sales and expenses so your profit margin can be measured'
+        : `Raise your profit margin from ${fmt(current)}% towards ${fmt(target)}%`
+    case 'successRate':
+      return `Sell more batches at their target weight (now ${fmt(current ?? 0)}% of batches)`
+    case 'monthsOperating':
+      return `Keep recording: ${fmt(target - (current ?? 0))} more months of history earns full marks`
+    case 'fcr':
+      return current === null
+        ? 'Record feed use and weight samples so feed conversion can be measured'
+        : `Improve feed conversion from ${fmt(current)} towards ${fmt(target)}`
+    case 'mortalityRate':
+      return `Cut mortality from ${fmt(current ?? 0)}% towards ${fmt(target)}%`
+    case 'honeyYield':
+      return current === null
+        ? 'Record honey harvests from your active hives'
+        : `Raise honey yield from ${fmt(current)}kg towards ${fmt(target)}kg per colony`
+    case 'inventoryValue':
+      return `Grow livestock value from ${currency} ${fmt(current ?? 0)} towards ${currency} ${fmt(target)}`
+    case 'structureCount':
+      return `Record your houses, ponds and pens (${fmt(current ?? 0)} of ${fmt(target)} recorded)`
+  }
+}
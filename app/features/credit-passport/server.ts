@@ -1,13 +1,17 @@
 /**
  * Credit Passport Server Functions
  *
- * CSV export implementation for credit reports.
- * PDF generation disabled to stay within Cloudflare Workers free tier.
+ * Signed PDF reports and CSV export. Report requests from third parties stay
+ * disabled.
  */
 
 import { createServerFn } from '@tanstack/react-start'
 import { z } from 'zod'
 import { format } from 'date-fns'
+import { REPORT_LANGUAGES } from './pdf-i18n'
+import type { CreditReport } from './repository'
+import type { ReportLanguage, ReportLayout } from './types'
+import type { CsvValue } from '~/lib/export/csv'
 import { AppError } from '~/lib/errors'
 
 const generateReportSchema = z.object({
@@ -26,22 +30,33 @@ const generateReportSchema = z.object({
     .default(30),
   customNotes: z.string().max(1000).optional(),
   whiteLabel: z.boolean().optional().default(false),
+  scoringProfileId: z.string().max(50).optional(),
+  language: z.enum(REPORT_LANGUAGES).optional(),
+  layout: z.enum(['single', 'bilingual']).optional().default('single'),
 })
 
+export type GenerateReportInput = z.infer<typeof generateReportSchema>
+
 const deleteReportSchema = z.object({
   reportId: z.string().uuid(),
 })
 
 const downloadReportSchema = z.object({
   reportId: z.string().uuid(),
+  language: z.enum(REPORT_LANGUAGES).optional(),
+  layout: z.enum(['single', 'bilingual']).optional().default('single'),
 })
 
+export type DownloadReportInput = z.infer<typeof downloadReportSchema>
+
 const getReportsHistorySchema = z.object({
   farmIds: z.array(z.string().uuid()).optional(),
   page: z.number().int().positive().optional().default(1),
   pageSize: z.number().int().positive().max(100).optional().default(10),
 })
 
+export type GetReportsHistoryInput = z.infer<typeof getReportsHistorySchema>
+
 const approveRequestSchema = z.object({
   requestId: z.string().uuid(),
 })
@@ -65,16 +80,35 @@ const FEATURE_DISABLED_MESSAGE =
 
 /**
  * Generate CSV report for credit assessment
+ *
+ * @throws {AppError} ACCESS_DENIED if the user does not own every farm
  */
 export const generateCSVReportFn = createServerFn({ method: 'POST' })
   .inputValidator(generateReportSchema)
   .handler(async ({ data }) => {
-    await import('../auth/server-middleware').then(({ requireAuth }) =>
-      requireAuth(),
+    const session = await import('../auth/server-middleware').then(
+      ({ requireAuth }) => requireAuth(),
     )
     const { getDb } = await import('~/lib/db')
     const db = await getDb()
 
+    const { getUserSettings } = await import('~/features/settings/repository')
+    const { DEFAULT_SETTINGS } =
+      await import('~/features/settings/currency-presets')
+    const { buildCreditScore, selectScoringProfile } =
+      await import('./lender-service')
+    const { getLenderMetricsData } = await import('./lender-repository')
+    const { describeImprovement, formatFactorValue } =
+      await import('./scoring-service')
+    const { toCsv } = await import('~/lib/export/csv')
+    const { getUserFarms } = await import('~/features/auth/utils')
+
+    const userFarms = await getUserFarms(session.user.id)
+    const deniedFarm = data.farmIds.find((id) => !userFarms.includes(id))
+    if (deniedFarm) {
+      throw new AppError('ACCESS_DENIED', { metadata: { farmId: deniedFarm } })
+    }
+
     // Fetch farm data
     const farms = await db
       .selectFrom('farms')
@@ -123,108 +157,472 @@ export const generateCSVReportFn = createServerFn({ method: 'POST' })
     )
     const netProfit = totalRevenue - totalExpenses
 
+    // Score with the lender's profile, or the one fitting the farm
+    const metricsData = await getLenderMetricsData(
+      db,
+      data.farmIds,
+      data.startDate,
+      data.endDate,
+    )
+    const settings = await getUserSettings(db, session.user.id)
+    const currency = settings?.currencyCode ?? DEFAULT_SETTINGS.currencyCode
+    const profile = selectScoringProfile(
+      metricsData,
+      currency,
+      data.scoringProfileId ?? null,
+    )
+    if (!profile) {
+      throw new AppError('SCORING_PROFILE_NOT_FOUND', {
+        metadata: { profile: data.scoringProfileId },
+      })
+    }
+    const creditScore = buildCreditScore(
+      metricsData,
+      data.startDate,
+      data.endDate,
+      profile,
+    )
+
     // Generate CSV content
-    const csvLines: Array<string> = []
+    const rows: Array<Array<CsvValue>> = []
 
     // Header
-    csvLines.push('LivestockAI Credit Passport Report')
-    csvLines.push(`Report Type: ${data.reportType}`)
-    csvLines.push(`Generated: ${format(new Date(), 'yyyy-MM-dd HH:mm:ss')}`)
-    csvLines.push(
-      `Period: ${format(data.startDate, 'yyyy-MM-dd')} to ${format(data.endDate, 'yyyy-MM-dd')}`,
+    rows.push(
+      ['LivestockAI Credit Passport Report'],
+      [`Report Type: ${data.reportType}`],
+      [`Generated: ${format(new Date(), 'yyyy-MM-dd HH:mm:ss')}`],
+      [
+        `Period: ${format(data.startDate, 'yyyy-MM-dd')} to ${format(data.endDate, 'yyyy-MM-dd')}`,
+      ],
+      [],
     )
-    csvLines.push('')
 
     // Farm Summary
-    csvLines.push('FARM INFORMATION')
-    csvLines.push('Farm Name,Location,Type')
+    rows.push(['FARM INFORMATION'], ['Farm Name', 'Location', 'Type'])
     farms.forEach((farm) => {
-      csvLines.push(`"${farm.name}","${farm.location}","${farm.type}"`)
+      rows.push([farm.name, farm.location, farm.type])
     })
-    csvLines.push('')
+    rows.push([])
 
     // Financial Summary
-    csvLines.push('FINANCIAL SUMMARY')
-    csvLines.push('Metric,Amount')
-    csvLines.push(`Total Revenue,${totalRevenue.toFixed(2)}`)
-    csvLines.push(`Total Expenses,${totalExpenses.toFixed(2)}`)
-    csvLines.push(`Net Profit,${netProfit.toFixed(2)}`)
-    csvLines.push(
-      `Profit Margin,${totalRevenue > 0 ? ((netProfit / totalRevenue) * 100).toFixed(2) : 0}%`,
+    rows.push(
+      ['FINANCIAL SUMMARY'],
+      ['Metric', 'Amount'],
+      ['Total Revenue', totalRevenue.toFixed(2)],
+      ['Total Expenses', totalExpenses.toFixed(2)],
+      ['Net Profit', netProfit.toFixed(2)],
+      [
+        'Profit Margin',
+        `${totalRevenue > 0 ? ((netProfit / totalRevenue) * 100).toFixed(2) : 0}%`,
+      ],
+      [],
+    )
+
+    // Credit Score
+    const { explanation } = creditScore
+    rows.push(
+      ['CREDIT SCORE'],
+      ['Scoring Profile', explanation.profileName],
+      ['Score', `${creditScore.score}/100`],
+      ['Grade', creditScore.grade],
+    )
+    if (explanation.nextGrade) {
+      rows.push([
+        'Next Grade',
+        `${explanation.nextGrade.grade} (${explanation.nextGrade.pointsNeeded} points away)`,
+      ])
+    }
+    rows.push([])
+
+    rows.push(
+      ['SCORE EXPLANATION'],
+      ['Factor', 'Value', 'Normalised Score', 'Weight', 'Contribution'],
     )
-    csvLines.push('')
+    explanation.factors.forEach((factor) => {
+      rows.push([
+        factor.label,
+        formatFactorValue(factor),
+        factor.normalizedScore,
+        `${Math.round(factor.weight * 1000) / 10}%`,
+        factor.contribution,
+      ])
+    })
+    rows.push([])
+
+    if (explanation.improvements.length > 0) {
+      rows.push(['HOW TO RAISE YOUR SCORE'], ['Suggestion', 'Potential Gain'])
+      explanation.improvements.forEach((improvement) => {
+        rows.push([
+          describeImprovement(improvement, profile.currency),
+          `+${improvement.potentialGain} points`,
+        ])
+      })
+      rows.push([])
+    }
 
     // Batch Summary
-    csvLines.push('BATCH INFORMATION')
-    csvLines.push(
-      'Batch Name,Species,Initial Quantity,Current Quantity,Status,Acquisition Date',
+    rows.push(
+      ['BATCH INFORMATION'],
+      [
+        'Batch Name',
+        'Species',
+        'Initial Quantity',
+        'Current Quantity',
+        'Status',
+        'Acquisition Date',
+      ],
     )
     batches.forEach((batch) => {
-      csvLines.push(
-        `"${batch.batchName || 'N/A'}","${batch.species}",${batch.initialQuantity},${batch.currentQuantity},"${batch.status}","${format(new Date(batch.acquisitionDate), 'yyyy-MM-dd')}"`,
-      )
+      rows.push([
+        batch.batchName || 'N/A',
+        batch.species,
+        batch.initialQuantity,
+        batch.currentQuantity,
+        batch.status,
+        format(new Date(batch.acquisitionDate), 'yyyy-MM-dd'),
+      ])
     })
-    csvLines.push('')
+    rows.push([])
 
     // Sales Details
-    csvLines.push('SALES TRANSACTIONS')
-    csvLines.push('Date,Type,Quantity,Unit Price,Total Amount')
+    rows.push(
+      ['SALES TRANSACTIONS'],
+      ['Date', 'Type', 'Quantity', 'Unit Price', 'Total Amount'],
+    )
     sales.forEach((sale) => {
-      csvLines.push(
-        `"${format(new Date(sale.date), 'yyyy-MM-dd')}","${sale.livestockType}",${sale.quantity},${Number(sale.unitPrice).toFixed(2)},${Number(sale.totalAmount).toFixed(2)}`,
-      )
+      rows.push([
+        format(new Date(sale.date), 'yyyy-MM-dd'),
+        sale.livestockType,
+        sale.quantity,
+        Number(sale.unitPrice).toFixed(2),
+        Number(sale.totalAmount).toFixed(2),
+      ])
     })
-    csvLines.push('')
+    rows.push([])
 
     // Expenses Details
-    csvLines.push('EXPENSE TRANSACTIONS')
-    csvLines.push('Date,Category,Description,Amount')
+    rows.push(
+      ['EXPENSE TRANSACTIONS'],
+      ['Date', 'Category', 'Description', 'Amount'],
+    )
     expenses.forEach((expense) => {
-      csvLines.push(
-        `"${format(new Date(expense.date), 'yyyy-MM-dd')}","${expense.category}","${expense.description}",${Number(expense.amount).toFixed(2)}`,
-      )
+      rows.push([
+        format(new Date(expense.date), 'yyyy-MM-dd'),
+        expense.category,
+        expense.description,
+        Number(expense.amount).toFixed(2),
+      ])
     })
 
     if (data.customNotes) {
-      csvLines.push('')
-      csvLines.push('ADDITIONAL NOTES')
-      csvLines.push(`"${data.customNotes}"`)
+      rows.push([], ['ADDITIONAL NOTES'], [data.customNotes])
     }
 
     return {
-      csv: csvLines.join('\n'),
+      csv: toCsv(rows),
       filename: `credit-passport-${format(new Date(), 'yyyy-MM-dd')}.csv`,
     }
   })
 
+/**
+ * Render a stored report, with a QR code pointing at this site's
+ * verification page
+ */
+async function renderStoredReport(
+  report: CreditReport,
+  language: ReportLanguage,
+  layout: ReportLayout,
+): Promise<Uint8Array> {
+  const { getRequestUrl } = await import('@tanstack/react-start/server')
+  const { renderCreditPassportPDF } = await import('./pdf-generator')
+
+  return renderCreditPassportPDF(report, {
+    language,
+    layout,
+    baseUrl: getRequestUrl().origin,
+    fontUrl: process.env.CREDIT_PASSPORT_FONT_URL,
+  })
+}
+
+/**
+ * Load a report the user owns
+ */
+async function getOwnedReport(userId: string, reportId: string) {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { getCreditReportById } = await import('./repository')
+
+  const report = await getCreditReportById(db, reportId)
+  if (!report || report.deletedAt) {
+    throw new AppError('REPORT_NOT_FOUND', { metadata: { reportId } })
+  }
+  if (report.userId !== userId) {
+    throw new AppError('ACCESS_DENIED', { metadata: { reportId } })
+  }
+  return report
+}
+
+/**
+ * Generate a signed credit passport, store it and render its PDF
+ *
+ * @param userId - ID of the user generating the report
+ * @param input - Farms, period, validity, branding, language and layout
+ * @returns Report ID and the PDF as base64
+ * @throws {AppError} ACCESS_DENIED if the user does not own every farm
+ * @throws {AppError} SCORING_PROFILE_NOT_FOUND if the requested profile does not exist
+ */
+export async function generateCreditReport(
+  userId: string,
+  input: GenerateReportInput,
+) {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { getUserFarms } = await import('~/features/auth/utils')
+  const { getUserSettings } = await import('~/features/settings/repository')
+  const { DEFAULT_SETTINGS } =
+    await import('~/features/settings/currency-presets')
+  const { buildReportMetrics, selectScoringProfile } =
+    await import('./lender-service')
+  const { getLenderMetricsData } = await import('./lender-repository')
+  const { issueSignedReport } = await import('./key-registry-server')
+  const { calculateExpirationDate } = await import('./signature-service')
+  const { getCreditReportById } = await import('./repository')
+  const { pdfToBase64 } = await import('~/lib/export/pdf')
+
+  const userFarms = await getUserFarms(userId)
+  const deniedFarm = input.farmIds.find((id) => !userFarms.includes(id))
+  if (deniedFarm) {
+    throw new AppError('ACCESS_DENIED', { metadata: { farmId: deniedFarm } })
+  }
+
+  try {
+    const metricsData = await getLenderMetricsData(
+      db,
+      input.farmIds,
+      input.startDate,
+      input.endDate,
+    )
+    const settings = await getUserSettings(db, userId)
+    const currency = settings?.currencyCode ?? DEFAULT_SETTINGS.currencyCode
+    const profile = selectScoringProfile(
+      metricsData,
+      currency,
+      input.scoringProfileId ?? null,
+    )
+    if (!profile) {
+      throw new AppError('SCORING_PROFILE_NOT_FOUND', {
+        metadata: { profile: input.scoringProfileId },
+      })
+    }
+    const metrics = buildReportMetrics(
+      metricsData,
+      input.startDate,
+      input.endDate,
+      profile,
+    )
+
+    const now = new Date()
+    const reportId = await issueSignedReport(
+      db,
+      {
+        userId,
+        farmIds: input.farmIds,
+        batchIds: input.batchIds,
+        reportType: input.reportType,
+        startDate: input.startDate,
+        endDate: input.endDate,
+        validityDays: input.validityDays,
+        expiresAt: calculateExpirationDate(now, input.validityDays),
+        pdfUrl: null,
+        metricsSnapshot: { ...metrics },
+        status: 'active',
+        customNotes: input.customNotes ?? null,
+        whiteLabel: input.whiteLabel,
+      },
+      now,
+    )
+
+    const report = await getCreditReportById(db, reportId)
+    const pdf = await renderStoredReport(
+      report!,
+      input.language ?? settings?.language ?? DEFAULT_SETTINGS.language,
+      input.layout,
+    )
+
+    return {
+      reportId,
+      content: pdfToBase64(pdf),
+      filename: `credit-passport-${reportId}.pdf`,
+      mimeType: 'application/pdf',
+    }
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('REPORT_GENERATION_FAILED', { cause: error })
+  }
+}
+
+/**
+ * Re-render the PDF of a stored report and log the download
+ *
+ * @param userId - ID of the user downloading
+ * @param input - Report ID, and the language and layout to render in
+ * @returns The PDF as base64
+ * @throws {AppError} REPORT_NOT_FOUND if the report does not exist
+ * @throws {AppError} ACCESS_DENIED if the user does not own the report
+ */
+export async function downloadCreditReport(
+  userId: string,
+  input: DownloadReportInput,
+) {
+  const { reportId } = input
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { getUserSettings } = await import('~/features/settings/repository')
+  const { DEFAULT_SETTINGS } =
+    await import('~/features/settings/currency-presets')
+  const { logReportAccess } = await import('./repository')
+  const { pdfToBase64 } = await import('~/lib/export/pdf')
+
+  const report = await getOwnedReport(userId, reportId)
+
+  try {
+    const settings = await getUserSettings(db, userId)
+    const pdf = await renderStoredReport(
+      report,
+      input.language ?? settings?.language ?? DEFAULT_SETTINGS.language,
+      input.layout,
+    )
+
+    await logReportAccess(db, {
+      reportId,
+      accessType: 'download',
+      accessorIp: null,
+      accessorUserAgent: null,
+      verificationResult: null,
+    })
+
+    return {
+      content: pdfToBase64(pdf),
+      filename: `credit-passport-${reportId}.pdf`,
+      mimeType: 'application/pdf',
+    }
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('REPORT_GENERATION_FAILED', { cause: error })
+  }
+}
+
+/**
+ * Delete a report, so it no longer verifies
+ *
+ * @param userId - ID of the user deleting
+ * @param reportId - Report ID
+ * @throws {AppError} REPORT_NOT_FOUND if the report does not exist
+ * @throws {AppError} ACCESS_DENIED if the user does not own the report
+ */
+export async function deleteCreditReport(
+  userId: string,
+  reportId: string,
+): Promise<void> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { deleteCreditReport: deleteReport } = await import('./repository')
+
+  await getOwnedReport(userId, reportId)
+
+  try {
+    await deleteReport(db, reportId)
+  } catch (error) {
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to delete credit report',
+      cause: error,
+    })
+  }
+}
+
+/**
+ * Get a page of the user's reports, newest first. Active reports past their
+ * expiry are listed as expired.
+ *
+ * @param userId - ID of the user
+ * @param filters - Farms to limit to, and the page
+ * @returns Reports and paging totals
+ */
+export async function getReportsHistory(
+  userId: string,
+  filters: GetReportsHistoryInput,
+) {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { getCreditReportsPage } = await import('./repository')
+  const { isExpired } = await import('./signature-service')
+
+  try {
+    const { reports, total } = await getCreditReportsPage(db, userId, filters)
+    return {
+      reports: reports.map((report) => ({
+        ...report,
+        status:
+          report.status === 'active' && isExpired(report.expiresAt)
+            ? 'expired'
+            : report.status,
+      })),
+      total,
+      page: filters.page,
+      pageSize: filters.pageSize,
+      totalPages: Math.ceil(total / filters.pageSize),
+    }
+  } catch (error) {
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to load credit reports',
+      cause: error,
+    })
+  }
+}
+
+/**
+ * Server function to generate a signed credit passport PDF
+ */
 export const generateReportFn = createServerFn({ method: 'POST' })
   .inputValidator(generateReportSchema)
-  .handler(() => {
-    throw new AppError('FEATURE_DISABLED', {
-      message: FEATURE_DISABLED_MESSAGE,
-    })
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+    return generateCreditReport(session.user.id, data)
   })
 
+/**
+ * Server function to delete a credit report
+ */
 export const deleteReportFn = createServerFn({ method: 'POST' })
   .inputValidator(deleteReportSchema)
-  .handler(() => {
-    throw new AppError('FEATURE_DISABLED', {
-      message: FEATURE_DISABLED_MESSAGE,
-    })
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+    await deleteCreditReport(session.user.id, data.reportId)
+    return { success: true }
   })
 
+/**
+ * Server function to download a stored report's PDF
+ */
 export const downloadReportFn = createServerFn({ method: 'POST' })
   .inputValidator(downloadReportSchema)
-  .handler(() => {
-    throw new AppError('FEATURE_DISABLED', {
-      message: FEATURE_DISABLED_MESSAGE,
-    })
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+    return downloadCreditReport(session.user.id, data)
   })
 
+/**
+ * Server function to list the user's credit reports
+ */
 export const getReportsHistoryFn = createServerFn({ method: 'GET' })
   .inputValidator(getReportsHistorySchema)
-  .handler(() => {
-    return { reports: [], total: 0, page: 1, pageSize: 10, totalPages: 0 }
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+    return getReportsHistory(session.user.id, data)
   })
 
 export const approveRequestFn = createServerFn({ method: 'POST' })
@@ -251,8 +649,12 @@ export const getReportRequestsFn = createServerFn({ method: 'GET' })
 
 export const verifyReportFn = createServerFn({ method: 'GET' })
   .inputValidator(verifyReportSchema)
-  .handler(() => {
-    throw new AppError('FEATURE_DISABLED', {
-      message: FEATURE_DISABLED_MESSAGE,
+  .handler(async ({ data }) => {
+    const { getRequestHeaders } = await import('@tanstack/react-start/server')
+    const { verifyCreditReport } = await import('./key-registry-server')
+    const headers = getRequestHeaders()
+    return verifyCreditReport(data.reportId, {
+      ip: headers.get('cf-connecting-ip') ?? headers.get('x-forwarded-for'),
+      userAgent: headers.get('user-agent'),
     })
   })
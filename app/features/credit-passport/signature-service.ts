@@ -1,4 +1,4 @@
-import { sign, verify } from '@noble/ed25519'
+import { getPublicKeyAsync, signAsync, verifyAsync } from '@noble/ed25519'
 
 /**
  * Hash content using SHA-256
@@ -24,7 +24,7 @@ export async function signReport(
   const hashBytes = new Uint8Array(
     hash.match(/.{2}/g)!.map((byte) => parseInt(byte, 16)),
   )
-  const signature = await sign(hashBytes, privateKey)
+  const signature = await signAsync(hashBytes, privateKey)
   return Array.from(signature)
     .map((b) => b.toString(16).padStart(2, '0'))
     .join('')
@@ -49,12 +49,73 @@ export async function verifyReport(
       publicKey.match(/.{2}/g)!.map((byte) => parseInt(byte, 16)),
     )
 
-    return await verify(sigBytes, hashBytes, pubKeyBytes)
+    return await verifyAsync(sigBytes, hashBytes, pubKeyBytes)
   } catch {
     return false
   }
 }
 
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('')
+
+/**
+ * Serialize JSON with object keys sorted, so a signed payload hashes the same
+ * wherever it is re-serialized
+ */
+export function canonicalJson(value: unknown): string {
+  // Matches JSON.stringify, which writes undefined array items as null
+  if (value === undefined) return 'null'
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value)
+  }
+  if (value instanceof Date) return JSON.stringify(value)
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item)).join(',')}]`
+  }
+  const entries = Object.entries(value)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+  return `{${entries
+    .map(([key, v]) => `${JSON.stringify(key)}:${canonicalJson(v)}`)
+    .join(',')}}`
+}
+
+/**
+ * Detached Ed25519 signature over a JSON payload
+ */
+export interface PayloadSignature {
+  algorithm: 'Ed25519'
+  /** Registry ID of the signing key */
+  keyId: string
+  /** SHA-256 of the canonical JSON payload */
+  hash: string
+  signature: string
+  publicKey: string
+}
+
+/**
+ * Sign the canonical JSON of a payload with an Ed25519 private key
+ */
+export async function signPayload(
+  payload: unknown,
+  privateKey: Uint8Array,
+  keyId: string,
+): Promise<PayloadSignature> {
+  const hash = await hashContent(canonicalJson(payload))
+  const hashBytes = new Uint8Array(
+    hash.match(/.{2}/g)!.map((byte) => parseInt(byte, 16)),
+  )
+  return {
+    algorithm: 'Ed25519',
+    keyId,
+    hash,
+    signature: toHex(await signAsync(hashBytes, privateKey)),
+    publicKey: toHex(await getPublicKeyAsync(privateKey)),
+  }
+}
+
 /**
  * Calculate expiration date
  */
@@ -2,6 +2,9 @@
  * Type definitions for Credit Passport metrics
  */
 
+import type { CreditGrade, ScoreExplanation } from './scoring-service'
+import type { UserSettingsTable } from '~/lib/db/types'
+
 export interface FinancialMetrics {
   totalRevenue: number
   totalExpenses: number
@@ -17,6 +20,8 @@ export interface OperationalMetrics {
   avgMortalityRate: number
   growthPerformanceIndex: number
   batchCount: number
+  colonyCount: number
+  honeyYieldPerColony: number | null
 }
 
 export interface AssetMetrics {
@@ -36,7 +41,9 @@ export interface TrackRecordMetrics {
 
 export interface CreditScoreMetrics {
   score: number
-  grade: 'A' | 'B' | 'C' | 'D' | 'F'
+  grade: CreditGrade
+  breakdown: Record<string, number>
+  explanation: ScoreExplanation
 }
 
 export interface ReportMetrics {
@@ -48,10 +55,12 @@ export interface ReportMetrics {
 }
 
 export type ReportType =
-  | 'credit_assessment'
-  | 'production_certificate'
-  | 'impact_report'
+  'credit_assessment' | 'production_certificate' | 'impact_report'
+
+/** Any UI language; the PDF is translated from the same catalogue */
+export type ReportLanguage = UserSettingsTable['language']
 
-export type ReportLanguage = 'en' | 'fr' | 'sw' | 'ha'
+/** `bilingual` prints each label in the report language with English beneath */
+export type ReportLayout = 'single' | 'bilingual'
 
 export type ReportBranding = 'livestockai' | 'white-label'
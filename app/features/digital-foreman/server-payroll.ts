@@ -23,6 +23,21 @@ const recordPaymentSchema = z.object({
   notes: z.string().max(500).optional(),
 })
 
+const paymentReceiptSchema = z.object({
+  receiptNumber: z.string().min(1).max(50),
+  paymentDate: z.coerce.date(),
+  farmName: z.string().min(1),
+  workerName: z.string().min(1),
+  periodStart: z.coerce.date(),
+  periodEnd: z.coerce.date(),
+  totalHours: z.number().nonnegative(),
+  wageRate: z.number().nonnegative(),
+  wageRateType: z.enum(['hourly', 'daily', 'monthly']),
+  grossWages: z.number().nonnegative(),
+  amountPaid: z.number().nonnegative(),
+  paymentMethod: z.enum(['cash', 'bank_transfer', 'mobile_money']),
+})
+
 const saveGeofenceSchema = z.object({
   farmId: z.string().uuid(),
   geofenceType: z.enum(['circle', 'polygon']),
@@ -180,6 +195,24 @@ export const recordPaymentFn = createServerFn({ method: 'POST' })
     return paymentId
   })
 
+export const generatePaymentReceiptPdfFn = createServerFn({ method: 'POST' })
+  .inputValidator(paymentReceiptSchema)
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+    const { getSettingsForUser } = await import('~/features/settings/server')
+    const { generatePaymentReceiptPDF, pdfToBase64 } =
+      await import('~/lib/export/pdf')
+
+    const settings = await getSettingsForUser(session.user.id)
+    const pdf = await generatePaymentReceiptPDF(data, settings)
+
+    return {
+      content: pdfToBase64(pdf),
+      filename: `receipt-${data.workerName.replace(/\s+/g, '-').toLowerCase()}-${data.periodStart.toISOString().split('T')[0]}.pdf`,
+    }
+  })
+
 export const getPayrollHistoryFn = createServerFn({ method: 'GET' })
   .inputValidator(z.object({ farmId: z.string().uuid().optional() }))
   .handler(async ({ data }) => {
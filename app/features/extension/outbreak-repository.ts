@@ -1,5 +1,11 @@
+import { sql } from 'kysely'
 import type { Kysely } from 'kysely'
-import type { Database } from '~/lib/db/types'
+import type {
+  DistrictLocation,
+  FarmPopulation,
+  MortalityEvent,
+} from './outbreak-service'
+import type { Database, OutbreakSignalSnapshot } from '~/lib/db/types'
 
 export interface OutbreakAlertInsert {
   districtId: string
@@ -8,6 +14,8 @@ export interface OutbreakAlertInsert {
   severity: 'watch' | 'alert' | 'critical'
   status?: 'active' | 'monitoring' | 'resolved' | 'false_positive'
   notes?: string | null
+  confidence?: number | null
+  signals?: OutbreakSignalSnapshot | null
   createdBy: string
   updatedBy: string
 }
@@ -22,11 +30,14 @@ export interface OutbreakAlertWithFarms {
   detectedAt: Date
   resolvedAt: Date | null
   notes: string | null
+  confidence: string | null
+  signals: OutbreakSignalSnapshot | null
   createdBy: string
   updatedAt: Date
   updatedBy: string
   farms: Array<{
     farmId: string
+    farmName: string
     mortalityRate: string
     reportedAt: Date
   }>
@@ -40,6 +51,10 @@ export async function createOutbreakAlert(
     .insertInto('outbreak_alerts')
     .values({
       ...data,
+      confidence:
+        data.confidence === undefined || data.confidence === null
+          ? null
+          : data.confidence.toFixed(2),
       status: data.status || 'active',
     })
     .returning('id')
@@ -63,6 +78,8 @@ export async function getOutbreakAlert(
       'detectedAt',
       'resolvedAt',
       'notes',
+      'confidence',
+      'signals',
       'createdBy',
       'updatedAt',
       'updatedBy',
@@ -74,8 +91,14 @@ export async function getOutbreakAlert(
 
   const farms = await db
     .selectFrom('outbreak_alert_farms')
-    .select(['alertId', 'farmId', 'mortalityRate', 'reportedAt'])
-    .where('alertId', '=', alertId)
+    .innerJoin('farms', 'farms.id', 'outbreak_alert_farms.farmId')
+    .select([
+      'outbreak_alert_farms.farmId',
+      'farms.name as farmName',
+      'outbreak_alert_farms.mortalityRate',
+      'outbreak_alert_farms.reportedAt',
+    ])
+    .where('outbreak_alert_farms.alertId', '=', alertId)
     .execute()
 
   return {
@@ -100,6 +123,8 @@ export async function getActiveAlerts(
       'detectedAt',
       'resolvedAt',
       'notes',
+      'confidence',
+      'signals',
       'createdBy',
       'updatedAt',
       'updatedBy',
@@ -113,8 +138,14 @@ export async function getActiveAlerts(
     alerts.map(async (alert) => {
       const farms = await db
         .selectFrom('outbreak_alert_farms')
-        .select(['alertId', 'farmId', 'mortalityRate', 'reportedAt'])
-        .where('alertId', '=', alert.id)
+        .innerJoin('farms', 'farms.id', 'outbreak_alert_farms.farmId')
+        .select([
+          'outbreak_alert_farms.farmId',
+          'farms.name as farmName',
+          'outbreak_alert_farms.mortalityRate',
+          'outbreak_alert_farms.reportedAt',
+        ])
+        .where('outbreak_alert_farms.alertId', '=', alert.id)
         .execute()
       return { ...alert, farms }
     }),
@@ -167,3 +198,157 @@ export async function resolveAlert(
 ): Promise<void> {
   await updateAlertStatus(db, alertId, 'resolved', updatedBy, notes)
 }
+
+/**
+ * Get the open (active or monitoring) alert for a district and species
+ *
+ * @param db - Kysely database instance
+ * @param districtId - District ID
+ * @param species - Species
+ * @returns Alert ID or null
+ */
+export async function getOpenAlertId(
+  db: Kysely<Database>,
+  districtId: string,
+  species: string,
+): Promise<string | null> {
+  const alert = await db
+    .selectFrom('outbreak_alerts')
+    .select('id')
+    .where('districtId', '=', districtId)
+    .where('species', '=', species)
+    .where('status', 'in', ['active', 'monitoring'])
+    .executeTakeFirst()
+  return alert?.id ?? null
+}
+
+/**
+ * Get mortality records for outbreak detection, with each farm's district.
+ * Batches under 50 animals, or less than 7 days old when the death was
+ * recorded, are left out: their deaths are noise.
+ *
+ * @param db - Kysely database instance
+ * @param filters - Window start and end, and optionally species and districts
+ * @returns Mortality events
+ */
+export async function getMortalityEvents(
+  db: Kysely<Database>,
+  filters: {
+    since: Date
+    until: Date
+    species?: string
+    districtIds?: Array<string>
+  },
+): Promise<Array<MortalityEvent>> {
+  let query = db
+    .selectFrom('mortality_records')
+    .innerJoin('batches', 'batches.id', 'mortality_records.batchId')
+    .innerJoin('farms', 'farms.id', 'batches.farmId')
+    .select([
+      'farms.id as farmId',
+      'farms.districtId',
+      'batches.species',
+      'mortality_records.date',
+      'mortality_records.quantity',
+      'mortality_records.cause',
+    ])
+    .where('farms.districtId', 'is not', null)
+    .where('batches.deletedAt', 'is', null)
+    .where('batches.initialQuantity', '>=', 50)
+    .where(
+      sql<boolean>`mortality_records.date >= batches."acquisitionDate" + interval '7 days'`,
+    )
+    .where('mortality_records.date', '>=', filters.since)
+    .where('mortality_records.date', '<=', filters.until)
+
+  if (filters.species) {
+    query = query.where('batches.species', '=', filters.species)
+  }
+  if (filters.districtIds) {
+    if (filters.districtIds.length === 0) return []
+    query = query.where('farms.districtId', 'in', filters.districtIds)
+  }
+
+  const rows = await query.execute()
+  return rows.map((row) => ({ ...row, districtId: row.districtId! }))
+}
+
+/**
+ * Get animals at risk per farm and species: batches of 50 or more that
+ * were alive at some point since the window start
+ *
+ * @param db - Kysely database instance
+ * @param since - Window start
+ * @returns Farm populations
+ */
+export async function getFarmPopulations(
+  db: Kysely<Database>,
+  since: Date,
+): Promise<Array<FarmPopulation>> {
+  const rows = await db
+    .selectFrom('batches')
+    .innerJoin('farms', 'farms.id', 'batches.farmId')
+    .select([
+      'farms.id as farmId',
+      'farms.districtId',
+      'batches.species',
+      'batches.livestockType',
+      db.fn.sum<string>('batches.initialQuantity').as('population'),
+    ])
+    .where('farms.districtId', 'is not', null)
+    .where('batches.deletedAt', 'is', null)
+    .where('batches.initialQuantity', '>=', 50)
+    .where((eb) =>
+      eb.or([
+        eb('batches.status', '=', 'active'),
+        eb('batches.updatedAt', '>=', since),
+      ]),
+    )
+    .groupBy([
+      'farms.id',
+      'farms.districtId',
+      'batches.species',
+      'batches.livestockType',
+    ])
+    .execute()
+
+  return rows.map((row) => ({
+    farmId: row.farmId,
+    districtId: row.districtId!,
+    species: row.species,
+    livestockType: row.livestockType,
+    population: Number(row.population),
+  }))
+}
+
+/**
+ * Get active districts with their parent region and the centroid of their
+ * farms' coordinates
+ *
+ * @param db - Kysely database instance
+ * @returns District locations
+ */
+export async function getDistrictLocations(
+  db: Kysely<Database>,
+): Promise<Array<DistrictLocation>> {
+  const rows = await db
+    .selectFrom('regions')
+    .leftJoin('farms', 'farms.districtId', 'regions.id')
+    .select([
+      'regions.id as districtId',
+      'regions.parentId',
+      sql<string | null>`avg(farms.latitude)`.as('latitude'),
+      sql<string | null>`avg(farms.longitude)`.as('longitude'),
+    ])
+    .where('regions.level', '=', 2)
+    .where('regions.isActive', '=', true)
+    .groupBy(['regions.id', 'regions.parentId'])
+    .execute()
+
+  return rows.map((row) => ({
+    districtId: row.districtId,
+    parentId: row.parentId,
+    latitude: row.latitude === null ? null : Number(row.latitude),
+    longitude: row.longitude === null ? null : Number(row.longitude),
+  }))
+}
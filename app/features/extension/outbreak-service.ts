@@ -1,3 +1,5 @@
+import type { MortalityTable } from '~/lib/db/types'
+
 export interface MortalityData {
   farmId: string
   species: string
@@ -118,3 +120,474 @@ export function shouldCreateAlert(
       alert.status === 'active',
   )
 }
+
+// ============================================================================
+// Baseline detection (CUSUM / EWMA)
+// ============================================================================
+
+export type MortalityCause = MortalityTable['cause']
+
+/**
+ * How much a death counts as outbreak evidence, by recorded cause. Disease
+ * deaths count in full; predators, weather and culling barely count.
+ */
+export const CAUSE_WEIGHTS: Record<MortalityCause, number> = {
+  disease: 1,
+  unknown: 0.7,
+  poisoning: 0.5,
+  other: 0.5,
+  starvation: 0.3,
+  suffocation: 0.3,
+  injury: 0.2,
+  culling: 0.2,
+  predator: 0.1,
+  weather: 0.1,
+}
+
+export interface MortalityEvent {
+  farmId: string
+  districtId: string
+  species: string
+  date: Date
+  quantity: number
+  cause: MortalityCause
+}
+
+/** Animals at risk on a farm */
+export interface FarmPopulation {
+  farmId: string
+  districtId: string
+  species: string
+  livestockType: string
+  population: number
+}
+
+/** A district with its farm centroid, when its farms have coordinates */
+export interface DistrictLocation {
+  districtId: string
+  parentId: string | null
+  latitude: number | null
+  longitude: number | null
+}
+
+export interface OutbreakDetectionOptions {
+  /** Days of history the baseline is taken from */
+  baselineDays: number
+  /** Most recent days tested against the baseline */
+  detectionDays: number
+  /** CUSUM slack, in standard deviations */
+  cusumK: number
+  /** CUSUM decision interval, in standard deviations */
+  cusumH: number
+  /** EWMA smoothing weight */
+  ewmaLambda: number
+  /** EWMA control limit width, in standard deviations */
+  ewmaL: number
+  /** Floor on the baseline standard deviation, deaths per 1000 per day */
+  minSigma: number
+  /** Districts whose farm centroids are this close count as neighbours */
+  neighbourRadiusKm: number
+}
+
+export const DEFAULT_DETECTION_OPTIONS: OutbreakDetectionOptions = {
+  baselineDays: 56,
+  detectionDays: 14,
+  cusumK: 0.5,
+  cusumH: 4,
+  ewmaLambda: 0.3,
+  ewmaL: 3,
+  minSigma: 0.5,
+  neighbourRadiusKm: 50,
+}
+
+/**
+ * A district whose cause-weighted mortality broke from its own baseline
+ */
+export interface OutbreakSignal {
+  districtId: string
+  species: string
+  livestockType: string
+  severity: 'watch' | 'alert' | 'critical'
+  /** 0-1, from signal strength, disease share, farm spread and neighbours */
+  confidence: number
+  /** Peak CUSUM over the detection window */
+  cusum: number
+  /** Peak EWMA over the detection window */
+  ewma: number
+  ewmaLimit: number
+  /** Weighted deaths per 1000 animals per day, baseline and detection window */
+  baselineRate: number
+  recentRate: number
+  /** Share of detection-window deaths recorded as disease */
+  diseaseShare: number
+  affectedFarms: Array<{ farmId: string; mortalityRate: number }>
+  /** Neighbouring districts signalling for the same species */
+  neighbourDistrictIds: Array<string>
+}
+
+export interface EpidemicCurvePoint {
+  /** Day, `YYYY-MM-DD` */
+  date: string
+  /** District deaths recorded as disease */
+  disease: number
+  /** District deaths from any other cause */
+  otherCauses: number
+  /** Deaths in neighbouring districts */
+  neighbours: number
+  /** Baseline daily deaths in the district */
+  expected: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const dayIndex = (date: Date, start: Date) =>
+  Math.floor((date.getTime() - start.getTime()) / DAY_MS)
+
+const round = (value: number, digits: number) =>
+  Math.round(value * 10 ** digits) / 10 ** digits
+
+/**
+ * Great-circle distance between two points
+ *
+ * @returns Distance in kilometres
+ */
+export function haversineKm(
+  a: { latitude: number; longitude: number },
+  b: { latitude: number; longitude: number },
+): number {
+  const rad = (deg: number) => (deg * Math.PI) / 180
+  const dLat = rad(b.latitude - a.latitude)
+  const dLon = rad(b.longitude - a.longitude)
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(rad(a.latitude)) *
+      Math.cos(rad(b.latitude)) *
+      Math.sin(dLon / 2) ** 2
+  return 2 * 6371 * Math.asin(Math.sqrt(h))
+}
+
+/**
+ * Districts adjacent to a district: siblings under the same parent region,
+ * plus any district whose farms lie within the radius. When both districts
+ * have farm coordinates, siblings must also be within the radius.
+ *
+ * @param districtId - District to find neighbours of
+ * @param districts - Every district with its centroid
+ * @param radiusKm - Neighbour radius
+ * @returns Neighbouring district IDs
+ *
+ * @example
+ * ```typescript
+ * findNeighbourDistricts('d1', locations, 50) // ['d2', 'd5']
+ * ```
+ */
+export function findNeighbourDistricts(
+  districtId: string,
+  districts: Array<DistrictLocation>,
+  radiusKm: number,
+): Array<string> {
+  const self = districts.find((d) => d.districtId === districtId)
+  if (!self) return []
+
+  return districts
+    .filter((other) => {
+      if (other.districtId === districtId) return false
+      const sibling = self.parentId !== null && other.parentId === self.parentId
+      if (
+        self.latitude === null ||
+        self.longitude === null ||
+        other.latitude === null ||
+        other.longitude === null
+      ) {
+        return sibling
+      }
+      const distance = haversineKm(
+        { latitude: self.latitude, longitude: self.longitude },
+        { latitude: other.latitude, longitude: other.longitude },
+      )
+      return distance <= radiusKm
+    })
+    .map((d) => d.districtId)
+}
+
+/**
+ * Run CUSUM and EWMA over a daily series against its own baseline
+ *
+ * @param series - Daily values; the first `baselineDays` are the baseline
+ * @param options - Detection parameters
+ * @returns Peak statistics over the detection window and the baseline mean
+ *
+ * @example
+ * ```typescript
+ * const stats = baselineControlChart(rates, DEFAULT_DETECTION_OPTIONS)
+ * stats.cusum >= 4 // CUSUM alarm
+ * ```
+ */
+export function baselineControlChart(
+  series: Array<number>,
+  options: OutbreakDetectionOptions,
+): {
+  cusum: number
+  ewma: number
+  ewmaLimit: number
+  baselineMean: number
+  recentMean: number
+} {
+  const baseline = series.slice(0, options.baselineDays)
+  const recent = series.slice(options.baselineDays)
+  const mean = (values: Array<number>) =>
+    values.length === 0
+      ? 0
+      : values.reduce((sum, v) => sum + v, 0) / values.length
+
+  const baselineMean = mean(baseline)
+  const variance = mean(baseline.map((v) => (v - baselineMean) ** 2))
+  const sigma = Math.max(Math.sqrt(variance), options.minSigma)
+
+  let s = 0
+  let e = 0
+  let cusum = 0
+  let ewma = 0
+  for (const value of recent) {
+    const z = (value - baselineMean) / sigma
+    s = Math.max(0, s + z - options.cusumK)
+    e = options.ewmaLambda * z + (1 - options.ewmaLambda) * e
+    cusum = Math.max(cusum, s)
+    ewma = Math.max(ewma, e)
+  }
+
+  return {
+    cusum,
+    ewma,
+    ewmaLimit:
+      options.ewmaL * Math.sqrt(options.ewmaLambda / (2 - options.ewmaLambda)),
+    baselineMean,
+    recentMean: mean(recent),
+  }
+}
+
+/**
+ * Grade a signal by confidence
+ */
+export function classifySignalSeverity(
+  confidence: number,
+): 'watch' | 'alert' | 'critical' {
+  if (confidence >= 0.75) return 'critical'
+  if (confidence >= 0.5) return 'alert'
+  return 'watch'
+}
+
+/**
+ * Find districts whose cause-weighted mortality for a species broke from
+ * their own history. Each district:species series is the daily weighted
+ * deaths per 1000 animals at risk; the first `baselineDays` set the
+ * baseline and CUSUM/EWMA test the last `detectionDays`. Confidence rises
+ * with signal strength, the share of disease deaths, the number of farms
+ * involved and neighbouring districts signalling too.
+ *
+ * @param events - Mortality records for the whole window
+ * @param populations - Animals at risk per farm and species
+ * @param districts - Districts with their farm centroids
+ * @param asOf - End of the detection window
+ * @param options - Detection parameters
+ * @returns Signals, most confident first
+ *
+ * @example
+ * ```typescript
+ * const signals = detectOutbreakSignals(events, populations, districts, new Date())
+ * ```
+ */
+export function detectOutbreakSignals(
+  events: Array<MortalityEvent>,
+  populations: Array<FarmPopulation>,
+  districts: Array<DistrictLocation>,
+  asOf: Date,
+  options: OutbreakDetectionOptions = DEFAULT_DETECTION_OPTIONS,
+): Array<OutbreakSignal> {
+  const totalDays = options.baselineDays + options.detectionDays
+  const start = new Date(asOf.getTime() - totalDays * DAY_MS)
+  const groupKey = (districtId: string, species: string) =>
+    `${districtId}:${species}`
+
+  const groups = new Map<
+    string,
+    {
+      districtId: string
+      species: string
+      livestockType: string
+      population: number
+      farmPopulation: Map<string, number>
+      series: Array<number>
+      recentDeaths: Map<string, number>
+      recentTotal: number
+      recentDisease: number
+    }
+  >()
+
+  for (const p of populations) {
+    const key = groupKey(p.districtId, p.species)
+    const group = groups.get(key) ?? {
+      districtId: p.districtId,
+      species: p.species,
+      livestockType: p.livestockType,
+      population: 0,
+      farmPopulation: new Map<string, number>(),
+      series: new Array<number>(totalDays).fill(0),
+      recentDeaths: new Map<string, number>(),
+      recentTotal: 0,
+      recentDisease: 0,
+    }
+    group.population += p.population
+    group.farmPopulation.set(
+      p.farmId,
+      (group.farmPopulation.get(p.farmId) ?? 0) + p.population,
+    )
+    groups.set(key, group)
+  }
+
+  for (const event of events) {
+    const group = groups.get(groupKey(event.districtId, event.species))
+    const day = dayIndex(event.date, start)
+    if (!group || day < 0 || day >= totalDays) continue
+
+    group.series[day] += event.quantity * CAUSE_WEIGHTS[event.cause]
+    if (day >= options.baselineDays) {
+      group.recentTotal += event.quantity
+      if (event.cause === 'disease') group.recentDisease += event.quantity
+      group.recentDeaths.set(
+        event.farmId,
+        (group.recentDeaths.get(event.farmId) ?? 0) + event.quantity,
+      )
+    }
+  }
+
+  const charts = new Map<string, ReturnType<typeof baselineControlChart>>()
+  for (const [key, group] of groups) {
+    if (group.population <= 0) continue
+    const rates = group.series.map(
+      (deaths) => (deaths / group.population) * 1000,
+    )
+    charts.set(key, baselineControlChart(rates, options))
+  }
+
+  const evidence = (chart: ReturnType<typeof baselineControlChart>) =>
+    Math.max(chart.cusum / options.cusumH, chart.ewma / chart.ewmaLimit)
+
+  const signals: Array<OutbreakSignal> = []
+  for (const [key, chart] of charts) {
+    const group = groups.get(key)!
+    const strength = evidence(chart)
+    if (strength < 1 || group.recentTotal === 0) continue
+
+    const neighbourDistrictIds = findNeighbourDistricts(
+      group.districtId,
+      districts,
+      options.neighbourRadiusKm,
+    ).filter((id) => {
+      const neighbour = charts.get(groupKey(id, group.species))
+      return neighbour !== undefined && evidence(neighbour) >= 1
+    })
+
+    const affectedFarms = [...group.recentDeaths.entries()].map(
+      ([farmId, deaths]) => {
+        const population = group.farmPopulation.get(farmId) ?? 0
+        return {
+          farmId,
+          mortalityRate:
+            population > 0 ? round((deaths / population) * 100, 2) : 0,
+        }
+      },
+    )
+
+    const diseaseShare = group.recentDisease / group.recentTotal
+    const confidence = round(
+      0.5 * Math.min(1, strength / 2) +
+        0.2 * diseaseShare +
+        0.15 * Math.min(1, (affectedFarms.length - 1) / 2) +
+        0.15 * Math.min(1, neighbourDistrictIds.length / 2),
+      2,
+    )
+
+    signals.push({
+      districtId: group.districtId,
+      species: group.species,
+      livestockType: group.livestockType,
+      severity: classifySignalSeverity(confidence),
+      confidence,
+      cusum: round(chart.cusum, 2),
+      ewma: round(chart.ewma, 2),
+      ewmaLimit: round(chart.ewmaLimit, 2),
+      baselineRate: round(chart.baselineMean, 3),
+      recentRate: round(chart.recentMean, 3),
+      diseaseShare: round(diseaseShare, 2),
+      affectedFarms,
+      neighbourDistrictIds,
+    })
+  }
+
+  return signals.sort((a, b) => b.confidence - a.confidence)
+}
+
+/**
+ * Daily deaths around an alert: the district's by cause, its neighbours',
+ * and the district's baseline daily deaths for comparison
+ *
+ * @param events - Mortality records for the district and its neighbours
+ * @param scope - District, neighbours, curve range and baseline length
+ * @returns One point per day from `start` to `end`
+ *
+ * @example
+ * ```typescript
+ * buildEpidemicCurve(events, { districtId, neighbourDistrictIds, start, end, baselineDays: 56 })
+ * ```
+ */
+export function buildEpidemicCurve(
+  events: Array<MortalityEvent>,
+  scope: {
+    districtId: string
+    neighbourDistrictIds: Array<string>
+    start: Date
+    end: Date
+    baselineDays: number
+  },
+): Array<EpidemicCurvePoint> {
+  const days = Math.max(0, dayIndex(scope.end, scope.start)) + 1
+  const points: Array<EpidemicCurvePoint> = Array.from(
+    { length: days },
+    (_, i) => ({
+      date: new Date(scope.start.getTime() + i * DAY_MS)
+        .toISOString()
+        .slice(0, 10),
+      disease: 0,
+      otherCauses: 0,
+      neighbours: 0,
+      expected: 0,
+    }),
+  )
+  const neighbours = new Set(scope.neighbourDistrictIds)
+
+  for (const event of events) {
+    const point = points[dayIndex(event.date, scope.start)] as
+      EpidemicCurvePoint | undefined
+    if (!point) continue
+    if (event.districtId === scope.districtId) {
+      if (event.cause === 'disease') point.disease += event.quantity
+      else point.otherCauses += event.quantity
+    } else if (neighbours.has(event.districtId)) {
+      point.neighbours += event.quantity
+    }
+  }
+
+  const baseline = points.slice(0, scope.baselineDays)
+  const expected =
+    baseline.length === 0
+      ? 0
+      : round(
+          baseline.reduce((sum, p) => sum + p.disease + p.otherCauses, 0) /
+            baseline.length,
+          2,
+        )
+  for (const point of points) point.expected = expected
+
+  return points
+}
@@ -1,56 +1,20 @@
 /**
- * Scheduled Worker for Extension Worker Mode
- * Handles cron-triggered tasks for access management and outbreak detection
+ * Scheduled tasks for Extension Worker Mode: access management and outbreak
+ * detection. Schedules live in the job registry (features/jobs/registry.ts).
  */
 
 import { EXTENSION_DEFAULTS } from './constants'
 import type { Database } from '~/lib/db/types'
 import type { Kysely } from 'kysely'
 
-interface ScheduledEvent {
-  cron: string
-  scheduledTime: number
-}
-
-/**
- * Main scheduled event handler - dispatches to specific functions based on cron
- */
-export async function handleScheduled(event: ScheduledEvent): Promise<void> {
-  const { getDb } = await import('~/lib/db')
-  const db = await getDb()
-
-  try {
-    switch (event.cron) {
-      case '0 */6 * * *': // Every 6 hours
-        await expireAccessGrants(db)
-        await expireAccessRequests(db)
-        break
-
-      case '0 0 * * *': // Daily at midnight
-        await sendExpirationWarnings(db)
-        break
-
-      case '0 9 * * *': // Daily at 9 AM
-        await runOutbreakDetectionTask(db)
-        break
-
-      default: {
-        const { debug } = await import('~/lib/logger')
-        await debug(`Unknown cron schedule: ${event.cron}`)
-        break
-      }
-    }
-  } catch (err) {
-    const { error } = await import('~/lib/logger')
-    await error('Scheduled task failed:', err)
-    throw err
-  }
-}
-
 /**
  * Expire access grants that have passed their expiry date
+ *
+ * @returns Number of grants expired
  */
-export async function expireAccessGrants(db: Kysely<Database>): Promise<void> {
+export async function expireAccessGrants(
+  db: Kysely<Database>,
+): Promise<number> {
   const now = new Date()
 
   const expired = await db
@@ -90,14 +54,18 @@ export async function expireAccessGrants(db: Kysely<Database>): Promise<void> {
         .execute()
     }
   }
+
+  return expired.length
 }
 
 /**
  * Expire pending access requests after 30 days
+ *
+ * @returns Number of requests expired
  */
 export async function expireAccessRequests(
   db: Kysely<Database>,
-): Promise<void> {
+): Promise<number> {
   const cutoffDate = new Date()
   cutoffDate.setDate(
     cutoffDate.getDate() - EXTENSION_DEFAULTS.ACCESS_REQUEST_EXPIRY_DAYS,
@@ -137,14 +105,18 @@ export async function expireAccessRequests(
         .execute()
     }
   }
+
+  return expired.length
 }
 
 /**
  * Send expiration warnings 7 days before access grants expire
+ *
+ * @returns Number of warnings sent
  */
 export async function sendExpirationWarnings(
   db: Kysely<Database>,
-): Promise<void> {
+): Promise<number> {
   const warningDate = new Date()
   warningDate.setDate(
     warningDate.getDate() + EXTENSION_DEFAULTS.ACCESS_EXPIRY_WARNING_DAYS,
@@ -193,143 +165,87 @@ export async function sendExpirationWarnings(
       })
     }
   }
+
+  return expiringGrants.length
 }
 
 /**
- * Run outbreak detection across all districts
+ * Run outbreak detection across all districts. Each district is compared
+ * with its own recent history (see `detectOutbreakSignals`); a signal opens
+ * an alert unless one is already open for that district and species.
+ *
+ * @returns Number of outbreak alerts created
  */
 export async function runOutbreakDetectionTask(
   db: Kysely<Database>,
-): Promise<void> {
-  // Get all active districts with farms
-  const districts = await db
-    .selectFrom('regions')
-    .select(['id', 'name'])
-    .where('level', '=', 2)
-    .where('isActive', '=', true)
-    .execute()
+): Promise<number> {
+  const { DEFAULT_DETECTION_OPTIONS, detectOutbreakSignals } =
+    await import('./outbreak-service')
+  const {
+    addFarmToAlert,
+    createOutbreakAlert,
+    getDistrictLocations,
+    getFarmPopulations,
+    getMortalityEvents,
+    getOpenAlertId,
+  } = await import('./outbreak-repository')
+
+  const options = DEFAULT_DETECTION_OPTIONS
+  const asOf = new Date()
+  const since = new Date(asOf)
+  since.setDate(since.getDate() - options.baselineDays - options.detectionDays)
+
+  const [events, populations, districts] = await Promise.all([
+    getMortalityEvents(db, { since, until: asOf }),
+    getFarmPopulations(db, since),
+    getDistrictLocations(db),
+  ])
 
   const { debug } = await import('~/lib/logger')
   await debug(`Running outbreak detection for ${districts.length} districts`)
 
-  // Get species thresholds
-  const thresholds = await db
-    .selectFrom('species_thresholds')
-    .select([
-      'id',
-      'species',
-      'regionId',
-      'amberThreshold',
-      'redThreshold',
-      'createdAt',
-    ])
-    .execute()
-
-  // Build threshold map
-  const thresholdMap: Record<string, { amber: number; red: number }> = {}
-  for (const t of thresholds) {
-    thresholdMap[t.species] = {
-      amber: Number(t.amberThreshold),
-      red: Number(t.redThreshold),
-    }
-  }
-
-  // R9.4: Exclude batches <7 days old
-  const sevenDaysAgo = new Date()
-  sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7)
-
-  for (const district of districts) {
-    // Get farms in district with mortality data
-    // R9.3: Only include batches with >= 50 animals
-    // R9.4: Exclude batches acquired less than 7 days ago
-    const farmData = await db
-      .selectFrom('farms')
-      .innerJoin('batches', 'batches.farmId', 'farms.id')
-      .leftJoin('mortality_records', 'mortality_records.batchId', 'batches.id')
-      .select([
-        'farms.id as farmId',
-        'farms.name as farmName',
-        'batches.species',
-        'batches.initialQuantity',
-        db.fn.sum('mortality_records.quantity').as('totalMortality'),
-      ])
-      .where('farms.districtId', '=', district.id)
-      .where('batches.status', '=', 'active')
-      .where('batches.initialQuantity', '>=', 50)
-      .where('batches.acquisitionDate', '<=', sevenDaysAgo)
-      .groupBy([
-        'farms.id',
-        'farms.name',
-        'batches.species',
-        'batches.initialQuantity',
-      ])
-      .execute()
-
-    if (farmData.length === 0) continue
-
-    // Check for high mortality by species
-    const speciesMortality: Record<string, { total: number; count: number }> =
-      {}
-
-    for (const f of farmData) {
-      const mortalityRate =
-        f.initialQuantity > 0
-          ? (Number(f.totalMortality || 0) / f.initialQuantity) * 100
-          : 0
+  const signals = detectOutbreakSignals(
+    events,
+    populations,
+    districts,
+    asOf,
+    options,
+  )
 
-      if (f.species in speciesMortality) {
-        speciesMortality[f.species].total += mortalityRate
-        speciesMortality[f.species].count += 1
-      } else {
-        speciesMortality[f.species] = { total: mortalityRate, count: 1 }
-      }
+  let alertsCreated = 0
+  for (const signal of signals) {
+    const existing = await getOpenAlertId(db, signal.districtId, signal.species)
+    if (existing) continue
+
+    const alertId = await createOutbreakAlert(db, {
+      districtId: signal.districtId,
+      species: signal.species,
+      livestockType: signal.livestockType,
+      severity: signal.severity,
+      confidence: signal.confidence,
+      signals: {
+        cusum: signal.cusum,
+        ewma: signal.ewma,
+        ewmaLimit: signal.ewmaLimit,
+        baselineRate: signal.baselineRate,
+        recentRate: signal.recentRate,
+        diseaseShare: signal.diseaseShare,
+        neighbourDistrictIds: signal.neighbourDistrictIds,
+        baselineDays: options.baselineDays,
+        detectionDays: options.detectionDays,
+      },
+      createdBy: 'system',
+      updatedBy: 'system',
+    })
+    for (const farm of signal.affectedFarms) {
+      await addFarmToAlert(db, alertId, farm.farmId, farm.mortalityRate)
     }
+    alertsCreated++
 
-    // Check each species against thresholds
-    for (const [species, speciesData] of Object.entries(speciesMortality)) {
-      const avgMortality = speciesData.total / speciesData.count
-      const threshold = thresholdMap[species] ?? { amber: 5, red: 10 }
-
-      let severity: 'watch' | 'alert' | 'critical' | null = null
-      if (avgMortality >= threshold.red) {
-        severity = 'critical'
-      } else if (avgMortality >= threshold.amber) {
-        severity = 'alert'
-      }
-
-      if (severity) {
-        // Check if alert already exists
-        const existing = await db
-          .selectFrom('outbreak_alerts')
-          .select('id')
-          .where('districtId', '=', district.id)
-          .where('species', '=', species)
-          .where('status', 'in', ['active', 'monitoring'])
-          .executeTakeFirst()
-
-        if (!existing) {
-          await db
-            .insertInto('outbreak_alerts')
-            .values({
-              districtId: district.id,
-              species,
-              livestockType:
-                species.includes('broiler') || species.includes('layer')
-                  ? 'poultry'
-                  : 'fish',
-              severity,
-              status: 'active',
-              createdBy: 'system',
-              updatedBy: 'system',
-            })
-            .execute()
-
-          const { debug: logDebug } = await import('~/lib/logger')
-          await logDebug(
-            `Created ${severity} outbreak alert for ${species} in ${district.name}`,
-          )
-        }
-      }
-    }
+    await debug(
+      `Created ${signal.severity} outbreak alert for ${signal.species} in district ${signal.districtId} (confidence ${signal.confidence})`,
+    )
   }
+
+  return alertsCreated
 }
@@ -638,7 +638,39 @@ export const getOutbreakAlertFn = createServerFn({ method: 'GET' })
       })
     }
 
-    return alert
+    // Epidemic curve: the detection baseline before the alert through to
+    // resolution (or today), with neighbouring districts alongside
+    const { DEFAULT_DETECTION_OPTIONS, buildEpidemicCurve } =
+      await import('./outbreak-service')
+    const { getMortalityEvents } = await import('./outbreak-repository')
+
+    const baselineDays =
+      alert.signals?.baselineDays ?? DEFAULT_DETECTION_OPTIONS.baselineDays
+    const detectionDays =
+      alert.signals?.detectionDays ?? DEFAULT_DETECTION_OPTIONS.detectionDays
+    const neighbourDistrictIds = alert.signals?.neighbourDistrictIds ?? []
+    const start = new Date(alert.detectedAt)
+    start.setUTCHours(0, 0, 0, 0)
+    start.setUTCDate(start.getUTCDate() - baselineDays - detectionDays)
+    const end = alert.resolvedAt ?? new Date()
+
+    const events = await getMortalityEvents(db, {
+      since: start,
+      until: end,
+      species: alert.species,
+      districtIds: [alert.districtId, ...neighbourDistrictIds],
+    })
+
+    return {
+      ...alert,
+      epidemicCurve: buildEpidemicCurve(events, {
+        districtId: alert.districtId,
+        neighbourDistrictIds,
+        start,
+        end,
+        baselineDays,
+      }),
+    }
   })
 
 /**
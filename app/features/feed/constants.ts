@@ -167,3 +167,35 @@ export const FEED_STAGE_RECOMMENDATIONS = {
     },
   },
 } as const
+
+/**
+ * Database feed types fed by age, used to forecast phase transitions such as
+ * starter to grower to finisher. Each phase runs until the next one's day.
+ */
+export const FEED_PHASE_SCHEDULES: Record<
+  string,
+  Array<{ fromDay: number; feedType: FeedType }>
+> = {
+  broiler: [
+    { fromDay: 0, feedType: 'starter' },
+    { fromDay: 22, feedType: 'grower' },
+    { fromDay: 36, feedType: 'finisher' },
+  ],
+  layer: [
+    { fromDay: 0, feedType: 'starter' },
+    { fromDay: 57, feedType: 'grower' },
+    { fromDay: 141, feedType: 'layer_mash' },
+  ],
+}
+
+/**
+ * Feed type assumed for batches with no phase schedule and no feeding history
+ */
+export const DEFAULT_FEED_TYPE_BY_LIVESTOCK: Record<LivestockType, FeedType> = {
+  poultry: 'grower',
+  fish: 'fish_feed',
+  cattle: 'cattle_feed',
+  goats: 'goat_feed',
+  sheep: 'sheep_feed',
+  bees: 'bee_feed',
+}
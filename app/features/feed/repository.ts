@@ -84,6 +84,23 @@ export interface WeightSampleRecord {
   date: Date
 }
 
+/**
+ * Everything needed to track a batch's feed conversion over time
+ */
+export interface FcrInputs {
+  batch: {
+    id: string
+    species: string
+    initialQuantity: number
+    currentQuantity: number
+    acquisitionDate: Date
+    breedTypicalFcr: string | null
+  }
+  feed: Array<{ date: Date; quantityKg: string }>
+  weights: Array<WeightSampleRecord>
+  mortality: Array<{ date: Date; quantity: number }>
+}
+
 /**
  * Feed record for summary (type, quantity, cost)
  */
@@ -739,6 +756,71 @@ export async function getFeedRecordsByFarms(
   return records
 }
 
+/**
+ * Get feed, weight and mortality history for FCR tracking of several batches
+ * at once, oldest records first
+ *
+ * @param db - Kysely database instance
+ * @param batchIds - Batch IDs
+ * @returns Map of batch ID to FCR inputs (batches not found are left out)
+ */
+export async function getFcrInputs(
+  db: Kysely<Database>,
+  batchIds: Array<string>,
+): Promise<Map<string, FcrInputs>> {
+  const result = new Map<string, FcrInputs>()
+  if (batchIds.length === 0) return result
+
+  const [batches, feed, weights, mortality] = await Promise.all([
+    db
+      .selectFrom('batches')
+      .leftJoin('breeds', 'breeds.id', 'batches.breedId')
+      .select([
+        'batches.id',
+        'batches.species',
+        'batches.initialQuantity',
+        'batches.currentQuantity',
+        'batches.acquisitionDate',
+        'breeds.typicalFcr as breedTypicalFcr',
+      ])
+      .where('batches.id', 'in', batchIds)
+      .execute(),
+    db
+      .selectFrom('feed_records')
+      .select(['batchId', 'date', 'quantityKg'])
+      .where('batchId', 'in', batchIds)
+      .orderBy('date', 'asc')
+      .execute(),
+    db
+      .selectFrom('weight_samples')
+      .select(['batchId', 'date', 'averageWeightKg'])
+      .where('batchId', 'in', batchIds)
+      .orderBy('date', 'asc')
+      .execute(),
+    db
+      .selectFrom('mortality_records')
+      .select(['batchId', 'date', 'quantity'])
+      .where('batchId', 'in', batchIds)
+      .orderBy('date', 'asc')
+      .execute(),
+  ])
+
+  for (const batch of batches) {
+    result.set(batch.id, { batch, feed: [], weights: [], mortality: [] })
+  }
+  for (const { batchId, ...record } of feed) {
+    result.get(batchId)?.feed.push(record)
+  }
+  for (const { batchId, ...sample } of weights) {
+    result.get(batchId)?.weights.push(sample)
+  }
+  for (const { batchId, ...record } of mortality) {
+    result.get(batchId)?.mortality.push(record)
+  }
+
+  return result
+}
+
 // Helper function - validates and maps sort columns to prevent SQL injection
 function mapSortColumnToDbColumn(sortBy: string): string {
   const sortMap: Record<string, string> = {
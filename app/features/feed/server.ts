@@ -3,6 +3,7 @@ import { redirect } from '@tanstack/react-router'
 import { z } from 'zod'
 import { getBatchesFn } from '../batches/server'
 import {
+  buildFcrTracking,
   buildFeedStats,
   buildFeedSummary,
   calculateFCR,
@@ -15,6 +16,7 @@ import {
   deleteFeedRecord as deleteFeedRecordFromDb,
   getBatchById,
   getBatchQuantity,
+  getFcrInputs,
   getFeedInventoryById,
   getFeedInventoryForFarms,
   getFeedRecordById,
@@ -450,6 +452,56 @@ export const getFeedRecordsForBatchFn = createServerFn({ method: 'GET' })
     return getFeedRecordsForBatch(session.user.id, data.batchId)
   })
 
+/**
+ * Track a batch's feed conversion: cumulative and period FCR at each weight
+ * sample, daily feed intake per head, and the breed's target FCR
+ *
+ * @param userId - ID of the user
+ * @param batchId - ID of the batch
+ * @returns Promise resolving to the batch's FCR tracking
+ */
+export async function getBatchFcr(userId: string, batchId: string) {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { getBatchById: fetchBatchById } = await import('../batches/server')
+
+  try {
+    const batch = await fetchBatchById(userId, batchId)
+    if (!batch) {
+      throw new AppError('BATCH_NOT_FOUND', {
+        metadata: { batchId },
+      })
+    }
+
+    const inputs = await getFcrInputs(db, [batchId])
+    const batchInputs = inputs.get(batchId)
+    if (!batchInputs) {
+      throw new AppError('BATCH_NOT_FOUND', {
+        metadata: { batchId },
+      })
+    }
+
+    return buildFcrTracking(batchInputs)
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to calculate batch FCR',
+      cause: error,
+    })
+  }
+}
+
+/**
+ * Server function to track feed conversion for a specific batch
+ */
+export const getBatchFcrFn = createServerFn({ method: 'GET' })
+  .inputValidator(z.object({ batchId: z.string().uuid() }))
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+    return getBatchFcr(session.user.id, data.batchId)
+  })
+
 /**
  * Fetches all feeding records for one or more farms.
  * Defaults to all farms belonging to the user if no specific farm is provided.
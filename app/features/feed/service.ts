@@ -3,7 +3,11 @@
  * All functions are side-effect-free and easily unit testable.
  */
 
+import { differenceInCalendarDays, format } from 'date-fns'
+import type { FcrInputs } from './repository'
 import type { CreateFeedRecordInput } from './server'
+import { FCR_TARGETS_BY_SPECIES } from '~/features/monitoring/constants'
+import { calculateFCR as calculateRatio } from '~/lib/utils/calculations'
 
 /**
  * Feed summary statistics by type
@@ -32,6 +36,46 @@ export interface FeedStats {
   recordCount: number
 }
 
+/**
+ * One point of a batch's FCR curve, taken at a weight sample
+ */
+export interface FcrPoint {
+  date: Date
+  ageDays: number
+  averageWeightKg: number
+  /** Live animals on the sample date */
+  population: number
+  biomassKg: number
+  /** Feed eaten since the first weight sample */
+  feedSinceBaselineKg: number
+  /** FCR from the first weight sample to this one */
+  cumulativeFcr: number | null
+  /** FCR since the previous weight sample */
+  periodFcr: number | null
+}
+
+/**
+ * Feed recorded on one day, per live animal
+ */
+export interface DailyFeedIntake {
+  date: string
+  ageDays: number
+  feedKg: number
+  gramsPerHead: number
+}
+
+/**
+ * Feed conversion of a batch over its life, with the target it is held to
+ */
+export interface FcrTracking {
+  points: Array<FcrPoint>
+  dailyIntake: Array<DailyFeedIntake>
+  cumulativeFcr: number | null
+  periodFcr: number | null
+  /** Breed's typical FCR, else the species target; null when neither is known */
+  targetFcr: number | null
+}
+
 /**
  * Calculate new inventory quantity after deduction
  *
@@ -346,3 +390,150 @@ export function validateUpdateData(
 
   return null
 }
+
+/**
+ * Target FCR for a batch: the breed's typical FCR when set, otherwise the
+ * species target
+ *
+ * @param breedTypicalFcr - Breed's typical FCR (DECIMAL as string)
+ * @param species - Batch species
+ * @returns Target FCR, or null when neither is known
+ *
+ * @example
+ * ```ts
+ * resolveTargetFcr('1.65', 'broiler') // 1.65
+ * resolveTargetFcr(null, 'Broiler') // 1.8
+ * ```
+ */
+export function resolveTargetFcr(
+  breedTypicalFcr: string | null,
+  species: string,
+): number | null {
+  const breedFcr = breedTypicalFcr ? parseFloat(breedTypicalFcr) : NaN
+  if (breedFcr > 0) return breedFcr
+
+  const key = species.toLowerCase()
+  return key in FCR_TARGETS_BY_SPECIES
+    ? FCR_TARGETS_BY_SPECIES[key as keyof typeof FCR_TARGETS_BY_SPECIES]
+    : null
+}
+
+/**
+ * Track a batch's feed conversion from its feed, weight and mortality history.
+ *
+ * Biomass at each weight sample is the live population that day times the
+ * average weight, where the population is today's count plus the deaths
+ * recorded after the sample, so birds that died do not count as gain. FCR is
+ * measured from the first weight sample, since gain before it is unknown.
+ *
+ * @param inputs - Batch with its feed, weight and mortality records, oldest first
+ * @returns FCR curve, daily feed intake and the batch's target FCR
+ *
+ * @example
+ * ```ts
+ * const tracking = buildFcrTracking(inputs)
+ * // tracking.cumulativeFcr: 1.72, tracking.targetFcr: 1.8
+ * ```
+ */
+export function buildFcrTracking(inputs: FcrInputs): FcrTracking {
+  const { batch, feed, weights, mortality } = inputs
+
+  const populationOn = (date: Date) =>
+    batch.currentQuantity +
+    mortality
+      .filter((m) => m.date > date)
+      .reduce((sum, m) => sum + m.quantity, 0)
+  const feedUpTo = (date: Date) =>
+    feed
+      .filter((f) => f.date <= date)
+      .reduce((sum, f) => sum + parseFloat(f.quantityKg), 0)
+  const round2 = (value: number) => Math.round(value * 100) / 100
+
+  const points: Array<FcrPoint> = []
+  const baselineFeedKg = weights.length > 0 ? feedUpTo(weights[0].date) : 0
+  for (const sample of weights) {
+    const population = populationOn(sample.date)
+    const averageWeightKg = parseFloat(sample.averageWeightKg)
+    const biomassKg = round2(population * averageWeightKg)
+    const feedSinceBaselineKg = round2(feedUpTo(sample.date) - baselineFeedKg)
+    const first = points.length > 0 ? points[0] : null
+    const previous = points.length > 0 ? points[points.length - 1] : null
+
+    points.push({
+      date: sample.date,
+      ageDays: differenceInCalendarDays(sample.date, batch.acquisitionDate),
+      averageWeightKg,
+      population,
+      biomassKg,
+      feedSinceBaselineKg,
+      cumulativeFcr: first
+        ? calculateRatio(feedSinceBaselineKg, biomassKg - first.biomassKg)
+        : null,
+      periodFcr: previous
+        ? calculateRatio(
+            feedSinceBaselineKg - previous.feedSinceBaselineKg,
+            biomassKg - previous.biomassKg,
+          )
+        : null,
+    })
+  }
+
+  const byDay = new Map<string, { date: Date; feedKg: number }>()
+  for (const record of feed) {
+    const key = format(record.date, 'yyyy-MM-dd')
+    const day = byDay.get(key) ?? { date: record.date, feedKg: 0 }
+    day.feedKg += parseFloat(record.quantityKg)
+    byDay.set(key, day)
+  }
+  const dailyIntake = Array.from(byDay, ([date, day]) => {
+    const population = populationOn(day.date)
+    return {
+      date,
+      ageDays: differenceInCalendarDays(day.date, batch.acquisitionDate),
+      feedKg: round2(day.feedKg),
+      gramsPerHead:
+        population > 0 ? Math.round((day.feedKg * 10000) / population) / 10 : 0,
+    }
+  })
+
+  const latest = points.length > 0 ? points[points.length - 1] : null
+  return {
+    points,
+    dailyIntake,
+    cumulativeFcr: latest?.cumulativeFcr ?? null,
+    periodFcr: latest?.periodFcr ?? null,
+    targetFcr: resolveTargetFcr(batch.breedTypicalFcr, batch.species),
+  }
+}
+
+/**
+ * FCR over a date range, from the last weight sample on or before the start
+ * (or the first one inside the range) to the last sample on or before the end
+ *
+ * @param points - FCR curve from buildFcrTracking
+ * @param start - Range start
+ * @param end - Range end
+ * @returns FCR for the range, or null without two samples to measure between
+ *
+ * @example
+ * ```ts
+ * const monthFcr = calculateFcrForPeriod(tracking.points, monthStart, monthEnd)
+ * ```
+ */
+export function calculateFcrForPeriod(
+  points: Array<FcrPoint>,
+  start: Date,
+  end: Date,
+): number | null {
+  const upToEnd = points.filter((p) => p.date <= end)
+  const from =
+    upToEnd.filter((p) => p.date <= start).pop() ??
+    upToEnd.find((p) => p.date >= start)
+  const to = upToEnd.pop()
+  if (!from || !to || to.date <= from.date) return null
+
+  return calculateRatio(
+    to.feedSinceBaselineKg - from.feedSinceBaselineKg,
+    to.biomassKg - from.biomassKg,
+  )
+}
@@ -334,6 +334,56 @@ export const emailTemplates = {
     ),
   }),
 
+  sensorAlert: (data: {
+    sensorName: string
+    message: string
+    value: number
+    threshold: number
+    severity: 'warning' | 'critical'
+    escalated: boolean
+  }): EmailTemplate => {
+    const color =
+      data.severity === 'critical' ? COLORS.destructive : COLORS.warning
+    return {
+      subject: `${data.escalated ? '🔴 Unacknowledged' : '🚨'} Sensor Alert - ${data.sensorName}`,
+      html: emailLayout(
+        `
+      <div style="text-align: center; margin-bottom: 24px;">
+        <span style="display: inline-block; width: 56px; height: 56px; background-color: #fef2f2; border-radius: 50%; line-height: 56px; font-size: 28px;">📡</span>
+      </div>
+      <h1 style="margin: 0 0 16px 0; font-size: 22px; font-weight: 600; color: ${color}; text-align: center;">
+        ${data.sensorName}
+      </h1>
+      <p style="margin: 0 0 24px 0; font-size: 16px; color: ${COLORS.text}; text-align: center; line-height: 1.6;">
+        ${data.message}
+      </p>
+      <div style="background-color: ${COLORS.background}; border-radius: 8px; padding: 20px;">
+        <table width="100%" cellpadding="0" cellspacing="0">
+          <tr>
+            <td width="50%" style="text-align: center; padding: 12px;">
+              <p style="margin: 0 0 4px 0; font-size: 13px; color: ${COLORS.muted};">Reading</p>
+              <p style="margin: 0; font-size: 28px; font-weight: 700; color: ${color};">${data.value}</p>
+            </td>
+            <td width="50%" style="text-align: center; padding: 12px; border-left: 1px solid ${COLORS.border};">
+              <p style="margin: 0 0 4px 0; font-size: 13px; color: ${COLORS.muted};">Threshold</p>
+              <p style="margin: 0; font-size: 28px; font-weight: 700; color: ${COLORS.text};">${data.threshold}</p>
+            </td>
+          </tr>
+        </table>
+      </div>
+      ${
+        data.escalated
+          ? `<p style="margin: 24px 0 0 0; font-size: 14px; color: ${COLORS.destructive}; text-align: center;">
+        This alert has not been acknowledged. Please check the sensor and acknowledge the alert.
+      </p>`
+          : ''
+      }
+      `,
+        color,
+      ),
+    }
+  },
+
   weeklySummary: (data: {
     farmName: string
     period: string
@@ -0,0 +1,280 @@
+/**
+ * Database operations for feed forecasting and purchase orders.
+ * All functions are pure data access - no business logic.
+ */
+
+import { sql } from 'kysely'
+import type { Kysely } from 'kysely'
+import type { Database, FeedPurchaseOrderItem } from '~/lib/db/types'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Active batch with what its feed forecast needs
+ */
+export interface ForecastBatchRecord {
+  id: string
+  batchName: string | null
+  species: string
+  livestockType: Database['batches']['livestockType']
+  breedId: string | null
+  currentQuantity: number
+  acquisitionDate: Date
+  targetHarvestDate: Date | null
+  breedTypicalFcr: string | null
+}
+
+/**
+ * Feed record of one of a farm's batches
+ */
+export interface FeedUsageRow {
+  batchId: string
+  feedType: Database['feed_records']['feedType']
+  date: Date
+  quantityKg: string
+  cost: string
+  supplierId: string | null
+}
+
+/**
+ * Supplier with its delivery lead time
+ */
+export interface ForecastSupplierRecord {
+  id: string
+  name: string
+  leadTimeDays: number | null
+  products: Array<string>
+  supplierType: string | null
+}
+
+/**
+ * Feed purchase order with its supplier's name
+ */
+export interface FeedPurchaseOrderRecord {
+  id: string
+  farmId: string
+  supplierId: string | null
+  supplierName: string | null
+  status: 'ordered' | 'received' | 'cancelled'
+  items: Array<FeedPurchaseOrderItem>
+  estimatedCost: string | null
+  expectedDeliveryDate: Date
+  expenseId: string | null
+  receivedAt: Date | null
+  createdAt: Date
+}
+
+/**
+ * Data for inserting a feed purchase order
+ */
+export interface FeedPurchaseOrderInsert {
+  farmId: string
+  supplierId: string | null
+  items: Array<FeedPurchaseOrderItem>
+  estimatedCost: string | null
+  expectedDeliveryDate: Date
+  createdBy: string
+}
+
+// ============================================================================
+// Forecast inputs
+// ============================================================================
+
+/**
+ * Get a farm's active batches that still have animals
+ *
+ * @param db - Kysely database instance
+ * @param farmId - Farm ID
+ * @returns Active batches with their breed's typical FCR
+ */
+export async function getForecastBatches(
+  db: Kysely<Database>,
+  farmId: string,
+): Promise<Array<ForecastBatchRecord>> {
+  return await db
+    .selectFrom('batches')
+    .leftJoin('breeds', 'breeds.id', 'batches.breedId')
+    .select([
+      'batches.id',
+      'batches.batchName',
+      'batches.species',
+      'batches.livestockType',
+      'batches.breedId',
+      'batches.currentQuantity',
+      'batches.acquisitionDate',
+      'batches.targetHarvestDate',
+      'breeds.typicalFcr as breedTypicalFcr',
+    ])
+    .where('batches.farmId', '=', farmId)
+    .where('batches.status', '=', 'active')
+    .where('batches.currentQuantity', '>', 0)
+    .where('batches.deletedAt', 'is', null)
+    .execute()
+}
+
+/**
+ * Get feed records of all a farm's batches since a date
+ *
+ * @param db - Kysely database instance
+ * @param farmId - Farm ID
+ * @param since - Earliest record date
+ * @returns Feed records, oldest first
+ */
+export async function getFarmFeedUsage(
+  db: Kysely<Database>,
+  farmId: string,
+  since: Date,
+): Promise<Array<FeedUsageRow>> {
+  return await db
+    .selectFrom('feed_records')
+    .innerJoin('batches', 'batches.id', 'feed_records.batchId')
+    .select([
+      'feed_records.batchId',
+      'feed_records.feedType',
+      'feed_records.date',
+      'feed_records.quantityKg',
+      'feed_records.cost',
+      'feed_records.supplierId',
+    ])
+    .where('batches.farmId', '=', farmId)
+    .where('feed_records.date', '>=', since)
+    .orderBy('feed_records.date', 'asc')
+    .execute()
+}
+
+/**
+ * Get all suppliers with their lead times
+ *
+ * @param db - Kysely database instance
+ * @returns Suppliers that have not been deleted
+ */
+export async function getForecastSuppliers(
+  db: Kysely<Database>,
+): Promise<Array<ForecastSupplierRecord>> {
+  return await db
+    .selectFrom('suppliers')
+    .select(['id', 'name', 'leadTimeDays', 'products', 'supplierType'])
+    .where('deletedAt', 'is', null)
+    .orderBy('name', 'asc')
+    .execute()
+}
+
+// ============================================================================
+// Purchase orders
+// ============================================================================
+
+/**
+ * Get a farm's purchase orders that have not been received or cancelled
+ *
+ * @param db - Kysely database instance
+ * @param farmId - Farm ID
+ * @returns Open orders, earliest delivery first
+ */
+export async function getOpenFeedPurchaseOrders(
+  db: Kysely<Database>,
+  farmId: string,
+): Promise<Array<FeedPurchaseOrderRecord>> {
+  return await db
+    .selectFrom('feed_purchase_orders')
+    .leftJoin('suppliers', 'suppliers.id', 'feed_purchase_orders.supplierId')
+    .select([
+      'feed_purchase_orders.id',
+      'feed_purchase_orders.farmId',
+      'feed_purchase_orders.supplierId',
+      'suppliers.name as supplierName',
+      'feed_purchase_orders.status',
+      'feed_purchase_orders.items',
+      'feed_purchase_orders.estimatedCost',
+      'feed_purchase_orders.expectedDeliveryDate',
+      'feed_purchase_orders.expenseId',
+      'feed_purchase_orders.receivedAt',
+      'feed_purchase_orders.createdAt',
+    ])
+    .where('feed_purchase_orders.farmId', '=', farmId)
+    .where('feed_purchase_orders.status', '=', 'ordered')
+    .orderBy('feed_purchase_orders.expectedDeliveryDate', 'asc')
+    .execute()
+}
+
+/**
+ * Get a purchase order by ID
+ *
+ * @param db - Kysely database instance
+ * @param id - Purchase order ID
+ * @returns Purchase order, or null if not found
+ */
+export async function getFeedPurchaseOrderById(
+  db: Kysely<Database>,
+  id: string,
+): Promise<FeedPurchaseOrderRecord | null> {
+  const order = await db
+    .selectFrom('feed_purchase_orders')
+    .leftJoin('suppliers', 'suppliers.id', 'feed_purchase_orders.supplierId')
+    .select([
+      'feed_purchase_orders.id',
+      'feed_purchase_orders.farmId',
+      'feed_purchase_orders.supplierId',
+      'suppliers.name as supplierName',
+      'feed_purchase_orders.status',
+      'feed_purchase_orders.items',
+      'feed_purchase_orders.estimatedCost',
+      'feed_purchase_orders.expectedDeliveryDate',
+      'feed_purchase_orders.expenseId',
+      'feed_purchase_orders.receivedAt',
+      'feed_purchase_orders.createdAt',
+    ])
+    .where('feed_purchase_orders.id', '=', id)
+    .executeTakeFirst()
+
+  return order ?? null
+}
+
+/**
+ * Insert a purchase order
+ *
+ * @param db - Kysely database instance
+ * @param data - Purchase order data
+ * @returns ID of the new order
+ */
+export async function insertFeedPurchaseOrder(
+  db: Kysely<Database>,
+  data: FeedPurchaseOrderInsert,
+): Promise<string> {
+  const result = await db
+    .insertInto('feed_purchase_orders')
+    .values({
+      ...data,
+      items: sql<
+        Array<FeedPurchaseOrderItem>
+      >`${JSON.stringify(data.items)}::jsonb`,
+    })
+    .returning('id')
+    .executeTakeFirstOrThrow()
+  return result.id
+}
+
+/**
+ * Close an open purchase order, unless it was closed in the meantime
+ *
+ * @param db - Kysely database instance
+ * @param id - Purchase order ID
+ * @param data - New status, with the expense recorded when it was received
+ * @returns Whether the order was still open
+ */
+export async function closeFeedPurchaseOrder(
+  db: Kysely<Database>,
+  id: string,
+  data:
+    | { status: 'received'; expenseId: string; receivedAt: Date }
+    | { status: 'cancelled' },
+): Promise<boolean> {
+  const result = await db
+    .updateTable('feed_purchase_orders')
+    .set({ ...data, updatedAt: new Date() })
+    .where('id', '=', id)
+    .where('status', '=', 'ordered')
+    .executeTakeFirst()
+  return Number(result.numUpdatedRows) > 0
+}
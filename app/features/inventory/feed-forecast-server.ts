@@ -0,0 +1,388 @@
+/**
+ * Server functions for feed forecasting and purchase orders.
+ * Handles authentication, authorization, and orchestration.
+ */
+
+import { createServerFn } from '@tanstack/react-start'
+import { addDays, startOfDay } from 'date-fns'
+import { z } from 'zod'
+import {
+  FEED_HISTORY_DAYS,
+  FORECAST_HORIZON_DAYS,
+  buildFeedForecast,
+  describePurchaseOrder,
+  validatePurchaseOrderItems,
+} from './feed-forecast-service'
+import {
+  closeFeedPurchaseOrder,
+  getFarmFeedUsage,
+  getFeedPurchaseOrderById,
+  getForecastBatches,
+  getForecastSuppliers,
+  getOpenFeedPurchaseOrders,
+  insertFeedPurchaseOrder,
+} from './feed-forecast-repository'
+import {
+  atomicAddFeedQuantity,
+  getFeedInventory,
+  getFeedInventoryByFarmAndType,
+  insertFeedInventory,
+} from './repository'
+import type { FeedForecast, GrowthPoint } from './feed-forecast-service'
+import type { FeedPurchaseOrderRecord } from './feed-forecast-repository'
+import type { FeedPurchaseOrderItem } from '~/lib/db/types'
+import { FEED_TYPE_VALUES } from '~/features/feed/constants'
+import { checkFarmAccess } from '~/features/auth/utils'
+import { AppError } from '~/lib/errors'
+
+export type { FeedForecast, FeedPurchaseOrderRecord }
+
+const forecastQuerySchema = z.object({
+  farmId: z.string().uuid(),
+  horizonDays: z.number().int().min(7).max(180).optional(),
+})
+
+const orderItemSchema = z.object({
+  feedType: z.enum(FEED_TYPE_VALUES),
+  quantityKg: z.number().positive(),
+  estimatedCost: z.number().nonnegative().nullable(),
+})
+
+const createOrderSchema = z.object({
+  farmId: z.string().uuid(),
+  supplierId: z.string().uuid().nullable(),
+  expectedDeliveryDate: z.coerce.date(),
+  items: z.array(orderItemSchema).min(1),
+})
+
+const receiveOrderSchema = z.object({
+  orderId: z.string().uuid(),
+  amount: z.number().nonnegative().optional(),
+  date: z.coerce.date().optional(),
+})
+
+const orderIdSchema = z.object({
+  orderId: z.string().uuid(),
+})
+
+export interface FeedForecastResult extends FeedForecast {
+  generatedAt: Date
+  horizonDays: number
+  openOrders: Array<FeedPurchaseOrderRecord>
+}
+
+async function requireFarmAccess(userId: string, farmId: string) {
+  if (!(await checkFarmAccess(userId, farmId))) {
+    throw new AppError('ACCESS_DENIED', { metadata: { farmId } })
+  }
+}
+
+async function getOpenOrderForUser(userId: string, orderId: string) {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+
+  const order = await getFeedPurchaseOrderById(db, orderId)
+  if (!order) {
+    throw new AppError('FEED_PURCHASE_ORDER_NOT_FOUND', {
+      metadata: { resource: 'FeedPurchaseOrder', id: orderId },
+    })
+  }
+  await requireFarmAccess(userId, order.farmId)
+  if (order.status !== 'ordered') {
+    throw new AppError('FEED_PURCHASE_ORDER_CLOSED', {
+      metadata: { id: orderId, status: order.status },
+    })
+  }
+  return { db, order }
+}
+
+/**
+ * Forecast a farm's feed stock from its active batches and suggest purchase
+ * orders per supplier
+ *
+ * @param userId - ID of the requesting user
+ * @param farmId - Farm to forecast
+ * @param horizonDays - Days to project (default: 60)
+ * @returns Stock forecast per feed type, feed transitions, suggested and open orders
+ * @throws {AppError} ACCESS_DENIED if the user cannot access the farm
+ */
+export async function getFeedForecast(
+  userId: string,
+  farmId: string,
+  horizonDays: number = FORECAST_HORIZON_DAYS,
+): Promise<FeedForecastResult> {
+  await requireFarmAccess(userId, farmId)
+
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { getGrowthStandards } = await import('~/features/batches/repository')
+
+  try {
+    const today = new Date()
+    const [batches, usage, stock, suppliers, openOrders] = await Promise.all([
+      getForecastBatches(db, farmId),
+      getFarmFeedUsage(
+        db,
+        farmId,
+        addDays(startOfDay(today), -FEED_HISTORY_DAYS),
+      ),
+      getFeedInventory(db, [farmId]),
+      getForecastSuppliers(db),
+      getOpenFeedPurchaseOrders(db, farmId),
+    ])
+
+    // Batches of the same species and breed share a growth curve
+    const curves = new Map<string, Array<GrowthPoint>>()
+    const growthCurves = new Map<string, Array<GrowthPoint>>()
+    for (const batch of batches) {
+      const key = `${batch.species}:${batch.breedId ?? ''}`
+      let curve = curves.get(key)
+      if (!curve) {
+        const standards = await getGrowthStandards(
+          db,
+          batch.species,
+          batch.breedId,
+        )
+        curve = standards.map((s) => ({
+          day: s.day,
+          weightG: s.expected_weight_g,
+        }))
+        curves.set(key, curve)
+      }
+      growthCurves.set(batch.id, curve)
+    }
+
+    const forecast = buildFeedForecast({
+      today,
+      horizonDays,
+      batches: batches.map((b) => ({
+        ...b,
+        batchName: b.batchName ?? b.species,
+      })),
+      usage: usage.map((r) => ({
+        ...r,
+        quantityKg: parseFloat(r.quantityKg),
+        cost: parseFloat(r.cost),
+      })),
+      growthCurves,
+      stock: stock.map((s) => ({
+        feedType: s.feedType,
+        quantityKg: parseFloat(s.quantityKg),
+        minThresholdKg: parseFloat(s.minThresholdKg),
+      })),
+      suppliers,
+      openOrders,
+    })
+
+    return { ...forecast, generatedAt: today, horizonDays, openOrders }
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to build feed forecast',
+      cause: error,
+    })
+  }
+}
+
+export const getFeedForecastFn = createServerFn({ method: 'GET' })
+  .inputValidator(forecastQuerySchema)
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+    return getFeedForecast(session.user.id, data.farmId, data.horizonDays)
+  })
+
+/**
+ * Place a purchase order, usually from a forecast suggestion. Open orders
+ * count as incoming stock in later forecasts.
+ *
+ * @param userId - ID of the user placing the order
+ * @param input - Farm, supplier, expected delivery and order lines
+ * @returns ID of the new order
+ * @throws {AppError} VALIDATION_ERROR if the order lines are invalid
+ * @throws {AppError} ACCESS_DENIED if the user cannot access the farm
+ */
+export async function createFeedPurchaseOrder(
+  userId: string,
+  input: z.infer<typeof createOrderSchema>,
+): Promise<string> {
+  const validationError = validatePurchaseOrderItems(input.items)
+  if (validationError) {
+    throw new AppError('VALIDATION_ERROR', {
+      message: validationError,
+      metadata: { field: 'items' },
+    })
+  }
+  await requireFarmAccess(userId, input.farmId)
+
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+
+  const costs = input.items.map((item) => item.estimatedCost)
+  const estimatedCost = costs.every((cost) => cost !== null)
+    ? costs.reduce((sum, cost) => sum + cost, 0).toFixed(2)
+    : null
+
+  try {
+    return await insertFeedPurchaseOrder(db, {
+      farmId: input.farmId,
+      supplierId: input.supplierId,
+      items: input.items,
+      estimatedCost,
+      expectedDeliveryDate: input.expectedDeliveryDate,
+      createdBy: userId,
+    })
+  } catch (error) {
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to create purchase order',
+      cause: error,
+    })
+  }
+}
+
+export const createFeedPurchaseOrderFn = createServerFn({ method: 'POST' })
+  .inputValidator(createOrderSchema)
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+    return createFeedPurchaseOrder(session.user.id, data)
+  })
+
+/**
+ * Receive a purchase order: record a feed expense with the order's supplier
+ * and add each line to the farm's feed inventory, in one transaction.
+ *
+ * @param userId - ID of the user receiving the order
+ * @param orderId - Purchase order ID
+ * @param amount - Amount paid (default: the order's estimated cost)
+ * @param date - Delivery date (default: today)
+ * @returns ID of the recorded expense
+ * @throws {AppError} FEED_PURCHASE_ORDER_NOT_FOUND if the order does not exist
+ * @throws {AppError} FEED_PURCHASE_ORDER_CLOSED if it was already received or cancelled
+ * @throws {AppError} VALIDATION_ERROR if no amount is given for an order without an estimate
+ */
+export async function receiveFeedPurchaseOrder(
+  userId: string,
+  orderId: string,
+  amount?: number,
+  date: Date = new Date(),
+): Promise<string> {
+  const { db, order } = await getOpenOrderForUser(userId, orderId)
+
+  const paid =
+    amount ?? (order.estimatedCost ? parseFloat(order.estimatedCost) : null)
+  if (paid === null) {
+    throw new AppError('VALIDATION_ERROR', {
+      message: 'Enter the amount paid for this order',
+      metadata: { field: 'amount' },
+    })
+  }
+
+  const { insertExpense } = await import('~/features/expenses/repository')
+
+  try {
+    return await db.transaction().execute(async (tx) => {
+      const expenseId = await insertExpense(tx, {
+        farmId: order.farmId,
+        batchId: null,
+        category: 'feed',
+        amount: paid.toFixed(2),
+        date,
+        description: describePurchaseOrder(order.items),
+        supplierId: order.supplierId,
+        isRecurring: false,
+      })
+
+      const closed = await closeFeedPurchaseOrder(tx, order.id, {
+        status: 'received',
+        expenseId,
+        receivedAt: date,
+      })
+      if (!closed) {
+        throw new AppError('FEED_PURCHASE_ORDER_CLOSED', {
+          metadata: { id: order.id },
+        })
+      }
+
+      for (const item of order.items) {
+        await addOrderItemToInventory(tx, order.farmId, item)
+      }
+
+      return expenseId
+    })
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to receive purchase order',
+      cause: error,
+    })
+  }
+}
+
+async function addOrderItemToInventory(
+  db: Parameters<typeof getFeedInventoryByFarmAndType>[0],
+  farmId: string,
+  item: FeedPurchaseOrderItem,
+) {
+  const existing = await getFeedInventoryByFarmAndType(
+    db,
+    farmId,
+    item.feedType,
+  )
+  if (existing) {
+    await atomicAddFeedQuantity(db, existing.id, item.quantityKg)
+  } else {
+    await insertFeedInventory(db, {
+      farmId,
+      feedType: item.feedType,
+      quantityKg: item.quantityKg.toFixed(2),
+      minThresholdKg: '10.00',
+    })
+  }
+}
+
+export const receiveFeedPurchaseOrderFn = createServerFn({ method: 'POST' })
+  .inputValidator(receiveOrderSchema)
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+    return receiveFeedPurchaseOrder(
+      session.user.id,
+      data.orderId,
+      data.amount,
+      data.date,
+    )
+  })
+
+/**
+ * Cancel an open purchase order
+ *
+ * @param userId - ID of the user cancelling the order
+ * @param orderId - Purchase order ID
+ * @throws {AppError} FEED_PURCHASE_ORDER_NOT_FOUND if the order does not exist
+ * @throws {AppError} FEED_PURCHASE_ORDER_CLOSED if it was already received or cancelled
+ */
+export async function cancelFeedPurchaseOrder(
+  userId: string,
+  orderId: string,
+): Promise<boolean> {
+  const { db, order } = await getOpenOrderForUser(userId, orderId)
+
+  const closed = await closeFeedPurchaseOrder(db, order.id, {
+    status: 'cancelled',
+  })
+  if (!closed) {
+    throw new AppError('FEED_PURCHASE_ORDER_CLOSED', {
+      metadata: { id: order.id },
+    })
+  }
+  return true
+}
+
+export const cancelFeedPurchaseOrderFn = createServerFn({ method: 'POST' })
+  .inputValidator(orderIdSchema)
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+    return cancelFeedPurchaseOrder(session.user.id, data.orderId)
+  })
@@ -0,0 +1,703 @@
+/**
+ * Business logic for feed forecasting and reorder planning.
+ * All functions are pure - no side effects or database access.
+ */
+
+import { addDays, differenceInCalendarDays, startOfDay } from 'date-fns'
+import type { FeedType } from '~/features/feed/constants'
+import type { LivestockType } from '~/features/modules/types'
+import {
+  DEFAULT_FEED_TYPE_BY_LIVESTOCK,
+  FEED_PHASE_SCHEDULES,
+  FEED_TYPES,
+} from '~/features/feed/constants'
+import { resolveTargetFcr } from '~/features/feed/service'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Days ahead that feed demand is projected */
+export const FORECAST_HORIZON_DAYS = 60
+
+/** Most recent days of feed records used to measure actual intake */
+export const INTAKE_OBSERVATION_DAYS = 14
+
+/** Days of feed records loaded for intake, last feed type, prices and suppliers */
+export const FEED_HISTORY_DAYS = 90
+
+/** Lead time assumed for suppliers that have none set */
+export const DEFAULT_SUPPLIER_LEAD_TIME_DAYS = 3
+
+/** Orders are suggested when stock reaches its threshold within lead time plus this */
+export const REORDER_REVIEW_DAYS = 7
+
+/** Days of demand an order covers after it is delivered */
+export const ORDER_COVER_DAYS = 14
+
+/** Suggested quantities are rounded up to whole bags */
+export const ORDER_ROUNDING_KG = 25
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ForecastBatch {
+  id: string
+  batchName: string
+  species: string
+  livestockType: LivestockType
+  currentQuantity: number
+  acquisitionDate: Date
+  targetHarvestDate: Date | null
+  breedTypicalFcr: string | null
+}
+
+export interface FeedUsageRecord {
+  batchId: string
+  feedType: FeedType
+  date: Date
+  quantityKg: number
+  cost: number
+  supplierId: string | null
+}
+
+/** A point on a growth standard curve */
+export interface GrowthPoint {
+  day: number
+  weightG: number
+}
+
+export interface ForecastStock {
+  feedType: FeedType
+  quantityKg: number
+  minThresholdKg: number
+}
+
+export interface ForecastSupplier {
+  id: string
+  name: string
+  leadTimeDays: number | null
+  products: Array<string>
+  supplierType: string | null
+}
+
+export interface OpenFeedOrder {
+  id: string
+  supplierId: string | null
+  expectedDeliveryDate: Date
+  items: Array<{ feedType: FeedType; quantityKg: number }>
+}
+
+/**
+ * How a batch's intake was projected: scaled from its recent intake along the
+ * growth curve, from the growth curve and target FCR alone, or held flat at
+ * its recent intake when there is no curve
+ */
+export type IntakeBasis = 'history_and_growth' | 'growth_standard' | 'history'
+
+export interface FeedTransition {
+  batchId: string
+  batchName: string
+  /** Days from today until the new feed starts */
+  day: number
+  fromFeedType: FeedType
+  toFeedType: FeedType
+}
+
+export interface BatchIntakeProjection {
+  batchId: string
+  batchName: string
+  species: string
+  basis: IntakeBasis | null
+  /** Projected feed per day, indexed by days from today; empty without a basis */
+  daily: Array<{ feedType: FeedType; quantityKg: number }>
+  transitions: Array<FeedTransition>
+}
+
+export interface FeedTypeForecast {
+  feedType: FeedType
+  onHandKg: number
+  minThresholdKg: number
+  /** Quantity on open purchase orders */
+  onOrderKg: number
+  /** Projected demand per day, indexed by days from today */
+  demandKg: Array<number>
+  /** Average demand over the next week */
+  averageDailyKg: number
+  /** Days until stock runs out, counting deliveries; null if it lasts the horizon */
+  daysRemaining: number | null
+  /** Days until stock falls below its threshold; null if it stays above */
+  daysUntilReorder: number | null
+}
+
+export interface PurchaseOrderSuggestion {
+  supplierId: string | null
+  supplierName: string | null
+  leadTimeDays: number
+  /** Latest date to order without dropping below thresholds */
+  orderByDate: Date
+  /** Delivery date when ordered on the order-by date */
+  expectedDeliveryDate: Date
+  items: Array<{
+    feedType: FeedType
+    quantityKg: number
+    estimatedCost: number | null
+  }>
+  estimatedCost: number | null
+}
+
+export interface FeedForecastInputs {
+  today: Date
+  horizonDays: number
+  batches: Array<ForecastBatch>
+  usage: Array<FeedUsageRecord>
+  /** Growth standard per batch ID, ordered by day */
+  growthCurves: Map<string, Array<GrowthPoint>>
+  stock: Array<ForecastStock>
+  suppliers: Array<ForecastSupplier>
+  openOrders: Array<OpenFeedOrder>
+}
+
+export interface FeedForecast {
+  feedTypes: Array<FeedTypeForecast>
+  transitions: Array<FeedTransition>
+  suggestions: Array<PurchaseOrderSuggestion>
+  /** Batches with no feeding history, growth curve or target FCR to project from */
+  unforecastBatches: Array<{ batchId: string; batchName: string }>
+}
+
+// ============================================================================
+// Intake projection
+// ============================================================================
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * Feed type a batch eats at an age: its species' phase schedule when there is
+ * one, otherwise the feed it was last given, otherwise its livestock default
+ *
+ * @param species - Batch species
+ * @param livestockType - Batch livestock type
+ * @param ageDays - Age in days since acquisition
+ * @param lastFedType - Feed type of the batch's most recent feed record
+ * @returns Feed type for that age
+ *
+ * @example
+ * ```ts
+ * getFeedTypeForAge('Broiler', 'poultry', 25, null) // 'grower'
+ * getFeedTypeForAge('Boer', 'goats', 300, 'hay') // 'hay'
+ * ```
+ */
+export function getFeedTypeForAge(
+  species: string,
+  livestockType: LivestockType,
+  ageDays: number,
+  lastFedType: FeedType | null,
+): FeedType {
+  const key = species.toLowerCase()
+  if (key in FEED_PHASE_SCHEDULES) {
+    const schedule = FEED_PHASE_SCHEDULES[key]
+    let feedType = schedule[0].feedType
+    for (const phase of schedule) {
+      if (ageDays >= phase.fromDay) feedType = phase.feedType
+    }
+    return feedType
+  }
+  return lastFedType ?? DEFAULT_FEED_TYPE_BY_LIVESTOCK[livestockType]
+}
+
+/**
+ * Expected weight at an age, interpolated between growth standard points and
+ * held at the first and last points outside the curve
+ *
+ * @param curve - Growth standard points ordered by day
+ * @param day - Age in days
+ * @returns Expected weight in grams
+ */
+export function interpolateWeight(curve: Array<GrowthPoint>, day: number) {
+  if (day <= curve[0].day) return curve[0].weightG
+  for (let i = 1; i < curve.length; i++) {
+    const next = curve[i]
+    if (day <= next.day) {
+      const prev = curve[i - 1]
+      const fraction = (day - prev.day) / (next.day - prev.day)
+      return prev.weightG + fraction * (next.weightG - prev.weightG)
+    }
+  }
+  return curve[curve.length - 1].weightG
+}
+
+/**
+ * Project a batch's daily feed use over the forecast horizon.
+ *
+ * Intake per head follows metabolic body weight (weight^0.75) along the growth
+ * standard, so it keeps rising as animals grow and levels off once they are
+ * mature. The curve is scaled to match the batch's intake over the last
+ * {@link INTAKE_OBSERVATION_DAYS} days; without recent records it is scaled so
+ * the whole curve is fed at the breed or species target FCR. Batches without a
+ * curve are held at their recent intake. Each day's feed is assigned a feed
+ * type by age, which is where phase transitions appear. Projection stops after
+ * the target harvest date; mortality is not projected.
+ *
+ * @param batch - Active batch
+ * @param usage - Feed records of the batch, in any order
+ * @param curve - Growth standard for the batch, ordered by day (may be empty)
+ * @param today - Start of the projection
+ * @param horizonDays - Days to project
+ * @returns Daily feed and feed transitions, or no days without a basis
+ *
+ * @example
+ * ```ts
+ * const projection = projectBatchIntake(batch, usage, curve, today, 60)
+ * // projection.daily[0]: { feedType: 'grower', quantityKg: 98.4 }
+ * ```
+ */
+export function projectBatchIntake(
+  batch: ForecastBatch,
+  usage: Array<FeedUsageRecord>,
+  curve: Array<GrowthPoint>,
+  today: Date,
+  horizonDays: number,
+): BatchIntakeProjection {
+  const start = startOfDay(today)
+  const ageToday = differenceInCalendarDays(start, batch.acquisitionDate)
+  const records = usage
+    .filter((r) => r.batchId === batch.id)
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+  const lastFedType =
+    records.length > 0 ? records[records.length - 1].feedType : null
+
+  // Complete days observed: up to the observation window, since acquisition
+  const observedDays = Math.min(INTAKE_OBSERVATION_DAYS, ageToday)
+  const windowStart = addDays(start, -observedDays)
+  const observedKg = records
+    .filter((r) => r.date >= windowStart && r.date < start)
+    .reduce((sum, r) => sum + r.quantityKg, 0)
+  const observedPerHeadKg =
+    observedDays > 0 && observedKg > 0 && batch.currentQuantity > 0
+      ? observedKg / observedDays / batch.currentQuantity
+      : null
+
+  const metabolicWeight = (age: number) =>
+    Math.pow(interpolateWeight(curve, age) / 1000, 0.75)
+  const sumMetabolic = (from: number, to: number) => {
+    let total = 0
+    for (let age = from; age < to; age++) total += metabolicWeight(age)
+    return total
+  }
+
+  let basis: IntakeBasis | null = null
+  let perHeadKg: ((age: number) => number) | null = null
+  if (curve.length >= 2) {
+    let scale: number | null = null
+    if (observedPerHeadKg !== null) {
+      const window = sumMetabolic(ageToday - observedDays, ageToday)
+      if (window > 0) {
+        scale = (observedPerHeadKg * observedDays) / window
+        basis = 'history_and_growth'
+      }
+    } else {
+      const targetFcr = resolveTargetFcr(batch.breedTypicalFcr, batch.species)
+      const first = curve[0]
+      const last = curve[curve.length - 1]
+      const total = sumMetabolic(first.day, last.day)
+      if (targetFcr !== null && total > 0 && last.weightG > first.weightG) {
+        scale = (targetFcr * (last.weightG - first.weightG)) / 1000 / total
+        basis = 'growth_standard'
+      }
+    }
+    if (scale !== null) {
+      const factor = scale
+      perHeadKg = (age) => factor * metabolicWeight(age)
+    }
+  } else if (observedPerHeadKg !== null) {
+    basis = 'history'
+    perHeadKg = () => observedPerHeadKg
+  }
+
+  const daily: BatchIntakeProjection['daily'] = []
+  const transitions: Array<FeedTransition> = []
+  if (perHeadKg) {
+    const currentFeedType = getFeedTypeForAge(
+      batch.species,
+      batch.livestockType,
+      ageToday,
+      lastFedType,
+    )
+    let previousType = lastFedType ?? currentFeedType
+    for (let day = 0; day < horizonDays; day++) {
+      const date = addDays(start, day)
+      if (batch.targetHarvestDate && date > batch.targetHarvestDate) break
+
+      const age = ageToday + day
+      const feedType = getFeedTypeForAge(
+        batch.species,
+        batch.livestockType,
+        age,
+        lastFedType,
+      )
+      if (feedType !== previousType) {
+        transitions.push({
+          batchId: batch.id,
+          batchName: batch.batchName,
+          day,
+          fromFeedType: previousType,
+          toFeedType: feedType,
+        })
+        previousType = feedType
+      }
+      daily.push({
+        feedType,
+        quantityKg: perHeadKg(age) * batch.currentQuantity,
+      })
+    }
+  }
+
+  return {
+    batchId: batch.id,
+    batchName: batch.batchName,
+    species: batch.species,
+    basis,
+    daily,
+    transitions,
+  }
+}
+
+// ============================================================================
+// Stock projection
+// ============================================================================
+
+/**
+ * Project each feed type's stock from batch demand and open orders.
+ *
+ * @param stock - Feed inventory of the farm
+ * @param projections - Intake projections of the farm's active batches
+ * @param openOrders - Purchase orders not yet received
+ * @param today - Start of the projection
+ * @param horizonDays - Days to project
+ * @returns Forecast per feed type, soonest to run out first
+ *
+ * @example
+ * ```ts
+ * const forecasts = forecastFeedStock(stock, projections, orders, today, 60)
+ * // forecasts[0]: { feedType: 'starter', daysRemaining: 4, ... }
+ * ```
+ */
+export function forecastFeedStock(
+  stock: Array<ForecastStock>,
+  projections: Array<BatchIntakeProjection>,
+  openOrders: Array<OpenFeedOrder>,
+  today: Date,
+  horizonDays: number,
+): Array<FeedTypeForecast> {
+  const start = startOfDay(today)
+  const demand = new Map<FeedType, Array<number>>()
+  const demandFor = (feedType: FeedType) => {
+    let days = demand.get(feedType)
+    if (!days) {
+      days = new Array<number>(horizonDays).fill(0)
+      demand.set(feedType, days)
+    }
+    return days
+  }
+
+  for (const item of stock) demandFor(item.feedType)
+  for (const projection of projections) {
+    projection.daily.forEach((day, index) => {
+      demandFor(day.feedType)[index] += day.quantityKg
+    })
+  }
+
+  const forecasts = Array.from(demand, ([feedType, days]) => {
+    const item = stock.find((s) => s.feedType === feedType)
+    const onHandKg = item?.quantityKg ?? 0
+    const minThresholdKg = item?.minThresholdKg ?? 0
+
+    const arrivals = new Array<number>(horizonDays).fill(0)
+    let onOrderKg = 0
+    for (const order of openOrders) {
+      for (const line of order.items) {
+        if (line.feedType !== feedType) continue
+        onOrderKg += line.quantityKg
+        const day = Math.max(
+          0,
+          differenceInCalendarDays(order.expectedDeliveryDate, start),
+        )
+        if (day < horizonDays) arrivals[day] += line.quantityKg
+      }
+    }
+
+    let level = onHandKg
+    let daysRemaining: number | null = null
+    let daysUntilReorder: number | null = null
+    for (let day = 0; day < horizonDays; day++) {
+      level += arrivals[day] - days[day]
+      if (daysUntilReorder === null && level < minThresholdKg) {
+        daysUntilReorder = day
+      }
+      if (daysRemaining === null && level < 0) daysRemaining = day
+    }
+
+    const week = days.slice(0, 7)
+    return {
+      feedType,
+      onHandKg: round2(onHandKg),
+      minThresholdKg: round2(minThresholdKg),
+      onOrderKg: round2(onOrderKg),
+      demandKg: days.map(round2),
+      averageDailyKg: round2(
+        week.reduce((sum, kg) => sum + kg, 0) / Math.max(week.length, 1),
+      ),
+      daysRemaining,
+      daysUntilReorder,
+    }
+  })
+
+  return forecasts.sort(
+    (a, b) =>
+      (a.daysRemaining ?? Infinity) - (b.daysRemaining ?? Infinity) ||
+      (a.daysUntilReorder ?? Infinity) - (b.daysUntilReorder ?? Infinity),
+  )
+}
+
+// ============================================================================
+// Purchase orders
+// ============================================================================
+
+/**
+ * Supplier to order a feed type from: the one it was last bought from, then a
+ * feed mill listing it among its products, then any supplier listing it
+ *
+ * @param feedType - Feed type to order
+ * @param suppliers - Available suppliers
+ * @param usage - Feed records, used for the last supplier of each type
+ * @returns Supplier, or null when none is known for the feed
+ */
+export function pickSupplier(
+  feedType: FeedType,
+  suppliers: Array<ForecastSupplier>,
+  usage: Array<FeedUsageRecord>,
+): ForecastSupplier | null {
+  const lastBought = usage
+    .filter((r) => r.feedType === feedType && r.supplierId)
+    .sort((a, b) => b.date.getTime() - a.date.getTime())
+  for (const record of lastBought) {
+    const supplier = suppliers.find((s) => s.id === record.supplierId)
+    if (supplier) return supplier
+  }
+
+  const label = feedType.replace('_', ' ')
+  const stocksFeed = (supplier: ForecastSupplier) =>
+    supplier.products.some((p) => p.toLowerCase().includes(label))
+  return (
+    suppliers.find((s) => s.supplierType === 'feed_mill' && stocksFeed(s)) ??
+    suppliers.find(stocksFeed) ??
+    null
+  )
+}
+
+/**
+ * Average price per kg of each feed type from its feed records
+ *
+ * @param usage - Feed records
+ * @returns Price per kg by feed type, for types with costed records
+ */
+export function averageFeedPrices(
+  usage: Array<FeedUsageRecord>,
+): Map<FeedType, number> {
+  const totals = new Map<FeedType, { cost: number; kg: number }>()
+  for (const record of usage) {
+    if (record.cost <= 0 || record.quantityKg <= 0) continue
+    const total = totals.get(record.feedType) ?? { cost: 0, kg: 0 }
+    total.cost += record.cost
+    total.kg += record.quantityKg
+    totals.set(record.feedType, total)
+  }
+  return new Map(
+    Array.from(totals, ([feedType, total]) => [
+      feedType,
+      total.cost / total.kg,
+    ]),
+  )
+}
+
+/**
+ * Suggest purchase orders, one per supplier, for feed types that fall below
+ * their threshold within the supplier's lead time plus
+ * {@link REORDER_REVIEW_DAYS}.
+ *
+ * Each order covers demand until {@link ORDER_COVER_DAYS} days after delivery
+ * and restores the threshold, net of stock on hand and already on order,
+ * rounded up to whole {@link ORDER_ROUNDING_KG} kg bags.
+ *
+ * @param forecasts - Stock forecasts per feed type
+ * @param suppliers - Supplier chosen for each feed type
+ * @param prices - Price per kg by feed type
+ * @param today - Start of the forecast
+ * @returns Suggested orders, most urgent first
+ *
+ * @example
+ * ```ts
+ * const suggestions = suggestPurchaseOrders(forecasts, suppliers, prices, today)
+ * // [{ supplierName: 'Agro Mills', items: [{ feedType: 'grower', quantityKg: 750 }] }]
+ * ```
+ */
+export function suggestPurchaseOrders(
+  forecasts: Array<FeedTypeForecast>,
+  suppliers: Map<FeedType, ForecastSupplier | null>,
+  prices: Map<FeedType, number>,
+  today: Date,
+): Array<PurchaseOrderSuggestion> {
+  const start = startOfDay(today)
+  const orders = new Map<string, PurchaseOrderSuggestion>()
+
+  for (const forecast of forecasts) {
+    const supplier = suppliers.get(forecast.feedType) ?? null
+    const leadTimeDays =
+      supplier?.leadTimeDays ?? DEFAULT_SUPPLIER_LEAD_TIME_DAYS
+    if (
+      forecast.daysUntilReorder === null ||
+      forecast.daysUntilReorder > leadTimeDays + REORDER_REVIEW_DAYS
+    ) {
+      continue
+    }
+
+    const coverDemandKg = forecast.demandKg
+      .slice(0, leadTimeDays + ORDER_COVER_DAYS)
+      .reduce((sum, kg) => sum + kg, 0)
+    if (coverDemandKg <= 0) continue
+
+    const neededKg =
+      coverDemandKg +
+      forecast.minThresholdKg -
+      forecast.onHandKg -
+      forecast.onOrderKg
+    if (neededKg <= 0) continue
+
+    const quantityKg =
+      Math.ceil(neededKg / ORDER_ROUNDING_KG) * ORDER_ROUNDING_KG
+    const price = prices.get(forecast.feedType)
+    const orderBy = addDays(
+      start,
+      Math.max(0, forecast.daysUntilReorder - leadTimeDays),
+    )
+
+    const key = supplier?.id ?? ''
+    const order = orders.get(key) ?? {
+      supplierId: supplier?.id ?? null,
+      supplierName: supplier?.name ?? null,
+      leadTimeDays,
+      orderByDate: orderBy,
+      expectedDeliveryDate: addDays(orderBy, leadTimeDays),
+      items: [],
+      estimatedCost: 0,
+    }
+    if (orderBy < order.orderByDate) {
+      order.orderByDate = orderBy
+      order.expectedDeliveryDate = addDays(orderBy, leadTimeDays)
+    }
+    const estimatedCost =
+      price !== undefined ? round2(quantityKg * price) : null
+    order.items.push({ feedType: forecast.feedType, quantityKg, estimatedCost })
+    order.estimatedCost =
+      order.estimatedCost !== null && estimatedCost !== null
+        ? round2(order.estimatedCost + estimatedCost)
+        : null
+    orders.set(key, order)
+  }
+
+  return [...orders.values()].sort(
+    (a, b) => a.orderByDate.getTime() - b.orderByDate.getTime(),
+  )
+}
+
+/**
+ * Forecast a farm's feed stock and suggest purchase orders
+ *
+ * @param inputs - Batches, feed history, growth curves, stock, suppliers and open orders
+ * @returns Stock forecast per feed type, upcoming transitions and suggested orders
+ *
+ * @example
+ * ```ts
+ * const forecast = buildFeedForecast({ today: new Date(), horizonDays: 60, ... })
+ * ```
+ */
+export function buildFeedForecast(inputs: FeedForecastInputs): FeedForecast {
+  const { today, horizonDays, usage } = inputs
+  const projections = inputs.batches.map((batch) =>
+    projectBatchIntake(
+      batch,
+      usage,
+      inputs.growthCurves.get(batch.id) ?? [],
+      today,
+      horizonDays,
+    ),
+  )
+
+  const feedTypes = forecastFeedStock(
+    inputs.stock,
+    projections,
+    inputs.openOrders,
+    today,
+    horizonDays,
+  )
+  const suppliers = new Map(
+    feedTypes.map((f) => [
+      f.feedType,
+      pickSupplier(f.feedType, inputs.suppliers, usage),
+    ]),
+  )
+
+  return {
+    feedTypes,
+    transitions: projections
+      .flatMap((p) => p.transitions)
+      .sort((a, b) => a.day - b.day),
+    suggestions: suggestPurchaseOrders(
+      feedTypes,
+      suppliers,
+      averageFeedPrices(usage),
+      today,
+    ),
+    unforecastBatches: projections
+      .filter((p) => p.basis === null)
+      .map((p) => ({ batchId: p.batchId, batchName: p.batchName })),
+  }
+}
+
+/**
+ * Validate the items of a purchase order
+ *
+ * @param items - Order lines
+ * @returns Validation error message, or null if valid
+ */
+export function validatePurchaseOrderItems(
+  items: Array<{ feedType: FeedType; quantityKg: number }>,
+): string | null {
+  if (items.length === 0) return 'An order needs at least one item'
+  if (items.some((item) => !(item.quantityKg > 0))) {
+    return 'Order quantities must be greater than 0'
+  }
+  if (new Set(items.map((item) => item.feedType)).size !== items.length) {
+    return 'Each feed type can appear only once in an order'
+  }
+  return null
+}
+
+/**
+ * Expense description for a received purchase order
+ *
+ * @param items - Order lines
+ * @returns Description such as "Feed order: Starter 500kg, Grower 250kg"
+ */
+export function describePurchaseOrder(
+  items: Array<{ feedType: FeedType; quantityKg: number }>,
+): string {
+  const lines = items.map((item) => {
+    const label =
+      FEED_TYPES.find((f) => f.value === item.feedType)?.label ?? item.feedType
+    return `${label} ${item.quantityKg}kg`
+  })
+  return `Feed order: ${lines.join(', ')}`
+}
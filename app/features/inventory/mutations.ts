@@ -1,4 +1,5 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { useRouter } from '@tanstack/react-router'
 import { toast } from 'sonner'
 import { useTranslation } from 'react-i18next'
 import {
@@ -6,6 +7,11 @@ import {
   deleteFeedInventoryFn,
   updateFeedInventoryFn,
 } from './feed-server'
+import {
+  cancelFeedPurchaseOrderFn,
+  createFeedPurchaseOrderFn,
+  receiveFeedPurchaseOrderFn,
+} from './feed-forecast-server'
 import {
   createMedicationFn,
   deleteMedicationFn,
@@ -21,6 +27,7 @@ export const INVENTORY_QUERY_KEYS = {
   supplies: ['supplies-inventory'] as const,
   lowStockSupplies: ['low-stock-supplies'] as const,
   expiringSupplies: ['expiring-supplies'] as const,
+  feedForecast: ['feed-forecast'] as const,
 } as const
 
 interface FeedInventoryCache {
@@ -200,14 +207,7 @@ export function useMedicationMutations() {
       medicationName: string
       quantity: number
       unit:
-        | 'vial'
-        | 'bottle'
-        | 'sachet'
-        | 'ml'
-        | 'g'
-        | 'tablet'
-        | 'kg'
-        | 'liter'
+        'vial' | 'bottle' | 'sachet' | 'ml' | 'g' | 'tablet' | 'kg' | 'liter'
       minThreshold: number
     },
     OptimisticContext<Array<MedicationInventoryCache>>
@@ -356,3 +356,63 @@ export function useMedicationMutations() {
       deleteMedication.isPending,
   }
 }
+
+export function useFeedPurchaseOrderMutations() {
+  const queryClient = useQueryClient()
+  const router = useRouter()
+  const { t } = useTranslation(['inventory', 'common'])
+
+  const onSettled = () => {
+    queryClient.invalidateQueries({
+      queryKey: INVENTORY_QUERY_KEYS.feedForecast,
+    })
+  }
+
+  const createOrder = useMutation({
+    mutationFn: (
+      data: Parameters<typeof createFeedPurchaseOrderFn>[0]['data'],
+    ) => createFeedPurchaseOrderFn({ data }),
+    onSuccess: () => {
+      toast.success(t('inventory:forecast.messages.ordered'))
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : t('common:error.save'))
+    },
+    onSettled,
+  })
+
+  const receiveOrder = useMutation({
+    mutationFn: (data: { orderId: string; amount?: number }) =>
+      receiveFeedPurchaseOrderFn({ data }),
+    onSuccess: () => {
+      toast.success(t('inventory:forecast.messages.received'))
+      // Received feed lands in the stock the inventory route loads
+      queryClient.invalidateQueries({ queryKey: INVENTORY_QUERY_KEYS.feed })
+      void router.invalidate()
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : t('common:error.save'))
+    },
+    onSettled,
+  })
+
+  const cancelOrder = useMutation({
+    mutationFn: (orderId: string) =>
+      cancelFeedPurchaseOrderFn({ data: { orderId } }),
+    onSuccess: () => {
+      toast.success(t('inventory:forecast.messages.cancelled'))
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : t('common:error.save'))
+    },
+    onSettled,
+  })
+
+  return {
+    createOrder,
+    receiveOrder,
+    cancelOrder,
+    isPending:
+      createOrder.isPending || receiveOrder.isPending || cancelOrder.isPending,
+  }
+}
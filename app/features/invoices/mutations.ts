@@ -5,9 +5,10 @@ import { useTranslation } from 'react-i18next'
 import {
   createInvoiceFn,
   deleteInvoiceFn,
-  updateInvoiceStatusFn,
+  deleteInvoicePaymentFn,
+  recordInvoicePaymentFn,
 } from './server'
-import type { CreateInvoiceInput } from './types'
+import type { CreateInvoiceInput, RecordInvoicePaymentInput } from './types'
 import type {
   OptimisticContext,
   OptimisticRecord,
@@ -23,7 +24,6 @@ import {
   removeById,
   replaceTempIdWithRecord,
   setQueryData,
-  updateById,
 } from '~/lib/optimistic-utils'
 import { tempIdResolver } from '~/lib/temp-id-resolver'
 
@@ -64,18 +64,17 @@ export interface CreateInvoiceMutationInput {
 }
 
 /**
- * Input type for updating invoice status mutation
+ * Input type for deleting an invoice mutation
  */
-export interface UpdateInvoiceStatusMutationInput {
+export interface DeleteInvoiceMutationInput {
   invoiceId: string
-  status: 'unpaid' | 'partial' | 'paid'
 }
 
 /**
- * Input type for deleting an invoice mutation
+ * Input type for deleting an invoice payment mutation
  */
-export interface DeleteInvoiceMutationInput {
-  invoiceId: string
+export interface DeleteInvoicePaymentMutationInput {
+  paymentId: string
 }
 
 /**
@@ -90,14 +89,6 @@ export interface UseInvoiceMutationsResult {
       OptimisticContext<Array<InvoiceRecord>>
     >
   >
-  updateInvoiceStatus: ReturnType<
-    typeof useMutation<
-      void,
-      Error,
-      UpdateInvoiceStatusMutationInput,
-      OptimisticContext<Array<InvoiceRecord>>
-    >
-  >
   deleteInvoice: ReturnType<
     typeof useMutation<
       void,
@@ -106,6 +97,12 @@ export interface UseInvoiceMutationsResult {
       OptimisticContext<Array<InvoiceRecord>>
     >
   >
+  recordPayment: ReturnType<
+    typeof useMutation<string, Error, RecordInvoicePaymentInput>
+  >
+  deletePayment: ReturnType<
+    typeof useMutation<void, Error, DeleteInvoicePaymentMutationInput>
+  >
   isPending: boolean
 }
 
@@ -131,7 +128,7 @@ function generateTempInvoiceNumber(): string {
 /**
  * Hook for invoice mutations with optimistic updates.
  *
- * Provides create, update status, and delete mutations for invoices with:
+ * Provides create, delete and payment mutations for invoices with:
  * - Immediate UI feedback via optimistic updates
  * - Automatic rollback on failure
  * - Temp ID replacement on success
@@ -258,31 +255,26 @@ export function useInvoiceMutations(): UseInvoiceMutationsResult {
   })
 
   /**
-   * Update invoice status mutation with optimistic updates
-   *
-   * **Validates: Requirement 6.4**
+   * Delete invoice mutation with optimistic updates
    */
-  const updateInvoiceStatus = useMutation<
+  const deleteInvoice = useMutation<
     void,
     Error,
-    UpdateInvoiceStatusMutationInput,
+    DeleteInvoiceMutationInput,
     OptimisticContext<Array<InvoiceRecord>>
   >({
-    mutationFn: async ({ invoiceId, status }) => {
-      return updateInvoiceStatusFn({ data: { invoiceId, status } })
+    mutationFn: async ({ invoiceId }) => {
+      await deleteInvoiceFn({ data: { invoiceId } })
     },
 
-    onMutate: async ({ invoiceId, status }) => {
+    onMutate: async ({ invoiceId }) => {
       await cancelQueries(queryClient, INVOICE_QUERY_KEYS.all)
 
       const previousInvoices = getQueryData<Array<InvoiceRecord>>(
         queryClient,
         INVOICE_QUERY_KEYS.all,
       )
-
-      const updatedInvoices = updateById(previousInvoices, invoiceId, {
-        status,
-      })
+      const updatedInvoices = removeById(previousInvoices, invoiceId)
       setQueryData(queryClient, INVOICE_QUERY_KEYS.all, updatedInvoices)
 
       return createOptimisticContext(previousInvoices)
@@ -291,8 +283,8 @@ export function useInvoiceMutations(): UseInvoiceMutationsResult {
     onError: (error, _variables, context) => {
       rollbackInvoices(context)
       toast.error(
-        t('messages.updateError', {
-          defaultValue: 'Failed to update invoice status',
+        t('messages.deleteError', {
+          defaultValue: 'Failed to delete invoice',
           ns: 'invoices',
         }),
         { description: error.message },
@@ -301,8 +293,8 @@ export function useInvoiceMutations(): UseInvoiceMutationsResult {
 
     onSuccess: () => {
       toast.success(
-        t('messages.updated', {
-          defaultValue: 'Invoice status updated successfully',
+        t('messages.deleted', {
+          defaultValue: 'Invoice deleted successfully',
           ns: 'invoices',
         }),
       )
@@ -315,36 +307,57 @@ export function useInvoiceMutations(): UseInvoiceMutationsResult {
   })
 
   /**
-   * Delete invoice mutation with optimistic updates
+   * Record a payment against an invoice. Not optimistic: the server derives
+   * the new status and balance from the full payment history.
    */
-  const deleteInvoice = useMutation<
-    void,
-    Error,
-    DeleteInvoiceMutationInput,
-    OptimisticContext<Array<InvoiceRecord>>
-  >({
-    mutationFn: async ({ invoiceId }) => {
-      await deleteInvoiceFn({ data: { invoiceId } })
+  const recordPayment = useMutation<string, Error, RecordInvoicePaymentInput>({
+    mutationFn: async (payment) => {
+      return recordInvoicePaymentFn({ data: payment })
     },
 
-    onMutate: async ({ invoiceId }) => {
-      await cancelQueries(queryClient, INVOICE_QUERY_KEYS.all)
+    onError: (error) => {
+      toast.error(
+        t('messages.paymentError', {
+          defaultValue: 'Failed to record payment',
+          ns: 'invoices',
+        }),
+        { description: error.message },
+      )
+    },
 
-      const previousInvoices = getQueryData<Array<InvoiceRecord>>(
-        queryClient,
-        INVOICE_QUERY_KEYS.all,
+    onSuccess: () => {
+      toast.success(
+        t('messages.paymentRecorded', {
+          defaultValue: 'Payment recorded successfully',
+          ns: 'invoices',
+        }),
       )
-      const updatedInvoices = removeById(previousInvoices, invoiceId)
-      setQueryData(queryClient, INVOICE_QUERY_KEYS.all, updatedInvoices)
+    },
 
-      return createOptimisticContext(previousInvoices)
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: INVOICE_QUERY_KEYS.all })
+      queryClient.invalidateQueries({
+        queryKey: INVOICE_QUERY_KEYS.summary(),
+      })
     },
+  })
 
-    onError: (error, _variables, context) => {
-      rollbackInvoices(context)
+  /**
+   * Delete a payment recorded in error
+   */
+  const deletePayment = useMutation<
+    void,
+    Error,
+    DeleteInvoicePaymentMutationInput
+  >({
+    mutationFn: async ({ paymentId }) => {
+      await deleteInvoicePaymentFn({ data: { paymentId } })
+    },
+
+    onError: (error) => {
       toast.error(
-        t('messages.deleteError', {
-          defaultValue: 'Failed to delete invoice',
+        t('messages.paymentDeleteError', {
+          defaultValue: 'Failed to delete payment',
           ns: 'invoices',
         }),
         { description: error.message },
@@ -353,8 +366,8 @@ export function useInvoiceMutations(): UseInvoiceMutationsResult {
 
     onSuccess: () => {
       toast.success(
-        t('messages.deleted', {
-          defaultValue: 'Invoice deleted successfully',
+        t('messages.paymentDeleted', {
+          defaultValue: 'Payment deleted',
           ns: 'invoices',
         }),
       )
@@ -368,11 +381,13 @@ export function useInvoiceMutations(): UseInvoiceMutationsResult {
 
   return {
     createInvoice,
-    updateInvoiceStatus,
     deleteInvoice,
+    recordPayment,
+    deletePayment,
     isPending:
       createInvoice.isPending ||
-      updateInvoiceStatus.isPending ||
-      deleteInvoice.isPending,
+      deleteInvoice.isPending ||
+      recordPayment.isPending ||
+      deletePayment.isPending,
   }
 }
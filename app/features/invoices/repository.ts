@@ -92,6 +92,48 @@ export interface SaleForInvoice {
   totalAmount: string
 }
 
+/**
+ * Data for inserting an invoice payment
+ */
+export interface InvoicePaymentInsert {
+  invoiceId: string
+  amount: string
+  date: Date
+  method: Database['invoice_payments']['method']
+  reference: string | null
+  attachmentUrl: string | null
+  notes: string | null
+  recordedBy: string | null
+}
+
+/**
+ * Invoice payment as stored
+ */
+export interface InvoicePaymentRecord {
+  id: string
+  invoiceId: string
+  amount: string
+  date: Date
+  method: Database['invoice_payments']['method']
+  reference: string | null
+  attachmentUrl: string | null
+  notes: string | null
+  createdAt: Date
+}
+
+/**
+ * Unpaid or partially paid invoice with the amount received so far
+ */
+export interface OutstandingInvoice {
+  id: string
+  customerId: string
+  customerName: string
+  date: Date
+  dueDate: Date | null
+  totalAmount: string
+  amountPaid: string
+}
+
 /**
  * Filters for invoice queries
  */
@@ -238,7 +280,7 @@ export async function getInvoicesByFarm(
   db: Kysely<Database>,
   farmId: string,
 ): Promise<Array<InvoiceWithCustomer>> {
-  return (await db
+  return await db
     .selectFrom('invoices')
     .innerJoin('customers', 'customers.id', 'invoices.customerId')
     .select([
@@ -254,7 +296,7 @@ export async function getInvoicesByFarm(
     ])
     .where('invoices.farmId', '=', farmId)
     .orderBy('invoices.date', 'desc')
-    .execute()) as unknown as Array<InvoiceWithCustomer>
+    .execute()
 }
 
 /**
@@ -275,25 +317,6 @@ export async function getInvoiceItems(
     .execute()
 }
 
-/**
- * Update the payment status of an invoice.
- *
- * @param db - Kysely database instance
- * @param invoiceId - ID of the invoice to update
- * @param status - New payment status
- */
-export async function updateInvoiceStatus(
-  db: Kysely<Database>,
-  invoiceId: string,
-  status: 'unpaid' | 'partial' | 'paid',
-): Promise<void> {
-  await db
-    .updateTable('invoices')
-    .set({ status })
-    .where('id', '=', invoiceId)
-    .execute()
-}
-
 /**
  * Delete all invoice items for a specific invoice.
  * Must be called before deleting the invoice itself due to foreign key constraints.
@@ -458,3 +481,182 @@ export async function getInvoicesPaginated(
     totalPages,
   }
 }
+
+/**
+ * Lock an invoice row until the end of the transaction, so concurrent
+ * payments are summed one after another.
+ *
+ * @param db - Transaction handle
+ * @param invoiceId - Invoice ID
+ * @returns The invoice total, or null if not found
+ */
+export async function lockInvoiceForPayment(
+  db: Kysely<Database>,
+  invoiceId: string,
+): Promise<{ id: string; totalAmount: string } | null> {
+  const invoice = await db
+    .selectFrom('invoices')
+    .select(['id', 'totalAmount'])
+    .where('id', '=', invoiceId)
+    .forUpdate()
+    .executeTakeFirst()
+  return invoice ?? null
+}
+
+/**
+ * Insert a payment against an invoice.
+ *
+ * @param db - Kysely database instance
+ * @param data - Payment data to insert
+ * @returns The ID of the created payment
+ */
+export async function insertInvoicePayment(
+  db: Kysely<Database>,
+  data: InvoicePaymentInsert,
+): Promise<string> {
+  const result = await db
+    .insertInto('invoice_payments')
+    .values(data)
+    .returning('id')
+    .executeTakeFirstOrThrow()
+
+  return result.id
+}
+
+/**
+ * Get all payments recorded against an invoice, oldest first.
+ *
+ * @param db - Kysely database instance
+ * @param invoiceId - Invoice ID
+ * @returns Array of payments
+ */
+export async function getInvoicePayments(
+  db: Kysely<Database>,
+  invoiceId: string,
+): Promise<Array<InvoicePaymentRecord>> {
+  return await db
+    .selectFrom('invoice_payments')
+    .select([
+      'id',
+      'invoiceId',
+      'amount',
+      'date',
+      'method',
+      'reference',
+      'attachmentUrl',
+      'notes',
+      'createdAt',
+    ])
+    .where('invoiceId', '=', invoiceId)
+    .orderBy('date', 'asc')
+    .orderBy('createdAt', 'asc')
+    .execute()
+}
+
+/**
+ * Get a single invoice payment by ID.
+ *
+ * @param db - Kysely database instance
+ * @param paymentId - Payment ID
+ * @returns The payment or null if not found
+ */
+export async function getInvoicePaymentById(
+  db: Kysely<Database>,
+  paymentId: string,
+): Promise<InvoicePaymentRecord | null> {
+  const payment = await db
+    .selectFrom('invoice_payments')
+    .select([
+      'id',
+      'invoiceId',
+      'amount',
+      'date',
+      'method',
+      'reference',
+      'attachmentUrl',
+      'notes',
+      'createdAt',
+    ])
+    .where('id', '=', paymentId)
+    .executeTakeFirst()
+
+  return payment ?? null
+}
+
+/**
+ * Delete an invoice payment by ID.
+ *
+ * @param db - Kysely database instance
+ * @param paymentId - ID of the payment to delete
+ */
+export async function deleteInvoicePayment(
+  db: Kysely<Database>,
+  paymentId: string,
+): Promise<void> {
+  await db.deleteFrom('invoice_payments').where('id', '=', paymentId).execute()
+}
+
+/**
+ * Store the payment status and settlement date derived from an invoice's payments.
+ *
+ * @param db - Kysely database instance
+ * @param invoiceId - ID of the invoice to update
+ * @param status - Derived payment status
+ * @param paidDate - Date the invoice was fully paid, or null
+ */
+export async function updateInvoicePaymentState(
+  db: Kysely<Database>,
+  invoiceId: string,
+  status: 'unpaid' | 'partial' | 'paid',
+  paidDate: Date | null,
+): Promise<void> {
+  await db
+    .updateTable('invoices')
+    .set({ status, paidDate, updatedAt: new Date() })
+    .where('id', '=', invoiceId)
+    .execute()
+}
+
+/**
+ * Get unpaid and partially paid invoices with the amount paid so far.
+ * Used to build the aged receivables report.
+ *
+ * @param db - Kysely database instance
+ * @param farmIds - Farms to include
+ * @returns Outstanding invoices with customer names
+ */
+export async function getOutstandingInvoices(
+  db: Kysely<Database>,
+  farmIds: Array<string>,
+): Promise<Array<OutstandingInvoice>> {
+  const { sql } = await import('kysely')
+
+  return await db
+    .selectFrom('invoices')
+    .innerJoin('customers', 'customers.id', 'invoices.customerId')
+    .leftJoin(
+      (eb) =>
+        eb
+          .selectFrom('invoice_payments')
+          .select([
+            'invoice_payments.invoiceId',
+            sql<string>`sum(invoice_payments.amount)`.as('amountPaid'),
+          ])
+          .groupBy('invoice_payments.invoiceId')
+          .as('paid'),
+      (join) => join.onRef('paid.invoiceId', '=', 'invoices.id'),
+    )
+    .select([
+      'invoices.id',
+      'invoices.customerId',
+      'customers.name as customerName',
+      'invoices.date',
+      'invoices.dueDate',
+      'invoices.totalAmount',
+      sql<string>`coalesce(paid."amountPaid", 0)`.as('amountPaid'),
+    ])
+    .where('invoices.farmId', 'in', farmIds)
+    .where('invoices.status', 'in', ['unpaid', 'partial'])
+    .where('invoices.deletedAt', 'is', null)
+    .execute()
+}
@@ -1,26 +1,47 @@
 import { createServerFn } from '@tanstack/react-start'
 import { z } from 'zod'
 import {
+  calculateAgedReceivables,
+  calculateAmountPaid,
+  calculateBalanceDue,
   calculateInvoiceTotal,
+  deriveInvoiceStatus,
+  derivePaidDate,
   generateInvoiceNumber as generateInvoiceNumberService,
   transformInvoiceData,
   validateInvoiceData,
-  validateUpdateData,
+  validatePaymentData,
 } from './service'
 import {
   deleteInvoiceItems as deleteInvoiceItemsRepo,
+  deleteInvoicePayment as deleteInvoicePaymentRepo,
   deleteInvoice as deleteInvoiceRepo,
   getInvoiceById as getInvoiceByIdRepo,
   getInvoiceItems,
+  getInvoicePaymentById,
+  getInvoicePayments,
   getInvoicesByFarm,
   getInvoicesPaginated as getInvoicesPaginatedRepo,
   getLastInvoiceNumber,
+  getOutstandingInvoices,
   getSaleForInvoice,
   insertInvoice,
   insertInvoiceItems,
-  updateInvoiceStatus as updateInvoiceStatusRepo,
+  insertInvoicePayment,
+  lockInvoiceForPayment,
+  updateInvoicePaymentState,
 } from './repository'
-import type { CreateInvoiceInput, InvoiceQuery, PaginatedResult } from './types'
+import { PAYMENT_METHODS } from './types'
+import type {
+  AgedReceivablesRow,
+  CreateInvoiceInput,
+  InvoicePayment,
+  InvoiceQuery,
+  PaginatedResult,
+  RecordInvoicePaymentInput,
+} from './types'
+import type { Kysely } from 'kysely'
+import type { Database } from '~/lib/db/types'
 import { AppError } from '~/lib/errors'
 
 // Zod validation schemas
@@ -44,9 +65,18 @@ const getInvoiceByIdSchema = z.object({
   invoiceId: z.string().min(1, 'Invoice ID is required'),
 })
 
-const updateInvoiceStatusSchema = z.object({
-  invoiceId: z.string().min(1, 'Invoice ID is required'),
-  status: z.enum(['unpaid', 'partial', 'paid']),
+const recordInvoicePaymentSchema = z.object({
+  invoiceId: z.string().uuid(),
+  amount: z.number().positive('Amount must be positive'),
+  date: z.date(),
+  method: z.enum(PAYMENT_METHODS),
+  reference: z.string().max(100).optional().nullable(),
+  attachmentUrl: z.string().url().optional().nullable(),
+  notes: z.string().max(500).optional().nullable(),
+})
+
+const agedReceivablesSchema = z.object({
+  farmId: z.string().uuid().optional(),
 })
 
 const invoiceQuerySchema = z.object({
@@ -234,7 +264,10 @@ export async function getInvoiceById(userId: string, invoiceId: string) {
       })
     }
 
-    const items = await getInvoiceItems(db, invoiceId)
+    const [items, payments] = await Promise.all([
+      getInvoiceItems(db, invoiceId),
+      getInvoicePayments(db, invoiceId),
+    ])
 
     const fullInvoice = {
       ...invoice,
@@ -245,7 +278,17 @@ export async function getInvoiceById(userId: string, invoiceId: string) {
       })),
     }
 
-    return transformInvoiceData(fullInvoice as any)
+    const amountPaid = calculateAmountPaid(payments)
+
+    return {
+      ...transformInvoiceData(fullInvoice as any),
+      payments: payments.map((payment): InvoicePayment => ({
+        ...payment,
+        amount: parseFloat(payment.amount),
+      })),
+      amountPaid,
+      balanceDue: calculateBalanceDue(invoice.totalAmount, amountPaid),
+    }
   } catch (error) {
     if (error instanceof AppError) throw error
     throw new AppError('DATABASE_ERROR', { cause: error })
@@ -264,27 +307,97 @@ export const getInvoiceByIdFn = createServerFn({ method: 'GET' })
   })
 
 /**
- * Update the payment status of an invoice.
+ * Render an invoice as a PDF using the requesting user's currency and date settings.
+ *
+ * @param userId - ID of the user requesting the PDF
+ * @param invoiceId - ID of the invoice to render
+ * @returns Base64 encoded PDF with download metadata
+ */
+export async function getInvoicePdf(userId: string, invoiceId: string) {
+  const invoice = await getInvoiceById(userId, invoiceId)
+  if (!invoice) {
+    throw new AppError('INVOICE_NOT_FOUND', { metadata: { invoiceId } })
+  }
+
+  try {
+    const { getSettingsForUser } = await import('~/features/settings/server')
+    const { generateInvoicePDF, pdfToBase64 } = await import('~/lib/export/pdf')
+
+    const settings = await getSettingsForUser(userId)
+    const pdf = await generateInvoicePDF(invoice, settings)
+
+    return {
+      content: pdfToBase64(pdf),
+      filename: `${invoice.invoiceNumber}.pdf`,
+      mimeType: 'application/pdf',
+    }
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('INTERNAL_ERROR', {
+      message: 'Failed to generate invoice PDF',
+      cause: error,
+    })
+  }
+}
+
+/**
+ * Server function to download an invoice as a PDF.
+ */
+export const getInvoicePdfFn = createServerFn({ method: 'GET' })
+  .inputValidator(getInvoiceByIdSchema)
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+    return getInvoicePdf(session.user.id, data.invoiceId)
+  })
+
+/**
+ * Recalculate an invoice's status and paid date from its recorded payments.
  *
- * @param userId - ID of the user performing the update
+ * @param db - Database or transaction handle
  * @param invoiceId - ID of the invoice
- * @param status - New payment status (unpaid, partial, paid)
+ * @param totalAmount - Invoice total
  */
-export async function updateInvoiceStatus(
-  userId: string,
+async function syncInvoicePaymentState(
+  db: Kysely<Database>,
   invoiceId: string,
-  status: 'unpaid' | 'partial' | 'paid',
-) {
+  totalAmount: string,
+): Promise<void> {
+  const payments = await getInvoicePayments(db, invoiceId)
+  const status = deriveInvoiceStatus(totalAmount, calculateAmountPaid(payments))
+  await updateInvoicePaymentState(
+    db,
+    invoiceId,
+    status,
+    derivePaidDate(totalAmount, payments),
+  )
+}
+
+/**
+ * Record a payment received against an invoice.
+ * The invoice status (unpaid/partial/paid) and paid date are updated from the
+ * new payment total; payments larger than the outstanding balance are rejected.
+ *
+ * @param userId - ID of the user recording the payment
+ * @param input - Amount, date, method and optional reference/attachment
+ * @returns Promise resolving to the new payment ID
+ */
+export async function recordInvoicePayment(
+  userId: string,
+  input: RecordInvoicePaymentInput,
+): Promise<string> {
   const { getDb } = await import('~/lib/db')
   const db = await getDb()
   const { getUserFarms } = await import('~/features/auth/utils')
 
   try {
     const userFarms = await getUserFarms(userId)
-    const invoice = await getInvoiceByIdRepo(db, invoiceId)
+    const invoice = await getInvoiceByIdRepo(db, input.invoiceId)
 
     if (!invoice) {
-      throw new AppError('NOT_FOUND', { metadata: { invoiceId } })
+      throw new AppError('INVOICE_NOT_FOUND', {
+        metadata: { invoiceId: input.invoiceId },
+      })
     }
 
     if (!userFarms.includes(invoice.farmId)) {
@@ -293,33 +406,177 @@ export async function updateInvoiceStatus(
       })
     }
 
-    // Validate status
-    const validationError = validateUpdateData({ status })
-    if (validationError) {
-      throw new AppError('VALIDATION_ERROR', {
-        message: validationError,
+    return await db.transaction().execute(async (tx) => {
+      const locked = await lockInvoiceForPayment(tx, input.invoiceId)
+      if (!locked) {
+        throw new AppError('INVOICE_NOT_FOUND', {
+          metadata: { invoiceId: input.invoiceId },
+        })
+      }
+
+      const payments = await getInvoicePayments(tx, input.invoiceId)
+      const balanceDue = calculateBalanceDue(
+        locked.totalAmount,
+        calculateAmountPaid(payments),
+      )
+
+      const validationError = validatePaymentData(input, balanceDue)
+      if (validationError) {
+        throw new AppError(
+          input.amount > balanceDue && balanceDue > 0
+            ? 'PAYMENT_EXCEEDS_BALANCE'
+            : 'VALIDATION_ERROR',
+          {
+            message: validationError,
+            metadata: { invoiceId: input.invoiceId, balanceDue },
+          },
+        )
+      }
+
+      const paymentId = await insertInvoicePayment(tx, {
+        invoiceId: input.invoiceId,
+        amount: input.amount.toFixed(2),
+        date: input.date,
+        method: input.method,
+        reference: input.reference || null,
+        attachmentUrl: input.attachmentUrl || null,
+        notes: input.notes || null,
+        recordedBy: userId,
       })
+
+      await syncInvoicePaymentState(tx, input.invoiceId, locked.totalAmount)
+
+      return paymentId
+    })
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to record invoice payment',
+      cause: error,
+    })
+  }
+}
+
+/**
+ * Server function to record a payment against an invoice.
+ */
+export const recordInvoicePaymentFn = createServerFn({ method: 'POST' })
+  .inputValidator(recordInvoicePaymentSchema)
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+    return recordInvoicePayment(session.user.id, data)
+  })
+
+/**
+ * Remove a payment recorded in error and recalculate the invoice status.
+ *
+ * @param userId - ID of the user performing the deletion
+ * @param paymentId - ID of the payment to delete
+ */
+export async function deleteInvoicePayment(userId: string, paymentId: string) {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { getUserFarms } = await import('~/features/auth/utils')
+
+  try {
+    const payment = await getInvoicePaymentById(db, paymentId)
+    if (!payment) {
+      throw new AppError('INVOICE_PAYMENT_NOT_FOUND', {
+        metadata: { paymentId },
+      })
+    }
+
+    const invoice = await getInvoiceByIdRepo(db, payment.invoiceId)
+    if (!invoice) {
+      throw new AppError('INVOICE_NOT_FOUND', {
+        metadata: { invoiceId: payment.invoiceId },
+      })
+    }
+
+    const userFarms = await getUserFarms(userId)
+    if (!userFarms.includes(invoice.farmId)) {
+      throw new AppError('ACCESS_DENIED', {
+        metadata: { farmId: invoice.farmId },
+      })
+    }
+
+    await db.transaction().execute(async (tx) => {
+      await lockInvoiceForPayment(tx, invoice.id)
+      await deleteInvoicePaymentRepo(tx, paymentId)
+      await syncInvoicePaymentState(tx, invoice.id, invoice.totalAmount)
+    })
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to delete invoice payment',
+      cause: error,
+    })
+  }
+}
+
+/**
+ * Server function to delete an invoice payment.
+ */
+export const deleteInvoicePaymentFn = createServerFn({ method: 'POST' })
+  .inputValidator(z.object({ paymentId: z.string().uuid() }))
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+    return deleteInvoicePayment(session.user.id, data.paymentId)
+  })
+
+/**
+ * Build the aged receivables report: what each customer still owes,
+ * bucketed into current, 1-30, 31-60, 61-90 and 90+ days past due.
+ *
+ * @param userId - ID of the user requesting the report
+ * @param farmId - Optional farm filter (all of the user's farms otherwise)
+ * @returns Promise resolving to one row per customer with an outstanding balance
+ */
+export async function getAgedReceivables(
+  userId: string,
+  farmId?: string,
+): Promise<Array<AgedReceivablesRow>> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { checkFarmAccess, getUserFarms } =
+    await import('~/features/auth/utils')
+
+  try {
+    let targetFarmIds: Array<string> = []
+
+    if (farmId) {
+      const hasAccess = await checkFarmAccess(userId, farmId)
+      if (!hasAccess) {
+        throw new AppError('ACCESS_DENIED', { metadata: { farmId } })
+      }
+      targetFarmIds = [farmId]
+    } else {
+      targetFarmIds = await getUserFarms(userId)
+      if (targetFarmIds.length === 0) return []
     }
 
-    await updateInvoiceStatusRepo(db, invoiceId, status)
+    const invoices = await getOutstandingInvoices(db, targetFarmIds)
+    return calculateAgedReceivables(invoices)
   } catch (error) {
     if (error instanceof AppError) throw error
     throw new AppError('DATABASE_ERROR', {
-      message: 'Failed to update invoice status',
+      message: 'Failed to build aged receivables',
       cause: error,
     })
   }
 }
 
 /**
- * Server function to update invoice status.
+ * Server function to retrieve aged receivables per customer.
  */
-export const updateInvoiceStatusFn = createServerFn({ method: 'POST' })
-  .inputValidator(updateInvoiceStatusSchema)
+export const getAgedReceivablesFn = createServerFn({ method: 'GET' })
+  .inputValidator(agedReceivablesSchema)
   .handler(async ({ data }) => {
     const { requireAuth } = await import('~/features/auth/server-middleware')
     const session = await requireAuth()
-    return updateInvoiceStatus(session.user.id, data.invoiceId, data.status)
+    return getAgedReceivables(session.user.id, data.farmId)
   })
 
 /**
@@ -3,8 +3,19 @@
  * All functions are side-effect-free and easily unit testable.
  */
 
-import type { CreateInvoiceInput } from './types'
-import { multiply, toDbString, toNumber } from '~/features/settings/currency'
+import type {
+  AgedReceivablesRow,
+  CreateInvoiceInput,
+  RecordInvoicePaymentInput,
+} from './types'
+import {
+  compare,
+  multiply,
+  subtract,
+  sumAmounts,
+  toDbString,
+  toNumber,
+} from '~/features/settings/currency'
 
 /**
  * Line item for invoice calculations
@@ -223,22 +234,202 @@ export function validateInvoiceData(data: CreateInvoiceInput): string | null {
 }
 
 /**
- * Validate invoice update data.
- * Currently invoices are primarily status-updated after creation,
- * but this function is available for future extensibility.
+ * Sum the payments recorded against an invoice.
  *
- * @param data - Update data to validate
+ * @param payments - Payments with amounts as numbers or DECIMAL strings
+ * @returns Total amount paid
+ *
+ * @example
+ * ```ts
+ * calculateAmountPaid([{ amount: '100.00' }, { amount: 50.5 }]) // Returns: 150.5
+ * calculateAmountPaid([])                                     // Returns: 0
+ * ```
+ */
+export function calculateAmountPaid(
+  payments: Array<{ amount: string | number }>,
+): number {
+  return toNumber(sumAmounts(...payments.map((p) => p.amount)))
+}
+
+/**
+ * Calculate the amount still owed on an invoice. Never negative.
+ *
+ * @param totalAmount - Invoice total
+ * @param amountPaid - Sum of recorded payments
+ * @returns Outstanding balance
+ *
+ * @example
+ * ```ts
+ * calculateBalanceDue(1000, 400)  // Returns: 600
+ * calculateBalanceDue(1000, 1000) // Returns: 0
+ * ```
+ */
+export function calculateBalanceDue(
+  totalAmount: string | number,
+  amountPaid: string | number,
+): number {
+  const balance = subtract(totalAmount, amountPaid)
+  return balance.isNegative() ? 0 : toNumber(balance)
+}
+
+/**
+ * Derive an invoice's payment status from what has been paid against it.
+ *
+ * @param totalAmount - Invoice total
+ * @param amountPaid - Sum of recorded payments
+ * @returns 'unpaid' with no payments, 'paid' once the total is covered, otherwise 'partial'
+ *
+ * @example
+ * ```ts
+ * deriveInvoiceStatus(1000, 0)    // Returns: "unpaid"
+ * deriveInvoiceStatus(1000, 250)  // Returns: "partial"
+ * deriveInvoiceStatus(1000, 1000) // Returns: "paid"
+ * ```
+ */
+export function deriveInvoiceStatus(
+  totalAmount: string | number,
+  amountPaid: string | number,
+): 'unpaid' | 'partial' | 'paid' {
+  if (compare(amountPaid, 0) <= 0) return 'unpaid'
+  if (compare(amountPaid, totalAmount) >= 0) return 'paid'
+  return 'partial'
+}
+
+/**
+ * Date an invoice became fully paid: the latest payment date once payments
+ * cover the total, otherwise null.
+ *
+ * @param totalAmount - Invoice total
+ * @param payments - Recorded payments
+ * @returns Settlement date or null if a balance remains
+ */
+export function derivePaidDate(
+  totalAmount: string | number,
+  payments: Array<{ amount: string | number; date: Date }>,
+): Date | null {
+  if (
+    deriveInvoiceStatus(totalAmount, calculateAmountPaid(payments)) !== 'paid'
+  ) {
+    return null
+  }
+  return payments.reduce<Date | null>(
+    (latest, p) =>
+      latest === null || new Date(p.date) > latest ? new Date(p.date) : latest,
+    null,
+  )
+}
+
+/**
+ * Validate a payment before it is recorded.
+ * Returns validation error message or null if valid.
+ *
+ * @param data - Payment to validate
+ * @param balanceDue - Amount currently outstanding on the invoice
  * @returns Validation error message, or null if valid
+ *
+ * @example
+ * ```ts
+ * validatePaymentData({ invoiceId: 'inv-1', amount: 0, date, method: 'cash' }, 500)
+ * // Returns: "Payment amount must be greater than 0"
+ * ```
  */
-export function validateUpdateData(data: {
-  status?: 'unpaid' | 'partial' | 'paid'
-}): string | null {
-  if (data.status !== undefined) {
-    const validStatuses = ['unpaid', 'partial', 'paid']
-    if (!validStatuses.includes(data.status)) {
-      return `Status must be one of: ${validStatuses.join(', ')}`
-    }
+export function validatePaymentData(
+  data: Pick<RecordInvoicePaymentInput, 'amount' | 'date'>,
+  balanceDue: number,
+): string | null {
+  if (data.amount <= 0) {
+    return 'Payment amount must be greater than 0'
+  }
+
+  if (balanceDue <= 0) {
+    return 'Invoice is already fully paid'
+  }
+
+  if (compare(data.amount, balanceDue) > 0) {
+    return `Payment amount exceeds the outstanding balance of ${balanceDue}`
+  }
+
+  if (new Date(data.date).getTime() > Date.now()) {
+    return 'Payment date cannot be in the future'
   }
 
   return null
 }
+
+/**
+ * Aging bucket for an outstanding invoice.
+ */
+export type AgingBucket =
+  'current' | 'days1to30' | 'days31to60' | 'days61to90' | 'over90'
+
+/**
+ * Place an invoice in an aging bucket by how many days it is past due.
+ * Invoices without a due date age from their issue date.
+ *
+ * @param dueDate - Due date, or the issue date when no due date was set
+ * @param asOf - Reference date (usually today)
+ * @returns Aging bucket key
+ *
+ * @example
+ * ```ts
+ * getAgingBucket(new Date('2025-01-01'), new Date('2025-01-20')) // Returns: "days1to30"
+ * getAgingBucket(new Date('2025-01-01'), new Date('2025-04-15')) // Returns: "over90"
+ * ```
+ */
+export function getAgingBucket(dueDate: Date, asOf: Date): AgingBucket {
+  const msPerDay = 24 * 60 * 60 * 1000
+  const daysPastDue = Math.floor(
+    (asOf.getTime() - new Date(dueDate).getTime()) / msPerDay,
+  )
+
+  if (daysPastDue <= 0) return 'current'
+  if (daysPastDue <= 30) return 'days1to30'
+  if (daysPastDue <= 60) return 'days31to60'
+  if (daysPastDue <= 90) return 'days61to90'
+  return 'over90'
+}
+
+/**
+ * Build an aged receivables summary: outstanding balances per customer,
+ * split into current, 1-30, 31-60, 61-90 and 90+ days past due.
+ *
+ * @param invoices - Unpaid and partially paid invoices with amount paid so far
+ * @param asOf - Reference date (defaults to now)
+ * @returns One row per customer with a balance, largest total first
+ */
+export function calculateAgedReceivables(
+  invoices: Array<{
+    customerId: string
+    customerName: string
+    date: Date
+    dueDate: Date | null
+    totalAmount: string | number
+    amountPaid: string | number
+  }>,
+  asOf: Date = new Date(),
+): Array<AgedReceivablesRow> {
+  const rows = new Map<string, AgedReceivablesRow>()
+
+  for (const invoice of invoices) {
+    const balance = calculateBalanceDue(invoice.totalAmount, invoice.amountPaid)
+    if (balance <= 0) continue
+
+    const row = rows.get(invoice.customerId) ?? {
+      customerId: invoice.customerId,
+      customerName: invoice.customerName,
+      current: 0,
+      days1to30: 0,
+      days31to60: 0,
+      days61to90: 0,
+      over90: 0,
+      total: 0,
+    }
+
+    const bucket = getAgingBucket(invoice.dueDate ?? invoice.date, asOf)
+    row[bucket] = toNumber(sumAmounts(row[bucket], balance))
+    row.total = toNumber(sumAmounts(row.total, balance))
+    rows.set(invoice.customerId, row)
+  }
+
+  return [...rows.values()].sort((a, b) => b.total - a.total)
+}
@@ -1,4 +1,5 @@
 import type { BasePaginatedQuery, PaginatedResult } from '~/lib/types'
+import type { SaleTable } from '~/lib/db/types'
 
 export type { PaginatedResult }
 
@@ -77,3 +78,72 @@ export interface Invoice {
   totalAmount: number
   status: 'paid' | 'partial' | 'unpaid'
 }
+
+/**
+ * How an invoice payment was received. Same set as sale payment methods.
+ */
+export type PaymentMethod = NonNullable<SaleTable['paymentMethod']>
+
+/**
+ * Payment methods in the order they are offered in forms.
+ */
+export const PAYMENT_METHODS = [
+  'cash',
+  'transfer',
+  'mobile_money',
+  'check',
+  'card',
+  'credit',
+] as const satisfies ReadonlyArray<PaymentMethod>
+
+/**
+ * A payment recorded against an invoice.
+ */
+export interface InvoicePayment {
+  id: string
+  invoiceId: string
+  /** Amount received */
+  amount: number
+  /** Date the money was received */
+  date: Date
+  method: PaymentMethod
+  /** Bank/mobile money transaction ID or cheque number */
+  reference: string | null
+  /** URL of the uploaded proof of payment */
+  attachmentUrl: string | null
+  notes: string | null
+  createdAt: Date
+}
+
+/**
+ * Data structure for recording a payment against an invoice.
+ */
+export interface RecordInvoicePaymentInput {
+  invoiceId: string
+  amount: number
+  date: Date
+  method: PaymentMethod
+  reference?: string | null
+  attachmentUrl?: string | null
+  notes?: string | null
+}
+
+/**
+ * Outstanding balances for one customer, split by how far past due they are.
+ */
+export interface AgedReceivablesRow {
+  customerId: string
+  customerName: string
+  /** Not yet due (or no due date and issued today) */
+  current: number
+  /** 1-30 days past due */
+  days1to30: number
+  /** 31-60 days past due */
+  days31to60: number
+  /** 61-90 days past due */
+  days61to90: number
+  /** More than 90 days past due */
+  over90: number
+  /** Sum of all buckets */
+  total: number
+}
@@ -0,0 +1,137 @@
+/**
+ * Registry of scheduled background jobs.
+ *
+ * Every job the Worker's `scheduled` handler runs is declared here with the
+ * cron expression that triggers it. Cloudflare fires one trigger every 15
+ * minutes (`triggers.crons` in wrangler.jsonc), so schedules must land on a
+ * quarter hour.
+ */
+
+import type { JobName, JobResult } from './types'
+import type { Kysely } from 'kysely'
+import type { Database } from '~/lib/db/types'
+
+/**
+ * A background job the scheduler can run
+ */
+export interface JobDefinition {
+  name: JobName
+  description: string
+  /** Cron expression that triggers the job */
+  schedule: string
+  /** Do the work; throw to mark the run as failed */
+  run: (db: Kysely<Database>, now: Date) => Promise<JobResult>
+}
+
+/** Days ahead to warn sellers that a marketplace listing will expire */
+const LISTING_EXPIRY_WARNING_DAYS = 3
+
+export const JOBS: ReadonlyArray<JobDefinition> = [
+  {
+    name: 'expire-access',
+    description: 'Expire extension access grants and stale access requests',
+    schedule: '0 */6 * * *',
+    run: async (db) => {
+      const { expireAccessGrants, expireAccessRequests } =
+        await import('~/features/extension/scheduled')
+      return {
+        grantsExpired: await expireAccessGrants(db),
+        requestsExpired: await expireAccessRequests(db),
+      }
+    },
+  },
+  {
+    name: 'access-expiry-warnings',
+    description: 'Warn extension agents about access grants expiring soon',
+    schedule: '0 0 * * *',
+    run: async (db) => {
+      const { sendExpirationWarnings } =
+        await import('~/features/extension/scheduled')
+      return { warningsSent: await sendExpirationWarnings(db) }
+    },
+  },
+  {
+    name: 'outbreak-detection',
+    description: 'Raise district outbreak alerts from mortality data',
+    schedule: '0 9 * * *',
+    run: async (db) => {
+      const { runOutbreakDetectionTask } =
+        await import('~/features/extension/scheduled')
+      return { alertsCreated: await runOutbreakDetectionTask(db) }
+    },
+  },
+  {
+    name: 'sensor-aggregation',
+    description: 'Roll sensor readings up into hourly and daily aggregates',
+    schedule: '0 * * * *',
+    run: async (db) => {
+      const { handleAggregationCron } =
+        await import('~/features/sensors/aggregation-cron')
+      const result = await handleAggregationCron(db)
+      if (!result.success) {
+        throw new Error(result.error ?? 'Sensor aggregation failed')
+      }
+      return {
+        hourlyAggregated: result.hourlyAggregation.aggregated,
+        dailyAggregated: result.dailyAggregation?.aggregated ?? null,
+      }
+    },
+  },
+  {
+    name: 'sensor-retention',
+    description:
+      'Archive expired raw sensor readings to storage and prune old sensor data',
+    schedule: '0 2 * * *',
+    run: async (db, now) => {
+      const { applyRetentionPolicies } =
+        await import('~/features/sensors/retention-processor')
+      return { ...(await applyRetentionPolicies(db, now)) }
+    },
+  },
+  {
+    name: 'sensor-alert-escalation',
+    description:
+      'Re-send unacknowledged critical sensor alerts to farm owners and managers',
+    schedule: '*/15 * * * *',
+    run: async (db, now) => {
+      const { escalateUnacknowledgedAlerts } =
+        await import('~/features/sensors/alert-processor')
+      return { alertsEscalated: await escalateUnacknowledgedAlerts(db, now) }
+    },
+  },
+  {
+    name: 'farm-notifications',
+    description:
+      'Notify farm users about low stock, invoices due and batches near harvest',
+    schedule: '0 6 * * *',
+    run: async (db) => {
+      const { getUserIdsWithFarms } = await import('./repository')
+      const {
+        checkBatchHarvestNotifications,
+        checkInvoiceDueNotifications,
+        checkLowStockNotifications,
+      } = await import('~/features/notifications/schedulers')
+
+      const userIds = await getUserIdsWithFarms(db)
+      let lowStock = 0
+      let invoicesDue = 0
+      let batchHarvest = 0
+      for (const userId of userIds) {
+        lowStock += await checkLowStockNotifications(userId)
+        invoicesDue += await checkInvoiceDueNotifications(userId)
+        batchHarvest += await checkBatchHarvestNotifications(userId)
+      }
+      return { users: userIds.length, lowStock, invoicesDue, batchHarvest }
+    },
+  },
+  {
+    name: 'expiring-listings',
+    description: 'Remind sellers that their marketplace listings expire soon',
+    schedule: '0 8 * * *',
+    run: async () => {
+      const { checkExpiringListings } =
+        await import('~/features/marketplace/server')
+      return checkExpiringListings(LISTING_EXPIRY_WARNING_DAYS)
+    },
+  },
+]
@@ -0,0 +1,140 @@
+/**
+ * Database operations for scheduled job run history.
+ * All functions are pure data access - no business logic.
+ */
+
+import type { Kysely } from 'kysely'
+import type { JobResult, JobRun, JobRunStatus, JobTrigger } from './types'
+import type { Database } from '~/lib/db/types'
+
+/**
+ * Data for recording the start of a job run
+ */
+export interface JobRunInsert {
+  jobName: string
+  trigger: JobTrigger
+  cron: string | null
+  triggeredBy: string | null
+  startedAt: Date
+}
+
+/**
+ * Data for recording how a job run ended
+ */
+export interface JobRunCompletion {
+  status: Exclude<JobRunStatus, 'running'>
+  finishedAt: Date
+  durationMs: number
+  result: JobResult | null
+  error: string | null
+}
+
+/**
+ * Record the start of a job run
+ *
+ * @param db - Kysely database instance
+ * @param data - Run details
+ * @returns ID of the new run
+ */
+export async function insertJobRun(
+  db: Kysely<Database>,
+  data: JobRunInsert,
+): Promise<string> {
+  const result = await db
+    .insertInto('job_runs')
+    .values({ ...data, status: 'running' })
+    .returning('id')
+    .executeTakeFirstOrThrow()
+  return result.id
+}
+
+/**
+ * Record how a job run ended
+ *
+ * @param db - Kysely database instance
+ * @param id - ID of the run
+ * @param data - Outcome of the run
+ */
+export async function completeJobRun(
+  db: Kysely<Database>,
+  id: string,
+  data: JobRunCompletion,
+): Promise<void> {
+  await db.updateTable('job_runs').set(data).where('id', '=', id).execute()
+}
+
+function selectJobRuns(db: Kysely<Database>) {
+  return db
+    .selectFrom('job_runs')
+    .leftJoin('users', 'users.id', 'job_runs.triggeredBy')
+    .select([
+      'job_runs.id',
+      'job_runs.jobName',
+      'job_runs.trigger',
+      'job_runs.cron',
+      'job_runs.triggeredBy',
+      'users.name as triggeredByName',
+      'job_runs.status',
+      'job_runs.startedAt',
+      'job_runs.finishedAt',
+      'job_runs.durationMs',
+      'job_runs.result',
+      'job_runs.error',
+    ])
+}
+
+/**
+ * Get the most recent run of every job that has run
+ *
+ * @param db - Kysely database instance
+ * @returns One run per job name
+ */
+export async function getLatestJobRuns(
+  db: Kysely<Database>,
+): Promise<Array<JobRun>> {
+  const runs = await selectJobRuns(db)
+    .distinctOn('job_runs.jobName')
+    .orderBy('job_runs.jobName')
+    .orderBy('job_runs.startedAt', 'desc')
+    .execute()
+  return runs as Array<JobRun>
+}
+
+/**
+ * Get recent job runs, newest first
+ *
+ * @param db - Kysely database instance
+ * @param options - Optional job name filter and row limit
+ * @returns Job runs
+ */
+export async function getRecentJobRuns(
+  db: Kysely<Database>,
+  options: { jobName?: string; limit: number },
+): Promise<Array<JobRun>> {
+  let query = selectJobRuns(db)
+  if (options.jobName) {
+    query = query.where('job_runs.jobName', '=', options.jobName)
+  }
+  const runs = await query
+    .orderBy('job_runs.startedAt', 'desc')
+    .limit(options.limit)
+    .execute()
+  return runs as Array<JobRun>
+}
+
+/**
+ * Get every user assigned to at least one farm
+ *
+ * @param db - Kysely database instance
+ * @returns User IDs
+ */
+export async function getUserIdsWithFarms(
+  db: Kysely<Database>,
+): Promise<Array<string>> {
+  const rows = await db
+    .selectFrom('user_farms')
+    .select('userId')
+    .distinct()
+    .execute()
+  return rows.map((row) => row.userId)
+}
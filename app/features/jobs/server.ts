@@ -0,0 +1,216 @@
+import { createServerFn } from '@tanstack/react-start'
+import { z } from 'zod'
+import { JOBS } from './registry'
+import {
+  buildJobStatuses,
+  formatJobError,
+  getJobsDueAt,
+  isJobRunActive,
+} from './service'
+import { JOB_NAMES } from './types'
+import type { JobDefinition } from './registry'
+import type { JobName, JobResult, JobRun, JobStatus, JobTrigger } from './types'
+import { AppError } from '~/lib/errors'
+
+/** Runs shown in the admin page's history table */
+const RECENT_RUNS_LIMIT = 50
+
+/**
+ * Outcome of a single job run
+ */
+export interface JobRunOutcome {
+  runId: string
+  jobName: JobName
+  status: 'success' | 'failed'
+  durationMs: number
+  result: JobResult | null
+  error: string | null
+}
+
+/**
+ * Minimal shape of a Cloudflare ScheduledController
+ */
+export interface ScheduledEvent {
+  cron: string
+  scheduledTime: number
+}
+
+/**
+ * Run a job and record the run in the history. Job failures are recorded,
+ * not thrown, so one failing job never stops the others.
+ *
+ * @param job - Job to run
+ * @param trigger - Whether the run was scheduled or started by hand
+ * @param options - Schedule the job ran on or triggering user
+ * @returns Outcome of the run
+ */
+export async function runJob(
+  job: JobDefinition,
+  trigger: JobTrigger,
+  options: { cron?: string; triggeredBy?: string } = {},
+): Promise<JobRunOutcome> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { insertJobRun, completeJobRun } = await import('./repository')
+
+  const startedAt = new Date()
+  const runId = await insertJobRun(db, {
+    jobName: job.name,
+    trigger,
+    cron: options.cron ?? null,
+    triggeredBy: options.triggeredBy ?? null,
+    startedAt,
+  })
+
+  let result: JobResult | null = null
+  let error: string | null = null
+  try {
+    result = await job.run(db, startedAt)
+  } catch (err) {
+    error = formatJobError(err)
+    const { error: logError } = await import('~/lib/logger')
+    logError(`Job ${job.name} failed`, err, { runId })
+  }
+
+  const finishedAt = new Date()
+  const outcome: JobRunOutcome = {
+    runId,
+    jobName: job.name,
+    status: error ? 'failed' : 'success',
+    durationMs: finishedAt.getTime() - startedAt.getTime(),
+    result,
+    error,
+  }
+
+  await completeJobRun(db, runId, {
+    status: outcome.status,
+    finishedAt,
+    durationMs: outcome.durationMs,
+    result,
+    error,
+  })
+
+  return outcome
+}
+
+/**
+ * Worker `scheduled` handler. A single trigger fires every 15 minutes; each
+ * firing runs, one after another, every job whose schedule matches the time
+ * the trigger was due.
+ *
+ * @param event - Scheduled event from the Workers runtime
+ * @returns Outcomes of the jobs that ran
+ */
+export async function handleScheduledJobs(
+  event: ScheduledEvent,
+): Promise<Array<JobRunOutcome>> {
+  const scheduledTime = new Date(event.scheduledTime)
+  const jobs = getJobsDueAt(JOBS, scheduledTime)
+
+  if (jobs.length === 0) {
+    const { warn } = await import('~/lib/logger')
+    warn(`No jobs due at ${scheduledTime.toISOString()}`, { cron: event.cron })
+    return []
+  }
+
+  const outcomes: Array<JobRunOutcome> = []
+  for (const job of jobs) {
+    outcomes.push(await runJob(job, 'cron', { cron: job.schedule }))
+  }
+  return outcomes
+}
+
+/**
+ * Get every registered job with its last run, plus recent run history
+ *
+ * @param jobName - Optional filter for the run history
+ * @returns Job statuses and recent runs
+ */
+export async function getJobsOverview(jobName?: JobName): Promise<{
+  jobs: Array<JobStatus>
+  runs: Array<JobRun>
+}> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { getLatestJobRuns, getRecentJobRuns } = await import('./repository')
+
+  try {
+    const [lastRuns, runs] = await Promise.all([
+      getLatestJobRuns(db),
+      getRecentJobRuns(db, { jobName, limit: RECENT_RUNS_LIMIT }),
+    ])
+
+    return {
+      jobs: buildJobStatuses(JOBS, lastRuns, new Date()),
+      runs,
+    }
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to fetch scheduled jobs',
+      cause: error,
+    })
+  }
+}
+
+/**
+ * Run a job immediately on behalf of an admin
+ *
+ * @param userId - ID of the admin triggering the job
+ * @param jobName - Job to run
+ * @returns Outcome of the run
+ * @throws {AppError} JOB_NOT_FOUND if the job is not registered
+ * @throws {AppError} JOB_ALREADY_RUNNING if a run is still in progress
+ */
+export async function triggerJob(
+  userId: string,
+  jobName: JobName,
+): Promise<JobRunOutcome> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { getRecentJobRuns } = await import('./repository')
+
+  try {
+    const job = JOBS.find((j) => j.name === jobName)
+    if (!job) {
+      throw new AppError('JOB_NOT_FOUND', { metadata: { jobName } })
+    }
+
+    const recentRuns = await getRecentJobRuns(db, { jobName, limit: 1 })
+    if (recentRuns.length > 0 && isJobRunActive(recentRuns[0], new Date())) {
+      throw new AppError('JOB_ALREADY_RUNNING', {
+        metadata: { jobName, runId: recentRuns[0].id },
+      })
+    }
+
+    return await runJob(job, 'manual', { triggeredBy: userId })
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to run job',
+      cause: error,
+    })
+  }
+}
+
+/**
+ * Server function to get jobs and run history for the admin page
+ */
+export const getJobsOverviewFn = createServerFn({ method: 'GET' })
+  .inputValidator(z.object({ jobName: z.enum(JOB_NAMES).optional() }))
+  .handler(async ({ data }) => {
+    const { requireAdmin } = await import('~/features/auth/server-middleware')
+    await requireAdmin()
+    return getJobsOverview(data.jobName)
+  })
+
+/**
+ * Server function to run a job manually
+ */
+export const triggerJobFn = createServerFn({ method: 'POST' })
+  .inputValidator(z.object({ jobName: z.enum(JOB_NAMES) }))
+  .handler(async ({ data }) => {
+    const { requireAdmin } = await import('~/features/auth/server-middleware')
+    const { session } = await requireAdmin()
+    return triggerJob(session.user.id, data.jobName)
+  })
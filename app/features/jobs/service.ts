@@ -0,0 +1,242 @@
+/**
+ * Pure business logic for scheduled jobs.
+ * All functions are side-effect-free and easily unit testable.
+ */
+
+import type { JobHealth, JobResult, JobRun, JobStatus } from './types'
+import type { JobDefinition } from './registry'
+
+/**
+ * Longest a run may stay 'running' before it is assumed to have died with
+ * its Worker invocation (Cloudflare caps cron invocations at 15 minutes)
+ */
+export const JOB_RUN_TIMEOUT_MS = 15 * 60 * 1000
+
+/** Longest error message kept in the run history */
+const MAX_ERROR_LENGTH = 2000
+
+/** Allowed values of each cron field: minute, hour, day of month, month, day of week */
+const CRON_FIELD_RANGES: ReadonlyArray<readonly [number, number]> = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+]
+
+/**
+ * Whether one cron field allows a value. Supports `*`, single values,
+ * ranges (`1-5`), lists (`0,30`) and steps on any of them.
+ */
+function cronFieldMatches(
+  field: string,
+  value: number,
+  [min, max]: readonly [number, number],
+): boolean {
+  return field.split(',').some((part) => {
+    const [range, ...stepParts] = part.split('/')
+    const hasStep = stepParts.length > 0
+    const step = hasStep ? Number(stepParts.join('/')) : 1
+    let start = min
+    let end = max
+    if (range !== '*') {
+      const bounds = range.split('-').map(Number)
+      start = bounds[0]
+      end = bounds.length > 1 ? bounds[1] : hasStep ? max : start
+    }
+    if (![start, end, step].every(Number.isInteger) || step < 1) return false
+    return value >= start && value <= end && (value - start) % step === 0
+  })
+}
+
+/**
+ * Whether a five-field cron expression fires at a time (UTC, to the minute).
+ * Like cron, a restricted day of month and day of week match if either does.
+ *
+ * @param expression - Cron expression
+ * @param time - Time to check
+ * @returns True if the expression fires at that minute
+ *
+ * @example
+ * ```ts
+ * cronMatches('0 9 * * *', new Date('2026-03-01T09:00:00Z')) // Returns: true
+ * cronMatches('0 9 * * *', new Date('2026-03-01T09:15:00Z')) // Returns: false
+ * ```
+ */
+export function cronMatches(expression: string, time: Date): boolean {
+  const fields = expression.trim().split(/\s+/)
+  if (fields.length !== 5) return false
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields
+  const [minuteRange, hourRange, domRange, monthRange, dowRange] =
+    CRON_FIELD_RANGES
+
+  const dayOfWeekValue = time.getUTCDay()
+  const domMatches = cronFieldMatches(dayOfMonth, time.getUTCDate(), domRange)
+  const dowMatches =
+    cronFieldMatches(dayOfWeek, dayOfWeekValue, dowRange) ||
+    (dayOfWeekValue === 0 && cronFieldMatches(dayOfWeek, 7, dowRange))
+  const dayMatches =
+    dayOfMonth !== '*' && dayOfWeek !== '*'
+      ? domMatches || dowMatches
+      : domMatches && dowMatches
+
+  return (
+    cronFieldMatches(minute, time.getUTCMinutes(), minuteRange) &&
+    cronFieldMatches(hour, time.getUTCHours(), hourRange) &&
+    cronFieldMatches(month, time.getUTCMonth() + 1, monthRange) &&
+    dayMatches
+  )
+}
+
+/**
+ * Select the jobs due when the scheduler fires
+ *
+ * @param jobs - Registered jobs
+ * @param scheduledTime - Time the scheduler trigger was due
+ * @returns Jobs whose schedule fires at that minute, in registry order
+ *
+ * @example
+ * ```ts
+ * getJobsDueAt(JOBS, new Date('2026-03-01T09:00:00Z'))
+ * // Returns: [outbreak-detection, sensor-aggregation, sensor-alert-escalation]
+ * ```
+ */
+export function getJobsDueAt<T extends Pick<JobDefinition, 'schedule'>>(
+  jobs: ReadonlyArray<T>,
+  scheduledTime: Date,
+): Array<T> {
+  return jobs.filter((job) => cronMatches(job.schedule, scheduledTime))
+}
+
+/**
+ * Whether a run is still genuinely in progress
+ *
+ * @param run - Job run
+ * @param now - Current time
+ * @returns True if running and not yet timed out
+ *
+ * @example
+ * ```ts
+ * isJobRunActive({ status: 'running', startedAt: new Date() }, new Date())
+ * // Returns: true
+ * ```
+ */
+export function isJobRunActive(
+  run: Pick<JobRun, 'status' | 'startedAt'>,
+  now: Date,
+): boolean {
+  return (
+    run.status === 'running' &&
+    now.getTime() - new Date(run.startedAt).getTime() < JOB_RUN_TIMEOUT_MS
+  )
+}
+
+/**
+ * Determine a job's health from its most recent run. A run left 'running'
+ * past the timeout counts as failed.
+ *
+ * @param lastRun - Most recent run, or null if the job never ran
+ * @param now - Current time
+ * @returns Job health
+ *
+ * @example
+ * ```ts
+ * getJobHealth(null, new Date()) // Returns: 'never_run'
+ * ```
+ */
+export function getJobHealth(
+  lastRun: Pick<JobRun, 'status' | 'startedAt'> | null,
+  now: Date,
+): JobHealth {
+  if (!lastRun) return 'never_run'
+  if (lastRun.status === 'running') {
+    return isJobRunActive(lastRun, now) ? 'running' : 'failed'
+  }
+  return lastRun.status
+}
+
+/**
+ * Pair each registered job with its most recent run
+ *
+ * @param jobs - Registered jobs
+ * @param lastRuns - Most recent run per job name
+ * @param now - Current time
+ * @returns Job statuses in registry order
+ */
+export function buildJobStatuses(
+  jobs: ReadonlyArray<Pick<JobDefinition, 'name' | 'description' | 'schedule'>>,
+  lastRuns: ReadonlyArray<JobRun>,
+  now: Date,
+): Array<JobStatus> {
+  const byName = new Map(lastRuns.map((run) => [run.jobName, run]))
+
+  return jobs.map((job) => {
+    const lastRun = byName.get(job.name) ?? null
+    return {
+      name: job.name,
+      description: job.description,
+      schedule: job.schedule,
+      health: getJobHealth(lastRun, now),
+      lastRun,
+    }
+  })
+}
+
+/**
+ * Turn a thrown value into an error message for the run history
+ *
+ * @param error - Thrown value
+ * @returns Message, truncated to a storable length
+ *
+ * @example
+ * ```ts
+ * formatJobError(new Error('Connection refused')) // Returns: 'Connection refused'
+ * ```
+ */
+export function formatJobError(error: unknown): string {
+  const message =
+    error instanceof Error ? error.message : String(error ?? 'Unknown error')
+  return message.length > MAX_ERROR_LENGTH
+    ? `${message.slice(0, MAX_ERROR_LENGTH - 1)}…`
+    : message
+}
+
+/**
+ * Format a run duration for display
+ *
+ * @param durationMs - Duration in milliseconds
+ * @returns Short human-readable duration
+ *
+ * @example
+ * ```ts
+ * formatJobDuration(850) // Returns: '850 ms'
+ * formatJobDuration(12300) // Returns: '12.3 s'
+ * formatJobDuration(125000) // Returns: '2m 5s'
+ * ```
+ */
+export function formatJobDuration(durationMs: number): string {
+  if (durationMs < 1000) return `${Math.round(durationMs)} ms`
+  if (durationMs < 60_000) return `${(durationMs / 1000).toFixed(1)} s`
+  const totalSeconds = Math.round(durationMs / 1000)
+  return `${Math.floor(totalSeconds / 60)}m ${totalSeconds % 60}s`
+}
+
+/**
+ * Summarize a job's reported result as "key: value" pairs
+ *
+ * @param result - Result reported by the job
+ * @returns Comma-separated summary, or an empty string
+ *
+ * @example
+ * ```ts
+ * formatJobResult({ grantsExpired: 2, requestsExpired: 0 })
+ * // Returns: 'grantsExpired: 2, requestsExpired: 0'
+ * ```
+ */
+export function formatJobResult(result: JobResult | null): string {
+  if (!result) return ''
+  return Object.entries(result)
+    .filter(([, value]) => value !== null)
+    .map(([key, value]) => `${key}: ${value}`)
+    .join(', ')
+}
@@ -0,0 +1,71 @@
+/**
+ * Types for scheduled background jobs and their run history
+ */
+
+import type { JobRunTable } from '~/lib/db/types'
+
+/**
+ * How a job run was started
+ */
+export type JobTrigger = JobRunTable['trigger']
+
+/**
+ * Outcome of a job run
+ */
+export type JobRunStatus = 'running' | 'success' | 'failed'
+
+/**
+ * Last-run health of a job, as shown on the admin page
+ */
+export type JobHealth = JobRunStatus | 'never_run'
+
+/**
+ * Counts and facts a job reports about its run
+ */
+export type JobResult = Record<string, number | string | boolean | null>
+
+/**
+ * Names of all registered jobs
+ */
+export const JOB_NAMES = [
+  'expire-access',
+  'access-expiry-warnings',
+  'outbreak-detection',
+  'sensor-aggregation',
+  'sensor-retention',
+  'sensor-alert-escalation',
+  'farm-notifications',
+  'expiring-listings',
+] as const
+
+export type JobName = (typeof JOB_NAMES)[number]
+
+/**
+ * A job run as stored in the history
+ */
+export interface JobRun {
+  id: string
+  jobName: string
+  trigger: JobTrigger
+  cron: string | null
+  triggeredBy: string | null
+  triggeredByName: string | null
+  status: JobRunStatus
+  startedAt: Date
+  finishedAt: Date | null
+  durationMs: number | null
+  result: JobResult | null
+  error: string | null
+}
+
+/**
+ * A registered job with its most recent run
+ */
+export interface JobStatus {
+  name: JobName
+  description: string
+  /** Cron expression the job is scheduled on */
+  schedule: string
+  health: JobHealth
+  lastRun: JobRun | null
+}
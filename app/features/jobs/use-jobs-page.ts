@@ -0,0 +1,50 @@
+import { useState } from 'react'
+import { useNavigate, useRouter } from '@tanstack/react-router'
+import { toast } from 'sonner'
+import { useTranslation } from 'react-i18next'
+import { triggerJobFn } from './server'
+import type { JobName } from './types'
+
+interface UseJobsPageProps {
+  routePath: string
+}
+
+export function useJobsPage({ routePath }: UseJobsPageProps) {
+  const { t } = useTranslation(['jobs', 'common'])
+  const navigate = useNavigate({ from: routePath as any })
+  const router = useRouter()
+
+  const [runningJob, setRunningJob] = useState<JobName | null>(null)
+
+  const setJobFilter = (jobName: JobName | undefined) => {
+    navigate({
+      // @ts-ignore - Type limitation
+      search: { jobName },
+    })
+  }
+
+  const handleRunJob = async (jobName: JobName) => {
+    setRunningJob(jobName)
+    try {
+      const outcome = await triggerJobFn({ data: { jobName } })
+      if (outcome.status === 'success') {
+        toast.success(t('jobs:runSucceeded', { name: jobName }))
+      } else {
+        toast.error(
+          `${t('jobs:runFailed', { name: jobName })}: ${outcome.error ?? ''}`,
+        )
+      }
+      await router.invalidate()
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : t('jobs:runFailed', { name: jobName }),
+      )
+    } finally {
+      setRunningJob(null)
+    }
+  }
+
+  return { runningJob, setJobFilter, handleRunJob }
+}
@@ -1,5 +1,6 @@
 import { createServerFn } from '@tanstack/react-start'
 import { z } from 'zod'
+import type { ActiveWithdrawal } from '~/features/vaccinations/types'
 import { AppError } from '~/lib/errors'
 
 // Zod validation schemas
@@ -25,6 +26,14 @@ const createListingSchema = z.object({
   contactMethod: z.enum(['phone', 'whatsapp', 'both']),
   contactPhone: z.string().min(1).max(20),
   isNegotiable: z.boolean().default(true),
+  batchId: z.string().uuid().optional().nullable(),
+  withdrawalOverrideReason: z
+    .string()
+    .trim()
+    .min(1)
+    .max(500)
+    .optional()
+    .nullable(),
 })
 
 const getListingsSchema = z.object({
@@ -76,6 +85,28 @@ export const createListingFn = createServerFn({ method: 'POST' })
         })
       }
 
+      // Listings of a batch must wait out its treatment withdrawal periods
+      let withdrawal: ActiveWithdrawal | null = null
+      if (data.batchId) {
+        const { getBatchById } = await import('~/features/batches/repository')
+        const { verifyFarmAccess } = await import('~/features/auth/utils')
+        const { assertWithdrawalCleared } =
+          await import('~/features/vaccinations/server')
+
+        const batch = await getBatchById(db, data.batchId)
+        if (!batch) {
+          throw new AppError('BATCH_NOT_FOUND', {
+            metadata: { batchId: data.batchId },
+          })
+        }
+        await verifyFarmAccess(session.user.id, batch.farmId)
+        withdrawal = await assertWithdrawalCleared(
+          data.batchId,
+          new Date(),
+          data.withdrawalOverrideReason,
+        )
+      }
+
       // Insert using repository
       const { insertListing } = await import('./repository')
       const listingId = await insertListing(db, {
@@ -101,11 +132,27 @@ export const createListingFn = createServerFn({ method: 'POST' })
             : data.contactMethod === 'phone'
               ? 'phone'
               : 'app',
-        batchId: null,
+        batchId: data.batchId ?? null,
         status: 'active',
         expiresAt,
       })
 
+      if (withdrawal) {
+        const { logAudit } = await import('~/lib/logging/audit')
+        await logAudit({
+          userId: session.user.id,
+          action: 'withdrawal_override',
+          entityType: 'marketplace_listing',
+          entityId: listingId,
+          details: {
+            batchId: data.batchId,
+            reason: data.withdrawalOverrideReason,
+            clearsOn: withdrawal.clearsOn.toISOString(),
+            medications: withdrawal.medications,
+          },
+        })
+      }
+
       return { id: listingId }
     } catch (error) {
       if (error instanceof AppError) throw error
@@ -727,48 +774,56 @@ export const getMyContactRequestsFn = createServerFn({ method: 'GET' })
   })
 
 /**
- * Check for expiring listings and send notifications
+ * Notify sellers whose listings expire within the given number of days
+ *
+ * @param daysFromNow - Look-ahead window in days
+ * @returns Number of notifications sent and listings found
  */
-export const checkExpiringListingsFn = createServerFn({ method: 'POST' })
-  .inputValidator(
-    z.object({ daysFromNow: z.number().int().positive().default(3) }),
-  )
-  .handler(async ({ data }) => {
-    try {
-      const { getDb } = await import('~/lib/db')
-      const db = await getDb()
+export async function checkExpiringListings(daysFromNow: number) {
+  try {
+    const { getDb } = await import('~/lib/db')
+    const db = await getDb()
 
-      // Get listings expiring in specified days
-      const { getExpiringListings } = await import('./repository')
-      const expiringListings = await getExpiringListings(db, data.daysFromNow)
+    // Get listings expiring in specified days
+    const { getExpiringListings } = await import('./repository')
+    const expiringListings = await getExpiringListings(db, daysFromNow)
 
-      // Create notifications for each seller
-      const { createNotification } = await import('../notifications/server')
-      let notificationCount = 0
-
-      for (const listing of expiringListings) {
-        await createNotification({
-          userId: listing.sellerId,
-          type: 'listingExpiring',
-          title: 'Listing Expiring Soon',
-          message: `Your ${listing.species} listing expires in ${data.daysFromNow} day${data.daysFromNow === 1 ? '' : 's'}`,
-          metadata: {
-            listingId: listing.id,
-            expiresAt: listing.expiresAt,
-          },
-        })
-        notificationCount++
-      }
+    // Create notifications for each seller
+    const { createNotification } = await import('../notifications/server')
+    let notificationCount = 0
 
-      return {
-        notificationCount,
-        expiringListings: expiringListings.length,
-      }
-    } catch (error) {
-      if (error instanceof AppError) throw error
-      throw new AppError('DATABASE_ERROR', {
-        message: 'Failed to check expiring listings',
-        cause: error,
+    for (const listing of expiringListings) {
+      await createNotification({
+        userId: listing.sellerId,
+        type: 'listingExpiring',
+        title: 'Listing Expiring Soon',
+        message: `Your ${listing.species} listing expires in ${daysFromNow} day${daysFromNow === 1 ? '' : 's'}`,
+        metadata: {
+          listingId: listing.id,
+          expiresAt: listing.expiresAt,
+        },
       })
+      notificationCount++
     }
-  })
+
+    return {
+      notificationCount,
+      expiringListings: expiringListings.length,
+    }
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to check expiring listings',
+      cause: error,
+    })
+  }
+}
+
+/**
+ * Check for expiring listings and send notifications
+ */
+export const checkExpiringListingsFn = createServerFn({ method: 'POST' })
+  .inputValidator(
+    z.object({ daysFromNow: z.number().int().positive().default(3) }),
+  )
+  .handler(async ({ data }) => checkExpiringListings(data.daysFromNow))
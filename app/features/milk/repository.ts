@@ -0,0 +1,353 @@
+/**
+ * Database operations for milk production management.
+ * All functions are pure data access - no business logic.
+ */
+
+import { sql } from 'kysely'
+import { DAIRY_LIVESTOCK_TYPES } from './types'
+import type { Kysely } from 'kysely'
+import type { MilkRejectionReason } from './types'
+import type { Database } from '~/lib/db/types'
+import type { BasePaginatedQuery, PaginatedResult } from '~/lib/types'
+
+/**
+ * Data for inserting a new milk record
+ */
+export interface MilkRecordInsert {
+  batchId: string
+  date: Date
+  morningLiters: string
+  eveningLiters: string
+  rejectedLiters: string
+  rejectionReason: MilkRejectionReason | null
+  butterfatPercent: string | null
+  animalsMilked: number | null
+  notes: string | null
+}
+
+/**
+ * Data for updating a milk record
+ */
+export type MilkRecordUpdate = Partial<MilkRecordInsert>
+
+/**
+ * Milk record with batch and farm information
+ */
+export interface MilkRecordWithDetails {
+  id: string
+  batchId: string
+  date: Date
+  morningLiters: string
+  eveningLiters: string
+  rejectedLiters: string
+  rejectionReason: MilkRejectionReason | null
+  butterfatPercent: string | null
+  animalsMilked: number | null
+  notes: string | null
+  createdAt: Date
+  batchSpecies: string
+  livestockType: string
+  farmId: string
+  farmName: string
+}
+
+/**
+ * Filters for milk record queries
+ */
+export interface MilkRecordFilters extends BasePaginatedQuery {
+  batchId?: string
+}
+
+/**
+ * Volume columns needed to build a milk summary
+ */
+export interface MilkVolumeRow {
+  morningLiters: string
+  eveningLiters: string
+  rejectedLiters: string
+  butterfatPercent: string | null
+}
+
+const MILK_RECORD_COLUMNS = [
+  'milk_records.id',
+  'milk_records.batchId',
+  'milk_records.date',
+  'milk_records.morningLiters',
+  'milk_records.eveningLiters',
+  'milk_records.rejectedLiters',
+  'milk_records.rejectionReason',
+  'milk_records.butterfatPercent',
+  'milk_records.animalsMilked',
+  'milk_records.notes',
+  'milk_records.createdAt',
+  'batches.species as batchSpecies',
+  'batches.livestockType',
+  'batches.farmId',
+  'farms.name as farmName',
+] as const
+
+/**
+ * Insert a new milk record
+ *
+ * @param db - Kysely database instance
+ * @param data - Milk record data to insert
+ * @returns The ID of the created record
+ */
+export async function insertMilkRecord(
+  db: Kysely<Database>,
+  data: MilkRecordInsert,
+): Promise<string> {
+  const result = await db
+    .insertInto('milk_records')
+    .values(data)
+    .returning('id')
+    .executeTakeFirstOrThrow()
+  return result.id
+}
+
+/**
+ * Get a single milk record by ID
+ *
+ * @param db - Kysely database instance
+ * @param recordId - ID of the record to retrieve
+ * @returns The record with batch and farm details, or null if not found
+ */
+export async function getMilkRecordById(
+  db: Kysely<Database>,
+  recordId: string,
+): Promise<MilkRecordWithDetails | null> {
+  const record = await db
+    .selectFrom('milk_records')
+    .innerJoin('batches', 'batches.id', 'milk_records.batchId')
+    .innerJoin('farms', 'farms.id', 'batches.farmId')
+    .select(MILK_RECORD_COLUMNS)
+    .where('milk_records.id', '=', recordId)
+    .executeTakeFirst()
+
+  return record ?? null
+}
+
+/**
+ * Update a milk record
+ *
+ * @param db - Kysely database instance
+ * @param recordId - ID of the record to update
+ * @param data - Fields to update
+ */
+export async function updateMilkRecord(
+  db: Kysely<Database>,
+  recordId: string,
+  data: MilkRecordUpdate,
+): Promise<void> {
+  await db
+    .updateTable('milk_records')
+    .set(data)
+    .where('id', '=', recordId)
+    .execute()
+}
+
+/**
+ * Delete a milk record
+ *
+ * @param db - Kysely database instance
+ * @param recordId - ID of the record to delete
+ */
+export async function deleteMilkRecord(
+  db: Kysely<Database>,
+  recordId: string,
+): Promise<void> {
+  await db.deleteFrom('milk_records').where('id', '=', recordId).execute()
+}
+
+/**
+ * Get paginated milk records for a set of farms
+ *
+ * @param db - Kysely database instance
+ * @param farmIds - Array of farm IDs the user has access to
+ * @param filters - Pagination and filter options
+ * @returns Paginated result set
+ */
+export async function getMilkPaginated(
+  db: Kysely<Database>,
+  farmIds: Array<string>,
+  filters: MilkRecordFilters = {},
+): Promise<PaginatedResult<MilkRecordWithDetails>> {
+  const page = filters.page || 1
+  const pageSize = filters.pageSize || 10
+  const offset = (page - 1) * pageSize
+
+  if (farmIds.length === 0) {
+    return { data: [], total: 0, page, pageSize, totalPages: 0 }
+  }
+
+  let baseQuery = db
+    .selectFrom('milk_records')
+    .innerJoin('batches', 'batches.id', 'milk_records.batchId')
+    .innerJoin('farms', 'farms.id', 'batches.farmId')
+    .where('batches.farmId', 'in', farmIds)
+
+  if (filters.search) {
+    const searchLower = `%${filters.search.toLowerCase()}%`
+    baseQuery = baseQuery.where((eb) =>
+      eb.or([
+        eb('batches.species', 'ilike', searchLower),
+        eb('batches.batchName', 'ilike', searchLower),
+      ]),
+    )
+  }
+
+  if (filters.batchId) {
+    baseQuery = baseQuery.where('milk_records.batchId', '=', filters.batchId)
+  }
+
+  const countResult = await baseQuery
+    .select((eb) => [eb.fn.count<number>('milk_records.id').as('count')])
+    .executeTakeFirst()
+
+  const total = Number(countResult?.count || 0)
+  const totalPages = Math.ceil(total / pageSize)
+
+  let dataQuery = baseQuery
+    .select(MILK_RECORD_COLUMNS)
+    .limit(pageSize)
+    .offset(offset)
+
+  // Apply sorting with validated column references to prevent SQL injection
+  const allowedCols: Record<string, string> = {
+    date: 'milk_records.date',
+    morningLiters: 'milk_records.morningLiters',
+    eveningLiters: 'milk_records.eveningLiters',
+    rejectedLiters: 'milk_records.rejectedLiters',
+    createdAt: 'milk_records.createdAt',
+    species: 'batches.species',
+  }
+  const sortCol = filters.sortBy ? allowedCols[filters.sortBy] : undefined
+  if (sortCol) {
+    dataQuery = dataQuery.orderBy(
+      sql.raw(`"${sortCol.replace('.', '"."')}"`),
+      filters.sortOrder || 'desc',
+    )
+  } else {
+    dataQuery = dataQuery.orderBy('milk_records.date', 'desc')
+  }
+
+  const data = await dataQuery.execute()
+
+  return { data, total, page, pageSize, totalPages }
+}
+
+/**
+ * Get the volume columns of every milk record for a set of farms
+ *
+ * @param db - Kysely database instance
+ * @param farmIds - Farm IDs to include
+ * @param batchId - Optional batch filter
+ * @returns Volume rows for summary calculations
+ */
+export async function getMilkVolumes(
+  db: Kysely<Database>,
+  farmIds: Array<string>,
+  batchId?: string,
+): Promise<Array<MilkVolumeRow>> {
+  if (farmIds.length === 0) return []
+
+  let query = db
+    .selectFrom('milk_records')
+    .innerJoin('batches', 'batches.id', 'milk_records.batchId')
+    .select([
+      'milk_records.morningLiters',
+      'milk_records.eveningLiters',
+      'milk_records.rejectedLiters',
+      'milk_records.butterfatPercent',
+    ])
+    .where('batches.farmId', 'in', farmIds)
+
+  if (batchId) {
+    query = query.where('milk_records.batchId', '=', batchId)
+  }
+
+  return await query.execute()
+}
+
+/**
+ * Get total litres of milk sold through the sales module
+ *
+ * @param db - Kysely database instance
+ * @param farmIds - Farm IDs to include
+ * @param batchId - Optional batch filter
+ * @returns Litres sold
+ */
+export async function getMilkSoldLiters(
+  db: Kysely<Database>,
+  farmIds: Array<string>,
+  batchId?: string,
+): Promise<number> {
+  if (farmIds.length === 0) return 0
+
+  let query = db
+    .selectFrom('sales')
+    .select((eb) =>
+      eb.fn.coalesce(eb.fn.sum<number>('quantity'), eb.val(0)).as('total'),
+    )
+    .where('farmId', 'in', farmIds)
+    .where('livestockType', '=', 'milk')
+    .where('deletedAt', 'is', null)
+
+  if (batchId) {
+    query = query.where('batchId', '=', batchId)
+  }
+
+  const result = await query.executeTakeFirst()
+  return Number(result?.total || 0)
+}
+
+/**
+ * Get a batch for a milk record, verifying it belongs to the farm
+ *
+ * @param db - Kysely database instance
+ * @param batchId - Batch ID to check
+ * @param farmId - Farm ID for verification
+ * @returns Batch data if found, null otherwise
+ */
+export async function getBatchForMilkRecord(
+  db: Kysely<Database>,
+  batchId: string,
+  farmId: string,
+): Promise<{ id: string; farmId: string; livestockType: string } | null> {
+  const batch = await db
+    .selectFrom('batches')
+    .select(['id', 'farmId', 'livestockType'])
+    .where('id', '=', batchId)
+    .where('farmId', '=', farmId)
+    .executeTakeFirst()
+
+  return batch ?? null
+}
+
+/**
+ * Get active dairy (cattle, goat, sheep) batches for a farm
+ *
+ * @param db - Kysely database instance
+ * @param farmId - Farm ID
+ * @returns Active dairy batches
+ */
+export async function getDairyBatches(
+  db: Kysely<Database>,
+  farmId: string,
+): Promise<
+  Array<{
+    id: string
+    species: string
+    livestockType: string
+    currentQuantity: number
+  }>
+> {
+  return await db
+    .selectFrom('batches')
+    .select(['id', 'species', 'livestockType', 'currentQuantity'])
+    .where('farmId', '=', farmId)
+    .where('livestockType', 'in', DAIRY_LIVESTOCK_TYPES)
+    .where('status', '=', 'active')
+    .where('deletedAt', 'is', null)
+    .execute()
+}
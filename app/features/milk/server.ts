@@ -0,0 +1,504 @@
+import { createServerFn } from '@tanstack/react-start'
+import { z } from 'zod'
+import {
+  buildMilkSummary,
+  calculateDailyYield,
+  getWithdrawalEndDate,
+  validateMilkRecordData,
+  validateUpdateData,
+} from './service'
+import {
+  deleteMilkRecord as deleteMilkRecordFromDb,
+  getBatchForMilkRecord,
+  getDairyBatches,
+  getMilkPaginated,
+  getMilkRecordById,
+  getMilkSoldLiters,
+  getMilkVolumes,
+  insertMilkRecord,
+  updateMilkRecord as updateMilkRecordInDb,
+} from './repository'
+import { DAIRY_LIVESTOCK_TYPES, MILK_REJECTION_REASONS } from './types'
+import type { MilkRecordUpdate } from './repository'
+import type {
+  CreateMilkRecordInput,
+  MilkBatch,
+  MilkQuery,
+  MilkSummary,
+  UpdateMilkRecordInput,
+} from './types'
+import type { WithdrawalTreatment } from '~/features/vaccinations/types'
+import type { PaginatedResult } from '~/lib/types'
+import { AppError } from '~/lib/errors'
+
+export type { PaginatedResult, CreateMilkRecordInput, UpdateMilkRecordInput }
+
+const EMPTY_SUMMARY: MilkSummary = {
+  totalLiters: 0,
+  totalRejected: 0,
+  totalSold: 0,
+  available: 0,
+  averageButterfat: null,
+  recordCount: 0,
+}
+
+const milkRecordSchema = z.object({
+  morningLiters: z.number().nonnegative(),
+  eveningLiters: z.number().nonnegative(),
+  rejectedLiters: z.number().nonnegative(),
+  rejectionReason: z.enum(MILK_REJECTION_REASONS).nullish(),
+  butterfatPercent: z.number().positive().max(15).nullish(),
+  animalsMilked: z.number().int().positive().nullish(),
+  notes: z.string().max(500).nullish(),
+})
+
+function isDairyBatch(livestockType: string): boolean {
+  return (DAIRY_LIVESTOCK_TYPES as ReadonlyArray<string>).includes(
+    livestockType,
+  )
+}
+
+/**
+ * Reject saleable milk from a batch that is inside a treatment withdrawal
+ * period on the milking date.
+ */
+function assertWithdrawalRespected(
+  treatments: Array<WithdrawalTreatment>,
+  date: Date,
+  totalLiters: number,
+  rejectedLiters: number,
+): void {
+  const withdrawalUntil = getWithdrawalEndDate(treatments, date)
+  if (withdrawalUntil && rejectedLiters < totalLiters) {
+    throw new AppError('VALIDATION_ERROR', {
+      message: `Batch is under treatment withdrawal until ${withdrawalUntil.toISOString().split('T')[0]}; all milk must be recorded as rejected`,
+      metadata: { withdrawalUntil: withdrawalUntil.toISOString() },
+    })
+  }
+}
+
+/**
+ * Records a day's milking for a dairy batch.
+ * Milk taken during a treatment withdrawal period must be fully rejected.
+ *
+ * @param userId - ID of the user performing the action
+ * @param farmId - ID of the farm owning the batch
+ * @param input - Morning/evening yield, rejected volume and quality
+ * @returns Promise resolving to the new record ID
+ * @throws {AppError} If the batch is not found or is not a dairy batch
+ */
+export async function createMilkRecord(
+  userId: string,
+  farmId: string,
+  input: CreateMilkRecordInput,
+): Promise<string> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { verifyFarmAccess } = await import('~/features/auth/utils')
+
+  try {
+    await verifyFarmAccess(userId, farmId)
+
+    const validationError = validateMilkRecordData(input)
+    if (validationError) {
+      throw new AppError('VALIDATION_ERROR', {
+        metadata: { error: validationError },
+      })
+    }
+
+    const batch = await getBatchForMilkRecord(db, input.batchId, farmId)
+
+    if (!batch) {
+      throw new AppError('BATCH_NOT_FOUND', {
+        metadata: { batchId: input.batchId, farmId },
+      })
+    }
+
+    if (!isDairyBatch(batch.livestockType)) {
+      throw new AppError('VALIDATION_ERROR', {
+        message:
+          'Milk records can only be created for cattle, goat or sheep batches',
+      })
+    }
+
+    const { getWithdrawalTreatmentsByBatches } =
+      await import('~/features/vaccinations/repository')
+    const treatments = await getWithdrawalTreatmentsByBatches(db, [batch.id])
+    assertWithdrawalRespected(
+      treatments,
+      input.date,
+      calculateDailyYield(input.morningLiters, input.eveningLiters),
+      input.rejectedLiters,
+    )
+
+    return await insertMilkRecord(db, {
+      batchId: input.batchId,
+      date: input.date,
+      morningLiters: input.morningLiters.toFixed(2),
+      eveningLiters: input.eveningLiters.toFixed(2),
+      rejectedLiters: input.rejectedLiters.toFixed(2),
+      rejectionReason:
+        input.rejectedLiters > 0 ? (input.rejectionReason ?? null) : null,
+      butterfatPercent: input.butterfatPercent?.toFixed(2) ?? null,
+      animalsMilked: input.animalsMilked ?? null,
+      notes: input.notes || null,
+    })
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to create milk record',
+      cause: error,
+    })
+  }
+}
+
+export const createMilkRecordFn = createServerFn({ method: 'POST' })
+  .inputValidator(
+    z.object({
+      farmId: z.string().uuid(),
+      record: milkRecordSchema.extend({
+        batchId: z.string().uuid(),
+        date: z.coerce.date(),
+      }),
+    }),
+  )
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+    return createMilkRecord(session.user.id, data.farmId, data.record)
+  })
+
+/**
+ * Updates an existing milk record. Volumes are re-validated against the
+ * merged record so a partial update cannot reject more than was milked.
+ *
+ * @param userId - ID of the user performing the update
+ * @param recordId - ID of the record to update
+ * @param data - Partial update parameters
+ * @returns Promise resolving to true on success
+ */
+export async function updateMilkRecord(
+  userId: string,
+  recordId: string,
+  data: UpdateMilkRecordInput,
+): Promise<boolean> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { getUserFarms } = await import('~/features/auth/utils')
+
+  try {
+    const validationError = validateUpdateData(data)
+    if (validationError) {
+      throw new AppError('VALIDATION_ERROR', {
+        metadata: { error: validationError },
+      })
+    }
+
+    const userFarms = await getUserFarms(userId)
+    const record = await getMilkRecordById(db, recordId)
+
+    if (!record) {
+      throw new AppError('MILK_RECORD_NOT_FOUND', {
+        metadata: { resource: 'MilkRecord', id: recordId },
+      })
+    }
+
+    if (!userFarms.includes(record.farmId)) {
+      throw new AppError('ACCESS_DENIED', {
+        metadata: { farmId: record.farmId },
+      })
+    }
+
+    const merged = validateMilkRecordData({
+      batchId: record.batchId,
+      date: data.date ?? new Date(record.date),
+      morningLiters: data.morningLiters ?? Number(record.morningLiters),
+      eveningLiters: data.eveningLiters ?? Number(record.eveningLiters),
+      rejectedLiters: data.rejectedLiters ?? Number(record.rejectedLiters),
+      rejectionReason:
+        data.rejectionReason !== undefined
+          ? data.rejectionReason
+          : record.rejectionReason,
+    })
+    if (merged) {
+      throw new AppError('VALIDATION_ERROR', { metadata: { error: merged } })
+    }
+
+    const { getWithdrawalTreatmentsByBatches } =
+      await import('~/features/vaccinations/repository')
+    const treatments = await getWithdrawalTreatmentsByBatches(db, [
+      record.batchId,
+    ])
+    assertWithdrawalRespected(
+      treatments,
+      data.date ?? new Date(record.date),
+      calculateDailyYield(
+        data.morningLiters ?? record.morningLiters,
+        data.eveningLiters ?? record.eveningLiters,
+      ),
+      data.rejectedLiters ?? Number(record.rejectedLiters),
+    )
+
+    const update: MilkRecordUpdate = {}
+    if (data.date !== undefined) update.date = data.date
+    if (data.morningLiters !== undefined)
+      update.morningLiters = data.morningLiters.toFixed(2)
+    if (data.eveningLiters !== undefined)
+      update.eveningLiters = data.eveningLiters.toFixed(2)
+    if (data.rejectedLiters !== undefined) {
+      update.rejectedLiters = data.rejectedLiters.toFixed(2)
+      if (data.rejectedLiters === 0) update.rejectionReason = null
+    }
+    if (data.rejectionReason !== undefined && update.rejectionReason !== null)
+      update.rejectionReason = data.rejectionReason
+    if (data.butterfatPercent !== undefined)
+      update.butterfatPercent = data.butterfatPercent?.toFixed(2) ?? null
+    if (data.animalsMilked !== undefined)
+      update.animalsMilked = data.animalsMilked
+    if (data.notes !== undefined) update.notes = data.notes || null
+
+    await updateMilkRecordInDb(db, recordId, update)
+
+    return true
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to update milk record',
+      cause: error,
+    })
+  }
+}
+
+export const updateMilkRecordFn = createServerFn({ method: 'POST' })
+  .inputValidator(
+    z.object({
+      recordId: z.string().uuid(),
+      data: milkRecordSchema.partial().extend({
+        date: z.coerce.date().optional(),
+      }),
+    }),
+  )
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+    return updateMilkRecord(session.user.id, data.recordId, data.data)
+  })
+
+/**
+ * Delete a milk record
+ *
+ * @param userId - ID of the user performing the action
+ * @param recordId - ID of the record to delete
+ */
+export async function deleteMilkRecord(
+  userId: string,
+  recordId: string,
+): Promise<void> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { getUserFarms } = await import('~/features/auth/utils')
+
+  try {
+    const userFarms = await getUserFarms(userId)
+    const record = await getMilkRecordById(db, recordId)
+
+    if (!record) {
+      throw new AppError('MILK_RECORD_NOT_FOUND', {
+        metadata: { resource: 'MilkRecord', id: recordId },
+      })
+    }
+
+    if (!userFarms.includes(record.farmId)) {
+      throw new AppError('ACCESS_DENIED', {
+        metadata: { farmId: record.farmId },
+      })
+    }
+
+    await deleteMilkRecordFromDb(db, recordId)
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to delete milk record',
+      cause: error,
+    })
+  }
+}
+
+export const deleteMilkRecordFn = createServerFn({ method: 'POST' })
+  .inputValidator(z.object({ recordId: z.string().uuid() }))
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+    return deleteMilkRecord(session.user.id, data.recordId)
+  })
+
+/**
+ * Retrieves a filtered and sorted page of milk records.
+ *
+ * @param userId - ID of the requesting user
+ * @param query - Sorting, search and pagination params
+ * @returns Paginated milk records with batch and farm details
+ */
+export async function getMilkRecordsPaginated(
+  userId: string,
+  query: MilkQuery = {},
+) {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { checkFarmAccess, getUserFarms } =
+    await import('~/features/auth/utils')
+
+  try {
+    let targetFarmIds: Array<string> = []
+    if (query.farmId) {
+      const hasAccess = await checkFarmAccess(userId, query.farmId)
+      if (!hasAccess)
+        throw new AppError('ACCESS_DENIED', {
+          metadata: { farmId: query.farmId },
+        })
+      targetFarmIds = [query.farmId]
+    } else {
+      targetFarmIds = await getUserFarms(userId)
+    }
+
+    return await getMilkPaginated(db, targetFarmIds, query)
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to fetch paginated milk records',
+      cause: error,
+    })
+  }
+}
+
+/**
+ * Aggregates milk produced, rejected and sold, and the sellable stock on hand.
+ *
+ * @param userId - ID of the requesting user
+ * @param farmId - Optional farm filter
+ * @param batchId - Optional batch filter
+ * @returns Summary metrics in litres
+ */
+export async function getMilkRecordsSummary(
+  userId: string,
+  farmId?: string,
+  batchId?: string,
+): Promise<MilkSummary> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { checkFarmAccess, getUserFarms } =
+    await import('~/features/auth/utils')
+
+  try {
+    let targetFarmIds: Array<string> = []
+
+    if (farmId) {
+      const hasAccess = await checkFarmAccess(userId, farmId)
+      if (!hasAccess)
+        throw new AppError('ACCESS_DENIED', { metadata: { farmId } })
+      targetFarmIds = [farmId]
+    } else {
+      targetFarmIds = await getUserFarms(userId)
+      if (targetFarmIds.length === 0) return EMPTY_SUMMARY
+    }
+
+    const [volumes, soldLiters] = await Promise.all([
+      getMilkVolumes(db, targetFarmIds, batchId),
+      getMilkSoldLiters(db, targetFarmIds, batchId),
+    ])
+
+    return buildMilkSummary(volumes, soldLiters)
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to fetch milk records summary',
+      cause: error,
+    })
+  }
+}
+
+/**
+ * Active dairy batches for a farm, flagged with any withdrawal period in
+ * force today so the form can pre-fill rejected milk.
+ *
+ * @param userId - ID of the requesting user
+ * @param farmId - Farm to list batches for
+ * @returns Dairy batches with their withdrawal end date
+ */
+export async function getDairyBatchesForMilk(
+  userId: string,
+  farmId: string,
+): Promise<Array<MilkBatch>> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { verifyFarmAccess } = await import('~/features/auth/utils')
+
+  try {
+    await verifyFarmAccess(userId, farmId)
+
+    const batches = await getDairyBatches(db, farmId)
+    const { getWithdrawalTreatmentsByBatches } =
+      await import('~/features/vaccinations/repository')
+    const treatments = await getWithdrawalTreatmentsByBatches(
+      db,
+      batches.map((b) => b.id),
+    )
+    const today = new Date()
+
+    return batches.map((batch) => ({
+      ...batch,
+      withdrawalUntil: getWithdrawalEndDate(
+        treatments.filter((t) => t.batchId === batch.id),
+        today,
+      ),
+    }))
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to fetch dairy batches',
+      cause: error,
+    })
+  }
+}
+
+/**
+ * Server function to get all milk data for a farm (paginated records, summary, and batches)
+ */
+export const getMilkDataForFarmFn = createServerFn({ method: 'GET' })
+  .inputValidator(
+    z.object({
+      farmId: z.string().uuid().nullish(),
+      page: z.number().int().positive().optional(),
+      pageSize: z.number().int().positive().max(100).optional(),
+      sortBy: z.string().optional(),
+      sortOrder: z.enum(['asc', 'desc']).optional(),
+      search: z.string().optional(),
+    }),
+  )
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+
+    const session = await requireAuth()
+    const farmId = data.farmId || undefined
+
+    const [paginatedRecords, summary, batches] = await Promise.all([
+      getMilkRecordsPaginated(session.user.id, {
+        farmId,
+        page: data.page,
+        pageSize: data.pageSize,
+        sortBy: data.sortBy,
+        sortOrder: data.sortOrder,
+        search: data.search,
+      }),
+      getMilkRecordsSummary(session.user.id, farmId),
+      farmId
+        ? getDairyBatchesForMilk(session.user.id, farmId)
+        : Promise.resolve([]),
+    ])
+
+    return {
+      paginatedRecords,
+      summary,
+      batches,
+    }
+  })
@@ -0,0 +1,332 @@
+/**
+ * Pure business logic for milk production operations.
+ * All functions are side-effect-free and easily unit testable.
+ */
+
+import { MILK_REJECTION_REASONS } from './types'
+import type {
+  CreateMilkRecordInput,
+  MilkSummary,
+  UpdateMilkRecordInput,
+} from './types'
+import type { WithdrawalTreatment } from '~/features/vaccinations/types'
+import { getActiveWithdrawal } from '~/features/vaccinations/service'
+
+/**
+ * Milk volumes as stored (DECIMAL columns arrive from pg as strings)
+ */
+interface MilkVolumes {
+  morningLiters: number | string
+  eveningLiters: number | string
+  rejectedLiters: number | string
+}
+
+/**
+ * Totals calculated from milk records (litres)
+ */
+export interface MilkTotals {
+  totalLiters: number
+  totalRejected: number
+  /** Milked volume that can be sold (total minus rejected) */
+  totalSaleable: number
+}
+
+/** Highest butterfat percentage accepted (sheep milk runs around 7-8%) */
+const MAX_BUTTERFAT_PERCENT = 15
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Validate milk record data before creation
+ * Returns validation error message or null if valid
+ *
+ * @param data - Milk record data to validate
+ * @returns Validation error message, or null if data is valid
+ *
+ * @example
+ * ```ts
+ * const error = validateMilkRecordData({
+ *   batchId: 'batch-1',
+ *   date: new Date(),
+ *   morningLiters: 42,
+ *   eveningLiters: 38,
+ *   rejectedLiters: 0,
+ * })
+ * // Returns: null (valid)
+ *
+ * validateMilkRecordData({ ...validData, rejectedLiters: 5 })
+ * // Returns: 'Rejection reason is required when milk is rejected'
+ * ```
+ */
+export function validateMilkRecordData(
+  data: CreateMilkRecordInput,
+): string | null {
+  if (!data.batchId || data.batchId.trim() === '') {
+    return 'Batch ID is required'
+  }
+
+  if (!(data.date instanceof Date) || isNaN(data.date.getTime())) {
+    return 'Valid milking date is required'
+  }
+
+  if (data.morningLiters < 0 || data.eveningLiters < 0) {
+    return 'Milk quantities cannot be negative'
+  }
+
+  const total = calculateDailyYield(data.morningLiters, data.eveningLiters)
+  if (total <= 0) {
+    return 'Morning or evening yield must be greater than 0'
+  }
+
+  return validateRejectionAndQuality(data, total)
+}
+
+/**
+ * Validate update data for a milk record
+ * Returns validation error message or null if valid
+ *
+ * @param data - Update data to validate
+ * @returns Validation error message, or null if valid
+ *
+ * @example
+ * ```ts
+ * validateUpdateData({ eveningLiters: 40 }) // Returns: null
+ * validateUpdateData({ butterfatPercent: 40 })
+ * // Returns: 'Butterfat must be between 0 and 15%'
+ * ```
+ */
+export function validateUpdateData(data: UpdateMilkRecordInput): string | null {
+  if (data.date !== undefined) {
+    if (!(data.date instanceof Date) || isNaN(data.date.getTime())) {
+      return 'Date must be a valid date'
+    }
+  }
+
+  if (
+    (data.morningLiters !== undefined && data.morningLiters < 0) ||
+    (data.eveningLiters !== undefined && data.eveningLiters < 0)
+  ) {
+    return 'Milk quantities cannot be negative'
+  }
+
+  // Rejected vs total is checked against the merged record in the server
+  // function, since a partial update may only carry one of the sessions
+  return validateRejectionAndQuality(data, null)
+}
+
+function validateRejectionAndQuality(
+  data: UpdateMilkRecordInput,
+  total: number | null,
+): string | null {
+  if (data.rejectedLiters !== undefined) {
+    if (data.rejectedLiters < 0) {
+      return 'Rejected quantity cannot be negative'
+    }
+    if (total !== null && data.rejectedLiters > total) {
+      return 'Rejected quantity cannot exceed the total milked'
+    }
+    if (data.rejectedLiters > 0 && !data.rejectionReason) {
+      return 'Rejection reason is required when milk is rejected'
+    }
+  }
+
+  if (
+    data.rejectionReason &&
+    !(MILK_REJECTION_REASONS as ReadonlyArray<string>).includes(
+      data.rejectionReason,
+    )
+  ) {
+    return 'Invalid rejection reason'
+  }
+
+  if (
+    data.butterfatPercent !== undefined &&
+    data.butterfatPercent !== null &&
+    (data.butterfatPercent <= 0 ||
+      data.butterfatPercent > MAX_BUTTERFAT_PERCENT)
+  ) {
+    return `Butterfat must be between 0 and ${MAX_BUTTERFAT_PERCENT}%`
+  }
+
+  if (
+    data.animalsMilked !== undefined &&
+    data.animalsMilked !== null &&
+    (!Number.isInteger(data.animalsMilked) || data.animalsMilked <= 0)
+  ) {
+    return 'Animals milked must be a positive whole number'
+  }
+
+  return null
+}
+
+/**
+ * Total litres for a day from its morning and evening milkings
+ *
+ * @param morningLiters - Morning yield
+ * @param eveningLiters - Evening yield
+ * @returns Combined yield rounded to 2 decimal places
+ *
+ * @example
+ * ```ts
+ * calculateDailyYield(42.5, '38.25') // Returns: 80.75
+ * ```
+ */
+export function calculateDailyYield(
+  morningLiters: number | string,
+  eveningLiters: number | string,
+): number {
+  return round2(Number(morningLiters) + Number(eveningLiters))
+}
+
+/**
+ * Calculate totals from milk records
+ *
+ * @param records - Milk records with morning, evening and rejected litres
+ * @returns Total, rejected and saleable litres
+ *
+ * @example
+ * ```ts
+ * calculateMilkTotals([
+ *   { morningLiters: '40', eveningLiters: '35', rejectedLiters: '0' },
+ *   { morningLiters: '38', eveningLiters: '36', rejectedLiters: '74' },
+ * ])
+ * // Returns: { totalLiters: 149, totalRejected: 74, totalSaleable: 75 }
+ * ```
+ */
+export function calculateMilkTotals(records: Array<MilkVolumes>): MilkTotals {
+  let totalLiters = 0
+  let totalRejected = 0
+
+  for (const r of records) {
+    totalLiters += Number(r.morningLiters) + Number(r.eveningLiters)
+    totalRejected += Number(r.rejectedLiters)
+  }
+
+  return {
+    totalLiters: round2(totalLiters),
+    totalRejected: round2(totalRejected),
+    totalSaleable: round2(Math.max(0, totalLiters - totalRejected)),
+  }
+}
+
+/**
+ * Volume-weighted average butterfat across records that were tested
+ *
+ * @param records - Milk records; untested days (null butterfat) are skipped
+ * @returns Average butterfat percentage, or null if nothing was tested
+ *
+ * @example
+ * ```ts
+ * calculateAverageButterfat([
+ *   { morningLiters: 30, eveningLiters: 30, butterfatPercent: 4 },
+ *   { morningLiters: 10, eveningLiters: 10, butterfatPercent: 6 },
+ * ])
+ * // Returns: 4.5
+ * ```
+ */
+export function calculateAverageButterfat(
+  records: Array<{
+    morningLiters: number | string
+    eveningLiters: number | string
+    butterfatPercent: number | string | null
+  }>,
+): number | null {
+  let weighted = 0
+  let volume = 0
+
+  for (const r of records) {
+    if (r.butterfatPercent === null) continue
+    const liters = Number(r.morningLiters) + Number(r.eveningLiters)
+    weighted += Number(r.butterfatPercent) * liters
+    volume += liters
+  }
+
+  if (volume <= 0) return null
+  return round2(weighted / volume)
+}
+
+/**
+ * Average litres per animal milked
+ *
+ * @param liters - Litres produced
+ * @param animalsMilked - Number of animals milked over the same records
+ * @returns Litres per animal, or 0 if no animals were counted
+ */
+export function calculateYieldPerAnimal(
+  liters: number,
+  animalsMilked: number,
+): number {
+  if (animalsMilked <= 0 || liters < 0) {
+    return 0
+  }
+
+  return round2(liters / animalsMilked)
+}
+
+/**
+ * Build milk summary from production records and litres already sold
+ *
+ * @param records - Milk records
+ * @param soldLiters - Litres sold through the sales module
+ * @returns Summary with totals, stock on hand and average butterfat
+ */
+export function buildMilkSummary(
+  records: Array<MilkVolumes & { butterfatPercent: number | string | null }>,
+  soldLiters: number,
+): MilkSummary {
+  const totals = calculateMilkTotals(records)
+
+  return {
+    totalLiters: totals.totalLiters,
+    totalRejected: totals.totalRejected,
+    totalSold: soldLiters,
+    available: calculateAvailableMilk(totals.totalSaleable, soldLiters),
+    averageButterfat: calculateAverageButterfat(records),
+    recordCount: records.length,
+  }
+}
+
+/**
+ * Sellable milk still on hand
+ *
+ * @param saleableLiters - Milked minus rejected litres
+ * @param soldLiters - Litres already sold
+ * @returns Remaining litres (never negative)
+ */
+export function calculateAvailableMilk(
+  saleableLiters: number,
+  soldLiters: number,
+): number {
+  return round2(Math.max(0, saleableLiters - soldLiters))
+}
+
+/**
+ * Find the end of the treatment withdrawal period covering a date.
+ * Milk from animals under withdrawal must not enter the food chain.
+ *
+ * @param treatments - Treatments given to the batch
+ * @param onDate - Milking date to check
+ * @returns Last day of the longest covering withdrawal, or null if none
+ *
+ * @example
+ * ```ts
+ * getWithdrawalEndDate(
+ *   [{ batchId: 'b1', medicationName: 'Oxytetracycline', date: new Date('2025-03-01'), withdrawalDays: 4 }],
+ *   new Date('2025-03-03'),
+ * )
+ * // Returns: 2025-03-05
+ * ```
+ */
+export function getWithdrawalEndDate(
+  treatments: ReadonlyArray<WithdrawalTreatment>,
+  onDate: Date,
+): Date | null {
+  const withdrawal = getActiveWithdrawal(treatments, onDate)
+  if (!withdrawal) return null
+
+  const lastDay = new Date(withdrawal.clearsOn)
+  lastDay.setDate(lastDay.getDate() - 1)
+  return lastDay
+}
@@ -0,0 +1,108 @@
+/**
+ * Types for milk production management
+ */
+
+import type { MilkTable } from '~/lib/db/types'
+import type { BasePaginatedQuery } from '~/lib/types'
+
+/**
+ * Why milk was kept out of the sellable volume
+ */
+export type MilkRejectionReason = NonNullable<MilkTable['rejectionReason']>
+
+/**
+ * All supported rejection reasons, in display order
+ */
+export const MILK_REJECTION_REASONS = [
+  'withdrawal',
+  'mastitis',
+  'spoiled',
+  'other',
+] as const satisfies ReadonlyArray<MilkRejectionReason>
+
+/**
+ * Livestock types that can be milked
+ */
+export const DAIRY_LIVESTOCK_TYPES = ['cattle', 'goats', 'sheep'] as const
+
+/**
+ * Search parameters for milk route
+ */
+export interface MilkSearchParams {
+  page?: number
+  pageSize?: number
+  sortBy?: string
+  sortOrder?: 'asc' | 'desc'
+  search?: string
+}
+
+/**
+ * Batch data for milk production
+ */
+export interface MilkBatch {
+  id: string
+  species: string
+  livestockType: string
+  currentQuantity: number
+  /** Last day of an active treatment withdrawal period, if any */
+  withdrawalUntil: Date | null
+}
+
+/**
+ * Milk production summary metrics (litres)
+ */
+export interface MilkSummary {
+  totalLiters: number
+  totalRejected: number
+  totalSold: number
+  /** Sellable milk not yet sold */
+  available: number
+  /** Volume-weighted average butterfat, or null when never measured */
+  averageButterfat: number | null
+  recordCount: number
+}
+
+/**
+ * Filter parameters for paginated milk record queries
+ */
+export interface MilkQuery extends BasePaginatedQuery {
+  /** Optional filter by specific dairy batch */
+  batchId?: string
+}
+
+/**
+ * Input for recording a day's milking
+ */
+export interface CreateMilkRecordInput {
+  /** ID of the dairy batch */
+  batchId: string
+  /** Milking date */
+  date: Date
+  /** Litres from the morning milking */
+  morningLiters: number
+  /** Litres from the evening milking */
+  eveningLiters: number
+  /** Litres discarded or kept out of the bulk tank */
+  rejectedLiters: number
+  /** Required when any milk was rejected */
+  rejectionReason?: MilkRejectionReason | null
+  /** Butterfat percentage from a tank or lab test */
+  butterfatPercent?: number | null
+  /** Number of animals milked */
+  animalsMilked?: number | null
+  notes?: string | null
+}
+
+/**
+ * Data structure for updating a milk production record
+ */
+export interface UpdateMilkRecordInput {
+  date?: Date
+  morningLiters?: number
+  eveningLiters?: number
+  rejectedLiters?: number
+  rejectionReason?: MilkRejectionReason | null
+  butterfatPercent?: number | null
+  animalsMilked?: number | null
+  notes?: string | null
+}
@@ -0,0 +1,112 @@
+import { useState } from 'react'
+import { useNavigate, useRouter } from '@tanstack/react-router'
+import { toast } from 'sonner'
+import { useTranslation } from 'react-i18next'
+import {
+  createMilkRecordFn,
+  deleteMilkRecordFn,
+  updateMilkRecordFn,
+} from './server'
+import type {
+  CreateMilkRecordInput,
+  MilkSearchParams,
+  UpdateMilkRecordInput,
+} from './types'
+import type { MilkRecordWithDetails } from './repository'
+
+interface UseMilkPageProps {
+  selectedFarmId: string | null
+  routePath: string
+}
+
+export function useMilkPage({ selectedFarmId, routePath }: UseMilkPageProps) {
+  const { t } = useTranslation(['milk', 'common'])
+  const navigate = useNavigate({ from: routePath as any })
+  const router = useRouter()
+
+  const [selectedRecord, setSelectedRecord] =
+    useState<MilkRecordWithDetails | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const updateSearch = (updates: Partial<MilkSearchParams>) => {
+    navigate({
+      // @ts-ignore - Type limitation
+      search: (prev: MilkSearchParams) => ({
+        ...prev,
+        ...updates,
+      }),
+    })
+  }
+
+  const handleAddSubmit = async (data: CreateMilkRecordInput) => {
+    if (!selectedFarmId) return
+    setIsSubmitting(true)
+    try {
+      await createMilkRecordFn({
+        data: { farmId: selectedFarmId, record: data },
+      })
+      toast.success(t('milk:recorded', { defaultValue: 'Milk record added' }))
+      await router.invalidate()
+      return true // Signal success to close dialog
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to add milk record',
+      )
+      return false // Signal failure to keep dialog open
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleEditSubmit = async (data: UpdateMilkRecordInput) => {
+    if (!selectedRecord) return
+    setIsSubmitting(true)
+    try {
+      await updateMilkRecordFn({
+        data: { recordId: selectedRecord.id, data },
+      })
+      toast.success(
+        t('common:updated', { defaultValue: 'Milk record updated' }),
+      )
+      await router.invalidate()
+      return true // Signal success to close dialog
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to update milk record',
+      )
+      return false // Signal failure to keep dialog open
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleDeleteConfirm = async () => {
+    if (!selectedRecord) return
+    setIsSubmitting(true)
+    try {
+      await deleteMilkRecordFn({ data: { recordId: selectedRecord.id } })
+      toast.success(
+        t('common:deleted', { defaultValue: 'Milk record deleted' }),
+      )
+      await router.invalidate()
+      return true // Signal success to close dialog
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to delete milk record',
+      )
+      return false // Signal failure to keep dialog open
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return {
+    selectedRecord,
+    setSelectedRecord,
+    isSubmitting,
+    updateSearch,
+    handleAddSubmit,
+    handleEditSubmit,
+    handleDeleteConfirm,
+  }
+}
@@ -82,7 +82,7 @@ export const MODULE_METADATA: Record<ModuleKey, ModuleMetadata> = {
     description: 'Meat and wool sheep farming',
     icon: '🐑',
     livestockTypes: ['sheep'],
-    productTypes: ['sheep', 'wool'],
+    productTypes: ['sheep', 'wool', 'milk'],
     sourceSizeOptions: [
       { value: 'lamb', label: 'Lamb (0-6 months)' },
       { value: 'weaner', label: 'Weaner (6-12 months)' },
@@ -177,32 +177,43 @@ export const MODULE_NAVIGATION: Record<ModuleKey, Array<string>> = {
   cattle: [
     'Livestock',
     'Batches',
+    'Animals',
+    'Breeding',
     'Mortality',
     'Feed',
     'Weight',
     'Sales',
     'Health',
     'Inventory',
+    'Milk',
   ],
   goats: [
     'Livestock',
     'Batches',
+    'Animals',
+    'Breeding',
     'Mortality',
     'Feed',
     'Weight',
     'Sales',
     'Health',
     'Inventory',
+    'Milk',
+    'Shearing',
   ],
   sheep: [
     'Livestock',
     'Batches',
+    'Animals',
+    'Breeding',
     'Mortality',
     'Feed',
     'Weight',
     'Sales',
     'Health',
     'Inventory',
+    'Milk',
+    'Shearing',
   ],
-  bees: ['Livestock', 'Batches', 'Sales', 'Inventory'],
+  bees: ['Livestock', 'Batches', 'Sales', 'Inventory', 'Apiary'],
 }
@@ -37,6 +37,10 @@ export const WATER_TEMP_TILAPIA_MAX = 34
 export const WATER_TEMP_TILAPIA_CRITICAL_MIN = 22
 export const WATER_TEMP_TILAPIA_CRITICAL_MAX = 36
 
+// Birth due-date thresholds (days)
+export const BIRTH_DUE_SOON_DAYS = 7 // Warn ahead of kidding/lambing/calving
+export const BIRTH_OVERDUE_CRITICAL_DAYS = 21 // Likely open or aborted; check the dam
+
 // Inventory thresholds
 export const LOW_STOCK_WARNING_PERCENT = 10
 export const LOW_STOCK_CRITICAL_PERCENT = 5
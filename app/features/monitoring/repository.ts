@@ -47,10 +47,13 @@ export interface VaccinationData {
 }
 
 /**
- * Feed data for monitoring
+ * Breeding event awaiting birth, for due-date alerts
  */
-export interface FeedData {
-  totalKg: string | null
+export interface DueBirthData {
+  id: string
+  expectedDueDate: Date
+  femaleCount: number
+  damTag: string | null
 }
 
 /**
@@ -77,6 +80,7 @@ export interface GrowthStandardData {
 export interface AlertThresholds {
   mortalityAlertPercent: number
   mortalityAlertQuantity: number
+  fcrAlertTolerancePercent: number
 }
 
 /**
@@ -291,25 +295,28 @@ export async function getPendingVaccinations(
 }
 
 /**
- * Get total feed consumption for a batch
+ * Get breeding events of a batch that are still awaiting birth
  *
  * @param db - Kysely database instance
  * @param batchId - Batch ID to query
- * @returns Feed data with total kilograms
+ * @returns Bred or pregnant events with their due dates
  */
-export async function getFeedRecords(
+export async function getDueBirths(
   db: Kysely<Database>,
   batchId: string,
-): Promise<FeedData> {
-  const result = await db
-    .selectFrom('feed_records')
-    .select(({ fn }) => [fn.sum<string>('quantityKg').as('totalKg')])
-    .where('batchId', '=', batchId)
-    .executeTakeFirst()
-
-  return {
-    totalKg: result?.totalKg ?? null,
-  }
+): Promise<Array<DueBirthData>> {
+  return await db
+    .selectFrom('breeding_events')
+    .leftJoin('animals as dam', 'dam.id', 'breeding_events.damId')
+    .select([
+      'breeding_events.id',
+      'breeding_events.expectedDueDate',
+      'breeding_events.femaleCount',
+      'dam.tagNumber as damTag',
+    ])
+    .where('breeding_events.batchId', '=', batchId)
+    .where('breeding_events.status', 'in', ['bred', 'pregnant'])
+    .execute()
 }
 
 /**
@@ -377,7 +384,11 @@ export async function getUserSettings(
 ): Promise<AlertThresholds> {
   const result = await db
     .selectFrom('user_settings')
-    .select(['mortalityAlertPercent', 'mortalityAlertQuantity'])
+    .select([
+      'mortalityAlertPercent',
+      'mortalityAlertQuantity',
+      'fcrAlertTolerancePercent',
+    ])
     .where('userId', '=', userId)
     .executeTakeFirst()
 
@@ -385,12 +396,14 @@ export async function getUserSettings(
     return {
       mortalityAlertPercent: 5,
       mortalityAlertQuantity: 10,
+      fcrAlertTolerancePercent: 20,
     }
   }
 
   return {
     mortalityAlertPercent: result.mortalityAlertPercent,
     mortalityAlertQuantity: result.mortalityAlertQuantity,
+    fcrAlertTolerancePercent: result.fcrAlertTolerancePercent,
   }
 }
 
@@ -6,10 +6,12 @@
 import { createServerFn } from '@tanstack/react-start'
 import { z } from 'zod'
 import { getUserFarms } from '../auth/utils'
+import { getFcrInputs } from '../feed/repository'
+import { buildFcrTracking } from '../feed/service'
 import {
   getBatchForMonitoring,
   getBatchesForMonitoring,
-  getFeedRecords,
+  getDueBirths,
   getGrowthStandards,
   getPendingVaccinations,
   getRecentMortality,
@@ -45,6 +47,7 @@ export type AlertSource =
   | 'vaccination'
   | 'inventory'
   | 'growth'
+  | 'breeding'
 
 /**
  * Logic for fetching all batch alerts, reused by server function and dashboard.
@@ -54,6 +57,7 @@ export type AlertSource =
  * - Water quality issues (pH, ammonia, temperature, dissolved oxygen)
  * - Feed conversion ratio (FCR) performance
  * - Vaccination schedules (overdue and upcoming)
+ * - Births due soon or overdue (breeding events)
  * - Growth performance (underweight batches)
  *
  * Uses optimized batch queries to prevent N+1 query patterns.
@@ -95,10 +99,12 @@ export async function getAllBatchAlerts(
 
   // OPTIMIZED: Use batch queries for mortality data (prevents N+1)
   const batchIds = batches.map((b) => b.id)
-  const [recentMortalityMap, totalMortalityMap] = await Promise.all([
-    getRecentMortalityBatch(db, batchIds, twentyFourHoursAgo),
-    getTotalMortalityBatch(db, batchIds),
-  ])
+  const [recentMortalityMap, totalMortalityMap, fcrInputsMap] =
+    await Promise.all([
+      getRecentMortalityBatch(db, batchIds, twentyFourHoursAgo),
+      getTotalMortalityBatch(db, batchIds),
+      getFcrInputs(db, batchIds),
+    ])
 
   const alerts = await Promise.all(
     batches.map(async (batch) => {
@@ -108,16 +114,22 @@ export async function getAllBatchAlerts(
         total: 0,
       }
       const totalMortality = totalMortalityMap.get(batch.id) || 0
+      const fcrInputs = fcrInputsMap.get(batch.id)
 
       // Still need individual queries for other data (can be optimized later)
-      const [waterQuality, vaccinations, feed, latestWeight, growthStandards] =
-        await Promise.all([
-          getRecentWaterQuality(db, batch.id),
-          getPendingVaccinations(db, batch.id),
-          getFeedRecords(db, batch.id),
-          getWeightSamples(db, batch.id),
-          getGrowthStandards(db, batch.species),
-        ])
+      const [
+        waterQuality,
+        vaccinations,
+        dueBirths,
+        latestWeight,
+        growthStandards,
+      ] = await Promise.all([
+        getRecentWaterQuality(db, batch.id),
+        getPendingVaccinations(db, batch.id),
+        getDueBirths(db, batch.id),
+        getWeightSamples(db, batch.id),
+        getGrowthStandards(db, batch.species),
+      ])
 
       return analyzeBatchHealth({
         batch,
@@ -125,7 +137,8 @@ export async function getAllBatchAlerts(
         totalMortality,
         waterQuality,
         vaccinations,
-        feed,
+        dueBirths,
+        fcr: fcrInputs ? buildFcrTracking(fcrInputs) : null,
         latestWeight,
         growthStandards,
         thresholds,
@@ -245,7 +258,8 @@ export const checkBatchAlertsFn = createServerFn({ method: 'GET' })
       totalMortality,
       waterQuality,
       vaccinations,
-      feed,
+      dueBirths,
+      fcrInputs,
       latestWeight,
       growthStandards,
     ] = await Promise.all([
@@ -253,10 +267,12 @@ export const checkBatchAlertsFn = createServerFn({ method: 'GET' })
       getTotalMortality(db, batch.id),
       getRecentWaterQuality(db, batch.id),
       getPendingVaccinations(db, batch.id),
-      getFeedRecords(db, batch.id),
+      getDueBirths(db, batch.id),
+      getFcrInputs(db, [batch.id]),
       getWeightSamples(db, batch.id),
       getGrowthStandards(db, batch.species),
     ])
+    const batchFcrInputs = fcrInputs.get(batch.id)
 
     return analyzeBatchHealth({
       batch,
@@ -264,7 +280,8 @@ export const checkBatchAlertsFn = createServerFn({ method: 'GET' })
       totalMortality,
       waterQuality,
       vaccinations,
-      feed,
+      dueBirths,
+      fcr: batchFcrInputs ? buildFcrTracking(batchFcrInputs) : null,
       latestWeight,
       growthStandards,
       thresholds,
@@ -304,14 +321,20 @@ export const getFarmAlertsFn = createServerFn({ method: 'GET' })
 
     if (batches.length === 0) return []
 
+    const fcrInputsMap = await getFcrInputs(
+      db,
+      batches.map((b) => b.id),
+    )
+
     const alerts = await Promise.all(
       batches.map(async (batch) => {
+        const fcrInputs = fcrInputsMap.get(batch.id)
         const [
           recentMortality,
           totalMortality,
           waterQuality,
           vaccinations,
-          feed,
+          dueBirths,
           latestWeight,
           growthStandards,
         ] = await Promise.all([
@@ -319,7 +342,7 @@ export const getFarmAlertsFn = createServerFn({ method: 'GET' })
           getTotalMortality(db, batch.id),
           getRecentWaterQuality(db, batch.id),
           getPendingVaccinations(db, batch.id),
-          getFeedRecords(db, batch.id),
+          getDueBirths(db, batch.id),
           getWeightSamples(db, batch.id),
           getGrowthStandards(db, batch.species),
         ])
@@ -330,7 +353,8 @@ export const getFarmAlertsFn = createServerFn({ method: 'GET' })
           totalMortality,
           waterQuality,
           vaccinations,
-          feed,
+          dueBirths,
+          fcr: fcrInputs ? buildFcrTracking(fcrInputs) : null,
           latestWeight,
           growthStandards,
           thresholds,
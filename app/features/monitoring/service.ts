@@ -5,6 +5,8 @@
 
 import { differenceInDays, subHours } from 'date-fns'
 import {
+  BIRTH_DUE_SOON_DAYS,
+  BIRTH_OVERDUE_CRITICAL_DAYS,
   DEFAULT_MORTALITY_THRESHOLD,
   DO_CRITICAL_MIN,
   DO_WARNING_MIN,
@@ -20,7 +22,7 @@ import {
 } from './constants'
 import type {
   AlertThresholds,
-  FeedData,
+  DueBirthData,
   GrowthStandardData,
   MonitoringBatch,
   MortalityData,
@@ -28,6 +30,7 @@ import type {
   WaterQualityData,
   WeightData,
 } from './repository'
+import type { FcrTracking } from '~/features/feed/service'
 
 /**
  * Alert severity levels
@@ -44,6 +47,7 @@ export type AlertSource =
   | 'vaccination'
   | 'inventory'
   | 'growth'
+  | 'breeding'
 
 /**
  * Type-safe alert metadata based on source
@@ -52,6 +56,7 @@ export type AlertMetadata =
   | { type: 'vaccination'; vaccineName: string; dueDate: Date }
   | { type: 'feed'; targetFcr: number; actualFcr: number }
   | { type: 'growth'; expectedKg: number; actualKg: number; ageWeeks: number }
+  | { type: 'breeding'; dueDate: Date; daysOverdue: number }
   | { type: 'default' }
 
 /**
@@ -78,7 +83,8 @@ interface BatchAnalysisInput {
   totalMortality: number
   waterQuality: WaterQualityData | null
   vaccinations: Array<VaccinationData>
-  feed: FeedData
+  dueBirths: Array<DueBirthData>
+  fcr: FcrTracking | null
   latestWeight: WeightData | null
   growthStandards: Array<GrowthStandardData>
   thresholds: AlertThresholds
@@ -101,7 +107,8 @@ export function analyzeBatchHealth(
     totalMortality,
     waterQuality,
     vaccinations,
-    feed,
+    dueBirths,
+    fcr,
     latestWeight,
     growthStandards,
     thresholds,
@@ -116,8 +123,11 @@ export function analyzeBatchHealth(
   )
   alerts.push(...checkWaterQualityAlerts(batch, waterQuality))
   alerts.push(...checkVaccinationAlerts(batch, vaccinations))
+  alerts.push(...checkBreedingAlerts(batch, dueBirths))
   alerts.push(...checkInventoryAlerts(batch))
-  alerts.push(...checkFeedAlerts(batch, feed, latestWeight))
+  alerts.push(
+    ...checkFeedAlerts(batch, fcr, thresholds.fcrAlertTolerancePercent),
+  )
   alerts.push(...checkGrowthAlerts(batch, latestWeight, growthStandards))
 
   return alerts
@@ -391,6 +401,70 @@ export function checkVaccinationAlerts(
   return alerts
 }
 
+/**
+ * Check for upcoming and overdue births (kidding, lambing, calving)
+ *
+ * @param batch - Batch data
+ * @param dueBirths - Breeding events awaiting birth
+ * @param asOf - Reference date (defaults to now)
+ * @returns Array of breeding alerts
+ */
+export function checkBreedingAlerts(
+  batch: MonitoringBatch,
+  dueBirths: Array<DueBirthData>,
+  asOf: Date = new Date(),
+): Array<BatchAlert> {
+  const alerts: Array<BatchAlert> = []
+
+  for (const event of dueBirths) {
+    const dueDate = new Date(event.expectedDueDate)
+    const daysOverdue = differenceInDays(asOf, dueDate)
+    if (daysOverdue < -BIRTH_DUE_SOON_DAYS) continue
+
+    const females = event.damTag ?? `${event.femaleCount} female(s)`
+    const metadata: AlertMetadata = { type: 'breeding', dueDate, daysOverdue }
+
+    if (daysOverdue > BIRTH_OVERDUE_CRITICAL_DAYS) {
+      alerts.push({
+        id: `birth-overdue-${event.id}`,
+        batchId: batch.id,
+        species: batch.species,
+        type: 'critical',
+        source: 'breeding',
+        message: `Birth ${daysOverdue} days overdue: ${females} - check pregnancy`,
+        timestamp: dueDate,
+        value: daysOverdue,
+        metadata,
+      })
+    } else if (daysOverdue > 0) {
+      alerts.push({
+        id: `birth-overdue-${event.id}`,
+        batchId: batch.id,
+        species: batch.species,
+        type: 'warning',
+        source: 'breeding',
+        message: `Birth overdue by ${daysOverdue} days: ${females}`,
+        timestamp: dueDate,
+        value: daysOverdue,
+        metadata,
+      })
+    } else {
+      alerts.push({
+        id: `birth-due-${event.id}`,
+        batchId: batch.id,
+        species: batch.species,
+        type: 'info',
+        source: 'breeding',
+        message: `Birth due in ${-daysOverdue} days: ${females}`,
+        timestamp: dueDate,
+        metadata,
+      })
+    }
+  }
+
+  return alerts
+}
+
 /**
  * Check for inventory/stock level alerts
  *
@@ -424,50 +498,52 @@ export function checkInventoryAlerts(
 }
 
 /**
- * Check for feed conversion ratio (FCR) alerts
+ * Check for feed conversion ratio (FCR) drifting above the batch's target.
+ * The cumulative FCR sets the severity; the latest period between weight
+ * samples gives early warning before the cumulative figure moves.
  *
  * @param batch - Batch data
- * @param feed - Feed consumption data
- * @param latestWeight - Most recent weight sample
+ * @param fcr - FCR tracking for the batch
+ * @param tolerancePercent - Percentage above target that raises an alert
  * @returns Array of feed alerts
  */
 export function checkFeedAlerts(
   batch: MonitoringBatch,
-  feed: FeedData,
-  latestWeight: WeightData | null,
+  fcr: FcrTracking | null,
+  tolerancePercent: number,
 ): Array<BatchAlert> {
   const alerts: Array<BatchAlert> = []
 
-  const totalFeedKg = parseFloat(feed.totalKg ?? '0')
-  const avgWeightKg = latestWeight
-    ? parseFloat(latestWeight.averageWeightKg)
-    : 0
-
-  if (totalFeedKg > 0 && avgWeightKg > 0 && batch.currentQuantity > 0) {
-    // Calculate average population (accounting for mortality)
-    const avgPopulation = (batch.initialQuantity + batch.currentQuantity) / 2
-    const totalWeightGainKg = avgWeightKg * avgPopulation
-    const fcr = totalFeedKg / totalWeightGainKg
+  if (!fcr || fcr.targetFcr === null) return alerts
 
-    // Industry standards: Broiler FCR ~1.6-1.8, Catfish FCR ~1.2-1.5
-    const targetFcr = batch.species.toLowerCase().includes('catfish')
-      ? 1.5
-      : 1.8
+  const targetFcr = fcr.targetFcr
+  const warningLimit = targetFcr * (1 + tolerancePercent / 100)
+  const criticalLimit = targetFcr * (1 + (2 * tolerancePercent) / 100)
 
-    // Alert if FCR is 20% above target
-    if (fcr > targetFcr * 1.2) {
-      alerts.push({
-        id: `fcr-high-${batch.id}`,
-        batchId: batch.id,
-        species: batch.species,
-        type: fcr > targetFcr * 1.4 ? 'critical' : 'warning',
-        source: 'feed',
-        message: `High FCR: ${fcr.toFixed(2)} (target: ${targetFcr})`,
-        timestamp: new Date(),
-        value: fcr,
-        metadata: { type: 'feed', targetFcr, actualFcr: fcr },
-      })
-    }
+  if (fcr.cumulativeFcr !== null && fcr.cumulativeFcr > warningLimit) {
+    alerts.push({
+      id: `fcr-high-${batch.id}`,
+      batchId: batch.id,
+      species: batch.species,
+      type: fcr.cumulativeFcr > criticalLimit ? 'critical' : 'warning',
+      source: 'feed',
+      message: `High FCR: ${fcr.cumulativeFcr.toFixed(2)} (target: ${targetFcr})`,
+      timestamp: new Date(),
+      value: fcr.cumulativeFcr,
+      metadata: { type: 'feed', targetFcr, actualFcr: fcr.cumulativeFcr },
+    })
+  } else if (fcr.periodFcr !== null && fcr.periodFcr > warningLimit) {
+    alerts.push({
+      id: `fcr-drift-${batch.id}`,
+      batchId: batch.id,
+      species: batch.species,
+      type: 'warning',
+      source: 'feed',
+      message: `FCR Drifting: ${fcr.periodFcr.toFixed(2)} since last weighing (target: ${targetFcr})`,
+      timestamp: new Date(),
+      value: fcr.periodFcr,
+      metadata: { type: 'feed', targetFcr, actualFcr: fcr.periodFcr },
+    })
   }
 
   return alerts
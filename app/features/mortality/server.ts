@@ -57,6 +57,8 @@ export interface CreateMortalityData {
     | 'culling'
   /** Optional descriptive notes */
   notes?: string | null
+  /** Tagged animal that died, when the loss is a single known head */
+  animalId?: string | null
 }
 
 /**
@@ -126,6 +128,16 @@ export async function recordMortality(
       })
     }
 
+    if (data.animalId) {
+      if (data.quantity !== 1) {
+        throw new AppError('VALIDATION_ERROR', {
+          message: 'A death recorded for a single animal must have quantity 1',
+        })
+      }
+      const { assertAnimalInBatch } = await import('~/features/animals/server')
+      await assertAnimalInBatch(db, data.animalId, data.batchId)
+    }
+
     // Start transaction
     const recordId = await db.transaction().execute(async (trx) => {
       // Insert mortality record
@@ -133,6 +145,7 @@ export async function recordMortality(
         .insertInto('mortality_records')
         .values({
           batchId: data.batchId,
+          animalId: data.animalId ?? null,
           quantity: data.quantity,
           date: data.date,
           cause: data.cause,
@@ -153,6 +166,19 @@ export async function recordMortality(
         .where('id', '=', data.batchId)
         .execute()
 
+      if (data.animalId) {
+        const { getStatusForMortality } =
+          await import('~/features/animals/service')
+        await trx
+          .updateTable('animals')
+          .set({
+            status: getStatusForMortality(data.cause),
+            updatedAt: new Date(),
+          })
+          .where('id', '=', data.animalId)
+          .execute()
+      }
+
       return result.id
     })
 
@@ -196,6 +222,7 @@ const createMortalitySchema = z.object({
       'culling',
     ]),
     notes: z.string().max(500).nullish(),
+    animalId: z.string().uuid().nullish(),
   }),
 })
 
@@ -687,6 +714,7 @@ export async function updateMortalityRecord(
       .select([
         'mortality_records.id',
         'mortality_records.batchId',
+        'mortality_records.animalId',
         'mortality_records.quantity',
         'batches.farmId',
         'batches.currentQuantity',
@@ -707,6 +735,16 @@ export async function updateMortalityRecord(
       })
     }
 
+    if (
+      existing.animalId &&
+      input.quantity !== undefined &&
+      input.quantity !== 1
+    ) {
+      throw new AppError('VALIDATION_ERROR', {
+        message: 'A death recorded for a single animal must have quantity 1',
+      })
+    }
+
     await db.transaction().execute(async (trx) => {
       // Adjust batch quantity if mortality quantity changed
       if (
@@ -738,6 +776,19 @@ export async function updateMortalityRecord(
         })
         .where('id', '=', recordId)
         .execute()
+
+      if (existing.animalId && input.cause !== undefined) {
+        const { getStatusForMortality } =
+          await import('~/features/animals/service')
+        await trx
+          .updateTable('animals')
+          .set({
+            status: getStatusForMortality(input.cause),
+            updatedAt: new Date(),
+          })
+          .where('id', '=', existing.animalId)
+          .execute()
+      }
     })
   } catch (error) {
     if (error instanceof AppError) throw error
@@ -780,6 +831,7 @@ export async function deleteMortalityRecord(
       .select([
         'mortality_records.id',
         'mortality_records.batchId',
+        'mortality_records.animalId',
         'mortality_records.quantity',
         'batches.farmId',
         'batches.currentQuantity',
@@ -812,6 +864,15 @@ export async function deleteMortalityRecord(
         .where('id', '=', existing.batchId)
         .execute()
 
+      // A tagged animal recorded as dead is back in the herd
+      if (existing.animalId) {
+        await trx
+          .updateTable('animals')
+          .set({ status: 'active', updatedAt: new Date() })
+          .where('id', '=', existing.animalId)
+          .execute()
+      }
+
       await trx
         .deleteFrom('mortality_records')
         .where('id', '=', recordId)
@@ -283,6 +283,7 @@ export const saveOnboardingProgressFn = createServerFn({ method: 'POST' })
             lowStockThresholdPercent: 10,
             mortalityAlertPercent: 5,
             mortalityAlertQuantity: 10,
+            fcrAlertTolerancePercent: 20,
             notifications: {
               lowStock: true,
               highMortality: true,
@@ -3,6 +3,7 @@
  * All functions are pure data access - no business logic.
  */
 
+import { sql } from 'kysely'
 import type { Kysely } from 'kysely'
 import type { Database } from '~/lib/db/types'
 import type { DateRange } from './server'
@@ -232,10 +233,15 @@ export async function getSalesByType(
   farmId: string | undefined,
   dateRange: DateRange,
 ) {
+  // Fleeces sold against a sheep or goat sale still count as wool revenue
+  const saleType = sql<
+    Database['sales']['livestockType']
+  >`case when "unitType" = 'fleece' then 'wool' else "livestockType" end`
+
   let query = db
     .selectFrom('sales')
     .select([
-      'livestockType',
+      saleType.as('livestockType'),
       (eb) =>
         eb.fn
           .coalesce(
@@ -246,7 +252,7 @@ export async function getSalesByType(
     ])
     .where('date', '>=', dateRange.startDate)
     .where('date', '<=', dateRange.endDate)
-    .groupBy('livestockType')
+    .groupBy(saleType)
 
   if (farmId) {
     query = query.where('farmId', '=', farmId)
@@ -400,6 +406,326 @@ export async function getEggRecords(
   return await query.execute()
 }
 
+/**
+ * Get daily milk totals for milk production reports
+ *
+ * @param db - Kysely database instance
+ * @param farmId - Optional farm ID to filter by
+ * @param dateRange - Date range for the report
+ * @returns Milk volumes aggregated by date, with butterfat and head-count
+ * sums for weighted averages
+ */
+export async function getMilkRecords(
+  db: Kysely<Database>,
+  farmId: string | undefined,
+  dateRange: DateRange,
+) {
+  const dailyLiters = sql<number>`milk_records."morningLiters" + milk_records."eveningLiters"`
+
+  let query = db
+    .selectFrom('milk_records')
+    .innerJoin('batches', 'batches.id', 'milk_records.batchId')
+    .select([
+      'milk_records.date',
+      (eb) =>
+        eb.fn.sum<string>(eb.ref('milk_records.morningLiters')).as('morning'),
+      (eb) =>
+        eb.fn.sum<string>(eb.ref('milk_records.eveningLiters')).as('evening'),
+      (eb) =>
+        eb.fn.sum<string>(eb.ref('milk_records.rejectedLiters')).as('rejected'),
+      sql<
+        string | null
+      >`sum(${dailyLiters} * milk_records."butterfatPercent")`.as(
+        'butterfatWeighted',
+      ),
+      sql<
+        string | null
+      >`sum(${dailyLiters}) filter (where milk_records."butterfatPercent" is not null)`.as(
+        'testedLiters',
+      ),
+      (eb) =>
+        eb.fn
+          .sum<string>(eb.ref('milk_records.animalsMilked'))
+          .as('animalsMilked'),
+      sql<
+        string | null
+      >`sum(${dailyLiters}) filter (where milk_records."animalsMilked" is not null)`.as(
+        'countedLiters',
+      ),
+    ])
+    .where('milk_records.date', '>=', dateRange.startDate)
+    .where('milk_records.date', '<=', dateRange.endDate)
+    .groupBy('milk_records.date')
+    .orderBy('milk_records.date', 'desc')
+
+  if (farmId) {
+    query = query.where('batches.farmId', '=', farmId)
+  }
+
+  return await query.execute()
+}
+
+/**
+ * Get litres of milk sold in a period
+ *
+ * @param db - Kysely database instance
+ * @param farmId - Optional farm ID to filter by
+ * @param dateRange - Date range for the report
+ * @returns Litres sold
+ */
+export async function getMilkSoldInPeriod(
+  db: Kysely<Database>,
+  farmId: string | undefined,
+  dateRange: DateRange,
+): Promise<number> {
+  let query = db
+    .selectFrom('sales')
+    .select((eb) =>
+      eb.fn.coalesce(eb.fn.sum<number>('quantity'), eb.val(0)).as('total'),
+    )
+    .where('livestockType', '=', 'milk')
+    .where('deletedAt', 'is', null)
+    .where('date', '>=', dateRange.startDate)
+    .where('date', '<=', dateRange.endDate)
+
+  if (farmId) {
+    query = query.where('farmId', '=', farmId)
+  }
+
+  const result = await query.executeTakeFirst()
+  return Number(result?.total || 0)
+}
+
+/**
+ * Get shearing records in a period for wool attribution
+ *
+ * @param db - Kysely database instance
+ * @param farmId - Optional farm ID to filter by
+ * @param dateRange - Date range for the report
+ * @returns Clip per shearing record
+ */
+export async function getShearingClips(
+  db: Kysely<Database>,
+  farmId: string | undefined,
+  dateRange: DateRange,
+) {
+  let query = db
+    .selectFrom('shearing_records')
+    .innerJoin('batches', 'batches.id', 'shearing_records.batchId')
+    .select([
+      'shearing_records.batchId',
+      'shearing_records.fleeceCount',
+      'shearing_records.greasyWeightKg',
+      'shearing_records.micronGrade',
+      'shearing_records.yieldPercent',
+    ])
+    .where('shearing_records.date', '>=', dateRange.startDate)
+    .where('shearing_records.date', '<=', dateRange.endDate)
+
+  if (farmId) {
+    query = query.where('batches.farmId', '=', farmId)
+  }
+
+  return await query.execute()
+}
+
+/**
+ * Get hive structures for apiary reports
+ *
+ * @param db - Kysely database instance
+ * @param farmId - Optional farm ID to filter by
+ * @returns Hives with their status (active hives hold a colony)
+ */
+export async function getApiaryHives(
+  db: Kysely<Database>,
+  farmId: string | undefined,
+) {
+  let query = db
+    .selectFrom('structures')
+    .select(['id', 'name', 'status'])
+    .where('type', '=', 'hive')
+    .where('deletedAt', 'is', null)
+    .orderBy('name', 'asc')
+
+  if (farmId) {
+    query = query.where('farmId', '=', farmId)
+  }
+
+  return await query.execute()
+}
+
+/**
+ * Get honey and wax harvested per hive in a period
+ *
+ * @param db - Kysely database instance
+ * @param farmId - Optional farm ID to filter by
+ * @param dateRange - Date range for the report
+ * @returns Harvested kilograms grouped by hive and product
+ */
+export async function getHiveHarvestTotals(
+  db: Kysely<Database>,
+  farmId: string | undefined,
+  dateRange: DateRange,
+) {
+  let query = db
+    .selectFrom('hive_harvests')
+    .innerJoin('structures', 'structures.id', 'hive_harvests.structureId')
+    .select([
+      'hive_harvests.structureId',
+      'hive_harvests.product',
+      (eb) =>
+        eb.fn.sum<string>(eb.ref('hive_harvests.quantityKg')).as('quantityKg'),
+    ])
+    .where('hive_harvests.date', '>=', dateRange.startDate)
+    .where('hive_harvests.date', '<=', dateRange.endDate)
+    .groupBy(['hive_harvests.structureId', 'hive_harvests.product'])
+
+  if (farmId) {
+    query = query.where('structures.farmId', '=', farmId)
+  }
+
+  return await query.execute()
+}
+
+/**
+ * Get hive inspections in a period, newest first
+ *
+ * @param db - Kysely database instance
+ * @param farmId - Optional farm ID to filter by
+ * @param dateRange - Date range for the report
+ * @returns Inspection observations per hive
+ */
+export async function getHiveInspectionRecords(
+  db: Kysely<Database>,
+  farmId: string | undefined,
+  dateRange: DateRange,
+) {
+  let query = db
+    .selectFrom('hive_inspections')
+    .innerJoin('structures', 'structures.id', 'hive_inspections.structureId')
+    .select([
+      'hive_inspections.structureId',
+      'hive_inspections.date',
+      'hive_inspections.queenSeen',
+      'hive_inspections.broodPattern',
+      'hive_inspections.swarmCells',
+      'hive_inspections.varroaCount',
+    ])
+    .where('hive_inspections.date', '>=', dateRange.startDate)
+    .where('hive_inspections.date', '<=', dateRange.endDate)
+    .orderBy('hive_inspections.date', 'desc')
+    .orderBy('hive_inspections.createdAt', 'desc')
+
+  if (farmId) {
+    query = query.where('structures.farmId', '=', farmId)
+  }
+
+  return await query.execute()
+}
+
+/**
+ * Get breeding events mated in a period with the batch of the dams
+ *
+ * @param db - Kysely database instance
+ * @param farmId - Optional farm ID to filter by
+ * @param dateRange - Date range for the report (by mating date)
+ * @returns Events with female count, status and due date
+ */
+export async function getBreedingEventRecords(
+  db: Kysely<Database>,
+  farmId: string | undefined,
+  dateRange: DateRange,
+) {
+  let query = db
+    .selectFrom('breeding_events')
+    .innerJoin('batches', 'batches.id', 'breeding_events.batchId')
+    .select([
+      'breeding_events.id',
+      'breeding_events.batchId',
+      'breeding_events.damId',
+      'breeding_events.livestockType',
+      'breeding_events.femaleCount',
+      'breeding_events.status',
+      'breeding_events.expectedDueDate',
+      'batches.batchName',
+      'batches.species',
+    ])
+    .where('breeding_events.matingDate', '>=', dateRange.startDate)
+    .where('breeding_events.matingDate', '<=', dateRange.endDate)
+
+  if (farmId) {
+    query = query.where('breeding_events.farmId', '=', farmId)
+  }
+
+  return await query.execute()
+}
+
+/**
+ * Get the births of breeding events mated in a period
+ *
+ * @param db - Kysely database instance
+ * @param farmId - Optional farm ID to filter by
+ * @param dateRange - Date range for the report (by mating date)
+ * @returns Births with their event, tagged dam and offspring counts
+ */
+export async function getBirthRecordsForEvents(
+  db: Kysely<Database>,
+  farmId: string | undefined,
+  dateRange: DateRange,
+) {
+  let query = db
+    .selectFrom('birth_records')
+    .innerJoin(
+      'breeding_events',
+      'breeding_events.id',
+      'birth_records.breedingEventId',
+    )
+    .select([
+      'birth_records.breedingEventId',
+      'breeding_events.damId',
+      'birth_records.birthDate',
+      'birth_records.liveBorn',
+      'birth_records.stillborn',
+      'birth_records.weanedCount',
+    ])
+    .where('breeding_events.matingDate', '>=', dateRange.startDate)
+    .where('breeding_events.matingDate', '<=', dateRange.endDate)
+
+  if (farmId) {
+    query = query.where('breeding_events.farmId', '=', farmId)
+  }
+
+  return await query.execute()
+}
+
+/**
+ * Get every birth of a tagged dam, for birth intervals
+ *
+ * @param db - Kysely database instance
+ * @param farmId - Optional farm ID to filter by
+ * @returns Dam and birth date of each birth
+ */
+export async function getDamBirthHistory(
+  db: Kysely<Database>,
+  farmId: string | undefined,
+) {
+  let query = db
+    .selectFrom('birth_records')
+    .innerJoin(
+      'breeding_events',
+      'breeding_events.id',
+      'birth_records.breedingEventId',
+    )
+    .select(['breeding_events.damId', 'birth_records.birthDate'])
+    .where('breeding_events.damId', 'is not', null)
+
+  if (farmId) {
+    query = query.where('breeding_events.farmId', '=', farmId)
+  }
+
+  return await query.execute()
+}
+
 /**
  * Get feed records for feed consumption reports
  *
@@ -2,29 +2,43 @@
  * @module Reports
  *
  * Core reporting engine for generating detailed business insights.
- * Includes logic for Profit & Loss, Inventory, Sales, Feed, and Egg production reports.
+ * Includes logic for Profit & Loss (with wool attribution), Inventory, Sales, Feed, Egg, Milk, Apiary
+ * and Breeding reports.
  */
 
 import { createServerFn } from '@tanstack/react-start'
 import { z } from 'zod'
 import {
+  calculateApiaryReport,
+  calculateBreedingReport,
   calculateDateRange,
   calculateEggInventory,
   calculateLayingPercentage,
+  calculateMilkReport,
   calculateMortalityRate,
   calculateProfitMargin,
+  calculateWoolAttribution,
 } from './service'
 import {
   deleteReportConfig,
+  getApiaryHives,
   getBatchData,
+  getBirthRecordsForEvents,
+  getBreedingEventRecords,
+  getDamBirthHistory,
   getEggRecords,
   getExpensesByCategory,
   getFeedRecords,
+  getHiveHarvestTotals,
+  getHiveInspectionRecords,
   getLayerBirdCount,
+  getMilkRecords,
+  getMilkSoldInPeriod,
   getReportConfigById,
   getReportConfigsByFarm,
   getSalesByType,
   getSalesData,
+  getShearingClips,
   insertReportConfig,
   updateReportConfig,
 } from './repository'
@@ -67,6 +81,15 @@ export interface ProfitLossReport {
   profit: number
   /** Profit as a percentage of revenue */
   profitMargin: number
+  /** Wool revenue set against the clip shorn in the period */
+  wool: {
+    fleeceCount: number
+    greasyWeightKg: number
+    cleanWeightKg: number
+    revenue: number
+    revenuePerFleece: number
+    revenuePerKg: number
+  } | null
 }
 
 /**
@@ -139,6 +162,16 @@ export interface FeedReport {
     /** Consumption aggregated by feed type */
     byFeedType: Array<{ type: string; quantityKg: number; cost: number }>
   }
+  /** Feed conversion of each batch fed in the window, against its target */
+  fcr: Array<{
+    batchId: string
+    species: string
+    /** FCR from the batch's first weight sample to its latest */
+    cumulativeFcr: number | null
+    /** FCR within the report window */
+    periodFcr: number | null
+    targetFcr: number | null
+  }>
 }
 
 /**
@@ -165,6 +198,101 @@ export interface EggReport {
   }
 }
 
+/**
+ * Report on milk production, rejected milk and quality.
+ */
+export interface MilkReport {
+  /** The report window */
+  period: DateRange
+  /** Daily milk totals (litres) */
+  records: Array<{
+    date: Date
+    morning: number
+    evening: number
+    total: number
+    rejected: number
+    saleable: number
+    /** Volume-weighted butterfat, or null when not tested that day */
+    averageButterfat: number | null
+  }>
+  /** Production summary (litres) */
+  summary: {
+    totalLiters: number
+    totalRejected: number
+    totalSaleable: number
+    totalSold: number
+    averageDailyYield: number
+    averageYieldPerAnimal: number
+    averageButterfat: number | null
+  }
+}
+
+/**
+ * Report on hive inspections and honey/wax yield per colony.
+ */
+export interface ApiaryReport {
+  /** The report window */
+  period: DateRange
+  /** One row per hive */
+  records: Array<{
+    hiveName: string
+    status: string
+    honeyKg: number
+    waxKg: number
+    inspections: number
+    lastInspection: Date | null
+    latestVarroaCount: number | null
+    /** Latest inspection raised a warning (swarm cells, queenless, ...) */
+    needsAttention: boolean
+  }>
+  /** Yield summary (kg) */
+  summary: {
+    colonyCount: number
+    totalHoneyKg: number
+    totalWaxKg: number
+    honeyPerColony: number
+    waxPerColony: number
+    hivesNeedingAttention: number
+  }
+}
+
+/**
+ * Report on matings in a period and how they turned out: births, weaning
+ * and reproductive KPIs.
+ */
+export interface BreedingReport {
+  /** The report window (by mating date) */
+  period: DateRange
+  /** One row per batch of bred females */
+  records: Array<{
+    batchName: string
+    livestockType: string
+    femalesBred: number
+    awaitingBirth: number
+    liveBorn: number
+    stillborn: number
+    weaned: number
+    /** Live-born per female exposed (%), over concluded events */
+    kiddingRate: number | null
+  }>
+  summary: {
+    matings: number
+    femalesBred: number
+    /** Events still bred or pregnant */
+    awaitingBirth: number
+    /** Awaiting events past their due date */
+    overdue: number
+    births: number
+    liveBorn: number
+    stillborn: number
+    weaned: number
+    kiddingRate: number | null
+    weaningPercent: number | null
+    /** Average days between births of the tagged dams bred in the period */
+    calvingIntervalDays: number | null
+  }
+}
+
 // ============================================================================
 // Server Functions
 // ============================================================================
@@ -198,10 +326,12 @@ export const getProfitLossReport = createServerFn({ method: 'GET' })
         : calculateDateRange(data.dateRangeType)
 
     try {
-      const [salesByTypeResult, expensesByCategoryResult] = await Promise.all([
-        getSalesByType(db, data.farmId, dateRange),
-        getExpensesByCategory(db, data.farmId, dateRange),
-      ])
+      const [salesByTypeResult, expensesByCategoryResult, shearingClips] =
+        await Promise.all([
+          getSalesByType(db, data.farmId, dateRange),
+          getExpensesByCategory(db, data.farmId, dateRange),
+          getShearingClips(db, data.farmId, dateRange),
+        ])
 
       const totalRevenue = salesByTypeResult.reduce(
         (sum, s) => sum + parseFloat(String(s.total)),
@@ -213,6 +343,13 @@ export const getProfitLossReport = createServerFn({ method: 'GET' })
       )
       const profit = totalRevenue - totalExpenses
       const profitMargin = calculateProfitMargin(totalRevenue, totalExpenses)
+      const woolSales = salesByTypeResult.find(
+        (s) => s.livestockType === 'wool',
+      )
+      const wool = calculateWoolAttribution(
+        shearingClips,
+        woolSales ? parseFloat(String(woolSales.total)) : 0,
+      )
 
       return {
         period: dateRange,
@@ -232,6 +369,7 @@ export const getProfitLossReport = createServerFn({ method: 'GET' })
         },
         profit,
         profitMargin,
+        wool,
       }
     } catch (error) {
       if (error instanceof AppError) throw error
@@ -431,6 +569,28 @@ export const getFeedReport = createServerFn({ method: 'GET' })
         })
       }
 
+      // Feed conversion for each batch fed in the window
+      const { getFcrInputs } = await import('~/features/feed/repository')
+      const { buildFcrTracking, calculateFcrForPeriod } =
+        await import('~/features/feed/service')
+      const fcrInputs = await getFcrInputs(db, [
+        ...new Set(recordsData.map((r) => r.batchId)),
+      ])
+      const fcr = Array.from(fcrInputs.values(), (inputs) => {
+        const tracking = buildFcrTracking(inputs)
+        return {
+          batchId: inputs.batch.id,
+          species: inputs.batch.species,
+          cumulativeFcr: tracking.cumulativeFcr,
+          periodFcr: calculateFcrForPeriod(
+            tracking.points,
+            dateRange.startDate,
+            dateRange.endDate,
+          ),
+          targetFcr: tracking.targetFcr,
+        }
+      })
+
       return {
         period: dateRange,
         records: recordsData,
@@ -448,6 +608,7 @@ export const getFeedReport = createServerFn({ method: 'GET' })
             }),
           ),
         },
+        fcr,
       }
     } catch (error) {
       if (error instanceof AppError) throw error
@@ -534,6 +695,138 @@ export const getEggReport = createServerFn({ method: 'GET' })
     }
   })
 
+/**
+ * Generates a milk production report.
+ */
+export const getMilkReport = createServerFn({ method: 'GET' })
+  .inputValidator(
+    z.object({
+      farmId: z.string().uuid().optional(),
+      startDate: z.string().datetime().optional(),
+      endDate: z.string().datetime().optional(),
+      dateRangeType: z
+        .enum(['today', 'week', 'month', 'quarter', 'year', 'custom'])
+        .default('month'),
+    }),
+  )
+  .handler(async ({ data }): Promise<MilkReport> => {
+    const { getDb } = await import('~/lib/db')
+    const db = await getDb()
+
+    const dateRange =
+      data.dateRangeType === 'custom' && data.startDate && data.endDate
+        ? calculateDateRange(
+            'custom',
+            new Date(data.startDate),
+            new Date(data.endDate),
+          )
+        : calculateDateRange(data.dateRangeType)
+
+    try {
+      const [milkRecords, soldLiters] = await Promise.all([
+        getMilkRecords(db, data.farmId, dateRange),
+        getMilkSoldInPeriod(db, data.farmId, dateRange),
+      ])
+
+      return {
+        period: dateRange,
+        ...calculateMilkReport(milkRecords, soldLiters),
+      }
+    } catch (error) {
+      if (error instanceof AppError) throw error
+      throw new AppError('DATABASE_ERROR', { cause: error })
+    }
+  })
+
+/**
+ * Generates an apiary report with yield per colony.
+ */
+export const getApiaryReport = createServerFn({ method: 'GET' })
+  .inputValidator(
+    z.object({
+      farmId: z.string().uuid().optional(),
+      startDate: z.string().datetime().optional(),
+      endDate: z.string().datetime().optional(),
+      dateRangeType: z
+        .enum(['today', 'week', 'month', 'quarter', 'year', 'custom'])
+        .default('month'),
+    }),
+  )
+  .handler(async ({ data }): Promise<ApiaryReport> => {
+    const { getDb } = await import('~/lib/db')
+    const db = await getDb()
+
+    const dateRange =
+      data.dateRangeType === 'custom' && data.startDate && data.endDate
+        ? calculateDateRange(
+            'custom',
+            new Date(data.startDate),
+            new Date(data.endDate),
+          )
+        : calculateDateRange(data.dateRangeType)
+
+    try {
+      const [hives, harvests, inspections] = await Promise.all([
+        getApiaryHives(db, data.farmId),
+        getHiveHarvestTotals(db, data.farmId, dateRange),
+        getHiveInspectionRecords(db, data.farmId, dateRange),
+      ])
+
+      return {
+        period: dateRange,
+        ...calculateApiaryReport(hives, harvests, inspections),
+      }
+    } catch (error) {
+      if (error instanceof AppError) throw error
+      throw new AppError('DATABASE_ERROR', { cause: error })
+    }
+  })
+
+/**
+ * Generates a breeding report with kidding rate, weaning percentage and
+ * calving interval for females mated in the period.
+ */
+export const getBreedingReport = createServerFn({ method: 'GET' })
+  .inputValidator(
+    z.object({
+      farmId: z.string().uuid().optional(),
+      startDate: z.string().datetime().optional(),
+      endDate: z.string().datetime().optional(),
+      dateRangeType: z
+        .enum(['today', 'week', 'month', 'quarter', 'year', 'custom'])
+        .default('month'),
+    }),
+  )
+  .handler(async ({ data }): Promise<BreedingReport> => {
+    const { getDb } = await import('~/lib/db')
+    const db = await getDb()
+
+    const dateRange =
+      data.dateRangeType === 'custom' && data.startDate && data.endDate
+        ? calculateDateRange(
+            'custom',
+            new Date(data.startDate),
+            new Date(data.endDate),
+          )
+        : calculateDateRange(data.dateRangeType)
+
+    try {
+      const [events, births, damBirths] = await Promise.all([
+        getBreedingEventRecords(db, data.farmId, dateRange),
+        getBirthRecordsForEvents(db, data.farmId, dateRange),
+        getDamBirthHistory(db, data.farmId),
+      ])
+
+      return {
+        period: dateRange,
+        ...calculateBreedingReport(events, births, damBirths),
+      }
+    } catch (error) {
+      if (error instanceof AppError) throw error
+      throw new AppError('DATABASE_ERROR', { cause: error })
+    }
+  })
+
 /**
  * Save a report configuration for later use
  */
@@ -715,6 +1008,9 @@ export const fetchReportData = createServerFn({ method: 'GET' })
       | SalesReport
       | FeedReport
       | EggReport
+      | MilkReport
+      | ApiaryReport
+      | BreedingReport
       | null = null
 
     switch (data.reportType) {
@@ -763,6 +1059,36 @@ export const fetchReportData = createServerFn({ method: 'GET' })
           },
         })
         break
+      case 'milk':
+        report = await getMilkReport({
+          data: {
+            farmId: data.farmId,
+            startDate: startDateISO,
+            endDate: endDateISO,
+            dateRangeType: 'custom',
+          },
+        })
+        break
+      case 'apiary':
+        report = await getApiaryReport({
+          data: {
+            farmId: data.farmId,
+            startDate: startDateISO,
+            endDate: endDateISO,
+            dateRangeType: 'custom',
+          },
+        })
+        break
+      case 'breeding':
+        report = await getBreedingReport({
+          data: {
+            farmId: data.farmId,
+            startDate: startDateISO,
+            endDate: endDateISO,
+            dateRangeType: 'custom',
+          },
+        })
+        break
     }
 
     return { farms, report, reportType: data.reportType }
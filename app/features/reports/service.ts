@@ -4,6 +4,20 @@
  */
 
 import type { DateRange } from './server'
+import type { BroodPattern, HiveHarvestProduct } from '~/features/apiary/types'
+import type { BreedingStatus } from '~/features/breeding/types'
+import {
+  calculateYieldPerColony,
+  getInspectionWarnings,
+} from '~/features/apiary/service'
+import { buildShearingSummary } from '~/features/shearing/service'
+import {
+  calculateCalvingInterval,
+  calculateKiddingRate,
+  calculateWeaningPercent,
+  getDaysOverdue,
+  isAwaitingBirth,
+} from '~/features/breeding/service'
 
 // Constants
 const MAX_REPORT_NAME_LENGTH = 100
@@ -483,3 +497,398 @@ export function calculateEggInventory(
     })
     .reverse()
 }
+
+/**
+ * Build daily rows and period totals for a milk production report
+ *
+ * @param days - Daily milk totals (DECIMAL sums arrive as strings)
+ * @param soldLiters - Litres sold in the same period
+ * @returns Daily records and summary; averages are volume-weighted
+ *
+ * @example
+ * ```ts
+ * const { records, summary } = calculateMilkReport(
+ *   [{ date, morning: '40', evening: '35', rejected: '5',
+ *      butterfatWeighted: '300', testedLiters: '75',
+ *      animalsMilked: '5', countedLiters: '75' }],
+ *   50,
+ * )
+ * // summary.totalSaleable: 70, summary.averageButterfat: 4,
+ * // summary.averageYieldPerAnimal: 15
+ * ```
+ */
+export function calculateMilkReport(
+  days: Array<{
+    date: Date
+    morning: number | string | null
+    evening: number | string | null
+    rejected: number | string | null
+    butterfatWeighted: number | string | null
+    testedLiters: number | string | null
+    animalsMilked: number | string | null
+    countedLiters: number | string | null
+  }>,
+  soldLiters: number,
+): {
+  records: Array<{
+    date: Date
+    morning: number
+    evening: number
+    total: number
+    rejected: number
+    saleable: number
+    averageButterfat: number | null
+  }>
+  summary: {
+    totalLiters: number
+    totalRejected: number
+    totalSaleable: number
+    totalSold: number
+    averageDailyYield: number
+    averageYieldPerAnimal: number
+    averageButterfat: number | null
+  }
+} {
+  const round2 = (value: number) => Math.round(value * 100) / 100
+  const weightedAverage = (weighted: number, volume: number) =>
+    volume > 0 ? round2(weighted / volume) : null
+
+  let totalLiters = 0
+  let totalRejected = 0
+  let butterfatWeighted = 0
+  let testedLiters = 0
+  let animalsMilked = 0
+  let countedLiters = 0
+
+  const records = days.map((day) => {
+    const morning = Number(day.morning || 0)
+    const evening = Number(day.evening || 0)
+    const rejected = Number(day.rejected || 0)
+    const total = morning + evening
+
+    totalLiters += total
+    totalRejected += rejected
+    butterfatWeighted += Number(day.butterfatWeighted || 0)
+    testedLiters += Number(day.testedLiters || 0)
+    animalsMilked += Number(day.animalsMilked || 0)
+    countedLiters += Number(day.countedLiters || 0)
+
+    return {
+      date: day.date,
+      morning: round2(morning),
+      evening: round2(evening),
+      total: round2(total),
+      rejected: round2(rejected),
+      saleable: round2(Math.max(0, total - rejected)),
+      averageButterfat: weightedAverage(
+        Number(day.butterfatWeighted || 0),
+        Number(day.testedLiters || 0),
+      ),
+    }
+  })
+
+  return {
+    records,
+    summary: {
+      totalLiters: round2(totalLiters),
+      totalRejected: round2(totalRejected),
+      totalSaleable: round2(Math.max(0, totalLiters - totalRejected)),
+      totalSold: soldLiters,
+      averageDailyYield:
+        records.length > 0 ? round2(totalLiters / records.length) : 0,
+      averageYieldPerAnimal: weightedAverage(countedLiters, animalsMilked) ?? 0,
+      averageButterfat: weightedAverage(butterfatWeighted, testedLiters),
+    },
+  }
+}
+
+/**
+ * Build per-hive rows and yield-per-colony totals for an apiary report
+ *
+ * @param hives - Hive structures; active hives count as colonies
+ * @param harvests - Kilograms harvested per hive and product (DECIMAL sums
+ * arrive as strings)
+ * @param inspections - Inspections in the period, newest first
+ * @returns Per-hive records and summary
+ *
+ * @example
+ * ```ts
+ * const { summary } = calculateApiaryReport(
+ *   [{ id: 'h1', name: 'Hive 1', status: 'active' },
+ *    { id: 'h2', name: 'Hive 2', status: 'active' }],
+ *   [{ structureId: 'h1', product: 'honey', quantityKg: '30' }],
+ *   [],
+ * )
+ * // summary.totalHoneyKg: 30, summary.honeyPerColony: 15
+ * ```
+ */
+export function calculateApiaryReport(
+  hives: Array<{ id: string; name: string; status: string }>,
+  harvests: Array<{
+    structureId: string
+    product: HiveHarvestProduct
+    quantityKg: number | string | null
+  }>,
+  inspections: Array<{
+    structureId: string
+    date: Date
+    queenSeen: boolean
+    broodPattern: BroodPattern
+    swarmCells: number
+    varroaCount: number | null
+  }>,
+): {
+  records: Array<{
+    hiveName: string
+    status: string
+    honeyKg: number
+    waxKg: number
+    inspections: number
+    lastInspection: Date | null
+    latestVarroaCount: number | null
+    needsAttention: boolean
+  }>
+  summary: {
+    colonyCount: number
+    totalHoneyKg: number
+    totalWaxKg: number
+    honeyPerColony: number
+    waxPerColony: number
+    hivesNeedingAttention: number
+  }
+} {
+  const round2 = (value: number) => Math.round(value * 100) / 100
+
+  let totalHoneyKg = 0
+  let totalWaxKg = 0
+
+  const records = hives
+    .map((hive) => {
+      let honeyKg = 0
+      let waxKg = 0
+      for (const harvest of harvests) {
+        if (harvest.structureId !== hive.id) continue
+        if (harvest.product === 'honey') {
+          honeyKg += Number(harvest.quantityKg || 0)
+        } else {
+          waxKg += Number(harvest.quantityKg || 0)
+        }
+      }
+      totalHoneyKg += honeyKg
+      totalWaxKg += waxKg
+
+      const hiveInspections = inspections.filter(
+        (inspection) => inspection.structureId === hive.id,
+      )
+      const latest = hiveInspections.at(0)
+
+      return {
+        hiveName: hive.name,
+        status: hive.status,
+        honeyKg: round2(honeyKg),
+        waxKg: round2(waxKg),
+        inspections: hiveInspections.length,
+        lastInspection: latest?.date ?? null,
+        latestVarroaCount: latest?.varroaCount ?? null,
+        needsAttention: latest
+          ? getInspectionWarnings(latest).length > 0
+          : false,
+      }
+    })
+    // Hives without a colony only matter if they produced something
+    .filter(
+      (record) =>
+        record.status === 'active' ||
+        record.honeyKg > 0 ||
+        record.waxKg > 0 ||
+        record.inspections > 0,
+    )
+
+  const colonyCount = hives.filter((hive) => hive.status === 'active').length
+
+  return {
+    records,
+    summary: {
+      colonyCount,
+      totalHoneyKg: round2(totalHoneyKg),
+      totalWaxKg: round2(totalWaxKg),
+      honeyPerColony: calculateYieldPerColony(totalHoneyKg, colonyCount),
+      waxPerColony: calculateYieldPerColony(totalWaxKg, colonyCount),
+      hivesNeedingAttention: records.filter((record) => record.needsAttention)
+        .length,
+    },
+  }
+}
+
+/**
+ * Attribute wool revenue to the clip shorn in the same period
+ *
+ * @param clips - Shearing records in the period (DECIMAL columns as strings)
+ * @param woolRevenue - Revenue from wool and fleece sales in the period
+ * @returns Clip totals with revenue per fleece and per greasy kg, or null
+ * when the period has neither shearing nor wool sales
+ *
+ * @example
+ * ```ts
+ * calculateWoolAttribution(
+ *   [{ fleeceCount: 100, greasyWeightKg: '450.00', micronGrade: null, yieldPercent: '60.00' }],
+ *   90000,
+ * )
+ * // Returns: { fleeceCount: 100, greasyWeightKg: 450, cleanWeightKg: 270,
+ * //            revenue: 90000, revenuePerFleece: 900, revenuePerKg: 200 }
+ * ```
+ */
+export function calculateWoolAttribution(
+  clips: Array<{
+    fleeceCount: number
+    greasyWeightKg: number | string
+    micronGrade: number | string | null
+    yieldPercent: number | string | null
+  }>,
+  woolRevenue: number,
+): {
+  fleeceCount: number
+  greasyWeightKg: number
+  cleanWeightKg: number
+  revenue: number
+  revenuePerFleece: number
+  revenuePerKg: number
+} | null {
+  if (clips.length === 0 && woolRevenue === 0) return null
+
+  const round2 = (value: number) => Math.round(value * 100) / 100
+  const clip = buildShearingSummary(clips)
+
+  return {
+    fleeceCount: clip.fleeceCount,
+    greasyWeightKg: clip.greasyWeightKg,
+    cleanWeightKg: clip.cleanWeightKg,
+    revenue: round2(woolRevenue),
+    revenuePerFleece:
+      clip.fleeceCount > 0 ? round2(woolRevenue / clip.fleeceCount) : 0,
+    revenuePerKg:
+      clip.greasyWeightKg > 0 ? round2(woolRevenue / clip.greasyWeightKg) : 0,
+  }
+}
+
+/**
+ * Build per-batch rows and reproductive KPIs for a breeding report
+ *
+ * @param events - Breeding events mated in the period
+ * @param births - Births of those events
+ * @param damBirths - Every birth of a tagged dam, for birth intervals
+ * @param asOf - Reference date for overdue events (defaults to now)
+ * @returns Per-batch records and summary
+ *
+ * @example
+ * ```ts
+ * const { summary } = calculateBreedingReport(
+ *   [{ id: 'e1', batchId: 'b1', damId: null, livestockType: 'goats',
+ *      femaleCount: 10, status: 'delivered', expectedDueDate: new Date(),
+ *      batchName: 'Does 2025', species: 'boer' }],
+ *   [{ breedingEventId: 'e1', damId: null, birthDate: new Date(),
+ *      liveBorn: 17, stillborn: 1, weanedCount: 15 }],
+ *   [],
+ * )
+ * // summary.kiddingRate: 170, summary.weaningPercent: 88.2
+ * ```
+ */
+export function calculateBreedingReport(
+  events: Array<{
+    id: string
+    batchId: string
+    damId: string | null
+    livestockType: string
+    femaleCount: number
+    status: BreedingStatus
+    expectedDueDate: Date
+    batchName: string | null
+    species: string
+  }>,
+  births: Array<{
+    breedingEventId: string
+    damId: string | null
+    birthDate: Date
+    liveBorn: number
+    stillborn: number
+    weanedCount: number | null
+  }>,
+  damBirths: Array<{ damId: string | null; birthDate: Date }>,
+  asOf: Date = new Date(),
+): {
+  records: Array<{
+    batchName: string
+    livestockType: string
+    femalesBred: number
+    awaitingBirth: number
+    liveBorn: number
+    stillborn: number
+    weaned: number
+    kiddingRate: number | null
+  }>
+  summary: {
+    matings: number
+    femalesBred: number
+    awaitingBirth: number
+    overdue: number
+    births: number
+    liveBorn: number
+    stillborn: number
+    weaned: number
+    kiddingRate: number | null
+    weaningPercent: number | null
+    calvingIntervalDays: number | null
+  }
+} {
+  const sumBirths = (list: typeof births) => ({
+    liveBorn: list.reduce((sum, birth) => sum + birth.liveBorn, 0),
+    stillborn: list.reduce((sum, birth) => sum + birth.stillborn, 0),
+    weaned: list.reduce((sum, birth) => sum + (birth.weanedCount ?? 0), 0),
+  })
+
+  const batchIds = [...new Set(events.map((event) => event.batchId))]
+  const records = batchIds.map((batchId) => {
+    const batchEvents = events.filter((event) => event.batchId === batchId)
+    const eventIds = new Set(batchEvents.map((event) => event.id))
+    const batchBirths = births.filter((birth) =>
+      eventIds.has(birth.breedingEventId),
+    )
+    const first = batchEvents[0]
+
+    return {
+      batchName: first.batchName ?? first.species,
+      livestockType: first.livestockType,
+      femalesBred: batchEvents.reduce(
+        (sum, event) => sum + event.femaleCount,
+        0,
+      ),
+      awaitingBirth: batchEvents.filter((event) =>
+        isAwaitingBirth(event.status),
+      ).length,
+      ...sumBirths(batchBirths),
+      kiddingRate: calculateKiddingRate(batchEvents, batchBirths),
+    }
+  })
+
+  const awaiting = events.filter((event) => isAwaitingBirth(event.status))
+  const bredDams = new Set(events.map((event) => event.damId))
+
+  return {
+    records,
+    summary: {
+      matings: events.length,
+      femalesBred: events.reduce((sum, event) => sum + event.femaleCount, 0),
+      awaitingBirth: awaiting.length,
+      overdue: awaiting.filter(
+        (event) => getDaysOverdue(event.expectedDueDate, asOf) > 0,
+      ).length,
+      births: births.length,
+      ...sumBirths(births),
+      kiddingRate: calculateKiddingRate(events, births),
+      weaningPercent: calculateWeaningPercent(births),
+      calvingIntervalDays: calculateCalvingInterval(
+        damBirths.filter((birth) => bredDams.has(birth.damId)),
+      ),
+    },
+  }
+}
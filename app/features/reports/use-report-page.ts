@@ -1,6 +1,5 @@
 import { useState } from 'react'
 import { useTranslation } from 'react-i18next'
-import { toast } from 'sonner'
 import { useBusinessSettings } from '../settings'
 import { getFiscalYearEnd, getFiscalYearStart } from './fiscal-year'
 
@@ -47,41 +46,9 @@ export function useReportPage({
   }
 
   const handleExport = (format: 'csv' | 'xlsx' | 'pdf') => {
-    // Only CSV export is currently implemented
-    if (format === 'xlsx') {
-      toast.info(
-        t('reports:exportNotAvailable.excel.title', {
-          defaultValue: 'Excel Export Not Available',
-        }),
-        {
-          description: t('reports:exportNotAvailable.excel.description', {
-            defaultValue:
-              'Excel export is not yet implemented. Please use CSV export instead.',
-          }),
-        },
-      )
-      return
-    }
-
-    if (format === 'pdf') {
-      toast.info(
-        t('reports:exportNotAvailable.pdf.title', {
-          defaultValue: 'PDF Export Not Available',
-        }),
-        {
-          description: t('reports:exportNotAvailable.pdf.description', {
-            defaultValue:
-              'PDF export is temporarily disabled due to bundle size constraints. Please use CSV export instead.',
-          }),
-        },
-      )
-      return
-    }
-
-    // CSV export works - redirect to export endpoint
     const params = new URLSearchParams({
       type: selectedReport,
-      format: 'csv',
+      format,
       startDate,
       endDate,
     })
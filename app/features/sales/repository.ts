@@ -5,6 +5,7 @@
 
 import type { Kysely } from 'kysely'
 import type { Database } from '~/lib/db/types'
+import type { SaleTable } from '~/lib/db/types/financial'
 import type { PaymentMethod, PaymentStatus, UnitType } from './server'
 
 /**
@@ -14,7 +15,7 @@ export interface SaleInsert {
   farmId: string
   batchId: string | null
   customerId: string | null
-  livestockType: 'poultry' | 'fish' | 'cattle' | 'goats' | 'sheep' | 'bees'
+  livestockType: SaleTable['livestockType']
   quantity: number
   unitPrice: string
   totalAmount: string
@@ -320,9 +321,7 @@ export async function getSalesByFarm(
     )
   }
 
-  return (await query
-    .orderBy('sales.date', 'desc')
-    .execute()) as Array<SaleWithJoins>
+  return await query.orderBy('sales.date', 'desc').execute()
 }
 
 /**
@@ -9,6 +9,7 @@ import type {
   UnitType,
   UpdateSaleInput,
 } from './types'
+import type { ActiveWithdrawal } from '~/features/vaccinations/types'
 
 export type { PaginatedResult, UnitType, PaymentStatus, PaymentMethod }
 
@@ -20,6 +21,8 @@ export const UNIT_TYPES: Array<{ value: UnitType; label: string }> = [
   { value: 'kg', label: 'Kilogram (kg)' },
   { value: 'crate', label: 'Crate' },
   { value: 'piece', label: 'Piece' },
+  { value: 'liter', label: 'Liter (L)' },
+  { value: 'fleece', label: 'Fleece' },
 ]
 
 /**
@@ -52,6 +55,47 @@ export const PAYMENT_METHODS: Array<{ value: PaymentMethod; label: string }> = [
   { value: 'credit', label: 'Credit' },
 ]
 
+/**
+ * Ensure enough saleable milk (milked minus rejected minus already sold) is
+ * on hand to cover a milk sale.
+ *
+ * @param farmId - Farm the milk belongs to
+ * @param batchId - Dairy batch, or null to check the whole farm
+ * @param liters - Litres being sold
+ * @param alreadyCounted - Litres of this sale already counted as sold (updates)
+ * @throws {AppError} INSUFFICIENT_STOCK if the milk is not available
+ */
+async function assertMilkAvailable(
+  farmId: string,
+  batchId: string | null,
+  liters: number,
+  alreadyCounted = 0,
+): Promise<void> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { AppError } = await import('~/lib/errors')
+  const { getMilkVolumes, getMilkSoldLiters } =
+    await import('~/features/milk/repository')
+  const { calculateMilkTotals, calculateAvailableMilk } =
+    await import('~/features/milk/service')
+
+  const [volumes, soldLiters] = await Promise.all([
+    getMilkVolumes(db, [farmId], batchId ?? undefined),
+    getMilkSoldLiters(db, [farmId], batchId ?? undefined),
+  ])
+  const available = calculateAvailableMilk(
+    calculateMilkTotals(volumes).totalSaleable,
+    soldLiters - alreadyCounted,
+  )
+
+  if (liters > available) {
+    throw new AppError('INSUFFICIENT_STOCK', {
+      message: 'Not enough saleable milk recorded for this sale',
+      metadata: { current: available, requested: liters },
+    })
+  }
+}
+
 /**
  * Create a new sales record, update batch quantity if applicable, and log audit
  *
@@ -59,6 +103,8 @@ export const PAYMENT_METHODS: Array<{ value: PaymentMethod; label: string }> = [
  * @param input - Sales data input
  * @returns Promise resolving to the created sale ID
  * @throws {Error} If user lacks access to the farm or batch
+ * @throws {AppError} WITHDRAWAL_PERIOD_ACTIVE if the batch is still in a
+ * treatment withdrawal period and no override reason is given
  *
  * @example
  * ```typescript
@@ -79,18 +125,56 @@ export async function createSale(
   const db = await getDb()
   const { verifyFarmAccess } = await import('~/features/auth/utils')
   const { AppError } = await import('~/lib/errors')
-  const { calculateSaleTotal, validateSaleData } = await import('./service')
+  const {
+    calculateSaleTotal,
+    isProductSale,
+    requiresWithdrawalClearance,
+    validateSaleData,
+  } = await import('./service')
   const { insertSale, getBatchById, atomicDecrementBatchQuantity } =
     await import('./repository')
+  const { assertWithdrawalCleared } =
+    await import('~/features/vaccinations/server')
+
+  // Record any withdrawal override against the new sale
+  const auditWithdrawalOverride = async (
+    saleId: string,
+    withdrawal: ActiveWithdrawal | null,
+  ) => {
+    if (!withdrawal) return
+    const { logAudit } = await import('~/lib/logging/audit')
+    await logAudit({
+      userId,
+      action: 'withdrawal_override',
+      entityType: 'sale',
+      entityId: saleId,
+      details: {
+        batchId: input.batchId,
+        livestockType: input.livestockType,
+        reason: input.withdrawalOverrideReason,
+        clearsOn: withdrawal.clearsOn.toISOString(),
+        medications: withdrawal.medications,
+      },
+    })
+  }
 
   try {
     await verifyFarmAccess(userId, input.farmId)
 
     // Business logic: calculate total amount
     const totalAmount = calculateSaleTotal(input.quantity, input.unitPrice)
+    const productSale = isProductSale(input.livestockType)
+
+    if (input.livestockType === 'milk') {
+      await assertMilkAvailable(
+        input.farmId,
+        input.batchId ?? null,
+        input.quantity,
+      )
+    }
 
-    // Get batch for validation if selling from batch
-    if (input.batchId) {
+    // Get batch for validation if selling animals from batch
+    if (input.batchId && !productSale) {
       const batch = await getBatchById(db, input.batchId)
       if (!batch) {
         throw new AppError('BATCH_NOT_FOUND', {
@@ -123,8 +207,14 @@ export async function createSale(
         })
       }
 
+      const withdrawal = await assertWithdrawalCleared(
+        input.batchId,
+        input.date,
+        input.withdrawalOverrideReason,
+      )
+
       // Perform updates in transaction
-      return await db.transaction().execute(async (tx) => {
+      const saleId = await db.transaction().execute(async (tx) => {
         // Update batch quantity atomically
         await atomicDecrementBatchQuantity(tx, input.batchId!, input.quantity)
 
@@ -146,7 +236,27 @@ export async function createSale(
           paymentMethod: input.paymentMethod || null,
         })
       })
+      await auditWithdrawalOverride(saleId, withdrawal)
+      return saleId
     } else {
+      let withdrawal: ActiveWithdrawal | null = null
+      if (input.batchId) {
+        const batch = await getBatchById(db, input.batchId)
+        if (!batch || batch.farmId !== input.farmId) {
+          throw new AppError('BATCH_NOT_FOUND', {
+            metadata: { batchId: input.batchId, farmId: input.farmId },
+          })
+        }
+
+        if (requiresWithdrawalClearance(input.livestockType)) {
+          withdrawal = await assertWithdrawalCleared(
+            input.batchId,
+            input.date,
+            input.withdrawalOverrideReason,
+          )
+        }
+      }
+
       // Validate without batch quantity check
       const validationError = validateSaleData(input, null)
       if (validationError) {
@@ -156,7 +266,7 @@ export async function createSale(
       }
 
       // Insert sale (no transaction needed for single operation)
-      return await insertSale(db, {
+      const saleId = await insertSale(db, {
         farmId: input.farmId,
         batchId: input.batchId ?? null,
         customerId: input.customerId ?? null,
@@ -172,6 +282,8 @@ export async function createSale(
         paymentStatus: input.paymentStatus || 'paid',
         paymentMethod: input.paymentMethod || null,
       })
+      await auditWithdrawalOverride(saleId, withdrawal)
+      return saleId
     }
   } catch (error) {
     if (error instanceof AppError) throw error
@@ -197,13 +309,21 @@ export const createSaleFn = createServerFn({ method: 'POST' })
           'goats',
           'sheep',
           'bees',
+          'eggs',
+          'honey',
+          'milk',
+          'wool',
+          'beeswax',
+          'propolis',
+          'royal_jelly',
+          'manure',
         ]),
         quantity: z.number().int().positive(),
         unitPrice: z.number().nonnegative(),
         date: z.coerce.date(),
         notes: z.string().optional().nullable(),
         unitType: z
-          .enum(['bird', 'kg', 'crate', 'piece'])
+          .enum(['bird', 'kg', 'crate', 'piece', 'liter', 'fleece'])
           .optional()
           .nullable(),
         ageWeeks: z.number().int().positive().optional().nullable(),
@@ -216,6 +336,13 @@ export const createSaleFn = createServerFn({ method: 'POST' })
           .enum(['cash', 'transfer', 'credit'])
           .optional()
           .nullable(),
+        withdrawalOverrideReason: z
+          .string()
+          .trim()
+          .min(1)
+          .max(500)
+          .optional()
+          .nullable(),
       }),
     }),
   )
@@ -247,6 +374,7 @@ export async function deleteSale(userId: string, saleId: string) {
     deleteSale: deleteSaleRecord,
     restoreBatchQuantityOnDelete,
   } = await import('./repository')
+  const { isProductSale } = await import('./service')
 
   try {
     const userFarms = await getUserFarms(userId)
@@ -267,8 +395,8 @@ export async function deleteSale(userId: string, saleId: string) {
       })
     }
 
-    // If sale was from a batch (not eggs), restore the quantity
-    if (sale.batchId) {
+    // If animals were sold from a batch, restore the quantity
+    if (sale.batchId && !isProductSale(sale.livestockType)) {
       await restoreBatchQuantityOnDelete(db, sale.batchId, sale.quantity)
     }
 
@@ -299,6 +427,8 @@ export const deleteSaleFn = createServerFn({ method: 'POST' })
  * @param data - Updated sales data
  * @returns Promise resolving to true on success
  * @throws {Error} If sale is not found or access is denied
+ * @throws {AppError} WITHDRAWAL_PERIOD_ACTIVE if the new date falls in the
+ * batch's treatment withdrawal period and no override reason is given
  *
  * @example
  * ```typescript
@@ -317,6 +447,8 @@ export async function updateSale(
   const {
     calculateQuantityDifference,
     calculateNewTotalAmount,
+    isProductSale,
+    requiresWithdrawalClearance,
     validateUpdateData,
   } = await import('./service')
   const {
@@ -324,6 +456,8 @@ export async function updateSale(
     updateSale: updateSaleRecord,
     adjustBatchQuantityOnUpdate,
   } = await import('./repository')
+  const { assertWithdrawalCleared } =
+    await import('~/features/vaccinations/server')
 
   try {
     // Verify access
@@ -350,12 +484,41 @@ export async function updateSale(
       })
     }
 
+    if (
+      sale.livestockType === 'milk' &&
+      data.quantity !== undefined &&
+      data.quantity > sale.quantity
+    ) {
+      await assertMilkAvailable(
+        sale.farmId,
+        sale.batchId,
+        data.quantity,
+        sale.quantity,
+      )
+    }
+
+    // Re-dating a sale must not move it into a treatment withdrawal period
+    let withdrawal: ActiveWithdrawal | null = null
+    if (
+      data.date !== undefined &&
+      data.date.getTime() !== new Date(sale.date).getTime() &&
+      sale.batchId &&
+      requiresWithdrawalClearance(sale.livestockType)
+    ) {
+      withdrawal = await assertWithdrawalCleared(
+        sale.batchId,
+        data.date,
+        data.withdrawalOverrideReason,
+      )
+    }
+
     await db.transaction().execute(async (tx) => {
-      // 1. If quantity changed, handle inventory
+      // 1. If animal quantity changed, handle inventory
       if (
         data.quantity !== undefined &&
         data.quantity !== sale.quantity &&
-        sale.batchId
+        sale.batchId &&
+        !isProductSale(sale.livestockType)
       ) {
         const quantityDiff = calculateQuantityDifference(
           sale.quantity,
@@ -390,9 +553,26 @@ export async function updateSale(
         updateData.paymentMethod = data.paymentMethod
 
       // 3. Update sale
-      await updateSaleRecord(tx, saleId, updateData as any)
+      await updateSaleRecord(tx, saleId, updateData)
     })
 
+    if (withdrawal) {
+      const { logAudit } = await import('~/lib/logging/audit')
+      await logAudit({
+        userId,
+        action: 'withdrawal_override',
+        entityType: 'sale',
+        entityId: saleId,
+        details: {
+          batchId: sale.batchId,
+          livestockType: sale.livestockType,
+          reason: data.withdrawalOverrideReason,
+          clearsOn: withdrawal.clearsOn.toISOString(),
+          medications: withdrawal.medications,
+        },
+      })
+    }
+
     return true
   } catch (error) {
     if (error instanceof AppError) throw error
@@ -413,7 +593,7 @@ export const updateSaleFn = createServerFn({ method: 'POST' })
         date: z.coerce.date().optional(),
         notes: z.string().optional().nullable(),
         unitType: z
-          .enum(['bird', 'kg', 'crate', 'piece'])
+          .enum(['bird', 'kg', 'crate', 'piece', 'liter', 'fleece'])
           .optional()
           .nullable(),
         ageWeeks: z.number().int().positive().optional().nullable(),
@@ -426,6 +606,13 @@ export const updateSaleFn = createServerFn({ method: 'POST' })
           .enum(['cash', 'transfer', 'credit'])
           .optional()
           .nullable(),
+        withdrawalOverrideReason: z
+          .string()
+          .trim()
+          .min(1)
+          .max(500)
+          .optional()
+          .nullable(),
       }),
     }),
   )
@@ -808,8 +995,19 @@ export const getSalesPageDataFn = createServerFn({ method: 'GET' })
       data.farmId
         ? (async () => {
             const { getBatches } = await import('~/features/batches/server')
+            const { getBatchWithdrawals } =
+              await import('~/features/vaccinations/server')
             const allBatches = await getBatches(session.user.id, data.farmId)
-            return allBatches.filter((b) => b.status === 'active')
+            const activeBatches = allBatches.filter(
+              (b) => b.status === 'active',
+            )
+            const withdrawals = await getBatchWithdrawals(
+              activeBatches.map((b) => b.id),
+            )
+            return activeBatches.map((b) => ({
+              ...b,
+              withdrawalClearsOn: withdrawals.get(b.id)?.clearsOn ?? null,
+            }))
           })()
         : Promise.resolve([]),
       (async () => {
@@ -838,6 +1036,8 @@ export const getSaleFormDataFn = createServerFn({ method: 'GET' })
     const db = await getDb()
     const { requireAuth } = await import('~/features/auth/server-middleware')
     const { verifyFarmAccess } = await import('~/features/auth/utils')
+    const { getBatchWithdrawals } =
+      await import('~/features/vaccinations/server')
 
     const session = await requireAuth()
     await verifyFarmAccess(session.user.id, data.farmId)
@@ -852,5 +1052,12 @@ export const getSaleFormDataFn = createServerFn({ method: 'GET' })
         .execute(),
       db.selectFrom('customers').select(['id', 'name', 'phone']).execute(),
     ])
-    return { batches, customers }
+    const withdrawals = await getBatchWithdrawals(batches.map((b) => b.id))
+    return {
+      batches: batches.map((b) => ({
+        ...b,
+        withdrawalClearsOn: withdrawals.get(b.id)?.clearsOn ?? null,
+      })),
+      customers,
+    }
   })
@@ -3,6 +3,7 @@
  * All functions are side-effect-free and easily unit testable.
  */
 
+import { PRODUCT_SALE_TYPES, WITHDRAWAL_EXEMPT_SALE_TYPES } from './types'
 import type { CreateSaleInput, UpdateSaleInput } from './types'
 import type { SaleWithJoins } from './repository'
 import { multiply, toDbString } from '~/features/settings/currency'
@@ -119,7 +120,7 @@ export function validateSaleData(
   // Validate unit type if provided
   if (
     data.unitType &&
-    !['bird', 'kg', 'crate', 'piece'].includes(data.unitType)
+    !['bird', 'kg', 'crate', 'piece', 'liter', 'fleece'].includes(data.unitType)
   ) {
     return 'Invalid unit type'
   }
@@ -127,6 +128,42 @@ export function validateSaleData(
   return null
 }
 
+/**
+ * Whether a sale is of a batch's produce (milk, eggs, wool...) rather than
+ * its animals. Product sales leave the batch head count untouched.
+ *
+ * @param livestockType - The sale's livestock or product type
+ * @returns True for product sales
+ *
+ * @example
+ * ```ts
+ * isProductSale('milk') // Returns: true
+ * isProductSale('cattle') // Returns: false
+ * ```
+ */
+export function isProductSale(livestockType: string): boolean {
+  return (PRODUCT_SALE_TYPES as ReadonlyArray<string>).includes(livestockType)
+}
+
+/**
+ * Whether a sale from a batch must wait out the batch's treatment
+ * withdrawal periods. Only non-food produce (wool, manure) is exempt.
+ *
+ * @param livestockType - The sale's livestock or product type
+ * @returns True if the withdrawal check applies
+ *
+ * @example
+ * ```ts
+ * requiresWithdrawalClearance('milk') // Returns: true
+ * requiresWithdrawalClearance('wool') // Returns: false
+ * ```
+ */
+export function requiresWithdrawalClearance(livestockType: string): boolean {
+  return !(WITHDRAWAL_EXEMPT_SALE_TYPES as ReadonlyArray<string>).includes(
+    livestockType,
+  )
+}
+
 /**
  * Calculate new batch quantity after sale
  *
@@ -336,7 +373,7 @@ export function validateUpdateData(data: UpdateSaleInput): string | null {
   // Validate unit type if provided
   if (
     data.unitType &&
-    !['bird', 'kg', 'crate', 'piece'].includes(data.unitType)
+    !['bird', 'kg', 'crate', 'piece', 'liter', 'fleece'].includes(data.unitType)
   ) {
     return 'Invalid unit type'
   }
@@ -7,11 +7,32 @@ import type { SaleTable } from '~/lib/db/types/financial'
 
 export type { PaginatedResult }
 
-export type UnitType = 'bird' | 'kg' | 'crate' | 'piece'
+export type UnitType = 'bird' | 'kg' | 'crate' | 'piece' | 'liter' | 'fleece'
 export type PaymentStatus = 'paid' | 'pending' | 'partial'
 export type PaymentMethod = 'cash' | 'transfer' | 'credit'
 
-// ... existing imports
+/**
+ * Sale types that sell what a batch produces rather than the animals
+ * themselves, so they never change a batch's head count
+ */
+export const PRODUCT_SALE_TYPES = [
+  'eggs',
+  'honey',
+  'milk',
+  'wool',
+  'beeswax',
+  'propolis',
+  'royal_jelly',
+  'manure',
+] as const satisfies ReadonlyArray<SaleTable['livestockType']>
+
+/**
+ * Non-food sale types that may leave a batch during a treatment withdrawal
+ */
+export const WITHDRAWAL_EXEMPT_SALE_TYPES = [
+  'wool',
+  'manure',
+] as const satisfies ReadonlyArray<SaleTable['livestockType']>
 
 export interface CreateSaleInput {
   /** ID of the farm the sale belongs to */
@@ -31,7 +52,7 @@ export interface CreateSaleInput {
   /** Optional transaction notes */
   notes?: string | null
   // Enhanced fields
-  /** The unit of measurement for quantity (bird, kg, crate, piece) */
+  /** The unit of measurement for quantity (bird, kg, crate, piece, liter) */
   unitType?: UnitType | null
   /** Optional age of the livestock in weeks at time of sale */
   ageWeeks?: number | null
@@ -41,6 +62,8 @@ export interface CreateSaleInput {
   paymentStatus?: PaymentStatus | null
   /** Method of payment used (cash, transfer, credit) */
   paymentMethod?: PaymentMethod | null
+  /** Reason for selling from a batch still in a treatment withdrawal period */
+  withdrawalOverrideReason?: string | null
 }
 
 /**
@@ -66,6 +89,8 @@ export interface UpdateSaleInput {
   paymentStatus?: PaymentStatus | null
   /** Updated payment method */
   paymentMethod?: PaymentMethod | null
+  /** Reason for moving the sale into a treatment withdrawal period */
+  withdrawalOverrideReason?: string | null
 }
 
 /**
@@ -113,6 +138,8 @@ export interface SaleBatch {
   livestockType: string
   currentQuantity: number
   status: string
+  /** First day produce may be sold, if a treatment withdrawal is open */
+  withdrawalClearsOn?: Date | null
 }
 
 /**
@@ -0,0 +1,103 @@
+/**
+ * Actuator processor - evaluates the rules on a sensor when it reports and
+ * switches the actuators they drive
+ */
+
+import {
+  evaluateActuatorRule,
+  isOverrideActive,
+  selectRuleAction,
+} from './actuator-service'
+import {
+  applyActuatorChange,
+  getActiveRulesForSensor,
+  getLastRuleSwitchAt,
+  markRuleTriggered,
+} from './actuator-repository'
+import { getValidReadingsInWindow } from './readings-repository'
+import {
+  ACTUATOR_MAX_READING_AGE_MINUTES,
+  ACTUATOR_RULE_LOOKBACK_MINUTES,
+} from './constants'
+import type { Database } from '~/lib/db/types'
+import type { Kysely } from 'kysely'
+
+/**
+ * Evaluate a sensor's actuator rules after new readings were stored. Only
+ * current readings drive actuators: backfilled uploads are ignored. Expired
+ * manual overrides are handed back to the rules first.
+ *
+ * @param db - Database connection
+ * @param sensorId - Sensor that reported
+ * @param readings - Readings just stored
+ * @param now - Current time
+ * @returns Number of actuators switched
+ */
+export async function evaluateActuatorRules(
+  db: Kysely<Database>,
+  sensorId: string,
+  readings: Array<{ value: number; recordedAt: Date }>,
+  now: Date = new Date(),
+): Promise<number> {
+  if (readings.length === 0) return 0
+
+  const at = new Date(Math.max(...readings.map((r) => r.recordedAt.getTime())))
+  if (now.getTime() - at.getTime() > ACTUATOR_MAX_READING_AGE_MINUTES * 60000) {
+    return 0
+  }
+
+  const rules = await getActiveRulesForSensor(db, sensorId)
+  if (rules.length === 0) return 0
+
+  const longest = Math.max(...rules.map((r) => r.durationMinutes))
+  const history = await getValidReadingsInWindow(
+    db,
+    sensorId,
+    new Date(
+      at.getTime() - (longest + ACTUATOR_RULE_LOOKBACK_MINUTES) * 60 * 1000,
+    ),
+    at,
+  )
+
+  let switched = 0
+  for (const actuatorId of new Set(rules.map((r) => r.actuatorId))) {
+    const actuatorRules = rules.filter((r) => r.actuatorId === actuatorId)
+    const { state, mode, overrideUntil } = actuatorRules[0]
+    const actuator = { id: actuatorId, state, mode, overrideUntil }
+
+    if (actuator.mode === 'manual' && !isOverrideActive(actuator, now)) {
+      await applyActuatorChange(db, actuator, {
+        state: actuator.state,
+        mode: 'auto',
+        overrideUntil: null,
+        source: 'override_expired',
+      })
+      actuator.mode = 'auto'
+      actuator.overrideUntil = null
+    }
+
+    const fired = actuatorRules.filter((rule) =>
+      evaluateActuatorRule(rule, history, at),
+    )
+    const rule = selectRuleAction(
+      actuator,
+      fired,
+      await getLastRuleSwitchAt(db, actuatorId),
+      now,
+    )
+    if (!rule) continue
+
+    await applyActuatorChange(db, actuator, {
+      state: rule.action,
+      mode: 'auto',
+      overrideUntil: null,
+      source: 'rule',
+      ruleId: rule.id,
+      reason: `${rule.condition} ${rule.threshold}${rule.durationMinutes > 0 ? ` for ${rule.durationMinutes} min` : ''}`,
+    })
+    await markRuleTriggered(db, rule.id, now)
+    switched++
+  }
+
+  return switched
+}
@@ -0,0 +1,436 @@
+import type { Kysely } from 'kysely'
+import type {
+  Actuator,
+  ActuatorChangeSource,
+  ActuatorMode,
+  ActuatorRule,
+  ActuatorRuleCondition,
+  ActuatorState,
+  ActuatorStateChange,
+  ActuatorType,
+} from './types'
+import type { Database } from '~/lib/db/types'
+
+interface ActuatorInsert {
+  farmId: string
+  structureId: string
+  name: string
+  actuatorType: ActuatorType
+  apiKeyHash: string
+}
+
+interface ActuatorUpdate {
+  name?: string
+  isActive?: boolean
+  apiKeyHash?: string
+}
+
+interface ActuatorRuleInsert {
+  actuatorId: string
+  sensorId: string
+  condition: ActuatorRuleCondition
+  threshold: number
+  durationMinutes: number
+  action: ActuatorState
+}
+
+interface StateChangeInsert {
+  actuatorId: string
+  fromState: ActuatorState | null
+  toState: ActuatorState
+  fromMode: ActuatorMode | null
+  toMode: ActuatorMode | null
+  source: ActuatorChangeSource
+  ruleId?: string | null
+  userId?: string | null
+  commandId?: string | null
+  reason?: string | null
+}
+
+export async function insertActuator(
+  db: Kysely<Database>,
+  data: ActuatorInsert,
+): Promise<string> {
+  const result = await db
+    .insertInto('actuators')
+    .values(data)
+    .returning('id')
+    .executeTakeFirstOrThrow()
+  return result.id
+}
+
+export async function getActuatorById(db: Kysely<Database>, id: string) {
+  return db
+    .selectFrom('actuators')
+    .select([
+      'id',
+      'farmId',
+      'structureId',
+      'name',
+      'state',
+      'reportedState',
+      'mode',
+      'overrideUntil',
+      'isActive',
+    ])
+    .where('id', '=', id)
+    .where('deletedAt', 'is', null)
+    .executeTakeFirst()
+}
+
+export async function getActuatorByApiKeyHash(
+  db: Kysely<Database>,
+  apiKeyHash: string,
+) {
+  return db
+    .selectFrom('actuators')
+    .select([
+      'id',
+      'farmId',
+      'structureId',
+      'name',
+      'state',
+      'reportedState',
+      'mode',
+      'overrideUntil',
+      'isActive',
+    ])
+    .where('apiKeyHash', '=', apiKeyHash)
+    .where('deletedAt', 'is', null)
+    .executeTakeFirst()
+}
+
+export async function getActuatorsByFarm(
+  db: Kysely<Database>,
+  farmId: string,
+): Promise<Array<Actuator>> {
+  const actuators = await db
+    .selectFrom('actuators')
+    .leftJoin('structures', 'structures.id', 'actuators.structureId')
+    .select([
+      'actuators.id',
+      'actuators.farmId',
+      'actuators.structureId',
+      'structures.name as structureName',
+      'actuators.name',
+      'actuators.actuatorType',
+      'actuators.state',
+      'actuators.reportedState',
+      'actuators.mode',
+      'actuators.overrideUntil',
+      'actuators.isActive',
+      'actuators.lastSeenAt',
+    ])
+    .where('actuators.farmId', '=', farmId)
+    .where('actuators.deletedAt', 'is', null)
+    .orderBy('actuators.name')
+    .execute()
+
+  const rules = await getRulesByActuators(
+    db,
+    actuators.map((a) => a.id),
+  )
+  return actuators.map((a) => ({
+    ...a,
+    rules: rules.filter((r) => r.actuatorId === a.id),
+  }))
+}
+
+export async function updateActuator(
+  db: Kysely<Database>,
+  id: string,
+  data: ActuatorUpdate,
+) {
+  await db.updateTable('actuators').set(data).where('id', '=', id).execute()
+}
+
+export async function recordActuatorUsage(db: Kysely<Database>, id: string) {
+  await db
+    .updateTable('actuators')
+    .set((eb) => ({
+      lastSeenAt: new Date(),
+      requestCount: eb('requestCount', '+', 1),
+    }))
+    .where('id', '=', id)
+    .execute()
+}
+
+export async function softDeleteActuator(db: Kysely<Database>, id: string) {
+  await db
+    .updateTable('actuators')
+    .set({ deletedAt: new Date(), isActive: false })
+    .where('id', '=', id)
+    .execute()
+}
+
+/**
+ * Change an actuator's state and mode, queue a command for the device if the
+ * state changed, and record the change in the audit trail, atomically
+ *
+ * @returns ID of the queued command, if any
+ */
+export async function applyActuatorChange(
+  db: Kysely<Database>,
+  actuator: { id: string; state: ActuatorState; mode: ActuatorMode },
+  change: {
+    state: ActuatorState
+    mode: ActuatorMode
+    overrideUntil: Date | null
+    source: ActuatorChangeSource
+    ruleId?: string | null
+    userId?: string | null
+    reason?: string | null
+  },
+): Promise<string | null> {
+  return db.transaction().execute(async (trx) => {
+    await trx
+      .updateTable('actuators')
+      .set({
+        state: change.state,
+        mode: change.mode,
+        overrideUntil: change.overrideUntil,
+      })
+      .where('id', '=', actuator.id)
+      .execute()
+
+    let commandId: string | null = null
+    if (change.state !== actuator.state) {
+      // A device only needs the latest state, so older commands are dropped
+      await trx
+        .updateTable('actuator_commands')
+        .set({ status: 'superseded' })
+        .where('actuatorId', '=', actuator.id)
+        .where('status', 'in', ['pending', 'delivered'])
+        .execute()
+
+      const command = await trx
+        .insertInto('actuator_commands')
+        .values({ actuatorId: actuator.id, command: change.state })
+        .returning('id')
+        .executeTakeFirstOrThrow()
+      commandId = command.id
+    }
+
+    await insertStateChange(trx, {
+      actuatorId: actuator.id,
+      fromState: actuator.state,
+      toState: change.state,
+      fromMode: actuator.mode,
+      toMode: change.mode,
+      source: change.source,
+      ruleId: change.ruleId,
+      userId: change.userId,
+      commandId,
+      reason: change.reason,
+    })
+
+    return commandId
+  })
+}
+
+export async function insertStateChange(
+  db: Kysely<Database>,
+  data: StateChangeInsert,
+) {
+  await db.insertInto('actuator_state_changes').values(data).execute()
+}
+
+export async function getStateChanges(
+  db: Kysely<Database>,
+  actuatorId: string,
+  limit = 100,
+): Promise<Array<ActuatorStateChange>> {
+  return db
+    .selectFrom('actuator_state_changes')
+    .leftJoin('users', 'users.id', 'actuator_state_changes.userId')
+    .select([
+      'actuator_state_changes.id',
+      'actuator_state_changes.fromState',
+      'actuator_state_changes.toState',
+      'actuator_state_changes.fromMode',
+      'actuator_state_changes.toMode',
+      'actuator_state_changes.source',
+      'actuator_state_changes.ruleId',
+      'users.name as userName',
+      'actuator_state_changes.reason',
+      'actuator_state_changes.createdAt',
+    ])
+    .where('actuator_state_changes.actuatorId', '=', actuatorId)
+    .orderBy('actuator_state_changes.createdAt', 'desc')
+    .limit(limit)
+    .execute()
+}
+
+/**
+ * Latest command the device has not acknowledged yet. Delivered commands are
+ * re-sent until acknowledged, so a lost response is not a lost command.
+ */
+export async function getOutstandingCommand(
+  db: Kysely<Database>,
+  actuatorId: string,
+) {
+  return db
+    .selectFrom('actuator_commands')
+    .select(['id', 'command', 'status', 'createdAt'])
+    .where('actuatorId', '=', actuatorId)
+    .where('status', 'in', ['pending', 'delivered'])
+    .orderBy('createdAt', 'desc')
+    .limit(1)
+    .executeTakeFirst()
+}
+
+export async function markCommandDelivered(db: Kysely<Database>, id: string) {
+  await db
+    .updateTable('actuator_commands')
+    .set({ status: 'delivered', deliveredAt: new Date() })
+    .where('id', '=', id)
+    .where('status', '=', 'pending')
+    .execute()
+}
+
+export async function getCommandById(
+  db: Kysely<Database>,
+  id: string,
+  actuatorId: string,
+) {
+  return db
+    .selectFrom('actuator_commands')
+    .select(['id', 'command', 'status'])
+    .where('id', '=', id)
+    .where('actuatorId', '=', actuatorId)
+    .executeTakeFirst()
+}
+
+export async function markCommandAcknowledged(
+  db: Kysely<Database>,
+  id: string,
+) {
+  await db
+    .updateTable('actuator_commands')
+    .set({ status: 'acknowledged', acknowledgedAt: new Date() })
+    .where('id', '=', id)
+    .execute()
+}
+
+export async function updateReportedState(
+  db: Kysely<Database>,
+  id: string,
+  reportedState: ActuatorState,
+) {
+  await db
+    .updateTable('actuators')
+    .set({ reportedState })
+    .where('id', '=', id)
+    .execute()
+}
+
+export async function insertActuatorRule(
+  db: Kysely<Database>,
+  data: ActuatorRuleInsert,
+): Promise<string> {
+  const result = await db
+    .insertInto('actuator_rules')
+    .values({ ...data, threshold: data.threshold.toString() })
+    .returning('id')
+    .executeTakeFirstOrThrow()
+  return result.id
+}
+
+export async function getActuatorRuleById(db: Kysely<Database>, id: string) {
+  return db
+    .selectFrom('actuator_rules')
+    .select(['id', 'actuatorId', 'sensorId'])
+    .where('id', '=', id)
+    .executeTakeFirst()
+}
+
+export async function deleteActuatorRule(db: Kysely<Database>, id: string) {
+  await db.deleteFrom('actuator_rules').where('id', '=', id).execute()
+}
+
+export async function getRulesByActuators(
+  db: Kysely<Database>,
+  actuatorIds: Array<string>,
+): Promise<Array<ActuatorRule>> {
+  if (actuatorIds.length === 0) return []
+
+  const rows = await db
+    .selectFrom('actuator_rules')
+    .innerJoin('sensors', 'sensors.id', 'actuator_rules.sensorId')
+    .select([
+      'actuator_rules.id',
+      'actuator_rules.actuatorId',
+      'actuator_rules.sensorId',
+      'sensors.name as sensorName',
+      'sensors.sensorType',
+      'actuator_rules.condition',
+      'actuator_rules.threshold',
+      'actuator_rules.durationMinutes',
+      'actuator_rules.action',
+      'actuator_rules.isActive',
+      'actuator_rules.lastTriggeredAt',
+    ])
+    .where('actuator_rules.actuatorId', 'in', actuatorIds)
+    .orderBy('actuator_rules.createdAt')
+    .execute()
+
+  return rows.map((r) => ({ ...r, threshold: Number(r.threshold) }))
+}
+
+/**
+ * Active rules on a sensor, with the state of the active actuators they drive
+ */
+export async function getActiveRulesForSensor(
+  db: Kysely<Database>,
+  sensorId: string,
+) {
+  const rows = await db
+    .selectFrom('actuator_rules')
+    .innerJoin('actuators', 'actuators.id', 'actuator_rules.actuatorId')
+    .select([
+      'actuator_rules.id',
+      'actuator_rules.actuatorId',
+      'actuator_rules.condition',
+      'actuator_rules.threshold',
+      'actuator_rules.durationMinutes',
+      'actuator_rules.action',
+      'actuators.state',
+      'actuators.mode',
+      'actuators.overrideUntil',
+    ])
+    .where('actuator_rules.sensorId', '=', sensorId)
+    .where('actuator_rules.isActive', '=', true)
+    .where('actuators.isActive', '=', true)
+    .where('actuators.deletedAt', 'is', null)
+    .orderBy('actuator_rules.createdAt')
+    .execute()
+
+  return rows.map((r) => ({ ...r, threshold: Number(r.threshold) }))
+}
+
+/**
+ * When any rule last switched an actuator
+ */
+export async function getLastRuleSwitchAt(
+  db: Kysely<Database>,
+  actuatorId: string,
+): Promise<Date | null> {
+  const row = await db
+    .selectFrom('actuator_rules')
+    .select((eb) => eb.fn.max('lastTriggeredAt').as('lastTriggeredAt'))
+    .where('actuatorId', '=', actuatorId)
+    .executeTakeFirst()
+  return row?.lastTriggeredAt ?? null
+}
+
+export async function markRuleTriggered(
+  db: Kysely<Database>,
+  id: string,
+  at: Date,
+) {
+  await db
+    .updateTable('actuator_rules')
+    .set({ lastTriggeredAt: at })
+    .where('id', '=', id)
+    .execute()
+}
@@ -0,0 +1,447 @@
+import { createServerFn } from '@tanstack/react-start'
+import { z } from 'zod'
+import { ACTUATOR_RULE_CONDITIONS, ACTUATOR_TYPES } from './constants'
+import type {
+  Actuator,
+  ActuatorPollResult,
+  ActuatorRuleCondition,
+  ActuatorStateChange,
+  ActuatorType,
+} from './types'
+import { AppError } from '~/lib/errors'
+
+/** Header an actuator sends its API key in on the HTTP endpoints */
+const ACTUATOR_API_KEY_HEADER = 'x-actuator-api-key'
+
+const stateSchema = z.enum(['on', 'off'])
+
+async function requireActuatorFarmAccess(actuatorId: string) {
+  const { requireAuth } = await import('~/features/auth/server-middleware')
+  const session = await requireAuth()
+
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+
+  const { checkFarmAccess } = await import('~/features/auth/utils')
+  const { getActuatorById } = await import('./actuator-repository')
+
+  const actuator = await getActuatorById(db, actuatorId)
+  if (!actuator) throw new AppError('ACTUATOR_NOT_FOUND')
+  if (!(await checkFarmAccess(session.user.id, actuator.farmId))) {
+    throw new AppError('ACCESS_DENIED')
+  }
+  return { db, actuator, userId: session.user.id }
+}
+
+async function getDeviceActuator(apiKey: string) {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+
+  const { hashApiKey } = await import('./service')
+  const { getActuatorByApiKeyHash, recordActuatorUsage } =
+    await import('./actuator-repository')
+
+  const actuator = await getActuatorByApiKeyHash(db, await hashApiKey(apiKey))
+  if (!actuator) throw new AppError('INVALID_API_KEY')
+  if (!actuator.isActive) throw new AppError('ACTUATOR_INACTIVE')
+
+  await recordActuatorUsage(db, actuator.id)
+  return { db, actuator }
+}
+
+/**
+ * Return the command a device should apply. The device keeps receiving the
+ * same command until it acknowledges it.
+ *
+ * @param apiKey - Actuator API key
+ * @returns Desired state, mode and the outstanding command, if any
+ * @throws {AppError} INVALID_API_KEY if no actuator has this key
+ * @throws {AppError} ACTUATOR_INACTIVE if the actuator is deactivated
+ */
+export async function pollActuatorCommands(
+  apiKey: string,
+): Promise<ActuatorPollResult> {
+  try {
+    const { db, actuator } = await getDeviceActuator(apiKey)
+    const { getOutstandingCommand, markCommandDelivered } =
+      await import('./actuator-repository')
+
+    const command = await getOutstandingCommand(db, actuator.id)
+    if (command?.status === 'pending') {
+      await markCommandDelivered(db, command.id)
+    }
+
+    return {
+      state: actuator.state,
+      mode: actuator.mode,
+      command: command
+        ? {
+            id: command.id,
+            command: command.command,
+            createdAt: command.createdAt,
+          }
+        : null,
+    }
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to poll actuator commands',
+      cause: error,
+    })
+  }
+}
+
+/**
+ * Record that a device applied a command, and the state it reports. A
+ * reported state that differs from the last one is added to the audit trail.
+ *
+ * @param apiKey - Actuator API key
+ * @param commandId - Command being acknowledged
+ * @param state - State the device is now in
+ * @throws {AppError} ACTUATOR_COMMAND_NOT_FOUND if the command is not this
+ * actuator's
+ */
+export async function acknowledgeActuatorCommand(
+  apiKey: string,
+  commandId: string,
+  state: 'on' | 'off',
+): Promise<{ success: true }> {
+  try {
+    const { db, actuator } = await getDeviceActuator(apiKey)
+    const {
+      getCommandById,
+      insertStateChange,
+      markCommandAcknowledged,
+      updateReportedState,
+    } = await import('./actuator-repository')
+
+    const command = await getCommandById(db, commandId, actuator.id)
+    if (!command) throw new AppError('ACTUATOR_COMMAND_NOT_FOUND')
+
+    if (command.status !== 'acknowledged') {
+      await markCommandAcknowledged(db, command.id)
+    }
+
+    if (state !== actuator.reportedState) {
+      await updateReportedState(db, actuator.id, state)
+      await insertStateChange(db, {
+        actuatorId: actuator.id,
+        fromState: actuator.reportedState,
+        toState: state,
+        fromMode: null,
+        toMode: null,
+        source: 'device',
+        commandId: command.id,
+        reason:
+          state === command.command ? null : 'Device did not apply command',
+      })
+    }
+
+    return { success: true }
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to acknowledge actuator command',
+      cause: error,
+    })
+  }
+}
+
+function errorResponse(err: unknown): Response {
+  const error = err instanceof AppError ? err : new AppError('INTERNAL_ERROR')
+  return Response.json(error.toJSON(), { status: error.httpStatus })
+}
+
+/**
+ * HTTP handler for devices. The API key is read from the
+ * `X-Actuator-API-Key` header.
+ *
+ * - `GET /api/actuators/commands` polls for the outstanding command
+ * - `POST /api/actuators/commands/ack` with `{ commandId, state }`
+ *   acknowledges it
+ *
+ * @param request - Incoming request
+ * @returns JSON response with the result or an error
+ */
+export async function handleActuatorRequest(
+  request: Request,
+): Promise<Response> {
+  const apiKey = request.headers.get(ACTUATOR_API_KEY_HEADER)
+  if (!apiKey) return errorResponse(new AppError('INVALID_API_KEY'))
+
+  const { pathname } = new URL(request.url)
+  const isAck = pathname.endsWith('/ack')
+  const method = isAck ? 'POST' : 'GET'
+  if (request.method !== method) {
+    return Response.json(
+      { error: 'METHOD_NOT_ALLOWED' },
+      { status: 405, headers: { Allow: method } },
+    )
+  }
+
+  try {
+    if (!isAck) return Response.json(await pollActuatorCommands(apiKey))
+
+    const parsed = z
+      .object({ commandId: z.string().uuid(), state: stateSchema })
+      .safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return errorResponse(
+        new AppError('VALIDATION_ERROR', {
+          metadata: { issues: parsed.error.issues },
+        }),
+      )
+    }
+
+    return Response.json(
+      await acknowledgeActuatorCommand(
+        apiKey,
+        parsed.data.commandId,
+        parsed.data.state,
+      ),
+    )
+  } catch (err) {
+    if (!(err instanceof AppError) || err.httpStatus >= 500) {
+      const { error: logError } = await import('~/lib/logger')
+      logError('Actuator request failed', err)
+    }
+    return errorResponse(err)
+  }
+}
+
+/**
+ * Server functions for devices using the app's RPC transport
+ */
+export const pollActuatorCommandsFn = createServerFn({ method: 'POST' })
+  .inputValidator(z.object({ apiKey: z.string() }))
+  .handler(async ({ data }) => {
+    return pollActuatorCommands(data.apiKey)
+  })
+
+export const acknowledgeActuatorCommandFn = createServerFn({ method: 'POST' })
+  .inputValidator(
+    z.object({
+      apiKey: z.string(),
+      commandId: z.string().uuid(),
+      state: stateSchema,
+    }),
+  )
+  .handler(async ({ data }) => {
+    return acknowledgeActuatorCommand(data.apiKey, data.commandId, data.state)
+  })
+
+export const getActuatorsFn = createServerFn({ method: 'GET' })
+  .inputValidator(z.object({ farmId: z.string().uuid() }))
+  .handler(async ({ data }): Promise<Array<Actuator>> => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+
+    const { getDb } = await import('~/lib/db')
+    const db = await getDb()
+
+    const { checkFarmAccess } = await import('~/features/auth/utils')
+    const { getActuatorsByFarm } = await import('./actuator-repository')
+
+    if (!(await checkFarmAccess(session.user.id, data.farmId))) {
+      throw new AppError('ACCESS_DENIED')
+    }
+    return getActuatorsByFarm(db, data.farmId)
+  })
+
+export const createActuatorFn = createServerFn({ method: 'POST' })
+  .inputValidator(
+    z.object({
+      farmId: z.string().uuid(),
+      structureId: z.string().uuid(),
+      name: z.string().trim().min(1).max(100),
+      actuatorType: z.enum(
+        ACTUATOR_TYPES as unknown as [ActuatorType, ...Array<ActuatorType>],
+      ),
+    }),
+  )
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+
+    const { getDb } = await import('~/lib/db')
+    const db = await getDb()
+
+    const { checkFarmAccess } = await import('~/features/auth/utils')
+    const { generateApiKey, hashApiKey } = await import('./service')
+    const { insertActuator } = await import('./actuator-repository')
+
+    if (!(await checkFarmAccess(session.user.id, data.farmId))) {
+      throw new AppError('ACCESS_DENIED')
+    }
+
+    const apiKey = generateApiKey()
+    const actuatorId = await insertActuator(db, {
+      ...data,
+      apiKeyHash: await hashApiKey(apiKey),
+    })
+
+    return { actuatorId, apiKey }
+  })
+
+export const updateActuatorFn = createServerFn({ method: 'POST' })
+  .inputValidator(
+    z.object({
+      actuatorId: z.string().uuid(),
+      name: z.string().trim().min(1).max(100).optional(),
+      isActive: z.boolean().optional(),
+    }),
+  )
+  .handler(async ({ data }) => {
+    const { db } = await requireActuatorFarmAccess(data.actuatorId)
+    const { updateActuator } = await import('./actuator-repository')
+
+    const { actuatorId, ...updates } = data
+    await updateActuator(db, actuatorId, updates)
+    return { success: true }
+  })
+
+export const regenerateActuatorKeyFn = createServerFn({ method: 'POST' })
+  .inputValidator(z.object({ actuatorId: z.string().uuid() }))
+  .handler(async ({ data }) => {
+    const { db } = await requireActuatorFarmAccess(data.actuatorId)
+    const { generateApiKey, hashApiKey } = await import('./service')
+    const { updateActuator } = await import('./actuator-repository')
+
+    const apiKey = generateApiKey()
+    await updateActuator(db, data.actuatorId, {
+      apiKeyHash: await hashApiKey(apiKey),
+    })
+    return { apiKey }
+  })
+
+export const deleteActuatorFn = createServerFn({ method: 'POST' })
+  .inputValidator(z.object({ actuatorId: z.string().uuid() }))
+  .handler(async ({ data }) => {
+    const { db } = await requireActuatorFarmAccess(data.actuatorId)
+    const { softDeleteActuator } = await import('./actuator-repository')
+
+    await softDeleteActuator(db, data.actuatorId)
+    return { success: true }
+  })
+
+/**
+ * Server function to switch an actuator by hand. Rules are suspended until
+ * the override ends, or until the user hands control back when no duration
+ * is given.
+ */
+export const overrideActuatorFn = createServerFn({ method: 'POST' })
+  .inputValidator(
+    z.object({
+      actuatorId: z.string().uuid(),
+      state: stateSchema,
+      durationMinutes: z
+        .number()
+        .int()
+        .min(1)
+        .max(7 * 24 * 60)
+        .nullable(),
+    }),
+  )
+  .handler(async ({ data }) => {
+    const { db, actuator, userId } = await requireActuatorFarmAccess(
+      data.actuatorId,
+    )
+    const { applyActuatorChange } = await import('./actuator-repository')
+
+    await applyActuatorChange(db, actuator, {
+      state: data.state,
+      mode: 'manual',
+      overrideUntil: data.durationMinutes
+        ? new Date(Date.now() + data.durationMinutes * 60 * 1000)
+        : null,
+      source: 'manual',
+      userId,
+    })
+    return { success: true }
+  })
+
+/**
+ * Server function to hand an overridden actuator back to its rules
+ */
+export const resumeActuatorAutoFn = createServerFn({ method: 'POST' })
+  .inputValidator(z.object({ actuatorId: z.string().uuid() }))
+  .handler(async ({ data }) => {
+    const { db, actuator, userId } = await requireActuatorFarmAccess(
+      data.actuatorId,
+    )
+    const { applyActuatorChange } = await import('./actuator-repository')
+
+    if (actuator.mode !== 'auto') {
+      await applyActuatorChange(db, actuator, {
+        state: actuator.state,
+        mode: 'auto',
+        overrideUntil: null,
+        source: 'manual',
+        userId,
+      })
+    }
+    return { success: true }
+  })
+
+export const getActuatorHistoryFn = createServerFn({ method: 'GET' })
+  .inputValidator(z.object({ actuatorId: z.string().uuid() }))
+  .handler(async ({ data }): Promise<Array<ActuatorStateChange>> => {
+    const { db } = await requireActuatorFarmAccess(data.actuatorId)
+    const { getStateChanges } = await import('./actuator-repository')
+
+    return getStateChanges(db, data.actuatorId)
+  })
+
+export const createActuatorRuleFn = createServerFn({ method: 'POST' })
+  .inputValidator(
+    z.object({
+      actuatorId: z.string().uuid(),
+      sensorId: z.string().uuid(),
+      condition: z.enum(
+        ACTUATOR_RULE_CONDITIONS as unknown as [
+          ActuatorRuleCondition,
+          ...Array<ActuatorRuleCondition>,
+        ],
+      ),
+      threshold: z.number().finite(),
+      durationMinutes: z.number().int().min(0),
+      action: stateSchema,
+    }),
+  )
+  .handler(async ({ data }) => {
+    const { db, actuator } = await requireActuatorFarmAccess(data.actuatorId)
+    const { validateActuatorRule } = await import('./actuator-service')
+    const { getSensorById } = await import('./repository')
+    const { insertActuatorRule } = await import('./actuator-repository')
+
+    const sensor = await getSensorById(db, data.sensorId)
+    if (!sensor || sensor.farmId !== actuator.farmId) {
+      throw new AppError('SENSOR_NOT_FOUND')
+    }
+
+    const problem = validateActuatorRule(data)
+    if (problem) throw new AppError('VALIDATION_ERROR', { message: problem })
+
+    const ruleId = await insertActuatorRule(db, data)
+    return { ruleId }
+  })
+
+export const deleteActuatorRuleFn = createServerFn({ method: 'POST' })
+  .inputValidator(z.object({ ruleId: z.string().uuid() }))
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    await requireAuth()
+
+    const { getDb } = await import('~/lib/db')
+    const db = await getDb()
+
+    const { getActuatorRuleById, deleteActuatorRule } =
+      await import('./actuator-repository')
+
+    const rule = await getActuatorRuleById(db, data.ruleId)
+    if (!rule) throw new AppError('ACTUATOR_RULE_NOT_FOUND')
+    await requireActuatorFarmAccess(rule.actuatorId)
+
+    await deleteActuatorRule(db, data.ruleId)
+    return { success: true }
+  })
@@ -0,0 +1,194 @@
+/**
+ * Pure business logic for actuator control rules.
+ * All functions are side-effect-free and easily unit testable.
+ *
+ * A rule such as "temperature above 32 for 10 minutes turns the fans on"
+ * fires once its condition has held for the rule's duration. Threshold and
+ * trend checks reuse the alert service, so a rule and an alert on the same
+ * sensor agree on what "too high" or "rising rapidly" means.
+ */
+
+import { checkThresholdAlert, checkTrendAlert } from './alert-service'
+import {
+  ACTUATOR_MIN_SWITCH_MINUTES,
+  ACTUATOR_RULE_MAX_DURATION_MINUTES,
+  ACTUATOR_TREND_MIN_MINUTES,
+} from './constants'
+import type {
+  ActuatorMode,
+  ActuatorRuleCondition,
+  ActuatorState,
+} from './types'
+
+interface TimedValue {
+  value: number
+  recordedAt: Date
+}
+
+interface RuleDefinition {
+  condition: ActuatorRuleCondition
+  threshold: number
+  durationMinutes: number
+}
+
+/**
+ * Whether a single value meets an above/below condition
+ */
+function meetsThreshold(
+  value: number,
+  condition: 'above' | 'below',
+  threshold: number,
+): boolean {
+  const breach = checkThresholdAlert(
+    value,
+    condition === 'above' ? { max: threshold } : { min: threshold },
+    'value',
+  )
+  return breach !== null
+}
+
+/**
+ * When an above/below condition started holding without interruption up to
+ * the latest reading
+ *
+ * @param readings - Readings, oldest first
+ * @returns Time of the first reading of the current run, or null if the
+ * latest reading does not meet the condition
+ *
+ * @example
+ * ```ts
+ * // 31, 33, 34 against "above 32": held since the 33 reading
+ * getConditionHeldSince(readings, 'above', 32)
+ * ```
+ */
+export function getConditionHeldSince(
+  readings: Array<TimedValue>,
+  condition: 'above' | 'below',
+  threshold: number,
+): Date | null {
+  let since: Date | null = null
+  for (let i = readings.length - 1; i >= 0; i--) {
+    if (!meetsThreshold(readings[i].value, condition, threshold)) break
+    since = readings[i].recordedAt
+  }
+  return since
+}
+
+/**
+ * Whether a rule's condition holds at a point in time
+ *
+ * Above/below rules need every reading for the last `durationMinutes` to be
+ * past the threshold. Rising/falling rules compare the rate of change over
+ * the last `durationMinutes` against the threshold (units per hour).
+ *
+ * @param rule - Rule condition, threshold and duration
+ * @param readings - The sensor's readings up to `at`, oldest first,
+ * reaching back at least `durationMinutes`
+ * @param at - Evaluation time
+ * @returns True if the rule should fire
+ */
+export function evaluateActuatorRule(
+  rule: RuleDefinition,
+  readings: Array<TimedValue>,
+  at: Date,
+): boolean {
+  const upToNow = readings.filter((r) => r.recordedAt <= at)
+  if (upToNow.length === 0) return false
+
+  const windowMs = rule.durationMinutes * 60 * 1000
+
+  if (rule.condition === 'above' || rule.condition === 'below') {
+    const since = getConditionHeldSince(upToNow, rule.condition, rule.threshold)
+    return since !== null && at.getTime() - since.getTime() >= windowMs
+  }
+
+  const windowStart = at.getTime() - windowMs
+  const window = upToNow.filter((r) => r.recordedAt.getTime() >= windowStart)
+  const trend = checkTrendAlert(
+    window,
+    { rateThreshold: rule.threshold, rateWindowMinutes: rule.durationMinutes },
+    'value',
+  )
+  return rule.condition === 'rising'
+    ? trend?.alertType === 'trend_rising'
+    : trend?.alertType === 'trend_falling'
+}
+
+/**
+ * Whether a manual override is still holding the actuator
+ */
+export function isOverrideActive(
+  actuator: { mode: ActuatorMode; overrideUntil: Date | null },
+  now: Date,
+): boolean {
+  if (actuator.mode !== 'manual') return false
+  return actuator.overrideUntil === null || actuator.overrideUntil > now
+}
+
+/**
+ * Pick the state change, if any, that fired rules call for. Rules are taken
+ * in order and the first one asking for a different state wins, so when an
+ * "on" and an "off" rule both fire the earlier rule decides. Nothing switches
+ * while a manual override holds, or within `ACTUATOR_MIN_SWITCH_MINUTES` of
+ * the last rule-driven switch.
+ *
+ * @param actuator - Current state and mode of the actuator
+ * @param firedRules - Rules whose condition holds, in rule order
+ * @param lastSwitchedAt - Time of the last rule-driven switch
+ * @param now - Current time
+ * @returns The rule to apply, or null
+ *
+ * @example
+ * ```ts
+ * selectRuleAction(
+ *   { state: 'off', mode: 'auto', overrideUntil: null },
+ *   [{ id: 'r1', action: 'on' }],
+ *   null,
+ *   new Date(),
+ * )
+ * // Returns: { id: 'r1', action: 'on' }
+ * ```
+ */
+export function selectRuleAction<T extends { action: ActuatorState }>(
+  actuator: {
+    state: ActuatorState
+    mode: ActuatorMode
+    overrideUntil: Date | null
+  },
+  firedRules: Array<T>,
+  lastSwitchedAt: Date | null,
+  now: Date,
+): T | null {
+  if (isOverrideActive(actuator, now)) return null
+  if (
+    lastSwitchedAt &&
+    now.getTime() - lastSwitchedAt.getTime() <
+      ACTUATOR_MIN_SWITCH_MINUTES * 60 * 1000
+  ) {
+    return null
+  }
+
+  return firedRules.find((rule) => rule.action !== actuator.state) ?? null
+}
+
+/**
+ * Check a rule definition
+ *
+ * @returns Error message, or null if the rule is valid
+ */
+export function validateActuatorRule(rule: RuleDefinition): string | null {
+  if (!Number.isFinite(rule.threshold)) return 'Threshold must be a number'
+  if (
+    rule.durationMinutes < 0 ||
+    rule.durationMinutes > ACTUATOR_RULE_MAX_DURATION_MINUTES
+  ) {
+    return `Duration must be between 0 and ${ACTUATOR_RULE_MAX_DURATION_MINUTES} minutes`
+  }
+  if (rule.condition === 'rising' || rule.condition === 'falling') {
+    if (rule.threshold <= 0) return 'Rate of change must be positive'
+    if (rule.durationMinutes < ACTUATOR_TREND_MIN_MINUTES) {
+      return `Rates are measured over at least ${ACTUATOR_TREND_MIN_MINUTES} minutes`
+    }
+  }
+  return null
+}
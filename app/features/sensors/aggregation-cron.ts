@@ -8,25 +8,19 @@
  *   }
  * }
  *
- * This handler aggregates sensor readings into hourly/daily summaries
- * and cleans up old raw data based on retention policy.
+ * This handler aggregates sensor readings into hourly/daily summaries.
+ * Old data is removed separately by each farm's retention policy
+ * (see retention-processor.ts).
  */
 
-import {
-  cleanupOldReadings,
-  runAggregationForAllSensors,
-} from './aggregation-service'
+import { runAggregationForAllSensors } from './aggregation-service'
 import type { Kysely } from 'kysely'
 import type { Database } from '~/lib/db/types'
 
-/** Default retention period for raw readings (days) */
-const DEFAULT_RAW_RETENTION_DAYS = 7
-
 interface CronResult {
   success: boolean
   hourlyAggregation: { processed: number; aggregated: number }
   dailyAggregation?: { processed: number; aggregated: number }
-  cleanupCount: number
   error?: string
 }
 
@@ -36,14 +30,7 @@ interface CronResult {
  */
 export async function handleAggregationCron(
   db: Kysely<Database>,
-  options?: {
-    rawRetentionDays?: number
-    hourlyRetentionDays?: number
-  },
 ): Promise<CronResult> {
-  const rawRetentionDays =
-    options?.rawRetentionDays ?? DEFAULT_RAW_RETENTION_DAYS
-
   try {
     const now = new Date()
 
@@ -65,14 +52,10 @@ export async function handleAggregationCron(
       dailyResult = await runAggregationForAllSensors(db, 'daily', yesterday)
     }
 
-    // Cleanup old raw readings
-    const cleanupCount = await cleanupOldReadings(db, rawRetentionDays)
-
     return {
       success: true,
       hourlyAggregation: hourlyResult,
       dailyAggregation: dailyResult,
-      cleanupCount,
     }
   } catch (err) {
     const { error: logError } = await import('~/lib/logger')
@@ -80,7 +63,6 @@ export async function handleAggregationCron(
     return {
       success: false,
       hourlyAggregation: { processed: 0, aggregated: 0 },
-      cleanupCount: 0,
       error: err instanceof Error ? err.message : 'Unknown error',
     }
   }
@@ -48,7 +48,8 @@ export function getPeriodEnd(date: Date, periodType: AggregationPeriod): Date {
 }
 
 /**
- * Aggregate readings for a specific sensor and period
+ * Aggregate readings for a specific sensor and period. Readings flagged as
+ * anomalies are left out so sensor glitches do not skew the averages.
  */
 export async function aggregateReadingsForPeriod(
   db: Kysely<Database>,
@@ -68,6 +69,7 @@ export async function aggregateReadingsForPeriod(
     .where('sensorId', '=', sensorId)
     .where('recordedAt', '>=', periodStart)
     .where('recordedAt', '<=', periodEnd)
+    .where('isAnomaly', '=', false)
     .executeTakeFirst()
 
   if (!result || !result.readingCount || Number(result.readingCount) === 0) {
@@ -192,22 +194,3 @@ export async function getAggregatedData(
     maxValue: Number(r.maxValue),
   }))
 }
-
-/**
- * Delete old raw readings after aggregation (data retention)
- * Keeps raw data for the specified number of days
- */
-export async function cleanupOldReadings(
-  db: Kysely<Database>,
-  retentionDays: number,
-): Promise<number> {
-  const cutoffDate = new Date()
-  cutoffDate.setDate(cutoffDate.getDate() - retentionDays)
-
-  const result = await db
-    .deleteFrom('sensor_readings')
-    .where('recordedAt', '<', cutoffDate)
-    .execute()
-
-  return result.length
-}
@@ -0,0 +1,148 @@
+/**
+ * Alert delivery - notifies farm users about sensor alerts in-app, by email
+ * and by SMS through the configured integration providers
+ */
+
+import { formatAlertSms } from './alert-service'
+import {
+  getAlertRecipients,
+  getFarmContactPhone,
+  markAlertNotified,
+} from './alerts-repository'
+import { ALERT_RECIPIENT_ROLES, ESCALATION_RECIPIENT_ROLES } from './constants'
+import type { Database, SensorAlertType } from '~/lib/db/types'
+import type { Kysely } from 'kysely'
+
+/** Alert to deliver, with the sensor it belongs to */
+export interface DeliverableAlert {
+  id: string
+  sensorId: string
+  sensorName: string
+  farmId: string
+  alertType: SensorAlertType
+  severity: 'warning' | 'critical'
+  message: string
+  triggerValue: number
+  thresholdValue: number
+}
+
+/** Delivery channels enabled in the sensor's alert config */
+export interface AlertChannels {
+  smsEnabled: boolean
+  emailEnabled: boolean
+}
+
+export interface AlertDeliveryResult {
+  notified: number
+  emailsSent: number
+  smsSent: number
+}
+
+/** Channels used when a sensor has no alert config */
+export const DEFAULT_ALERT_CHANNELS: AlertChannels = {
+  smsEnabled: false,
+  emailEnabled: true,
+}
+
+/**
+ * Notify farm users about an alert. The owner is notified first; escalations
+ * also reach managers. SMS goes to the farm's contact phone for critical
+ * alerts only, and sensor malfunctions are reported in-app only since they
+ * call for maintenance rather than urgent action. Provider failures are
+ * logged and never thrown.
+ */
+export async function deliverSensorAlert(
+  db: Kysely<Database>,
+  alert: DeliverableAlert,
+  channels: AlertChannels,
+  escalationLevel: number,
+  now: Date = new Date(),
+): Promise<AlertDeliveryResult> {
+  const { warn } = await import('~/lib/logger')
+  const result: AlertDeliveryResult = { notified: 0, emailsSent: 0, smsSent: 0 }
+  const escalated = escalationLevel > 0
+  const malfunction = alert.alertType === 'sensor_malfunction'
+
+  const recipients = await getAlertRecipients(
+    db,
+    alert.farmId,
+    escalated ? ESCALATION_RECIPIENT_ROLES : ALERT_RECIPIENT_ROLES,
+  )
+
+  const { createNotification } = await import('~/features/notifications/server')
+  for (const recipient of recipients) {
+    await createNotification({
+      userId: recipient.userId,
+      farmId: alert.farmId,
+      type: 'sensorAlert',
+      title: `${escalated ? 'Unacknowledged ' : ''}${malfunction ? 'Sensor Malfunction' : 'Sensor Alert'}: ${alert.sensorName}`,
+      message: alert.message,
+      actionUrl: `/sensors/${alert.sensorId}`,
+      metadata: {
+        sensorId: alert.sensorId,
+        alertId: alert.id,
+        alertType: alert.alertType,
+        severity: alert.severity,
+        value: alert.triggerValue,
+        escalationLevel,
+      },
+    })
+    result.notified++
+  }
+
+  if (channels.emailEnabled && !malfunction) {
+    const { emailTemplates, isEmailConfigured, sendEmail } =
+      await import('~/features/integrations/email')
+    if (isEmailConfigured()) {
+      const template = emailTemplates.sensorAlert({
+        sensorName: alert.sensorName,
+        message: alert.message,
+        value: alert.triggerValue,
+        threshold: alert.thresholdValue,
+        severity: alert.severity,
+        escalated,
+      })
+      for (const recipient of recipients) {
+        const sent = await sendEmail({ to: recipient.email, ...template })
+        if (sent.success) {
+          result.emailsSent++
+        } else {
+          warn('Sensor alert email failed', {
+            alertId: alert.id,
+            error: sent.error,
+          })
+        }
+      }
+    }
+  }
+
+  if (channels.smsEnabled && alert.severity === 'critical') {
+    const { isSMSConfigured, sendSMS } =
+      await import('~/features/integrations/sms')
+    const phone = isSMSConfigured()
+      ? await getFarmContactPhone(db, alert.farmId)
+      : null
+    if (phone) {
+      const sent = await sendSMS({
+        to: phone,
+        message: formatAlertSms(
+          alert.sensorName,
+          alert.message,
+          escalationLevel,
+        ),
+      })
+      if (sent.success) {
+        result.smsSent++
+      } else {
+        warn('Sensor alert SMS failed', {
+          alertId: alert.id,
+          error: sent.error,
+        })
+      }
+    }
+  }
+
+  await markAlertNotified(db, alert.id, escalationLevel, now)
+
+  return result
+}
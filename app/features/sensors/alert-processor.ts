@@ -3,221 +3,192 @@
  */
 
 import {
-  checkThresholdAlert,
   checkTrendAlert,
+  findWorstThresholdBreach,
+  isEscalationDue,
   isInCooldown,
+  resolveAlertThresholds,
+  resolveTrendConfig,
 } from './alert-service'
 import {
   getAlertConfig,
+  getAlertsDueForEscalation,
   getLastAlertBySensorAndType,
   insertAlert,
 } from './alerts-repository'
+import { DEFAULT_ALERT_CHANNELS, deliverSensorAlert } from './alert-delivery'
+import { checkMalfunctionAlert } from './anomaly-service'
 import { getReadingsInRange } from './readings-repository'
-import { SENSOR_TYPE_CONFIG } from './constants'
-import type { Database, SensorAlertType } from '~/lib/db/types'
+import {
+  ALERT_ESCALATION_INTERVAL_MINUTES,
+  DEFAULT_ALERT_COOLDOWN_MINUTES,
+  MAX_ALERT_ESCALATION_LEVEL,
+  SENSOR_TYPE_CONFIG,
+} from './constants'
+import type { AnomalyFlag } from './anomaly-service'
+import type { AlertCheckResult, SensorThresholds, SensorType } from './types'
+import type { Database, SensorTrendConfig } from '~/lib/db/types'
 import type { Kysely } from 'kysely'
 
 interface SensorWithConfig {
   id: string
   farmId: string
   name: string
-  sensorType: string
-  thresholds: { minValue: number | null; maxValue: number | null } | null
-  trendConfig: { rateThreshold: number; rateWindowMinutes: number } | null
+  sensorType: SensorType
+  thresholds: SensorThresholds | null
+  trendConfig: SensorTrendConfig | null
 }
 
 /**
- * Process a new reading and trigger alerts if needed
+ * Evaluate a batch of newly stored readings against the sensor's threshold
+ * and trend rules, and raise a malfunction alert for anomalies found in it.
+ * Alerts outside their cooldown are recorded and delivered.
+ *
+ * @returns Number of alerts raised
  */
-export async function processReadingForAlerts(
+export async function processReadingsForAlerts(
   db: Kysely<Database>,
   sensor: SensorWithConfig,
-  value: number,
-): Promise<void> {
-  const config = await getAlertConfig(db, sensor.id)
-  const cooldownMinutes = config?.cooldownMinutes ?? 30
-
-  // Get thresholds (sensor-specific or defaults)
-  const sensorTypeKey = sensor.sensorType as keyof typeof SENSOR_TYPE_CONFIG
-  const sensorConfig = SENSOR_TYPE_CONFIG[sensorTypeKey]
-  const defaultThresholds = sensorConfig.defaultThresholds
-  const thresholds = sensor.thresholds ?? defaultThresholds
-
-  // Normalize threshold format
-  const normalizedThresholds = {
-    min:
-      'minValue' in thresholds
-        ? thresholds.minValue
-        : (thresholds as { min: number }).min,
-    max:
-      'maxValue' in thresholds
-        ? thresholds.maxValue
-        : (thresholds as { max: number }).max,
-  }
-
-  // Check threshold alert
-  const thresholdResult = checkThresholdAlert(
-    value,
-    normalizedThresholds,
+  readings: Array<{ value: number; recordedAt: Date }>,
+  now: Date = new Date(),
+  anomalies: Array<AnomalyFlag> = [],
+): Promise<number> {
+  if (readings.length === 0) return 0
+
+  const config = (await getAlertConfig(db, sensor.id)) ?? null
+  const cooldownMinutes =
+    config?.cooldownMinutes ?? DEFAULT_ALERT_COOLDOWN_MINUTES
+
+  const candidates: Array<AlertCheckResult> = []
+
+  // Threshold rule: the worst breach in the batch. Anomalous readings still
+  // count here, so a real spike is never hidden as a sensor fault
+  const thresholds = resolveAlertThresholds(
+    sensor.thresholds,
+    config,
+    SENSOR_TYPE_CONFIG[sensor.sensorType].defaultThresholds,
+  )
+  const breach = findWorstThresholdBreach(
+    readings.map((r) => r.value),
+    thresholds,
     sensor.sensorType,
   )
+  if (breach) candidates.push(breach)
 
-  if (thresholdResult?.shouldAlert) {
-    const lastAlert = await getLastAlertBySensorAndType(
-      db,
-      sensor.id,
-      thresholdResult.alertType,
-    )
-
-    if (!isInCooldown(lastAlert?.createdAt ?? null, cooldownMinutes)) {
-      await insertAlert(db, {
-        sensorId: sensor.id,
-        alertType: thresholdResult.alertType,
-        severity: thresholdResult.severity,
-        triggerValue: thresholdResult.triggerValue,
-        thresholdValue: thresholdResult.thresholdValue,
-        message: thresholdResult.message,
-      })
-
-      // Send external notifications
-      await sendAlertNotifications(db, sensor, thresholdResult, config)
-    }
-  }
-
-  // Check trend alert if configured
-  const trendConfig = sensor.trendConfig ?? {
-    rateThreshold: 5,
-    rateWindowMinutes: 60,
-  }
-
+  // Trend rule: rate of change over the window ending at the newest reading
+  const trendConfig = resolveTrendConfig(sensor.trendConfig, config)
+  const latestAt = new Date(
+    Math.max(...readings.map((r) => r.recordedAt.getTime())),
+  )
   const windowStart = new Date(
-    Date.now() - trendConfig.rateWindowMinutes * 60 * 1000,
+    latestAt.getTime() - trendConfig.rateWindowMinutes * 60 * 1000,
   )
-  const readings = await getReadingsInRange(
+  const windowReadings = await getReadingsInRange(
     db,
     sensor.id,
     windowStart,
-    new Date(),
+    latestAt,
     100,
   )
+  // Repository returns newest first; rate of change expects oldest first.
+  // A single glitch would otherwise read as a steep trend.
+  const trend = checkTrendAlert(
+    windowReadings.reverse().filter((r) => !r.isAnomaly),
+    trendConfig,
+    sensor.sensorType,
+  )
+  if (trend) candidates.push(trend)
 
-  if (readings.length >= 2) {
-    const trendResult = checkTrendAlert(
-      readings,
-      trendConfig,
-      sensor.sensorType,
-    )
+  // Malfunction rule: the sensor itself looks faulty
+  const malfunction = checkMalfunctionAlert(anomalies, sensor.sensorType)
+  if (malfunction) candidates.push(malfunction)
 
-    if (trendResult?.shouldAlert) {
-      const lastAlert = await getLastAlertBySensorAndType(
-        db,
-        sensor.id,
-        trendResult.alertType,
-      )
-
-      if (!isInCooldown(lastAlert?.createdAt ?? null, cooldownMinutes)) {
-        await insertAlert(db, {
-          sensorId: sensor.id,
-          alertType: trendResult.alertType,
-          severity: trendResult.severity,
-          triggerValue: trendResult.triggerValue,
-          thresholdValue: trendResult.thresholdValue,
-          message: trendResult.message,
-        })
-
-        await sendAlertNotifications(db, sensor, trendResult, config)
-      }
+  let raised = 0
+  for (const candidate of candidates) {
+    const lastAlert = await getLastAlertBySensorAndType(
+      db,
+      sensor.id,
+      candidate.alertType,
+    )
+    if (isInCooldown(lastAlert?.createdAt ?? null, cooldownMinutes, now)) {
+      continue
     }
+
+    const alertId = await insertAlert(db, {
+      sensorId: sensor.id,
+      alertType: candidate.alertType,
+      severity: candidate.severity,
+      triggerValue: candidate.triggerValue,
+      thresholdValue: candidate.thresholdValue,
+      message: candidate.message,
+    })
+    raised++
+
+    await deliverSensorAlert(
+      db,
+      {
+        id: alertId,
+        sensorId: sensor.id,
+        sensorName: sensor.name,
+        farmId: sensor.farmId,
+        alertType: candidate.alertType,
+        severity: candidate.severity,
+        message: candidate.message,
+        triggerValue: candidate.triggerValue,
+        thresholdValue: candidate.thresholdValue,
+      },
+      config ?? DEFAULT_ALERT_CHANNELS,
+      0,
+      now,
+    )
   }
+
+  return raised
 }
 
 /**
- * Send external notifications for an alert
+ * Re-send unacknowledged critical alerts to a wider audience, once per
+ * escalation interval, up to the escalation limit
+ *
+ * @returns Number of alerts escalated
  */
-async function sendAlertNotifications(
+export async function escalateUnacknowledgedAlerts(
   db: Kysely<Database>,
-  sensor: SensorWithConfig,
-  alert: {
-    alertType: SensorAlertType
-    severity: string
-    message: string
-    triggerValue: number
-  },
-  config: { smsEnabled?: boolean; emailEnabled?: boolean } | undefined,
-): Promise<void> {
-  // Create in-app notification
-  const { createNotification } = await import('~/features/notifications/server')
-
-  // Get farm owner
-  const farmUser = await db
-    .selectFrom('user_farms')
-    .select(['userId'])
-    .where('farmId', '=', sensor.farmId)
-    .where('role', '=', 'owner')
-    .executeTakeFirst()
-
-  if (!farmUser) return
-
-  await createNotification({
-    userId: farmUser.userId,
-    farmId: sensor.farmId,
-    type: 'sensorAlert',
-    title: `Sensor Alert: ${sensor.name}`,
-    message: alert.message,
-    actionUrl: `/sensors/${sensor.id}`,
-    metadata: {
-      sensorId: sensor.id,
-      alertType: alert.alertType,
-      severity: alert.severity,
-      value: alert.triggerValue,
-    },
-  })
-
-  // Send email if enabled
-  if (config?.emailEnabled !== false) {
-    try {
-      const { INTEGRATIONS } = await import('~/features/integrations/config')
-      if (INTEGRATIONS.email) {
-        const user = await db
-          .selectFrom('users')
-          .select(['email'])
-          .where('id', '=', farmUser.userId)
-          .executeTakeFirst()
-
-        if (user?.email) {
-          const { sendEmail } = await import('~/features/integrations/email')
-          await sendEmail({
-            to: user.email,
-            subject: `🚨 Sensor Alert: ${sensor.name}`,
-            html: `<p><strong>${sensor.name}</strong></p><p>${alert.message}</p><p>Value: ${alert.triggerValue}</p>`,
-          })
-        }
-      }
-    } catch {
-      // Email failure is non-critical
-    }
-  }
+  now: Date = new Date(),
+): Promise<number> {
+  const cutoff = new Date(
+    now.getTime() - ALERT_ESCALATION_INTERVAL_MINUTES * 60 * 1000,
+  )
+  const alerts = await getAlertsDueForEscalation(
+    db,
+    cutoff,
+    MAX_ALERT_ESCALATION_LEVEL,
+  )
 
-  // Send SMS if enabled and severity is critical
-  if (config?.smsEnabled && alert.severity === 'critical') {
-    try {
-      const { INTEGRATIONS } = await import('~/features/integrations/config')
-      if (INTEGRATIONS.sms) {
-        const user = await db
-          .selectFrom('users')
-          .select(['id'])
-          .where('id', '=', farmUser.userId)
-          .executeTakeFirst()
-
-        // Note: Would need phone number from user profile
-        // For now, just log that SMS would be sent
-        const { debug } = await import('~/lib/logger')
-        await debug(
-          `[SMS] Would send alert to user ${user?.id}: ${alert.message}`,
-        )
-      }
-    } catch {
-      // SMS failure is non-critical
-    }
+  let escalated = 0
+  for (const alert of alerts) {
+    if (!isEscalationDue(alert, now)) continue
+
+    const config = await getAlertConfig(db, alert.sensorId)
+    await deliverSensorAlert(
+      db,
+      {
+        id: alert.id,
+        sensorId: alert.sensorId,
+        sensorName: alert.sensorName,
+        farmId: alert.farmId,
+        alertType: alert.alertType,
+        severity: alert.severity,
+        message: alert.message,
+        triggerValue: Number(alert.triggerValue),
+        thresholdValue: Number(alert.thresholdValue),
+      },
+      config ?? DEFAULT_ALERT_CHANNELS,
+      alert.escalationLevel + 1,
+      now,
+    )
+    escalated++
   }
+
+  return escalated
 }
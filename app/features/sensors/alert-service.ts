@@ -1,4 +1,17 @@
-import type { AlertCheckResult, SensorReading } from './types'
+import {
+  ALERT_ESCALATION_INTERVAL_MINUTES,
+  DEFAULT_TREND_CONFIG,
+  MAX_ALERT_ESCALATION_LEVEL,
+} from './constants'
+import type {
+  AlertCheckResult,
+  SensorReading,
+  SensorThresholds,
+  SensorTrendConfig,
+} from './types'
+
+/** Longest SMS body sent for an alert (one GSM segment) */
+const MAX_SMS_LENGTH = 160
 
 export function checkThresholdAlert(
   value: number,
@@ -31,7 +44,7 @@ export function checkThresholdAlert(
 }
 
 export function checkTrendAlert(
-  readings: Array<SensorReading>,
+  readings: Array<Pick<SensorReading, 'value' | 'recordedAt'>>,
   trendConfig: { rateThreshold: number; rateWindowMinutes: number },
   sensorType: string,
 ): AlertCheckResult | null {
@@ -57,14 +70,16 @@ export function checkTrendAlert(
 export function isInCooldown(
   lastAlertTime: Date | null,
   cooldownMinutes: number,
+  now: Date = new Date(),
 ): boolean {
   if (!lastAlertTime) return false
-  const now = new Date()
   const cooldownMs = cooldownMinutes * 60 * 1000
   return now.getTime() - lastAlertTime.getTime() < cooldownMs
 }
 
-export function calculateRateOfChange(readings: Array<SensorReading>): number {
+export function calculateRateOfChange(
+  readings: Array<Pick<SensorReading, 'value' | 'recordedAt'>>,
+): number {
   if (readings.length < 2) return 0
 
   const latest = readings[readings.length - 1]
@@ -77,3 +92,111 @@ export function calculateRateOfChange(readings: Array<SensorReading>): number {
 
   return (latest.value - earliest.value) / timeDiffHours
 }
+
+/**
+ * Pick the thresholds a sensor's readings are checked against: the sensor's
+ * own thresholds, then its alert config, then the sensor type defaults
+ */
+export function resolveAlertThresholds(
+  sensorThresholds: Pick<SensorThresholds, 'minValue' | 'maxValue'> | null,
+  config: { minThreshold: string | null; maxThreshold: string | null } | null,
+  defaults: { min: number; max: number },
+): { min: number | null; max: number | null } {
+  if (sensorThresholds) {
+    return { min: sensorThresholds.minValue, max: sensorThresholds.maxValue }
+  }
+  if (
+    config &&
+    (config.minThreshold !== null || config.maxThreshold !== null)
+  ) {
+    return {
+      min: config.minThreshold !== null ? Number(config.minThreshold) : null,
+      max: config.maxThreshold !== null ? Number(config.maxThreshold) : null,
+    }
+  }
+  return defaults
+}
+
+/**
+ * Pick the trend rule for a sensor: its own, then its alert config, then the
+ * default rule
+ */
+export function resolveTrendConfig(
+  sensorTrendConfig: SensorTrendConfig | null,
+  config: { rateThreshold: string | null; rateWindowMinutes: number } | null,
+): SensorTrendConfig {
+  if (sensorTrendConfig) return sensorTrendConfig
+  if (config && config.rateThreshold !== null) {
+    return {
+      rateThreshold: Number(config.rateThreshold),
+      rateWindowMinutes: config.rateWindowMinutes,
+    }
+  }
+  return DEFAULT_TREND_CONFIG
+}
+
+/**
+ * Check a batch of readings against thresholds and return the single worst
+ * breach: critical before warning, then furthest past its threshold
+ */
+export function findWorstThresholdBreach(
+  values: Array<number>,
+  thresholds: { min?: number | null; max?: number | null },
+  sensorType: string,
+): AlertCheckResult | null {
+  let worst: AlertCheckResult | null = null
+
+  for (const value of values) {
+    const result = checkThresholdAlert(value, thresholds, sensorType)
+    if (!result) continue
+    if (
+      !worst ||
+      (result.severity === 'critical' && worst.severity !== 'critical') ||
+      (result.severity === worst.severity &&
+        Math.abs(result.triggerValue - result.thresholdValue) >
+          Math.abs(worst.triggerValue - worst.thresholdValue))
+    ) {
+      worst = result
+    }
+  }
+
+  return worst
+}
+
+/**
+ * Whether an alert should be escalated: critical, unacknowledged, not yet at
+ * the escalation limit, and not notified within the escalation interval
+ */
+export function isEscalationDue(
+  alert: {
+    severity: 'warning' | 'critical'
+    acknowledged: boolean
+    escalationLevel: number
+    createdAt: Date
+    lastNotifiedAt: Date | null
+  },
+  now: Date,
+): boolean {
+  if (alert.severity !== 'critical' || alert.acknowledged) return false
+  if (alert.escalationLevel >= MAX_ALERT_ESCALATION_LEVEL) return false
+  return !isInCooldown(
+    alert.lastNotifiedAt ?? alert.createdAt,
+    ALERT_ESCALATION_INTERVAL_MINUTES,
+    now,
+  )
+}
+
+/**
+ * Build the SMS body for an alert, kept within a single SMS segment
+ */
+export function formatAlertSms(
+  sensorName: string,
+  message: string,
+  escalationLevel: number,
+): string {
+  const prefix = escalationLevel > 0 ? 'UNACKNOWLEDGED ALERT' : 'ALERT'
+  const text = `LivestockAI ${prefix} - ${sensorName}: ${message}`
+  return text.length > MAX_SMS_LENGTH
+    ? `${text.slice(0, MAX_SMS_LENGTH - 3)}...`
+    : text
+}
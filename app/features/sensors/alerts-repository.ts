@@ -1,5 +1,5 @@
 import type { Kysely } from 'kysely'
-import type { Database, SensorAlertType } from '~/lib/db/types'
+import type { Database, FarmRole, SensorAlertType } from '~/lib/db/types'
 
 interface AlertInsert {
   sensorId: string
@@ -116,6 +116,8 @@ export async function getAlertConfig(db: Kysely<Database>, sensorId: string) {
       'sensorId',
       'minThreshold',
       'maxThreshold',
+      'rateThreshold',
+      'rateWindowMinutes',
       'cooldownMinutes',
       'smsEnabled',
       'emailEnabled',
@@ -149,11 +151,20 @@ export async function upsertAlertConfig(
       rateWindowMinutes: 60,
     })
     .onConflict((oc) =>
+      // Fields left undefined keep their stored values
       oc.column('sensorId').doUpdateSet({
         minThreshold:
-          config.minThreshold != null ? String(config.minThreshold) : null,
+          config.minThreshold === undefined
+            ? undefined
+            : config.minThreshold !== null
+              ? String(config.minThreshold)
+              : null,
         maxThreshold:
-          config.maxThreshold != null ? String(config.maxThreshold) : null,
+          config.maxThreshold === undefined
+            ? undefined
+            : config.maxThreshold !== null
+              ? String(config.maxThreshold)
+              : null,
         cooldownMinutes: config.cooldownMinutes,
         smsEnabled: config.smsEnabled,
         emailEnabled: config.emailEnabled,
@@ -162,3 +173,88 @@ export async function upsertAlertConfig(
     )
     .execute()
 }
+
+export async function markAlertNotified(
+  db: Kysely<Database>,
+  alertId: string,
+  escalationLevel: number,
+  notifiedAt: Date,
+) {
+  await db
+    .updateTable('sensor_alerts')
+    .set({ escalationLevel, lastNotifiedAt: notifiedAt })
+    .where('id', '=', alertId)
+    .execute()
+}
+
+/**
+ * Unacknowledged critical alerts below the escalation limit whose recipients
+ * were last notified at or before the cutoff
+ */
+export async function getAlertsDueForEscalation(
+  db: Kysely<Database>,
+  notifiedBefore: Date,
+  maxEscalationLevel: number,
+) {
+  return db
+    .selectFrom('sensor_alerts')
+    .innerJoin('sensors', 'sensors.id', 'sensor_alerts.sensorId')
+    .select([
+      'sensor_alerts.id',
+      'sensor_alerts.sensorId',
+      'sensor_alerts.alertType',
+      'sensor_alerts.severity',
+      'sensor_alerts.triggerValue',
+      'sensor_alerts.thresholdValue',
+      'sensor_alerts.message',
+      'sensor_alerts.acknowledged',
+      'sensor_alerts.escalationLevel',
+      'sensor_alerts.lastNotifiedAt',
+      'sensor_alerts.createdAt',
+      'sensors.name as sensorName',
+      'sensors.farmId',
+    ])
+    .where('sensor_alerts.severity', '=', 'critical')
+    .where('sensor_alerts.acknowledged', '=', false)
+    .where('sensor_alerts.escalationLevel', '<', maxEscalationLevel)
+    .where((eb) =>
+      eb(
+        eb.fn.coalesce(
+          'sensor_alerts.lastNotifiedAt',
+          'sensor_alerts.createdAt',
+        ),
+        '<=',
+        notifiedBefore,
+      ),
+    )
+    .where('sensors.deletedAt', 'is', null)
+    .orderBy('sensor_alerts.createdAt')
+    .execute()
+}
+
+export async function getAlertRecipients(
+  db: Kysely<Database>,
+  farmId: string,
+  roles: ReadonlyArray<FarmRole>,
+) {
+  return db
+    .selectFrom('user_farms')
+    .innerJoin('users', 'users.id', 'user_farms.userId')
+    .select(['users.id as userId', 'users.email', 'users.name'])
+    .where('user_farms.farmId', '=', farmId)
+    .where('user_farms.role', 'in', [...roles])
+    .where('users.banned', '=', false)
+    .execute()
+}
+
+export async function getFarmContactPhone(
+  db: Kysely<Database>,
+  farmId: string,
+): Promise<string | null> {
+  const farm = await db
+    .selectFrom('farms')
+    .select('contactPhone')
+    .where('id', '=', farmId)
+    .executeTakeFirst()
+  return farm?.contactPhone ?? null
+}
@@ -0,0 +1,61 @@
+/**
+ * Anomaly processor - flags stored readings that deviate from the sensor's
+ * baseline so they are left out of aggregates and shown on charts
+ */
+
+import { getAggregatedData } from './aggregation-service'
+import { buildSeasonalBaseline, detectAnomalies } from './anomaly-service'
+import {
+  getReadingsBefore,
+  markReadingsAsAnomalies,
+} from './readings-repository'
+import { ANOMALY_BASELINE_READINGS, SEASONAL_BASELINE_DAYS } from './constants'
+import type { AnomalyFlag } from './anomaly-service'
+import type { Database } from '~/lib/db/types'
+import type { Kysely } from 'kysely'
+
+/**
+ * Check newly stored readings against the sensor's rolling and time-of-day
+ * baselines and mark the anomalous ones
+ *
+ * @returns Readings flagged as anomalies
+ */
+export async function flagReadingAnomalies(
+  db: Kysely<Database>,
+  sensorId: string,
+  readings: Array<{ value: number; recordedAt: Date }>,
+  now: Date = new Date(),
+): Promise<Array<AnomalyFlag>> {
+  if (readings.length === 0) return []
+
+  const earliest = new Date(
+    Math.min(...readings.map((r) => r.recordedAt.getTime())),
+  )
+  // Twice the window, so earlier anomalies do not starve the baseline
+  const history = await getReadingsBefore(
+    db,
+    sensorId,
+    earliest,
+    ANOMALY_BASELINE_READINGS * 2,
+  )
+  const aggregates = await getAggregatedData(
+    db,
+    sensorId,
+    'hourly',
+    new Date(now.getTime() - SEASONAL_BASELINE_DAYS * 24 * 60 * 60 * 1000),
+    earliest,
+  )
+
+  const flags = detectAnomalies(
+    readings,
+    history,
+    buildSeasonalBaseline(aggregates),
+  )
+  await markReadingsAsAnomalies(
+    db,
+    sensorId,
+    flags.map((f) => f.recordedAt),
+  )
+
+  return flags
+}
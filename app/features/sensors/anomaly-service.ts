@@ -0,0 +1,272 @@
+/**
+ * Pure business logic for sensor anomaly detection.
+ * All functions are side-effect-free and easily unit testable.
+ *
+ * A reading is anomalous when it deviates from the sensor's own recent
+ * baseline (rolling z-score) and, where enough history exists, from what the
+ * sensor normally reads at that hour of the day (seasonal baseline). Runs of
+ * identical readings are flagged as a stuck sensor.
+ */
+
+import {
+  ANOMALY_BASELINE_READINGS,
+  ANOMALY_MIN_BASELINE_READINGS,
+  ANOMALY_MIN_SPREAD_RATIO,
+  ANOMALY_Z_SCORE_THRESHOLD,
+  FLATLINE_MIN_MINUTES,
+  FLATLINE_MIN_READINGS,
+  SEASONAL_MIN_DAYS,
+} from './constants'
+import type { AlertCheckResult } from './types'
+
+/** Smallest spread used in z-scores for baselines centred near zero */
+const MIN_ABSOLUTE_SPREAD = 0.01
+
+/** Mean and spread of a set of values */
+export interface BaselineStats {
+  mean: number
+  stdDev: number
+  count: number
+}
+
+/** Seasonal baselines keyed by UTC hour of the day (0-23) */
+export type SeasonalBaseline = Map<number, BaselineStats>
+
+/** Why a reading was flagged */
+export type AnomalyReason = 'outlier' | 'flatline'
+
+/** A reading flagged as anomalous */
+export interface AnomalyFlag {
+  recordedAt: Date
+  value: number
+  reason: AnomalyReason
+  /** Smallest absolute z-score across the baselines used (0 for flatlines) */
+  score: number
+  /** Value the baseline expected; the stuck value for flatlines */
+  expected: number
+  /** Consecutive identical readings, for flatlines */
+  runLength?: number
+}
+
+/**
+ * Mean and population standard deviation of a set of values
+ *
+ * @param values - Values to summarise
+ * @returns Baseline statistics, or null for an empty set
+ *
+ * @example
+ * ```ts
+ * computeBaseline([2, 4, 4, 4, 5, 5, 7, 9])
+ * // Returns: { mean: 5, stdDev: 2, count: 8 }
+ * ```
+ */
+export function computeBaseline(values: Array<number>): BaselineStats | null {
+  if (values.length === 0) return null
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length
+  const variance =
+    values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length
+  return { mean, stdDev: Math.sqrt(variance), count: values.length }
+}
+
+/**
+ * Number of standard deviations a value lies from a baseline. The spread is
+ * floored so a perfectly steady baseline does not turn noise into outliers.
+ *
+ * @param value - Value to score
+ * @param baseline - Baseline to score against
+ * @returns Signed z-score
+ */
+export function calculateZScore(
+  value: number,
+  baseline: BaselineStats,
+): number {
+  const spread = Math.max(
+    baseline.stdDev,
+    Math.abs(baseline.mean) * ANOMALY_MIN_SPREAD_RATIO,
+    MIN_ABSOLUTE_SPREAD,
+  )
+  return (value - baseline.mean) / spread
+}
+
+/**
+ * Build time-of-day baselines from hourly aggregates. Each hour's spread
+ * combines the day-to-day variation of the hourly average with the typical
+ * spread within the hour, estimated as a quarter of its min-max range.
+ *
+ * @param aggregates - Hourly aggregates, typically the last two weeks
+ * @returns Baselines for hours with enough days of history
+ */
+export function buildSeasonalBaseline(
+  aggregates: Array<{
+    periodStart: Date
+    avgValue: number
+    minValue: number
+    maxValue: number
+  }>,
+): SeasonalBaseline {
+  const byHour = new Map<number, typeof aggregates>()
+  for (const aggregate of aggregates) {
+    const hour = aggregate.periodStart.getUTCHours()
+    const bucket = byHour.get(hour) ?? []
+    bucket.push(aggregate)
+    byHour.set(hour, bucket)
+  }
+
+  const baseline: SeasonalBaseline = new Map()
+  for (const [hour, bucket] of byHour) {
+    if (bucket.length < SEASONAL_MIN_DAYS) continue
+    const averages = computeBaseline(bucket.map((a) => a.avgValue))
+    if (!averages) continue
+    const withinHour =
+      bucket.reduce((sum, a) => sum + (a.maxValue - a.minValue) / 4, 0) /
+      bucket.length
+    baseline.set(hour, {
+      mean: averages.mean,
+      stdDev: Math.sqrt(averages.stdDev ** 2 + withinHour ** 2),
+      count: bucket.length,
+    })
+  }
+  return baseline
+}
+
+/**
+ * Flag anomalous readings in a batch. Readings are checked in time order, and
+ * readings judged normal join the rolling baseline for the ones after them,
+ * so a backfilled buffer is judged as if it had arrived live.
+ *
+ * A reading is an outlier when it is beyond the z-score threshold on every
+ * baseline available: a normal afternoon peak that looks unusual against the
+ * last few hours is not flagged if it matches that hour's seasonal baseline.
+ *
+ * @param readings - New readings
+ * @param history - Stored readings before the batch, oldest first
+ * @param seasonal - Time-of-day baselines for the sensor
+ * @returns Flagged readings, oldest first
+ */
+export function detectAnomalies(
+  readings: Array<{ value: number; recordedAt: Date }>,
+  history: Array<{ value: number; recordedAt: Date; isAnomaly: boolean }>,
+  seasonal: SeasonalBaseline,
+): Array<AnomalyFlag> {
+  const sorted = [...readings].sort(
+    (a, b) => a.recordedAt.getTime() - b.recordedAt.getTime(),
+  )
+  const window = history
+    .filter((r) => !r.isAnomaly)
+    .map((r) => r.value)
+    .slice(-ANOMALY_BASELINE_READINGS)
+
+  // Trailing run of identical values carried over from stored history
+  let runValue: number | null = null
+  let runStart: Date | null = null
+  let runLength = 0
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (runValue === null) runValue = history[i].value
+    if (history[i].value !== runValue) break
+    runStart = history[i].recordedAt
+    runLength++
+  }
+
+  const flags: Array<AnomalyFlag> = []
+  for (const reading of sorted) {
+    if (runValue === reading.value && runStart) {
+      runLength++
+    } else {
+      runValue = reading.value
+      runStart = reading.recordedAt
+      runLength = 1
+    }
+
+    const runMinutes =
+      (reading.recordedAt.getTime() - runStart.getTime()) / 60000
+    if (
+      runLength >= FLATLINE_MIN_READINGS &&
+      runMinutes >= FLATLINE_MIN_MINUTES
+    ) {
+      flags.push({
+        recordedAt: reading.recordedAt,
+        value: reading.value,
+        reason: 'flatline',
+        score: 0,
+        expected: reading.value,
+        runLength,
+      })
+      continue
+    }
+
+    const baselines: Array<BaselineStats> = []
+    const rolling =
+      window.length >= ANOMALY_MIN_BASELINE_READINGS
+        ? computeBaseline(window)
+        : null
+    if (rolling) baselines.push(rolling)
+    const hourly = seasonal.get(reading.recordedAt.getUTCHours())
+    if (hourly) baselines.push(hourly)
+
+    const scores = baselines.map((b) =>
+      Math.abs(calculateZScore(reading.value, b)),
+    )
+    if (
+      scores.length > 0 &&
+      scores.every((score) => score > ANOMALY_Z_SCORE_THRESHOLD)
+    ) {
+      flags.push({
+        recordedAt: reading.recordedAt,
+        value: reading.value,
+        reason: 'outlier',
+        score: Math.min(...scores),
+        expected: baselines[0].mean,
+      })
+      continue
+    }
+
+    window.push(reading.value)
+    if (window.length > ANOMALY_BASELINE_READINGS) window.shift()
+  }
+
+  return flags
+}
+
+/**
+ * Turn a batch's anomalies into a sensor malfunction alert. A stuck sensor
+ * takes precedence over outliers; among outliers the most extreme is reported.
+ *
+ * @param flags - Anomalies found in the batch
+ * @param sensorType - Sensor type, for the message
+ * @returns Alert to raise, or null if nothing was flagged
+ *
+ * @example
+ * ```ts
+ * checkMalfunctionAlert([{ reason: 'flatline', value: 21, runLength: 12, ... }], 'temperature')
+ * // Returns: { alertType: 'sensor_malfunction', message: 'temperature sensor stuck at 21 for 12 readings', ... }
+ * ```
+ */
+export function checkMalfunctionAlert(
+  flags: Array<AnomalyFlag>,
+  sensorType: string,
+): AlertCheckResult | null {
+  if (flags.length === 0) return null
+
+  const flatlines = flags.filter((f) => f.reason === 'flatline')
+  if (flatlines.length > 0) {
+    const latest = flatlines[flatlines.length - 1]
+    return {
+      shouldAlert: true,
+      alertType: 'sensor_malfunction',
+      severity: 'warning',
+      message: `${sensorType} sensor stuck at ${latest.value} for ${latest.runLength} readings`,
+      triggerValue: latest.value,
+      thresholdValue: latest.expected,
+    }
+  }
+
+  const worst = flags.reduce((a, b) => (b.score > a.score ? b : a))
+  return {
+    shouldAlert: true,
+    alertType: 'sensor_malfunction',
+    severity: 'warning',
+    message: `${sensorType} sensor reading ${worst.value} is far outside its usual range (expected about ${worst.expected.toFixed(1)})`,
+    triggerValue: worst.value,
+    thresholdValue: worst.expected,
+  }
+}
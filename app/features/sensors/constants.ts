@@ -1,4 +1,8 @@
-import type { SensorType } from '~/lib/db/types'
+import type {
+  ActuatorRuleCondition,
+  ActuatorType,
+  SensorType,
+} from '~/lib/db/types'
 
 export const SENSOR_TYPES: Array<SensorType> = [
   'temperature',
@@ -11,6 +15,9 @@ export const SENSOR_TYPES: Array<SensorType> = [
   'hive_weight',
   'hive_temperature',
   'hive_humidity',
+  'heat_index',
+  'thi',
+  'unionized_ammonia',
 ]
 
 export const POLLING_INTERVALS = [5, 15, 30, 60] as const
@@ -97,6 +104,28 @@ export const SENSOR_TYPE_CONFIG: Record<SensorType, SensorConfig> = {
     maxValid: 100,
     defaultThresholds: { min: 50, max: 70 },
   },
+  // Derived sensors, computed from other sensors in the same structure
+  heat_index: {
+    label: 'Heat Index',
+    unit: '',
+    minValid: -40,
+    maxValid: 300,
+    defaultThresholds: { min: 0, max: 150 },
+  },
+  thi: {
+    label: 'Temperature-Humidity Index',
+    unit: '',
+    minValid: -50,
+    maxValid: 120,
+    defaultThresholds: { min: 0, max: 72 },
+  },
+  unionized_ammonia: {
+    label: 'Un-ionized Ammonia',
+    unit: 'mg/L',
+    minValid: 0,
+    maxValid: 10,
+    defaultThresholds: { min: 0, max: 0.05 },
+  },
 }
 
 export function getDefaultThresholds(
@@ -132,3 +161,135 @@ export function getDefaultThresholds(
 
   return baseThresholds
 }
+
+/** Minutes between alerts of the same type when no config overrides it */
+export const DEFAULT_ALERT_COOLDOWN_MINUTES = 30
+
+/** Trend rule used when a sensor has no trend configuration */
+export const DEFAULT_TREND_CONFIG = {
+  rateThreshold: 5,
+  rateWindowMinutes: 60,
+}
+
+/** Minutes an unacknowledged critical alert waits before each escalation */
+export const ALERT_ESCALATION_INTERVAL_MINUTES = 15
+
+/** Escalations sent before an unacknowledged alert is left alone */
+export const MAX_ALERT_ESCALATION_LEVEL = 3
+
+/** Farm roles notified on first alert, and on escalation */
+export const ALERT_RECIPIENT_ROLES = ['owner'] as const
+export const ESCALATION_RECIPIENT_ROLES = ['owner', 'manager'] as const
+
+/** Most readings a gateway may post in one request */
+export const GATEWAY_MAX_READINGS = 5000
+
+/** How far back a gateway may backfill buffered readings */
+export const GATEWAY_BACKFILL_HOURS = 72
+
+/** Tolerated device clock drift for readings stamped in the future */
+export const INGEST_CLOCK_SKEW_MINUTES = 5
+
+/** Gateway channels are MQTT topic segments: no wildcards or separators */
+export const GATEWAY_CHANNEL_PATTERN = /^[\w.-]{1,50}$/
+
+/** Standard deviations from a sensor's baseline at which a reading is anomalous */
+export const ANOMALY_Z_SCORE_THRESHOLD = 4
+
+/** Most recent normal readings forming a sensor's rolling baseline */
+export const ANOMALY_BASELINE_READINGS = 60
+
+/** Fewest baseline readings before rolling z-scores are trusted */
+export const ANOMALY_MIN_BASELINE_READINGS = 20
+
+/**
+ * Smallest spread used in z-scores, as a fraction of the baseline mean, so a
+ * very steady sensor does not flag every small movement
+ */
+export const ANOMALY_MIN_SPREAD_RATIO = 0.01
+
+/** Days of hourly aggregates forming the time-of-day baseline */
+export const SEASONAL_BASELINE_DAYS = 14
+
+/** Fewest days an hour of the day needs before its seasonal baseline is used */
+export const SEASONAL_MIN_DAYS = 5
+
+/** Identical consecutive readings, over at least this long, mean a stuck sensor */
+export const FLATLINE_MIN_READINGS = 12
+export const FLATLINE_MIN_MINUTES = 120
+
+/** Longest delay, in days, tested between environment and batch outcomes */
+export const ENVIRONMENT_MAX_LAG_DAYS = 3
+
+/** Hours outside the comfort zone that make a day a stress day */
+export const STRESS_DAY_MIN_HOURS = 2
+
+/** Fewest paired days before a correlation is reported */
+export const MIN_CORRELATION_DAYS = 7
+
+/**
+ * Retention used by farms without a policy: raw readings for a month, hourly
+ * aggregates for a year and daily aggregates forever
+ */
+export const DEFAULT_RETENTION_POLICY = {
+  rawRetentionDays: 30,
+  hourlyRetentionDays: 365,
+  dailyRetentionDays: null,
+  archiveRawReadings: true,
+} as const
+
+/** Shortest raw retention, so aggregation always runs before deletion */
+export const MIN_RAW_RETENTION_DAYS = 2
+
+/** Sensor-days archived per sensor in one run, to bound Worker CPU time */
+export const ARCHIVE_MAX_DAYS_PER_RUN = 31
+
+/** Storage key prefix for archived raw readings */
+export const SENSOR_ARCHIVE_PREFIX = 'sensor-archives'
+
+/** Longest chart range served from raw readings */
+export const CHART_RAW_MAX_DAYS = 3
+
+/** Longest chart range served from hourly aggregates */
+export const CHART_HOURLY_MAX_DAYS = 31
+
+/** Most points returned for a chart */
+export const CHART_MAX_POINTS = 1000
+
+/**
+ * Oldest an input reading may be, relative to the reading that triggers a
+ * derived value, to still be combined with it
+ */
+export const DERIVED_INPUT_MAX_AGE_MINUTES = 30
+
+/** Kinds of relay-controlled devices */
+export const ACTUATOR_TYPES: Array<ActuatorType> = [
+  'fan',
+  'fogger',
+  'heater',
+  'aerator',
+  'pump',
+  'light',
+]
+
+export const ACTUATOR_RULE_CONDITIONS: Array<ActuatorRuleCondition> = [
+  'above',
+  'below',
+  'rising',
+  'falling',
+]
+
+/** Shortest time between rule-driven switches of one actuator, to spare relays */
+export const ACTUATOR_MIN_SWITCH_MINUTES = 5
+
+/** Longest a rule condition can be required to hold */
+export const ACTUATOR_RULE_MAX_DURATION_MINUTES = 24 * 60
+
+/** Shortest window a rising/falling rule measures its rate over */
+export const ACTUATOR_TREND_MIN_MINUTES = 10
+
+/** Readings older than this (backfills) never switch actuators */
+export const ACTUATOR_MAX_READING_AGE_MINUTES = 15
+
+/** Extra history loaded before a rule's window to see when its condition began */
+export const ACTUATOR_RULE_LOOKBACK_MINUTES = 60
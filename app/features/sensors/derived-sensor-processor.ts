@@ -0,0 +1,81 @@
+/**
+ * Derived sensor processor - computes the readings of virtual sensors that
+ * use a physical sensor as an input whenever that sensor reports
+ */
+
+import {
+  computeDerivedReadings,
+  isDerivedSensorType,
+} from './derived-sensor-service'
+import { ingestSensorReadings } from './ingestion'
+import { getValidReadingsInWindow } from './readings-repository'
+import { getDerivedSensorsByFarm } from './repository'
+import { DERIVED_INPUT_MAX_AGE_MINUTES } from './constants'
+import type { AnomalyFlag } from './anomaly-service'
+import type { SensorType } from './types'
+import type { Database } from '~/lib/db/types'
+import type { Kysely } from 'kysely'
+
+/**
+ * Compute and ingest derived readings for the new readings of an input
+ * sensor. Anomalous input readings are skipped, and derived readings go
+ * through the regular pipeline so their thresholds raise alerts.
+ *
+ * @returns Derived readings stored and alerts they raised
+ */
+export async function deriveDependentReadings(
+  db: Kysely<Database>,
+  sensor: { id: string; farmId: string; sensorType: SensorType },
+  readings: Array<{ value: number; recordedAt: Date }>,
+  anomalies: Array<AnomalyFlag>,
+  now: Date = new Date(),
+): Promise<{ stored: number; alertsRaised: number }> {
+  const result = { stored: 0, alertsRaised: 0 }
+
+  const anomalous = new Set(anomalies.map((a) => a.recordedAt.getTime()))
+  const valid = readings
+    .filter((r) => !anomalous.has(r.recordedAt.getTime()))
+    .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime())
+  if (valid.length === 0) return result
+
+  const dependents = (await getDerivedSensorsByFarm(db, sensor.farmId)).filter(
+    (d) => d.derivedFrom?.[sensor.sensorType] === sensor.id,
+  )
+  if (dependents.length === 0) return result
+
+  const windowStart = new Date(
+    valid[0].recordedAt.getTime() - DERIVED_INPUT_MAX_AGE_MINUTES * 60 * 1000,
+  )
+  const windowEnd = valid[valid.length - 1].recordedAt
+
+  for (const dependent of dependents) {
+    if (!isDerivedSensorType(dependent.sensorType)) continue
+
+    const others = new Map<
+      SensorType,
+      Array<{ value: number; recordedAt: Date }>
+    >()
+    for (const [inputType, inputId] of Object.entries(
+      dependent.derivedFrom ?? {},
+    )) {
+      if (inputType === sensor.sensorType || !inputId) continue
+      others.set(
+        inputType as SensorType,
+        await getValidReadingsInWindow(db, inputId, windowStart, windowEnd),
+      )
+    }
+
+    const derived = computeDerivedReadings(
+      dependent.sensorType,
+      { sensorType: sensor.sensorType, readings: valid },
+      others,
+    )
+    if (derived.length === 0) continue
+
+    const ingested = await ingestSensorReadings(db, dependent, derived, now)
+    result.stored += ingested.stored
+    result.alertsRaised += ingested.alertsRaised
+  }
+
+  return result
+}
@@ -0,0 +1,229 @@
+/**
+ * Pure business logic for derived (virtual) sensors.
+ * All functions are side-effect-free and easily unit testable.
+ *
+ * A derived sensor combines readings of other sensors in the same structure
+ * through a formula, e.g. temperature and humidity into a heat index. Its
+ * values are stored as ordinary readings, so thresholds, alerts, anomaly
+ * detection and charts treat it like any physical sensor.
+ */
+
+import { DERIVED_INPUT_MAX_AGE_MINUTES, SENSOR_TYPE_CONFIG } from './constants'
+import type { SensorDerivation, SensorType } from './types'
+
+/** Sensor types computed from other sensors */
+export type DerivedSensorType = 'heat_index' | 'thi' | 'unionized_ammonia'
+
+interface DerivedSensorFormula {
+  /** Sensor types the formula reads */
+  inputs: ReadonlyArray<SensorType>
+  compute: (values: Partial<Record<SensorType, number>>) => number
+}
+
+/**
+ * Poultry heat index: air temperature in °F plus relative humidity. Broilers
+ * are stressed above about 150 and at risk of dying above 160.
+ *
+ * @example
+ * ```ts
+ * calculateHeatIndex(30, 70) // Returns: 156
+ * ```
+ */
+export function calculateHeatIndex(
+  temperatureC: number,
+  humidity: number,
+): number {
+  return temperatureC * 1.8 + 32 + humidity
+}
+
+/**
+ * Temperature-humidity index for cattle (NRC 1971). Above 72 dairy cattle
+ * start to lose yield; above 80 stress is severe.
+ *
+ * @example
+ * ```ts
+ * calculateThi(30, 60) // Returns: 79.84
+ * ```
+ */
+export function calculateThi(temperatureC: number, humidity: number): number {
+  const temperatureF = 1.8 * temperatureC + 32
+  return temperatureF - (0.55 - 0.0055 * humidity) * (1.8 * temperatureC - 26)
+}
+
+/**
+ * Un-ionized (toxic) ammonia from total ammonia nitrogen, pH and water
+ * temperature (Emerson et al. 1975). Fish are harmed by long exposure above
+ * about 0.05 mg/L.
+ *
+ * @param totalAmmonia - Total ammonia nitrogen, mg/L (ppm)
+ * @param ph - Water pH
+ * @param temperatureC - Water temperature, °C
+ * @returns Un-ionized ammonia, mg/L
+ *
+ * @example
+ * ```ts
+ * calculateUnionizedAmmonia(1, 8, 25) // Returns: ~0.054
+ * ```
+ */
+export function calculateUnionizedAmmonia(
+  totalAmmonia: number,
+  ph: number,
+  temperatureC: number,
+): number {
+  const pKa = 0.09018 + 2729.92 / (temperatureC + 273.15)
+  return totalAmmonia / (1 + 10 ** (pKa - ph))
+}
+
+export const DERIVED_SENSOR_FORMULAS: Record<
+  DerivedSensorType,
+  DerivedSensorFormula
+> = {
+  heat_index: {
+    inputs: ['temperature', 'humidity'],
+    compute: (v) => calculateHeatIndex(v.temperature ?? NaN, v.humidity ?? NaN),
+  },
+  thi: {
+    inputs: ['temperature', 'humidity'],
+    compute: (v) => calculateThi(v.temperature ?? NaN, v.humidity ?? NaN),
+  },
+  unionized_ammonia: {
+    inputs: ['ammonia', 'ph', 'water_temperature'],
+    compute: (v) =>
+      calculateUnionizedAmmonia(
+        v.ammonia ?? NaN,
+        v.ph ?? NaN,
+        v.water_temperature ?? NaN,
+      ),
+  },
+}
+
+/**
+ * Whether a sensor type is computed from other sensors
+ */
+export function isDerivedSensorType(
+  sensorType: SensorType,
+): sensorType is DerivedSensorType {
+  return sensorType in DERIVED_SENSOR_FORMULAS
+}
+
+/**
+ * Check a derived sensor's inputs: one sensor per formula input, each of the
+ * right type, physical, and in the derived sensor's structure
+ *
+ * @param sensorType - Type of the sensor being defined
+ * @param structureId - Structure of the sensor being defined
+ * @param derivedFrom - Chosen input sensor per input type
+ * @param candidates - The farm's sensors
+ * @returns Error message, or null if the definition is valid
+ */
+export function validateDerivation(
+  sensorType: SensorType,
+  structureId: string | null,
+  derivedFrom: SensorDerivation | null | undefined,
+  candidates: Array<{
+    id: string
+    sensorType: SensorType
+    structureId: string | null
+  }>,
+): string | null {
+  if (!isDerivedSensorType(sensorType)) {
+    return derivedFrom ? 'Only derived sensor types take input sensors' : null
+  }
+  if (!structureId) return 'Derived sensors must belong to a structure'
+
+  const { inputs } = DERIVED_SENSOR_FORMULAS[sensorType]
+  for (const inputType of inputs) {
+    const label = SENSOR_TYPE_CONFIG[inputType].label
+    const input = candidates.find((c) => c.id === derivedFrom?.[inputType])
+    if (!input) return `Choose a ${label} sensor`
+    if (input.sensorType !== inputType) {
+      return `The ${label} input must be a ${label} sensor`
+    }
+    if (input.structureId !== structureId) {
+      return `The ${label} sensor must be in the same structure`
+    }
+  }
+  return null
+}
+
+/**
+ * Latest value at or before a time, within the input age limit
+ */
+function valueAt(
+  series: Array<{ value: number; recordedAt: Date }>,
+  time: number,
+  maxAgeMs: number,
+): number | undefined {
+  let latest: { value: number; recordedAt: Date } | undefined
+  for (const point of series) {
+    const t = point.recordedAt.getTime()
+    if (t > time) break
+    if (time - t <= maxAgeMs) latest = point
+  }
+  return latest?.value
+}
+
+/**
+ * Compute derived readings for new readings of one input. Each new reading is
+ * paired with the most recent reading of every other input taken at most
+ * `DERIVED_INPUT_MAX_AGE_MINUTES` before it; readings without fresh values
+ * for every input, or whose result is out of the derived type's valid range,
+ * are skipped.
+ *
+ * @param sensorType - Derived sensor type
+ * @param trigger - Input type and its new readings
+ * @param others - Recent readings of the other inputs, oldest first
+ * @returns Derived readings at the trigger readings' timestamps
+ *
+ * @example
+ * ```ts
+ * computeDerivedReadings(
+ *   'heat_index',
+ *   { sensorType: 'temperature', readings: [{ value: 30, recordedAt }] },
+ *   new Map([['humidity', [{ value: 70, recordedAt }]]]),
+ * )
+ * // Returns: [{ value: 156, recordedAt }]
+ * ```
+ */
+export function computeDerivedReadings(
+  sensorType: DerivedSensorType,
+  trigger: {
+    sensorType: SensorType
+    readings: Array<{ value: number; recordedAt: Date }>
+  },
+  others: Map<SensorType, Array<{ value: number; recordedAt: Date }>>,
+): Array<{ value: number; recordedAt: Date }> {
+  const formula = DERIVED_SENSOR_FORMULAS[sensorType]
+  const config = SENSOR_TYPE_CONFIG[sensorType]
+  const maxAgeMs = DERIVED_INPUT_MAX_AGE_MINUTES * 60 * 1000
+  const derived: Array<{ value: number; recordedAt: Date }> = []
+
+  for (const reading of trigger.readings) {
+    const values: Partial<Record<SensorType, number>> = {
+      [trigger.sensorType]: reading.value,
+    }
+    for (const inputType of formula.inputs) {
+      if (inputType === trigger.sensorType) continue
+      values[inputType] = valueAt(
+        others.get(inputType) ?? [],
+        reading.recordedAt.getTime(),
+        maxAgeMs,
+      )
+    }
+
+    const value = formula.compute(values)
+    if (
+      !Number.isFinite(value) ||
+      value < config.minValid ||
+      value > config.maxValid
+    ) {
+      continue
+    }
+    derived.push({
+      value: Math.round(value * 10000) / 10000,
+      recordedAt: reading.recordedAt,
+    })
+  }
+
+  return derived
+}
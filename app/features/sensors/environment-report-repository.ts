@@ -0,0 +1,104 @@
+import type { Kysely } from 'kysely'
+import type { Database } from '~/lib/db/types'
+
+export async function getBatchForEnvironmentReport(
+  db: Kysely<Database>,
+  batchId: string,
+) {
+  return db
+    .selectFrom('batches')
+    .select([
+      'id',
+      'farmId',
+      'structureId',
+      'status',
+      'acquisitionDate',
+      'initialQuantity',
+      'currentQuantity',
+      'updatedAt',
+    ])
+    .where('id', '=', batchId)
+    .where('deletedAt', 'is', null)
+    .executeTakeFirst()
+}
+
+/**
+ * Sensors housed in a structure, including removed ones whose history may
+ * still cover the batch
+ */
+export async function getStructureSensors(
+  db: Kysely<Database>,
+  structureId: string,
+) {
+  return db
+    .selectFrom('sensors')
+    .select(['id', 'sensorType', 'thresholds'])
+    .where('structureId', '=', structureId)
+    .execute()
+}
+
+export async function getHourlyAggregatesForSensors(
+  db: Kysely<Database>,
+  sensorIds: Array<string>,
+  startDate: Date,
+  endDate: Date,
+) {
+  if (sensorIds.length === 0) return []
+
+  const rows = await db
+    .selectFrom('sensor_aggregates')
+    .select(['sensorId', 'periodStart', 'avgValue'])
+    .where('sensorId', 'in', sensorIds)
+    .where('periodType', '=', 'hourly')
+    .where('periodStart', '>=', startDate)
+    .where('periodStart', '<=', endDate)
+    .orderBy('periodStart', 'asc')
+    .execute()
+
+  return rows.map((r) => ({ ...r, avgValue: Number(r.avgValue) }))
+}
+
+export async function getBatchMortalityByDate(
+  db: Kysely<Database>,
+  batchId: string,
+) {
+  return db
+    .selectFrom('mortality_records')
+    .select(['date', 'quantity'])
+    .where('batchId', '=', batchId)
+    .execute()
+}
+
+export async function getBatchFeedByDate(
+  db: Kysely<Database>,
+  batchId: string,
+) {
+  const rows = await db
+    .selectFrom('feed_records')
+    .select(['date', 'quantityKg'])
+    .where('batchId', '=', batchId)
+    .execute()
+
+  return rows.map((r) => ({ date: r.date, quantityKg: Number(r.quantityKg) }))
+}
+
+/**
+ * Batch-level weight samples (samples of single tagged animals are left out)
+ */
+export async function getBatchWeightSamples(
+  db: Kysely<Database>,
+  batchId: string,
+) {
+  const rows = await db
+    .selectFrom('weight_samples')
+    .select(['date', 'averageWeightKg'])
+    .where('batchId', '=', batchId)
+    .where('animalId', 'is', null)
+    .orderBy('date', 'asc')
+    .execute()
+
+  return rows.map((r) => ({
+    date: r.date,
+    averageWeightKg: Number(r.averageWeightKg),
+  }))
+}
@@ -0,0 +1,441 @@
+/**
+ * Pure business logic for batch environment reports.
+ * All functions are side-effect-free and easily unit testable.
+ *
+ * A batch's environment is read from the sensors in its structure over the
+ * batch's lifetime. Each day is scored by the hours spent outside the comfort
+ * zone, and those stress hours are correlated with the batch's daily
+ * mortality, feed intake and weight gain a few days later.
+ */
+
+import {
+  ENVIRONMENT_MAX_LAG_DAYS,
+  MIN_CORRELATION_DAYS,
+  SENSOR_TYPE_CONFIG,
+  STRESS_DAY_MIN_HOURS,
+} from './constants'
+import type {
+  BatchEnvironmentDay,
+  BatchEnvironmentReport,
+  ComfortZone,
+  ComfortZoneSummary,
+  EnvironmentImpact,
+  EnvironmentOutcomeMetric,
+  LaggedCorrelation,
+  SensorThresholds,
+  SensorType,
+} from './types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Daily values keyed by UTC date (YYYY-MM-DD) */
+export type DailySeries = Map<string, number>
+
+/** Hourly aggregates of one sensor in the batch's structure */
+export interface StructureSensorHistory {
+  sensorType: SensorType
+  thresholds: SensorThresholds | null
+  hourly: Array<{ periodStart: Date; avgValue: number }>
+}
+
+/** Everything the report is built from */
+export interface EnvironmentReportInput {
+  batchId: string
+  structureId: string | null
+  startDate: Date
+  endDate: Date
+  /** Head count used to scale per-head weight gain to the batch */
+  headcount: number
+  sensors: Array<StructureSensorHistory>
+  mortality: Array<{ date: Date; quantity: number }>
+  feed: Array<{ date: Date; quantityKg: number }>
+  weights: Array<{ date: Date; averageWeightKg: number }>
+}
+
+/**
+ * UTC calendar date of a timestamp
+ *
+ * @example
+ * ```ts
+ * toDateKey(new Date('2026-03-01T23:30:00Z')) // Returns: '2026-03-01'
+ * ```
+ */
+export function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+function shiftDateKey(key: string, days: number): string {
+  return toDateKey(
+    new Date(new Date(`${key}T00:00:00Z`).getTime() + days * DAY_MS),
+  )
+}
+
+/**
+ * Comfort zone for a sensor: its warning thresholds, else its alert
+ * thresholds, else the sensor type's defaults
+ *
+ * @param thresholds - Thresholds configured on the sensor
+ * @param defaults - Default thresholds for the sensor type
+ * @returns Range considered comfortable
+ */
+export function resolveComfortZone(
+  thresholds: SensorThresholds | null,
+  defaults: { min: number; max: number },
+): ComfortZone {
+  return {
+    min: thresholds?.warningMinValue ?? thresholds?.minValue ?? defaults.min,
+    max: thresholds?.warningMaxValue ?? thresholds?.maxValue ?? defaults.max,
+  }
+}
+
+/**
+ * Hours each day spent outside a comfort zone, for days with readings
+ *
+ * @param hourly - Hourly averages keyed by hour start (ms)
+ * @param zone - Comfort zone
+ * @returns Stress hours per day
+ */
+export function calculateDailyStressHours(
+  hourly: Map<number, number>,
+  zone: ComfortZone,
+): DailySeries {
+  const days: DailySeries = new Map()
+  for (const [hourStart, value] of hourly) {
+    const key = toDateKey(new Date(hourStart))
+    const outside = value < zone.min || value > zone.max ? 1 : 0
+    days.set(key, (days.get(key) ?? 0) + outside)
+  }
+  return days
+}
+
+/**
+ * Summarise time in the comfort zone for one sensor type
+ *
+ * @param sensorType - Sensor type
+ * @param hourly - Hourly averages keyed by hour start (ms)
+ * @param zone - Comfort zone
+ * @returns Summary, or null without readings
+ */
+export function summarizeComfortZone(
+  sensorType: SensorType,
+  hourly: Map<number, number>,
+  zone: ComfortZone,
+): ComfortZoneSummary | null {
+  const values = [...hourly.values()]
+  if (values.length === 0) return null
+
+  const hoursAbove = values.filter((v) => v > zone.max).length
+  const hoursBelow = values.filter((v) => v < zone.min).length
+  const hoursInZone = values.length - hoursAbove - hoursBelow
+  const stress = calculateDailyStressHours(hourly, zone)
+
+  return {
+    sensorType,
+    unit: SENSOR_TYPE_CONFIG[sensorType].unit,
+    zone,
+    hoursObserved: values.length,
+    hoursInZone,
+    hoursAbove,
+    hoursBelow,
+    percentInZone: Math.round((hoursInZone / values.length) * 1000) / 10,
+    averageValue: values.reduce((sum, v) => sum + v, 0) / values.length,
+    minValue: Math.min(...values),
+    maxValue: Math.max(...values),
+    stressDays: [...stress.values()].filter((h) => h >= STRESS_DAY_MIN_HOURS)
+      .length,
+  }
+}
+
+/**
+ * Sum dated quantities per day
+ *
+ * @param records - Records with a date and a quantity
+ * @returns Totals per day
+ */
+export function sumByDay(
+  records: Array<{ date: Date; quantity: number }>,
+): DailySeries {
+  const days: DailySeries = new Map()
+  for (const record of records) {
+    const key = toDateKey(record.date)
+    days.set(key, (days.get(key) ?? 0) + record.quantity)
+  }
+  return days
+}
+
+/**
+ * Average daily gain per head between weight samples. Each day between two
+ * samples is credited with the gain rate over that interval.
+ *
+ * @param samples - Weight samples with the average weight per head
+ * @returns Gain per head per day, in kg, for days between samples
+ *
+ * @example
+ * ```ts
+ * calculateDailyWeightGain([
+ *   { date: new Date('2026-03-01'), averageWeightKg: 1.0 },
+ *   { date: new Date('2026-03-03'), averageWeightKg: 1.2 },
+ * ])
+ * // Returns: Map { '2026-03-01' => 0.1, '2026-03-02' => 0.1 }
+ * ```
+ */
+export function calculateDailyWeightGain(
+  samples: Array<{ date: Date; averageWeightKg: number }>,
+): DailySeries {
+  const sorted = [...samples].sort(
+    (a, b) => a.date.getTime() - b.date.getTime(),
+  )
+  const days: DailySeries = new Map()
+
+  for (let i = 1; i < sorted.length; i++) {
+    const from = toDateKey(sorted[i - 1].date)
+    const to = toDateKey(sorted[i].date)
+    const span = Math.round(
+      (new Date(to).getTime() - new Date(from).getTime()) / DAY_MS,
+    )
+    if (span <= 0) continue
+
+    const rate =
+      (sorted[i].averageWeightKg - sorted[i - 1].averageWeightKg) / span
+    for (let d = 0; d < span; d++) days.set(shiftDateKey(from, d), rate)
+  }
+  return days
+}
+
+/**
+ * Pearson correlation coefficient of paired values
+ *
+ * @returns Coefficient from -1 to 1, or null if either side has no variance
+ */
+export function pearsonCorrelation(
+  xs: Array<number>,
+  ys: Array<number>,
+): number | null {
+  const n = Math.min(xs.length, ys.length)
+  if (n < 2) return null
+
+  const meanX = xs.slice(0, n).reduce((s, v) => s + v, 0) / n
+  const meanY = ys.slice(0, n).reduce((s, v) => s + v, 0) / n
+  let covariance = 0
+  let varianceX = 0
+  let varianceY = 0
+  for (let i = 0; i < n; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY)
+    varianceX += (xs[i] - meanX) ** 2
+    varianceY += (ys[i] - meanY) ** 2
+  }
+  if (varianceX === 0 || varianceY === 0) return null
+  return covariance / Math.sqrt(varianceX * varianceY)
+}
+
+/**
+ * Correlate daily stress hours with an outcome `lagDays` later, trying each
+ * lag up to the maximum and keeping the strongest
+ *
+ * @param stress - Stress hours per day
+ * @param outcome - Outcome per day; days without a value are skipped
+ * @param maxLagDays - Longest lag to try
+ * @returns Strongest lag and its coefficient, or null without enough data
+ */
+export function findStrongestLag(
+  stress: DailySeries,
+  outcome: DailySeries,
+  maxLagDays: number = ENVIRONMENT_MAX_LAG_DAYS,
+): { lagDays: number; coefficient: number; sampleDays: number } | null {
+  let best: {
+    lagDays: number
+    coefficient: number
+    sampleDays: number
+  } | null = null
+
+  for (let lag = 0; lag <= maxLagDays; lag++) {
+    const xs: Array<number> = []
+    const ys: Array<number> = []
+    for (const [day, hours] of stress) {
+      const value = outcome.get(shiftDateKey(day, lag))
+      if (value === undefined) continue
+      xs.push(hours)
+      ys.push(value)
+    }
+    if (xs.length < MIN_CORRELATION_DAYS) continue
+
+    const coefficient = pearsonCorrelation(xs, ys)
+    if (coefficient === null) continue
+    if (!best || Math.abs(coefficient) > Math.abs(best.coefficient)) {
+      best = { lagDays: lag, coefficient, sampleDays: xs.length }
+    }
+  }
+  return best
+}
+
+function meanOutcome(
+  days: Array<string>,
+  outcome: DailySeries,
+  lagDays: number,
+): number | null {
+  const values = days
+    .map((day) => outcome.get(shiftDateKey(day, lagDays)))
+    .filter((v): v is number => v !== undefined)
+  if (values.length === 0) return null
+  return values.reduce((sum, v) => sum + v, 0) / values.length
+}
+
+/**
+ * Compare outcomes after stress days with outcomes after comfortable days
+ *
+ * @param sensorType - Sensor type the stress hours come from
+ * @param stress - Stress hours per day
+ * @param outcomes - Daily mortality, feed intake and gain per head
+ * @param lagDays - Days between a stress day and its effect
+ * @param headcount - Head count used to scale per-head gain
+ * @returns Estimated impact, or null if the batch had no stress days
+ */
+export function estimateEnvironmentImpact(
+  sensorType: SensorType,
+  stress: DailySeries,
+  outcomes: Record<EnvironmentOutcomeMetric, DailySeries>,
+  lagDays: number,
+  headcount: number,
+): EnvironmentImpact | null {
+  const stressDays = [...stress]
+    .filter(([, hours]) => hours >= STRESS_DAY_MIN_HOURS)
+    .map(([day]) => day)
+  const comfortDays = [...stress]
+    .filter(([, hours]) => hours === 0)
+    .map(([day]) => day)
+  if (stressDays.length === 0) return null
+
+  const difference = (metric: EnvironmentOutcomeMetric) => {
+    const onStress = meanOutcome(stressDays, outcomes[metric], lagDays)
+    const onComfort = meanOutcome(comfortDays, outcomes[metric], lagDays)
+    return onStress === null || onComfort === null ? 0 : onStress - onComfort
+  }
+
+  return {
+    sensorType,
+    lagDays,
+    stressDays: stressDays.length,
+    excessMortality: Math.round(
+      Math.max(0, difference('mortality')) * stressDays.length,
+    ),
+    weightLossKg:
+      Math.round(
+        Math.max(0, -difference('weightGain')) *
+          stressDays.length *
+          headcount *
+          10,
+      ) / 10,
+    feedIntakeChangeKg: Math.round(difference('feedIntake') * 10) / 10,
+  }
+}
+
+/**
+ * Build a batch's environment report
+ *
+ * @param input - Batch period, structure sensor history and batch records
+ * @returns Comfort-zone summaries, lagged correlations, impact estimates and
+ *   the daily series behind them
+ */
+export function buildBatchEnvironmentReport(
+  input: EnvironmentReportInput,
+): BatchEnvironmentReport {
+  const outcomes: Record<EnvironmentOutcomeMetric, DailySeries> = {
+    mortality: new Map(),
+    feedIntake: sumByDay(
+      input.feed.map((f) => ({ date: f.date, quantity: f.quantityKg })),
+    ),
+    weightGain: calculateDailyWeightGain(input.weights),
+  }
+
+  // Every day of the batch counts, with no deaths unless recorded
+  const days: Array<string> = []
+  const firstDay = toDateKey(input.startDate)
+  const lastDay = toDateKey(input.endDate)
+  for (let day = firstDay; day <= lastDay; day = shiftDateKey(day, 1)) {
+    days.push(day)
+    outcomes.mortality.set(day, 0)
+  }
+  for (const [day, deaths] of sumByDay(input.mortality)) {
+    if (outcomes.mortality.has(day)) outcomes.mortality.set(day, deaths)
+  }
+
+  // Sensors of the same type are averaged hour by hour
+  const byType = new Map<
+    SensorType,
+    { zone: ComfortZone; sums: Map<number, { total: number; count: number }> }
+  >()
+  for (const sensor of input.sensors) {
+    const entry = byType.get(sensor.sensorType) ?? {
+      zone: resolveComfortZone(
+        sensor.thresholds,
+        SENSOR_TYPE_CONFIG[sensor.sensorType].defaultThresholds,
+      ),
+      sums: new Map(),
+    }
+    for (const point of sensor.hourly) {
+      const hour = point.periodStart.getTime()
+      const sum = entry.sums.get(hour) ?? { total: 0, count: 0 }
+      sum.total += point.avgValue
+      sum.count++
+      entry.sums.set(hour, sum)
+    }
+    byType.set(sensor.sensorType, entry)
+  }
+
+  const comfort: Array<ComfortZoneSummary> = []
+  const correlations: Array<LaggedCorrelation> = []
+  const impacts: Array<EnvironmentImpact> = []
+  const stressByType = new Map<SensorType, DailySeries>()
+
+  for (const [sensorType, { zone, sums }] of byType) {
+    const hourly = new Map(
+      [...sums].map(([hour, s]) => [hour, s.total / s.count]),
+    )
+    const summary = summarizeComfortZone(sensorType, hourly, zone)
+    if (!summary) continue
+    comfort.push(summary)
+
+    const stress = calculateDailyStressHours(hourly, zone)
+    stressByType.set(sensorType, stress)
+
+    for (const metric of Object.keys(
+      outcomes,
+    ) as Array<EnvironmentOutcomeMetric>) {
+      const lag = findStrongestLag(stress, outcomes[metric])
+      if (lag) correlations.push({ sensorType, metric, ...lag })
+    }
+
+    const mortalityLag = correlations.find(
+      (c) => c.sensorType === sensorType && c.metric === 'mortality',
+    )
+    const impact = estimateEnvironmentImpact(
+      sensorType,
+      stress,
+      outcomes,
+      mortalityLag?.lagDays ?? 0,
+      input.headcount,
+    )
+    if (impact) impacts.push(impact)
+  }
+
+  return {
+    batchId: input.batchId,
+    structureId: input.structureId,
+    startDate: input.startDate,
+    endDate: input.endDate,
+    comfort,
+    correlations,
+    impacts,
+    days: days.map((date): BatchEnvironmentDay => ({
+      date,
+      stressHours: Object.fromEntries(
+        [...stressByType]
+          .filter(([, stress]) => stress.has(date))
+          .map(([type, stress]) => [type, stress.get(date)]),
+      ),
+      mortality: outcomes.mortality.get(date) ?? 0,
+      feedKg: outcomes.feedIntake.get(date) ?? 0,
+      weightGainKg: outcomes.weightGain.get(date) ?? null,
+    })),
+  }
+}
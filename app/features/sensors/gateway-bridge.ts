@@ -0,0 +1,120 @@
+/**
+ * Pure helpers for the local MQTT bridge (scripts/mqtt-bridge.ts), which
+ * forwards topic-per-sensor MQTT messages to the gateway ingestion endpoint.
+ * Kept free of server and database imports so the bridge can run on a small
+ * local machine.
+ */
+
+import { GATEWAY_CHANNEL_PATTERN } from './constants'
+
+/** A reading received over MQTT, waiting to be forwarded */
+export interface BufferedReading {
+  channel: string
+  value: number
+  recordedAt: Date
+}
+
+/** Request body batch for the gateway ingestion endpoint */
+export interface BridgeBatch {
+  channel: string
+  readings: Array<{ value: number; recordedAt: string }>
+}
+
+function toReading(
+  channel: string,
+  item: unknown,
+  receivedAt: Date,
+): BufferedReading | null {
+  if (typeof item === 'number') {
+    return Number.isFinite(item)
+      ? { channel, value: item, recordedAt: receivedAt }
+      : null
+  }
+  if (typeof item !== 'object' || item === null) return null
+
+  const { value, recordedAt, ts } = item as Record<string, unknown>
+  const numeric = typeof value === 'string' ? Number(value) : value
+  if (typeof numeric !== 'number' || !Number.isFinite(numeric)) return null
+
+  const stamp = recordedAt ?? ts
+  let time = receivedAt
+  if (typeof stamp === 'number') {
+    // Devices commonly send Unix seconds; larger values are milliseconds
+    time = new Date(stamp < 1e12 ? stamp * 1000 : stamp)
+  } else if (typeof stamp === 'string') {
+    time = new Date(stamp)
+  }
+  if (Number.isNaN(time.getTime())) return null
+
+  return { channel, value: numeric, recordedAt: time }
+}
+
+/**
+ * Parse an MQTT message published on `<prefix>/<channel>`. The payload may be
+ * a bare number, `{ "value": n, "recordedAt"|"ts": time }`, or an array of
+ * either. Readings without a timestamp are stamped with the receive time so
+ * buffered readings keep the time they were taken.
+ *
+ * @param topic - Topic the message arrived on
+ * @param payload - Message payload as text
+ * @param prefix - Topic prefix the bridge subscribes under
+ * @param receivedAt - When the bridge received the message
+ * @returns Parsed readings, or null if the topic or payload is not usable
+ *
+ * @example
+ * ```ts
+ * parseMqttReadings('farm/sensors/house-b-nh3', '31.5', 'farm/sensors', now)
+ * // Returns: [{ channel: 'house-b-nh3', value: 31.5, recordedAt: now }]
+ * ```
+ */
+export function parseMqttReadings(
+  topic: string,
+  payload: string,
+  prefix: string,
+  receivedAt: Date,
+): Array<BufferedReading> | null {
+  const base = prefix.replace(/\/+$/, '')
+  if (!topic.startsWith(`${base}/`)) return null
+  const channel = topic.slice(base.length + 1)
+  if (!GATEWAY_CHANNEL_PATTERN.test(channel)) return null
+
+  let data: unknown
+  try {
+    data = JSON.parse(payload)
+  } catch {
+    return null
+  }
+
+  const items = Array.isArray(data) ? data : [data]
+  const readings: Array<BufferedReading> = []
+  for (const item of items) {
+    const reading = toReading(channel, item, receivedAt)
+    if (!reading) return null
+    readings.push(reading)
+  }
+  return readings.length > 0 ? readings : null
+}
+
+/**
+ * Group buffered readings into per-channel batches for one request
+ *
+ * @param readings - Readings to send
+ * @returns Batches in first-seen channel order
+ */
+export function groupBridgeBatches(
+  readings: Array<BufferedReading>,
+): Array<BridgeBatch> {
+  const batches = new Map<string, BridgeBatch>()
+  for (const reading of readings) {
+    const batch = batches.get(reading.channel) ?? {
+      channel: reading.channel,
+      readings: [],
+    }
+    batch.readings.push({
+      value: reading.value,
+      recordedAt: reading.recordedAt.toISOString(),
+    })
+    batches.set(reading.channel, batch)
+  }
+  return [...batches.values()]
+}
@@ -0,0 +1,171 @@
+import type { Kysely } from 'kysely'
+import type { GatewaySensor, SensorGateway } from './types'
+import type { Database } from '~/lib/db/types'
+
+interface GatewayInsert {
+  farmId: string
+  name: string
+  apiKeyHash: string
+}
+
+interface GatewayUpdate {
+  name?: string
+  isActive?: boolean
+  apiKeyHash?: string
+}
+
+export async function insertGateway(
+  db: Kysely<Database>,
+  data: GatewayInsert,
+): Promise<string> {
+  const result = await db
+    .insertInto('sensor_gateways')
+    .values(data)
+    .returning('id')
+    .executeTakeFirstOrThrow()
+  return result.id
+}
+
+export async function getGatewayById(db: Kysely<Database>, id: string) {
+  return db
+    .selectFrom('sensor_gateways')
+    .select(['id', 'farmId', 'name', 'isActive'])
+    .where('id', '=', id)
+    .where('deletedAt', 'is', null)
+    .executeTakeFirst()
+}
+
+export async function getGatewayByApiKeyHash(
+  db: Kysely<Database>,
+  apiKeyHash: string,
+) {
+  return db
+    .selectFrom('sensor_gateways')
+    .select(['id', 'farmId', 'name', 'isActive'])
+    .where('apiKeyHash', '=', apiKeyHash)
+    .where('deletedAt', 'is', null)
+    .executeTakeFirst()
+}
+
+export async function getGatewaysByFarm(
+  db: Kysely<Database>,
+  farmId: string,
+): Promise<Array<SensorGateway>> {
+  const rows = await db
+    .selectFrom('sensor_gateways')
+    .leftJoin('sensors', (join) =>
+      join
+        .onRef('sensors.gatewayId', '=', 'sensor_gateways.id')
+        .on('sensors.deletedAt', 'is', null),
+    )
+    .select((eb) => [
+      'sensor_gateways.id',
+      'sensor_gateways.farmId',
+      'sensor_gateways.name',
+      'sensor_gateways.isActive',
+      'sensor_gateways.lastSeenAt',
+      'sensor_gateways.requestCount',
+      'sensor_gateways.createdAt',
+      eb.fn.count<string>('sensors.id').as('sensorCount'),
+    ])
+    .where('sensor_gateways.farmId', '=', farmId)
+    .where('sensor_gateways.deletedAt', 'is', null)
+    .groupBy('sensor_gateways.id')
+    .orderBy('sensor_gateways.name')
+    .execute()
+
+  return rows.map((row) => ({ ...row, sensorCount: Number(row.sensorCount) }))
+}
+
+export async function updateGateway(
+  db: Kysely<Database>,
+  id: string,
+  data: GatewayUpdate,
+) {
+  await db
+    .updateTable('sensor_gateways')
+    .set(data)
+    .where('id', '=', id)
+    .execute()
+}
+
+export async function recordGatewayUsage(db: Kysely<Database>, id: string) {
+  await db
+    .updateTable('sensor_gateways')
+    .set((eb) => ({
+      lastSeenAt: new Date(),
+      requestCount: eb('requestCount', '+', 1),
+    }))
+    .where('id', '=', id)
+    .execute()
+}
+
+/**
+ * Soft delete a gateway and detach its sensors
+ */
+export async function softDeleteGateway(db: Kysely<Database>, id: string) {
+  await db.transaction().execute(async (trx) => {
+    await trx
+      .updateTable('sensors')
+      .set({ gatewayId: null, channel: null })
+      .where('gatewayId', '=', id)
+      .execute()
+    await trx
+      .updateTable('sensor_gateways')
+      .set({ deletedAt: new Date(), isActive: false })
+      .where('id', '=', id)
+      .execute()
+  })
+}
+
+/**
+ * Sensors on a farm that a gateway may post readings for
+ */
+export async function getGatewaySensors(
+  db: Kysely<Database>,
+  farmId: string,
+): Promise<Array<GatewaySensor>> {
+  return db
+    .selectFrom('sensors')
+    .select([
+      'id',
+      'farmId',
+      'name',
+      'sensorType',
+      'isActive',
+      'gatewayId',
+      'channel',
+      'thresholds',
+      'trendConfig',
+    ])
+    .where('farmId', '=', farmId)
+    .where('deletedAt', 'is', null)
+    .execute()
+}
+
+export async function getSensorByGatewayChannel(
+  db: Kysely<Database>,
+  gatewayId: string,
+  channel: string,
+) {
+  return db
+    .selectFrom('sensors')
+    .select(['id'])
+    .where('gatewayId', '=', gatewayId)
+    .where('channel', '=', channel)
+    .where('deletedAt', 'is', null)
+    .executeTakeFirst()
+}
+
+export async function assignSensorToGateway(
+  db: Kysely<Database>,
+  sensorId: string,
+  gatewayId: string | null,
+  channel: string | null,
+) {
+  await db
+    .updateTable('sensors')
+    .set({ gatewayId, channel })
+    .where('id', '=', sensorId)
+    .execute()
+}
@@ -0,0 +1,345 @@
+import { createServerFn } from '@tanstack/react-start'
+import { z } from 'zod'
+import { GATEWAY_CHANNEL_PATTERN, GATEWAY_MAX_READINGS } from './constants'
+import type { GatewayIngestResult, SensorGateway } from './types'
+import { AppError } from '~/lib/errors'
+
+/** Header a gateway sends its API key in on the HTTP endpoint */
+const GATEWAY_API_KEY_HEADER = 'x-gateway-api-key'
+
+const channelSchema = z
+  .string()
+  .regex(GATEWAY_CHANNEL_PATTERN, 'Use letters, digits, "_", "-" or "."')
+
+export const gatewayBatchesSchema = z
+  .array(
+    z
+      .object({
+        sensorId: z.string().uuid().optional(),
+        channel: channelSchema.optional(),
+        readings: z
+          .array(
+            z.object({
+              value: z.number().finite(),
+              recordedAt: z.coerce.date().optional(),
+            }),
+          )
+          .min(1),
+      })
+      .refine((batch) => !!batch.sensorId !== !!batch.channel, {
+        message: 'Address each batch by either sensorId or channel',
+      }),
+  )
+  .min(1)
+  .refine(
+    (batches) =>
+      batches.reduce((sum, b) => sum + b.readings.length, 0) <=
+      GATEWAY_MAX_READINGS,
+    { message: `At most ${GATEWAY_MAX_READINGS} readings per request` },
+  )
+
+export type GatewayBatchesInput = z.infer<typeof gatewayBatchesSchema>
+
+async function requireGatewayFarmAccess(gatewayId: string) {
+  const { requireAuth } = await import('~/features/auth/server-middleware')
+  const session = await requireAuth()
+
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+
+  const { checkFarmAccess } = await import('~/features/auth/utils')
+  const { getGatewayById } = await import('./gateway-repository')
+
+  const gateway = await getGatewayById(db, gatewayId)
+  if (!gateway) throw new AppError('GATEWAY_NOT_FOUND')
+  if (!(await checkFarmAccess(session.user.id, gateway.farmId))) {
+    throw new AppError('ACCESS_DENIED')
+  }
+  return { db, gateway }
+}
+
+/**
+ * Store a gateway's multi-sensor upload. Readings for unknown or inactive
+ * sensors, or outside the backfill window, are reported back rather than
+ * failing the whole upload, so a gateway can drop them from its buffer.
+ *
+ * @param apiKey - Gateway API key
+ * @param batches - Readings grouped by sensor ID or channel
+ * @param now - Current time
+ * @returns Counts of stored, duplicate and rejected readings
+ * @throws {AppError} INVALID_API_KEY if no gateway has this key
+ * @throws {AppError} GATEWAY_INACTIVE if the gateway is deactivated
+ */
+export async function ingestGatewayReadings(
+  apiKey: string,
+  batches: GatewayBatchesInput,
+  now: Date = new Date(),
+): Promise<GatewayIngestResult> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+
+  const { hashApiKey } = await import('./service')
+  const { resolveGatewayBatches } = await import('./gateway-service')
+  const { getGatewayByApiKeyHash, getGatewaySensors, recordGatewayUsage } =
+    await import('./gateway-repository')
+  const { ingestSensorReadings } = await import('./ingestion')
+
+  try {
+    const gateway = await getGatewayByApiKeyHash(db, await hashApiKey(apiKey))
+    if (!gateway) throw new AppError('INVALID_API_KEY')
+    if (!gateway.isActive) throw new AppError('GATEWAY_INACTIVE')
+
+    await recordGatewayUsage(db, gateway.id)
+
+    const sensors = await getGatewaySensors(db, gateway.farmId)
+    const { accepted, rejected, duplicates } = resolveGatewayBatches(
+      batches,
+      sensors,
+      gateway.id,
+      now,
+    )
+
+    const result: GatewayIngestResult = {
+      success: true,
+      stored: 0,
+      duplicates,
+      rejected,
+      anomalies: 0,
+      alertsRaised: 0,
+    }
+
+    for (const { sensor, readings } of accepted) {
+      const { stored, anomalies, alertsRaised } = await ingestSensorReadings(
+        db,
+        sensor,
+        readings,
+        now,
+      )
+      result.stored += stored
+      result.duplicates += readings.length - stored
+      result.anomalies += anomalies
+      result.alertsRaised += alertsRaised
+    }
+
+    return result
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to ingest gateway readings',
+      cause: error,
+    })
+  }
+}
+
+/**
+ * HTTP handler for the gateway bulk ingestion endpoint. The API key is read
+ * from the `X-Gateway-API-Key` header; the body is `{ batches: [...] }`.
+ *
+ * @param request - Incoming request
+ * @returns JSON response with the ingestion result or an error
+ */
+export async function handleGatewayIngestRequest(
+  request: Request,
+): Promise<Response> {
+  if (request.method !== 'POST') {
+    return Response.json(
+      { error: 'METHOD_NOT_ALLOWED' },
+      { status: 405, headers: { Allow: 'POST' } },
+    )
+  }
+
+  const apiKey = request.headers.get(GATEWAY_API_KEY_HEADER)
+  if (!apiKey) {
+    const error = new AppError('INVALID_API_KEY')
+    return Response.json(error.toJSON(), { status: error.httpStatus })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    const error = new AppError('VALIDATION_ERROR', {
+      message: 'Request body must be JSON',
+    })
+    return Response.json(error.toJSON(), { status: error.httpStatus })
+  }
+
+  const parsed = z.object({ batches: gatewayBatchesSchema }).safeParse(body)
+  if (!parsed.success) {
+    const error = new AppError('VALIDATION_ERROR', {
+      metadata: { issues: parsed.error.issues },
+    })
+    return Response.json(error.toJSON(), { status: error.httpStatus })
+  }
+
+  try {
+    return Response.json(
+      await ingestGatewayReadings(apiKey, parsed.data.batches),
+    )
+  } catch (err) {
+    const error = err instanceof AppError ? err : new AppError('INTERNAL_ERROR')
+    if (error.httpStatus >= 500) {
+      const { error: logError } = await import('~/lib/logger')
+      logError('Gateway ingestion failed', err)
+    }
+    return Response.json(error.toJSON(), { status: error.httpStatus })
+  }
+}
+
+/**
+ * Server function for gateways posting through the app's RPC transport
+ */
+export const ingestGatewayReadingsFn = createServerFn({ method: 'POST' })
+  .inputValidator(
+    z.object({ apiKey: z.string(), batches: gatewayBatchesSchema }),
+  )
+  .handler(async ({ data }) => {
+    return ingestGatewayReadings(data.apiKey, data.batches)
+  })
+
+export const getGatewaysFn = createServerFn({ method: 'GET' })
+  .inputValidator(z.object({ farmId: z.string().uuid() }))
+  .handler(async ({ data }): Promise<Array<SensorGateway>> => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+
+    const { getDb } = await import('~/lib/db')
+    const db = await getDb()
+
+    const { checkFarmAccess } = await import('~/features/auth/utils')
+    const { getGatewaysByFarm } = await import('./gateway-repository')
+
+    if (!(await checkFarmAccess(session.user.id, data.farmId))) {
+      throw new AppError('ACCESS_DENIED')
+    }
+    return getGatewaysByFarm(db, data.farmId)
+  })
+
+export const createGatewayFn = createServerFn({ method: 'POST' })
+  .inputValidator(
+    z.object({
+      farmId: z.string().uuid(),
+      name: z.string().trim().min(1).max(100),
+    }),
+  )
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+
+    const { getDb } = await import('~/lib/db')
+    const db = await getDb()
+
+    const { checkFarmAccess } = await import('~/features/auth/utils')
+    const { generateApiKey, hashApiKey } = await import('./service')
+    const { insertGateway } = await import('./gateway-repository')
+
+    if (!(await checkFarmAccess(session.user.id, data.farmId))) {
+      throw new AppError('ACCESS_DENIED')
+    }
+
+    const apiKey = generateApiKey()
+    const gatewayId = await insertGateway(db, {
+      farmId: data.farmId,
+      name: data.name,
+      apiKeyHash: await hashApiKey(apiKey),
+    })
+
+    return { gatewayId, apiKey }
+  })
+
+export const updateGatewayFn = createServerFn({ method: 'POST' })
+  .inputValidator(
+    z.object({
+      gatewayId: z.string().uuid(),
+      name: z.string().trim().min(1).max(100).optional(),
+      isActive: z.boolean().optional(),
+    }),
+  )
+  .handler(async ({ data }) => {
+    const { db } = await requireGatewayFarmAccess(data.gatewayId)
+    const { updateGateway } = await import('./gateway-repository')
+
+    const { gatewayId, ...updates } = data
+    await updateGateway(db, gatewayId, updates)
+    return { success: true }
+  })
+
+export const regenerateGatewayKeyFn = createServerFn({ method: 'POST' })
+  .inputValidator(z.object({ gatewayId: z.string().uuid() }))
+  .handler(async ({ data }) => {
+    const { db } = await requireGatewayFarmAccess(data.gatewayId)
+    const { generateApiKey, hashApiKey } = await import('./service')
+    const { updateGateway } = await import('./gateway-repository')
+
+    const apiKey = generateApiKey()
+    await updateGateway(db, data.gatewayId, {
+      apiKeyHash: await hashApiKey(apiKey),
+    })
+    return { apiKey }
+  })
+
+export const deleteGatewayFn = createServerFn({ method: 'POST' })
+  .inputValidator(z.object({ gatewayId: z.string().uuid() }))
+  .handler(async ({ data }) => {
+    const { db } = await requireGatewayFarmAccess(data.gatewayId)
+    const { softDeleteGateway } = await import('./gateway-repository')
+
+    await softDeleteGateway(db, data.gatewayId)
+    return { success: true }
+  })
+
+/**
+ * Server function to attach a sensor to a gateway channel, or detach it
+ */
+export const assignSensorGatewayFn = createServerFn({ method: 'POST' })
+  .inputValidator(
+    z.object({
+      sensorId: z.string().uuid(),
+      gatewayId: z.string().uuid().nullable(),
+      channel: channelSchema.nullable(),
+    }),
+  )
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+
+    const { getDb } = await import('~/lib/db')
+    const db = await getDb()
+
+    const { checkFarmAccess } = await import('~/features/auth/utils')
+    const { getSensorById } = await import('./repository')
+    const { assignSensorToGateway, getGatewayById, getSensorByGatewayChannel } =
+      await import('./gateway-repository')
+
+    const sensor = await getSensorById(db, data.sensorId)
+    if (!sensor) throw new AppError('SENSOR_NOT_FOUND')
+    if (!(await checkFarmAccess(session.user.id, sensor.farmId))) {
+      throw new AppError('ACCESS_DENIED')
+    }
+
+    if (!data.gatewayId) {
+      await assignSensorToGateway(db, data.sensorId, null, null)
+      return { success: true }
+    }
+
+    const gateway = await getGatewayById(db, data.gatewayId)
+    if (!gateway || gateway.farmId !== sensor.farmId) {
+      throw new AppError('GATEWAY_NOT_FOUND')
+    }
+
+    if (data.channel) {
+      const existing = await getSensorByGatewayChannel(
+        db,
+        data.gatewayId,
+        data.channel,
+      )
+      if (existing && existing.id !== data.sensorId) {
+        throw new AppError('GATEWAY_CHANNEL_TAKEN', {
+          metadata: { channel: data.channel },
+        })
+      }
+    }
+
+    await assignSensorToGateway(db, data.sensorId, data.gatewayId, data.channel)
+    return { success: true }
+  })
@@ -0,0 +1,148 @@
+/**
+ * Pure business logic for gateway ingestion.
+ * All functions are side-effect-free and easily unit testable.
+ */
+
+import { GATEWAY_BACKFILL_HOURS, INGEST_CLOCK_SKEW_MINUTES } from './constants'
+import type {
+  GatewayReadingBatch,
+  GatewayRejection,
+  GatewaySensor,
+} from './types'
+
+/** Readings resolved to the sensor they belong to */
+export interface ResolvedSensorReadings {
+  sensor: GatewaySensor
+  readings: Array<{ value: number; recordedAt: Date }>
+}
+
+/**
+ * Keep one reading per timestamp (the last one posted), oldest first
+ *
+ * @param readings - Readings for one sensor
+ * @returns Deduplicated readings in chronological order
+ *
+ * @example
+ * ```ts
+ * dedupeReadings([
+ *   { value: 1, recordedAt: t1 },
+ *   { value: 2, recordedAt: t1 },
+ * ])
+ * // Returns: [{ value: 2, recordedAt: t1 }]
+ * ```
+ */
+export function dedupeReadings(
+  readings: Array<{ value: number; recordedAt: Date }>,
+): Array<{ value: number; recordedAt: Date }> {
+  const byTime = new Map<number, { value: number; recordedAt: Date }>()
+  for (const reading of readings) {
+    byTime.set(reading.recordedAt.getTime(), reading)
+  }
+  return [...byTime.values()].sort(
+    (a, b) => a.recordedAt.getTime() - b.recordedAt.getTime(),
+  )
+}
+
+/**
+ * Whether a reading's timestamp can be accepted: no older than the backfill
+ * window and no further in the future than the tolerated clock drift
+ *
+ * @param recordedAt - When the reading was taken
+ * @param now - Current time
+ * @returns True if the reading may be stored
+ */
+export function isWithinBackfillWindow(recordedAt: Date, now: Date): boolean {
+  const earliest = now.getTime() - GATEWAY_BACKFILL_HOURS * 60 * 60 * 1000
+  const latest = now.getTime() + INGEST_CLOCK_SKEW_MINUTES * 60 * 1000
+  const time = recordedAt.getTime()
+  return time >= earliest && time <= latest
+}
+
+/**
+ * Match a gateway's batches to sensors and filter out readings that cannot be
+ * stored. A batch addresses a sensor either by ID (any sensor on the gateway's
+ * farm) or by channel (sensors assigned to this gateway). Batches for the same
+ * sensor are merged.
+ *
+ * @param batches - Batches posted by the gateway
+ * @param sensors - Sensors on the gateway's farm
+ * @param gatewayId - ID of the posting gateway
+ * @param now - Current time; readings without a timestamp are stamped with it
+ * @returns Readings per sensor, rejections, and same-batch duplicates dropped
+ */
+export function resolveGatewayBatches(
+  batches: Array<GatewayReadingBatch>,
+  sensors: Array<GatewaySensor>,
+  gatewayId: string,
+  now: Date,
+): {
+  accepted: Array<ResolvedSensorReadings>
+  rejected: Array<GatewayRejection>
+  duplicates: number
+} {
+  const byId = new Map(sensors.map((s) => [s.id, s]))
+  const byChannel = new Map<string, GatewaySensor>()
+  for (const sensor of sensors) {
+    if (sensor.gatewayId === gatewayId && sensor.channel) {
+      byChannel.set(sensor.channel, sensor)
+    }
+  }
+
+  const collected = new Map<string, ResolvedSensorReadings>()
+  const rejected: Array<GatewayRejection> = []
+
+  for (const batch of batches) {
+    const address = batch.sensorId
+      ? { sensorId: batch.sensorId }
+      : { channel: batch.channel }
+    const sensor = batch.sensorId
+      ? byId.get(batch.sensorId)
+      : byChannel.get(batch.channel ?? '')
+
+    if (!sensor) {
+      rejected.push({
+        ...address,
+        reason: 'unknown_sensor',
+        count: batch.readings.length,
+      })
+      continue
+    }
+    if (!sensor.isActive) {
+      rejected.push({
+        ...address,
+        reason: 'sensor_inactive',
+        count: batch.readings.length,
+      })
+      continue
+    }
+
+    const stamped = batch.readings.map((r) => ({
+      value: r.value,
+      recordedAt: r.recordedAt ?? now,
+    }))
+    const inWindow = stamped.filter((r) =>
+      isWithinBackfillWindow(r.recordedAt, now),
+    )
+    if (inWindow.length < stamped.length) {
+      rejected.push({
+        ...address,
+        reason: 'outside_backfill_window',
+        count: stamped.length - inWindow.length,
+      })
+    }
+
+    const entry = collected.get(sensor.id) ?? { sensor, readings: [] }
+    entry.readings.push(...inWindow)
+    collected.set(sensor.id, entry)
+  }
+
+  let duplicates = 0
+  const accepted: Array<ResolvedSensorReadings> = []
+  for (const entry of collected.values()) {
+    const readings = dedupeReadings(entry.readings)
+    duplicates += entry.readings.length - readings.length
+    if (readings.length > 0) accepted.push({ sensor: entry.sensor, readings })
+  }
+
+  return { accepted, rejected, duplicates }
+}
@@ -0,0 +1,101 @@
+/**
+ * Ingestion pipeline shared by direct sensor and gateway uploads
+ */
+
+import { insertReadingsBatch } from './readings-repository'
+import { updateLastReadingAt } from './repository'
+import { isDerivedSensorType } from './derived-sensor-service'
+import type { AnomalyFlag } from './anomaly-service'
+import type { SensorThresholds, SensorTrendConfig, SensorType } from './types'
+import type { Database } from '~/lib/db/types'
+import type { Kysely } from 'kysely'
+
+interface IngestingSensor {
+  id: string
+  farmId: string
+  name: string
+  sensorType: SensorType
+  thresholds: SensorThresholds | null
+  trendConfig: SensorTrendConfig | null
+}
+
+/**
+ * Store readings for one sensor (duplicates of stored readings are skipped),
+ * mark the sensor as seen, flag anomalous readings, evaluate the new
+ * readings for alerts and actuator rules, and compute the readings of derived
+ * sensors fed by it. Only readings that were actually stored go through the
+ * rest of the pipeline, so a retried upload never alerts twice.
+ *
+ * @returns Readings stored, anomalies flagged and alerts raised
+ */
+export async function ingestSensorReadings(
+  db: Kysely<Database>,
+  sensor: IngestingSensor,
+  readings: Array<{ value: number; recordedAt: Date }>,
+  now: Date,
+): Promise<{ stored: number; anomalies: number; alertsRaised: number }> {
+  const inserted = await insertReadingsBatch(
+    db,
+    readings.map((r) => ({ sensorId: sensor.id, ...r })),
+  )
+
+  await updateLastReadingAt(db, sensor.id)
+
+  if (inserted.length === 0) {
+    return { stored: 0, anomalies: 0, alertsRaised: 0 }
+  }
+
+  // Readings are already stored, so anomaly or alerting failures must not
+  // fail ingestion
+  let anomalies: Array<AnomalyFlag> = []
+  try {
+    const { flagReadingAnomalies } = await import('./anomaly-processor')
+    anomalies = await flagReadingAnomalies(db, sensor.id, inserted, now)
+  } catch (err) {
+    const { error: logError } = await import('~/lib/logger')
+    logError('Sensor anomaly detection failed', err, { sensorId: sensor.id })
+  }
+
+  let alertsRaised = 0
+  try {
+    const { processReadingsForAlerts } = await import('./alert-processor')
+    alertsRaised = await processReadingsForAlerts(
+      db,
+      sensor,
+      inserted,
+      now,
+      anomalies,
+    )
+  } catch (err) {
+    const { error: logError } = await import('~/lib/logger')
+    logError('Sensor alert processing failed', err, { sensorId: sensor.id })
+  }
+
+  try {
+    const { evaluateActuatorRules } = await import('./actuator-processor')
+    await evaluateActuatorRules(db, sensor.id, inserted, now)
+  } catch (err) {
+    const { error: logError } = await import('~/lib/logger')
+    logError('Actuator rule evaluation failed', err, { sensorId: sensor.id })
+  }
+
+  if (!isDerivedSensorType(sensor.sensorType)) {
+    try {
+      const { deriveDependentReadings } =
+        await import('./derived-sensor-processor')
+      const derived = await deriveDependentReadings(
+        db,
+        sensor,
+        inserted,
+        anomalies,
+        now,
+      )
+      alertsRaised += derived.alertsRaised
+    } catch (err) {
+      const { error: logError } = await import('~/lib/logger')
+      logError('Derived sensor processing failed', err, { sensorId: sensor.id })
+    }
+  }
+
+  return { stored: inserted.length, anomalies: anomalies.length, alertsRaised }
+}
@@ -7,7 +7,7 @@ import {
   getSensorsFn,
   updateSensorFn,
 } from './server'
-import type { SensorType } from '~/lib/db'
+import type { SensorDerivation, SensorType } from '~/lib/db'
 
 export const SENSOR_QUERY_KEYS = {
   all: ['sensors'] as const,
@@ -34,6 +34,7 @@ export function useSensorMutations() {
       sensorType: SensorType
       structureId?: string
       pollingIntervalMinutes: number
+      derivedFrom?: SensorDerivation
     }) => {
       return createSensorFn({ data })
     },
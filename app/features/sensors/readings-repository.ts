@@ -27,27 +27,41 @@ export async function insertReading(
   return result.id
 }
 
+/** Rows per INSERT, keeping large backfills under the bind parameter limit */
+const INSERT_CHUNK_SIZE = 500
+
+/**
+ * Insert readings, skipping any already stored for the same sensor and time
+ *
+ * @returns Readings actually inserted
+ */
 export async function insertReadingsBatch(
   db: Kysely<Database>,
   readings: Array<ReadingInsert>,
-): Promise<number> {
-  if (readings.length === 0) return 0
+): Promise<Array<{ recordedAt: Date; value: number }>> {
+  const inserted: Array<{ recordedAt: Date; value: number }> = []
 
-  const result = await db
-    .insertInto('sensor_readings')
-    .values(
-      readings.map((r) => ({
-        sensorId: r.sensorId,
-        value: String(r.value),
-        recordedAt: r.recordedAt,
-        isAnomaly: r.isAnomaly ?? false,
-        metadata: r.metadata ?? null,
-      })),
-    )
-    .onConflict((oc) => oc.columns(['sensorId', 'recordedAt']).doNothing())
-    .execute()
+  for (let i = 0; i < readings.length; i += INSERT_CHUNK_SIZE) {
+    const rows = await db
+      .insertInto('sensor_readings')
+      .values(
+        readings.slice(i, i + INSERT_CHUNK_SIZE).map((r) => ({
+          sensorId: r.sensorId,
+          value: String(r.value),
+          recordedAt: r.recordedAt,
+          isAnomaly: r.isAnomaly ?? false,
+          metadata: r.metadata ?? null,
+        })),
+      )
+      .onConflict((oc) => oc.columns(['sensorId', 'recordedAt']).doNothing())
+      .returning(['recordedAt', 'value'])
+      .execute()
+    for (const row of rows) {
+      inserted.push({ recordedAt: row.recordedAt, value: Number(row.value) })
+    }
+  }
 
-  return result.length
+  return inserted
 }
 
 export async function getLatestReading(db: Kysely<Database>, sensorId: string) {
@@ -82,3 +96,90 @@ export async function getReadingsInRange(
 
   return rows.map((r) => ({ ...r, value: Number(r.value) }))
 }
+
+/**
+ * Aggregates in a range, newest first, for charts past raw retention
+ */
+export async function getAggregatesInRange(
+  db: Kysely<Database>,
+  sensorId: string,
+  periodType: 'hourly' | 'daily',
+  startDate: Date,
+  endDate: Date,
+  limit = 1000,
+) {
+  const rows = await db
+    .selectFrom('sensor_aggregates')
+    .select(['periodStart', 'avgValue', 'minValue', 'maxValue'])
+    .where('sensorId', '=', sensorId)
+    .where('periodType', '=', periodType)
+    .where('periodStart', '>=', startDate)
+    .where('periodStart', '<=', endDate)
+    .orderBy('periodStart', 'desc')
+    .limit(limit)
+    .execute()
+
+  return rows.map((r) => ({
+    periodStart: r.periodStart,
+    avgValue: Number(r.avgValue),
+    minValue: Number(r.minValue),
+    maxValue: Number(r.maxValue),
+  }))
+}
+
+/**
+ * Readings stored before a point in time, oldest first, for anomaly baselines
+ */
+export async function getReadingsBefore(
+  db: Kysely<Database>,
+  sensorId: string,
+  before: Date,
+  limit: number,
+) {
+  const rows = await db
+    .selectFrom('sensor_readings')
+    .select(['value', 'recordedAt', 'isAnomaly'])
+    .where('sensorId', '=', sensorId)
+    .where('recordedAt', '<', before)
+    .orderBy('recordedAt', 'desc')
+    .limit(limit)
+    .execute()
+
+  return rows.reverse().map((r) => ({ ...r, value: Number(r.value) }))
+}
+
+/**
+ * Non-anomalous readings in a window, oldest first, for derived sensor inputs
+ */
+export async function getValidReadingsInWindow(
+  db: Kysely<Database>,
+  sensorId: string,
+  start: Date,
+  end: Date,
+) {
+  const rows = await db
+    .selectFrom('sensor_readings')
+    .select(['value', 'recordedAt'])
+    .where('sensorId', '=', sensorId)
+    .where('recordedAt', '>=', start)
+    .where('recordedAt', '<=', end)
+    .where('isAnomaly', '=', false)
+    .orderBy('recordedAt', 'asc')
+    .execute()
+
+  return rows.map((r) => ({ ...r, value: Number(r.value) }))
+}
+
+export async function markReadingsAsAnomalies(
+  db: Kysely<Database>,
+  sensorId: string,
+  recordedAts: Array<Date>,
+) {
+  if (recordedAts.length === 0) return
+  await db
+    .updateTable('sensor_readings')
+    .set({ isAnomaly: true })
+    .where('sensorId', '=', sensorId)
+    .where('recordedAt', 'in', recordedAts)
+    .execute()
+}
@@ -1,5 +1,5 @@
 import type { Kysely } from 'kysely'
-import type { Database, SensorType } from '~/lib/db/types'
+import type { Database, SensorDerivation, SensorType } from '~/lib/db/types'
 
 interface SensorInsert {
   farmId: string
@@ -8,6 +8,7 @@ interface SensorInsert {
   sensorType: SensorType
   apiKeyHash: string
   pollingIntervalMinutes: number
+  derivedFrom?: SensorDerivation | null
 }
 
 interface SensorUpdate {
@@ -47,6 +48,9 @@ export async function getSensorById(db: Kysely<Database>, id: string) {
       'requestCount',
       'thresholds',
       'trendConfig',
+      'gatewayId',
+      'channel',
+      'derivedFrom',
       'createdAt',
     ])
     .where('id', '=', id)
@@ -70,6 +74,7 @@ export async function getSensorsByFarm(
       'sensors.pollingIntervalMinutes',
       'sensors.isActive',
       'sensors.lastReadingAt',
+      'sensors.derivedFrom',
       'sensors.createdAt',
       'structures.name as structureName',
     ])
@@ -101,6 +106,31 @@ export async function getSensorByApiKeyHash(
     .executeTakeFirst()
 }
 
+/**
+ * Active derived sensors of a farm, for computing their readings on ingestion
+ */
+export async function getDerivedSensorsByFarm(
+  db: Kysely<Database>,
+  farmId: string,
+) {
+  return db
+    .selectFrom('sensors')
+    .select([
+      'id',
+      'farmId',
+      'name',
+      'sensorType',
+      'thresholds',
+      'trendConfig',
+      'derivedFrom',
+    ])
+    .where('farmId', '=', farmId)
+    .where('derivedFrom', 'is not', null)
+    .where('isActive', '=', true)
+    .where('deletedAt', 'is', null)
+    .execute()
+}
+
 export async function updateSensor(
   db: Kysely<Database>,
   id: string,
@@ -0,0 +1,178 @@
+/**
+ * Retention processor - applies each farm's retention policy: expired raw
+ * readings are rolled up, archived to storage as gzipped NDJSON and deleted,
+ * and expired aggregates are deleted
+ */
+
+import {
+  buildArchiveKey,
+  getRetentionCutoffs,
+  planArchiveDays,
+  resolveRetentionPolicy,
+  toNdjson,
+} from './retention-service'
+import {
+  deleteAggregatesBefore,
+  deleteReadingsInRange,
+  getFarmSensorIds,
+  getFarmsWithSensors,
+  getOldestReadingBefore,
+  getReadingsForArchive,
+  insertReadingArchive,
+  rollUpReadings,
+} from './retention-repository'
+import { ARCHIVE_MAX_DAYS_PER_RUN } from './constants'
+import type { RetentionRunResult, SensorRetentionPolicy } from './types'
+import type { Database } from '~/lib/db/types'
+import type { Kysely } from 'kysely'
+
+async function gzip(text: string): Promise<Uint8Array> {
+  const stream = new Blob([text])
+    .stream()
+    .pipeThrough(new CompressionStream('gzip'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+/**
+ * Archive and delete one sensor's expired raw readings, a day at a time.
+ * A day is only deleted once its archive is stored, so a storage outage
+ * leaves the readings in place for the next run.
+ *
+ * @returns Readings archived and deleted, and whether archival failed
+ */
+async function pruneSensorReadings(
+  db: Kysely<Database>,
+  farmId: string,
+  sensorId: string,
+  policy: SensorRetentionPolicy,
+  cutoff: Date,
+) {
+  const result = { archived: 0, deleted: 0, archives: 0, failed: false }
+
+  const oldest = await getOldestReadingBefore(db, sensorId, cutoff)
+  if (!oldest) return result
+
+  const { isStorageConfigured, uploadFile } =
+    await import('~/features/integrations/storage')
+  if (policy.archiveRawReadings && !isStorageConfigured()) {
+    return { ...result, failed: true }
+  }
+
+  for (const day of planArchiveDays(oldest, cutoff, ARCHIVE_MAX_DAYS_PER_RUN)) {
+    await rollUpReadings(db, sensorId, 'hourly', day.start, day.end)
+    await rollUpReadings(db, sensorId, 'daily', day.start, day.end)
+
+    if (policy.archiveRawReadings) {
+      const readings = await getReadingsForArchive(
+        db,
+        sensorId,
+        day.start,
+        day.end,
+      )
+      if (readings.length > 0) {
+        const storageKey = buildArchiveKey(farmId, sensorId, day.start)
+        const content = await gzip(toNdjson(sensorId, readings))
+        const upload = await uploadFile(
+          storageKey,
+          content,
+          'application/gzip',
+          {
+            access: 'private',
+            metadata: { sensorId, readingCount: String(readings.length) },
+          },
+        )
+        if (!upload.success) {
+          const { warn } = await import('~/lib/logger')
+          warn('Sensor reading archive upload failed', {
+            sensorId,
+            storageKey,
+            error: upload.error,
+          })
+          return { ...result, failed: true }
+        }
+
+        await insertReadingArchive(db, {
+          sensorId,
+          periodStart: day.start,
+          periodEnd: day.end,
+          storageKey,
+          readingCount: readings.length,
+          sizeBytes: content.byteLength,
+        })
+        result.archived += readings.length
+        result.archives++
+      }
+    }
+
+    result.deleted += await deleteReadingsInRange(
+      db,
+      sensorId,
+      day.start,
+      day.end,
+    )
+  }
+
+  return result
+}
+
+/**
+ * Apply every farm's retention policy. Farms without a policy use the
+ * defaults. Farms whose raw readings should be archived keep them while no
+ * storage provider is configured.
+ *
+ * @param db - Database connection
+ * @param now - Current time
+ * @returns Counts of archived and deleted data
+ */
+export async function applyRetentionPolicies(
+  db: Kysely<Database>,
+  now: Date = new Date(),
+): Promise<RetentionRunResult> {
+  const result: RetentionRunResult = {
+    farms: 0,
+    readingsArchived: 0,
+    readingsDeleted: 0,
+    archivesWritten: 0,
+    hourlyAggregatesDeleted: 0,
+    dailyAggregatesDeleted: 0,
+    archiveFailures: 0,
+  }
+
+  for (const { farmId, policy: stored } of await getFarmsWithSensors(db)) {
+    const policy = resolveRetentionPolicy(stored)
+    const cutoffs = getRetentionCutoffs(policy, now)
+    const sensorIds = await getFarmSensorIds(db, farmId)
+    result.farms++
+
+    for (const sensorId of sensorIds) {
+      const pruned = await pruneSensorReadings(
+        db,
+        farmId,
+        sensorId,
+        policy,
+        cutoffs.raw,
+      )
+      result.readingsArchived += pruned.archived
+      result.readingsDeleted += pruned.deleted
+      result.archivesWritten += pruned.archives
+      if (pruned.failed) result.archiveFailures++
+    }
+
+    result.hourlyAggregatesDeleted += await deleteAggregatesBefore(
+      db,
+      sensorIds,
+      'hourly',
+      cutoffs.hourly,
+    )
+    if (cutoffs.daily) {
+      result.dailyAggregatesDeleted += await deleteAggregatesBefore(
+        db,
+        sensorIds,
+        'daily',
+        cutoffs.daily,
+      )
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,223 @@
+import { sql } from 'kysely'
+import type { Kysely } from 'kysely'
+import type { SensorRetentionPolicy } from './types'
+import type { Database } from '~/lib/db/types'
+
+export async function getRetentionPolicy(db: Kysely<Database>, farmId: string) {
+  return db
+    .selectFrom('sensor_retention_policies')
+    .select([
+      'rawRetentionDays',
+      'hourlyRetentionDays',
+      'dailyRetentionDays',
+      'archiveRawReadings',
+    ])
+    .where('farmId', '=', farmId)
+    .executeTakeFirst()
+}
+
+export async function upsertRetentionPolicy(
+  db: Kysely<Database>,
+  farmId: string,
+  policy: SensorRetentionPolicy,
+) {
+  await db
+    .insertInto('sensor_retention_policies')
+    .values({ farmId, ...policy })
+    .onConflict((oc) =>
+      oc.column('farmId').doUpdateSet({ ...policy, updatedAt: new Date() }),
+    )
+    .execute()
+}
+
+/**
+ * Farms that have sensors, with their stored retention policy if any
+ */
+export async function getFarmsWithSensors(
+  db: Kysely<Database>,
+): Promise<Array<{ farmId: string; policy: SensorRetentionPolicy | null }>> {
+  const rows = await db
+    .selectFrom('farms')
+    .leftJoin(
+      'sensor_retention_policies',
+      'sensor_retention_policies.farmId',
+      'farms.id',
+    )
+    .select([
+      'farms.id as farmId',
+      'sensor_retention_policies.rawRetentionDays',
+      'sensor_retention_policies.hourlyRetentionDays',
+      'sensor_retention_policies.dailyRetentionDays',
+      'sensor_retention_policies.archiveRawReadings',
+    ])
+    .where((eb) =>
+      eb.exists(
+        eb
+          .selectFrom('sensors')
+          .select('sensors.id')
+          .whereRef('sensors.farmId', '=', 'farms.id'),
+      ),
+    )
+    .execute()
+
+  return rows.map(({ farmId, ...policy }) => ({
+    farmId,
+    policy:
+      policy.rawRetentionDays === null ||
+      policy.hourlyRetentionDays === null ||
+      policy.archiveRawReadings === null
+        ? null
+        : {
+            rawRetentionDays: policy.rawRetentionDays,
+            hourlyRetentionDays: policy.hourlyRetentionDays,
+            dailyRetentionDays: policy.dailyRetentionDays,
+            archiveRawReadings: policy.archiveRawReadings,
+          },
+  }))
+}
+
+/**
+ * All sensors of a farm, including removed ones that still hold data
+ */
+export async function getFarmSensorIds(db: Kysely<Database>, farmId: string) {
+  const rows = await db
+    .selectFrom('sensors')
+    .select('id')
+    .where('farmId', '=', farmId)
+    .execute()
+  return rows.map((r) => r.id)
+}
+
+export async function getOldestReadingBefore(
+  db: Kysely<Database>,
+  sensorId: string,
+  before: Date,
+) {
+  const row = await db
+    .selectFrom('sensor_readings')
+    .select('recordedAt')
+    .where('sensorId', '=', sensorId)
+    .where('recordedAt', '<', before)
+    .orderBy('recordedAt', 'asc')
+    .limit(1)
+    .executeTakeFirst()
+  return row?.recordedAt ?? null
+}
+
+export async function getReadingsForArchive(
+  db: Kysely<Database>,
+  sensorId: string,
+  start: Date,
+  end: Date,
+) {
+  const rows = await db
+    .selectFrom('sensor_readings')
+    .select(['value', 'recordedAt', 'isAnomaly', 'metadata'])
+    .where('sensorId', '=', sensorId)
+    .where('recordedAt', '>=', start)
+    .where('recordedAt', '<', end)
+    .orderBy('recordedAt', 'asc')
+    .execute()
+  return rows.map((r) => ({ ...r, value: Number(r.value) }))
+}
+
+/**
+ * Recompute a sensor's aggregates over a range from its raw readings, so
+ * readings backfilled after the hourly job ran are rolled up before deletion
+ */
+export async function rollUpReadings(
+  db: Kysely<Database>,
+  sensorId: string,
+  periodType: 'hourly' | 'daily',
+  start: Date,
+  end: Date,
+) {
+  const bucket = sql<Date>`date_trunc(${sql.lit(periodType === 'hourly' ? 'hour' : 'day')}, ${sql.ref('recordedAt')})`
+
+  await db
+    .insertInto('sensor_aggregates')
+    .columns([
+      'sensorId',
+      'periodType',
+      'periodStart',
+      'avgValue',
+      'minValue',
+      'maxValue',
+      'readingCount',
+    ])
+    .expression(
+      db
+        .selectFrom('sensor_readings')
+        .select((eb) => [
+          'sensorId',
+          sql.lit(periodType).as('periodType'),
+          bucket.as('periodStart'),
+          eb.fn.avg('value').as('avgValue'),
+          eb.fn.min('value').as('minValue'),
+          eb.fn.max('value').as('maxValue'),
+          eb.fn.countAll().as('readingCount'),
+        ])
+        .where('sensorId', '=', sensorId)
+        .where('recordedAt', '>=', start)
+        .where('recordedAt', '<', end)
+        .where('isAnomaly', '=', false)
+        .groupBy(['sensorId', bucket]),
+    )
+    .onConflict((oc) =>
+      oc
+        .columns(['sensorId', 'periodType', 'periodStart'])
+        .doUpdateSet((eb) => ({
+          avgValue: eb.ref('excluded.avgValue'),
+          minValue: eb.ref('excluded.minValue'),
+          maxValue: eb.ref('excluded.maxValue'),
+          readingCount: eb.ref('excluded.readingCount'),
+        })),
+    )
+    .execute()
+}
+
+export async function insertReadingArchive(
+  db: Kysely<Database>,
+  data: {
+    sensorId: string
+    periodStart: Date
+    periodEnd: Date
+    storageKey: string
+    readingCount: number
+    sizeBytes: number
+  },
+) {
+  await db.insertInto('sensor_reading_archives').values(data).execute()
+}
+
+export async function deleteReadingsInRange(
+  db: Kysely<Database>,
+  sensorId: string,
+  start: Date,
+  end: Date,
+): Promise<number> {
+  const result = await db
+    .deleteFrom('sensor_readings')
+    .where('sensorId', '=', sensorId)
+    .where('recordedAt', '>=', start)
+    .where('recordedAt', '<', end)
+    .executeTakeFirst()
+  return Number(result.numDeletedRows)
+}
+
+export async function deleteAggregatesBefore(
+  db: Kysely<Database>,
+  sensorIds: Array<string>,
+  periodType: 'hourly' | 'daily',
+  before: Date,
+): Promise<number> {
+  if (sensorIds.length === 0) return 0
+
+  const result = await db
+    .deleteFrom('sensor_aggregates')
+    .where('sensorId', 'in', sensorIds)
+    .where('periodType', '=', periodType)
+    .where('periodStart', '<', before)
+    .executeTakeFirst()
+  return Number(result.numDeletedRows)
+}
@@ -0,0 +1,219 @@
+/**
+ * Pure business logic for sensor data retention.
+ * All functions are side-effect-free and easily unit testable.
+ *
+ * Each farm keeps raw readings, hourly aggregates and daily aggregates for
+ * its own windows. Raw readings past their window are archived to storage a
+ * whole UTC day at a time, then deleted; charts read from whichever
+ * resolution still covers the requested range.
+ */
+
+import {
+  CHART_HOURLY_MAX_DAYS,
+  CHART_RAW_MAX_DAYS,
+  DEFAULT_RETENTION_POLICY,
+  MIN_RAW_RETENTION_DAYS,
+  SENSOR_ARCHIVE_PREFIX,
+} from './constants'
+import type { ChartResolution, SensorRetentionPolicy } from './types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Retention windows as absolute cutoffs; data before a cutoff is removed */
+export interface RetentionCutoffs {
+  raw: Date
+  hourly: Date
+  daily: Date | null
+}
+
+/**
+ * Fill in a farm's retention policy, falling back to the defaults
+ *
+ * @param stored - Policy stored for the farm, if any
+ * @returns Complete policy
+ */
+export function resolveRetentionPolicy(
+  stored: Partial<SensorRetentionPolicy> | null | undefined,
+): SensorRetentionPolicy {
+  return {
+    rawRetentionDays:
+      stored?.rawRetentionDays ?? DEFAULT_RETENTION_POLICY.rawRetentionDays,
+    hourlyRetentionDays:
+      stored?.hourlyRetentionDays ??
+      DEFAULT_RETENTION_POLICY.hourlyRetentionDays,
+    dailyRetentionDays:
+      stored?.dailyRetentionDays === undefined
+        ? DEFAULT_RETENTION_POLICY.dailyRetentionDays
+        : stored.dailyRetentionDays,
+    archiveRawReadings:
+      stored?.archiveRawReadings ?? DEFAULT_RETENTION_POLICY.archiveRawReadings,
+  }
+}
+
+/**
+ * Check that each resolution is kept at least as long as the finer one
+ * before it, so charts always have something to fall back to
+ *
+ * @param policy - Policy to check
+ * @returns Error message, or null if the policy is valid
+ *
+ * @example
+ * ```ts
+ * validateRetentionPolicy({ rawRetentionDays: 90, hourlyRetentionDays: 30, ... })
+ * // Returns: 'Hourly aggregates must be kept at least as long as raw readings'
+ * ```
+ */
+export function validateRetentionPolicy(
+  policy: SensorRetentionPolicy,
+): string | null {
+  if (policy.rawRetentionDays < MIN_RAW_RETENTION_DAYS) {
+    return `Raw readings must be kept at least ${MIN_RAW_RETENTION_DAYS} days`
+  }
+  if (policy.hourlyRetentionDays < policy.rawRetentionDays) {
+    return 'Hourly aggregates must be kept at least as long as raw readings'
+  }
+  if (
+    policy.dailyRetentionDays !== null &&
+    policy.dailyRetentionDays < policy.hourlyRetentionDays
+  ) {
+    return 'Daily aggregates must be kept at least as long as hourly aggregates'
+  }
+  return null
+}
+
+/**
+ * Start of the UTC day containing a timestamp
+ */
+export function startOfUtcDay(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / DAY_MS) * DAY_MS)
+}
+
+/**
+ * Cutoffs for a policy, aligned to UTC midnight so whole days are removed
+ *
+ * @param policy - Farm retention policy
+ * @param now - Current time
+ * @returns Cutoff per resolution; null where data is kept forever
+ */
+export function getRetentionCutoffs(
+  policy: SensorRetentionPolicy,
+  now: Date,
+): RetentionCutoffs {
+  const today = startOfUtcDay(now).getTime()
+  return {
+    raw: new Date(today - policy.rawRetentionDays * DAY_MS),
+    hourly: new Date(today - policy.hourlyRetentionDays * DAY_MS),
+    daily:
+      policy.dailyRetentionDays === null
+        ? null
+        : new Date(today - policy.dailyRetentionDays * DAY_MS),
+  }
+}
+
+/**
+ * Pick the resolution a chart range is served at: raw readings for short,
+ * recent ranges, then hourly, then daily aggregates once the range is long or
+ * reaches past what the finer resolution still holds
+ *
+ * @param startDate - Start of the requested range
+ * @param endDate - End of the requested range
+ * @param policy - Farm retention policy
+ * @param now - Current time
+ * @returns Resolution to query
+ *
+ * @example
+ * ```ts
+ * // 24 hours ending now, 30-day raw retention
+ * selectChartResolution(dayAgo, now, policy, now) // Returns: 'raw'
+ * // 90 days
+ * selectChartResolution(quarterAgo, now, policy, now) // Returns: 'daily'
+ * ```
+ */
+export function selectChartResolution(
+  startDate: Date,
+  endDate: Date,
+  policy: SensorRetentionPolicy,
+  now: Date,
+): ChartResolution {
+  const cutoffs = getRetentionCutoffs(policy, now)
+  const rangeDays = (endDate.getTime() - startDate.getTime()) / DAY_MS
+
+  if (startDate >= cutoffs.raw && rangeDays <= CHART_RAW_MAX_DAYS) return 'raw'
+  if (startDate >= cutoffs.hourly && rangeDays <= CHART_HOURLY_MAX_DAYS) {
+    return 'hourly'
+  }
+  return 'daily'
+}
+
+/**
+ * UTC days to archive, oldest first, from the day of the oldest expired
+ * reading up to the raw cutoff
+ *
+ * @param oldest - Oldest stored reading before the cutoff
+ * @param cutoff - Raw retention cutoff (UTC midnight)
+ * @param maxDays - Most days to plan in one run
+ * @returns Day windows; `end` is exclusive
+ */
+export function planArchiveDays(
+  oldest: Date,
+  cutoff: Date,
+  maxDays: number,
+): Array<{ start: Date; end: Date }> {
+  const days: Array<{ start: Date; end: Date }> = []
+  for (
+    let start = startOfUtcDay(oldest).getTime();
+    start < cutoff.getTime() && days.length < maxDays;
+    start += DAY_MS
+  ) {
+    days.push({ start: new Date(start), end: new Date(start + DAY_MS) })
+  }
+  return days
+}
+
+/**
+ * Storage key of a sensor-day archive
+ *
+ * @example
+ * ```ts
+ * buildArchiveKey('farm-1', 'sensor-1', new Date('2026-03-01'))
+ * // Returns: 'sensor-archives/farm-1/sensor-1/2026-03-01.ndjson.gz'
+ * ```
+ */
+export function buildArchiveKey(
+  farmId: string,
+  sensorId: string,
+  day: Date,
+): string {
+  const date = day.toISOString().slice(0, 10)
+  return `${SENSOR_ARCHIVE_PREFIX}/${farmId}/${sensorId}/${date}.ndjson.gz`
+}
+
+/**
+ * Serialise readings as newline-delimited JSON, one reading per line
+ *
+ * @param sensorId - Sensor the readings belong to
+ * @param readings - Readings to serialise
+ * @returns NDJSON text, ending in a newline
+ */
+export function toNdjson(
+  sensorId: string,
+  readings: Array<{
+    value: number
+    recordedAt: Date
+    isAnomaly: boolean
+    metadata: Record<string, unknown> | null
+  }>,
+): string {
+  return readings
+    .map(
+      (r) =>
+        JSON.stringify({
+          sensorId,
+          recordedAt: r.recordedAt.toISOString(),
+          value: r.value,
+          isAnomaly: r.isAnomaly,
+          metadata: r.metadata,
+        }) + '\n',
+    )
+    .join('')
+}
@@ -1,6 +1,13 @@
 import { createServerFn } from '@tanstack/react-start'
 import { z } from 'zod'
-import { SENSOR_TYPES } from './constants'
+import { CHART_MAX_POINTS, SENSOR_TYPES } from './constants'
+import type {
+  BatchEnvironmentReport,
+  SensorChartPoint,
+  SensorDerivation,
+  SensorRetentionPolicy,
+  SensorType,
+} from './types'
 import { AppError } from '~/lib/errors'
 
 export const createSensorFn = createServerFn({ method: 'POST' })
@@ -11,6 +18,7 @@ export const createSensorFn = createServerFn({ method: 'POST' })
       name: z.string().min(1).max(100),
       sensorType: z.enum(SENSOR_TYPES as unknown as [string, ...Array<string>]),
       pollingIntervalMinutes: z.number().int().min(5).max(60).default(15),
+      derivedFrom: z.record(z.string(), z.string().uuid()).optional(),
     }),
   )
   .handler(async ({ data }) => {
@@ -21,21 +29,40 @@ export const createSensorFn = createServerFn({ method: 'POST' })
     const db = await getDb()
 
     const { generateApiKey, hashApiKey } = await import('./service')
-    const { insertSensor } = await import('./repository')
+    const { isDerivedSensorType, validateDerivation } =
+      await import('./derived-sensor-service')
+    const { getSensorsByFarm, insertSensor } = await import('./repository')
+
+    const sensorType = data.sensorType as SensorType
+    const structureId = data.structureId ?? null
+    const derivedFrom = (data.derivedFrom ?? null) as SensorDerivation | null
+    const isDerived = isDerivedSensorType(sensorType)
+
+    if (isDerived || derivedFrom) {
+      const problem = validateDerivation(
+        sensorType,
+        structureId,
+        derivedFrom,
+        await getSensorsByFarm(db, [data.farmId]),
+      )
+      if (problem) throw new AppError('VALIDATION_ERROR', { message: problem })
+    }
 
+    // Derived sensors never upload, so their key is not handed out
     const apiKey = generateApiKey()
     const apiKeyHash = await hashApiKey(apiKey)
 
     const sensorId = await insertSensor(db, {
       farmId: data.farmId,
-      structureId: data.structureId ?? null,
+      structureId,
       name: data.name,
-      sensorType: data.sensorType as any,
+      sensorType,
       apiKeyHash,
       pollingIntervalMinutes: data.pollingIntervalMinutes,
+      derivedFrom: isDerived ? derivedFrom : null,
     })
 
-    return { sensorId, apiKey }
+    return { sensorId, apiKey: isDerived ? null : apiKey }
   })
 
 export const getSensorsFn = createServerFn({ method: 'GET' })
@@ -136,6 +163,96 @@ export const regenerateApiKeyFn = createServerFn({ method: 'POST' })
     return { apiKey }
   })
 
+/**
+ * Chart data for a sensor over a range. Short, recent ranges are served from
+ * raw readings; longer ranges, or ranges reaching past the farm's raw
+ * retention, from hourly or daily aggregates. Aggregate points carry the
+ * period's min and max. Falls back to raw readings while aggregates for a
+ * range are not yet computed.
+ *
+ * @param userId - ID of the user requesting the data
+ * @param sensorId - ID of the sensor
+ * @param startDate - Start of the range
+ * @param endDate - End of the range
+ * @param now - Current time
+ * @returns Chart points, newest first
+ * @throws {AppError} SENSOR_NOT_FOUND if the sensor does not exist
+ * @throws {AppError} ACCESS_DENIED if the user cannot access the sensor's farm
+ */
+export async function getSensorChartData(
+  userId: string,
+  sensorId: string,
+  startDate: Date,
+  endDate: Date,
+  now: Date = new Date(),
+): Promise<Array<SensorChartPoint>> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+
+  const { checkFarmAccess } = await import('~/features/auth/utils')
+  const { getSensorById } = await import('./repository')
+  const { getAggregatesInRange, getReadingsInRange } =
+    await import('./readings-repository')
+  const { getRetentionPolicy } = await import('./retention-repository')
+  const { getRetentionCutoffs, resolveRetentionPolicy, selectChartResolution } =
+    await import('./retention-service')
+
+  try {
+    const sensor = await getSensorById(db, sensorId)
+    if (!sensor) throw new AppError('SENSOR_NOT_FOUND')
+    if (!(await checkFarmAccess(userId, sensor.farmId))) {
+      throw new AppError('ACCESS_DENIED')
+    }
+
+    const policy = resolveRetentionPolicy(
+      await getRetentionPolicy(db, sensor.farmId),
+    )
+    const resolution = selectChartResolution(startDate, endDate, policy, now)
+
+    if (resolution !== 'raw') {
+      const aggregates = await getAggregatesInRange(
+        db,
+        sensorId,
+        resolution,
+        startDate,
+        endDate,
+        CHART_MAX_POINTS,
+      )
+      const rawStillCovers = endDate >= getRetentionCutoffs(policy, now).raw
+      if (aggregates.length > 0 || !rawStillCovers) {
+        return aggregates.map((a) => ({
+          recordedAt: a.periodStart,
+          value: a.avgValue,
+          isAnomaly: false,
+          minValue: a.minValue,
+          maxValue: a.maxValue,
+        }))
+      }
+    }
+
+    const readings = await getReadingsInRange(
+      db,
+      sensorId,
+      startDate,
+      endDate,
+      CHART_MAX_POINTS,
+    )
+    return readings.map((r) => ({
+      recordedAt: r.recordedAt,
+      value: r.value,
+      isAnomaly: r.isAnomaly,
+      minValue: null,
+      maxValue: null,
+    }))
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to fetch sensor chart data',
+      cause: error,
+    })
+  }
+}
+
 export const getSensorChartDataFn = createServerFn({ method: 'GET' })
   .inputValidator(
     z.object({
@@ -146,19 +263,12 @@ export const getSensorChartDataFn = createServerFn({ method: 'GET' })
   )
   .handler(async ({ data }) => {
     const { requireAuth } = await import('~/features/auth/server-middleware')
-    await requireAuth()
-
-    const { getDb } = await import('~/lib/db')
-    const db = await getDb()
-
-    const { getReadingsInRange } = await import('./readings-repository')
-
-    return getReadingsInRange(
-      db,
+    const session = await requireAuth()
+    return getSensorChartData(
+      session.user.id,
       data.sensorId,
       data.startDate,
       data.endDate,
-      500,
     )
   })
 
@@ -177,6 +287,80 @@ export const acknowledgeAlertFn = createServerFn({ method: 'POST' })
     return { success: true }
   })
 
+export const getSensorAlertsFn = createServerFn({ method: 'GET' })
+  .inputValidator(z.object({ sensorId: z.string().uuid() }))
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+
+    const { getDb } = await import('~/lib/db')
+    const db = await getDb()
+
+    const { checkFarmAccess } = await import('~/features/auth/utils')
+    const { getSensorById } = await import('./repository')
+    const { getAlertConfig, getAlertsBySensor } =
+      await import('./alerts-repository')
+    const { DEFAULT_ALERT_CHANNELS } = await import('./alert-delivery')
+    const { DEFAULT_ALERT_COOLDOWN_MINUTES } = await import('./constants')
+
+    const sensor = await getSensorById(db, data.sensorId)
+    if (!sensor) throw new AppError('SENSOR_NOT_FOUND')
+    if (!(await checkFarmAccess(session.user.id, sensor.farmId))) {
+      throw new AppError('ACCESS_DENIED')
+    }
+
+    const [alerts, config] = await Promise.all([
+      getAlertsBySensor(db, data.sensorId),
+      getAlertConfig(db, data.sensorId),
+    ])
+
+    return {
+      alerts: alerts.map((a) => ({
+        ...a,
+        triggerValue: Number(a.triggerValue),
+        thresholdValue: Number(a.thresholdValue),
+      })),
+      delivery: {
+        cooldownMinutes:
+          config?.cooldownMinutes ?? DEFAULT_ALERT_COOLDOWN_MINUTES,
+        smsEnabled: config?.smsEnabled ?? DEFAULT_ALERT_CHANNELS.smsEnabled,
+        emailEnabled:
+          config?.emailEnabled ?? DEFAULT_ALERT_CHANNELS.emailEnabled,
+      },
+    }
+  })
+
+export const updateAlertDeliveryFn = createServerFn({ method: 'POST' })
+  .inputValidator(
+    z.object({
+      sensorId: z.string().uuid(),
+      cooldownMinutes: z.number().int().min(5).max(1440),
+      smsEnabled: z.boolean(),
+      emailEnabled: z.boolean(),
+    }),
+  )
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+
+    const { getDb } = await import('~/lib/db')
+    const db = await getDb()
+
+    const { checkFarmAccess } = await import('~/features/auth/utils')
+    const { getSensorById } = await import('./repository')
+    const { upsertAlertConfig } = await import('./alerts-repository')
+
+    const sensor = await getSensorById(db, data.sensorId)
+    if (!sensor) throw new AppError('SENSOR_NOT_FOUND')
+    if (!(await checkFarmAccess(session.user.id, sensor.farmId))) {
+      throw new AppError('ACCESS_DENIED')
+    }
+
+    const { sensorId, ...delivery } = data
+    await upsertAlertConfig(db, sensorId, delivery)
+    return { success: true }
+  })
+
 export const getSensorSummaryFn = createServerFn({ method: 'GET' })
   .inputValidator(z.object({ farmId: z.string().uuid() }))
   .handler(async ({ data }) => {
@@ -235,9 +419,9 @@ export const ingestReadingsFn = createServerFn({ method: 'POST' })
     const db = await getDb()
 
     const { hashApiKey } = await import('./service')
-    const { getSensorByApiKeyHash, updateLastReadingAt, incrementApiUsage } =
+    const { getSensorByApiKeyHash, incrementApiUsage } =
       await import('./repository')
-    const { insertReadingsBatch } = await import('./readings-repository')
+    const { ingestSensorReadings } = await import('./ingestion')
 
     const apiKeyHash = await hashApiKey(data.apiKey)
     const sensor = await getSensorByApiKeyHash(db, apiKeyHash)
@@ -249,18 +433,22 @@ export const ingestReadingsFn = createServerFn({ method: 'POST' })
     await incrementApiUsage(db, sensor.id)
 
     const now = new Date()
-    await insertReadingsBatch(
+    const { anomalies, alertsRaised } = await ingestSensorReadings(
       db,
+      sensor,
       data.readings.map((r) => ({
-        sensorId: sensor.id,
         value: r.value,
         recordedAt: r.recordedAt ?? now,
       })),
+      now,
     )
 
-    await updateLastReadingAt(db, sensor.id)
-
-    return { success: true, count: data.readings.length }
+    return {
+      success: true,
+      count: data.readings.length,
+      anomalies,
+      alertsRaised,
+    }
   })
 
 export const getMortalityForChartFn = createServerFn({ method: 'GET' })
@@ -347,6 +535,7 @@ export const getEnvironmentalScoreFn = createServerFn({ method: 'GET' })
       ])
       .where('sensorId', 'in', sensorIds)
       .where('recordedAt', '>=', startDate)
+      .where('isAnomaly', '=', false)
       .groupBy('sensorId')
       .execute()
 
@@ -398,3 +587,141 @@ export const getEnvironmentalScoreFn = createServerFn({ method: 'GET' })
               : 'Needs attention',
     }
   })
+
+/**
+ * Build the environment report for a batch: the sensors in its structure over
+ * the batch's lifetime, time in the comfort zone per sensor type, and how
+ * stress hours relate to daily mortality, feed intake and weight gain.
+ * Closed batches are taken to end at their last update.
+ *
+ * @param userId - ID of the user requesting the report
+ * @param batchId - ID of the batch
+ * @param now - Current time, the end of an active batch
+ * @returns Environment report for the batch
+ * @throws {AppError} BATCH_NOT_FOUND if the batch does not exist
+ * @throws {AppError} ACCESS_DENIED if the user cannot access the batch's farm
+ */
+export async function getBatchEnvironmentReport(
+  userId: string,
+  batchId: string,
+  now: Date = new Date(),
+): Promise<BatchEnvironmentReport> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+
+  const { checkFarmAccess } = await import('~/features/auth/utils')
+  const repository = await import('./environment-report-repository')
+  const { buildBatchEnvironmentReport } =
+    await import('./environment-report-service')
+
+  try {
+    const batch = await repository.getBatchForEnvironmentReport(db, batchId)
+    if (!batch) throw new AppError('BATCH_NOT_FOUND')
+    if (!(await checkFarmAccess(userId, batch.farmId))) {
+      throw new AppError('ACCESS_DENIED')
+    }
+
+    const startDate = batch.acquisitionDate
+    const endDate =
+      batch.status === 'active' || batch.updatedAt > now ? now : batch.updatedAt
+
+    const sensors = batch.structureId
+      ? await repository.getStructureSensors(db, batch.structureId)
+      : []
+    const [hourly, mortality, feed, weights] = await Promise.all([
+      repository.getHourlyAggregatesForSensors(
+        db,
+        sensors.map((s) => s.id),
+        startDate,
+        endDate,
+      ),
+      repository.getBatchMortalityByDate(db, batchId),
+      repository.getBatchFeedByDate(db, batchId),
+      repository.getBatchWeightSamples(db, batchId),
+    ])
+
+    return buildBatchEnvironmentReport({
+      batchId,
+      structureId: batch.structureId,
+      startDate,
+      endDate,
+      headcount: Math.round(
+        (batch.initialQuantity + batch.currentQuantity) / 2,
+      ),
+      sensors: sensors.map((sensor) => ({
+        sensorType: sensor.sensorType,
+        thresholds: sensor.thresholds,
+        hourly: hourly.filter((h) => h.sensorId === sensor.id),
+      })),
+      mortality,
+      feed,
+      weights,
+    })
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to build batch environment report',
+      cause: error,
+    })
+  }
+}
+
+export const getBatchEnvironmentReportFn = createServerFn({ method: 'GET' })
+  .inputValidator(z.object({ batchId: z.string().uuid() }))
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+    return getBatchEnvironmentReport(session.user.id, data.batchId)
+  })
+
+export const getRetentionPolicyFn = createServerFn({ method: 'GET' })
+  .inputValidator(z.object({ farmId: z.string().uuid() }))
+  .handler(async ({ data }): Promise<SensorRetentionPolicy> => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+
+    const { getDb } = await import('~/lib/db')
+    const db = await getDb()
+
+    const { checkFarmAccess } = await import('~/features/auth/utils')
+    const { getRetentionPolicy } = await import('./retention-repository')
+    const { resolveRetentionPolicy } = await import('./retention-service')
+
+    if (!(await checkFarmAccess(session.user.id, data.farmId))) {
+      throw new AppError('ACCESS_DENIED')
+    }
+    return resolveRetentionPolicy(await getRetentionPolicy(db, data.farmId))
+  })
+
+export const updateRetentionPolicyFn = createServerFn({ method: 'POST' })
+  .inputValidator(
+    z.object({
+      farmId: z.string().uuid(),
+      rawRetentionDays: z.number().int().max(3650),
+      hourlyRetentionDays: z.number().int().max(3650),
+      dailyRetentionDays: z.number().int().max(36500).nullable(),
+      archiveRawReadings: z.boolean(),
+    }),
+  )
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+
+    const { getDb } = await import('~/lib/db')
+    const db = await getDb()
+
+    const { checkFarmAccess } = await import('~/features/auth/utils')
+    const { upsertRetentionPolicy } = await import('./retention-repository')
+    const { validateRetentionPolicy } = await import('./retention-service')
+
+    if (!(await checkFarmAccess(session.user.id, data.farmId))) {
+      throw new AppError('ACCESS_DENIED')
+    }
+
+    const { farmId, ...policy } = data
+    const problem = validateRetentionPolicy(policy)
+    if (problem) throw new AppError('VALIDATION_ERROR', { message: problem })
+
+    await upsertRetentionPolicy(db, farmId, policy)
+    return { success: true }
+  })
@@ -0,0 +1,430 @@
+/**
+ * Pure helpers for the sensor simulator (scripts/sensor-simulator.ts), which
+ * generates realistic readings with injected faults and replays recorded
+ * readings through the real ingestion pipeline against a local database.
+ * Kept free of server and database imports so generation and CSV handling
+ * can be tested in isolation.
+ */
+
+import { SENSOR_TYPE_CONFIG } from './constants'
+import { getPeriodStart } from './aggregation-service'
+import type { AggregationPeriod } from './aggregation-service'
+import type { SensorType } from './types'
+
+const MINUTE_MS = 60 * 1000
+const HOUR_MS = 60 * MINUTE_MS
+
+/** Sensor types that report their own readings (derived sensors are computed) */
+export type SimulatedSensorType = Exclude<
+  SensorType,
+  'heat_index' | 'thi' | 'unionized_ammonia'
+>
+
+/** Daily cycle of a sensor: a sine wave around the mean plus random noise */
+interface DiurnalProfile {
+  mean: number
+  /** Half the peak-to-trough swing over a day */
+  amplitude: number
+  /** Local hour (0-23) of the daily peak */
+  peakHour: number
+  /** Standard deviation of reading-to-reading noise */
+  noise: number
+}
+
+/**
+ * Typical daily cycles in West African poultry houses, fish ponds and hives.
+ * Ammonia peaks overnight when houses are closed up; dissolved oxygen peaks
+ * in the afternoon from photosynthesis and bottoms out before dawn.
+ */
+export const DIURNAL_PROFILES: Record<SimulatedSensorType, DiurnalProfile> = {
+  temperature: { mean: 27, amplitude: 4, peakHour: 15, noise: 0.3 },
+  humidity: { mean: 65, amplitude: 12, peakHour: 5, noise: 1.5 },
+  ammonia: { mean: 12, amplitude: 5, peakHour: 4, noise: 0.8 },
+  dissolved_oxygen: { mean: 6.5, amplitude: 1.8, peakHour: 15, noise: 0.15 },
+  ph: { mean: 7.4, amplitude: 0.3, peakHour: 16, noise: 0.05 },
+  water_level: { mean: 60, amplitude: 1.5, peakHour: 6, noise: 0.3 },
+  water_temperature: { mean: 28, amplitude: 1.5, peakHour: 16, noise: 0.1 },
+  hive_weight: { mean: 45, amplitude: 0.8, peakHour: 18, noise: 0.05 },
+  hive_temperature: { mean: 34.5, amplitude: 0.8, peakHour: 15, noise: 0.2 },
+  hive_humidity: { mean: 60, amplitude: 5, peakHour: 5, noise: 1 },
+}
+
+export const SIMULATED_SENSOR_TYPES = Object.keys(
+  DIURNAL_PROFILES,
+) as Array<SimulatedSensorType>
+
+export function isSimulatedSensorType(
+  sensorType: string,
+): sensorType is SimulatedSensorType {
+  return sensorType in DIURNAL_PROFILES
+}
+
+export type SimulatedFaultType = 'spike' | 'drift' | 'dropout' | 'flatline'
+
+export const SIMULATED_FAULT_TYPES: Array<SimulatedFaultType> = [
+  'spike',
+  'drift',
+  'dropout',
+  'flatline',
+]
+
+/**
+ * A fault injected into generated readings:
+ * - spike: readings jump by `magnitude` (a single reading without a duration)
+ * - drift: readings creep away linearly, reaching `magnitude` at the end
+ * - dropout: no readings are produced
+ * - flatline: readings repeat the value from when the fault began
+ */
+export interface SimulatedFault {
+  type: SimulatedFaultType
+  start: Date
+  durationMinutes: number
+  /** Offset for spikes and drift; defaults from the sensor's daily swing */
+  magnitude?: number
+}
+
+export interface SimulationOptions {
+  sensorType: SimulatedSensorType
+  start: Date
+  end: Date
+  intervalMinutes: number
+  faults?: Array<SimulatedFault>
+  /** Same seed, same readings */
+  seed?: number
+  /** Offset of the farm's local time from UTC, in hours, for the daily cycle */
+  utcOffsetHours?: number
+}
+
+export interface SimulatedReading {
+  value: number
+  recordedAt: Date
+}
+
+/**
+ * Seeded pseudo-random generator (mulberry32), returning values in [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/** Standard normal sample (Box-Muller) */
+function gaussian(random: () => number): number {
+  const u = Math.max(random(), Number.EPSILON)
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random())
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function defaultMagnitude(
+  fault: SimulatedFault,
+  profile: DiurnalProfile,
+): number {
+  if (fault.magnitude !== undefined) return fault.magnitude
+  return fault.type === 'spike' ? profile.amplitude * 4 : profile.amplitude * 2
+}
+
+function isFaultActive(fault: SimulatedFault, time: number): boolean {
+  const start = fault.start.getTime()
+  if (fault.durationMinutes <= 0) return time === start
+  return time >= start && time < start + fault.durationMinutes * MINUTE_MS
+}
+
+/**
+ * Generate readings following a sensor type's daily cycle, clamped to the
+ * type's valid range, with faults applied on top. A zero-duration spike hits
+ * the first reading at or after its start.
+ *
+ * @example
+ * ```typescript
+ * const readings = generateSimulatedReadings({
+ *   sensorType: 'temperature',
+ *   start: new Date('2026-06-01T00:00:00Z'),
+ *   end: new Date('2026-06-03T00:00:00Z'),
+ *   intervalMinutes: 5,
+ *   faults: [{ type: 'spike', start: new Date('2026-06-01T12:00:00Z'), durationMinutes: 0 }],
+ *   seed: 42,
+ * })
+ * ```
+ */
+export function generateSimulatedReadings(
+  options: SimulationOptions,
+): Array<SimulatedReading> {
+  const profile = DIURNAL_PROFILES[options.sensorType]
+  const config = SENSOR_TYPE_CONFIG[options.sensorType]
+  const random = createRandom(options.seed ?? Date.now())
+  const offsetHours = options.utcOffsetHours ?? 0
+  const intervalMs = Math.max(1, options.intervalMinutes) * MINUTE_MS
+
+  // Snap single-reading spikes onto the reading grid
+  const faults = (options.faults ?? []).map((fault) => {
+    if (fault.type !== 'spike' || fault.durationMinutes > 0) return fault
+    const steps = Math.ceil(
+      (fault.start.getTime() - options.start.getTime()) / intervalMs,
+    )
+    return {
+      ...fault,
+      start: new Date(
+        options.start.getTime() + Math.max(0, steps) * intervalMs,
+      ),
+    }
+  })
+  const stuckValues = new Map<SimulatedFault, number>()
+
+  const readings: Array<SimulatedReading> = []
+  for (
+    let time = options.start.getTime();
+    time <= options.end.getTime();
+    time += intervalMs
+  ) {
+    const localHour = (((time / HOUR_MS + offsetHours) % 24) + 24) % 24
+    const cycle = Math.cos((2 * Math.PI * (localHour - profile.peakHour)) / 24)
+    let value = Math.min(
+      config.maxValid,
+      Math.max(
+        config.minValid,
+        profile.mean +
+          profile.amplitude * cycle +
+          profile.noise * gaussian(random),
+      ),
+    )
+
+    let dropped = false
+    for (const fault of faults) {
+      if (!isFaultActive(fault, time)) continue
+      switch (fault.type) {
+        case 'dropout':
+          dropped = true
+          break
+        case 'flatline': {
+          const stuck = stuckValues.get(fault) ?? value
+          stuckValues.set(fault, stuck)
+          value = stuck
+          break
+        }
+        case 'spike':
+          value += defaultMagnitude(fault, profile)
+          break
+        case 'drift': {
+          const progress =
+            (time - fault.start.getTime()) / (fault.durationMinutes * MINUTE_MS)
+          value += defaultMagnitude(fault, profile) * progress
+          break
+        }
+      }
+    }
+
+    if (!dropped) {
+      readings.push({ value: round2(value), recordedAt: new Date(time) })
+    }
+  }
+
+  return readings
+}
+
+/**
+ * Parse a command-line fault spec: `type@offset[+duration][:magnitude]`, with
+ * offset and duration in hours from the start of the simulation
+ *
+ * @example
+ * ```typescript
+ * parseFaultSpec('drift@6+12:5', start) // drift from start+6h for 12h up to +5
+ * parseFaultSpec('spike@12', start)     // one spiked reading at start+12h
+ * ```
+ */
+export function parseFaultSpec(spec: string, start: Date): SimulatedFault {
+  const match =
+    /^(spike|drift|dropout|flatline)@(\d+(?:\.\d+)?)(?:\+(\d+(?:\.\d+)?))?(?::(-?\d+(?:\.\d+)?))?$/.exec(
+      spec.trim(),
+    )
+  if (!match) {
+    throw new Error(
+      `Invalid fault "${spec}": expected type@offsetHours[+durationHours][:magnitude]`,
+    )
+  }
+
+  const [, type, offset, duration, magnitude] = match
+  const durationMinutes = duration ? Number(duration) * 60 : 0
+  if (type !== 'spike' && durationMinutes <= 0) {
+    throw new Error(`Fault "${spec}" needs a duration, e.g. ${type}@6+2`)
+  }
+
+  return {
+    type: type as SimulatedFaultType,
+    start: new Date(start.getTime() + Number(offset) * HOUR_MS),
+    durationMinutes,
+    magnitude: magnitude ? Number(magnitude) : undefined,
+  }
+}
+
+export interface CsvReading {
+  /** Sensor the reading belongs to, when the file records several */
+  sensorId: string | null
+  value: number
+  recordedAt: Date
+}
+
+const TIME_COLUMNS = ['recordedat', 'recorded_at', 'timestamp', 'time']
+const SENSOR_COLUMNS = ['sensorid', 'sensor_id']
+
+/**
+ * Parse recorded readings from CSV with a header row naming a time column
+ * (`recordedAt`, `recorded_at`, `timestamp` or `time`), a `value` column and
+ * optionally a `sensorId` column. Rows that cannot be read are reported by
+ * line number rather than silently dropped.
+ *
+ * @returns Readings oldest first, and errors for unreadable rows
+ */
+export function parseReadingsCsv(text: string): {
+  readings: Array<CsvReading>
+  errors: Array<string>
+} {
+  const lines = text.split(/\r?\n/)
+  const headerIndex = lines.findIndex((line) => line.trim() !== '')
+  if (headerIndex === -1) {
+    return { readings: [], errors: ['File is empty'] }
+  }
+
+  const header = lines[headerIndex]
+    .split(',')
+    .map((h) => h.trim().replace(/^"|"$/g, '').toLowerCase())
+  const timeCol = header.findIndex((h) => TIME_COLUMNS.includes(h))
+  const valueCol = header.indexOf('value')
+  const sensorCol = header.findIndex((h) => SENSOR_COLUMNS.includes(h))
+  if (timeCol === -1 || valueCol === -1) {
+    return {
+      readings: [],
+      errors: ['Header must include a recordedAt and a value column'],
+    }
+  }
+
+  const readings: Array<CsvReading> = []
+  const errors: Array<string> = []
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    const line = lines[i].trim()
+    if (!line) continue
+
+    const cells = line.split(',').map((c) => c.trim().replace(/^"|"$/g, ''))
+    const recordedAt = new Date(cells[timeCol] ?? '')
+    const value = Number(cells[valueCol])
+    if (
+      Number.isNaN(recordedAt.getTime()) ||
+      cells[valueCol] === '' ||
+      !Number.isFinite(value)
+    ) {
+      errors.push(`Line ${i + 1}: could not read "${line}"`)
+      continue
+    }
+
+    readings.push({
+      sensorId: sensorCol === -1 ? null : cells[sensorCol] || null,
+      value,
+      recordedAt,
+    })
+  }
+
+  readings.sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime())
+  return { readings, errors }
+}
+
+/**
+ * Write readings as CSV that parseReadingsCsv reads back
+ */
+export function toReadingsCsv(
+  readings: Array<SimulatedReading>,
+  sensorId?: string,
+): string {
+  const rows = readings.map((r) =>
+    sensorId
+      ? `${sensorId},${r.recordedAt.toISOString()},${r.value}`
+      : `${r.recordedAt.toISOString()},${r.value}`,
+  )
+  const header = sensorId ? 'sensorId,recordedAt,value' : 'recordedAt,value'
+  return [header, ...rows].join('\n') + '\n'
+}
+
+/** One tick of a replay: readings due at the same recorded time */
+export interface ReplayStep {
+  /** Real time to wait before ingesting this step */
+  delayMs: number
+  /** Clock the pipeline sees when ingesting this step */
+  now: Date
+  readings: Array<CsvReading>
+}
+
+/**
+ * Plan a replay of recorded readings at `speed` times real time. When
+ * `endAt` is given, the whole recording is shifted so its last reading lands
+ * there, letting old recordings replay into "recent" data that alerts,
+ * dashboards and aggregation treat as current.
+ *
+ * @example
+ * ```typescript
+ * // A two-day recording replayed in under a minute, ending now
+ * const steps = planReplay(readings, { speed: 3600, endAt: new Date() })
+ * ```
+ */
+export function planReplay(
+  readings: Array<CsvReading>,
+  options: { speed: number; endAt?: Date },
+): Array<ReplayStep> {
+  if (readings.length === 0) return []
+
+  const sorted = [...readings].sort(
+    (a, b) => a.recordedAt.getTime() - b.recordedAt.getTime(),
+  )
+  const shiftMs = options.endAt
+    ? options.endAt.getTime() - sorted[sorted.length - 1].recordedAt.getTime()
+    : 0
+  const speed = Math.max(1, options.speed)
+
+  const steps: Array<ReplayStep> = []
+  let previous: number | null = null
+  for (const reading of sorted) {
+    const time = reading.recordedAt.getTime() + shiftMs
+    const shifted = { ...reading, recordedAt: new Date(time) }
+    if (previous === time) {
+      steps[steps.length - 1].readings.push(shifted)
+      continue
+    }
+
+    steps.push({
+      delayMs: previous === null ? 0 : Math.round((time - previous) / speed),
+      now: new Date(time),
+      readings: [shifted],
+    })
+    previous = time
+  }
+
+  return steps
+}
+
+/**
+ * Start of every aggregation period overlapping [start, end], so a replay can
+ * be rolled up the same way the scheduled aggregation does
+ */
+export function listPeriodStarts(
+  start: Date,
+  end: Date,
+  periodType: AggregationPeriod,
+): Array<Date> {
+  const starts: Array<Date> = []
+  const cursor = getPeriodStart(start, periodType)
+  while (cursor <= end) {
+    starts.push(new Date(cursor))
+    if (periodType === 'hourly') {
+      cursor.setHours(cursor.getHours() + 1)
+    } else {
+      cursor.setDate(cursor.getDate() + 1)
+    }
+  }
+  return starts
+}
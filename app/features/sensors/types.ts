@@ -3,13 +3,30 @@
  */
 
 import type {
+  ActuatorChangeSource,
+  ActuatorMode,
+  ActuatorRuleCondition,
+  ActuatorState,
+  ActuatorType,
   SensorAlertType,
+  SensorDerivation,
   SensorThresholds,
   SensorTrendConfig,
   SensorType,
 } from '~/lib/db/types'
 
-export type { SensorType, SensorThresholds, SensorTrendConfig, SensorAlertType }
+export type {
+  ActuatorChangeSource,
+  ActuatorMode,
+  ActuatorRuleCondition,
+  ActuatorState,
+  ActuatorType,
+  SensorType,
+  SensorThresholds,
+  SensorTrendConfig,
+  SensorAlertType,
+  SensorDerivation,
+}
 
 /** Sensor status based on last reading time */
 export type SensorStatus = 'online' | 'stale' | 'offline'
@@ -108,3 +125,223 @@ export interface ReadingInsert {
   isAnomaly?: boolean
   metadata?: Record<string, any> | null
 }
+
+/** Gateway posting readings for several sensors with one credential */
+export interface SensorGateway {
+  id: string
+  farmId: string
+  name: string
+  isActive: boolean
+  lastSeenAt: Date | null
+  requestCount: number
+  sensorCount: number
+  createdAt: Date
+}
+
+/** Readings a gateway posts for one sensor, addressed by ID or channel */
+export interface GatewayReadingBatch {
+  sensorId?: string
+  channel?: string
+  readings: Array<{ value: number; recordedAt?: Date }>
+}
+
+/** Sensor a gateway may post readings for */
+export interface GatewaySensor {
+  id: string
+  farmId: string
+  name: string
+  sensorType: SensorType
+  isActive: boolean
+  gatewayId: string | null
+  channel: string | null
+  thresholds: SensorThresholds | null
+  trendConfig: SensorTrendConfig | null
+}
+
+/** Why a gateway's readings were not stored */
+export type GatewayRejectionReason =
+  'unknown_sensor' | 'sensor_inactive' | 'outside_backfill_window'
+
+/** Readings a gateway posted that were not stored */
+export interface GatewayRejection {
+  sensorId?: string
+  channel?: string
+  reason: GatewayRejectionReason
+  count: number
+}
+
+/** Outcome of a gateway ingestion request */
+export interface GatewayIngestResult {
+  success: boolean
+  /** Readings stored */
+  stored: number
+  /** Readings dropped as repeats of a stored or same-batch reading */
+  duplicates: number
+  rejected: Array<GatewayRejection>
+  /** Stored readings flagged as anomalies */
+  anomalies: number
+  alertsRaised: number
+}
+
+/** Range a sensor type should stay within for the animals' comfort */
+export interface ComfortZone {
+  min: number
+  max: number
+}
+
+/** Time a structure's sensors of one type spent in the comfort zone */
+export interface ComfortZoneSummary {
+  sensorType: SensorType
+  unit: string
+  zone: ComfortZone
+  hoursObserved: number
+  hoursInZone: number
+  hoursAbove: number
+  hoursBelow: number
+  /** Share of observed hours in the comfort zone, 0-100 */
+  percentInZone: number
+  averageValue: number
+  minValue: number
+  maxValue: number
+  stressDays: number
+}
+
+/** Batch outcome measured per day */
+export type EnvironmentOutcomeMetric = 'mortality' | 'feedIntake' | 'weightGain'
+
+/**
+ * Correlation between daily hours outside the comfort zone and an outcome
+ * measured `lagDays` later
+ */
+export interface LaggedCorrelation {
+  sensorType: SensorType
+  metric: EnvironmentOutcomeMetric
+  lagDays: number
+  /** Pearson coefficient, -1 to 1 */
+  coefficient: number
+  sampleDays: number
+}
+
+/** Outcome on stress days compared with comfortable days */
+export interface EnvironmentImpact {
+  sensorType: SensorType
+  lagDays: number
+  stressDays: number
+  /** Deaths above the comfortable-day rate, summed over stress days */
+  excessMortality: number
+  /** Live weight not gained across the batch on stress days, in kg */
+  weightLossKg: number
+  /** Change in daily feed intake on stress days, in kg (negative = less) */
+  feedIntakeChangeKg: number
+}
+
+/** Daily environment and outcomes, for charting */
+export interface BatchEnvironmentDay {
+  date: string
+  /** Hours outside the comfort zone, per sensor type */
+  stressHours: Partial<Record<SensorType, number>>
+  mortality: number
+  feedKg: number
+  /** Average daily gain per head, in kg */
+  weightGainKg: number | null
+}
+
+/** Environment report for a batch over its lifetime in its structure */
+export interface BatchEnvironmentReport {
+  batchId: string
+  structureId: string | null
+  startDate: Date
+  endDate: Date
+  comfort: Array<ComfortZoneSummary>
+  correlations: Array<LaggedCorrelation>
+  impacts: Array<EnvironmentImpact>
+  days: Array<BatchEnvironmentDay>
+}
+
+/** How long a farm keeps each resolution of sensor data */
+export interface SensorRetentionPolicy {
+  rawRetentionDays: number
+  hourlyRetentionDays: number
+  /** Null keeps daily aggregates forever */
+  dailyRetentionDays: number | null
+  /** Export raw readings to storage before deleting them */
+  archiveRawReadings: boolean
+}
+
+/** Resolution chart data is served at */
+export type ChartResolution = 'raw' | 'hourly' | 'daily'
+
+/** Sensor chart point; aggregates carry the period's range */
+export interface SensorChartPoint {
+  recordedAt: Date
+  value: number
+  isAnomaly: boolean
+  minValue: number | null
+  maxValue: number | null
+}
+
+/** Outcome of applying retention policies */
+export interface RetentionRunResult {
+  farms: number
+  readingsArchived: number
+  readingsDeleted: number
+  archivesWritten: number
+  hourlyAggregatesDeleted: number
+  dailyAggregatesDeleted: number
+  /** Sensors whose raw readings were kept because archival failed */
+  archiveFailures: number
+}
+
+/** Rule switching an actuator from a sensor's readings */
+export interface ActuatorRule {
+  id: string
+  actuatorId: string
+  sensorId: string
+  sensorName: string
+  sensorType: SensorType
+  condition: ActuatorRuleCondition
+  /** Value for above/below, rate per hour for rising/falling */
+  threshold: number
+  durationMinutes: number
+  action: ActuatorState
+  isActive: boolean
+  lastTriggeredAt: Date | null
+}
+
+/** Actuator with its rules, as listed in the UI */
+export interface Actuator {
+  id: string
+  farmId: string
+  structureId: string
+  structureName: string | null
+  name: string
+  actuatorType: ActuatorType
+  state: ActuatorState
+  reportedState: ActuatorState | null
+  mode: ActuatorMode
+  overrideUntil: Date | null
+  isActive: boolean
+  lastSeenAt: Date | null
+  rules: Array<ActuatorRule>
+}
+
+/** Audit trail entry for an actuator */
+export interface ActuatorStateChange {
+  id: string
+  fromState: ActuatorState | null
+  toState: ActuatorState
+  fromMode: ActuatorMode | null
+  toMode: ActuatorMode | null
+  source: ActuatorChangeSource
+  ruleId: string | null
+  userName: string | null
+  reason: string | null
+  createdAt: Date
+}
+
+/** What a device receives when it polls for commands */
+export interface ActuatorPollResult {
+  state: ActuatorState
+  mode: ActuatorMode
+  command: { id: string; command: ActuatorState; createdAt: Date } | null
+}
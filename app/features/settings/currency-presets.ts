@@ -263,6 +263,7 @@ export interface UserSettings {
   lowStockThresholdPercent: number
   mortalityAlertPercent: number
   mortalityAlertQuantity: number
+  fcrAlertTolerancePercent: number
   notifications: {
     lowStock: boolean
     highMortality: boolean
@@ -323,6 +324,7 @@ export const DEFAULT_SETTINGS: UserSettings = {
   lowStockThresholdPercent: 10,
   mortalityAlertPercent: 5,
   mortalityAlertQuantity: 10,
+  fcrAlertTolerancePercent: 20,
   notifications: {
     lowStock: true,
     highMortality: true,
@@ -245,7 +245,7 @@ export function usePreferences() {
 /**
  * Hook for accessing monitoring and alert threshold settings
  *
- * @returns Object containing stock and mortality thresholds, and notifications flag
+ * @returns Object containing stock, mortality and FCR thresholds, and notifications flag
  */
 export function useAlertThresholds() {
   const settings = useSettingsValue()
@@ -254,6 +254,7 @@ export function useAlertThresholds() {
     lowStockPercent: settings.lowStockThresholdPercent,
     mortalityPercent: settings.mortalityAlertPercent,
     mortalityQuantity: settings.mortalityAlertQuantity,
+    fcrTolerancePercent: settings.fcrAlertTolerancePercent,
     notifications: settings.notifications,
   }
 }
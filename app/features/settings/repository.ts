@@ -47,6 +47,7 @@ export type UserSettingsRow = {
   lowStockThresholdPercent: number
   mortalityAlertPercent: number
   mortalityAlertQuantity: number
+  fcrAlertTolerancePercent: number
   notifications: {
     lowStock: boolean
     highMortality: boolean
@@ -137,6 +138,7 @@ export async function getUserSettings(
       'lowStockThresholdPercent',
       'mortalityAlertPercent',
       'mortalityAlertQuantity',
+      'fcrAlertTolerancePercent',
       'notifications',
       'defaultPaymentTermsDays',
       'fiscalYearStartMonth',
@@ -314,6 +316,7 @@ export async function getAllUserSettings(
       'lowStockThresholdPercent',
       'mortalityAlertPercent',
       'mortalityAlertQuantity',
+      'fcrAlertTolerancePercent',
       'notifications',
       'defaultPaymentTermsDays',
       'fiscalYearStartMonth',
@@ -614,6 +617,7 @@ export async function getAlertThresholds(
   lowStockThresholdPercent: number
   mortalityAlertPercent: number
   mortalityAlertQuantity: number
+  fcrAlertTolerancePercent: number
 } | null> {
   const settings = await getUserSettings(db, userId)
 
@@ -625,6 +629,7 @@ export async function getAlertThresholds(
     lowStockThresholdPercent: settings.lowStockThresholdPercent,
     mortalityAlertPercent: settings.mortalityAlertPercent,
     mortalityAlertQuantity: settings.mortalityAlertQuantity,
+    fcrAlertTolerancePercent: settings.fcrAlertTolerancePercent,
   }
 }
 
@@ -636,6 +641,7 @@ export async function getAlertThresholds(
  * @param lowStockThresholdPercent - Low stock threshold
  * @param mortalityAlertPercent - Mortality alert threshold
  * @param mortalityAlertQuantity - Mortality alert quantity
+ * @param fcrAlertTolerancePercent - FCR alert tolerance
  * @returns void
  */
 export async function updateAlertThresholds(
@@ -644,6 +650,7 @@ export async function updateAlertThresholds(
   lowStockThresholdPercent?: number,
   mortalityAlertPercent?: number,
   mortalityAlertQuantity?: number,
+  fcrAlertTolerancePercent?: number,
 ): Promise<void> {
   const updates: Partial<UserSettingsRow> = {}
 
@@ -659,6 +666,10 @@ export async function updateAlertThresholds(
     updates.mortalityAlertQuantity = mortalityAlertQuantity
   }
 
+  if (fcrAlertTolerancePercent !== undefined) {
+    updates.fcrAlertTolerancePercent = fcrAlertTolerancePercent
+  }
+
   if (Object.keys(updates).length > 0) {
     await updateUserSettings(db, userId, updates)
   }
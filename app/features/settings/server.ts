@@ -100,6 +100,11 @@ export const userSettingsSchema = z.object({
     .min(1, 'validation.min')
     .max(100, 'validation.max'),
   mortalityAlertQuantity: z.number().int().min(1, 'validation.min'),
+  fcrAlertTolerancePercent: z
+    .number()
+    .int()
+    .min(1, 'validation.min')
+    .max(100, 'validation.max'),
   notifications: z
     .object({
       lowStock: z.boolean().optional(),
@@ -162,6 +167,30 @@ export const getUserSettingsFn = createServerFn({ method: 'GET' })
     }
   })
 
+/**
+ * Load a user's settings merged with defaults, for server-side formatting
+ * (PDF exports, receipts) where there is no React settings context.
+ *
+ * @param userId - ID of the user whose preferences should be applied
+ * @returns Promise resolving to the complete settings object
+ */
+export async function getSettingsForUser(
+  userId: string,
+): Promise<UserSettings> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+
+  try {
+    const settings = await getUserSettingsFromDb(db, userId)
+    return { ...DEFAULT_SETTINGS, ...settings }
+  } catch (err) {
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to fetch settings',
+      cause: err,
+    })
+  }
+}
+
 /**
  * Update the current user's settings. Performs an upsert operation.
  *
@@ -201,23 +230,17 @@ export const updateUserSettingsFn = createServerFn({ method: 'POST' })
       const baseNotifications = mergeNotificationSettings(
         DEFAULT_SETTINGS.notifications,
         existingSettings?.notifications as
-          | UserSettings['notifications']
-          | null
-          | undefined,
+          UserSettings['notifications'] | null | undefined,
         data.notifications as
-          | Partial<UserSettings['notifications']>
-          | undefined,
+          Partial<UserSettings['notifications']> | undefined,
       )
 
       const baseDashboardCards = mergeDashboardCardSettings(
         DEFAULT_SETTINGS.dashboardCards,
         existingSettings?.dashboardCards as
-          | UserSettings['dashboardCards']
-          | null
-          | undefined,
+          UserSettings['dashboardCards'] | null | undefined,
         data.dashboardCards as
-          | Partial<UserSettings['dashboardCards']>
-          | undefined,
+          Partial<UserSettings['dashboardCards']> | undefined,
       )
 
       // Build the final merged data for database
@@ -557,6 +580,7 @@ export const getAlertThresholdsFn = createServerFn({ method: 'GET' }).handler(
         lowStockThresholdPercent: DEFAULT_SETTINGS.lowStockThresholdPercent,
         mortalityAlertPercent: DEFAULT_SETTINGS.mortalityAlertPercent,
         mortalityAlertQuantity: DEFAULT_SETTINGS.mortalityAlertQuantity,
+        fcrAlertTolerancePercent: DEFAULT_SETTINGS.fcrAlertTolerancePercent,
       }
     }
 
@@ -570,6 +594,7 @@ export const getAlertThresholdsFn = createServerFn({ method: 'GET' }).handler(
  * @param lowStockThresholdPercent - Low stock threshold
  * @param mortalityAlertPercent - Mortality alert threshold
  * @param mortalityAlertQuantity - Mortality alert quantity
+ * @param fcrAlertTolerancePercent - Percentage above target FCR that raises an alert
  * @returns Promise resolving to a success indicator
  */
 export const updateAlertThresholdsFn = createServerFn({ method: 'POST' })
@@ -578,12 +603,14 @@ export const updateAlertThresholdsFn = createServerFn({ method: 'POST' })
       lowStockThresholdPercent?: number
       mortalityAlertPercent?: number
       mortalityAlertQuantity?: number
+      fcrAlertTolerancePercent?: number
     }) =>
       z
         .object({
           lowStockThresholdPercent: z.number().int().min(1).max(100).optional(),
           mortalityAlertPercent: z.number().int().min(1).max(100).optional(),
           mortalityAlertQuantity: z.number().int().min(1).optional(),
+          fcrAlertTolerancePercent: z.number().int().min(1).max(100).optional(),
         })
         .parse(data),
   )
@@ -601,6 +628,7 @@ export const updateAlertThresholdsFn = createServerFn({ method: 'POST' })
       data.lowStockThresholdPercent,
       data.mortalityAlertPercent,
       data.mortalityAlertQuantity,
+      data.fcrAlertTolerancePercent,
     )
 
     return { success: true }
@@ -97,6 +97,13 @@ export function validateSettingData(
     }
   }
 
+  if (key === 'fcrAlertTolerancePercent') {
+    const num = typeof value === 'number' ? value : Number(value)
+    if (isNaN(num) || num < 1 || num > 100) {
+      return 'FCR alert tolerance must be between 1 and 100'
+    }
+  }
+
   // Business setting validations
   if (key === 'defaultPaymentTermsDays') {
     const num = typeof value === 'number' ? value : Number(value)
@@ -172,6 +179,7 @@ export function parseSettingValue(key: string, value: unknown): unknown {
       'lowStockThresholdPercent',
       'mortalityAlertPercent',
       'mortalityAlertQuantity',
+      'fcrAlertTolerancePercent',
       'defaultPaymentTermsDays',
       'fiscalYearStartMonth',
     ].includes(key)
@@ -0,0 +1,414 @@
+/**
+ * Database operations for shearing and wool clip management.
+ * All functions are pure data access - no business logic.
+ */
+
+import { sql } from 'kysely'
+import { SHEARABLE_LIVESTOCK_TYPES } from './types'
+import type { Kysely } from 'kysely'
+import type { Database } from '~/lib/db/types'
+import type { BasePaginatedQuery, PaginatedResult } from '~/lib/types'
+
+/**
+ * Data for inserting a new shearing record
+ */
+export interface ShearingRecordInsert {
+  batchId: string
+  structureId: string | null
+  date: Date
+  fleeceCount: number
+  greasyWeightKg: string
+  micronGrade: string | null
+  yieldPercent: string | null
+  notes: string | null
+}
+
+/**
+ * Data for updating a shearing record
+ */
+export type ShearingRecordUpdate = Partial<
+  Omit<ShearingRecordInsert, 'batchId'>
+>
+
+/**
+ * Shearing record with batch, shed and farm information
+ */
+export interface ShearingRecordWithDetails {
+  id: string
+  batchId: string
+  structureId: string | null
+  date: Date
+  fleeceCount: number
+  greasyWeightKg: string
+  micronGrade: string | null
+  yieldPercent: string | null
+  notes: string | null
+  createdAt: Date
+  batchSpecies: string
+  livestockType: string
+  shedName: string | null
+  farmId: string
+  farmName: string
+}
+
+/**
+ * Filters for shearing record queries
+ */
+export interface ShearingRecordFilters extends BasePaginatedQuery {
+  batchId?: string
+}
+
+/**
+ * Clip columns needed to build a shearing summary
+ */
+export interface ShearingClipRow {
+  batchId: string
+  fleeceCount: number
+  greasyWeightKg: string
+  micronGrade: string | null
+  yieldPercent: string | null
+}
+
+const SHEARING_RECORD_COLUMNS = [
+  'shearing_records.id',
+  'shearing_records.batchId',
+  'shearing_records.structureId',
+  'shearing_records.date',
+  'shearing_records.fleeceCount',
+  'shearing_records.greasyWeightKg',
+  'shearing_records.micronGrade',
+  'shearing_records.yieldPercent',
+  'shearing_records.notes',
+  'shearing_records.createdAt',
+  'batches.species as batchSpecies',
+  'batches.livestockType',
+  'structures.name as shedName',
+  'batches.farmId',
+  'farms.name as farmName',
+] as const
+
+/**
+ * Insert a new shearing record
+ *
+ * @param db - Kysely database instance
+ * @param data - Shearing record data to insert
+ * @returns The ID of the created record
+ */
+export async function insertShearingRecord(
+  db: Kysely<Database>,
+  data: ShearingRecordInsert,
+): Promise<string> {
+  const result = await db
+    .insertInto('shearing_records')
+    .values(data)
+    .returning('id')
+    .executeTakeFirstOrThrow()
+  return result.id
+}
+
+/**
+ * Get a single shearing record by ID
+ *
+ * @param db - Kysely database instance
+ * @param recordId - ID of the record to retrieve
+ * @returns The record with batch and farm details, or null if not found
+ */
+export async function getShearingRecordById(
+  db: Kysely<Database>,
+  recordId: string,
+): Promise<ShearingRecordWithDetails | null> {
+  const record = await db
+    .selectFrom('shearing_records')
+    .innerJoin('batches', 'batches.id', 'shearing_records.batchId')
+    .innerJoin('farms', 'farms.id', 'batches.farmId')
+    .leftJoin('structures', 'structures.id', 'shearing_records.structureId')
+    .select(SHEARING_RECORD_COLUMNS)
+    .where('shearing_records.id', '=', recordId)
+    .executeTakeFirst()
+
+  return record ?? null
+}
+
+/**
+ * Update a shearing record
+ *
+ * @param db - Kysely database instance
+ * @param recordId - ID of the record to update
+ * @param data - Fields to update
+ */
+export async function updateShearingRecord(
+  db: Kysely<Database>,
+  recordId: string,
+  data: ShearingRecordUpdate,
+): Promise<void> {
+  await db
+    .updateTable('shearing_records')
+    .set(data)
+    .where('id', '=', recordId)
+    .execute()
+}
+
+/**
+ * Delete a shearing record
+ *
+ * @param db - Kysely database instance
+ * @param recordId - ID of the record to delete
+ */
+export async function deleteShearingRecord(
+  db: Kysely<Database>,
+  recordId: string,
+): Promise<void> {
+  await db.deleteFrom('shearing_records').where('id', '=', recordId).execute()
+}
+
+/**
+ * Get paginated shearing records for a set of farms
+ *
+ * @param db - Kysely database instance
+ * @param farmIds - Array of farm IDs the user has access to
+ * @param filters - Pagination and filter options
+ * @returns Paginated result set
+ */
+export async function getShearingPaginated(
+  db: Kysely<Database>,
+  farmIds: Array<string>,
+  filters: ShearingRecordFilters = {},
+): Promise<PaginatedResult<ShearingRecordWithDetails>> {
+  const page = filters.page || 1
+  const pageSize = filters.pageSize || 10
+  const offset = (page - 1) * pageSize
+
+  if (farmIds.length === 0) {
+    return { data: [], total: 0, page, pageSize, totalPages: 0 }
+  }
+
+  let baseQuery = db
+    .selectFrom('shearing_records')
+    .innerJoin('batches', 'batches.id', 'shearing_records.batchId')
+    .innerJoin('farms', 'farms.id', 'batches.farmId')
+    .leftJoin('structures', 'structures.id', 'shearing_records.structureId')
+    .where('batches.farmId', 'in', farmIds)
+
+  if (filters.search) {
+    const searchLower = `%${filters.search.toLowerCase()}%`
+    baseQuery = baseQuery.where((eb) =>
+      eb.or([
+        eb('batches.species', 'ilike', searchLower),
+        eb('batches.batchName', 'ilike', searchLower),
+        eb('structures.name', 'ilike', searchLower),
+      ]),
+    )
+  }
+
+  if (filters.batchId) {
+    baseQuery = baseQuery.where(
+      'shearing_records.batchId',
+      '=',
+      filters.batchId,
+    )
+  }
+
+  const countResult = await baseQuery
+    .select((eb) => [eb.fn.count<number>('shearing_records.id').as('count')])
+    .executeTakeFirst()
+
+  const total = Number(countResult?.count || 0)
+  const totalPages = Math.ceil(total / pageSize)
+
+  let dataQuery = baseQuery
+    .select(SHEARING_RECORD_COLUMNS)
+    .limit(pageSize)
+    .offset(offset)
+
+  // Apply sorting with validated column references to prevent SQL injection
+  const allowedCols: Record<string, string> = {
+    date: 'shearing_records.date',
+    fleeceCount: 'shearing_records.fleeceCount',
+    greasyWeightKg: 'shearing_records.greasyWeightKg',
+    micronGrade: 'shearing_records.micronGrade',
+    createdAt: 'shearing_records.createdAt',
+    species: 'batches.species',
+  }
+  const sortCol = filters.sortBy ? allowedCols[filters.sortBy] : undefined
+  if (sortCol) {
+    dataQuery = dataQuery.orderBy(
+      sql.raw(`"${sortCol.replace('.', '"."')}"`),
+      filters.sortOrder || 'desc',
+    )
+  } else {
+    dataQuery = dataQuery.orderBy('shearing_records.date', 'desc')
+  }
+
+  const data = await dataQuery.execute()
+
+  return { data, total, page, pageSize, totalPages }
+}
+
+/**
+ * Get the clip columns of shearing records for a set of farms
+ *
+ * @param db - Kysely database instance
+ * @param farmIds - Farm IDs to include
+ * @param dateRange - Optional shearing date window
+ * @returns Clip rows for summary and attribution calculations
+ */
+export async function getShearingClips(
+  db: Kysely<Database>,
+  farmIds: Array<string>,
+  dateRange?: { startDate: Date; endDate: Date },
+): Promise<Array<ShearingClipRow>> {
+  if (farmIds.length === 0) return []
+
+  let query = db
+    .selectFrom('shearing_records')
+    .innerJoin('batches', 'batches.id', 'shearing_records.batchId')
+    .select([
+      'shearing_records.batchId',
+      'shearing_records.fleeceCount',
+      'shearing_records.greasyWeightKg',
+      'shearing_records.micronGrade',
+      'shearing_records.yieldPercent',
+    ])
+    .where('batches.farmId', 'in', farmIds)
+
+  if (dateRange) {
+    query = query
+      .where('shearing_records.date', '>=', dateRange.startDate)
+      .where('shearing_records.date', '<=', dateRange.endDate)
+  }
+
+  return await query.execute()
+}
+
+/**
+ * Get wool sold without a batch, i.e. a pooled farm clip
+ *
+ * @param db - Kysely database instance
+ * @param farmId - Farm ID
+ * @returns Revenue from unassigned wool and fleece sales
+ */
+export async function getUnassignedWoolRevenue(
+  db: Kysely<Database>,
+  farmId: string,
+): Promise<number> {
+  const result = await db
+    .selectFrom('sales')
+    .select((eb) =>
+      eb.fn
+        .coalesce(
+          eb.fn.sum<number>(eb.cast(eb.ref('totalAmount'), 'decimal')),
+          eb.val(0),
+        )
+        .as('total'),
+    )
+    .where('farmId', '=', farmId)
+    .where('batchId', 'is', null)
+    .where((eb) =>
+      eb.or([eb('livestockType', '=', 'wool'), eb('unitType', '=', 'fleece')]),
+    )
+    .where('deletedAt', 'is', null)
+    .executeTakeFirst()
+
+  return Number(result?.total || 0)
+}
+
+/**
+ * Get a batch for a shearing record, verifying it belongs to the farm
+ *
+ * @param db - Kysely database instance
+ * @param batchId - Batch ID to check
+ * @param farmId - Farm ID for verification
+ * @returns Batch data if found, null otherwise
+ */
+export async function getBatchForShearing(
+  db: Kysely<Database>,
+  batchId: string,
+  farmId: string,
+): Promise<{
+  id: string
+  farmId: string
+  livestockType: string
+  currentQuantity: number
+} | null> {
+  const batch = await db
+    .selectFrom('batches')
+    .select(['id', 'farmId', 'livestockType', 'currentQuantity'])
+    .where('id', '=', batchId)
+    .where('farmId', '=', farmId)
+    .executeTakeFirst()
+
+  return batch ?? null
+}
+
+/**
+ * Get a shearing shed, verifying it belongs to the farm
+ *
+ * @param db - Kysely database instance
+ * @param structureId - Structure ID to check
+ * @param farmId - Farm ID for verification
+ * @returns Structure type if found, null otherwise
+ */
+export async function getShedForShearing(
+  db: Kysely<Database>,
+  structureId: string,
+  farmId: string,
+): Promise<{ id: string; type: string } | null> {
+  const structure = await db
+    .selectFrom('structures')
+    .select(['id', 'type'])
+    .where('id', '=', structureId)
+    .where('farmId', '=', farmId)
+    .where('deletedAt', 'is', null)
+    .executeTakeFirst()
+
+  return structure ?? null
+}
+
+/**
+ * Get active sheep and goat batches for a farm
+ *
+ * @param db - Kysely database instance
+ * @param farmId - Farm ID
+ * @returns Active shearable batches
+ */
+export async function getShearableBatches(
+  db: Kysely<Database>,
+  farmId: string,
+): Promise<
+  Array<{
+    id: string
+    species: string
+    livestockType: string
+    currentQuantity: number
+  }>
+> {
+  return await db
+    .selectFrom('batches')
+    .select(['id', 'species', 'livestockType', 'currentQuantity'])
+    .where('farmId', '=', farmId)
+    .where('livestockType', 'in', SHEARABLE_LIVESTOCK_TYPES)
+    .where('status', '=', 'active')
+    .where('deletedAt', 'is', null)
+    .execute()
+}
+
+/**
+ * Get shearing sheds for a farm
+ *
+ * @param db - Kysely database instance
+ * @param farmId - Farm ID
+ * @returns Shearing shed structures
+ */
+export async function getShearingSheds(
+  db: Kysely<Database>,
+  farmId: string,
+): Promise<Array<{ id: string; name: string }>> {
+  return await db
+    .selectFrom('structures')
+    .select(['id', 'name'])
+    .where('farmId', '=', farmId)
+    .where('type', '=', 'shearing_shed')
+    .where('deletedAt', 'is', null)
+    .orderBy('name', 'asc')
+    .execute()
+}
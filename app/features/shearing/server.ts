@@ -0,0 +1,459 @@
+import { createServerFn } from '@tanstack/react-start'
+import { z } from 'zod'
+import {
+  buildShearingSummary,
+  validateShearingData,
+  validateUpdateData,
+} from './service'
+import {
+  deleteShearingRecord as deleteShearingRecordFromDb,
+  getBatchForShearing,
+  getShearableBatches,
+  getShearingClips,
+  getShearingPaginated,
+  getShearingRecordById,
+  getShearingSheds,
+  getShedForShearing,
+  insertShearingRecord,
+  updateShearingRecord as updateShearingRecordInDb,
+} from './repository'
+import { SHEARABLE_LIVESTOCK_TYPES } from './types'
+import type { Kysely } from 'kysely'
+import type { ShearingRecordUpdate } from './repository'
+import type {
+  CreateShearingRecordInput,
+  ShearingBatch,
+  ShearingQuery,
+  ShearingShed,
+  ShearingSummary,
+  UpdateShearingRecordInput,
+} from './types'
+import type { Database } from '~/lib/db/types'
+import type { PaginatedResult } from '~/lib/types'
+import { AppError } from '~/lib/errors'
+
+export type {
+  PaginatedResult,
+  CreateShearingRecordInput,
+  UpdateShearingRecordInput,
+}
+
+const EMPTY_SUMMARY: ShearingSummary = {
+  fleeceCount: 0,
+  greasyWeightKg: 0,
+  cleanWeightKg: 0,
+  averageFleeceWeightKg: 0,
+  averageMicron: null,
+  recordCount: 0,
+}
+
+const shearingRecordSchema = z.object({
+  structureId: z.string().uuid().nullish(),
+  fleeceCount: z.number().int().positive(),
+  greasyWeightKg: z.number().positive(),
+  micronGrade: z.number().min(10).max(50).nullish(),
+  yieldPercent: z.number().positive().max(100).nullish(),
+  notes: z.string().max(500).nullish(),
+})
+
+/**
+ * Ensure a shearing shed belongs to the farm and is a shearing shed
+ */
+async function assertShearingShed(
+  db: Kysely<Database>,
+  structureId: string,
+  farmId: string,
+): Promise<void> {
+  const shed = await getShedForShearing(db, structureId, farmId)
+  if (!shed) {
+    throw new AppError('STRUCTURE_NOT_FOUND', {
+      metadata: { structureId, farmId },
+    })
+  }
+  if (shed.type !== 'shearing_shed') {
+    throw new AppError('VALIDATION_ERROR', {
+      message: 'Structure is not a shearing shed',
+    })
+  }
+}
+
+/**
+ * Records a shearing of a sheep or goat batch.
+ * More fleeces than head in the batch is rejected.
+ *
+ * @param userId - ID of the user performing the action
+ * @param farmId - ID of the farm owning the batch
+ * @param input - Fleece count, greasy weight and wool quality
+ * @returns Promise resolving to the new record ID
+ * @throws {AppError} If the batch is not found or is not shearable
+ */
+export async function createShearingRecord(
+  userId: string,
+  farmId: string,
+  input: CreateShearingRecordInput,
+): Promise<string> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { verifyFarmAccess } = await import('~/features/auth/utils')
+
+  try {
+    await verifyFarmAccess(userId, farmId)
+
+    const validationError = validateShearingData(input)
+    if (validationError) {
+      throw new AppError('VALIDATION_ERROR', {
+        metadata: { error: validationError },
+      })
+    }
+
+    const batch = await getBatchForShearing(db, input.batchId, farmId)
+
+    if (!batch) {
+      throw new AppError('BATCH_NOT_FOUND', {
+        metadata: { batchId: input.batchId, farmId },
+      })
+    }
+
+    if (
+      !(SHEARABLE_LIVESTOCK_TYPES as ReadonlyArray<string>).includes(
+        batch.livestockType,
+      )
+    ) {
+      throw new AppError('VALIDATION_ERROR', {
+        message:
+          'Shearing records can only be created for sheep or goat batches',
+      })
+    }
+
+    if (input.fleeceCount > batch.currentQuantity) {
+      throw new AppError('VALIDATION_ERROR', {
+        message: `Fleece count exceeds the ${batch.currentQuantity} head in the batch`,
+      })
+    }
+
+    if (input.structureId) {
+      await assertShearingShed(db, input.structureId, farmId)
+    }
+
+    return await insertShearingRecord(db, {
+      batchId: input.batchId,
+      structureId: input.structureId ?? null,
+      date: input.date,
+      fleeceCount: input.fleeceCount,
+      greasyWeightKg: input.greasyWeightKg.toFixed(2),
+      micronGrade: input.micronGrade?.toFixed(1) ?? null,
+      yieldPercent: input.yieldPercent?.toFixed(2) ?? null,
+      notes: input.notes || null,
+    })
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to create shearing record',
+      cause: error,
+    })
+  }
+}
+
+export const createShearingRecordFn = createServerFn({ method: 'POST' })
+  .inputValidator(
+    z.object({
+      farmId: z.string().uuid(),
+      record: shearingRecordSchema.extend({
+        batchId: z.string().uuid(),
+        date: z.coerce.date(),
+      }),
+    }),
+  )
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+    return createShearingRecord(session.user.id, data.farmId, data.record)
+  })
+
+/**
+ * Updates an existing shearing record
+ *
+ * @param userId - ID of the user performing the update
+ * @param recordId - ID of the record to update
+ * @param data - Partial update parameters
+ * @returns Promise resolving to true on success
+ */
+export async function updateShearingRecord(
+  userId: string,
+  recordId: string,
+  data: UpdateShearingRecordInput,
+): Promise<boolean> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { getUserFarms } = await import('~/features/auth/utils')
+
+  try {
+    const validationError = validateUpdateData(data)
+    if (validationError) {
+      throw new AppError('VALIDATION_ERROR', {
+        metadata: { error: validationError },
+      })
+    }
+
+    const userFarms = await getUserFarms(userId)
+    const record = await getShearingRecordById(db, recordId)
+
+    if (!record) {
+      throw new AppError('SHEARING_RECORD_NOT_FOUND', {
+        metadata: { resource: 'ShearingRecord', id: recordId },
+      })
+    }
+
+    if (!userFarms.includes(record.farmId)) {
+      throw new AppError('ACCESS_DENIED', {
+        metadata: { farmId: record.farmId },
+      })
+    }
+
+    if (data.structureId) {
+      await assertShearingShed(db, data.structureId, record.farmId)
+    }
+
+    const update: ShearingRecordUpdate = {}
+    if (data.structureId !== undefined)
+      update.structureId = data.structureId ?? null
+    if (data.date !== undefined) update.date = data.date
+    if (data.fleeceCount !== undefined) update.fleeceCount = data.fleeceCount
+    if (data.greasyWeightKg !== undefined)
+      update.greasyWeightKg = data.greasyWeightKg.toFixed(2)
+    if (data.micronGrade !== undefined)
+      update.micronGrade = data.micronGrade?.toFixed(1) ?? null
+    if (data.yieldPercent !== undefined)
+      update.yieldPercent = data.yieldPercent?.toFixed(2) ?? null
+    if (data.notes !== undefined) update.notes = data.notes || null
+
+    await updateShearingRecordInDb(db, recordId, update)
+
+    return true
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to update shearing record',
+      cause: error,
+    })
+  }
+}
+
+export const updateShearingRecordFn = createServerFn({ method: 'POST' })
+  .inputValidator(
+    z.object({
+      recordId: z.string().uuid(),
+      data: shearingRecordSchema.partial().extend({
+        date: z.coerce.date().optional(),
+      }),
+    }),
+  )
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+    return updateShearingRecord(session.user.id, data.recordId, data.data)
+  })
+
+/**
+ * Delete a shearing record
+ *
+ * @param userId - ID of the user performing the action
+ * @param recordId - ID of the record to delete
+ */
+export async function deleteShearingRecord(
+  userId: string,
+  recordId: string,
+): Promise<void> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { getUserFarms } = await import('~/features/auth/utils')
+
+  try {
+    const userFarms = await getUserFarms(userId)
+    const record = await getShearingRecordById(db, recordId)
+
+    if (!record) {
+      throw new AppError('SHEARING_RECORD_NOT_FOUND', {
+        metadata: { resource: 'ShearingRecord', id: recordId },
+      })
+    }
+
+    if (!userFarms.includes(record.farmId)) {
+      throw new AppError('ACCESS_DENIED', {
+        metadata: { farmId: record.farmId },
+      })
+    }
+
+    await deleteShearingRecordFromDb(db, recordId)
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to delete shearing record',
+      cause: error,
+    })
+  }
+}
+
+export const deleteShearingRecordFn = createServerFn({ method: 'POST' })
+  .inputValidator(z.object({ recordId: z.string().uuid() }))
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const session = await requireAuth()
+    return deleteShearingRecord(session.user.id, data.recordId)
+  })
+
+/**
+ * Retrieves a filtered and sorted page of shearing records.
+ *
+ * @param userId - ID of the requesting user
+ * @param query - Sorting, search and pagination params
+ * @returns Paginated shearing records with batch, shed and farm details
+ */
+export async function getShearingRecordsPaginated(
+  userId: string,
+  query: ShearingQuery = {},
+) {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { checkFarmAccess, getUserFarms } =
+    await import('~/features/auth/utils')
+
+  try {
+    let targetFarmIds: Array<string> = []
+    if (query.farmId) {
+      const hasAccess = await checkFarmAccess(userId, query.farmId)
+      if (!hasAccess)
+        throw new AppError('ACCESS_DENIED', {
+          metadata: { farmId: query.farmId },
+        })
+      targetFarmIds = [query.farmId]
+    } else {
+      targetFarmIds = await getUserFarms(userId)
+    }
+
+    return await getShearingPaginated(db, targetFarmIds, query)
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to fetch paginated shearing records',
+      cause: error,
+    })
+  }
+}
+
+/**
+ * Aggregates fleeces, greasy and clean weight and average micron.
+ *
+ * @param userId - ID of the requesting user
+ * @param farmId - Optional farm filter
+ * @returns Wool clip summary
+ */
+export async function getShearingSummary(
+  userId: string,
+  farmId?: string,
+): Promise<ShearingSummary> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { checkFarmAccess, getUserFarms } =
+    await import('~/features/auth/utils')
+
+  try {
+    let targetFarmIds: Array<string> = []
+
+    if (farmId) {
+      const hasAccess = await checkFarmAccess(userId, farmId)
+      if (!hasAccess)
+        throw new AppError('ACCESS_DENIED', { metadata: { farmId } })
+      targetFarmIds = [farmId]
+    } else {
+      targetFarmIds = await getUserFarms(userId)
+      if (targetFarmIds.length === 0) return EMPTY_SUMMARY
+    }
+
+    const clips = await getShearingClips(db, targetFarmIds)
+
+    return buildShearingSummary(clips)
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to fetch shearing summary',
+      cause: error,
+    })
+  }
+}
+
+/**
+ * Active sheep and goat batches and the shearing sheds of a farm
+ *
+ * @param userId - ID of the requesting user
+ * @param farmId - Farm to list batches for
+ * @returns Shearable batches and sheds
+ */
+export async function getShearingOptions(
+  userId: string,
+  farmId: string,
+): Promise<{ batches: Array<ShearingBatch>; sheds: Array<ShearingShed> }> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { verifyFarmAccess } = await import('~/features/auth/utils')
+
+  try {
+    await verifyFarmAccess(userId, farmId)
+
+    const [batches, sheds] = await Promise.all([
+      getShearableBatches(db, farmId),
+      getShearingSheds(db, farmId),
+    ])
+
+    return { batches, sheds }
+  } catch (error) {
+    if (error instanceof AppError) throw error
+    throw new AppError('DATABASE_ERROR', {
+      message: 'Failed to fetch shearing options',
+      cause: error,
+    })
+  }
+}
+
+/**
+ * Server function to get all shearing data for a farm (paginated records, summary, batches and sheds)
+ */
+export const getShearingDataForFarmFn = createServerFn({ method: 'GET' })
+  .inputValidator(
+    z.object({
+      farmId: z.string().uuid().nullish(),
+      page: z.number().int().positive().optional(),
+      pageSize: z.number().int().positive().max(100).optional(),
+      sortBy: z.string().optional(),
+      sortOrder: z.enum(['asc', 'desc']).optional(),
+      search: z.string().optional(),
+    }),
+  )
+  .handler(async ({ data }) => {
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+
+    const session = await requireAuth()
+    const farmId = data.farmId || undefined
+
+    const [paginatedRecords, summary, options] = await Promise.all([
+      getShearingRecordsPaginated(session.user.id, {
+        farmId,
+        page: data.page,
+        pageSize: data.pageSize,
+        sortBy: data.sortBy,
+        sortOrder: data.sortOrder,
+        search: data.search,
+      }),
+      getShearingSummary(session.user.id, farmId),
+      farmId
+        ? getShearingOptions(session.user.id, farmId)
+        : Promise.resolve({ batches: [], sheds: [] }),
+    ])
+
+    return {
+      paginatedRecords,
+      summary,
+      batches: options.batches,
+      sheds: options.sheds,
+    }
+  })
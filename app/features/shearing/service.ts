@@ -0,0 +1,234 @@
+/**
+ * Pure business logic for shearing and wool clip operations.
+ * All functions are side-effect-free and easily unit testable.
+ */
+
+import type {
+  CreateShearingRecordInput,
+  MicronClass,
+  ShearingSummary,
+  UpdateShearingRecordInput,
+} from './types'
+
+/**
+ * Clip columns as stored (DECIMAL columns arrive from pg as strings)
+ */
+interface ShearingClip {
+  fleeceCount: number
+  greasyWeightKg: number | string
+  micronGrade: number | string | null
+  yieldPercent: number | string | null
+}
+
+/** Finest and coarsest fibre diameters accepted (microns) */
+const MIN_MICRON = 10
+const MAX_MICRON = 50
+
+/** Upper micron bound of each trade class, finest first */
+const MICRON_CLASS_LIMITS: Array<[MicronClass, number]> = [
+  ['superfine', 18.5],
+  ['fine', 19.5],
+  ['medium', 22.5],
+]
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Validate shearing data before creation
+ * Returns validation error message or null if valid
+ *
+ * @param data - Shearing data to validate
+ * @returns Validation error message, or null if data is valid
+ *
+ * @example
+ * ```ts
+ * validateShearingData({
+ *   batchId: 'batch-1',
+ *   date: new Date(),
+ *   fleeceCount: 120,
+ *   greasyWeightKg: 540,
+ *   micronGrade: 19.5,
+ *   yieldPercent: 65,
+ * })
+ * // Returns: null (valid)
+ * ```
+ */
+export function validateShearingData(
+  data: CreateShearingRecordInput,
+): string | null {
+  if (!data.batchId || data.batchId.trim() === '') {
+    return 'Batch ID is required'
+  }
+
+  if (!(data.date instanceof Date) || isNaN(data.date.getTime())) {
+    return 'Valid shearing date is required'
+  }
+
+  return validateClipFields(data)
+}
+
+/**
+ * Validate update data for a shearing record
+ * Returns validation error message or null if valid
+ *
+ * @param data - Update data to validate
+ * @returns Validation error message, or null if valid
+ */
+export function validateUpdateData(
+  data: UpdateShearingRecordInput,
+): string | null {
+  if (data.date !== undefined) {
+    if (!(data.date instanceof Date) || isNaN(data.date.getTime())) {
+      return 'Date must be a valid date'
+    }
+  }
+
+  return validateClipFields(data)
+}
+
+function validateClipFields(data: UpdateShearingRecordInput): string | null {
+  if (
+    data.fleeceCount !== undefined &&
+    !(Number.isInteger(data.fleeceCount) && data.fleeceCount > 0)
+  ) {
+    return 'Fleece count must be a whole number greater than 0'
+  }
+
+  if (data.greasyWeightKg !== undefined && !(data.greasyWeightKg > 0)) {
+    return 'Greasy weight must be greater than 0'
+  }
+
+  if (
+    data.micronGrade !== undefined &&
+    data.micronGrade !== null &&
+    (data.micronGrade < MIN_MICRON || data.micronGrade > MAX_MICRON)
+  ) {
+    return `Micron grade must be between ${MIN_MICRON} and ${MAX_MICRON}`
+  }
+
+  if (
+    data.yieldPercent !== undefined &&
+    data.yieldPercent !== null &&
+    (data.yieldPercent <= 0 || data.yieldPercent > 100)
+  ) {
+    return 'Yield must be greater than 0 and at most 100%'
+  }
+
+  return null
+}
+
+/**
+ * Clean (scoured) wool weight from the greasy weight and yield
+ *
+ * @param greasyWeightKg - Weight as shorn
+ * @param yieldPercent - Clean wool as a percentage of greasy weight
+ * @returns Clean weight in kg, or null when the yield is unknown
+ *
+ * @example
+ * ```ts
+ * calculateCleanWeight(500, 65) // Returns: 325
+ * calculateCleanWeight(500, null) // Returns: null
+ * ```
+ */
+export function calculateCleanWeight(
+  greasyWeightKg: number | string,
+  yieldPercent: number | string | null,
+): number | null {
+  if (yieldPercent === null) return null
+  return round2((Number(greasyWeightKg) * Number(yieldPercent)) / 100)
+}
+
+/**
+ * Average greasy fleece weight
+ *
+ * @param greasyWeightKg - Total greasy weight
+ * @param fleeceCount - Number of fleeces
+ * @returns Kilograms per fleece, or 0 without fleeces
+ *
+ * @example
+ * ```ts
+ * calculateAverageFleeceWeight(540, 120) // Returns: 4.5
+ * ```
+ */
+export function calculateAverageFleeceWeight(
+  greasyWeightKg: number,
+  fleeceCount: number,
+): number {
+  if (fleeceCount <= 0) return 0
+  return round2(greasyWeightKg / fleeceCount)
+}
+
+/**
+ * Trade class for a mean fibre diameter
+ *
+ * @param micron - Mean fibre diameter in microns
+ * @returns Micron class
+ *
+ * @example
+ * ```ts
+ * getMicronClass(17.8) // Returns: 'superfine'
+ * getMicronClass(28) // Returns: 'strong'
+ * ```
+ */
+export function getMicronClass(micron: number): MicronClass {
+  for (const [micronClass, limit] of MICRON_CLASS_LIMITS) {
+    if (micron <= limit) return micronClass
+  }
+  return 'strong'
+}
+
+/**
+ * Build the wool clip summary. Micron is averaged by greasy weight and the
+ * clean weight only counts clips with a measured yield.
+ *
+ * @param clips - Shearing records (DECIMAL columns as strings)
+ * @returns Clip totals, average fleece weight and average micron
+ *
+ * @example
+ * ```ts
+ * buildShearingSummary([
+ *   { fleeceCount: 100, greasyWeightKg: '450.00', micronGrade: '19.0', yieldPercent: '60.00' },
+ *   { fleeceCount: 50, greasyWeightKg: '150.00', micronGrade: '23.0', yieldPercent: null },
+ * ])
+ * // Returns: { fleeceCount: 150, greasyWeightKg: 600, cleanWeightKg: 270,
+ * //            averageFleeceWeightKg: 4, averageMicron: 20, recordCount: 2 }
+ * ```
+ */
+export function buildShearingSummary(
+  clips: Array<ShearingClip>,
+): ShearingSummary {
+  let fleeceCount = 0
+  let greasyWeightKg = 0
+  let cleanWeightKg = 0
+  let micronWeighted = 0
+  let measuredKg = 0
+
+  for (const clip of clips) {
+    const greasy = Number(clip.greasyWeightKg)
+    fleeceCount += clip.fleeceCount
+    greasyWeightKg += greasy
+    cleanWeightKg += calculateCleanWeight(greasy, clip.yieldPercent) ?? 0
+
+    if (clip.micronGrade !== null) {
+      micronWeighted += Number(clip.micronGrade) * greasy
+      measuredKg += greasy
+    }
+  }
+
+  return {
+    fleeceCount,
+    greasyWeightKg: round2(greasyWeightKg),
+    cleanWeightKg: round2(cleanWeightKg),
+    averageFleeceWeightKg: calculateAverageFleeceWeight(
+      greasyWeightKg,
+      fleeceCount,
+    ),
+    averageMicron:
+      measuredKg > 0
+        ? Math.round((micronWeighted / measuredKg) * 10) / 10
+        : null,
+    recordCount: clips.length,
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Types for wool and fleece clip tracking
+ */
+
+import type { BasePaginatedQuery } from '~/lib/types'
+
+/**
+ * Livestock types that are shorn for wool or fibre
+ */
+export const SHEARABLE_LIVESTOCK_TYPES = ['sheep', 'goats'] as const
+
+/**
+ * Trade classes by mean fibre diameter, finest first
+ */
+export type MicronClass = 'superfine' | 'fine' | 'medium' | 'strong'
+
+/**
+ * Search parameters for shearing route
+ */
+export interface ShearingSearchParams {
+  page?: number
+  pageSize?: number
+  sortBy?: string
+  sortOrder?: 'asc' | 'desc'
+  search?: string
+}
+
+/**
+ * Batch data for shearing
+ */
+export interface ShearingBatch {
+  id: string
+  species: string
+  livestockType: string
+  currentQuantity: number
+}
+
+/**
+ * Shearing shed a clip can be recorded against
+ */
+export interface ShearingShed {
+  id: string
+  name: string
+}
+
+/**
+ * Wool clip summary metrics
+ */
+export interface ShearingSummary {
+  fleeceCount: number
+  greasyWeightKg: number
+  /** Scoured weight, from records that carry a yield */
+  cleanWeightKg: number
+  /** Greasy kg per fleece */
+  averageFleeceWeightKg: number
+  /** Weight-averaged fibre diameter, or null when never measured */
+  averageMicron: number | null
+  recordCount: number
+}
+
+/**
+ * Filter parameters for paginated shearing record queries
+ */
+export interface ShearingQuery extends BasePaginatedQuery {
+  /** Optional filter by specific batch */
+  batchId?: string
+}
+
+/**
+ * Input for recording a shearing
+ */
+export interface CreateShearingRecordInput {
+  /** ID of the batch that was shorn */
+  batchId: string
+  /** Shearing shed used, if any */
+  structureId?: string | null
+  /** Shearing date */
+  date: Date
+  /** Number of fleeces taken */
+  fleeceCount: number
+  /** Total weight as shorn, before scouring (kg) */
+  greasyWeightKg: number
+  /** Mean fibre diameter in microns */
+  micronGrade?: number | null
+  /** Clean wool as a percentage of greasy weight */
+  yieldPercent?: number | null
+  notes?: string | null
+}
+
+/**
+ * Data structure for updating a shearing record
+ */
+export interface UpdateShearingRecordInput {
+  structureId?: string | null
+  date?: Date
+  fleeceCount?: number
+  greasyWeightKg?: number
+  micronGrade?: number | null
+  yieldPercent?: number | null
+  notes?: string | null
+}
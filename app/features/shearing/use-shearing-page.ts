@@ -0,0 +1,123 @@
+import { useState } from 'react'
+import { useNavigate, useRouter } from '@tanstack/react-router'
+import { toast } from 'sonner'
+import { useTranslation } from 'react-i18next'
+import {
+  createShearingRecordFn,
+  deleteShearingRecordFn,
+  updateShearingRecordFn,
+} from './server'
+import type {
+  CreateShearingRecordInput,
+  ShearingSearchParams,
+  UpdateShearingRecordInput,
+} from './types'
+import type { ShearingRecordWithDetails } from './repository'
+
+interface UseShearingPageProps {
+  selectedFarmId: string | null
+  routePath: string
+}
+
+export function useShearingPage({
+  selectedFarmId,
+  routePath,
+}: UseShearingPageProps) {
+  const { t } = useTranslation(['shearing', 'common'])
+  const navigate = useNavigate({ from: routePath as any })
+  const router = useRouter()
+
+  const [selectedRecord, setSelectedRecord] =
+    useState<ShearingRecordWithDetails | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const updateSearch = (updates: Partial<ShearingSearchParams>) => {
+    navigate({
+      // @ts-ignore - Type limitation
+      search: (prev: ShearingSearchParams) => ({
+        ...prev,
+        ...updates,
+      }),
+    })
+  }
+
+  const handleAddSubmit = async (data: CreateShearingRecordInput) => {
+    if (!selectedFarmId) return
+    setIsSubmitting(true)
+    try {
+      await createShearingRecordFn({
+        data: { farmId: selectedFarmId, record: data },
+      })
+      toast.success(
+        t('shearing:recorded', { defaultValue: 'Shearing recorded' }),
+      )
+      await router.invalidate()
+      return true // Signal success to close dialog
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : 'Failed to add shearing record',
+      )
+      return false // Signal failure to keep dialog open
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleEditSubmit = async (data: UpdateShearingRecordInput) => {
+    if (!selectedRecord) return
+    setIsSubmitting(true)
+    try {
+      await updateShearingRecordFn({
+        data: { recordId: selectedRecord.id, data },
+      })
+      toast.success(
+        t('common:updated', { defaultValue: 'Shearing record updated' }),
+      )
+      await router.invalidate()
+      return true // Signal success to close dialog
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : 'Failed to update shearing record',
+      )
+      return false // Signal failure to keep dialog open
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleDeleteConfirm = async () => {
+    if (!selectedRecord) return
+    setIsSubmitting(true)
+    try {
+      await deleteShearingRecordFn({ data: { recordId: selectedRecord.id } })
+      toast.success(
+        t('common:deleted', { defaultValue: 'Shearing record deleted' }),
+      )
+      await router.invalidate()
+      return true // Signal success to close dialog
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : 'Failed to delete shearing record',
+      )
+      return false // Signal failure to keep dialog open
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return {
+    selectedRecord,
+    setSelectedRecord,
+    isSubmitting,
+    updateSearch,
+    handleAddSubmit,
+    handleEditSubmit,
+    handleDeleteConfirm,
+  }
+}
@@ -0,0 +1,29 @@
+import type { ShearingSearchParams } from './types'
+
+export function validateShearingSearch(
+  search: Record<string, unknown>,
+): ShearingSearchParams {
+  const validSortBy = [
+    'date',
+    'fleeceCount',
+    'greasyWeightKg',
+    'micronGrade',
+    'createdAt',
+  ] as const
+
+  return {
+    page: Number(search.page) || 1,
+    pageSize: Number(search.pageSize) || 10,
+    sortBy:
+      typeof search.sortBy === 'string' &&
+      (validSortBy as ReadonlyArray<string>).includes(search.sortBy)
+        ? search.sortBy
+        : 'date',
+    sortOrder:
+      typeof search.sortOrder === 'string' &&
+      (search.sortOrder === 'asc' || search.sortOrder === 'desc')
+        ? search.sortOrder
+        : 'desc',
+    search: typeof search.search === 'string' ? search.search : '',
+  }
+}
@@ -31,6 +31,7 @@ export async function insertSupplier(
       location: input.location || null,
       products: input.products,
       supplierType: input.supplierType || null,
+      leadTimeDays: input.leadTimeDays ?? null,
     })
     .returning('id')
     .executeTakeFirstOrThrow()
@@ -54,6 +55,7 @@ export async function getAllSuppliers(
       'location',
       'products',
       'supplierType',
+      'leadTimeDays',
       'createdAt',
       'updatedAt',
     ])
@@ -79,6 +81,7 @@ export async function getSupplierById(
       'location',
       'products',
       'supplierType',
+      'leadTimeDays',
       'createdAt',
       'updatedAt',
     ])
@@ -187,6 +190,7 @@ export async function getSuppliersPaginated(
       'suppliers.location',
       'suppliers.products',
       'suppliers.supplierType',
+      'suppliers.leadTimeDays',
       'suppliers.createdAt',
       sql<number>`count(expenses.id)`.as('expenseCount'),
       sql<string>`coalesce(sum(expenses.amount), 0)`.as('totalSpent'),
@@ -199,6 +203,7 @@ export async function getSuppliersPaginated(
       'suppliers.location',
       'suppliers.products',
       'suppliers.supplierType',
+      'suppliers.leadTimeDays',
       'suppliers.createdAt',
     ])
     .limit(pageSize)
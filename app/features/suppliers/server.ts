@@ -32,6 +32,7 @@ const createSupplierSchema = z.object({
     ])
     .nullable()
     .optional(),
+  leadTimeDays: z.number().int().min(0).max(90).nullable().optional(),
 })
 
 const updateSupplierSchema = z.object({
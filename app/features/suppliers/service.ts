@@ -65,6 +65,15 @@ export function validateSupplierData(data: CreateSupplierInput): string | null {
     return `Invalid supplier type. Must be one of: ${VALID_SUPPLIER_TYPES.join(', ')}`
   }
 
+  if (
+    data.leadTimeDays != null &&
+    (!Number.isInteger(data.leadTimeDays) ||
+      data.leadTimeDays < 0 ||
+      data.leadTimeDays > 90)
+  ) {
+    return 'Lead time must be a whole number of days between 0 and 90'
+  }
+
   return null
 }
 
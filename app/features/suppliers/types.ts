@@ -20,6 +20,8 @@ export interface SupplierRecord {
   products: Array<string>
   /** Specific classification (e.g., hatchery, feed mill) */
   supplierType: string | null
+  /** Days from placing an order to delivery, used for reorder planning */
+  leadTimeDays: number | null
   /** Timestamp when the supplier was registered */
   createdAt: Date
   /** Aggregate total amount spent with this supplier in system currency */
@@ -54,6 +56,8 @@ export interface CreateSupplierInput {
     | 'bee_supplier'
     | 'other'
     | null
+  /** Days from placing an order to delivery */
+  leadTimeDays?: number | null
 }
 
 /**
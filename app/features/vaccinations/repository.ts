@@ -4,6 +4,7 @@
  */
 
 import type { Kysely } from 'kysely'
+import type { WithdrawalTreatment } from './types'
 import type { Database } from '~/lib/db/types'
 
 /**
@@ -11,6 +12,7 @@ import type { Database } from '~/lib/db/types'
  */
 export interface VaccinationInsert {
   batchId: string
+  animalId?: string | null
   vaccineName: string
   dateAdministered: Date
   dosage: string
@@ -34,6 +36,7 @@ export interface VaccinationUpdate {
  */
 export interface TreatmentInsert {
   batchId: string
+  animalId?: string | null
   medicationName: string
   reason: string
   date: Date
@@ -735,6 +738,33 @@ export async function getTreatmentsByBatch(
     .execute()
 }
 
+/**
+ * Get treatments with a withdrawal period for the given batches
+ *
+ * @param db - Kysely database instance
+ * @param batchIds - IDs of the batches
+ * @returns Treatments with withdrawalDays > 0, newest first
+ */
+export async function getWithdrawalTreatmentsByBatches(
+  db: Kysely<Database>,
+  batchIds: Array<string>,
+): Promise<Array<WithdrawalTreatment>> {
+  if (batchIds.length === 0) return []
+
+  return await db
+    .selectFrom('treatments')
+    .select([
+      'treatments.batchId',
+      'treatments.medicationName',
+      'treatments.date',
+      'treatments.withdrawalDays',
+    ])
+    .where('treatments.batchId', 'in', batchIds)
+    .where('treatments.withdrawalDays', '>', 0)
+    .orderBy('treatments.date', 'desc')
+    .execute()
+}
+
 /**
  * Get treatments in withdrawal period for active batches
  *
@@ -1,6 +1,7 @@
 import { createServerFn } from '@tanstack/react-start'
 import { z } from 'zod'
 import { mapSortColumnToDbColumn } from './service'
+import type { ActiveWithdrawal } from './types'
 import type { PaginatedResult } from '~/lib/types'
 import type {
   TreatmentInsert,
@@ -55,6 +56,8 @@ export interface CreateVaccinationInput {
   nextDueDate?: Date | null
   /** Optional administration notes */
   notes?: string | null
+  /** Tagged animal vaccinated, when not the whole batch */
+  animalId?: string | null
 }
 
 /**
@@ -75,6 +78,8 @@ export interface CreateTreatmentInput {
   withdrawalDays: number
   /** Optional treatment details */
   notes?: string | null
+  /** Tagged animal treated, when not the whole batch */
+  animalId?: string | null
 }
 
 /**
@@ -162,9 +167,15 @@ export async function createVaccination(
       })
     }
 
+    if (input.animalId) {
+      const { assertAnimalInBatch } = await import('~/features/animals/server')
+      await assertAnimalInBatch(db, input.animalId, input.batchId)
+    }
+
     // Insert vaccination
     const insertData: VaccinationInsert = {
       batchId: input.batchId,
+      animalId: input.animalId ?? null,
       vaccineName: input.vaccineName,
       dateAdministered: input.dateAdministered,
       dosage: input.dosage,
@@ -196,6 +207,7 @@ export const createVaccinationFn = createServerFn({ method: 'POST' })
         dosage: z.string().min(1),
         nextDueDate: z.coerce.date().nullish(),
         notes: z.string().nullish(),
+        animalId: z.string().uuid().nullish(),
       }),
     }),
   )
@@ -245,9 +257,15 @@ export async function createTreatment(
       })
     }
 
+    if (input.animalId) {
+      const { assertAnimalInBatch } = await import('~/features/animals/server')
+      await assertAnimalInBatch(db, input.animalId, input.batchId)
+    }
+
     // Insert treatment
     const insertData: TreatmentInsert = {
       batchId: input.batchId,
+      animalId: input.animalId ?? null,
       medicationName: input.medicationName,
       reason: input.reason,
       date: input.date,
@@ -281,6 +299,7 @@ export const createTreatmentFn = createServerFn({ method: 'POST' })
         dosage: z.string().min(1),
         withdrawalDays: z.number().int().nonnegative(),
         notes: z.string().nullish(),
+        animalId: z.string().uuid().nullish(),
       }),
     }),
   )
@@ -893,3 +912,64 @@ export const getRecentMedicationUsageFn = createServerFn({ method: 'GET' })
       }),
     )
   })
+
+/**
+ * Open treatment withdrawal windows for a set of batches.
+ * Callers are responsible for checking access to the batches.
+ *
+ * @param batchIds - IDs of the batches
+ * @param asOf - Date to evaluate the windows at (defaults to now)
+ * @returns Map of batch ID to its open window; clear batches are omitted
+ */
+export async function getBatchWithdrawals(
+  batchIds: Array<string>,
+  asOf: Date = new Date(),
+): Promise<Map<string, ActiveWithdrawal>> {
+  const { getDb } = await import('~/lib/db')
+  const db = await getDb()
+  const { getWithdrawalTreatmentsByBatches } = await import('./repository')
+  const { getActiveWithdrawal } = await import('./service')
+
+  const treatments = await getWithdrawalTreatmentsByBatches(db, batchIds)
+  const withdrawals = new Map<string, ActiveWithdrawal>()
+  for (const batchId of new Set(batchIds)) {
+    const withdrawal = getActiveWithdrawal(
+      treatments.filter((t) => t.batchId === batchId),
+      asOf,
+    )
+    if (withdrawal) withdrawals.set(batchId, withdrawal)
+  }
+  return withdrawals
+}
+
+/**
+ * Block selling or listing produce from a batch still inside a treatment
+ * withdrawal period, unless the user gives a reason to override it.
+ *
+ * @param batchId - Batch being sold or listed
+ * @param asOf - Date of the sale or listing
+ * @param overrideReason - User's reason for selling anyway
+ * @returns The overridden window, for the audit log, or null if the batch is clear
+ * @throws {AppError} WITHDRAWAL_PERIOD_ACTIVE if the window is open and no reason is given
+ */
+export async function assertWithdrawalCleared(
+  batchId: string,
+  asOf: Date,
+  overrideReason?: string | null,
+): Promise<ActiveWithdrawal | null> {
+  const withdrawal = (await getBatchWithdrawals([batchId], asOf)).get(batchId)
+  if (!withdrawal) return null
+
+  if (!overrideReason?.trim()) {
+    throw new AppError('WITHDRAWAL_PERIOD_ACTIVE', {
+      message: `Batch is in a treatment withdrawal period until ${withdrawal.clearsOn.toISOString().slice(0, 10)}`,
+      metadata: {
+        batchId,
+        clearsOn: withdrawal.clearsOn.toISOString(),
+        medications: withdrawal.medications,
+      },
+    })
+  }
+
+  return withdrawal
+}
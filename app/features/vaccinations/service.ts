@@ -9,6 +9,7 @@ import type {
   UpdateTreatmentInput,
   UpdateVaccinationInput,
 } from './server'
+import type { ActiveWithdrawal, WithdrawalTreatment } from './types'
 
 /**
  * Calculate next vaccination date based on last date and interval
@@ -568,3 +569,74 @@ export function calculateWithdrawalDaysRemaining(
 
   return Math.max(0, diffDays)
 }
+
+/**
+ * Calculate the last day of a treatment's withdrawal period
+ *
+ * @param treatmentDate - Date treatment was administered
+ * @param withdrawalDays - Withdrawal period in days
+ * @returns Last day still inside the withdrawal period
+ *
+ * @example
+ * ```ts
+ * calculateWithdrawalEndDate(new Date('2024-01-01'), 7)
+ * // Returns: Date('2024-01-08')
+ * ```
+ */
+export function calculateWithdrawalEndDate(
+  treatmentDate: Date,
+  withdrawalDays: number,
+): Date {
+  const endDate = new Date(treatmentDate)
+  endDate.setDate(endDate.getDate() + Math.max(0, withdrawalDays))
+  return endDate
+}
+
+/**
+ * Find the withdrawal window still open on a batch at a given date.
+ * Treatments recorded after `asOf` are ignored, so back-dated sales are
+ * judged against the treatments given before them.
+ *
+ * @param treatments - The batch's treatments
+ * @param asOf - Date of the sale or listing
+ * @returns First day the batch is clear and the medications holding it, or null if clear
+ *
+ * @example
+ * ```ts
+ * getActiveWithdrawal(
+ *   [{ batchId: 'b1', medicationName: 'Oxytetracycline', date: new Date('2024-01-01'), withdrawalDays: 7 }],
+ *   new Date('2024-01-05'),
+ * )
+ * // Returns: { clearsOn: Date('2024-01-09'), medications: ['Oxytetracycline'] }
+ * ```
+ */
+export function getActiveWithdrawal(
+  treatments: ReadonlyArray<WithdrawalTreatment>,
+  asOf: Date,
+): ActiveWithdrawal | null {
+  let latestEnd: Date | null = null
+  const medications = new Set<string>()
+
+  for (const treatment of treatments) {
+    const treatmentDate = new Date(treatment.date)
+    if (treatment.withdrawalDays <= 0 || isNaN(treatmentDate.getTime())) {
+      continue
+    }
+    if (treatmentDate > asOf) continue
+
+    const endDate = calculateWithdrawalEndDate(
+      treatmentDate,
+      treatment.withdrawalDays,
+    )
+    if (asOf > endDate) continue
+
+    medications.add(treatment.medicationName)
+    if (!latestEnd || endDate > latestEnd) latestEnd = endDate
+  }
+
+  if (!latestEnd) return null
+
+  const clearsOn = new Date(latestEnd)
+  clearsOn.setDate(clearsOn.getDate() + 1)
+  return { clearsOn, medications: [...medications] }
+}
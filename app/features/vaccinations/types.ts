@@ -30,3 +30,23 @@ export interface PaginatedQuery {
   search?: string
   type?: 'all' | 'vaccination' | 'treatment'
 }
+
+/**
+ * Treatment with a withdrawal period, as needed to compute clearance
+ */
+export interface WithdrawalTreatment {
+  batchId: string
+  medicationName: string
+  date: Date
+  withdrawalDays: number
+}
+
+/**
+ * Treatment withdrawal window still open on a batch
+ */
+export interface ActiveWithdrawal {
+  /** First day the batch's meat, milk or eggs may be sold again */
+  clearsOn: Date
+  /** Medications whose withdrawal has not yet elapsed */
+  medications: Array<string>
+}
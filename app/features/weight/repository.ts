@@ -13,6 +13,7 @@ import type { BasePaginatedQuery, PaginatedResult } from '~/lib/types'
  */
 export interface WeightSampleInsert {
   batchId: string
+  animalId?: string | null
   date: Date
   sampleSize: number
   averageWeightKg: string
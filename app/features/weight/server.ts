@@ -46,6 +46,8 @@ export interface CreateWeightSampleInput {
   maxWeightKg?: number | null
   /** Optional descriptive notes */
   notes?: string | null
+  /** Tagged animal the weight belongs to, for a single-head sample */
+  animalId?: string | null
 }
 
 /**
@@ -88,8 +90,19 @@ export async function createWeightSample(
     })
   }
 
+  if (input.animalId) {
+    if (input.sampleSize !== 1) {
+      throw new AppError('VALIDATION_ERROR', {
+        message: 'A weight for a single animal must have a sample size of 1',
+      })
+    }
+    const { assertAnimalInBatch } = await import('~/features/animals/server')
+    await assertAnimalInBatch(db, input.animalId, input.batchId)
+  }
+
   const recordId = await insertWeightSample(db, {
     batchId: input.batchId,
+    animalId: input.animalId ?? null,
     date: input.date,
     sampleSize: input.sampleSize,
     averageWeightKg: input.averageWeightKg.toString(),
@@ -0,0 +1,74 @@
+import { sql } from 'kysely'
+import type { Kysely } from 'kysely'
+
+/**
+ * Invoice payment ledger
+ *
+ * Payments received against an invoice. The invoice status and paidDate are
+ * derived from the sum of these rows, so invoices already marked paid get
+ * one payment for their full total.
+ */
+
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .createTable('invoice_payments')
+    .addColumn('id', 'uuid', (col) =>
+      col.primaryKey().defaultTo(sql`uuid_generate_v4()`),
+    )
+    .addColumn('invoiceId', 'uuid', (col) =>
+      col.notNull().references('invoices.id').onDelete('cascade'),
+    )
+    .addColumn('amount', sql`decimal(19,2)`, (col) => col.notNull())
+    .addColumn('date', 'date', (col) => col.notNull())
+    .addColumn('method', 'varchar(20)', (col) => col.notNull())
+    .addColumn('reference', 'varchar(100)') // bank/mobile money transaction ID, cheque number
+    .addColumn('attachmentUrl', 'text') // Proof of payment (receipt or transfer screenshot)
+    .addColumn('notes', 'text')
+    .addColumn('recordedBy', 'uuid', (col) =>
+      col.references('users.id').onDelete('set null'),
+    )
+    .addColumn('createdAt', 'timestamptz', (col) => col.defaultTo(sql`now()`))
+    .execute()
+
+  await sql`ALTER TABLE invoice_payments ADD CONSTRAINT invoice_payments_amount_check CHECK (amount > 0)`.execute(
+    db,
+  )
+  await sql`ALTER TABLE invoice_payments ADD CONSTRAINT invoice_payments_method_check CHECK (method IN ('cash', 'transfer', 'credit', 'mobile_money', 'check', 'card'))`.execute(
+    db,
+  )
+
+  await db.schema
+    .createIndex('idx_invoice_payments_invoice_id')
+    .on('invoice_payments')
+    .column('invoiceId')
+    .execute()
+
+  // Backfill: a paid invoice was settled in full on its paidDate, by the
+  // method recorded on a linked sale where there is one. Partially paid
+  // invoices never recorded how much was received, so they keep their
+  // status until the amount is entered as a payment.
+  await sql`
+    INSERT INTO invoice_payments ("invoiceId", amount, date, method, notes)
+    SELECT
+      i.id,
+      i."totalAmount",
+      COALESCE(i."paidDate", i.date),
+      COALESCE(
+        (
+          SELECT s."paymentMethod"
+          FROM sales s
+          WHERE s."invoiceId" = i.id AND s."paymentMethod" IS NOT NULL
+          ORDER BY s."createdAt"
+          LIMIT 1
+        ),
+        'cash'
+      ),
+      'Recorded from the invoice status before payments were tracked'
+    FROM invoices i
+    WHERE i.status = 'paid' AND i."totalAmount" > 0
+  `.execute(db)
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable('invoice_payments').ifExists().execute()
+}
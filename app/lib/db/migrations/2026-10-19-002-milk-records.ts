@@ -0,0 +1,52 @@
+import { sql } from 'kysely'
+import type { Kysely } from 'kysely'
+
+/**
+ * Milk production records
+ */
+
+export async function up(db: Kysely<any>): Promise<void> {
+  // Daily milk yield for dairy cattle, goat and sheep batches. Rejected milk
+  // (e.g. during a treatment withdrawal period) is recorded but never sellable.
+  await db.schema
+    .createTable('milk_records')
+    .addColumn('id', 'uuid', (col) =>
+      col.primaryKey().defaultTo(sql`uuid_generate_v4()`),
+    )
+    .addColumn('batchId', 'uuid', (col) =>
+      col.notNull().references('batches.id').onDelete('cascade'),
+    )
+    .addColumn('date', 'date', (col) => col.notNull())
+    .addColumn('morningLiters', sql`decimal(10,2)`, (col) =>
+      col.notNull().defaultTo(0),
+    )
+    .addColumn('eveningLiters', sql`decimal(10,2)`, (col) =>
+      col.notNull().defaultTo(0),
+    )
+    .addColumn('rejectedLiters', sql`decimal(10,2)`, (col) =>
+      col.notNull().defaultTo(0),
+    )
+    .addColumn('rejectionReason', 'varchar(20)') // withdrawal, mastitis, spoiled, other
+    .addColumn('butterfatPercent', sql`decimal(4,2)`)
+    .addColumn('animalsMilked', 'integer') // Head milked, for yield per animal
+    .addColumn('notes', 'text')
+    .addColumn('createdAt', 'timestamptz', (col) => col.defaultTo(sql`now()`))
+    .execute()
+
+  await sql`ALTER TABLE milk_records ADD CONSTRAINT valid_milk_quantities CHECK ("morningLiters" >= 0 AND "eveningLiters" >= 0 AND "rejectedLiters" >= 0 AND "rejectedLiters" <= "morningLiters" + "eveningLiters")`.execute(
+    db,
+  )
+  await sql`ALTER TABLE milk_records ADD CONSTRAINT milk_records_rejection_reason_check CHECK ("rejectionReason" IS NULL OR "rejectionReason" IN ('withdrawal', 'mastitis', 'spoiled', 'other'))`.execute(
+    db,
+  )
+
+  await db.schema
+    .createIndex('idx_milk_records_batch_date')
+    .on('milk_records')
+    .columns(['batchId', 'date'])
+    .execute()
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable('milk_records').ifExists().execute()
+}
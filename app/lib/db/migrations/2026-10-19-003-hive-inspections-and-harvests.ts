@@ -0,0 +1,79 @@
+import { sql } from 'kysely'
+import type { Kysely } from 'kysely'
+
+/**
+ * Apiary records: hive inspections and honey/wax harvests
+ */
+
+export async function up(db: Kysely<any>): Promise<void> {
+  // Apiary: colony inspections and honey/wax harvests, one row per hive
+  // structure (structures.type = 'hive') so yield can be tracked per colony.
+  await db.schema
+    .createTable('hive_inspections')
+    .addColumn('id', 'uuid', (col) =>
+      col.primaryKey().defaultTo(sql`uuid_generate_v4()`),
+    )
+    .addColumn('structureId', 'uuid', (col) =>
+      col.notNull().references('structures.id').onDelete('cascade'),
+    )
+    .addColumn('date', 'date', (col) => col.notNull())
+    .addColumn('queenSeen', 'boolean', (col) => col.notNull().defaultTo(false))
+    .addColumn('broodPattern', 'varchar(10)', (col) => col.notNull()) // solid, spotty, none
+    .addColumn('swarmCells', 'integer', (col) => col.notNull().defaultTo(0))
+    .addColumn('varroaCount', 'integer') // Mites per ~300-bee alcohol wash or sugar roll
+    .addColumn('framesOfBees', 'integer') // Colony strength
+    .addColumn('temperament', 'varchar(10)') // calm, nervous, aggressive
+    .addColumn('notes', 'text')
+    .addColumn('createdAt', 'timestamptz', (col) => col.defaultTo(sql`now()`))
+    .execute()
+
+  await sql`ALTER TABLE hive_inspections ADD CONSTRAINT hive_inspections_brood_pattern_check CHECK ("broodPattern" IN ('solid', 'spotty', 'none'))`.execute(
+    db,
+  )
+  await sql`ALTER TABLE hive_inspections ADD CONSTRAINT hive_inspections_temperament_check CHECK (temperament IS NULL OR temperament IN ('calm', 'nervous', 'aggressive'))`.execute(
+    db,
+  )
+  await sql`ALTER TABLE hive_inspections ADD CONSTRAINT valid_hive_inspection_counts CHECK ("swarmCells" >= 0 AND ("varroaCount" IS NULL OR "varroaCount" >= 0) AND ("framesOfBees" IS NULL OR "framesOfBees" >= 0))`.execute(
+    db,
+  )
+
+  await db.schema
+    .createTable('hive_harvests')
+    .addColumn('id', 'uuid', (col) =>
+      col.primaryKey().defaultTo(sql`uuid_generate_v4()`),
+    )
+    .addColumn('structureId', 'uuid', (col) =>
+      col.notNull().references('structures.id').onDelete('cascade'),
+    )
+    .addColumn('date', 'date', (col) => col.notNull())
+    .addColumn('product', 'varchar(10)', (col) => col.notNull()) // honey, wax
+    .addColumn('quantityKg', sql`decimal(10,2)`, (col) => col.notNull())
+    .addColumn('framesHarvested', 'integer')
+    .addColumn('notes', 'text')
+    .addColumn('createdAt', 'timestamptz', (col) => col.defaultTo(sql`now()`))
+    .execute()
+
+  await sql`ALTER TABLE hive_harvests ADD CONSTRAINT hive_harvests_product_check CHECK (product IN ('honey', 'wax'))`.execute(
+    db,
+  )
+  await sql`ALTER TABLE hive_harvests ADD CONSTRAINT valid_hive_harvest_quantity CHECK ("quantityKg" > 0)`.execute(
+    db,
+  )
+
+  await db.schema
+    .createIndex('idx_hive_inspections_structure_date')
+    .on('hive_inspections')
+    .columns(['structureId', 'date'])
+    .execute()
+
+  await db.schema
+    .createIndex('idx_hive_harvests_structure_date')
+    .on('hive_harvests')
+    .columns(['structureId', 'date'])
+    .execute()
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable('hive_harvests').ifExists().execute()
+  await db.schema.dropTable('hive_inspections').ifExists().execute()
+}
@@ -0,0 +1,47 @@
+import { sql } from 'kysely'
+import type { Kysely } from 'kysely'
+
+/**
+ * Shearing records: wool clip per shearing of a batch
+ */
+
+export async function up(db: Kysely<any>): Promise<void> {
+  // Wool clip per shearing of a sheep (or goat) batch. Greasy weight is the
+  // fleece as shorn; yieldPercent converts it to clean (scoured) wool.
+  await db.schema
+    .createTable('shearing_records')
+    .addColumn('id', 'uuid', (col) =>
+      col.primaryKey().defaultTo(sql`uuid_generate_v4()`),
+    )
+    .addColumn('batchId', 'uuid', (col) =>
+      col.notNull().references('batches.id').onDelete('cascade'),
+    )
+    .addColumn('structureId', 'uuid', (col) =>
+      col.references('structures.id').onDelete('set null'),
+    ) // Shearing shed
+    .addColumn('date', 'date', (col) => col.notNull())
+    .addColumn('fleeceCount', 'integer', (col) => col.notNull())
+    .addColumn('greasyWeightKg', sql`decimal(10,2)`, (col) => col.notNull())
+    .addColumn('micronGrade', sql`decimal(4,1)`) // Mean fibre diameter (µm)
+    .addColumn('yieldPercent', sql`decimal(5,2)`) // Clean wool as % of greasy
+    .addColumn('notes', 'text')
+    .addColumn('createdAt', 'timestamptz', (col) => col.defaultTo(sql`now()`))
+    .execute()
+
+  await sql`ALTER TABLE shearing_records ADD CONSTRAINT valid_shearing_clip CHECK ("fleeceCount" > 0 AND "greasyWeightKg" > 0)`.execute(
+    db,
+  )
+  await sql`ALTER TABLE shearing_records ADD CONSTRAINT valid_shearing_quality CHECK (("micronGrade" IS NULL OR "micronGrade" BETWEEN 10 AND 50) AND ("yieldPercent" IS NULL OR ("yieldPercent" > 0 AND "yieldPercent" <= 100)))`.execute(
+    db,
+  )
+
+  await db.schema
+    .createIndex('idx_shearing_records_batch_date')
+    .on('shearing_records')
+    .columns(['batchId', 'date'])
+    .execute()
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable('shearing_records').ifExists().execute()
+}
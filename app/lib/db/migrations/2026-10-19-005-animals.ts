@@ -0,0 +1,141 @@
+import { sql } from 'kysely'
+import type { Kysely } from 'kysely'
+
+/**
+ * Individual animal registry: tagged cattle, goats and sheep with parentage
+ */
+
+export async function up(db: Kysely<any>): Promise<void> {
+  // Individually tagged animals (cattle, goats, sheep). An animal may belong
+  // to a batch; weights, health records and mortality can point at it.
+  await db.schema
+    .createTable('animals')
+    .addColumn('id', 'uuid', (col) =>
+      col.primaryKey().defaultTo(sql`uuid_generate_v4()`),
+    )
+    .addColumn('farmId', 'uuid', (col) =>
+      col.notNull().references('farms.id').onDelete('cascade'),
+    )
+    .addColumn('batchId', 'uuid', (col) =>
+      col.references('batches.id').onDelete('set null'),
+    )
+    .addColumn('livestockType', 'varchar(20)', (col) => col.notNull())
+    .addColumn('tagNumber', 'varchar(50)', (col) => col.notNull())
+    .addColumn('rfid', 'varchar(32)')
+    .addColumn('name', 'varchar(100)')
+    .addColumn('sex', 'varchar(10)', (col) => col.notNull())
+    .addColumn('dateOfBirth', 'date')
+    .addColumn('damId', 'uuid', (col) =>
+      col.references('animals.id').onDelete('set null'),
+    )
+    .addColumn('sireId', 'uuid', (col) =>
+      col.references('animals.id').onDelete('set null'),
+    )
+    .addColumn('status', 'varchar(10)', (col) =>
+      col.notNull().defaultTo('active'),
+    )
+    .addColumn('structureId', 'uuid', (col) =>
+      col.references('structures.id').onDelete('set null'),
+    )
+    .addColumn('notes', 'text')
+    .addColumn('createdAt', 'timestamptz', (col) => col.defaultTo(sql`now()`))
+    .addColumn('updatedAt', 'timestamptz', (col) => col.defaultTo(sql`now()`))
+    .addColumn('deletedAt', 'timestamptz')
+    .execute()
+
+  await sql`ALTER TABLE animals ADD CONSTRAINT animals_livestock_type_check CHECK ("livestockType" IN ('cattle', 'goats', 'sheep'))`.execute(
+    db,
+  )
+  await sql`ALTER TABLE animals ADD CONSTRAINT animals_sex_check CHECK (sex IN ('male', 'female'))`.execute(
+    db,
+  )
+  await sql`ALTER TABLE animals ADD CONSTRAINT animals_status_check CHECK (status IN ('active', 'sold', 'dead', 'culled'))`.execute(
+    db,
+  )
+  await sql`ALTER TABLE animals ADD CONSTRAINT animals_parents_check CHECK ("damId" <> id AND "sireId" <> id)`.execute(
+    db,
+  )
+
+  // Weights, health records and mortality can point at an individual animal
+  for (const table of [
+    'mortality_records',
+    'weight_samples',
+    'vaccinations',
+    'treatments',
+  ]) {
+    await db.schema
+      .alterTable(table)
+      .addColumn('animalId', 'uuid', (col) =>
+        col.references('animals.id').onDelete('set null'),
+      )
+      .execute()
+  }
+
+  // A tag or RFID number identifies one live record per farm
+  await db.schema
+    .createIndex('animals_farm_tag_unique')
+    .on('animals')
+    .columns(['farmId', 'tagNumber'])
+    .unique()
+    .where(sql.ref('deletedAt'), 'is', null)
+    .execute()
+
+  await db.schema
+    .createIndex('animals_farm_rfid_unique')
+    .on('animals')
+    .columns(['farmId', 'rfid'])
+    .unique()
+    .where('rfid', 'is not', null)
+    .where(sql.ref('deletedAt'), 'is', null)
+    .execute()
+
+  await db.schema
+    .createIndex('idx_animals_batch')
+    .on('animals')
+    .column('batchId')
+    .execute()
+
+  await db.schema
+    .createIndex('idx_mortality_records_animal')
+    .on('mortality_records')
+    .column('animalId')
+    .where('animalId', 'is not', null)
+    .execute()
+
+  await db.schema
+    .createIndex('idx_weight_samples_animal')
+    .on('weight_samples')
+    .column('animalId')
+    .where('animalId', 'is not', null)
+    .execute()
+
+  await db.schema
+    .createIndex('idx_vaccinations_animal')
+    .on('vaccinations')
+    .column('animalId')
+    .where('animalId', 'is not', null)
+    .execute()
+
+  await db.schema
+    .createIndex('idx_treatments_animal')
+    .on('treatments')
+    .column('animalId')
+    .where('animalId', 'is not', null)
+    .execute()
+
+  await sql`CREATE TRIGGER update_animals_updated_at BEFORE UPDATE ON animals FOR EACH ROW EXECUTE FUNCTION update_updated_at_column()`.execute(
+    db,
+  )
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  for (const table of [
+    'treatments',
+    'vaccinations',
+    'weight_samples',
+    'mortality_records',
+  ]) {
+    await db.schema.alterTable(table).dropColumn('animalId').execute()
+  }
+  await db.schema.dropTable('animals').ifExists().execute()
+}
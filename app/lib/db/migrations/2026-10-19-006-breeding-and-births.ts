@@ -0,0 +1,123 @@
+import { sql } from 'kysely'
+import type { Kysely } from 'kysely'
+
+/**
+ * Breeding events and births for reproductive KPIs
+ */
+
+export async function up(db: Kysely<any>): Promise<void> {
+  // Mating of one tagged dam or a group of females in a batch. The due date
+  // is computed from the species' gestation length when the event is saved.
+  await db.schema
+    .createTable('breeding_events')
+    .addColumn('id', 'uuid', (col) =>
+      col.primaryKey().defaultTo(sql`uuid_generate_v4()`),
+    )
+    .addColumn('farmId', 'uuid', (col) =>
+      col.notNull().references('farms.id').onDelete('cascade'),
+    )
+    .addColumn('batchId', 'uuid', (col) =>
+      col.notNull().references('batches.id').onDelete('cascade'),
+    ) // Batch the females are in
+    .addColumn('damId', 'uuid', (col) =>
+      col.references('animals.id').onDelete('set null'),
+    )
+    .addColumn('sireId', 'uuid', (col) =>
+      col.references('animals.id').onDelete('set null'),
+    )
+    .addColumn('sireDescription', 'varchar(100)') // Unregistered buck/bull/ram or AI straw
+    .addColumn('livestockType', 'varchar(20)', (col) => col.notNull())
+    .addColumn('method', 'varchar(10)', (col) =>
+      col.notNull().defaultTo('natural'),
+    )
+    .addColumn('femaleCount', 'integer', (col) => col.notNull().defaultTo(1))
+    .addColumn('matingDate', 'date', (col) => col.notNull())
+    .addColumn('expectedDueDate', 'date', (col) => col.notNull())
+    .addColumn('status', 'varchar(10)', (col) =>
+      col.notNull().defaultTo('bred'),
+    )
+    .addColumn('diagnosisDate', 'date') // Pregnancy check
+    .addColumn('notes', 'text')
+    .addColumn('createdAt', 'timestamptz', (col) => col.defaultTo(sql`now()`))
+    .addColumn('updatedAt', 'timestamptz', (col) => col.defaultTo(sql`now()`))
+    .execute()
+
+  await sql`ALTER TABLE breeding_events ADD CONSTRAINT breeding_events_livestock_type_check CHECK ("livestockType" IN ('cattle', 'goats', 'sheep'))`.execute(
+    db,
+  )
+  await sql`ALTER TABLE breeding_events ADD CONSTRAINT breeding_events_method_check CHECK (method IN ('natural', 'ai'))`.execute(
+    db,
+  )
+  await sql`ALTER TABLE breeding_events ADD CONSTRAINT breeding_events_status_check CHECK (status IN ('bred', 'pregnant', 'open', 'delivered', 'aborted'))`.execute(
+    db,
+  )
+  await sql`ALTER TABLE breeding_events ADD CONSTRAINT valid_breeding_dates CHECK ("femaleCount" > 0 AND "expectedDueDate" > "matingDate")`.execute(
+    db,
+  )
+
+  // Kidding, lambing or calving from a breeding event. Live-born offspring
+  // are added to offspringBatchId, which is either the dams' batch or a batch
+  // created for the births (createdBatch).
+  await db.schema
+    .createTable('birth_records')
+    .addColumn('id', 'uuid', (col) =>
+      col.primaryKey().defaultTo(sql`uuid_generate_v4()`),
+    )
+    .addColumn('breedingEventId', 'uuid', (col) =>
+      col.notNull().references('breeding_events.id').onDelete('cascade'),
+    )
+    .addColumn('offspringBatchId', 'uuid', (col) =>
+      col.references('batches.id').onDelete('set null'),
+    )
+    .addColumn('createdBatch', 'boolean', (col) =>
+      col.notNull().defaultTo(false),
+    )
+    .addColumn('birthDate', 'date', (col) => col.notNull())
+    .addColumn('damCount', 'integer', (col) => col.notNull().defaultTo(1)) // Females that gave birth
+    .addColumn('liveBorn', 'integer', (col) => col.notNull())
+    .addColumn('stillborn', 'integer', (col) => col.notNull().defaultTo(0))
+    .addColumn('weanedCount', 'integer')
+    .addColumn('weaningDate', 'date')
+    .addColumn('notes', 'text')
+    .addColumn('createdAt', 'timestamptz', (col) => col.defaultTo(sql`now()`))
+    .addColumn('updatedAt', 'timestamptz', (col) => col.defaultTo(sql`now()`))
+    .execute()
+
+  await sql`ALTER TABLE birth_records ADD CONSTRAINT valid_birth_counts CHECK ("damCount" > 0 AND "liveBorn" >= 0 AND stillborn >= 0 AND "liveBorn" + stillborn > 0)`.execute(
+    db,
+  )
+  await sql`ALTER TABLE birth_records ADD CONSTRAINT valid_birth_weaning CHECK (("weanedCount" IS NULL) = ("weaningDate" IS NULL) AND ("weanedCount" IS NULL OR "weanedCount" BETWEEN 0 AND "liveBorn"))`.execute(
+    db,
+  )
+
+  await db.schema
+    .createIndex('idx_breeding_events_batch_due')
+    .on('breeding_events')
+    .columns(['batchId', 'expectedDueDate'])
+    .execute()
+
+  await db.schema
+    .createIndex('idx_breeding_events_dam')
+    .on('breeding_events')
+    .column('damId')
+    .where(sql.ref('damId'), 'is not', null)
+    .execute()
+
+  await db.schema
+    .createIndex('idx_birth_records_event')
+    .on('birth_records')
+    .column('breedingEventId')
+    .execute()
+
+  await sql`CREATE TRIGGER update_breeding_events_updated_at BEFORE UPDATE ON breeding_events FOR EACH ROW EXECUTE FUNCTION update_updated_at_column()`.execute(
+    db,
+  )
+  await sql`CREATE TRIGGER update_birth_records_updated_at BEFORE UPDATE ON birth_records FOR EACH ROW EXECUTE FUNCTION update_updated_at_column()`.execute(
+    db,
+  )
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable('birth_records').ifExists().execute()
+  await db.schema.dropTable('breeding_events').ifExists().execute()
+}
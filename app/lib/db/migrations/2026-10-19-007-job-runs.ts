@@ -0,0 +1,49 @@
+import { sql } from 'kysely'
+import type { Kysely } from 'kysely'
+
+/**
+ * Scheduled job registry: run history for the admin jobs page
+ */
+
+export async function up(db: Kysely<any>): Promise<void> {
+  // Scheduled job run history (cron and manual triggers)
+  await db.schema
+    .createTable('job_runs')
+    .addColumn('id', 'uuid', (col) =>
+      col.primaryKey().defaultTo(sql`uuid_generate_v4()`),
+    )
+    .addColumn('jobName', 'varchar(100)', (col) => col.notNull())
+    .addColumn('trigger', 'varchar(10)', (col) => col.notNull())
+    .addColumn('cron', 'varchar(50)')
+    .addColumn('triggeredBy', 'uuid', (col) =>
+      col.references('users.id').onDelete('set null'),
+    )
+    .addColumn('status', 'varchar(10)', (col) =>
+      col.notNull().defaultTo('running'),
+    )
+    .addColumn('startedAt', 'timestamptz', (col) =>
+      col.defaultTo(sql`now()`).notNull(),
+    )
+    .addColumn('finishedAt', 'timestamptz')
+    .addColumn('durationMs', 'integer')
+    .addColumn('result', 'jsonb')
+    .addColumn('error', 'text')
+    .execute()
+
+  await sql`ALTER TABLE job_runs ADD CONSTRAINT job_runs_trigger_check CHECK ("trigger" IN ('cron', 'manual'))`.execute(
+    db,
+  )
+  await sql`ALTER TABLE job_runs ADD CONSTRAINT job_runs_status_check CHECK (status IN ('running', 'success', 'failed'))`.execute(
+    db,
+  )
+
+  await db.schema
+    .createIndex('job_runs_job_started_idx')
+    .on('job_runs')
+    .columns(['jobName', 'startedAt'])
+    .execute()
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable('job_runs').ifExists().execute()
+}
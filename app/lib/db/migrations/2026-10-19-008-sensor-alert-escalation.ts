@@ -0,0 +1,24 @@
+import type { Kysely } from 'kysely'
+
+/**
+ * Sensor alert escalation: how often an unacknowledged alert was re-sent
+ */
+
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable('sensor_alerts')
+    // Times an unacknowledged critical alert has been re-sent to a wider audience
+    .addColumn('escalationLevel', 'integer', (col) =>
+      col.notNull().defaultTo(0),
+    )
+    .addColumn('lastNotifiedAt', 'timestamptz')
+    .execute()
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable('sensor_alerts')
+    .dropColumn('lastNotifiedAt')
+    .dropColumn('escalationLevel')
+    .execute()
+}
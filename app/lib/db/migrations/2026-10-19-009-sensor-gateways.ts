@@ -0,0 +1,68 @@
+import { sql } from 'kysely'
+import type { Kysely } from 'kysely'
+
+/**
+ * Sensor gateways: one credential posting readings in bulk for many sensors,
+ * each sensor identified by its channel on the gateway
+ */
+
+export async function up(db: Kysely<any>): Promise<void> {
+  // Sensor gateways - one credential posting readings for many sensors
+  await db.schema
+    .createTable('sensor_gateways')
+    .addColumn('id', 'uuid', (col) =>
+      col.primaryKey().defaultTo(sql`gen_random_uuid()`),
+    )
+    .addColumn('farmId', 'uuid', (col) =>
+      col.references('farms.id').onDelete('cascade').notNull(),
+    )
+    .addColumn('name', 'varchar(100)', (col) => col.notNull())
+    .addColumn('apiKeyHash', 'varchar(255)', (col) => col.notNull())
+    .addColumn('isActive', 'boolean', (col) => col.notNull().defaultTo(true))
+    .addColumn('lastSeenAt', 'timestamptz')
+    .addColumn('requestCount', 'integer', (col) => col.defaultTo(0).notNull())
+    .addColumn('createdAt', 'timestamptz', (col) =>
+      col.notNull().defaultTo(sql`now()`),
+    )
+    .addColumn('deletedAt', 'timestamptz')
+    .execute()
+
+  await db.schema
+    .createIndex('idx_sensor_gateways_farm_id')
+    .on('sensor_gateways')
+    .column('farmId')
+    .execute()
+
+  await db.schema
+    .createIndex('idx_sensor_gateways_api_key_hash')
+    .on('sensor_gateways')
+    .column('apiKeyHash')
+    .execute()
+
+  // Gateway the sensor reports through, and its channel on that gateway
+  await db.schema
+    .alterTable('sensors')
+    .addColumn('gatewayId', 'uuid', (col) =>
+      col.references('sensor_gateways.id').onDelete('set null'),
+    )
+    .addColumn('channel', 'varchar(50)')
+    .execute()
+
+  // A channel identifies one live sensor per gateway
+  await db.schema
+    .createIndex('sensors_gateway_channel_unique')
+    .on('sensors')
+    .columns(['gatewayId', 'channel'])
+    .unique()
+    .where(sql.ref('deletedAt'), 'is', null)
+    .execute()
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable('sensors')
+    .dropColumn('channel')
+    .dropColumn('gatewayId')
+    .execute()
+  await db.schema.dropTable('sensor_gateways').ifExists().execute()
+}
@@ -0,0 +1,67 @@
+import { sql } from 'kysely'
+import type { Kysely } from 'kysely'
+
+/**
+ * Sensor data retention: per-farm retention policies and NDJSON archives of
+ * pruned raw readings
+ */
+
+export async function up(db: Kysely<any>): Promise<void> {
+  // Per-farm retention policy for sensor data
+  await db.schema
+    .createTable('sensor_retention_policies')
+    .addColumn('id', 'uuid', (col) =>
+      col.primaryKey().defaultTo(sql`gen_random_uuid()`),
+    )
+    .addColumn('farmId', 'uuid', (col) =>
+      col.references('farms.id').onDelete('cascade').notNull().unique(),
+    )
+    .addColumn('rawRetentionDays', 'integer', (col) =>
+      col.notNull().defaultTo(30),
+    )
+    .addColumn('hourlyRetentionDays', 'integer', (col) =>
+      col.notNull().defaultTo(365),
+    )
+    // NULL keeps daily aggregates forever
+    .addColumn('dailyRetentionDays', 'integer')
+    .addColumn('archiveRawReadings', 'boolean', (col) =>
+      col.notNull().defaultTo(true),
+    )
+    .addColumn('createdAt', 'timestamptz', (col) =>
+      col.notNull().defaultTo(sql`now()`),
+    )
+    .addColumn('updatedAt', 'timestamptz', (col) =>
+      col.notNull().defaultTo(sql`now()`),
+    )
+    .execute()
+
+  // Raw readings exported to storage before deletion
+  await db.schema
+    .createTable('sensor_reading_archives')
+    .addColumn('id', 'uuid', (col) =>
+      col.primaryKey().defaultTo(sql`gen_random_uuid()`),
+    )
+    .addColumn('sensorId', 'uuid', (col) =>
+      col.references('sensors.id').onDelete('cascade').notNull(),
+    )
+    .addColumn('periodStart', 'timestamptz', (col) => col.notNull())
+    .addColumn('periodEnd', 'timestamptz', (col) => col.notNull())
+    .addColumn('storageKey', 'varchar(500)', (col) => col.notNull())
+    .addColumn('readingCount', 'integer', (col) => col.notNull())
+    .addColumn('sizeBytes', 'integer', (col) => col.notNull())
+    .addColumn('createdAt', 'timestamptz', (col) =>
+      col.notNull().defaultTo(sql`now()`),
+    )
+    .execute()
+
+  await db.schema
+    .createIndex('idx_sensor_reading_archives_sensor_period')
+    .on('sensor_reading_archives')
+    .columns(['sensorId', 'periodStart'])
+    .execute()
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable('sensor_reading_archives').ifExists().execute()
+  await db.schema.dropTable('sensor_retention_policies').ifExists().execute()
+}
@@ -0,0 +1,18 @@
+import type { Kysely } from 'kysely'
+
+/**
+ * Derived sensors: heat index, THI and un-ionized ammonia computed from the
+ * readings of other sensors
+ */
+
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable('sensors')
+    // Input sensor IDs by sensor type, for sensors computed from others
+    .addColumn('derivedFrom', 'jsonb')
+    .execute()
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.alterTable('sensors').dropColumn('derivedFrom').execute()
+}
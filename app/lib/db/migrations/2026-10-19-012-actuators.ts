@@ -0,0 +1,151 @@
+import { sql } from 'kysely'
+import type { Kysely } from 'kysely'
+
+/**
+ * Actuators: sensor-driven rules, manual override, command queue and audit trail
+ */
+
+export async function up(db: Kysely<any>): Promise<void> {
+  // Actuators - relay-controlled devices (fans, foggers, aerators) that poll
+  // for commands with their own API key
+  await db.schema
+    .createTable('actuators')
+    .addColumn('id', 'uuid', (col) =>
+      col.primaryKey().defaultTo(sql`gen_random_uuid()`),
+    )
+    .addColumn('farmId', 'uuid', (col) =>
+      col.references('farms.id').onDelete('cascade').notNull(),
+    )
+    .addColumn('structureId', 'uuid', (col) =>
+      col.references('structures.id').onDelete('cascade').notNull(),
+    )
+    .addColumn('name', 'varchar(100)', (col) => col.notNull())
+    .addColumn('actuatorType', 'varchar(50)', (col) => col.notNull())
+    .addColumn('apiKeyHash', 'varchar(255)', (col) => col.notNull())
+    // State the app wants; the device reports what it applied
+    .addColumn('state', 'varchar(10)', (col) => col.notNull().defaultTo('off'))
+    .addColumn('reportedState', 'varchar(10)')
+    .addColumn('mode', 'varchar(10)', (col) => col.notNull().defaultTo('auto'))
+    // Manual override end; NULL in manual mode holds until switched back
+    .addColumn('overrideUntil', 'timestamptz')
+    .addColumn('isActive', 'boolean', (col) => col.notNull().defaultTo(true))
+    .addColumn('lastSeenAt', 'timestamptz')
+    .addColumn('requestCount', 'integer', (col) => col.defaultTo(0).notNull())
+    .addColumn('createdAt', 'timestamptz', (col) =>
+      col.notNull().defaultTo(sql`now()`),
+    )
+    .addColumn('deletedAt', 'timestamptz')
+    .execute()
+
+  await db.schema
+    .createIndex('idx_actuators_farm_id')
+    .on('actuators')
+    .column('farmId')
+    .execute()
+
+  await db.schema
+    .createIndex('idx_actuators_api_key_hash')
+    .on('actuators')
+    .column('apiKeyHash')
+    .execute()
+
+  // Rules switching an actuator when a sensor condition holds long enough
+  await db.schema
+    .createTable('actuator_rules')
+    .addColumn('id', 'uuid', (col) =>
+      col.primaryKey().defaultTo(sql`gen_random_uuid()`),
+    )
+    .addColumn('actuatorId', 'uuid', (col) =>
+      col.references('actuators.id').onDelete('cascade').notNull(),
+    )
+    .addColumn('sensorId', 'uuid', (col) =>
+      col.references('sensors.id').onDelete('cascade').notNull(),
+    )
+    .addColumn('condition', 'varchar(20)', (col) => col.notNull())
+    // Value for above/below, rate per hour for rising/falling
+    .addColumn('threshold', sql`decimal(10,4)`, (col) => col.notNull())
+    .addColumn('durationMinutes', 'integer', (col) =>
+      col.notNull().defaultTo(0),
+    )
+    .addColumn('action', 'varchar(10)', (col) => col.notNull())
+    .addColumn('isActive', 'boolean', (col) => col.notNull().defaultTo(true))
+    .addColumn('lastTriggeredAt', 'timestamptz')
+    .addColumn('createdAt', 'timestamptz', (col) =>
+      col.notNull().defaultTo(sql`now()`),
+    )
+    .execute()
+
+  await db.schema
+    .createIndex('idx_actuator_rules_sensor_id')
+    .on('actuator_rules')
+    .column('sensorId')
+    .execute()
+
+  // Command queue polled by devices
+  await db.schema
+    .createTable('actuator_commands')
+    .addColumn('id', 'uuid', (col) =>
+      col.primaryKey().defaultTo(sql`gen_random_uuid()`),
+    )
+    .addColumn('actuatorId', 'uuid', (col) =>
+      col.references('actuators.id').onDelete('cascade').notNull(),
+    )
+    .addColumn('command', 'varchar(10)', (col) => col.notNull())
+    .addColumn('status', 'varchar(20)', (col) =>
+      col.notNull().defaultTo('pending'),
+    )
+    .addColumn('createdAt', 'timestamptz', (col) =>
+      col.notNull().defaultTo(sql`now()`),
+    )
+    .addColumn('deliveredAt', 'timestamptz')
+    .addColumn('acknowledgedAt', 'timestamptz')
+    .execute()
+
+  await db.schema
+    .createIndex('idx_actuator_commands_actuator_status')
+    .on('actuator_commands')
+    .columns(['actuatorId', 'status'])
+    .execute()
+
+  // Audit trail of every actuator state change
+  await db.schema
+    .createTable('actuator_state_changes')
+    .addColumn('id', 'uuid', (col) =>
+      col.primaryKey().defaultTo(sql`gen_random_uuid()`),
+    )
+    .addColumn('actuatorId', 'uuid', (col) =>
+      col.references('actuators.id').onDelete('cascade').notNull(),
+    )
+    .addColumn('fromState', 'varchar(10)')
+    .addColumn('toState', 'varchar(10)', (col) => col.notNull())
+    .addColumn('fromMode', 'varchar(10)')
+    .addColumn('toMode', 'varchar(10)')
+    .addColumn('source', 'varchar(20)', (col) => col.notNull())
+    .addColumn('ruleId', 'uuid', (col) =>
+      col.references('actuator_rules.id').onDelete('set null'),
+    )
+    .addColumn('userId', 'uuid', (col) =>
+      col.references('users.id').onDelete('set null'),
+    )
+    .addColumn('commandId', 'uuid', (col) =>
+      col.references('actuator_commands.id').onDelete('set null'),
+    )
+    .addColumn('reason', 'text')
+    .addColumn('createdAt', 'timestamptz', (col) =>
+      col.notNull().defaultTo(sql`now()`),
+    )
+    .execute()
+
+  await db.schema
+    .createIndex('idx_actuator_state_changes_actuator_time')
+    .on('actuator_state_changes')
+    .columns(['actuatorId', 'createdAt'])
+    .execute()
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable('actuator_state_changes').ifExists().execute()
+  await db.schema.dropTable('actuator_commands').ifExists().execute()
+  await db.schema.dropTable('actuator_rules').ifExists().execute()
+  await db.schema.dropTable('actuators').ifExists().execute()
+}
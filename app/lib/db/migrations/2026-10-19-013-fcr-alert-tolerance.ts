@@ -0,0 +1,26 @@
+import { sql } from 'kysely'
+import type { Kysely } from 'kysely'
+
+/**
+ * FCR drift alerts: how far a batch's FCR may drift from target, per user
+ */
+
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable('user_settings')
+    .addColumn('fcrAlertTolerancePercent', 'integer', (col) =>
+      col.notNull().defaultTo(20),
+    )
+    .execute()
+
+  await sql`ALTER TABLE user_settings ADD CONSTRAINT fcr_tolerance_check CHECK ("fcrAlertTolerancePercent" BETWEEN 1 AND 100)`.execute(
+    db,
+  )
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable('user_settings')
+    .dropColumn('fcrAlertTolerancePercent')
+    .execute()
+}
@@ -0,0 +1,62 @@
+import { sql } from 'kysely'
+import type { Kysely } from 'kysely'
+
+/**
+ * Feed purchase orders and supplier lead times for the feed stock forecast
+ */
+
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable('suppliers')
+    .addColumn('leadTimeDays', 'integer') // Days from order to delivery
+    .execute()
+
+  await sql`ALTER TABLE suppliers ADD CONSTRAINT suppliers_lead_time_check CHECK ("leadTimeDays" IS NULL OR "leadTimeDays" BETWEEN 0 AND 90)`.execute(
+    db,
+  )
+
+  // Feed purchase orders, suggested by the feed forecast and received into
+  // feed inventory with a matching expense
+  await db.schema
+    .createTable('feed_purchase_orders')
+    .addColumn('id', 'uuid', (col) =>
+      col.primaryKey().defaultTo(sql`uuid_generate_v4()`),
+    )
+    .addColumn('farmId', 'uuid', (col) =>
+      col.notNull().references('farms.id').onDelete('cascade'),
+    )
+    .addColumn('supplierId', 'uuid', (col) =>
+      col.references('suppliers.id').onDelete('set null'),
+    )
+    .addColumn('status', 'varchar(10)', (col) =>
+      col.notNull().defaultTo('ordered'),
+    )
+    .addColumn('items', 'jsonb', (col) => col.notNull()) // [{ feedType, quantityKg, estimatedCost }]
+    .addColumn('estimatedCost', sql`decimal(19,2)`)
+    .addColumn('expectedDeliveryDate', 'date', (col) => col.notNull())
+    .addColumn('expenseId', 'uuid', (col) =>
+      col.references('expenses.id').onDelete('set null'),
+    )
+    .addColumn('receivedAt', 'timestamptz')
+    .addColumn('createdBy', 'uuid', (col) =>
+      col.references('users.id').onDelete('set null'),
+    )
+    .addColumn('createdAt', 'timestamptz', (col) => col.defaultTo(sql`now()`))
+    .addColumn('updatedAt', 'timestamptz', (col) => col.defaultTo(sql`now()`))
+    .execute()
+
+  await sql`ALTER TABLE feed_purchase_orders ADD CONSTRAINT feed_purchase_orders_status_check CHECK (status IN ('ordered', 'received', 'cancelled'))`.execute(
+    db,
+  )
+
+  await db.schema
+    .createIndex('idx_feed_purchase_orders_farm_status')
+    .on('feed_purchase_orders')
+    .columns(['farmId', 'status'])
+    .execute()
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable('feed_purchase_orders').ifExists().execute()
+  await db.schema.alterTable('suppliers').dropColumn('leadTimeDays').execute()
+}
@@ -0,0 +1,106 @@
+import { sql } from 'kysely'
+import type { Kysely } from 'kysely'
+
+/**
+ * Lender API consents: farmer-granted, time-boxed access to signed metrics,
+ * with lender API pulls recorded in report_access_logs
+ */
+
+export async function up(db: Kysely<any>): Promise<void> {
+  // Lender Consents table - farmer-granted, time-boxed API access for lenders
+  await db.schema
+    .createTable('lender_consents')
+    .addColumn('id', 'uuid', (col) =>
+      col.primaryKey().defaultTo(sql`gen_random_uuid()`),
+    )
+    .addColumn('userId', 'uuid', (col) =>
+      col.references('users.id').onDelete('cascade').notNull(),
+    )
+    .addColumn('farmIds', 'jsonb', (col) => col.notNull()) // Array of farm UUIDs
+    .addColumn('scopes', 'jsonb', (col) => col.notNull()) // financial, operational, track_record, credit_score
+    .addColumn('lenderName', 'text', (col) => col.notNull())
+    .addColumn('lenderEmail', 'text')
+    .addColumn('purpose', 'text')
+    .addColumn('periodMonths', 'integer', (col) => col.notNull().defaultTo(12)) // Rolling window metrics are computed over
+    .addColumn('tokenHash', 'text', (col) => col.notNull().unique()) // SHA-256 of the access token
+    .addColumn('tokenHint', 'varchar(8)', (col) => col.notNull()) // Last characters, to tell tokens apart
+    .addColumn('expiresAt', 'timestamptz', (col) => col.notNull())
+    .addColumn('revokedAt', 'timestamptz')
+    .addColumn('lastAccessedAt', 'timestamptz')
+    .addColumn('createdAt', 'timestamptz', (col) =>
+      col.defaultTo(sql`now()`).notNull(),
+    )
+    .addColumn('updatedAt', 'timestamptz', (col) =>
+      col.defaultTo(sql`now()`).notNull(),
+    )
+    .execute()
+
+  // Lender Consents indexes
+  await db.schema
+    .createIndex('lender_consents_user_id_idx')
+    .on('lender_consents')
+    .column('userId')
+    .execute()
+
+  // Lender Consents constraints
+  await sql`ALTER TABLE lender_consents ADD CONSTRAINT lender_consents_period_check CHECK ("periodMonths" BETWEEN 1 AND 36)`.execute(
+    db,
+  )
+
+  // Report access logs also record lender API pulls, which have a consent
+  // instead of a report
+  await db.schema
+    .alterTable('report_access_logs')
+    .addColumn('consentId', 'uuid', (col) =>
+      col.references('lender_consents.id').onDelete('cascade'),
+    )
+    .addColumn('scopes', 'jsonb') // Data returned to a lender API pull
+    .alterColumn('reportId', (col) => col.dropNotNull())
+    .execute()
+
+  await db.schema
+    .createIndex('report_access_logs_consent_id_idx')
+    .on('report_access_logs')
+    .column('consentId')
+    .execute()
+
+  await sql`ALTER TABLE report_access_logs DROP CONSTRAINT report_access_logs_access_type_check`.execute(
+    db,
+  )
+  await sql`ALTER TABLE report_access_logs ADD CONSTRAINT report_access_logs_access_type_check CHECK ("accessType" IN ('view', 'download', 'verify', 'api'))`.execute(
+    db,
+  )
+
+  await sql`ALTER TABLE report_access_logs ADD CONSTRAINT report_access_logs_target_check CHECK ("reportId" IS NOT NULL OR "consentId" IS NOT NULL)`.execute(
+    db,
+  )
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  // Lender API pulls cannot be kept without their consent
+  await db
+    .deleteFrom('report_access_logs')
+    .where((eb) =>
+      eb.or([eb('reportId', 'is', null), eb('accessType', '=', 'api')]),
+    )
+    .execute()
+
+  await sql`ALTER TABLE report_access_logs DROP CONSTRAINT IF EXISTS report_access_logs_target_check`.execute(
+    db,
+  )
+  await sql`ALTER TABLE report_access_logs DROP CONSTRAINT IF EXISTS report_access_logs_access_type_check`.execute(
+    db,
+  )
+  await sql`ALTER TABLE report_access_logs ADD CONSTRAINT report_access_logs_access_type_check CHECK ("accessType" IN ('view', 'download', 'verify'))`.execute(
+    db,
+  )
+
+  await db.schema
+    .alterTable('report_access_logs')
+    .dropColumn('scopes')
+    .dropColumn('consentId')
+    .alterColumn('reportId', (col) => col.setNotNull())
+    .execute()
+
+  await db.schema.dropTable('lender_consents').ifExists().execute()
+}
@@ -0,0 +1,54 @@
+import { sql } from 'kysely'
+import type { Kysely } from 'kysely'
+
+/**
+ * Signing key registry: published Ed25519 keys that sign credit passports,
+ * with rotation and revocation
+ */
+
+export async function up(db: Kysely<any>): Promise<void> {
+  // Signing Keys table - published registry of Ed25519 keys that sign passports
+  await db.schema
+    .createTable('signing_keys')
+    .addColumn('id', 'uuid', (col) =>
+      col.primaryKey().defaultTo(sql`gen_random_uuid()`),
+    )
+    .addColumn('keyId', 'varchar(32)', (col) => col.notNull().unique()) // Fingerprint of the public key
+    .addColumn('algorithm', 'varchar(16)', (col) =>
+      col.notNull().defaultTo('Ed25519'),
+    )
+    .addColumn('publicKey', 'text', (col) => col.notNull().unique())
+    .addColumn('status', 'varchar(10)', (col) =>
+      col.notNull().defaultTo('active'),
+    ) // active, retired, revoked
+    .addColumn('validFrom', 'timestamptz', (col) => col.notNull())
+    .addColumn('validUntil', 'timestamptz') // Set when the key is rotated out
+    .addColumn('revokedAt', 'timestamptz')
+    .addColumn('revocationReason', 'text')
+    .addColumn('createdAt', 'timestamptz', (col) =>
+      col.defaultTo(sql`now()`).notNull(),
+    )
+    .addColumn('updatedAt', 'timestamptz', (col) =>
+      col.defaultTo(sql`now()`).notNull(),
+    )
+    .execute()
+
+  // Signing Keys constraints
+  await sql`ALTER TABLE signing_keys ADD CONSTRAINT signing_keys_status_check CHECK (status IN ('active', 'retired', 'revoked'))`.execute(
+    db,
+  )
+
+  // Registry key that signed the report. Reports signed before the registry
+  // have none and are matched to a key by their public key.
+  await db.schema
+    .alterTable('credit_reports')
+    .addColumn('keyId', 'varchar(32)', (col) =>
+      col.references('signing_keys.keyId'),
+    )
+    .execute()
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.alterTable('credit_reports').dropColumn('keyId').execute()
+  await db.schema.dropTable('signing_keys').ifExists().execute()
+}
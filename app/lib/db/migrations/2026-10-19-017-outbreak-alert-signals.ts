@@ -0,0 +1,42 @@
+import { sql } from 'kysely'
+import type { Kysely } from 'kysely'
+
+/**
+ * Outbreak detection signals: confidence and the signals behind each alert,
+ * and 'system' as the author of alerts raised by outbreak detection
+ */
+
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable('outbreak_alerts')
+    .addColumn('confidence', sql`decimal(3,2)`)
+    .addColumn('signals', 'jsonb')
+    .execute()
+
+  // User ID, or 'system' for alerts raised by outbreak detection
+  await db.schema
+    .alterTable('outbreak_alerts')
+    .alterColumn('createdBy', (col) => col.setDataType('varchar(100)'))
+    .alterColumn('updatedBy', (col) => col.setDataType('varchar(100)'))
+    .execute()
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  // Alerts raised by outbreak detection have no user to attribute them to
+  await db
+    .deleteFrom('outbreak_alerts')
+    .where((eb) =>
+      eb.or([eb('createdBy', '=', 'system'), eb('updatedBy', '=', 'system')]),
+    )
+    .execute()
+
+  await sql`ALTER TABLE outbreak_alerts ALTER COLUMN "createdBy" TYPE uuid USING "createdBy"::uuid, ALTER COLUMN "updatedBy" TYPE uuid USING "updatedBy"::uuid`.execute(
+    db,
+  )
+
+  await db.schema
+    .alterTable('outbreak_alerts')
+    .dropColumn('signals')
+    .dropColumn('confidence')
+    .execute()
+}
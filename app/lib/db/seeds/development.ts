@@ -96,6 +96,7 @@ export async function seedDev() {
       'task_completions',
       'tasks',
       'notifications',
+      'invoice_payments',
       'invoice_items',
       'sales',
       'invoices',
@@ -103,8 +104,15 @@ export async function seedDev() {
       'weight_samples',
       'treatments',
       'vaccinations',
+      'shearing_records',
+      'birth_records',
+      'breeding_events',
+      'hive_harvests',
+      'hive_inspections',
+      'milk_records',
       'egg_records',
       'mortality_records',
+      'animals',
       'feed_records',
       'feed_inventory',
       'medication_inventory',
@@ -544,6 +552,7 @@ export async function seedDev() {
         status: 'paid',
         date: daysAgo(3),
         dueDate: daysAgo(-7),
+        paidDate: daysAgo(3),
       })
       .returningAll()
       .executeTakeFirstOrThrow()
@@ -559,6 +568,16 @@ export async function seedDev() {
       })
       .execute()
 
+    await db
+      .insertInto('invoice_payments')
+      .values({
+        invoiceId: f1Invoice1.id,
+        amount: '275000.00',
+        date: daysAgo(3),
+        method: f1b1Sale.paymentMethod ?? 'cash',
+      })
+      .execute()
+
     // Link sale to invoice
     await db
       .updateTable('sales')
@@ -2386,10 +2405,22 @@ export async function seedDev() {
           total: sale.totalAmount,
         })
         .execute()
+
+      if (sale.paymentStatus === 'paid') {
+        await db
+          .insertInto('invoice_payments')
+          .values({
+            invoiceId: invoices[i].id,
+            amount: sale.totalAmount,
+            date: sale.date,
+            method: sale.paymentMethod ?? 'cash',
+          })
+          .execute()
+      }
     }
 
     console.log(`  ✅ Created ${invoices.length} invoices from sales`)
-    console.log(`  ✅ Created invoice items\n`)
+    console.log(`  ✅ Created invoice items and payments\n`)
 
     // ============ EXTENSION WORKER ============
     console.log('⛑️ Creating extension worker visits and alerts...')
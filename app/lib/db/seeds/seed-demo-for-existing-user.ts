@@ -477,6 +477,7 @@ export async function seedDemoForExistingUser() {
         status: 'paid',
         date: daysAgo(3),
         dueDate: daysAgo(-7),
+        paidDate: daysAgo(3),
       })
       .returningAll()
       .executeTakeFirstOrThrow()
@@ -492,6 +493,16 @@ export async function seedDemoForExistingUser() {
       })
       .execute()
 
+    await db
+      .insertInto('invoice_payments')
+      .values({
+        invoiceId: f1Invoice1.id,
+        amount: '275000.00',
+        date: daysAgo(3),
+        method: f1b1Sale.paymentMethod ?? 'cash',
+      })
+      .execute()
+
     await db
       .updateTable('sales')
       .set({ invoiceId: f1Invoice1.id })
@@ -1486,17 +1497,91 @@ export async function seedDemoForExistingUser() {
       .insertInto('tasks')
       .values([
         // Farm-level tasks
-        { farmId: farm1.id, title: 'Check water supply', description: 'Ensure all drinkers are working and clean', frequency: 'daily', moduleKey: 'poultry', isDefault: true },
-        { farmId: farm1.id, title: 'Clean feeders', description: 'Remove old feed and clean feeders', frequency: 'daily', moduleKey: 'poultry', isDefault: true },
-        { farmId: farm1.id, title: 'Inspect ventilation', description: 'Check fans and air flow in all houses', frequency: 'daily', moduleKey: 'poultry', isDefault: true },
-        { farmId: farm1.id, title: 'Deep clean poultry house', description: 'Full sanitation of house including disinfection', frequency: 'weekly', moduleKey: 'poultry', isDefault: true },
-        { farmId: farm1.id, title: 'Restock supplies', description: 'Check and reorder feed, medication, bedding', frequency: 'weekly', moduleKey: 'poultry', isDefault: false },
-        { farmId: farm1.id, title: 'Equipment maintenance', description: 'Service feeders, drinkers, and ventilation systems', frequency: 'monthly', moduleKey: 'poultry', isDefault: false },
+        {
+          farmId: farm1.id,
+          title: 'Check water supply',
+          description: 'Ensure all drinkers are working and clean',
+          frequency: 'daily',
+          moduleKey: 'poultry',
+          isDefault: true,
+        },
+        {
+          farmId: farm1.id,
+          title: 'Clean feeders',
+          description: 'Remove old feed and clean feeders',
+          frequency: 'daily',
+          moduleKey: 'poultry',
+          isDefault: true,
+        },
+        {
+          farmId: farm1.id,
+          title: 'Inspect ventilation',
+          description: 'Check fans and air flow in all houses',
+          frequency: 'daily',
+          moduleKey: 'poultry',
+          isDefault: true,
+        },
+        {
+          farmId: farm1.id,
+          title: 'Deep clean poultry house',
+          description: 'Full sanitation of house including disinfection',
+          frequency: 'weekly',
+          moduleKey: 'poultry',
+          isDefault: true,
+        },
+        {
+          farmId: farm1.id,
+          title: 'Restock supplies',
+          description: 'Check and reorder feed, medication, bedding',
+          frequency: 'weekly',
+          moduleKey: 'poultry',
+          isDefault: false,
+        },
+        {
+          farmId: farm1.id,
+          title: 'Equipment maintenance',
+          description: 'Service feeders, drinkers, and ventilation systems',
+          frequency: 'monthly',
+          moduleKey: 'poultry',
+          isDefault: false,
+        },
         // Batch-specific tasks
-        { farmId: farm1.id, batchId: f1b1.id, title: 'Morning feeding', description: 'Feed BR-JAN-001 batch - check consumption', frequency: 'daily', moduleKey: 'poultry', isDefault: true },
-        { farmId: farm1.id, batchId: f1b1.id, title: 'Evening feeding', description: 'Second feeding for BR-JAN-001', frequency: 'daily', moduleKey: 'poultry', isDefault: true },
-        { farmId: farm1.id, batchId: f1b1.id, title: 'Record mortality', description: 'Count and record any deaths in BR-JAN-001', frequency: 'daily', moduleKey: 'poultry', isDefault: true },
-        { farmId: farm1.id, batchId: f1b1.id, title: 'Weigh sample birds', description: 'Weigh 10 birds from BR-JAN-001 for growth tracking', frequency: 'weekly', moduleKey: 'poultry', isDefault: true },
+        {
+          farmId: farm1.id,
+          batchId: f1b1.id,
+          title: 'Morning feeding',
+          description: 'Feed BR-JAN-001 batch - check consumption',
+          frequency: 'daily',
+          moduleKey: 'poultry',
+          isDefault: true,
+        },
+        {
+          farmId: farm1.id,
+          batchId: f1b1.id,
+          title: 'Evening feeding',
+          description: 'Second feeding for BR-JAN-001',
+          frequency: 'daily',
+          moduleKey: 'poultry',
+          isDefault: true,
+        },
+        {
+          farmId: farm1.id,
+          batchId: f1b1.id,
+          title: 'Record mortality',
+          description: 'Count and record any deaths in BR-JAN-001',
+          frequency: 'daily',
+          moduleKey: 'poultry',
+          isDefault: true,
+        },
+        {
+          farmId: farm1.id,
+          batchId: f1b1.id,
+          title: 'Weigh sample birds',
+          description: 'Weigh 10 birds from BR-JAN-001 for growth tracking',
+          frequency: 'weekly',
+          moduleKey: 'poultry',
+          isDefault: true,
+        },
       ])
       .execute()
 
@@ -1505,16 +1590,83 @@ export async function seedDemoForExistingUser() {
       .insertInto('tasks')
       .values([
         // Farm-level tasks
-        { farmId: farm2.id, title: 'Check water quality', description: 'Test pH, DO, ammonia levels', frequency: 'daily', moduleKey: 'aquaculture', isDefault: true },
-        { farmId: farm2.id, title: 'Inspect aerators', description: 'Ensure all aerators are functioning', frequency: 'daily', moduleKey: 'aquaculture', isDefault: true },
-        { farmId: farm2.id, title: 'Clean pond filters', description: 'Remove debris from filters and screens', frequency: 'weekly', moduleKey: 'aquaculture', isDefault: true },
-        { farmId: farm2.id, title: 'Partial water change', description: 'Replace 20% of pond water', frequency: 'weekly', moduleKey: 'aquaculture', isDefault: false },
-        { farmId: farm2.id, title: 'Full pond maintenance', description: 'Deep clean, check liners, service equipment', frequency: 'monthly', moduleKey: 'aquaculture', isDefault: false },
+        {
+          farmId: farm2.id,
+          title: 'Check water quality',
+          description: 'Test pH, DO, ammonia levels',
+          frequency: 'daily',
+          moduleKey: 'aquaculture',
+          isDefault: true,
+        },
+        {
+          farmId: farm2.id,
+          title: 'Inspect aerators',
+          description: 'Ensure all aerators are functioning',
+          frequency: 'daily',
+          moduleKey: 'aquaculture',
+          isDefault: true,
+        },
+        {
+          farmId: farm2.id,
+          title: 'Clean pond filters',
+          description: 'Remove debris from filters and screens',
+          frequency: 'weekly',
+          moduleKey: 'aquaculture',
+          isDefault: true,
+        },
+        {
+          farmId: farm2.id,
+          title: 'Partial water change',
+          description: 'Replace 20% of pond water',
+          frequency: 'weekly',
+          moduleKey: 'aquaculture',
+          isDefault: false,
+        },
+        {
+          farmId: farm2.id,
+          title: 'Full pond maintenance',
+          description: 'Deep clean, check liners, service equipment',
+          frequency: 'monthly',
+          moduleKey: 'aquaculture',
+          isDefault: false,
+        },
         // Batch-specific tasks
-        { farmId: farm2.id, batchId: f2b1.id, title: 'Morning feeding', description: 'Feed CF-OCT-001 catfish batch', frequency: 'daily', moduleKey: 'aquaculture', isDefault: true },
-        { farmId: farm2.id, batchId: f2b1.id, title: 'Evening feeding', description: 'Second feeding for CF-OCT-001', frequency: 'daily', moduleKey: 'aquaculture', isDefault: true },
-        { farmId: farm2.id, batchId: f2b1.id, title: 'Check fish behavior', description: 'Observe for signs of stress or disease', frequency: 'daily', moduleKey: 'aquaculture', isDefault: true },
-        { farmId: farm2.id, batchId: f2b1.id, title: 'Sample weighing', description: 'Net and weigh sample fish from CF-OCT-001', frequency: 'weekly', moduleKey: 'aquaculture', isDefault: true },
+        {
+          farmId: farm2.id,
+          batchId: f2b1.id,
+          title: 'Morning feeding',
+          description: 'Feed CF-OCT-001 catfish batch',
+          frequency: 'daily',
+          moduleKey: 'aquaculture',
+          isDefault: true,
+        },
+        {
+          farmId: farm2.id,
+          batchId: f2b1.id,
+          title: 'Evening feeding',
+          description: 'Second feeding for CF-OCT-001',
+          frequency: 'daily',
+          moduleKey: 'aquaculture',
+          isDefault: true,
+        },
+        {
+          farmId: farm2.id,
+          batchId: f2b1.id,
+          title: 'Check fish behavior',
+          description: 'Observe for signs of stress or disease',
+          frequency: 'daily',
+          moduleKey: 'aquaculture',
+          isDefault: true,
+        },
+        {
+          farmId: farm2.id,
+          batchId: f2b1.id,
+          title: 'Sample weighing',
+          description: 'Net and weigh sample fish from CF-OCT-001',
+          frequency: 'weekly',
+          moduleKey: 'aquaculture',
+          isDefault: true,
+        },
       ])
       .execute()
 
@@ -1523,13 +1675,55 @@ export async function seedDemoForExistingUser() {
       .insertInto('tasks')
       .values([
         // Farm-level tasks
-        { farmId: farm3.id, title: 'General farm inspection', description: 'Walk-through of all facilities', frequency: 'daily', isDefault: true },
-        { farmId: farm3.id, title: 'Check all water systems', description: 'Inspect drinkers and pond water', frequency: 'daily', isDefault: true },
-        { farmId: farm3.id, title: 'Weekly inventory check', description: 'Count feed, medication, supplies', frequency: 'weekly', isDefault: true },
+        {
+          farmId: farm3.id,
+          title: 'General farm inspection',
+          description: 'Walk-through of all facilities',
+          frequency: 'daily',
+          isDefault: true,
+        },
+        {
+          farmId: farm3.id,
+          title: 'Check all water systems',
+          description: 'Inspect drinkers and pond water',
+          frequency: 'daily',
+          isDefault: true,
+        },
+        {
+          farmId: farm3.id,
+          title: 'Weekly inventory check',
+          description: 'Count feed, medication, supplies',
+          frequency: 'weekly',
+          isDefault: true,
+        },
         // Batch-specific tasks
-        { farmId: farm3.id, batchId: f3b1.id, title: 'Feed broilers', description: 'Morning and evening feeding for BR-DEC-001', frequency: 'daily', moduleKey: 'poultry', isDefault: true },
-        { farmId: farm3.id, batchId: f3b2.id, title: 'Feed catfish', description: 'Feeding for CF-NOV-001 pond', frequency: 'daily', moduleKey: 'aquaculture', isDefault: true },
-        { farmId: farm3.id, batchId: f3b2.id, title: 'Test pond water', description: 'Water quality check for CF-NOV-001', frequency: 'daily', moduleKey: 'aquaculture', isDefault: true },
+        {
+          farmId: farm3.id,
+          batchId: f3b1.id,
+          title: 'Feed broilers',
+          description: 'Morning and evening feeding for BR-DEC-001',
+          frequency: 'daily',
+          moduleKey: 'poultry',
+          isDefault: true,
+        },
+        {
+          farmId: farm3.id,
+          batchId: f3b2.id,
+          title: 'Feed catfish',
+          description: 'Feeding for CF-NOV-001 pond',
+          frequency: 'daily',
+          moduleKey: 'aquaculture',
+          isDefault: true,
+        },
+        {
+          farmId: farm3.id,
+          batchId: f3b2.id,
+          title: 'Test pond water',
+          description: 'Water quality check for CF-NOV-001',
+          frequency: 'daily',
+          moduleKey: 'aquaculture',
+          isDefault: true,
+        },
       ])
       .execute()
 
@@ -1538,16 +1732,78 @@ export async function seedDemoForExistingUser() {
       .insertInto('tasks')
       .values([
         // Farm-level tasks
-        { farmId: farm4.id, title: 'Check pasture fencing', description: 'Inspect all fences for damage', frequency: 'daily', isDefault: true },
-        { farmId: farm4.id, title: 'Fill water troughs', description: 'Ensure all troughs have clean water', frequency: 'daily', isDefault: true },
-        { farmId: farm4.id, title: 'Inspect animal health', description: 'Visual check of all animals for illness', frequency: 'daily', isDefault: true },
-        { farmId: farm4.id, title: 'Rotate pastures', description: 'Move animals to fresh grazing area', frequency: 'weekly', isDefault: false },
-        { farmId: farm4.id, title: 'Hoof inspection', description: 'Check hooves on cattle and goats', frequency: 'monthly', isDefault: false },
+        {
+          farmId: farm4.id,
+          title: 'Check pasture fencing',
+          description: 'Inspect all fences for damage',
+          frequency: 'daily',
+          isDefault: true,
+        },
+        {
+          farmId: farm4.id,
+          title: 'Fill water troughs',
+          description: 'Ensure all troughs have clean water',
+          frequency: 'daily',
+          isDefault: true,
+        },
+        {
+          farmId: farm4.id,
+          title: 'Inspect animal health',
+          description: 'Visual check of all animals for illness',
+          frequency: 'daily',
+          isDefault: true,
+        },
+        {
+          farmId: farm4.id,
+          title: 'Rotate pastures',
+          description: 'Move animals to fresh grazing area',
+          frequency: 'weekly',
+          isDefault: false,
+        },
+        {
+          farmId: farm4.id,
+          title: 'Hoof inspection',
+          description: 'Check hooves on cattle and goats',
+          frequency: 'monthly',
+          isDefault: false,
+        },
         // Batch-specific tasks
-        { farmId: farm4.id, batchId: f4b1.id, title: 'Feed cattle supplements', description: 'Provide mineral blocks and supplements to CATTLE-2025', frequency: 'daily', moduleKey: 'cattle', isDefault: true },
-        { farmId: farm4.id, batchId: f4b1.id, title: 'Weigh cattle', description: 'Monthly weight check for CATTLE-2025 herd', frequency: 'monthly', moduleKey: 'cattle', isDefault: true },
-        { farmId: farm4.id, batchId: f4b2.id, title: 'Feed goats', description: 'Morning feeding for GOATS-2025', frequency: 'daily', moduleKey: 'goats', isDefault: true },
-        { farmId: farm4.id, batchId: f4b2.id, title: 'Check goat shelter', description: 'Ensure shelter is clean and dry', frequency: 'daily', moduleKey: 'goats', isDefault: true },
+        {
+          farmId: farm4.id,
+          batchId: f4b1.id,
+          title: 'Feed cattle supplements',
+          description: 'Provide mineral blocks and supplements to CATTLE-2025',
+          frequency: 'daily',
+          moduleKey: 'cattle',
+          isDefault: true,
+        },
+        {
+          farmId: farm4.id,
+          batchId: f4b1.id,
+          title: 'Weigh cattle',
+          description: 'Monthly weight check for CATTLE-2025 herd',
+          frequency: 'monthly',
+          moduleKey: 'cattle',
+          isDefault: true,
+        },
+        {
+          farmId: farm4.id,
+          batchId: f4b2.id,
+          title: 'Feed goats',
+          description: 'Morning feeding for GOATS-2025',
+          frequency: 'daily',
+          moduleKey: 'goats',
+          isDefault: true,
+        },
+        {
+          farmId: farm4.id,
+          batchId: f4b2.id,
+          title: 'Check goat shelter',
+          description: 'Ensure shelter is clean and dry',
+          frequency: 'daily',
+          moduleKey: 'goats',
+          isDefault: true,
+        },
       ])
       .execute()
 
@@ -1556,24 +1812,80 @@ export async function seedDemoForExistingUser() {
       .insertInto('tasks')
       .values([
         // Farm-level tasks
-        { farmId: farm5.id, title: 'Visual hive inspection', description: 'Check hive entrances for activity', frequency: 'daily', moduleKey: 'bees', isDefault: true },
-        { farmId: farm5.id, title: 'Check water source', description: 'Ensure bees have access to clean water', frequency: 'daily', moduleKey: 'bees', isDefault: true },
-        { farmId: farm5.id, title: 'Full hive inspection', description: 'Open hives, check frames, look for queen', frequency: 'weekly', moduleKey: 'bees', isDefault: true },
-        { farmId: farm5.id, title: 'Pest monitoring', description: 'Check for varroa mites and hive beetles', frequency: 'weekly', moduleKey: 'bees', isDefault: true },
-        { farmId: farm5.id, title: 'Harvest honey', description: 'Extract honey from ready frames', frequency: 'monthly', moduleKey: 'bees', isDefault: false },
+        {
+          farmId: farm5.id,
+          title: 'Visual hive inspection',
+          description: 'Check hive entrances for activity',
+          frequency: 'daily',
+          moduleKey: 'bees',
+          isDefault: true,
+        },
+        {
+          farmId: farm5.id,
+          title: 'Check water source',
+          description: 'Ensure bees have access to clean water',
+          frequency: 'daily',
+          moduleKey: 'bees',
+          isDefault: true,
+        },
+        {
+          farmId: farm5.id,
+          title: 'Full hive inspection',
+          description: 'Open hives, check frames, look for queen',
+          frequency: 'weekly',
+          moduleKey: 'bees',
+          isDefault: true,
+        },
+        {
+          farmId: farm5.id,
+          title: 'Pest monitoring',
+          description: 'Check for varroa mites and hive beetles',
+          frequency: 'weekly',
+          moduleKey: 'bees',
+          isDefault: true,
+        },
+        {
+          farmId: farm5.id,
+          title: 'Harvest honey',
+          description: 'Extract honey from ready frames',
+          frequency: 'monthly',
+          moduleKey: 'bees',
+          isDefault: false,
+        },
         // Batch-specific tasks
-        { farmId: farm5.id, batchId: f5b1.id, title: 'Check COLONY-A strength', description: 'Count frames of bees and brood', frequency: 'weekly', moduleKey: 'bees', isDefault: true },
-        { farmId: farm5.id, batchId: f5b1.id, title: 'Feed COLONY-A if needed', description: 'Provide sugar syrup if stores are low', frequency: 'weekly', moduleKey: 'bees', isDefault: false },
+        {
+          farmId: farm5.id,
+          batchId: f5b1.id,
+          title: 'Check COLONY-A strength',
+          description: 'Count frames of bees and brood',
+          frequency: 'weekly',
+          moduleKey: 'bees',
+          isDefault: true,
+        },
+        {
+          farmId: farm5.id,
+          batchId: f5b1.id,
+          title: 'Feed COLONY-A if needed',
+          description: 'Provide sugar syrup if stores are low',
+          frequency: 'weekly',
+          moduleKey: 'bees',
+          isDefault: false,
+        },
       ])
       .execute()
 
     // Create some task completions for the user (recent completions)
-    const allTasks = await db.selectFrom('tasks').select(['id', 'farmId', 'frequency']).execute()
+    const allTasks = await db
+      .selectFrom('tasks')
+      .select(['id', 'farmId', 'frequency'])
+      .execute()
     const today = new Date()
     today.setHours(0, 0, 0, 0)
 
     // Complete some daily tasks for today and yesterday
-    for (const task of allTasks.filter(t => t.frequency === 'daily').slice(0, 10)) {
+    for (const task of allTasks
+      .filter((t) => t.frequency === 'daily')
+      .slice(0, 10)) {
       // Yesterday's completion
       const yesterday = new Date(today)
       yesterday.setDate(yesterday.getDate() - 1)
@@ -1591,7 +1903,9 @@ export async function seedDemoForExistingUser() {
     // Complete some weekly tasks
     const weekStart = new Date(today)
     weekStart.setDate(weekStart.getDate() - weekStart.getDay()) // Start of week
-    for (const task of allTasks.filter(t => t.frequency === 'weekly').slice(0, 5)) {
+    for (const task of allTasks
+      .filter((t) => t.frequency === 'weekly')
+      .slice(0, 5)) {
       await db
         .insertInto('task_completions')
         .values({
@@ -8,13 +8,18 @@
  * - types/auth.ts         - User, Session, Account tables
  * - types/settings.ts     - UserSettings table
  * - types/farms.ts        - Farm, FarmModule, UserFarm, Structure tables
- * - types/livestock.ts    - Breed, Batch, Egg, Weight tables
+ * - types/livestock.ts    - Breed, Batch, Animal, Egg, Milk, Hive, Shearing, Breeding, Birth,
+ *                           Weight tables
  * - types/health.ts       - Mortality, Vaccination, Treatment, WaterQuality tables
  * - types/feed.ts         - Feed, FeedInventory, MedicationInventory, Formulation tables
- * - types/financial.ts    - Sale, Expense, Customer, Supplier, Invoice tables
- * - types/monitoring.ts   - AuditLog, GrowthStandard, MarketPrice, Notification, Task, Report tables
+ * - types/financial.ts    - Sale, Expense, Customer, Supplier, FeedPurchaseOrder, Invoice,
+ *                           InvoicePayment tables
+ * - types/monitoring.ts   - AuditLog, JobRun, GrowthStandard, MarketPrice, Notification, Task,
+ *                           Report, LenderConsent, SigningKey tables
  * - types/digital-foreman.ts - Worker, Geofence, CheckIn, TaskAssignment, Payroll tables
- * - types/sensors.ts      - Sensor, SensorReading, SensorAggregate, SensorAlert tables
+ * - types/sensors.ts      - SensorGateway, Sensor, SensorReading, SensorAggregate, SensorAlert,
+ *                           SensorRetentionPolicy, SensorReadingArchive, Actuator,
+ *                           ActuatorRule, ActuatorCommand, ActuatorStateChange tables
  * - types/marketplace.ts  - MarketplaceListing, ListingContactRequest, ListingView tables
  * - types/extension-worker.ts - Country, Region, UserDistrict, AccessRequest, VisitRecord, OutbreakAlert tables
  */
@@ -24,10 +29,17 @@ import type {
   AccessGrantTable,
   AccessRequestTable,
   AccountTable,
+  ActuatorCommandTable,
+  ActuatorRuleTable,
+  ActuatorStateChangeTable,
+  ActuatorTable,
+  AnimalTable,
   AuditLogTable,
   BatchTable,
+  BirthRecordTable,
   BreedRequestTable,
   BreedTable,
+  BreedingEventTable,
   CountryTable,
   CreditReportTable,
   CustomerTable,
@@ -38,16 +50,23 @@ import type {
   FarmTable,
   FeedIngredientTable,
   FeedInventoryTable,
+  FeedPurchaseOrderTable,
   FeedTable,
   FormulationUsageTable,
   GrowthStandardTable,
+  HiveHarvestTable,
+  HiveInspectionTable,
   InvoiceItemTable,
+  InvoicePaymentTable,
   InvoiceTable,
+  JobRunTable,
+  LenderConsentTable,
   ListingContactRequestTable,
   ListingViewTable,
   MarketPriceTable,
   MarketplaceListingTable,
   MedicationInventoryTable,
+  MilkTable,
   MortalityTable,
   NotificationTable,
   NutritionalRequirementTable,
@@ -63,9 +82,14 @@ import type {
   SensorAggregateTable,
   SensorAlertConfigTable,
   SensorAlertTable,
+  SensorGatewayTable,
+  SensorReadingArchiveTable,
   SensorReadingTable,
+  SensorRetentionPolicyTable,
   SensorTable,
   SessionTable,
+  ShearingTable,
+  SigningKeyTable,
   SpeciesThresholdTable,
   StructureTable,
   SupplierTable,
@@ -106,10 +130,17 @@ export type {
   StructureTable,
   UserFarmTable,
   // Livestock
+  AnimalTable,
   BatchTable,
+  BirthRecordTable,
   BreedRequestTable,
   BreedTable,
+  BreedingEventTable,
   EggTable,
+  HiveHarvestTable,
+  HiveInspectionTable,
+  MilkTable,
+  ShearingTable,
   WeightTable,
   // Health
   MortalityTable,
@@ -128,7 +159,10 @@ export type {
   // Financial
   CustomerTable,
   ExpenseTable,
+  FeedPurchaseOrderItem,
+  FeedPurchaseOrderTable,
   InvoiceItemTable,
+  InvoicePaymentTable,
   InvoiceTable,
   SaleTable,
   SupplierTable,
@@ -136,11 +170,16 @@ export type {
   AuditLogTable,
   CreditReportTable,
   GrowthStandardTable,
+  JobRunTable,
   MarketPriceTable,
   NotificationTable,
+  LenderConsentTable,
+  LenderScope,
   ReportAccessLogTable,
   ReportConfigTable,
   ReportRequestTable,
+  SigningKeyStatus,
+  SigningKeyTable,
   TaskCompletionTable,
   TaskTable,
   // Digital Foreman
@@ -153,11 +192,25 @@ export type {
   WorkerCheckInTable,
   WorkerProfileTable,
   // Sensors
+  ActuatorChangeSource,
+  ActuatorCommandStatus,
+  ActuatorCommandTable,
+  ActuatorMode,
+  ActuatorRuleCondition,
+  ActuatorRuleTable,
+  ActuatorState,
+  ActuatorStateChangeTable,
+  ActuatorTable,
+  ActuatorType,
   SensorAggregateTable,
   SensorAlertConfigTable,
   SensorAlertTable,
   SensorAlertType,
+  SensorDerivation,
+  SensorGatewayTable,
+  SensorReadingArchiveTable,
   SensorReadingTable,
+  SensorRetentionPolicyTable,
   SensorTable,
   SensorThresholds,
   SensorTrendConfig,
@@ -176,6 +229,7 @@ export type {
   CountryTable,
   OutbreakAlertFarmTable,
   OutbreakAlertTable,
+  OutbreakSignalSnapshot,
   RegionTable,
   SpeciesThresholdTable,
   UserDistrictTable,
@@ -224,8 +278,22 @@ export interface Database {
   breed_requests: BreedRequestTable
   /** Livestock batch definitions */
   batches: BatchTable
+  /** Individually tagged animals */
+  animals: AnimalTable
   /** Records of egg collection and sales */
   egg_records: EggTable
+  /** Daily milk yield for dairy batches */
+  milk_records: MilkTable
+  /** Hive inspections (queen, brood, swarm cells, varroa) */
+  hive_inspections: HiveInspectionTable
+  /** Honey and wax harvested per hive */
+  hive_harvests: HiveHarvestTable
+  /** Wool clip per shearing of a batch */
+  shearing_records: ShearingTable
+  /** Matings and pregnancy diagnoses with expected due dates */
+  breeding_events: BreedingEventTable
+  /** Kidding, lambing and calving outcomes and weaning */
+  birth_records: BirthRecordTable
   /** Periodic weight sampling records */
   weight_samples: WeightTable
 
@@ -274,16 +342,22 @@ export interface Database {
   customers: CustomerTable
   /** Supplier contacts */
   suppliers: SupplierTable
+  /** Feed orders suggested by the feed forecast */
+  feed_purchase_orders: FeedPurchaseOrderTable
   /** Sales invoices */
   invoices: InvoiceTable
   /** Invoice line items */
   invoice_items: InvoiceItemTable
+  /** Payments received against invoices */
+  invoice_payments: InvoicePaymentTable
 
   // ============================================
   // Monitoring & Reports
   // ============================================
   /** System audit logs */
   audit_logs: AuditLogTable
+  /** Scheduled job run history */
+  job_runs: JobRunTable
   /** Expected growth standards by species */
   growth_standards: GrowthStandardTable
   /** Current market prices by species */
@@ -296,10 +370,14 @@ export interface Database {
   task_completions: TaskCompletionTable
   /** Saved report configurations */
   report_configs: ReportConfigTable
+  /** Registry of keys that sign credit passports */
+  signing_keys: SigningKeyTable
   /** Credit reports for farmers */
   credit_reports: CreditReportTable
   /** Report access requests */
   report_requests: ReportRequestTable
+  /** Lender API consents */
+  lender_consents: LenderConsentTable
   /** Report access audit logs */
   report_access_logs: ReportAccessLogTable
 
@@ -324,6 +402,8 @@ export interface Database {
   // ============================================
   // IoT Sensors
   // ============================================
+  /** Gateways posting readings for several sensors */
+  sensor_gateways: SensorGatewayTable
   /** IoT sensors for environmental monitoring */
   sensors: SensorTable
   /** Time-series sensor readings */
@@ -334,6 +414,18 @@ export interface Database {
   sensor_alerts: SensorAlertTable
   /** Per-sensor alert configuration */
   sensor_alert_config: SensorAlertConfigTable
+  /** Per-farm sensor data retention policy */
+  sensor_retention_policies: SensorRetentionPolicyTable
+  /** Raw readings exported to storage before deletion */
+  sensor_reading_archives: SensorReadingArchiveTable
+  /** Relay-controlled devices (fans, foggers, aerators) */
+  actuators: ActuatorTable
+  /** Sensor-driven actuator rules */
+  actuator_rules: ActuatorRuleTable
+  /** Commands queued for actuators to poll */
+  actuator_commands: ActuatorCommandTable
+  /** Audit trail of actuator state changes */
+  actuator_state_changes: ActuatorStateChangeTable
 
   // ============================================
   // Offline Marketplace
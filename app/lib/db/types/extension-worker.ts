@@ -99,6 +99,20 @@ export interface VisitRecordTable {
   updatedAt: Generated<Date>
 }
 
+/** Detection statistics an outbreak alert was raised on */
+export interface OutbreakSignalSnapshot {
+  cusum: number
+  ewma: number
+  ewmaLimit: number
+  /** Cause-weighted deaths per 1000 animals per day */
+  baselineRate: number
+  recentRate: number
+  diseaseShare: number
+  neighbourDistrictIds: Array<string>
+  baselineDays: number
+  detectionDays: number
+}
+
 /** Outbreak alerts for disease monitoring */
 export interface OutbreakAlertTable {
   id: Generated<string>
@@ -110,7 +124,10 @@ export interface OutbreakAlertTable {
   detectedAt: Generated<Date>
   resolvedAt: Date | null
   notes: string | null
-  createdBy: string
+  /** Detection confidence 0-1, DECIMAL(3,2); null for manual alerts */
+  confidence: string | null
+  signals: OutbreakSignalSnapshot | null
+  createdBy: string // User ID, or 'system' for detected alerts
   updatedAt: Generated<Date>
   updatedBy: string
 }
@@ -1,4 +1,5 @@
 import type { Generated } from 'kysely'
+import type { FeedInventoryTable } from './feed'
 
 // Financial
 export interface SaleTable {
@@ -7,7 +8,22 @@ export interface SaleTable {
   batchId: string | null
   customerId: string | null
   invoiceId: string | null // Link to invoice if generated
-  livestockType: 'poultry' | 'fish' | 'cattle' | 'goats' | 'sheep' | 'bees'
+  livestockType:
+    | 'poultry'
+    | 'fish'
+    | 'cattle'
+    | 'goats'
+    | 'sheep'
+    | 'bees'
+    // Products sold without changing a batch head count
+    | 'eggs'
+    | 'honey'
+    | 'milk'
+    | 'wool'
+    | 'beeswax'
+    | 'propolis'
+    | 'royal_jelly'
+    | 'manure'
   quantity: number
   unitPrice: string // DECIMAL(19,2) - returned as string from pg
   totalAmount: string // DECIMAL(19,2) - returned as string from pg
@@ -25,13 +41,7 @@ export interface SaleTable {
   averageWeightKg: string | null // DECIMAL(8,3) - Weight at sale
   paymentStatus: 'paid' | 'pending' | 'partial' | null
   paymentMethod:
-    | 'cash'
-    | 'transfer'
-    | 'credit'
-    | 'mobile_money'
-    | 'check'
-    | 'card'
-    | null
+    'cash' | 'transfer' | 'credit' | 'mobile_money' | 'check' | 'card' | null
   date: Date
   notes: string | null
   createdAt: Generated<Date>
@@ -112,11 +122,34 @@ export interface SupplierTable {
     | 'bee_supplier'
     | 'other'
     | null
+  leadTimeDays: number | null // Days from order to delivery
   createdAt: Generated<Date>
   updatedAt: Generated<Date>
   deletedAt: Date | null
 }
 
+// Feed purchase orders
+export interface FeedPurchaseOrderItem {
+  feedType: FeedInventoryTable['feedType']
+  quantityKg: number
+  estimatedCost: number | null
+}
+
+export interface FeedPurchaseOrderTable {
+  id: Generated<string>
+  farmId: string
+  supplierId: string | null
+  status: Generated<'ordered' | 'received' | 'cancelled'>
+  items: Array<FeedPurchaseOrderItem> // JSONB
+  estimatedCost: string | null // DECIMAL(19,2) - returned as string from pg
+  expectedDeliveryDate: Date
+  expenseId: string | null // Expense recorded when the order was received
+  receivedAt: Date | null
+  createdBy: string | null
+  createdAt: Generated<Date>
+  updatedAt: Generated<Date>
+}
+
 // Invoices
 export interface InvoiceTable {
   id: Generated<string>
@@ -143,3 +176,16 @@ export interface InvoiceItemTable {
   unitPrice: string // DECIMAL(19,2) - returned as string from pg
   total: string // DECIMAL(19,2) - returned as string from pg
 }
+
+export interface InvoicePaymentTable {
+  id: Generated<string>
+  invoiceId: string
+  amount: string // DECIMAL(19,2) - returned as string from pg
+  date: Date
+  method: NonNullable<SaleTable['paymentMethod']>
+  reference: string | null // Bank/mobile money transaction ID, cheque number
+  attachmentUrl: string | null // Proof of payment (receipt or transfer screenshot)
+  notes: string | null
+  recordedBy: string | null
+  createdAt: Generated<Date>
+}
@@ -3,6 +3,7 @@ import type { Generated } from 'kysely'
 export interface MortalityTable {
   id: Generated<string>
   batchId: string
+  animalId: string | null // Set when the record concerns one tagged animal
   quantity: number
   date: Date
   cause:
@@ -23,6 +24,7 @@ export interface MortalityTable {
 export interface VaccinationTable {
   id: Generated<string>
   batchId: string
+  animalId: string | null // Set when the record concerns one tagged animal
   vaccineName: string
   dateAdministered: Date
   dosage: string
@@ -36,6 +38,7 @@ export interface VaccinationTable {
 export interface TreatmentTable {
   id: Generated<string>
   batchId: string
+  animalId: string | null // Set when the record concerns one tagged animal
   medicationName: string
   reason: string
   date: Date
@@ -30,7 +30,14 @@ export type {
   BreedTable,
   BreedRequestTable,
   BatchTable,
+  AnimalTable,
   EggTable,
+  MilkTable,
+  HiveInspectionTable,
+  HiveHarvestTable,
+  ShearingTable,
+  BreedingEventTable,
+  BirthRecordTable,
   WeightTable,
 } from './livestock'
 
@@ -61,21 +68,29 @@ export type {
   ExpenseTable,
   CustomerTable,
   SupplierTable,
+  FeedPurchaseOrderItem,
+  FeedPurchaseOrderTable,
   InvoiceTable,
   InvoiceItemTable,
+  InvoicePaymentTable,
 } from './financial'
 
 // Monitoring types
 export type {
   AuditLogTable,
   GrowthStandardTable,
+  JobRunTable,
   MarketPriceTable,
   NotificationTable,
   TaskTable,
   TaskCompletionTable,
   ReportConfigTable,
+  SigningKeyStatus,
+  SigningKeyTable,
   CreditReportTable,
   ReportRequestTable,
+  LenderScope,
+  LenderConsentTable,
   ReportAccessLogTable,
 } from './monitoring'
 
@@ -96,12 +111,26 @@ export type {
   SensorType,
   SensorThresholds,
   SensorTrendConfig,
+  SensorDerivation,
+  SensorGatewayTable,
   SensorTable,
   SensorReadingTable,
   SensorAggregateTable,
   SensorAlertType,
   SensorAlertTable,
   SensorAlertConfigTable,
+  SensorRetentionPolicyTable,
+  SensorReadingArchiveTable,
+  ActuatorType,
+  ActuatorState,
+  ActuatorMode,
+  ActuatorRuleCondition,
+  ActuatorCommandStatus,
+  ActuatorChangeSource,
+  ActuatorTable,
+  ActuatorRuleTable,
+  ActuatorCommandTable,
+  ActuatorStateChangeTable,
 } from './sensors'
 
 // Marketplace types
@@ -125,5 +154,6 @@ export type {
   SpeciesThresholdTable,
   VisitRecordTable,
   OutbreakAlertTable,
+  OutbreakSignalSnapshot,
   OutbreakAlertFarmTable,
 } from './extension-worker'
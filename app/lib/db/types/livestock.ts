@@ -66,6 +66,27 @@ export interface BatchTable {
   deletedAt: Date | null
 }
 
+// Individually tagged animal, optionally part of a batch
+export interface AnimalTable {
+  id: Generated<string>
+  farmId: string
+  batchId: string | null
+  livestockType: 'cattle' | 'goats' | 'sheep'
+  tagNumber: string // Ear tag, unique per farm among live records
+  rfid: string | null // Electronic ID, unique per farm when present
+  name: string | null
+  sex: 'male' | 'female'
+  dateOfBirth: Date | null
+  damId: string | null // Mother (animals.id)
+  sireId: string | null // Father (animals.id)
+  status: Generated<'active' | 'sold' | 'dead' | 'culled'>
+  structureId: string | null
+  notes: string | null
+  createdAt: Generated<Date>
+  updatedAt: Generated<Date>
+  deletedAt: Date | null
+}
+
 export interface EggTable {
   id: Generated<string>
   batchId: string
@@ -76,9 +97,102 @@ export interface EggTable {
   createdAt: Generated<Date>
 }
 
+export interface MilkTable {
+  id: Generated<string>
+  batchId: string
+  date: Date
+  morningLiters: string // DECIMAL(10,2) - returned as string from pg
+  eveningLiters: string // DECIMAL(10,2) - returned as string from pg
+  rejectedLiters: string // DECIMAL(10,2) - Not fit for sale (withdrawal, mastitis)
+  rejectionReason: 'withdrawal' | 'mastitis' | 'spoiled' | 'other' | null
+  butterfatPercent: string | null // DECIMAL(4,2)
+  animalsMilked: number | null // Head milked, for yield per animal
+  notes: string | null
+  createdAt: Generated<Date>
+}
+
+// Apiary - one row per inspection of a hive structure
+export interface HiveInspectionTable {
+  id: Generated<string>
+  structureId: string // structures.type = 'hive'
+  date: Date
+  queenSeen: Generated<boolean>
+  broodPattern: 'solid' | 'spotty' | 'none'
+  swarmCells: Generated<number> // Queen cells indicating swarm preparation
+  varroaCount: number | null // Mites per ~300-bee wash or sugar roll
+  framesOfBees: number | null // Colony strength
+  temperament: 'calm' | 'nervous' | 'aggressive' | null
+  notes: string | null
+  createdAt: Generated<Date>
+}
+
+// Apiary - honey or wax taken from a hive structure
+export interface HiveHarvestTable {
+  id: Generated<string>
+  structureId: string // structures.type = 'hive'
+  date: Date
+  product: 'honey' | 'wax'
+  quantityKg: string // DECIMAL(10,2) - returned as string from pg
+  framesHarvested: number | null
+  notes: string | null
+  createdAt: Generated<Date>
+}
+
+// Wool clip from one shearing of a batch
+export interface ShearingTable {
+  id: Generated<string>
+  batchId: string
+  structureId: string | null // structures.type = 'shearing_shed'
+  date: Date
+  fleeceCount: number
+  greasyWeightKg: string // DECIMAL(10,2) - returned as string from pg
+  micronGrade: string | null // DECIMAL(4,1) - mean fibre diameter in microns
+  yieldPercent: string | null // DECIMAL(5,2) - clean wool as % of greasy
+  notes: string | null
+  createdAt: Generated<Date>
+}
+
+// Mating of a tagged dam or a group of females in a batch
+export interface BreedingEventTable {
+  id: Generated<string>
+  farmId: string
+  batchId: string
+  damId: string | null // Tagged dam (animals.id), null for group mating
+  sireId: string | null // Tagged sire (animals.id)
+  sireDescription: string | null // Unregistered sire or AI straw
+  livestockType: 'cattle' | 'goats' | 'sheep'
+  method: Generated<'natural' | 'ai'>
+  femaleCount: Generated<number> // Females bred in this event
+  matingDate: Date
+  expectedDueDate: Date // matingDate + species gestation length
+  status: Generated<'bred' | 'pregnant' | 'open' | 'delivered' | 'aborted'>
+  diagnosisDate: Date | null
+  notes: string | null
+  createdAt: Generated<Date>
+  updatedAt: Generated<Date>
+}
+
+// Kidding, lambing or calving from a breeding event
+export interface BirthRecordTable {
+  id: Generated<string>
+  breedingEventId: string
+  offspringBatchId: string | null // Batch the live-born were added to
+  createdBatch: Generated<boolean> // true when offspringBatchId was created for this birth
+  birthDate: Date
+  damCount: Generated<number> // Females that gave birth
+  liveBorn: number
+  stillborn: Generated<number>
+  weanedCount: number | null
+  weaningDate: Date | null
+  notes: string | null
+  createdAt: Generated<Date>
+  updatedAt: Generated<Date>
+}
+
 export interface WeightTable {
   id: Generated<string>
   batchId: string
+  animalId: string | null // Set when a single tagged animal was weighed
   date: Date
   sampleSize: number
   averageWeightKg: string // DECIMAL(8,3) - returned as string from pg
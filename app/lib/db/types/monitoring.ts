@@ -13,6 +13,21 @@ export interface AuditLogTable {
   createdAt: Generated<Date>
 }
 
+// Scheduled job run history
+export interface JobRunTable {
+  id: Generated<string>
+  jobName: string
+  trigger: 'cron' | 'manual'
+  cron: string | null // Cron expression for scheduled runs
+  triggeredBy: string | null // User who started a manual run
+  status: Generated<'running' | 'success' | 'failed'>
+  startedAt: Generated<Date>
+  finishedAt: Date | null
+  durationMs: number | null
+  result: Record<string, unknown> | null
+  error: string | null
+}
+
 // Growth Standards
 // Note: Columns match actual DB schema from migration
 export interface GrowthStandardTable {
@@ -127,6 +142,38 @@ export interface ReportConfigTable {
   updatedAt: Generated<Date>
 }
 
+/**
+ * Lifecycle of a passport signing key. Retired keys were rotated out and
+ * still vouch for what they signed; revoked keys were compromised and do not.
+ */
+export type SigningKeyStatus = 'active' | 'retired' | 'revoked'
+
+/**
+ * Published registry of Ed25519 keys that sign credit passports
+ */
+export interface SigningKeyTable {
+  /** Unique key record identifier */
+  id: Generated<string>
+  /** Public key ID, a fingerprint of the public key */
+  keyId: string
+  /** Signature algorithm */
+  algorithm: Generated<'Ed25519'>
+  /** Hex-encoded public key */
+  publicKey: string
+  /** Key lifecycle status */
+  status: Generated<SigningKeyStatus>
+  /** When the key started signing */
+  validFrom: Date
+  /** When the key was rotated out */
+  validUntil: Date | null
+  /** When the key was revoked */
+  revokedAt: Date | null
+  /** Why the key was revoked */
+  revocationReason: string | null
+  createdAt: Generated<Date>
+  updatedAt: Generated<Date>
+}
+
 /**
  * Credit reports for farmers
  */
@@ -155,6 +202,8 @@ export interface CreditReportTable {
   signature: string
   /** Public key for verification */
   publicKey: string
+  /** Registry key that signed the report */
+  keyId: string | null
   /** PDF URL */
   pdfUrl: string | null
   /** Metrics snapshot */
@@ -198,6 +247,46 @@ export interface ReportRequestTable {
   responseNotes: string | null
 }
 
+/**
+ * Lender data scopes a farmer can consent to
+ */
+export type LenderScope =
+  'financial' | 'operational' | 'track_record' | 'credit_score'
+
+/**
+ * Farmer-granted, time-boxed consent for a lender to pull passport metrics
+ */
+export interface LenderConsentTable {
+  /** Unique consent identifier */
+  id: Generated<string>
+  /** Farmer user ID */
+  userId: string
+  /** Farm IDs the lender may see */
+  farmIds: Array<string>
+  /** Metric groups the lender may pull */
+  scopes: Array<LenderScope>
+  /** Lender name */
+  lenderName: string
+  /** Lender contact email */
+  lenderEmail: string | null
+  /** Why the lender needs access, e.g. the loan it supports */
+  purpose: string | null
+  /** Months of history metrics are computed over */
+  periodMonths: Generated<number>
+  /** SHA-256 hash of the access token */
+  tokenHash: string
+  /** Last characters of the token, to tell tokens apart */
+  tokenHint: string
+  /** When the consent lapses */
+  expiresAt: Date
+  /** When the farmer revoked the consent */
+  revokedAt: Date | null
+  /** Last successful pull */
+  lastAccessedAt: Date | null
+  createdAt: Generated<Date>
+  updatedAt: Generated<Date>
+}
+
 /**
  * Report access audit logs
  */
@@ -205,9 +294,13 @@ export interface ReportAccessLogTable {
   /** Unique log identifier */
   id: Generated<string>
   /** Report ID that was accessed */
-  reportId: string
+  reportId: string | null
+  /** Lender consent used for an API pull */
+  consentId: string | null
   /** Type of access */
-  accessType: 'view' | 'download' | 'verify'
+  accessType: 'view' | 'download' | 'verify' | 'api'
+  /** Scopes returned by an API pull */
+  scopes: Array<LenderScope> | null
   /** Accessor IP address */
   accessorIp: string | null
   /** Accessor user agent */
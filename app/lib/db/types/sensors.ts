@@ -16,6 +16,9 @@ export type SensorType =
   | 'hive_weight'
   | 'hive_temperature'
   | 'hive_humidity'
+  | 'heat_index'
+  | 'thi'
+  | 'unionized_ammonia'
 
 /** Sensor threshold configuration */
 export interface SensorThresholds {
@@ -25,12 +28,32 @@ export interface SensorThresholds {
   warningMaxValue: number | null
 }
 
+/**
+ * Input sensors of a derived sensor, keyed by the input's sensor type
+ */
+export type SensorDerivation = Partial<Record<SensorType, string>>
+
 /** Sensor trend alert configuration */
 export interface SensorTrendConfig {
   rateThreshold: number
   rateWindowMinutes: number
 }
 
+/**
+ * Gateways that post readings for several sensors with one credential
+ */
+export interface SensorGatewayTable {
+  id: Generated<string>
+  farmId: string
+  name: string
+  apiKeyHash: string
+  isActive: Generated<boolean>
+  lastSeenAt: Date | null
+  requestCount: Generated<number>
+  createdAt: Generated<Date>
+  deletedAt: Date | null
+}
+
 /**
  * IoT sensors for environmental monitoring
  */
@@ -46,8 +69,14 @@ export interface SensorTable {
   lastReadingAt: Date | null
   lastUsedAt: Date | null
   requestCount: Generated<number>
+  /** Gateway the sensor reports through, if any */
+  gatewayId: string | null
+  /** Channel identifying the sensor on its gateway (e.g. MQTT topic suffix) */
+  channel: string | null
   thresholds: SensorThresholds | null
   trendConfig: SensorTrendConfig | null
+  /** Input sensors for derived types (heat index, THI, ...); null for physical sensors */
+  derivedFrom: SensorDerivation | null
   createdAt: Generated<Date>
   deletedAt: Date | null
 }
@@ -79,12 +108,16 @@ export interface SensorAggregateTable {
   readingCount: number
 }
 
-/** Alert types for sensors */
+/**
+ * Alert types for sensors. `sensor_malfunction` reports a faulty sensor
+ * rather than a problem with the environment it measures.
+ */
 export type SensorAlertType =
   | 'threshold_high'
   | 'threshold_low'
   | 'trend_rising'
   | 'trend_falling'
+  | 'sensor_malfunction'
 
 /**
  * Sensor alert history
@@ -100,6 +133,10 @@ export interface SensorAlertTable {
   acknowledged: Generated<boolean>
   acknowledgedAt: Date | null
   acknowledgedBy: string | null
+  /** Times the alert has been escalated while unacknowledged */
+  escalationLevel: Generated<number>
+  /** When recipients were last notified about the alert */
+  lastNotifiedAt: Date | null
   createdAt: Generated<Date>
 }
 
@@ -121,3 +158,126 @@ export interface SensorAlertConfigTable {
   createdAt: Generated<Date>
   updatedAt: Generated<Date>
 }
+
+/**
+ * Per-farm retention policy for sensor data. Farms without a row use the
+ * defaults in `DEFAULT_RETENTION_POLICY`.
+ */
+export interface SensorRetentionPolicyTable {
+  id: Generated<string>
+  farmId: string
+  /** Days raw readings are kept before archival */
+  rawRetentionDays: Generated<number>
+  /** Days hourly aggregates are kept */
+  hourlyRetentionDays: Generated<number>
+  /** Days daily aggregates are kept; null keeps them forever */
+  dailyRetentionDays: number | null
+  /** Export raw readings to storage before deleting them */
+  archiveRawReadings: Generated<boolean>
+  createdAt: Generated<Date>
+  updatedAt: Generated<Date>
+}
+
+/**
+ * Raw readings exported to storage as gzipped NDJSON, one file per sensor-day
+ */
+export interface SensorReadingArchiveTable {
+  id: Generated<string>
+  sensorId: string
+  periodStart: Date
+  periodEnd: Date
+  storageKey: string
+  readingCount: number
+  sizeBytes: number
+  createdAt: Generated<Date>
+}
+
+export type ActuatorType =
+  'fan' | 'fogger' | 'heater' | 'aerator' | 'pump' | 'light'
+
+export type ActuatorState = 'on' | 'off'
+
+/** `auto` follows rules; `manual` holds a user-set state */
+export type ActuatorMode = 'auto' | 'manual'
+
+/**
+ * Conditions an actuator rule checks. `above`/`below` compare readings to a
+ * value; `rising`/`falling` compare the rate of change per hour.
+ */
+export type ActuatorRuleCondition = 'above' | 'below' | 'rising' | 'falling'
+
+export type ActuatorCommandStatus =
+  'pending' | 'delivered' | 'acknowledged' | 'superseded'
+
+/** What caused an actuator state change */
+export type ActuatorChangeSource =
+  'rule' | 'manual' | 'override_expired' | 'device'
+
+/**
+ * Relay-controlled devices driven by rules or manual override
+ */
+export interface ActuatorTable {
+  id: Generated<string>
+  farmId: string
+  structureId: string
+  name: string
+  actuatorType: ActuatorType
+  apiKeyHash: string
+  state: Generated<ActuatorState>
+  /** State last acknowledged by the device */
+  reportedState: ActuatorState | null
+  mode: Generated<ActuatorMode>
+  overrideUntil: Date | null
+  isActive: Generated<boolean>
+  lastSeenAt: Date | null
+  requestCount: Generated<number>
+  createdAt: Generated<Date>
+  deletedAt: Date | null
+}
+
+/**
+ * Rules switching an actuator when a sensor condition holds for a duration
+ */
+export interface ActuatorRuleTable {
+  id: Generated<string>
+  actuatorId: string
+  sensorId: string
+  condition: ActuatorRuleCondition
+  threshold: string // DECIMAL(10,4)
+  durationMinutes: Generated<number>
+  action: ActuatorState
+  isActive: Generated<boolean>
+  lastTriggeredAt: Date | null
+  createdAt: Generated<Date>
+}
+
+/**
+ * Commands queued for devices to poll
+ */
+export interface ActuatorCommandTable {
+  id: Generated<string>
+  actuatorId: string
+  command: ActuatorState
+  status: Generated<ActuatorCommandStatus>
+  createdAt: Generated<Date>
+  deliveredAt: Date | null
+  acknowledgedAt: Date | null
+}
+
+/**
+ * Audit trail of actuator state and mode changes
+ */
+export interface ActuatorStateChangeTable {
+  id: Generated<string>
+  actuatorId: string
+  fromState: ActuatorState | null
+  toState: ActuatorState
+  fromMode: ActuatorMode | null
+  toMode: ActuatorMode | null
+  source: ActuatorChangeSource
+  ruleId: string | null
+  userId: string | null
+  commandId: string | null
+  reason: string | null
+  createdAt: Generated<Date>
+}
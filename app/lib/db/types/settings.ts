@@ -70,6 +70,8 @@ export interface UserSettingsTable {
   mortalityAlertPercent: number
   /** Minimum absolute quantity for mortality alerts */
   mortalityAlertQuantity: number
+  /** Percentage above the target FCR at which feed efficiency alerts fire */
+  fcrAlertTolerancePercent: number
   /** Enabled/disabled status for specific notification types */
   notifications: {
     lowStock: boolean
@@ -24,6 +24,12 @@ export const ErrorMap = {
     category: 'AUTH',
     message: 'Invalid sensor API key',
   },
+  INVALID_CONSENT_TOKEN: {
+    code: 40104,
+    httpStatus: 401,
+    category: 'AUTH',
+    message: 'Invalid lender access token',
+  },
 
   // Forbidden (403xx)
   ACCESS_DENIED: {
@@ -56,6 +62,36 @@ export const ErrorMap = {
     category: 'FORBIDDEN',
     message: 'Only the listing owner can perform this action',
   },
+  GATEWAY_INACTIVE: {
+    code: 40305,
+    httpStatus: 403,
+    category: 'FORBIDDEN',
+    message: 'Sensor gateway is deactivated',
+  },
+  ACTUATOR_INACTIVE: {
+    code: 40306,
+    httpStatus: 403,
+    category: 'FORBIDDEN',
+    message: 'Actuator is deactivated',
+  },
+  CONSENT_EXPIRED: {
+    code: 40307,
+    httpStatus: 403,
+    category: 'FORBIDDEN',
+    message: 'Lender consent has expired',
+  },
+  CONSENT_REVOKED: {
+    code: 40308,
+    httpStatus: 403,
+    category: 'FORBIDDEN',
+    message: 'Lender consent has been revoked',
+  },
+  CONSENT_SCOPE_DENIED: {
+    code: 40309,
+    httpStatus: 403,
+    category: 'FORBIDDEN',
+    message: 'Lender consent does not cover the requested data',
+  },
 
   // Not Found (404xx)
   NOT_FOUND: {
@@ -489,6 +525,108 @@ export const ErrorMap = {
     category: 'NOT_FOUND',
     message: 'Alert not found',
   },
+  INVOICE_PAYMENT_NOT_FOUND: {
+    code: 40441,
+    httpStatus: 404,
+    category: 'NOT_FOUND',
+    message: 'Invoice payment not found',
+  },
+  MILK_RECORD_NOT_FOUND: {
+    code: 40442,
+    httpStatus: 404,
+    category: 'NOT_FOUND',
+    message: 'Milk record not found',
+  },
+  HIVE_INSPECTION_NOT_FOUND: {
+    code: 40443,
+    httpStatus: 404,
+    category: 'NOT_FOUND',
+    message: 'Hive inspection not found',
+  },
+  HIVE_HARVEST_NOT_FOUND: {
+    code: 40444,
+    httpStatus: 404,
+    category: 'NOT_FOUND',
+    message: 'Hive harvest not found',
+  },
+  SHEARING_RECORD_NOT_FOUND: {
+    code: 40445,
+    httpStatus: 404,
+    category: 'NOT_FOUND',
+    message: 'Shearing record not found',
+  },
+  ANIMAL_NOT_FOUND: {
+    code: 40446,
+    httpStatus: 404,
+    category: 'NOT_FOUND',
+    message: 'Animal not found',
+  },
+  BREEDING_EVENT_NOT_FOUND: {
+    code: 40447,
+    httpStatus: 404,
+    category: 'NOT_FOUND',
+    message: 'Breeding event not found',
+  },
+  BIRTH_RECORD_NOT_FOUND: {
+    code: 40448,
+    httpStatus: 404,
+    category: 'NOT_FOUND',
+    message: 'Birth record not found',
+  },
+  JOB_NOT_FOUND: {
+    code: 40449,
+    httpStatus: 404,
+    category: 'NOT_FOUND',
+    message: 'Scheduled job not found',
+  },
+  GATEWAY_NOT_FOUND: {
+    code: 40450,
+    httpStatus: 404,
+    category: 'NOT_FOUND',
+    message: 'Sensor gateway not found',
+  },
+  ACTUATOR_NOT_FOUND: {
+    code: 40451,
+    httpStatus: 404,
+    category: 'NOT_FOUND',
+    message: 'Actuator not found',
+  },
+  ACTUATOR_RULE_NOT_FOUND: {
+    code: 40452,
+    httpStatus: 404,
+    category: 'NOT_FOUND',
+    message: 'Actuator rule not found',
+  },
+  ACTUATOR_COMMAND_NOT_FOUND: {
+    code: 40453,
+    httpStatus: 404,
+    category: 'NOT_FOUND',
+    message: 'Actuator command not found',
+  },
+  FEED_PURCHASE_ORDER_NOT_FOUND: {
+    code: 40454,
+    httpStatus: 404,
+    category: 'NOT_FOUND',
+    message: 'Feed purchase order not found',
+  },
+  LENDER_CONSENT_NOT_FOUND: {
+    code: 40455,
+    httpStatus: 404,
+    category: 'NOT_FOUND',
+    message: 'Lender consent not found',
+  },
+  SCORING_PROFILE_NOT_FOUND: {
+    code: 40456,
+    httpStatus: 404,
+    category: 'NOT_FOUND',
+    message: 'Credit scoring profile not found',
+  },
+  SIGNING_KEY_NOT_FOUND: {
+    code: 40457,
+    httpStatus: 404,
+    category: 'NOT_FOUND',
+    message: 'Signing key not found',
+  },
 
   // CONFLICT (409xx) - Start at 40906
   CONFLICT: {
@@ -509,6 +647,42 @@ export const ErrorMap = {
     category: 'CONFLICT',
     message: 'Cannot delete region with assigned farms',
   },
+  DUPLICATE_ANIMAL_TAG: {
+    code: 40908,
+    httpStatus: 409,
+    category: 'CONFLICT',
+    message: 'An animal with this tag or RFID already exists on this farm',
+  },
+  WITHDRAWAL_PERIOD_ACTIVE: {
+    code: 40909,
+    httpStatus: 409,
+    category: 'CONFLICT',
+    message: 'Batch is still within a treatment withdrawal period',
+  },
+  JOB_ALREADY_RUNNING: {
+    code: 40910,
+    httpStatus: 409,
+    category: 'CONFLICT',
+    message: 'This job is already running',
+  },
+  GATEWAY_CHANNEL_TAKEN: {
+    code: 40911,
+    httpStatus: 409,
+    category: 'CONFLICT',
+    message: 'Another sensor already uses this gateway channel',
+  },
+  FEED_PURCHASE_ORDER_CLOSED: {
+    code: 40912,
+    httpStatus: 409,
+    category: 'CONFLICT',
+    message: 'This purchase order has already been received or cancelled',
+  },
+  SIGNING_KEY_ALREADY_REVOKED: {
+    code: 40913,
+    httpStatus: 409,
+    category: 'CONFLICT',
+    message: 'This signing key has already been revoked',
+  },
 
   RATE_LIMIT_EXCEEDED: {
     code: 42900,
@@ -534,6 +708,12 @@ export const ErrorMap = {
     category: 'VALIDATION',
     message: 'Invalid CSRF token',
   },
+  PAYMENT_EXCEEDS_BALANCE: {
+    code: 40020,
+    httpStatus: 400,
+    category: 'VALIDATION',
+    message: 'Payment amount exceeds the outstanding balance',
+  },
 
   // Server (500xx)
   INTERNAL_ERROR: {
@@ -578,6 +758,18 @@ export const ErrorMap = {
     category: 'SERVER',
     message: 'Failed to generate credit report',
   },
+  SIGNING_KEY_UNAVAILABLE: {
+    code: 50007,
+    httpStatus: 500,
+    category: 'SERVER',
+    message: 'Credit passport signing key is not configured',
+  },
+  SIGNING_KEY_REVOKED: {
+    code: 50008,
+    httpStatus: 500,
+    category: 'SERVER',
+    message: 'Credit passport signing key has been revoked or retired',
+  },
   FEATURE_DISABLED: {
     code: 50100,
     httpStatus: 501,
@@ -0,0 +1,45 @@
+/**
+ * CSV helpers for report exports.
+ *
+ * Values are escaped per RFC 4180 so customer names, notes and other free
+ * text containing commas, quotes or line breaks stay in a single column.
+ */
+
+/**
+ * A single CSV cell value. `null`/`undefined` become empty cells.
+ */
+export type CsvValue = string | number | boolean | null | undefined
+
+/**
+ * Escape a value for use as a CSV field.
+ *
+ * @param value - Raw cell value
+ * @returns The value, wrapped in double quotes (with inner quotes doubled)
+ * when it contains a comma, quote or line break
+ *
+ * @example
+ * ```typescript
+ * escapeCsvValue('Mama Put, Lagos') // '"Mama Put, Lagos"'
+ * escapeCsvValue('12" pipe') // '"12"" pipe"'
+ * escapeCsvValue(42) // '42'
+ * ```
+ */
+export function escapeCsvValue(value: CsvValue): string {
+  if (value === null || value === undefined) return ''
+  const text = String(value)
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`
+  }
+  return text
+}
+
+/**
+ * Serialize rows into a CSV document. An empty row produces a blank line,
+ * which the report exports use to separate sections.
+ *
+ * @param rows - Rows of cell values
+ * @returns CSV text terminated by a newline
+ */
+export function toCsv(rows: Array<Array<CsvValue>>): string {
+  return rows.map((row) => row.map(escapeCsvValue).join(',') + '\n').join('')
+}
@@ -0,0 +1,821 @@
+/**
+ * PDF Document Templates
+ *
+ * React-PDF layouts for invoices, reports and payment receipts.
+ * Only loaded on the server through the lazy imports in `./pdf`.
+ */
+
+import React from 'react'
+import { Document, Page, StyleSheet, Text, View } from '@react-pdf/renderer'
+import type { ReactElement } from 'react'
+import type { DocumentProps } from '@react-pdf/renderer'
+import type {
+  InvoicePDFOptions,
+  PaymentReceiptPDFOptions,
+  PdfFormatSettings,
+  ReportPDFOptions,
+} from './pdf'
+import { formatCurrency } from '~/features/settings/currency-formatter'
+import { formatDate } from '~/features/settings/date-formatter'
+
+/**
+ * A template that returns the whole `<Document>`, so its output can be
+ * rendered directly
+ */
+export type PdfDocumentTemplate<TProps> = (
+  props: TProps,
+) => ReactElement<DocumentProps>
+
+const styles = StyleSheet.create({
+  page: { padding: 36, fontSize: 10, fontFamily: 'Helvetica' },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 24,
+  },
+  title: { fontSize: 20, fontFamily: 'Helvetica-Bold' },
+  subtitle: { fontSize: 10, color: '#555555', marginTop: 2 },
+  section: { marginBottom: 16 },
+  sectionTitle: {
+    fontSize: 12,
+    fontFamily: 'Helvetica-Bold',
+    marginBottom: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 3,
+  },
+  tableHeader: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+    borderBottomColor: '#333333',
+    paddingBottom: 4,
+    marginBottom: 4,
+    fontFamily: 'Helvetica-Bold',
+  },
+  tableRow: {
+    flexDirection: 'row',
+    borderBottomWidth: 0.5,
+    borderBottomColor: '#dddddd',
+    paddingVertical: 3,
+  },
+  cell: { flex: 1 },
+  cellWide: { flex: 2 },
+  cellRight: { flex: 1, textAlign: 'right' },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+    fontSize: 12,
+    fontFamily: 'Helvetica-Bold',
+  },
+  muted: { color: '#555555' },
+  footer: {
+    position: 'absolute',
+    bottom: 24,
+    left: 36,
+    right: 36,
+    fontSize: 8,
+    color: '#777777',
+    textAlign: 'center',
+  },
+})
+
+type Column = {
+  label: string
+  width?: 'wide' | 'normal'
+  align?: 'left' | 'right'
+}
+
+function cellStyle(column: Column) {
+  if (column.align === 'right') return styles.cellRight
+  return column.width === 'wide' ? styles.cellWide : styles.cell
+}
+
+const Table: React.FC<{
+  columns: Array<Column>
+  rows: Array<Array<string | number>>
+}> = ({ columns, rows }) => (
+  <View>
+    <View style={styles.tableHeader}>
+      {columns.map((column) => (
+        <Text key={column.label} style={cellStyle(column)}>
+          {column.label}
+        </Text>
+      ))}
+    </View>
+    {rows.map((row, rowIndex) => (
+      <View key={rowIndex} style={styles.tableRow} wrap={false}>
+        {row.map((value, colIndex) => (
+          <Text key={colIndex} style={cellStyle(columns[colIndex])}>
+            {value}
+          </Text>
+        ))}
+      </View>
+    ))}
+  </View>
+)
+
+const LabelValue: React.FC<{ label: string; value: string | number }> = ({
+  label,
+  value,
+}) => (
+  <View style={styles.row}>
+    <Text>{label}</Text>
+    <Text>{value}</Text>
+  </View>
+)
+
+const Footer: React.FC<{ generatedAt: Date; settings: PdfFormatSettings }> = ({
+  generatedAt,
+  settings,
+}) => (
+  <Text
+    style={styles.footer}
+    fixed
+    render={({ pageNumber, totalPages }) =>
+      `Generated by LivestockAI on ${formatDate(generatedAt, settings)} - Page ${pageNumber} of ${totalPages}`
+    }
+  />
+)
+
+// ============================================================================
+// Invoice
+// ============================================================================
+
+export const InvoiceDocument: PdfDocumentTemplate<{
+  invoice: InvoicePDFOptions
+  settings: PdfFormatSettings
+}> = ({ invoice, settings }) => {
+  const money = (value: number) => formatCurrency(value, settings)
+
+  return (
+    <Document title={`Invoice ${invoice.invoiceNumber}`}>
+      <Page size="A4" style={styles.page}>
+        <View style={styles.header}>
+          <View>
+            <Text style={styles.title}>INVOICE</Text>
+            <Text style={styles.subtitle}>{invoice.invoiceNumber}</Text>
+          </View>
+          <View style={{ alignItems: 'flex-end' }}>
+            <Text style={{ fontFamily: 'Helvetica-Bold', fontSize: 12 }}>
+              {invoice.farmName}
+            </Text>
+            {invoice.farmLocation && (
+              <Text style={styles.muted}>{invoice.farmLocation}</Text>
+            )}
+          </View>
+        </View>
+
+        <View style={[styles.header, { marginBottom: 16 }]}>
+          <View>
+            <Text style={styles.sectionTitle}>Bill To</Text>
+            <Text>{invoice.customerName}</Text>
+            {invoice.customerPhone && <Text>{invoice.customerPhone}</Text>}
+            {invoice.customerEmail && <Text>{invoice.customerEmail}</Text>}
+            {invoice.customerLocation && (
+              <Text>{invoice.customerLocation}</Text>
+            )}
+          </View>
+          <View style={{ alignItems: 'flex-end' }}>
+            <Text>Date: {formatDate(invoice.date, settings)}</Text>
+            {invoice.dueDate && (
+              <Text>Due: {formatDate(invoice.dueDate, settings)}</Text>
+            )}
+            <Text style={{ marginTop: 4, fontFamily: 'Helvetica-Bold' }}>
+              {invoice.status.toUpperCase()}
+            </Text>
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Table
+            columns={[
+              { label: 'Description', width: 'wide' },
+              { label: 'Qty', align: 'right' },
+              { label: 'Unit Price', align: 'right' },
+              { label: 'Total', align: 'right' },
+            ]}
+            rows={invoice.items.map((item) => [
+              item.description,
+              item.quantity,
+              money(item.unitPrice),
+              money(item.total),
+            ])}
+          />
+          <View style={styles.totalRow}>
+            <Text>Total: {money(invoice.totalAmount)}</Text>
+          </View>
+          {invoice.amountPaid !== undefined && invoice.amountPaid > 0 && (
+            <View style={{ alignItems: 'flex-end', marginTop: 4 }}>
+              <Text>Paid: {money(invoice.amountPaid)}</Text>
+              <Text style={{ fontFamily: 'Helvetica-Bold' }}>
+                Balance Due: {money(invoice.balanceDue ?? 0)}
+              </Text>
+            </View>
+          )}
+        </View>
+
+        {invoice.notes && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Notes</Text>
+            <Text>{invoice.notes}</Text>
+          </View>
+        )}
+
+        <Footer generatedAt={new Date()} settings={settings} />
+      </Page>
+    </Document>
+  )
+}
+
+// ============================================================================
+// Reports
+// ============================================================================
+
+const REPORT_TITLES: Record<ReportPDFOptions['reportType'], string> = {
+  'profit-loss': 'Profit & Loss Report',
+  inventory: 'Inventory Report',
+  sales: 'Sales Report',
+  feed: 'Feed Report',
+  eggs: 'Egg Production Report',
+  milk: 'Milk Production Report',
+  apiary: 'Apiary Report',
+  breeding: 'Breeding Report',
+}
+
+const ReportBody: React.FC<{
+  options: ReportPDFOptions
+  settings: PdfFormatSettings
+}> = ({ options, settings }) => {
+  const money = (value: number) => formatCurrency(value, settings)
+  const date = (value: Date | string) => formatDate(value, settings)
+
+  switch (options.reportType) {
+    case 'profit-loss': {
+      const { report } = options
+      return (
+        <>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Revenue</Text>
+            <Table
+              columns={[{ label: 'Type' }, { label: 'Amount', align: 'right' }]}
+              rows={report.revenue.byType.map((r) => [r.type, money(r.amount)])}
+            />
+            <LabelValue
+              label="Total Revenue"
+              value={money(report.revenue.total)}
+            />
+          </View>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Expenses</Text>
+            <Table
+              columns={[
+                { label: 'Category' },
+                { label: 'Amount', align: 'right' },
+              ]}
+              rows={report.expenses.byCategory.map((e) => [
+                e.category,
+                money(e.amount),
+              ])}
+            />
+            <LabelValue
+              label="Total Expenses"
+              value={money(report.expenses.total)}
+            />
+          </View>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Summary</Text>
+            <LabelValue label="Net Profit" value={money(report.profit)} />
+            <LabelValue
+              label="Profit Margin"
+              value={`${report.profitMargin}%`}
+            />
+          </View>
+          {report.wool && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Wool</Text>
+              <LabelValue label="Fleeces" value={report.wool.fleeceCount} />
+              <LabelValue
+                label="Greasy Weight"
+                value={`${report.wool.greasyWeightKg} kg`}
+              />
+              <LabelValue
+                label="Clean Weight"
+                value={`${report.wool.cleanWeightKg} kg`}
+              />
+              <LabelValue
+                label="Wool Revenue"
+                value={money(report.wool.revenue)}
+              />
+              <LabelValue
+                label="Revenue per Fleece"
+                value={money(report.wool.revenuePerFleece)}
+              />
+              <LabelValue
+                label="Revenue per kg"
+                value={money(report.wool.revenuePerKg)}
+              />
+            </View>
+          )}
+        </>
+      )
+    }
+
+    case 'inventory': {
+      const { report } = options
+      return (
+        <>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Summary</Text>
+            <LabelValue
+              label="Total Poultry"
+              value={report.summary.totalPoultry}
+            />
+            <LabelValue label="Total Fish" value={report.summary.totalFish} />
+            <LabelValue
+              label="Total Mortality"
+              value={report.summary.totalMortality}
+            />
+            <LabelValue
+              label="Overall Mortality Rate"
+              value={`${report.summary.overallMortalityRate}%`}
+            />
+          </View>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Batches</Text>
+            <Table
+              columns={[
+                { label: 'Species' },
+                { label: 'Type' },
+                { label: 'Initial', align: 'right' },
+                { label: 'Current', align: 'right' },
+                { label: 'Mortality', align: 'right' },
+                { label: 'Rate', align: 'right' },
+                { label: 'Status' },
+              ]}
+              rows={report.batches.map((b) => [
+                b.species,
+                b.livestockType,
+                b.initialQuantity,
+                b.currentQuantity,
+                b.mortalityCount,
+                `${b.mortalityRate}%`,
+                b.status,
+              ])}
+            />
+          </View>
+        </>
+      )
+    }
+
+    case 'sales': {
+      const { report } = options
+      return (
+        <>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Summary</Text>
+            <LabelValue label="Total Sales" value={report.summary.totalSales} />
+            <LabelValue
+              label="Total Revenue"
+              value={money(report.summary.totalRevenue)}
+            />
+          </View>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>By Type</Text>
+            <Table
+              columns={[
+                { label: 'Type' },
+                { label: 'Quantity', align: 'right' },
+                { label: 'Revenue', align: 'right' },
+              ]}
+              rows={report.summary.byType.map((t) => [
+                t.type,
+                t.quantity,
+                money(t.revenue),
+              ])}
+            />
+          </View>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Transactions</Text>
+            <Table
+              columns={[
+                { label: 'Date' },
+                { label: 'Type' },
+                { label: 'Qty', align: 'right' },
+                { label: 'Unit Price', align: 'right' },
+                { label: 'Total', align: 'right' },
+                { label: 'Customer', width: 'wide' },
+              ]}
+              rows={report.sales.map((s) => [
+                date(s.date),
+                s.livestockType,
+                s.quantity,
+                money(s.unitPrice),
+                money(s.totalAmount),
+                s.customerName || '',
+              ])}
+            />
+          </View>
+        </>
+      )
+    }
+
+    case 'feed': {
+      const { report } = options
+      return (
+        <>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Summary</Text>
+            <LabelValue
+              label="Total Feed (kg)"
+              value={report.summary.totalFeedKg}
+            />
+            <LabelValue
+              label="Total Cost"
+              value={money(report.summary.totalCost)}
+            />
+          </View>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>By Feed Type</Text>
+            <Table
+              columns={[
+                { label: 'Feed Type' },
+                { label: 'Quantity (kg)', align: 'right' },
+                { label: 'Cost', align: 'right' },
+              ]}
+              rows={report.summary.byFeedType.map((f) => [
+                f.type,
+                f.quantityKg,
+                money(f.cost),
+              ])}
+            />
+          </View>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Records</Text>
+            <Table
+              columns={[
+                { label: 'Species' },
+                { label: 'Feed Type' },
+                { label: 'Quantity (kg)', align: 'right' },
+                { label: 'Cost', align: 'right' },
+              ]}
+              rows={report.records.map((r) => [
+                r.species,
+                r.feedType,
+                r.totalQuantityKg,
+                money(r.totalCost),
+              ])}
+            />
+          </View>
+          {report.fcr.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Feed Conversion</Text>
+              <Table
+                columns={[
+                  { label: 'Species' },
+                  { label: 'Cumulative FCR', align: 'right' },
+                  { label: 'Period FCR', align: 'right' },
+                  { label: 'Target', align: 'right' },
+                ]}
+                rows={report.fcr.map((f) => [
+                  f.species,
+                  f.cumulativeFcr ?? '-',
+                  f.periodFcr ?? '-',
+                  f.targetFcr ?? '-',
+                ])}
+              />
+            </View>
+          )}
+        </>
+      )
+    }
+
+    case 'eggs': {
+      const { report } = options
+      return (
+        <>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Summary</Text>
+            <LabelValue
+              label="Total Collected"
+              value={report.summary.totalCollected}
+            />
+            <LabelValue label="Total Sold" value={report.summary.totalSold} />
+            <LabelValue
+              label="Total Broken"
+              value={report.summary.totalBroken}
+            />
+            <LabelValue
+              label="Current Inventory"
+              value={report.summary.currentInventory}
+            />
+            <LabelValue
+              label="Average Laying %"
+              value={`${report.summary.averageLayingPercentage}%`}
+            />
+          </View>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Daily Records</Text>
+            <Table
+              columns={[
+                { label: 'Date' },
+                { label: 'Collected', align: 'right' },
+                { label: 'Broken', align: 'right' },
+                { label: 'Sold', align: 'right' },
+                { label: 'Inventory', align: 'right' },
+              ]}
+              rows={report.records.map((r) => [
+                date(r.date),
+                r.collected,
+                r.broken,
+                r.sold,
+                r.inventory,
+              ])}
+            />
+          </View>
+        </>
+      )
+    }
+
+    case 'milk': {
+      const { report } = options
+      return (
+        <>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Summary</Text>
+            <LabelValue
+              label="Total Milk (L)"
+              value={report.summary.totalLiters}
+            />
+            <LabelValue
+              label="Rejected (L)"
+              value={report.summary.totalRejected}
+            />
+            <LabelValue
+              label="Saleable (L)"
+              value={report.summary.totalSaleable}
+            />
+            <LabelValue label="Sold (L)" value={report.summary.totalSold} />
+            <LabelValue
+              label="Average Daily Yield (L)"
+              value={report.summary.averageDailyYield}
+            />
+            <LabelValue
+              label="Yield per Animal (L)"
+              value={report.summary.averageYieldPerAnimal}
+            />
+            <LabelValue
+              label="Average Butterfat %"
+              value={
+                report.summary.averageButterfat !== null
+                  ? `${report.summary.averageButterfat}%`
+                  : '-'
+              }
+            />
+          </View>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Daily Records</Text>
+            <Table
+              columns={[
+                { label: 'Date' },
+                { label: 'Morning (L)', align: 'right' },
+                { label: 'Evening (L)', align: 'right' },
+                { label: 'Total (L)', align: 'right' },
+                { label: 'Rejected (L)', align: 'right' },
+                { label: 'Butterfat %', align: 'right' },
+              ]}
+              rows={report.records.map((r) => [
+                date(r.date),
+                r.morning,
+                r.evening,
+                r.total,
+                r.rejected,
+                r.averageButterfat ?? '-',
+              ])}
+            />
+          </View>
+        </>
+      )
+    }
+
+    case 'apiary': {
+      const { report } = options
+      return (
+        <>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Summary</Text>
+            <LabelValue label="Colonies" value={report.summary.colonyCount} />
+            <LabelValue
+              label="Total Honey (kg)"
+              value={report.summary.totalHoneyKg}
+            />
+            <LabelValue
+              label="Total Wax (kg)"
+              value={report.summary.totalWaxKg}
+            />
+            <LabelValue
+              label="Honey per Colony (kg)"
+              value={report.summary.honeyPerColony}
+            />
+            <LabelValue
+              label="Wax per Colony (kg)"
+              value={report.summary.waxPerColony}
+            />
+            <LabelValue
+              label="Hives Needing Attention"
+              value={report.summary.hivesNeedingAttention}
+            />
+          </View>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Hives</Text>
+            <Table
+              columns={[
+                { label: 'Hive' },
+                { label: 'Honey (kg)', align: 'right' },
+                { label: 'Wax (kg)', align: 'right' },
+                { label: 'Inspections', align: 'right' },
+                { label: 'Last Inspection' },
+                { label: 'Varroa', align: 'right' },
+                { label: 'Attention' },
+              ]}
+              rows={report.records.map((r) => [
+                r.hiveName,
+                r.honeyKg,
+                r.waxKg,
+                r.inspections,
+                r.lastInspection ? date(r.lastInspection) : '-',
+                r.latestVarroaCount ?? '-',
+                r.needsAttention ? 'Yes' : 'No',
+              ])}
+            />
+          </View>
+        </>
+      )
+    }
+
+    case 'breeding': {
+      const { report } = options
+      const pct = (value: number | null) => (value === null ? '-' : `${value}%`)
+      return (
+        <>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Summary</Text>
+            <LabelValue label="Matings" value={report.summary.matings} />
+            <LabelValue
+              label="Females Bred"
+              value={report.summary.femalesBred}
+            />
+            <LabelValue
+              label="Awaiting Birth"
+              value={report.summary.awaitingBirth}
+            />
+            <LabelValue label="Overdue" value={report.summary.overdue} />
+            <LabelValue label="Live Born" value={report.summary.liveBorn} />
+            <LabelValue label="Stillborn" value={report.summary.stillborn} />
+            <LabelValue label="Weaned" value={report.summary.weaned} />
+            <LabelValue
+              label="Kidding/Lambing/Calving Rate"
+              value={pct(report.summary.kiddingRate)}
+            />
+            <LabelValue
+              label="Weaning %"
+              value={pct(report.summary.weaningPercent)}
+            />
+            <LabelValue
+              label="Birth Interval (days)"
+              value={report.summary.calvingIntervalDays ?? '-'}
+            />
+          </View>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Batches</Text>
+            <Table
+              columns={[
+                { label: 'Batch' },
+                { label: 'Type' },
+                { label: 'Bred', align: 'right' },
+                { label: 'Awaiting', align: 'right' },
+                { label: 'Live Born', align: 'right' },
+                { label: 'Stillborn', align: 'right' },
+                { label: 'Weaned', align: 'right' },
+                { label: 'Rate', align: 'right' },
+              ]}
+              rows={report.records.map((r) => [
+                r.batchName,
+                r.livestockType,
+                r.femalesBred,
+                r.awaitingBirth,
+                r.liveBorn,
+                r.stillborn,
+                r.weaned,
+                pct(r.kiddingRate),
+              ])}
+            />
+          </View>
+        </>
+      )
+    }
+  }
+}
+
+export const ReportDocument: PdfDocumentTemplate<{
+  options: ReportPDFOptions
+  settings: PdfFormatSettings
+}> = ({ options, settings }) => (
+  <Document title={REPORT_TITLES[options.reportType]}>
+    <Page size="A4" style={styles.page}>
+      <View style={styles.header}>
+        <View>
+          <Text style={styles.title}>{REPORT_TITLES[options.reportType]}</Text>
+          {options.period && (
+            <Text style={styles.subtitle}>
+              Period: {formatDate(options.period.startDate, settings)} to{' '}
+              {formatDate(options.period.endDate, settings)}
+            </Text>
+          )}
+        </View>
+        {options.farmName && (
+          <Text style={{ fontFamily: 'Helvetica-Bold' }}>
+            {options.farmName}
+          </Text>
+        )}
+      </View>
+
+      <ReportBody options={options} settings={settings} />
+
+      <Footer generatedAt={new Date()} settings={settings} />
+    </Page>
+  </Document>
+)
+
+// ============================================================================
+// Payment Receipt
+// ============================================================================
+
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  cash: 'Cash',
+  bank_transfer: 'Bank Transfer',
+  transfer: 'Bank Transfer',
+  mobile_money: 'Mobile Money',
+  check: 'Check',
+  card: 'Card',
+  credit: 'Credit',
+}
+
+export const PaymentReceiptDocument: PdfDocumentTemplate<{
+  receipt: PaymentReceiptPDFOptions
+  settings: PdfFormatSettings
+}> = ({ receipt, settings }) => {
+  const money = (value: number) => formatCurrency(value, settings)
+  const balance = receipt.grossWages - receipt.amountPaid
+
+  return (
+    <Document title={`Receipt ${receipt.receiptNumber}`}>
+      <Page size="A5" style={styles.page}>
+        <View style={styles.header}>
+          <View>
+            <Text style={styles.title}>PAYMENT RECEIPT</Text>
+            <Text style={styles.subtitle}>{receipt.receiptNumber}</Text>
+          </View>
+          <Text style={{ fontFamily: 'Helvetica-Bold' }}>
+            {receipt.farmName}
+          </Text>
+        </View>
+
+        <View style={styles.section}>
+          <LabelValue label="Paid To" value={receipt.workerName} />
+          <LabelValue
+            label="Payment Date"
+            value={formatDate(receipt.paymentDate, settings)}
+          />
+          <LabelValue
+            label="Pay Period"
+            value={`${formatDate(receipt.periodStart, settings)} - ${formatDate(receipt.periodEnd, settings)}`}
+          />
+          <LabelValue
+            label="Payment Method"
+            value={
+              PAYMENT_METHOD_LABELS[receipt.paymentMethod] ??
+              receipt.paymentMethod
+            }
+          />
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Wages</Text>
+          <LabelValue label="Hours Worked" value={receipt.totalHours} />
+          <LabelValue
+            label={`Rate (${receipt.wageRateType})`}
+            value={money(receipt.wageRate)}
+          />
+          <LabelValue label="Gross Wages" value={money(receipt.grossWages)} />
+          <LabelValue label="Amount Paid" value={money(receipt.amountPaid)} />
+          <LabelValue label="Balance" value={money(Math.max(0, balance))} />
+        </View>
+
+        <Footer generatedAt={new Date()} settings={settings} />
+      </Page>
+    </Document>
+  )
+}
@@ -1,36 +1,194 @@
 /**
  * PDF Export Service
- * DISABLED - PDF export removed to reduce bundle size
+ *
+ * Server-side PDF rendering for invoices, reports and payment receipts.
+ * `@react-pdf/renderer` and the document templates are imported lazily so
+ * they never end up in the client bundle; the browser only receives the
+ * rendered bytes (base64 encoded) and hands them to `downloadPDF`.
  */
 
+import type { ReactElement } from 'react'
+import type { DocumentProps } from '@react-pdf/renderer'
+import type { UserSettings } from '~/features/settings/currency-presets'
+import type {
+  ApiaryReport,
+  BreedingReport,
+  DateRange,
+  EggReport,
+  FeedReport,
+  InventoryReport,
+  MilkReport,
+  ProfitLossReport,
+  SalesReport,
+} from '~/features/reports/server'
+import { DEFAULT_SETTINGS } from '~/features/settings/currency-presets'
+
+/**
+ * Subset of user settings that controls money and date formatting in PDFs.
+ */
+export type PdfFormatSettings = Pick<
+  UserSettings,
+  | 'currencySymbol'
+  | 'currencySymbolPosition'
+  | 'currencyDecimals'
+  | 'thousandSeparator'
+  | 'decimalSeparator'
+  | 'dateFormat'
+>
+
+/**
+ * Invoice content rendered into the invoice PDF.
+ */
+export interface InvoicePDFOptions {
+  invoiceNumber: string
+  date: Date | string
+  dueDate: Date | string | null
+  status: 'unpaid' | 'partial' | 'paid'
+  farmName: string
+  farmLocation: string | null
+  customerName: string
+  customerPhone: string | null
+  customerEmail: string | null
+  customerLocation: string | null
+  items: Array<{
+    description: string
+    quantity: number
+    unitPrice: number
+    total: number
+  }>
+  totalAmount: number
+  /** Sum of payments recorded so far */
+  amountPaid?: number
+  /** Outstanding balance after payments */
+  balanceDue?: number
+  notes: string | null
+}
+
+/**
+ * Report content rendered into a report PDF, keyed by report type.
+ */
+export type ReportPDFOptions = {
+  /** Farm name shown in the header (omitted for all-farm reports) */
+  farmName?: string
+  /** Reporting window shown under the title */
+  period?: DateRange
+} & (
+  | { reportType: 'profit-loss'; report: ProfitLossReport }
+  | { reportType: 'inventory'; report: InventoryReport }
+  | { reportType: 'sales'; report: SalesReport }
+  | { reportType: 'feed'; report: FeedReport }
+  | { reportType: 'eggs'; report: EggReport }
+  | { reportType: 'milk'; report: MilkReport }
+  | { reportType: 'apiary'; report: ApiaryReport }
+  | { reportType: 'breeding'; report: BreedingReport }
+)
+
+/**
+ * Worker wage payment details rendered into a receipt PDF.
+ */
+export interface PaymentReceiptPDFOptions {
+  receiptNumber: string
+  paymentDate: Date | string
+  farmName: string
+  workerName: string
+  periodStart: Date | string
+  periodEnd: Date | string
+  totalHours: number
+  wageRate: number
+  wageRateType: 'hourly' | 'daily' | 'monthly'
+  grossWages: number
+  amountPaid: number
+  paymentMethod: string
+}
+
+/**
+ * Render a React-PDF document to bytes.
+ * The renderer is loaded on demand to keep it out of the initial bundle.
+ */
+export async function renderPdf(
+  element: ReactElement<DocumentProps>,
+): Promise<Uint8Array> {
+  const { renderToBuffer } = await import('@react-pdf/renderer')
+  const buffer = await renderToBuffer(element)
+  return new Uint8Array(buffer)
+}
+
+/**
+ * Generate an invoice PDF
+ *
+ * @param invoice - Invoice header, customer and line items
+ * @param settings - Currency/date formatting preferences (defaults to USD/ISO)
+ * @returns PDF file bytes
+ */
+export async function generateInvoicePDF(
+  invoice: InvoicePDFOptions,
+  settings: PdfFormatSettings = DEFAULT_SETTINGS,
+): Promise<Uint8Array> {
+  const { InvoiceDocument } = await import('./pdf-documents')
+  return renderPdf(InvoiceDocument({ invoice, settings }))
+}
+
 /**
- * Generate invoice PDF (disabled)
+ * Generate a PDF for any of the five report types
+ *
+ * @param options - Report type and the report data returned by the reports module
+ * @param settings - Currency/date formatting preferences (defaults to USD/ISO)
+ * @returns PDF file bytes
  */
-export function generateInvoicePDF(_options: any): any {
-  throw new Error('PDF export disabled to reduce bundle size')
+export async function generateReportPDF(
+  options: ReportPDFOptions,
+  settings: PdfFormatSettings = DEFAULT_SETTINGS,
+): Promise<Uint8Array> {
+  const { ReportDocument } = await import('./pdf-documents')
+  return renderPdf(ReportDocument({ options, settings }))
 }
 
 /**
- * Generate report PDF (disabled)
+ * Generate a wage payment receipt PDF
+ *
+ * @param receipt - Payment, worker and pay period details
+ * @param settings - Currency/date formatting preferences (defaults to USD/ISO)
+ * @returns PDF file bytes
  */
-export function generateReportPDF(_options: any): any {
-  throw new Error('PDF export disabled to reduce bundle size')
+export async function generatePaymentReceiptPDF(
+  receipt: PaymentReceiptPDFOptions,
+  settings: PdfFormatSettings = DEFAULT_SETTINGS,
+): Promise<Uint8Array> {
+  const { PaymentReceiptDocument } = await import('./pdf-documents')
+  return renderPdf(PaymentReceiptDocument({ receipt, settings }))
 }
 
 /**
- * Generate payment receipt PDF (disabled)
+ * Encode PDF bytes as base64 so they can be returned from a server function.
+ *
+ * @param bytes - PDF file bytes
+ * @returns Base64 string
  */
-export function generatePaymentReceiptPDF(_options: any): any {
-  throw new Error('PDF export disabled to reduce bundle size')
+export function pdfToBase64(bytes: Uint8Array): string {
+  let binary = ''
+  const chunkSize = 0x8000
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize))
+  }
+  return btoa(binary)
 }
 
 /**
- * Download PDF (disabled)
+ * Trigger a browser download for a PDF returned by a server function.
+ *
+ * @param base64Content - Base64 encoded PDF bytes
+ * @param filename - File name without the `.pdf` extension
  */
-export function downloadPDF(
-  _doc: any,
-  _filename: string,
-  _settings?: any,
-): void {
-  throw new Error('PDF export disabled to reduce bundle size')
+export function downloadPDF(base64Content: string, filename: string): void {
+  const binary = atob(base64Content)
+  const bytes = Uint8Array.from(binary, (c) => c.charCodeAt(0))
+  const blob = new Blob([bytes], { type: 'application/pdf' })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename.endsWith('.pdf') ? filename : `${filename}.pdf`
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
 }
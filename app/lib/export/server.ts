@@ -1,17 +1,29 @@
+import { toCsv } from './csv'
+import type { CsvValue } from './csv'
+import type { PdfFormatSettings, ReportPDFOptions } from './pdf'
+import type { InventoryStock } from './xlsx'
 import {
+  getApiaryReport,
+  getBreedingReport,
   getEggReport,
   getFeedReport,
   getInventoryReport,
+  getMilkReport,
   getProfitLossReport,
   getSalesReport,
 } from '~/features/reports/server'
+import { getFeedInventoryFn } from '~/features/inventory/feed-server'
+import { getMedicationInventoryFn } from '~/features/inventory/medication-server'
+import { getSuppliesInventoryFn } from '~/features/inventory/supplies-server'
+import { formatDate } from '~/features/settings/date-formatter'
 import { AppError } from '~/lib/errors'
+import { DEFAULT_SETTINGS } from '~/features/settings/currency-presets'
 
 /**
  * @module Export
  *
  * Handles data export functionality for various system reports.
- * Converts report data into downloadable formats (CSV, etc.).
+ * Converts report data into downloadable formats (CSV, XLSX, PDF).
  */
 
 /**
@@ -31,181 +43,505 @@ export interface ExportOptions {
 }
 
 /**
- * Orchestrates data retrieval and transformation into CSV format for export.
- *
- * @param options - Report type and filtering criteria
- * @returns Object contains raw CSV string and metadata for browser download
+ * Downloadable file produced by an export.
  */
-export async function generateExportData(options: ExportOptions): Promise<{
+export interface ExportResult {
+  /** File body: plain text for CSV, base64 for binary formats */
   content: string
+  /** Encoding of `content` */
+  encoding: 'utf-8' | 'base64'
   filename: string
   mimeType: string
-}> {
-  try {
-    let csvContent = ''
-    let filename = ''
-
-    switch (options.reportType) {
-      case 'profit-loss': {
-        const report = await getProfitLossReport({
-          data: {
-            farmId: options.farmId,
-            startDate: new Date(options.startDate).toISOString(),
-            endDate: new Date(options.endDate).toISOString(),
-            dateRangeType: 'custom',
-          },
-        })
-        filename = `profit-loss-report-${options.startDate}-to-${options.endDate}`
-
-        csvContent = 'Profit & Loss Report\n'
-        csvContent += `Period: ${options.startDate} to ${options.endDate}\n\n`
-
-        csvContent += 'REVENUE\n'
-        csvContent += 'Type,Amount\n'
-        for (const item of report.revenue.byType) {
-          csvContent += `${item.type},${item.amount}\n`
-        }
-        csvContent += `Total Revenue,${report.revenue.total}\n\n`
-
-        csvContent += 'EXPENSES\n'
-        csvContent += 'Category,Amount\n'
-        for (const item of report.expenses.byCategory) {
-          csvContent += `${item.category},${item.amount}\n`
-        }
-        csvContent += `Total Expenses,${report.expenses.total}\n\n`
-
-        csvContent += 'SUMMARY\n'
-        csvContent += `Net Profit,${report.profit}\n`
-        csvContent += `Profit Margin,${report.profitMargin}%\n`
-        break
-      }
-
-      case 'inventory': {
-        const report = await getInventoryReport({
+}
+
+/**
+ * Report data paired with its type, as consumed by the PDF templates.
+ */
+type LoadedReport = ReportPDFOptions & { filename: string }
+
+/**
+ * Fetch the report data for an export request.
+ *
+ * @param options - Report type and filtering criteria
+ * @returns The report tagged with its type and a base filename
+ */
+async function loadReport(options: ExportOptions): Promise<LoadedReport> {
+  const range = {
+    farmId: options.farmId,
+    startDate: new Date(options.startDate).toISOString(),
+    endDate: new Date(options.endDate).toISOString(),
+    dateRangeType: 'custom' as const,
+  }
+  const period = {
+    startDate: new Date(options.startDate),
+    endDate: new Date(options.endDate),
+  }
+
+  switch (options.reportType) {
+    case 'profit-loss':
+      return {
+        reportType: 'profit-loss',
+        report: await getProfitLossReport({ data: range }),
+        period,
+        filename: `profit-loss-report-${options.startDate}-to-${options.endDate}`,
+      }
+    case 'inventory':
+      return {
+        reportType: 'inventory',
+        report: await getInventoryReport({
           data: { farmId: options.farmId },
-        })
-        filename = `inventory-report-${new Date().toISOString().split('T')[0]}`
-
-        csvContent = 'Inventory Report\n\n'
-        csvContent += 'SUMMARY\n'
-        csvContent += `Total Poultry,${report.summary.totalPoultry}\n`
-        csvContent += `Total Fish,${report.summary.totalFish}\n`
-        csvContent += `Total Mortality,${report.summary.totalMortality}\n`
-        csvContent += `Overall Mortality Rate,${report.summary.overallMortalityRate}%\n\n`
-
-        csvContent += 'BATCHES\n'
-        csvContent +=
-          'Species,Type,Initial Qty,Current Qty,Mortality,Mortality Rate,Status\n'
-        for (const batch of report.batches) {
-          csvContent += `${batch.species},${batch.livestockType},${batch.initialQuantity},${batch.currentQuantity},${batch.mortalityCount},${batch.mortalityRate}%,${batch.status}\n`
-        }
-        break
-      }
-
-      case 'sales': {
-        const report = await getSalesReport({
-          data: {
-            farmId: options.farmId,
-            startDate: new Date(options.startDate).toISOString(),
-            endDate: new Date(options.endDate).toISOString(),
-            dateRangeType: 'custom',
-          },
-        })
-        filename = `sales-report-${options.startDate}-to-${options.endDate}`
-
-        csvContent = 'Sales Report\n'
-        csvContent += `Period: ${options.startDate} to ${options.endDate}\n\n`
-
-        csvContent += 'SUMMARY\n'
-        csvContent += `Total Sales,${report.summary.totalSales}\n`
-        csvContent += `Total Revenue,${report.summary.totalRevenue}\n\n`
-
-        csvContent += 'BY TYPE\n'
-        csvContent += 'Type,Quantity,Revenue\n'
-        for (const item of report.summary.byType) {
-          csvContent += `${item.type},${item.quantity},${item.revenue}\n`
-        }
-        csvContent += '\n'
-
-        csvContent += 'TRANSACTIONS\n'
-        csvContent += 'Date,Type,Quantity,Unit Price,Total,Customer\n'
-        for (const sale of report.sales) {
-          csvContent += `${new Date(sale.date).toLocaleDateString()},${sale.livestockType},${sale.quantity},${sale.unitPrice},${sale.totalAmount},${sale.customerName || ''}\n`
-        }
-        break
-      }
-
-      case 'feed': {
-        const report = await getFeedReport({
-          data: {
-            farmId: options.farmId,
-            startDate: new Date(options.startDate).toISOString(),
-            endDate: new Date(options.endDate).toISOString(),
-            dateRangeType: 'custom',
-          },
-        })
-        filename = `feed-report-${options.startDate}-to-${options.endDate}`
-
-        csvContent = 'Feed Report\n'
-        csvContent += `Period: ${options.startDate} to ${options.endDate}\n\n`
-
-        csvContent += 'SUMMARY\n'
-        csvContent += `Total Feed (kg),${report.summary.totalFeedKg}\n`
-        csvContent += `Total Cost,${report.summary.totalCost}\n\n`
-
-        csvContent += 'BY FEED TYPE\n'
-        csvContent += 'Feed Type,Quantity (kg),Cost\n'
-        for (const item of report.summary.byFeedType) {
-          csvContent += `${item.type},${item.quantityKg},${item.cost}\n`
-        }
-        csvContent += '\n'
-
-        csvContent += 'RECORDS\n'
-        csvContent += 'Species,Feed Type,Quantity (kg),Cost\n'
-        for (const record of report.records) {
-          csvContent += `${record.species},${record.feedType},${record.totalQuantityKg},${record.totalCost}\n`
-        }
-        break
-      }
-
-      case 'eggs': {
-        const report = await getEggReport({
-          data: {
-            farmId: options.farmId,
-            startDate: new Date(options.startDate).toISOString(),
-            endDate: new Date(options.endDate).toISOString(),
-            dateRangeType: 'custom',
-          },
-        })
-        filename = `egg-production-report-${options.startDate}-to-${options.endDate}`
-
-        csvContent = 'Egg Production Report\n'
-        csvContent += `Period: ${options.startDate} to ${options.endDate}\n\n`
-
-        csvContent += 'SUMMARY\n'
-        csvContent += `Total Collected,${report.summary.totalCollected}\n`
-        csvContent += `Total Sold,${report.summary.totalSold}\n`
-        csvContent += `Total Broken,${report.summary.totalBroken}\n`
-        csvContent += `Current Inventory,${report.summary.currentInventory}\n`
-        csvContent += `Average Laying %,${report.summary.averageLayingPercentage}%\n\n`
-
-        csvContent += 'DAILY RECORDS\n'
-        csvContent += 'Date,Collected,Broken,Sold,Inventory\n'
-        for (const record of report.records) {
-          csvContent += `${new Date(record.date).toLocaleDateString()},${record.collected},${record.broken},${record.sold},${record.inventory}\n`
-        }
-        break
-      }
-
-      default:
-        throw new AppError('VALIDATION_ERROR', {
-          message: `Unknown report type: ${options.reportType}`,
-        })
+        }),
+        filename: `inventory-report-${new Date().toISOString().split('T')[0]}`,
+      }
+    case 'sales':
+      return {
+        reportType: 'sales',
+        report: await getSalesReport({ data: range }),
+        period,
+        filename: `sales-report-${options.startDate}-to-${options.endDate}`,
+      }
+    case 'feed':
+      return {
+        reportType: 'feed',
+        report: await getFeedReport({ data: range }),
+        period,
+        filename: `feed-report-${options.startDate}-to-${options.endDate}`,
+      }
+    case 'eggs':
+      return {
+        reportType: 'eggs',
+        report: await getEggReport({ data: range }),
+        period,
+        filename: `egg-production-report-${options.startDate}-to-${options.endDate}`,
+      }
+    case 'milk':
+      return {
+        reportType: 'milk',
+        report: await getMilkReport({ data: range }),
+        period,
+        filename: `milk-production-report-${options.startDate}-to-${options.endDate}`,
+      }
+    case 'apiary':
+      return {
+        reportType: 'apiary',
+        report: await getApiaryReport({ data: range }),
+        period,
+        filename: `apiary-report-${options.startDate}-to-${options.endDate}`,
+      }
+    case 'breeding':
+      return {
+        reportType: 'breeding',
+        report: await getBreedingReport({ data: range }),
+        period,
+        filename: `breeding-report-${options.startDate}-to-${options.endDate}`,
+      }
+    default:
+      throw new AppError('VALIDATION_ERROR', {
+        message: `Unknown report type: ${options.reportType}`,
+      })
+  }
+}
+
+/**
+ * Build the CSV body for a loaded report.
+ *
+ * @param loaded - Report data tagged with its type
+ * @param options - Original export options (used for the period header)
+ * @param settings - Date preferences applied to transaction dates
+ * @returns CSV string
+ */
+function buildCsv(
+  loaded: LoadedReport,
+  options: ExportOptions,
+  settings: PdfFormatSettings,
+): string {
+  const period = `Period: ${options.startDate} to ${options.endDate}`
+  const rows: Array<Array<CsvValue>> = []
+
+  switch (loaded.reportType) {
+    case 'profit-loss': {
+      const { report } = loaded
+      rows.push(['Profit & Loss Report'], [period], [])
+
+      rows.push(['REVENUE'], ['Type', 'Amount'])
+      for (const item of report.revenue.byType) {
+        rows.push([item.type, item.amount])
+      }
+      rows.push(['Total Revenue', report.revenue.total], [])
+
+      rows.push(['EXPENSES'], ['Category', 'Amount'])
+      for (const item of report.expenses.byCategory) {
+        rows.push([item.category, item.amount])
+      }
+      rows.push(['Total Expenses', report.expenses.total], [])
+
+      rows.push(
+        ['SUMMARY'],
+        ['Net Profit', report.profit],
+        ['Profit Margin', `${report.profitMargin}%`],
+      )
+
+      if (report.wool) {
+        rows.push(
+          [],
+          ['WOOL'],
+          ['Fleeces', report.wool.fleeceCount],
+          ['Greasy Weight (kg)', report.wool.greasyWeightKg],
+          ['Clean Weight (kg)', report.wool.cleanWeightKg],
+          ['Wool Revenue', report.wool.revenue],
+          ['Revenue per Fleece', report.wool.revenuePerFleece],
+          ['Revenue per kg', report.wool.revenuePerKg],
+        )
+      }
+      break
+    }
+
+    case 'inventory': {
+      const { report } = loaded
+      rows.push(['Inventory Report'], [])
+      rows.push(
+        ['SUMMARY'],
+        ['Total Poultry', report.summary.totalPoultry],
+        ['Total Fish', report.summary.totalFish],
+        ['Total Mortality', report.summary.totalMortality],
+        ['Overall Mortality Rate', `${report.summary.overallMortalityRate}%`],
+        [],
+      )
+
+      rows.push(
+        ['BATCHES'],
+        [
+          'Species',
+          'Type',
+          'Initial Qty',
+          'Current Qty',
+          'Mortality',
+          'Mortality Rate',
+          'Status',
+        ],
+      )
+      for (const batch of report.batches) {
+        rows.push([
+          batch.species,
+          batch.livestockType,
+          batch.initialQuantity,
+          batch.currentQuantity,
+          batch.mortalityCount,
+          `${batch.mortalityRate}%`,
+          batch.status,
+        ])
+      }
+      break
+    }
+
+    case 'sales': {
+      const { report } = loaded
+      rows.push(['Sales Report'], [period], [])
+
+      rows.push(
+        ['SUMMARY'],
+        ['Total Sales', report.summary.totalSales],
+        ['Total Revenue', report.summary.totalRevenue],
+        [],
+      )
+
+      rows.push(['BY TYPE'], ['Type', 'Quantity', 'Revenue'])
+      for (const item of report.summary.byType) {
+        rows.push([item.type, item.quantity, item.revenue])
+      }
+      rows.push([])
+
+      rows.push(
+        ['TRANSACTIONS'],
+        ['Date', 'Type', 'Quantity', 'Unit Price', 'Total', 'Customer'],
+      )
+      for (const sale of report.sales) {
+        rows.push([
+          formatDate(sale.date, settings),
+          sale.livestockType,
+          sale.quantity,
+          sale.unitPrice,
+          sale.totalAmount,
+          sale.customerName,
+        ])
+      }
+      break
+    }
+
+    case 'feed': {
+      const { report } = loaded
+      rows.push(['Feed Report'], [period], [])
+
+      rows.push(
+        ['SUMMARY'],
+        ['Total Feed (kg)', report.summary.totalFeedKg],
+        ['Total Cost', report.summary.totalCost],
+        [],
+      )
+
+      rows.push(['BY FEED TYPE'], ['Feed Type', 'Quantity (kg)', 'Cost'])
+      for (const item of report.summary.byFeedType) {
+        rows.push([item.type, item.quantityKg, item.cost])
+      }
+      rows.push([])
+
+      rows.push(['RECORDS'], ['Species', 'Feed Type', 'Quantity (kg)', 'Cost'])
+      for (const record of report.records) {
+        rows.push([
+          record.species,
+          record.feedType,
+          record.totalQuantityKg,
+          record.totalCost,
+        ])
+      }
+      rows.push([])
+
+      rows.push(
+        ['FEED CONVERSION'],
+        ['Species', 'Cumulative FCR', 'Period FCR', 'Target FCR'],
+      )
+      for (const item of report.fcr) {
+        rows.push([
+          item.species,
+          item.cumulativeFcr ?? '',
+          item.periodFcr ?? '',
+          item.targetFcr ?? '',
+        ])
+      }
+      break
+    }
+
+    case 'eggs': {
+      const { report } = loaded
+      rows.push(['Egg Production Report'], [period], [])
+
+      rows.push(
+        ['SUMMARY'],
+        ['Total Collected', report.summary.totalCollected],
+        ['Total Sold', report.summary.totalSold],
+        ['Total Broken', report.summary.totalBroken],
+        ['Current Inventory', report.summary.currentInventory],
+        ['Average Laying %', `${report.summary.averageLayingPercentage}%`],
+        [],
+      )
+
+      rows.push(
+        ['DAILY RECORDS'],
+        ['Date', 'Collected', 'Broken', 'Sold', 'Inventory'],
+      )
+      for (const record of report.records) {
+        rows.push([
+          formatDate(record.date, settings),
+          record.collected,
+          record.broken,
+          record.sold,
+          record.inventory,
+        ])
+      }
+      break
+    }
+
+    case 'milk': {
+      const { report } = loaded
+      rows.push(['Milk Production Report'], [period], [])
+
+      rows.push(
+        ['SUMMARY'],
+        ['Total Milk (L)', report.summary.totalLiters],
+        ['Rejected (L)', report.summary.totalRejected],
+        ['Saleable (L)', report.summary.totalSaleable],
+        ['Sold (L)', report.summary.totalSold],
+        ['Average Daily Yield (L)', report.summary.averageDailyYield],
+        ['Yield per Animal (L)', report.summary.averageYieldPerAnimal],
+        [
+          'Average Butterfat %',
+          report.summary.averageButterfat !== null
+            ? `${report.summary.averageButterfat}%`
+            : '',
+        ],
+        [],
+      )
+
+      rows.push(
+        ['DAILY RECORDS'],
+        [
+          'Date',
+          'Morning (L)',
+          'Evening (L)',
+          'Total (L)',
+          'Rejected (L)',
+          'Butterfat %',
+        ],
+      )
+      for (const record of report.records) {
+        rows.push([
+          formatDate(record.date, settings),
+          record.morning,
+          record.evening,
+          record.total,
+          record.rejected,
+          record.averageButterfat,
+        ])
+      }
+      break
+    }
+
+    case 'apiary': {
+      const { report } = loaded
+      rows.push(['Apiary Report'], [period], [])
+
+      rows.push(
+        ['SUMMARY'],
+        ['Colonies', report.summary.colonyCount],
+        ['Total Honey (kg)', report.summary.totalHoneyKg],
+        ['Total Wax (kg)', report.summary.totalWaxKg],
+        ['Honey per Colony (kg)', report.summary.honeyPerColony],
+        ['Wax per Colony (kg)', report.summary.waxPerColony],
+        ['Hives Needing Attention', report.summary.hivesNeedingAttention],
+        [],
+      )
+
+      rows.push(
+        ['HIVES'],
+        [
+          'Hive',
+          'Honey (kg)',
+          'Wax (kg)',
+          'Inspections',
+          'Last Inspection',
+          'Varroa',
+          'Needs Attention',
+        ],
+      )
+      for (const record of report.records) {
+        rows.push([
+          record.hiveName,
+          record.honeyKg,
+          record.waxKg,
+          record.inspections,
+          record.lastInspection
+            ? formatDate(record.lastInspection, settings)
+            : '',
+          record.latestVarroaCount,
+          record.needsAttention ? 'Yes' : 'No',
+        ])
+      }
+      break
+    }
+
+    case 'breeding': {
+      const { report } = loaded
+      rows.push(['Breeding Report'], [period], [])
+
+      rows.push(
+        ['SUMMARY'],
+        ['Matings', report.summary.matings],
+        ['Females Bred', report.summary.femalesBred],
+        ['Awaiting Birth', report.summary.awaitingBirth],
+        ['Overdue', report.summary.overdue],
+        ['Births', report.summary.births],
+        ['Live Born', report.summary.liveBorn],
+        ['Stillborn', report.summary.stillborn],
+        ['Weaned', report.summary.weaned],
+        ['Kidding/Lambing/Calving Rate (%)', report.summary.kiddingRate],
+        ['Weaning (%)', report.summary.weaningPercent],
+        ['Birth Interval (days)', report.summary.calvingIntervalDays],
+        [],
+      )
+
+      rows.push(
+        ['BATCHES'],
+        [
+          'Batch',
+          'Type',
+          'Females Bred',
+          'Awaiting Birth',
+          'Live Born',
+          'Stillborn',
+          'Weaned',
+          'Rate (%)',
+        ],
+      )
+      for (const record of report.records) {
+        rows.push([
+          record.batchName,
+          record.livestockType,
+          record.femalesBred,
+          record.awaitingBirth,
+          record.liveBorn,
+          record.stillborn,
+          record.weaned,
+          record.kiddingRate,
+        ])
+      }
+      break
+    }
+  }
+
+  return toCsv(rows)
+}
+
+/**
+ * Fetch current feed, medication and supplies stock for the inventory
+ * workbook's extra sheets.
+ *
+ * @param farmId - Optional farm filter (all of the user's farms otherwise)
+ */
+async function loadInventoryStock(farmId?: string): Promise<InventoryStock> {
+  const [feed, medication, supplies] = await Promise.all([
+    getFeedInventoryFn({ data: { farmId } }),
+    getMedicationInventoryFn({ data: { farmId } }),
+    getSuppliesInventoryFn({ data: { farmId } }),
+  ])
+  return { feed, medication, supplies }
+}
+
+/**
+ * Orchestrates data retrieval and transformation into the requested file format.
+ *
+ * @param options - Report type and filtering criteria
+ * @param settings - Currency/date preferences applied to PDF, XLSX and CSV output
+ * @returns File content and metadata for browser download
+ */
+export async function generateExportData(
+  options: ExportOptions,
+  settings: PdfFormatSettings = DEFAULT_SETTINGS,
+): Promise<ExportResult> {
+  try {
+    const loaded = await loadReport(options)
+
+    if (options.format === 'pdf') {
+      const { generateReportPDF, pdfToBase64 } = await import('./pdf')
+      const pdf = await generateReportPDF(loaded, settings)
+      return {
+        content: pdfToBase64(pdf),
+        encoding: 'base64',
+        filename: `${loaded.filename}.pdf`,
+        mimeType: 'application/pdf',
+      }
+    }
+
+    if (options.format === 'xlsx') {
+      const { generateReportXLSX } = await import('./xlsx')
+      const { pdfToBase64 } = await import('./pdf')
+      const stock =
+        loaded.reportType === 'inventory'
+          ? await loadInventoryStock(options.farmId)
+          : undefined
+      const workbook = await generateReportXLSX({ ...loaded, stock }, settings)
+      return {
+        content: pdfToBase64(workbook),
+        encoding: 'base64',
+        filename: `${loaded.filename}.xlsx`,
+        mimeType:
+          'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      }
     }
 
     return {
-      content: csvContent,
-      filename: `${filename}.csv`,
+      content: buildCsv(loaded, options, settings),
+      encoding: 'utf-8',
+      filename: `${loaded.filename}.csv`,
       mimeType: 'text/csv',
     }
   } catch (error) {
@@ -0,0 +1,592 @@
+/**
+ * Excel (XLSX) Export Service
+ *
+ * Builds multi-sheet workbooks for the report exports. Amounts, quantities
+ * and dates are written as typed cells (not text) so they can be summed,
+ * filtered and pivoted in a spreadsheet. `write-excel-file` is imported
+ * lazily so it only loads when a workbook is actually requested.
+ */
+
+import type { Cell, Row, Sheet } from 'write-excel-file/universal'
+import type { ReportPDFOptions } from './pdf'
+import type {
+  FeedInventoryRecord,
+  MedicationInventoryRecord,
+} from '~/features/inventory/repository'
+import type { SupplyItem } from '~/features/inventory/supplies-repository'
+import type { UserSettings } from '~/features/settings/currency-presets'
+import { DEFAULT_SETTINGS } from '~/features/settings/currency-presets'
+
+/**
+ * Subset of user settings that controls money and date cell formats.
+ */
+export type XlsxFormatSettings = Pick<
+  UserSettings,
+  | 'currencySymbol'
+  | 'currencySymbolPosition'
+  | 'currencyDecimals'
+  | 'dateFormat'
+>
+
+/**
+ * Current stock levels written to the extra sheets of an inventory workbook.
+ */
+export interface InventoryStock {
+  feed: Array<FeedInventoryRecord>
+  medication: Array<MedicationInventoryRecord>
+  supplies: Array<SupplyItem>
+}
+
+/**
+ * Report content for a workbook. Same shape as the PDF options, plus the
+ * optional stock listing for inventory reports.
+ */
+export type ReportXLSXOptions = ReportPDFOptions & { stock?: InventoryStock }
+
+/**
+ * A named worksheet with its rows and column widths.
+ */
+export interface WorkbookSheet {
+  name: string
+  rows: Array<Row>
+  columnWidths: Array<number>
+}
+
+const REPORT_TITLES: Record<ReportPDFOptions['reportType'], string> = {
+  'profit-loss': 'Profit & Loss Report',
+  inventory: 'Inventory Report',
+  sales: 'Sales Report',
+  feed: 'Feed Report',
+  eggs: 'Egg Production Report',
+  milk: 'Milk Production Report',
+  apiary: 'Apiary Report',
+  breeding: 'Breeding Report',
+}
+
+/**
+ * Excel number format for money, e.g. `"₦"#,##0.00` or `#,##0.00" €"`.
+ */
+function moneyFormat(settings: XlsxFormatSettings): string {
+  const decimals =
+    settings.currencyDecimals > 0
+      ? `.${'0'.repeat(settings.currencyDecimals)}`
+      : ''
+  const symbol = settings.currencySymbol.replace(/"/g, '')
+  return settings.currencySymbolPosition === 'before'
+    ? `"${symbol}"#,##0${decimals}`
+    : `#,##0${decimals}" ${symbol}"`
+}
+
+/**
+ * Excel date format matching the user's preferred date order.
+ */
+function dateFormat(settings: XlsxFormatSettings): string {
+  return settings.dateFormat.toLowerCase()
+}
+
+/**
+ * Typed cell factories bound to the user's formatting preferences.
+ */
+function cellFactory(settings: XlsxFormatSettings) {
+  const money = moneyFormat(settings)
+  const date = dateFormat(settings)
+
+  return {
+    header: (value: string): Cell => ({ value, fontWeight: 'bold' }),
+    text: (value: string | null | undefined): Cell =>
+      value ? { value, type: String } : null,
+    number: (value: number, format = '#,##0.##'): Cell => ({
+      value,
+      type: Number,
+      format,
+    }),
+    money: (value: number): Cell => ({ value, type: Number, format: money }),
+    /** Percentages are stored as fractions so Excel can compute with them */
+    percent: (value: number): Cell => ({
+      value: value / 100,
+      type: Number,
+      format: '0.00%',
+    }),
+    date: (value: Date | string | null | undefined): Cell =>
+      value ? { value: new Date(value), type: Date, format: date } : null,
+  }
+}
+
+type Cells = ReturnType<typeof cellFactory>
+
+/**
+ * Summary sheet: title, farm, period and the report's headline figures.
+ */
+function summarySheet(
+  options: ReportPDFOptions,
+  c: Cells,
+  figures: Array<[string, Cell]>,
+): WorkbookSheet {
+  const rows: Array<Row> = [[c.header(REPORT_TITLES[options.reportType])]]
+  if (options.farmName) rows.push(['Farm', c.text(options.farmName)])
+  if (options.period) {
+    rows.push(['From', c.date(options.period.startDate)])
+    rows.push(['To', c.date(options.period.endDate)])
+  }
+  rows.push([])
+  rows.push(...figures.map(([label, value]) => [c.header(label), value]))
+  return { name: 'Summary', rows, columnWidths: [28, 18] }
+}
+
+/**
+ * Detail sheet: a bold header row followed by one row per record.
+ */
+function tableSheet(
+  name: string,
+  headers: Array<string>,
+  rows: Array<Row>,
+  c: Cells,
+  columnWidths: Array<number>,
+): WorkbookSheet {
+  return {
+    name,
+    rows: [headers.map((h) => c.header(h)), ...rows],
+    columnWidths,
+  }
+}
+
+/**
+ * Lay out the worksheets for a report.
+ *
+ * @param options - Report type, report data and optional inventory stock
+ * @param settings - Currency/date formatting preferences
+ * @returns Worksheets in display order
+ *
+ * @example
+ * ```typescript
+ * const sheets = buildReportSheets({ reportType: 'profit-loss', report })
+ * sheets.map((s) => s.name) // ['Summary', 'Revenue', 'Expenses']
+ * ```
+ */
+export function buildReportSheets(
+  options: ReportXLSXOptions,
+  settings: XlsxFormatSettings = DEFAULT_SETTINGS,
+): Array<WorkbookSheet> {
+  const c = cellFactory(settings)
+
+  switch (options.reportType) {
+    case 'profit-loss': {
+      const { report } = options
+      const wool: Array<[string, Cell]> = report.wool
+        ? [
+            ['Fleeces', c.number(report.wool.fleeceCount)],
+            ['Greasy Wool (kg)', c.number(report.wool.greasyWeightKg)],
+            ['Clean Wool (kg)', c.number(report.wool.cleanWeightKg)],
+            ['Wool Revenue', c.money(report.wool.revenue)],
+            ['Wool Revenue per Fleece', c.money(report.wool.revenuePerFleece)],
+            ['Wool Revenue per kg', c.money(report.wool.revenuePerKg)],
+          ]
+        : []
+      return [
+        summarySheet(options, c, [
+          ['Total Revenue', c.money(report.revenue.total)],
+          ['Total Expenses', c.money(report.expenses.total)],
+          ['Net Profit', c.money(report.profit)],
+          ['Profit Margin', c.percent(report.profitMargin)],
+          ...wool,
+        ]),
+        tableSheet(
+          'Revenue',
+          ['Type', 'Amount'],
+          [
+            ...report.revenue.byType.map((item) => [
+              c.text(item.type),
+              c.money(item.amount),
+            ]),
+            [c.header('Total Revenue'), c.money(report.revenue.total)],
+          ],
+          c,
+          [24, 16],
+        ),
+        tableSheet(
+          'Expenses',
+          ['Category', 'Amount'],
+          [
+            ...report.expenses.byCategory.map((item) => [
+              c.text(item.category),
+              c.money(item.amount),
+            ]),
+            [c.header('Total Expenses'), c.money(report.expenses.total)],
+          ],
+          c,
+          [24, 16],
+        ),
+      ]
+    }
+
+    case 'inventory': {
+      const { report, stock } = options
+      const sheets = [
+        summarySheet(options, c, [
+          ['Total Poultry', c.number(report.summary.totalPoultry)],
+          ['Total Fish', c.number(report.summary.totalFish)],
+          ['Total Mortality', c.number(report.summary.totalMortality)],
+          [
+            'Overall Mortality Rate',
+            c.percent(report.summary.overallMortalityRate),
+          ],
+        ]),
+        tableSheet(
+          'Batches',
+          [
+            'Species',
+            'Type',
+            'Initial Qty',
+            'Current Qty',
+            'Mortality',
+            'Mortality Rate',
+            'Status',
+          ],
+          report.batches.map((batch) => [
+            c.text(batch.species),
+            c.text(batch.livestockType),
+            c.number(batch.initialQuantity),
+            c.number(batch.currentQuantity),
+            c.number(batch.mortalityCount),
+            c.percent(batch.mortalityRate),
+            c.text(batch.status),
+          ]),
+          c,
+          [18, 12, 12, 12, 12, 14, 12],
+        ),
+      ]
+      if (!stock) return sheets
+
+      return [
+        ...sheets,
+        tableSheet(
+          'Feed',
+          [
+            'Farm',
+            'Feed Type',
+            'Quantity (kg)',
+            'Min Threshold (kg)',
+            'Updated',
+          ],
+          stock.feed.map((item) => [
+            c.text(item.farmName),
+            c.text(item.feedType),
+            c.number(Number(item.quantityKg)),
+            c.number(Number(item.minThresholdKg)),
+            c.date(item.updatedAt),
+          ]),
+          c,
+          [20, 16, 14, 18, 14],
+        ),
+        tableSheet(
+          'Medication',
+          ['Farm', 'Medication', 'Quantity', 'Unit', 'Min Threshold', 'Expiry'],
+          stock.medication.map((item) => [
+            c.text(item.farmName),
+            c.text(item.medicationName),
+            c.number(item.quantity),
+            c.text(item.unit),
+            c.number(item.minThreshold),
+            c.date(item.expiryDate),
+          ]),
+          c,
+          [20, 24, 12, 10, 14, 14],
+        ),
+        tableSheet(
+          'Supplies',
+          [
+            'Item',
+            'Category',
+            'Quantity',
+            'Unit',
+            'Min Threshold',
+            'Cost per Unit',
+            'Last Restocked',
+            'Expiry',
+            'Notes',
+          ],
+          stock.supplies.map((item) => [
+            c.text(item.itemName),
+            c.text(item.category),
+            c.number(Number(item.quantityKg)),
+            c.text(item.unit),
+            c.number(Number(item.minThresholdKg)),
+            item.costPerUnit === null
+              ? null
+              : c.money(Number(item.costPerUnit)),
+            c.date(item.lastRestocked),
+            c.date(item.expiryDate),
+            c.text(item.notes),
+          ]),
+          c,
+          [24, 14, 12, 10, 14, 14, 14, 14, 32],
+        ),
+      ]
+    }
+
+    case 'sales': {
+      const { report } = options
+      return [
+        summarySheet(options, c, [
+          ['Total Sales', c.number(report.summary.totalSales)],
+          ['Total Revenue', c.money(report.summary.totalRevenue)],
+        ]),
+        tableSheet(
+          'By Type',
+          ['Type', 'Quantity', 'Revenue'],
+          report.summary.byType.map((item) => [
+            c.text(item.type),
+            c.number(item.quantity),
+            c.money(item.revenue),
+          ]),
+          c,
+          [18, 12, 16],
+        ),
+        tableSheet(
+          'Transactions',
+          ['Date', 'Type', 'Quantity', 'Unit Price', 'Total', 'Customer'],
+          report.sales.map((sale) => [
+            c.date(sale.date),
+            c.text(sale.livestockType),
+            c.number(sale.quantity),
+            c.money(sale.unitPrice),
+            c.money(sale.totalAmount),
+            c.text(sale.customerName),
+          ]),
+          c,
+          [14, 14, 12, 14, 16, 28],
+        ),
+      ]
+    }
+
+    case 'feed': {
+      const { report } = options
+      return [
+        summarySheet(options, c, [
+          ['Total Feed (kg)', c.number(report.summary.totalFeedKg)],
+          ['Total Cost', c.money(report.summary.totalCost)],
+        ]),
+        tableSheet(
+          'By Feed Type',
+          ['Feed Type', 'Quantity (kg)', 'Cost'],
+          report.summary.byFeedType.map((item) => [
+            c.text(item.type),
+            c.number(item.quantityKg),
+            c.money(item.cost),
+          ]),
+          c,
+          [18, 14, 16],
+        ),
+        tableSheet(
+          'Records',
+          ['Species', 'Feed Type', 'Quantity (kg)', 'Cost'],
+          report.records.map((record) => [
+            c.text(record.species),
+            c.text(record.feedType),
+            c.number(record.totalQuantityKg),
+            c.money(record.totalCost),
+          ]),
+          c,
+          [18, 18, 14, 16],
+        ),
+      ]
+    }
+
+    case 'eggs': {
+      const { report } = options
+      return [
+        summarySheet(options, c, [
+          ['Total Collected', c.number(report.summary.totalCollected)],
+          ['Total Sold', c.number(report.summary.totalSold)],
+          ['Total Broken', c.number(report.summary.totalBroken)],
+          ['Current Inventory', c.number(report.summary.currentInventory)],
+          [
+            'Average Laying %',
+            c.percent(report.summary.averageLayingPercentage),
+          ],
+        ]),
+        tableSheet(
+          'Daily Records',
+          ['Date', 'Collected', 'Broken', 'Sold', 'Inventory'],
+          report.records.map((record) => [
+            c.date(record.date),
+            c.number(record.collected),
+            c.number(record.broken),
+            c.number(record.sold),
+            c.number(record.inventory),
+          ]),
+          c,
+          [14, 12, 12, 12, 12],
+        ),
+      ]
+    }
+
+    case 'milk': {
+      const { report } = options
+      return [
+        summarySheet(options, c, [
+          ['Total Milk (L)', c.number(report.summary.totalLiters)],
+          ['Rejected (L)', c.number(report.summary.totalRejected)],
+          ['Saleable (L)', c.number(report.summary.totalSaleable)],
+          ['Sold (L)', c.number(report.summary.totalSold)],
+          [
+            'Average Daily Yield (L)',
+            c.number(report.summary.averageDailyYield),
+          ],
+          [
+            'Yield per Animal (L)',
+            c.number(report.summary.averageYieldPerAnimal),
+          ],
+          [
+            'Average Butterfat %',
+            report.summary.averageButterfat !== null
+              ? c.percent(report.summary.averageButterfat)
+              : null,
+          ],
+        ]),
+        tableSheet(
+          'Daily Records',
+          [
+            'Date',
+            'Morning (L)',
+            'Evening (L)',
+            'Total (L)',
+            'Rejected (L)',
+            'Butterfat %',
+          ],
+          report.records.map((record) => [
+            c.date(record.date),
+            c.number(record.morning),
+            c.number(record.evening),
+            c.number(record.total),
+            c.number(record.rejected),
+            record.averageButterfat !== null
+              ? c.percent(record.averageButterfat)
+              : null,
+          ]),
+          c,
+          [14, 12, 12, 12, 12, 12],
+        ),
+      ]
+    }
+
+    case 'apiary': {
+      const { report } = options
+      return [
+        summarySheet(options, c, [
+          ['Colonies', c.number(report.summary.colonyCount)],
+          ['Total Honey (kg)', c.number(report.summary.totalHoneyKg)],
+          ['Total Wax (kg)', c.number(report.summary.totalWaxKg)],
+          ['Honey per Colony (kg)', c.number(report.summary.honeyPerColony)],
+          ['Wax per Colony (kg)', c.number(report.summary.waxPerColony)],
+          [
+            'Hives Needing Attention',
+            c.number(report.summary.hivesNeedingAttention),
+          ],
+        ]),
+        tableSheet(
+          'Hives',
+          [
+            'Hive',
+            'Honey (kg)',
+            'Wax (kg)',
+            'Inspections',
+            'Last Inspection',
+            'Varroa',
+            'Needs Attention',
+          ],
+          report.records.map((record) => [
+            c.text(record.hiveName),
+            c.number(record.honeyKg),
+            c.number(record.waxKg),
+            c.number(record.inspections),
+            record.lastInspection ? c.date(record.lastInspection) : null,
+            record.latestVarroaCount !== null
+              ? c.number(record.latestVarroaCount)
+              : null,
+            c.text(record.needsAttention ? 'Yes' : 'No'),
+          ]),
+          c,
+          [18, 12, 12, 12, 14, 10, 14],
+        ),
+      ]
+    }
+
+    case 'breeding': {
+      const { report } = options
+      const percent = (value: number | null) =>
+        value !== null ? c.percent(value) : null
+      return [
+        summarySheet(options, c, [
+          ['Matings', c.number(report.summary.matings)],
+          ['Females Bred', c.number(report.summary.femalesBred)],
+          ['Awaiting Birth', c.number(report.summary.awaitingBirth)],
+          ['Overdue', c.number(report.summary.overdue)],
+          ['Births', c.number(report.summary.births)],
+          ['Live Born', c.number(report.summary.liveBorn)],
+          ['Stillborn', c.number(report.summary.stillborn)],
+          ['Weaned', c.number(report.summary.weaned)],
+          ['Kidding/Lambing/Calving Rate', percent(report.summary.kiddingRate)],
+          ['Weaning %', percent(report.summary.weaningPercent)],
+          [
+            'Birth Interval (days)',
+            report.summary.calvingIntervalDays !== null
+              ? c.number(report.summary.calvingIntervalDays)
+              : null,
+          ],
+        ]),
+        tableSheet(
+          'Batches',
+          [
+            'Batch',
+            'Type',
+            'Females Bred',
+            'Awaiting Birth',
+            'Live Born',
+            'Stillborn',
+            'Weaned',
+            'Rate',
+          ],
+          report.records.map((record) => [
+            c.text(record.batchName),
+            c.text(record.livestockType),
+            c.number(record.femalesBred),
+            c.number(record.awaitingBirth),
+            c.number(record.liveBorn),
+            c.number(record.stillborn),
+            c.number(record.weaned),
+            percent(record.kiddingRate),
+          ]),
+          c,
+          [18, 10, 12, 14, 10, 10, 10, 10],
+        ),
+      ]
+    }
+  }
+}
+
+/**
+ * Generate a multi-sheet XLSX workbook for a report
+ *
+ * @param options - Report type, report data and optional inventory stock
+ * @param settings - Currency/date formatting preferences (defaults to USD/ISO)
+ * @returns XLSX file bytes
+ */
+export async function generateReportXLSX(
+  options: ReportXLSXOptions,
+  settings: XlsxFormatSettings = DEFAULT_SETTINGS,
+): Promise<Uint8Array> {
+  const { default: writeXlsxFile } = await import('write-excel-file/universal')
+
+  const sheets: Array<Sheet<Blob>> = buildReportSheets(options, settings).map(
+    (sheet) => ({
+      sheet: sheet.name,
+      data: sheet.rows,
+      columns: sheet.columnWidths.map((width) => ({ width })),
+      stickyRowsCount: sheet.name === 'Summary' ? undefined : 1,
+    }),
+  )
+
+  const blob = await writeXlsxFile(sheets).toBlob()
+  return new Uint8Array(await blob.arrayBuffer())
+}
@@ -15,11 +15,13 @@ export interface BatchFinancials {
   feedCost: number
   /** All other expenses (medicine, transport, labor, etc.) */
   otherExpenses: number
+  /** Share of farm-level sales not recorded against a batch (e.g. pooled wool) */
+  attributedRevenue?: number
 }
 
 /**
  * Calculates the net profit or loss for a livestock batch.
- * Formula: Revenue - (Initial Cost + Feed Cost + Other Expenses)
+ * Formula: (Revenue + Attributed Revenue) - (Initial Cost + Feed Cost + Other Expenses)
  *
  * @param financials - Object containing revenue and cost components
  * @returns The calculated net profit/loss
@@ -27,7 +29,35 @@ export interface BatchFinancials {
 export function calculateBatchProfit(financials: BatchFinancials): number {
   const totalCost =
     financials.initialCost + financials.feedCost + financials.otherExpenses
-  return financials.totalRevenue - totalCost
+  return (
+    financials.totalRevenue + (financials.attributedRevenue ?? 0) - totalCost
+  )
+}
+
+/**
+ * Attributes pooled wool revenue to a batch in proportion to its clip.
+ * Wool is usually sold as one farm-wide clip, so sales without a batch are
+ * shared out by greasy weight shorn.
+ * Formula: Unassigned Revenue * (Batch Clip / Farm Clip)
+ *
+ * @param unassignedRevenue - Wool sales not recorded against any batch
+ * @param batchClipKg - Greasy weight shorn from this batch
+ * @param totalClipKg - Greasy weight shorn across the farm
+ * @returns The batch's share of the revenue, or 0 if nothing was shorn
+ *
+ * @example
+ * ```typescript
+ * attributeWoolRevenue(1000, 150, 600) // Returns: 250
+ * attributeWoolRevenue(1000, 0, 0)     // Returns: 0
+ * ```
+ */
+export function attributeWoolRevenue(
+  unassignedRevenue: number,
+  batchClipKg: number,
+  totalClipKg: number,
+): number {
+  if (totalClipKg <= 0 || batchClipKg <= 0) return 0
+  return unassignedRevenue * (Math.min(batchClipKg, totalClipKg) / totalClipKg)
 }
 
 /**
@@ -25,9 +25,14 @@ i18n.use(initReactI18next).init({
     'common',
     'auth',
     'batches',
+    'animals',
+    'breeding',
     'dashboard',
     'settings',
     'eggs',
+    'milk',
+    'shearing',
+    'apiary',
     'feed',
     'mortality',
     'vaccinations',
@@ -48,6 +53,7 @@ i18n.use(initReactI18next).init({
     'extension',
     'workers',
     'credit-passport',
+    'jobs',
   ],
   defaultNS: 'common',
   interpolation: {
@@ -48,4 +48,73 @@ export const creditPassport = {
     total: 'ምንም ሪፖርቶች አልተገኙም',
     desc: 'ለመጀመር የመጀመሪያ የብድር ፓስፖርት ሪፖርትዎን ያመንጩ።',
   },
+
+  // Localized PDF report
+  pdf: {
+    title: 'የብድር ፓስፖርት ሪፖርት',
+    reportPeriod: 'የሪፖርት ጊዜ',
+    periodRange: '{{start}} – {{end}}',
+    generatedOn: 'የተዘጋጀው {{date}}',
+    signedFooter: 'በዲጂታል የተፈረመ እና የተረጋገጠ',
+    notAvailable: 'የለም',
+    noData: 'መረጃ የለም',
+    contribution: '{{score}}/100 × {{weight}} = {{points}} ነጥብ',
+    sections: {
+      creditScore: 'የብድር ነጥብ',
+      explanation: 'ነጥቡ እንዴት እንደተሰላ',
+      improvements: 'ይህን ነጥብ የሚያሳድገው',
+      financial: 'የፋይናንስ አፈጻጸም',
+      operational: 'የሥራ መለኪያዎች',
+      assets: 'ንብረቶች',
+      trackRecord: 'የሥራ ታሪክ',
+      productionVolume: 'የምርት መጠን',
+    },
+    fields: {
+      score: 'ነጥብ',
+      rating: 'ደረጃ',
+      scoringProfile: 'የነጥብ መገለጫ',
+      totalRevenue: 'ጠቅላላ ገቢ',
+      netProfit: 'የተጣራ ትርፍ',
+      profitMargin: 'የትርፍ ህዳግ',
+      activeBatches: 'ንቁ ባቾች',
+      avgFcr: 'አማካይ FCR',
+      mortalityRate: 'የሞት መጠን',
+      honeyYield: 'በቀፎ የማር ምርት',
+      totalInventoryValue: 'ጠቅላላ የክምችት ዋጋ',
+      totalLivestock: 'ጠቅላላ እንስሳት',
+      completedBatches: 'የተጠናቀቁ ባቾች',
+      successRate: 'የስኬት መጠን',
+      productionVolume: 'የምርት መጠን',
+    },
+    factors: {
+      profitMargin: 'የትርፍ ህዳግ',
+      successRate: 'በታለመው ክብደት የተሸጡ ባቾች',
+      monthsOperating: 'የሥራ ወራት',
+      fcr: 'የመኖ ልወጣ መጠን',
+      mortalityRate: 'የሞት መጠን',
+      honeyYield: 'ማር በቀፎ',
+      inventoryValue: 'የእንስሳት ዋጋ',
+      structureCount: 'መዋቅሮች',
+    },
+    units: {
+      months: '{{value}} ወራት',
+      kg: '{{value}} ኪ.ግ',
+      points: '{{value}} ነጥብ',
+      colonies: '{{count}} ቀፎዎች',
+    },
+    improvements: {
+      profitMargin: 'የትርፍ ህዳግዎን ከ{{current}} ወደ {{target}} ያሳድጉ',
+      profitMarginNoData: 'የትርፍ ህዳግዎ እንዲለካ ሽያጮችን እና ወጪዎችን ይመዝግቡ',
+      successRate: 'ብዙ ባቾችን በታለመው ክብደት ይሽጡ (አሁን {{current}} ባቾች)',
+      monthsOperating: 'መመዝገብዎን ይቀጥሉ፦ {{remaining}} ተጨማሪ ወራት ታሪክ ሙሉ ነጥብ ያስገኛል',
+      fcr: 'የመኖ ልወጣን ከ{{current}} ወደ {{target}} ያሻሽሉ',
+      fcrNoData: 'የመኖ ልወጣ እንዲለካ የመኖ አጠቃቀምን እና የክብደት ናሙናዎችን ይመዝግቡ',
+      mortalityRate: 'የሞት መጠንን ከ{{current}} ወደ {{target}} ይቀንሱ',
+      honeyYield: 'የማር ምርትን በቀፎ ከ{{current}} ወደ {{target}} ያሳድጉ',
+      honeyYieldNoData: 'ከንቁ ቀፎዎችዎ የማር ምርትን ይመዝግቡ',
+      inventoryValue: 'የእንስሳት ዋጋን ከ{{current}} ወደ {{target}} ያሳድጉ',
+      structureCount:
+        'ቤቶችዎን፣ ኩሬዎችዎን እና በረቶችዎን ይመዝግቡ (ከ{{target}} ውስጥ {{current}} ተመዝግበዋል)',
+    },
+  },
 }
@@ -49,4 +49,79 @@ export const creditPassport = {
     total: 'কোনো রিপোর্ট পাওয়া যায়নি',
     desc: 'শুরু করতে আপনার প্রথম ক্রেডিট পাসপোর্ট রিপোর্ট তৈরি করুন।',
   },
+
+  // Localized PDF report
+  pdf: {
+    title: 'ক্রেডিট পাসপোর্ট রিপোর্ট',
+    reportPeriod: 'রিপোর্টের সময়কাল',
+    periodRange: '{{start}} – {{end}}',
+    generatedOn: '{{date}} তারিখে তৈরি',
+    signedFooter: 'ডিজিটালভাবে স্বাক্ষরিত ও যাচাইকৃত',
+    notAvailable: 'প্রযোজ্য নয়',
+    noData: 'কোনো ডেটা নেই',
+    contribution: '{{score}}/100 × {{weight}} = {{points}} পয়েন্ট',
+    sections: {
+      creditScore: 'ক্রেডিট স্কোর',
+      explanation: 'স্কোর কীভাবে গণনা করা হয়েছে',
+      improvements: 'যা এই স্কোর বাড়াবে',
+      financial: 'আর্থিক কার্যক্রম',
+      operational: 'পরিচালন মেট্রিক্স',
+      assets: 'সম্পদ',
+      trackRecord: 'ট্র্যাক রেকর্ড',
+      productionVolume: 'উৎপাদনের পরিমাণ',
+    },
+    fields: {
+      score: 'স্কোর',
+      rating: 'রেটিং',
+      scoringProfile: 'স্কোরিং প্রোফাইল',
+      totalRevenue: 'মোট আয়',
+      netProfit: 'নিট মুনাফা',
+      profitMargin: 'মুনাফার হার',
+      activeBatches: 'সক্রিয় ব্যাচ',
+      avgFcr: 'গড় FCR',
+      mortalityRate: 'মৃত্যুর হার',
+      honeyYield: 'প্রতি কলোনিতে মধুর ফলন',
+      totalInventoryValue: 'মোট মজুদের মূল্য',
+      totalLivestock: 'মোট পশুসম্পদ',
+      completedBatches: 'সম্পন্ন ব্যাচ',
+      successRate: 'সাফল্যের হার',
+      productionVolume: 'উৎপাদনের পরিমাণ',
+    },
+    factors: {
+      profitMargin: 'মুনাফার হার',
+      successRate: 'লক্ষ্য ওজনে বিক্রি হওয়া ব্যাচ',
+      monthsOperating: 'পরিচালনার মাস',
+      fcr: 'খাদ্য রূপান্তর অনুপাত',
+      mortalityRate: 'মৃত্যুর হার',
+      honeyYield: 'প্রতি কলোনিতে মধু',
+      inventoryValue: 'পশুসম্পদের মূল্য',
+      structureCount: 'স্থাপনা',
+    },
+    units: {
+      months: '{{value}} মাস',
+      kg: '{{value}} কেজি',
+      points: '{{value}} পয়েন্ট',
+      colonies: '{{count}}টি কলোনি',
+    },
+    improvements: {
+      profitMargin:
+        'আপনার মুনাফার হার {{current}} থেকে {{target}}-এর দিকে বাড়ান',
+      profitMarginNoData:
+        'বিক্রি ও খরচ লিপিবদ্ধ করুন যাতে আপনার মুনাফার হার মাপা যায়',
+      successRate: 'আরও ব্যাচ লক্ষ্য ওজনে বিক্রি করুন (এখন {{current}} ব্যাচ)',
+      monthsOperating:
+        'লিপিবদ্ধ করতে থাকুন: আরও {{remaining}} মাসের ইতিহাস পূর্ণ নম্বর এনে দেয়',
+      fcr: 'খাদ্য রূপান্তর {{current}} থেকে {{target}}-এর দিকে উন্নত করুন',
+      fcrNoData:
+        'খাদ্য ব্যবহার ও ওজনের নমুনা লিপিবদ্ধ করুন যাতে খাদ্য রূপান্তর মাপা যায়',
+      mortalityRate: 'মৃত্যুর হার {{current}} থেকে {{target}}-এর দিকে কমান',
+      honeyYield:
+        'প্রতি কলোনিতে মধুর ফলন {{current}} থেকে {{target}}-এর দিকে বাড়ান',
+      honeyYieldNoData: 'আপনার সক্রিয় মৌচাক থেকে মধু সংগ্রহ লিপিবদ্ধ করুন',
+      inventoryValue:
+        'পশুসম্পদের মূল্য {{current}} থেকে {{target}}-এর দিকে বাড়ান',
+      structureCount:
+        'আপনার শেড, পুকুর ও খোঁয়াড় লিপিবদ্ধ করুন ({{target}}টির মধ্যে {{current}}টি লিপিবদ্ধ)',
+    },
+  },
 }
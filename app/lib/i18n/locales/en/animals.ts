@@ -0,0 +1,94 @@
+export const animals = {
+  title: 'Animals',
+  subtitle:
+    'Individually tagged cattle, goats and sheep with parentage and history',
+  register: 'Register Animal',
+  registeredToast: 'Animal registered',
+  registry: 'Registry',
+  registry_desc: 'Search by tag, RFID or name',
+  allStatuses: 'All',
+
+  // Summary
+  active: 'Active',
+  registered: '{{count}} registered',
+  females: 'Females',
+  males: 'Males',
+  sold: 'Sold',
+  lostCount: '{{count}} dead or culled',
+
+  // Columns and form
+  tag: 'Tag',
+  tagNumber: 'Tag Number',
+  rfid: 'RFID',
+  name: 'Name',
+  livestockType: 'Type',
+  sex: 'Sex',
+  age: 'Age',
+  ageMonths: '{{count}} mo',
+  ageYears: '{{count}} yr',
+  dateOfBirth: 'Date of Birth',
+  structure: 'Pen / Pasture',
+  parents: 'Dam / Sire',
+  dam: 'Dam',
+  sire: 'Sire',
+  none: 'None',
+  unknown: 'Unknown',
+  addTitle: 'Register Animal',
+  addDescription:
+    'Tag an individual cow, goat or sheep and record its parentage',
+  editTitle: 'Edit Animal',
+  save: 'Register Animal',
+  types: {
+    cattle: 'Cattle',
+    goats: 'Goat',
+    sheep: 'Sheep',
+  },
+  sexes: {
+    male: 'Male',
+    female: 'Female',
+  },
+  statuses: {
+    active: 'Active',
+    sold: 'Sold',
+    dead: 'Dead',
+    culled: 'Culled',
+  },
+
+  // Detail page
+  weights: 'Weights',
+  health: 'Health',
+  offspring: 'Offspring',
+  noWeights: 'No weights recorded yet',
+  noHealthRecords: 'No vaccinations or treatments yet',
+  noOffspring: 'No registered offspring',
+  noBatchHint:
+    'Add this animal to a batch to record weights, health and mortality.',
+  mortalityNote: 'Died on {{date}} ({{cause}})',
+  healthTypes: {
+    vaccination: 'Vaccination',
+    treatment: 'Treatment',
+  },
+
+  // Record dialog
+  recordTitles: {
+    weight: 'Record Weight',
+    vaccination: 'Record Vaccination',
+    treatment: 'Record Treatment',
+    death: 'Record Death',
+  },
+  recordDescription: 'Filed against {{tag}} and its batch',
+  recordSaved: 'Record saved',
+  weightKg: 'Weight (kg)',
+  vaccine: 'Vaccine',
+  medication: 'Medication',
+  dosage: 'Dosage',
+  nextDueDate: 'Next Due',
+  reason: 'Reason',
+  withdrawalDays: 'Withdrawal (days)',
+  cause: 'Cause',
+
+  empty: {
+    title: 'No animals registered',
+    description: 'Tag your first cow, goat or sheep to track it.',
+  },
+}
@@ -101,9 +101,52 @@ export const batches = {
     feed: 'Feed Logs',
     projections: 'Projections',
     health: 'Mortality & Health',
+    environment: 'Environment',
     expenses: 'Expenses',
     sales: 'Sales',
   },
+  environment: {
+    title: 'Environment Report',
+    noStructure:
+      'Assign this batch to a structure with sensors to see its environment.',
+    noSensorData:
+      'No sensor data was recorded in this structure during the batch.',
+    sensor: 'Sensor',
+    comfortZone: 'Comfort zone',
+    timeInZone: 'Time in zone',
+    hoursAbove: 'Hours above',
+    hoursBelow: 'Hours below',
+    stressDays: 'Stress days',
+    stressHoursOf: '{{sensor}} stress hours',
+    mortality: 'Deaths',
+    outcome: 'Outcome',
+    lag: 'Lag',
+    lagDays: '{{count}} days',
+    correlation: 'Correlation',
+    days: 'Days',
+    metrics: {
+      mortality: 'Daily deaths',
+      feedIntake: 'Feed intake',
+      weightGain: 'Daily weight gain',
+    },
+    impactTitle: 'Estimated Impact',
+    impactSummary:
+      '{{sensor}}: {{stressDays}} stress days, about {{deaths}} extra deaths and {{weightKg}} kg of live weight not gained (effect seen after {{lagDays}} days; feed intake changed by {{feedKg}} kg/day).',
+    impactDisclaimer:
+      'Estimates compare days after stress with comfortable days. Other factors such as disease can contribute.',
+  },
+  feedConversion: {
+    title: 'Feed Conversion',
+    description:
+      'FCR between weight samples against the breed target, with daily feed intake per head',
+    empty:
+      'Record feed and at least two weight samples to track feed conversion.',
+    cumulative: 'Cumulative FCR',
+    period: 'Period FCR',
+    target: 'Target FCR',
+    intake: 'Feed intake (g/head)',
+    day: 'Day {{day}}',
+  },
   feed: {
     history: 'Feeding History',
     recent: 'Recent records',
@@ -162,4 +205,5 @@ export const batches = {
   },
   farmLocation: 'Farm Location',
   backToBatches: 'Back to batches',
+  withdrawalClearsOn: 'Withdrawal clears on {{date}}',
 }
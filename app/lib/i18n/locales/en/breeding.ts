@@ -0,0 +1,92 @@
+export const breeding = {
+  title: 'Breeding',
+  subtitle: 'Matings, due dates, births and reproductive performance',
+  recordMating: 'Record Mating',
+  matingRecorded: 'Mating recorded',
+  recordBirth: 'Record Birth',
+  birthRecorded: 'Birth recorded',
+  allStatuses: 'All',
+  history_desc: 'Due dates follow from each species’ gestation length',
+
+  // Summary
+  awaitingBirth: 'Awaiting Birth',
+  eventCount: '{{count}} matings',
+  overdue: 'Overdue',
+  overdueHint: 'Past the expected due date',
+  kiddingRate: 'Kidding Rate',
+  weaningPercent: '{{value}} weaned',
+  calvingInterval: 'Birth Interval',
+  calvingIntervalHint: 'Average for tagged dams',
+  days: '{{count}} days',
+
+  tabs: {
+    events: 'Matings',
+    births: 'Births',
+  },
+  eventHistory: 'Mating History',
+  birthHistory: 'Birth History',
+
+  // Columns and forms
+  dams: 'Dams',
+  dam: 'Dam',
+  sire: 'Sire',
+  femaleCount: '{{count}} females',
+  femalesBred: 'Females Bred',
+  untaggedFemales: 'Untagged females',
+  unregisteredSire: 'Not registered',
+  sireDescription: 'Sire or AI straw',
+  unknown: 'Unknown',
+  method: 'Method',
+  matingDate: 'Mating Date',
+  dueDate: 'Due',
+  expectedDue: 'Expected due {{date}}',
+  daysOverdue: '{{count}} days overdue',
+  deliveredOf: '{{delivered}} of {{total}} delivered',
+  diagnosisDate: 'Diagnosis Date',
+  selectBatch: 'Select batch',
+  addEventTitle: 'Record Mating',
+  addEventDescription:
+    'The expected due date is computed from the species gestation length',
+  editEventTitle: 'Edit Breeding Event',
+  saveMating: 'Save Mating',
+  methods: {
+    natural: 'Natural',
+    ai: 'Artificial insemination',
+  },
+  statuses: {
+    bred: 'Bred',
+    pregnant: 'Pregnant',
+    open: 'Open',
+    delivered: 'Delivered',
+    aborted: 'Aborted',
+  },
+
+  birthDate: 'Birth Date',
+  damCount: 'Females Delivered',
+  liveBorn: 'Live Born',
+  stillborn: 'Stillborn',
+  stillbornCount: '+{{count}} stillborn',
+  offspringBatch: 'Offspring In',
+  destination: 'Add Offspring To',
+  destinations: {
+    dam_batch: 'The dams’ batch',
+    new_batch: 'A new batch',
+  },
+  newBatchName: 'New Batch Name',
+  addBirthTitle: 'Record Birth',
+  addBirthDescription: '{{dams}}, due {{date}}',
+  saveBirth: 'Save Birth',
+  weaned: 'Weaned',
+  weanedCount: 'Weaned',
+  weaningDate: 'Weaning Date',
+  editBirthTitle: 'Record Weaning',
+  editBirthDescription:
+    '{{count}} born alive. Counts are fixed once recorded; delete the birth to correct them.',
+
+  empty: {
+    eventsTitle: 'No matings found',
+    eventsDescription: 'Record a mating to track the expected due date.',
+    birthsTitle: 'No births found',
+    birthsDescription: 'Births recorded from matings will appear here.',
+  },
+}
@@ -2,6 +2,8 @@ export const common = {
   // Navigation
   dashboard: 'Dashboard',
   batches: 'Batches',
+  animals: 'Animals',
+  breeding: 'Breeding',
   inventory: 'Inventory',
   sales: 'Sales',
   expenses: 'Expenses',
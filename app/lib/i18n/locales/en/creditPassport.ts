@@ -5,15 +5,68 @@ export const creditPassport = {
   // Toast messages
   messages: {
     csvDownloaded: 'CSV report downloaded successfully',
+    pdfDownloaded: 'Signed PDF report downloaded successfully',
     generationFailed: 'Failed to generate report',
   },
 
+  // PDF options in the wizard
+  pdfOptions: {
+    language: 'PDF Language',
+    bilingual: 'Print English under each label',
+  },
+
   // Verification page
   verification: {
     failed: 'Verification Failed',
     freshnessLevel: 'Freshness Level',
     reportType: 'Report Type:',
     verificationCount: 'Verification Count:',
+    signingKey: 'Signing Key',
+    keyStatus: 'Key Status:',
+    downloadBundle: 'Download Verification Bundle',
+    bundleHint:
+      'Verify this report offline: the bundle holds the report JSON, its signature and the signing key chain.',
+    bundleDownloaded: 'Verification bundle downloaded',
+    bundleFailed: 'Failed to download verification bundle',
+    keyFailures: {
+      unknown_key: 'The signing key is not in our key registry.',
+      key_mismatch: 'The signature does not match the registered key.',
+      key_revoked:
+        'The signing key was revoked after a compromise. Do not rely on this report.',
+      not_yet_valid: 'The report predates its signing key.',
+      signed_after_rotation:
+        'The report was signed after its key had been rotated out.',
+    },
+  },
+
+  // Signing key registry (admin)
+  signingKeys: {
+    title: 'Signing Keys',
+    subtitle:
+      'Keys that sign credit passports and lender responses. Rotate by replacing CREDIT_PASSPORT_SIGNING_KEY.',
+    registryHint: 'Banks can fetch this registry from {{path}}.',
+    noKeys: 'No key has signed anything yet.',
+    revoke: 'Revoke',
+    revokeTitle: 'Revoke Signing Key',
+    revokeDesc:
+      'Only revoke a compromised key. Every report it signed will fail verification, and signing stops until a new key is configured.',
+    reason: 'Reason',
+    reasonPlaceholder: 'e.g. Key leaked in a build log',
+    revoked: 'Signing key revoked',
+    revokeFailed: 'Failed to revoke signing key',
+    columns: {
+      keyId: 'Key ID',
+      status: 'Status',
+      validFrom: 'Valid From',
+      validUntil: 'Valid Until',
+      revocation: 'Revocation',
+    },
+    status: {
+      active: 'Active',
+      retired: 'Retired',
+      revoked: 'Revoked',
+      unknown: 'Unknown',
+    },
   },
 
   // Steps
@@ -49,4 +102,123 @@ export const creditPassport = {
     total: 'No reports found',
     desc: 'Generate your first credit passport report to get started.',
   },
+
+  // Lender API access
+  lenderAccess: {
+    title: 'Lender Access',
+    description:
+      'Let lenders pull signed passport metrics directly, for as long as you allow',
+    grant: 'Grant Access',
+    grantTitle: 'Grant Lender Access',
+    grantDesc:
+      'The lender gets a token that returns signed metrics for the farms and data you choose.',
+    lenderName: 'Lender Name',
+    farms: 'Farms',
+    scopes: 'Data to Share',
+    duration: 'Access Lasts',
+    days: '{{count}} days',
+    periodMonths: 'Months of History',
+    consentsTitle: 'Consents',
+    noConsents: 'No lender has been given access yet.',
+    logTitle: 'Access Log',
+    logDescription: 'Every pull a lender has made with your consent',
+    noAccess: 'No lender has pulled your metrics yet.',
+    never: 'Never',
+    revoke: 'Revoke',
+    revoked: 'Access revoked',
+    revokeFailed: 'Failed to revoke access',
+    createFailed: 'Failed to grant access',
+    tokenTitle: 'Access Token',
+    tokenDesc: 'Send this token to the lender. It is shown only once.',
+    tokenCopied: 'Token copied',
+    endpointHint:
+      'The lender calls GET {{path}} with the header Authorization: Bearer <token>.',
+    columns: {
+      lender: 'Lender',
+      scopes: 'Data',
+      farms: 'Farms',
+      token: 'Token',
+      expires: 'Expires',
+      lastAccess: 'Last Access',
+      status: 'Status',
+      accessedAt: 'When',
+      ip: 'IP Address',
+    },
+  },
+
+  // Localized PDF report
+  pdf: {
+    title: 'Credit Passport Report',
+    reportPeriod: 'Report Period',
+    periodRange: '{{start}} – {{end}}',
+    generatedOn: 'Generated {{date}}',
+    signedFooter: 'Digitally signed and verified',
+    notAvailable: 'N/A',
+    noData: 'No data',
+    contribution: '{{score}}/100 × {{weight}} = {{points}} pts',
+    sections: {
+      creditScore: 'Credit Score',
+      explanation: 'How the Score Was Calculated',
+      improvements: 'What Would Raise This Score',
+      financial: 'Financial Performance',
+      operational: 'Operational Metrics',
+      assets: 'Assets',
+      trackRecord: 'Track Record',
+      productionVolume: 'Production Volume',
+    },
+    fields: {
+      score: 'Score',
+      rating: 'Rating',
+      scoringProfile: 'Scoring Profile',
+      totalRevenue: 'Total Revenue',
+      netProfit: 'Net Profit',
+      profitMargin: 'Profit Margin',
+      activeBatches: 'Active Batches',
+      avgFcr: 'Avg FCR',
+      mortalityRate: 'Mortality Rate',
+      honeyYield: 'Honey Yield per Colony',
+      totalInventoryValue: 'Total Inventory Value',
+      totalLivestock: 'Total Livestock',
+      completedBatches: 'Completed Batches',
+      successRate: 'Success Rate',
+      productionVolume: 'Production Volume',
+    },
+    factors: {
+      profitMargin: 'Profit margin',
+      successRate: 'Batches sold at target',
+      monthsOperating: 'Months operating',
+      fcr: 'Feed conversion ratio',
+      mortalityRate: 'Mortality rate',
+      honeyYield: 'Honey per colony',
+      inventoryValue: 'Livestock inventory value',
+      structureCount: 'Structures',
+    },
+    units: {
+      months: '{{value}} months',
+      kg: '{{value}} kg',
+      points: '{{value}} pts',
+      colonies: '{{count}} colonies',
+    },
+    improvements: {
+      profitMargin:
+        'Raise your profit margin from {{current}} towards {{target}}',
+      profitMarginNoData:
+        'Record sales and expenses so your profit margin can be measured',
+      successRate:
+        'Sell more batches at their target weight (now {{current}} of batches)',
+      monthsOperating:
+        'Keep recording: {{remaining}} more months of history earns full marks',
+      fcr: 'Improve feed conversion from {{current}} towards {{target}}',
+      fcrNoData:
+        'Record feed use and weight samples so feed conversion can be measured',
+      mortalityRate: 'Cut mortality from {{current}} towards {{target}}',
+      honeyYield:
+        'Raise honey yield from {{current}} towards {{target}} per colony',
+      honeyYieldNoData: 'Record honey harvests from your active hives',
+      inventoryValue:
+        'Grow livestock value from {{current}} towards {{target}}',
+      structureCount:
+        'Record your houses, ponds and pens ({{current}} of {{target}} recorded)',
+    },
+  },
 }
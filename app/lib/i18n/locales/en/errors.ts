@@ -15,6 +15,8 @@ export const errors = {
   VALIDATION_ERROR: 'Validation failed',
   INVALID_INPUT: 'Invalid input',
   INSUFFICIENT_STOCK: 'Insufficient stock',
+  WITHDRAWAL_PERIOD_ACTIVE:
+    'Batch is still within a treatment withdrawal period',
   ALREADY_EXISTS: 'Resource already exists',
   INTERNAL_ERROR: 'Internal server error',
   DATABASE_ERROR: 'Database error',
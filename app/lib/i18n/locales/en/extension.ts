@@ -39,6 +39,26 @@ export const extension = {
     denyReason: 'e.g., Not authorized by farm management',
     revokeReason: 'e.g., Access no longer needed',
   },
+
+  // Outbreak detection
+  outbreakSignals: {
+    title: 'Detection Signals',
+    confidence: '{{value}}% confidence',
+    rate: 'Weighted deaths per 1,000/day',
+    baselineValue: 'baseline {{value}}',
+    limit: 'limit {{value}}',
+    diseaseShare: 'Deaths recorded as disease',
+    neighbours: 'Neighbouring districts signalling',
+    epidemicCurve: 'Epidemic Curve',
+    epidemicCurveDescription:
+      'Daily deaths in the district by cause, against its baseline',
+    noDeaths: 'No deaths recorded in this period',
+    diseaseDeaths: 'Disease',
+    otherDeaths: 'Other causes',
+    neighbourDeaths: 'Neighbouring districts',
+    baseline: 'Baseline',
+    detected: 'Detected',
+  },
   toggleSupervisor: 'Toggle supervisor status',
   removeFromDistrict: 'Remove from district',
 }
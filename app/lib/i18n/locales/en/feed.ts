@@ -96,6 +96,160 @@ export const eggs = {
   },
 }
 
+export const milk = {
+  title: 'Milk Production',
+  subtitle: 'Record daily milking, rejected milk and quality',
+  record: 'Record Milking',
+  recorded: 'Milk record added',
+  history: 'Milking History',
+  history_desc: 'View and manage existing milk records',
+  morning: 'Morning',
+  evening: 'Evening',
+  total: 'Total',
+  rejected: 'Rejected',
+  butterfat: 'Butterfat',
+  totalProduced: 'Total Produced',
+  available: 'Available to Sell',
+  soldAmount: '{{amount}} sold',
+  averageButterfat: 'Avg Butterfat',
+  addRecordTitle: 'Record Milking',
+  addRecordDescription: 'Enter the morning and evening yield for a batch',
+  editRecordTitle: 'Edit Milk Record',
+  saveRecord: 'Save Record',
+  headCount: '{{count}} head',
+  morningLiters: 'Morning (L)',
+  eveningLiters: 'Evening (L)',
+  rejectedLiters: 'Rejected (L)',
+  rejectionReason: 'Reason',
+  selectReason: 'Select reason',
+  butterfatPercent: 'Butterfat %',
+  animalsMilked: 'Animals Milked',
+  withdrawalWarning:
+    'This batch is under treatment withdrawal until {{date}}. All milk will be recorded as rejected.',
+  reasons: {
+    withdrawal: 'Withdrawal',
+    mastitis: 'Mastitis',
+    spoiled: 'Spoiled',
+    other: 'Other',
+  },
+  empty: {
+    title: 'No records found',
+    description: 'Get started by recording your first milking.',
+  },
+}
+
+export const shearing = {
+  title: 'Shearing',
+  subtitle: 'Record wool clips: fleeces, greasy weight, micron and yield',
+  record: 'Record Shearing',
+  recorded: 'Shearing recorded',
+  history: 'Shearing History',
+  history_desc: 'View and manage existing shearing records',
+  fleeces: 'Fleeces',
+  shearings: '{{count}} shearings',
+  greasyWeight: 'Greasy Weight',
+  greasyWeightKg: 'Greasy Weight (kg)',
+  cleanWeight: 'Clean Weight',
+  cleanAmount: '{{amount}} clean',
+  averageFleece: 'Avg Fleece',
+  perFleece: '{{amount}} / fleece',
+  averageMicron: 'Avg Micron',
+  micron: 'Micron',
+  yieldPercent: 'Yield (%)',
+  shed: 'Shearing Shed',
+  noShed: 'None',
+  selectBatch: 'Select batch',
+  addTitle: 'Record Shearing',
+  addDescription: 'Enter the clip taken from a sheep or goat batch',
+  editTitle: 'Edit Shearing',
+  save: 'Save Shearing',
+  clipPreview: '{{perFleece}} kg per fleece, {{clean}} kg clean wool',
+  classes: {
+    superfine: 'Superfine',
+    fine: 'Fine',
+    medium: 'Medium',
+    strong: 'Strong',
+  },
+  empty: {
+    title: 'No records found',
+    description: 'Get started by recording your first shearing.',
+  },
+}
+
+export const apiary = {
+  title: 'Apiary',
+  subtitle: 'Hive inspections and honey and wax harvests',
+  recordInspection: 'Record Inspection',
+  recordHarvest: 'Record Harvest',
+  inspectionRecorded: 'Inspection recorded',
+  harvestRecorded: 'Harvest recorded',
+  inspectionHistory: 'Inspection History',
+  harvestHistory: 'Harvest History',
+  history_desc: 'View and manage records for each hive',
+  tabs: {
+    inspections: 'Inspections',
+    harvests: 'Harvests',
+  },
+  colonies: 'Colonies',
+  inspectionCount: '{{count}} inspections',
+  honeyHarvested: 'Honey Harvested',
+  waxAmount: '{{amount}} wax',
+  honeyPerColony: 'Honey per Colony',
+  needsAttention: 'Needs Attention',
+  needsAttentionHint: 'Based on each hive’s latest inspection',
+  hive: 'Hive',
+  selectHive: 'Select hive',
+  queenSeen: 'Queen Seen',
+  broodPattern: 'Brood Pattern',
+  swarmCells: 'Swarm Cells',
+  varroaCount: 'Varroa',
+  varroaHint: 'Mites per ~300-bee wash or sugar roll',
+  framesOfBees: 'Frames of Bees',
+  temperament: 'Temperament',
+  selectTemperament: 'Select temperament',
+  status: 'Status',
+  healthy: 'Healthy',
+  product: 'Product',
+  quantity: 'Quantity',
+  quantityKg: 'Quantity (kg)',
+  framesHarvested: 'Frames',
+  addInspectionTitle: 'Record Inspection',
+  addInspectionDescription:
+    'Log what you found when opening the hive: queen, brood, swarm cells and mites',
+  editInspectionTitle: 'Edit Inspection',
+  saveInspection: 'Save Inspection',
+  addHarvestTitle: 'Record Harvest',
+  addHarvestDescription: 'Enter the honey or wax taken from a hive',
+  editHarvestTitle: 'Edit Harvest',
+  saveHarvest: 'Save Harvest',
+  brood: {
+    solid: 'Solid',
+    spotty: 'Spotty',
+    none: 'None',
+  },
+  temperaments: {
+    calm: 'Calm',
+    nervous: 'Nervous',
+    aggressive: 'Aggressive',
+  },
+  products: {
+    honey: 'Honey',
+    wax: 'Wax',
+  },
+  warnings: {
+    swarm_cells: 'Swarm cells',
+    queenless: 'Queenless',
+    poor_brood: 'Poor brood',
+    high_varroa: 'High varroa',
+  },
+  empty: {
+    inspectionsTitle: 'No inspections found',
+    inspectionsDescription: 'Get started by recording your first inspection.',
+    harvestsTitle: 'No harvests found',
+    harvestsDescription: 'Record honey or wax taken from your hives.',
+  },
+}
+
 export const inventory = {
   title: 'Inventory',
   subtitle: 'Manage feed and medication stock levels',
@@ -216,6 +370,54 @@ export const inventory = {
       stockReduced: 'Stock reduced successfully',
     },
   },
+  forecast: {
+    title: 'Feed Forecast',
+    description:
+      'Projected from active batches, their growth curves and recent intake',
+    selectFarm: 'Select a farm to forecast its feed.',
+    empty: 'No active batches or feed stock to forecast.',
+    columns: {
+      feedType: 'Feed Type',
+      onHand: 'On Hand',
+      onOrder: 'On Order',
+      dailyUse: 'Daily Use',
+      daysLeft: 'Days Left',
+      reorderIn: 'Reorder In',
+    },
+    beyondHorizon: '{{days}}+ days',
+    days: '{{count}} days',
+    now: 'Now',
+    transitionsTitle: 'Upcoming Feed Changes',
+    transition: '{{batch}}: {{from}} → {{to}}',
+    inDays: 'in {{count}} days',
+    today: 'today',
+    suggestionsTitle: 'Suggested Orders',
+    noSuggestions: 'No orders needed in the coming weeks.',
+    noSupplier: 'No supplier yet',
+    noSupplierHint:
+      'Record feed purchases with a supplier, or add a feed supplier with a lead time.',
+    leadTime: '{{count}} day lead time',
+    orderBy: 'Order by {{date}}',
+    delivery: 'Delivery {{date}}',
+    estimatedCost: 'Est. {{amount}}',
+    placeOrder: 'Place Order',
+    openOrdersTitle: 'Open Orders',
+    expected: 'Expected {{date}}',
+    receive: 'Mark Received',
+    cancel: 'Cancel Order',
+    receiveTitle: 'Receive Order',
+    receiveDesc:
+      'Records a feed expense and adds the delivered feed to inventory.',
+    amountPaid: 'Amount Paid',
+    confirmReceive: 'Receive',
+    unforecast:
+      'No feed records, growth curve or target FCR to forecast: {{batches}}',
+    messages: {
+      ordered: 'Purchase order placed',
+      received: 'Order received into inventory',
+      cancelled: 'Purchase order cancelled',
+    },
+  },
   dialog: {
     addFeedTitle: 'Add Feed Inventory',
     addFeedDesc: 'Add a new feed type to track',
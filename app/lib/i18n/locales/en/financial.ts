@@ -52,6 +52,12 @@ export const sales = {
     updated: 'Sale updated',
     deleted: 'Sale deleted',
   },
+  withdrawal: {
+    title: 'Treatment withdrawal period',
+    description:
+      'This batch cannot be sold for food until {{date}}. Give a reason to sell anyway; it will be recorded in the audit log.',
+    reasonPlaceholder: 'Reason for override',
+  },
 }
 
 export const expenses = {
@@ -169,12 +175,54 @@ export const invoices = {
   },
   actions: {
     print: 'Print',
+    downloadPdf: 'Download PDF',
+  },
+  payments: {
+    title: 'Payments',
+    record: 'Record Payment',
+    recordDesc: 'Record money received against invoice #{{number}}.',
+    amount: 'Amount',
+    date: 'Date',
+    method: 'Method',
+    reference: 'Reference',
+    referencePlaceholder: 'Transaction ID or cheque number',
+    notes: 'Notes',
+    attachment: 'Proof of Payment',
+    viewAttachment: 'View',
+    empty: 'No payments recorded yet.',
+    amountPaid: 'Amount Paid',
+    balanceDue: 'Balance Due',
+    methods: {
+      cash: 'Cash',
+      transfer: 'Bank Transfer',
+      mobile_money: 'Mobile Money',
+      check: 'Cheque',
+      card: 'Card',
+      credit: 'Credit',
+    },
+  },
+  agedReceivables: {
+    title: 'Aged Receivables',
+    description: 'Outstanding balances by customer and days past due',
+    customer: 'Customer',
+    current: 'Current',
+    days1to30: '1-30 days',
+    days31to60: '31-60 days',
+    days61to90: '61-90 days',
+    over90: '90+ days',
+    total: 'Total',
+    empty: 'No outstanding balances.',
   },
   messages: {
     statusUpdated: 'Invoice status updated',
     deleted: 'Invoice deleted',
     statusError: 'Failed to update status',
     deleteError: 'Failed to delete invoice',
+    pdfError: 'Failed to generate invoice PDF',
+    paymentRecorded: 'Payment recorded successfully',
+    paymentError: 'Failed to record payment',
+    paymentDeleted: 'Payment deleted',
+    paymentDeleteError: 'Failed to delete payment',
   },
 }
 
@@ -300,6 +348,8 @@ export const suppliers = {
     selectType: 'Select type',
     products: 'Products Supplied',
     productsPlaceholder: 'e.g. Broiler Feed, Layers Feed (comma separated)',
+    leadTime: 'Delivery Lead Time (days)',
+    leadTimePlaceholder: 'e.g. 3',
     cancel: 'Cancel',
     add: 'Add Supplier',
     addSuccess: 'Supplier added successfully',
@@ -4,7 +4,7 @@ import { batches } from './batches'
 import { farms } from './farms'
 import { dashboard } from './dashboard'
 import { reports, settings } from './settings'
-import { eggs, feed, inventory } from './feed'
+import { apiary, eggs, feed, inventory, milk, shearing } from './feed'
 import {
   customers,
   expenses,
@@ -25,12 +25,17 @@ import { creditPassport } from './creditPassport'
 import { workers } from './workers'
 import { feedFormulation } from './feedFormulation'
 import { breeds } from './breeds'
+import { animals } from './animals'
+import { breeding } from './breeding'
+import { jobs } from './jobs'
 
 export const en = {
   common,
   tasks,
   auth,
   batches,
+  animals,
+  breeding,
   farms,
   dashboard,
   settings,
@@ -38,6 +43,9 @@ export const en = {
   onboarding: {}, // Missing in en modular files
   feed,
   eggs,
+  milk,
+  shearing,
+  apiary,
   inventory,
   financial,
   expenses,
@@ -62,5 +70,6 @@ export const en = {
   workers,
   feedFormulation,
   breeds,
+  jobs,
   'credit-passport': creditPassport, // Alias for kebab-case
 }
@@ -0,0 +1,36 @@
+export const jobs = {
+  title: 'Scheduled Jobs',
+  subtitle: 'Background jobs run by the Worker cron triggers',
+  runHistory: 'Run History',
+  allJobs: 'All jobs',
+  noRuns: 'No runs recorded yet',
+  never: 'Never',
+  runNow: 'Run now',
+  running: 'Running…',
+  runSucceeded: '{{name}} finished',
+  runFailed: '{{name}} failed',
+
+  columns: {
+    job: 'Job',
+    schedule: 'Schedule',
+    lastRun: 'Last Run',
+    status: 'Status',
+    duration: 'Duration',
+    trigger: 'Trigger',
+    startedAt: 'Started',
+    result: 'Result',
+  },
+
+  health: {
+    running: 'Running',
+    success: 'Succeeded',
+    failed: 'Failed',
+    never_run: 'Never run',
+  },
+
+  triggers: {
+    cron: 'Scheduled',
+    manual: 'Manual',
+    manualBy: 'Manual ({{name}})',
+  },
+}
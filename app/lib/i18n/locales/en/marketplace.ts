@@ -111,4 +111,7 @@ export const marketplace = {
   closeGallery: 'Close photo gallery',
   previousPhoto: 'Previous photo',
   nextPhoto: 'Next photo',
+  withdrawalWarning:
+    'This batch is in a treatment withdrawal period until {{date}}. Give a reason to list it anyway.',
+  withdrawalReasonPlaceholder: 'Reason for override',
 }
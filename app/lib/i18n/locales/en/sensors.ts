@@ -2,13 +2,131 @@ export const sensors = {
   title: 'Sensors',
   noData: 'No data available',
   loading: 'Loading...',
+  anomaly: 'Anomaly',
+  range: 'Range',
   messages: {
     updated: 'Sensor updated',
     deleted: 'Sensor deleted',
     acknowledged: 'Alert acknowledged',
+    alertDeliveryUpdated: 'Alert delivery settings saved',
+    gatewayAssigned: 'Gateway settings saved',
+    gatewayDeleted: 'Gateway deleted',
+    retentionUpdated: 'Data retention settings saved',
+    ruleCreated: 'Rule added',
+    actuatorDeleted: 'Actuator deleted',
+  },
+  alertDelivery: {
+    title: 'Alert Delivery',
+    email: 'Email alerts',
+    emailDescription: 'Email the farm owner when this sensor raises an alert',
+    sms: 'SMS alerts',
+    smsDescription:
+      "Text the farm's contact phone when this sensor raises a critical alert",
+    cooldown: 'Cooldown (minutes)',
+    cooldownDescription:
+      'Minimum time between alerts of the same type. Unacknowledged critical alerts are escalated to managers every 15 minutes.',
+  },
+  gateways: {
+    title: 'Gateways',
+    description:
+      'A gateway uploads readings for many sensors with one API key, including readings buffered while offline.',
+    add: 'Add Gateway',
+    empty: 'No gateways yet',
+    name: 'Gateway name',
+    gateway: 'Gateway',
+    none: 'No gateway',
+    channel: 'Channel',
+    channelDescription:
+      'The name this sensor reports under on the gateway, e.g. its MQTT topic suffix.',
+    sensorCount: 'Sensors: {{count}}',
+    lastSeen: 'Last upload {{time}}',
+    neverSeen: 'No uploads yet',
+    inactive: 'Inactive',
+    regenerateKey: 'New key',
+    keyTitle: 'Gateway API Key',
+    keyDescription: "Save this API key - it won't be shown again:",
+  },
+  retention: {
+    title: 'Data Retention',
+    description:
+      'How long sensor data is kept. Charts switch to hourly or daily averages once raw readings are removed.',
+    raw: 'Raw readings (days)',
+    hourly: 'Hourly averages (days)',
+    daily: 'Daily averages (days)',
+    forever: 'Forever',
+    archive: 'Archive raw readings',
+    archiveDescription:
+      'Export raw readings to file storage as compressed NDJSON before deleting them. Readings are kept while no storage is configured.',
+  },
+  actuators: {
+    title: 'Actuators',
+    description:
+      'Fans, foggers, aerators and other relay-controlled devices. Rules switch them from sensor readings; devices poll for commands with their API key.',
+    add: 'Add Actuator',
+    empty: 'No actuators yet',
+    name: 'Actuator name',
+    type: 'Device type',
+    structure: 'Structure',
+    keyTitle: 'Actuator API Key',
+    on: 'On',
+    off: 'Off',
+    turnOn: 'Turn on',
+    turnOff: 'Turn off',
+    auto: 'Automatic',
+    manual: 'Manual',
+    manualUntil: 'Manual until {{time}}',
+    resumeAuto: 'Resume rules',
+    awaitingDevice: 'Awaiting device',
+    overrideFor: 'Manual override length',
+    overrideHours_one: 'Override for {{count}} hour',
+    overrideHours_other: 'Override for {{count}} hours',
+    overrideUntilResumed: 'Override until resumed',
+    addRule: 'Add rule',
+    sensor: 'Sensor',
+    condition: 'Condition',
+    threshold: 'Threshold',
+    ratePerHour: 'Rate per hour',
+    duration: 'For at least (minutes)',
+    action: 'Then',
+    ruleSummary:
+      '{{sensor}} {{condition}} {{threshold}} for {{duration}} min: {{action}}',
+    conditions: {
+      above: 'above',
+      below: 'below',
+      rising: 'rising faster than',
+      falling: 'falling faster than',
+    },
+    types: {
+      fan: 'Fan',
+      fogger: 'Fogger',
+      heater: 'Heater',
+      aerator: 'Aerator',
+      pump: 'Pump',
+      light: 'Light',
+    },
+    sources: {
+      rule: 'Rule',
+      manual: 'Manual',
+      override_expired: 'Override ended',
+      device: 'Device report',
+    },
+    history: {
+      title: 'History',
+      empty: 'No changes yet',
+      state: '{{from}} → {{to}}',
+      mode: 'Mode: {{mode}}',
+    },
+  },
+  derived: {
+    description: 'Computed from other sensors in the same structure.',
+    input: '{{type}} sensor',
+    selectInput: 'Select sensor',
   },
   placeholders: {
     name: 'Sensor name',
     selectStructure: 'Select structure',
+    gatewayName: 'e.g. Poultry house gateway',
+    channel: 'e.g. house-b-nh3',
+    actuatorName: 'e.g. House B tunnel fans',
   },
 }
@@ -57,6 +57,9 @@ export const settings = {
     mortalityPercentDesc: 'Alert when mortality rate exceeds this percentage',
     mortalityQty: 'Mortality Alert (Quantity)',
     mortalityQtyDesc: 'Alert when deaths exceed this number in a single day',
+    fcrTolerance: 'FCR Tolerance (%)',
+    fcrToleranceDesc:
+      'Alert when feed conversion drifts this far above the breed target',
     highMortality: 'High Mortality',
     highMortalityDesc: 'When mortality exceeds thresholds',
     waterQuality: 'Water Quality Alert',
@@ -288,6 +291,9 @@ export const reports = {
     sales: 'Sales',
     feed: 'Feed',
     eggs: 'Egg Production',
+    milk: 'Milk Production',
+    apiary: 'Apiary',
+    breeding: 'Breeding',
   },
   profitLoss: {
     totalRevenue: 'Total Revenue',
@@ -296,6 +302,13 @@ export const reports = {
     margin: 'margin',
     revenueByType: 'Revenue by Type',
     expensesByCategory: 'Expenses by Category',
+    wool: 'Wool',
+    fleeces: 'Fleeces',
+    greasyWeight: 'Greasy Weight',
+    cleanWeight: 'Clean Weight',
+    woolRevenue: 'Wool Revenue',
+    perFleece: 'Revenue per Fleece',
+    perKg: 'Revenue per kg',
   },
   inventory: {
     columns: {
@@ -354,6 +367,73 @@ export const reports = {
       description: 'Feed records will appear here.',
     },
   },
+  milk: {
+    columns: {
+      date: 'Date',
+      morning: 'Morning',
+      evening: 'Evening',
+      total: 'Total',
+      rejected: 'Rejected',
+      butterfat: 'Butterfat',
+    },
+    summary: {
+      totalLiters: 'Total Milk',
+      totalRejected: 'Rejected',
+      averageDailyYield: 'Avg Daily Yield',
+      averageButterfat: 'Avg Butterfat',
+    },
+    empty: {
+      title: 'No milk data',
+      description: 'Milk records will appear here once registered.',
+    },
+  },
+  apiary: {
+    columns: {
+      hive: 'Hive',
+      honey: 'Honey',
+      wax: 'Wax',
+      inspections: 'Inspections',
+      lastInspection: 'Last Inspection',
+      varroa: 'Varroa',
+      status: 'Status',
+    },
+    summary: {
+      colonies: 'Colonies',
+      totalHoney: 'Total Honey',
+      honeyPerColony: 'Honey per Colony',
+      needsAttention: 'Needs Attention',
+    },
+    status: {
+      ok: 'OK',
+      needsAttention: 'Check hive',
+    },
+    empty: {
+      title: 'No apiary data',
+      description: 'Hive inspections and harvests will appear here.',
+    },
+  },
+  breeding: {
+    columns: {
+      batch: 'Batch',
+      bred: 'Bred',
+      awaiting: 'Awaiting',
+      liveBorn: 'Live Born',
+      stillborn: 'Stillborn',
+      weaned: 'Weaned',
+      rate: 'Rate',
+    },
+    summary: {
+      kiddingRate: 'Kidding Rate',
+      weaningPercent: 'Weaning %',
+      calvingInterval: 'Birth Interval',
+      days: '{{count}} days',
+      overdue: 'Overdue Births',
+    },
+    empty: {
+      title: 'No breeding data',
+      description: 'Matings and births in this period will appear here.',
+    },
+  },
   eggs: {
     columns: {
       date: 'Date',
@@ -49,4 +49,80 @@ export const creditPassport = {
     total: 'No se encontraron informes',
     desc: 'Genere su primer informe de pasaporte de crédito para comenzar.',
   },
+
+  // Localized PDF report
+  pdf: {
+    title: 'Informe de Pasaporte Crediticio',
+    reportPeriod: 'Periodo del informe',
+    periodRange: '{{start}} – {{end}}',
+    generatedOn: 'Generado el {{date}}',
+    signedFooter: 'Firmado y verificado digitalmente',
+    notAvailable: 'N/D',
+    noData: 'Sin datos',
+    contribution: '{{score}}/100 × {{weight}} = {{points}} pts',
+    sections: {
+      creditScore: 'Puntuación crediticia',
+      explanation: 'Cómo se calculó la puntuación',
+      improvements: 'Qué mejoraría esta puntuación',
+      financial: 'Desempeño financiero',
+      operational: 'Métricas operativas',
+      assets: 'Activos',
+      trackRecord: 'Historial',
+      productionVolume: 'Volumen de producción',
+    },
+    fields: {
+      score: 'Puntuación',
+      rating: 'Calificación',
+      scoringProfile: 'Perfil de puntuación',
+      totalRevenue: 'Ingresos totales',
+      netProfit: 'Beneficio neto',
+      profitMargin: 'Margen de beneficio',
+      activeBatches: 'Lotes activos',
+      avgFcr: 'ICA promedio',
+      mortalityRate: 'Tasa de mortalidad',
+      honeyYield: 'Rendimiento de miel por colonia',
+      totalInventoryValue: 'Valor total del inventario',
+      totalLivestock: 'Ganado total',
+      completedBatches: 'Lotes completados',
+      successRate: 'Tasa de éxito',
+      productionVolume: 'Volumen de producción',
+    },
+    factors: {
+      profitMargin: 'Margen de beneficio',
+      successRate: 'Lotes vendidos al peso objetivo',
+      monthsOperating: 'Meses en operación',
+      fcr: 'Índice de conversión alimenticia',
+      mortalityRate: 'Tasa de mortalidad',
+      honeyYield: 'Miel por colonia',
+      inventoryValue: 'Valor del inventario ganadero',
+      structureCount: 'Instalaciones',
+    },
+    units: {
+      months: '{{value}} meses',
+      kg: '{{value}} kg',
+      points: '{{value}} pts',
+      colonies: '{{count}} colonias',
+    },
+    improvements: {
+      profitMargin:
+        'Aumente su margen de beneficio de {{current}} hacia {{target}}',
+      profitMarginNoData:
+        'Registre ventas y gastos para poder medir su margen de beneficio',
+      successRate:
+        'Venda más lotes a su peso objetivo (ahora {{current}} de los lotes)',
+      monthsOperating:
+        'Siga registrando: {{remaining}} meses más de historial otorgan la puntuación máxima',
+      fcr: 'Mejore la conversión alimenticia de {{current}} hacia {{target}}',
+      fcrNoData:
+        'Registre el consumo de alimento y los pesajes para medir la conversión alimenticia',
+      mortalityRate: 'Reduzca la mortalidad de {{current}} hacia {{target}}',
+      honeyYield:
+        'Aumente el rendimiento de miel de {{current}} hacia {{target}} por colonia',
+      honeyYieldNoData: 'Registre las cosechas de miel de sus colmenas activas',
+      inventoryValue:
+        'Aumente el valor del ganado de {{current}} hacia {{target}}',
+      structureCount:
+        'Registre sus galpones, estanques y corrales ({{current}} de {{target}} registrados)',
+    },
+  },
 }
@@ -49,4 +49,81 @@ export const creditPassport = {
     total: 'Aucun rapport trouvé',
     desc: 'Générez votre premier rapport de passeport de crédit pour commencer.',
   },
+
+  // Localized PDF report
+  pdf: {
+    title: 'Rapport Passeport Crédit',
+    reportPeriod: 'Période du rapport',
+    periodRange: '{{start}} – {{end}}',
+    generatedOn: 'Généré le {{date}}',
+    signedFooter: 'Signé et vérifié numériquement',
+    notAvailable: 'N/D',
+    noData: 'Aucune donnée',
+    contribution: '{{score}}/100 × {{weight}} = {{points}} pts',
+    sections: {
+      creditScore: 'Score de crédit',
+      explanation: 'Calcul du score',
+      improvements: 'Ce qui améliorerait ce score',
+      financial: 'Performance financière',
+      operational: 'Indicateurs opérationnels',
+      assets: 'Actifs',
+      trackRecord: 'Historique',
+      productionVolume: 'Volume de production',
+    },
+    fields: {
+      score: 'Score',
+      rating: 'Note',
+      scoringProfile: 'Profil de notation',
+      totalRevenue: 'Revenu total',
+      netProfit: 'Bénéfice net',
+      profitMargin: 'Marge bénéficiaire',
+      activeBatches: 'Lots actifs',
+      avgFcr: 'IC moyen',
+      mortalityRate: 'Taux de mortalité',
+      honeyYield: 'Rendement en miel par colonie',
+      totalInventoryValue: 'Valeur totale du stock',
+      totalLivestock: 'Cheptel total',
+      completedBatches: 'Lots terminés',
+      successRate: 'Taux de réussite',
+      productionVolume: 'Volume de production',
+    },
+    factors: {
+      profitMargin: 'Marge bénéficiaire',
+      successRate: 'Lots vendus au poids cible',
+      monthsOperating: "Mois d'activité",
+      fcr: 'Indice de consommation',
+      mortalityRate: 'Taux de mortalité',
+      honeyYield: 'Miel par colonie',
+      inventoryValue: 'Valeur du cheptel',
+      structureCount: 'Bâtiments',
+    },
+    units: {
+      months: '{{value}} mois',
+      kg: '{{value}} kg',
+      points: '{{value}} pts',
+      colonies: '{{count}} colonies',
+    },
+    improvements: {
+      profitMargin:
+        'Augmentez votre marge bénéficiaire de {{current}} vers {{target}}',
+      profitMarginNoData:
+        'Enregistrez vos ventes et dépenses pour mesurer votre marge bénéficiaire',
+      successRate:
+        'Vendez plus de lots à leur poids cible (actuellement {{current}} des lots)',
+      monthsOperating:
+        "Continuez à enregistrer : {{remaining}} mois d'historique de plus donnent la note maximale",
+      fcr: "Améliorez l'indice de consommation de {{current}} vers {{target}}",
+      fcrNoData:
+        "Enregistrez l'alimentation et les pesées pour mesurer l'indice de consommation",
+      mortalityRate: 'Réduisez la mortalité de {{current}} vers {{target}}',
+      honeyYield:
+        'Augmentez le rendement en miel de {{current}} vers {{target}} par colonie',
+      honeyYieldNoData:
+        'Enregistrez les récoltes de miel de vos ruches actives',
+      inventoryValue:
+        'Augmentez la valeur du cheptel de {{current}} vers {{target}}',
+      structureCount:
+        'Enregistrez vos bâtiments, bassins et enclos ({{current}} sur {{target}} enregistrés)',
+    },
+  },
 }
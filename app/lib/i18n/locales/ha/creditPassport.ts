@@ -49,4 +49,79 @@ export const creditPassport = {
     total: 'Ba a sami rahoto ba',
     desc: 'Samar da rahoton fasfo na bashi na farko don farawa.',
   },
+
+  // Localized PDF report
+  pdf: {
+    title: 'Rahoton Fasfon Bashi',
+    reportPeriod: 'Lokacin rahoto',
+    periodRange: '{{start}} – {{end}}',
+    generatedOn: 'An samar a {{date}}',
+    signedFooter: 'An sanya hannu kuma an tabbatar ta dijital',
+    notAvailable: 'Babu',
+    noData: 'Babu bayani',
+    contribution: '{{score}}/100 × {{weight}} = maki {{points}}',
+    sections: {
+      creditScore: 'Makin Bashi',
+      explanation: 'Yadda Aka Lissafa Maki',
+      improvements: 'Abin da Zai Ƙara Wannan Maki',
+      financial: 'Ayyukan Kuɗi',
+      operational: "Ma'aunin Ayyuka",
+      assets: 'Kadarori',
+      trackRecord: 'Tarihin Aiki',
+      productionVolume: 'Yawan Samarwa',
+    },
+    fields: {
+      score: 'Maki',
+      rating: 'Matsayi',
+      scoringProfile: 'Bayanin Makin',
+      totalRevenue: 'Jimillar Kuɗin Shiga',
+      netProfit: 'Ribar Gaske',
+      profitMargin: 'Kashi na Riba',
+      activeBatches: 'Rukunin da ke Aiki',
+      avgFcr: 'Matsakaicin FCR',
+      mortalityRate: 'Yawan Mace-mace',
+      honeyYield: 'Zuma a Kowane Gida',
+      totalInventoryValue: 'Jimillar Darajar Kaya',
+      totalLivestock: 'Jimillar Dabbobi',
+      completedBatches: 'Rukunin da aka Kammala',
+      successRate: 'Kashi na Nasara',
+      productionVolume: 'Yawan Samarwa',
+    },
+    factors: {
+      profitMargin: 'Kashi na riba',
+      successRate: 'Rukunin da aka sayar a nauyin da ake so',
+      monthsOperating: 'Watannin aiki',
+      fcr: "Ma'aunin canza abinci",
+      mortalityRate: 'Yawan mace-mace',
+      honeyYield: 'Zuma a kowane gida',
+      inventoryValue: 'Darajar dabbobi',
+      structureCount: 'Gine-gine',
+    },
+    units: {
+      months: 'watanni {{value}}',
+      kg: '{{value}} kg',
+      points: 'maki {{value}}',
+      colonies: 'gidaje {{count}}',
+    },
+    improvements: {
+      profitMargin: 'Ƙara kashi na ribarka daga {{current}} zuwa {{target}}',
+      profitMarginNoData:
+        'Rubuta tallace-tallace da kashe-kashe domin a auna kashi na ribarka',
+      successRate:
+        'Sayar da ƙarin rukuni a nauyin da ake so (yanzu {{current}} na rukuni)',
+      monthsOperating:
+        'Ci gaba da rubutawa: ƙarin watanni {{remaining}} na tarihi suna ba da cikakken maki',
+      fcr: 'Inganta canza abinci daga {{current}} zuwa {{target}}',
+      fcrNoData:
+        'Rubuta amfani da abinci da auna nauyi domin a auna canza abinci',
+      mortalityRate: 'Rage mace-mace daga {{current}} zuwa {{target}}',
+      honeyYield:
+        'Ƙara yawan zuma daga {{current}} zuwa {{target}} a kowane gida',
+      honeyYieldNoData:
+        'Rubuta girbin zuma daga gidajen kudan zumarka masu aiki',
+      inventoryValue: 'Ƙara darajar dabbobi daga {{current}} zuwa {{target}}',
+      structureCount:
+        'Rubuta gidajen kaji, tafkuna da garken ka ({{current}} cikin {{target}} an rubuta)',
+    },
+  },
 }
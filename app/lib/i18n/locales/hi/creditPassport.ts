@@ -49,4 +49,76 @@ export const creditPassport = {
     total: 'कोई रिपोर्ट नहीं मिली',
     desc: 'शुरू करने के लिए अपनी पहली क्रेडिट पासपोर्ट रिपोर्ट जनरेट करें।',
   },
+
+  // Localized PDF report
+  pdf: {
+    title: 'क्रेडिट पासपोर्ट रिपोर्ट',
+    reportPeriod: 'रिपोर्ट अवधि',
+    periodRange: '{{start}} – {{end}}',
+    generatedOn: '{{date}} को तैयार किया गया',
+    signedFooter: 'डिजिटल रूप से हस्ताक्षरित और सत्यापित',
+    notAvailable: 'उपलब्ध नहीं',
+    noData: 'कोई डेटा नहीं',
+    contribution: '{{score}}/100 × {{weight}} = {{points}} अंक',
+    sections: {
+      creditScore: 'क्रेडिट स्कोर',
+      explanation: 'स्कोर की गणना कैसे हुई',
+      improvements: 'यह स्कोर कैसे बढ़ेगा',
+      financial: 'वित्तीय प्रदर्शन',
+      operational: 'परिचालन मापदंड',
+      assets: 'संपत्तियाँ',
+      trackRecord: 'ट्रैक रिकॉर्ड',
+      productionVolume: 'उत्पादन मात्रा',
+    },
+    fields: {
+      score: 'स्कोर',
+      rating: 'रेटिंग',
+      scoringProfile: 'स्कोरिंग प्रोफ़ाइल',
+      totalRevenue: 'कुल राजस्व',
+      netProfit: 'शुद्ध लाभ',
+      profitMargin: 'लाभ मार्जिन',
+      activeBatches: 'सक्रिय बैच',
+      avgFcr: 'औसत FCR',
+      mortalityRate: 'मृत्यु दर',
+      honeyYield: 'प्रति कॉलोनी शहद उपज',
+      totalInventoryValue: 'कुल इन्वेंटरी मूल्य',
+      totalLivestock: 'कुल पशुधन',
+      completedBatches: 'पूर्ण बैच',
+      successRate: 'सफलता दर',
+      productionVolume: 'उत्पादन मात्रा',
+    },
+    factors: {
+      profitMargin: 'लाभ मार्जिन',
+      successRate: 'लक्ष्य वज़न पर बेचे गए बैच',
+      monthsOperating: 'संचालन के महीने',
+      fcr: 'आहार रूपांतरण अनुपात',
+      mortalityRate: 'मृत्यु दर',
+      honeyYield: 'प्रति कॉलोनी शहद',
+      inventoryValue: 'पशुधन मूल्य',
+      structureCount: 'संरचनाएँ',
+    },
+    units: {
+      months: '{{value}} महीने',
+      kg: '{{value}} किग्रा',
+      points: '{{value}} अंक',
+      colonies: '{{count}} कॉलोनियाँ',
+    },
+    improvements: {
+      profitMargin: 'अपना लाभ मार्जिन {{current}} से {{target}} की ओर बढ़ाएँ',
+      profitMarginNoData:
+        'बिक्री और खर्च दर्ज करें ताकि आपका लाभ मार्जिन मापा जा सके',
+      successRate: 'अधिक बैच लक्ष्य वज़न पर बेचें (अभी {{current}} बैच)',
+      monthsOperating:
+        'रिकॉर्ड करते रहें: {{remaining}} और महीनों का इतिहास पूरे अंक दिलाता है',
+      fcr: 'आहार रूपांतरण को {{current}} से {{target}} की ओर सुधारें',
+      fcrNoData:
+        'आहार उपयोग और वज़न नमूने दर्ज करें ताकि आहार रूपांतरण मापा जा सके',
+      mortalityRate: 'मृत्यु दर को {{current}} से {{target}} की ओर घटाएँ',
+      honeyYield: 'प्रति कॉलोनी शहद उपज {{current}} से {{target}} की ओर बढ़ाएँ',
+      honeyYieldNoData: 'अपने सक्रिय छत्तों से शहद की फसल दर्ज करें',
+      inventoryValue: 'पशुधन मूल्य {{current}} से {{target}} की ओर बढ़ाएँ',
+      structureCount:
+        'अपने शेड, तालाब और बाड़े दर्ज करें ({{target}} में से {{current}} दर्ज)',
+    },
+  },
 }
@@ -49,4 +49,79 @@ export const creditPassport = {
     total: 'Tidak ada laporan ditemukan',
     desc: 'Buat laporan paspor kredit pertama Anda untuk memulai.',
   },
+
+  // Localized PDF report
+  pdf: {
+    title: 'Laporan Paspor Kredit',
+    reportPeriod: 'Periode laporan',
+    periodRange: '{{start}} – {{end}}',
+    generatedOn: 'Dibuat pada {{date}}',
+    signedFooter: 'Ditandatangani dan diverifikasi secara digital',
+    notAvailable: 'T/A',
+    noData: 'Tidak ada data',
+    contribution: '{{score}}/100 × {{weight}} = {{points}} poin',
+    sections: {
+      creditScore: 'Skor Kredit',
+      explanation: 'Cara Skor Dihitung',
+      improvements: 'Yang Akan Menaikkan Skor Ini',
+      financial: 'Kinerja Keuangan',
+      operational: 'Metrik Operasional',
+      assets: 'Aset',
+      trackRecord: 'Rekam Jejak',
+      productionVolume: 'Volume Produksi',
+    },
+    fields: {
+      score: 'Skor',
+      rating: 'Peringkat',
+      scoringProfile: 'Profil Penilaian',
+      totalRevenue: 'Total Pendapatan',
+      netProfit: 'Laba Bersih',
+      profitMargin: 'Margin Laba',
+      activeBatches: 'Batch Aktif',
+      avgFcr: 'Rata-rata FCR',
+      mortalityRate: 'Tingkat Kematian',
+      honeyYield: 'Hasil Madu per Koloni',
+      totalInventoryValue: 'Total Nilai Inventaris',
+      totalLivestock: 'Total Ternak',
+      completedBatches: 'Batch Selesai',
+      successRate: 'Tingkat Keberhasilan',
+      productionVolume: 'Volume Produksi',
+    },
+    factors: {
+      profitMargin: 'Margin laba',
+      successRate: 'Batch terjual pada bobot target',
+      monthsOperating: 'Bulan beroperasi',
+      fcr: 'Rasio konversi pakan',
+      mortalityRate: 'Tingkat kematian',
+      honeyYield: 'Madu per koloni',
+      inventoryValue: 'Nilai ternak',
+      structureCount: 'Bangunan',
+    },
+    units: {
+      months: '{{value}} bulan',
+      kg: '{{value}} kg',
+      points: '{{value}} poin',
+      colonies: '{{count}} koloni',
+    },
+    improvements: {
+      profitMargin:
+        'Naikkan margin laba Anda dari {{current}} menuju {{target}}',
+      profitMarginNoData:
+        'Catat penjualan dan pengeluaran agar margin laba Anda dapat diukur',
+      successRate:
+        'Jual lebih banyak batch pada bobot targetnya (kini {{current}} dari batch)',
+      monthsOperating:
+        'Terus mencatat: {{remaining}} bulan riwayat lagi memberi nilai penuh',
+      fcr: 'Perbaiki konversi pakan dari {{current}} menuju {{target}}',
+      fcrNoData:
+        'Catat penggunaan pakan dan sampel bobot agar konversi pakan dapat diukur',
+      mortalityRate: 'Turunkan kematian dari {{current}} menuju {{target}}',
+      honeyYield:
+        'Naikkan hasil madu dari {{current}} menuju {{target}} per koloni',
+      honeyYieldNoData: 'Catat panen madu dari sarang aktif Anda',
+      inventoryValue: 'Naikkan nilai ternak dari {{current}} menuju {{target}}',
+      structureCount:
+        'Catat kandang, kolam, dan pen Anda ({{current}} dari {{target}} tercatat)',
+    },
+  },
 }
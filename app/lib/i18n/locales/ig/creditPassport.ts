@@ -49,4 +49,75 @@ export const creditPassport = {
     total: 'Enweghị akụkọ',
     desc: 'Mepụta akụkọ paspọtụ kredit mbụ gị iji malite.',
   },
+
+  // Localized PDF report
+  pdf: {
+    title: 'Akụkọ Paspọtụ Kredit',
+    reportPeriod: 'Oge akụkọ',
+    periodRange: '{{start}} – {{end}}',
+    generatedOn: 'Emepụtara na {{date}}',
+    signedFooter: "Abịanyere aka ma kwado ya n'ụzọ dijitalụ",
+    notAvailable: 'Enweghị',
+    noData: 'Enweghị data',
+    contribution: '{{score}}/100 × {{weight}} = akara {{points}}',
+    sections: {
+      creditScore: 'Akara Kredit',
+      explanation: 'Otu E Si Gụọ Akara',
+      improvements: 'Ihe Ga-Ebuli Akara A',
+      financial: 'Arụmọrụ Ego',
+      operational: 'Ọnụọgụ Ọrụ',
+      assets: 'Akụ',
+      trackRecord: 'Akụkọ Ọrụ',
+      productionVolume: 'Ọnụọgụ Mmepụta',
+    },
+    fields: {
+      score: 'Akara',
+      rating: 'Ọkwa',
+      scoringProfile: 'Profaịlụ Akara',
+      totalRevenue: 'Mkpokọta Ego Mbata',
+      netProfit: 'Uru Net',
+      profitMargin: 'Pasent Uru',
+      activeBatches: 'Otu Ndị Na-arụ Ọrụ',
+      avgFcr: 'Nkezi FCR',
+      mortalityRate: 'Ọnụọgụ Ọnwụ',
+      honeyYield: 'Mmanụ Aṅụ Kwa Ụlọ Aṅụ',
+      totalInventoryValue: 'Mkpokọta Uru Ngwaahịa',
+      totalLivestock: 'Mkpokọta Anụ Ụlọ',
+      completedBatches: 'Otu Emechara',
+      successRate: 'Pasent Ihe Ịga Nke Ọma',
+      productionVolume: 'Ọnụọgụ Mmepụta',
+    },
+    factors: {
+      profitMargin: 'Pasent uru',
+      successRate: "Otu erere n'ibu a chọrọ",
+      monthsOperating: 'Ọnwa ọrụ',
+      fcr: 'Oke ntụgharị nri',
+      mortalityRate: 'Ọnụọgụ ọnwụ',
+      honeyYield: 'Mmanụ aṅụ kwa ụlọ aṅụ',
+      inventoryValue: 'Uru anụ ụlọ',
+      structureCount: 'Ụlọ',
+    },
+    units: {
+      months: 'ọnwa {{value}}',
+      kg: '{{value}} kg',
+      points: 'akara {{value}}',
+      colonies: 'ụlọ aṅụ {{count}}',
+    },
+    improvements: {
+      profitMargin: 'Bulie pasent uru gị site na {{current}} gaa {{target}}',
+      profitMarginNoData: 'Dee ahịa na mmefu ka e wee tụọ pasent uru gị',
+      successRate: "Ree otu ndị ọzọ n'ibu a chọrọ (ugbu a {{current}} nke otu)",
+      monthsOperating:
+        "Gaa n'ihu na-ede: ọnwa {{remaining}} ọzọ nke akụkọ na-enye akara zuru ezu",
+      fcr: 'Meziwanye ntụgharị nri site na {{current}} gaa {{target}}',
+      fcrNoData: 'Dee iji nri na nha ibu ka e wee tụọ ntụgharị nri',
+      mortalityRate: 'Belata ọnwụ site na {{current}} gaa {{target}}',
+      honeyYield:
+        'Bulie mmanụ aṅụ site na {{current}} gaa {{target}} kwa ụlọ aṅụ',
+      honeyYieldNoData: "Dee owuwe mmanụ aṅụ site n'ụlọ aṅụ gị ndị na-arụ ọrụ",
+      inventoryValue: 'Bulie uru anụ ụlọ site na {{current}} gaa {{target}}',
+      structureCount:
+        "Dee ụlọ, ọdọ mmiri na ogige gị ({{current}} n'ime {{target}} edere)",
+    },
+  },
 }
@@ -49,4 +49,80 @@ export const creditPassport = {
     total: 'Nenhum relatório encontrado',
     desc: 'Gere seu primeiro relatório de passaporte de crédito para começar.',
   },
+
+  // Localized PDF report
+  pdf: {
+    title: 'Relatório do Passaporte de Crédito',
+    reportPeriod: 'Período do relatório',
+    periodRange: '{{start}} – {{end}}',
+    generatedOn: 'Gerado em {{date}}',
+    signedFooter: 'Assinado e verificado digitalmente',
+    notAvailable: 'N/D',
+    noData: 'Sem dados',
+    contribution: '{{score}}/100 × {{weight}} = {{points}} pts',
+    sections: {
+      creditScore: 'Pontuação de crédito',
+      explanation: 'Como a pontuação foi calculada',
+      improvements: 'O que aumentaria esta pontuação',
+      financial: 'Desempenho financeiro',
+      operational: 'Métricas operacionais',
+      assets: 'Ativos',
+      trackRecord: 'Histórico',
+      productionVolume: 'Volume de produção',
+    },
+    fields: {
+      score: 'Pontuação',
+      rating: 'Classificação',
+      scoringProfile: 'Perfil de pontuação',
+      totalRevenue: 'Receita total',
+      netProfit: 'Lucro líquido',
+      profitMargin: 'Margem de lucro',
+      activeBatches: 'Lotes ativos',
+      avgFcr: 'CA média',
+      mortalityRate: 'Taxa de mortalidade',
+      honeyYield: 'Produção de mel por colmeia',
+      totalInventoryValue: 'Valor total do inventário',
+      totalLivestock: 'Total de animais',
+      completedBatches: 'Lotes concluídos',
+      successRate: 'Taxa de sucesso',
+      productionVolume: 'Volume de produção',
+    },
+    factors: {
+      profitMargin: 'Margem de lucro',
+      successRate: 'Lotes vendidos no peso-alvo',
+      monthsOperating: 'Meses de atividade',
+      fcr: 'Conversão alimentar',
+      mortalityRate: 'Taxa de mortalidade',
+      honeyYield: 'Mel por colmeia',
+      inventoryValue: 'Valor do rebanho',
+      structureCount: 'Instalações',
+    },
+    units: {
+      months: '{{value}} meses',
+      kg: '{{value}} kg',
+      points: '{{value}} pts',
+      colonies: '{{count}} colmeias',
+    },
+    improvements: {
+      profitMargin:
+        'Aumente sua margem de lucro de {{current}} para {{target}}',
+      profitMarginNoData:
+        'Registre vendas e despesas para que sua margem de lucro possa ser medida',
+      successRate:
+        'Venda mais lotes no peso-alvo (agora {{current}} dos lotes)',
+      monthsOperating:
+        'Continue registrando: mais {{remaining}} meses de histórico garantem a nota máxima',
+      fcr: 'Melhore a conversão alimentar de {{current}} para {{target}}',
+      fcrNoData:
+        'Registre o consumo de ração e as pesagens para medir a conversão alimentar',
+      mortalityRate: 'Reduza a mortalidade de {{current}} para {{target}}',
+      honeyYield:
+        'Aumente a produção de mel de {{current}} para {{target}} por colmeia',
+      honeyYieldNoData: 'Registre as colheitas de mel das suas colmeias ativas',
+      inventoryValue:
+        'Aumente o valor do rebanho de {{current}} para {{target}}',
+      structureCount:
+        'Registre seus galpões, tanques e currais ({{current}} de {{target}} registrados)',
+    },
+  },
 }
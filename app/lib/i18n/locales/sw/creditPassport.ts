@@ -49,4 +49,80 @@ export const creditPassport = {
     total: 'Hakuna ripoti zilizopatikana',
     desc: 'Tengeneza ripoti yako ya kwanza ya pasipoti ya mkopo kuanza.',
   },
+
+  // Localized PDF report
+  pdf: {
+    title: 'Ripoti ya Pasipoti ya Mkopo',
+    reportPeriod: 'Kipindi cha ripoti',
+    periodRange: '{{start}} – {{end}}',
+    generatedOn: 'Imetolewa {{date}}',
+    signedFooter: 'Imesainiwa na kuthibitishwa kidijitali',
+    notAvailable: 'Haipatikani',
+    noData: 'Hakuna data',
+    contribution: '{{score}}/100 × {{weight}} = alama {{points}}',
+    sections: {
+      creditScore: 'Alama ya Mkopo',
+      explanation: 'Jinsi Alama Ilivyokokotolewa',
+      improvements: 'Kinachoweza Kuongeza Alama Hii',
+      financial: 'Utendaji wa Kifedha',
+      operational: 'Vipimo vya Uendeshaji',
+      assets: 'Mali',
+      trackRecord: 'Rekodi ya Utendaji',
+      productionVolume: 'Kiasi cha Uzalishaji',
+    },
+    fields: {
+      score: 'Alama',
+      rating: 'Daraja',
+      scoringProfile: 'Wasifu wa Alama',
+      totalRevenue: 'Jumla ya Mapato',
+      netProfit: 'Faida Halisi',
+      profitMargin: 'Kiwango cha Faida',
+      activeBatches: 'Makundi Hai',
+      avgFcr: 'Wastani wa FCR',
+      mortalityRate: 'Kiwango cha Vifo',
+      honeyYield: 'Mavuno ya Asali kwa Kundi',
+      totalInventoryValue: 'Jumla ya Thamani ya Mali',
+      totalLivestock: 'Jumla ya Mifugo',
+      completedBatches: 'Makundi Yaliyokamilika',
+      successRate: 'Kiwango cha Mafanikio',
+      productionVolume: 'Kiasi cha Uzalishaji',
+    },
+    factors: {
+      profitMargin: 'Kiwango cha faida',
+      successRate: 'Makundi yaliyouzwa kwa uzito lengwa',
+      monthsOperating: 'Miezi ya uendeshaji',
+      fcr: 'Uwiano wa ubadilishaji wa chakula',
+      mortalityRate: 'Kiwango cha vifo',
+      honeyYield: 'Asali kwa kundi',
+      inventoryValue: 'Thamani ya mifugo',
+      structureCount: 'Majengo',
+    },
+    units: {
+      months: 'miezi {{value}}',
+      kg: '{{value}} kg',
+      points: 'alama {{value}}',
+      colonies: 'makundi {{count}}',
+    },
+    improvements: {
+      profitMargin:
+        'Ongeza kiwango chako cha faida kutoka {{current}} kuelekea {{target}}',
+      profitMarginNoData:
+        'Rekodi mauzo na matumizi ili kiwango chako cha faida kipimwe',
+      successRate:
+        'Uza makundi zaidi kwa uzito lengwa (sasa {{current}} ya makundi)',
+      monthsOperating:
+        'Endelea kurekodi: miezi {{remaining}} zaidi ya historia inaleta alama kamili',
+      fcr: 'Boresha ubadilishaji wa chakula kutoka {{current}} kuelekea {{target}}',
+      fcrNoData:
+        'Rekodi matumizi ya chakula na sampuli za uzito ili ubadilishaji wa chakula upimwe',
+      mortalityRate: 'Punguza vifo kutoka {{current}} kuelekea {{target}}',
+      honeyYield:
+        'Ongeza mavuno ya asali kutoka {{current}} kuelekea {{target}} kwa kila kundi',
+      honeyYieldNoData: 'Rekodi mavuno ya asali kutoka mizinga yako hai',
+      inventoryValue:
+        'Ongeza thamani ya mifugo kutoka {{current}} kuelekea {{target}}',
+      structureCount:
+        'Rekodi mabanda, mabwawa na zizi zako ({{current}} kati ya {{target}} zimerekodiwa)',
+    },
+  },
 }
@@ -48,4 +48,76 @@ export const creditPassport = {
     total: 'ไม่พบรายงาน',
     desc: 'สร้างรายงานพาสปอร์ตเครดิตแรกของคุณเพื่อเริ่มต้น',
   },
+
+  // Localized PDF report
+  pdf: {
+    title: 'รายงานพาสปอร์ตสินเชื่อ',
+    reportPeriod: 'ช่วงเวลาของรายงาน',
+    periodRange: '{{start}} – {{end}}',
+    generatedOn: 'สร้างเมื่อ {{date}}',
+    signedFooter: 'ลงนามและยืนยันแบบดิจิทัล',
+    notAvailable: 'ไม่มี',
+    noData: 'ไม่มีข้อมูล',
+    contribution: '{{score}}/100 × {{weight}} = {{points}} คะแนน',
+    sections: {
+      creditScore: 'คะแนนเครดิต',
+      explanation: 'วิธีคำนวณคะแนน',
+      improvements: 'สิ่งที่จะช่วยเพิ่มคะแนนนี้',
+      financial: 'ผลการดำเนินงานทางการเงิน',
+      operational: 'ตัวชี้วัดการดำเนินงาน',
+      assets: 'สินทรัพย์',
+      trackRecord: 'ประวัติการดำเนินงาน',
+      productionVolume: 'ปริมาณการผลิต',
+    },
+    fields: {
+      score: 'คะแนน',
+      rating: 'ระดับ',
+      scoringProfile: 'โปรไฟล์การให้คะแนน',
+      totalRevenue: 'รายได้รวม',
+      netProfit: 'กำไรสุทธิ',
+      profitMargin: 'อัตรากำไร',
+      activeBatches: 'ชุดที่ดำเนินอยู่',
+      avgFcr: 'FCR เฉลี่ย',
+      mortalityRate: 'อัตราการตาย',
+      honeyYield: 'ผลผลิตน้ำผึ้งต่อรัง',
+      totalInventoryValue: 'มูลค่าสินค้าคงคลังรวม',
+      totalLivestock: 'ปศุสัตว์ทั้งหมด',
+      completedBatches: 'ชุดที่เสร็จสิ้น',
+      successRate: 'อัตราความสำเร็จ',
+      productionVolume: 'ปริมาณการผลิต',
+    },
+    factors: {
+      profitMargin: 'อัตรากำไร',
+      successRate: 'ชุดที่ขายได้ตามน้ำหนักเป้าหมาย',
+      monthsOperating: 'จำนวนเดือนที่ดำเนินการ',
+      fcr: 'อัตราการแลกเนื้อ',
+      mortalityRate: 'อัตราการตาย',
+      honeyYield: 'น้ำผึ้งต่อรัง',
+      inventoryValue: 'มูลค่าปศุสัตว์',
+      structureCount: 'โรงเรือน',
+    },
+    units: {
+      months: '{{value}} เดือน',
+      kg: '{{value}} กก.',
+      points: '{{value}} คะแนน',
+      colonies: '{{count}} รัง',
+    },
+    improvements: {
+      profitMargin: 'เพิ่มอัตรากำไรจาก {{current}} ไปสู่ {{target}}',
+      profitMarginNoData: 'บันทึกยอดขายและค่าใช้จ่ายเพื่อให้วัดอัตรากำไรได้',
+      successRate:
+        'ขายชุดให้ได้น้ำหนักเป้าหมายมากขึ้น (ขณะนี้ {{current}} ของชุดทั้งหมด)',
+      monthsOperating:
+        'บันทึกต่อไป: ประวัติอีก {{remaining}} เดือนจะได้คะแนนเต็ม',
+      fcr: 'ปรับปรุงอัตราการแลกเนื้อจาก {{current}} ไปสู่ {{target}}',
+      fcrNoData:
+        'บันทึกการใช้อาหารและการชั่งน้ำหนักเพื่อให้วัดอัตราการแลกเนื้อได้',
+      mortalityRate: 'ลดอัตราการตายจาก {{current}} ไปสู่ {{target}}',
+      honeyYield: 'เพิ่มผลผลิตน้ำผึ้งจาก {{current}} ไปสู่ {{target}} ต่อรัง',
+      honeyYieldNoData: 'บันทึกการเก็บน้ำผึ้งจากรังที่ใช้งานอยู่',
+      inventoryValue: 'เพิ่มมูลค่าปศุสัตว์จาก {{current}} ไปสู่ {{target}}',
+      structureCount:
+        'บันทึกโรงเรือน บ่อ และคอกของคุณ (บันทึกแล้ว {{current}} จาก {{target}})',
+    },
+  },
 }
@@ -48,4 +48,81 @@ export const creditPassport = {
     total: 'Rapor bulunamadı',
     desc: 'Başlamak için ilk kredi pasaportu raporunuzu oluşturun.',
   },
+
+  // Localized PDF report
+  pdf: {
+    title: 'Kredi Pasaportu Raporu',
+    reportPeriod: 'Rapor dönemi',
+    periodRange: '{{start}} – {{end}}',
+    generatedOn: '{{date}} tarihinde oluşturuldu',
+    signedFooter: 'Dijital olarak imzalandı ve doğrulandı',
+    notAvailable: 'Yok',
+    noData: 'Veri yok',
+    contribution: '{{score}}/100 × {{weight}} = {{points}} puan',
+    sections: {
+      creditScore: 'Kredi Puanı',
+      explanation: 'Puan Nasıl Hesaplandı',
+      improvements: 'Bu Puanı Ne Yükseltir',
+      financial: 'Finansal Performans',
+      operational: 'Operasyonel Metrikler',
+      assets: 'Varlıklar',
+      trackRecord: 'Geçmiş Performans',
+      productionVolume: 'Üretim Hacmi',
+    },
+    fields: {
+      score: 'Puan',
+      rating: 'Derece',
+      scoringProfile: 'Puanlama Profili',
+      totalRevenue: 'Toplam Gelir',
+      netProfit: 'Net Kâr',
+      profitMargin: 'Kâr Marjı',
+      activeBatches: 'Aktif Partiler',
+      avgFcr: 'Ortalama FCR',
+      mortalityRate: 'Ölüm Oranı',
+      honeyYield: 'Koloni Başına Bal Verimi',
+      totalInventoryValue: 'Toplam Envanter Değeri',
+      totalLivestock: 'Toplam Hayvan',
+      completedBatches: 'Tamamlanan Partiler',
+      successRate: 'Başarı Oranı',
+      productionVolume: 'Üretim Hacmi',
+    },
+    factors: {
+      profitMargin: 'Kâr marjı',
+      successRate: 'Hedef ağırlıkta satılan partiler',
+      monthsOperating: 'Faaliyet ayı',
+      fcr: 'Yem dönüşüm oranı',
+      mortalityRate: 'Ölüm oranı',
+      honeyYield: 'Koloni başına bal',
+      inventoryValue: 'Hayvan varlığı değeri',
+      structureCount: 'Yapılar',
+    },
+    units: {
+      months: '{{value}} ay',
+      kg: '{{value}} kg',
+      points: '{{value}} puan',
+      colonies: '{{count}} koloni',
+    },
+    improvements: {
+      profitMargin:
+        'Kâr marjınızı {{current}} seviyesinden {{target}} seviyesine yükseltin',
+      profitMarginNoData:
+        'Kâr marjınızın ölçülebilmesi için satış ve giderleri kaydedin',
+      successRate:
+        'Daha fazla partiyi hedef ağırlıkta satın (şu an partilerin {{current}} kadarı)',
+      monthsOperating:
+        'Kaydetmeye devam edin: {{remaining}} ay daha geçmiş tam puan kazandırır',
+      fcr: 'Yem dönüşümünü {{current}} seviyesinden {{target}} seviyesine iyileştirin',
+      fcrNoData:
+        'Yem dönüşümünün ölçülebilmesi için yem kullanımını ve tartımları kaydedin',
+      mortalityRate:
+        'Ölüm oranını {{current}} seviyesinden {{target}} seviyesine düşürün',
+      honeyYield:
+        'Koloni başına bal verimini {{current}} seviyesinden {{target}} seviyesine yükseltin',
+      honeyYieldNoData: 'Aktif kovanlarınızdan bal hasatlarını kaydedin',
+      inventoryValue:
+        'Hayvan varlığı değerini {{current}} seviyesinden {{target}} seviyesine yükseltin',
+      structureCount:
+        'Kümeslerinizi, havuzlarınızı ve ağıllarınızı kaydedin ({{target}} yapının {{current}} tanesi kayıtlı)',
+    },
+  },
 }
@@ -49,4 +49,78 @@ export const creditPassport = {
     total: 'Không tìm thấy báo cáo',
     desc: 'Tạo báo cáo hộ chiếu tín dụng đầu tiên của bạn để bắt đầu.',
   },
+
+  // Localized PDF report
+  pdf: {
+    title: 'Báo cáo Hộ chiếu Tín dụng',
+    reportPeriod: 'Kỳ báo cáo',
+    periodRange: '{{start}} – {{end}}',
+    generatedOn: 'Tạo ngày {{date}}',
+    signedFooter: 'Đã ký và xác minh kỹ thuật số',
+    notAvailable: 'Không có',
+    noData: 'Không có dữ liệu',
+    contribution: '{{score}}/100 × {{weight}} = {{points}} điểm',
+    sections: {
+      creditScore: 'Điểm tín dụng',
+      explanation: 'Cách tính điểm',
+      improvements: 'Điều sẽ nâng điểm này',
+      financial: 'Hiệu quả tài chính',
+      operational: 'Chỉ số vận hành',
+      assets: 'Tài sản',
+      trackRecord: 'Lịch sử hoạt động',
+      productionVolume: 'Sản lượng',
+    },
+    fields: {
+      score: 'Điểm',
+      rating: 'Xếp hạng',
+      scoringProfile: 'Hồ sơ chấm điểm',
+      totalRevenue: 'Tổng doanh thu',
+      netProfit: 'Lợi nhuận ròng',
+      profitMargin: 'Biên lợi nhuận',
+      activeBatches: 'Lứa đang nuôi',
+      avgFcr: 'FCR trung bình',
+      mortalityRate: 'Tỷ lệ chết',
+      honeyYield: 'Sản lượng mật mỗi đàn',
+      totalInventoryValue: 'Tổng giá trị tồn kho',
+      totalLivestock: 'Tổng vật nuôi',
+      completedBatches: 'Lứa đã hoàn thành',
+      successRate: 'Tỷ lệ thành công',
+      productionVolume: 'Sản lượng',
+    },
+    factors: {
+      profitMargin: 'Biên lợi nhuận',
+      successRate: 'Lứa bán đạt trọng lượng mục tiêu',
+      monthsOperating: 'Số tháng hoạt động',
+      fcr: 'Hệ số chuyển hóa thức ăn',
+      mortalityRate: 'Tỷ lệ chết',
+      honeyYield: 'Mật ong mỗi đàn',
+      inventoryValue: 'Giá trị vật nuôi',
+      structureCount: 'Chuồng trại',
+    },
+    units: {
+      months: '{{value}} tháng',
+      kg: '{{value}} kg',
+      points: '{{value}} điểm',
+      colonies: '{{count}} đàn',
+    },
+    improvements: {
+      profitMargin: 'Nâng biên lợi nhuận từ {{current}} lên {{target}}',
+      profitMarginNoData:
+        'Ghi chép doanh thu và chi phí để đo được biên lợi nhuận',
+      successRate:
+        'Bán nhiều lứa đạt trọng lượng mục tiêu hơn (hiện {{current}} số lứa)',
+      monthsOperating:
+        'Tiếp tục ghi chép: thêm {{remaining}} tháng lịch sử sẽ đạt điểm tối đa',
+      fcr: 'Cải thiện hệ số chuyển hóa thức ăn từ {{current}} về {{target}}',
+      fcrNoData:
+        'Ghi chép lượng thức ăn và cân mẫu để đo được hệ số chuyển hóa thức ăn',
+      mortalityRate: 'Giảm tỷ lệ chết từ {{current}} về {{target}}',
+      honeyYield: 'Nâng sản lượng mật từ {{current}} lên {{target}} mỗi đàn',
+      honeyYieldNoData:
+        'Ghi chép các lần thu hoạch mật từ các tổ đang hoạt động',
+      inventoryValue: 'Nâng giá trị vật nuôi từ {{current}} lên {{target}}',
+      structureCount:
+        'Ghi chép chuồng, ao và bãi quây ({{current}} trên {{target}} đã ghi)',
+    },
+  },
 }
@@ -49,4 +49,76 @@ export const creditPassport = {
     total: 'Kò rí ìròyìn kankan',
     desc: 'Ṣe ìròyìn àkọ́kọ́ ìwé ìrìnnà kírédítì rẹ láti bẹ̀rẹ̀.',
   },
+
+  // Localized PDF report
+  pdf: {
+    title: 'Ìjábọ̀ Ìwé-ìrìnnà Kírẹ́dítì',
+    reportPeriod: 'Àkókò ìjábọ̀',
+    periodRange: '{{start}} – {{end}}',
+    generatedOn: 'A ṣe é ní {{date}}',
+    signedFooter: 'A fọwọ́ sí i, a sì fìdí rẹ̀ múlẹ̀ ní ọ̀nà díjítà',
+    notAvailable: 'Kò sí',
+    noData: 'Kò sí dátà',
+    contribution: '{{score}}/100 × {{weight}} = máàkì {{points}}',
+    sections: {
+      creditScore: 'Máàkì Kírẹ́dítì',
+      explanation: 'Bí A Ṣe Ṣírò Máàkì',
+      improvements: 'Ohun Tí Yóò Gbé Máàkì Yìí Sókè',
+      financial: 'Iṣẹ́ Ìnáwó',
+      operational: 'Àwọn Ìwọ̀n Iṣẹ́',
+      assets: 'Àwọn Dúkìá',
+      trackRecord: 'Ìtàn Iṣẹ́',
+      productionVolume: 'Iye Ìṣèjáde',
+    },
+    fields: {
+      score: 'Máàkì',
+      rating: 'Ipò',
+      scoringProfile: 'Àpèjúwe Máàkì',
+      totalRevenue: 'Àpapọ̀ Owó-wọlé',
+      netProfit: 'Èrè Gidi',
+      profitMargin: 'Ìdá Èrè',
+      activeBatches: 'Àwọn Ìpele Tó Ń Ṣiṣẹ́',
+      avgFcr: 'Àròpín FCR',
+      mortalityRate: 'Ìdá Ikú',
+      honeyYield: 'Oyin fún Ilé Oyin Kọ̀ọ̀kan',
+      totalInventoryValue: 'Àpapọ̀ Iye Ọjà',
+      totalLivestock: 'Àpapọ̀ Ẹran-ọ̀sìn',
+      completedBatches: 'Àwọn Ìpele Tó Parí',
+      successRate: 'Ìdá Àṣeyọrí',
+      productionVolume: 'Iye Ìṣèjáde',
+    },
+    factors: {
+      profitMargin: 'Ìdá èrè',
+      successRate: 'Àwọn ìpele tí a tà ní ìwọ̀n àfojúsùn',
+      monthsOperating: 'Oṣù iṣẹ́',
+      fcr: 'Ìpín ìyípadà oúnjẹ',
+      mortalityRate: 'Ìdá ikú',
+      honeyYield: 'Oyin fún ilé oyin kọ̀ọ̀kan',
+      inventoryValue: 'Iye ẹran-ọ̀sìn',
+      structureCount: 'Àwọn ilé',
+    },
+    units: {
+      months: 'oṣù {{value}}',
+      kg: '{{value}} kg',
+      points: 'máàkì {{value}}',
+      colonies: 'ilé oyin {{count}}',
+    },
+    improvements: {
+      profitMargin: 'Gbé ìdá èrè rẹ sókè láti {{current}} sí {{target}}',
+      profitMarginNoData: 'Kọ àwọn títà àti ìnáwó sílẹ̀ kí a lè wọn ìdá èrè rẹ',
+      successRate:
+        'Ta àwọn ìpele púpọ̀ sí i ní ìwọ̀n àfojúsùn wọn (báyìí {{current}} nínú àwọn ìpele)',
+      monthsOperating:
+        'Máa kọ sílẹ̀: oṣù {{remaining}} sí i ti ìtàn yóò mú máàkì kíkún wá',
+      fcr: 'Mú ìyípadà oúnjẹ dára sí i láti {{current}} sí {{target}}',
+      fcrNoData: 'Kọ lílo oúnjẹ àti ìwọ̀n sílẹ̀ kí a lè wọn ìyípadà oúnjẹ',
+      mortalityRate: 'Dín ikú kù láti {{current}} sí {{target}}',
+      honeyYield:
+        'Gbé oyin sókè láti {{current}} sí {{target}} fún ilé oyin kọ̀ọ̀kan',
+      honeyYieldNoData: 'Kọ ìkórè oyin láti àwọn ilé oyin rẹ tó ń ṣiṣẹ́ sílẹ̀',
+      inventoryValue: 'Gbé iye ẹran-ọ̀sìn sókè láti {{current}} sí {{target}}',
+      structureCount:
+        'Kọ àwọn ilé, adágún àti ọgbà ẹran rẹ sílẹ̀ ({{current}} nínú {{target}} ni a ti kọ)',
+    },
+  },
 }
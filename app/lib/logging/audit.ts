@@ -7,6 +7,7 @@ export type AuditAction =
   | 'delete'
   | 'enable_module'
   | 'disable_module'
+  | 'withdrawal_override'
 export type AuditEntityType =
   | 'batch'
   | 'expense'
@@ -21,6 +22,7 @@ export type AuditEntityType =
   | 'worker_check_in'
   | 'task_assignment'
   | 'wage_payment'
+  | 'marketplace_listing'
 
 export interface AuditLogParams {
   userId: string
@@ -53,6 +53,11 @@ import { Route as AuthFarmsIndexRouteImport } from './routes/_auth/farms/index'
 import { Route as AuthExtensionIndexRouteImport } from './routes/_auth/extension/index'
 import { Route as AuthExpensesIndexRouteImport } from './routes/_auth/expenses/index'
 import { Route as AuthEggsIndexRouteImport } from './routes/_auth/eggs/index'
+import { Route as AuthApiaryIndexRouteImport } from './routes/_auth/apiary/index'
+import { Route as AuthMilkIndexRouteImport } from './routes/_auth/milk/index'
+import { Route as AuthBreedingIndexRouteImport } from './routes/_auth/breeding/index'
+import { Route as AuthAnimalsIndexRouteImport } from './routes/_auth/animals/index'
+import { Route as AuthShearingIndexRouteImport } from './routes/_auth/shearing/index'
 import { Route as AuthDashboardIndexRouteImport } from './routes/_auth/dashboard/index'
 import { Route as AuthCustomersIndexRouteImport } from './routes/_auth/customers/index'
 import { Route as AuthCreditPassportIndexRouteImport } from './routes/_auth/credit-passport/index'
@@ -70,6 +75,8 @@ import { Route as AuthFarmsFarmIdRouteImport } from './routes/_auth/farms/$farmI
 import { Route as AuthExtensionSupervisorRouteImport } from './routes/_auth/extension/supervisor'
 import { Route as AuthExtensionAlertsRouteImport } from './routes/_auth/extension/alerts'
 import { Route as AuthCustomersCustomerIdRouteImport } from './routes/_auth/customers/$customerId'
+import { Route as AuthAnimalsAnimalIdRouteImport } from './routes/_auth/animals/$animalId'
+import { Route as AuthCreditPassportConsentsRouteImport } from './routes/_auth/credit-passport/consents'
 import { Route as AuthCreditPassportRequestsRouteImport } from './routes/_auth/credit-passport/requests'
 import { Route as AuthCreditPassportHistoryRouteImport } from './routes/_auth/credit-passport/history'
 import { Route as AuthBuyerContactsRouteImport } from './routes/_auth/buyer/contacts'
@@ -81,6 +88,8 @@ import { Route as AuthExtensionFarmFarmIdRouteImport } from './routes/_auth/exte
 import { Route as AuthExtensionDistrictDistrictIdRouteImport } from './routes/_auth/extension/district.$districtId'
 import { Route as AuthExtensionAlertsAlertIdRouteImport } from './routes/_auth/extension/alerts.$alertId'
 import { Route as AuthAdminExtensionThresholdsRouteImport } from './routes/_auth/admin/extension/thresholds'
+import { Route as AuthAdminJobsRouteImport } from './routes/_auth/admin/jobs'
+import { Route as AuthAdminSigningKeysRouteImport } from './routes/_auth/admin/signing-keys'
 import { Route as AuthAdminExtensionRegionsRouteImport } from './routes/_auth/admin/extension/regions'
 import { Route as AuthAdminExtensionAssignmentsRouteImport } from './routes/_auth/admin/extension/assignments'
 import { Route as AuthExtensionVisitsNewFarmIdRouteImport } from './routes/_auth/extension/visits/new.$farmId'
@@ -305,6 +314,31 @@ const AuthEggsIndexRoute = AuthEggsIndexRouteImport.update({
   path: '/eggs/',
   getParentRoute: () => AuthRoute,
 } as any)
+const AuthApiaryIndexRoute = AuthApiaryIndexRouteImport.update({
+  id: '/apiary/',
+  path: '/apiary/',
+  getParentRoute: () => AuthRoute,
+} as any)
+const AuthMilkIndexRoute = AuthMilkIndexRouteImport.update({
+  id: '/milk/',
+  path: '/milk/',
+  getParentRoute: () => AuthRoute,
+} as any)
+const AuthBreedingIndexRoute = AuthBreedingIndexRouteImport.update({
+  id: '/breeding/',
+  path: '/breeding/',
+  getParentRoute: () => AuthRoute,
+} as any)
+const AuthAnimalsIndexRoute = AuthAnimalsIndexRouteImport.update({
+  id: '/animals/',
+  path: '/animals/',
+  getParentRoute: () => AuthRoute,
+} as any)
+const AuthShearingIndexRoute = AuthShearingIndexRouteImport.update({
+  id: '/shearing/',
+  path: '/shearing/',
+  getParentRoute: () => AuthRoute,
+} as any)
 const AuthDashboardIndexRoute = AuthDashboardIndexRouteImport.update({
   id: '/dashboard/',
   path: '/dashboard/',
@@ -391,6 +425,17 @@ const AuthCustomersCustomerIdRoute = AuthCustomersCustomerIdRouteImport.update({
   path: '/customers/$customerId',
   getParentRoute: () => AuthRoute,
 } as any)
+const AuthAnimalsAnimalIdRoute = AuthAnimalsAnimalIdRouteImport.update({
+  id: '/animals/$animalId',
+  path: '/animals/$animalId',
+  getParentRoute: () => AuthRoute,
+} as any)
+const AuthCreditPassportConsentsRoute =
+  AuthCreditPassportConsentsRouteImport.update({
+    id: '/credit-passport/consents',
+    path: '/credit-passport/consents',
+    getParentRoute: () => AuthRoute,
+  } as any)
 const AuthCreditPassportRequestsRoute =
   AuthCreditPassportRequestsRouteImport.update({
     id: '/credit-passport/requests',
@@ -451,6 +496,16 @@ const AuthAdminExtensionThresholdsRoute =
     path: '/admin/extension/thresholds',
     getParentRoute: () => AuthRoute,
   } as any)
+const AuthAdminJobsRoute = AuthAdminJobsRouteImport.update({
+  id: '/admin/jobs',
+  path: '/admin/jobs',
+  getParentRoute: () => AuthRoute,
+} as any)
+const AuthAdminSigningKeysRoute = AuthAdminSigningKeysRouteImport.update({
+  id: '/admin/signing-keys',
+  path: '/admin/signing-keys',
+  getParentRoute: () => AuthRoute,
+} as any)
 const AuthAdminExtensionRegionsRoute =
   AuthAdminExtensionRegionsRouteImport.update({
     id: '/admin/extension/regions',
@@ -496,8 +551,10 @@ export interface FileRoutesByFullPath {
   '/marketplace/': typeof MarketplaceIndexRoute
   '/buyer/contacts': typeof AuthBuyerContactsRoute
   '/credit-passport/history': typeof AuthCreditPassportHistoryRoute
+  '/credit-passport/consents': typeof AuthCreditPassportConsentsRoute
   '/credit-passport/requests': typeof AuthCreditPassportRequestsRoute
   '/customers/$customerId': typeof AuthCustomersCustomerIdRoute
+  '/animals/$animalId': typeof AuthAnimalsAnimalIdRoute
   '/extension/alerts': typeof AuthExtensionAlertsRouteWithChildren
   '/extension/supervisor': typeof AuthExtensionSupervisorRoute
   '/farms/$farmId': typeof AuthFarmsFarmIdRouteWithChildren
@@ -515,6 +572,11 @@ export interface FileRoutesByFullPath {
   '/customers/': typeof AuthCustomersIndexRoute
   '/dashboard/': typeof AuthDashboardIndexRoute
   '/eggs/': typeof AuthEggsIndexRoute
+  '/apiary/': typeof AuthApiaryIndexRoute
+  '/milk/': typeof AuthMilkIndexRoute
+  '/breeding/': typeof AuthBreedingIndexRoute
+  '/animals/': typeof AuthAnimalsIndexRoute
+  '/shearing/': typeof AuthShearingIndexRoute
   '/expenses/': typeof AuthExpensesIndexRoute
   '/extension/': typeof AuthExtensionIndexRoute
   '/farms/': typeof AuthFarmsIndexRoute
@@ -537,6 +599,8 @@ export interface FileRoutesByFullPath {
   '/admin/extension/assignments': typeof AuthAdminExtensionAssignmentsRoute
   '/admin/extension/regions': typeof AuthAdminExtensionRegionsRoute
   '/admin/extension/thresholds': typeof AuthAdminExtensionThresholdsRoute
+  '/admin/jobs': typeof AuthAdminJobsRoute
+  '/admin/signing-keys': typeof AuthAdminSigningKeysRoute
   '/extension/alerts/$alertId': typeof AuthExtensionAlertsAlertIdRoute
   '/extension/district/$districtId': typeof AuthExtensionDistrictDistrictIdRoute
   '/extension/farm/$farmId': typeof AuthExtensionFarmFarmIdRoute
@@ -572,8 +636,10 @@ export interface FileRoutesByTo {
   '/marketplace': typeof MarketplaceIndexRoute
   '/buyer/contacts': typeof AuthBuyerContactsRoute
   '/credit-passport/history': typeof AuthCreditPassportHistoryRoute
+  '/credit-passport/consents': typeof AuthCreditPassportConsentsRoute
   '/credit-passport/requests': typeof AuthCreditPassportRequestsRoute
   '/customers/$customerId': typeof AuthCustomersCustomerIdRoute
+  '/animals/$animalId': typeof AuthAnimalsAnimalIdRoute
   '/extension/alerts': typeof AuthExtensionAlertsRouteWithChildren
   '/extension/supervisor': typeof AuthExtensionSupervisorRoute
   '/feed-formulation/prices': typeof AuthFeedFormulationPricesRoute
@@ -590,6 +656,11 @@ export interface FileRoutesByTo {
   '/customers': typeof AuthCustomersIndexRoute
   '/dashboard': typeof AuthDashboardIndexRoute
   '/eggs': typeof AuthEggsIndexRoute
+  '/apiary': typeof AuthApiaryIndexRoute
+  '/milk': typeof AuthMilkIndexRoute
+  '/breeding': typeof AuthBreedingIndexRoute
+  '/animals': typeof AuthAnimalsIndexRoute
+  '/shearing': typeof AuthShearingIndexRoute
   '/expenses': typeof AuthExpensesIndexRoute
   '/extension': typeof AuthExtensionIndexRoute
   '/farms': typeof AuthFarmsIndexRoute
@@ -612,6 +683,8 @@ export interface FileRoutesByTo {
   '/admin/extension/assignments': typeof AuthAdminExtensionAssignmentsRoute
   '/admin/extension/regions': typeof AuthAdminExtensionRegionsRoute
   '/admin/extension/thresholds': typeof AuthAdminExtensionThresholdsRoute
+  '/admin/jobs': typeof AuthAdminJobsRoute
+  '/admin/signing-keys': typeof AuthAdminSigningKeysRoute
   '/extension/alerts/$alertId': typeof AuthExtensionAlertsAlertIdRoute
   '/extension/district/$districtId': typeof AuthExtensionDistrictDistrictIdRoute
   '/extension/farm/$farmId': typeof AuthExtensionFarmFarmIdRoute
@@ -649,8 +722,10 @@ export interface FileRoutesById {
   '/marketplace/': typeof MarketplaceIndexRoute
   '/_auth/buyer/contacts': typeof AuthBuyerContactsRoute
   '/_auth/credit-passport/history': typeof AuthCreditPassportHistoryRoute
+  '/_auth/credit-passport/consents': typeof AuthCreditPassportConsentsRoute
   '/_auth/credit-passport/requests': typeof AuthCreditPassportRequestsRoute
   '/_auth/customers/$customerId': typeof AuthCustomersCustomerIdRoute
+  '/_auth/animals/$animalId': typeof AuthAnimalsAnimalIdRoute
   '/_auth/extension/alerts': typeof AuthExtensionAlertsRouteWithChildren
   '/_auth/extension/supervisor': typeof AuthExtensionSupervisorRoute
   '/_auth/farms/$farmId': typeof AuthFarmsFarmIdRouteWithChildren
@@ -668,6 +743,11 @@ export interface FileRoutesById {
   '/_auth/customers/': typeof AuthCustomersIndexRoute
   '/_auth/dashboard/': typeof AuthDashboardIndexRoute
   '/_auth/eggs/': typeof AuthEggsIndexRoute
+  '/_auth/apiary/': typeof AuthApiaryIndexRoute
+  '/_auth/milk/': typeof AuthMilkIndexRoute
+  '/_auth/breeding/': typeof AuthBreedingIndexRoute
+  '/_auth/animals/': typeof AuthAnimalsIndexRoute
+  '/_auth/shearing/': typeof AuthShearingIndexRoute
   '/_auth/expenses/': typeof AuthExpensesIndexRoute
   '/_auth/extension/': typeof AuthExtensionIndexRoute
   '/_auth/farms/': typeof AuthFarmsIndexRoute
@@ -690,6 +770,8 @@ export interface FileRoutesById {
   '/_auth/admin/extension/assignments': typeof AuthAdminExtensionAssignmentsRoute
   '/_auth/admin/extension/regions': typeof AuthAdminExtensionRegionsRoute
   '/_auth/admin/extension/thresholds': typeof AuthAdminExtensionThresholdsRoute
+  '/_auth/admin/jobs': typeof AuthAdminJobsRoute
+  '/_auth/admin/signing-keys': typeof AuthAdminSigningKeysRoute
   '/_auth/extension/alerts/$alertId': typeof AuthExtensionAlertsAlertIdRoute
   '/_auth/extension/district/$districtId': typeof AuthExtensionDistrictDistrictIdRoute
   '/_auth/extension/farm/$farmId': typeof AuthExtensionFarmFarmIdRoute
@@ -727,8 +809,10 @@ export interface FileRouteTypes {
     | '/marketplace/'
     | '/buyer/contacts'
     | '/credit-passport/history'
+    | '/credit-passport/consents'
     | '/credit-passport/requests'
     | '/customers/$customerId'
+    | '/animals/$animalId'
     | '/extension/alerts'
     | '/extension/supervisor'
     | '/farms/$farmId'
@@ -746,6 +830,11 @@ export interface FileRouteTypes {
     | '/customers/'
     | '/dashboard/'
     | '/eggs/'
+    | '/apiary/'
+    | '/milk/'
+    | '/breeding/'
+    | '/animals/'
+    | '/shearing/'
     | '/expenses/'
     | '/extension/'
     | '/farms/'
@@ -768,6 +857,8 @@ export interface FileRouteTypes {
     | '/admin/extension/assignments'
     | '/admin/extension/regions'
     | '/admin/extension/thresholds'
+    | '/admin/jobs'
+    | '/admin/signing-keys'
     | '/extension/alerts/$alertId'
     | '/extension/district/$districtId'
     | '/extension/farm/$farmId'
@@ -803,8 +894,10 @@ export interface FileRouteTypes {
     | '/marketplace'
     | '/buyer/contacts'
     | '/credit-passport/history'
+    | '/credit-passport/consents'
     | '/credit-passport/requests'
     | '/customers/$customerId'
+    | '/animals/$animalId'
     | '/extension/alerts'
     | '/extension/supervisor'
     | '/feed-formulation/prices'
@@ -821,6 +914,11 @@ export interface FileRouteTypes {
     | '/customers'
     | '/dashboard'
     | '/eggs'
+    | '/apiary'
+    | '/milk'
+    | '/breeding'
+    | '/animals'
+    | '/shearing'
     | '/expenses'
     | '/extension'
     | '/farms'
@@ -843,6 +941,8 @@ export interface FileRouteTypes {
     | '/admin/extension/assignments'
     | '/admin/extension/regions'
     | '/admin/extension/thresholds'
+    | '/admin/jobs'
+    | '/admin/signing-keys'
     | '/extension/alerts/$alertId'
     | '/extension/district/$districtId'
     | '/extension/farm/$farmId'
@@ -879,8 +979,10 @@ export interface FileRouteTypes {
     | '/marketplace/'
     | '/_auth/buyer/contacts'
     | '/_auth/credit-passport/history'
+    | '/_auth/credit-passport/consents'
     | '/_auth/credit-passport/requests'
     | '/_auth/customers/$customerId'
+    | '/_auth/animals/$animalId'
     | '/_auth/extension/alerts'
     | '/_auth/extension/supervisor'
     | '/_auth/farms/$farmId'
@@ -898,6 +1000,11 @@ export interface FileRouteTypes {
     | '/_auth/customers/'
     | '/_auth/dashboard/'
     | '/_auth/eggs/'
+    | '/_auth/apiary/'
+    | '/_auth/milk/'
+    | '/_auth/breeding/'
+    | '/_auth/animals/'
+    | '/_auth/shearing/'
     | '/_auth/expenses/'
     | '/_auth/extension/'
     | '/_auth/farms/'
@@ -920,6 +1027,8 @@ export interface FileRouteTypes {
     | '/_auth/admin/extension/assignments'
     | '/_auth/admin/extension/regions'
     | '/_auth/admin/extension/thresholds'
+    | '/_auth/admin/jobs'
+    | '/_auth/admin/signing-keys'
     | '/_auth/extension/alerts/$alertId'
     | '/_auth/extension/district/$districtId'
     | '/_auth/extension/farm/$farmId'
@@ -1263,6 +1372,41 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AuthEggsIndexRouteImport
       parentRoute: typeof AuthRoute
     }
+    '/_auth/apiary/': {
+      id: '/_auth/apiary/'
+      path: '/apiary'
+      fullPath: '/apiary/'
+      preLoaderRoute: typeof AuthApiaryIndexRouteImport
+      parentRoute: typeof AuthRoute
+    }
+    '/_auth/milk/': {
+      id: '/_auth/milk/'
+      path: '/milk'
+      fullPath: '/milk/'
+      preLoaderRoute: typeof AuthMilkIndexRouteImport
+      parentRoute: typeof AuthRoute
+    }
+    '/_auth/breeding/': {
+      id: '/_auth/breeding/'
+      path: '/breeding'
+      fullPath: '/breeding/'
+      preLoaderRoute: typeof AuthBreedingIndexRouteImport
+      parentRoute: typeof AuthRoute
+    }
+    '/_auth/animals/': {
+      id: '/_auth/animals/'
+      path: '/animals'
+      fullPath: '/animals/'
+      preLoaderRoute: typeof AuthAnimalsIndexRouteImport
+      parentRoute: typeof AuthRoute
+    }
+    '/_auth/shearing/': {
+      id: '/_auth/shearing/'
+      path: '/shearing'
+      fullPath: '/shearing/'
+      preLoaderRoute: typeof AuthShearingIndexRouteImport
+      parentRoute: typeof AuthRoute
+    }
     '/_auth/dashboard/': {
       id: '/_auth/dashboard/'
       path: '/dashboard'
@@ -1382,6 +1526,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AuthCustomersCustomerIdRouteImport
       parentRoute: typeof AuthRoute
     }
+    '/_auth/animals/$animalId': {
+      id: '/_auth/animals/$animalId'
+      path: '/animals/$animalId'
+      fullPath: '/animals/$animalId'
+      preLoaderRoute: typeof AuthAnimalsAnimalIdRouteImport
+      parentRoute: typeof AuthRoute
+    }
+    '/_auth/credit-passport/consents': {
+      id: '/_auth/credit-passport/consents'
+      path: '/credit-passport/consents'
+      fullPath: '/credit-passport/consents'
+      preLoaderRoute: typeof AuthCreditPassportConsentsRouteImport
+      parentRoute: typeof AuthRoute
+    }
     '/_auth/credit-passport/requests': {
       id: '/_auth/credit-passport/requests'
       path: '/credit-passport/requests'
@@ -1459,6 +1617,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AuthAdminExtensionThresholdsRouteImport
       parentRoute: typeof AuthRoute
     }
+    '/_auth/admin/jobs': {
+      id: '/_auth/admin/jobs'
+      path: '/admin/jobs'
+      fullPath: '/admin/jobs'
+      preLoaderRoute: typeof AuthAdminJobsRouteImport
+      parentRoute: typeof AuthRoute
+    }
+    '/_auth/admin/signing-keys': {
+      id: '/_auth/admin/signing-keys'
+      path: '/admin/signing-keys'
+      fullPath: '/admin/signing-keys'
+      preLoaderRoute: typeof AuthAdminSigningKeysRouteImport
+      parentRoute: typeof AuthRoute
+    }
     '/_auth/admin/extension/regions': {
       id: '/_auth/admin/extension/regions'
       path: '/admin/extension/regions'
@@ -1517,8 +1689,10 @@ interface AuthRouteChildren {
   AuthWorkerRoute: typeof AuthWorkerRoute
   AuthBuyerContactsRoute: typeof AuthBuyerContactsRoute
   AuthCreditPassportHistoryRoute: typeof AuthCreditPassportHistoryRoute
+  AuthCreditPassportConsentsRoute: typeof AuthCreditPassportConsentsRoute
   AuthCreditPassportRequestsRoute: typeof AuthCreditPassportRequestsRoute
   AuthCustomersCustomerIdRoute: typeof AuthCustomersCustomerIdRoute
+  AuthAnimalsAnimalIdRoute: typeof AuthAnimalsAnimalIdRoute
   AuthExtensionAlertsRoute: typeof AuthExtensionAlertsRouteWithChildren
   AuthExtensionSupervisorRoute: typeof AuthExtensionSupervisorRoute
   AuthFarmsFarmIdRoute: typeof AuthFarmsFarmIdRouteWithChildren
@@ -1536,6 +1710,11 @@ interface AuthRouteChildren {
   AuthCustomersIndexRoute: typeof AuthCustomersIndexRoute
   AuthDashboardIndexRoute: typeof AuthDashboardIndexRoute
   AuthEggsIndexRoute: typeof AuthEggsIndexRoute
+  AuthApiaryIndexRoute: typeof AuthApiaryIndexRoute
+  AuthMilkIndexRoute: typeof AuthMilkIndexRoute
+  AuthBreedingIndexRoute: typeof AuthBreedingIndexRoute
+  AuthAnimalsIndexRoute: typeof AuthAnimalsIndexRoute
+  AuthShearingIndexRoute: typeof AuthShearingIndexRoute
   AuthExpensesIndexRoute: typeof AuthExpensesIndexRoute
   AuthExtensionIndexRoute: typeof AuthExtensionIndexRoute
   AuthFarmsIndexRoute: typeof AuthFarmsIndexRoute
@@ -1558,6 +1737,8 @@ interface AuthRouteChildren {
   AuthAdminExtensionAssignmentsRoute: typeof AuthAdminExtensionAssignmentsRoute
   AuthAdminExtensionRegionsRoute: typeof AuthAdminExtensionRegionsRoute
   AuthAdminExtensionThresholdsRoute: typeof AuthAdminExtensionThresholdsRoute
+  AuthAdminJobsRoute: typeof AuthAdminJobsRoute
+  AuthAdminSigningKeysRoute: typeof AuthAdminSigningKeysRoute
   AuthExtensionDistrictDistrictIdRoute: typeof AuthExtensionDistrictDistrictIdRoute
   AuthExtensionFarmFarmIdRoute: typeof AuthExtensionFarmFarmIdRoute
   AuthBatchesBatchIdIndexRoute: typeof AuthBatchesBatchIdIndexRoute
@@ -1571,8 +1752,10 @@ const AuthRouteChildren: AuthRouteChildren = {
   AuthWorkerRoute: AuthWorkerRoute,
   AuthBuyerContactsRoute: AuthBuyerContactsRoute,
   AuthCreditPassportHistoryRoute: AuthCreditPassportHistoryRoute,
+  AuthCreditPassportConsentsRoute: AuthCreditPassportConsentsRoute,
   AuthCreditPassportRequestsRoute: AuthCreditPassportRequestsRoute,
   AuthCustomersCustomerIdRoute: AuthCustomersCustomerIdRoute,
+  AuthAnimalsAnimalIdRoute: AuthAnimalsAnimalIdRoute,
   AuthExtensionAlertsRoute: AuthExtensionAlertsRouteWithChildren,
   AuthExtensionSupervisorRoute: AuthExtensionSupervisorRoute,
   AuthFarmsFarmIdRoute: AuthFarmsFarmIdRouteWithChildren,
@@ -1590,6 +1773,11 @@ const AuthRouteChildren: AuthRouteChildren = {
   AuthCustomersIndexRoute: AuthCustomersIndexRoute,
   AuthDashboardIndexRoute: AuthDashboardIndexRoute,
   AuthEggsIndexRoute: AuthEggsIndexRoute,
+  AuthApiaryIndexRoute: AuthApiaryIndexRoute,
+  AuthMilkIndexRoute: AuthMilkIndexRoute,
+  AuthBreedingIndexRoute: AuthBreedingIndexRoute,
+  AuthAnimalsIndexRoute: AuthAnimalsIndexRoute,
+  AuthShearingIndexRoute: AuthShearingIndexRoute,
   AuthExpensesIndexRoute: AuthExpensesIndexRoute,
   AuthExtensionIndexRoute: AuthExtensionIndexRoute,
   AuthFarmsIndexRoute: AuthFarmsIndexRoute,
@@ -1612,6 +1800,8 @@ const AuthRouteChildren: AuthRouteChildren = {
   AuthAdminExtensionAssignmentsRoute: AuthAdminExtensionAssignmentsRoute,
   AuthAdminExtensionRegionsRoute: AuthAdminExtensionRegionsRoute,
   AuthAdminExtensionThresholdsRoute: AuthAdminExtensionThresholdsRoute,
+  AuthAdminJobsRoute: AuthAdminJobsRoute,
+  AuthAdminSigningKeysRoute: AuthAdminSigningKeysRoute,
   AuthExtensionDistrictDistrictIdRoute: AuthExtensionDistrictDistrictIdRoute,
   AuthExtensionFarmFarmIdRoute: AuthExtensionFarmFarmIdRoute,
   AuthBatchesBatchIdIndexRoute: AuthBatchesBatchIdIndexRoute,
@@ -0,0 +1,96 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { z } from 'zod'
+import { useTranslation } from 'react-i18next'
+import type { JobName } from '~/features/jobs/types'
+import { JOB_NAMES } from '~/features/jobs/types'
+import { getJobsOverviewFn } from '~/features/jobs/server'
+import { useJobsPage } from '~/features/jobs/use-jobs-page'
+import { useFormatTime } from '~/features/settings'
+import { JobRunHistory, JobStatusTable } from '~/components/jobs'
+import { PageHeader } from '~/components/page-header'
+import { Card, CardContent, CardHeader, CardTitle } from '~/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '~/components/ui/select'
+import { DataTableSkeleton } from '~/components/ui/data-table-skeleton'
+import { ErrorPage } from '~/components/error-page'
+
+const searchSchema = z.object({
+  jobName: z.enum(JOB_NAMES).optional(),
+})
+
+export const Route = createFileRoute('/_auth/admin/jobs')({
+  validateSearch: searchSchema,
+  loaderDeps: ({ search }) => ({ jobName: search.jobName }),
+  loader: async ({ deps }) => {
+    return getJobsOverviewFn({ data: deps })
+  },
+  pendingComponent: () => <DataTableSkeleton />,
+  errorComponent: ({ error, reset }) => (
+    <ErrorPage
+      error={error instanceof Error ? error : undefined}
+      reset={reset}
+    />
+  ),
+  component: JobsPage,
+})
+
+function JobsPage() {
+  const { t } = useTranslation(['jobs', 'common'])
+  const { jobs, runs } = Route.useLoaderData()
+  const { jobName } = Route.useSearch()
+  const { formatWithDate } = useFormatTime()
+  const { runningJob, setJobFilter, handleRunJob } = useJobsPage({
+    routePath: Route.fullPath,
+  })
+
+  return (
+    <div className="space-y-6">
+      <PageHeader title={t('jobs:title')} description={t('jobs:subtitle')} />
+
+      <Card>
+        <CardContent className="pt-6">
+          <JobStatusTable
+            jobs={jobs}
+            runningJob={runningJob}
+            formatDateTime={formatWithDate}
+            onRun={handleRunJob}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>{t('jobs:runHistory')}</CardTitle>
+          <Select
+            value={jobName ?? 'all'}
+            onValueChange={(value) =>
+              setJobFilter(
+                value && value !== 'all' ? (value as JobName) : undefined,
+              )
+            }
+          >
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">{t('jobs:allJobs')}</SelectItem>
+              {JOB_NAMES.map((name) => (
+                <SelectItem key={name} value={name}>
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          <JobRunHistory runs={runs} formatDateTime={formatWithDate} />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
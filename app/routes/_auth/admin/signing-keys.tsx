@@ -0,0 +1,254 @@
+import { createFileRoute, useRouter } from '@tanstack/react-router'
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { KeyRound, ShieldOff } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import type { SigningKeyStatus } from '~/lib/db/types'
+import { Button } from '~/components/ui/button'
+import { Badge } from '~/components/ui/badge'
+import { Card, CardContent } from '~/components/ui/card'
+import { Label } from '~/components/ui/label'
+import { Textarea } from '~/components/ui/textarea'
+import { PageHeader } from '~/components/page-header'
+import { DataTableSkeleton } from '~/components/ui/data-table-skeleton'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '~/components/ui/dialog'
+import {
+  KEY_REGISTRY_PATH,
+  getSigningKeysFn,
+  revokeSigningKeyFn,
+} from '~/features/credit-passport/key-registry-server'
+import { useFormatDate } from '~/features/settings'
+import { ErrorPage } from '~/components/error-page'
+
+export const Route = createFileRoute('/_auth/admin/signing-keys')({
+  loader: async () => {
+    return getSigningKeysFn()
+  },
+  pendingComponent: () => <DataTableSkeleton />,
+  errorComponent: ({ error, reset }) => (
+    <ErrorPage
+      error={error instanceof Error ? error : undefined}
+      reset={reset}
+    />
+  ),
+  component: SigningKeysPage,
+})
+
+const STATUS_COLORS: Record<SigningKeyStatus, string> = {
+  active: 'bg-green-100 text-green-800',
+  retired: 'bg-gray-100 text-gray-800',
+  revoked: 'bg-red-100 text-red-800',
+}
+
+function SigningKeysPage() {
+  const { t } = useTranslation(['credit-passport', 'common'])
+  const router = useRouter()
+  const { format: formatDate } = useFormatDate()
+  const { keys } = Route.useLoaderData()
+
+  const [revokeKeyId, setRevokeKeyId] = useState<string | null>(null)
+  const [reason, setReason] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleRevoke = async () => {
+    if (!revokeKeyId) return
+    setIsSubmitting(true)
+    try {
+      await revokeSigningKeyFn({ data: { keyId: revokeKeyId, reason } })
+      toast.success(
+        t('credit-passport:signingKeys.revoked', {
+          defaultValue: 'Signing key revoked',
+        }),
+      )
+      setRevokeKeyId(null)
+      setReason('')
+      router.invalidate()
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : t('credit-passport:signingKeys.revokeFailed', {
+              defaultValue: 'Failed to revoke signing key',
+            }),
+      )
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title={t('credit-passport:signingKeys.title', {
+          defaultValue: 'Signing Keys',
+        })}
+        description={t('credit-passport:signingKeys.subtitle', {
+          defaultValue:
+            'Keys that sign credit passports and lender responses. Rotate by replacing CREDIT_PASSPORT_SIGNING_KEY.',
+        })}
+        icon={KeyRound}
+      />
+
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {t('credit-passport:signingKeys.registryHint', {
+              defaultValue: 'Banks can fetch this registry from {{path}}.',
+              path: KEY_REGISTRY_PATH,
+            })}
+          </p>
+          {keys.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {t('credit-passport:signingKeys.noKeys', {
+                defaultValue: 'No key has signed anything yet.',
+              })}
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 pr-4">
+                      {t('credit-passport:signingKeys.columns.keyId', {
+                        defaultValue: 'Key ID',
+                      })}
+                    </th>
+                    <th className="py-2 pr-4">
+                      {t('credit-passport:signingKeys.columns.status', {
+                        defaultValue: 'Status',
+                      })}
+                    </th>
+                    <th className="py-2 pr-4">
+                      {t('credit-passport:signingKeys.columns.validFrom', {
+                        defaultValue: 'Valid From',
+                      })}
+                    </th>
+                    <th className="py-2 pr-4">
+                      {t('credit-passport:signingKeys.columns.validUntil', {
+                        defaultValue: 'Valid Until',
+                      })}
+                    </th>
+                    <th className="py-2 pr-4">
+                      {t('credit-passport:signingKeys.columns.revocation', {
+                        defaultValue: 'Revocation',
+                      })}
+                    </th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {keys.map((key) => (
+                    <tr key={key.keyId} className="border-b last:border-0">
+                      <td className="py-2 pr-4 font-mono">{key.keyId}</td>
+                      <td className="py-2 pr-4">
+                        <Badge className={STATUS_COLORS[key.status]}>
+                          {t(
+                            `credit-passport:signingKeys.status.${key.status}`,
+                            {
+                              defaultValue: key.status,
+                            },
+                          )}
+                        </Badge>
+                      </td>
+                      <td className="py-2 pr-4">
+                        {formatDate(new Date(key.validFrom))}
+                      </td>
+                      <td className="py-2 pr-4">
+                        {key.validUntil
+                          ? formatDate(new Date(key.validUntil))
+                          : '—'}
+                      </td>
+                      <td className="py-2 pr-4">
+                        {key.revokedAt ? (
+                          <>
+                            <div>{formatDate(new Date(key.revokedAt))}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {key.revocationReason}
+                            </div>
+                          </>
+                        ) : (
+                          '—'
+                        )}
+                      </td>
+                      <td className="py-2 text-right">
+                        {key.status !== 'revoked' && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setRevokeKeyId(key.keyId)}
+                          >
+                            <ShieldOff className="h-4 w-4 mr-1" />
+                            {t('credit-passport:signingKeys.revoke', {
+                              defaultValue: 'Revoke',
+                            })}
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog
+        open={revokeKeyId !== null}
+        onOpenChange={(open) => !open && setRevokeKeyId(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {t('credit-passport:signingKeys.revokeTitle', {
+                defaultValue: 'Revoke Signing Key',
+              })}
+            </DialogTitle>
+            <DialogDescription>
+              {t('credit-passport:signingKeys.revokeDesc', {
+                defaultValue:
+                  'Only revoke a compromised key. Every report it signed will fail verification, and signing stops until a new key is configured.',
+              })}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="revocation-reason">
+              {t('credit-passport:signingKeys.reason', {
+                defaultValue: 'Reason',
+              })}
+            </Label>
+            <Textarea
+              id="revocation-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={t('credit-passport:signingKeys.reasonPlaceholder', {
+                defaultValue: 'e.g. Key leaked in a build log',
+              })}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRevokeKeyId(null)}>
+              {t('common:cancel', { defaultValue: 'Cancel' })}
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={isSubmitting || reason.trim().length === 0}
+              onClick={handleRevoke}
+            >
+              {t('credit-passport:signingKeys.revoke', {
+                defaultValue: 'Revoke',
+              })}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
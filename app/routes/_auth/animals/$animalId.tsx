@@ -0,0 +1,359 @@
+import { Link, createFileRoute } from '@tanstack/react-router'
+import { useState } from 'react'
+import {
+  ArrowLeft,
+  HeartPulse,
+  Scale,
+  Skull,
+  Stethoscope,
+  Syringe,
+  Tag,
+} from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import type {
+  AnimalRecordInput,
+  AnimalRecordKind,
+} from '~/components/animals/animal-record-dialog'
+import { getAnimalDetailFn } from '~/features/animals/server'
+import { calculateAgeInMonths } from '~/features/animals/service'
+import { useAnimalsPage } from '~/features/animals/use-animals-page'
+import { useFarm } from '~/features/farms/context'
+import { useFormatDate } from '~/features/settings'
+import { Badge } from '~/components/ui/badge'
+import { Button } from '~/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '~/components/ui/card'
+import { DetailSkeleton } from '~/components/ui/detail-skeleton'
+import { AnimalRecordDialog } from '~/components/animals/animal-record-dialog'
+import { formatAnimalAge } from '~/components/animals/animal-columns'
+import { ErrorPage } from '~/components/error-page'
+
+export const Route = createFileRoute('/_auth/animals/$animalId')({
+  loader: ({ params }) =>
+    getAnimalDetailFn({ data: { animalId: params.animalId } }),
+  pendingComponent: () => (
+    <DetailSkeleton
+      sections={[
+        { type: 'header' },
+        { type: 'cards', props: { count: 4 } },
+        { type: 'tabs', props: { count: 3 } },
+      ]}
+    />
+  ),
+  errorComponent: ({ error, reset }) => (
+    <ErrorPage
+      error={error instanceof Error ? error : undefined}
+      reset={reset}
+    />
+  ),
+  component: AnimalDetailPage,
+})
+
+function AnimalDetailPage() {
+  const { t } = useTranslation(['animals', 'common', 'batches'])
+  const { format: formatDate } = useFormatDate()
+  const { selectedFarmId } = useFarm()
+  const { animal, offspring, weights, healthRecords, mortality } =
+    Route.useLoaderData()
+
+  const { isSubmitting, handleRecordSubmit } = useAnimalsPage({
+    selectedFarmId,
+    routePath: Route.fullPath,
+  })
+
+  const [recordKind, setRecordKind] = useState<AnimalRecordKind | null>(null)
+
+  const canRecord = animal.status === 'active' && animal.batchId !== null
+
+  const handleRecord = async (input: AnimalRecordInput) => {
+    const success = await handleRecordSubmit(animal, input)
+    if (success) setRecordKind(null)
+  }
+
+  const details: Array<[string, React.ReactNode]> = [
+    [
+      t('animals:livestockType', { defaultValue: 'Type' }),
+      t(`animals:types.${animal.livestockType}`),
+    ],
+    [
+      t('animals:sex', { defaultValue: 'Sex' }),
+      t(`animals:sexes.${animal.sex}`),
+    ],
+    [
+      t('animals:dateOfBirth', { defaultValue: 'Date of Birth' }),
+      animal.dateOfBirth
+        ? `${formatDate(animal.dateOfBirth)} (${formatAnimalAge(t, calculateAgeInMonths(animal.dateOfBirth))})`
+        : '—',
+    ],
+    [t('animals:rfid', { defaultValue: 'RFID' }), animal.rfid ?? '—'],
+    [
+      t('batches:batch', { defaultValue: 'Batch' }),
+      animal.batchId ? (
+        <Link
+          to="/batches/$batchId"
+          params={{ batchId: animal.batchId }}
+          className="hover:underline"
+        >
+          {animal.batchName ?? animal.batchSpecies}
+        </Link>
+      ) : (
+        '—'
+      ),
+    ],
+    [
+      t('animals:structure', { defaultValue: 'Pen / Pasture' }),
+      animal.structureName ?? '—',
+    ],
+    [
+      t('animals:dam', { defaultValue: 'Dam' }),
+      animal.damId ? (
+        <Link
+          to="/animals/$animalId"
+          params={{ animalId: animal.damId }}
+          className="hover:underline"
+        >
+          {animal.damTag}
+        </Link>
+      ) : (
+        '—'
+      ),
+    ],
+    [
+      t('animals:sire', { defaultValue: 'Sire' }),
+      animal.sireId ? (
+        <Link
+          to="/animals/$animalId"
+          params={{ animalId: animal.sireId }}
+          className="hover:underline"
+        >
+          {animal.sireTag}
+        </Link>
+      ) : (
+        '—'
+      ),
+    ],
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" asChild>
+            <Link to="/animals">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <Tag className="h-6 w-6 text-muted-foreground" />
+          <div>
+            <h1 className="text-2xl font-bold">
+              {animal.tagNumber}
+              {animal.name && (
+                <span className="ml-2 text-muted-foreground font-normal">
+                  {animal.name}
+                </span>
+              )}
+            </h1>
+            <p className="text-sm text-muted-foreground">{animal.farmName}</p>
+          </div>
+          <Badge variant={animal.status === 'active' ? 'default' : 'outline'}>
+            {t(`animals:statuses.${animal.status}`)}
+          </Badge>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            disabled={!canRecord}
+            onClick={() => setRecordKind('weight')}
+          >
+            <Scale className="mr-2 h-4 w-4" />
+            {t('animals:recordTitles.weight', {
+              defaultValue: 'Record Weight',
+            })}
+          </Button>
+          <Button
+            variant="outline"
+            disabled={!canRecord}
+            onClick={() => setRecordKind('vaccination')}
+          >
+            <Syringe className="mr-2 h-4 w-4" />
+            {t('animals:recordTitles.vaccination', {
+              defaultValue: 'Record Vaccination',
+            })}
+          </Button>
+          <Button
+            variant="outline"
+            disabled={!canRecord}
+            onClick={() => setRecordKind('treatment')}
+          >
+            <Stethoscope className="mr-2 h-4 w-4" />
+            {t('animals:recordTitles.treatment', {
+              defaultValue: 'Record Treatment',
+            })}
+          </Button>
+          <Button
+            variant="outline"
+            className="text-destructive"
+            disabled={!canRecord}
+            onClick={() => setRecordKind('death')}
+          >
+            <Skull className="mr-2 h-4 w-4" />
+            {t('animals:recordTitles.death', { defaultValue: 'Record Death' })}
+          </Button>
+        </div>
+      </div>
+
+      {!animal.batchId && animal.status === 'active' && (
+        <p className="text-sm text-muted-foreground">
+          {t('animals:noBatchHint', {
+            defaultValue:
+              'Add this animal to a batch to record weights, health and mortality.',
+          })}
+        </p>
+      )}
+
+      <Card>
+        <CardContent className="grid grid-cols-2 gap-4 pt-6 md:grid-cols-4">
+          {details.map(([label, value]) => (
+            <div key={label}>
+              <p className="text-xs uppercase tracking-wider text-muted-foreground">
+                {label}
+              </p>
+              <p className="font-medium">{value}</p>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {mortality && (
+        <Card className="border-destructive/50">
+          <CardContent className="pt-6 text-sm">
+            {t('animals:mortalityNote', {
+              date: formatDate(mortality.date),
+              cause: mortality.cause,
+              defaultValue: 'Died on {{date}} ({{cause}})',
+            })}
+            {mortality.notes && (
+              <span className="text-muted-foreground">
+                {' '}
+                — {mortality.notes}
+              </span>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Scale className="h-4 w-4" />
+              {t('animals:weights', { defaultValue: 'Weights' })}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {weights.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                {t('animals:noWeights', {
+                  defaultValue: 'No weights recorded yet',
+                })}
+              </p>
+            ) : (
+              <ul className="divide-y text-sm">
+                {weights.map((weight) => (
+                  <li key={weight.id} className="flex justify-between py-2">
+                    <span>{formatDate(weight.date)}</span>
+                    <span className="font-medium">
+                      {Number(weight.averageWeightKg).toLocaleString()} kg
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <HeartPulse className="h-4 w-4" />
+              {t('animals:health', { defaultValue: 'Health' })}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {healthRecords.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                {t('animals:noHealthRecords', {
+                  defaultValue: 'No vaccinations or treatments yet',
+                })}
+              </p>
+            ) : (
+              <ul className="divide-y text-sm">
+                {healthRecords.map((record) => (
+                  <li
+                    key={`${record.type}-${record.id}`}
+                    className="flex justify-between py-2"
+                  >
+                    <div className="flex flex-col">
+                      <span className="font-medium">{record.name}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {t(`animals:healthTypes.${record.type}`)} ·{' '}
+                        {record.dosage}
+                      </span>
+                    </div>
+                    <span>{formatDate(record.date)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">
+            {t('animals:offspring', { defaultValue: 'Offspring' })}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {offspring.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {t('animals:noOffspring', {
+                defaultValue: 'No registered offspring',
+              })}
+            </p>
+          ) : (
+            <ul className="divide-y text-sm">
+              {offspring.map((child) => (
+                <li key={child.id} className="flex justify-between py-2">
+                  <Link
+                    to="/animals/$animalId"
+                    params={{ animalId: child.id }}
+                    className="font-medium hover:underline"
+                  >
+                    {child.tagNumber}
+                    {child.name && ` (${child.name})`}
+                  </Link>
+                  <span className="text-muted-foreground">
+                    {t(`animals:sexes.${child.sex}`)} ·{' '}
+                    {child.dateOfBirth ? formatDate(child.dateOfBirth) : '—'} ·{' '}
+                    {t(`animals:statuses.${child.status}`)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <AnimalRecordDialog
+        kind={recordKind}
+        tagNumber={animal.tagNumber}
+        onOpenChange={(open) => {
+          if (!open) setRecordKind(null)
+        }}
+        onSubmit={handleRecord}
+        isSubmitting={isSubmitting}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,249 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { Plus, Tag } from 'lucide-react'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import type { AnimalWithDetails } from '~/features/animals/repository'
+import type {
+  AnimalStatus,
+  CreateAnimalInput,
+  UpdateAnimalInput,
+} from '~/features/animals/types'
+import { ANIMAL_STATUSES } from '~/features/animals/types'
+import { validateAnimalSearch } from '~/features/animals/validation'
+import { getAnimalsDataForFarmFn } from '~/features/animals/server'
+import { useAnimalsPage } from '~/features/animals/use-animals-page'
+import { Button } from '~/components/ui/button'
+import { Input } from '~/components/ui/input'
+import { DataTable } from '~/components/ui/data-table'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '~/components/ui/select'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '~/components/ui/card'
+import { useFarm } from '~/features/farms/context'
+import { PageHeader } from '~/components/page-header'
+import {
+  AnimalDeleteDialog,
+  AnimalFormDialog,
+  AnimalSummaryCards,
+  useAnimalColumns,
+} from '~/components/animals'
+import { AnimalsSkeleton } from '~/components/animals/animals-skeleton'
+import { ErrorPage } from '~/components/error-page'
+
+export const Route = createFileRoute('/_auth/animals/')({
+  validateSearch: validateAnimalSearch,
+  loaderDeps: ({ search }) => ({
+    page: search.page,
+    pageSize: search.pageSize,
+    sortBy: search.sortBy,
+    sortOrder: search.sortOrder,
+    search: search.search,
+    status: search.status === 'all' ? undefined : search.status,
+  }),
+  loader: async ({ deps }) => {
+    return getAnimalsDataForFarmFn({ data: deps })
+  },
+  pendingComponent: AnimalsSkeleton,
+  errorComponent: ({ error, reset }) => (
+    <ErrorPage
+      error={error instanceof Error ? error : undefined}
+      reset={reset}
+    />
+  ),
+  component: AnimalsPage,
+})
+
+function AnimalsPage() {
+  const { t } = useTranslation(['animals', 'common', 'batches'])
+  const { selectedFarmId } = useFarm()
+  const searchParams = Route.useSearch()
+
+  const { paginatedAnimals, summary, batches, structures, parents } =
+    Route.useLoaderData()
+
+  const {
+    selectedAnimal,
+    setSelectedAnimal,
+    isSubmitting,
+    updateSearch,
+    handleAddSubmit,
+    handleEditSubmit,
+    handleDeleteConfirm,
+  } = useAnimalsPage({
+    selectedFarmId,
+    routePath: Route.fullPath,
+  })
+
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editDialogOpen, setEditDialogOpen] = useState(false)
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
+
+  const handleEdit = (animal: AnimalWithDetails) => {
+    setSelectedAnimal(animal)
+    setEditDialogOpen(true)
+  }
+
+  const handleDelete = (animal: AnimalWithDetails) => {
+    setSelectedAnimal(animal)
+    setDeleteDialogOpen(true)
+  }
+
+  const columns = useAnimalColumns({
+    t,
+    onEdit: handleEdit,
+    onDelete: handleDelete,
+  })
+
+  const handleAddSuccess = async (data: CreateAnimalInput) => {
+    const success = await handleAddSubmit(data)
+    if (success) setDialogOpen(false)
+  }
+
+  const handleEditSuccess = async (data: UpdateAnimalInput) => {
+    const success = await handleEditSubmit(data)
+    if (success) setEditDialogOpen(false)
+  }
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title={t('title', { defaultValue: 'Animals' })}
+        description={t('subtitle', {
+          defaultValue:
+            'Individually tagged cattle, goats and sheep with parentage and history',
+        })}
+        icon={Tag}
+        actions={
+          <Button onClick={() => setDialogOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            {t('register', { defaultValue: 'Register Animal' })}
+          </Button>
+        }
+      />
+
+      <AnimalSummaryCards summary={summary} />
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>
+                {t('registry', { defaultValue: 'Registry' })}
+              </CardTitle>
+              <CardDescription>
+                {t('registry_desc', {
+                  defaultValue: 'Search by tag, RFID or name',
+                })}
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Select
+                value={searchParams.status ?? 'all'}
+                onValueChange={(value: string | null) =>
+                  updateSearch({
+                    status: (value || 'all') as AnimalStatus | 'all',
+                    page: 1,
+                  })
+                }
+              >
+                <SelectTrigger className="w-32">
+                  <SelectValue>
+                    {searchParams.status && searchParams.status !== 'all'
+                      ? t(`animals:statuses.${searchParams.status}`)
+                      : t('animals:allStatuses', { defaultValue: 'All' })}
+                  </SelectValue>
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">
+                    {t('animals:allStatuses', { defaultValue: 'All' })}
+                  </SelectItem>
+                  {ANIMAL_STATUSES.map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {t(`animals:statuses.${status}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                value={searchParams.search}
+                onChange={(e) =>
+                  updateSearch({
+                    search: e.target.value,
+                    page: 1,
+                  })
+                }
+                placeholder={t('common:search', {
+                  defaultValue: 'Search...',
+                })}
+                className="max-w-xs"
+              />
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <DataTable
+            columns={columns}
+            data={paginatedAnimals.data}
+            total={paginatedAnimals.total}
+            page={paginatedAnimals.page}
+            pageSize={paginatedAnimals.pageSize}
+            totalPages={paginatedAnimals.totalPages}
+            sortBy={searchParams.sortBy}
+            sortOrder={searchParams.sortOrder}
+            onPaginationChange={(page, pageSize) =>
+              updateSearch({ page, pageSize })
+            }
+            onSortChange={(sortBy, sortOrder) =>
+              updateSearch({ sortBy, sortOrder, page: 1 })
+            }
+            emptyIcon={<Tag className="h-12 w-12 text-muted-foreground" />}
+            emptyTitle={t('empty.title', {
+              defaultValue: 'No animals registered',
+            })}
+            emptyDescription={t('empty.description', {
+              defaultValue: 'Tag your first cow, goat or sheep to track it.',
+            })}
+          />
+        </CardContent>
+      </Card>
+
+      <AnimalFormDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onSubmit={handleAddSuccess}
+        batches={batches}
+        structures={structures}
+        parents={parents}
+        isSubmitting={isSubmitting}
+      />
+
+      <AnimalFormDialog
+        open={editDialogOpen}
+        onOpenChange={setEditDialogOpen}
+        onSubmit={handleEditSuccess}
+        batches={batches}
+        structures={structures}
+        parents={parents}
+        isSubmitting={isSubmitting}
+        initialData={selectedAnimal ?? undefined}
+      />
+
+      <AnimalDeleteDialog
+        open={deleteDialogOpen}
+        onOpenChange={setDeleteDialogOpen}
+        onConfirm={async () => (await handleDeleteConfirm()) ?? false}
+        isSubmitting={isSubmitting}
+      />
+    </div>
+  )
+}
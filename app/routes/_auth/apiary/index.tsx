@@ -0,0 +1,330 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { ClipboardCheck, Droplets, Hexagon, Plus } from 'lucide-react'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import type {
+  HiveHarvestWithDetails,
+  HiveInspectionWithDetails,
+} from '~/features/apiary/repository'
+import type {
+  ApiaryView,
+  CreateHiveHarvestInput,
+  CreateHiveInspectionInput,
+  UpdateHiveHarvestInput,
+  UpdateHiveInspectionInput,
+} from '~/features/apiary/types'
+import { validateApiarySearch } from '~/features/apiary/validation'
+import { getApiaryDataForFarmFn } from '~/features/apiary/server'
+import { useApiaryPage } from '~/features/apiary/use-apiary-page'
+import { useFormatDate } from '~/features/settings'
+import { Button } from '~/components/ui/button'
+import { Input } from '~/components/ui/input'
+import { DataTable } from '~/components/ui/data-table'
+import { Tabs, TabsList, TabsTrigger } from '~/components/ui/tabs'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '~/components/ui/card'
+import { useFarm } from '~/features/farms/context'
+import { PageHeader } from '~/components/page-header'
+import {
+  ApiaryDeleteDialog,
+  ApiarySummaryCards,
+  HarvestFormDialog,
+  InspectionFormDialog,
+  useHarvestColumns,
+  useInspectionColumns,
+} from '~/components/apiary'
+import { ApiarySkeleton } from '~/components/apiary/apiary-skeleton'
+import { ErrorPage } from '~/components/error-page'
+
+export const Route = createFileRoute('/_auth/apiary/')({
+  validateSearch: validateApiarySearch,
+  loaderDeps: ({ search }) => ({
+    view: search.view,
+    page: search.page,
+    pageSize: search.pageSize,
+    sortBy: search.sortBy,
+    sortOrder: search.sortOrder,
+    search: search.search,
+  }),
+  loader: async ({ deps }) => {
+    return getApiaryDataForFarmFn({ data: deps })
+  },
+  pendingComponent: ApiarySkeleton,
+  errorComponent: ({ error, reset }) => (
+    <ErrorPage
+      error={error instanceof Error ? error : undefined}
+      reset={reset}
+    />
+  ),
+  component: ApiaryPage,
+})
+
+function ApiaryPage() {
+  const { t } = useTranslation(['apiary', 'common'])
+  const { format: formatDate } = useFormatDate()
+  const { selectedFarmId } = useFarm()
+  const searchParams = Route.useSearch()
+  const view: ApiaryView = searchParams.view ?? 'inspections'
+
+  const { inspections, harvests, summary, hives } = Route.useLoaderData()
+
+  const {
+    selectedInspection,
+    setSelectedInspection,
+    selectedHarvest,
+    setSelectedHarvest,
+    isSubmitting,
+    updateSearch,
+    handleAddInspection,
+    handleEditInspection,
+    handleDeleteInspection,
+    handleAddHarvest,
+    handleEditHarvest,
+    handleDeleteHarvest,
+  } = useApiaryPage({
+    selectedFarmId,
+    routePath: Route.fullPath,
+  })
+
+  const [inspectionDialogOpen, setInspectionDialogOpen] = useState(false)
+  const [editInspectionOpen, setEditInspectionOpen] = useState(false)
+  const [harvestDialogOpen, setHarvestDialogOpen] = useState(false)
+  const [editHarvestOpen, setEditHarvestOpen] = useState(false)
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
+
+  const inspectionColumns = useInspectionColumns({
+    t,
+    formatDate,
+    onEdit: (inspection: HiveInspectionWithDetails) => {
+      setSelectedInspection(inspection)
+      setEditInspectionOpen(true)
+    },
+    onDelete: (inspection: HiveInspectionWithDetails) => {
+      setSelectedInspection(inspection)
+      setDeleteDialogOpen(true)
+    },
+  })
+
+  const harvestColumns = useHarvestColumns({
+    t,
+    formatDate,
+    onEdit: (harvest: HiveHarvestWithDetails) => {
+      setSelectedHarvest(harvest)
+      setEditHarvestOpen(true)
+    },
+    onDelete: (harvest: HiveHarvestWithDetails) => {
+      setSelectedHarvest(harvest)
+      setDeleteDialogOpen(true)
+    },
+  })
+
+  const handleAddInspectionSuccess = async (
+    data: UpdateHiveInspectionInput,
+  ) => {
+    const success = await handleAddInspection(data as CreateHiveInspectionInput)
+    if (success) setInspectionDialogOpen(false)
+  }
+
+  const handleEditInspectionSuccess = async (
+    data: UpdateHiveInspectionInput,
+  ) => {
+    const success = await handleEditInspection(data)
+    if (success) setEditInspectionOpen(false)
+  }
+
+  const handleAddHarvestSuccess = async (data: UpdateHiveHarvestInput) => {
+    const success = await handleAddHarvest(data as CreateHiveHarvestInput)
+    if (success) setHarvestDialogOpen(false)
+  }
+
+  const handleEditHarvestSuccess = async (data: UpdateHiveHarvestInput) => {
+    const success = await handleEditHarvest(data)
+    if (success) setEditHarvestOpen(false)
+  }
+
+  const records = view === 'harvests' ? harvests : inspections
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title={t('title', { defaultValue: 'Apiary' })}
+        description={t('subtitle', {
+          defaultValue: 'Hive inspections and honey and wax harvests',
+        })}
+        icon={Hexagon}
+        actions={
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setInspectionDialogOpen(true)}
+            >
+              <ClipboardCheck className="mr-2 h-4 w-4" />
+              {t('recordInspection', { defaultValue: 'Record Inspection' })}
+            </Button>
+            <Button onClick={() => setHarvestDialogOpen(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              {t('recordHarvest', { defaultValue: 'Record Harvest' })}
+            </Button>
+          </div>
+        }
+      />
+
+      <ApiarySummaryCards summary={summary} />
+
+      <Tabs
+        value={view}
+        onValueChange={(value) =>
+          updateSearch({ view: value as ApiaryView, page: 1 })
+        }
+      >
+        <TabsList>
+          <TabsTrigger value="inspections" className="flex items-center gap-2">
+            <ClipboardCheck className="h-4 w-4" />
+            {t('tabs.inspections', { defaultValue: 'Inspections' })}
+          </TabsTrigger>
+          <TabsTrigger value="harvests" className="flex items-center gap-2">
+            <Droplets className="h-4 w-4" />
+            {t('tabs.harvests', { defaultValue: 'Harvests' })}
+          </TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>
+                {view === 'harvests'
+                  ? t('harvestHistory', { defaultValue: 'Harvest History' })
+                  : t('inspectionHistory', {
+                      defaultValue: 'Inspection History',
+                    })}
+              </CardTitle>
+              <CardDescription>
+                {t('history_desc', {
+                  defaultValue: 'View and manage records for each hive',
+                })}
+              </CardDescription>
+            </div>
+            <Input
+              value={searchParams.search}
+              onChange={(e) =>
+                updateSearch({
+                  search: e.target.value,
+                  page: 1,
+                })
+              }
+              placeholder={t('common:search', {
+                defaultValue: 'Search...',
+              })}
+              className="max-w-xs"
+            />
+          </div>
+        </CardHeader>
+        <CardContent>
+          {view === 'harvests' ? (
+            <DataTable
+              columns={harvestColumns}
+              data={harvests?.data ?? []}
+              total={records?.total ?? 0}
+              page={records?.page ?? 1}
+              pageSize={records?.pageSize ?? 10}
+              totalPages={records?.totalPages ?? 0}
+              sortBy={searchParams.sortBy}
+              sortOrder={searchParams.sortOrder}
+              onPaginationChange={(page, pageSize) =>
+                updateSearch({ page, pageSize })
+              }
+              onSortChange={(sortBy, sortOrder) =>
+                updateSearch({ sortBy, sortOrder, page: 1 })
+              }
+              emptyIcon={
+                <Droplets className="h-12 w-12 text-muted-foreground" />
+              }
+              emptyTitle={t('empty.harvestsTitle', {
+                defaultValue: 'No harvests found',
+              })}
+              emptyDescription={t('empty.harvestsDescription', {
+                defaultValue: 'Record honey or wax taken from your hives.',
+              })}
+            />
+          ) : (
+            <DataTable
+              columns={inspectionColumns}
+              data={inspections?.data ?? []}
+              total={records?.total ?? 0}
+              page={records?.page ?? 1}
+              pageSize={records?.pageSize ?? 10}
+              totalPages={records?.totalPages ?? 0}
+              sortBy={searchParams.sortBy}
+              sortOrder={searchParams.sortOrder}
+              onPaginationChange={(page, pageSize) =>
+                updateSearch({ page, pageSize })
+              }
+              onSortChange={(sortBy, sortOrder) =>
+                updateSearch({ sortBy, sortOrder, page: 1 })
+              }
+              emptyIcon={
+                <Hexagon className="h-12 w-12 text-muted-foreground" />
+              }
+              emptyTitle={t('empty.inspectionsTitle', {
+                defaultValue: 'No inspections found',
+              })}
+              emptyDescription={t('empty.inspectionsDescription', {
+                defaultValue: 'Get started by recording your first inspection.',
+              })}
+            />
+          )}
+        </CardContent>
+      </Card>
+
+      <InspectionFormDialog
+        open={inspectionDialogOpen}
+        onOpenChange={setInspectionDialogOpen}
+        onSubmit={handleAddInspectionSuccess}
+        hives={hives}
+        isSubmitting={isSubmitting}
+      />
+
+      <InspectionFormDialog
+        open={editInspectionOpen}
+        onOpenChange={setEditInspectionOpen}
+        onSubmit={handleEditInspectionSuccess}
+        hives={hives}
+        isSubmitting={isSubmitting}
+        initialData={selectedInspection ?? undefined}
+      />
+
+      <HarvestFormDialog
+        open={harvestDialogOpen}
+        onOpenChange={setHarvestDialogOpen}
+        onSubmit={handleAddHarvestSuccess}
+        hives={hives}
+        isSubmitting={isSubmitting}
+      />
+
+      <HarvestFormDialog
+        open={editHarvestOpen}
+        onOpenChange={setEditHarvestOpen}
+        onSubmit={handleEditHarvestSuccess}
+        hives={hives}
+        isSubmitting={isSubmitting}
+        initialData={selectedHarvest ?? undefined}
+      />
+
+      <ApiaryDeleteDialog
+        open={deleteDialogOpen}
+        onOpenChange={setDeleteDialogOpen}
+        onConfirm={async () =>
+          view === 'harvests' ? handleDeleteHarvest() : handleDeleteInspection()
+        }
+        isSubmitting={isSubmitting}
+      />
+    </div>
+  )
+}
@@ -4,13 +4,20 @@ import { useState } from 'react'
 import { useQuery, useQueryClient } from '@tanstack/react-query'
 import { toast } from 'sonner'
 import { ExternalLink, Target, X } from 'lucide-react'
-import type { ExpenseRecord, FeedRecord, MortalityRecord, SaleRecord } from '~/features/batches/types'
+import type {
+  ExpenseRecord,
+  FeedRecord,
+  MortalityRecord,
+  SaleRecord,
+} from '~/features/batches/types'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '~/components/ui/tabs'
 import { Alert, AlertDescription, AlertTitle } from '~/components/ui/alert'
 import { Button } from '~/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '~/components/ui/card'
 import { ProjectionsCard } from '~/components/batches/projections-card'
 import { GrowthChart } from '~/components/batches/growth-chart'
+import { EnvironmentReport } from '~/components/batches/environment-report'
+import { FcrChart } from '~/components/batches/fcr-chart'
 import { BatchCommandCenter } from '~/components/batches/command-center'
 import { BatchHeader } from '~/components/batches/batch-details/batch-header'
 import { BatchKPIs } from '~/components/batches/batch-details/batch-kpis'
@@ -18,12 +25,17 @@ import { FeedRecordsTab } from '~/components/batches/batch-details/feed-records-
 import { MortalityRecordsTab } from '~/components/batches/batch-details/mortality-records-tab'
 import { ExpensesTab } from '~/components/batches/batch-details/expenses-tab'
 import { SalesTab } from '~/components/batches/batch-details/sales-tab'
-import { deleteBatchFn, getBatchDetailsFn, updateBatchFn } from '~/features/batches/server'
+import {
+  deleteBatchFn,
+  getBatchDetailsFn,
+  updateBatchFn,
+} from '~/features/batches/server'
 import { getFeedRecordsForBatchFn } from '~/features/feed/server'
 import { getMortalityRecordsForBatchFn } from '~/features/mortality/server'
 import { getSalesPaginatedFn } from '~/features/sales/server'
 import { getExpensesPaginatedFn } from '~/features/expenses/server'
 import { BATCH_QUERY_KEYS } from '~/features/batches/mutations'
+import { calculateBatchProfit, calculateROI } from '~/lib/finance/calculations'
 import { BatchEditDialog } from '~/components/batches/batch-edit-dialog'
 import { BatchDeleteDialog } from '~/components/batches/batch-delete-dialog'
 import { DetailSkeleton } from '~/components/ui/detail-skeleton'
@@ -113,12 +125,12 @@ function BatchDetailsPage() {
   const queryClient = useQueryClient()
   const [targetWeightPromptDismissed, setTargetWeightPromptDismissed] =
     useState(false)
-  
+
   // Edit/Delete dialog state
   const [editDialogOpen, setEditDialogOpen] = useState(false)
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
   const [isSubmitting, setIsSubmitting] = useState(false)
-  
+
   // Tab state for lazy loading
   const [activeTab, setActiveTab] = useState('feed')
 
@@ -157,19 +169,23 @@ function BatchDetailsPage() {
   })
 
   // Transform feed records to match expected type
-  const feedRecords: Array<FeedRecord> = (feedRecordsQuery.data || []).map((r: any) => ({
-    id: r.id,
-    batchId: r.batchId,
-    feedType: r.feedType,
-    brandName: r.brandName || null,
-    quantityKg: r.quantityKg,
-    cost: r.cost,
-    date: new Date(r.date),
-    notes: r.notes || null,
-  }))
+  const feedRecords: Array<FeedRecord> = (feedRecordsQuery.data || []).map(
+    (r: any) => ({
+      id: r.id,
+      batchId: r.batchId,
+      feedType: r.feedType,
+      brandName: r.brandName || null,
+      quantityKg: r.quantityKg,
+      cost: r.cost,
+      date: new Date(r.date),
+      notes: r.notes || null,
+    }),
+  )
 
   // Transform mortality records to match expected type
-  const mortalityRecords: Array<MortalityRecord> = (mortalityRecordsQuery.data || []).map((r: any) => ({
+  const mortalityRecords: Array<MortalityRecord> = (
+    mortalityRecordsQuery.data || []
+  ).map((r: any) => ({
     id: r.id,
     batchId: r.batchId,
     quantity: r.quantity,
@@ -179,7 +195,9 @@ function BatchDetailsPage() {
   }))
 
   // Transform sales records to match expected type
-  const salesRecords: Array<SaleRecord> = (salesRecordsQuery.data?.data || []).map((r: any) => ({
+  const salesRecords: Array<SaleRecord> = (
+    salesRecordsQuery.data?.data || []
+  ).map((r: any) => ({
     id: r.id,
     quantity: r.quantity,
     totalAmount: r.totalAmount,
@@ -192,7 +210,9 @@ function BatchDetailsPage() {
   }))
 
   // Transform expenses records to match expected type
-  const expensesRecords: Array<ExpenseRecord> = (expensesRecordsQuery.data?.data || []).map((r: any) => ({
+  const expensesRecords: Array<ExpenseRecord> = (
+    expensesRecordsQuery.data?.data || []
+  ).map((r: any) => ({
     id: r.id,
     category: r.category,
     amount: r.amount,
@@ -200,6 +220,15 @@ function BatchDetailsPage() {
     description: r.description,
   }))
 
+  // Pooled wool sales count towards the batches that were shorn
+  const netProfit = calculateBatchProfit({
+    totalRevenue: sales.totalRevenue,
+    attributedRevenue: sales.attributedWoolRevenue,
+    initialCost: Number(batch.totalCost),
+    feedCost: feed.totalCost,
+    otherExpenses: expenses.total,
+  })
+
   // Create metrics object from the data structure
   const metrics = {
     currentQuantity: batch.currentQuantity,
@@ -214,20 +243,8 @@ function BatchDetailsPage() {
     totalSold: sales.totalQuantity,
     avgSalesPrice:
       sales.totalQuantity > 0 ? sales.totalRevenue / sales.totalQuantity : 0,
-    netProfit:
-      sales.totalRevenue -
-      Number(batch.totalCost) -
-      feed.totalCost -
-      expenses.total,
-    roi:
-      Number(batch.totalCost) > 0
-        ? ((sales.totalRevenue -
-            Number(batch.totalCost) -
-            feed.totalCost -
-            expenses.total) /
-            Number(batch.totalCost)) *
-          100
-        : 0,
+    netProfit,
+    roi: calculateROI(netProfit, Number(batch.totalCost)),
   }
 
   // Handle edit submit
@@ -251,7 +268,9 @@ function BatchDetailsPage() {
       router.invalidate()
       setEditDialogOpen(false)
     } catch (error) {
-      toast.error(t('messages.updateError', { defaultValue: 'Failed to update batch' }))
+      toast.error(
+        t('messages.updateError', { defaultValue: 'Failed to update batch' }),
+      )
     } finally {
       setIsSubmitting(false)
     }
@@ -266,7 +285,9 @@ function BatchDetailsPage() {
       queryClient.invalidateQueries({ queryKey: BATCH_QUERY_KEYS.all })
       router.navigate({ to: '/batches' })
     } catch (error) {
-      toast.error(t('messages.deleteError', { defaultValue: 'Failed to delete batch' }))
+      toast.error(
+        t('messages.deleteError', { defaultValue: 'Failed to delete batch' }),
+      )
     } finally {
       setIsSubmitting(false)
       setDeleteDialogOpen(false)
@@ -275,10 +296,11 @@ function BatchDetailsPage() {
 
   return (
     <div className="space-y-6">
-      <BatchHeader 
-        batch={batch} 
-        onEdit={() => setEditDialogOpen(true)} 
-        onDelete={() => setDeleteDialogOpen(true)} 
+      <BatchHeader
+        batch={batch}
+        withdrawal={data.withdrawal}
+        onEdit={() => setEditDialogOpen(true)}
+        onDelete={() => setDeleteDialogOpen(true)}
       />
 
       <BatchCommandCenter batchId={batchId} farmId={batch.farmId} />
@@ -293,7 +315,7 @@ function BatchDetailsPage() {
       {batch.formulation && <FormulationCard formulation={batch.formulation} />}
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="w-full grid grid-cols-3 lg:grid-cols-6 h-auto p-1.5">
+        <TabsList className="w-full grid grid-cols-4 lg:grid-cols-7 h-auto p-1.5">
           <TabsTrigger value="feed" className="w-full">
             {t('tabs.feed', { defaultValue: 'Feed Logs' })}
           </TabsTrigger>
@@ -308,6 +330,9 @@ function BatchDetailsPage() {
               defaultValue: 'Mortality & Health',
             })}
           </TabsTrigger>
+          <TabsTrigger value="environment" className="w-full">
+            {t('tabs.environment', { defaultValue: 'Environment' })}
+          </TabsTrigger>
           <TabsTrigger value="expenses" className="w-full">
             {t('tabs.expenses', { defaultValue: 'Expenses' })}
           </TabsTrigger>
@@ -317,17 +342,18 @@ function BatchDetailsPage() {
         </TabsList>
 
         <TabsContent value="feed" className="mt-4">
-          <FeedRecordsTab 
-            records={feedRecords} 
-            isLoading={feedRecordsQuery.isLoading} 
+          <FeedRecordsTab
+            records={feedRecords}
+            isLoading={feedRecordsQuery.isLoading}
           />
         </TabsContent>
 
-        <TabsContent value="growth" className="mt-4">
+        <TabsContent value="growth" className="mt-4 space-y-6">
           <GrowthChart
             batchId={batch.id}
             acquisitionDate={batch.acquisitionDate}
           />
+          <FcrChart batchId={batch.id} />
         </TabsContent>
 
         <TabsContent value="projections" className="mt-4">
@@ -368,23 +394,27 @@ function BatchDetailsPage() {
         </TabsContent>
 
         <TabsContent value="health" className="mt-4">
-          <MortalityRecordsTab 
-            records={mortalityRecords} 
-            isLoading={mortalityRecordsQuery.isLoading} 
+          <MortalityRecordsTab
+            records={mortalityRecords}
+            isLoading={mortalityRecordsQuery.isLoading}
           />
         </TabsContent>
 
+        <TabsContent value="environment" className="mt-4">
+          <EnvironmentReport batchId={batch.id} />
+        </TabsContent>
+
         <TabsContent value="expenses" className="mt-4">
-          <ExpensesTab 
-            records={expensesRecords} 
-            isLoading={expensesRecordsQuery.isLoading} 
+          <ExpensesTab
+            records={expensesRecords}
+            isLoading={expensesRecordsQuery.isLoading}
           />
         </TabsContent>
 
         <TabsContent value="sales" className="mt-4">
-          <SalesTab 
-            records={salesRecords} 
-            isLoading={salesRecordsQuery.isLoading} 
+          <SalesTab
+            records={salesRecords}
+            isLoading={salesRecordsQuery.isLoading}
           />
         </TabsContent>
       </Tabs>
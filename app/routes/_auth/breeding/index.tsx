@@ -0,0 +1,367 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { Baby, HeartHandshake, Plus } from 'lucide-react'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import type {
+  BirthRecordWithDetails,
+  BreedingEventWithDetails,
+} from '~/features/breeding/repository'
+import type {
+  BreedingStatus,
+  BreedingView,
+  CreateBirthRecordInput,
+  CreateBreedingEventInput,
+  UpdateBirthRecordInput,
+  UpdateBreedingEventInput,
+} from '~/features/breeding/types'
+import { BREEDING_STATUSES } from '~/features/breeding/types'
+import { validateBreedingSearch } from '~/features/breeding/validation'
+import { getBreedingDataForFarmFn } from '~/features/breeding/server'
+import { useBreedingPage } from '~/features/breeding/use-breeding-page'
+import { useFormatDate } from '~/features/settings'
+import { Button } from '~/components/ui/button'
+import { Input } from '~/components/ui/input'
+import { DataTable } from '~/components/ui/data-table'
+import { Tabs, TabsList, TabsTrigger } from '~/components/ui/tabs'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '~/components/ui/select'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '~/components/ui/card'
+import { useFarm } from '~/features/farms/context'
+import { PageHeader } from '~/components/page-header'
+import {
+  BirthFormDialog,
+  BreedingDeleteDialog,
+  BreedingEventFormDialog,
+  BreedingSummaryCards,
+  WeaningFormDialog,
+  useBirthColumns,
+  useEventColumns,
+} from '~/components/breeding'
+import { BreedingSkeleton } from '~/components/breeding/breeding-skeleton'
+import { ErrorPage } from '~/components/error-page'
+
+export const Route = createFileRoute('/_auth/breeding/')({
+  validateSearch: validateBreedingSearch,
+  loaderDeps: ({ search }) => ({
+    view: search.view,
+    status: search.status === 'all' ? undefined : search.status,
+    page: search.page,
+    pageSize: search.pageSize,
+    sortBy: search.sortBy,
+    sortOrder: search.sortOrder,
+    search: search.search,
+  }),
+  loader: async ({ deps }) => {
+    return getBreedingDataForFarmFn({ data: deps })
+  },
+  pendingComponent: BreedingSkeleton,
+  errorComponent: ({ error, reset }) => (
+    <ErrorPage
+      error={error instanceof Error ? error : undefined}
+      reset={reset}
+    />
+  ),
+  component: BreedingPage,
+})
+
+function BreedingPage() {
+  const { t } = useTranslation(['breeding', 'common'])
+  const { format: formatDate } = useFormatDate()
+  const { selectedFarmId } = useFarm()
+  const searchParams = Route.useSearch()
+  const view: BreedingView = searchParams.view ?? 'events'
+
+  const { events, births, summary, batches, animals } = Route.useLoaderData()
+
+  const {
+    selectedEvent,
+    setSelectedEvent,
+    selectedBirth,
+    setSelectedBirth,
+    isSubmitting,
+    updateSearch,
+    handleAddEvent,
+    handleEditEvent,
+    handleDeleteEvent,
+    handleAddBirth,
+    handleEditBirth,
+    handleDeleteBirth,
+  } = useBreedingPage({
+    selectedFarmId,
+    routePath: Route.fullPath,
+  })
+
+  const [eventDialogOpen, setEventDialogOpen] = useState(false)
+  const [editEventOpen, setEditEventOpen] = useState(false)
+  const [birthDialogOpen, setBirthDialogOpen] = useState(false)
+  const [weaningDialogOpen, setWeaningDialogOpen] = useState(false)
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
+
+  const eventColumns = useEventColumns({
+    t,
+    formatDate,
+    onRecordBirth: (event: BreedingEventWithDetails) => {
+      setSelectedEvent(event)
+      setBirthDialogOpen(true)
+    },
+    onEdit: (event: BreedingEventWithDetails) => {
+      setSelectedEvent(event)
+      setEditEventOpen(true)
+    },
+    onDelete: (event: BreedingEventWithDetails) => {
+      setSelectedEvent(event)
+      setDeleteDialogOpen(true)
+    },
+  })
+
+  const birthColumns = useBirthColumns({
+    t,
+    formatDate,
+    onEdit: (birth: BirthRecordWithDetails) => {
+      setSelectedBirth(birth)
+      setWeaningDialogOpen(true)
+    },
+    onDelete: (birth: BirthRecordWithDetails) => {
+      setSelectedBirth(birth)
+      setDeleteDialogOpen(true)
+    },
+  })
+
+  const handleAddEventSuccess = async (data: UpdateBreedingEventInput) => {
+    const success = await handleAddEvent(data as CreateBreedingEventInput)
+    if (success) setEventDialogOpen(false)
+  }
+
+  const handleEditEventSuccess = async (data: UpdateBreedingEventInput) => {
+    const success = await handleEditEvent(data)
+    if (success) setEditEventOpen(false)
+  }
+
+  const handleAddBirthSuccess = async (data: CreateBirthRecordInput) => {
+    const success = await handleAddBirth(data)
+    if (success) setBirthDialogOpen(false)
+  }
+
+  const handleWeaningSuccess = async (data: UpdateBirthRecordInput) => {
+    const success = await handleEditBirth(data)
+    if (success) setWeaningDialogOpen(false)
+  }
+
+  const records = view === 'births' ? births : events
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title={t('title', { defaultValue: 'Breeding' })}
+        description={t('subtitle', {
+          defaultValue:
+            'Matings, due dates, births and reproductive performance',
+        })}
+        icon={Baby}
+        actions={
+          <Button onClick={() => setEventDialogOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            {t('recordMating', { defaultValue: 'Record Mating' })}
+          </Button>
+        }
+      />
+
+      <BreedingSummaryCards summary={summary} />
+
+      <Tabs
+        value={view}
+        onValueChange={(value) =>
+          updateSearch({
+            view: value as BreedingView,
+            status: 'all',
+            sortBy: undefined,
+            page: 1,
+          })
+        }
+      >
+        <TabsList>
+          <TabsTrigger value="events" className="flex items-center gap-2">
+            <HeartHandshake className="h-4 w-4" />
+            {t('tabs.events', { defaultValue: 'Matings' })}
+          </TabsTrigger>
+          <TabsTrigger value="births" className="flex items-center gap-2">
+            <Baby className="h-4 w-4" />
+            {t('tabs.births', { defaultValue: 'Births' })}
+          </TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>
+                {view === 'births'
+                  ? t('birthHistory', { defaultValue: 'Birth History' })
+                  : t('eventHistory', { defaultValue: 'Mating History' })}
+              </CardTitle>
+              <CardDescription>
+                {t('history_desc', {
+                  defaultValue:
+                    'Due dates follow from each species’ gestation length',
+                })}
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              {view === 'events' && (
+                <Select
+                  value={searchParams.status ?? 'all'}
+                  onValueChange={(value: string | null) =>
+                    updateSearch({
+                      status: (value || 'all') as BreedingStatus | 'all',
+                      page: 1,
+                    })
+                  }
+                >
+                  <SelectTrigger className="w-32">
+                    <SelectValue>
+                      {searchParams.status && searchParams.status !== 'all'
+                        ? t(`breeding:statuses.${searchParams.status}`)
+                        : t('breeding:allStatuses', { defaultValue: 'All' })}
+                    </SelectValue>
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">
+                      {t('breeding:allStatuses', { defaultValue: 'All' })}
+                    </SelectItem>
+                    {BREEDING_STATUSES.map((status) => (
+                      <SelectItem key={status} value={status}>
+                        {t(`breeding:statuses.${status}`)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Input
+                value={searchParams.search}
+                onChange={(e) =>
+                  updateSearch({
+                    search: e.target.value,
+                    page: 1,
+                  })
+                }
+                placeholder={t('common:search', {
+                  defaultValue: 'Search...',
+                })}
+                className="max-w-xs"
+              />
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {view === 'births' ? (
+            <DataTable
+              columns={birthColumns}
+              data={births?.data ?? []}
+              total={records?.total ?? 0}
+              page={records?.page ?? 1}
+              pageSize={records?.pageSize ?? 10}
+              totalPages={records?.totalPages ?? 0}
+              sortBy={searchParams.sortBy}
+              sortOrder={searchParams.sortOrder}
+              onPaginationChange={(page, pageSize) =>
+                updateSearch({ page, pageSize })
+              }
+              onSortChange={(sortBy, sortOrder) =>
+                updateSearch({ sortBy, sortOrder, page: 1 })
+              }
+              emptyIcon={<Baby className="h-12 w-12 text-muted-foreground" />}
+              emptyTitle={t('empty.birthsTitle', {
+                defaultValue: 'No births found',
+              })}
+              emptyDescription={t('empty.birthsDescription', {
+                defaultValue: 'Births recorded from matings will appear here.',
+              })}
+            />
+          ) : (
+            <DataTable
+              columns={eventColumns}
+              data={events?.data ?? []}
+              total={records?.total ?? 0}
+              page={records?.page ?? 1}
+              pageSize={records?.pageSize ?? 10}
+              totalPages={records?.totalPages ?? 0}
+              sortBy={searchParams.sortBy}
+              sortOrder={searchParams.sortOrder}
+              onPaginationChange={(page, pageSize) =>
+                updateSearch({ page, pageSize })
+              }
+              onSortChange={(sortBy, sortOrder) =>
+                updateSearch({ sortBy, sortOrder, page: 1 })
+              }
+              emptyIcon={
+                <HeartHandshake className="h-12 w-12 text-muted-foreground" />
+              }
+              emptyTitle={t('empty.eventsTitle', {
+                defaultValue: 'No matings found',
+              })}
+              emptyDescription={t('empty.eventsDescription', {
+                defaultValue: 'Record a mating to track the expected due date.',
+              })}
+            />
+          )}
+        </CardContent>
+      </Card>
+
+      <BreedingEventFormDialog
+        open={eventDialogOpen}
+        onOpenChange={setEventDialogOpen}
+        onSubmit={handleAddEventSuccess}
+        batches={batches}
+        animals={animals}
+        isSubmitting={isSubmitting}
+      />
+
+      <BreedingEventFormDialog
+        open={editEventOpen}
+        onOpenChange={setEditEventOpen}
+        onSubmit={handleEditEventSuccess}
+        batches={batches}
+        animals={animals}
+        isSubmitting={isSubmitting}
+        initialData={selectedEvent ?? undefined}
+      />
+
+      <BirthFormDialog
+        open={birthDialogOpen}
+        onOpenChange={setBirthDialogOpen}
+        onSubmit={handleAddBirthSuccess}
+        event={selectedEvent}
+        isSubmitting={isSubmitting}
+      />
+
+      <WeaningFormDialog
+        open={weaningDialogOpen}
+        onOpenChange={setWeaningDialogOpen}
+        onSubmit={handleWeaningSuccess}
+        birth={selectedBirth}
+        isSubmitting={isSubmitting}
+      />
+
+      <BreedingDeleteDialog
+        open={deleteDialogOpen}
+        onOpenChange={setDeleteDialogOpen}
+        onConfirm={async () =>
+          view === 'births' ? handleDeleteBirth() : handleDeleteEvent()
+        }
+        isSubmitting={isSubmitting}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,627 @@
+import { Link, createFileRoute, useRouter } from '@tanstack/react-router'
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { ArrowLeft, Copy, KeyRound, Plus, ShieldOff } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import type { LenderScope } from '~/lib/db/types'
+import { Button } from '~/components/ui/button'
+import { Badge } from '~/components/ui/badge'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '~/components/ui/card'
+import { Checkbox } from '~/components/ui/checkbox'
+import { Input } from '~/components/ui/input'
+import { Label } from '~/components/ui/label'
+import { RadioGroup, RadioGroupItem } from '~/components/ui/radio-group'
+import { Textarea } from '~/components/ui/textarea'
+import { PageHeader } from '~/components/page-header'
+import { DataTableSkeleton } from '~/components/ui/data-table-skeleton'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '~/components/ui/dialog'
+import {
+  LENDER_METRICS_PATH,
+  createLenderConsentFn,
+  getLenderConsentDashboardFn,
+  revokeLenderConsentFn,
+} from '~/features/credit-passport/lender-server'
+import {
+  CONSENT_DURATIONS_DAYS,
+  DEFAULT_CONSENT_PERIOD_MONTHS,
+  LENDER_SCOPES,
+} from '~/features/credit-passport/lender-service'
+import { getFarmsForUserFn } from '~/features/farms/server'
+import { useFormatDate } from '~/features/settings'
+import { ErrorPage } from '~/components/error-page'
+
+export const Route = createFileRoute('/_auth/credit-passport/consents')({
+  loader: async () => {
+    const [dashboard, farms] = await Promise.all([
+      getLenderConsentDashboardFn({ data: {} }),
+      getFarmsForUserFn({ data: {} }),
+    ])
+    return { ...dashboard, farms }
+  },
+  pendingComponent: DataTableSkeleton,
+  errorComponent: ({ error, reset }) => (
+    <ErrorPage
+      error={error instanceof Error ? error : undefined}
+      reset={reset}
+    />
+  ),
+  component: LenderConsentsPage,
+})
+
+const STATUS_COLORS = {
+  active: 'bg-green-100 text-green-800',
+  expired: 'bg-gray-100 text-gray-800',
+  revoked: 'bg-red-100 text-red-800',
+}
+
+const SCOPE_LABELS: Record<LenderScope, string> = {
+  financial: 'Financial',
+  operational: 'Operational',
+  track_record: 'Track Record',
+  credit_score: 'Credit Score',
+}
+
+const emptyForm = {
+  farmIds: [] as Array<string>,
+  scopes: [] as Array<LenderScope>,
+  lenderName: '',
+  lenderEmail: '',
+  purpose: '',
+  durationDays: '90',
+  periodMonths: String(DEFAULT_CONSENT_PERIOD_MONTHS),
+}
+
+function LenderConsentsPage() {
+  const { t } = useTranslation(['credit-passport', 'common'])
+  const router = useRouter()
+  const { format: formatDate } = useFormatDate()
+  const { consents, accessLogs, farms } = Route.useLoaderData()
+
+  const [createOpen, setCreateOpen] = useState(false)
+  const [formData, setFormData] = useState(emptyForm)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [issuedToken, setIssuedToken] = useState<string | null>(null)
+
+  const farmNames = new Map(farms.map((farm) => [farm.id, farm.name]))
+
+  const toggle = <T extends string>(list: Array<T>, value: T, on: boolean) =>
+    on ? [...list, value] : list.filter((item) => item !== value)
+
+  const handleCreate = async () => {
+    setIsSubmitting(true)
+    try {
+      const result = await createLenderConsentFn({
+        data: {
+          farmIds: formData.farmIds,
+          scopes: formData.scopes,
+          lenderName: formData.lenderName,
+          lenderEmail: formData.lenderEmail || null,
+          purpose: formData.purpose || null,
+          durationDays: parseInt(formData.durationDays),
+          periodMonths: parseInt(formData.periodMonths),
+        },
+      })
+      setCreateOpen(false)
+      setFormData(emptyForm)
+      setIssuedToken(result.token)
+      router.invalidate()
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : t('credit-passport:lenderAccess.createFailed', {
+              defaultValue: 'Failed to grant access',
+            }),
+      )
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleRevoke = async (consentId: string) => {
+    try {
+      await revokeLenderConsentFn({ data: { consentId } })
+      toast.success(
+        t('credit-passport:lenderAccess.revoked', {
+          defaultValue: 'Access revoked',
+        }),
+      )
+      router.invalidate()
+    } catch (error) {
+      toast.error(
+        t('credit-passport:lenderAccess.revokeFailed', {
+          defaultValue: 'Failed to revoke access',
+        }),
+      )
+    }
+  }
+
+  const copyToken = async () => {
+    if (!issuedToken) return
+    await navigator.clipboard.writeText(issuedToken)
+    toast.success(
+      t('credit-passport:lenderAccess.tokenCopied', {
+        defaultValue: 'Token copied',
+      }),
+    )
+  }
+
+  const canSubmit =
+    formData.farmIds.length > 0 &&
+    formData.scopes.length > 0 &&
+    formData.lenderName.trim().length > 0
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title={t('credit-passport:lenderAccess.title', {
+          defaultValue: 'Lender Access',
+        })}
+        description={t('credit-passport:lenderAccess.description', {
+          defaultValue:
+            'Let lenders pull signed passport metrics directly, for as long as you allow',
+        })}
+        icon={KeyRound}
+        actions={
+          <>
+            <Button variant="outline" asChild>
+              <Link to="/credit-passport">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                {t('credit-passport:title', {
+                  defaultValue: 'Credit Passport',
+                })}
+              </Link>
+            </Button>
+            <Button onClick={() => setCreateOpen(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              {t('credit-passport:lenderAccess.grant', {
+                defaultValue: 'Grant Access',
+              })}
+            </Button>
+          </>
+        }
+      />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            {t('credit-passport:lenderAccess.consentsTitle', {
+              defaultValue: 'Consents',
+            })}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {consents.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {t('credit-passport:lenderAccess.noConsents', {
+                defaultValue: 'No lender has been given access yet.',
+              })}
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 pr-4">
+                      {t('credit-passport:lenderAccess.columns.lender', {
+                        defaultValue: 'Lender',
+                      })}
+                    </th>
+                    <th className="py-2 pr-4">
+                      {t('credit-passport:lenderAccess.columns.scopes', {
+                        defaultValue: 'Data',
+                      })}
+                    </th>
+                    <th className="py-2 pr-4">
+                      {t('credit-passport:lenderAccess.columns.farms', {
+                        defaultValue: 'Farms',
+                      })}
+                    </th>
+                    <th className="py-2 pr-4">
+                      {t('credit-passport:lenderAccess.columns.token', {
+                        defaultValue: 'Token',
+                      })}
+                    </th>
+                    <th className="py-2 pr-4">
+                      {t('credit-passport:lenderAccess.columns.expires', {
+                        defaultValue: 'Expires',
+                      })}
+                    </th>
+                    <th className="py-2 pr-4">
+                      {t('credit-passport:lenderAccess.columns.lastAccess', {
+                        defaultValue: 'Last Access',
+                      })}
+                    </th>
+                    <th className="py-2 pr-4">
+                      {t('credit-passport:lenderAccess.columns.status', {
+                        defaultValue: 'Status',
+                      })}
+                    </th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {consents.map((consent) => (
+                    <tr key={consent.id} className="border-b last:border-0">
+                      <td className="py-2 pr-4">
+                        <div className="font-medium">{consent.lenderName}</div>
+                        {consent.purpose && (
+                          <div className="text-xs text-muted-foreground">
+                            {consent.purpose}
+                          </div>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4">
+                        <div className="flex flex-wrap gap-1">
+                          {consent.scopes.map((scope) => (
+                            <Badge key={scope} variant="outline">
+                              {SCOPE_LABELS[scope]}
+                            </Badge>
+                          ))}
+                        </div>
+                      </td>
+                      <td className="py-2 pr-4">
+                        {consent.farmIds
+                          .map((id) => farmNames.get(id) ?? id.slice(0, 8))
+                          .join(', ')}
+                      </td>
+                      <td className="py-2 pr-4 font-mono">
+                        …{consent.tokenHint}
+                      </td>
+                      <td className="py-2 pr-4">
+                        {formatDate(new Date(consent.expiresAt))}
+                      </td>
+                      <td className="py-2 pr-4">
+                        {consent.lastAccessedAt
+                          ? formatDate(new Date(consent.lastAccessedAt))
+                          : t('credit-passport:lenderAccess.never', {
+                              defaultValue: 'Never',
+                            })}
+                      </td>
+                      <td className="py-2 pr-4">
+                        <Badge className={STATUS_COLORS[consent.status]}>
+                          {consent.status}
+                        </Badge>
+                      </td>
+                      <td className="py-2">
+                        {consent.status === 'active' && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRevoke(consent.id)}
+                            className="text-red-600 hover:text-red-700"
+                            aria-label={t(
+                              'credit-passport:lenderAccess.revoke',
+                              {
+                                defaultValue: 'Revoke',
+                              },
+                            )}
+                          >
+                            <ShieldOff className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            {t('credit-passport:lenderAccess.logTitle', {
+              defaultValue: 'Access Log',
+            })}
+          </CardTitle>
+          <CardDescription>
+            {t('credit-passport:lenderAccess.logDescription', {
+              defaultValue: 'Every pull a lender has made with your consent',
+            })}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {accessLogs.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {t('credit-passport:lenderAccess.noAccess', {
+                defaultValue: 'No lender has pulled your metrics yet.',
+              })}
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 pr-4">
+                      {t('credit-passport:lenderAccess.columns.accessedAt', {
+                        defaultValue: 'When',
+                      })}
+                    </th>
+                    <th className="py-2 pr-4">
+                      {t('credit-passport:lenderAccess.columns.lender', {
+                        defaultValue: 'Lender',
+                      })}
+                    </th>
+                    <th className="py-2 pr-4">
+                      {t('credit-passport:lenderAccess.columns.scopes', {
+                        defaultValue: 'Data',
+                      })}
+                    </th>
+                    <th className="py-2">
+                      {t('credit-passport:lenderAccess.columns.ip', {
+                        defaultValue: 'IP Address',
+                      })}
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {accessLogs.map((log) => (
+                    <tr key={log.id} className="border-b last:border-0">
+                      <td className="py-2 pr-4">
+                        {new Date(log.accessedAt).toLocaleString()}
+                      </td>
+                      <td className="py-2 pr-4 font-medium">
+                        {log.lenderName}
+                      </td>
+                      <td className="py-2 pr-4">
+                        {(log.scopes ?? [])
+                          .map((scope) => SCOPE_LABELS[scope])
+                          .join(', ')}
+                      </td>
+                      <td className="py-2 font-mono text-xs">
+                        {log.accessorIp ?? '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {t('credit-passport:lenderAccess.grantTitle', {
+                defaultValue: 'Grant Lender Access',
+              })}
+            </DialogTitle>
+            <DialogDescription>
+              {t('credit-passport:lenderAccess.grantDesc', {
+                defaultValue:
+                  'The lender gets a token that returns signed metrics for the farms and data you choose.',
+              })}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+            <div className="space-y-2">
+              <Label htmlFor="lenderName">
+                {t('credit-passport:lenderAccess.lenderName', {
+                  defaultValue: 'Lender Name',
+                })}
+              </Label>
+              <Input
+                id="lenderName"
+                value={formData.lenderName}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    lenderName: e.target.value,
+                  }))
+                }
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="lenderEmail">
+                {t('common:email', { defaultValue: 'Email' })}
+              </Label>
+              <Input
+                id="lenderEmail"
+                type="email"
+                value={formData.lenderEmail}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    lenderEmail: e.target.value,
+                  }))
+                }
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="purpose">
+                {t('credit-passport:purpose', { defaultValue: 'Purpose' })}
+              </Label>
+              <Textarea
+                id="purpose"
+                rows={2}
+                value={formData.purpose}
+                onChange={(e) =>
+                  setFormData((prev) => ({ ...prev, purpose: e.target.value }))
+                }
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>
+                {t('credit-passport:lenderAccess.farms', {
+                  defaultValue: 'Farms',
+                })}
+              </Label>
+              {farms.map((farm) => (
+                <div key={farm.id} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`farm-${farm.id}`}
+                    checked={formData.farmIds.includes(farm.id)}
+                    onCheckedChange={(checked) =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        farmIds: toggle(prev.farmIds, farm.id, !!checked),
+                      }))
+                    }
+                  />
+                  <Label htmlFor={`farm-${farm.id}`}>{farm.name}</Label>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label>
+                {t('credit-passport:lenderAccess.scopes', {
+                  defaultValue: 'Data to Share',
+                })}
+              </Label>
+              {LENDER_SCOPES.map((scope) => (
+                <div key={scope} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`scope-${scope}`}
+                    checked={formData.scopes.includes(scope)}
+                    onCheckedChange={(checked) =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        scopes: toggle(prev.scopes, scope, !!checked),
+                      }))
+                    }
+                  />
+                  <Label htmlFor={`scope-${scope}`}>
+                    {SCOPE_LABELS[scope]}
+                  </Label>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label>
+                {t('credit-passport:lenderAccess.duration', {
+                  defaultValue: 'Access Lasts',
+                })}
+              </Label>
+              <RadioGroup
+                value={formData.durationDays}
+                onValueChange={(value) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    durationDays: value,
+                  }))
+                }
+                className="flex flex-wrap gap-4"
+              >
+                {CONSENT_DURATIONS_DAYS.map((days) => (
+                  <div key={days} className="flex items-center space-x-2">
+                    <RadioGroupItem value={String(days)} id={`days-${days}`} />
+                    <Label htmlFor={`days-${days}`}>
+                      {t('credit-passport:lenderAccess.days', {
+                        defaultValue: '{{count}} days',
+                        count: days,
+                      })}
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="periodMonths">
+                {t('credit-passport:lenderAccess.periodMonths', {
+                  defaultValue: 'Months of History',
+                })}
+              </Label>
+              <Input
+                id="periodMonths"
+                type="number"
+                min="1"
+                max="36"
+                value={formData.periodMonths}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    periodMonths: e.target.value,
+                  }))
+                }
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setCreateOpen(false)}
+              disabled={isSubmitting}
+            >
+              {t('common:cancel', { defaultValue: 'Cancel' })}
+            </Button>
+            <Button
+              onClick={handleCreate}
+              disabled={isSubmitting || !canSubmit}
+            >
+              {t('credit-passport:lenderAccess.grant', {
+                defaultValue: 'Grant Access',
+              })}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={issuedToken !== null}
+        onOpenChange={(open) => !open && setIssuedToken(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {t('credit-passport:lenderAccess.tokenTitle', {
+                defaultValue: 'Access Token',
+              })}
+            </DialogTitle>
+            <DialogDescription>
+              {t('credit-passport:lenderAccess.tokenDesc', {
+                defaultValue:
+                  'Send this token to the lender. It is shown only once.',
+              })}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="flex gap-2">
+              <Input readOnly value={issuedToken ?? ''} className="font-mono" />
+              <Button variant="outline" onClick={copyToken}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {t('credit-passport:lenderAccess.endpointHint', {
+                defaultValue:
+                  'The lender calls GET {{path}} with the header Authorization: Bearer <token>.',
+                path: LENDER_METRICS_PATH,
+              })}
+            </p>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setIssuedToken(null)}>
+              {t('common:done', { defaultValue: 'Done' })}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 import { createFileRoute, useNavigate, useRouter } from '@tanstack/react-router'
 import { useState } from 'react'
-import { Download, Eye, History, Trash2 } from 'lucide-react'
+import { Download, Eye, FileKey, History, Trash2 } from 'lucide-react'
 import { z } from 'zod'
 import { useTranslation } from 'react-i18next'
 import { Button } from '~/components/ui/button'
@@ -52,10 +52,9 @@ export const Route = createFileRoute('/_auth/credit-passport/history')({
 })
 
 const STATUS_COLORS = {
-  pending: 'bg-yellow-100 text-yellow-800',
-  completed: 'bg-green-100 text-green-800',
-  failed: 'bg-red-100 text-red-800',
+  active: 'bg-green-100 text-green-800',
   expired: 'bg-gray-100 text-gray-800',
+  revoked: 'bg-red-100 text-red-800',
 }
 
 const REPORT_TYPE_LABELS = {
@@ -85,7 +84,8 @@ function ReportHistoryPage() {
   const navigate = useNavigate()
   const { format: formatDate } = useFormatDate()
   const loaderData = Route.useLoaderData()
-  const { deleteReport, downloadReport } = useCreditPassportMutations()
+  const { deleteReport, downloadReport, downloadBundle } =
+    useCreditPassportMutations()
 
   const [typeFilter, setTypeFilter] = useState<string>('all')
   const [statusFilter, setStatusFilter] = useState<string>('all')
@@ -182,7 +182,7 @@ function ReportHistoryPage() {
       header: 'Actions',
       cell: ({ row }: any) => (
         <div className="flex items-center gap-2">
-          {row.original.status === 'completed' && (
+          {row.original.status !== 'revoked' && (
             <Button
               variant="ghost"
               size="sm"
@@ -191,6 +191,17 @@ function ReportHistoryPage() {
               <Download className="h-4 w-4" />
             </Button>
           )}
+          <Button
+            variant="ghost"
+            size="sm"
+            title={t('credit-passport:verification.downloadBundle', {
+              defaultValue: 'Download Verification Bundle',
+            })}
+            disabled={downloadBundle.isPending}
+            onClick={() => downloadBundle.mutate({ reportId: row.original.id })}
+          >
+            <FileKey className="h-4 w-4" />
+          </Button>
           <Button
             variant="ghost"
             size="sm"
@@ -279,18 +290,15 @@ function ReportHistoryPage() {
                 defaultValue: 'All Status',
               })}
             </SelectItem>
-            <SelectItem value="pending">
-              {t('common:status.pending', { defaultValue: 'Pending' })}
-            </SelectItem>
-            <SelectItem value="completed">
-              {t('common:status.completed', { defaultValue: 'Completed' })}
-            </SelectItem>
-            <SelectItem value="failed">
-              {t('common:status.failed', { defaultValue: 'Failed' })}
+            <SelectItem value="active">
+              {t('common:status.active', { defaultValue: 'Active' })}
             </SelectItem>
             <SelectItem value="expired">
               {t('common:status.expired', { defaultValue: 'Expired' })}
             </SelectItem>
+            <SelectItem value="revoked">
+              {t('common:status.revoked', { defaultValue: 'Revoked' })}
+            </SelectItem>
           </SelectContent>
         </Select>
       </div>
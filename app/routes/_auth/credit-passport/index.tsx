@@ -1,7 +1,13 @@
-import { createFileRoute } from '@tanstack/react-router'
+import { Link, createFileRoute } from '@tanstack/react-router'
 import { useState } from 'react'
 import { toast } from 'sonner'
-import { ChevronLeft, ChevronRight, Download, FileText } from 'lucide-react'
+import {
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  FileText,
+  KeyRound,
+} from 'lucide-react'
 import { useTranslation } from 'react-i18next'
 import { z } from 'zod'
 import { Button } from '~/components/ui/button'
@@ -13,7 +19,19 @@ import { Checkbox } from '~/components/ui/checkbox'
 import { Input } from '~/components/ui/input'
 import { PageHeader } from '~/components/page-header'
 import { Progress } from '~/components/ui/progress'
-import { generateCSVReportFn } from '~/features/credit-passport/server'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '~/components/ui/select'
+import {
+  generateCSVReportFn,
+  generateReportFn,
+} from '~/features/credit-passport/server'
+import { REPORT_LANGUAGES } from '~/features/credit-passport/pdf-i18n'
+import { downloadPDF } from '~/lib/export/pdf'
 import { getBatchesFn } from '~/features/batches/server'
 import { CreditPassportSkeleton } from '~/components/credit-passport/credit-passport-skeleton'
 import { ErrorPage } from '~/components/error-page'
@@ -74,7 +92,7 @@ interface Batch {
 }
 
 function CreditPassportWizard() {
-  const { t } = useTranslation(['credit-passport', 'common'])
+  const { t, i18n } = useTranslation(['credit-passport', 'common'])
   const { farmId } = Route.useSearch()
   const { batches } = Route.useLoaderData()
 
@@ -87,6 +105,9 @@ function CreditPassportWizard() {
     endDate: '',
     selectedBatches: [] as Array<string>,
     notes: '',
+    language:
+      REPORT_LANGUAGES.find((language) => language === i18n.language) ?? 'en',
+    bilingual: false,
   })
 
   const totalSteps = 5
@@ -100,7 +121,7 @@ function CreditPassportWizard() {
     if (currentStep > 1) setCurrentStep(currentStep - 1)
   }
 
-  const handleSubmit = async () => {
+  const handleSubmit = async (output: 'pdf' | 'csv') => {
     if (!farmId) {
       toast.error(
         t('common:selectFarmFirst', {
@@ -125,46 +146,61 @@ function CreditPassportWizard() {
         startDate.setDate(startDate.getDate() - days)
       }
 
-      const result = await generateCSVReportFn({
-        data: {
-          farmIds: [farmId],
-          reportType: formData.reportType as
-            | 'credit_assessment'
-            | 'production_certificate'
-            | 'impact_report',
-          startDate,
-          endDate,
-          batchIds: formData.selectedBatches,
-          customNotes: formData.notes || undefined,
-        },
-      })
+      const data = {
+        farmIds: [farmId],
+        reportType: formData.reportType as
+          'credit_assessment' | 'production_certificate' | 'impact_report',
+        startDate,
+        endDate,
+        batchIds: formData.selectedBatches,
+        customNotes: formData.notes || undefined,
+      }
 
-      // Download CSV file
-      const blob = new Blob([result.csv], { type: 'text/csv' })
-      const url = window.URL.createObjectURL(blob)
-      const a = document.createElement('a')
-      a.href = url
-      a.download = result.filename
-      document.body.appendChild(a)
-      a.click()
-      document.body.removeChild(a)
-      window.URL.revokeObjectURL(url)
+      if (output === 'pdf') {
+        const pdf = await generateReportFn({
+          data: {
+            ...data,
+            language: formData.language,
+            layout: formData.bilingual ? 'bilingual' : 'single',
+          },
+        })
+        downloadPDF(pdf.content, pdf.filename)
+        toast.success(
+          t('credit-passport:messages.pdfDownloaded', {
+            defaultValue: 'Signed PDF report downloaded successfully',
+          }),
+        )
+      } else {
+        const result = await generateCSVReportFn({ data })
 
-      toast.success(
-        t('credit-passport:messages.csvDownloaded', {
-          defaultValue: 'CSV report downloaded successfully',
-        }),
-      )
+        // Download CSV file
+        const blob = new Blob([result.csv], { type: 'text/csv' })
+        const url = window.URL.createObjectURL(blob)
+        const a = document.createElement('a')
+        a.href = url
+        a.download = result.filename
+        document.body.appendChild(a)
+        a.click()
+        document.body.removeChild(a)
+        window.URL.revokeObjectURL(url)
+
+        toast.success(
+          t('credit-passport:messages.csvDownloaded', {
+            defaultValue: 'CSV report downloaded successfully',
+          }),
+        )
+      }
 
       // Reset form
-      setFormData({
+      setFormData((prev) => ({
+        ...prev,
         reportType: '',
         dateRange: '90',
         startDate: '',
         endDate: '',
         selectedBatches: [],
         notes: '',
-      })
+      }))
       setCurrentStep(1)
     } catch (error) {
       console.error('Report generation error:', error)
@@ -206,9 +242,19 @@ function CreditPassportWizard() {
             'Generate verified reports for financial institutions and partners',
         })}
         icon={FileText}
+        actions={
+          <Button variant="outline" asChild>
+            <Link to="/credit-passport/consents">
+              <KeyRound className="h-4 w-4 mr-2" />
+              {t('credit-passport:lenderAccess.title', {
+                defaultValue: 'Lender Access',
+              })}
+            </Link>
+          </Button>
+        }
       />
 
-      {/* Feature Notice - CSV Export Available */}
+      {/* Feature Notice - Signed PDF and CSV Export */}
       <div className="bg-blue-50 dark:bg-blue-950/20 border border-blue-200 dark:border-blue-800 rounded-lg p-6">
         <div className="flex items-start gap-4">
           <div className="flex-shrink-0">
@@ -216,12 +262,11 @@ function CreditPassportWizard() {
           </div>
           <div className="flex-1">
             <h3 className="text-lg font-semibold text-blue-900 dark:text-blue-100 mb-2">
-              CSV Export Available
+              Signed PDF and CSV Export
             </h3>
             <p className="text-sm text-blue-800 dark:text-blue-200">
-              Generate comprehensive credit reports in CSV format. Perfect for
-              sharing with financial institutions, importing into spreadsheets,
-              or further analysis.
+              Generate a signed PDF that lenders can verify by scanning its QR
+              code, or a CSV for spreadsheets and further analysis.
             </p>
           </div>
         </div>
@@ -431,6 +476,56 @@ function CreditPassportWizard() {
                 }
                 rows={4}
               />
+              <div className="space-y-2">
+                <Label>
+                  {t('credit-passport:pdfOptions.language', {
+                    defaultValue: 'PDF Language',
+                  })}
+                </Label>
+                <Select
+                  value={formData.language}
+                  onValueChange={(value) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      language:
+                        REPORT_LANGUAGES.find((code) => code === value) ??
+                        prev.language,
+                    }))
+                  }
+                >
+                  <SelectTrigger className="w-64">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REPORT_LANGUAGES.map((code) => (
+                      <SelectItem key={code} value={code}>
+                        {new Intl.DisplayNames([code], { type: 'language' }).of(
+                          code,
+                        )}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {formData.language !== 'en' && (
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="bilingual"
+                    checked={formData.bilingual}
+                    onCheckedChange={(checked) =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        bilingual: checked === true,
+                      }))
+                    }
+                  />
+                  <Label htmlFor="bilingual">
+                    {t('credit-passport:pdfOptions.bilingual', {
+                      defaultValue: 'Print English under each label',
+                    })}
+                  </Label>
+                </div>
+              )}
             </div>
           )}
 
@@ -500,13 +595,23 @@ function CreditPassportWizard() {
                 <ChevronRight className="h-4 w-4 ml-2" />
               </Button>
             ) : (
-              <Button
-                onClick={handleSubmit}
-                disabled={!canProceed() || isSubmitting}
-              >
-                {isSubmitting ? 'Generating...' : 'Download CSV Report'}
-                <Download className="h-4 w-4 ml-2" />
-              </Button>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => handleSubmit('csv')}
+                  disabled={!canProceed() || isSubmitting}
+                >
+                  Download CSV
+                  <Download className="h-4 w-4 ml-2" />
+                </Button>
+                <Button
+                  onClick={() => handleSubmit('pdf')}
+                  disabled={!canProceed() || isSubmitting}
+                >
+                  {isSubmitting ? 'Generating...' : 'Generate Signed PDF'}
+                  <FileText className="h-4 w-4 ml-2" />
+                </Button>
+              </div>
             )}
           </div>
         </CardContent>
@@ -1,7 +1,14 @@
 import { createFileRoute } from '@tanstack/react-router'
 import { useState } from 'react'
 import { toast } from 'sonner'
-import { AlertTriangle, Calendar, MapPin, Save, Users } from 'lucide-react'
+import {
+  Activity,
+  AlertTriangle,
+  Calendar,
+  MapPin,
+  Save,
+  Users,
+} from 'lucide-react'
 import { useTranslation } from 'react-i18next'
 import { Badge } from '~/components/ui/badge'
 import { Button } from '~/components/ui/button'
@@ -21,6 +28,7 @@ import {
 } from '~/features/extension/server'
 import { useErrorMessage } from '~/hooks/useErrorMessage'
 import { Skeleton } from '~/components/ui/skeleton'
+import { EpidemicCurveChart } from '~/components/extension/epidemic-curve-chart'
 import { ErrorPage } from '~/components/error-page'
 
 export const Route = createFileRoute('/_auth/extension/alerts/$alertId')({
@@ -162,7 +170,7 @@ function AlertDetailPage() {
           <CardContent>
             {alert.farms.length > 0 ? (
               <div className="space-y-3">
-                {alert.farms.map((farm: any) => (
+                {alert.farms.map((farm) => (
                   <div
                     key={farm.farmId}
                     className="flex justify-between items-center p-3 bg-muted rounded-lg"
@@ -192,6 +200,83 @@ function AlertDetailPage() {
         </Card>
       </div>
 
+      {alert.signals && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span className="flex items-center gap-2">
+                <Activity className="h-5 w-5" />
+                {t('extension:outbreakSignals.title', {
+                  defaultValue: 'Detection Signals',
+                })}
+              </span>
+              {alert.confidence !== null && (
+                <Badge variant={getSeverityColor(alert.severity)}>
+                  {t('extension:outbreakSignals.confidence', {
+                    defaultValue: '{{value}}% confidence',
+                    value: Math.round(Number(alert.confidence) * 100),
+                  })}
+                </Badge>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="grid gap-4 text-sm sm:grid-cols-2 lg:grid-cols-4">
+            <div>
+              <p className="text-muted-foreground">
+                {t('extension:outbreakSignals.rate', {
+                  defaultValue: 'Weighted deaths per 1,000/day',
+                })}
+              </p>
+              <p className="font-medium">
+                {alert.signals.recentRate} (
+                {t('extension:outbreakSignals.baselineValue', {
+                  defaultValue: 'baseline {{value}}',
+                  value: alert.signals.baselineRate,
+                })}
+                )
+              </p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">CUSUM / EWMA</p>
+              <p className="font-medium">
+                {alert.signals.cusum} / {alert.signals.ewma} (
+                {t('extension:outbreakSignals.limit', {
+                  defaultValue: 'limit {{value}}',
+                  value: alert.signals.ewmaLimit,
+                })}
+                )
+              </p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">
+                {t('extension:outbreakSignals.diseaseShare', {
+                  defaultValue: 'Deaths recorded as disease',
+                })}
+              </p>
+              <p className="font-medium">
+                {Math.round(alert.signals.diseaseShare * 100)}%
+              </p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">
+                {t('extension:outbreakSignals.neighbours', {
+                  defaultValue: 'Neighbouring districts signalling',
+                })}
+              </p>
+              <p className="font-medium">
+                {alert.signals.neighbourDistrictIds.length}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <EpidemicCurveChart
+        points={alert.epidemicCurve}
+        detectedAt={alert.detectedAt}
+        hasNeighbours={(alert.signals?.neighbourDistrictIds.length ?? 0) > 0}
+      />
+
       <Card>
         <CardHeader>
           <CardTitle>
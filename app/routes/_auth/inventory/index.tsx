@@ -14,6 +14,7 @@ import { useMedicationInventory } from '~/features/inventory/use-medication-inve
 import { useSuppliesInventory } from '~/features/inventory/use-supplies-inventory'
 import { PageHeader } from '~/components/page-header'
 import { FeedInventoryTable } from '~/components/inventory/feed-inventory-table'
+import { FeedForecast } from '~/components/inventory/feed-forecast'
 import { MedicationInventoryTable } from '~/components/inventory/medication-inventory-table'
 import { SuppliesInventoryTable } from '~/components/inventory/supplies-inventory-table'
 import { InventoryAlerts } from '~/components/inventory/inventory-alerts'
@@ -209,15 +210,18 @@ function InventoryPage() {
       />
 
       {activeTab === 'feed' && (
-        <FeedInventoryTable
-          items={feedData}
-          isLoading={false}
-          isSubmitting={feedSubmitting}
-          formatWeight={formatWeight}
-          onCreateFeed={createFeed}
-          onUpdateFeed={updateFeed}
-          onDeleteFeed={deleteFeed}
-        />
+        <>
+          <FeedInventoryTable
+            items={feedData}
+            isLoading={false}
+            isSubmitting={feedSubmitting}
+            formatWeight={formatWeight}
+            onCreateFeed={createFeed}
+            onUpdateFeed={updateFeed}
+            onDeleteFeed={deleteFeed}
+          />
+          <FeedForecast />
+        </>
       )}
 
       {activeTab === 'medication' && (
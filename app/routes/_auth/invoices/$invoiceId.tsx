@@ -1,10 +1,25 @@
-import { Link, createFileRoute, useNavigate } from '@tanstack/react-router'
+import {
+  Link,
+  createFileRoute,
+  useNavigate,
+  useRouter,
+} from '@tanstack/react-router'
 import { useTranslation } from 'react-i18next'
 import { useState } from 'react'
-import { ArrowLeft, Edit, Printer, Trash2 } from 'lucide-react'
-import { getInvoiceByIdFn } from '~/features/invoices/server'
+import {
+  ArrowLeft,
+  Edit,
+  FileDown,
+  Paperclip,
+  Plus,
+  Printer,
+  Trash2,
+} from 'lucide-react'
+import { toast } from 'sonner'
+import { getInvoiceByIdFn, getInvoicePdfFn } from '~/features/invoices/server'
 import { useInvoiceMutations } from '~/features/invoices/mutations'
 import { useFormatCurrency, useFormatDate } from '~/features/settings'
+import { downloadPDF } from '~/lib/export/pdf'
 import {
   Dialog,
   DialogContent,
@@ -16,6 +31,7 @@ import {
 import { Button } from '~/components/ui/button'
 import { Skeleton } from '~/components/ui/skeleton'
 import { ErrorPage } from '~/components/error-page'
+import { PaymentDialog } from '~/components/invoices/payment-dialog'
 
 export const Route = createFileRoute('/_auth/invoices/$invoiceId')({
   component: InvoiceDetailPage,
@@ -32,13 +48,16 @@ function InvoiceDetailPage() {
   const { t } = useTranslation()
   const invoice = Route.useLoaderData()
   const navigate = useNavigate()
+  const router = useRouter()
   const params = Route.useParams()
   const { format: formatCurrency } = useFormatCurrency()
   const { format: formatDate } = useFormatDate()
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
+  const [isDownloadingPdf, setIsDownloadingPdf] = useState(false)
+  const [paymentDialogOpen, setPaymentDialogOpen] = useState(false)
 
   // Use mutation hooks for offline support
-  const { deleteInvoice, updateInvoiceStatus } = useInvoiceMutations()
+  const { deleteInvoice, deletePayment } = useInvoiceMutations()
 
   if (!invoice) {
     return (
@@ -50,8 +69,11 @@ function InvoiceDetailPage() {
     )
   }
 
-  const handleStatusChange = (status: 'unpaid' | 'partial' | 'paid') => {
-    updateInvoiceStatus.mutate({ invoiceId: params.invoiceId, status })
+  const handleDeletePayment = (paymentId: string) => {
+    deletePayment.mutate(
+      { paymentId },
+      { onSuccess: () => router.invalidate() },
+    )
   }
 
   const handleDeleteConfirm = () => {
@@ -69,6 +91,20 @@ function InvoiceDetailPage() {
     window.print()
   }
 
+  const handleDownloadPdf = async () => {
+    setIsDownloadingPdf(true)
+    try {
+      const pdf = await getInvoicePdfFn({
+        data: { invoiceId: params.invoiceId },
+      })
+      downloadPDF(pdf.content, pdf.filename)
+    } catch {
+      toast.error(t('invoices.messages.pdfError'))
+    } finally {
+      setIsDownloadingPdf(false)
+    }
+  }
+
   return (
     <div className="min-h-screen bg-background">
       <main className="space-y-6">
@@ -92,6 +128,14 @@ function InvoiceDetailPage() {
               <Printer className="h-4 w-4 mr-2" />
               {t('invoices.actions.print')}
             </button>
+            <button
+              onClick={handleDownloadPdf}
+              disabled={isDownloadingPdf}
+              className="inline-flex items-center justify-center whitespace-nowrap rounded-md text-sm font-medium border border-input bg-background hover:bg-muted h-9 px-3 min-h-[44px] disabled:opacity-50"
+            >
+              <FileDown className="h-4 w-4 mr-2" />
+              {t('invoices.actions.downloadPdf')}
+            </button>
             <button
               onClick={() => setDeleteDialogOpen(true)}
               className="inline-flex items-center justify-center whitespace-nowrap rounded-md text-sm font-medium border border-destructive text-destructive hover:bg-destructive hover:text-destructive-foreground h-9 px-3 min-h-[44px]"
@@ -234,49 +278,117 @@ function InvoiceDetailPage() {
             </div>
           )}
 
-          {/* Status Actions */}
-          <div className="print:hidden border-t pt-6">
-            <h3 className="text-sm font-medium mb-3">
-              {t('invoices.detail.updateStatus')}
-            </h3>
-            <div className="flex gap-2">
-              <button
-                onClick={() => handleStatusChange('unpaid')}
-                disabled={invoice.status === 'unpaid'}
-                className={`px-4 py-2 rounded-md text-sm font-medium ${
-                  invoice.status === 'unpaid'
-                    ? 'bg-destructive/10 text-destructive'
-                    : 'border border-input hover:bg-muted'
-                }`}
-              >
-                {t('invoices.status.unpaid')}
-              </button>
-              <button
-                onClick={() => handleStatusChange('partial')}
-                disabled={invoice.status === 'partial'}
-                className={`px-4 py-2 rounded-md text-sm font-medium ${
-                  invoice.status === 'partial'
-                    ? 'bg-warning/10 text-warning'
-                    : 'border border-input hover:bg-muted'
-                }`}
-              >
-                {t('invoices.status.partial')}
-              </button>
-              <button
-                onClick={() => handleStatusChange('paid')}
-                disabled={invoice.status === 'paid'}
-                className={`px-4 py-2 rounded-md text-sm font-medium ${
-                  invoice.status === 'paid'
-                    ? 'bg-success/10 text-success'
-                    : 'border border-input hover:bg-muted'
-                }`}
-              >
-                {t('invoices.status.paid')}
-              </button>
+          {/* Payments */}
+          <div className="border-t pt-6">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-medium">
+                {t('invoices.payments.title')}
+              </h3>
+              {invoice.balanceDue > 0 && (
+                <Button
+                  size="sm"
+                  onClick={() => setPaymentDialogOpen(true)}
+                  className="print:hidden"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  {t('invoices.payments.record')}
+                </Button>
+              )}
+            </div>
+
+            {invoice.payments.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                {t('invoices.payments.empty')}
+              </p>
+            ) : (
+              <table className="w-full text-sm mb-4">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left py-2 font-medium">
+                      {t('invoices.payments.date')}
+                    </th>
+                    <th className="text-left py-2 font-medium">
+                      {t('invoices.payments.method')}
+                    </th>
+                    <th className="text-left py-2 font-medium">
+                      {t('invoices.payments.reference')}
+                    </th>
+                    <th className="text-right py-2 font-medium">
+                      {t('invoices.payments.amount')}
+                    </th>
+                    <th className="print:hidden" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {invoice.payments.map((payment) => (
+                    <tr key={payment.id} className="border-b">
+                      <td className="py-2">{formatDate(payment.date)}</td>
+                      <td className="py-2">
+                        {t('invoices.payments.methods.' + payment.method)}
+                      </td>
+                      <td className="py-2">
+                        {payment.reference || '-'}
+                        {payment.attachmentUrl && (
+                          <a
+                            href={payment.attachmentUrl}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="inline-flex items-center ml-2 text-primary hover:underline print:hidden"
+                          >
+                            <Paperclip className="h-3 w-3 mr-1" />
+                            {t('invoices.payments.viewAttachment')}
+                          </a>
+                        )}
+                      </td>
+                      <td className="py-2 text-right">
+                        {formatCurrency(payment.amount)}
+                      </td>
+                      <td className="py-2 text-right print:hidden">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleDeletePayment(payment.id)}
+                          disabled={deletePayment.isPending}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            <div className="flex flex-col items-end gap-1 text-sm">
+              <div>
+                <span className="text-muted-foreground">
+                  {t('invoices.payments.amountPaid')}:{' '}
+                </span>
+                <span className="font-medium">
+                  {formatCurrency(invoice.amountPaid)}
+                </span>
+              </div>
+              <div>
+                <span className="text-muted-foreground">
+                  {t('invoices.payments.balanceDue')}:{' '}
+                </span>
+                <span className="text-lg font-bold">
+                  {formatCurrency(invoice.balanceDue)}
+                </span>
+              </div>
             </div>
           </div>
         </div>
 
+        <PaymentDialog
+          invoiceId={params.invoiceId}
+          invoiceNumber={invoice.invoiceNumber}
+          balanceDue={invoice.balanceDue}
+          open={paymentDialogOpen}
+          onOpenChange={setPaymentDialogOpen}
+          onRecorded={() => router.invalidate()}
+        />
+
         {/* Delete Confirmation Dialog */}
         <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
           <DialogContent className="sm:max-w-md">
@@ -15,6 +15,7 @@ import { getInvoiceColumns } from '~/components/invoices/invoice-columns'
 import { useFarm } from '~/features/farms/context'
 import { PageHeader } from '~/components/page-header'
 import { InvoicesSkeleton } from '~/components/invoices/invoices-skeleton'
+import { AgedReceivablesCard } from '~/components/invoices/aged-receivables-card'
 import { ErrorPage } from '~/components/error-page'
 
 export const Route = createFileRoute('/_auth/invoices/')({
@@ -118,6 +119,8 @@ function InvoicesPage() {
         emptyDescription={t('placeholders.emptyDesc')}
       />
 
+      <AgedReceivablesCard farmId={selectedFarmId} />
+
       {selectedFarmId && (
         <InvoiceDialog
           farmId={selectedFarmId}
@@ -0,0 +1,207 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { Milk, Plus } from 'lucide-react'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import type { MilkRecordWithDetails } from '~/features/milk/repository'
+import type {
+  CreateMilkRecordInput,
+  UpdateMilkRecordInput,
+} from '~/features/milk/types'
+import { validateMilkSearch } from '~/features/milk/validation'
+import { getMilkDataForFarmFn } from '~/features/milk/server'
+import { useMilkPage } from '~/features/milk/use-milk-page'
+import { useFormatDate } from '~/features/settings'
+import { Button } from '~/components/ui/button'
+import { Input } from '~/components/ui/input'
+import { DataTable } from '~/components/ui/data-table'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '~/components/ui/card'
+import { useFarm } from '~/features/farms/context'
+import { PageHeader } from '~/components/page-header'
+import {
+  MilkDeleteDialog,
+  MilkFormDialog,
+  MilkSummaryCards,
+  useMilkColumns,
+} from '~/components/milk'
+import { MilkSkeleton } from '~/components/milk/milk-skeleton'
+import { ErrorPage } from '~/components/error-page'
+
+export const Route = createFileRoute('/_auth/milk/')({
+  validateSearch: validateMilkSearch,
+  loaderDeps: ({ search }) => ({
+    page: search.page,
+    pageSize: search.pageSize,
+    sortBy: search.sortBy,
+    sortOrder: search.sortOrder,
+    search: search.search,
+  }),
+  loader: async ({ deps }) => {
+    return getMilkDataForFarmFn({ data: deps })
+  },
+  pendingComponent: MilkSkeleton,
+  errorComponent: ({ error, reset }) => (
+    <ErrorPage
+      error={error instanceof Error ? error : undefined}
+      reset={reset}
+    />
+  ),
+  component: MilkPage,
+})
+
+function MilkPage() {
+  const { t } = useTranslation(['milk', 'common', 'batches'])
+  const { format: formatDate } = useFormatDate()
+  const { selectedFarmId } = useFarm()
+  const searchParams = Route.useSearch()
+
+  const { paginatedRecords, batches, summary } = Route.useLoaderData()
+
+  const {
+    selectedRecord,
+    setSelectedRecord,
+    isSubmitting,
+    updateSearch,
+    handleAddSubmit,
+    handleEditSubmit,
+    handleDeleteConfirm,
+  } = useMilkPage({
+    selectedFarmId,
+    routePath: Route.fullPath,
+  })
+
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editDialogOpen, setEditDialogOpen] = useState(false)
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
+
+  const handleEdit = (record: MilkRecordWithDetails) => {
+    setSelectedRecord(record)
+    setEditDialogOpen(true)
+  }
+
+  const handleDelete = (record: MilkRecordWithDetails) => {
+    setSelectedRecord(record)
+    setDeleteDialogOpen(true)
+  }
+
+  const columns = useMilkColumns({
+    t,
+    formatDate,
+    onEdit: handleEdit,
+    onDelete: handleDelete,
+  })
+
+  const handleAddSuccess = async (data: UpdateMilkRecordInput) => {
+    const success = await handleAddSubmit(data as CreateMilkRecordInput)
+    if (success) setDialogOpen(false)
+  }
+
+  const handleEditSuccess = async (data: UpdateMilkRecordInput) => {
+    const success = await handleEditSubmit(data)
+    if (success) setEditDialogOpen(false)
+  }
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title={t('title', { defaultValue: 'Milk Production' })}
+        description={t('subtitle', {
+          defaultValue: 'Record daily milking, rejected milk and quality',
+        })}
+        icon={Milk}
+        actions={
+          <Button onClick={() => setDialogOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            {t('record', { defaultValue: 'Record Milking' })}
+          </Button>
+        }
+      />
+
+      <MilkSummaryCards summary={summary} />
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>
+                {t('history', { defaultValue: 'Milking History' })}
+              </CardTitle>
+              <CardDescription>
+                {t('history_desc', {
+                  defaultValue: 'View and manage existing milk records',
+                })}
+              </CardDescription>
+            </div>
+            <Input
+              value={searchParams.search}
+              onChange={(e) =>
+                updateSearch({
+                  search: e.target.value,
+                  page: 1,
+                })
+              }
+              placeholder={t('common:search', {
+                defaultValue: 'Search...',
+              })}
+              className="max-w-xs"
+            />
+          </div>
+        </CardHeader>
+        <CardContent>
+          <DataTable
+            columns={columns}
+            data={paginatedRecords.data}
+            total={paginatedRecords.total}
+            page={paginatedRecords.page}
+            pageSize={paginatedRecords.pageSize}
+            totalPages={paginatedRecords.totalPages}
+            sortBy={searchParams.sortBy}
+            sortOrder={searchParams.sortOrder}
+            onPaginationChange={(page, pageSize) =>
+              updateSearch({ page, pageSize })
+            }
+            onSortChange={(sortBy, sortOrder) =>
+              updateSearch({ sortBy, sortOrder, page: 1 })
+            }
+            emptyIcon={<Milk className="h-12 w-12 text-muted-foreground" />}
+            emptyTitle={t('empty.title', {
+              defaultValue: 'No records found',
+            })}
+            emptyDescription={t('empty.description', {
+              defaultValue: 'Get started by recording your first milking.',
+            })}
+          />
+        </CardContent>
+      </Card>
+
+      <MilkFormDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onSubmit={handleAddSuccess}
+        batches={batches}
+        isSubmitting={isSubmitting}
+      />
+
+      <MilkFormDialog
+        open={editDialogOpen}
+        onOpenChange={setEditDialogOpen}
+        onSubmit={handleEditSuccess}
+        batches={batches}
+        isSubmitting={isSubmitting}
+        initialData={selectedRecord ?? undefined}
+      />
+
+      <MilkDeleteDialog
+        open={deleteDialogOpen}
+        onOpenChange={setDeleteDialogOpen}
+        onConfirm={async () => (await handleDeleteConfirm()) ?? false}
+        isSubmitting={isSubmitting}
+      />
+    </div>
+  )
+}
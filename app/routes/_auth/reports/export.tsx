@@ -9,7 +9,11 @@ import { ErrorPage } from '~/components/error-page'
 const exportReport = createServerFn({ method: 'GET' })
   .inputValidator((data: ExportOptions) => data)
   .handler(async ({ data }) => {
-    return generateExportData(data)
+    const { requireAuth } = await import('~/features/auth/server-middleware')
+    const { getSettingsForUser } = await import('~/features/settings/server')
+    const session = await requireAuth()
+    const settings = await getSettingsForUser(session.user.id)
+    return generateExportData(data, settings)
   })
 
 export const Route = createFileRoute('/_auth/reports/export')({
@@ -56,7 +60,11 @@ function ExportPage() {
 
   // Trigger download
   if (typeof window !== 'undefined') {
-    const blob = new Blob([data.content], { type: data.mimeType })
+    const body =
+      data.encoding === 'base64'
+        ? Uint8Array.from(atob(data.content), (c) => c.charCodeAt(0))
+        : data.content
+    const blob = new Blob([body], { type: data.mimeType })
     const url = URL.createObjectURL(blob)
     const a = document.createElement('a')
     a.href = url
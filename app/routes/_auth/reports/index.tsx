@@ -1,19 +1,25 @@
 import { createFileRoute } from '@tanstack/react-router'
 import {
+  Baby,
   BarChart3,
   Egg,
   FileDown,
   FileSpreadsheet,
   FileText,
+  Hexagon,
+  Milk,
   Package,
   ShoppingCart,
   TrendingUp,
   Wheat,
 } from 'lucide-react'
 import type {
+  ApiaryReport,
+  BreedingReport,
   EggReport,
   FeedReport,
   InventoryReport,
+  MilkReport,
   ProfitLossReport,
   SalesReport,
 } from '~/features/reports/server'
@@ -24,9 +30,12 @@ import { PageHeader } from '~/components/page-header'
 import { Button } from '~/components/ui/button'
 import { ErrorPage } from '~/components/error-page'
 import {
+  ApiaryReportView,
+  BreedingReportView,
   EggReportView,
   FeedReportView,
   InventoryReportView,
+  MilkReportView,
   ProfitLossReportView,
   ReportFilters,
   SalesReportView,
@@ -83,6 +92,9 @@ const reportTypes = [
   { id: 'sales', name: 'Sales', icon: ShoppingCart },
   { id: 'feed', name: 'Feed', icon: Wheat },
   { id: 'eggs', name: 'Egg Production', icon: Egg },
+  { id: 'milk', name: 'Milk Production', icon: Milk },
+  { id: 'apiary', name: 'Apiary', icon: Hexagon },
+  { id: 'breeding', name: 'Breeding', icon: Baby },
 ]
 
 function ReportsPage() {
@@ -213,6 +225,15 @@ function ReportsPage() {
               {reportType === 'eggs' && (
                 <EggReportView report={report as EggReport} />
               )}
+              {reportType === 'milk' && (
+                <MilkReportView report={report as MilkReport} />
+              )}
+              {reportType === 'apiary' && (
+                <ApiaryReportView report={report as ApiaryReport} />
+              )}
+              {reportType === 'breeding' && (
+                <BreedingReportView report={report as BreedingReport} />
+              )}
             </div>
           </div>
         )}
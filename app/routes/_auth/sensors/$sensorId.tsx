@@ -1,7 +1,8 @@
-import { createFileRoute, useNavigate } from '@tanstack/react-router'
+import { createFileRoute, useNavigate, useRouter } from '@tanstack/react-router'
 import { useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import { ArrowLeft, Pencil, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
 import type { SensorType } from '~/lib/db/types'
 import { Button } from '~/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '~/components/ui/card'
@@ -9,6 +10,8 @@ import { Skeleton } from '~/components/ui/skeleton'
 import { SensorCard } from '~/components/sensors/sensor-card'
 import { SensorFormDialog } from '~/components/sensors/sensor-form-dialog'
 import { AlertHistory } from '~/components/sensors/alert-history'
+import { AlertDeliverySettings } from '~/components/sensors/alert-delivery-settings'
+import { SensorGatewaySettings } from '~/components/sensors/sensor-gateway-settings'
 import { SensorChart } from '~/components/sensors/sensor-chart'
 import {
   AlertDialog,
@@ -21,7 +24,12 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from '~/components/ui/alert-dialog'
-import { getSensorChartDataFn, getSensorFn } from '~/features/sensors/server'
+import {
+  getSensorAlertsFn,
+  getSensorChartDataFn,
+  getSensorFn,
+} from '~/features/sensors/server'
+import { getGatewaysFn } from '~/features/sensors/gateway-server'
 import { useSensorMutations } from '~/features/sensors/mutations'
 import { ErrorPage } from '~/components/error-page'
 
@@ -39,7 +47,11 @@ export const Route = createFileRoute('/_auth/sensors/$sensorId')({
         endDate: now,
       },
     })
-    return { sensor, readings, alerts: [] as Array<any> }
+    const { alerts, delivery } = await getSensorAlertsFn({
+      data: { sensorId: params.sensorId },
+    })
+    const gateways = await getGatewaysFn({ data: { farmId: sensor.farmId } })
+    return { sensor, readings, alerts, delivery, gateways }
   },
   pendingComponent: () => (
     <div className="container py-6 space-y-6">
@@ -60,10 +72,11 @@ export const Route = createFileRoute('/_auth/sensors/$sensorId')({
 function SensorDetailPage() {
   const { t } = useTranslation(['sensors', 'common'])
   const data = Route.useLoaderData()
-  const { sensor, readings, alerts } = data
+  const { sensor, readings, alerts, delivery, gateways } = data
   const params = Route.useParams()
   const { sensorId } = params
   const navigate = useNavigate()
+  const router = useRouter()
   const [editOpen, setEditOpen] = useState(false)
 
   // Use mutation hooks for offline support
@@ -98,6 +111,8 @@ function SensorDetailPage() {
   const handleAcknowledge = async (alertId: string) => {
     const { acknowledgeAlertFn } = await import('~/features/sensors/server')
     await acknowledgeAlertFn({ data: { alertId } })
+    toast.success(t('sensors:messages.acknowledged'))
+    await router.invalidate()
   }
 
   const latestReading = readings[0]
@@ -171,6 +186,31 @@ function SensorDetailPage() {
         </CardContent>
       </Card>
 
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('sensors:alertDelivery.title')}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <AlertDeliverySettings sensorId={sensorId} defaultValues={delivery} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('sensors:gateways.gateway')}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <SensorGatewaySettings
+            sensorId={sensorId}
+            gateways={gateways}
+            defaultValues={{
+              gatewayId: sensor.gatewayId,
+              channel: sensor.channel,
+            }}
+          />
+        </CardContent>
+      </Card>
+
       <SensorFormDialog
         open={editOpen}
         onOpenChange={setEditOpen}
@@ -4,15 +4,20 @@ import { Plus, Server } from 'lucide-react'
 import { toast } from 'sonner'
 import { useTranslation } from 'react-i18next'
 import { z } from 'zod'
-import type { SensorType } from '~/lib/db/types'
+import type { SensorDerivation, SensorType } from '~/lib/db/types'
 import { PageHeader } from '~/components/page-header'
+import { ActuatorPanel } from '~/components/sensors/actuator-panel'
+import { GatewayPanel } from '~/components/sensors/gateway-panel'
+import { RetentionSettings } from '~/components/sensors/retention-settings'
 import { SensorFormDialog } from '~/components/sensors/sensor-form-dialog'
 import { SensorList } from '~/components/sensors/sensor-list'
 import { SensorsSkeleton } from '~/components/sensors/sensors-skeleton'
 import { Button } from '~/components/ui/button'
 import { useFarm } from '~/features/farms/context'
 import { useSensorMutations } from '~/features/sensors/mutations'
-import { getSensorsFn } from '~/features/sensors/server'
+import { getActuatorsFn } from '~/features/sensors/actuator-server'
+import { getGatewaysFn } from '~/features/sensors/gateway-server'
+import { getRetentionPolicyFn, getSensorsFn } from '~/features/sensors/server'
 import { ErrorPage } from '~/components/error-page'
 
 const sensorsSearchSchema = z.object({
@@ -25,19 +30,32 @@ export const Route = createFileRoute('/_auth/sensors/')({
     farmId: search.farmId,
   }),
   loader: async ({ deps }) => {
-    if (!deps.farmId) return { sensors: [], structures: [] }
+    if (!deps.farmId) {
+      return {
+        sensors: [],
+        structures: [],
+        gateways: [],
+        actuators: [],
+        retention: null,
+      }
+    }
 
     const farmId = deps.farmId // Type narrowing
 
-    const [sensors, structures] = await Promise.all([
-      getSensorsFn({ data: { farmId } }),
-      (async () => {
-        const { getStructuresFn } = await import('~/features/structures/server')
-        return getStructuresFn({ data: { farmId } })
-      })(),
-    ])
+    const [sensors, structures, gateways, actuators, retention] =
+      await Promise.all([
+        getSensorsFn({ data: { farmId } }),
+        (async () => {
+          const { getStructuresFn } =
+            await import('~/features/structures/server')
+          return getStructuresFn({ data: { farmId } })
+        })(),
+        getGatewaysFn({ data: { farmId } }),
+        getActuatorsFn({ data: { farmId } }),
+        getRetentionPolicyFn({ data: { farmId } }),
+      ])
 
-    return { sensors, structures }
+    return { sensors, structures, gateways, actuators, retention }
   },
   pendingComponent: SensorsSkeleton,
   errorComponent: ({ error, reset }) => (
@@ -51,7 +69,8 @@ function SensorsPage() {
   const { selectedFarmId } = useFarm()
   const navigate = useNavigate()
   const [dialogOpen, setDialogOpen] = useState(false)
-  const { sensors, structures } = Route.useLoaderData()
+  const { sensors, structures, gateways, actuators, retention } =
+    Route.useLoaderData()
 
   const { createSensor, deleteSensor } = useSensorMutations()
 
@@ -60,7 +79,8 @@ function SensorsPage() {
     sensorType: SensorType
     structureId?: string
     pollingIntervalMinutes: number
-  }): Promise<{ sensorId: string; apiKey?: string }> => {
+    derivedFrom?: SensorDerivation
+  }): Promise<{ sensorId: string; apiKey?: string | null }> => {
     if (!selectedFarmId) {
       toast.error(
         t('common:selectFarmFirst', {
@@ -125,10 +145,38 @@ function SensorsPage() {
         />
       </div>
 
+      {selectedFarmId && (
+        <div className="bg-white/30 dark:bg-black/80 backdrop-blur-2xl border-white/20 dark:border-white/10 rounded-3xl shadow-2xl border p-4 sm:p-6">
+          <GatewayPanel farmId={selectedFarmId} gateways={gateways} />
+        </div>
+      )}
+
+      {selectedFarmId && (
+        <div className="bg-white/30 dark:bg-black/80 backdrop-blur-2xl border-white/20 dark:border-white/10 rounded-3xl shadow-2xl border p-4 sm:p-6">
+          <ActuatorPanel
+            farmId={selectedFarmId}
+            actuators={actuators}
+            structures={structures}
+            sensors={sensors}
+          />
+        </div>
+      )}
+
+      {selectedFarmId && retention && (
+        <div className="bg-white/30 dark:bg-black/80 backdrop-blur-2xl border-white/20 dark:border-white/10 rounded-3xl shadow-2xl border p-4 sm:p-6">
+          <RetentionSettings
+            key={selectedFarmId}
+            farmId={selectedFarmId}
+            policy={retention}
+          />
+        </div>
+      )}
+
       <SensorFormDialog
         open={dialogOpen}
         onOpenChange={setDialogOpen}
         structures={structures}
+        sensors={sensors}
         onSubmit={handleCreate}
         mode="create"
       />
@@ -0,0 +1,210 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { Plus, Scissors } from 'lucide-react'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import type { ShearingRecordWithDetails } from '~/features/shearing/repository'
+import type {
+  CreateShearingRecordInput,
+  UpdateShearingRecordInput,
+} from '~/features/shearing/types'
+import { validateShearingSearch } from '~/features/shearing/validation'
+import { getShearingDataForFarmFn } from '~/features/shearing/server'
+import { useShearingPage } from '~/features/shearing/use-shearing-page'
+import { useFormatDate } from '~/features/settings'
+import { Button } from '~/components/ui/button'
+import { Input } from '~/components/ui/input'
+import { DataTable } from '~/components/ui/data-table'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '~/components/ui/card'
+import { useFarm } from '~/features/farms/context'
+import { PageHeader } from '~/components/page-header'
+import {
+  ShearingDeleteDialog,
+  ShearingFormDialog,
+  ShearingSummaryCards,
+  useShearingColumns,
+} from '~/components/shearing'
+import { ShearingSkeleton } from '~/components/shearing/shearing-skeleton'
+import { ErrorPage } from '~/components/error-page'
+
+export const Route = createFileRoute('/_auth/shearing/')({
+  validateSearch: validateShearingSearch,
+  loaderDeps: ({ search }) => ({
+    page: search.page,
+    pageSize: search.pageSize,
+    sortBy: search.sortBy,
+    sortOrder: search.sortOrder,
+    search: search.search,
+  }),
+  loader: async ({ deps }) => {
+    return getShearingDataForFarmFn({ data: deps })
+  },
+  pendingComponent: ShearingSkeleton,
+  errorComponent: ({ error, reset }) => (
+    <ErrorPage
+      error={error instanceof Error ? error : undefined}
+      reset={reset}
+    />
+  ),
+  component: ShearingPage,
+})
+
+function ShearingPage() {
+  const { t } = useTranslation(['shearing', 'common', 'batches'])
+  const { format: formatDate } = useFormatDate()
+  const { selectedFarmId } = useFarm()
+  const searchParams = Route.useSearch()
+
+  const { paginatedRecords, batches, sheds, summary } = Route.useLoaderData()
+
+  const {
+    selectedRecord,
+    setSelectedRecord,
+    isSubmitting,
+    updateSearch,
+    handleAddSubmit,
+    handleEditSubmit,
+    handleDeleteConfirm,
+  } = useShearingPage({
+    selectedFarmId,
+    routePath: Route.fullPath,
+  })
+
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editDialogOpen, setEditDialogOpen] = useState(false)
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
+
+  const handleEdit = (record: ShearingRecordWithDetails) => {
+    setSelectedRecord(record)
+    setEditDialogOpen(true)
+  }
+
+  const handleDelete = (record: ShearingRecordWithDetails) => {
+    setSelectedRecord(record)
+    setDeleteDialogOpen(true)
+  }
+
+  const columns = useShearingColumns({
+    t,
+    formatDate,
+    onEdit: handleEdit,
+    onDelete: handleDelete,
+  })
+
+  const handleAddSuccess = async (data: UpdateShearingRecordInput) => {
+    const success = await handleAddSubmit(data as CreateShearingRecordInput)
+    if (success) setDialogOpen(false)
+  }
+
+  const handleEditSuccess = async (data: UpdateShearingRecordInput) => {
+    const success = await handleEditSubmit(data)
+    if (success) setEditDialogOpen(false)
+  }
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title={t('title', { defaultValue: 'Shearing' })}
+        description={t('subtitle', {
+          defaultValue:
+            'Record wool clips: fleeces, greasy weight, micron and yield',
+        })}
+        icon={Scissors}
+        actions={
+          <Button onClick={() => setDialogOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            {t('record', { defaultValue: 'Record Shearing' })}
+          </Button>
+        }
+      />
+
+      <ShearingSummaryCards summary={summary} />
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>
+                {t('history', { defaultValue: 'Shearing History' })}
+              </CardTitle>
+              <CardDescription>
+                {t('history_desc', {
+                  defaultValue: 'View and manage existing shearing records',
+                })}
+              </CardDescription>
+            </div>
+            <Input
+              value={searchParams.search}
+              onChange={(e) =>
+                updateSearch({
+                  search: e.target.value,
+                  page: 1,
+                })
+              }
+              placeholder={t('common:search', {
+                defaultValue: 'Search...',
+              })}
+              className="max-w-xs"
+            />
+          </div>
+        </CardHeader>
+        <CardContent>
+          <DataTable
+            columns={columns}
+            data={paginatedRecords.data}
+            total={paginatedRecords.total}
+            page={paginatedRecords.page}
+            pageSize={paginatedRecords.pageSize}
+            totalPages={paginatedRecords.totalPages}
+            sortBy={searchParams.sortBy}
+            sortOrder={searchParams.sortOrder}
+            onPaginationChange={(page, pageSize) =>
+              updateSearch({ page, pageSize })
+            }
+            onSortChange={(sortBy, sortOrder) =>
+              updateSearch({ sortBy, sortOrder, page: 1 })
+            }
+            emptyIcon={<Scissors className="h-12 w-12 text-muted-foreground" />}
+            emptyTitle={t('empty.title', {
+              defaultValue: 'No records found',
+            })}
+            emptyDescription={t('empty.description', {
+              defaultValue: 'Get started by recording your first shearing.',
+            })}
+          />
+        </CardContent>
+      </Card>
+
+      <ShearingFormDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onSubmit={handleAddSuccess}
+        batches={batches}
+        sheds={sheds}
+        isSubmitting={isSubmitting}
+      />
+
+      <ShearingFormDialog
+        open={editDialogOpen}
+        onOpenChange={setEditDialogOpen}
+        onSubmit={handleEditSuccess}
+        batches={batches}
+        sheds={sheds}
+        isSubmitting={isSubmitting}
+        initialData={selectedRecord ?? undefined}
+      />
+
+      <ShearingDeleteDialog
+        open={deleteDialogOpen}
+        onOpenChange={setDeleteDialogOpen}
+        onConfirm={async () => (await handleDeleteConfirm()) ?? false}
+        isSubmitting={isSubmitting}
+      />
+    </div>
+  )
+}
@@ -4,6 +4,7 @@ import {
   AlertTriangle,
   Calendar,
   CheckCircle,
+  KeyRound,
   Shield,
   TrendingUp,
   XCircle,
@@ -211,6 +212,46 @@ function VerificationPage() {
           </>
         )}
 
+        {/* Signing Key */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <KeyRound className="h-5 w-5" />
+              {t('creditPassport:verification.signingKey', {
+                defaultValue: 'Signing Key',
+              })}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-center gap-3">
+              <code className="bg-muted px-2 py-1 rounded text-sm">
+                {report.keyId}
+              </code>
+              <span className="text-sm font-medium">
+                {t('creditPassport:verification.keyStatus', {
+                  defaultValue: 'Key Status:',
+                })}
+              </span>
+              <Badge variant="outline">
+                {t(
+                  `creditPassport:signingKeys.status.${report.keyStatus ?? 'unknown'}`,
+                  { defaultValue: report.keyStatus ?? 'Unknown' },
+                )}
+              </Badge>
+            </div>
+            {report.keyFailure && (
+              <p className="text-sm text-red-600">
+                {t(
+                  `creditPassport:verification.keyFailures.${report.keyFailure}`,
+                  {
+                    defaultValue: report.keyFailure,
+                  },
+                )}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Report Details */}
         <Card>
           <CardHeader>
@@ -2,6 +2,7 @@ import {
   createStartHandler,
   defaultStreamHandler,
 } from '@tanstack/react-start/server'
+import type { ScheduledEvent } from '~/features/jobs/server'
 import { getAuth } from '~/features/auth/config'
 import {
   shouldApplySecurityHeaders,
@@ -20,6 +21,37 @@ export default {
       return auth.handler(request)
     }
 
+    // Sensor gateways post bulk readings over plain HTTP
+    if (url.pathname === '/api/sensors/gateway/ingest') {
+      const { handleGatewayIngestRequest } =
+        await import('~/features/sensors/gateway-server')
+      return handleGatewayIngestRequest(request)
+    }
+
+    // Actuators poll for commands and acknowledge them over plain HTTP
+    if (url.pathname.startsWith('/api/actuators/commands')) {
+      const { handleActuatorRequest } =
+        await import('~/features/sensors/actuator-server')
+      return handleActuatorRequest(request)
+    }
+
+    // Lenders pull consented credit passport metrics with a bearer token
+    if (
+      url.pathname === '/api/credit-passport/v1/metrics' ||
+      url.pathname === '/api/credit-passport/v1/scoring-profiles'
+    ) {
+      const { handleLenderApiRequest } =
+        await import('~/features/credit-passport/lender-server')
+      return handleLenderApiRequest(request)
+    }
+
+    // Banks fetch the signing key registry to pin keys and check revocations
+    if (url.pathname === '/api/credit-passport/v1/keys') {
+      const { handleKeyRegistryRequest } =
+        await import('~/features/credit-passport/key-registry-server')
+      return handleKeyRegistryRequest(request)
+    }
+
     // Handle all other routes with TanStack Start
     const response = await handler(request, ...args)
 
@@ -30,4 +62,17 @@ export default {
 
     return response
   },
+
+  // Cron triggers (wrangler.jsonc `triggers.crons`) run the job registry
+  scheduled(
+    event: ScheduledEvent,
+    _env: unknown,
+    ctx: { waitUntil: (promise: Promise<unknown>) => void },
+  ) {
+    ctx.waitUntil(
+      import('~/features/jobs/server').then(({ handleScheduledJobs }) =>
+        handleScheduledJobs(event),
+      ),
+    )
+  },
 }
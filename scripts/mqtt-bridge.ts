@@ -0,0 +1,146 @@
+#!/usr/bin/env bun
+
+/**
+ * Local MQTT bridge for sensor gateways
+ *
+ * Subscribes to `<MQTT_TOPIC_PREFIX>/+` on a local broker (one topic per
+ * sensor; the last topic segment is the sensor's gateway channel) and forwards
+ * readings to the gateway ingestion endpoint in bulk. Readings are buffered
+ * while the farm is offline and backfilled once the connection returns.
+ *
+ * Environment:
+ *   GATEWAY_URL              App base URL, e.g. https://livestockai.example.com
+ *   GATEWAY_API_KEY          API key of the gateway (Sensors → Gateways)
+ *   MQTT_URL                 Broker URL (default: mqtt://localhost:1883)
+ *   MQTT_USERNAME            Broker username (optional)
+ *   MQTT_PASSWORD            Broker password (optional)
+ *   MQTT_TOPIC_PREFIX        Topic prefix (default: livestockai/sensors)
+ *   FLUSH_INTERVAL_SECONDS   Seconds between uploads (default: 30)
+ *   MAX_BUFFERED_READINGS    Oldest readings are dropped beyond this (default: 50000)
+ */
+
+import mqtt from 'mqtt'
+import {
+  groupBridgeBatches,
+  parseMqttReadings,
+} from '../app/features/sensors/gateway-bridge'
+import { GATEWAY_MAX_READINGS } from '../app/features/sensors/constants'
+import type { OnErrorCallback, OnMessageCallback } from 'mqtt'
+import type { BufferedReading } from '../app/features/sensors/gateway-bridge'
+import type { GatewayIngestResult } from '../app/features/sensors/types'
+
+const gatewayUrl = process.env.GATEWAY_URL
+const apiKey = process.env.GATEWAY_API_KEY
+const brokerUrl = process.env.MQTT_URL || 'mqtt://localhost:1883'
+const topicPrefix = process.env.MQTT_TOPIC_PREFIX || 'livestockai/sensors'
+const flushIntervalMs = Number(process.env.FLUSH_INTERVAL_SECONDS || 30) * 1000
+const maxBuffered = Number(process.env.MAX_BUFFERED_READINGS || 50000)
+
+if (!gatewayUrl || !apiKey) {
+  console.error('❌ GATEWAY_URL and GATEWAY_API_KEY must be set')
+  process.exit(1)
+}
+
+const ingestUrl = new URL('/api/sensors/gateway/ingest', gatewayUrl).toString()
+let buffer: Array<BufferedReading> = []
+let flushing = false
+
+async function flush() {
+  if (flushing || buffer.length === 0) return
+  flushing = true
+
+  try {
+    while (buffer.length > 0) {
+      const chunk = buffer.slice(0, GATEWAY_MAX_READINGS)
+      const response = await fetch(ingestUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Gateway-API-Key': apiKey as string,
+        },
+        body: JSON.stringify({ batches: groupBridgeBatches(chunk) }),
+      })
+
+      if (response.status === 400) {
+        // The server will never accept this chunk; drop it rather than retry forever
+        console.error(
+          '⚠️ Upload rejected, dropping chunk:',
+          await response.text(),
+        )
+      } else if (!response.ok) {
+        console.error(
+          `⚠️ Upload failed (${response.status}), keeping ${buffer.length} readings for retry`,
+        )
+        return
+      } else {
+        const result: GatewayIngestResult = await response.json()
+        console.log(
+          `📤 Stored ${result.stored}, duplicates ${result.duplicates}, anomalies ${result.anomalies}, alerts ${result.alertsRaised}`,
+        )
+        for (const rejection of result.rejected) {
+          console.warn(
+            `⚠️ ${rejection.count} readings for ${rejection.channel ?? rejection.sensorId}: ${rejection.reason}`,
+          )
+        }
+      }
+
+      buffer = buffer.slice(chunk.length)
+    }
+  } catch (error) {
+    console.error(
+      `⚠️ Upload failed, keeping ${buffer.length} readings for retry:`,
+      error instanceof Error ? error.message : error,
+    )
+  } finally {
+    flushing = false
+  }
+}
+
+const client = mqtt.connect(brokerUrl, {
+  username: process.env.MQTT_USERNAME,
+  password: process.env.MQTT_PASSWORD,
+  // Persistent session so the broker queues QoS 1 messages while we are down
+  clientId: `livestockai-bridge-${apiKey.slice(0, 8)}`,
+  clean: false,
+})
+
+client.on('connect', () => {
+  console.log(`🔌 Connected to ${brokerUrl}, subscribing to ${topicPrefix}/+`)
+  client.subscribe(`${topicPrefix}/+`, { qos: 1 })
+})
+
+const onMessage: OnMessageCallback = (topic, payload) => {
+  const readings = parseMqttReadings(
+    topic,
+    payload.toString(),
+    topicPrefix,
+    new Date(),
+  )
+  if (!readings) {
+    console.warn(`⚠️ Ignoring unreadable message on ${topic}`)
+    return
+  }
+
+  buffer.push(...readings)
+  if (buffer.length > maxBuffered) {
+    const dropped = buffer.length - maxBuffered
+    buffer = buffer.slice(dropped)
+    console.warn(`⚠️ Buffer full, dropped ${dropped} oldest readings`)
+  }
+}
+
+const onError: OnErrorCallback = (error) => {
+  console.error('❌ MQTT error:', error.message)
+}
+
+client.on('message', onMessage)
+client.on('error', onError)
+
+setInterval(() => void flush(), flushIntervalMs)
+
+process.on('SIGINT', async () => {
+  console.log('👋 Flushing buffered readings before exit...')
+  await flush()
+  client.end()
+  process.exit(0)
+})
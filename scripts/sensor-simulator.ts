@@ -0,0 +1,260 @@
+#!/usr/bin/env bun
+
+/**
+ * Sensor simulator and replay tool for local testing
+ *
+ * Generates realistic daily-cycle readings for any sensor type, with injected
+ * faults, and replays readings through the real ingestion pipeline (anomaly
+ * detection, alerts, actuator rules and derived sensors) at accelerated speed.
+ * Replayed periods are then rolled up with the aggregation service.
+ *
+ * Usage:
+ *   bun run sensors:simulate generate --type temperature [--hours 48] [--out readings.csv]
+ *   bun run sensors:simulate run --sensor <id> [--hours 48] [--speed 3600]
+ *   bun run sensors:simulate replay --file readings.csv [--sensor <id>] [--speed 3600] [--no-shift]
+ *
+ * Options:
+ *   --type          Sensor type to generate (generate only; run uses the sensor's type)
+ *   --hours         Hours of readings to generate, ending now (default: 48)
+ *   --interval      Minutes between readings (default: 5)
+ *   --fault         type@offsetHours[+durationHours][:magnitude], repeatable,
+ *                   e.g. spike@12, drift@6+12:5, dropout@20+2, flatline@30+3
+ *   --seed          Random seed, for repeatable readings
+ *   --utc-offset    Farm's offset from UTC in hours, for the daily cycle (default: 1)
+ *   --speed         Replay speed as a multiple of real time (default: 3600)
+ *   --no-shift      Replay at the recorded times instead of ending now
+ *   --allow-remote  Replay against a database that is not on localhost
+ *
+ * Environment:
+ *   DATABASE_URL    Local database to replay into (run and replay only)
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs'
+import { parseArgs } from 'node:util'
+import {
+  SIMULATED_SENSOR_TYPES,
+  generateSimulatedReadings,
+  isSimulatedSensorType,
+  listPeriodStarts,
+  parseFaultSpec,
+  parseReadingsCsv,
+  planReplay,
+  toReadingsCsv,
+} from '../app/features/sensors/simulator'
+import type { CsvReading } from '../app/features/sensors/simulator'
+
+const HOUR_MS = 60 * 60 * 1000
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    type: { type: 'string' },
+    sensor: { type: 'string' },
+    file: { type: 'string' },
+    out: { type: 'string' },
+    hours: { type: 'string', default: '48' },
+    interval: { type: 'string', default: '5' },
+    fault: { type: 'string', multiple: true, default: [] },
+    seed: { type: 'string' },
+    'utc-offset': { type: 'string', default: '1' },
+    speed: { type: 'string', default: '3600' },
+    'no-shift': { type: 'boolean', default: false },
+    'allow-remote': { type: 'boolean', default: false },
+  },
+})
+
+const command = positionals[0]
+
+function fail(message: string): never {
+  console.error(`❌ ${message}`)
+  process.exit(1)
+}
+
+function generate(sensorType: string, sensorId?: string) {
+  if (!isSimulatedSensorType(sensorType)) {
+    fail(
+      `Cannot simulate "${sensorType}". Use one of: ${SIMULATED_SENSOR_TYPES.join(', ')} (derived sensors are computed from their inputs)`,
+    )
+  }
+
+  const end = new Date()
+  const start = new Date(end.getTime() - Number(values.hours) * HOUR_MS)
+  let faults
+  try {
+    faults = values.fault.map((spec) => parseFaultSpec(spec, start))
+  } catch (error) {
+    fail(error instanceof Error ? error.message : String(error))
+  }
+
+  const readings = generateSimulatedReadings({
+    sensorType,
+    start,
+    end,
+    intervalMinutes: Number(values.interval),
+    faults,
+    seed: values.seed === undefined ? undefined : Number(values.seed),
+    utcOffsetHours: Number(values['utc-offset']),
+  })
+  return readings.map((r) => ({ sensorId: sensorId ?? null, ...r }))
+}
+
+async function connect() {
+  const databaseUrl = process.env.DATABASE_URL
+  if (!databaseUrl) fail('DATABASE_URL must be set')
+
+  const host = new URL(databaseUrl).hostname
+  if (
+    !['localhost', '127.0.0.1', '[::1]'].includes(host) &&
+    !values['allow-remote']
+  ) {
+    fail(
+      `Refusing to replay into ${host}; pass --allow-remote if this is really a test database`,
+    )
+  }
+
+  const { db } = await import('../app/lib/db')
+  return db
+}
+
+async function replay(readings: Array<CsvReading>, fallbackSensorId?: string) {
+  const db = await connect()
+  const { getSensorById } = await import('../app/features/sensors/repository')
+  const { ingestSensorReadings } =
+    await import('../app/features/sensors/ingestion')
+  const { aggregateReadingsForPeriod, getPeriodEnd, storeAggregation } =
+    await import('../app/features/sensors/aggregation-service')
+
+  const rows = readings.map((r) => ({
+    ...r,
+    sensorId: fallbackSensorId ?? r.sensorId,
+  }))
+  if (rows.some((r) => !r.sensorId)) {
+    fail('Readings without a sensorId column need --sensor <id>')
+  }
+
+  const sensorIds = [...new Set(rows.map((r) => r.sensorId as string))]
+  const sensors = new Map<
+    string,
+    NonNullable<Awaited<ReturnType<typeof getSensorById>>>
+  >()
+  for (const id of sensorIds) {
+    const sensor = await getSensorById(db, id)
+    if (!sensor) fail(`Sensor ${id} not found`)
+    sensors.set(id, sensor)
+  }
+
+  const steps = planReplay(rows, {
+    speed: Number(values.speed),
+    endAt: values['no-shift'] ? undefined : new Date(),
+  })
+  if (steps.length === 0) fail('Nothing to replay')
+
+  console.log(
+    `▶️ Replaying ${rows.length} readings for ${sensorIds.length} sensor(s) at ${values.speed}x`,
+  )
+
+  const totals = { stored: 0, anomalies: 0, alertsRaised: 0 }
+  for (const step of steps) {
+    if (step.delayMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, step.delayMs))
+    }
+
+    for (const [id, sensor] of sensors) {
+      const due = step.readings
+        .filter((r) => r.sensorId === id)
+        .map((r) => ({ value: r.value, recordedAt: r.recordedAt }))
+      if (due.length === 0) continue
+
+      const result = await ingestSensorReadings(db, sensor, due, step.now)
+      totals.stored += result.stored
+      totals.anomalies += result.anomalies
+      totals.alertsRaised += result.alertsRaised
+      if (result.anomalies > 0 || result.alertsRaised > 0) {
+        console.log(
+          `⚠️ ${step.now.toISOString()} ${sensor.name}: ${result.anomalies} anomalies, ${result.alertsRaised} alerts`,
+        )
+      }
+    }
+  }
+
+  console.log(
+    `📤 Stored ${totals.stored}, anomalies ${totals.anomalies}, alerts ${totals.alertsRaised}`,
+  )
+
+  const first = steps[0].now
+  const last = steps[steps.length - 1].now
+  for (const periodType of ['hourly', 'daily'] as const) {
+    let aggregated = 0
+    for (const periodStart of listPeriodStarts(first, last, periodType)) {
+      for (const id of sensorIds) {
+        const result = await aggregateReadingsForPeriod(
+          db,
+          id,
+          periodType,
+          periodStart,
+          getPeriodEnd(periodStart, periodType),
+        )
+        if (result) {
+          await storeAggregation(db, result)
+          aggregated++
+        }
+      }
+    }
+    console.log(`📊 Stored ${aggregated} ${periodType} aggregates`)
+  }
+
+  await db.destroy()
+  console.log('✅ Replay complete')
+}
+
+async function main() {
+  switch (command) {
+    case 'generate': {
+      if (!values.type) fail('generate needs --type <sensorType>')
+      const readings = generate(values.type)
+      const csv = toReadingsCsv(readings)
+      if (values.out) {
+        writeFileSync(values.out, csv)
+        console.log(`✅ Wrote ${readings.length} readings to ${values.out}`)
+      } else {
+        process.stdout.write(csv)
+      }
+      break
+    }
+
+    case 'run': {
+      if (!values.sensor) fail('run needs --sensor <id>')
+      const db = await connect()
+      const { getSensorById } =
+        await import('../app/features/sensors/repository')
+      const sensor = await getSensorById(db, values.sensor)
+      if (!sensor) fail(`Sensor ${values.sensor} not found`)
+
+      const readings = generate(sensor.sensorType, sensor.id)
+      // Generated readings already end now
+      values['no-shift'] = true
+      await replay(readings)
+      break
+    }
+
+    case 'replay': {
+      if (!values.file) fail('replay needs --file <readings.csv>')
+      const { readings, errors } = parseReadingsCsv(
+        readFileSync(values.file, 'utf8'),
+      )
+      for (const error of errors) console.warn(`⚠️ ${error}`)
+      await replay(readings, values.sensor)
+      break
+    }
+
+    default:
+      fail(
+        'Usage: sensor-simulator <generate|run|replay> [options] (see the script header)',
+      )
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Simulator failed:', error)
+  process.exit(1)
+})
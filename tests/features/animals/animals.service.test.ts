@@ -0,0 +1,289 @@
+import { describe, expect, it } from 'vitest'
+import type { CreateAnimalInput } from '~/features/animals/types'
+import {
+  buildAnimalSummary,
+  calculateAgeInMonths,
+  getStatusForMortality,
+  hasTagCapacity,
+  normalizeTagNumber,
+  validateAnimalAttachment,
+  validateAnimalData,
+  validateParent,
+  validateUpdateData,
+} from '~/features/animals/service'
+
+describe('Animals Service', () => {
+  const asOf = new Date('2025-06-01')
+
+  describe('normalizeTagNumber', () => {
+    it('should trim, collapse spaces and upper-case', () => {
+      expect(normalizeTagNumber('  ng   0042 ')).toBe('NG 0042')
+    })
+
+    it('should leave a clean tag unchanged', () => {
+      expect(normalizeTagNumber('NG-0042')).toBe('NG-0042')
+    })
+  })
+
+  describe('validateAnimalData', () => {
+    const validData: CreateAnimalInput = {
+      tagNumber: 'NG-0042',
+      rfid: '982000123456789',
+      livestockType: 'cattle',
+      sex: 'female',
+      dateOfBirth: new Date('2023-04-01'),
+    }
+
+    it('should accept valid data', () => {
+      expect(validateAnimalData(validData, asOf)).toBeNull()
+    })
+
+    it('should accept an animal without RFID or birth date', () => {
+      expect(
+        validateAnimalData(
+          { ...validData, rfid: null, dateOfBirth: null },
+          asOf,
+        ),
+      ).toBeNull()
+    })
+
+    it('should reject an empty tag', () => {
+      expect(validateAnimalData({ ...validData, tagNumber: '  ' }, asOf)).toBe(
+        'Tag number is required',
+      )
+    })
+
+    it('should reject a tag longer than 50 characters', () => {
+      expect(
+        validateAnimalData({ ...validData, tagNumber: 'A'.repeat(51) }, asOf),
+      ).toBe('Tag number must be at most 50 characters')
+    })
+
+    it('should reject batch-only livestock types', () => {
+      expect(
+        validateAnimalData(
+          { ...validData, livestockType: 'poultry' as 'cattle' },
+          asOf,
+        ),
+      ).toBe('Only cattle, goats and sheep can be registered individually')
+    })
+
+    it('should reject an RFID with punctuation', () => {
+      expect(validateAnimalData({ ...validData, rfid: '982-000' }, asOf)).toBe(
+        'RFID must be up to 32 letters or digits',
+      )
+    })
+
+    it('should reject a future birth date', () => {
+      expect(
+        validateAnimalData(
+          { ...validData, dateOfBirth: new Date('2025-07-01') },
+          asOf,
+        ),
+      ).toBe('Date of birth cannot be in the future')
+    })
+
+    it('should reject the same dam and sire', () => {
+      expect(
+        validateAnimalData(
+          { ...validData, damId: 'animal-1', sireId: 'animal-1' },
+          asOf,
+        ),
+      ).toBe('Dam and sire must be different animals')
+    })
+  })
+
+  describe('validateUpdateData', () => {
+    it('should accept an empty update', () => {
+      expect(validateUpdateData({}, asOf)).toBeNull()
+    })
+
+    it('should reject clearing the tag', () => {
+      expect(validateUpdateData({ tagNumber: '' }, asOf)).toBe(
+        'Tag number is required',
+      )
+    })
+
+    it('should allow clearing the RFID', () => {
+      expect(validateUpdateData({ rfid: null }, asOf)).toBeNull()
+    })
+  })
+
+  describe('validateParent', () => {
+    const offspring = {
+      livestockType: 'goats',
+      dateOfBirth: new Date('2025-02-01'),
+    }
+
+    it('should accept a plausible dam', () => {
+      expect(
+        validateParent(
+          'dam',
+          {
+            sex: 'female',
+            livestockType: 'goats',
+            dateOfBirth: new Date('2022-01-01'),
+          },
+          offspring,
+        ),
+      ).toBeNull()
+    })
+
+    it('should reject a male dam', () => {
+      expect(
+        validateParent(
+          'dam',
+          { sex: 'male', livestockType: 'goats', dateOfBirth: null },
+          offspring,
+        ),
+      ).toBe('Dam must be female')
+    })
+
+    it('should reject a female sire', () => {
+      expect(
+        validateParent(
+          'sire',
+          { sex: 'female', livestockType: 'goats', dateOfBirth: null },
+          offspring,
+        ),
+      ).toBe('Sire must be male')
+    })
+
+    it('should reject a parent of another livestock type', () => {
+      expect(
+        validateParent(
+          'sire',
+          { sex: 'male', livestockType: 'sheep', dateOfBirth: null },
+          offspring,
+        ),
+      ).toBe('Sire must be the same livestock type')
+    })
+
+    it('should reject a parent born after the offspring', () => {
+      expect(
+        validateParent(
+          'dam',
+          {
+            sex: 'female',
+            livestockType: 'goats',
+            dateOfBirth: new Date('2025-03-01'),
+          },
+          offspring,
+        ),
+      ).toBe('Dam must be born before its offspring')
+    })
+
+    it('should skip the birth order check when a date is unknown', () => {
+      expect(
+        validateParent(
+          'dam',
+          {
+            sex: 'female',
+            livestockType: 'goats',
+            dateOfBirth: new Date('2025-03-01'),
+          },
+          { livestockType: 'goats', dateOfBirth: null },
+        ),
+      ).toBeNull()
+    })
+  })
+
+  describe('validateAnimalAttachment', () => {
+    it('should accept an active animal in the batch', () => {
+      expect(
+        validateAnimalAttachment({ batchId: 'b1', status: 'active' }, 'b1'),
+      ).toBeNull()
+    })
+
+    it('should reject an animal in another batch', () => {
+      expect(
+        validateAnimalAttachment({ batchId: 'b1', status: 'active' }, 'b2'),
+      ).toBe('Animal is not in this batch')
+    })
+
+    it('should reject an animal without a batch', () => {
+      expect(
+        validateAnimalAttachment({ batchId: null, status: 'active' }, 'b1'),
+      ).toBe('Animal is not in this batch')
+    })
+
+    it('should reject an animal that is no longer active', () => {
+      expect(
+        validateAnimalAttachment({ batchId: 'b1', status: 'sold' }, 'b1'),
+      ).toBe('Animal is no longer active')
+    })
+  })
+
+  describe('getStatusForMortality', () => {
+    it('should mark culling as culled', () => {
+      expect(getStatusForMortality('culling')).toBe('culled')
+    })
+
+    it('should mark any other cause as dead', () => {
+      expect(getStatusForMortality('disease')).toBe('dead')
+      expect(getStatusForMortality('unknown')).toBe('dead')
+    })
+  })
+
+  describe('hasTagCapacity', () => {
+    it('should allow tagging while head remain untagged', () => {
+      expect(hasTagCapacity(9, 10)).toBe(true)
+    })
+
+    it('should refuse once every head is tagged', () => {
+      expect(hasTagCapacity(10, 10)).toBe(false)
+    })
+  })
+
+  describe('calculateAgeInMonths', () => {
+    it('should count completed months', () => {
+      expect(
+        calculateAgeInMonths(new Date('2024-01-15'), new Date('2025-03-14')),
+      ).toBe(13)
+      expect(
+        calculateAgeInMonths(new Date('2024-01-15'), new Date('2025-03-15')),
+      ).toBe(14)
+    })
+
+    it('should accept a date string', () => {
+      expect(calculateAgeInMonths('2025-01-01', asOf)).toBe(5)
+    })
+
+    it('should return null without a birth date', () => {
+      expect(calculateAgeInMonths(null, asOf)).toBeNull()
+    })
+  })
+
+  describe('buildAnimalSummary', () => {
+    it('should count statuses and active sexes', () => {
+      expect(
+        buildAnimalSummary([
+          { sex: 'female', status: 'active' },
+          { sex: 'female', status: 'active' },
+          { sex: 'male', status: 'active' },
+          { sex: 'male', status: 'sold' },
+          { sex: 'female', status: 'dead' },
+          { sex: 'female', status: 'culled' },
+        ]),
+      ).toEqual({
+        total: 6,
+        active: 3,
+        males: 1,
+        females: 2,
+        sold: 1,
+        lost: 2,
+      })
+    })
+
+    it('should return zeros for an empty registry', () => {
+      expect(buildAnimalSummary([])).toEqual({
+        total: 0,
+        active: 0,
+        males: 0,
+        females: 0,
+        sold: 0,
+        lost: 0,
+      })
+    })
+  })
+})
@@ -0,0 +1,240 @@
+import { describe, expect, it } from 'vitest'
+import type {
+  CreateHiveHarvestInput,
+  CreateHiveInspectionInput,
+} from '~/features/apiary/types'
+import {
+  buildApiarySummary,
+  calculateHarvestTotals,
+  calculateYieldPerColony,
+  getInspectionWarnings,
+  validateHarvestData,
+  validateHarvestUpdate,
+  validateInspectionData,
+  validateInspectionUpdate,
+} from '~/features/apiary/service'
+
+describe('Apiary Service', () => {
+  describe('validateInspectionData', () => {
+    const validData: CreateHiveInspectionInput = {
+      structureId: 'hive-1',
+      date: new Date('2025-04-12'),
+      queenSeen: true,
+      broodPattern: 'solid',
+      swarmCells: 0,
+      varroaCount: 2,
+    }
+
+    it('should accept valid data', () => {
+      expect(validateInspectionData(validData)).toBeNull()
+    })
+
+    it('should require a hive', () => {
+      expect(validateInspectionData({ ...validData, structureId: ' ' })).toBe(
+        'Hive is required',
+      )
+    })
+
+    it('should reject an invalid date', () => {
+      expect(
+        validateInspectionData({ ...validData, date: new Date('invalid') }),
+      ).toBe('Valid inspection date is required')
+    })
+
+    it('should reject an unknown brood pattern', () => {
+      expect(
+        validateInspectionData({
+          ...validData,
+          broodPattern: 'patchy' as never,
+        }),
+      ).toBe('Invalid brood pattern')
+    })
+
+    it('should reject fractional or negative counts', () => {
+      expect(validateInspectionData({ ...validData, swarmCells: 1.5 })).toBe(
+        'Swarm cells must be a whole number of 0 or more',
+      )
+      expect(validateInspectionData({ ...validData, varroaCount: -1 })).toBe(
+        'Varroa count must be a whole number of 0 or more',
+      )
+    })
+
+    it('should allow missing optional counts', () => {
+      expect(
+        validateInspectionData({
+          ...validData,
+          varroaCount: null,
+          framesOfBees: null,
+        }),
+      ).toBeNull()
+    })
+  })
+
+  describe('validateInspectionUpdate', () => {
+    it('should accept an empty update', () => {
+      expect(validateInspectionUpdate({})).toBeNull()
+    })
+
+    it('should reject an invalid date', () => {
+      expect(validateInspectionUpdate({ date: new Date('invalid') })).toBe(
+        'Date must be a valid date',
+      )
+    })
+
+    it('should reject an unknown temperament', () => {
+      expect(validateInspectionUpdate({ temperament: 'grumpy' as never })).toBe(
+        'Invalid temperament',
+      )
+    })
+  })
+
+  describe('validateHarvestData', () => {
+    const validData: CreateHiveHarvestInput = {
+      structureId: 'hive-1',
+      date: new Date('2025-07-01'),
+      product: 'honey',
+      quantityKg: 12.5,
+    }
+
+    it('should accept valid data', () => {
+      expect(validateHarvestData(validData)).toBeNull()
+    })
+
+    it('should reject an invalid date', () => {
+      expect(
+        validateHarvestData({ ...validData, date: new Date('invalid') }),
+      ).toBe('Valid harvest date is required')
+    })
+
+    it('should reject a zero quantity', () => {
+      expect(validateHarvestData({ ...validData, quantityKg: 0 })).toBe(
+        'Harvest quantity must be greater than 0',
+      )
+    })
+
+    it('should reject an unknown product', () => {
+      expect(
+        validateHarvestData({ ...validData, product: 'propolis' as never }),
+      ).toBe('Invalid harvest product')
+    })
+  })
+
+  describe('validateHarvestUpdate', () => {
+    it('should reject fractional frame counts', () => {
+      expect(validateHarvestUpdate({ framesHarvested: 2.5 })).toBe(
+        'Frames harvested must be a whole number of 0 or more',
+      )
+    })
+  })
+
+  describe('getInspectionWarnings', () => {
+    const healthy = {
+      queenSeen: true,
+      broodPattern: 'solid' as const,
+      swarmCells: 0,
+      varroaCount: 1,
+    }
+
+    it('should return no warnings for a healthy colony', () => {
+      expect(getInspectionWarnings(healthy)).toEqual([])
+    })
+
+    it('should flag swarm cells', () => {
+      expect(getInspectionWarnings({ ...healthy, swarmCells: 2 })).toEqual([
+        'swarm_cells',
+      ])
+    })
+
+    it('should flag a queenless colony', () => {
+      expect(
+        getInspectionWarnings({
+          ...healthy,
+          queenSeen: false,
+          broodPattern: 'none',
+        }),
+      ).toEqual(['queenless'])
+    })
+
+    it('should flag a spotty brood pattern', () => {
+      expect(
+        getInspectionWarnings({ ...healthy, broodPattern: 'spotty' }),
+      ).toEqual(['poor_brood'])
+    })
+
+    it('should flag varroa at the treatment threshold', () => {
+      expect(getInspectionWarnings({ ...healthy, varroaCount: 8 })).toEqual([])
+      expect(getInspectionWarnings({ ...healthy, varroaCount: 9 })).toEqual([
+        'high_varroa',
+      ])
+    })
+
+    it('should ignore a missing varroa count', () => {
+      expect(getInspectionWarnings({ ...healthy, varroaCount: null })).toEqual(
+        [],
+      )
+    })
+  })
+
+  describe('calculateHarvestTotals', () => {
+    it('should total honey and wax separately', () => {
+      expect(
+        calculateHarvestTotals([
+          { product: 'honey', quantityKg: '12.50' },
+          { product: 'honey', quantityKg: 7.25 },
+          { product: 'wax', quantityKg: '1.20' },
+        ]),
+      ).toEqual({ honeyKg: 19.75, waxKg: 1.2 })
+    })
+
+    it('should return zeros without harvests', () => {
+      expect(calculateHarvestTotals([])).toEqual({ honeyKg: 0, waxKg: 0 })
+    })
+  })
+
+  describe('calculateYieldPerColony', () => {
+    it('should divide the harvest across colonies', () => {
+      expect(calculateYieldPerColony(50, 4)).toBe(12.5)
+      expect(calculateYieldPerColony(10, 3)).toBe(3.33)
+    })
+
+    it('should return 0 without colonies', () => {
+      expect(calculateYieldPerColony(50, 0)).toBe(0)
+    })
+  })
+
+  describe('buildApiarySummary', () => {
+    it('should combine harvest totals with hives needing attention', () => {
+      const summary = buildApiarySummary(
+        2,
+        [
+          { product: 'honey', quantityKg: '30.00' },
+          { product: 'wax', quantityKg: '2.00' },
+        ],
+        [
+          {
+            queenSeen: true,
+            broodPattern: 'solid',
+            swarmCells: 0,
+            varroaCount: 3,
+          },
+          {
+            queenSeen: true,
+            broodPattern: 'solid',
+            swarmCells: 0,
+            varroaCount: 15,
+          },
+        ],
+        6,
+      )
+
+      expect(summary).toEqual({
+        colonyCount: 2,
+        inspectionCount: 6,
+        honeyKg: 30,
+        waxKg: 2,
+        honeyPerColony: 15,
+        hivesNeedingAttention: 1,
+      })
+    })
+  })
+})
@@ -0,0 +1,347 @@
+import { describe, expect, it } from 'vitest'
+import type {
+  CreateBirthRecordInput,
+  CreateBreedingEventInput,
+} from '~/features/breeding/types'
+import {
+  buildBreedingSummary,
+  calculateCalvingInterval,
+  calculateExpectedDueDate,
+  calculateKiddingRate,
+  calculateWeaningPercent,
+  getDaysOverdue,
+  getStatusAfterBirths,
+  validateBirthData,
+  validateBreedingAnimal,
+  validateBreedingEventData,
+  validateBreedingEventUpdate,
+  validateWeaningUpdate,
+} from '~/features/breeding/service'
+
+describe('Breeding Service', () => {
+  describe('calculateExpectedDueDate', () => {
+    it('should add the species gestation length', () => {
+      const mated = new Date('2025-01-01')
+
+      expect(calculateExpectedDueDate('goats', mated)).toEqual(
+        new Date('2025-05-31'),
+      )
+      expect(calculateExpectedDueDate('sheep', mated)).toEqual(
+        new Date('2025-05-28'),
+      )
+      expect(calculateExpectedDueDate('cattle', mated)).toEqual(
+        new Date('2025-10-11'),
+      )
+    })
+  })
+
+  describe('getDaysOverdue', () => {
+    it('should count whole days past the due date', () => {
+      expect(
+        getDaysOverdue(new Date('2025-06-01'), new Date('2025-06-04')),
+      ).toBe(3)
+    })
+
+    it('should be negative while the due date is ahead', () => {
+      expect(
+        getDaysOverdue(new Date('2025-06-10'), new Date('2025-06-04')),
+      ).toBe(-6)
+    })
+  })
+
+  describe('validateBreedingEventData', () => {
+    const asOf = new Date('2025-06-01')
+    const validData: CreateBreedingEventInput = {
+      batchId: 'batch-1',
+      method: 'natural',
+      femaleCount: 12,
+      matingDate: new Date('2025-05-01'),
+    }
+
+    it('should accept valid data', () => {
+      expect(validateBreedingEventData(validData, asOf)).toBeNull()
+    })
+
+    it('should require a batch', () => {
+      expect(
+        validateBreedingEventData({ ...validData, batchId: ' ' }, asOf),
+      ).toBe('Batch ID is required')
+    })
+
+    it('should reject a future mating date', () => {
+      expect(
+        validateBreedingEventData(
+          { ...validData, matingDate: new Date('2025-07-01') },
+          asOf,
+        ),
+      ).toBe('Mating date cannot be in the future')
+    })
+
+    it('should limit a tagged dam to one female', () => {
+      expect(
+        validateBreedingEventData({ ...validData, damId: 'dam-1' }, asOf),
+      ).toBe('An event for a tagged dam covers exactly one female')
+    })
+
+    it('should reject the same animal as dam and sire', () => {
+      expect(
+        validateBreedingEventData(
+          { ...validData, femaleCount: 1, damId: 'a1', sireId: 'a1' },
+          asOf,
+        ),
+      ).toBe('Dam and sire must be different animals')
+    })
+  })
+
+  describe('validateBreedingEventUpdate', () => {
+    it('should not allow setting delivered directly', () => {
+      expect(validateBreedingEventUpdate({ status: 'delivered' })).toBe(
+        'Events are marked delivered by recording their births',
+      )
+    })
+
+    it('should reject a diagnosis before the mating', () => {
+      expect(
+        validateBreedingEventUpdate({
+          status: 'pregnant',
+          matingDate: new Date('2025-05-01'),
+          diagnosisDate: new Date('2025-04-01'),
+        }),
+      ).toBe('Diagnosis date cannot be before the mating date')
+    })
+  })
+
+  describe('validateBreedingAnimal', () => {
+    const event = { livestockType: 'goats', batchId: 'batch-1' }
+    const doe = {
+      sex: 'female',
+      livestockType: 'goats',
+      status: 'active',
+      batchId: 'batch-1',
+    }
+
+    it('should accept a female of the batch as dam', () => {
+      expect(validateBreedingAnimal('dam', doe, event)).toBeNull()
+    })
+
+    it('should check sex, type, status and batch', () => {
+      expect(validateBreedingAnimal('sire', doe, event)).toBe(
+        'Sire must be male',
+      )
+      expect(
+        validateBreedingAnimal(
+          'dam',
+          { ...doe, livestockType: 'sheep' },
+          event,
+        ),
+      ).toBe('Dam must be the same livestock type')
+      expect(
+        validateBreedingAnimal('dam', { ...doe, status: 'sold' }, event),
+      ).toBe('Dam is no longer active')
+      expect(
+        validateBreedingAnimal('dam', { ...doe, batchId: 'batch-2' }, event),
+      ).toBe('Dam is not in this batch')
+    })
+
+    it('should accept a sire from another batch', () => {
+      expect(
+        validateBreedingAnimal(
+          'sire',
+          { ...doe, sex: 'male', batchId: null },
+          event,
+        ),
+      ).toBeNull()
+    })
+  })
+
+  describe('validateBirthData', () => {
+    const event = {
+      matingDate: new Date('2025-01-01'),
+      status: 'pregnant' as const,
+      remainingFemales: 3,
+    }
+    const validData: CreateBirthRecordInput = {
+      breedingEventId: 'e1',
+      birthDate: new Date('2025-06-01'),
+      damCount: 2,
+      liveBorn: 3,
+      stillborn: 1,
+      destination: 'dam_batch',
+    }
+
+    it('should accept valid data', () => {
+      expect(validateBirthData(validData, event)).toBeNull()
+    })
+
+    it('should refuse events no longer awaiting birth', () => {
+      expect(
+        validateBirthData(validData, { ...event, status: 'delivered' }),
+      ).toBe('Births can only be recorded for bred or pregnant females')
+    })
+
+    it('should require the birth after the mating', () => {
+      expect(
+        validateBirthData(
+          { ...validData, birthDate: new Date('2024-12-31') },
+          event,
+        ),
+      ).toBe('Birth date must be after the mating date')
+    })
+
+    it('should not deliver more females than remain', () => {
+      expect(validateBirthData({ ...validData, damCount: 4 }, event)).toBe(
+        'Only 3 bred female(s) have not given birth yet',
+      )
+    })
+
+    it('should require at least one offspring', () => {
+      expect(
+        validateBirthData({ ...validData, liveBorn: 0, stillborn: 0 }, event),
+      ).toBe('A birth must have at least one live-born or stillborn offspring')
+    })
+  })
+
+  describe('validateWeaningUpdate', () => {
+    const birth = { liveBorn: 2, birthDate: new Date('2025-06-01') }
+
+    it('should accept a weaning within the live-born', () => {
+      expect(
+        validateWeaningUpdate(
+          { weanedCount: 2, weaningDate: new Date('2025-09-01') },
+          birth,
+        ),
+      ).toBeNull()
+    })
+
+    it('should require count and date together', () => {
+      expect(validateWeaningUpdate({ weanedCount: 2 }, birth)).toBe(
+        'Weaned count and weaning date must be recorded together',
+      )
+    })
+
+    it('should not wean more than were born alive', () => {
+      expect(
+        validateWeaningUpdate(
+          { weanedCount: 3, weaningDate: new Date('2025-09-01') },
+          birth,
+        ),
+      ).toBe('Weaned count cannot exceed the number born alive')
+    })
+  })
+
+  describe('getStatusAfterBirths', () => {
+    it('should follow the delivered females', () => {
+      expect(getStatusAfterBirths('bred', 10, 10)).toBe('delivered')
+      expect(getStatusAfterBirths('bred', 10, 4)).toBe('pregnant')
+      expect(getStatusAfterBirths('bred', 10, 0)).toBe('bred')
+      expect(getStatusAfterBirths('delivered', 1, 0)).toBe('pregnant')
+    })
+  })
+
+  describe('calculateKiddingRate', () => {
+    it('should only count concluded events', () => {
+      expect(
+        calculateKiddingRate(
+          [
+            { id: 'e1', femaleCount: 10, status: 'delivered' },
+            { id: 'e2', femaleCount: 2, status: 'open' },
+            { id: 'e3', femaleCount: 5, status: 'pregnant' },
+          ],
+          [
+            { breedingEventId: 'e1', liveBorn: 18 },
+            { breedingEventId: 'e3', liveBorn: 2 },
+          ],
+        ),
+      ).toBe(150)
+    })
+
+    it('should return null without concluded events', () => {
+      expect(
+        calculateKiddingRate(
+          [{ id: 'e1', femaleCount: 3, status: 'bred' }],
+          [],
+        ),
+      ).toBeNull()
+    })
+  })
+
+  describe('calculateWeaningPercent', () => {
+    it('should ignore litters not yet weaned', () => {
+      expect(
+        calculateWeaningPercent([
+          { liveBorn: 2, weanedCount: 2 },
+          { liveBorn: 2, weanedCount: 1 },
+          { liveBorn: 3, weanedCount: null },
+        ]),
+      ).toBe(75)
+    })
+  })
+
+  describe('calculateCalvingInterval', () => {
+    it('should average intervals between births of each dam', () => {
+      expect(
+        calculateCalvingInterval([
+          { damId: 'd1', birthDate: new Date('2024-01-01') },
+          { damId: 'd1', birthDate: new Date('2025-01-01') },
+          { damId: 'd2', birthDate: new Date('2024-03-01') },
+          { damId: 'd2', birthDate: new Date('2025-01-29') },
+          { damId: null, birthDate: new Date('2024-06-01') },
+        ]),
+      ).toBe(350)
+    })
+
+    it('should return null without repeat births', () => {
+      expect(
+        calculateCalvingInterval([
+          { damId: 'd1', birthDate: new Date('2024-01-01') },
+        ]),
+      ).toBeNull()
+    })
+  })
+
+  describe('buildBreedingSummary', () => {
+    it('should count females awaiting birth and overdue events', () => {
+      const summary = buildBreedingSummary(
+        [
+          {
+            id: 'e1',
+            femaleCount: 3,
+            status: 'pregnant',
+            expectedDueDate: new Date('2025-05-01'),
+          },
+          {
+            id: 'e2',
+            femaleCount: 2,
+            status: 'bred',
+            expectedDueDate: new Date('2025-08-01'),
+          },
+          {
+            id: 'e3',
+            femaleCount: 1,
+            status: 'delivered',
+            expectedDueDate: new Date('2025-03-01'),
+          },
+        ],
+        [
+          {
+            breedingEventId: 'e3',
+            damId: null,
+            birthDate: new Date('2025-03-02'),
+            liveBorn: 2,
+            weanedCount: null,
+          },
+        ],
+        new Date('2025-06-01'),
+      )
+
+      expect(summary).toMatchObject({
+        awaitingBirth: 2,
+        femalesAwaitingBirth: 5,
+        overdue: 1,
+        liveBorn: 2,
+        kiddingRate: 200,
+        weaningPercent: null,
+      })
+    })
+  })
+})
@@ -0,0 +1,239 @@
+import { describe, expect, it } from 'vitest'
+import { getPublicKeyAsync, utils } from '@noble/ed25519'
+import type {
+  PublishedSigningKey,
+  SignedReportContent,
+} from '~/features/credit-passport/key-registry-service'
+import {
+  buildSignedReportContent,
+  buildVerificationBundle,
+  checkSigningKey,
+  deriveKeyId,
+  toPublishedKey,
+  verifySignedReport,
+  verifyVerificationBundle,
+} from '~/features/credit-passport/key-registry-service'
+import { signPayload } from '~/features/credit-passport/signature-service'
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('')
+
+const content: SignedReportContent = buildSignedReportContent({
+  reportType: 'credit_assessment',
+  farmIds: ['farm-1'],
+  batchIds: [],
+  startDate: new Date('2024-01-01T00:00:00Z'),
+  endDate: new Date('2024-06-01T00:00:00Z'),
+  createdAt: new Date('2024-06-02T00:00:00Z'),
+  expiresAt: new Date('2024-07-02T00:00:00Z'),
+  metricsSnapshot: { creditScore: { score: 72, grade: 'C' } },
+})
+
+async function makeKey(overrides: Partial<PublishedSigningKey> = {}) {
+  const privateKey = utils.randomPrivateKey()
+  const publicKey = toHex(await getPublicKeyAsync(privateKey))
+  const keyId = await deriveKeyId(publicKey)
+  const key: PublishedSigningKey = {
+    keyId,
+    algorithm: 'Ed25519',
+    publicKey,
+    status: 'active',
+    validFrom: '2024-01-01T00:00:00.000Z',
+    validUntil: null,
+    revokedAt: null,
+    revocationReason: null,
+    ...overrides,
+  }
+  const signature = await signPayload(content, privateKey, keyId)
+  return { key, signature }
+}
+
+describe('deriveKeyId', () => {
+  it('fingerprints the public key', async () => {
+    const { key } = await makeKey()
+
+    expect(key.keyId).toMatch(/^cpk_[a-f0-9]{16}$/)
+    expect(await deriveKeyId(key.publicKey.toUpperCase())).toBe(key.keyId)
+  })
+})
+
+describe('toPublishedKey', () => {
+  it('publishes dates as ISO strings', () => {
+    expect(
+      toPublishedKey({
+        keyId: 'cpk_a',
+        algorithm: 'Ed25519',
+        publicKey: 'ab',
+        status: 'retired',
+        validFrom: new Date('2024-01-01T00:00:00Z'),
+        validUntil: new Date('2024-03-01T00:00:00Z'),
+        revokedAt: null,
+        revocationReason: null,
+      }),
+    ).toMatchObject({
+      validFrom: '2024-01-01T00:00:00.000Z',
+      validUntil: '2024-03-01T00:00:00.000Z',
+      revokedAt: null,
+    })
+  })
+})
+
+describe('checkSigningKey', () => {
+  const key: PublishedSigningKey = {
+    keyId: 'cpk_a',
+    algorithm: 'Ed25519',
+    publicKey: 'abcd',
+    status: 'retired',
+    validFrom: '2024-01-01T00:00:00.000Z',
+    validUntil: '2024-03-01T00:00:00.000Z',
+    revokedAt: null,
+    revocationReason: null,
+  }
+
+  it('accepts signatures inside a retired key window', () => {
+    expect(checkSigningKey(key, 'ABCD', new Date('2024-02-01'))).toBeNull()
+  })
+
+  it('rejects signatures outside the window', () => {
+    expect(checkSigningKey(key, 'abcd', new Date('2023-12-31'))).toBe(
+      'not_yet_valid',
+    )
+    expect(checkSigningKey(key, 'abcd', new Date('2024-03-02'))).toBe(
+      'signed_after_rotation',
+    )
+  })
+
+  it('rejects unknown, mismatched and revoked keys', () => {
+    const at = new Date('2024-02-01')
+
+    expect(checkSigningKey(null, 'abcd', at)).toBe('unknown_key')
+    expect(checkSigningKey(key, 'ffff', at)).toBe('key_mismatch')
+    expect(checkSigningKey({ ...key, status: 'revoked' }, 'abcd', at)).toBe(
+      'key_revoked',
+    )
+  })
+})
+
+describe('verifySignedReport', () => {
+  it('passes an untouched report signed by an active key', async () => {
+    const { key, signature } = await makeKey()
+
+    const result = await verifySignedReport(content, signature, key, {
+      now: new Date('2024-06-10'),
+    })
+
+    expect(result.valid).toBe(true)
+    expect(result.expired).toBe(false)
+    expect(result.keyStatus).toBe('active')
+  })
+
+  it('fails when the metrics were edited', async () => {
+    const { key, signature } = await makeKey()
+    const tampered = {
+      ...content,
+      metrics: { creditScore: { score: 95, grade: 'A' } },
+    }
+
+    const result = await verifySignedReport(tampered, signature, key)
+
+    expect(result.valid).toBe(false)
+    expect(result.checks).toContainEqual({
+      name: 'content_hash',
+      passed: false,
+    })
+  })
+
+  it('fails every report from a revoked key', async () => {
+    const { key, signature } = await makeKey({
+      status: 'revoked',
+      revokedAt: '2024-08-01T00:00:00.000Z',
+    })
+
+    const result = await verifySignedReport(content, signature, key)
+
+    expect(result.valid).toBe(false)
+    expect(result.keyFailure).toBe('key_revoked')
+  })
+
+  it('reports expiry separately from validity', async () => {
+    const { key, signature } = await makeKey()
+
+    const result = await verifySignedReport(content, signature, key, {
+      now: new Date('2024-08-01'),
+    })
+
+    expect(result.valid).toBe(true)
+    expect(result.expired).toBe(true)
+  })
+})
+
+describe('verifyVerificationBundle', () => {
+  it('verifies offline against the bundled key chain', async () => {
+    const { key, signature } = await makeKey()
+    const bundle = buildVerificationBundle(
+      'report-1',
+      content,
+      signature,
+      [key],
+      new Date('2024-06-10'),
+    )
+
+    const result = await verifyVerificationBundle(
+      JSON.parse(JSON.stringify(bundle)),
+      { trustedKeyIds: [key.keyId], now: new Date('2024-06-10') },
+    )
+
+    expect(result.valid).toBe(true)
+    expect(result.checks.map((c) => c.name)).toEqual([
+      'format',
+      'content_hash',
+      'signature',
+      'key_fingerprint',
+      'key_registry',
+      'trusted_key',
+    ])
+  })
+
+  it('rejects a self-made chain the verifier does not trust', async () => {
+    const { key: forged, signature } = await makeKey()
+    const bundle = buildVerificationBundle(
+      'report-1',
+      content,
+      signature,
+      [forged],
+      new Date('2024-06-10'),
+    )
+
+    const result = await verifyVerificationBundle(bundle, {
+      trustedKeyIds: ['cpk_0000000000000000'],
+    })
+
+    expect(result.valid).toBe(false)
+    expect(result.checks).toContainEqual({
+      name: 'trusted_key',
+      passed: false,
+    })
+  })
+
+  it('rejects a key ID that does not fingerprint the key', async () => {
+    const { key, signature } = await makeKey()
+    const relabelled = { ...signature, keyId: 'cpk_0000000000000000' }
+    const bundle = buildVerificationBundle(
+      'report-1',
+      content,
+      relabelled,
+      [{ ...key, keyId: relabelled.keyId }],
+      new Date('2024-06-10'),
+    )
+
+    const result = await verifyVerificationBundle(bundle)
+
+    expect(result.valid).toBe(false)
+    expect(result.checks).toContainEqual({
+      name: 'key_fingerprint',
+      passed: false,
+    })
+  })
+})
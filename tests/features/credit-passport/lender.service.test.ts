@@ -0,0 +1,225 @@
+import { describe, expect, it } from 'vitest'
+import { utils, verifyAsync } from '@noble/ed25519'
+import type { LenderMetricsData } from '~/features/credit-passport/lender-service'
+import {
+  buildLenderMetrics,
+  generateConsentToken,
+  getConsentPeriod,
+  getConsentStatus,
+  getTokenHint,
+  parseBearerToken,
+  resolveRequestedScopes,
+  selectScoringProfile,
+  validateConsentInput,
+} from '~/features/credit-passport/lender-service'
+import { getScoringProfile } from '~/features/credit-passport/scoring-service'
+import {
+  canonicalJson,
+  hashContent,
+  signPayload,
+} from '~/features/credit-passport/signature-service'
+
+const now = new Date('2024-06-01T00:00:00Z')
+
+const fromHex = (hex: string) =>
+  new Uint8Array(hex.match(/.{2}/g)!.map((byte) => parseInt(byte, 16)))
+
+const data: LenderMetricsData = {
+  sales: [
+    {
+      totalAmount: '1000',
+      livestockType: 'poultry',
+      date: new Date('2024-03-01'),
+      customerId: 'cust-1',
+    },
+    {
+      totalAmount: '500',
+      livestockType: 'poultry',
+      date: new Date('2024-04-01'),
+      customerId: null,
+    },
+  ],
+  expenses: [{ amount: '600', category: 'feed', date: new Date('2024-03-01') }],
+  batches: [
+    {
+      id: 'batch-1',
+      livestockType: 'poultry',
+      initialQuantity: 100,
+      currentQuantity: 95,
+      target_weight_g: 2000,
+      targetPricePerUnit: '10',
+      status: 'active',
+      acquisitionDate: new Date('2024-02-01'),
+    },
+  ],
+  feedRecords: [{ batchId: 'batch-1', quantityKg: '150' }],
+  weightSamples: [{ batchId: 'batch-1', averageWeightG: 1500, sampleSize: 10 }],
+  hives: [],
+  hiveHarvests: [],
+  structures: [{ id: 'house-1' }],
+}
+
+const validInput = {
+  farmIds: ['farm-1'],
+  scopes: ['financial' as const],
+  lenderName: 'First Bank',
+  durationDays: 90,
+}
+
+describe('consent tokens', () => {
+  it('generates prefixed random tokens', () => {
+    const token = generateConsentToken()
+
+    expect(token).toMatch(/^lcp_[a-f0-9]{64}$/)
+    expect(generateConsentToken()).not.toBe(token)
+    expect(getTokenHint(token)).toBe(token.slice(-4))
+  })
+
+  it('reads the token from a bearer header', () => {
+    expect(parseBearerToken('Bearer lcp_abc')).toBe('lcp_abc')
+    expect(parseBearerToken('bearer  lcp_abc ')).toBe('lcp_abc')
+    expect(parseBearerToken('Bearer sk_abc')).toBeNull()
+    expect(parseBearerToken('Basic lcp_abc')).toBeNull()
+    expect(parseBearerToken(null)).toBeNull()
+  })
+})
+
+describe('getConsentStatus', () => {
+  it('puts revocation before expiry', () => {
+    const expired = new Date('2024-05-01')
+    const future = new Date('2024-07-01')
+
+    expect(getConsentStatus({ expiresAt: future, revokedAt: null }, now)).toBe(
+      'active',
+    )
+    expect(getConsentStatus({ expiresAt: expired, revokedAt: null }, now)).toBe(
+      'expired',
+    )
+    expect(
+      getConsentStatus({ expiresAt: expired, revokedAt: expired }, now),
+    ).toBe('revoked')
+  })
+})
+
+describe('validateConsentInput', () => {
+  it('accepts a complete grant', () => {
+    expect(validateConsentInput(validInput)).toBeNull()
+  })
+
+  it('rejects missing farms, scopes or lender', () => {
+    expect(validateConsentInput({ ...validInput, farmIds: [] })).not.toBeNull()
+    expect(validateConsentInput({ ...validInput, scopes: [] })).not.toBeNull()
+    expect(
+      validateConsentInput({ ...validInput, lenderName: '  ' }),
+    ).not.toBeNull()
+  })
+
+  it('limits duration and metrics period', () => {
+    expect(
+      validateConsentInput({ ...validInput, durationDays: 45 }),
+    ).not.toBeNull()
+    expect(
+      validateConsentInput({ ...validInput, periodMonths: 0 }),
+    ).not.toBeNull()
+    expect(
+      validateConsentInput({ ...validInput, periodMonths: 37 }),
+    ).not.toBeNull()
+  })
+})
+
+describe('resolveRequestedScopes', () => {
+  it('returns every granted scope when none is asked for', () => {
+    expect(resolveRequestedScopes(null, ['credit_score', 'financial'])).toEqual(
+      { scopes: ['financial', 'credit_score'], denied: [] },
+    )
+  })
+
+  it('narrows to the requested scopes', () => {
+    expect(
+      resolveRequestedScopes(' financial ,financial', [
+        'financial',
+        'credit_score',
+      ]),
+    ).toEqual({ scopes: ['financial'], denied: [] })
+  })
+
+  it('reports scopes that were not granted', () => {
+    expect(
+      resolveRequestedScopes('financial,operational,bogus', ['financial']),
+    ).toEqual({ scopes: ['financial'], denied: ['operational', 'bogus'] })
+  })
+})
+
+describe('buildLenderMetrics', () => {
+  const { startDate, endDate } = getConsentPeriod(12, now)
+
+  it('covers the months before now', () => {
+    expect(startDate).toEqual(new Date('2023-06-01T00:00:00Z'))
+    expect(endDate).toBe(now)
+  })
+
+  it('returns only the scoped groups', () => {
+    const metrics = buildLenderMetrics(
+      data,
+      ['financial', 'credit_score'],
+      startDate,
+      endDate,
+      getScoringProfile('poultry-usd')!,
+    )
+
+    expect(Object.keys(metrics).sort()).toEqual(['creditScore', 'financial'])
+    expect(metrics.financial?.totalRevenue).toBe(1500)
+    expect(metrics.creditScore?.score).toBeGreaterThan(0)
+    expect(metrics.creditScore?.explanation.profileId).toBe('poultry-usd')
+  })
+
+  it('counts only sales with a customer in the track record', () => {
+    const metrics = buildLenderMetrics(
+      data,
+      ['track_record'],
+      startDate,
+      endDate,
+      getScoringProfile('poultry-usd')!,
+    )
+
+    expect(metrics.trackRecord?.uniqueCustomers).toBe(1)
+  })
+})
+
+describe('selectScoringProfile', () => {
+  it('matches the main species and currency', () => {
+    expect(selectScoringProfile(data, 'KES', null)?.id).toBe('poultry-kes')
+  })
+
+  it('uses the profile a lender asked for', () => {
+    expect(selectScoringProfile(data, 'KES', 'fish-ngn')?.id).toBe('fish-ngn')
+    expect(selectScoringProfile(data, 'KES', 'unicorn-ngn')).toBeNull()
+  })
+})
+
+describe('signed payloads', () => {
+  it('serializes keys in sorted order', () => {
+    expect(
+      canonicalJson({ b: 1, a: { d: [2, { f: 1, e: 0 }], c: null } }),
+    ).toBe('{"a":{"c":null,"d":[2,{"e":0,"f":1}]},"b":1}')
+    expect(canonicalJson({ a: 1, b: undefined })).toBe('{"a":1}')
+  })
+
+  it('signs the hash of the canonical JSON', async () => {
+    const privateKey = utils.randomPrivateKey()
+    const payload = { metrics: { financial: { totalRevenue: 1500 } }, id: 'x' }
+
+    const signature = await signPayload(payload, privateKey, 'cpk_test')
+
+    expect(signature.algorithm).toBe('Ed25519')
+    expect(signature.keyId).toBe('cpk_test')
+    expect(signature.hash).toBe(await hashContent(canonicalJson(payload)))
+    expect(
+      await verifyAsync(
+        fromHex(signature.signature),
+        fromHex(signature.hash),
+        fromHex(signature.publicKey),
+      ),
+    ).toBe(true)
+  })
+})
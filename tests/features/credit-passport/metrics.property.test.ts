@@ -300,6 +300,60 @@ describe('Credit Passport Metrics Property Tests', () => {
     )
   })
 
+  /**
+   * Property 7b: Honey yield per colony
+   */
+  it('Property 7b: Honey yield per colony splits honey across active hives', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 20 }),
+        fc.array(fc.integer({ min: 1, max: 5000 }), {
+          minLength: 1,
+          maxLength: 10,
+        }),
+        (colonies, quantities) => {
+          const hives = Array.from({ length: colonies }, (_, i) => ({
+            id: `hive-${i}`,
+            status: 'active',
+          }))
+          const hiveHarvests = quantities.map((q, i) => ({
+            structureId: `hive-${i % colonies}`,
+            product: 'honey' as const,
+            quantityKg: (q / 100).toFixed(2),
+          }))
+
+          const metrics = calculateOperationalMetrics({
+            batches: [],
+            feedRecords: [],
+            weightSamples: [],
+            hives,
+            hiveHarvests,
+          })
+
+          const totalKg = quantities.reduce((sum, q) => sum + q / 100, 0)
+          expect(metrics.colonyCount).toBe(colonies)
+          expect(metrics.honeyYieldPerColony).toBeCloseTo(totalKg / colonies, 1)
+        },
+      ),
+      { numRuns: 50 },
+    )
+  })
+
+  it('Honey yield per colony is null without active hives', () => {
+    const metrics = calculateOperationalMetrics({
+      batches: [],
+      feedRecords: [],
+      weightSamples: [],
+      hives: [{ id: 'hive-1', status: 'empty' }],
+      hiveHarvests: [
+        { structureId: 'hive-1', product: 'honey', quantityKg: '10.00' },
+      ],
+    })
+
+    expect(metrics.colonyCount).toBe(0)
+    expect(metrics.honeyYieldPerColony).toBeNull()
+  })
+
   /**
    * Property 8: Operational aggregation
    */
@@ -489,6 +543,10 @@ describe('Credit Passport Metrics Property Tests', () => {
             .float({ min: 0, max: 150, noNaN: true })
             .map(Math.fround),
           batchCount: fc.integer({ min: 0, max: 100 }),
+          colonyCount: fc.integer({ min: 0, max: 50 }),
+          honeyYieldPerColony: fc.option(
+            fc.float({ min: 0, max: 60, noNaN: true }).map(Math.fround),
+          ),
         }),
         fc.record({
           batchesByType: fc.constant({}),
@@ -0,0 +1,147 @@
+import { readFile } from 'node:fs/promises'
+import { createServer } from 'node:http'
+import { join } from 'node:path'
+import { inflateSync } from 'node:zlib'
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import type { AddressInfo } from 'node:net'
+import type { Server } from 'node:http'
+import type { LenderMetricsData } from '~/features/credit-passport/lender-service'
+import {
+  buildReportMetrics,
+  selectScoringProfile,
+} from '~/features/credit-passport/lender-service'
+import { renderCreditPassportPDF } from '~/features/credit-passport/pdf-generator'
+import { warn } from '~/lib/logger'
+
+vi.mock('~/lib/logger', () => ({ warn: vi.fn() }))
+
+const startDate = new Date('2024-01-01T00:00:00Z')
+const endDate = new Date('2024-06-01T00:00:00Z')
+
+const data: LenderMetricsData = {
+  sales: [
+    {
+      totalAmount: '1000',
+      livestockType: 'poultry',
+      date: new Date('2024-03-01'),
+      customerId: 'cust-1',
+    },
+  ],
+  expenses: [{ amount: '600', category: 'feed', date: new Date('2024-03-01') }],
+  batches: [
+    {
+      id: 'batch-1',
+      livestockType: 'poultry',
+      initialQuantity: 100,
+      currentQuantity: 95,
+      target_weight_g: 2000,
+      targetPricePerUnit: '10',
+      status: 'active',
+      acquisitionDate: new Date('2024-02-01'),
+    },
+  ],
+  feedRecords: [{ batchId: 'batch-1', quantityKg: '150' }],
+  weightSamples: [{ batchId: 'batch-1', averageWeightG: 1500, sampleSize: 10 }],
+  hives: [],
+  hiveHarvests: [],
+  structures: [{ id: 'house-1' }],
+}
+
+const report = {
+  id: '7f1c2a4e-3b5d-4c6e-8f90-1a2b3c4d5e6f',
+  reportType: 'production_certificate',
+  metricsSnapshot: buildReportMetrics(
+    data,
+    startDate,
+    endDate,
+    selectScoringProfile(data, 'NGN', null)!,
+  ),
+  whiteLabel: false,
+  startDate,
+  endDate,
+  createdAt: endDate,
+}
+
+/** Serves `public/` the way the app does, so fonts resolve from `/fonts` */
+let server: Server
+let baseUrl: string
+
+const render = (
+  language: 'hi' | 'sw' | 'yo',
+  layout: 'single' | 'bilingual',
+  fontUrl?: string,
+) => renderCreditPassportPDF(report, { language, layout, baseUrl, fontUrl })
+
+const latin1 = (bytes: Uint8Array) => Buffer.from(bytes).toString('latin1')
+
+/** Text drawn in the standard fonts, which pdfkit writes as hex strings */
+function drawnText(bytes: Uint8Array): string {
+  const pdf = Buffer.from(bytes)
+  const source = latin1(bytes)
+  let text = ''
+  for (const match of source.matchAll(/stream\r?\n/g)) {
+    const start = match.index + match[0].length
+    const end = source.indexOf('endstream', start)
+    try {
+      const content = inflateSync(pdf.subarray(start, end)).toString('latin1')
+      for (const [, hex] of content.matchAll(/<([0-9a-f]+)> \d+/g)) {
+        text += Buffer.from(hex, 'hex').toString('latin1')
+      }
+    } catch {
+      // Not a deflated content stream
+    }
+  }
+  return text
+}
+
+describe('renderCreditPassportPDF', () => {
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      readFile(join(process.cwd(), 'public', req.url ?? ''))
+        .then((file) => res.end(file))
+        .catch(() => res.writeHead(404).end('Not found'))
+    })
+    await new Promise<void>((resolve) => server.listen(0, resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(() => {
+    server.close()
+  })
+
+  it('renders a Hindi report in the Devanagari font the app serves', async () => {
+    const pdf = latin1(await render('hi', 'single'))
+
+    expect(pdf.startsWith('%PDF-')).toBe(true)
+    expect(pdf).toContain('/Lang (hi)')
+    expect(pdf).toMatch(/\/BaseFont \/[A-Z]{6}\+NotoSansDevanagari-Regular/)
+  })
+
+  it('renders a bilingual report with English under each label', async () => {
+    const pdf = await render('sw', 'bilingual')
+    const text = drawnText(pdf)
+
+    expect(latin1(pdf)).toContain('/Lang (sw)')
+    expect(text).toContain('Faida Halisi')
+    expect(text).toContain('Net Profit')
+  })
+
+  it('prints no English in a single-language report', async () => {
+    const text = drawnText(await render('sw', 'single'))
+
+    expect(text).toContain('Faida Halisi')
+    expect(text).not.toContain('Net Profit')
+  })
+
+  it('falls back to Helvetica when fonts cannot be loaded', async () => {
+    const pdf = latin1(await render('yo', 'single', `${baseUrl}/missing`))
+
+    expect(pdf).toContain('/Lang (yo)')
+    expect(pdf).not.toContain('NotoSans-Regular')
+    expect(pdf).toContain('/BaseFont /Helvetica')
+    expect(warn).toHaveBeenCalledWith(
+      'Credit passport font failed to load, rendering in Helvetica',
+      expect.objectContaining({ fontFamily: 'Noto Sans', language: 'yo' }),
+    )
+  })
+})
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest'
+import type { ScoreImprovement } from '~/features/credit-passport/scoring-service'
+import {
+  PDF_FONT_FILES,
+  REPORT_LANGUAGES,
+  createPdfLocalizer,
+  pdfFontFamily,
+} from '~/features/credit-passport/pdf-i18n'
+import { creditPassport as en } from '~/lib/i18n/locales/en/creditPassport'
+
+const keysOf = (value: object, prefix = ''): Array<string> =>
+  Object.entries(value).flatMap(([key, child]) =>
+    typeof child === 'object' && child !== null
+      ? keysOf(child, `${prefix}${key}.`)
+      : [`${prefix}${key}`],
+  )
+
+const placeholders = (text: string) => (text.match(/\{\{\w+\}\}/g) ?? []).sort()
+
+describe('REPORT_LANGUAGES', () => {
+  it('covers every UI language', () => {
+    expect(REPORT_LANGUAGES).toHaveLength(15)
+  })
+
+  it.each(REPORT_LANGUAGES)(
+    '%s translates every PDF string with the same placeholders',
+    (language) => {
+      const l10n = createPdfLocalizer(language)
+      const english = createPdfLocalizer('en')
+
+      for (const key of keysOf(en.pdf)) {
+        const text = l10n.t(key)
+        expect(text, key).not.toBe(key)
+        expect(placeholders(text), key).toEqual(placeholders(english.t(key)))
+      }
+    },
+  )
+})
+
+describe('createPdfLocalizer', () => {
+  it('translates labels into the report language', () => {
+    expect(createPdfLocalizer('fr').t('sections.financial')).toBe(
+      'Performance financière',
+    )
+  })
+
+  it('formats numbers, currency and dates for the locale', () => {
+    const l10n = createPdfLocalizer('pt')
+
+    expect(l10n.formatNumber(12345.6)).toBe('12.345,6')
+    expect(l10n.formatCurrency(12345.6, 'BRL')).toMatch(/R\$\s12\.345,60/)
+    expect(l10n.formatPercent(25.5)).toMatch(/25,5\s?%/)
+    expect(l10n.formatDate(new Date('2024-03-05T00:00:00Z'))).toBe(
+      '5 de março de 2024',
+    )
+  })
+
+  it('adds English labels in bilingual layout', () => {
+    const l10n = createPdfLocalizer('sw', 'bilingual')
+
+    expect(l10n.bilingual).toBe(true)
+    expect(l10n.label('fields.netProfit')).toEqual({
+      text: 'Faida Halisi',
+      english: 'Net Profit',
+    })
+  })
+
+  it('never doubles English labels', () => {
+    const l10n = createPdfLocalizer('en', 'bilingual')
+
+    expect(l10n.bilingual).toBe(false)
+    expect(l10n.label('title').english).toBeNull()
+  })
+
+  it('formats factor values with localized units', () => {
+    const l10n = createPdfLocalizer('fr')
+
+    expect(
+      l10n.formatFactorValue(
+        { key: 'monthsOperating', rawValue: 24, unit: 'months' },
+        'XOF',
+      ),
+    ).toBe('24 mois')
+    expect(
+      l10n.formatFactorValue({ key: 'fcr', rawValue: null, unit: '' }, 'XOF'),
+    ).toBe('Aucune donnée')
+  })
+
+  it('describes improvements in the report language', () => {
+    const improvement: ScoreImprovement = {
+      factor: 'mortalityRate',
+      currentValue: 8,
+      targetValue: 2,
+      unit: '%',
+      potentialGain: 6,
+    }
+
+    expect(
+      createPdfLocalizer('en').describeImprovement(improvement, 'NGN'),
+    ).toBe('Cut mortality from 8% towards 2%')
+    expect(
+      createPdfLocalizer('es').describeImprovement(improvement, 'NGN'),
+    ).toMatch(/^Reduzca la mortalidad de 8\s?% hacia 2\s?%$/)
+  })
+})
+
+describe('pdfFontFamily', () => {
+  it('uses Helvetica for WinAnsi languages', () => {
+    expect(pdfFontFamily('en')).toBe('Helvetica')
+    expect(pdfFontFamily('fr')).toBe('Helvetica')
+  })
+
+  it('maps other scripts to a registered font', () => {
+    for (const language of ['am', 'bn', 'hi', 'th', 'vi', 'yo'] as const) {
+      expect(PDF_FONT_FILES).toHaveProperty(pdfFontFamily(language))
+    }
+  })
+})
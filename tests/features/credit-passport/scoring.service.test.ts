@@ -0,0 +1,258 @@
+import { describe, expect, it } from 'vitest'
+import type { CreditScoreInput } from '~/features/credit-passport/scoring-service'
+import {
+  DEFAULT_SCORING_PROFILE_ID,
+  SCORING_CURRENCIES,
+  SCORING_SPECIES,
+  buildScoringProfile,
+  describeImprovement,
+  formatFactorValue,
+  getScoringProfile,
+  gradeScore,
+  listScoringProfiles,
+  normalizeFactor,
+  resolveScoringProfile,
+  scoreCredit,
+} from '~/features/credit-passport/scoring-service'
+import { calculateCreditScore } from '~/features/credit-passport/metrics-service'
+
+const input = (
+  overrides: {
+    [K in keyof CreditScoreInput]?: Partial<CreditScoreInput[K]>
+  } = {},
+): CreditScoreInput => ({
+  financial: {
+    totalRevenue: 10_000,
+    totalExpenses: 7_500,
+    profit: 2_500,
+    profitMargin: 25,
+    cashFlowByMonth: {},
+    revenueByType: {},
+    expensesByCategory: {},
+    ...overrides.financial,
+  },
+  operational: {
+    avgFCR: 1.8,
+    avgMortalityRate: 5,
+    growthPerformanceIndex: 90,
+    batchCount: 4,
+    colonyCount: 0,
+    honeyYieldPerColony: null,
+    ...overrides.operational,
+  },
+  assets: {
+    batchesByType: {},
+    totalInventoryValue: 1_250,
+    structureCount: 5,
+    totalLivestock: 500,
+    ...overrides.assets,
+  },
+  trackRecord: {
+    monthsOperating: 18,
+    batchesCompleted: 3,
+    productionVolume: 1500,
+    successRate: 80,
+    uniqueCustomers: 6,
+    ...overrides.trackRecord,
+  },
+})
+
+describe('scoring profiles', () => {
+  it('builds a profile for every species and currency', () => {
+    const profiles = listScoringProfiles()
+
+    expect(profiles).toHaveLength(
+      SCORING_SPECIES.length * SCORING_CURRENCIES.length,
+    )
+    for (const profile of profiles) {
+      const total = Object.values(profile.weights).reduce((a, b) => a + b, 0)
+      expect(total).toBeCloseTo(1)
+    }
+  })
+
+  it('looks profiles up by ID', () => {
+    const profile = getScoringProfile('poultry-ngn')
+
+    expect(profile?.species).toBe('poultry')
+    expect(profile?.currency).toBe('NGN')
+    expect(getScoringProfile(DEFAULT_SCORING_PROFILE_ID)).not.toBeNull()
+    expect(getScoringProfile('poultry-xyz')).toBeNull()
+    expect(getScoringProfile('dragons-usd')).toBeNull()
+    expect(getScoringProfile('usd')).toBeNull()
+  })
+
+  it('scales the inventory target by currency and species', () => {
+    const usd = buildScoringProfile('goats', 'USD')!
+    const ngn = buildScoringProfile('goats', 'NGN')!
+    const cattle = buildScoringProfile('cattle', 'USD')!
+
+    expect(ngn.ranges.inventoryValue.best).toBeGreaterThan(
+      usd.ranges.inventoryValue.best * 100,
+    )
+    expect(cattle.ranges.inventoryValue.best).toBe(
+      usd.ranges.inventoryValue.best * 4,
+    )
+  })
+
+  it('resolves the main species and falls back to general', () => {
+    expect(resolveScoringProfile(['fish', 'fish', 'poultry'], 'KES').id).toBe(
+      'fish-kes',
+    )
+    expect(resolveScoringProfile(['fish', 'poultry'], 'KES').id).toBe(
+      'general-kes',
+    )
+    expect(resolveScoringProfile([], 'XYZ').id).toBe('general-usd')
+  })
+})
+
+describe('normalizeFactor', () => {
+  it('scales between worst and best in either direction', () => {
+    expect(normalizeFactor(25, { worst: 0, best: 50 })).toBe(50)
+    expect(normalizeFactor(2, { worst: 3, best: 1 })).toBe(50)
+    expect(normalizeFactor(0.5, { worst: 3, best: 1 })).toBe(100)
+    expect(normalizeFactor(-10, { worst: 0, best: 50 })).toBe(0)
+  })
+
+  it('scores missing data as zero', () => {
+    expect(normalizeFactor(null, { worst: 0, best: 50 })).toBe(0)
+    expect(normalizeFactor(NaN, { worst: 0, best: 50 })).toBe(0)
+  })
+})
+
+describe('gradeScore', () => {
+  it('uses the first cutoff the score reaches', () => {
+    const cutoffs = getScoringProfile('general-usd')!.gradeCutoffs
+
+    expect(gradeScore(95, cutoffs)).toBe('A')
+    expect(gradeScore(80, cutoffs)).toBe('B')
+    expect(gradeScore(59, cutoffs)).toBe('F')
+  })
+})
+
+describe('scoreCredit', () => {
+  const profile = getScoringProfile('general-usd')!
+
+  it('explains every weighted factor', () => {
+    const result = scoreCredit(input(), profile)
+    const margin = result.explanation.factors.find(
+      (f) => f.key === 'profitMargin',
+    )
+
+    expect(result.explanation.profileId).toBe('general-usd')
+    expect(result.explanation.factors.map((f) => f.key)).not.toContain(
+      'honeyYield',
+    )
+    expect(margin).toMatchObject({
+      rawValue: 25,
+      normalizedScore: 50,
+      weight: 0.3,
+      contribution: 15,
+    })
+  })
+
+  it('adds contributions up to the score', () => {
+    const result = scoreCredit(input(), profile)
+    const total = result.explanation.factors.reduce(
+      (sum, f) => sum + f.contribution,
+      0,
+    )
+
+    // 15 + 14 + 3.75 + 7.5 + 9.38 + 5 + 5
+    expect(result.score).toBe(60)
+    expect(Math.abs(total - result.score)).toBeLessThan(1)
+    expect(result.grade).toBe('D')
+    expect(result.explanation.nextGrade).toEqual({
+      grade: 'C',
+      pointsNeeded: 10,
+    })
+  })
+
+  it('keeps the group breakdown', () => {
+    const { breakdown } = scoreCredit(input(), profile)
+
+    expect(breakdown).toEqual({
+      profitMargin: 50,
+      trackRecord: 71,
+      efficiency: 68,
+      assets: 50,
+    })
+  })
+
+  it('ranks improvements by the points they would add', () => {
+    const { explanation } = scoreCredit(
+      input({ operational: { avgFCR: null } }),
+      profile,
+    )
+
+    expect(explanation.improvements[0]).toMatchObject({
+      factor: 'profitMargin',
+      potentialGain: 15,
+    })
+    expect(explanation.improvements.map((i) => i.factor)).toContain('fcr')
+    for (let i = 1; i < explanation.improvements.length; i++) {
+      expect(
+        explanation.improvements[i - 1].potentialGain,
+      ).toBeGreaterThanOrEqual(explanation.improvements[i].potentialGain)
+    }
+  })
+
+  it('scores hives on honey yield instead of feed and mortality', () => {
+    const { explanation } = scoreCredit(
+      input({ operational: { avgFCR: null, honeyYieldPerColony: 12.5 } }),
+      getScoringProfile('bees-usd')!,
+    )
+    const keys = explanation.factors.map((f) => f.key)
+
+    expect(keys).toContain('honeyYield')
+    expect(keys).not.toContain('fcr')
+    expect(keys).not.toContain('mortalityRate')
+  })
+
+  it('scores the same metrics differently per currency', () => {
+    const usd = scoreCredit(input(), getScoringProfile('general-usd')!)
+    const ngn = scoreCredit(input(), getScoringProfile('general-ngn')!)
+
+    expect(ngn.breakdown.assets).toBeLessThan(usd.breakdown.assets)
+  })
+
+  it('is what calculateCreditScore returns by default', () => {
+    expect(calculateCreditScore(input())).toEqual(scoreCredit(input(), profile))
+  })
+})
+
+describe('report text', () => {
+  it('formats factor values with their unit', () => {
+    expect(formatFactorValue({ rawValue: 25.456, unit: '%' })).toBe('25.46%')
+    expect(formatFactorValue({ rawValue: 18, unit: 'months' })).toBe(
+      '18 months',
+    )
+    expect(formatFactorValue({ rawValue: null, unit: '' })).toBe('No data')
+  })
+
+  it('describes improvements for the farmer', () => {
+    expect(
+      describeImprovement(
+        {
+          factor: 'mortalityRate',
+          currentValue: 8,
+          targetValue: 0,
+          unit: '%',
+          potentialGain: 5,
+        },
+        'NGN',
+      ),
+    ).toBe('Cut mortality from 8% towards 0%')
+    expect(
+      describeImprovement(
+        {
+          factor: 'fcr',
+          currentValue: null,
+          targetValue: 1,
+          unit: '',
+          potentialGain: 12.5,
+        },
+        'NGN',
+      ),
+    ).toMatch(/Record feed use/)
+  })
+})
@@ -0,0 +1,220 @@
+import { describe, expect, it } from 'vitest'
+import type {
+  DistrictLocation,
+  FarmPopulation,
+  MortalityCause,
+  MortalityEvent,
+} from '~/features/extension/outbreak-service'
+import {
+  DEFAULT_DETECTION_OPTIONS,
+  baselineControlChart,
+  buildEpidemicCurve,
+  detectOutbreakSignals,
+  findNeighbourDistricts,
+  haversineKm,
+} from '~/features/extension/outbreak-service'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const asOf = new Date('2024-06-30T00:00:00Z')
+const { baselineDays, detectionDays } = DEFAULT_DETECTION_OPTIONS
+const windowStart = new Date(
+  asOf.getTime() - (baselineDays + detectionDays) * DAY_MS,
+)
+const dayAt = (day: number) => new Date(windowStart.getTime() + day * DAY_MS)
+
+const populations: Array<FarmPopulation> = ['f1', 'f2', 'f3'].flatMap(
+  (farmId) => [
+    {
+      farmId,
+      districtId: 'd1',
+      species: 'broiler',
+      livestockType: 'poultry',
+      population: 1000,
+    },
+    {
+      farmId: `${farmId}-n`,
+      districtId: 'd2',
+      species: 'broiler',
+      livestockType: 'poultry',
+      population: 1000,
+    },
+  ],
+)
+
+const districts: Array<DistrictLocation> = [
+  { districtId: 'd1', parentId: 'state', latitude: 7.4, longitude: 3.9 },
+  { districtId: 'd2', parentId: 'state', latitude: 7.5, longitude: 4.0 },
+  { districtId: 'd3', parentId: 'state', latitude: 9.0, longitude: 7.5 },
+  { districtId: 'd4', parentId: 'other', latitude: 7.45, longitude: 3.95 },
+  { districtId: 'd5', parentId: 'state', latitude: null, longitude: null },
+]
+
+/** Two deaths a day on every farm, then a surge in the detection window */
+function history(
+  districtId: string,
+  surgeCause: MortalityCause,
+  surgePerDay: number,
+): Array<MortalityEvent> {
+  const farms = ['f1', 'f2', 'f3'].map((f) =>
+    districtId === 'd1' ? f : `${f}-n`,
+  )
+  const events: Array<MortalityEvent> = []
+  for (let day = 0; day < baselineDays + detectionDays; day++) {
+    const surge = day >= baselineDays + detectionDays - 7
+    for (const farmId of farms) {
+      events.push({
+        farmId,
+        districtId,
+        species: 'broiler',
+        date: dayAt(day),
+        quantity: day % 2 === 0 ? 1 : 3,
+        cause: 'unknown',
+      })
+      if (surge) {
+        events.push({
+          farmId,
+          districtId,
+          species: 'broiler',
+          date: dayAt(day),
+          quantity: surgePerDay,
+          cause: surgeCause,
+        })
+      }
+    }
+  }
+  return events
+}
+
+describe('haversineKm', () => {
+  it('measures great-circle distance', () => {
+    const lagos = { latitude: 6.5244, longitude: 3.3792 }
+    const ibadan = { latitude: 7.3775, longitude: 3.947 }
+
+    expect(haversineKm(lagos, ibadan)).toBeGreaterThan(110)
+    expect(haversineKm(lagos, ibadan)).toBeLessThan(115)
+  })
+})
+
+describe('findNeighbourDistricts', () => {
+  it('keeps nearby districts across parents and drops distant siblings', () => {
+    expect(findNeighbourDistricts('d1', districts, 50).sort()).toEqual([
+      'd2',
+      'd4',
+      'd5',
+    ])
+  })
+
+  it('falls back to siblings when coordinates are missing', () => {
+    expect(findNeighbourDistricts('d5', districts, 50).sort()).toEqual([
+      'd1',
+      'd2',
+      'd3',
+    ])
+  })
+})
+
+describe('baselineControlChart', () => {
+  it('stays quiet on a stable series', () => {
+    const series = Array.from({ length: 70 }, (_, i) => (i % 2 ? 3 : 1))
+    const chart = baselineControlChart(series, DEFAULT_DETECTION_OPTIONS)
+
+    expect(chart.cusum).toBeLessThan(DEFAULT_DETECTION_OPTIONS.cusumH)
+    expect(chart.ewma).toBeLessThan(chart.ewmaLimit)
+    expect(chart.baselineMean).toBe(2)
+  })
+
+  it('alarms on a sustained rise', () => {
+    const series = Array.from({ length: 70 }, (_, i) =>
+      i >= 63 ? 8 : i % 2 ? 3 : 1,
+    )
+    const chart = baselineControlChart(series, DEFAULT_DETECTION_OPTIONS)
+
+    expect(chart.cusum).toBeGreaterThan(DEFAULT_DETECTION_OPTIONS.cusumH)
+  })
+})
+
+describe('detectOutbreakSignals', () => {
+  it('ignores a district at its usual mortality', () => {
+    const events = history('d1', 'disease', 0)
+
+    expect(detectOutbreakSignals(events, populations, districts, asOf)).toEqual(
+      [],
+    )
+  })
+
+  it('flags a disease surge across farms', () => {
+    const events = history('d1', 'disease', 6)
+
+    const [signal] = detectOutbreakSignals(events, populations, districts, asOf)
+
+    expect(signal).toMatchObject({
+      districtId: 'd1',
+      species: 'broiler',
+      livestockType: 'poultry',
+    })
+    expect(signal.affectedFarms).toHaveLength(3)
+    expect(signal.diseaseShare).toBeGreaterThan(0.5)
+    expect(signal.recentRate).toBeGreaterThan(signal.baselineRate)
+  })
+
+  it('weights disease deaths above predator deaths', () => {
+    const disease = detectOutbreakSignals(
+      history('d1', 'disease', 6),
+      populations,
+      districts,
+      asOf,
+    )
+    const predator = detectOutbreakSignals(
+      history('d1', 'predator', 6),
+      populations,
+      districts,
+      asOf,
+    )
+
+    expect(disease).toHaveLength(1)
+    expect(predator).toEqual([])
+  })
+
+  it('is more confident when a neighbour signals too', () => {
+    const alone = detectOutbreakSignals(
+      history('d1', 'disease', 6),
+      populations,
+      districts,
+      asOf,
+    )
+    const spreading = detectOutbreakSignals(
+      [...history('d1', 'disease', 6), ...history('d2', 'disease', 6)],
+      populations,
+      districts,
+      asOf,
+    )
+    const d1 = spreading.find((s) => s.districtId === 'd1')!
+
+    expect(d1.neighbourDistrictIds).toEqual(['d2'])
+    expect(d1.confidence).toBeGreaterThan(alone[0].confidence)
+  })
+})
+
+describe('buildEpidemicCurve', () => {
+  it('splits district deaths by cause and adds neighbours and baseline', () => {
+    const events: Array<MortalityEvent> = [
+      ...history('d1', 'disease', 6),
+      ...history('d2', 'disease', 6),
+      ...history('d3', 'disease', 6),
+    ]
+
+    const curve = buildEpidemicCurve(events, {
+      districtId: 'd1',
+      neighbourDistrictIds: ['d2'],
+      start: windowStart,
+      end: asOf,
+      baselineDays,
+    })
+    const last = curve[baselineDays + detectionDays - 1]
+
+    expect(curve).toHaveLength(baselineDays + detectionDays + 1)
+    expect(curve[0].date).toBe(windowStart.toISOString().slice(0, 10))
+    expect(last).toMatchObject({ disease: 18, otherCauses: 9, neighbours: 27 })
+    expect(curve[0].expected).toBe(6)
+  })
+})
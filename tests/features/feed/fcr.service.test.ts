@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest'
+import type { FcrInputs } from '~/features/feed/repository'
+import {
+  buildFcrTracking,
+  calculateFcrForPeriod,
+  resolveTargetFcr,
+} from '~/features/feed/service'
+
+const day = (n: number) => new Date(Date.UTC(2024, 0, 1 + n, 12))
+
+const sample = (n: number, averageWeightKg: string) => ({
+  id: `w-${n}`,
+  batchId: 'batch-1',
+  date: day(n),
+  sampleSize: 20,
+  averageWeightKg,
+  minWeightKg: null,
+  maxWeightKg: null,
+  notes: null,
+  createdAt: day(n),
+})
+
+const inputs: FcrInputs = {
+  batch: {
+    id: 'batch-1',
+    species: 'broiler',
+    initialQuantity: 110,
+    currentQuantity: 100,
+    acquisitionDate: day(0),
+    breedTypicalFcr: null,
+  },
+  // 10kg a day for 21 days
+  feed: Array.from({ length: 21 }, (_, n) => ({
+    date: day(n),
+    quantityKg: '10.00',
+  })),
+  weights: [sample(0, '0.05'), sample(10, '0.5'), sample(20, '1.2')],
+  // 10 birds die on day 15
+  mortality: [{ date: day(15), quantity: 10 }],
+}
+
+describe('FCR tracking', () => {
+  describe('resolveTargetFcr', () => {
+    it('should prefer the breed FCR over the species target', () => {
+      expect(resolveTargetFcr('1.65', 'broiler')).toBe(1.65)
+      expect(resolveTargetFcr(null, 'Broiler')).toBe(1.8)
+      expect(resolveTargetFcr('0', 'unknown')).toBeNull()
+    })
+  })
+
+  describe('buildFcrTracking', () => {
+    const tracking = buildFcrTracking(inputs)
+
+    it('should count birds that later died in earlier biomass', () => {
+      expect(tracking.points.map((p) => p.population)).toEqual([110, 110, 100])
+      expect(tracking.points.map((p) => p.biomassKg)).toEqual([5.5, 55, 120])
+    })
+
+    it('should measure feed from the first weight sample', () => {
+      expect(tracking.points.map((p) => p.feedSinceBaselineKg)).toEqual([
+        0, 100, 200,
+      ])
+      // 200kg over (120 - 5.5)kg gained
+      expect(tracking.cumulativeFcr).toBe(1.75)
+      // 100kg over (120 - 55)kg gained
+      expect(tracking.periodFcr).toBe(1.54)
+      expect(tracking.points[0].cumulativeFcr).toBeNull()
+    })
+
+    it('should report daily intake per live head', () => {
+      expect(tracking.dailyIntake).toHaveLength(21)
+      expect(tracking.dailyIntake[0].gramsPerHead).toBe(90.9)
+      expect(tracking.dailyIntake[20]).toMatchObject({
+        ageDays: 20,
+        gramsPerHead: 100,
+      })
+      expect(tracking.targetFcr).toBe(1.8)
+    })
+
+    it('should return no FCR without weight samples', () => {
+      const empty = buildFcrTracking({ ...inputs, weights: [] })
+      expect(empty.points).toEqual([])
+      expect(empty.cumulativeFcr).toBeNull()
+    })
+  })
+
+  describe('calculateFcrForPeriod', () => {
+    const { points } = buildFcrTracking(inputs)
+
+    it('should measure between the samples bounding the range', () => {
+      expect(calculateFcrForPeriod(points, day(12), day(25))).toBe(1.54)
+      expect(calculateFcrForPeriod(points, day(-5), day(25))).toBe(1.75)
+    })
+
+    it('should return null without two samples in range', () => {
+      expect(calculateFcrForPeriod(points, day(21), day(25))).toBeNull()
+    })
+  })
+})
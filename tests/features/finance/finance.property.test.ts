@@ -1,6 +1,10 @@
 import { describe, expect, it } from 'vitest'
 import fc from 'fast-check'
-import { calculateBatchProfit, calculateROI } from '~/lib/finance/calculations'
+import {
+  attributeWoolRevenue,
+  calculateBatchProfit,
+  calculateROI,
+} from '~/lib/finance/calculations'
 
 describe('Financial Invariants', () => {
   it('Profit should satisfy P = Revenue - Costs', () => {
@@ -72,4 +76,57 @@ describe('Financial Invariants', () => {
       ),
     )
   })
+
+  it('Attributed revenue should add to profit', () => {
+    fc.assert(
+      fc.property(
+        fc.float({ min: 0, max: 1000000, noNaN: true }), // Revenue
+        fc.float({ min: 0, max: 100000, noNaN: true }), // Attributed
+        (revenue, attributed) => {
+          const base = {
+            totalRevenue: revenue,
+            initialCost: 1000,
+            feedCost: 500,
+            otherExpenses: 0,
+          }
+          const profit = calculateBatchProfit({
+            ...base,
+            attributedRevenue: attributed,
+          })
+
+          expect(
+            Math.abs(profit - (calculateBatchProfit(base) + attributed)),
+          ).toBeLessThan(0.01)
+        },
+      ),
+    )
+  })
+
+  it('Wool shares across batches should sum to the pooled revenue', () => {
+    fc.assert(
+      fc.property(
+        fc.float({ min: 0, max: 1000000, noNaN: true }), // Pooled revenue
+        fc.array(fc.float({ min: 1, max: 5000, noNaN: true }), {
+          minLength: 1,
+          maxLength: 10,
+        }), // Clip per batch
+        (revenue, clips) => {
+          const total = clips.reduce((sum, kg) => sum + kg, 0)
+          const shares = clips.map((kg) =>
+            attributeWoolRevenue(revenue, kg, total),
+          )
+
+          expect(
+            Math.abs(shares.reduce((sum, s) => sum + s, 0) - revenue),
+          ).toBeLessThan(0.01)
+        },
+      ),
+    )
+  })
+
+  it('Wool attribution should be zero when nothing was shorn', () => {
+    expect(attributeWoolRevenue(1000, 0, 0)).toBe(0)
+    expect(attributeWoolRevenue(1000, 0, 600)).toBe(0)
+    expect(attributeWoolRevenue(1000, 150, 600)).toBe(250)
+  })
 })
@@ -0,0 +1,379 @@
+import { describe, expect, it } from 'vitest'
+import type {
+  BatchIntakeProjection,
+  FeedUsageRecord,
+  ForecastBatch,
+  ForecastSupplier,
+} from '~/features/inventory/feed-forecast-service'
+import {
+  buildFeedForecast,
+  describePurchaseOrder,
+  forecastFeedStock,
+  getFeedTypeForAge,
+  interpolateWeight,
+  pickSupplier,
+  projectBatchIntake,
+  suggestPurchaseOrders,
+  validatePurchaseOrderItems,
+} from '~/features/inventory/feed-forecast-service'
+
+const today = new Date(2024, 5, 1)
+const daysFromToday = (n: number) =>
+  new Date(today.getFullYear(), today.getMonth(), today.getDate() + n, 8)
+
+const batch = (overrides: Partial<ForecastBatch> = {}): ForecastBatch => ({
+  id: 'batch-1',
+  batchName: 'Pond A',
+  species: 'Catfish',
+  livestockType: 'fish',
+  currentQuantity: 100,
+  acquisitionDate: daysFromToday(-30),
+  targetHarvestDate: null,
+  breedTypicalFcr: null,
+  ...overrides,
+})
+
+/** One record per day for the two weeks before today */
+const dailyUsage = (
+  feedType: FeedUsageRecord['feedType'],
+  quantityKg: number,
+  overrides: Partial<FeedUsageRecord> = {},
+): Array<FeedUsageRecord> =>
+  Array.from({ length: 14 }, (_, i) => ({
+    batchId: 'batch-1',
+    feedType,
+    date: daysFromToday(-14 + i),
+    quantityKg,
+    cost: 0,
+    supplierId: null,
+    ...overrides,
+  }))
+
+const flatProjection = (
+  feedType: BatchIntakeProjection['daily'][number]['feedType'],
+  quantityKg: number,
+  days = 30,
+): BatchIntakeProjection => ({
+  batchId: 'batch-1',
+  batchName: 'Pond A',
+  species: 'Catfish',
+  basis: 'history',
+  daily: Array.from({ length: days }, () => ({ feedType, quantityKg })),
+  transitions: [],
+})
+
+const supplier = (overrides: Partial<ForecastSupplier> = {}) => ({
+  id: 'sup-1',
+  name: 'Agro Mills',
+  leadTimeDays: 3,
+  products: [],
+  supplierType: 'feed_mill',
+  ...overrides,
+})
+
+describe('getFeedTypeForAge', () => {
+  it('follows the broiler phase schedule', () => {
+    expect(getFeedTypeForAge('Broiler', 'poultry', 10, null)).toBe('starter')
+    expect(getFeedTypeForAge('Broiler', 'poultry', 25, null)).toBe('grower')
+    expect(getFeedTypeForAge('Broiler', 'poultry', 40, null)).toBe('finisher')
+  })
+
+  it('falls back to the last feed, then the livestock default', () => {
+    expect(getFeedTypeForAge('Boer', 'goats', 300, 'hay')).toBe('hay')
+    expect(getFeedTypeForAge('Boer', 'goats', 300, null)).toBe('goat_feed')
+  })
+})
+
+describe('interpolateWeight', () => {
+  const curve = [
+    { day: 0, weightG: 40 },
+    { day: 10, weightG: 240 },
+  ]
+
+  it('interpolates between points', () => {
+    expect(interpolateWeight(curve, 5)).toBe(140)
+  })
+
+  it('holds the ends outside the curve', () => {
+    expect(interpolateWeight(curve, -3)).toBe(40)
+    expect(interpolateWeight(curve, 20)).toBe(240)
+  })
+})
+
+describe('projectBatchIntake', () => {
+  it('holds recent intake flat without a growth curve', () => {
+    const projection = projectBatchIntake(
+      batch(),
+      dailyUsage('fish_feed', 10),
+      [],
+      today,
+      30,
+    )
+
+    expect(projection.basis).toBe('history')
+    expect(projection.daily).toHaveLength(30)
+    expect(projection.daily[0].feedType).toBe('fish_feed')
+    expect(projection.daily[0].quantityKg).toBeCloseTo(10)
+  })
+
+  it('stops after the target harvest date', () => {
+    const projection = projectBatchIntake(
+      batch({ targetHarvestDate: daysFromToday(4) }),
+      dailyUsage('fish_feed', 10),
+      [],
+      today,
+      30,
+    )
+
+    expect(projection.daily).toHaveLength(5)
+  })
+
+  it('reports phase transitions by age', () => {
+    const projection = projectBatchIntake(
+      batch({
+        species: 'Broiler',
+        livestockType: 'poultry',
+        acquisitionDate: daysFromToday(-20),
+      }),
+      dailyUsage('starter', 5),
+      [],
+      today,
+      30,
+    )
+
+    expect(projection.transitions[0]).toMatchObject({
+      day: 2,
+      fromFeedType: 'starter',
+      toFeedType: 'grower',
+    })
+    expect(projection.daily[1].feedType).toBe('starter')
+    expect(projection.daily[2].feedType).toBe('grower')
+  })
+
+  it('feeds the whole growth curve at the target FCR without history', () => {
+    const curve = [
+      { day: 0, weightG: 40 },
+      { day: 10, weightG: 540 },
+    ]
+    const projection = projectBatchIntake(
+      batch({
+        species: 'Broiler',
+        livestockType: 'poultry',
+        currentQuantity: 1,
+        acquisitionDate: today,
+        breedTypicalFcr: '1.6',
+      }),
+      [],
+      curve,
+      today,
+      10,
+    )
+
+    const totalKg = projection.daily.reduce((sum, d) => sum + d.quantityKg, 0)
+    expect(projection.basis).toBe('growth_standard')
+    expect(totalKg).toBeCloseTo(1.6 * 0.5)
+    // Intake rises as the birds grow
+    expect(projection.daily[9].quantityKg).toBeGreaterThan(
+      projection.daily[0].quantityKg,
+    )
+  })
+
+  it('has no basis without history or a growth curve', () => {
+    const projection = projectBatchIntake(batch(), [], [], today, 30)
+
+    expect(projection.basis).toBeNull()
+    expect(projection.daily).toEqual([])
+  })
+})
+
+describe('forecastFeedStock', () => {
+  const stock = [
+    { feedType: 'grower' as const, quantityKg: 100, minThresholdKg: 20 },
+  ]
+
+  it('finds when stock falls below its threshold and runs out', () => {
+    const [forecast] = forecastFeedStock(
+      stock,
+      [flatProjection('grower', 10)],
+      [],
+      today,
+      30,
+    )
+
+    expect(forecast.averageDailyKg).toBe(10)
+    expect(forecast.daysUntilReorder).toBe(8)
+    expect(forecast.daysRemaining).toBe(10)
+  })
+
+  it('counts open orders on their delivery day', () => {
+    const [forecast] = forecastFeedStock(
+      stock,
+      [flatProjection('grower', 10)],
+      [
+        {
+          id: 'po-1',
+          supplierId: null,
+          expectedDeliveryDate: daysFromToday(5),
+          items: [{ feedType: 'grower', quantityKg: 50 }],
+        },
+      ],
+      today,
+      30,
+    )
+
+    expect(forecast.onOrderKg).toBe(50)
+    expect(forecast.daysUntilReorder).toBe(13)
+    expect(forecast.daysRemaining).toBe(15)
+  })
+
+  it('leaves both null when stock lasts the horizon', () => {
+    const [forecast] = forecastFeedStock(stock, [], [], today, 30)
+
+    expect(forecast.daysUntilReorder).toBeNull()
+    expect(forecast.daysRemaining).toBeNull()
+  })
+})
+
+describe('pickSupplier', () => {
+  const suppliers = [
+    supplier({ id: 'sup-1', name: 'Agro Mills', products: ['Grower mash'] }),
+    supplier({
+      id: 'sup-2',
+      name: 'Aqua Supplies',
+      supplierType: 'other',
+      products: ['Fish feed pellets'],
+    }),
+  ]
+
+  it('prefers the supplier the feed was last bought from', () => {
+    const usage = dailyUsage('grower', 10, { supplierId: 'sup-2' })
+
+    expect(pickSupplier('grower', suppliers, usage)?.id).toBe('sup-2')
+  })
+
+  it('falls back to suppliers listing the feed', () => {
+    expect(pickSupplier('grower', suppliers, [])?.id).toBe('sup-1')
+    expect(pickSupplier('fish_feed', suppliers, [])?.id).toBe('sup-2')
+    expect(pickSupplier('hay', suppliers, [])).toBeNull()
+  })
+})
+
+describe('suggestPurchaseOrders', () => {
+  const forecasts = forecastFeedStock(
+    [
+      { feedType: 'grower', quantityKg: 100, minThresholdKg: 20 },
+      { feedType: 'finisher', quantityKg: 1000, minThresholdKg: 20 },
+    ],
+    [flatProjection('grower', 10)],
+    [],
+    today,
+    30,
+  )
+
+  it('orders before the threshold is reached, in whole bags', () => {
+    const [order] = suggestPurchaseOrders(
+      forecasts,
+      new Map([['grower', supplier()]]),
+      new Map([['grower', 0.5]]),
+      today,
+    )
+
+    // 17 days of cover (170kg) + 20kg threshold - 100kg on hand = 90kg
+    expect(order.items).toEqual([
+      { feedType: 'grower', quantityKg: 100, estimatedCost: 50 },
+    ])
+    expect(order.orderByDate).toEqual(new Date(2024, 5, 6))
+    expect(order.expectedDeliveryDate).toEqual(new Date(2024, 5, 9))
+    expect(order.estimatedCost).toBe(50)
+  })
+
+  it('skips feed that lasts beyond the lead time and review window', () => {
+    const suggestions = suggestPurchaseOrders(
+      forecasts,
+      new Map([['grower', supplier({ leadTimeDays: 0 })]]),
+      new Map(),
+      daysFromToday(-10),
+    )
+
+    expect(suggestions).toEqual([])
+  })
+
+  it('groups feed types by supplier', () => {
+    const both = forecastFeedStock(
+      [
+        { feedType: 'grower', quantityKg: 100, minThresholdKg: 20 },
+        { feedType: 'finisher', quantityKg: 50, minThresholdKg: 20 },
+      ],
+      [flatProjection('grower', 10), flatProjection('finisher', 5)],
+      [],
+      today,
+      30,
+    )
+    const suggestions = suggestPurchaseOrders(
+      both,
+      new Map([
+        ['grower', supplier()],
+        ['finisher', supplier()],
+      ]),
+      new Map([['grower', 0.5]]),
+      today,
+    )
+
+    expect(suggestions).toHaveLength(1)
+    // Finisher reaches its threshold first
+    expect(suggestions[0].items.map((i) => i.feedType)).toEqual([
+      'finisher',
+      'grower',
+    ])
+    // Finisher has no price, so the order total is unknown
+    expect(suggestions[0].estimatedCost).toBeNull()
+  })
+})
+
+describe('buildFeedForecast', () => {
+  it('lists batches it cannot project', () => {
+    const forecast = buildFeedForecast({
+      today,
+      horizonDays: 30,
+      batches: [batch(), batch({ id: 'batch-2', batchName: 'Pond B' })],
+      usage: dailyUsage('fish_feed', 10),
+      growthCurves: new Map(),
+      stock: [{ feedType: 'fish_feed', quantityKg: 100, minThresholdKg: 20 }],
+      suppliers: [],
+      openOrders: [],
+    })
+
+    expect(forecast.unforecastBatches).toEqual([
+      { batchId: 'batch-2', batchName: 'Pond B' },
+    ])
+    expect(forecast.feedTypes[0].daysRemaining).toBe(10)
+    expect(forecast.suggestions[0].supplierId).toBeNull()
+  })
+})
+
+describe('purchase order items', () => {
+  it('validates quantities and duplicates', () => {
+    expect(
+      validatePurchaseOrderItems([{ feedType: 'grower', quantityKg: 100 }]),
+    ).toBeNull()
+    expect(validatePurchaseOrderItems([])).not.toBeNull()
+    expect(
+      validatePurchaseOrderItems([{ feedType: 'grower', quantityKg: 0 }]),
+    ).not.toBeNull()
+    expect(
+      validatePurchaseOrderItems([
+        { feedType: 'grower', quantityKg: 100 },
+        { feedType: 'grower', quantityKg: 50 },
+      ]),
+    ).not.toBeNull()
+  })
+
+  it('describes the order for its expense', () => {
+    expect(
+      describePurchaseOrder([
+        { feedType: 'starter', quantityKg: 500 },
+        { feedType: 'layer_mash', quantityKg: 250 },
+      ]),
+    ).toBe('Feed order: Starter 500kg, Layer Mash 250kg')
+  })
+})
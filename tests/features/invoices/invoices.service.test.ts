@@ -2,11 +2,17 @@ import { describe, expect, it } from 'vitest'
 import * as fc from 'fast-check'
 import type { CreateInvoiceInput } from '~/features/invoices/server'
 import {
+  calculateAgedReceivables,
+  calculateAmountPaid,
+  calculateBalanceDue,
   calculateInvoiceTotal,
   calculateItemTotal,
+  deriveInvoiceStatus,
+  derivePaidDate,
   generateInvoiceNumber,
+  getAgingBucket,
   validateInvoiceData,
-  validateUpdateData,
+  validatePaymentData,
 } from '~/features/invoices/service'
 
 describe('Invoice Service', () => {
@@ -233,20 +239,132 @@ describe('Invoice Service', () => {
     })
   })
 
-  describe('validateUpdateData', () => {
-    it('should accept valid status', () => {
-      expect(validateUpdateData({ status: 'unpaid' })).toBeNull()
-      expect(validateUpdateData({ status: 'partial' })).toBeNull()
-      expect(validateUpdateData({ status: 'paid' })).toBeNull()
+  describe('payments', () => {
+    it('should sum payment amounts from DECIMAL strings', () => {
+      expect(
+        calculateAmountPaid([{ amount: '100.10' }, { amount: '0.20' }]),
+      ).toBe(100.3)
+      expect(calculateAmountPaid([])).toBe(0)
     })
 
-    it('should accept empty update object', () => {
-      expect(validateUpdateData({})).toBeNull()
+    it('should never report a negative balance', () => {
+      expect(calculateBalanceDue('1000.00', 400)).toBe(600)
+      expect(calculateBalanceDue(1000, 1200)).toBe(0)
     })
 
-    it('should reject invalid status', () => {
-      const result = validateUpdateData({ status: 'invalid' as any })
-      expect(result).toBe('Status must be one of: unpaid, partial, paid')
+    it('should derive status from the amount paid', () => {
+      expect(deriveInvoiceStatus('1000.00', 0)).toBe('unpaid')
+      expect(deriveInvoiceStatus('1000.00', 0.01)).toBe('partial')
+      expect(deriveInvoiceStatus('1000.00', '1000.00')).toBe('paid')
+    })
+
+    it('should set the paid date to the payment that settled the invoice', () => {
+      const payments = [
+        { amount: '600.00', date: new Date('2025-02-01') },
+        { amount: '400.00', date: new Date('2025-03-05') },
+      ]
+      expect(derivePaidDate('1000.00', payments)).toEqual(
+        new Date('2025-03-05'),
+      )
+      expect(derivePaidDate('1000.00', payments.slice(0, 1))).toBeNull()
+    })
+
+    it('should validate payments against the outstanding balance', () => {
+      const date = new Date('2025-01-15')
+      expect(validatePaymentData({ amount: 200, date }, 500)).toBeNull()
+      expect(validatePaymentData({ amount: 500, date }, 500)).toBeNull()
+      expect(validatePaymentData({ amount: 0, date }, 500)).toBe(
+        'Payment amount must be greater than 0',
+      )
+      expect(validatePaymentData({ amount: 500.01, date }, 500)).toContain(
+        'exceeds the outstanding balance',
+      )
+      expect(validatePaymentData({ amount: 10, date }, 0)).toBe(
+        'Invoice is already fully paid',
+      )
+    })
+
+    it('should reject future payment dates', () => {
+      const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000)
+      expect(validatePaymentData({ amount: 10, date: tomorrow }, 100)).toBe(
+        'Payment date cannot be in the future',
+      )
+    })
+  })
+
+  describe('aged receivables', () => {
+    const asOf = new Date('2025-06-30')
+
+    it('should bucket by days past due', () => {
+      expect(getAgingBucket(new Date('2025-07-10'), asOf)).toBe('current')
+      expect(getAgingBucket(new Date('2025-06-30'), asOf)).toBe('current')
+      expect(getAgingBucket(new Date('2025-05-31'), asOf)).toBe('days1to30')
+      expect(getAgingBucket(new Date('2025-05-30'), asOf)).toBe('days31to60')
+      expect(getAgingBucket(new Date('2025-04-15'), asOf)).toBe('days61to90')
+      expect(getAgingBucket(new Date('2025-03-01'), asOf)).toBe('over90')
+    })
+
+    it('should group outstanding balances per customer', () => {
+      const rows = calculateAgedReceivables(
+        [
+          {
+            customerId: 'c1',
+            customerName: 'Golden Restaurant',
+            date: new Date('2025-06-01'),
+            dueDate: new Date('2025-06-15'),
+            totalAmount: '1000.00',
+            amountPaid: '250.00',
+          },
+          {
+            customerId: 'c1',
+            customerName: 'Golden Restaurant',
+            date: new Date('2025-02-01'),
+            dueDate: null,
+            totalAmount: '500.00',
+            amountPaid: '0',
+          },
+          {
+            customerId: 'c2',
+            customerName: 'Mama Put',
+            date: new Date('2025-06-20'),
+            dueDate: new Date('2025-07-20'),
+            totalAmount: '300.00',
+            amountPaid: '0',
+          },
+          {
+            customerId: 'c3',
+            customerName: 'Settled Ltd',
+            date: new Date('2025-01-01'),
+            dueDate: null,
+            totalAmount: '100.00',
+            amountPaid: '100.00',
+          },
+        ],
+        asOf,
+      )
+
+      expect(rows).toEqual([
+        {
+          customerId: 'c1',
+          customerName: 'Golden Restaurant',
+          current: 0,
+          days1to30: 750,
+          days31to60: 0,
+          days61to90: 0,
+          over90: 500,
+          total: 1250,
+        },
+        {
+          customerId: 'c2',
+          customerName: 'Mama Put',
+          current: 300,
+          days1to30: 0,
+          days31to60: 0,
+          days61to90: 0,
+          over90: 0,
+          total: 300,
+        },
+      ])
     })
   })
 })
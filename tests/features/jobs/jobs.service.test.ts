@@ -0,0 +1,213 @@
+import { describe, expect, it } from 'vitest'
+import type { JobRun } from '~/features/jobs/types'
+import { JOBS } from '~/features/jobs/registry'
+import {
+  JOB_RUN_TIMEOUT_MS,
+  buildJobStatuses,
+  cronMatches,
+  formatJobDuration,
+  formatJobError,
+  formatJobResult,
+  getJobHealth,
+  getJobsDueAt,
+  isJobRunActive,
+} from '~/features/jobs/service'
+import { JOB_NAMES } from '~/features/jobs/types'
+
+const now = new Date('2026-03-01T12:00:00Z')
+
+function makeRun(overrides: Partial<JobRun> = {}): JobRun {
+  return {
+    id: 'run-1',
+    jobName: 'expire-access',
+    trigger: 'cron',
+    cron: '0 */6 * * *',
+    triggeredBy: null,
+    triggeredByName: null,
+    status: 'success',
+    startedAt: new Date('2026-03-01T06:00:00Z'),
+    finishedAt: new Date('2026-03-01T06:00:02Z'),
+    durationMs: 2000,
+    result: { grantsExpired: 1 },
+    error: null,
+    ...overrides,
+  }
+}
+
+describe('Jobs Service', () => {
+  describe('registry', () => {
+    it('should register every job name exactly once', () => {
+      expect(JOBS.map((job) => job.name).sort()).toEqual([...JOB_NAMES].sort())
+    })
+  })
+
+  describe('cronMatches', () => {
+    it('should match fixed minute and hour', () => {
+      expect(cronMatches('0 9 * * *', new Date('2026-03-01T09:00:00Z'))).toBe(
+        true,
+      )
+      expect(cronMatches('0 9 * * *', new Date('2026-03-01T09:15:00Z'))).toBe(
+        false,
+      )
+    })
+
+    it('should match steps, ranges and lists', () => {
+      const at = new Date('2026-03-01T12:45:00Z')
+      expect(cronMatches('*/15 * * * *', at)).toBe(true)
+      expect(cronMatches('0 */6 * * *', at)).toBe(false)
+      expect(cronMatches('45 10-14 * * *', at)).toBe(true)
+      expect(cronMatches('0,30 * * * *', at)).toBe(false)
+    })
+
+    it('should match either day field when both are restricted', () => {
+      // 2026-03-01 is a Sunday
+      const sunday = new Date('2026-03-01T00:00:00Z')
+      expect(cronMatches('0 0 15 * 0', sunday)).toBe(true)
+      expect(cronMatches('0 0 * * 7', sunday)).toBe(true)
+      expect(cronMatches('0 0 * * 1-5', sunday)).toBe(false)
+    })
+
+    it('should ignore seconds within the minute', () => {
+      expect(
+        cronMatches('0 * * * *', new Date('2026-03-01T12:00:04.500Z')),
+      ).toBe(true)
+    })
+
+    it('should reject malformed expressions', () => {
+      expect(cronMatches('0 * * *', now)).toBe(false)
+      expect(cronMatches('x * * * *', now)).toBe(false)
+    })
+  })
+
+  describe('getJobsDueAt', () => {
+    it('should return every job due at the scheduled time', () => {
+      const jobs = getJobsDueAt(JOBS, new Date('2026-03-01T12:00:00Z'))
+      expect(jobs.map((job) => job.name)).toEqual([
+        'expire-access',
+        'sensor-aggregation',
+        'sensor-alert-escalation',
+      ])
+    })
+
+    it('should only run the quarter-hourly job between hours', () => {
+      const jobs = getJobsDueAt(JOBS, new Date('2026-03-01T12:15:00Z'))
+      expect(jobs.map((job) => job.name)).toEqual(['sensor-alert-escalation'])
+    })
+
+    it('should return empty array when nothing is due', () => {
+      expect(getJobsDueAt(JOBS, new Date('2026-03-01T12:05:00Z'))).toEqual([])
+    })
+
+    it('should run every registered job on the quarter-hourly trigger', () => {
+      const due = new Set<string>()
+      for (let minute = 0; minute < 24 * 60; minute += 15) {
+        const at = new Date(now.getTime() - 12 * 3_600_000 + minute * 60_000)
+        for (const job of getJobsDueAt(JOBS, at)) due.add(job.name)
+      }
+      expect([...due].sort()).toEqual([...JOB_NAMES].sort())
+    })
+  })
+
+  describe('isJobRunActive', () => {
+    it('should be active while running within the timeout', () => {
+      const startedAt = new Date(now.getTime() - 60_000)
+      expect(isJobRunActive({ status: 'running', startedAt }, now)).toBe(true)
+    })
+
+    it('should not be active once the timeout has passed', () => {
+      const startedAt = new Date(now.getTime() - JOB_RUN_TIMEOUT_MS)
+      expect(isJobRunActive({ status: 'running', startedAt }, now)).toBe(false)
+    })
+
+    it('should not be active when finished', () => {
+      expect(isJobRunActive({ status: 'success', startedAt: now }, now)).toBe(
+        false,
+      )
+    })
+  })
+
+  describe('getJobHealth', () => {
+    it('should return never_run without a run', () => {
+      expect(getJobHealth(null, now)).toBe('never_run')
+    })
+
+    it('should return the status of a finished run', () => {
+      expect(getJobHealth(makeRun(), now)).toBe('success')
+      expect(getJobHealth(makeRun({ status: 'failed' }), now)).toBe('failed')
+    })
+
+    it('should treat a stale running run as failed', () => {
+      const run = makeRun({
+        status: 'running',
+        startedAt: new Date(now.getTime() - JOB_RUN_TIMEOUT_MS - 1),
+      })
+      expect(getJobHealth(run, now)).toBe('failed')
+    })
+
+    it('should report a recent running run as running', () => {
+      const run = makeRun({ status: 'running', startedAt: now })
+      expect(getJobHealth(run, now)).toBe('running')
+    })
+  })
+
+  describe('buildJobStatuses', () => {
+    it('should pair each job with its last run in registry order', () => {
+      const lastRun = makeRun({ jobName: 'outbreak-detection' })
+      const statuses = buildJobStatuses(JOBS, [lastRun], now)
+
+      expect(statuses.map((s) => s.name)).toEqual(JOBS.map((j) => j.name))
+      const outbreak = statuses.find((s) => s.name === 'outbreak-detection')
+      expect(outbreak?.lastRun).toBe(lastRun)
+      expect(outbreak?.health).toBe('success')
+    })
+
+    it('should mark jobs without runs as never_run', () => {
+      const statuses = buildJobStatuses(JOBS, [], now)
+      expect(statuses.every((s) => s.health === 'never_run')).toBe(true)
+      expect(statuses.every((s) => s.lastRun === null)).toBe(true)
+    })
+  })
+
+  describe('formatJobError', () => {
+    it('should use the message of an Error', () => {
+      expect(formatJobError(new Error('Connection refused'))).toBe(
+        'Connection refused',
+      )
+    })
+
+    it('should stringify non-Error values', () => {
+      expect(formatJobError('boom')).toBe('boom')
+      expect(formatJobError(undefined)).toBe('Unknown error')
+    })
+
+    it('should truncate very long messages', () => {
+      const message = formatJobError(new Error('x'.repeat(5000)))
+      expect(message).toHaveLength(2000)
+      expect(message.endsWith('…')).toBe(true)
+    })
+  })
+
+  describe('formatJobDuration', () => {
+    it('should format milliseconds, seconds and minutes', () => {
+      expect(formatJobDuration(850)).toBe('850 ms')
+      expect(formatJobDuration(12_300)).toBe('12.3 s')
+      expect(formatJobDuration(125_000)).toBe('2m 5s')
+    })
+  })
+
+  describe('formatJobResult', () => {
+    it('should list key/value pairs', () => {
+      expect(formatJobResult({ grantsExpired: 2, requestsExpired: 0 })).toBe(
+        'grantsExpired: 2, requestsExpired: 0',
+      )
+    })
+
+    it('should skip null values', () => {
+      expect(formatJobResult({ hourly: 5, daily: null })).toBe('hourly: 5')
+    })
+
+    it('should return empty string without a result', () => {
+      expect(formatJobResult(null)).toBe('')
+    })
+  })
+})
@@ -0,0 +1,229 @@
+import { describe, expect, it } from 'vitest'
+import type { CreateMilkRecordInput } from '~/features/milk/types'
+import {
+  buildMilkSummary,
+  calculateAvailableMilk,
+  calculateAverageButterfat,
+  calculateDailyYield,
+  calculateMilkTotals,
+  calculateYieldPerAnimal,
+  getWithdrawalEndDate,
+  validateMilkRecordData,
+  validateUpdateData,
+} from '~/features/milk/service'
+
+describe('Milk Service', () => {
+  describe('validateMilkRecordData', () => {
+    const validData: CreateMilkRecordInput = {
+      batchId: 'batch-1',
+      date: new Date('2025-03-01'),
+      morningLiters: 42,
+      eveningLiters: 38,
+      rejectedLiters: 0,
+    }
+
+    it('should accept valid data', () => {
+      expect(validateMilkRecordData(validData)).toBeNull()
+    })
+
+    it('should reject empty batch ID', () => {
+      expect(validateMilkRecordData({ ...validData, batchId: ' ' })).toBe(
+        'Batch ID is required',
+      )
+    })
+
+    it('should reject an invalid date', () => {
+      expect(
+        validateMilkRecordData({ ...validData, date: new Date('invalid') }),
+      ).toBe('Valid milking date is required')
+    })
+
+    it('should reject negative yields', () => {
+      expect(validateMilkRecordData({ ...validData, morningLiters: -1 })).toBe(
+        'Milk quantities cannot be negative',
+      )
+    })
+
+    it('should reject a day with no milk', () => {
+      expect(
+        validateMilkRecordData({
+          ...validData,
+          morningLiters: 0,
+          eveningLiters: 0,
+        }),
+      ).toBe('Morning or evening yield must be greater than 0')
+    })
+
+    it('should reject more rejected milk than was milked', () => {
+      expect(
+        validateMilkRecordData({
+          ...validData,
+          rejectedLiters: 81,
+          rejectionReason: 'mastitis',
+        }),
+      ).toBe('Rejected quantity cannot exceed the total milked')
+    })
+
+    it('should require a reason when milk is rejected', () => {
+      expect(validateMilkRecordData({ ...validData, rejectedLiters: 5 })).toBe(
+        'Rejection reason is required when milk is rejected',
+      )
+    })
+
+    it('should accept fully rejected milk with a reason', () => {
+      expect(
+        validateMilkRecordData({
+          ...validData,
+          rejectedLiters: 80,
+          rejectionReason: 'withdrawal',
+        }),
+      ).toBeNull()
+    })
+
+    it('should reject butterfat out of range', () => {
+      expect(
+        validateMilkRecordData({ ...validData, butterfatPercent: 20 }),
+      ).toBe('Butterfat must be between 0 and 15%')
+    })
+
+    it('should reject a fractional animal count', () => {
+      expect(validateMilkRecordData({ ...validData, animalsMilked: 2.5 })).toBe(
+        'Animals milked must be a positive whole number',
+      )
+    })
+  })
+
+  describe('validateUpdateData', () => {
+    it('should accept a partial update', () => {
+      expect(validateUpdateData({ eveningLiters: 40 })).toBeNull()
+    })
+
+    it('should not compare rejected litres without a total', () => {
+      expect(
+        validateUpdateData({ rejectedLiters: 500, rejectionReason: 'spoiled' }),
+      ).toBeNull()
+    })
+
+    it('should reject an invalid reason', () => {
+      expect(validateUpdateData({ rejectionReason: 'sour' as 'spoiled' })).toBe(
+        'Invalid rejection reason',
+      )
+    })
+  })
+
+  describe('calculateDailyYield', () => {
+    it('should add morning and evening yields from strings or numbers', () => {
+      expect(calculateDailyYield(42.5, '38.25')).toBe(80.75)
+    })
+  })
+
+  describe('calculateMilkTotals', () => {
+    it('should total milked, rejected and saleable litres', () => {
+      expect(
+        calculateMilkTotals([
+          { morningLiters: '40', eveningLiters: '35', rejectedLiters: '0' },
+          { morningLiters: '38', eveningLiters: '36', rejectedLiters: '74' },
+        ]),
+      ).toEqual({ totalLiters: 149, totalRejected: 74, totalSaleable: 75 })
+    })
+
+    it('should return zeros for no records', () => {
+      expect(calculateMilkTotals([])).toEqual({
+        totalLiters: 0,
+        totalRejected: 0,
+        totalSaleable: 0,
+      })
+    })
+  })
+
+  describe('calculateAverageButterfat', () => {
+    it('should weight butterfat by volume and skip untested days', () => {
+      expect(
+        calculateAverageButterfat([
+          { morningLiters: 30, eveningLiters: 30, butterfatPercent: 4 },
+          { morningLiters: 10, eveningLiters: 10, butterfatPercent: '6' },
+          { morningLiters: 50, eveningLiters: 50, butterfatPercent: null },
+        ]),
+      ).toBe(4.5)
+    })
+
+    it('should return null when nothing was tested', () => {
+      expect(
+        calculateAverageButterfat([
+          { morningLiters: 30, eveningLiters: 30, butterfatPercent: null },
+        ]),
+      ).toBeNull()
+    })
+  })
+
+  describe('calculateYieldPerAnimal', () => {
+    it('should divide litres by animals milked', () => {
+      expect(calculateYieldPerAnimal(80, 6)).toBe(13.33)
+    })
+
+    it('should return 0 without animals', () => {
+      expect(calculateYieldPerAnimal(80, 0)).toBe(0)
+    })
+  })
+
+  describe('buildMilkSummary / calculateAvailableMilk', () => {
+    it('should subtract rejected and sold milk from what is available', () => {
+      const summary = buildMilkSummary(
+        [
+          {
+            morningLiters: '40',
+            eveningLiters: '40',
+            rejectedLiters: '10',
+            butterfatPercent: '4.00',
+          },
+        ],
+        30,
+      )
+
+      expect(summary).toEqual({
+        totalLiters: 80,
+        totalRejected: 10,
+        totalSold: 30,
+        available: 40,
+        averageButterfat: 4,
+        recordCount: 1,
+      })
+    })
+
+    it('should never report negative stock', () => {
+      expect(calculateAvailableMilk(10, 25)).toBe(0)
+    })
+  })
+
+  describe('getWithdrawalEndDate', () => {
+    const treatment = { batchId: 'batch-1', medicationName: 'Oxytetracycline' }
+    const treatments = [
+      { ...treatment, date: new Date('2025-03-01'), withdrawalDays: 4 },
+      { ...treatment, date: new Date('2025-03-02'), withdrawalDays: 7 },
+    ]
+
+    it('should return the latest covering withdrawal end', () => {
+      expect(getWithdrawalEndDate(treatments, new Date('2025-03-03'))).toEqual(
+        new Date('2025-03-09'),
+      )
+    })
+
+    it('should return null outside every withdrawal period', () => {
+      expect(
+        getWithdrawalEndDate(treatments, new Date('2025-03-10')),
+      ).toBeNull()
+      expect(
+        getWithdrawalEndDate(treatments, new Date('2025-02-28')),
+      ).toBeNull()
+    })
+
+    it('should ignore treatments without a withdrawal period', () => {
+      expect(
+        getWithdrawalEndDate(
+          [{ ...treatment, date: new Date('2025-03-01'), withdrawalDays: 0 }],
+          new Date('2025-03-01'),
+        ),
+      ).toBeNull()
+    })
+  })
+})
@@ -1,6 +1,8 @@
 import { describe, expect, it } from 'vitest'
 import * as fc from 'fast-check'
 import {
+  checkBreedingAlerts,
+  checkFeedAlerts,
   checkInventoryAlerts,
   checkMortalityAlerts,
   checkVaccinationAlerts,
@@ -21,6 +23,7 @@ const baseBatch = {
 const baseThresholds = {
   mortalityAlertPercent: 2,
   mortalityAlertQuantity: 10,
+  fcrAlertTolerancePercent: 20,
 }
 
 describe('checkMortalityAlerts', () => {
@@ -102,6 +105,45 @@ describe('checkMortalityAlerts', () => {
   })
 })
 
+describe('checkFeedAlerts', () => {
+  const tracking = (
+    cumulativeFcr: number | null,
+    periodFcr: number | null,
+  ) => ({
+    points: [],
+    dailyIntake: [],
+    cumulativeFcr,
+    periodFcr,
+    targetFcr: 1.6,
+  })
+
+  it('should not alert within tolerance or without a target', () => {
+    expect(checkFeedAlerts(baseBatch, tracking(1.9, 1.9), 20)).toHaveLength(0)
+    expect(
+      checkFeedAlerts(baseBatch, { ...tracking(3, 3), targetFcr: null }, 20),
+    ).toHaveLength(0)
+    expect(checkFeedAlerts(baseBatch, null, 20)).toHaveLength(0)
+  })
+
+  it('should escalate cumulative FCR beyond twice the tolerance', () => {
+    const [warning] = checkFeedAlerts(baseBatch, tracking(2, null), 20)
+    expect(warning.type).toBe('warning')
+    const [critical] = checkFeedAlerts(baseBatch, tracking(2.3, null), 20)
+    expect(critical.type).toBe('critical')
+  })
+
+  it('should warn when period FCR drifts while cumulative is on target', () => {
+    const alerts = checkFeedAlerts(baseBatch, tracking(1.7, 2.2), 20)
+    expect(alerts).toHaveLength(1)
+    expect(alerts[0].message).toContain('FCR Drifting')
+  })
+
+  it('should use the configured tolerance', () => {
+    expect(checkFeedAlerts(baseBatch, tracking(1.8, null), 10)).toHaveLength(1)
+    expect(checkFeedAlerts(baseBatch, tracking(1.8, null), 20)).toHaveLength(0)
+  })
+})
+
 describe('checkWaterQualityAlerts', () => {
   it('should return empty array when no water quality data', () => {
     const alerts = checkWaterQualityAlerts(baseBatch, null)
@@ -196,6 +238,57 @@ describe('checkVaccinationAlerts', () => {
   })
 })
 
+describe('checkBreedingAlerts', () => {
+  const asOf = new Date('2025-06-15')
+  const goatBatch = {
+    ...baseBatch,
+    species: 'Boer',
+    livestockType: 'goats' as const,
+  }
+  const due = (expectedDueDate: string, damTag: string | null = null) => ({
+    id: 'e1',
+    expectedDueDate: new Date(expectedDueDate),
+    femaleCount: damTag ? 1 : 8,
+    damTag,
+  })
+
+  it('should ignore births due more than a week ahead', () => {
+    expect(
+      checkBreedingAlerts(goatBatch, [due('2025-06-30')], asOf),
+    ).toHaveLength(0)
+  })
+
+  it('should give notice of births due within a week', () => {
+    const [alert] = checkBreedingAlerts(goatBatch, [due('2025-06-20')], asOf)
+    expect(alert).toMatchObject({
+      id: 'birth-due-e1',
+      type: 'info',
+      source: 'breeding',
+      message: 'Birth due in 5 days: 8 female(s)',
+    })
+  })
+
+  it('should warn on overdue births', () => {
+    const [alert] = checkBreedingAlerts(
+      goatBatch,
+      [due('2025-06-10', 'G-014')],
+      asOf,
+    )
+    expect(alert).toMatchObject({
+      id: 'birth-overdue-e1',
+      type: 'warning',
+      value: 5,
+      message: 'Birth overdue by 5 days: G-014',
+    })
+  })
+
+  it('should escalate births long overdue', () => {
+    const [alert] = checkBreedingAlerts(goatBatch, [due('2025-05-01')], asOf)
+    expect(alert.type).toBe('critical')
+    expect(alert.metadata).toMatchObject({ type: 'breeding', daysOverdue: 45 })
+  })
+})
+
 describe('checkInventoryAlerts', () => {
   it('should alert on low stock (<10% remaining)', () => {
     const lowStockBatch = { ...baseBatch, currentQuantity: 80 } // 8% of 1000
@@ -3,11 +3,15 @@ import * as fc from 'fast-check'
 import type { ReportConfigData } from '~/features/reports/service'
 import {
   aggregateReportData,
+  calculateApiaryReport,
+  calculateBreedingReport,
   calculateDateRange,
   calculateEggInventory,
   calculateLayingPercentage,
+  calculateMilkReport,
   calculateMortalityRate,
   calculateProfitMargin,
+  calculateWoolAttribution,
   formatReportOutput,
   validateReportConfig,
   validateUpdateData,
@@ -445,4 +449,281 @@ describe('Reports Service', () => {
       expect(result[1].inventory).toBe(50)
     })
   })
+
+  describe('calculateMilkReport', () => {
+    const day = (
+      date: string,
+      values: Partial<Parameters<typeof calculateMilkReport>[0][number]>,
+    ) => ({
+      date: new Date(date),
+      morning: null,
+      evening: null,
+      rejected: null,
+      butterfatWeighted: null,
+      testedLiters: null,
+      animalsMilked: null,
+      countedLiters: null,
+      ...values,
+    })
+
+    it('should build daily rows with saleable litres and butterfat', () => {
+      const { records } = calculateMilkReport(
+        [
+          day('2025-03-02', {
+            morning: '40.00',
+            evening: '35.00',
+            rejected: '5.00',
+            butterfatWeighted: '300',
+            testedLiters: '75',
+          }),
+        ],
+        0,
+      )
+
+      expect(records[0]).toMatchObject({
+        total: 75,
+        rejected: 5,
+        saleable: 70,
+        averageButterfat: 4,
+      })
+    })
+
+    it('should weight period averages by volume and head count', () => {
+      const { summary } = calculateMilkReport(
+        [
+          day('2025-03-02', {
+            morning: '50',
+            evening: '50',
+            butterfatWeighted: '400',
+            testedLiters: '100',
+            animalsMilked: '5',
+            countedLiters: '100',
+          }),
+          day('2025-03-01', {
+            morning: '30',
+            evening: '20',
+            rejected: '50',
+          }),
+        ],
+        40,
+      )
+
+      expect(summary).toEqual({
+        totalLiters: 150,
+        totalRejected: 50,
+        totalSaleable: 100,
+        totalSold: 40,
+        averageDailyYield: 75,
+        averageYieldPerAnimal: 20,
+        averageButterfat: 4,
+      })
+    })
+
+    it('should return empty totals without records', () => {
+      const { records, summary } = calculateMilkReport([], 0)
+      expect(records).toEqual([])
+      expect(summary.averageDailyYield).toBe(0)
+      expect(summary.averageButterfat).toBeNull()
+    })
+  })
+
+  describe('calculateApiaryReport', () => {
+    const hives = [
+      { id: 'h1', name: 'Hive 1', status: 'active' },
+      { id: 'h2', name: 'Hive 2', status: 'active' },
+      { id: 'h3', name: 'Empty Box', status: 'empty' },
+    ]
+
+    it('should total harvests per hive and per colony', () => {
+      const { records, summary } = calculateApiaryReport(
+        hives,
+        [
+          { structureId: 'h1', product: 'honey', quantityKg: '20.00' },
+          { structureId: 'h1', product: 'wax', quantityKg: '1.50' },
+          { structureId: 'h2', product: 'honey', quantityKg: '10.00' },
+        ],
+        [],
+      )
+
+      expect(records.map((r) => r.hiveName)).toEqual(['Hive 1', 'Hive 2'])
+      expect(records[0]).toMatchObject({ honeyKg: 20, waxKg: 1.5 })
+      expect(summary).toMatchObject({
+        colonyCount: 2,
+        totalHoneyKg: 30,
+        totalWaxKg: 1.5,
+        honeyPerColony: 15,
+        waxPerColony: 0.75,
+      })
+    })
+
+    it('should flag hives from their latest inspection', () => {
+      const { records, summary } = calculateApiaryReport(
+        hives,
+        [],
+        [
+          {
+            structureId: 'h1',
+            date: new Date('2025-05-10'),
+            queenSeen: true,
+            broodPattern: 'solid',
+            swarmCells: 2,
+            varroaCount: 12,
+          },
+          {
+            structureId: 'h1',
+            date: new Date('2025-04-10'),
+            queenSeen: true,
+            broodPattern: 'solid',
+            swarmCells: 0,
+            varroaCount: 1,
+          },
+        ],
+      )
+
+      expect(records[0]).toMatchObject({
+        inspections: 2,
+        lastInspection: new Date('2025-05-10'),
+        latestVarroaCount: 12,
+        needsAttention: true,
+      })
+      expect(summary.hivesNeedingAttention).toBe(1)
+    })
+
+    it('should keep inactive hives that produced in the period', () => {
+      const { records } = calculateApiaryReport(
+        hives,
+        [{ structureId: 'h3', product: 'wax', quantityKg: '0.50' }],
+        [],
+      )
+
+      expect(records.map((r) => r.hiveName)).toContain('Empty Box')
+    })
+  })
+  describe('calculateWoolAttribution', () => {
+    const clips = [
+      {
+        fleeceCount: 100,
+        greasyWeightKg: '450.00',
+        micronGrade: '19.0',
+        yieldPercent: '60.00',
+      },
+      {
+        fleeceCount: 50,
+        greasyWeightKg: '150.00',
+        micronGrade: null,
+        yieldPercent: null,
+      },
+    ]
+
+    it('should set wool revenue against the clip', () => {
+      expect(calculateWoolAttribution(clips, 90000)).toEqual({
+        fleeceCount: 150,
+        greasyWeightKg: 600,
+        cleanWeightKg: 270,
+        revenue: 90000,
+        revenuePerFleece: 600,
+        revenuePerKg: 150,
+      })
+    })
+
+    it('should report a clip with no sales yet', () => {
+      expect(calculateWoolAttribution(clips, 0)).toMatchObject({
+        revenue: 0,
+        revenuePerFleece: 0,
+        revenuePerKg: 0,
+      })
+    })
+
+    it('should report wool sold from an earlier clip', () => {
+      expect(calculateWoolAttribution([], 5000)).toMatchObject({
+        fleeceCount: 0,
+        revenue: 5000,
+        revenuePerKg: 0,
+      })
+    })
+
+    it('should return null without shearing or wool sales', () => {
+      expect(calculateWoolAttribution([], 0)).toBeNull()
+    })
+  })
+
+  describe('calculateBreedingReport', () => {
+    const asOf = new Date('2025-08-01')
+    const event = {
+      batchId: 'b1',
+      damId: null,
+      livestockType: 'goats',
+      femaleCount: 10,
+      status: 'delivered' as const,
+      expectedDueDate: new Date('2025-06-01'),
+      batchName: 'Does 2025',
+      species: 'boer',
+    }
+
+    it('should compute kidding rate and weaning percent per batch', () => {
+      const { records, summary } = calculateBreedingReport(
+        [
+          { ...event, id: 'e1' },
+          {
+            ...event,
+            id: 'e2',
+            batchId: 'b2',
+            femaleCount: 5,
+            status: 'pregnant',
+            expectedDueDate: new Date('2025-07-01'),
+            batchName: null,
+          },
+        ],
+        [
+          {
+            breedingEventId: 'e1',
+            damId: null,
+            birthDate: new Date('2025-06-02'),
+            liveBorn: 17,
+            stillborn: 1,
+            weanedCount: 15,
+          },
+        ],
+        [],
+        asOf,
+      )
+
+      expect(records).toHaveLength(2)
+      expect(records[0]).toMatchObject({
+        batchName: 'Does 2025',
+        femalesBred: 10,
+        liveBorn: 17,
+        kiddingRate: 170,
+      })
+      expect(records[1]).toMatchObject({
+        batchName: 'boer',
+        awaitingBirth: 1,
+        kiddingRate: null,
+      })
+      expect(summary).toMatchObject({
+        matings: 2,
+        femalesBred: 15,
+        awaitingBirth: 1,
+        overdue: 1,
+        kiddingRate: 170,
+        weaningPercent: 88.2,
+      })
+    })
+
+    it('should average birth intervals of dams bred in the period', () => {
+      const { summary } = calculateBreedingReport(
+        [{ ...event, id: 'e1', damId: 'd1', femaleCount: 1 }],
+        [],
+        [
+          { damId: 'd1', birthDate: new Date('2024-06-01') },
+          { damId: 'd1', birthDate: new Date('2025-06-01') },
+          { damId: 'd2', birthDate: new Date('2024-01-01') },
+          { damId: 'd2', birthDate: new Date('2025-06-01') },
+        ],
+        asOf,
+      )
+
+      expect(summary.calvingIntervalDays).toBe(365)
+    })
+  })
 })
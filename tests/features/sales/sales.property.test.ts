@@ -9,12 +9,14 @@ import {
 describe('sales/server logic', () => {
   describe('UNIT_TYPES', () => {
     it('should have all required unit types', () => {
-      expect(UNIT_TYPES.length).toBe(4)
+      expect(UNIT_TYPES.length).toBe(6)
       const values = UNIT_TYPES.map((t) => t.value)
       expect(values).toContain('bird')
       expect(values).toContain('kg')
       expect(values).toContain('crate')
       expect(values).toContain('piece')
+      expect(values).toContain('liter')
+      expect(values).toContain('fleece')
     })
 
     it('should have value and label for each type', () => {
@@ -9,6 +9,8 @@ import {
   calculateQuantityDifference,
   calculateSaleTotal,
   determineBatchStatusAfterSale,
+  isProductSale,
+  requiresWithdrawalClearance,
   transformPaginatedResults,
   validateSaleData,
   validateUpdateData,
@@ -82,7 +84,7 @@ describe('Sales Service', () => {
 
     it('should reject invalid date', () => {
       const result = validateSaleData(
-        { ...validData, date: new Date('invalid') as any },
+        { ...validData, date: new Date('invalid') },
         100,
       )
       expect(result).toBe('Sale date is required')
@@ -183,6 +185,38 @@ describe('Sales Service', () => {
       expect(
         validateSaleData({ ...validData, unitType: 'piece' }, 100),
       ).toBeNull()
+      expect(
+        validateSaleData({ ...validData, unitType: 'liter' }, 100),
+      ).toBeNull()
+      expect(
+        validateSaleData({ ...validData, unitType: 'fleece' }, 100),
+      ).toBeNull()
+    })
+  })
+
+  describe('isProductSale', () => {
+    it('should treat produce as product sales', () => {
+      expect(isProductSale('milk')).toBe(true)
+      expect(isProductSale('eggs')).toBe(true)
+      expect(isProductSale('wool')).toBe(true)
+    })
+
+    it('should treat animals as head-count sales', () => {
+      expect(isProductSale('cattle')).toBe(false)
+      expect(isProductSale('poultry')).toBe(false)
+    })
+  })
+
+  describe('requiresWithdrawalClearance', () => {
+    it('should require clearance for animals and food produce', () => {
+      expect(requiresWithdrawalClearance('cattle')).toBe(true)
+      expect(requiresWithdrawalClearance('milk')).toBe(true)
+      expect(requiresWithdrawalClearance('eggs')).toBe(true)
+    })
+
+    it('should exempt non-food produce', () => {
+      expect(requiresWithdrawalClearance('wool')).toBe(false)
+      expect(requiresWithdrawalClearance('manure')).toBe(false)
     })
   })
 
@@ -479,7 +513,7 @@ describe('Sales Service', () => {
 
     it('should reject invalid date', () => {
       const result = validateUpdateData({
-        date: new Date('invalid') as any,
+        date: new Date('invalid'),
       })
       expect(result).toBe('Sale date is invalid')
     })
@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest'
+import {
+  evaluateActuatorRule,
+  getConditionHeldSince,
+  isOverrideActive,
+  selectRuleAction,
+  validateActuatorRule,
+} from '~/features/sensors/actuator-service'
+
+const MINUTE_MS = 60 * 1000
+const t0 = new Date('2026-06-15T12:00:00Z')
+const at = (minutes: number) => new Date(t0.getTime() + minutes * MINUTE_MS)
+const series = (values: Array<number>, stepMinutes = 5) =>
+  values.map((value, i) => ({ value, recordedAt: at(i * stepMinutes) }))
+
+describe('Actuator Service', () => {
+  describe('getConditionHeldSince', () => {
+    it('should find the start of the current run', () => {
+      expect(getConditionHeldSince(series([31, 33, 34]), 'above', 32)).toEqual(
+        at(5),
+      )
+    })
+
+    it('should be null when the latest reading does not meet it', () => {
+      expect(getConditionHeldSince(series([33, 34, 31]), 'above', 32)).toBe(
+        null,
+      )
+    })
+  })
+
+  describe('evaluateActuatorRule', () => {
+    const hot = {
+      condition: 'above' as const,
+      threshold: 32,
+      durationMinutes: 10,
+    }
+
+    it('should fire once the condition has held for the duration', () => {
+      const readings = series([30, 33, 33.5, 34])
+      expect(evaluateActuatorRule(hot, readings, at(10))).toBe(false)
+      expect(evaluateActuatorRule(hot, readings, at(15))).toBe(true)
+    })
+
+    it('should not fire after a dip resets the run', () => {
+      const readings = series([33, 34, 31, 33, 34])
+      expect(evaluateActuatorRule(hot, readings, at(20))).toBe(false)
+    })
+
+    it('should fire immediately without a duration', () => {
+      expect(
+        evaluateActuatorRule(
+          { condition: 'below', threshold: 5, durationMinutes: 0 },
+          series([6, 4]),
+          at(5),
+        ),
+      ).toBe(true)
+    })
+
+    it('should compare the rate of change for trend rules', () => {
+      // +3 over 15 minutes = 12 per hour
+      const readings = series([20, 21, 22, 23])
+      const rising = {
+        condition: 'rising' as const,
+        threshold: 10,
+        durationMinutes: 15,
+      }
+      expect(evaluateActuatorRule(rising, readings, at(15))).toBe(true)
+      expect(
+        evaluateActuatorRule({ ...rising, threshold: 15 }, readings, at(15)),
+      ).toBe(false)
+      expect(
+        evaluateActuatorRule(
+          { ...rising, condition: 'falling' },
+          readings,
+          at(15),
+        ),
+      ).toBe(false)
+    })
+  })
+
+  describe('isOverrideActive', () => {
+    it('should hold an open-ended override until resumed', () => {
+      expect(
+        isOverrideActive({ mode: 'manual', overrideUntil: null }, t0),
+      ).toBe(true)
+    })
+
+    it('should end a timed override', () => {
+      expect(
+        isOverrideActive({ mode: 'manual', overrideUntil: at(-1) }, t0),
+      ).toBe(false)
+      expect(isOverrideActive({ mode: 'auto', overrideUntil: null }, t0)).toBe(
+        false,
+      )
+    })
+  })
+
+  describe('selectRuleAction', () => {
+    const off = {
+      state: 'off' as const,
+      mode: 'auto' as const,
+      overrideUntil: null,
+    }
+    const onRule = { id: 'r1', action: 'on' as const }
+    const offRule = { id: 'r2', action: 'off' as const }
+
+    it('should apply the first rule asking for a new state', () => {
+      expect(selectRuleAction(off, [offRule, onRule], null, t0)).toBe(onRule)
+    })
+
+    it('should do nothing when the state already matches', () => {
+      expect(selectRuleAction(off, [offRule], null, t0)).toBeNull()
+    })
+
+    it('should respect a manual override', () => {
+      expect(
+        selectRuleAction(
+          { ...off, mode: 'manual', overrideUntil: at(30) },
+          [onRule],
+          null,
+          t0,
+        ),
+      ).toBeNull()
+    })
+
+    it('should not switch again within the minimum interval', () => {
+      expect(selectRuleAction(off, [onRule], at(-2), t0)).toBeNull()
+      expect(selectRuleAction(off, [onRule], at(-10), t0)).toBe(onRule)
+    })
+  })
+
+  describe('validateActuatorRule', () => {
+    it('should accept a threshold rule', () => {
+      expect(
+        validateActuatorRule({
+          condition: 'above',
+          threshold: 32,
+          durationMinutes: 10,
+        }),
+      ).toBeNull()
+    })
+
+    it('should require a positive rate over a long enough window', () => {
+      expect(
+        validateActuatorRule({
+          condition: 'rising',
+          threshold: -1,
+          durationMinutes: 30,
+        }),
+      ).not.toBeNull()
+      expect(
+        validateActuatorRule({
+          condition: 'rising',
+          threshold: 2,
+          durationMinutes: 2,
+        }),
+      ).not.toBeNull()
+    })
+  })
+})
@@ -0,0 +1,179 @@
+import { describe, expect, it } from 'vitest'
+import {
+  calculateRateOfChange,
+  findWorstThresholdBreach,
+  formatAlertSms,
+  isEscalationDue,
+  isInCooldown,
+  resolveAlertThresholds,
+  resolveTrendConfig,
+} from '~/features/sensors/alert-service'
+import {
+  ALERT_ESCALATION_INTERVAL_MINUTES,
+  DEFAULT_TREND_CONFIG,
+  MAX_ALERT_ESCALATION_LEVEL,
+} from '~/features/sensors/constants'
+
+const now = new Date('2026-03-01T02:00:00Z')
+const minutesAgo = (minutes: number) =>
+  new Date(now.getTime() - minutes * 60 * 1000)
+
+describe('Sensor Alert Service', () => {
+  describe('resolveAlertThresholds', () => {
+    const defaults = { min: 0, max: 25 }
+
+    it('should prefer the sensor thresholds', () => {
+      expect(
+        resolveAlertThresholds(
+          { minValue: null, maxValue: 20 },
+          { minThreshold: '1', maxThreshold: '30' },
+          defaults,
+        ),
+      ).toEqual({ min: null, max: 20 })
+    })
+
+    it('should fall back to the alert config', () => {
+      expect(
+        resolveAlertThresholds(
+          null,
+          { minThreshold: null, maxThreshold: '30.5' },
+          defaults,
+        ),
+      ).toEqual({ min: null, max: 30.5 })
+    })
+
+    it('should use defaults when neither is set', () => {
+      expect(
+        resolveAlertThresholds(
+          null,
+          { minThreshold: null, maxThreshold: null },
+          defaults,
+        ),
+      ).toEqual(defaults)
+      expect(resolveAlertThresholds(null, null, defaults)).toEqual(defaults)
+    })
+  })
+
+  describe('resolveTrendConfig', () => {
+    it('should prefer the sensor trend config', () => {
+      const trend = { rateThreshold: 2, rateWindowMinutes: 30 }
+      expect(
+        resolveTrendConfig(trend, {
+          rateThreshold: '9',
+          rateWindowMinutes: 60,
+        }),
+      ).toBe(trend)
+    })
+
+    it('should fall back to the alert config, then the default', () => {
+      expect(
+        resolveTrendConfig(null, { rateThreshold: '3', rateWindowMinutes: 45 }),
+      ).toEqual({ rateThreshold: 3, rateWindowMinutes: 45 })
+      expect(
+        resolveTrendConfig(null, {
+          rateThreshold: null,
+          rateWindowMinutes: 60,
+        }),
+      ).toEqual(DEFAULT_TREND_CONFIG)
+    })
+  })
+
+  describe('findWorstThresholdBreach', () => {
+    const thresholds = { min: 10, max: 25 }
+
+    it('should return null when every reading is in range', () => {
+      expect(
+        findWorstThresholdBreach([12, 20, 24], thresholds, 'ammonia'),
+      ).toBeNull()
+    })
+
+    it('should prefer a critical breach over a warning', () => {
+      const result = findWorstThresholdBreach([2, 26], thresholds, 'ammonia')
+      expect(result?.alertType).toBe('threshold_high')
+      expect(result?.severity).toBe('critical')
+    })
+
+    it('should pick the reading furthest past the threshold', () => {
+      const result = findWorstThresholdBreach(
+        [26, 40, 30],
+        thresholds,
+        'ammonia',
+      )
+      expect(result?.triggerValue).toBe(40)
+    })
+  })
+
+  describe('calculateRateOfChange', () => {
+    it('should be positive for rising readings in chronological order', () => {
+      const readings = [
+        { value: 10, recordedAt: minutesAgo(60) },
+        { value: 16, recordedAt: now },
+      ].map((r, i) => ({
+        ...r,
+        id: String(i),
+        sensorId: 's',
+        isAnomaly: false,
+        metadata: null,
+      }))
+      expect(calculateRateOfChange(readings)).toBe(6)
+    })
+  })
+
+  describe('isInCooldown', () => {
+    it('should respect the given time', () => {
+      expect(isInCooldown(minutesAgo(10), 30, now)).toBe(true)
+      expect(isInCooldown(minutesAgo(31), 30, now)).toBe(false)
+      expect(isInCooldown(null, 30, now)).toBe(false)
+    })
+  })
+
+  describe('isEscalationDue', () => {
+    const alert = {
+      severity: 'critical' as const,
+      acknowledged: false,
+      escalationLevel: 0,
+      createdAt: minutesAgo(ALERT_ESCALATION_INTERVAL_MINUTES + 1),
+      lastNotifiedAt: null,
+    }
+
+    it('should escalate an unacknowledged critical alert after the interval', () => {
+      expect(isEscalationDue(alert, now)).toBe(true)
+    })
+
+    it('should wait for the interval since the last notification', () => {
+      expect(
+        isEscalationDue({ ...alert, lastNotifiedAt: minutesAgo(5) }, now),
+      ).toBe(false)
+    })
+
+    it('should not escalate acknowledged, warning or exhausted alerts', () => {
+      expect(isEscalationDue({ ...alert, acknowledged: true }, now)).toBe(false)
+      expect(isEscalationDue({ ...alert, severity: 'warning' }, now)).toBe(
+        false,
+      )
+      expect(
+        isEscalationDue(
+          { ...alert, escalationLevel: MAX_ALERT_ESCALATION_LEVEL },
+          now,
+        ),
+      ).toBe(false)
+    })
+  })
+
+  describe('formatAlertSms', () => {
+    it('should mark escalated alerts', () => {
+      expect(formatAlertSms('House B', 'ammonia too high: 32', 0)).toBe(
+        'LivestockAI ALERT - House B: ammonia too high: 32',
+      )
+      expect(formatAlertSms('House B', 'ammonia too high: 32', 1)).toContain(
+        'UNACKNOWLEDGED ALERT',
+      )
+    })
+
+    it('should fit in a single SMS', () => {
+      const sms = formatAlertSms('House B', 'x'.repeat(300), 0)
+      expect(sms).toHaveLength(160)
+      expect(sms.endsWith('...')).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,233 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildSeasonalBaseline,
+  calculateZScore,
+  checkMalfunctionAlert,
+  computeBaseline,
+  detectAnomalies,
+} from '~/features/sensors/anomaly-service'
+import {
+  ANOMALY_MIN_BASELINE_READINGS,
+  FLATLINE_MIN_READINGS,
+  SEASONAL_MIN_DAYS,
+} from '~/features/sensors/constants'
+
+const start = new Date('2026-03-01T00:00:00Z')
+const minutesAfter = (minutes: number) =>
+  new Date(start.getTime() + minutes * 60 * 1000)
+
+/** Readings every 5 minutes, alternating around 25 */
+function noisyHistory(count: number) {
+  return Array.from({ length: count }, (_, i) => ({
+    value: 25 + (i % 2 === 0 ? 0.5 : -0.5),
+    recordedAt: minutesAfter(i * 5),
+    isAnomaly: false,
+  }))
+}
+
+describe('Sensor Anomaly Service', () => {
+  describe('computeBaseline', () => {
+    it('should compute mean and population standard deviation', () => {
+      expect(computeBaseline([2, 4, 4, 4, 5, 5, 7, 9])).toEqual({
+        mean: 5,
+        stdDev: 2,
+        count: 8,
+      })
+    })
+
+    it('should return null for no values', () => {
+      expect(computeBaseline([])).toBeNull()
+    })
+  })
+
+  describe('calculateZScore', () => {
+    it('should score against the baseline spread', () => {
+      expect(calculateZScore(9, { mean: 5, stdDev: 2, count: 8 })).toBe(2)
+    })
+
+    it('should floor the spread of a perfectly steady baseline', () => {
+      // Spread floored to 1% of the mean
+      expect(calculateZScore(101, { mean: 100, stdDev: 0, count: 30 })).toBe(1)
+    })
+  })
+
+  describe('buildSeasonalBaseline', () => {
+    const hourly = (day: number, hour: number, avg: number) => ({
+      periodStart: new Date(Date.UTC(2026, 1, day, hour)),
+      avgValue: avg,
+      minValue: avg - 2,
+      maxValue: avg + 2,
+    })
+
+    it('should build baselines for hours with enough days', () => {
+      const aggregates = Array.from({ length: SEASONAL_MIN_DAYS }, (_, d) =>
+        hourly(d + 1, 14, 30),
+      )
+      const baseline = buildSeasonalBaseline(aggregates)
+
+      expect(baseline.get(14)).toEqual({
+        mean: 30,
+        stdDev: 1,
+        count: SEASONAL_MIN_DAYS,
+      })
+    })
+
+    it('should skip hours with too little history', () => {
+      const baseline = buildSeasonalBaseline([hourly(1, 3, 20)])
+      expect(baseline.has(3)).toBe(false)
+    })
+  })
+
+  describe('detectAnomalies', () => {
+    const history = noisyHistory(ANOMALY_MIN_BASELINE_READINGS)
+    const next = minutesAfter(ANOMALY_MIN_BASELINE_READINGS * 5)
+
+    it('should flag a reading far from the rolling baseline', () => {
+      const flags = detectAnomalies(
+        [{ value: 60, recordedAt: next }],
+        history,
+        new Map(),
+      )
+
+      expect(flags).toHaveLength(1)
+      expect(flags[0]).toMatchObject({ reason: 'outlier', value: 60 })
+      expect(flags[0].expected).toBeCloseTo(25)
+    })
+
+    it('should not flag readings within the baseline', () => {
+      expect(
+        detectAnomalies(
+          [{ value: 25.8, recordedAt: next }],
+          history,
+          new Map(),
+        ),
+      ).toEqual([])
+    })
+
+    it('should not flag without enough history', () => {
+      expect(
+        detectAnomalies(
+          [{ value: 60, recordedAt: next }],
+          history.slice(0, 3),
+          new Map(),
+        ),
+      ).toEqual([])
+    })
+
+    it('should ignore earlier anomalies when building the baseline', () => {
+      const polluted = [
+        ...history,
+        { value: 60, recordedAt: next, isAnomaly: true },
+      ]
+      const flags = detectAnomalies(
+        [{ value: 60, recordedAt: minutesAfter(1000) }],
+        polluted,
+        new Map(),
+      )
+
+      expect(flags).toHaveLength(1)
+    })
+
+    it('should not flag a reading that matches its time-of-day baseline', () => {
+      const seasonal = new Map([
+        [next.getUTCHours(), { mean: 58, stdDev: 3, count: 14 }],
+      ])
+
+      expect(
+        detectAnomalies([{ value: 60, recordedAt: next }], history, seasonal),
+      ).toEqual([])
+    })
+
+    it('should flag a stuck sensor once the run is long enough', () => {
+      const stuck = Array.from(
+        { length: FLATLINE_MIN_READINGS + 2 },
+        (_, i) => ({
+          value: 21.3,
+          recordedAt: minutesAfter(i * 15),
+        }),
+      )
+      const flags = detectAnomalies(stuck, [], new Map())
+
+      expect(flags.length).toBeGreaterThan(0)
+      expect(flags.every((f) => f.reason === 'flatline')).toBe(true)
+      expect(flags[flags.length - 1].runLength).toBe(FLATLINE_MIN_READINGS + 2)
+    })
+
+    it('should continue a flatline carried over from history', () => {
+      const stored = Array.from({ length: FLATLINE_MIN_READINGS }, (_, i) => ({
+        value: 7,
+        recordedAt: minutesAfter(i * 15),
+        isAnomaly: false,
+      }))
+      const flags = detectAnomalies(
+        [{ value: 7, recordedAt: minutesAfter(FLATLINE_MIN_READINGS * 15) }],
+        stored,
+        new Map(),
+      )
+
+      expect(flags).toMatchObject([
+        { reason: 'flatline', runLength: FLATLINE_MIN_READINGS + 1 },
+      ])
+    })
+  })
+
+  describe('checkMalfunctionAlert', () => {
+    it('should return null without anomalies', () => {
+      expect(checkMalfunctionAlert([], 'ammonia')).toBeNull()
+    })
+
+    it('should report a stuck sensor before outliers', () => {
+      const alert = checkMalfunctionAlert(
+        [
+          {
+            recordedAt: start,
+            value: 90,
+            reason: 'outlier',
+            score: 12,
+            expected: 20,
+          },
+          {
+            recordedAt: start,
+            value: 21,
+            reason: 'flatline',
+            score: 0,
+            expected: 21,
+            runLength: 12,
+          },
+        ],
+        'temperature',
+      )
+
+      expect(alert).toMatchObject({
+        alertType: 'sensor_malfunction',
+        severity: 'warning',
+        triggerValue: 21,
+      })
+      expect(alert?.message).toContain('stuck at 21')
+    })
+
+    it('should report the most extreme outlier', () => {
+      const alert = checkMalfunctionAlert(
+        [
+          {
+            recordedAt: start,
+            value: 40,
+            reason: 'outlier',
+            score: 5,
+            expected: 20,
+          },
+          {
+            recordedAt: start,
+            value: 90,
+            reason: 'outlier',
+            score: 9,
+            expected: 20,
+          },
+        ],
+        'ammonia',
+      )
+
+      expect(alert).toMatchObject({ triggerValue: 90, thresholdValue: 20 })
+    })
+  })
+})
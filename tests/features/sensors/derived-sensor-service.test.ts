@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest'
+import {
+  calculateHeatIndex,
+  calculateThi,
+  calculateUnionizedAmmonia,
+  computeDerivedReadings,
+  isDerivedSensorType,
+  validateDerivation,
+} from '~/features/sensors/derived-sensor-service'
+
+const MINUTE_MS = 60 * 1000
+const t0 = new Date('2026-06-15T10:00:00Z')
+const at = (minutes: number) => new Date(t0.getTime() + minutes * MINUTE_MS)
+
+const candidates = [
+  { id: 'temp-1', sensorType: 'temperature' as const, structureId: 'house-1' },
+  { id: 'hum-1', sensorType: 'humidity' as const, structureId: 'house-1' },
+  { id: 'hum-2', sensorType: 'humidity' as const, structureId: 'house-2' },
+  { id: 'nh3-1', sensorType: 'ammonia' as const, structureId: 'pond-1' },
+]
+
+describe('Derived Sensor Service', () => {
+  describe('formulas', () => {
+    it('should add °F and relative humidity for the heat index', () => {
+      expect(calculateHeatIndex(30, 70)).toBeCloseTo(156)
+    })
+
+    it('should compute the cattle THI', () => {
+      expect(calculateThi(30, 60)).toBeCloseTo(79.84, 2)
+      expect(calculateThi(20, 50)).toBeLessThan(72)
+    })
+
+    it('should compute un-ionized ammonia from pH and temperature', () => {
+      expect(calculateUnionizedAmmonia(1, 8, 25)).toBeCloseTo(0.0536, 3)
+      // Higher pH and warmer water shift more ammonia to the toxic form
+      expect(calculateUnionizedAmmonia(1, 9, 25)).toBeGreaterThan(
+        calculateUnionizedAmmonia(1, 8, 25),
+      )
+      expect(calculateUnionizedAmmonia(1, 8, 30)).toBeGreaterThan(
+        calculateUnionizedAmmonia(1, 8, 25),
+      )
+    })
+  })
+
+  describe('isDerivedSensorType', () => {
+    it('should recognise derived types only', () => {
+      expect(isDerivedSensorType('thi')).toBe(true)
+      expect(isDerivedSensorType('temperature')).toBe(false)
+    })
+  })
+
+  describe('validateDerivation', () => {
+    it('should accept inputs in the same structure', () => {
+      expect(
+        validateDerivation(
+          'heat_index',
+          'house-1',
+          { temperature: 'temp-1', humidity: 'hum-1' },
+          candidates,
+        ),
+      ).toBeNull()
+    })
+
+    it('should require a structure and every input', () => {
+      expect(
+        validateDerivation(
+          'heat_index',
+          null,
+          { temperature: 'temp-1', humidity: 'hum-1' },
+          candidates,
+        ),
+      ).not.toBeNull()
+      expect(
+        validateDerivation(
+          'heat_index',
+          'house-1',
+          { temperature: 'temp-1' },
+          candidates,
+        ),
+      ).toContain('Humidity')
+    })
+
+    it('should reject inputs of the wrong type or structure', () => {
+      expect(
+        validateDerivation(
+          'heat_index',
+          'house-1',
+          { temperature: 'hum-1', humidity: 'hum-1' },
+          candidates,
+        ),
+      ).not.toBeNull()
+      expect(
+        validateDerivation(
+          'heat_index',
+          'house-1',
+          { temperature: 'temp-1', humidity: 'hum-2' },
+          candidates,
+        ),
+      ).toContain('same structure')
+    })
+
+    it('should reject inputs on physical sensor types', () => {
+      expect(
+        validateDerivation(
+          'temperature',
+          'house-1',
+          { humidity: 'hum-1' },
+          candidates,
+        ),
+      ).not.toBeNull()
+      expect(
+        validateDerivation('temperature', 'house-1', null, candidates),
+      ).toBeNull()
+    })
+  })
+
+  describe('computeDerivedReadings', () => {
+    it('should pair each reading with the latest fresh input', () => {
+      const derived = computeDerivedReadings(
+        'heat_index',
+        {
+          sensorType: 'temperature',
+          readings: [{ value: 30, recordedAt: at(20) }],
+        },
+        new Map([
+          [
+            'humidity',
+            [
+              { value: 60, recordedAt: at(0) },
+              { value: 70, recordedAt: at(15) },
+              { value: 90, recordedAt: at(25) },
+            ],
+          ],
+        ]),
+      )
+
+      expect(derived).toEqual([{ value: 156, recordedAt: at(20) }])
+    })
+
+    it('should skip readings without a fresh value for every input', () => {
+      const derived = computeDerivedReadings(
+        'heat_index',
+        {
+          sensorType: 'temperature',
+          readings: [{ value: 30, recordedAt: at(60) }],
+        },
+        new Map([['humidity', [{ value: 70, recordedAt: at(0) }]]]),
+      )
+
+      expect(derived).toEqual([])
+    })
+
+    it('should drop results outside the valid range', () => {
+      const derived = computeDerivedReadings(
+        'unionized_ammonia',
+        { sensorType: 'ammonia', readings: [{ value: 500, recordedAt: t0 }] },
+        new Map([
+          ['ph', [{ value: 11, recordedAt: t0 }]],
+          ['water_temperature', [{ value: 30, recordedAt: t0 }]],
+        ]),
+      )
+
+      expect(derived).toEqual([])
+    })
+  })
+})
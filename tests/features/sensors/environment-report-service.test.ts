@@ -0,0 +1,221 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildBatchEnvironmentReport,
+  calculateDailyWeightGain,
+  estimateEnvironmentImpact,
+  findStrongestLag,
+  pearsonCorrelation,
+  resolveComfortZone,
+} from '~/features/sensors/environment-report-service'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const start = new Date('2026-03-01T00:00:00Z')
+const dayKey = (offset: number) =>
+  new Date(start.getTime() + offset * DAY_MS).toISOString().slice(0, 10)
+
+/** Daily series over `count` days starting 2026-03-01 */
+const series = (count: number, valueFor: (day: number) => number) =>
+  new Map(Array.from({ length: count }, (_, d) => [dayKey(d), valueFor(d)]))
+
+/** Every third day is a heat-stress day */
+const isHot = (day: number) => day % 3 === 0
+
+describe('Environment Report Service', () => {
+  describe('resolveComfortZone', () => {
+    const defaults = { min: 20, max: 30 }
+
+    it('should prefer warning thresholds over alert thresholds', () => {
+      expect(
+        resolveComfortZone(
+          {
+            minValue: 15,
+            maxValue: 35,
+            warningMinValue: 18,
+            warningMaxValue: 32,
+          },
+          defaults,
+        ),
+      ).toEqual({ min: 18, max: 32 })
+    })
+
+    it('should fall back to alert thresholds, then type defaults', () => {
+      expect(
+        resolveComfortZone(
+          {
+            minValue: null,
+            maxValue: 35,
+            warningMinValue: null,
+            warningMaxValue: null,
+          },
+          defaults,
+        ),
+      ).toEqual({ min: 20, max: 35 })
+      expect(resolveComfortZone(null, defaults)).toEqual(defaults)
+    })
+  })
+
+  describe('calculateDailyWeightGain', () => {
+    it('should spread gain evenly over the days between samples', () => {
+      const gain = calculateDailyWeightGain([
+        { date: new Date('2026-03-03'), averageWeightKg: 1.2 },
+        { date: new Date('2026-03-01'), averageWeightKg: 1.0 },
+      ])
+
+      expect([...gain.keys()]).toEqual(['2026-03-01', '2026-03-02'])
+      expect(gain.get('2026-03-01')).toBeCloseTo(0.1)
+    })
+
+    it('should return nothing for a single sample', () => {
+      expect(
+        calculateDailyWeightGain([{ date: start, averageWeightKg: 1 }]).size,
+      ).toBe(0)
+    })
+  })
+
+  describe('pearsonCorrelation', () => {
+    it('should return 1 and -1 for perfectly related values', () => {
+      expect(pearsonCorrelation([1, 2, 3], [2, 4, 6])).toBeCloseTo(1)
+      expect(pearsonCorrelation([1, 2, 3], [6, 4, 2])).toBeCloseTo(-1)
+    })
+
+    it('should return null when a side has no variance', () => {
+      expect(pearsonCorrelation([1, 1, 1], [1, 2, 3])).toBeNull()
+    })
+  })
+
+  describe('findStrongestLag', () => {
+    it('should find the delay between stress and its effect', () => {
+      const stress = series(21, (d) => (isHot(d) ? 4 : 0))
+      const deaths = series(21, (d) => (d > 0 && isHot(d - 1) ? 5 : 1))
+
+      expect(findStrongestLag(stress, deaths)).toMatchObject({
+        lagDays: 1,
+        sampleDays: 20,
+      })
+      expect(findStrongestLag(stress, deaths)?.coefficient).toBeCloseTo(1)
+    })
+
+    it('should return null without enough paired days', () => {
+      const stress = series(3, (d) => d)
+      expect(
+        findStrongestLag(
+          stress,
+          series(3, (d) => d),
+        ),
+      ).toBeNull()
+    })
+  })
+
+  describe('estimateEnvironmentImpact', () => {
+    it('should attribute excess losses to stress days', () => {
+      const stress = series(21, (d) => (isHot(d) ? 4 : 0))
+      const impact = estimateEnvironmentImpact(
+        'temperature',
+        stress,
+        {
+          mortality: series(21, (d) => (d > 0 && isHot(d - 1) ? 5 : 1)),
+          feedIntake: series(21, (d) => (d > 0 && isHot(d - 1) ? 40 : 50)),
+          weightGain: series(21, (d) => (d > 0 && isHot(d - 1) ? 0.03 : 0.05)),
+        },
+        1,
+        100,
+      )
+
+      expect(impact).toEqual({
+        sensorType: 'temperature',
+        lagDays: 1,
+        stressDays: 7,
+        excessMortality: 28,
+        weightLossKg: 14,
+        feedIntakeChangeKg: -10,
+      })
+    })
+
+    it('should return null when there were no stress days', () => {
+      expect(
+        estimateEnvironmentImpact(
+          'temperature',
+          series(10, () => 0),
+          {
+            mortality: new Map(),
+            feedIntake: new Map(),
+            weightGain: new Map(),
+          },
+          0,
+          100,
+        ),
+      ).toBeNull()
+    })
+  })
+
+  describe('buildBatchEnvironmentReport', () => {
+    const days = 21
+    const hourly = Array.from({ length: days * 24 }, (_, h) => {
+      const day = Math.floor(h / 24)
+      const hour = h % 24
+      return {
+        periodStart: new Date(start.getTime() + h * 60 * 60 * 1000),
+        avgValue: isHot(day) && hour >= 12 && hour < 16 ? 35 : 25,
+      }
+    })
+    const mortality = Array.from({ length: days - 1 }, (_, d) => ({
+      date: new Date(start.getTime() + (d + 1) * DAY_MS),
+      quantity: isHot(d) ? 5 : 1,
+    }))
+
+    const report = buildBatchEnvironmentReport({
+      batchId: 'batch-1',
+      structureId: 'house-1',
+      startDate: start,
+      endDate: new Date(start.getTime() + (days - 1) * DAY_MS),
+      headcount: 500,
+      sensors: [{ sensorType: 'temperature', thresholds: null, hourly }],
+      mortality,
+      feed: [],
+      weights: [],
+    })
+
+    it('should summarise time in the comfort zone', () => {
+      expect(report.comfort).toHaveLength(1)
+      expect(report.comfort[0]).toMatchObject({
+        sensorType: 'temperature',
+        zone: { min: 20, max: 30 },
+        hoursObserved: days * 24,
+        hoursAbove: 28,
+        hoursBelow: 0,
+        stressDays: 7,
+      })
+    })
+
+    it('should correlate stress with mortality at the right lag', () => {
+      const correlation = report.correlations.find(
+        (c) => c.metric === 'mortality',
+      )
+      expect(correlation).toMatchObject({
+        sensorType: 'temperature',
+        lagDays: 1,
+      })
+      expect(report.correlations.some((c) => c.metric === 'feedIntake')).toBe(
+        false,
+      )
+    })
+
+    it('should estimate deaths caused by heat stress', () => {
+      expect(report.impacts[0]).toMatchObject({
+        lagDays: 1,
+        stressDays: 7,
+        excessMortality: 28,
+      })
+    })
+
+    it('should include every day of the batch', () => {
+      expect(report.days).toHaveLength(days)
+      expect(report.days[0]).toMatchObject({
+        date: '2026-03-01',
+        stressHours: { temperature: 4 },
+        mortality: 0,
+        weightGainKg: null,
+      })
+    })
+  })
+})
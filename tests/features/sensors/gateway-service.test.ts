@@ -0,0 +1,265 @@
+import { describe, expect, it } from 'vitest'
+import type { GatewaySensor } from '~/features/sensors/types'
+import {
+  dedupeReadings,
+  isWithinBackfillWindow,
+  resolveGatewayBatches,
+} from '~/features/sensors/gateway-service'
+import {
+  groupBridgeBatches,
+  parseMqttReadings,
+} from '~/features/sensors/gateway-bridge'
+import { GATEWAY_BACKFILL_HOURS } from '~/features/sensors/constants'
+
+const now = new Date('2026-03-01T12:00:00Z')
+const minutesAgo = (minutes: number) =>
+  new Date(now.getTime() - minutes * 60 * 1000)
+
+const GATEWAY_ID = 'gw-1'
+
+function sensor(overrides: Partial<GatewaySensor>): GatewaySensor {
+  return {
+    id: 'sensor-1',
+    farmId: 'farm-1',
+    name: 'House B ammonia',
+    sensorType: 'ammonia',
+    isActive: true,
+    gatewayId: GATEWAY_ID,
+    channel: 'house-b-nh3',
+    thresholds: null,
+    trendConfig: null,
+    ...overrides,
+  }
+}
+
+describe('Sensor Gateway Service', () => {
+  describe('dedupeReadings', () => {
+    it('should keep the last reading per timestamp in chronological order', () => {
+      const result = dedupeReadings([
+        { value: 3, recordedAt: minutesAgo(5) },
+        { value: 1, recordedAt: minutesAgo(10) },
+        { value: 2, recordedAt: minutesAgo(10) },
+      ])
+
+      expect(result).toEqual([
+        { value: 2, recordedAt: minutesAgo(10) },
+        { value: 3, recordedAt: minutesAgo(5) },
+      ])
+    })
+  })
+
+  describe('isWithinBackfillWindow', () => {
+    it('should accept readings inside the backfill window', () => {
+      expect(
+        isWithinBackfillWindow(
+          minutesAgo(GATEWAY_BACKFILL_HOURS * 60 - 1),
+          now,
+        ),
+      ).toBe(true)
+    })
+
+    it('should reject readings older than the backfill window', () => {
+      expect(
+        isWithinBackfillWindow(
+          minutesAgo(GATEWAY_BACKFILL_HOURS * 60 + 1),
+          now,
+        ),
+      ).toBe(false)
+    })
+
+    it('should tolerate small clock drift but not future readings', () => {
+      expect(isWithinBackfillWindow(minutesAgo(-2), now)).toBe(true)
+      expect(isWithinBackfillWindow(minutesAgo(-60), now)).toBe(false)
+    })
+  })
+
+  describe('resolveGatewayBatches', () => {
+    const sensors = [
+      sensor({}),
+      sensor({ id: 'sensor-2', channel: null, gatewayId: null }),
+      sensor({ id: 'sensor-3', channel: 'old', isActive: false }),
+      sensor({ id: 'sensor-4', channel: 'other', gatewayId: 'gw-2' }),
+    ]
+
+    it('should resolve batches by channel and by sensor ID', () => {
+      const { accepted, rejected } = resolveGatewayBatches(
+        [
+          {
+            channel: 'house-b-nh3',
+            readings: [{ value: 20, recordedAt: minutesAgo(1) }],
+          },
+          {
+            sensorId: 'sensor-2',
+            readings: [{ value: 21, recordedAt: minutesAgo(1) }],
+          },
+        ],
+        sensors,
+        GATEWAY_ID,
+        now,
+      )
+
+      expect(accepted.map((a) => a.sensor.id)).toEqual(['sensor-1', 'sensor-2'])
+      expect(rejected).toEqual([])
+    })
+
+    it('should not resolve channels assigned to another gateway', () => {
+      const { accepted, rejected } = resolveGatewayBatches(
+        [{ channel: 'other', readings: [{ value: 1 }] }],
+        sensors,
+        GATEWAY_ID,
+        now,
+      )
+
+      expect(accepted).toEqual([])
+      expect(rejected).toEqual([
+        { channel: 'other', reason: 'unknown_sensor', count: 1 },
+      ])
+    })
+
+    it('should reject readings for inactive sensors', () => {
+      const { rejected } = resolveGatewayBatches(
+        [{ channel: 'old', readings: [{ value: 1 }, { value: 2 }] }],
+        sensors,
+        GATEWAY_ID,
+        now,
+      )
+
+      expect(rejected).toEqual([
+        { channel: 'old', reason: 'sensor_inactive', count: 2 },
+      ])
+    })
+
+    it('should stamp readings without a timestamp with the current time', () => {
+      const { accepted } = resolveGatewayBatches(
+        [{ channel: 'house-b-nh3', readings: [{ value: 5 }] }],
+        sensors,
+        GATEWAY_ID,
+        now,
+      )
+
+      expect(accepted[0].readings).toEqual([{ value: 5, recordedAt: now }])
+    })
+
+    it('should accept backfill and reject readings outside the window', () => {
+      const { accepted, rejected } = resolveGatewayBatches(
+        [
+          {
+            channel: 'house-b-nh3',
+            readings: [
+              { value: 1, recordedAt: minutesAgo(6 * 60) },
+              { value: 2, recordedAt: minutesAgo(GATEWAY_BACKFILL_HOURS * 61) },
+            ],
+          },
+        ],
+        sensors,
+        GATEWAY_ID,
+        now,
+      )
+
+      expect(accepted[0].readings).toHaveLength(1)
+      expect(rejected).toEqual([
+        {
+          channel: 'house-b-nh3',
+          reason: 'outside_backfill_window',
+          count: 1,
+        },
+      ])
+    })
+
+    it('should merge batches for the same sensor and count duplicates', () => {
+      const { accepted, duplicates } = resolveGatewayBatches(
+        [
+          {
+            channel: 'house-b-nh3',
+            readings: [{ value: 1, recordedAt: minutesAgo(2) }],
+          },
+          {
+            sensorId: 'sensor-1',
+            readings: [
+              { value: 2, recordedAt: minutesAgo(2) },
+              { value: 3, recordedAt: minutesAgo(1) },
+            ],
+          },
+        ],
+        sensors,
+        GATEWAY_ID,
+        now,
+      )
+
+      expect(accepted).toHaveLength(1)
+      expect(accepted[0].readings.map((r) => r.value)).toEqual([2, 3])
+      expect(duplicates).toBe(1)
+    })
+  })
+
+  describe('parseMqttReadings', () => {
+    const prefix = 'farm/sensors'
+
+    it('should parse a bare number stamped with the receive time', () => {
+      expect(
+        parseMqttReadings('farm/sensors/house-b-nh3', '31.5', prefix, now),
+      ).toEqual([{ channel: 'house-b-nh3', value: 31.5, recordedAt: now }])
+    })
+
+    it('should parse objects with Unix-second and ISO timestamps', () => {
+      const result = parseMqttReadings(
+        'farm/sensors/pond-1-do',
+        JSON.stringify([
+          { value: 5.2, ts: 1772366400 },
+          { value: '5.4', recordedAt: '2026-03-01T12:00:00Z' },
+        ]),
+        `${prefix}/`,
+        now,
+      )
+
+      expect(result).toEqual([
+        {
+          channel: 'pond-1-do',
+          value: 5.2,
+          recordedAt: new Date(1772366400 * 1000),
+        },
+        { channel: 'pond-1-do', value: 5.4, recordedAt: now },
+      ])
+    })
+
+    it('should ignore other topics and unreadable payloads', () => {
+      expect(parseMqttReadings('other/house-b', '1', prefix, now)).toBeNull()
+      expect(parseMqttReadings('farm/sensors/a/b', '1', prefix, now)).toBeNull()
+      expect(
+        parseMqttReadings('farm/sensors/house-b', 'hot', prefix, now),
+      ).toBeNull()
+      expect(
+        parseMqttReadings(
+          'farm/sensors/house-b',
+          '{"value":null}',
+          prefix,
+          now,
+        ),
+      ).toBeNull()
+    })
+  })
+
+  describe('groupBridgeBatches', () => {
+    it('should group readings by channel in first-seen order', () => {
+      const batches = groupBridgeBatches([
+        { channel: 'b', value: 1, recordedAt: minutesAgo(2) },
+        { channel: 'a', value: 2, recordedAt: minutesAgo(2) },
+        { channel: 'b', value: 3, recordedAt: minutesAgo(1) },
+      ])
+
+      expect(batches).toEqual([
+        {
+          channel: 'b',
+          readings: [
+            { value: 1, recordedAt: minutesAgo(2).toISOString() },
+            { value: 3, recordedAt: minutesAgo(1).toISOString() },
+          ],
+        },
+        {
+          channel: 'a',
+          readings: [{ value: 2, recordedAt: minutesAgo(2).toISOString() }],
+        },
+      ])
+    })
+  })
+})
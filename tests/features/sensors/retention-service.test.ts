@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildArchiveKey,
+  getRetentionCutoffs,
+  planArchiveDays,
+  resolveRetentionPolicy,
+  selectChartResolution,
+  toNdjson,
+  validateRetentionPolicy,
+} from '~/features/sensors/retention-service'
+import { DEFAULT_RETENTION_POLICY } from '~/features/sensors/constants'
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+const now = new Date('2026-06-15T10:30:00Z')
+const daysAgo = (days: number) => new Date(now.getTime() - days * DAY_MS)
+const policy = resolveRetentionPolicy(null)
+
+describe('Sensor Retention Service', () => {
+  describe('resolveRetentionPolicy', () => {
+    it('should use the defaults without a stored policy', () => {
+      expect(resolveRetentionPolicy(undefined)).toEqual(
+        DEFAULT_RETENTION_POLICY,
+      )
+    })
+
+    it('should keep a stored "forever" for daily aggregates', () => {
+      expect(
+        resolveRetentionPolicy({
+          rawRetentionDays: 7,
+          hourlyRetentionDays: 90,
+          dailyRetentionDays: null,
+          archiveRawReadings: false,
+        }),
+      ).toEqual({
+        rawRetentionDays: 7,
+        hourlyRetentionDays: 90,
+        dailyRetentionDays: null,
+        archiveRawReadings: false,
+      })
+    })
+  })
+
+  describe('validateRetentionPolicy', () => {
+    it('should accept the defaults', () => {
+      expect(validateRetentionPolicy(policy)).toBeNull()
+    })
+
+    it('should reject coarser data expiring before finer data', () => {
+      expect(
+        validateRetentionPolicy({ ...policy, hourlyRetentionDays: 10 }),
+      ).toContain('Hourly')
+      expect(
+        validateRetentionPolicy({ ...policy, dailyRetentionDays: 100 }),
+      ).toContain('Daily')
+    })
+
+    it('should reject a raw window too short to aggregate', () => {
+      expect(
+        validateRetentionPolicy({ ...policy, rawRetentionDays: 1 }),
+      ).not.toBeNull()
+    })
+  })
+
+  describe('getRetentionCutoffs', () => {
+    it('should align cutoffs to UTC midnight', () => {
+      const cutoffs = getRetentionCutoffs(
+        { ...policy, dailyRetentionDays: 730 },
+        now,
+      )
+
+      expect(cutoffs.raw.toISOString()).toBe('2026-05-16T00:00:00.000Z')
+      expect(cutoffs.hourly.toISOString()).toBe('2025-06-15T00:00:00.000Z')
+      expect(cutoffs.daily?.toISOString()).toBe('2024-06-15T00:00:00.000Z')
+    })
+
+    it('should have no daily cutoff when kept forever', () => {
+      expect(getRetentionCutoffs(policy, now).daily).toBeNull()
+    })
+  })
+
+  describe('selectChartResolution', () => {
+    it('should serve short recent ranges from raw readings', () => {
+      expect(selectChartResolution(daysAgo(1), now, policy, now)).toBe('raw')
+    })
+
+    it('should serve longer ranges from hourly aggregates', () => {
+      expect(selectChartResolution(daysAgo(7), now, policy, now)).toBe('hourly')
+    })
+
+    it('should fall back to hourly once raw readings are gone', () => {
+      expect(selectChartResolution(daysAgo(45), daysAgo(44), policy, now)).toBe(
+        'hourly',
+      )
+    })
+
+    it('should serve long or old ranges from daily aggregates', () => {
+      expect(selectChartResolution(daysAgo(90), now, policy, now)).toBe('daily')
+      expect(
+        selectChartResolution(daysAgo(400), daysAgo(399), policy, now),
+      ).toBe('daily')
+    })
+  })
+
+  describe('planArchiveDays', () => {
+    const cutoff = new Date('2026-05-16T00:00:00Z')
+
+    it('should plan whole UTC days up to the cutoff', () => {
+      const days = planArchiveDays(new Date('2026-05-13T17:45:00Z'), cutoff, 31)
+
+      expect(days.map((d) => d.start.toISOString().slice(0, 10))).toEqual([
+        '2026-05-13',
+        '2026-05-14',
+        '2026-05-15',
+      ])
+      expect(days[2].end).toEqual(cutoff)
+    })
+
+    it('should cap the days planned per run', () => {
+      expect(
+        planArchiveDays(new Date('2026-01-01T00:00:00Z'), cutoff, 5),
+      ).toHaveLength(5)
+    })
+  })
+
+  describe('buildArchiveKey', () => {
+    it('should key archives by farm, sensor and day', () => {
+      expect(
+        buildArchiveKey('farm-1', 'sensor-1', new Date('2026-05-13T00:00:00Z')),
+      ).toBe('sensor-archives/farm-1/sensor-1/2026-05-13.ndjson.gz')
+    })
+  })
+
+  describe('toNdjson', () => {
+    it('should write one JSON reading per line', () => {
+      const text = toNdjson('sensor-1', [
+        {
+          value: 24.5,
+          recordedAt: new Date('2026-05-13T00:00:00Z'),
+          isAnomaly: false,
+          metadata: null,
+        },
+        {
+          value: 80,
+          recordedAt: new Date('2026-05-13T00:05:00Z'),
+          isAnomaly: true,
+          metadata: { rssi: -70 },
+        },
+      ])
+      const lines = text.trimEnd().split('\n')
+
+      expect(text.endsWith('\n')).toBe(true)
+      expect(lines).toHaveLength(2)
+      expect(JSON.parse(lines[1])).toEqual({
+        sensorId: 'sensor-1',
+        recordedAt: '2026-05-13T00:05:00.000Z',
+        value: 80,
+        isAnomaly: true,
+        metadata: { rssi: -70 },
+      })
+    })
+  })
+})
@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest'
+import {
+  SIMULATED_SENSOR_TYPES,
+  generateSimulatedReadings,
+  listPeriodStarts,
+  parseFaultSpec,
+  parseReadingsCsv,
+  planReplay,
+  toReadingsCsv,
+} from '~/features/sensors/simulator'
+import { SENSOR_TYPE_CONFIG } from '~/features/sensors/constants'
+
+const HOUR_MS = 60 * 60 * 1000
+const start = new Date('2026-06-01T00:00:00Z')
+const at = (hours: number) => new Date(start.getTime() + hours * HOUR_MS)
+
+const simulate = (
+  faults: Parameters<typeof generateSimulatedReadings>[0]['faults'] = [],
+) =>
+  generateSimulatedReadings({
+    sensorType: 'temperature',
+    start,
+    end: at(24),
+    intervalMinutes: 5,
+    faults,
+    seed: 7,
+  })
+
+describe('Sensor Simulator', () => {
+  describe('generateSimulatedReadings', () => {
+    it('should be repeatable for a seed', () => {
+      expect(simulate()).toEqual(simulate())
+      expect(simulate()).toHaveLength(24 * 12 + 1)
+    })
+
+    it('should follow the daily cycle', () => {
+      const readings = simulate()
+      const valueAt = (hour: number) =>
+        readings.find((r) => r.recordedAt.getTime() === at(hour).getTime())!
+          .value
+      // Temperature peaks mid-afternoon and bottoms out before dawn
+      expect(valueAt(15)).toBeGreaterThan(valueAt(3) + 5)
+    })
+
+    it('should stay within the valid range of every type', () => {
+      for (const sensorType of SIMULATED_SENSOR_TYPES) {
+        const { minValid, maxValid } = SENSOR_TYPE_CONFIG[sensorType]
+        const readings = generateSimulatedReadings({
+          sensorType,
+          start,
+          end: at(48),
+          intervalMinutes: 15,
+          seed: 1,
+        })
+        for (const r of readings) {
+          expect(r.value).toBeGreaterThanOrEqual(minValid)
+          expect(r.value).toBeLessThanOrEqual(maxValid)
+        }
+      }
+    })
+
+    it('should inject faults', () => {
+      const clean = simulate()
+      const faulty = simulate([
+        { type: 'spike', start: at(2), durationMinutes: 0, magnitude: 20 },
+        { type: 'dropout', start: at(4), durationMinutes: 60 },
+        { type: 'flatline', start: at(6), durationMinutes: 120 },
+        { type: 'drift', start: at(10), durationMinutes: 120, magnitude: 6 },
+      ])
+      const find = (readings: ReturnType<typeof simulate>, hours: number) =>
+        readings.find((r) => r.recordedAt.getTime() === at(hours).getTime())
+
+      expect(find(faulty, 2)!.value).toBeCloseTo(find(clean, 2)!.value + 20)
+      expect(find(faulty, 4.5)).toBeUndefined()
+      expect(faulty).toHaveLength(clean.length - 12)
+      expect(find(faulty, 7.5)!.value).toBe(find(faulty, 6)!.value)
+      expect(find(faulty, 11)!.value).toBeCloseTo(find(clean, 11)!.value + 3)
+    })
+  })
+
+  describe('parseFaultSpec', () => {
+    it('should read offsets, durations and magnitudes in hours', () => {
+      expect(parseFaultSpec('drift@6+12:-5', start)).toEqual({
+        type: 'drift',
+        start: at(6),
+        durationMinutes: 720,
+        magnitude: -5,
+      })
+      expect(parseFaultSpec('spike@1.5', start)).toMatchObject({
+        start: at(1.5),
+        durationMinutes: 0,
+      })
+    })
+
+    it('should reject unknown faults and missing durations', () => {
+      expect(() => parseFaultSpec('fire@2', start)).toThrow()
+      expect(() => parseFaultSpec('dropout@2', start)).toThrow()
+    })
+  })
+
+  describe('parseReadingsCsv', () => {
+    it('should read back generated CSV', () => {
+      const readings = simulate().slice(0, 3)
+      const parsed = parseReadingsCsv(toReadingsCsv(readings, 's1'))
+      expect(parsed.errors).toEqual([])
+      expect(parsed.readings).toEqual(
+        readings.map((r) => ({ sensorId: 's1', ...r })),
+      )
+    })
+
+    it('should accept header aliases, sort rows and report bad lines', () => {
+      const { readings, errors } = parseReadingsCsv(
+        'timestamp,value\n2026-06-01T01:00:00Z,22\nnot-a-date,1\n2026-06-01T00:00:00Z,21\n',
+      )
+      expect(readings.map((r) => r.value)).toEqual([21, 22])
+      expect(readings[0].sensorId).toBeNull()
+      expect(errors).toEqual(['Line 3: could not read "not-a-date,1"'])
+    })
+
+    it('should require time and value columns', () => {
+      expect(parseReadingsCsv('when,reading\n').errors).toHaveLength(1)
+    })
+  })
+
+  describe('planReplay', () => {
+    const readings = [
+      { sensorId: 'a', value: 1, recordedAt: at(0) },
+      { sensorId: 'b', value: 2, recordedAt: at(0) },
+      { sensorId: 'a', value: 3, recordedAt: at(1) },
+    ]
+
+    it('should group readings by time and compress the gaps', () => {
+      const steps = planReplay(readings, { speed: 3600 })
+      expect(steps).toHaveLength(2)
+      expect(steps[0].readings).toHaveLength(2)
+      expect(steps[1].delayMs).toBe(1000)
+      expect(steps[1].now).toEqual(at(1))
+    })
+
+    it('should shift the recording to end at the given time', () => {
+      const endAt = at(100)
+      const steps = planReplay(readings, { speed: 60, endAt })
+      expect(steps[1].now).toEqual(endAt)
+      expect(steps[0].readings[0].recordedAt).toEqual(at(99))
+      expect(steps[1].delayMs).toBe(60 * 1000)
+    })
+  })
+
+  describe('listPeriodStarts', () => {
+    it('should cover every hour touched by the range', () => {
+      const starts = listPeriodStarts(
+        new Date(at(0).getTime() + 30 * 60 * 1000),
+        new Date(at(2).getTime() + 10 * 60 * 1000),
+        'hourly',
+      )
+      expect(starts).toHaveLength(3)
+    })
+  })
+})
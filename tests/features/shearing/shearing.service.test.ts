@@ -0,0 +1,185 @@
+import { describe, expect, it } from 'vitest'
+import type { CreateShearingRecordInput } from '~/features/shearing/types'
+import {
+  buildShearingSummary,
+  calculateAverageFleeceWeight,
+  calculateCleanWeight,
+  getMicronClass,
+  validateShearingData,
+  validateUpdateData,
+} from '~/features/shearing/service'
+
+describe('Shearing Service', () => {
+  describe('validateShearingData', () => {
+    const validData: CreateShearingRecordInput = {
+      batchId: 'batch-1',
+      date: new Date('2025-10-01'),
+      fleeceCount: 120,
+      greasyWeightKg: 540,
+      micronGrade: 19.5,
+      yieldPercent: 65,
+    }
+
+    it('should accept valid data', () => {
+      expect(validateShearingData(validData)).toBeNull()
+    })
+
+    it('should accept a clip without quality measurements', () => {
+      expect(
+        validateShearingData({
+          ...validData,
+          micronGrade: null,
+          yieldPercent: null,
+        }),
+      ).toBeNull()
+    })
+
+    it('should reject empty batch ID', () => {
+      expect(validateShearingData({ ...validData, batchId: ' ' })).toBe(
+        'Batch ID is required',
+      )
+    })
+
+    it('should reject an invalid date', () => {
+      expect(
+        validateShearingData({ ...validData, date: new Date('invalid') }),
+      ).toBe('Valid shearing date is required')
+    })
+
+    it('should reject a fractional or zero fleece count', () => {
+      expect(validateShearingData({ ...validData, fleeceCount: 0 })).toBe(
+        'Fleece count must be a whole number greater than 0',
+      )
+      expect(validateShearingData({ ...validData, fleeceCount: 1.5 })).toBe(
+        'Fleece count must be a whole number greater than 0',
+      )
+    })
+
+    it('should reject a zero greasy weight', () => {
+      expect(validateShearingData({ ...validData, greasyWeightKg: 0 })).toBe(
+        'Greasy weight must be greater than 0',
+      )
+    })
+
+    it('should reject a micron grade out of range', () => {
+      expect(validateShearingData({ ...validData, micronGrade: 9 })).toBe(
+        'Micron grade must be between 10 and 50',
+      )
+      expect(validateShearingData({ ...validData, micronGrade: 51 })).toBe(
+        'Micron grade must be between 10 and 50',
+      )
+    })
+
+    it('should reject a yield out of range', () => {
+      expect(validateShearingData({ ...validData, yieldPercent: 0 })).toBe(
+        'Yield must be greater than 0 and at most 100%',
+      )
+      expect(validateShearingData({ ...validData, yieldPercent: 101 })).toBe(
+        'Yield must be greater than 0 and at most 100%',
+      )
+    })
+  })
+
+  describe('validateUpdateData', () => {
+    it('should accept partial updates', () => {
+      expect(validateUpdateData({ notes: 'Crutched first' })).toBeNull()
+      expect(validateUpdateData({ micronGrade: null })).toBeNull()
+    })
+
+    it('should reject an invalid date', () => {
+      expect(validateUpdateData({ date: new Date('invalid') })).toBe(
+        'Date must be a valid date',
+      )
+    })
+
+    it('should validate clip fields that are present', () => {
+      expect(validateUpdateData({ greasyWeightKg: -2 })).toBe(
+        'Greasy weight must be greater than 0',
+      )
+    })
+  })
+
+  describe('calculateCleanWeight', () => {
+    it('should apply the yield to the greasy weight', () => {
+      expect(calculateCleanWeight(500, 65)).toBe(325)
+      expect(calculateCleanWeight('123.45', '62.50')).toBe(77.16)
+    })
+
+    it('should return null without a yield', () => {
+      expect(calculateCleanWeight(500, null)).toBeNull()
+    })
+  })
+
+  describe('calculateAverageFleeceWeight', () => {
+    it('should divide the clip by the fleeces', () => {
+      expect(calculateAverageFleeceWeight(540, 120)).toBe(4.5)
+    })
+
+    it('should return 0 without fleeces', () => {
+      expect(calculateAverageFleeceWeight(540, 0)).toBe(0)
+    })
+  })
+
+  describe('getMicronClass', () => {
+    it('should classify by upper micron bound', () => {
+      expect(getMicronClass(17.8)).toBe('superfine')
+      expect(getMicronClass(18.5)).toBe('superfine')
+      expect(getMicronClass(19.5)).toBe('fine')
+      expect(getMicronClass(21)).toBe('medium')
+      expect(getMicronClass(28)).toBe('strong')
+    })
+  })
+
+  describe('buildShearingSummary', () => {
+    it('should weight micron by greasy weight and count clean wool with a yield', () => {
+      expect(
+        buildShearingSummary([
+          {
+            fleeceCount: 100,
+            greasyWeightKg: '450.00',
+            micronGrade: '19.0',
+            yieldPercent: '60.00',
+          },
+          {
+            fleeceCount: 50,
+            greasyWeightKg: '150.00',
+            micronGrade: '23.0',
+            yieldPercent: null,
+          },
+        ]),
+      ).toEqual({
+        fleeceCount: 150,
+        greasyWeightKg: 600,
+        cleanWeightKg: 270,
+        averageFleeceWeightKg: 4,
+        averageMicron: 20,
+        recordCount: 2,
+      })
+    })
+
+    it('should leave micron empty when no clip was tested', () => {
+      const summary = buildShearingSummary([
+        {
+          fleeceCount: 10,
+          greasyWeightKg: '40.00',
+          micronGrade: null,
+          yieldPercent: null,
+        },
+      ])
+
+      expect(summary.averageMicron).toBeNull()
+      expect(summary.cleanWeightKg).toBe(0)
+    })
+
+    it('should return zeros for no records', () => {
+      expect(buildShearingSummary([])).toEqual({
+        fleeceCount: 0,
+        greasyWeightKg: 0,
+        cleanWeightKg: 0,
+        averageFleeceWeightKg: 0,
+        averageMicron: null,
+        recordCount: 0,
+      })
+    })
+  })
+})
@@ -12,7 +12,9 @@ import {
   calculateComplianceRate,
   calculateNextVaccinationDate,
   calculateWithdrawalDaysRemaining,
+  calculateWithdrawalEndDate,
   determineVaccinationStatus,
+  getActiveWithdrawal,
   getUpcomingVaccinations,
   isInWithdrawalPeriod,
   mapSortColumnToDbColumn,
@@ -524,6 +526,74 @@ describe('Vaccination Service', () => {
     })
   })
 
+  describe('calculateWithdrawalEndDate', () => {
+    it('should add the withdrawal days to the treatment date', () => {
+      expect(calculateWithdrawalEndDate(new Date('2024-01-01'), 7)).toEqual(
+        new Date('2024-01-08'),
+      )
+    })
+
+    it('should treat negative days as no withdrawal', () => {
+      expect(calculateWithdrawalEndDate(new Date('2024-01-01'), -3)).toEqual(
+        new Date('2024-01-01'),
+      )
+    })
+  })
+
+  describe('getActiveWithdrawal', () => {
+    const treatments = [
+      {
+        batchId: 'batch-1',
+        medicationName: 'Oxytetracycline',
+        date: new Date('2024-01-01'),
+        withdrawalDays: 7,
+      },
+      {
+        batchId: 'batch-1',
+        medicationName: 'Ivermectin',
+        date: new Date('2024-01-03'),
+        withdrawalDays: 14,
+      },
+    ]
+
+    it('should return the latest clearance and every holding medication', () => {
+      expect(getActiveWithdrawal(treatments, new Date('2024-01-05'))).toEqual({
+        clearsOn: new Date('2024-01-18'),
+        medications: ['Oxytetracycline', 'Ivermectin'],
+      })
+    })
+
+    it('should drop treatments whose withdrawal has elapsed', () => {
+      expect(getActiveWithdrawal(treatments, new Date('2024-01-09'))).toEqual({
+        clearsOn: new Date('2024-01-18'),
+        medications: ['Ivermectin'],
+      })
+    })
+
+    it('should still block on the last day of withdrawal', () => {
+      expect(
+        getActiveWithdrawal([treatments[0]], new Date('2024-01-08')),
+      ).not.toBeNull()
+    })
+
+    it('should return null once every withdrawal has cleared', () => {
+      expect(getActiveWithdrawal(treatments, new Date('2024-01-18'))).toBeNull()
+    })
+
+    it('should ignore treatments given after the date', () => {
+      expect(getActiveWithdrawal(treatments, new Date('2023-12-31'))).toBeNull()
+    })
+
+    it('should ignore treatments without a withdrawal period', () => {
+      expect(
+        getActiveWithdrawal(
+          [{ ...treatments[0], withdrawalDays: 0 }],
+          new Date('2024-01-01'),
+        ),
+      ).toBeNull()
+    })
+  })
+
   describe('Property-based tests', () => {
     describe('calculateComplianceRate properties', () => {
       it('should always return a value between 0 and 100', () => {
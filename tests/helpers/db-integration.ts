@@ -17,7 +17,7 @@ let currentTrx: Transaction<Database> | null = null
 export function getTestDb(): Kysely<Database> {
   // If we're in a transaction, return the transaction
   if (currentTrx) {
-    return currentTrx as unknown as Kysely<Database>
+    return currentTrx
   }
 
   if (!testDb) {
@@ -100,6 +100,7 @@ export async function truncateAllTables(): Promise<void> {
       invoice_items, water_quality, treatments, vaccinations, weight_samples, 
       egg_records, feed_records, mortality_records, sales, expenses, batches,
       invoices, structures, medication_inventory, feed_inventory, notifications, 
+      report_access_logs, credit_reports, signing_keys,
       audit_logs, farm_modules, user_farms, customers, suppliers, user_settings,
       sessions, account, verification, farms, users
     RESTART IDENTITY CASCADE
@@ -179,6 +180,7 @@ export async function seedTestUser(
       lowStockThresholdPercent: 10,
       mortalityAlertPercent: 5,
       mortalityAlertQuantity: 10,
+      fcrAlertTolerancePercent: 20,
       notifications: {
         lowStock: true,
         highMortality: true,
@@ -0,0 +1,116 @@
+import { afterAll, afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { utils } from '@noble/ed25519'
+import {
+  closeTestDb,
+  getTestDb,
+  seedTestFarm,
+  seedTestUser,
+  truncateAllTables,
+} from '../helpers/db-integration'
+import {
+  checkReportSignature,
+  getActiveSigningKey,
+  issueSignedReport,
+} from '~/features/credit-passport/key-registry-server'
+import {
+  getSigningKeyByKeyId,
+  revokeSigningKey,
+} from '~/features/credit-passport/key-registry-repository'
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('')
+
+describe.skipIf(!process.env.DATABASE_URL_TEST)(
+  'Credit Passport Signing Integration Tests',
+  () => {
+    const originalKey = process.env.CREDIT_PASSPORT_SIGNING_KEY
+    let userId: string
+    let farmId: string
+
+    beforeEach(async () => {
+      if (!process.env.DATABASE_URL_TEST) return
+      await truncateAllTables()
+
+      const user = await seedTestUser({ email: 'farmer@test.com' })
+      userId = user.userId
+
+      const farm = await seedTestFarm(userId, {
+        name: 'Test Farm',
+        type: 'poultry',
+        modules: ['poultry'],
+      })
+      farmId = farm.farmId
+    })
+
+    afterEach(() => {
+      process.env.CREDIT_PASSPORT_SIGNING_KEY = originalKey
+    })
+
+    afterAll(async () => {
+      await closeTestDb()
+    })
+
+    it('keeps old reports valid across a rotation until their key is revoked', async () => {
+      if (!process.env.DATABASE_URL_TEST) return
+
+      const db = getTestDb()
+      const issuedAt = new Date('2025-01-10T09:30:00.123Z')
+
+      process.env.CREDIT_PASSPORT_SIGNING_KEY = toHex(utils.randomPrivateKey())
+      const reportId = await issueSignedReport(
+        db,
+        {
+          userId,
+          farmIds: [farmId],
+          batchIds: [],
+          reportType: 'credit_assessment',
+          startDate: new Date('2024-07-01'),
+          endDate: new Date('2024-12-31'),
+          validityDays: 90,
+          expiresAt: new Date('2025-04-10T09:30:00.123Z'),
+          pdfUrl: null,
+          metricsSnapshot: {
+            creditScore: { score: 72.5, grade: 'B' },
+            financial: { totalRevenue: 1500.75, profitMargin: 0.1 },
+          },
+          status: 'active',
+          customNotes: null,
+          whiteLabel: false,
+        },
+        issuedAt,
+      )
+
+      const signed = await checkReportSignature(db, reportId)
+      const firstKeyId = signed.signature.keyId
+      expect(signed.verification.valid).toBe(true)
+
+      // Replacing the secret registers the new key and retires the old one
+      process.env.CREDIT_PASSPORT_SIGNING_KEY = toHex(utils.randomPrivateKey())
+      const rotated = await getActiveSigningKey(
+        db,
+        new Date('2025-02-01T00:00:00Z'),
+      )
+      expect(rotated.keyId).not.toBe(firstKeyId)
+      expect((await getSigningKeyByKeyId(db, firstKeyId))?.status).toBe(
+        'retired',
+      )
+
+      const afterRotation = await checkReportSignature(db, reportId)
+      expect(afterRotation.verification.valid).toBe(true)
+      expect(afterRotation.verification.keyStatus).toBe('retired')
+
+      await revokeSigningKey(
+        db,
+        firstKeyId,
+        'Key leaked in a build log',
+        new Date('2025-03-01T00:00:00Z'),
+      )
+
+      const afterRevocation = await checkReportSignature(db, reportId)
+      expect(afterRevocation.verification.valid).toBe(false)
+      expect(afterRevocation.verification.keyFailure).toBe('key_revoked')
+    })
+  },
+)
@@ -0,0 +1,104 @@
+import { afterAll, beforeEach, describe, expect, it } from 'vitest'
+import {
+  closeTestDb,
+  getTestDb,
+  truncateAllTables,
+} from '../helpers/db-integration'
+import { ingestSensorReadings } from '~/features/sensors/ingestion'
+
+describe.skipIf(!process.env.DATABASE_URL_TEST)(
+  'Sensor Ingestion Integration Tests',
+  () => {
+    let sensor: {
+      id: string
+      farmId: string
+      name: string
+      sensorType: 'temperature'
+      thresholds: null
+      trendConfig: null
+    }
+
+    beforeEach(async () => {
+      if (!process.env.DATABASE_URL_TEST) return
+      await truncateAllTables()
+
+      const db = getTestDb()
+      // No farm members, so alerts are recorded without sending notifications
+      const farm = await db
+        .insertInto('farms')
+        .values({
+          name: 'Sensor Farm',
+          location: 'Test Location',
+          type: 'poultry',
+        })
+        .returning('id')
+        .executeTakeFirstOrThrow()
+
+      const row = await db
+        .insertInto('sensors')
+        .values({
+          farmId: farm.id,
+          structureId: null,
+          name: 'House 1 Temperature',
+          sensorType: 'temperature',
+          apiKeyHash: 'test-hash',
+          pollingIntervalMinutes: 15,
+          lastReadingAt: null,
+          lastUsedAt: null,
+          gatewayId: null,
+          channel: null,
+          thresholds: null,
+          trendConfig: null,
+          derivedFrom: null,
+          deletedAt: null,
+        })
+        .returning('id')
+        .executeTakeFirstOrThrow()
+
+      sensor = {
+        id: row.id,
+        farmId: farm.id,
+        name: 'House 1 Temperature',
+        sensorType: 'temperature',
+        thresholds: null,
+        trendConfig: null,
+      }
+    })
+
+    afterAll(async () => {
+      await closeTestDb()
+    })
+
+    it('does not alert again when the same batch is uploaded twice', async () => {
+      if (!process.env.DATABASE_URL_TEST) return
+
+      const db = getTestDb()
+      // Alerts are stamped by the database clock, so the batch is recent
+      const now = new Date()
+      const batch = [
+        { value: 35, recordedAt: new Date(now.getTime() - 20 * 60 * 1000) },
+        { value: 36, recordedAt: new Date(now.getTime() - 5 * 60 * 1000) },
+      ]
+
+      const first = await ingestSensorReadings(db, sensor, batch, now)
+      expect(first.stored).toBe(2)
+      expect(first.alertsRaised).toBe(1)
+
+      // Retried after the alert cooldown has passed
+      const second = await ingestSensorReadings(
+        db,
+        sensor,
+        batch,
+        new Date(now.getTime() + 2 * 60 * 60 * 1000),
+      )
+      expect(second).toEqual({ stored: 0, anomalies: 0, alertsRaised: 0 })
+
+      const alerts = await db
+        .selectFrom('sensor_alerts')
+        .select('id')
+        .where('sensorId', '=', sensor.id)
+        .execute()
+      expect(alerts).toHaveLength(1)
+    })
+  },
+)
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { escapeCsvValue, toCsv } from '~/lib/export/csv'
+
+describe('CSV export', () => {
+  describe('escapeCsvValue', () => {
+    it('leaves plain values untouched', () => {
+      expect(escapeCsvValue('broiler')).toBe('broiler')
+      expect(escapeCsvValue(1250.5)).toBe('1250.5')
+      expect(escapeCsvValue(null)).toBe('')
+      expect(escapeCsvValue(undefined)).toBe('')
+    })
+
+    it('quotes values containing commas', () => {
+      expect(escapeCsvValue('Mama Put, Lagos')).toBe('"Mama Put, Lagos"')
+    })
+
+    it('doubles embedded quotes', () => {
+      expect(escapeCsvValue('The "Big" Buyer')).toBe('"The ""Big"" Buyer"')
+    })
+
+    it('quotes values containing line breaks', () => {
+      expect(escapeCsvValue('line one\nline two')).toBe('"line one\nline two"')
+    })
+  })
+
+  describe('toCsv', () => {
+    it('joins rows and keeps each free-text value in one column', () => {
+      const csv = toCsv([
+        ['Date', 'Customer', 'Total'],
+        ['2025-01-10', 'Adamu, Sons & "Co"', 250],
+        [],
+      ])
+
+      expect(csv).toBe(
+        'Date,Customer,Total\n2025-01-10,"Adamu, Sons & ""Co""",250\n\n',
+      )
+    })
+  })
+})
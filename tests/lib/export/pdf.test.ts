@@ -0,0 +1,291 @@
+import { describe, expect, it } from 'vitest'
+import type { ReportPDFOptions } from '~/lib/export/pdf'
+import {
+  generateInvoicePDF,
+  generatePaymentReceiptPDF,
+  generateReportPDF,
+  pdfToBase64,
+} from '~/lib/export/pdf'
+import { DEFAULT_SETTINGS } from '~/features/settings/currency-presets'
+
+const NGN_SETTINGS = {
+  ...DEFAULT_SETTINGS,
+  currencySymbol: '₦',
+  dateFormat: 'DD/MM/YYYY' as const,
+}
+
+function pdfHeader(bytes: Uint8Array): string {
+  return new TextDecoder().decode(bytes.subarray(0, 5))
+}
+
+const period = {
+  startDate: new Date('2025-01-01'),
+  endDate: new Date('2025-01-31'),
+}
+
+const reports: Array<ReportPDFOptions> = [
+  {
+    reportType: 'profit-loss',
+    period,
+    report: {
+      period,
+      revenue: { total: 5000, byType: [{ type: 'poultry', amount: 5000 }] },
+      expenses: {
+        total: 2000,
+        byCategory: [{ category: 'feed', amount: 2000 }],
+      },
+      profit: 3000,
+      profitMargin: 60,
+      wool: null,
+    },
+  },
+  {
+    reportType: 'inventory',
+    report: {
+      batches: [
+        {
+          id: 'b1',
+          species: 'broiler',
+          livestockType: 'poultry',
+          initialQuantity: 100,
+          currentQuantity: 95,
+          mortalityCount: 5,
+          mortalityRate: 5,
+          status: 'active',
+        },
+      ],
+      summary: {
+        totalPoultry: 95,
+        totalFish: 0,
+        totalMortality: 5,
+        overallMortalityRate: 5,
+      },
+    },
+  },
+  {
+    reportType: 'sales',
+    period,
+    report: {
+      period,
+      sales: [
+        {
+          id: 's1',
+          date: new Date('2025-01-10'),
+          livestockType: 'poultry',
+          quantity: 10,
+          unitPrice: 25,
+          totalAmount: 250,
+          customerName: 'Mama Put, Lagos',
+        },
+      ],
+      summary: {
+        totalSales: 1,
+        totalRevenue: 250,
+        byType: [{ type: 'poultry', quantity: 10, revenue: 250 }],
+      },
+    },
+  },
+  {
+    reportType: 'feed',
+    period,
+    report: {
+      period,
+      records: [
+        {
+          batchId: 'b1',
+          species: 'broiler',
+          feedType: 'starter',
+          totalQuantityKg: 50,
+          totalCost: 400,
+        },
+      ],
+      summary: {
+        totalFeedKg: 50,
+        totalCost: 400,
+        byFeedType: [{ type: 'starter', quantityKg: 50, cost: 400 }],
+      },
+      fcr: [
+        {
+          batchId: 'b1',
+          species: 'broiler',
+          cumulativeFcr: 1.7,
+          periodFcr: 1.9,
+          targetFcr: 1.8,
+        },
+      ],
+    },
+  },
+  {
+    reportType: 'eggs',
+    period,
+    report: {
+      period,
+      records: [
+        {
+          date: new Date('2025-01-05'),
+          collected: 90,
+          broken: 2,
+          sold: 60,
+          inventory: 28,
+        },
+      ],
+      summary: {
+        totalCollected: 90,
+        totalBroken: 2,
+        totalSold: 60,
+        currentInventory: 28,
+        averageLayingPercentage: 90,
+      },
+    },
+  },
+  {
+    reportType: 'milk',
+    period,
+    report: {
+      period,
+      records: [
+        {
+          date: new Date('2025-01-05'),
+          morning: 42,
+          evening: 38,
+          total: 80,
+          rejected: 5,
+          saleable: 75,
+          averageButterfat: null,
+        },
+      ],
+      summary: {
+        totalLiters: 80,
+        totalRejected: 5,
+        totalSaleable: 75,
+        totalSold: 60,
+        averageDailyYield: 80,
+        averageYieldPerAnimal: 16,
+        averageButterfat: null,
+      },
+    },
+  },
+  {
+    reportType: 'apiary',
+    period,
+    report: {
+      period,
+      records: [
+        {
+          hiveName: 'Hive A',
+          status: 'active',
+          honeyKg: 18.5,
+          waxKg: 1.2,
+          inspections: 3,
+          lastInspection: new Date('2025-01-20'),
+          latestVarroaCount: null,
+          needsAttention: false,
+        },
+      ],
+      summary: {
+        colonyCount: 1,
+        totalHoneyKg: 18.5,
+        totalWaxKg: 1.2,
+        honeyPerColony: 18.5,
+        waxPerColony: 1.2,
+        hivesNeedingAttention: 0,
+      },
+    },
+  },
+  {
+    reportType: 'breeding',
+    period,
+    report: {
+      period,
+      records: [
+        {
+          batchName: 'Does 2025',
+          livestockType: 'goats',
+          femalesBred: 12,
+          awaitingBirth: 1,
+          liveBorn: 0,
+          stillborn: 0,
+          weaned: 0,
+          kiddingRate: null,
+        },
+      ],
+      summary: {
+        matings: 1,
+        femalesBred: 12,
+        awaitingBirth: 1,
+        overdue: 0,
+        births: 0,
+        liveBorn: 0,
+        stillborn: 0,
+        weaned: 0,
+        kiddingRate: null,
+        weaningPercent: null,
+        calvingIntervalDays: null,
+      },
+    },
+  },
+]
+
+describe('PDF export', () => {
+  it('renders an invoice PDF', async () => {
+    const pdf = await generateInvoicePDF(
+      {
+        invoiceNumber: 'INV-2025-0001',
+        date: new Date('2025-01-15'),
+        dueDate: new Date('2025-02-15'),
+        status: 'partial',
+        farmName: 'Sunrise Farm',
+        farmLocation: 'Kaduna',
+        customerName: 'Golden Restaurant',
+        customerPhone: '+2348000000000',
+        customerEmail: null,
+        customerLocation: null,
+        items: [
+          {
+            description: 'Broilers',
+            quantity: 20,
+            unitPrice: 4500,
+            total: 90000,
+          },
+        ],
+        totalAmount: 90000,
+        notes: 'Deliver before noon',
+      },
+      NGN_SETTINGS,
+    )
+
+    expect(pdfHeader(pdf)).toBe('%PDF-')
+  })
+
+  it.each(reports.map((r) => [r.reportType, r] as const))(
+    'renders a %s report PDF',
+    async (_type, options) => {
+      const pdf = await generateReportPDF(options, NGN_SETTINGS)
+      expect(pdfHeader(pdf)).toBe('%PDF-')
+    },
+  )
+
+  it('renders a payment receipt PDF with default settings', async () => {
+    const pdf = await generatePaymentReceiptPDF({
+      receiptNumber: 'PAY-ABC12345',
+      paymentDate: new Date('2025-02-01'),
+      farmName: 'Sunrise Farm',
+      workerName: 'Musa',
+      periodStart: new Date('2025-01-01'),
+      periodEnd: new Date('2025-01-31'),
+      totalHours: 160,
+      wageRate: 500,
+      wageRateType: 'hourly',
+      grossWages: 80000,
+      amountPaid: 80000,
+      paymentMethod: 'mobile_money',
+    })
+
+    expect(pdfHeader(pdf)).toBe('%PDF-')
+  })
+
+  it('encodes PDF bytes as base64', () => {
+    const bytes = new TextEncoder().encode('%PDF-1.3')
+    expect(pdfToBase64(bytes)).toBe('JVBERi0xLjM=')
+  })
+})
@@ -0,0 +1,259 @@
+import { describe, expect, it } from 'vitest'
+import type { ReportXLSXOptions } from '~/lib/export/xlsx'
+import { buildReportSheets, generateReportXLSX } from '~/lib/export/xlsx'
+import { DEFAULT_SETTINGS } from '~/features/settings/currency-presets'
+
+const period = {
+  startDate: new Date('2025-01-01'),
+  endDate: new Date('2025-01-31'),
+}
+
+const profitLoss: ReportXLSXOptions = {
+  reportType: 'profit-loss',
+  period,
+  report: {
+    period,
+    revenue: { total: 5000, byType: [{ type: 'poultry', amount: 5000 }] },
+    expenses: {
+      total: 2000,
+      byCategory: [
+        { category: 'feed', amount: 1500 },
+        { category: 'labor', amount: 500 },
+      ],
+    },
+    profit: 3000,
+    profitMargin: 60,
+    wool: null,
+  },
+}
+
+const inventory: ReportXLSXOptions = {
+  reportType: 'inventory',
+  report: {
+    batches: [],
+    summary: {
+      totalPoultry: 0,
+      totalFish: 0,
+      totalMortality: 0,
+      overallMortalityRate: 0,
+    },
+  },
+  stock: {
+    feed: [
+      {
+        id: 'f1',
+        farmId: 'farm-1',
+        feedType: 'starter',
+        quantityKg: '120.50',
+        minThresholdKg: '50.00',
+        updatedAt: new Date('2025-01-20'),
+        farmName: 'Sunrise Farm',
+      },
+    ],
+    medication: [],
+    supplies: [],
+  },
+}
+
+const milk: ReportXLSXOptions = {
+  reportType: 'milk',
+  period,
+  report: {
+    period,
+    records: [
+      {
+        date: new Date('2025-01-05'),
+        morning: 42,
+        evening: 38,
+        total: 80,
+        rejected: 0,
+        saleable: 80,
+        averageButterfat: 4.2,
+      },
+    ],
+    summary: {
+      totalLiters: 80,
+      totalRejected: 0,
+      totalSaleable: 80,
+      totalSold: 50,
+      averageDailyYield: 80,
+      averageYieldPerAnimal: 16,
+      averageButterfat: 4.2,
+    },
+  },
+}
+
+const apiary: ReportXLSXOptions = {
+  reportType: 'apiary',
+  period,
+  report: {
+    period,
+    records: [
+      {
+        hiveName: 'Hive A',
+        status: 'active',
+        honeyKg: 18.5,
+        waxKg: 1.2,
+        inspections: 3,
+        lastInspection: new Date('2025-01-20'),
+        latestVarroaCount: null,
+        needsAttention: false,
+      },
+    ],
+    summary: {
+      colonyCount: 1,
+      totalHoneyKg: 18.5,
+      totalWaxKg: 1.2,
+      honeyPerColony: 18.5,
+      waxPerColony: 1.2,
+      hivesNeedingAttention: 0,
+    },
+  },
+}
+
+const breeding: ReportXLSXOptions = {
+  reportType: 'breeding',
+  period,
+  report: {
+    period,
+    records: [
+      {
+        batchName: 'Does 2025',
+        livestockType: 'goats',
+        femalesBred: 12,
+        awaitingBirth: 1,
+        liveBorn: 0,
+        stillborn: 0,
+        weaned: 0,
+        kiddingRate: null,
+      },
+    ],
+    summary: {
+      matings: 1,
+      femalesBred: 12,
+      awaitingBirth: 1,
+      overdue: 0,
+      births: 0,
+      liveBorn: 0,
+      stillborn: 0,
+      weaned: 0,
+      kiddingRate: null,
+      weaningPercent: null,
+      calvingIntervalDays: null,
+    },
+  },
+}
+
+describe('XLSX export', () => {
+  it('splits profit & loss into summary, revenue and expense sheets', () => {
+    const sheets = buildReportSheets(profitLoss)
+
+    expect(sheets.map((s) => s.name)).toEqual([
+      'Summary',
+      'Revenue',
+      'Expenses',
+    ])
+    // header + 2 categories + total
+    expect(sheets[2].rows).toHaveLength(4)
+  })
+
+  it('adds wool attribution to the profit & loss summary', () => {
+    const [summary] = buildReportSheets({
+      ...profitLoss,
+      report: {
+        ...profitLoss.report,
+        wool: {
+          fleeceCount: 100,
+          greasyWeightKg: 450,
+          cleanWeightKg: 270,
+          revenue: 900,
+          revenuePerFleece: 9,
+          revenuePerKg: 2,
+        },
+      },
+    })
+
+    expect(summary.rows).toContainEqual([
+      expect.objectContaining({ value: 'Wool Revenue' }),
+      expect.objectContaining({ value: 900, type: Number }),
+    ])
+  })
+
+  it('writes amounts as typed numeric cells with a currency format', () => {
+    const settings = {
+      ...DEFAULT_SETTINGS,
+      currencySymbol: '₦',
+      currencySymbolPosition: 'before' as const,
+      currencyDecimals: 2,
+    }
+    const [, revenue] = buildReportSheets(profitLoss, settings)
+
+    expect(revenue.rows[1][1]).toEqual({
+      value: 5000,
+      type: Number,
+      format: '"₦"#,##0.00',
+    })
+  })
+
+  it('writes dates as date cells in the preferred order', () => {
+    const settings = { ...DEFAULT_SETTINGS, dateFormat: 'DD/MM/YYYY' as const }
+    const [summary] = buildReportSheets(profitLoss, settings)
+
+    expect(summary.rows).toContainEqual([
+      'From',
+      { value: period.startDate, type: Date, format: 'dd/mm/yyyy' },
+    ])
+  })
+
+  it('adds feed, medication and supplies sheets to inventory workbooks', () => {
+    const sheets = buildReportSheets(inventory)
+
+    expect(sheets.map((s) => s.name)).toEqual([
+      'Summary',
+      'Batches',
+      'Feed',
+      'Medication',
+      'Supplies',
+    ])
+    expect(sheets[2].rows[1][2]).toMatchObject({ value: 120.5, type: Number })
+  })
+
+  it('omits stock sheets when no stock is supplied', () => {
+    const sheets = buildReportSheets({ ...inventory, stock: undefined })
+    expect(sheets.map((s) => s.name)).toEqual(['Summary', 'Batches'])
+  })
+
+  it('writes milk butterfat as a percentage cell', () => {
+    const [, daily] = buildReportSheets(milk)
+
+    expect(daily.name).toBe('Daily Records')
+    expect(daily.rows[1][5]).toEqual({
+      value: 0.042,
+      type: Number,
+      format: '0.00%',
+    })
+  })
+
+  it('leaves a missing varroa count as an empty cell', () => {
+    const [, hives] = buildReportSheets(apiary)
+
+    expect(hives.name).toBe('Hives')
+    expect(hives.rows[1][5]).toBeNull()
+    expect(hives.rows[1][6]).toMatchObject({ value: 'No' })
+  })
+
+  it('leaves rates without concluded matings as empty cells', () => {
+    const [summary, batches] = buildReportSheets(breeding)
+
+    expect(batches.name).toBe('Batches')
+    expect(batches.rows[1][7]).toBeNull()
+    expect(summary.rows.at(-3)?.[1]).toBeNull()
+  })
+
+  it('produces a zipped workbook', async () => {
+    const bytes = await generateReportXLSX(profitLoss)
+    // XLSX files are zip archives: "PK" signature
+    expect(bytes[0]).toBe(0x50)
+    expect(bytes[1]).toBe(0x4b)
+  })
+})